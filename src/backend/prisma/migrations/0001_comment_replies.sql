@@ -0,0 +1,17 @@
+-- PostgreSQL 15+ Migration: Comment Threading
+-- Description: Adds edit tracking to comments and enforces single-level reply threads
+-- Version: 0001_comment_replies
+-- Created At: CURRENT_TIMESTAMP
+
+-- Track whether a comment has been edited by its author
+ALTER TABLE comments
+    ADD COLUMN IF NOT EXISTS is_edited BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Reply Lookup Index (top-level comments per task)
+CREATE INDEX IF NOT EXISTS idx_comments_task_top_level
+    ON comments (task_id, created_at DESC)
+    WHERE parent_id IS NULL AND deleted_at IS NULL;
+
+-- Add Column Comments
+COMMENT ON COLUMN comments.parent_id IS 'Top-level comment this reply belongs to; replies cannot be nested further';
+COMMENT ON COLUMN comments.is_edited IS 'Whether the comment content was changed after creation';
@@ -0,0 +1,26 @@
+-- PostgreSQL 15+ Migration: Attachment Metadata
+-- Description: Adds project scoping and optimistic locking to attachments served by the attachments API
+-- Version: 0002_attachment_metadata
+-- Created At: CURRENT_TIMESTAMP
+
+-- Project scoping and versioning columns
+ALTER TABLE attachments
+    ADD COLUMN IF NOT EXISTS project_id UUID REFERENCES projects(id),
+    ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+-- Checksums are stored with the encrypted object in storage
+ALTER TABLE attachments
+    ALTER COLUMN content_hash DROP NOT NULL;
+
+-- Attachments Indexes
+CREATE INDEX IF NOT EXISTS idx_attachments_project ON attachments (project_id) WHERE deleted_at IS NULL;
+
+-- Updated At Trigger
+CREATE TRIGGER update_attachments_updated_at
+    BEFORE UPDATE ON attachments
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at();
+
+-- Add Column Comments
+COMMENT ON COLUMN attachments.project_id IS 'Project of the parent task, used for storage key scoping';
@@ -0,0 +1,21 @@
+-- PostgreSQL 15+ Migration: Task Dependencies
+-- Description: Adds blocks/blocked-by links between tasks; cycles are rejected by the application
+-- Version: 0003_task_dependencies
+-- Created At: CURRENT_TIMESTAMP
+
+-- Task Dependencies Table
+CREATE TABLE IF NOT EXISTS task_dependencies (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    blocker_id UUID NOT NULL REFERENCES tasks(id),
+    blocked_id UUID NOT NULL REFERENCES tasks(id),
+    created_by UUID NOT NULL REFERENCES users(id),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT task_dependencies_unique UNIQUE (blocker_id, blocked_id),
+    CONSTRAINT task_dependencies_self_check CHECK (blocker_id <> blocked_id)
+);
+
+-- Task Dependencies Indexes
+CREATE INDEX IF NOT EXISTS idx_task_dependencies_blocked ON task_dependencies (blocked_id);
+
+-- Add Table Comments
+COMMENT ON TABLE task_dependencies IS 'Directed links where blocker_id must be completed before blocked_id can start';
@@ -0,0 +1,39 @@
+-- PostgreSQL 15+ Migration: Subtasks and Checklists
+-- Description: Adds a bounded parent/child relation between tasks and checklist items inside a task
+-- Version: 0004_subtasks_checklists
+-- Created At: CURRENT_TIMESTAMP
+
+-- Subtask Columns
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES tasks(id);
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS depth INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE tasks DROP CONSTRAINT IF EXISTS tasks_parent_check;
+ALTER TABLE tasks ADD CONSTRAINT tasks_parent_check CHECK (parent_id IS NULL OR parent_id <> id);
+
+ALTER TABLE tasks DROP CONSTRAINT IF EXISTS tasks_depth_check;
+ALTER TABLE tasks ADD CONSTRAINT tasks_depth_check CHECK (depth BETWEEN 0 AND 2);
+
+CREATE INDEX IF NOT EXISTS idx_tasks_parent ON tasks (parent_id) WHERE deleted_at IS NULL;
+
+-- Checklist Items Table
+CREATE TABLE IF NOT EXISTS checklist_items (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    task_id UUID NOT NULL REFERENCES tasks(id),
+    title VARCHAR(200) NOT NULL,
+    is_completed BOOLEAN NOT NULL DEFAULT FALSE,
+    position INTEGER NOT NULL DEFAULT 0,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    completed_by UUID REFERENCES users(id),
+    created_by UUID NOT NULL REFERENCES users(id),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT checklist_items_title_check CHECK (LENGTH(TRIM(title)) > 0)
+);
+
+-- Checklist Items Indexes
+CREATE INDEX IF NOT EXISTS idx_checklist_items_task ON checklist_items (task_id, position);
+
+-- Add Table Comments
+COMMENT ON COLUMN tasks.parent_id IS 'Parent task for subtasks; NULL for top-level tasks';
+COMMENT ON COLUMN tasks.depth IS 'Nesting level below the top-level task, bounded by the application';
+COMMENT ON TABLE checklist_items IS 'Lightweight to-do items inside a task that count towards its progress';
@@ -0,0 +1,56 @@
+-- PostgreSQL 15+ Migration: Task Recurrence
+-- Description: Adds recurrence rules whose occurrences are materialized as regular tasks
+-- Version: 0005_task_recurrence
+-- Created At: CURRENT_TIMESTAMP
+
+-- Recurrence Enums
+DO $$ BEGIN
+    CREATE TYPE recurrence_frequency AS ENUM ('DAILY', 'WEEKLY', 'MONTHLY', 'CUSTOM');
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE recurrence_trigger AS ENUM ('COMPLETION', 'SCHEDULE');
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
+
+-- Task Recurrences Table
+CREATE TABLE IF NOT EXISTS task_recurrences (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    frequency recurrence_frequency NOT NULL,
+    interval INTEGER NOT NULL DEFAULT 1,
+    by_weekday INTEGER[] NOT NULL DEFAULT '{}',
+    by_month_day INTEGER,
+    rrule VARCHAR(500),
+    business_days_only BOOLEAN NOT NULL DEFAULT FALSE,
+    generate_on recurrence_trigger NOT NULL DEFAULT 'COMPLETION',
+    end_date TIMESTAMP WITH TIME ZONE,
+    count INTEGER,
+    occurrence_count INTEGER NOT NULL DEFAULT 1,
+    next_occurrence_at TIMESTAMP WITH TIME ZONE,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    last_task_id UUID NOT NULL REFERENCES tasks(id),
+    created_by UUID NOT NULL REFERENCES users(id),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT task_recurrences_interval_check CHECK (interval BETWEEN 1 AND 365),
+    CONSTRAINT task_recurrences_month_day_check CHECK (by_month_day IS NULL OR by_month_day BETWEEN 1 AND 31),
+    CONSTRAINT task_recurrences_count_check CHECK (count IS NULL OR count >= 1),
+    CONSTRAINT task_recurrences_rrule_check CHECK (frequency <> 'CUSTOM' OR rrule IS NOT NULL)
+);
+
+-- Occurrence Column
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS recurrence_id UUID REFERENCES task_recurrences(id);
+
+-- Task Recurrences Indexes
+CREATE UNIQUE INDEX IF NOT EXISTS idx_task_recurrences_last_task ON task_recurrences (last_task_id);
+CREATE INDEX IF NOT EXISTS idx_task_recurrences_due ON task_recurrences (next_occurrence_at)
+    WHERE is_active AND generate_on = 'SCHEDULE';
+CREATE INDEX IF NOT EXISTS idx_tasks_recurrence ON tasks (recurrence_id) WHERE recurrence_id IS NOT NULL;
+
+-- Add Table Comments
+COMMENT ON TABLE task_recurrences IS 'Recurrence rules; each occurrence is a regular task referencing its rule';
+COMMENT ON COLUMN task_recurrences.last_task_id IS 'Most recent occurrence, which the next one is derived from';
+COMMENT ON COLUMN task_recurrences.next_occurrence_at IS 'Due date of the next occurrence, or NULL once the rule has ended';
@@ -0,0 +1,34 @@
+-- PostgreSQL 15+ Migration: Change History
+-- Description: Adds a field-level change log for tasks and projects
+-- Version: 0006_change_history
+-- Created At: CURRENT_TIMESTAMP
+
+-- History Entity Enum
+DO $$ BEGIN
+    CREATE TYPE history_entity_type AS ENUM ('TASK', 'PROJECT');
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
+
+-- Change History Table
+CREATE TABLE IF NOT EXISTS change_history (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    entity_type history_entity_type NOT NULL,
+    entity_id UUID NOT NULL,
+    field VARCHAR(100) NOT NULL,
+    old_value JSONB,
+    new_value JSONB,
+    version INTEGER NOT NULL,
+    correlation_id VARCHAR(100),
+    changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    changed_by UUID REFERENCES users(id),
+    CONSTRAINT change_history_version_check CHECK (version > 0)
+);
+
+-- Change History Indexes
+CREATE INDEX IF NOT EXISTS idx_change_history_entity ON change_history (entity_type, entity_id, changed_at DESC);
+
+-- Add Table Comments
+COMMENT ON TABLE change_history IS 'Field-level change log of tasks and projects, written in the same transaction as the update';
+COMMENT ON COLUMN change_history.entity_id IS 'Task or project identifier depending on entity_type; not a foreign key so history outlives deletes';
+COMMENT ON COLUMN change_history.version IS 'Optimistic locking version of the entity after the change';
@@ -0,0 +1,38 @@
+-- PostgreSQL 15+ Migration: Project Members
+-- Description: Adds project membership with per-project roles and backfills project owners
+-- Version: 0007_project_members
+-- Created At: CURRENT_TIMESTAMP
+
+-- Project Role Enum
+DO $$ BEGIN
+    CREATE TYPE project_role AS ENUM ('OWNER', 'MANAGER', 'CONTRIBUTOR', 'VIEWER');
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
+
+-- Project Members Table
+CREATE TABLE IF NOT EXISTS project_members (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id UUID NOT NULL REFERENCES projects(id),
+    user_id UUID NOT NULL REFERENCES users(id),
+    role project_role NOT NULL DEFAULT 'CONTRIBUTOR',
+    joined_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    added_by UUID REFERENCES users(id),
+    deleted_at TIMESTAMP WITH TIME ZONE,
+    CONSTRAINT project_members_unique UNIQUE (project_id, user_id)
+);
+
+-- Project Members Indexes
+CREATE INDEX IF NOT EXISTS idx_project_members_user ON project_members (user_id) WHERE deleted_at IS NULL;
+
+-- Every existing project owner becomes an OWNER member
+INSERT INTO project_members (project_id, user_id, role)
+SELECT id, owner_id, 'OWNER'
+FROM projects
+WHERE deleted_at IS NULL
+ON CONFLICT (project_id, user_id) DO NOTHING;
+
+-- Add Table Comments
+COMMENT ON TABLE project_members IS 'Users belonging to a project and their role within it';
+COMMENT ON COLUMN project_members.role IS 'OWNER and MANAGER manage members, CONTRIBUTOR edits tasks, VIEWER reads only';
+COMMENT ON COLUMN project_members.deleted_at IS 'Set when the member is removed; re-adding the user clears it';
@@ -0,0 +1,57 @@
+-- PostgreSQL 15+ Migration: Role Permissions
+-- Description: Adds the editable role to permission mapping and seeds the built-in defaults
+-- Version: 0008_role_permissions
+-- Created At: CURRENT_TIMESTAMP
+
+-- Role Permissions Table
+CREATE TABLE IF NOT EXISTS role_permissions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    role user_role NOT NULL,
+    permission VARCHAR(100) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    granted_by UUID REFERENCES users(id),
+    CONSTRAINT role_permissions_unique UNIQUE (role, permission)
+);
+
+-- Seed the default mapping; contributor permissions are shared by every role that works on tasks
+WITH contributor_permissions(permission) AS (
+    VALUES
+        ('task:read'), ('comment:write'), ('attachment:write'), ('checklist:update'),
+        ('dependency:update'), ('recurrence:update'), ('project:read'),
+        ('project:members:manage'), ('history:read'), ('user:preferences:update:own')
+),
+defaults(role, permission) AS (
+    SELECT 'ADMIN'::user_role, permission FROM (
+        VALUES
+            ('task:read'), ('task:create'), ('task:update'), ('task:update:own'),
+            ('task:delete'), ('task:delete:own'), ('task:blockers:override'),
+            ('comment:write'), ('attachment:write'),
+            ('checklist:update'), ('dependency:update'), ('recurrence:update'),
+            ('project:read'), ('project:create'), ('project:update'), ('project:delete'),
+            ('project:members:manage'), ('history:read'), ('user:read'), ('user:manage'),
+            ('user:preferences:update'), ('user:preferences:update:own'), ('permission:manage')
+    ) AS admin_permissions(permission)
+    UNION ALL
+    SELECT role::user_role, permission
+    FROM (VALUES ('PROJECT_MANAGER'), ('TEAM_LEAD'), ('TEAM_MEMBER')) AS roles(role)
+    CROSS JOIN contributor_permissions
+    UNION ALL
+    SELECT role::user_role, permission FROM (
+        VALUES
+            ('PROJECT_MANAGER', 'task:create'), ('PROJECT_MANAGER', 'task:update'),
+            ('PROJECT_MANAGER', 'task:delete'), ('PROJECT_MANAGER', 'task:blockers:override'),
+            ('PROJECT_MANAGER', 'project:create'),
+            ('PROJECT_MANAGER', 'project:update'), ('PROJECT_MANAGER', 'project:delete'),
+            ('PROJECT_MANAGER', 'user:read'),
+            ('TEAM_LEAD', 'task:create'), ('TEAM_LEAD', 'task:update'), ('TEAM_LEAD', 'task:delete:own'),
+            ('TEAM_MEMBER', 'task:update:own'),
+            ('GUEST', 'task:read'), ('GUEST', 'project:read'), ('GUEST', 'history:read')
+    ) AS role_specific(role, permission)
+)
+INSERT INTO role_permissions (role, permission)
+SELECT role, permission FROM defaults
+ON CONFLICT (role, permission) DO NOTHING;
+
+-- Add Table Comments
+COMMENT ON TABLE role_permissions IS 'Permissions granted to each global role, editable at runtime';
+COMMENT ON COLUMN role_permissions.permission IS 'Permission key in resource:action form; an :own suffix limits it to owned resources';
@@ -0,0 +1,47 @@
+-- PostgreSQL 15+ Migration: Custom Fields
+-- Description: Adds typed custom fields defined per project and their values on tasks
+-- Version: 0009_custom_fields
+-- Created At: CURRENT_TIMESTAMP
+
+-- Custom Field Type Enum
+DO $$ BEGIN
+    CREATE TYPE custom_field_type AS ENUM ('TEXT', 'NUMBER', 'DATE', 'SINGLE_SELECT', 'MULTI_SELECT', 'USER');
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
+
+-- Custom Fields Table
+CREATE TABLE IF NOT EXISTS custom_fields (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id UUID NOT NULL REFERENCES projects(id),
+    key VARCHAR(50) NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    type custom_field_type NOT NULL,
+    options TEXT[] NOT NULL DEFAULT '{}',
+    required BOOLEAN NOT NULL DEFAULT FALSE,
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    created_by UUID NOT NULL REFERENCES users(id),
+    deleted_at TIMESTAMP WITH TIME ZONE,
+    CONSTRAINT custom_fields_unique_key UNIQUE (project_id, key),
+    CONSTRAINT custom_fields_key_format CHECK (key ~ '^[a-z][a-z0-9_]{0,49}$')
+);
+
+-- Custom Field Indexes
+CREATE INDEX IF NOT EXISTS idx_custom_fields_project ON custom_fields (project_id) WHERE deleted_at IS NULL;
+
+-- Task Values
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS custom_fields JSONB NOT NULL DEFAULT '{}';
+CREATE INDEX IF NOT EXISTS idx_tasks_custom_fields ON tasks USING GIN (custom_fields);
+
+-- Grant field management to every role that works on tasks; the project MANAGER role is checked per project
+INSERT INTO role_permissions (role, permission)
+SELECT role::user_role, 'project:fields:manage'
+FROM (VALUES ('ADMIN'), ('PROJECT_MANAGER'), ('TEAM_LEAD'), ('TEAM_MEMBER')) AS roles(role)
+ON CONFLICT (role, permission) DO NOTHING;
+
+-- Add Table Comments
+COMMENT ON TABLE custom_fields IS 'Typed task fields defined per project';
+COMMENT ON COLUMN custom_fields.options IS 'Allowed values of SINGLE_SELECT and MULTI_SELECT fields';
+COMMENT ON COLUMN tasks.custom_fields IS 'Custom field values keyed by field key; dates are stored as ISO 8601 strings';
@@ -0,0 +1,92 @@
+-- PostgreSQL 15+ Migration: Project Workflows
+-- Description: Replaces the fixed task status enum with per-project workflow states and transitions
+-- Version: 0010_workflows
+-- Created At: CURRENT_TIMESTAMP
+
+-- Workflow Category Enum
+DO $$ BEGIN
+    CREATE TYPE workflow_category AS ENUM ('TODO', 'DOING', 'DONE');
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
+
+-- Workflow States Table
+CREATE TABLE IF NOT EXISTS workflow_states (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id UUID NOT NULL REFERENCES projects(id),
+    key VARCHAR(50) NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    category workflow_category NOT NULL,
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_by UUID REFERENCES users(id),
+    CONSTRAINT workflow_states_unique_key UNIQUE (project_id, key),
+    CONSTRAINT workflow_states_key_format CHECK (key ~ '^[A-Z][A-Z0-9_]{0,49}$')
+);
+
+-- Workflow Transitions Table
+CREATE TABLE IF NOT EXISTS workflow_transitions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id UUID NOT NULL REFERENCES projects(id),
+    from_key VARCHAR(50) NOT NULL,
+    to_key VARCHAR(50) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT workflow_transitions_unique UNIQUE (project_id, from_key, to_key),
+    CONSTRAINT workflow_transitions_distinct CHECK (from_key <> to_key)
+);
+
+-- Workflow Indexes
+CREATE INDEX IF NOT EXISTS idx_workflow_states_project ON workflow_states (project_id, position);
+
+-- Every existing project gets the default workflow: the original statuses, any move allowed
+INSERT INTO workflow_states (project_id, key, name, category, position)
+SELECT p.id, s.key, s.name, s.category::workflow_category, s.position
+FROM projects p
+CROSS JOIN (VALUES
+    ('TODO', 'To Do', 'TODO', 0),
+    ('IN_PROGRESS', 'In Progress', 'DOING', 1),
+    ('REVIEW', 'Review', 'DOING', 2),
+    ('DONE', 'Done', 'DONE', 3),
+    ('BLOCKED', 'Blocked', 'TODO', 4)
+) AS s(key, name, category, position)
+ON CONFLICT (project_id, key) DO NOTHING;
+
+INSERT INTO workflow_transitions (project_id, from_key, to_key)
+SELECT f.project_id, f.key, t.key
+FROM workflow_states f
+JOIN workflow_states t ON t.project_id = f.project_id AND t.key <> f.key
+ON CONFLICT (project_id, from_key, to_key) DO NOTHING;
+
+-- Task status becomes a workflow state key; legacy enum values map onto the default states
+ALTER TABLE tasks ALTER COLUMN status DROP DEFAULT;
+ALTER TABLE tasks ALTER COLUMN status TYPE VARCHAR(50) USING (
+    CASE status::text
+        WHEN 'IN_REVIEW' THEN 'REVIEW'
+        WHEN 'COMPLETED' THEN 'DONE'
+        WHEN 'ARCHIVED' THEN 'DONE'
+        ELSE status::text
+    END
+);
+ALTER TABLE tasks ALTER COLUMN status SET DEFAULT 'TODO';
+DROP TYPE IF EXISTS task_status;
+
+-- Denormalized category of the task's state, used for completion and blocker checks
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS status_category workflow_category NOT NULL DEFAULT 'TODO';
+UPDATE tasks t
+SET status_category = s.category
+FROM workflow_states s
+WHERE s.project_id = t.project_id AND s.key = t.status;
+CREATE INDEX IF NOT EXISTS idx_tasks_status_category ON tasks (status_category) WHERE deleted_at IS NULL;
+
+-- Grant workflow management to every role that works on tasks; the project MANAGER role is checked per project
+INSERT INTO role_permissions (role, permission)
+SELECT role::user_role, 'project:workflow:manage'
+FROM (VALUES ('ADMIN'), ('PROJECT_MANAGER'), ('TEAM_LEAD'), ('TEAM_MEMBER')) AS roles(role)
+ON CONFLICT (role, permission) DO NOTHING;
+
+-- Add Table Comments
+COMMENT ON TABLE workflow_states IS 'Task states defined per project; the lowest position is where new tasks start';
+COMMENT ON TABLE workflow_transitions IS 'Moves allowed between the workflow states of a project';
+COMMENT ON COLUMN tasks.status IS 'Key of a state in the project workflow';
+COMMENT ON COLUMN tasks.status_category IS 'Category of the task state, kept in step with status';
@@ -0,0 +1,29 @@
+-- PostgreSQL 15+ Migration: WIP Limits
+-- Description: Adds work-in-progress limits to the workflow states (board columns) of projects
+-- Version: 0011_wip_limits
+-- Created At: CURRENT_TIMESTAMP
+
+-- WIP Limit Mode Enum
+DO $$ BEGIN
+    CREATE TYPE wip_limit_mode AS ENUM ('SOFT', 'HARD');
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
+
+-- WIP Limit Columns
+ALTER TABLE workflow_states ADD COLUMN IF NOT EXISTS wip_limit INTEGER;
+ALTER TABLE workflow_states ADD COLUMN IF NOT EXISTS wip_limit_mode wip_limit_mode NOT NULL DEFAULT 'SOFT';
+
+DO $$ BEGIN
+    ALTER TABLE workflow_states ADD CONSTRAINT workflow_states_wip_limit_range
+        CHECK (wip_limit IS NULL OR wip_limit BETWEEN 1 AND 1000);
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
+
+-- Counting the tasks of a column scans tasks by project and status
+CREATE INDEX IF NOT EXISTS idx_tasks_project_status ON tasks (project_id, status) WHERE deleted_at IS NULL;
+
+-- Add Column Comments
+COMMENT ON COLUMN workflow_states.wip_limit IS 'Most active tasks the board column should hold; NULL for no limit';
+COMMENT ON COLUMN workflow_states.wip_limit_mode IS 'SOFT limits only warn on the board; HARD limits reject moves into a full column';
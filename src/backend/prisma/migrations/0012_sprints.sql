@@ -0,0 +1,51 @@
+-- PostgreSQL 15+ Migration: Sprints
+-- Description: Adds timeboxed sprints per project and assigns tasks to them
+-- Version: 0012_sprints
+-- Created At: CURRENT_TIMESTAMP
+
+-- Sprint State Enum
+DO $$ BEGIN
+    CREATE TYPE sprint_state AS ENUM ('PLANNED', 'ACTIVE', 'CLOSED');
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
+
+-- Sprints Table
+CREATE TABLE IF NOT EXISTS sprints (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id UUID NOT NULL REFERENCES projects(id),
+    name VARCHAR(100) NOT NULL,
+    goal TEXT,
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    state sprint_state NOT NULL DEFAULT 'PLANNED',
+    started_at TIMESTAMP WITH TIME ZONE,
+    closed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    created_by UUID NOT NULL REFERENCES users(id),
+    CONSTRAINT sprints_dates_order CHECK (end_date >= start_date)
+);
+
+-- Sprint Indexes
+CREATE INDEX IF NOT EXISTS idx_sprints_project_state ON sprints (project_id, state);
+CREATE INDEX IF NOT EXISTS idx_sprints_project_start ON sprints (project_id, start_date);
+
+-- At most one active sprint per project
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sprints_one_active ON sprints (project_id) WHERE state = 'ACTIVE';
+
+-- Task Sprint Assignment
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS sprint_id UUID REFERENCES sprints(id);
+CREATE INDEX IF NOT EXISTS idx_tasks_sprint ON tasks (sprint_id) WHERE deleted_at IS NULL;
+
+-- Grant sprint management to every role that works on tasks; the project MANAGER role is checked per project
+INSERT INTO role_permissions (role, permission)
+SELECT role::user_role, 'project:sprints:manage'
+FROM (VALUES ('ADMIN'), ('PROJECT_MANAGER'), ('TEAM_LEAD'), ('TEAM_MEMBER')) AS roles(role)
+ON CONFLICT (role, permission) DO NOTHING;
+
+-- Add Table Comments
+COMMENT ON TABLE sprints IS 'Timeboxed iterations of a project';
+COMMENT ON COLUMN sprints.end_date IS 'Last day of the sprint, inclusive';
+COMMENT ON COLUMN sprints.closed_at IS 'When the sprint was closed and its unfinished tasks rolled over';
+COMMENT ON COLUMN tasks.sprint_id IS 'Sprint the task is planned in; NULL while the task is in the backlog';
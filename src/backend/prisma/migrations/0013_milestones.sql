@@ -0,0 +1,50 @@
+-- PostgreSQL 15+ Migration: Milestones
+-- Description: Adds dated project milestones and links them to the tasks they depend on
+-- Version: 0013_milestones
+-- Created At: CURRENT_TIMESTAMP
+
+-- Milestone Status Enum
+DO $$ BEGIN
+    CREATE TYPE milestone_status AS ENUM ('ON_TRACK', 'AT_RISK', 'MISSED');
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
+
+-- Milestones Table
+CREATE TABLE IF NOT EXISTS milestones (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id UUID NOT NULL REFERENCES projects(id),
+    name VARCHAR(100) NOT NULL,
+    description TEXT,
+    due_date DATE NOT NULL,
+    status milestone_status NOT NULL DEFAULT 'ON_TRACK',
+    status_changed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    created_by UUID NOT NULL REFERENCES users(id)
+);
+
+-- Milestone Indexes
+CREATE INDEX IF NOT EXISTS idx_milestones_project_due ON milestones (project_id, due_date);
+CREATE INDEX IF NOT EXISTS idx_milestones_status ON milestones (status);
+
+-- Milestone Task Links
+CREATE TABLE IF NOT EXISTS milestone_tasks (
+    milestone_id UUID NOT NULL REFERENCES milestones(id),
+    task_id UUID NOT NULL REFERENCES tasks(id),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (milestone_id, task_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_milestone_tasks_task ON milestone_tasks (task_id);
+
+-- Grant milestone management to every role that works on tasks; the project MANAGER role is checked per project
+INSERT INTO role_permissions (role, permission)
+SELECT role::user_role, 'project:milestones:manage'
+FROM (VALUES ('ADMIN'), ('PROJECT_MANAGER'), ('TEAM_LEAD'), ('TEAM_MEMBER')) AS roles(role)
+ON CONFLICT (role, permission) DO NOTHING;
+
+-- Add Table Comments
+COMMENT ON TABLE milestones IS 'Dated goals of a project, tracked through their linked tasks';
+COMMENT ON COLUMN milestones.status IS 'Last computed status: MISSED once the date passed with linked tasks unfinished, AT_RISK while a linked task is overdue';
+COMMENT ON TABLE milestone_tasks IS 'Tasks a milestone depends on';
@@ -0,0 +1,42 @@
+-- PostgreSQL 15+ Migration: Worklogs
+-- Description: Adds time tracking with worklog entries and server-side timers
+-- Version: 0014_worklogs
+-- Created At: CURRENT_TIMESTAMP
+
+-- Worklogs Table
+CREATE TABLE IF NOT EXISTS worklogs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    task_id UUID NOT NULL REFERENCES tasks(id),
+    user_id UUID NOT NULL REFERENCES users(id),
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    duration_seconds INTEGER NOT NULL,
+    note VARCHAR(1000),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT worklogs_duration_check CHECK (duration_seconds BETWEEN 1 AND 86400)
+);
+
+-- Worklog Indexes
+CREATE INDEX IF NOT EXISTS idx_worklogs_task_started ON worklogs (task_id, started_at);
+CREATE INDEX IF NOT EXISTS idx_worklogs_user_started ON worklogs (user_id, started_at);
+
+-- Worklog Timers Table
+CREATE TABLE IF NOT EXISTS worklog_timers (
+    user_id UUID PRIMARY KEY REFERENCES users(id),
+    task_id UUID NOT NULL REFERENCES tasks(id),
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    note VARCHAR(1000)
+);
+
+CREATE INDEX IF NOT EXISTS idx_worklog_timers_task ON worklog_timers (task_id);
+
+-- Grant time logging to every role that works on tasks
+INSERT INTO role_permissions (role, permission)
+SELECT role::user_role, 'worklog:write'
+FROM (VALUES ('ADMIN'), ('PROJECT_MANAGER'), ('TEAM_LEAD'), ('TEAM_MEMBER')) AS roles(role)
+ON CONFLICT (role, permission) DO NOTHING;
+
+-- Add Table Comments
+COMMENT ON TABLE worklogs IS 'Time users spent on tasks; editable by the author or a project manager';
+COMMENT ON COLUMN worklogs.started_at IS 'Start of the work; timesheets count the entry towards this UTC day';
+COMMENT ON TABLE worklog_timers IS 'Running timer of each user, kept server-side so it follows the user across devices';
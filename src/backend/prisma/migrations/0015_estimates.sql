@@ -0,0 +1,31 @@
+-- PostgreSQL 15+ Migration: Estimates
+-- Description: Adds original and remaining estimates to tasks, in hours or points per project
+-- Version: 0015_estimates
+-- Created At: CURRENT_TIMESTAMP
+
+-- Estimation Unit Enum
+DO $$ BEGIN
+    CREATE TYPE estimation_unit AS ENUM ('HOURS', 'POINTS');
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
+
+-- Estimate Columns
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS estimation_unit estimation_unit NOT NULL DEFAULT 'HOURS';
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS original_estimate DOUBLE PRECISION;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS remaining_estimate DOUBLE PRECISION;
+
+DO $$ BEGIN
+    ALTER TABLE tasks ADD CONSTRAINT tasks_estimate_range
+        CHECK (
+            (original_estimate IS NULL OR original_estimate BETWEEN 0 AND 10000) AND
+            (remaining_estimate IS NULL OR remaining_estimate BETWEEN 0 AND 10000)
+        );
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
+
+-- Add Column Comments
+COMMENT ON COLUMN projects.estimation_unit IS 'Unit of task estimates: HOURS or story POINTS';
+COMMENT ON COLUMN tasks.original_estimate IS 'Effort estimated before work started, in the project estimation unit';
+COMMENT ON COLUMN tasks.remaining_estimate IS 'Effort still left, in the project estimation unit; ignored once the task is done';
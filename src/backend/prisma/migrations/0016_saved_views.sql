@@ -0,0 +1,63 @@
+-- PostgreSQL 15+ Migration: Saved Views
+-- Description: Adds named task list and board configurations, private or shared with a project, and per-user pins
+-- Version: 0016_saved_views
+-- Created At: CURRENT_TIMESTAMP
+
+-- Saved View Enums
+DO $$ BEGIN
+    CREATE TYPE saved_view_visibility AS ENUM ('PRIVATE', 'PROJECT');
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE saved_view_layout AS ENUM ('LIST', 'BOARD');
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
+
+-- Saved Views Table
+CREATE TABLE IF NOT EXISTS saved_views (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    owner_id UUID NOT NULL REFERENCES users(id),
+    project_id UUID REFERENCES projects(id),
+    name VARCHAR(100) NOT NULL,
+    visibility saved_view_visibility NOT NULL DEFAULT 'PRIVATE',
+    layout saved_view_layout NOT NULL DEFAULT 'LIST',
+    filters JSONB NOT NULL DEFAULT '{}',
+    sort_by VARCHAR(50) NOT NULL DEFAULT 'createdAt',
+    sort_order VARCHAR(4) NOT NULL DEFAULT 'desc',
+    group_by VARCHAR(20) NOT NULL DEFAULT 'none',
+    columns TEXT[] NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT saved_views_shared_project_check CHECK (visibility = 'PRIVATE' OR project_id IS NOT NULL),
+    CONSTRAINT saved_views_sort_order_check CHECK (sort_order IN ('asc', 'desc'))
+);
+
+-- Saved View Indexes
+CREATE INDEX IF NOT EXISTS idx_saved_views_owner ON saved_views (owner_id);
+CREATE INDEX IF NOT EXISTS idx_saved_views_project_visibility ON saved_views (project_id, visibility);
+
+-- Saved View Pins Table
+CREATE TABLE IF NOT EXISTS saved_view_pins (
+    user_id UUID NOT NULL REFERENCES users(id),
+    view_id UUID NOT NULL REFERENCES saved_views(id),
+    position INTEGER NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (user_id, view_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_view_pins_view ON saved_view_pins (view_id);
+
+-- Grant saving views to every role that works on tasks
+INSERT INTO role_permissions (role, permission)
+SELECT role::user_role, 'view:write'
+FROM (VALUES ('ADMIN'), ('PROJECT_MANAGER'), ('TEAM_LEAD'), ('TEAM_MEMBER')) AS roles(role)
+ON CONFLICT (role, permission) DO NOTHING;
+
+-- Add Table Comments
+COMMENT ON TABLE saved_views IS 'Named task list and board configurations';
+COMMENT ON COLUMN saved_views.visibility IS 'PRIVATE views are seen by their owner only, PROJECT views by every member of the project';
+COMMENT ON COLUMN saved_views.filters IS 'Task list query parameters, without empty values';
+COMMENT ON TABLE saved_view_pins IS 'Saved views each user pinned to the sidebar';
@@ -0,0 +1,15 @@
+-- PostgreSQL 15+ Migration: Full-Text Search
+-- Description: Adds the tsvector index on comment content; tasks and projects are indexed since 0000_initial_setup
+-- Version: 0017_search
+-- Created At: CURRENT_TIMESTAMP
+
+-- Comment Search Index
+-- The expression must match the one the search repository queries with
+CREATE INDEX IF NOT EXISTS idx_comments_search ON comments USING gin (
+    (to_tsvector('english', content))
+) WHERE deleted_at IS NULL;
+
+-- Add Index Comments
+COMMENT ON INDEX idx_tasks_search IS 'Full-text search over task titles and descriptions';
+COMMENT ON INDEX idx_projects_search IS 'Full-text search over project names and descriptions';
+COMMENT ON INDEX idx_comments_search IS 'Full-text search over live comment content';
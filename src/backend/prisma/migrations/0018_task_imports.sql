@@ -0,0 +1,50 @@
+-- PostgreSQL 15+ Migration: Task Imports
+-- Description: Adds imports of CSV and JSON files into a project, keeping the parsed rows until the import is committed
+-- Version: 0018_task_imports
+-- Created At: CURRENT_TIMESTAMP
+
+-- Task Import Enums
+DO $$ BEGIN
+    CREATE TYPE task_import_format AS ENUM ('CSV', 'JSON');
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE task_import_status AS ENUM ('PENDING', 'RUNNING', 'COMPLETED', 'FAILED');
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
+
+-- Task Imports Table
+CREATE TABLE IF NOT EXISTS task_imports (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id UUID NOT NULL REFERENCES projects(id),
+    file_name VARCHAR(255) NOT NULL,
+    format task_import_format NOT NULL,
+    status task_import_status NOT NULL DEFAULT 'PENDING',
+    columns TEXT[] NOT NULL DEFAULT '{}',
+    rows JSONB NOT NULL,
+    mapping JSONB,
+    total_rows INTEGER NOT NULL,
+    processed_rows INTEGER NOT NULL DEFAULT 0,
+    created_count INTEGER NOT NULL DEFAULT 0,
+    failed_count INTEGER NOT NULL DEFAULT 0,
+    errors JSONB NOT NULL DEFAULT '[]',
+    started_at TIMESTAMP WITH TIME ZONE,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    created_by UUID NOT NULL REFERENCES users(id),
+    CONSTRAINT task_imports_progress_check CHECK (processed_rows <= total_rows)
+);
+
+-- Task Import Indexes
+CREATE INDEX IF NOT EXISTS idx_task_imports_project_created ON task_imports (project_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_task_imports_status ON task_imports (status);
+
+-- Add Table Comments
+COMMENT ON TABLE task_imports IS 'Imports of CSV and JSON files into a project';
+COMMENT ON COLUMN task_imports.rows IS 'Parsed rows keyed by column, kept until the import is committed';
+COMMENT ON COLUMN task_imports.mapping IS 'Column of the file read into each task field';
+COMMENT ON COLUMN task_imports.errors IS 'Rows the commit skipped, with the errors per field';
@@ -0,0 +1,18 @@
+-- PostgreSQL 15+ Migration: Calendar Feeds
+-- Description: Adds per-user iCalendar feeds of due dates, read with a secret token that can be regenerated or revoked
+-- Version: 0019_calendar_feeds
+-- Created At: CURRENT_TIMESTAMP
+
+-- Calendar Feeds Table
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL UNIQUE REFERENCES users(id),
+    token_hash VARCHAR(64) NOT NULL UNIQUE,
+    last_read_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Add Table Comments
+COMMENT ON TABLE calendar_feeds IS 'Personal iCalendar feeds of task due dates, project dates and milestones';
+COMMENT ON COLUMN calendar_feeds.token_hash IS 'HMAC of the feed token; the token is only shown when generated';
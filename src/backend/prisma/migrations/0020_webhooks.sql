@@ -0,0 +1,68 @@
+-- PostgreSQL 15+ Migration: Webhooks
+-- Description: Adds outbound webhook subscriptions per project or organization, and a log of their signed deliveries
+-- Version: 0020_webhooks
+-- Created At: CURRENT_TIMESTAMP
+
+-- Webhook Enums
+DO $$ BEGIN
+    CREATE TYPE webhook_delivery_status AS ENUM ('PENDING', 'RETRYING', 'SUCCEEDED', 'FAILED');
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
+
+-- Webhooks Table
+CREATE TABLE IF NOT EXISTS webhooks (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id UUID REFERENCES projects(id),
+    name VARCHAR(100) NOT NULL,
+    url VARCHAR(2048) NOT NULL,
+    events TEXT[] NOT NULL DEFAULT '{}',
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    secret_encrypted TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    created_by UUID NOT NULL REFERENCES users(id),
+    CONSTRAINT webhooks_events_check CHECK (cardinality(events) > 0)
+);
+
+-- Webhook Indexes
+CREATE INDEX IF NOT EXISTS idx_webhooks_project ON webhooks (project_id);
+CREATE INDEX IF NOT EXISTS idx_webhooks_active ON webhooks (active);
+
+-- Webhook Deliveries Table
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    webhook_id UUID NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+    event_id UUID NOT NULL,
+    event_type VARCHAR(50) NOT NULL,
+    payload JSONB NOT NULL,
+    status webhook_delivery_status NOT NULL DEFAULT 'PENDING',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    response_status INTEGER,
+    response_body TEXT,
+    error VARCHAR(500),
+    duration_ms INTEGER,
+    next_attempt_at TIMESTAMP WITH TIME ZONE,
+    delivered_at TIMESTAMP WITH TIME ZONE,
+    redelivery_of_id UUID REFERENCES webhook_deliveries(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Webhook Delivery Indexes
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook_created ON webhook_deliveries (webhook_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_status ON webhook_deliveries (status);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_created ON webhook_deliveries (created_at);
+
+-- Grant managing webhooks to admins
+INSERT INTO role_permissions (role, permission)
+VALUES ('ADMIN'::user_role, 'webhook:manage')
+ON CONFLICT (role, permission) DO NOTHING;
+
+-- Add Table Comments
+COMMENT ON TABLE webhooks IS 'Outbound webhook subscriptions of a project, or of the organization when project_id is NULL';
+COMMENT ON COLUMN webhooks.events IS 'Event types delivered to the webhook, e.g. task.created';
+COMMENT ON COLUMN webhooks.secret_encrypted IS 'Signing secret encrypted with WEBHOOK_SECRET_KEY as iv:tag:ciphertext; replaced when the secret is rotated';
+COMMENT ON TABLE webhook_deliveries IS 'Signed deliveries of events to webhooks, with the outcome of the latest attempt';
+COMMENT ON COLUMN webhook_deliveries.status IS 'FAILED deliveries gave up after the last retry and were moved to the dead-letter queue';
+COMMENT ON COLUMN webhook_deliveries.redelivery_of_id IS 'Delivery an admin redelivered to create this one';
@@ -0,0 +1,39 @@
+-- PostgreSQL 15+ Migration: Inbound Emails
+-- Description: Adds a log of messages received from the mail server, which create tasks from project addresses and comments from replies
+-- Version: 0021_inbound_emails
+-- Created At: CURRENT_TIMESTAMP
+
+-- Inbound Email Enums
+DO $$ BEGIN
+    CREATE TYPE inbound_email_status AS ENUM ('PROCESSED', 'REJECTED');
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
+
+-- Inbound Emails Table
+CREATE TABLE IF NOT EXISTS inbound_emails (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    message_key VARCHAR(998) NOT NULL UNIQUE,
+    sender VARCHAR(320),
+    subject VARCHAR(998) NOT NULL DEFAULT '',
+    status inbound_email_status NOT NULL,
+    action VARCHAR(30),
+    error VARCHAR(500),
+    project_id UUID,
+    task_id UUID,
+    comment_id UUID,
+    user_id UUID,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT inbound_emails_action_check CHECK (action IS NULL OR action IN ('TASK_CREATED', 'COMMENT_CREATED'))
+);
+
+-- Inbound Email Indexes
+CREATE INDEX IF NOT EXISTS idx_inbound_emails_status ON inbound_emails (status);
+CREATE INDEX IF NOT EXISTS idx_inbound_emails_created ON inbound_emails (created_at);
+
+-- Add Table Comments
+COMMENT ON TABLE inbound_emails IS 'Messages posted by the mail server to project or reply addresses, with the task or comment they created';
+COMMENT ON COLUMN inbound_emails.message_key IS 'Message-ID of the message, or sha256:<hash> of the raw message when it has none; a PROCESSED message is not processed again';
+COMMENT ON COLUMN inbound_emails.error IS 'Why a REJECTED message created nothing, e.g. an unknown sender';
+COMMENT ON COLUMN inbound_emails.project_id IS 'Plain references without foreign keys, so that the log outlives the records';
@@ -0,0 +1,39 @@
+-- PostgreSQL 15+ Migration: Notifications
+-- Description: Adds persisted in-app notifications of assignments, mentions, status changes, due dates and comment replies, with their read state
+-- Version: 0022_notifications
+-- Created At: CURRENT_TIMESTAMP
+
+-- Notification Enums
+DO $$ BEGIN
+    CREATE TYPE notification_type AS ENUM ('ASSIGNMENT', 'MENTION', 'STATUS_CHANGE', 'DUE_SOON', 'COMMENT_REPLY');
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
+
+-- Notifications Table
+CREATE TABLE IF NOT EXISTS notifications (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    type notification_type NOT NULL,
+    title VARCHAR(200) NOT NULL,
+    message VARCHAR(500) NOT NULL DEFAULT '',
+    dedupe_key VARCHAR(200),
+    read_at TIMESTAMP WITH TIME ZONE,
+    task_id UUID,
+    project_id UUID,
+    comment_id UUID,
+    actor_id UUID,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT notifications_user_dedupe_key_unique UNIQUE (user_id, dedupe_key)
+);
+
+-- Notification Indexes
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created ON notifications (user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_notifications_user_read ON notifications (user_id, read_at);
+
+-- Add Table Comments
+COMMENT ON TABLE notifications IS 'In-app notifications kept for their recipient, so that what happened while a user was offline is not lost';
+COMMENT ON COLUMN notifications.title IS 'Title of the task the notification is about, as it was when the notification was created';
+COMMENT ON COLUMN notifications.dedupe_key IS 'A recipient gets one notification per key, e.g. due-soon:<task>:<due date> for reminders';
+COMMENT ON COLUMN notifications.read_at IS 'When the recipient first read the notification; NULL while it is unread';
+COMMENT ON COLUMN notifications.task_id IS 'Plain references without foreign keys, so that notifications outlive the records';
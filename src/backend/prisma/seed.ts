@@ -1,5 +1,5 @@
 // @ts-check
-import { PrismaClient, UserRole, ProjectStatus, ProjectPriority, TaskStatus, TaskPriority, UserStatus } from '@prisma/client';
+import { PrismaClient, UserRole, ProjectStatus, ProjectPriority, TaskPriority, UserStatus, WorkflowCategory } from '@prisma/client';
 import bcrypt from 'bcryptjs'; // v2.4.3
 
 // Initialize Prisma Client with logging
@@ -135,7 +135,8 @@ async function seedProjects(): Promise<void> {
       data: {
         title: 'Database Schema Design',
         description: 'Design and implement the database schema',
-        status: TaskStatus.COMPLETED,
+        status: 'DONE', // States of the default workflow
+        statusCategory: WorkflowCategory.DONE,
         priority: TaskPriority.HIGH,
         dueDate: new Date(Date.now() + 15 * 24 * 60 * 60 * 1000),
         projectId: mainProject.id,
@@ -152,7 +153,8 @@ async function seedProjects(): Promise<void> {
       data: {
         title: 'API Development',
         description: 'Implement REST API endpoints',
-        status: TaskStatus.IN_PROGRESS,
+        status: 'IN_PROGRESS',
+        statusCategory: WorkflowCategory.DOING,
         priority: TaskPriority.HIGH,
         dueDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
         projectId: mainProject.id,
@@ -169,7 +171,8 @@ async function seedProjects(): Promise<void> {
       data: {
         title: 'Frontend Implementation',
         description: 'Develop the user interface',
-        status: TaskStatus.TODO,
+        status: 'TODO',
+        statusCategory: WorkflowCategory.TODO,
         priority: TaskPriority.HIGH,
         dueDate: new Date(Date.now() + 45 * 24 * 60 * 60 * 1000),
         projectId: mainProject.id,
@@ -13,10 +13,31 @@ import correlator from 'express-correlation-id'; // ^2.0.1
 import rateLimit from 'express-rate-limit'; // ^6.7.0
 
 // Internal imports
+import { attachmentRouter } from '../routes/attachment.routes';
 import { authRouter } from '../routes/auth.routes';
+import { calendarRouter } from '../routes/calendar.routes';
+import { checklistRouter } from '../routes/checklist.routes';
+import { commentRouter } from '../routes/comment.routes';
+import { customFieldRouter } from '../routes/customField.routes';
+import { dependencyRouter } from '../routes/dependency.routes';
+import { exportRouter } from '../routes/export.routes';
+import { historyRouter } from '../routes/history.routes';
+import { importRouter } from '../routes/import.routes';
+import { inboundEmailRouter } from '../routes/inboundEmail.routes';
+import { membershipRouter } from '../routes/membership.routes';
+import { milestoneRouter } from '../routes/milestone.routes';
+import { notificationRouter } from '../routes/notification.routes';
+import { permissionRouter } from '../routes/permission.routes';
 import { projectRouter } from '../routes/project.routes';
+import { recurrenceRouter } from '../routes/recurrence.routes';
+import { savedViewRouter } from '../routes/savedView.routes';
+import { searchRouter } from '../routes/search.routes';
+import { sprintRouter } from '../routes/sprint.routes';
 import { taskRouter } from '../routes/task.routes';
 import { userRouter } from '../routes/user.routes';
+import { webhookRouter } from '../routes/webhook.routes';
+import { workflowRouter } from '../routes/workflow.routes';
+import { worklogRouter } from '../routes/worklog.routes';
 import { errorMiddleware } from '../middleware/error.middleware';
 import { loggerMiddleware } from '../middleware/logger.middleware';
 import { enhancedLogger as logger } from '../utils/logger.util';
@@ -111,9 +132,32 @@ export const configureRoutes = (app: Application): void => {
 
   // Mount route modules with their respective prefixes
   app.use(`${API_PREFIX}/auth`, authRouter);
+  // Serves /tasks/:taskId/history and /projects/:projectId/history, so it precedes both routers
+  app.use(API_PREFIX, historyRouter);
+  // Serves worklogs, the timer and timesheets under /tasks, /users and /projects
+  app.use(API_PREFIX, worklogRouter);
+  app.use(`${API_PREFIX}/calendar`, calendarRouter);
+  app.use(`${API_PREFIX}/exports`, exportRouter);
+  app.use(`${API_PREFIX}/inbound-email`, inboundEmailRouter);
+  app.use(`${API_PREFIX}/notifications`, notificationRouter);
+  app.use(`${API_PREFIX}/permissions`, permissionRouter);
+  app.use(`${API_PREFIX}/projects/:projectId/custom-fields`, customFieldRouter);
+  app.use(`${API_PREFIX}/projects/:projectId/imports`, importRouter);
+  app.use(`${API_PREFIX}/projects/:projectId/members`, membershipRouter);
+  app.use(`${API_PREFIX}/projects/:projectId/milestones`, milestoneRouter);
+  app.use(`${API_PREFIX}/projects/:projectId/sprints`, sprintRouter);
+  app.use(`${API_PREFIX}/projects/:projectId/workflow`, workflowRouter);
   app.use(`${API_PREFIX}/projects`, projectRouter);
+  app.use(`${API_PREFIX}/tasks/:taskId/attachments`, attachmentRouter);
+  app.use(`${API_PREFIX}/tasks/:taskId/checklist`, checklistRouter);
+  app.use(`${API_PREFIX}/tasks/:taskId/comments`, commentRouter);
+  app.use(`${API_PREFIX}/tasks/:taskId/dependencies`, dependencyRouter);
+  app.use(`${API_PREFIX}/search`, searchRouter);
+  app.use(`${API_PREFIX}/tasks/:taskId/recurrence`, recurrenceRouter);
   app.use(`${API_PREFIX}/tasks`, taskRouter);
   app.use(`${API_PREFIX}/users`, userRouter);
+  app.use(`${API_PREFIX}/views`, savedViewRouter);
+  app.use(`${API_PREFIX}/webhooks`, webhookRouter);
 
   // Configure global error handling
   app.use(errorMiddleware);
@@ -137,9 +181,34 @@ export const configureRoutes = (app: Application): void => {
     version: API_VERSION,
     routes: [
       `${API_PREFIX}/auth`,
+      `${API_PREFIX}/calendar`,
+      `${API_PREFIX}/exports`,
+      `${API_PREFIX}/inbound-email`,
+      `${API_PREFIX}/notifications`,
+      `${API_PREFIX}/permissions`,
       `${API_PREFIX}/projects`,
+      `${API_PREFIX}/projects/:projectId/custom-fields`,
+      `${API_PREFIX}/projects/:projectId/history`,
+      `${API_PREFIX}/projects/:projectId/imports`,
+      `${API_PREFIX}/projects/:projectId/members`,
+      `${API_PREFIX}/projects/:projectId/milestones`,
+      `${API_PREFIX}/projects/:projectId/sprints`,
+      `${API_PREFIX}/projects/:projectId/timesheet`,
+      `${API_PREFIX}/projects/:projectId/workflow`,
+      `${API_PREFIX}/search`,
       `${API_PREFIX}/tasks`,
-      `${API_PREFIX}/users`
+      `${API_PREFIX}/tasks/:taskId/attachments`,
+      `${API_PREFIX}/tasks/:taskId/checklist`,
+      `${API_PREFIX}/tasks/:taskId/comments`,
+      `${API_PREFIX}/tasks/:taskId/dependencies`,
+      `${API_PREFIX}/tasks/:taskId/history`,
+      `${API_PREFIX}/tasks/:taskId/recurrence`,
+      `${API_PREFIX}/tasks/:taskId/worklogs`,
+      `${API_PREFIX}/timer`,
+      `${API_PREFIX}/users`,
+      `${API_PREFIX}/users/:userId/timesheet`,
+      `${API_PREFIX}/views`,
+      `${API_PREFIX}/webhooks`
     ]
   });
 };
@@ -36,6 +36,20 @@ interface ValidationErrorResponse {
   errors?: Record<string, string[]>;
 }
 
+/**
+ * Format checks applied to task fields on top of the DTO rules
+ */
+const TASK_FIELD_RULES: Array<{
+  field: string;
+  code: string;
+  message: string;
+  isValid: (value: string) => boolean;
+}> = [
+  { field: 'assigneeId', code: 'INVALID_ASSIGNEE', message: 'Invalid assignee ID', isValid: ValidationUtils.validateUUID },
+  { field: 'projectId', code: 'INVALID_PROJECT', message: 'Invalid project ID', isValid: ValidationUtils.validateUUID },
+  { field: 'dueDate', code: 'INVALID_DUE_DATE', message: 'Invalid due date', isValid: ValidationUtils.validateDate }
+];
+
 /**
  * Formats validation errors into a standardized response
  * @param errors - Array of validation errors
@@ -58,6 +72,31 @@ const formatValidationErrors = (errors: any[]): ValidationErrorResponse => {
   };
 };
 
+/**
+ * Validates task attributes with the rules of task creation requests, for callers
+ * that create tasks outside of a request, e.g. imports
+ * @param body - Task attributes as they would be sent to POST /tasks
+ * @returns Messages per invalid field; empty when the attributes are valid
+ */
+export const validateTaskInput = async (
+  body: Record<string, unknown>
+): Promise<Record<string, string[]>> => {
+  const errors = await validate(plainToClass(CreateTaskDTO, body), {
+    whitelist: true,
+    forbidNonWhitelisted: true
+  });
+  const fieldErrors = formatValidationErrors(errors).errors ?? {};
+
+  TASK_FIELD_RULES.forEach(rule => {
+    const value = body[rule.field];
+    if (value && !fieldErrors[rule.field] && !rule.isValid(String(value))) {
+      fieldErrors[rule.field] = [rule.message];
+    }
+  });
+
+  return fieldErrors;
+};
+
 /**
  * Authentication request validation middleware
  * Implements enhanced security measures for auth endpoints
@@ -250,31 +289,16 @@ export const validateTaskRequest = async (
       return;
     }
 
-    // Additional task-specific validations
-    if (req.body.assigneeId && !ValidationUtils.validateUUID(req.body.assigneeId)) {
-      res.status(400).json({
-        status: 'error',
-        code: 'INVALID_ASSIGNEE',
-        message: 'Invalid assignee ID'
-      });
-      return;
-    }
-
-    if (req.body.projectId && !ValidationUtils.validateUUID(req.body.projectId)) {
-      res.status(400).json({
-        status: 'error',
-        code: 'INVALID_PROJECT',
-        message: 'Invalid project ID'
-      });
-      return;
-    }
+    // Additional task-specific validations, including date constraints
+    const failedRule = TASK_FIELD_RULES.find(
+      rule => req.body[rule.field] && !rule.isValid(req.body[rule.field])
+    );
 
-    // Validate date constraints
-    if (req.body.dueDate && !ValidationUtils.validateDate(req.body.dueDate)) {
+    if (failedRule) {
       res.status(400).json({
         status: 'error',
-        code: 'INVALID_DUE_DATE',
-        message: 'Invalid due date'
+        code: failedRule.code,
+        message: failedRule.message
       });
       return;
     }
@@ -15,11 +15,50 @@ import fs from 'fs';
 
 // Internal imports
 import router from './routes';
-import { WebSocketManager } from './websocket';
+import { WebSocketManager, container } from './websocket';
 import { enhancedLogger as logger } from './utils/logger.util';
 import { createError } from './utils/error.util';
 import { StatusCode } from './constants/status-codes';
 import { ErrorCode } from './constants/error-codes';
+import { TYPES } from './config/types';
+import { registerPermissionResolver } from './middleware/auth.middleware';
+import { MilestoneService } from './services/milestone.service';
+import { NotificationService } from './services/notification.service';
+import { PermissionService } from './services/permission.service';
+import { QueueService } from './services/queue.service';
+import { RecurrenceService } from './services/recurrence.service';
+import { WebhookService } from './services/webhook.service';
+
+/**
+ * Services with background work, started once the server listens and stopped on shutdown
+ */
+export interface BackgroundServices {
+  /** Creates the occurrences of recurring tasks */
+  recurrenceService: RecurrenceService;
+
+  /** Marks milestones that became at risk or were missed */
+  milestoneService: MilestoneService;
+
+  /** Connection to the message queue the webhook deliveries go through */
+  queueService: QueueService;
+
+  /** Delivers the queued webhook events */
+  webhookService: WebhookService;
+
+  /** Sends the due-soon reminders */
+  notificationService: NotificationService;
+}
+
+/**
+ * Resolves the background services from the container, so they share its clients and metrics
+ */
+const resolveBackgroundServices = (): BackgroundServices => ({
+  recurrenceService: container.get<RecurrenceService>(TYPES.RecurrenceService),
+  milestoneService: container.get<MilestoneService>(TYPES.MilestoneService),
+  queueService: container.get<QueueService>(TYPES.QueueService),
+  webhookService: container.get<WebhookService>(TYPES.WebhookService),
+  notificationService: container.get<NotificationService>(TYPES.NotificationService)
+});
 
 /**
  * Enterprise-grade application manager implementing comprehensive security,
@@ -30,20 +69,35 @@ export class App {
   private readonly port: number;
   private readonly metricsPort: number;
   private readonly wsManager: WebSocketManager;
+  private readonly backgroundServices: BackgroundServices;
+  private readonly permissionService: PermissionService;
   private server: https.Server;
   private metricsRegistry: Registry;
 
-  constructor() {
+  constructor(
+    backgroundServices: BackgroundServices = resolveBackgroundServices(),
+    permissionService: PermissionService = container.get<PermissionService>(TYPES.PermissionService)
+  ) {
     this.app = express();
     this.port = parseInt(process.env.PORT || '3000', 10);
     this.metricsPort = parseInt(process.env.METRICS_PORT || '9090', 10);
     this.wsManager = new WebSocketManager();
+    this.backgroundServices = backgroundServices;
+    this.permissionService = permissionService;
     this.metricsRegistry = new Registry();
 
     // Initialize metrics collection
     collectDefaultMetrics({ register: this.metricsRegistry });
   }
 
+  /**
+   * Makes the route guards resolve role permissions through the runtime-editable mapping,
+   * so that permission edits apply without a restart
+   */
+  private initializePermissions(): void {
+    registerPermissionResolver(role => this.permissionService.getPermissionsForRole(role));
+  }
+
   /**
    * Initializes comprehensive middleware stack with security features
    */
@@ -186,14 +240,52 @@ export class App {
     process.on('SIGINT', () => this.shutdown());
   }
 
+  /**
+   * Starts the background work of the services
+   */
+  private async startBackgroundServices(): Promise<void> {
+    const {
+      recurrenceService,
+      milestoneService,
+      notificationService,
+      queueService,
+      webhookService
+    } = this.backgroundServices;
+
+    recurrenceService.start();
+    milestoneService.start();
+    notificationService.start();
+
+    await queueService.connect();
+    await webhookService.start();
+
+    logger.info('Background services started');
+  }
+
+  /**
+   * Stops the background work, so that no run begins while the server shuts down
+   */
+  private async stopBackgroundServices(): Promise<void> {
+    const { recurrenceService, milestoneService, notificationService, queueService } = this.backgroundServices;
+
+    recurrenceService.stop();
+    milestoneService.stop();
+    notificationService.stop();
+
+    // Closing the connection also ends the webhook delivery consumer
+    await queueService.disconnect();
+  }
+
   /**
    * Initializes the complete application stack
    */
   public async initialize(): Promise<void> {
     try {
+      this.initializePermissions();
       this.initializeMiddleware();
       this.initializeRoutes();
       await this.startServer();
+      await this.startBackgroundServices();
 
       logger.info('Application initialized successfully', {
         port: this.port,
@@ -212,6 +304,9 @@ export class App {
     logger.info('Initiating graceful shutdown...');
 
     try {
+      // Stop background work
+      await this.stopBackgroundServices();
+
       // Close HTTP server
       await new Promise<void>((resolve) => {
         this.server.close(() => resolve());
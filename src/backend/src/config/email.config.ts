@@ -22,6 +22,9 @@ const EMAIL_SECURE = process.env.EMAIL_SECURE === 'true';
 const EMAIL_FROM = process.env.EMAIL_FROM || 'noreply@taskmanager.com';
 const EMAIL_RETRY_ATTEMPTS = Number(process.env.EMAIL_RETRY_ATTEMPTS) || 3;
 const EMAIL_TEMPLATE_DIR = process.env.EMAIL_TEMPLATE_DIR || 'templates/email';
+const INBOUND_EMAIL_DOMAIN = process.env.INBOUND_EMAIL_DOMAIN || 'inbound.taskmanager.com';
+const INBOUND_EMAIL_SECRET = process.env.INBOUND_EMAIL_SECRET;
+const INBOUND_EMAIL_MAX_BYTES = Number(process.env.INBOUND_EMAIL_MAX_BYTES) || 25 * 1024 * 1024;
 
 /**
  * Validates email configuration settings with enhanced security checks
@@ -82,7 +85,12 @@ export const emailConfig: EmailConfig = {
   },
   from: EMAIL_FROM,
   templateDir: EMAIL_TEMPLATE_DIR,
-  retryAttempts: EMAIL_RETRY_ATTEMPTS
+  retryAttempts: EMAIL_RETRY_ATTEMPTS,
+  inbound: {
+    domain: INBOUND_EMAIL_DOMAIN,
+    secret: INBOUND_EMAIL_SECRET,
+    maxMessageBytes: INBOUND_EMAIL_MAX_BYTES
+  }
 };
 
 /**
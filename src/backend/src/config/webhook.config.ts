@@ -0,0 +1,25 @@
+/**
+ * @fileoverview Webhook configuration module
+ * Provides the key the signing secrets of webhooks are stored encrypted with
+ * @version 1.0.0
+ */
+
+import { WebhookConfig } from '../interfaces/config.interface';
+
+// AES-256 keys are 32 bytes, written as 64 hexadecimal characters
+const SECRET_KEY_PATTERN = /^[0-9a-fA-F]{64}$/;
+
+/**
+ * Processed webhook configuration with validation
+ * @throws Error if the secret key is missing or malformed
+ */
+export const webhookConfig: WebhookConfig = (() => {
+  const secretKey = process.env.WEBHOOK_SECRET_KEY;
+  if (!secretKey || !SECRET_KEY_PATTERN.test(secretKey)) {
+    throw new Error('Invalid webhook configuration: WEBHOOK_SECRET_KEY must be 64 hexadecimal characters');
+  }
+
+  return {
+    secretKey: Buffer.from(secretKey, 'hex')
+  };
+})();
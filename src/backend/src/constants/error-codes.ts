@@ -22,6 +22,8 @@ export enum ErrorCode {
   INVALID_INPUT = 1001,
   INVALID_FORMAT = 1002,
   MISSING_REQUIRED_FIELD = 1003,
+  SECURITY_SCAN_ERROR = 1004,
+  DEPENDENCY_CYCLE = 1005,
 
   // Authentication/Authorization Errors (1100-1199)
   AUTHENTICATION_ERROR = 1100,
@@ -34,6 +36,7 @@ export enum ErrorCode {
   RESOURCE_NOT_FOUND = 1200,
   RESOURCE_LOCKED = 1201,
   RESOURCE_CONFLICT = 1202,
+  TASK_BLOCKED = 1203,
 
   // Database Errors (1300-1399)
   DATABASE_ERROR = 1300,
@@ -60,6 +63,8 @@ export const ErrorMessage: { [key in ErrorCode]: string } = {
   [ErrorCode.INVALID_INPUT]: 'Invalid input provided',
   [ErrorCode.INVALID_FORMAT]: 'Invalid data format',
   [ErrorCode.MISSING_REQUIRED_FIELD]: 'Required field is missing',
+  [ErrorCode.SECURITY_SCAN_ERROR]: 'File failed security scan',
+  [ErrorCode.DEPENDENCY_CYCLE]: 'Task dependency would create a cycle',
 
   // Authentication/Authorization Error Messages
   [ErrorCode.AUTHENTICATION_ERROR]: 'Authentication failed - invalid credentials',
@@ -72,6 +77,7 @@ export const ErrorMessage: { [key in ErrorCode]: string } = {
   [ErrorCode.RESOURCE_NOT_FOUND]: 'Requested resource could not be found',
   [ErrorCode.RESOURCE_LOCKED]: 'Resource is currently locked',
   [ErrorCode.RESOURCE_CONFLICT]: 'Resource conflict detected',
+  [ErrorCode.TASK_BLOCKED]: 'Task is blocked by unfinished dependencies',
 
   // Database Error Messages
   [ErrorCode.DATABASE_ERROR]: 'Database operation failed',
@@ -0,0 +1,262 @@
+/**
+ * @fileoverview Task attachment controller implementing upload, streaming download, listing and deletion
+ * @version 1.0.0
+ * @module controllers/attachment
+ */
+
+// External imports with versions
+import { injectable, inject } from 'inversify'; // v6.0.1
+import {
+  controller,
+  httpGet,
+  httpPost,
+  httpDelete,
+  request,
+  response,
+  requestParam
+} from 'inversify-express-utils'; // v6.4.3
+import { Request, Response } from 'express';
+import rateLimit from 'express-rate-limit'; // v6.7.0
+import { UUID } from 'crypto';
+
+// Internal imports
+import { AttachmentService } from '../services/attachment.service';
+import { IUploadedFile } from '../interfaces/attachment.interface';
+import { ITaskContext } from '../interfaces/task.interface';
+import { TYPES } from '../config/types';
+
+// Rate limiting configuration
+const uploadLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 20, // 20 upload requests per minute
+  message: 'Too many upload requests, please try again later'
+});
+
+const generalLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  max: 100,
+  message: 'Too many requests, please try again later'
+});
+
+// Maps service error codes to HTTP status codes
+const ERROR_STATUS: Record<string, number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  CONFLICT: 409
+};
+
+/**
+ * Builds a Content-Disposition header that survives non-ASCII file names
+ */
+const contentDisposition = (fileName: string): string => {
+  const fallback = fileName.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+};
+
+/**
+ * Attachment controller exposing the files of a task
+ */
+@injectable()
+@controller('/api/v1/tasks/:taskId/attachments')
+export class AttachmentController {
+  constructor(
+    @inject(TYPES.AttachmentService) private readonly attachmentService: AttachmentService
+  ) {}
+
+  /**
+   * Lists attachments of a task
+   * @route GET /api/v1/tasks/:taskId/attachments
+   */
+  @httpGet('/')
+  @generalLimiter
+  async getAttachments(
+    @requestParam('taskId') taskId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const result = await this.attachmentService.getAttachments(
+        taskId,
+        this.buildContext(req, 'getAttachments')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to retrieve attachments',
+          details: error
+        }
+      });
+    }
+  }
+
+  /**
+   * Uploads one or more files sent as multipart field "files".
+   * Responds 201 when all files succeed, 207 when some fail and 400 when all fail,
+   * always with per-file results.
+   * @route POST /api/v1/tasks/:taskId/attachments
+   */
+  @httpPost('/')
+  @uploadLimiter
+  async uploadAttachments(
+    @requestParam('taskId') taskId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const files = (req.files as IUploadedFile[] | undefined) || [];
+
+      const result = await this.attachmentService.uploadAttachments(
+        taskId,
+        files,
+        this.buildContext(req, 'uploadAttachments')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      const { successful, failed } = result.data!;
+      const status = failed.length === 0 ? 201 : successful.length > 0 ? 207 : 400;
+
+      return res.status(status).json({
+        ...result,
+        success: successful.length > 0
+      });
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to upload attachments',
+          details: error
+        }
+      });
+    }
+  }
+
+  /**
+   * Streams attachment content to the client
+   * @route GET /api/v1/tasks/:taskId/attachments/:attachmentId/download
+   */
+  @httpGet('/:attachmentId/download')
+  @generalLimiter
+  async downloadAttachment(
+    @requestParam('taskId') taskId: UUID,
+    @requestParam('attachmentId') attachmentId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response | void> {
+    try {
+      const result = await this.attachmentService.downloadAttachment(
+        taskId,
+        attachmentId,
+        this.buildContext(req, 'downloadAttachment')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      const { attachment, stream } = result.data!;
+
+      res.status(200);
+      res.setHeader('Content-Type', attachment.mimeType);
+      res.setHeader('Content-Length', String(attachment.fileSize));
+      res.setHeader('Content-Disposition', contentDisposition(attachment.fileName));
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      res.setHeader('Cache-Control', 'private, no-store');
+
+      stream.on('error', (error) => {
+        // Headers are already sent once bytes flowed; the connection is the only signal left
+        if (!res.headersSent) {
+          res.removeHeader('Content-Disposition');
+          res.status(500).json({
+            success: false,
+            error: {
+              code: 'INTERNAL_ERROR',
+              message: 'Failed to download attachment',
+              details: error.message
+            }
+          });
+        } else {
+          res.destroy(error);
+        }
+      });
+
+      stream.pipe(res);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to download attachment',
+          details: error
+        }
+      });
+    }
+  }
+
+  /**
+   * Deletes an attachment
+   * @route DELETE /api/v1/tasks/:taskId/attachments/:attachmentId
+   */
+  @httpDelete('/:attachmentId')
+  @generalLimiter
+  async deleteAttachment(
+    @requestParam('taskId') taskId: UUID,
+    @requestParam('attachmentId') attachmentId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const result = await this.attachmentService.deleteAttachment(
+        taskId,
+        attachmentId,
+        this.buildContext(req, 'deleteAttachment')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(204).send();
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to delete attachment',
+          details: error
+        }
+      });
+    }
+  }
+
+  /**
+   * Builds the operation context from the authenticated request
+   * @private
+   */
+  private buildContext(req: Request, operationName: string): ITaskContext {
+    return {
+      userId: req.user.id,
+      userRole: req.user.role,
+      correlationId: req.headers['x-correlation-id'] as string,
+      requestId: req.id,
+      includeSoftDeleted: false,
+      telemetry: {
+        operationStart: new Date(),
+        operationName,
+        metrics: {},
+        tags: {}
+      }
+    };
+  }
+}
@@ -0,0 +1,223 @@
+/**
+ * @fileoverview Calendar controller managing personal feeds and serving them as iCalendar
+ * @version 1.0.0
+ * @module controllers/calendar
+ */
+
+// External imports with versions
+import { injectable, inject } from 'inversify'; // v6.0.1
+import {
+  controller,
+  httpGet,
+  httpPost,
+  httpDelete,
+  request,
+  response,
+  requestParam
+} from 'inversify-express-utils'; // v6.4.3
+import { Request, Response } from 'express';
+import rateLimit from 'express-rate-limit'; // v6.7.0
+import { validate } from 'class-validator'; // v0.14.0
+import { plainToClass } from 'class-transformer'; // v0.5.1
+import { UUID } from 'crypto';
+
+// Internal imports
+import { CalendarService } from '../services/calendar.service';
+import { CalendarFeedQueryDTO } from '../dto/calendar.dto';
+import { ITaskContext } from '../interfaces/task.interface';
+import { CALENDAR_CONTENT_TYPE, isValidTimeZone } from '../utils/calendar.util';
+import { TYPES } from '../config/types';
+
+// Rate limiting configuration
+const generalLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 30,
+  message: 'Too many requests, please try again later'
+});
+
+// Calendar apps poll feeds, usually every few minutes to hours
+const feedLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 20,
+  message: 'Too many feed requests, please try again later'
+});
+
+// Maps service error codes to HTTP status codes
+const ERROR_STATUS: Record<string, number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403
+};
+
+/**
+ * Calendar controller. The feed itself is read without a session, by the secret token
+ * in its URL; managing the token requires the signed-in user.
+ */
+@injectable()
+@controller('/api/v1/calendar')
+export class CalendarController {
+  constructor(
+    @inject(TYPES.CalendarService) private readonly calendarService: CalendarService
+  ) {}
+
+  /**
+   * Retrieves the caller's feed; data is null when none was generated
+   * @route GET /api/v1/calendar/feed
+   */
+  @httpGet('/feed')
+  @generalLimiter
+  async getFeed(
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const result = await this.calendarService.getFeed(this.buildContext(req, 'getFeed'));
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      return this.internalError(res, 'Failed to retrieve calendar feed', error);
+    }
+  }
+
+  /**
+   * Generates a new feed token, replacing the previous one; the token is only returned here
+   * @route POST /api/v1/calendar/feed
+   */
+  @httpPost('/feed')
+  @generalLimiter
+  async regenerateFeed(
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const result = await this.calendarService.regenerateFeed(this.buildContext(req, 'regenerateFeed'));
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      res.setHeader('Cache-Control', 'no-store');
+      return res.status(201).json(result);
+    } catch (error) {
+      return this.internalError(res, 'Failed to generate calendar feed', error);
+    }
+  }
+
+  /**
+   * Revokes the caller's feed
+   * @route DELETE /api/v1/calendar/feed
+   */
+  @httpDelete('/feed')
+  @generalLimiter
+  async revokeFeed(
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const result = await this.calendarService.revokeFeed(this.buildContext(req, 'revokeFeed'));
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(204).send();
+    } catch (error) {
+      return this.internalError(res, 'Failed to revoke calendar feed', error);
+    }
+  }
+
+  /**
+   * Serves a feed as iCalendar, optionally limited to ?projectId= and placed in ?tz=
+   * @route GET /api/v1/calendar/:token.ics
+   */
+  @httpGet('/:token.ics')
+  @feedLimiter
+  async getCalendar(
+    @requestParam('token') token: string,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const queryDto = plainToClass(CalendarFeedQueryDTO, req.query);
+      const errors = await validate(queryDto);
+
+      if (errors.length > 0) {
+        return this.validationError(res, errors);
+      }
+
+      const timezone = queryDto.tz || 'UTC';
+      if (!isValidTimeZone(timezone)) {
+        return this.validationError(res, [], `Unknown time zone: ${timezone}`);
+      }
+
+      const result = await this.calendarService.renderFeed(token, {
+        projectIds: queryDto.projectId as UUID[] | undefined,
+        timezone
+      });
+
+      if (!result.success || result.data === undefined) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      res.setHeader('Content-Type', CALENDAR_CONTENT_TYPE);
+      res.setHeader('Content-Disposition', 'inline; filename="tasks.ics"');
+      res.setHeader('Cache-Control', 'private, max-age=300');
+      return res.status(200).send(result.data);
+    } catch (error) {
+      return this.internalError(res, 'Failed to render calendar feed', error);
+    }
+  }
+
+  /**
+   * Builds a 400 response for invalid feed parameters
+   * @private
+   */
+  private validationError(res: Response, errors: unknown[], message = 'Invalid calendar feed parameters'): Response {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message,
+        details: errors
+      }
+    });
+  }
+
+  /**
+   * Builds a 500 response for unexpected failures
+   * @private
+   */
+  private internalError(res: Response, message: string, error: unknown): Response {
+    return res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message,
+        details: error
+      }
+    });
+  }
+
+  /**
+   * Builds the operation context from the authenticated request
+   * @private
+   */
+  private buildContext(req: Request, operationName: string): ITaskContext {
+    return {
+      userId: req.user.id,
+      userRole: req.user.role,
+      correlationId: req.headers['x-correlation-id'] as string,
+      requestId: req.id,
+      includeSoftDeleted: false,
+      telemetry: {
+        operationStart: new Date(),
+        operationName,
+        metrics: {},
+        tags: {}
+      }
+    };
+  }
+}
@@ -0,0 +1,243 @@
+/**
+ * @fileoverview Checklist controller implementing endpoints for checklist items inside a task
+ * @version 1.0.0
+ * @module controllers/checklist
+ */
+
+// External imports with versions
+import { injectable, inject } from 'inversify'; // v6.0.1
+import {
+  controller,
+  httpGet,
+  httpPost,
+  httpPut,
+  httpDelete,
+  request,
+  response,
+  requestParam
+} from 'inversify-express-utils'; // v6.4.3
+import { Request, Response } from 'express';
+import rateLimit from 'express-rate-limit'; // v6.7.0
+import { validate } from 'class-validator'; // v0.14.0
+import { plainToClass } from 'class-transformer'; // v0.5.1
+import { UUID } from 'crypto';
+
+// Internal imports
+import { ChecklistService } from '../services/checklist.service';
+import { CreateChecklistItemDTO, UpdateChecklistItemDTO } from '../dto/checklist.dto';
+import { ITaskContext } from '../interfaces/task.interface';
+import { TYPES } from '../config/types';
+
+// Rate limiting configuration
+const generalLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 100,
+  message: 'Too many requests, please try again later'
+});
+
+// Maps service error codes to HTTP status codes
+const ERROR_STATUS: Record<string, number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403
+};
+
+/**
+ * Checklist controller exposing the checklist items of a task
+ */
+@injectable()
+@controller('/api/v1/tasks/:taskId/checklist')
+export class ChecklistController {
+  constructor(
+    @inject(TYPES.ChecklistService) private readonly checklistService: ChecklistService
+  ) {}
+
+  /**
+   * Lists checklist items in display order
+   * @route GET /api/v1/tasks/:taskId/checklist
+   */
+  @httpGet('/')
+  @generalLimiter
+  async getChecklist(
+    @requestParam('taskId') taskId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const result = await this.checklistService.getChecklist(
+        taskId,
+        this.buildContext(req, 'getChecklist')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to retrieve checklist',
+          details: error
+        }
+      });
+    }
+  }
+
+  /**
+   * Adds a checklist item
+   * @route POST /api/v1/tasks/:taskId/checklist
+   */
+  @httpPost('/')
+  @generalLimiter
+  async addItem(
+    @requestParam('taskId') taskId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const itemDto = plainToClass(CreateChecklistItemDTO, req.body);
+      const errors = await validate(itemDto);
+
+      if (errors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid checklist item data',
+            details: errors
+          }
+        });
+      }
+
+      const result = await this.checklistService.addItem(
+        taskId,
+        itemDto,
+        this.buildContext(req, 'addChecklistItem')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(201).json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to add checklist item',
+          details: error
+        }
+      });
+    }
+  }
+
+  /**
+   * Renames, reorders or checks off a checklist item
+   * @route PUT /api/v1/tasks/:taskId/checklist/:itemId
+   */
+  @httpPut('/:itemId')
+  @generalLimiter
+  async updateItem(
+    @requestParam('taskId') taskId: UUID,
+    @requestParam('itemId') itemId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const itemDto = plainToClass(UpdateChecklistItemDTO, req.body);
+      const errors = await validate(itemDto);
+
+      if (errors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid checklist item data',
+            details: errors
+          }
+        });
+      }
+
+      const result = await this.checklistService.updateItem(
+        taskId,
+        itemId,
+        itemDto,
+        this.buildContext(req, 'updateChecklistItem')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to update checklist item',
+          details: error
+        }
+      });
+    }
+  }
+
+  /**
+   * Removes a checklist item
+   * @route DELETE /api/v1/tasks/:taskId/checklist/:itemId
+   */
+  @httpDelete('/:itemId')
+  @generalLimiter
+  async removeItem(
+    @requestParam('taskId') taskId: UUID,
+    @requestParam('itemId') itemId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const result = await this.checklistService.removeItem(
+        taskId,
+        itemId,
+        this.buildContext(req, 'removeChecklistItem')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(204).send();
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to remove checklist item',
+          details: error
+        }
+      });
+    }
+  }
+
+  /**
+   * Builds the operation context from the authenticated request
+   * @private
+   */
+  private buildContext(req: Request, operationName: string): ITaskContext {
+    return {
+      userId: req.user.id,
+      userRole: req.user.role,
+      correlationId: req.headers['x-correlation-id'] as string,
+      requestId: req.id,
+      includeSoftDeleted: false,
+      telemetry: {
+        operationStart: new Date(),
+        operationName,
+        metrics: {},
+        tags: {}
+      }
+    };
+  }
+}
@@ -0,0 +1,269 @@
+/**
+ * @fileoverview Task comment controller implementing RESTful endpoints for threaded discussions
+ * @version 1.0.0
+ * @module controllers/comment
+ */
+
+// External imports with versions
+import { injectable, inject } from 'inversify'; // v6.0.1
+import {
+  controller,
+  httpGet,
+  httpPost,
+  httpPut,
+  httpDelete,
+  request,
+  response,
+  requestParam
+} from 'inversify-express-utils'; // v6.4.3
+import { Request, Response } from 'express';
+import rateLimit from 'express-rate-limit'; // v6.7.0
+import { validate } from 'class-validator'; // v0.14.0
+import { plainToClass } from 'class-transformer'; // v0.5.1
+import { UUID } from 'crypto';
+
+// Internal imports
+import { CommentService } from '../services/comment.service';
+import { CreateCommentDTO, UpdateCommentDTO, CommentQueryDTO } from '../dto/comment.dto';
+import { ITaskContext } from '../interfaces/task.interface';
+import { TYPES } from '../config/types';
+
+// Rate limiting configuration
+const createCommentLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 30, // 30 comments per minute
+  message: 'Too many comment requests, please try again later'
+});
+
+const generalLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  max: 100,
+  message: 'Too many requests, please try again later'
+});
+
+// Maps service error codes to HTTP status codes
+const ERROR_STATUS: Record<string, number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  CONFLICT: 409
+};
+
+/**
+ * Comment controller exposing paginated, threaded discussions under a task
+ */
+@injectable()
+@controller('/api/v1/tasks/:taskId/comments')
+export class CommentController {
+  constructor(
+    @inject(TYPES.CommentService) private readonly commentService: CommentService
+  ) {}
+
+  /**
+   * Retrieves top-level comments with their replies
+   * @route GET /api/v1/tasks/:taskId/comments
+   */
+  @httpGet('/')
+  @generalLimiter
+  async getComments(
+    @requestParam('taskId') taskId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const queryDto = plainToClass(CommentQueryDTO, req.query);
+      const errors = await validate(queryDto);
+
+      if (errors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid query parameters',
+            details: errors
+          }
+        });
+      }
+
+      const result = await this.commentService.getComments(
+        taskId,
+        {
+          page: queryDto.page || 1,
+          limit: queryDto.limit || 20,
+          sortOrder: (queryDto.sortOrder?.toLowerCase() as 'asc' | 'desc') || 'desc'
+        },
+        this.buildContext(req, 'getComments')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to retrieve comments',
+          details: error
+        }
+      });
+    }
+  }
+
+  /**
+   * Creates a comment, or a reply when parentId is supplied
+   * @route POST /api/v1/tasks/:taskId/comments
+   */
+  @httpPost('/')
+  @createCommentLimiter
+  async createComment(
+    @requestParam('taskId') taskId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const commentDto = plainToClass(CreateCommentDTO, req.body);
+      const errors = await validate(commentDto);
+
+      if (errors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid comment data',
+            details: errors
+          }
+        });
+      }
+
+      const result = await this.commentService.createComment(
+        taskId,
+        commentDto,
+        this.buildContext(req, 'createComment')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(201).json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to create comment',
+          details: error
+        }
+      });
+    }
+  }
+
+  /**
+   * Updates a comment owned by the caller
+   * @route PUT /api/v1/tasks/:taskId/comments/:commentId
+   */
+  @httpPut('/:commentId')
+  @generalLimiter
+  async updateComment(
+    @requestParam('taskId') taskId: UUID,
+    @requestParam('commentId') commentId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const commentDto = plainToClass(UpdateCommentDTO, req.body);
+      const errors = await validate(commentDto);
+
+      if (errors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid comment data',
+            details: errors
+          }
+        });
+      }
+
+      const result = await this.commentService.updateComment(
+        taskId,
+        commentId,
+        commentDto,
+        this.buildContext(req, 'updateComment')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to update comment',
+          details: error
+        }
+      });
+    }
+  }
+
+  /**
+   * Deletes a comment owned by the caller
+   * @route DELETE /api/v1/tasks/:taskId/comments/:commentId
+   */
+  @httpDelete('/:commentId')
+  @generalLimiter
+  async deleteComment(
+    @requestParam('taskId') taskId: UUID,
+    @requestParam('commentId') commentId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const result = await this.commentService.deleteComment(
+        taskId,
+        commentId,
+        this.buildContext(req, 'deleteComment')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(204).send();
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to delete comment',
+          details: error
+        }
+      });
+    }
+  }
+
+  /**
+   * Builds the operation context from the authenticated request
+   * @private
+   */
+  private buildContext(req: Request, operationName: string): ITaskContext {
+    return {
+      userId: req.user.id,
+      userRole: req.user.role,
+      correlationId: req.headers['x-correlation-id'] as string,
+      requestId: req.id,
+      includeSoftDeleted: false,
+      telemetry: {
+        operationStart: new Date(),
+        operationName,
+        metrics: {},
+        tags: {}
+      }
+    };
+  }
+}
@@ -0,0 +1,245 @@
+/**
+ * @fileoverview Project custom field controller implementing field list, create, update and delete endpoints
+ * @version 1.0.0
+ * @module controllers/customField
+ */
+
+// External imports with versions
+import { injectable, inject } from 'inversify'; // v6.0.1
+import {
+  controller,
+  httpGet,
+  httpPost,
+  httpPut,
+  httpDelete,
+  request,
+  response,
+  requestParam
+} from 'inversify-express-utils'; // v6.4.3
+import { Request, Response } from 'express';
+import rateLimit from 'express-rate-limit'; // v6.7.0
+import { validate } from 'class-validator'; // v0.14.0
+import { plainToClass } from 'class-transformer'; // v0.5.1
+import { UUID } from 'crypto';
+
+// Internal imports
+import { CustomFieldService } from '../services/customField.service';
+import { CreateCustomFieldDTO, UpdateCustomFieldDTO } from '../dto/customField.dto';
+import { ICreateCustomFieldDTO, IUpdateCustomFieldDTO } from '../interfaces/customField.interface';
+import { ITaskContext } from '../interfaces/task.interface';
+import { TYPES } from '../config/types';
+
+// Rate limiting configuration
+const generalLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 100,
+  message: 'Too many requests, please try again later'
+});
+
+// Maps service error codes to HTTP status codes
+const ERROR_STATUS: Record<string, number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  CONFLICT: 409
+};
+
+/**
+ * Custom field controller exposing the typed task fields defined on a project
+ */
+@injectable()
+@controller('/api/v1/projects/:projectId/custom-fields')
+export class CustomFieldController {
+  constructor(
+    @inject(TYPES.CustomFieldService) private readonly customFieldService: CustomFieldService
+  ) {}
+
+  /**
+   * Lists the custom fields of the project in display order
+   * @route GET /api/v1/projects/:projectId/custom-fields
+   */
+  @httpGet('/')
+  @generalLimiter
+  async getFields(
+    @requestParam('projectId') projectId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const result = await this.customFieldService.listFields(
+        projectId,
+        this.buildContext(req, 'getFields')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to retrieve custom fields',
+          details: error
+        }
+      });
+    }
+  }
+
+  /**
+   * Defines a new custom field on the project
+   * @route POST /api/v1/projects/:projectId/custom-fields
+   */
+  @httpPost('/')
+  @generalLimiter
+  async createField(
+    @requestParam('projectId') projectId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const fieldDto = plainToClass(CreateCustomFieldDTO, req.body);
+      const errors = await validate(fieldDto);
+
+      if (errors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid custom field data',
+            details: errors
+          }
+        });
+      }
+
+      const result = await this.customFieldService.createField(
+        projectId,
+        fieldDto as ICreateCustomFieldDTO,
+        this.buildContext(req, 'createField')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(201).json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to create custom field',
+          details: error
+        }
+      });
+    }
+  }
+
+  /**
+   * Updates the name, options, required flag or position of a custom field
+   * @route PUT /api/v1/projects/:projectId/custom-fields/:fieldId
+   */
+  @httpPut('/:fieldId')
+  @generalLimiter
+  async updateField(
+    @requestParam('projectId') projectId: UUID,
+    @requestParam('fieldId') fieldId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const fieldDto = plainToClass(UpdateCustomFieldDTO, req.body);
+      const errors = await validate(fieldDto);
+
+      if (errors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid custom field data',
+            details: errors
+          }
+        });
+      }
+
+      const result = await this.customFieldService.updateField(
+        projectId,
+        fieldId,
+        fieldDto as IUpdateCustomFieldDTO,
+        this.buildContext(req, 'updateField')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to update custom field',
+          details: error
+        }
+      });
+    }
+  }
+
+  /**
+   * Removes a custom field from the project
+   * @route DELETE /api/v1/projects/:projectId/custom-fields/:fieldId
+   */
+  @httpDelete('/:fieldId')
+  @generalLimiter
+  async deleteField(
+    @requestParam('projectId') projectId: UUID,
+    @requestParam('fieldId') fieldId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const result = await this.customFieldService.deleteField(
+        projectId,
+        fieldId,
+        this.buildContext(req, 'deleteField')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(204).send();
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to delete custom field',
+          details: error
+        }
+      });
+    }
+  }
+
+  /**
+   * Builds the operation context from the authenticated request
+   * @private
+   */
+  private buildContext(req: Request, operationName: string): ITaskContext {
+    return {
+      userId: req.user.id,
+      userRole: req.user.role,
+      correlationId: req.headers['x-correlation-id'] as string,
+      requestId: req.id,
+      includeSoftDeleted: false,
+      telemetry: {
+        operationStart: new Date(),
+        operationName,
+        metrics: {},
+        tags: {}
+      }
+    };
+  }
+}
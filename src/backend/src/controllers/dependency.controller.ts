@@ -0,0 +1,193 @@
+/**
+ * @fileoverview Task dependency controller implementing blocks/blocked-by link endpoints
+ * @version 1.0.0
+ * @module controllers/dependency
+ */
+
+// External imports with versions
+import { injectable, inject } from 'inversify'; // v6.0.1
+import {
+  controller,
+  httpGet,
+  httpPost,
+  httpDelete,
+  request,
+  response,
+  requestParam
+} from 'inversify-express-utils'; // v6.4.3
+import { Request, Response } from 'express';
+import rateLimit from 'express-rate-limit'; // v6.7.0
+import { validate } from 'class-validator'; // v0.14.0
+import { plainToClass } from 'class-transformer'; // v0.5.1
+import { UUID } from 'crypto';
+
+// Internal imports
+import { TaskDependencyService } from '../services/dependency.service';
+import { CreateDependencyDTO } from '../dto/dependency.dto';
+import { ITaskContext } from '../interfaces/task.interface';
+import { TYPES } from '../config/types';
+
+// Rate limiting configuration
+const generalLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 100,
+  message: 'Too many requests, please try again later'
+});
+
+// Maps service error codes to HTTP status codes
+const ERROR_STATUS: Record<string, number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  CONFLICT: 409,
+  DEPENDENCY_CYCLE: 409
+};
+
+/**
+ * Dependency controller exposing the blocks/blocked-by links of a task
+ */
+@injectable()
+@controller('/api/v1/tasks/:taskId/dependencies')
+export class DependencyController {
+  constructor(
+    @inject(TYPES.TaskDependencyService) private readonly dependencyService: TaskDependencyService
+  ) {}
+
+  /**
+   * Lists blockers of the task and tasks it blocks
+   * @route GET /api/v1/tasks/:taskId/dependencies
+   */
+  @httpGet('/')
+  @generalLimiter
+  async getDependencies(
+    @requestParam('taskId') taskId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const result = await this.dependencyService.getDependencies(
+        taskId,
+        this.buildContext(req, 'getDependencies')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to retrieve dependencies',
+          details: error
+        }
+      });
+    }
+  }
+
+  /**
+   * Links the task to a blocker (blockerId) or to a task it blocks (blockedId)
+   * @route POST /api/v1/tasks/:taskId/dependencies
+   */
+  @httpPost('/')
+  @generalLimiter
+  async addDependency(
+    @requestParam('taskId') taskId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const dependencyDto = plainToClass(CreateDependencyDTO, req.body);
+      const errors = await validate(dependencyDto);
+
+      if (errors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid dependency data',
+            details: errors
+          }
+        });
+      }
+
+      const result = await this.dependencyService.addDependency(
+        taskId,
+        dependencyDto,
+        this.buildContext(req, 'addDependency')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(201).json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to create dependency',
+          details: error
+        }
+      });
+    }
+  }
+
+  /**
+   * Removes a link touching the task
+   * @route DELETE /api/v1/tasks/:taskId/dependencies/:dependencyId
+   */
+  @httpDelete('/:dependencyId')
+  @generalLimiter
+  async removeDependency(
+    @requestParam('taskId') taskId: UUID,
+    @requestParam('dependencyId') dependencyId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const result = await this.dependencyService.removeDependency(
+        taskId,
+        dependencyId,
+        this.buildContext(req, 'removeDependency')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(204).send();
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to remove dependency',
+          details: error
+        }
+      });
+    }
+  }
+
+  /**
+   * Builds the operation context from the authenticated request
+   * @private
+   */
+  private buildContext(req: Request, operationName: string): ITaskContext {
+    return {
+      userId: req.user.id,
+      userRole: req.user.role,
+      correlationId: req.headers['x-correlation-id'] as string,
+      requestId: req.id,
+      includeSoftDeleted: false,
+      telemetry: {
+        operationStart: new Date(),
+        operationName,
+        metrics: {},
+        tags: {}
+      }
+    };
+  }
+}
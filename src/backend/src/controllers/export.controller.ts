@@ -0,0 +1,224 @@
+/**
+ * @fileoverview Export controller streaming task and project lists as CSV, XLSX or JSON
+ * @version 1.0.0
+ * @module controllers/export
+ */
+
+// External imports with versions
+import { injectable, inject } from 'inversify'; // v6.0.1
+import {
+  controller,
+  httpGet,
+  request,
+  response
+} from 'inversify-express-utils'; // v6.4.3
+import { Request, Response } from 'express';
+import rateLimit from 'express-rate-limit'; // v6.7.0
+import { validate } from 'class-validator'; // v0.14.0
+import { plainToClass } from 'class-transformer'; // v0.5.1
+
+// Internal imports
+import { TaskService } from '../services/task.service';
+import { ProjectService } from '../services/project.service';
+import { TaskExportQueryDTO, ProjectExportQueryDTO } from '../dto/export.dto';
+import { ITaskContext } from '../interfaces/task.interface';
+import { IProjectQueryParams } from '../interfaces/project.interface';
+import { ITaskExportRow, IProjectExportRow } from '../interfaces/export.interface';
+import { CustomFieldFilter } from '../types/customField.types';
+import { ExportFormat } from '../types/export.types';
+import { parseCustomFieldFilter } from '../utils/customField.util';
+import {
+  ExportColumn,
+  EXPORT_CONTENT_TYPES,
+  TASK_EXPORT_COLUMNS,
+  DEFAULT_TASK_EXPORT_COLUMNS,
+  PROJECT_EXPORT_COLUMNS,
+  DEFAULT_PROJECT_EXPORT_COLUMNS,
+  buildExportFileName,
+  selectExportColumns,
+  writeExport
+} from '../utils/export.util';
+import { enhancedLogger as logger } from '../utils/logger.util';
+import { TYPES } from '../config/types';
+
+// Exports read whole lists, so they are limited more tightly than listings
+const exportLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 10,
+  message: 'Too many exports, please try again later'
+});
+
+// Maps service error codes to HTTP status codes
+const ERROR_STATUS: Record<string, number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403
+};
+
+/**
+ * Export controller streaming the lists a user can see. Rows are written as they are
+ * read from the database, so a response is never held in memory.
+ */
+@injectable()
+@controller('/api/v1/exports')
+export class ExportController {
+  constructor(
+    @inject(TYPES.TaskService) private readonly taskService: TaskService,
+    @inject(TYPES.ProjectService) private readonly projectService: ProjectService
+  ) {}
+
+  /**
+   * Exports the tasks matching the filters of the task listing
+   * @route GET /api/v1/exports/tasks
+   */
+  @httpGet('/tasks')
+  @exportLimiter
+  async exportTasks(
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response | void> {
+    try {
+      const queryDto = plainToClass(TaskExportQueryDTO, req.query);
+      const errors = await validate(queryDto);
+
+      if (errors.length > 0) {
+        return this.validationError(res, errors);
+      }
+
+      let columns: ExportColumn<ITaskExportRow>[];
+      let customFields: CustomFieldFilter[] | undefined;
+      try {
+        columns = selectExportColumns(TASK_EXPORT_COLUMNS, queryDto.columns, DEFAULT_TASK_EXPORT_COLUMNS);
+        customFields = queryDto.customField?.map(parseCustomFieldFilter);
+      } catch (error) {
+        return this.validationError(res, [], (error as Error).message);
+      }
+
+      const result = await this.taskService.exportTasks(
+        { ...queryDto, customFields, query: queryDto.q },
+        this.buildContext(req, 'exportTasks')
+      );
+
+      if (!result.success || !result.data) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      await this.stream(res, queryDto.format ?? ExportFormat.CSV, 'tasks', columns, result.data);
+    } catch (error) {
+      return this.streamError(res, 'Failed to export tasks', error);
+    }
+  }
+
+  /**
+   * Exports the projects matching the filters of the project listing
+   * @route GET /api/v1/exports/projects
+   */
+  @httpGet('/projects')
+  @exportLimiter
+  async exportProjects(
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response | void> {
+    try {
+      const queryDto = plainToClass(ProjectExportQueryDTO, req.query);
+      const errors = await validate(queryDto);
+
+      if (errors.length > 0) {
+        return this.validationError(res, errors);
+      }
+
+      let columns: ExportColumn<IProjectExportRow>[];
+      try {
+        columns = selectExportColumns(PROJECT_EXPORT_COLUMNS, queryDto.columns, DEFAULT_PROJECT_EXPORT_COLUMNS);
+      } catch (error) {
+        return this.validationError(res, [], (error as Error).message);
+      }
+
+      const rows = this.projectService.exportProjects(
+        queryDto as IProjectQueryParams,
+        req.user.id,
+        req.user.role
+      );
+
+      await this.stream(res, queryDto.format ?? ExportFormat.CSV, 'projects', columns, rows);
+    } catch (error) {
+      return this.streamError(res, 'Failed to export projects', error);
+    }
+  }
+
+  /**
+   * Sends the download headers and writes the rows to the response
+   * @private
+   */
+  private async stream<T>(
+    res: Response,
+    format: ExportFormat,
+    name: string,
+    columns: ExportColumn<T>[],
+    rows: AsyncIterable<T>
+  ): Promise<void> {
+    res.status(200);
+    res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format]);
+    res.setHeader('Content-Disposition', `attachment; filename="${buildExportFileName(name, format)}"`);
+    res.setHeader('Cache-Control', 'no-store');
+
+    await writeExport(format, columns, rows, res, name);
+    res.end();
+  }
+
+  /**
+   * Builds a 400 response for invalid export parameters
+   * @private
+   */
+  private validationError(res: Response, errors: unknown[], message = 'Invalid export parameters'): Response {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message,
+        details: errors
+      }
+    });
+  }
+
+  /**
+   * Builds a 500 response for unexpected failures; once rows have been sent the status
+   * can no longer change, so the connection is dropped to leave the download incomplete
+   * @private
+   */
+  private streamError(res: Response, message: string, error: unknown): Response | void {
+    if (res.headersSent) {
+      logger.error(message, { error: error instanceof Error ? error.message : error });
+      res.destroy();
+      return;
+    }
+
+    return res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message,
+        details: error
+      }
+    });
+  }
+
+  /**
+   * Builds the operation context from the authenticated request
+   * @private
+   */
+  private buildContext(req: Request, operationName: string): ITaskContext {
+    return {
+      userId: req.user.id,
+      userRole: req.user.role,
+      correlationId: req.headers['x-correlation-id'] as string,
+      requestId: req.id,
+      includeSoftDeleted: false,
+      telemetry: {
+        operationStart: new Date(),
+        operationName,
+        metrics: {},
+        tags: {}
+      }
+    };
+  }
+}
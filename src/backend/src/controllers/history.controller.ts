@@ -0,0 +1,184 @@
+/**
+ * @fileoverview History controller implementing the change log endpoints of tasks and projects
+ * @version 1.0.0
+ * @module controllers/history
+ */
+
+// External imports with versions
+import { injectable, inject } from 'inversify'; // v6.0.1
+import {
+  controller,
+  httpGet,
+  request,
+  response,
+  requestParam
+} from 'inversify-express-utils'; // v6.4.3
+import { Request, Response } from 'express';
+import rateLimit from 'express-rate-limit'; // v6.7.0
+import { validate } from 'class-validator'; // v0.14.0
+import { plainToClass } from 'class-transformer'; // v0.5.1
+import { UUID } from 'crypto';
+
+// Internal imports
+import { HistoryService } from '../services/history.service';
+import { HistoryQueryDTO } from '../dto/history.dto';
+import { IHistoryQueryParams } from '../interfaces/history.interface';
+import { ITaskContext } from '../interfaces/task.interface';
+import { TYPES } from '../config/types';
+
+// Rate limiting configuration
+const generalLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 100,
+  message: 'Too many requests, please try again later'
+});
+
+// Maps service error codes to HTTP status codes
+const ERROR_STATUS: Record<string, number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403
+};
+
+/**
+ * History controller exposing who changed which field of a task or project, and when
+ */
+@injectable()
+@controller('/api/v1')
+export class HistoryController {
+  constructor(
+    @inject(TYPES.HistoryService) private readonly historyService: HistoryService
+  ) {}
+
+  /**
+   * Retrieves the change history of a task, newest first
+   * @route GET /api/v1/tasks/:taskId/history
+   */
+  @httpGet('/tasks/:taskId/history')
+  @generalLimiter
+  async getTaskHistory(
+    @requestParam('taskId') taskId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const params = await this.parseQuery(req);
+      if (!params) {
+        return this.invalidQuery(res);
+      }
+
+      const result = await this.historyService.getTaskHistory(
+        taskId,
+        params,
+        this.buildContext(req, 'getTaskHistory')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to retrieve task history',
+          details: error
+        }
+      });
+    }
+  }
+
+  /**
+   * Retrieves the change history of a project, newest first
+   * @route GET /api/v1/projects/:projectId/history
+   */
+  @httpGet('/projects/:projectId/history')
+  @generalLimiter
+  async getProjectHistory(
+    @requestParam('projectId') projectId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const params = await this.parseQuery(req);
+      if (!params) {
+        return this.invalidQuery(res);
+      }
+
+      const result = await this.historyService.getProjectHistory(
+        projectId,
+        params,
+        this.buildContext(req, 'getProjectHistory')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to retrieve project history',
+          details: error
+        }
+      });
+    }
+  }
+
+  /**
+   * Validates the query string; returns null when it is invalid
+   * @private
+   */
+  private async parseQuery(req: Request): Promise<IHistoryQueryParams | null> {
+    const queryDto = plainToClass(HistoryQueryDTO, req.query);
+    const errors = await validate(queryDto);
+
+    if (errors.length > 0) {
+      return null;
+    }
+
+    return {
+      page: queryDto.page || 1,
+      limit: queryDto.limit || 50,
+      field: queryDto.field
+    };
+  }
+
+  /**
+   * Sends the response for an invalid query string
+   * @private
+   */
+  private invalidQuery(res: Response): Response {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid query parameters'
+      }
+    });
+  }
+
+  /**
+   * Builds the operation context from the authenticated request
+   * @private
+   */
+  private buildContext(req: Request, operationName: string): ITaskContext {
+    return {
+      userId: req.user.id,
+      userRole: req.user.role,
+      correlationId: req.headers['x-correlation-id'] as string,
+      requestId: req.id,
+      includeSoftDeleted: false,
+      telemetry: {
+        operationStart: new Date(),
+        operationName,
+        metrics: {},
+        tags: {}
+      }
+    };
+  }
+}
@@ -0,0 +1,241 @@
+/**
+ * @fileoverview Task import controller implementing upload, dry-run and commit endpoints
+ * @version 1.0.0
+ * @module controllers/import
+ */
+
+// External imports with versions
+import { injectable, inject } from 'inversify'; // v6.0.1
+import {
+  controller,
+  httpGet,
+  httpPost,
+  request,
+  response,
+  requestParam
+} from 'inversify-express-utils'; // v6.4.3
+import { Request, Response } from 'express';
+import rateLimit from 'express-rate-limit'; // v6.7.0
+import { validate } from 'class-validator'; // v0.14.0
+import { plainToClass } from 'class-transformer'; // v0.5.1
+import { UUID } from 'crypto';
+
+// Internal imports
+import { TaskImportService } from '../services/import.service';
+import { MapTaskImportDTO } from '../dto/import.dto';
+import { IMapTaskImportDTO } from '../interfaces/import.interface';
+import { IUploadedFile } from '../interfaces/attachment.interface';
+import { ITaskContext } from '../interfaces/task.interface';
+import { TYPES } from '../config/types';
+
+// Rate limiting configuration
+const generalLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 100,
+  message: 'Too many requests, please try again later'
+});
+
+// Maps service error codes to HTTP status codes
+const ERROR_STATUS: Record<string, number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  IMPORT_STARTED: 409
+};
+
+/**
+ * Task import controller exposing the imports of a project
+ */
+@injectable()
+@controller('/api/v1/projects/:projectId/imports')
+export class TaskImportController {
+  constructor(
+    @inject(TYPES.TaskImportService) private readonly importService: TaskImportService
+  ) {}
+
+  /**
+   * Uploads a CSV or JSON file, returning its columns, a suggested mapping and sample rows
+   * @route POST /api/v1/projects/:projectId/imports
+   */
+  @httpPost('/')
+  @generalLimiter
+  async createImport(
+    @requestParam('projectId') projectId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const file = req.file as IUploadedFile | undefined;
+      if (!file) {
+        return this.validationError(res, [{ property: 'file', constraints: { isDefined: 'A file is required' } }]);
+      }
+
+      const result = await this.importService.createImport(
+        projectId,
+        { fileName: file.originalname, mimeType: file.mimetype, content: file.buffer },
+        this.buildContext(req, 'createImport')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(201).json(result);
+    } catch (error) {
+      return this.internalError(res, 'Failed to upload import', error);
+    }
+  }
+
+  /**
+   * Retrieves an import with its progress
+   * @route GET /api/v1/projects/:projectId/imports/:importId
+   */
+  @httpGet('/:importId')
+  @generalLimiter
+  async getImport(
+    @requestParam('projectId') projectId: UUID,
+    @requestParam('importId') importId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const result = await this.importService.getImport(
+        projectId,
+        importId,
+        this.buildContext(req, 'getImport')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      return this.internalError(res, 'Failed to retrieve import', error);
+    }
+  }
+
+  /**
+   * Validates every row with a mapping without creating tasks
+   * @route POST /api/v1/projects/:projectId/imports/:importId/validate
+   */
+  @httpPost('/:importId/validate')
+  @generalLimiter
+  async validateImport(
+    @requestParam('projectId') projectId: UUID,
+    @requestParam('importId') importId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const mappingDto = plainToClass(MapTaskImportDTO, req.body);
+      const errors = await validate(mappingDto);
+
+      if (errors.length > 0) {
+        return this.validationError(res, errors);
+      }
+
+      const result = await this.importService.validateImport(
+        projectId,
+        importId,
+        mappingDto as IMapTaskImportDTO,
+        this.buildContext(req, 'validateImport')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      return this.internalError(res, 'Failed to validate import', error);
+    }
+  }
+
+  /**
+   * Starts creating the tasks of the valid rows; progress is reported on the import
+   * and with PROJECT_UPDATE messages
+   * @route POST /api/v1/projects/:projectId/imports/:importId/commit
+   */
+  @httpPost('/:importId/commit')
+  @generalLimiter
+  async commitImport(
+    @requestParam('projectId') projectId: UUID,
+    @requestParam('importId') importId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const mappingDto = plainToClass(MapTaskImportDTO, req.body);
+      const errors = await validate(mappingDto);
+
+      if (errors.length > 0) {
+        return this.validationError(res, errors);
+      }
+
+      const result = await this.importService.commitImport(
+        projectId,
+        importId,
+        mappingDto as IMapTaskImportDTO,
+        this.buildContext(req, 'commitImport')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(202).json(result);
+    } catch (error) {
+      return this.internalError(res, 'Failed to commit import', error);
+    }
+  }
+
+  /**
+   * Builds a 400 response for request validation errors
+   * @private
+   */
+  private validationError(res: Response, errors: unknown[]): Response {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid import data',
+        details: errors
+      }
+    });
+  }
+
+  /**
+   * Builds a 500 response for unexpected failures
+   * @private
+   */
+  private internalError(res: Response, message: string, error: unknown): Response {
+    return res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message,
+        details: error
+      }
+    });
+  }
+
+  /**
+   * Builds the operation context from the authenticated request
+   * @private
+   */
+  private buildContext(req: Request, operationName: string): ITaskContext {
+    return {
+      userId: req.user.id,
+      userRole: req.user.role,
+      correlationId: req.headers['x-correlation-id'] as string,
+      requestId: req.id,
+      includeSoftDeleted: false,
+      telemetry: {
+        operationStart: new Date(),
+        operationName,
+        metrics: {},
+        tags: {}
+      }
+    };
+  }
+}
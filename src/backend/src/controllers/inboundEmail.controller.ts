@@ -0,0 +1,110 @@
+/**
+ * @fileoverview Inbound email controller receiving raw messages from the mail server
+ * @version 1.0.0
+ * @module controllers/inboundEmail
+ */
+
+// External imports with versions
+import { injectable, inject } from 'inversify'; // v6.0.1
+import { controller, httpPost, request, response } from 'inversify-express-utils'; // v6.4.3
+import { Request, Response } from 'express';
+import rateLimit from 'express-rate-limit'; // v6.7.0
+
+// Internal imports
+import { InboundEmailService } from '../services/inboundEmail.service';
+import { INBOUND_SECRET_HEADER } from '../utils/inboundEmail.util';
+import { secureCompare } from '../utils/crypto.util';
+import { emailConfig } from '../config/email.config';
+import { TYPES } from '../config/types';
+
+// Rate limiting configuration
+const inboundLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 60,
+  message: 'Too many messages, please try again later'
+});
+
+// Maps service error codes to HTTP status codes. Mail servers bounce messages answered
+// with a 4xx status and retry those answered with a 5xx status.
+const ERROR_STATUS: Record<string, number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  UNKNOWN_SENDER: 403,
+  VALIDATION_ERROR: 422
+};
+
+/**
+ * Inbound email controller. Messages are posted by the mail server, or a test stub, as
+ * raw RFC 822 with the shared secret in a header; there is no user session.
+ */
+@injectable()
+@controller('/api/v1/inbound-email')
+export class InboundEmailController {
+  constructor(
+    @inject(TYPES.InboundEmailService) private readonly inboundEmailService: InboundEmailService
+  ) {}
+
+  /**
+   * Creates a task or comment from a raw message
+   * @route POST /api/v1/inbound-email
+   */
+  @httpPost('/')
+  @inboundLimiter
+  async receive(
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const secret = emailConfig.inbound.secret;
+      if (!secret) {
+        return res.status(503).json({
+          success: false,
+          error: {
+            code: 'INBOUND_EMAIL_DISABLED',
+            message: 'Inbound email is not configured'
+          }
+        });
+      }
+
+      if (!secureCompare(String(req.headers[INBOUND_SECRET_HEADER] ?? ''), secret)) {
+        return res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Invalid inbound email secret'
+          }
+        });
+      }
+
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Request body must be a raw message sent as message/rfc822'
+          }
+        });
+      }
+
+      const result = await this.inboundEmailService.receive(
+        req.body,
+        req.headers['x-correlation-id'] as string
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(result.data?.duplicate ? 200 : 201).json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to process inbound email',
+          details: error
+        }
+      });
+    }
+  }
+}
@@ -5,10 +5,31 @@
  */
 
 // Import controllers with version comments for dependency tracking
+import { AttachmentController } from './attachment.controller';  // v1.0.0
 import { AuthController } from './auth.controller';  // v1.0.0
+import { CalendarController } from './calendar.controller';  // v1.0.0
+import { ChecklistController } from './checklist.controller';  // v1.0.0
+import { CommentController } from './comment.controller';  // v1.0.0
+import { CustomFieldController } from './customField.controller';  // v1.0.0
+import { DependencyController } from './dependency.controller';  // v1.0.0
+import { ExportController } from './export.controller';  // v1.0.0
+import { HistoryController } from './history.controller';  // v1.0.0
+import { TaskImportController } from './import.controller';  // v1.0.0
+import { InboundEmailController } from './inboundEmail.controller';  // v1.0.0
+import { MembershipController } from './membership.controller';  // v1.0.0
+import { MilestoneController } from './milestone.controller';  // v1.0.0
+import { NotificationController } from './notification.controller';  // v1.0.0
+import { PermissionController } from './permission.controller';  // v1.0.0
 import { ProjectController } from './project.controller';  // v1.0.0
+import { RecurrenceController } from './recurrence.controller';  // v1.0.0
+import { SavedViewController } from './savedView.controller';  // v1.0.0
+import { SearchController } from './search.controller';  // v1.0.0
+import { SprintController } from './sprint.controller';  // v1.0.0
 import { TaskController } from './task.controller';  // v1.0.0
 import { UserController } from './user.controller';  // v1.0.0
+import { WebhookController } from './webhook.controller';  // v1.0.0
+import { WorkflowController } from './workflow.controller';  // v1.0.0
+import { WorklogController } from './worklog.controller';  // v1.0.0
 
 /**
  * Export all controllers with their security and rate limit configurations
@@ -19,6 +40,119 @@ import { UserController } from './user.controller';  // v1.0.0
  */
 export { AuthController };
 
+/**
+ * AttachmentController:
+ * - Protected endpoints nested under /tasks/:taskId/attachments
+ * - Multipart upload with per-file results, streamed downloads
+ * - Rate limits: 20-100/min based on operation
+ */
+export { AttachmentController };
+
+/**
+ * CalendarController:
+ * - Protected endpoints at /calendar/feed to get, regenerate and revoke the caller's feed
+ * - Public iCalendar feed at /calendar/:token.ics, authenticated by its secret token
+ * - Rate limits: 20-30/min based on operation
+ */
+export { CalendarController };
+
+/**
+ * ChecklistController:
+ * - Protected endpoints nested under /tasks/:taskId/checklist
+ * - Items count towards the progress of their task
+ * - Rate limits: 100/min
+ */
+export { ChecklistController };
+
+/**
+ * CommentController:
+ * - Protected endpoints nested under /tasks/:taskId/comments
+ * - Edit and delete restricted to the comment author
+ * - Rate limits: 30-100/min based on operation
+ */
+export { CommentController };
+
+/**
+ * CustomFieldController:
+ * - Protected endpoints nested under /projects/:projectId/custom-fields
+ * - Field changes require the MANAGER project role
+ * - Rate limits: 30-100/min based on operation
+ */
+export { CustomFieldController };
+
+/**
+ * DependencyController:
+ * - Protected endpoints nested under /tasks/:taskId/dependencies
+ * - Links rejected when they would create a cycle
+ * - Rate limits: 50-100/min based on operation
+ */
+export { DependencyController };
+
+/**
+ * ExportController:
+ * - Protected read-only endpoints at /exports/tasks and /exports/projects
+ * - CSV, XLSX and JSON streamed in batches, limited to what the caller can list
+ * - Rate limits: 10/min
+ */
+export { ExportController };
+
+/**
+ * HistoryController:
+ * - Protected read-only endpoints at /tasks/:taskId/history and /projects/:projectId/history
+ * - Field-level changes recorded in the transaction of each update
+ * - Rate limits: 100/min
+ */
+export { HistoryController };
+
+/**
+ * TaskImportController:
+ * - Protected endpoints nested under /projects/:projectId/imports
+ * - CSV and JSON uploads up to 5MB, dry-run validation and background commit
+ * - Importing requires the CONTRIBUTOR project role
+ * - Rate limits: 10-100/min based on operation
+ */
+export { TaskImportController };
+
+/**
+ * InboundEmailController:
+ * - Public endpoint at /inbound-email for the mail server, authenticated by a shared secret
+ * - Raw RFC 822 messages create tasks from project addresses and comments from replies
+ * - Rate limits: 60/min
+ */
+export { InboundEmailController };
+
+/**
+ * MembershipController:
+ * - Protected endpoints nested under /projects/:projectId/members
+ * - Member changes require the OWNER or MANAGER project role
+ * - Rate limits: 30-100/min based on operation
+ */
+export { MembershipController };
+
+/**
+ * MilestoneController:
+ * - Protected endpoints nested under /projects/:projectId/milestones
+ * - Changing milestones requires the MANAGER project role
+ * - Rate limits: 30-100/min based on operation
+ */
+export { MilestoneController };
+
+/**
+ * NotificationController:
+ * - Protected endpoints at /notifications, limited to the caller's own notifications
+ * - Listing with the unread count, marking one or all notifications as read
+ * - Rate limits: 30-100/min based on operation
+ */
+export { NotificationController };
+
+/**
+ * PermissionController:
+ * - Protected endpoints at /permissions, including the caller's effective permissions
+ * - Role mapping reads and edits require permission:manage
+ * - Rate limits: 10-100/min based on operation
+ */
+export { PermissionController };
+
 /**
  * ProjectController:
  * - Protected endpoints with role-based access
@@ -27,6 +161,38 @@ export { AuthController };
  */
 export { ProjectController };
 
+/**
+ * RecurrenceController:
+ * - Protected endpoints nested under /tasks/:taskId/recurrence
+ * - Rules apply to the whole series the task belongs to
+ * - Rate limits: 30-100/min based on operation
+ */
+export { RecurrenceController };
+
+/**
+ * SavedViewController:
+ * - Protected endpoints at /views, including the caller's pinned views
+ * - Shared views can be changed by their owner or a project manager
+ * - Rate limits: 30-100/min based on operation
+ */
+export { SavedViewController };
+
+/**
+ * SearchController:
+ * - Protected endpoint at /search over tasks, comments and projects
+ * - Results limited to the projects the caller can see
+ * - Rate limit: 60/min
+ */
+export { SearchController };
+
+/**
+ * SprintController:
+ * - Protected endpoints nested under /projects/:projectId/sprints
+ * - Planning, starting and closing sprints require the MANAGER project role
+ * - Rate limits: 30-100/min based on operation
+ */
+export { SprintController };
+
 /**
  * TaskController:
  * - Protected endpoints with role-based access
@@ -43,15 +209,60 @@ export { TaskController };
  */
 export { UserController };
 
+/**
+ * WebhookController:
+ * - Protected endpoints at /webhooks requiring the webhook:manage permission
+ * - Secrets are returned only on creation and rotation; deliveries can be redelivered
+ * - Rate limits: 60/min
+ */
+export { WebhookController };
+
+/**
+ * WorkflowController:
+ * - Protected endpoints nested under /projects/:projectId/workflow
+ * - Workflow changes require the MANAGER project role
+ * - Rate limits: 30-100/min based on operation
+ */
+export { WorkflowController };
+
+/**
+ * WorklogController:
+ * - Protected endpoints for task worklogs, the caller's timer and user/project timesheets
+ * - Entries can be changed by their author or a project manager
+ * - Rate limits: 30-100/min based on operation
+ */
+export { WorklogController };
+
 /**
  * Controller registry for dependency injection configuration
  * Maps controller types to their implementations
  */
 export const Controllers = {
+  AttachmentController,
   AuthController,
+  CalendarController,
+  ChecklistController,
+  CommentController,
+  CustomFieldController,
+  DependencyController,
+  HistoryController,
+  ExportController,
+  TaskImportController,
+  InboundEmailController,
+  MembershipController,
+  MilestoneController,
+  NotificationController,
+  PermissionController,
   ProjectController,
+  RecurrenceController,
+  SavedViewController,
+  SearchController,
+  SprintController,
   TaskController,
-  UserController
+  UserController,
+  WebhookController,
+  WorkflowController,
+  WorklogController
 } as const;
 
 /**
@@ -0,0 +1,193 @@
+/**
+ * @fileoverview Project membership controller implementing member list, add and remove endpoints
+ * @version 1.0.0
+ * @module controllers/membership
+ */
+
+// External imports with versions
+import { injectable, inject } from 'inversify'; // v6.0.1
+import {
+  controller,
+  httpGet,
+  httpPost,
+  httpDelete,
+  request,
+  response,
+  requestParam
+} from 'inversify-express-utils'; // v6.4.3
+import { Request, Response } from 'express';
+import rateLimit from 'express-rate-limit'; // v6.7.0
+import { validate } from 'class-validator'; // v0.14.0
+import { plainToClass } from 'class-transformer'; // v0.5.1
+import { UUID } from 'crypto';
+
+// Internal imports
+import { MembershipService } from '../services/membership.service';
+import { AddProjectMemberDTO } from '../dto/membership.dto';
+import { IAddProjectMemberDTO } from '../interfaces/membership.interface';
+import { ITaskContext } from '../interfaces/task.interface';
+import { TYPES } from '../config/types';
+
+// Rate limiting configuration
+const generalLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 100,
+  message: 'Too many requests, please try again later'
+});
+
+// Maps service error codes to HTTP status codes
+const ERROR_STATUS: Record<string, number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  CONFLICT: 409
+};
+
+/**
+ * Membership controller exposing the members of a project and their project roles
+ */
+@injectable()
+@controller('/api/v1/projects/:projectId/members')
+export class MembershipController {
+  constructor(
+    @inject(TYPES.MembershipService) private readonly membershipService: MembershipService
+  ) {}
+
+  /**
+   * Lists the members of the project
+   * @route GET /api/v1/projects/:projectId/members
+   */
+  @httpGet('/')
+  @generalLimiter
+  async getMembers(
+    @requestParam('projectId') projectId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const result = await this.membershipService.listMembers(
+        projectId,
+        this.buildContext(req, 'getMembers')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to retrieve project members',
+          details: error
+        }
+      });
+    }
+  }
+
+  /**
+   * Adds a member to the project, or changes the role of an existing member
+   * @route POST /api/v1/projects/:projectId/members
+   */
+  @httpPost('/')
+  @generalLimiter
+  async addMember(
+    @requestParam('projectId') projectId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const memberDto = plainToClass(AddProjectMemberDTO, req.body);
+      const errors = await validate(memberDto);
+
+      if (errors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid member data',
+            details: errors
+          }
+        });
+      }
+
+      const result = await this.membershipService.addMember(
+        projectId,
+        memberDto as unknown as IAddProjectMemberDTO,
+        this.buildContext(req, 'addMember')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(201).json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to add project member',
+          details: error
+        }
+      });
+    }
+  }
+
+  /**
+   * Removes a member from the project
+   * @route DELETE /api/v1/projects/:projectId/members/:userId
+   */
+  @httpDelete('/:userId')
+  @generalLimiter
+  async removeMember(
+    @requestParam('projectId') projectId: UUID,
+    @requestParam('userId') userId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const result = await this.membershipService.removeMember(
+        projectId,
+        userId,
+        this.buildContext(req, 'removeMember')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(204).send();
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to remove project member',
+          details: error
+        }
+      });
+    }
+  }
+
+  /**
+   * Builds the operation context from the authenticated request
+   * @private
+   */
+  private buildContext(req: Request, operationName: string): ITaskContext {
+    return {
+      userId: req.user.id,
+      userRole: req.user.role,
+      correlationId: req.headers['x-correlation-id'] as string,
+      requestId: req.id,
+      includeSoftDeleted: false,
+      telemetry: {
+        operationStart: new Date(),
+        operationName,
+        metrics: {},
+        tags: {}
+      }
+    };
+  }
+}
@@ -0,0 +1,261 @@
+/**
+ * @fileoverview Project milestone controller implementing milestone CRUD endpoints
+ * @version 1.0.0
+ * @module controllers/milestone
+ */
+
+// External imports with versions
+import { injectable, inject } from 'inversify'; // v6.0.1
+import {
+  controller,
+  httpGet,
+  httpPost,
+  httpPut,
+  httpDelete,
+  request,
+  response,
+  requestParam
+} from 'inversify-express-utils'; // v6.4.3
+import { Request, Response } from 'express';
+import rateLimit from 'express-rate-limit'; // v6.7.0
+import { validate } from 'class-validator'; // v0.14.0
+import { plainToClass } from 'class-transformer'; // v0.5.1
+import { UUID } from 'crypto';
+
+// Internal imports
+import { MilestoneService } from '../services/milestone.service';
+import { CreateMilestoneDTO, UpdateMilestoneDTO } from '../dto/milestone.dto';
+import { ICreateMilestoneDTO, IUpdateMilestoneDTO } from '../interfaces/milestone.interface';
+import { ITaskContext } from '../interfaces/task.interface';
+import { TYPES } from '../config/types';
+
+// Rate limiting configuration
+const generalLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 100,
+  message: 'Too many requests, please try again later'
+});
+
+// Maps service error codes to HTTP status codes
+const ERROR_STATUS: Record<string, number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403
+};
+
+/**
+ * Milestone controller exposing the milestones of a project
+ */
+@injectable()
+@controller('/api/v1/projects/:projectId/milestones')
+export class MilestoneController {
+  constructor(
+    @inject(TYPES.MilestoneService) private readonly milestoneService: MilestoneService
+  ) {}
+
+  /**
+   * Lists the milestones of the project by date
+   * @route GET /api/v1/projects/:projectId/milestones
+   */
+  @httpGet('/')
+  @generalLimiter
+  async getMilestones(
+    @requestParam('projectId') projectId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const result = await this.milestoneService.listMilestones(
+        projectId,
+        this.buildContext(req, 'getMilestones')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      return this.internalError(res, 'Failed to retrieve milestones', error);
+    }
+  }
+
+  /**
+   * Retrieves a milestone with its linked tasks
+   * @route GET /api/v1/projects/:projectId/milestones/:milestoneId
+   */
+  @httpGet('/:milestoneId')
+  @generalLimiter
+  async getMilestone(
+    @requestParam('projectId') projectId: UUID,
+    @requestParam('milestoneId') milestoneId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const result = await this.milestoneService.getMilestone(
+        projectId,
+        milestoneId,
+        this.buildContext(req, 'getMilestone')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      return this.internalError(res, 'Failed to retrieve milestone', error);
+    }
+  }
+
+  /**
+   * Creates a milestone
+   * @route POST /api/v1/projects/:projectId/milestones
+   */
+  @httpPost('/')
+  @generalLimiter
+  async createMilestone(
+    @requestParam('projectId') projectId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const milestoneDto = plainToClass(CreateMilestoneDTO, req.body);
+      const errors = await validate(milestoneDto);
+
+      if (errors.length > 0) {
+        return this.validationError(res, errors);
+      }
+
+      const result = await this.milestoneService.createMilestone(
+        projectId,
+        milestoneDto as ICreateMilestoneDTO,
+        this.buildContext(req, 'createMilestone')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(201).json(result);
+    } catch (error) {
+      return this.internalError(res, 'Failed to create milestone', error);
+    }
+  }
+
+  /**
+   * Changes a milestone or replaces its linked tasks
+   * @route PUT /api/v1/projects/:projectId/milestones/:milestoneId
+   */
+  @httpPut('/:milestoneId')
+  @generalLimiter
+  async updateMilestone(
+    @requestParam('projectId') projectId: UUID,
+    @requestParam('milestoneId') milestoneId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const milestoneDto = plainToClass(UpdateMilestoneDTO, req.body);
+      const errors = await validate(milestoneDto);
+
+      if (errors.length > 0) {
+        return this.validationError(res, errors);
+      }
+
+      const result = await this.milestoneService.updateMilestone(
+        projectId,
+        milestoneId,
+        milestoneDto as IUpdateMilestoneDTO,
+        this.buildContext(req, 'updateMilestone')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      return this.internalError(res, 'Failed to update milestone', error);
+    }
+  }
+
+  /**
+   * Removes a milestone
+   * @route DELETE /api/v1/projects/:projectId/milestones/:milestoneId
+   */
+  @httpDelete('/:milestoneId')
+  @generalLimiter
+  async deleteMilestone(
+    @requestParam('projectId') projectId: UUID,
+    @requestParam('milestoneId') milestoneId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const result = await this.milestoneService.deleteMilestone(
+        projectId,
+        milestoneId,
+        this.buildContext(req, 'deleteMilestone')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(204).send();
+    } catch (error) {
+      return this.internalError(res, 'Failed to delete milestone', error);
+    }
+  }
+
+  /**
+   * Builds a 400 response for request body validation errors
+   * @private
+   */
+  private validationError(res: Response, errors: unknown[]): Response {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid milestone data',
+        details: errors
+      }
+    });
+  }
+
+  /**
+   * Builds a 500 response for unexpected failures
+   * @private
+   */
+  private internalError(res: Response, message: string, error: unknown): Response {
+    return res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message,
+        details: error
+      }
+    });
+  }
+
+  /**
+   * Builds the operation context from the authenticated request
+   * @private
+   */
+  private buildContext(req: Request, operationName: string): ITaskContext {
+    return {
+      userId: req.user.id,
+      userRole: req.user.role,
+      correlationId: req.headers['x-correlation-id'] as string,
+      requestId: req.id,
+      includeSoftDeleted: false,
+      telemetry: {
+        operationStart: new Date(),
+        operationName,
+        metrics: {},
+        tags: {}
+      }
+    };
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * @fileoverview Notification controller implementing the caller's notification list and read state
+ * @version 1.0.0
+ * @module controllers/notification
+ */
+
+// External imports with versions
+import { injectable, inject } from 'inversify'; // v6.0.1
+import {
+  controller,
+  httpGet,
+  httpPost,
+  request,
+  response,
+  requestParam
+} from 'inversify-express-utils'; // v6.4.3
+import { Request, Response } from 'express';
+import rateLimit from 'express-rate-limit'; // v6.7.0
+import { validate } from 'class-validator'; // v0.14.0
+import { plainToClass } from 'class-transformer'; // v0.5.1
+import { UUID } from 'crypto';
+
+// Internal imports
+import { NotificationService } from '../services/notification.service';
+import { NotificationQueryDTO } from '../dto/notification.dto';
+import { ITaskContext } from '../interfaces/task.interface';
+import { TYPES } from '../config/types';
+
+// Rate limiting configuration
+const generalLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 100,
+  message: 'Too many requests, please try again later'
+});
+
+// Maps service error codes to HTTP status codes
+const ERROR_STATUS: Record<string, number> = {
+  NOT_FOUND: 404
+};
+
+// Notifications per page when the caller does not ask for a limit
+const DEFAULT_NOTIFICATION_LIMIT = 20;
+
+/**
+ * Notification controller; every endpoint works on the caller's own notifications
+ */
+@injectable()
+@controller('/api/v1/notifications')
+export class NotificationController {
+  constructor(
+    @inject(TYPES.NotificationService) private readonly notificationService: NotificationService
+  ) {}
+
+  /**
+   * Lists the caller's notifications, newest first, with their unread count
+   * @route GET /api/v1/notifications
+   */
+  @httpGet('/')
+  @generalLimiter
+  async getNotifications(
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const queryDto = plainToClass(NotificationQueryDTO, req.query);
+      const errors = await validate(queryDto);
+
+      if (errors.length > 0) {
+        return this.validationError(res, errors);
+      }
+
+      const result = await this.notificationService.listNotifications(
+        {
+          unreadOnly: queryDto.unreadOnly,
+          page: queryDto.page || 1,
+          limit: queryDto.limit || DEFAULT_NOTIFICATION_LIMIT
+        },
+        this.buildContext(req, 'getNotifications')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      return this.internalError(res, 'Failed to retrieve notifications', error);
+    }
+  }
+
+  /**
+   * Marks all of the caller's notifications as read
+   * @route POST /api/v1/notifications/read-all
+   */
+  @httpPost('/read-all')
+  @generalLimiter
+  async markAllRead(
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const result = await this.notificationService.markAllRead(
+        this.buildContext(req, 'markAllRead')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      return this.internalError(res, 'Failed to mark notifications as read', error);
+    }
+  }
+
+  /**
+   * Marks one of the caller's notifications as read
+   * @route POST /api/v1/notifications/:notificationId/read
+   */
+  @httpPost('/:notificationId/read')
+  @generalLimiter
+  async markRead(
+    @requestParam('notificationId') notificationId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const result = await this.notificationService.markRead(
+        notificationId,
+        this.buildContext(req, 'markRead')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      return this.internalError(res, 'Failed to mark notification as read', error);
+    }
+  }
+
+  /**
+   * Builds a 400 response for request validation errors
+   * @private
+   */
+  private validationError(res: Response, errors: unknown[]): Response {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid notification query',
+        details: errors
+      }
+    });
+  }
+
+  /**
+   * Builds a 500 response for unexpected failures
+   * @private
+   */
+  private internalError(res: Response, message: string, error: unknown): Response {
+    return res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message,
+        details: error
+      }
+    });
+  }
+
+  /**
+   * Builds the operation context from the authenticated request
+   * @private
+   */
+  private buildContext(req: Request, operationName: string): ITaskContext {
+    return {
+      userId: req.user.id,
+      userRole: req.user.role,
+      correlationId: req.headers['x-correlation-id'] as string,
+      requestId: req.id,
+      includeSoftDeleted: false,
+      telemetry: {
+        operationStart: new Date(),
+        operationName,
+        metrics: {},
+        tags: {}
+      }
+    };
+  }
+}
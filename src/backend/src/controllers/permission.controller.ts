@@ -0,0 +1,206 @@
+/**
+ * @fileoverview Permission controller exposing the permission registry, the role mapping
+ * and the caller's effective permissions
+ * @version 1.0.0
+ * @module controllers/permission
+ */
+
+// External imports with versions
+import { injectable, inject } from 'inversify'; // v6.0.1
+import {
+  controller,
+  httpGet,
+  httpPut,
+  request,
+  response,
+  requestParam
+} from 'inversify-express-utils'; // v6.4.3
+import { Request, Response } from 'express';
+import rateLimit from 'express-rate-limit'; // v6.7.0
+import { validate } from 'class-validator'; // v0.14.0
+import { plainToClass } from 'class-transformer'; // v0.5.1
+
+// Internal imports
+import { PermissionService } from '../services/permission.service';
+import { UpdateRolePermissionsDTO } from '../dto/permission.dto';
+import { IUpdateRolePermissionsDTO } from '../interfaces/permission.interface';
+import { ITaskContext } from '../interfaces/task.interface';
+import { UserRole } from '../types/user.types';
+import { TYPES } from '../config/types';
+
+// Rate limiting configuration
+const generalLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 100,
+  message: 'Too many requests, please try again later'
+});
+
+// Maps service error codes to HTTP status codes
+const ERROR_STATUS: Record<string, number> = {
+  VALIDATION_ERROR: 400,
+  FORBIDDEN: 403,
+  CONFLICT: 409
+};
+
+/**
+ * Permission controller; the role mapping endpoints are guarded by permission:manage
+ */
+@injectable()
+@controller('/api/v1/permissions')
+export class PermissionController {
+  constructor(
+    @inject(TYPES.PermissionService) private readonly permissionService: PermissionService
+  ) {}
+
+  /**
+   * Lists every registered permission
+   * @route GET /api/v1/permissions
+   */
+  @httpGet('/')
+  @generalLimiter
+  async getPermissions(
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    return res.status(200).json(this.permissionService.listDefinitions());
+  }
+
+  /**
+   * Returns the caller's effective permissions
+   * @route GET /api/v1/permissions/me
+   */
+  @httpGet('/me')
+  @generalLimiter
+  async getEffectivePermissions(
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const result = await this.permissionService.getEffectivePermissions(
+        this.buildContext(req, 'getEffectivePermissions')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to resolve permissions',
+          details: error
+        }
+      });
+    }
+  }
+
+  /**
+   * Returns the permissions granted to every role
+   * @route GET /api/v1/permissions/roles
+   */
+  @httpGet('/roles')
+  @generalLimiter
+  async getRolePermissions(
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const result = await this.permissionService.getRolePermissions(
+        this.buildContext(req, 'getRolePermissions')
+      );
+
+      return res.status(200).json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to retrieve role permissions',
+          details: error
+        }
+      });
+    }
+  }
+
+  /**
+   * Replaces the permissions granted to a role
+   * @route PUT /api/v1/permissions/roles/:role
+   */
+  @httpPut('/roles/:role')
+  @generalLimiter
+  async updateRolePermissions(
+    @requestParam('role') role: string,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      if (!Object.values(UserRole).includes(role as UserRole)) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: `Unknown role: ${role}`
+          }
+        });
+      }
+
+      const permissionsDto = plainToClass(UpdateRolePermissionsDTO, req.body);
+      const errors = await validate(permissionsDto);
+
+      if (errors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid permission data',
+            details: errors
+          }
+        });
+      }
+
+      const result = await this.permissionService.setRolePermissions(
+        role as UserRole,
+        permissionsDto as IUpdateRolePermissionsDTO,
+        this.buildContext(req, 'updateRolePermissions')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to update role permissions',
+          details: error
+        }
+      });
+    }
+  }
+
+  /**
+   * Builds the operation context from the authenticated request
+   * @private
+   */
+  private buildContext(req: Request, operationName: string): ITaskContext {
+    return {
+      userId: req.user.id,
+      userRole: req.user.role,
+      correlationId: req.headers['x-correlation-id'] as string,
+      requestId: req.id,
+      includeSoftDeleted: false,
+      telemetry: {
+        operationStart: new Date(),
+        operationName,
+        metrics: {},
+        tags: {}
+      }
+    };
+  }
+}
@@ -20,12 +20,14 @@ import {
 } from '../interfaces/project.interface';
 import { 
   authenticate, 
-  authorize, 
+  authorizePermission, 
   rateLimit 
 } from '../middleware/auth.middleware';
-import { UserRole } from '../types/user.types';
+import { Permission } from '../types/permission.types';
 import { enhancedLogger as logger } from '../utils/logger.util';
 import { createError } from '../utils/error.util';
+import { buildProjectAddress } from '../utils/inboundEmail.util';
+import { emailConfig } from '../config/email.config';
 import { StatusCode } from '../constants/status-codes';
 import { ErrorCode } from '../constants/error-codes';
 
@@ -49,7 +51,7 @@ export class ProjectController {
    */
   @httpPost('/')
   @authenticate
-  @authorize([UserRole.ADMIN, UserRole.PROJECT_MANAGER])
+  @authorizePermission(Permission.PROJECT_CREATE)
   @rateLimit({ windowMs: 60000, max: 100 })
   async createProject(req: Request, res: Response): Promise<Response> {
     const correlationId = req.correlationId as string;
@@ -99,7 +101,7 @@ export class ProjectController {
    */
   @httpPut('/:id')
   @authenticate
-  @authorize([UserRole.ADMIN, UserRole.PROJECT_MANAGER])
+  @authorizePermission(Permission.PROJECT_UPDATE)
   @rateLimit({ windowMs: 60000, max: 100 })
   async updateProject(req: Request, res: Response): Promise<Response> {
     const correlationId = req.correlationId as string;
@@ -116,7 +118,8 @@ export class ProjectController {
       const project = await this.projectService.updateProject(
         projectId,
         projectData,
-        req.user!.userId
+        req.user!.userId,
+        req.user!.role
       );
 
       this.logger.info('Project updated successfully', {
@@ -152,7 +155,7 @@ export class ProjectController {
    */
   @httpGet('/:id')
   @authenticate
-  @authorize([UserRole.ADMIN, UserRole.PROJECT_MANAGER, UserRole.TEAM_MEMBER])
+  @authorizePermission(Permission.PROJECT_READ)
   @rateLimit({ windowMs: 60000, max: 200 })
   async getProjectById(req: Request, res: Response): Promise<Response> {
     const correlationId = req.correlationId as string;
@@ -167,7 +170,8 @@ export class ProjectController {
 
       const project = await this.projectService.getProjectById(projectId);
 
-      if (!project) {
+      // Projects outside the caller's memberships are reported as missing
+      if (!project || !await this.projectService.canViewProject(projectId, req.user!.userId, req.user!.role)) {
         throw createError(
           'Project not found',
           StatusCode.NOT_FOUND,
@@ -176,9 +180,12 @@ export class ProjectController {
         );
       }
 
+      const completion = await this.projectService.getProjectCompletion(projectId);
+      const inboundEmailAddress = buildProjectAddress(projectId, emailConfig.inbound.domain);
+
       return res.status(StatusCode.OK).json({
         status: 'success',
-        data: project,
+        data: { ...project, completion, inboundEmailAddress },
         correlationId
       });
 
@@ -193,13 +200,62 @@ export class ProjectController {
     }
   }
 
+  /**
+   * Retrieves effort rollups of a project: estimates and logged time across the
+   * project and per assignee and sprint
+   * @route GET /api/v1/projects/:id/effort
+   */
+  @httpGet('/:id/effort')
+  @authenticate
+  @authorizePermission(Permission.PROJECT_READ)
+  @rateLimit({ windowMs: 60000, max: 200 })
+  async getProjectEffort(req: Request, res: Response): Promise<Response> {
+    const correlationId = req.correlationId as string;
+    const projectId = req.params.id;
+
+    try {
+      this.logger.debug('Retrieving project effort', {
+        correlationId,
+        projectId,
+        userId: req.user?.userId
+      });
+
+      // Projects outside the caller's memberships are reported as missing
+      if (!await this.projectService.canViewProject(projectId, req.user!.userId, req.user!.role)) {
+        throw createError(
+          'Project not found',
+          StatusCode.NOT_FOUND,
+          ErrorCode.RESOURCE_NOT_FOUND,
+          correlationId
+        );
+      }
+
+      const effort = await this.projectService.getProjectEffort(projectId);
+
+      return res.status(StatusCode.OK).json({
+        status: 'success',
+        data: effort,
+        correlationId
+      });
+
+    } catch (error) {
+      this.logger.error('Project effort retrieval failed', {
+        correlationId,
+        projectId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      throw error;
+    }
+  }
+
   /**
    * Lists projects with filtering, pagination, and access control
    * @route GET /api/v1/projects
    */
   @httpGet('/')
   @authenticate
-  @authorize([UserRole.ADMIN, UserRole.PROJECT_MANAGER, UserRole.TEAM_MEMBER])
+  @authorizePermission(Permission.PROJECT_READ)
   @rateLimit({ windowMs: 60000, max: 200 })
   async getProjects(req: Request, res: Response): Promise<Response> {
     const correlationId = req.correlationId as string;
@@ -219,7 +275,8 @@ export class ProjectController {
 
       const { data: projects, total } = await this.projectService.getProjects(
         queryParams,
-        req.user!.userId
+        req.user!.userId,
+        req.user!.role
       );
 
       return res.status(StatusCode.OK).json({
@@ -255,7 +312,7 @@ export class ProjectController {
    */
   @httpDelete('/:id')
   @authenticate
-  @authorize([UserRole.ADMIN, UserRole.PROJECT_MANAGER])
+  @authorizePermission(Permission.PROJECT_DELETE)
   @rateLimit({ windowMs: 60000, max: 50 })
   async deleteProject(req: Request, res: Response): Promise<Response> {
     const correlationId = req.correlationId as string;
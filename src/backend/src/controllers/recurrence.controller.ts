@@ -0,0 +1,189 @@
+/**
+ * @fileoverview Recurrence controller implementing endpoints for the repeat rule of a task
+ * @version 1.0.0
+ * @module controllers/recurrence
+ */
+
+// External imports with versions
+import { injectable, inject } from 'inversify'; // v6.0.1
+import {
+  controller,
+  httpGet,
+  httpPut,
+  httpDelete,
+  request,
+  response,
+  requestParam
+} from 'inversify-express-utils'; // v6.4.3
+import { Request, Response } from 'express';
+import rateLimit from 'express-rate-limit'; // v6.7.0
+import { validate } from 'class-validator'; // v0.14.0
+import { plainToClass } from 'class-transformer'; // v0.5.1
+import { UUID } from 'crypto';
+
+// Internal imports
+import { RecurrenceService } from '../services/recurrence.service';
+import { RecurrenceRuleDTO } from '../dto/recurrence.dto';
+import { ITaskContext } from '../interfaces/task.interface';
+import { TYPES } from '../config/types';
+
+// Rate limiting configuration
+const generalLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 100,
+  message: 'Too many requests, please try again later'
+});
+
+// Maps service error codes to HTTP status codes
+const ERROR_STATUS: Record<string, number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403
+};
+
+/**
+ * Recurrence controller exposing the rule of the series a task belongs to
+ */
+@injectable()
+@controller('/api/v1/tasks/:taskId/recurrence')
+export class RecurrenceController {
+  constructor(
+    @inject(TYPES.RecurrenceService) private readonly recurrenceService: RecurrenceService
+  ) {}
+
+  /**
+   * Retrieves the recurrence rule; data is null when the task does not repeat
+   * @route GET /api/v1/tasks/:taskId/recurrence
+   */
+  @httpGet('/')
+  @generalLimiter
+  async getRule(
+    @requestParam('taskId') taskId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const result = await this.recurrenceService.getRule(
+        taskId,
+        this.buildContext(req, 'getRecurrence')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to retrieve recurrence rule',
+          details: error
+        }
+      });
+    }
+  }
+
+  /**
+   * Makes the task repeat, or replaces the rule of its series
+   * @route PUT /api/v1/tasks/:taskId/recurrence
+   */
+  @httpPut('/')
+  @generalLimiter
+  async setRule(
+    @requestParam('taskId') taskId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const ruleDto = plainToClass(RecurrenceRuleDTO, req.body);
+      const errors = await validate(ruleDto);
+
+      if (errors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid recurrence rule',
+            details: errors
+          }
+        });
+      }
+
+      const result = await this.recurrenceService.setRule(
+        taskId,
+        ruleDto,
+        this.buildContext(req, 'setRecurrence')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to save recurrence rule',
+          details: error
+        }
+      });
+    }
+  }
+
+  /**
+   * Stops the series; existing occurrences are kept
+   * @route DELETE /api/v1/tasks/:taskId/recurrence
+   */
+  @httpDelete('/')
+  @generalLimiter
+  async removeRule(
+    @requestParam('taskId') taskId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const result = await this.recurrenceService.removeRule(
+        taskId,
+        this.buildContext(req, 'removeRecurrence')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(204).send();
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to stop recurrence',
+          details: error
+        }
+      });
+    }
+  }
+
+  /**
+   * Builds the operation context from the authenticated request
+   * @private
+   */
+  private buildContext(req: Request, operationName: string): ITaskContext {
+    return {
+      userId: req.user.id,
+      userRole: req.user.role,
+      correlationId: req.headers['x-correlation-id'] as string,
+      requestId: req.id,
+      includeSoftDeleted: false,
+      telemetry: {
+        operationStart: new Date(),
+        operationName,
+        metrics: {},
+        tags: {}
+      }
+    };
+  }
+}
@@ -0,0 +1,340 @@
+/**
+ * @fileoverview Saved view controller implementing view CRUD and pinning endpoints
+ * @version 1.0.0
+ * @module controllers/savedView
+ */
+
+// External imports with versions
+import { injectable, inject } from 'inversify'; // v6.0.1
+import {
+  controller,
+  httpGet,
+  httpPost,
+  httpPut,
+  httpDelete,
+  request,
+  response,
+  requestParam
+} from 'inversify-express-utils'; // v6.4.3
+import { Request, Response } from 'express';
+import rateLimit from 'express-rate-limit'; // v6.7.0
+import { validate } from 'class-validator'; // v0.14.0
+import { plainToClass } from 'class-transformer'; // v0.5.1
+import { UUID } from 'crypto';
+
+// Internal imports
+import { SavedViewService } from '../services/savedView.service';
+import { CreateSavedViewDTO, UpdateSavedViewDTO, SavedViewQueryDTO } from '../dto/savedView.dto';
+import { ICreateSavedViewDTO, IUpdateSavedViewDTO } from '../interfaces/savedView.interface';
+import { ITaskContext } from '../interfaces/task.interface';
+import { TYPES } from '../config/types';
+
+// Rate limiting configuration
+const generalLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 100,
+  message: 'Too many requests, please try again later'
+});
+
+// Maps service error codes to HTTP status codes
+const ERROR_STATUS: Record<string, number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403
+};
+
+/**
+ * Saved view controller exposing the caller's views, the views shared in projects and
+ * the caller's pins
+ */
+@injectable()
+@controller('/api/v1/views')
+export class SavedViewController {
+  constructor(
+    @inject(TYPES.SavedViewService) private readonly savedViewService: SavedViewService
+  ) {}
+
+  /**
+   * Lists the caller's views, or the views of a project given as ?projectId
+   * @route GET /api/v1/views
+   */
+  @httpGet('/')
+  @generalLimiter
+  async getViews(
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const queryDto = plainToClass(SavedViewQueryDTO, req.query);
+      const errors = await validate(queryDto);
+
+      if (errors.length > 0) {
+        return this.validationError(res, errors);
+      }
+
+      const result = await this.savedViewService.listViews(
+        queryDto.projectId as UUID | undefined,
+        this.buildContext(req, 'getViews')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      return this.internalError(res, 'Failed to retrieve views', error);
+    }
+  }
+
+  /**
+   * Lists the views the caller pinned, in pin order
+   * @route GET /api/v1/views/pinned
+   */
+  @httpGet('/pinned')
+  @generalLimiter
+  async getPinnedViews(
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const result = await this.savedViewService.listPinnedViews(
+        this.buildContext(req, 'getPinnedViews')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      return this.internalError(res, 'Failed to retrieve pinned views', error);
+    }
+  }
+
+  /**
+   * Retrieves a view
+   * @route GET /api/v1/views/:viewId
+   */
+  @httpGet('/:viewId')
+  @generalLimiter
+  async getView(
+    @requestParam('viewId') viewId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const result = await this.savedViewService.getView(
+        viewId,
+        this.buildContext(req, 'getView')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      return this.internalError(res, 'Failed to retrieve view', error);
+    }
+  }
+
+  /**
+   * Saves a view
+   * @route POST /api/v1/views
+   */
+  @httpPost('/')
+  @generalLimiter
+  async createView(
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const viewDto = plainToClass(CreateSavedViewDTO, req.body);
+      const errors = await validate(viewDto);
+
+      if (errors.length > 0) {
+        return this.validationError(res, errors);
+      }
+
+      const result = await this.savedViewService.createView(
+        viewDto as ICreateSavedViewDTO,
+        this.buildContext(req, 'createView')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(201).json(result);
+    } catch (error) {
+      return this.internalError(res, 'Failed to create view', error);
+    }
+  }
+
+  /**
+   * Changes a view
+   * @route PUT /api/v1/views/:viewId
+   */
+  @httpPut('/:viewId')
+  @generalLimiter
+  async updateView(
+    @requestParam('viewId') viewId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const viewDto = plainToClass(UpdateSavedViewDTO, req.body);
+      const errors = await validate(viewDto);
+
+      if (errors.length > 0) {
+        return this.validationError(res, errors);
+      }
+
+      const result = await this.savedViewService.updateView(
+        viewId,
+        viewDto as IUpdateSavedViewDTO,
+        this.buildContext(req, 'updateView')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      return this.internalError(res, 'Failed to update view', error);
+    }
+  }
+
+  /**
+   * Removes a view
+   * @route DELETE /api/v1/views/:viewId
+   */
+  @httpDelete('/:viewId')
+  @generalLimiter
+  async deleteView(
+    @requestParam('viewId') viewId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const result = await this.savedViewService.deleteView(
+        viewId,
+        this.buildContext(req, 'deleteView')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(204).send();
+    } catch (error) {
+      return this.internalError(res, 'Failed to delete view', error);
+    }
+  }
+
+  /**
+   * Pins a view to the caller's sidebar
+   * @route PUT /api/v1/views/:viewId/pin
+   */
+  @httpPut('/:viewId/pin')
+  @generalLimiter
+  async pinView(
+    @requestParam('viewId') viewId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    return this.setPinned(viewId, true, req, res);
+  }
+
+  /**
+   * Unpins a view from the caller's sidebar
+   * @route DELETE /api/v1/views/:viewId/pin
+   */
+  @httpDelete('/:viewId/pin')
+  @generalLimiter
+  async unpinView(
+    @requestParam('viewId') viewId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    return this.setPinned(viewId, false, req, res);
+  }
+
+  /**
+   * Applies a pin change and builds the response
+   * @private
+   */
+  private async setPinned(
+    viewId: UUID,
+    pinned: boolean,
+    req: Request,
+    res: Response
+  ): Promise<Response> {
+    try {
+      const result = await this.savedViewService.setPinned(
+        viewId,
+        pinned,
+        this.buildContext(req, pinned ? 'pinView' : 'unpinView')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      return this.internalError(res, pinned ? 'Failed to pin view' : 'Failed to unpin view', error);
+    }
+  }
+
+  /**
+   * Builds a 400 response for request body validation errors
+   * @private
+   */
+  private validationError(res: Response, errors: unknown[]): Response {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid view data',
+        details: errors
+      }
+    });
+  }
+
+  /**
+   * Builds a 500 response for unexpected failures
+   * @private
+   */
+  private internalError(res: Response, message: string, error: unknown): Response {
+    return res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message,
+        details: error
+      }
+    });
+  }
+
+  /**
+   * Builds the operation context from the authenticated request
+   * @private
+   */
+  private buildContext(req: Request, operationName: string): ITaskContext {
+    return {
+      userId: req.user.id,
+      userRole: req.user.role,
+      correlationId: req.headers['x-correlation-id'] as string,
+      requestId: req.id,
+      includeSoftDeleted: false,
+      telemetry: {
+        operationStart: new Date(),
+        operationName,
+        metrics: {},
+        tags: {}
+      }
+    };
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * @fileoverview Search controller implementing the full-text search endpoint
+ * @version 1.0.0
+ * @module controllers/search
+ */
+
+// External imports with versions
+import { injectable, inject } from 'inversify'; // v6.0.1
+import {
+  controller,
+  httpGet,
+  request,
+  response
+} from 'inversify-express-utils'; // v6.4.3
+import { Request, Response } from 'express';
+import rateLimit from 'express-rate-limit'; // v6.7.0
+import { validate } from 'class-validator'; // v0.14.0
+import { plainToClass } from 'class-transformer'; // v0.5.1
+import { UUID } from 'crypto';
+
+// Internal imports
+import { SearchService } from '../services/search.service';
+import { SearchQueryDTO } from '../dto/search.dto';
+import { ITaskContext } from '../interfaces/task.interface';
+import { TYPES } from '../config/types';
+
+// Rate limiting configuration
+const searchLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 60,
+  message: 'Too many searches, please try again later'
+});
+
+// Maps service error codes to HTTP status codes
+const ERROR_STATUS: Record<string, number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403
+};
+
+/**
+ * Search controller exposing ranked full-text search over the caller's tasks,
+ * comments and projects
+ */
+@injectable()
+@controller('/api/v1/search')
+export class SearchController {
+  constructor(
+    @inject(TYPES.SearchService) private readonly searchService: SearchService
+  ) {}
+
+  /**
+   * Searches tasks, comments and projects
+   * @route GET /api/v1/search?q=
+   */
+  @httpGet('/')
+  @searchLimiter
+  async search(
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const queryDto = plainToClass(SearchQueryDTO, req.query);
+      const errors = await validate(queryDto);
+
+      if (errors.length > 0) {
+        return this.validationError(res, errors);
+      }
+
+      const result = await this.searchService.search(
+        {
+          q: queryDto.q,
+          types: queryDto.types,
+          projectId: queryDto.projectId as UUID | undefined,
+          limit: queryDto.limit
+        },
+        this.buildContext(req, 'search')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      return this.internalError(res, 'Failed to search', error);
+    }
+  }
+
+  /**
+   * Builds a 400 response for invalid input
+   * @private
+   */
+  private validationError(res: Response, errors: unknown[]): Response {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid search query',
+        details: errors
+      }
+    });
+  }
+
+  /**
+   * Builds a 500 response for unexpected failures
+   * @private
+   */
+  private internalError(res: Response, message: string, error: unknown): Response {
+    return res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message,
+        details: error
+      }
+    });
+  }
+
+  /**
+   * Builds the operation context from the authenticated request
+   * @private
+   */
+  private buildContext(req: Request, operationName: string): ITaskContext {
+    return {
+      userId: req.user.id,
+      userRole: req.user.role,
+      correlationId: req.headers['x-correlation-id'] as string,
+      requestId: req.id,
+      includeSoftDeleted: false,
+      telemetry: {
+        operationStart: new Date(),
+        operationName,
+        metrics: {},
+        tags: {}
+      }
+    };
+  }
+}
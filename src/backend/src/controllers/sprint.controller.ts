@@ -0,0 +1,355 @@
+/**
+ * @fileoverview Project sprint controller implementing sprint planning, start, close, backlog and burndown endpoints
+ * @version 1.0.0
+ * @module controllers/sprint
+ */
+
+// External imports with versions
+import { injectable, inject } from 'inversify'; // v6.0.1
+import {
+  controller,
+  httpGet,
+  httpPost,
+  httpPut,
+  httpDelete,
+  request,
+  response,
+  requestParam
+} from 'inversify-express-utils'; // v6.4.3
+import { Request, Response } from 'express';
+import rateLimit from 'express-rate-limit'; // v6.7.0
+import { validate } from 'class-validator'; // v0.14.0
+import { plainToClass } from 'class-transformer'; // v0.5.1
+import { UUID } from 'crypto';
+
+// Internal imports
+import { SprintService } from '../services/sprint.service';
+import { CreateSprintDTO, UpdateSprintDTO, CloseSprintDTO } from '../dto/sprint.dto';
+import { ICreateSprintDTO, IUpdateSprintDTO, ICloseSprintDTO } from '../interfaces/sprint.interface';
+import { ITaskContext } from '../interfaces/task.interface';
+import { TYPES } from '../config/types';
+
+// Rate limiting configuration
+const generalLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 100,
+  message: 'Too many requests, please try again later'
+});
+
+// Maps service error codes to HTTP status codes
+const ERROR_STATUS: Record<string, number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  CONFLICT: 409
+};
+
+/**
+ * Sprint controller exposing the sprints, backlog and burndown of a project
+ */
+@injectable()
+@controller('/api/v1/projects/:projectId/sprints')
+export class SprintController {
+  constructor(
+    @inject(TYPES.SprintService) private readonly sprintService: SprintService
+  ) {}
+
+  /**
+   * Lists the sprints of the project, newest first
+   * @route GET /api/v1/projects/:projectId/sprints
+   */
+  @httpGet('/')
+  @generalLimiter
+  async getSprints(
+    @requestParam('projectId') projectId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const result = await this.sprintService.listSprints(
+        projectId,
+        this.buildContext(req, 'getSprints')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      return this.internalError(res, 'Failed to retrieve sprints', error);
+    }
+  }
+
+  /**
+   * Lists the unfinished tasks of the project that are not in a sprint
+   * @route GET /api/v1/projects/:projectId/sprints/backlog
+   */
+  @httpGet('/backlog')
+  @generalLimiter
+  async getBacklog(
+    @requestParam('projectId') projectId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const result = await this.sprintService.getBacklog(
+        projectId,
+        this.buildContext(req, 'getBacklog')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      return this.internalError(res, 'Failed to retrieve backlog', error);
+    }
+  }
+
+  /**
+   * Plans a new sprint
+   * @route POST /api/v1/projects/:projectId/sprints
+   */
+  @httpPost('/')
+  @generalLimiter
+  async createSprint(
+    @requestParam('projectId') projectId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const sprintDto = plainToClass(CreateSprintDTO, req.body);
+      const errors = await validate(sprintDto);
+
+      if (errors.length > 0) {
+        return this.validationError(res, errors);
+      }
+
+      const result = await this.sprintService.createSprint(
+        projectId,
+        sprintDto as ICreateSprintDTO,
+        this.buildContext(req, 'createSprint')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(201).json(result);
+    } catch (error) {
+      return this.internalError(res, 'Failed to create sprint', error);
+    }
+  }
+
+  /**
+   * Changes the name, goal or dates of a sprint
+   * @route PUT /api/v1/projects/:projectId/sprints/:sprintId
+   */
+  @httpPut('/:sprintId')
+  @generalLimiter
+  async updateSprint(
+    @requestParam('projectId') projectId: UUID,
+    @requestParam('sprintId') sprintId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const sprintDto = plainToClass(UpdateSprintDTO, req.body);
+      const errors = await validate(sprintDto);
+
+      if (errors.length > 0) {
+        return this.validationError(res, errors);
+      }
+
+      const result = await this.sprintService.updateSprint(
+        projectId,
+        sprintId,
+        sprintDto as IUpdateSprintDTO,
+        this.buildContext(req, 'updateSprint')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      return this.internalError(res, 'Failed to update sprint', error);
+    }
+  }
+
+  /**
+   * Removes a planned sprint
+   * @route DELETE /api/v1/projects/:projectId/sprints/:sprintId
+   */
+  @httpDelete('/:sprintId')
+  @generalLimiter
+  async deleteSprint(
+    @requestParam('projectId') projectId: UUID,
+    @requestParam('sprintId') sprintId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const result = await this.sprintService.deleteSprint(
+        projectId,
+        sprintId,
+        this.buildContext(req, 'deleteSprint')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(204).send();
+    } catch (error) {
+      return this.internalError(res, 'Failed to delete sprint', error);
+    }
+  }
+
+  /**
+   * Starts a planned sprint
+   * @route POST /api/v1/projects/:projectId/sprints/:sprintId/start
+   */
+  @httpPost('/:sprintId/start')
+  @generalLimiter
+  async startSprint(
+    @requestParam('projectId') projectId: UUID,
+    @requestParam('sprintId') sprintId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const result = await this.sprintService.startSprint(
+        projectId,
+        sprintId,
+        this.buildContext(req, 'startSprint')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      return this.internalError(res, 'Failed to start sprint', error);
+    }
+  }
+
+  /**
+   * Closes the active sprint and rolls its unfinished tasks over
+   * @route POST /api/v1/projects/:projectId/sprints/:sprintId/close
+   */
+  @httpPost('/:sprintId/close')
+  @generalLimiter
+  async closeSprint(
+    @requestParam('projectId') projectId: UUID,
+    @requestParam('sprintId') sprintId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const closeDto = plainToClass(CloseSprintDTO, req.body || {});
+      const errors = await validate(closeDto);
+
+      if (errors.length > 0) {
+        return this.validationError(res, errors);
+      }
+
+      const result = await this.sprintService.closeSprint(
+        projectId,
+        sprintId,
+        closeDto as ICloseSprintDTO,
+        this.buildContext(req, 'closeSprint')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      return this.internalError(res, 'Failed to close sprint', error);
+    }
+  }
+
+  /**
+   * Retrieves the daily burndown of a sprint
+   * @route GET /api/v1/projects/:projectId/sprints/:sprintId/burndown
+   */
+  @httpGet('/:sprintId/burndown')
+  @generalLimiter
+  async getBurndown(
+    @requestParam('projectId') projectId: UUID,
+    @requestParam('sprintId') sprintId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const result = await this.sprintService.getBurndown(
+        projectId,
+        sprintId,
+        this.buildContext(req, 'getBurndown')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      return this.internalError(res, 'Failed to compute burndown', error);
+    }
+  }
+
+  /**
+   * Builds a 400 response for request body validation errors
+   * @private
+   */
+  private validationError(res: Response, errors: unknown[]): Response {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid sprint data',
+        details: errors
+      }
+    });
+  }
+
+  /**
+   * Builds a 500 response for unexpected failures
+   * @private
+   */
+  private internalError(res: Response, message: string, error: unknown): Response {
+    return res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message,
+        details: error
+      }
+    });
+  }
+
+  /**
+   * Builds the operation context from the authenticated request
+   * @private
+   */
+  private buildContext(req: Request, operationName: string): ITaskContext {
+    return {
+      userId: req.user.id,
+      userRole: req.user.role,
+      correlationId: req.headers['x-correlation-id'] as string,
+      requestId: req.id,
+      includeSoftDeleted: false,
+      telemetry: {
+        operationStart: new Date(),
+        operationName,
+        metrics: {},
+        tags: {}
+      }
+    };
+  }
+}
@@ -27,8 +27,12 @@ import { UUID } from 'crypto';
 
 // Internal imports
 import { TaskService } from '../services/task.service';
-import { CreateTaskDTO, UpdateTaskDTO, TaskQueryDTO } from '../dto/task.dto';
+import { CreateTaskDTO, UpdateTaskDTO, TaskQueryDTO, BulkUpdateTasksDTO } from '../dto/task.dto';
 import { ITaskContext, Result, TaskError, ITask, ITaskPaginatedResponse } from '../interfaces/task.interface';
+import { CustomFieldFilter } from '../types/customField.types';
+import { parseCustomFieldFilter } from '../utils/customField.util';
+import { hasPermission } from '../utils/permission.util';
+import { Permission } from '../types/permission.types';
 import { TYPES } from '../config/types';
 
 // Rate limiting configuration
@@ -44,6 +48,16 @@ const generalLimiter = rateLimit({
   message: 'Too many requests, please try again later'
 });
 
+// Maps service error codes to HTTP status codes
+const UPDATE_ERROR_STATUS: Record<string, number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  VERSION_CONFLICT: 409,
+  TASK_BLOCKED: 409,
+  INVALID_TRANSITION: 409,
+  WIP_LIMIT_EXCEEDED: 409
+};
+
 /**
  * Enterprise-grade task controller implementing RESTful endpoints with
  * comprehensive validation, error handling, caching, and monitoring
@@ -85,6 +99,7 @@ export class TaskController {
       // Create task context
       const context: ITaskContext = {
         userId: req.user.id,
+        userRole: req.user.role,
         correlationId: req.headers['x-correlation-id'] as string,
         requestId: req.id,
         includeSoftDeleted: false,
@@ -100,7 +115,7 @@ export class TaskController {
       const result = await this.taskService.createTask(taskDto, context);
 
       if (!result.success) {
-        return res.status(400).json(result);
+        return res.status(UPDATE_ERROR_STATUS[result.error?.code as string] || 400).json(result);
       }
 
       return res.status(201).json(result);
@@ -116,6 +131,67 @@ export class TaskController {
     }
   }
 
+  /**
+   * Applies one change to many tasks and reports the outcome of each
+   * @route POST /api/v1/tasks/bulk
+   */
+  @httpPost('/bulk')
+  @generalLimiter
+  async bulkUpdateTasks(
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const bulkDto = plainToClass(BulkUpdateTasksDTO, req.body);
+      const errors = await validate(bulkDto);
+
+      if (errors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid bulk update',
+            details: errors
+          }
+        });
+      }
+
+      const context: ITaskContext = {
+        userId: req.user.id,
+        userRole: req.user.role,
+        correlationId: req.headers['x-correlation-id'] as string,
+        requestId: req.id,
+        includeSoftDeleted: false,
+        telemetry: {
+          operationStart: new Date(),
+          operationName: 'bulkUpdateTasks',
+          metrics: {},
+          tags: {}
+        }
+      };
+
+      // Callers holding only the ownership-scoped permission may change their own tasks
+      const result = await this.taskService.bulkUpdateTasks(bulkDto, context, {
+        ownTasksOnly: !hasPermission(req.permissions, Permission.TASK_UPDATE)
+      });
+
+      if (!result.success) {
+        return res.status(UPDATE_ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to update tasks',
+          details: error
+        }
+      });
+    }
+  }
+
   /**
    * Updates an existing task with optimistic locking
    * @route PUT /api/v1/tasks/:id
@@ -145,6 +221,8 @@ export class TaskController {
 
       const context: ITaskContext = {
         userId: req.user.id,
+        userRole: req.user.role,
+        permissions: req.permissions,
         correlationId: req.headers['x-correlation-id'] as string,
         requestId: req.id,
         includeSoftDeleted: false,
@@ -159,7 +237,7 @@ export class TaskController {
       const result = await this.taskService.updateTask(id, taskDto, context);
 
       if (!result.success) {
-        return res.status(result.error?.code === 'NOT_FOUND' ? 404 : 400).json(result);
+        return res.status(UPDATE_ERROR_STATUS[result.error?.code as string] || 400).json(result);
       }
 
       return res.status(200).json(result);
@@ -193,6 +271,7 @@ export class TaskController {
     try {
       const context: ITaskContext = {
         userId: req.user.id,
+        userRole: req.user.role,
         correlationId: req.headers['x-correlation-id'] as string,
         requestId: req.id,
         includeSoftDeleted: false,
@@ -237,7 +316,8 @@ export class TaskController {
   @generalLimiter
   @cache({
     ttl: 60, // 1 minute
-    key: (req: Request) => `tasks:${JSON.stringify(req.query)}`
+    // Per user, as listings depend on the caller's projects and queries may say `me`
+    key: (req: Request) => `tasks:${req.user.id}:${JSON.stringify(req.query)}`
   })
   async getTasks(
     @request() req: Request,
@@ -261,6 +341,7 @@ export class TaskController {
 
       const context: ITaskContext = {
         userId: req.user.id,
+        userRole: req.user.role,
         correlationId: req.headers['x-correlation-id'] as string,
         requestId: req.id,
         includeSoftDeleted: false,
@@ -272,7 +353,24 @@ export class TaskController {
         }
       };
 
-      const result = await this.taskService.getTasks(queryDto, context);
+      let customFields: CustomFieldFilter[] | undefined;
+      try {
+        customFields = queryDto.customField?.map(parseCustomFieldFilter);
+      } catch (error) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: (error as Error).message
+          }
+        });
+      }
+
+      const result = await this.taskService.getTasks({ ...queryDto, customFields, query: queryDto.q }, context);
+
+      if (!result.success) {
+        return res.status(UPDATE_ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
 
       return res.status(200).json(result);
     } catch (error) {
@@ -301,6 +399,7 @@ export class TaskController {
     try {
       const context: ITaskContext = {
         userId: req.user.id,
+        userRole: req.user.role,
         correlationId: req.headers['x-correlation-id'] as string,
         requestId: req.id,
         includeSoftDeleted: false,
@@ -315,7 +414,7 @@ export class TaskController {
       const result = await this.taskService.deleteTask(id, context);
 
       if (!result.success) {
-        return res.status(result.error?.code === 'NOT_FOUND' ? 404 : 400).json(result);
+        return res.status(UPDATE_ERROR_STATUS[result.error?.code as string] || 400).json(result);
       }
 
       return res.status(204).send();
@@ -10,8 +10,7 @@ import {
   httpGet, 
   httpPost, 
   httpPut, 
-  httpDelete, 
-  authorize 
+  httpDelete 
 } from 'inversify-express-utils'; // v6.0+
 import { rateLimit } from 'express-rate-limit'; // v7.0+
 import { UserService } from '../services/user.service';
@@ -19,8 +18,9 @@ import { StatusCode } from '../constants/status-codes';
 import { ErrorCode } from '../constants/error-codes';
 import { createError } from '../utils/error.util';
 import { enhancedLogger as logger } from '../utils/logger.util';
+import { authorizePermission } from '../middleware/auth.middleware';
+import { Permission } from '../types/permission.types';
 import { 
-  UserRole, 
   UserStatus, 
   CreateUserDTO, 
   UpdateUserDTO, 
@@ -28,6 +28,12 @@ import {
   UserPreferences 
 } from '../types/user.types';
 
+/**
+ * Resolves whether the :id param is the caller; consulted for user:preferences:update:own
+ */
+const isSelf = async (req: Request): Promise<boolean> =>
+  !!req.user?.userId && req.params.id === req.user.userId;
+
 /**
  * Controller handling user management operations with enhanced security
  * Implements role-based access control and security monitoring
@@ -41,10 +47,10 @@ export class UserController {
 
   /**
    * Creates a new user with security validation
-   * @secure Requires ADMIN role
+   * @secure Requires the user:manage permission
    */
   @httpPost('/')
-  @authorize(['ADMIN'])
+  @authorizePermission(Permission.USER_MANAGE)
   @rateLimit({ windowMs: 15 * 60 * 1000, max: 10 })
   async createUser(req: Request, res: Response): Promise<Response> {
     const correlationId = req.headers['x-correlation-id'] as string;
@@ -76,10 +82,10 @@ export class UserController {
 
   /**
    * Updates an existing user with security validation
-   * @secure Requires ADMIN role or user updating their own data
+   * @secure Requires the user:manage permission
    */
   @httpPut('/:id')
-  @authorize(['ADMIN'])
+  @authorizePermission(Permission.USER_MANAGE)
   @rateLimit({ windowMs: 15 * 60 * 1000, max: 20 })
   async updateUser(req: Request, res: Response): Promise<Response> {
     const { id } = req.params;
@@ -93,17 +99,6 @@ export class UserController {
     });
 
     try {
-      // Check if user is updating their own data or is admin
-      if (req.user?.id !== id && req.user?.role !== UserRole.ADMIN) {
-        throw createError(
-          'Insufficient permissions',
-          StatusCode.FORBIDDEN,
-          ErrorCode.AUTHORIZATION_ERROR,
-          correlationId,
-          { action: 'UPDATE_USER', userId: id, requestedBy: req.user?.id }
-        );
-      }
-
       const updateData: UpdateUserDTO = req.body;
       const user = await this.userService.update(id, updateData);
 
@@ -124,10 +119,10 @@ export class UserController {
 
   /**
    * Deletes a user with security validation
-   * @secure Requires ADMIN role
+   * @secure Requires the user:manage permission
    */
   @httpDelete('/:id')
-  @authorize(['ADMIN'])
+  @authorizePermission(Permission.USER_MANAGE)
   @rateLimit({ windowMs: 15 * 60 * 1000, max: 10 })
   async deleteUser(req: Request, res: Response): Promise<Response> {
     const { id } = req.params;
@@ -157,10 +152,10 @@ export class UserController {
 
   /**
    * Retrieves a user by ID with security validation
-   * @secure Requires authentication
+   * @secure Requires the user:read permission
    */
   @httpGet('/:id')
-  @authorize()
+  @authorizePermission(Permission.USER_READ)
   @rateLimit({ windowMs: 15 * 60 * 1000, max: 100 })
   async getUserById(req: Request, res: Response): Promise<Response> {
     const { id } = req.params;
@@ -193,10 +188,10 @@ export class UserController {
 
   /**
    * Retrieves a user by email with security validation
-   * @secure Requires authentication
+   * @secure Requires the user:read permission
    */
   @httpGet('/email/:email')
-  @authorize()
+  @authorizePermission(Permission.USER_READ)
   @rateLimit({ windowMs: 15 * 60 * 1000, max: 50 })
   async getUserByEmail(req: Request, res: Response): Promise<Response> {
     const { email } = req.params;
@@ -229,10 +224,10 @@ export class UserController {
 
   /**
    * Retrieves users based on query parameters with security validation
-   * @secure Requires ADMIN or PROJECT_MANAGER role
+   * @secure Requires the user:read permission
    */
   @httpGet('/')
-  @authorize(['ADMIN', 'PROJECT_MANAGER'])
+  @authorizePermission(Permission.USER_READ)
   @rateLimit({ windowMs: 15 * 60 * 1000, max: 50 })
   async getUsers(req: Request, res: Response): Promise<Response> {
     const correlationId = req.headers['x-correlation-id'] as string;
@@ -265,10 +260,13 @@ export class UserController {
 
   /**
    * Updates user preferences with security validation
-   * @secure Requires authentication and ownership
+   * @secure Requires user:preferences:update, or user:preferences:update:own for the caller's own account
    */
   @httpPut('/:id/preferences')
-  @authorize()
+  @authorizePermission(Permission.USER_PREFERENCES_UPDATE, {
+    ownPermission: Permission.USER_PREFERENCES_UPDATE_OWN,
+    resourceOwnershipCheck: isSelf
+  })
   @rateLimit({ windowMs: 15 * 60 * 1000, max: 20 })
   async updateUserPreferences(req: Request, res: Response): Promise<Response> {
     const { id } = req.params;
@@ -283,17 +281,6 @@ export class UserController {
     });
 
     try {
-      // Verify user is updating their own preferences
-      if (req.user?.id !== id) {
-        throw createError(
-          'Cannot update preferences for other users',
-          StatusCode.FORBIDDEN,
-          ErrorCode.AUTHORIZATION_ERROR,
-          correlationId,
-          { action: 'UPDATE_PREFERENCES', userId: id, requestedBy: req.user?.id }
-        );
-      }
-
       const user = await this.userService.updatePreferences(id, preferences);
 
       return res.status(StatusCode.OK).json({
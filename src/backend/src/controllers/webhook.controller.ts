@@ -0,0 +1,336 @@
+/**
+ * @fileoverview Webhook controller managing subscriptions and the delivery log
+ * @version 1.0.0
+ * @module controllers/webhook
+ */
+
+// External imports with versions
+import { injectable, inject } from 'inversify'; // v6.0.1
+import {
+  controller,
+  httpGet,
+  httpPost,
+  httpPut,
+  httpDelete,
+  request,
+  response,
+  requestParam
+} from 'inversify-express-utils'; // v6.4.3
+import { Request, Response } from 'express';
+import rateLimit from 'express-rate-limit'; // v6.7.0
+import { validate } from 'class-validator'; // v0.14.0
+import { plainToClass } from 'class-transformer'; // v0.5.1
+import { UUID } from 'crypto';
+
+// Internal imports
+import { WebhookService } from '../services/webhook.service';
+import {
+  CreateWebhookDTO,
+  UpdateWebhookDTO,
+  WebhookQueryDTO,
+  WebhookDeliveryQueryDTO
+} from '../dto/webhook.dto';
+import { ICreateWebhookDTO, IUpdateWebhookDTO } from '../interfaces/webhook.interface';
+import { ITaskContext } from '../interfaces/task.interface';
+import { TYPES } from '../config/types';
+
+// Rate limiting configuration
+const generalLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 60,
+  message: 'Too many requests, please try again later'
+});
+
+// Maps service error codes to HTTP status codes
+const ERROR_STATUS: Record<string, number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  WEBHOOK_INACTIVE: 409
+};
+
+// Default page size of the delivery log
+const DEFAULT_DELIVERY_LIMIT = 20;
+
+/**
+ * Webhook controller for administrators. Secrets are returned only when a webhook is
+ * created or its secret rotated.
+ */
+@injectable()
+@controller('/api/v1/webhooks')
+export class WebhookController {
+  constructor(
+    @inject(TYPES.WebhookService) private readonly webhookService: WebhookService
+  ) {}
+
+  /**
+   * Lists webhooks, optionally those of a project given as ?projectId
+   * @route GET /api/v1/webhooks
+   */
+  @httpGet('/')
+  @generalLimiter
+  async getWebhooks(
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const queryDto = plainToClass(WebhookQueryDTO, req.query);
+      const errors = await validate(queryDto);
+
+      if (errors.length > 0) {
+        return this.validationError(res, errors);
+      }
+
+      const result = await this.webhookService.listWebhooks(
+        queryDto.projectId as UUID | undefined,
+        this.buildContext(req, 'getWebhooks')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      return this.internalError(res, 'Failed to retrieve webhooks', error);
+    }
+  }
+
+  /**
+   * Creates a webhook; the response holds its secret
+   * @route POST /api/v1/webhooks
+   */
+  @httpPost('/')
+  @generalLimiter
+  async createWebhook(
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const webhookDto = plainToClass(CreateWebhookDTO, req.body);
+      const errors = await validate(webhookDto);
+
+      if (errors.length > 0) {
+        return this.validationError(res, errors);
+      }
+
+      const result = await this.webhookService.createWebhook(
+        webhookDto as ICreateWebhookDTO,
+        this.buildContext(req, 'createWebhook')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      res.setHeader('Cache-Control', 'no-store');
+      return res.status(201).json(result);
+    } catch (error) {
+      return this.internalError(res, 'Failed to create webhook', error);
+    }
+  }
+
+  /**
+   * Lists deliveries, newest first, filtered by ?webhookId and ?status
+   * @route GET /api/v1/webhooks/deliveries
+   */
+  @httpGet('/deliveries')
+  @generalLimiter
+  async getDeliveries(
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const queryDto = plainToClass(WebhookDeliveryQueryDTO, req.query);
+      const errors = await validate(queryDto);
+
+      if (errors.length > 0) {
+        return this.validationError(res, errors);
+      }
+
+      const result = await this.webhookService.listDeliveries(
+        {
+          webhookId: queryDto.webhookId as UUID | undefined,
+          status: queryDto.status,
+          page: queryDto.page || 1,
+          limit: queryDto.limit || DEFAULT_DELIVERY_LIMIT
+        },
+        this.buildContext(req, 'getDeliveries')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      return this.internalError(res, 'Failed to retrieve deliveries', error);
+    }
+  }
+
+  /**
+   * Sends the event of a delivery again
+   * @route POST /api/v1/webhooks/deliveries/:deliveryId/redeliver
+   */
+  @httpPost('/deliveries/:deliveryId/redeliver')
+  @generalLimiter
+  async redeliver(
+    @requestParam('deliveryId') deliveryId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const result = await this.webhookService.redeliver(
+        deliveryId,
+        this.buildContext(req, 'redeliver')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(202).json(result);
+    } catch (error) {
+      return this.internalError(res, 'Failed to redeliver', error);
+    }
+  }
+
+  /**
+   * Changes a webhook
+   * @route PUT /api/v1/webhooks/:webhookId
+   */
+  @httpPut('/:webhookId')
+  @generalLimiter
+  async updateWebhook(
+    @requestParam('webhookId') webhookId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const webhookDto = plainToClass(UpdateWebhookDTO, req.body);
+      const errors = await validate(webhookDto);
+
+      if (errors.length > 0) {
+        return this.validationError(res, errors);
+      }
+
+      const result = await this.webhookService.updateWebhook(
+        webhookId,
+        webhookDto as IUpdateWebhookDTO,
+        this.buildContext(req, 'updateWebhook')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      return this.internalError(res, 'Failed to update webhook', error);
+    }
+  }
+
+  /**
+   * Deletes a webhook with its delivery log
+   * @route DELETE /api/v1/webhooks/:webhookId
+   */
+  @httpDelete('/:webhookId')
+  @generalLimiter
+  async deleteWebhook(
+    @requestParam('webhookId') webhookId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const result = await this.webhookService.deleteWebhook(
+        webhookId,
+        this.buildContext(req, 'deleteWebhook')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(204).send();
+    } catch (error) {
+      return this.internalError(res, 'Failed to delete webhook', error);
+    }
+  }
+
+  /**
+   * Replaces the secret of a webhook; the response holds the new secret
+   * @route POST /api/v1/webhooks/:webhookId/rotate-secret
+   */
+  @httpPost('/:webhookId/rotate-secret')
+  @generalLimiter
+  async rotateSecret(
+    @requestParam('webhookId') webhookId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const result = await this.webhookService.rotateSecret(
+        webhookId,
+        this.buildContext(req, 'rotateSecret')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      res.setHeader('Cache-Control', 'no-store');
+      return res.status(200).json(result);
+    } catch (error) {
+      return this.internalError(res, 'Failed to rotate webhook secret', error);
+    }
+  }
+
+  /**
+   * Builds a 400 response for invalid input
+   * @private
+   */
+  private validationError(res: Response, errors: unknown[]): Response {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid webhook data',
+        details: errors
+      }
+    });
+  }
+
+  /**
+   * Builds a 500 response for unexpected failures
+   * @private
+   */
+  private internalError(res: Response, message: string, error: unknown): Response {
+    return res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message,
+        details: error
+      }
+    });
+  }
+
+  /**
+   * Builds the operation context from the authenticated request
+   * @private
+   */
+  private buildContext(req: Request, operationName: string): ITaskContext {
+    return {
+      userId: req.user.id,
+      userRole: req.user.role,
+      correlationId: req.headers['x-correlation-id'] as string,
+      requestId: req.id,
+      includeSoftDeleted: false,
+      telemetry: {
+        operationStart: new Date(),
+        operationName,
+        metrics: {},
+        tags: {}
+      }
+    };
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * @fileoverview Project workflow controller implementing workflow read and replace endpoints
+ * @version 1.0.0
+ * @module controllers/workflow
+ */
+
+// External imports with versions
+import { injectable, inject } from 'inversify'; // v6.0.1
+import {
+  controller,
+  httpGet,
+  httpPut,
+  request,
+  response,
+  requestParam
+} from 'inversify-express-utils'; // v6.4.3
+import { Request, Response } from 'express';
+import rateLimit from 'express-rate-limit'; // v6.7.0
+import { validate } from 'class-validator'; // v0.14.0
+import { plainToClass } from 'class-transformer'; // v0.5.1
+import { UUID } from 'crypto';
+
+// Internal imports
+import { WorkflowService } from '../services/workflow.service';
+import { UpdateWorkflowDTO } from '../dto/workflow.dto';
+import { IUpdateWorkflowDTO } from '../interfaces/workflow.interface';
+import { ITaskContext } from '../interfaces/task.interface';
+import { TYPES } from '../config/types';
+
+// Rate limiting configuration
+const generalLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 100,
+  message: 'Too many requests, please try again later'
+});
+
+// Maps service error codes to HTTP status codes
+const ERROR_STATUS: Record<string, number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  CONFLICT: 409
+};
+
+/**
+ * Workflow controller exposing the task states and transitions of a project
+ */
+@injectable()
+@controller('/api/v1/projects/:projectId/workflow')
+export class WorkflowController {
+  constructor(
+    @inject(TYPES.WorkflowService) private readonly workflowService: WorkflowService
+  ) {}
+
+  /**
+   * Retrieves the project's workflow, or the default workflow if it has none
+   * @route GET /api/v1/projects/:projectId/workflow
+   */
+  @httpGet('/')
+  @generalLimiter
+  async getWorkflow(
+    @requestParam('projectId') projectId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const result = await this.workflowService.getWorkflow(
+        projectId,
+        this.buildContext(req, 'getWorkflow')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to retrieve workflow',
+          details: error
+        }
+      });
+    }
+  }
+
+  /**
+   * Replaces the states and transitions of the project's workflow
+   * @route PUT /api/v1/projects/:projectId/workflow
+   */
+  @httpPut('/')
+  @generalLimiter
+  async updateWorkflow(
+    @requestParam('projectId') projectId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const workflowDto = plainToClass(UpdateWorkflowDTO, req.body);
+      const errors = await validate(workflowDto);
+
+      if (errors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid workflow data',
+            details: errors
+          }
+        });
+      }
+
+      const result = await this.workflowService.updateWorkflow(
+        projectId,
+        workflowDto as IUpdateWorkflowDTO,
+        this.buildContext(req, 'updateWorkflow')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to update workflow',
+          details: error
+        }
+      });
+    }
+  }
+
+  /**
+   * Builds the operation context from the authenticated request
+   * @private
+   */
+  private buildContext(req: Request, operationName: string): ITaskContext {
+    return {
+      userId: req.user.id,
+      userRole: req.user.role,
+      correlationId: req.headers['x-correlation-id'] as string,
+      requestId: req.id,
+      includeSoftDeleted: false,
+      telemetry: {
+        operationStart: new Date(),
+        operationName,
+        metrics: {},
+        tags: {}
+      }
+    };
+  }
+}
@@ -0,0 +1,396 @@
+/**
+ * @fileoverview Worklog controller implementing time logging, timer and timesheet endpoints
+ * @version 1.0.0
+ * @module controllers/worklog
+ */
+
+// External imports with versions
+import { injectable, inject } from 'inversify'; // v6.0.1
+import {
+  controller,
+  httpGet,
+  httpPost,
+  httpPut,
+  httpDelete,
+  request,
+  response,
+  requestParam
+} from 'inversify-express-utils'; // v6.4.3
+import { Request, Response } from 'express';
+import rateLimit from 'express-rate-limit'; // v6.7.0
+import { validate } from 'class-validator'; // v0.14.0
+import { plainToClass } from 'class-transformer'; // v0.5.1
+import { UUID } from 'crypto';
+
+// Internal imports
+import { WorklogService } from '../services/worklog.service';
+import {
+  CreateWorklogDTO,
+  UpdateWorklogDTO,
+  StartTimerDTO,
+  TimesheetQueryDTO
+} from '../dto/worklog.dto';
+import {
+  ICreateWorklogDTO,
+  IUpdateWorklogDTO,
+  IStartTimerDTO,
+  ITimesheetQuery
+} from '../interfaces/worklog.interface';
+import { ITaskContext } from '../interfaces/task.interface';
+import { TYPES } from '../config/types';
+
+// Rate limiting configuration
+const generalLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 100,
+  message: 'Too many requests, please try again later'
+});
+
+// Maps service error codes to HTTP status codes
+const ERROR_STATUS: Record<string, number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403
+};
+
+/**
+ * Worklog controller exposing the time logged on tasks, the caller's timer and the
+ * timesheets of users and projects
+ */
+@injectable()
+@controller('/api/v1')
+export class WorklogController {
+  constructor(
+    @inject(TYPES.WorklogService) private readonly worklogService: WorklogService
+  ) {}
+
+  /**
+   * Lists the time logged on a task, latest first
+   * @route GET /api/v1/tasks/:taskId/worklogs
+   */
+  @httpGet('/tasks/:taskId/worklogs')
+  @generalLimiter
+  async getWorklogs(
+    @requestParam('taskId') taskId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const result = await this.worklogService.listWorklogs(
+        taskId,
+        this.buildContext(req, 'getWorklogs')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      return this.internalError(res, 'Failed to retrieve worklogs', error);
+    }
+  }
+
+  /**
+   * Logs time on a task for the caller
+   * @route POST /api/v1/tasks/:taskId/worklogs
+   */
+  @httpPost('/tasks/:taskId/worklogs')
+  @generalLimiter
+  async createWorklog(
+    @requestParam('taskId') taskId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const worklogDto = plainToClass(CreateWorklogDTO, req.body);
+      const errors = await validate(worklogDto);
+
+      if (errors.length > 0) {
+        return this.validationError(res, errors);
+      }
+
+      const result = await this.worklogService.createWorklog(
+        taskId,
+        worklogDto as ICreateWorklogDTO,
+        this.buildContext(req, 'createWorklog')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(201).json(result);
+    } catch (error) {
+      return this.internalError(res, 'Failed to log time', error);
+    }
+  }
+
+  /**
+   * Changes a worklog entry; allowed to its author and project managers
+   * @route PUT /api/v1/tasks/:taskId/worklogs/:worklogId
+   */
+  @httpPut('/tasks/:taskId/worklogs/:worklogId')
+  @generalLimiter
+  async updateWorklog(
+    @requestParam('taskId') taskId: UUID,
+    @requestParam('worklogId') worklogId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const worklogDto = plainToClass(UpdateWorklogDTO, req.body);
+      const errors = await validate(worklogDto);
+
+      if (errors.length > 0) {
+        return this.validationError(res, errors);
+      }
+
+      const result = await this.worklogService.updateWorklog(
+        taskId,
+        worklogId,
+        worklogDto as IUpdateWorklogDTO,
+        this.buildContext(req, 'updateWorklog')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      return this.internalError(res, 'Failed to update worklog', error);
+    }
+  }
+
+  /**
+   * Removes a worklog entry; allowed to its author and project managers
+   * @route DELETE /api/v1/tasks/:taskId/worklogs/:worklogId
+   */
+  @httpDelete('/tasks/:taskId/worklogs/:worklogId')
+  @generalLimiter
+  async deleteWorklog(
+    @requestParam('taskId') taskId: UUID,
+    @requestParam('worklogId') worklogId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const result = await this.worklogService.deleteWorklog(
+        taskId,
+        worklogId,
+        this.buildContext(req, 'deleteWorklog')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(204).send();
+    } catch (error) {
+      return this.internalError(res, 'Failed to delete worklog', error);
+    }
+  }
+
+  /**
+   * Retrieves the caller's running timer; data is null when none is running
+   * @route GET /api/v1/timer
+   */
+  @httpGet('/timer')
+  @generalLimiter
+  async getTimer(
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const result = await this.worklogService.getTimer(
+        this.buildContext(req, 'getTimer')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      return this.internalError(res, 'Failed to retrieve timer', error);
+    }
+  }
+
+  /**
+   * Starts a timer on a task, stopping and logging any running timer
+   * @route POST /api/v1/timer/start
+   */
+  @httpPost('/timer/start')
+  @generalLimiter
+  async startTimer(
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const timerDto = plainToClass(StartTimerDTO, req.body);
+      const errors = await validate(timerDto);
+
+      if (errors.length > 0) {
+        return this.validationError(res, errors);
+      }
+
+      const result = await this.worklogService.startTimer(
+        timerDto as IStartTimerDTO,
+        this.buildContext(req, 'startTimer')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      return this.internalError(res, 'Failed to start timer', error);
+    }
+  }
+
+  /**
+   * Stops the caller's timer and logs the elapsed time
+   * @route POST /api/v1/timer/stop
+   */
+  @httpPost('/timer/stop')
+  @generalLimiter
+  async stopTimer(
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const result = await this.worklogService.stopTimer(
+        this.buildContext(req, 'stopTimer')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      return this.internalError(res, 'Failed to stop timer', error);
+    }
+  }
+
+  /**
+   * Retrieves the time a user logged, the current week by default
+   * @route GET /api/v1/users/:userId/timesheet
+   */
+  @httpGet('/users/:userId/timesheet')
+  @generalLimiter
+  async getUserTimesheet(
+    @requestParam('userId') userId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const queryDto = plainToClass(TimesheetQueryDTO, req.query);
+      const errors = await validate(queryDto);
+
+      if (errors.length > 0) {
+        return this.validationError(res, errors);
+      }
+
+      const result = await this.worklogService.getUserTimesheet(
+        userId,
+        queryDto as ITimesheetQuery,
+        this.buildContext(req, 'getUserTimesheet')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      return this.internalError(res, 'Failed to retrieve timesheet', error);
+    }
+  }
+
+  /**
+   * Retrieves the time logged on a project by every user, the current week by default
+   * @route GET /api/v1/projects/:projectId/timesheet
+   */
+  @httpGet('/projects/:projectId/timesheet')
+  @generalLimiter
+  async getProjectTimesheet(
+    @requestParam('projectId') projectId: UUID,
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<Response> {
+    try {
+      const queryDto = plainToClass(TimesheetQueryDTO, req.query);
+      const errors = await validate(queryDto);
+
+      if (errors.length > 0) {
+        return this.validationError(res, errors);
+      }
+
+      const result = await this.worklogService.getProjectTimesheet(
+        projectId,
+        queryDto as ITimesheetQuery,
+        this.buildContext(req, 'getProjectTimesheet')
+      );
+
+      if (!result.success) {
+        return res.status(ERROR_STATUS[result.error?.code as string] || 400).json(result);
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      return this.internalError(res, 'Failed to retrieve timesheet', error);
+    }
+  }
+
+  /**
+   * Builds a 400 response for request validation errors
+   * @private
+   */
+  private validationError(res: Response, errors: unknown[]): Response {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid worklog data',
+        details: errors
+      }
+    });
+  }
+
+  /**
+   * Builds a 500 response for unexpected failures
+   * @private
+   */
+  private internalError(res: Response, message: string, error: unknown): Response {
+    return res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message,
+        details: error
+      }
+    });
+  }
+
+  /**
+   * Builds the operation context from the authenticated request
+   * @private
+   */
+  private buildContext(req: Request, operationName: string): ITaskContext {
+    return {
+      userId: req.user.id,
+      userRole: req.user.role,
+      correlationId: req.headers['x-correlation-id'] as string,
+      requestId: req.id,
+      includeSoftDeleted: false,
+      telemetry: {
+        operationStart: new Date(),
+        operationName,
+        metrics: {},
+        tags: {}
+      }
+    };
+  }
+}
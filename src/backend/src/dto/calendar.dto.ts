@@ -0,0 +1,27 @@
+/**
+ * @fileoverview Data Transfer Object (DTO) classes for calendar feeds
+ * @version 1.0.0
+ * @module dto/calendar
+ */
+
+// External imports - versions specified for security compliance
+import { IsOptional, IsString, IsUUID } from 'class-validator'; // ^0.14.0
+import { Expose, Transform } from 'class-transformer'; // ^0.5.1
+
+/**
+ * DTO class for the query of a subscribed feed URL
+ */
+export class CalendarFeedQueryDTO {
+  // Repeatable, e.g. projectId=...&projectId=...
+  @IsUUID('4', { each: true, message: 'Invalid project ID format' })
+  @IsOptional()
+  @Transform(({ value }) => (typeof value === 'string' ? [value] : value))
+  @Expose()
+  projectId?: string[];
+
+  // IANA time zone the dates are placed in; UTC when omitted
+  @IsString({ message: 'Time zone must be a string' })
+  @IsOptional()
+  @Expose()
+  tz?: string;
+}
@@ -0,0 +1,63 @@
+/**
+ * @fileoverview Data Transfer Object (DTO) classes for checklist item operations
+ * @version 1.0.0
+ * @module dto/checklist
+ */
+
+// External imports - versions specified for security compliance
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsBoolean,
+  IsInt,
+  Length,
+  Min
+} from 'class-validator'; // ^0.14.0
+import { Expose, Transform, Type } from 'class-transformer'; // ^0.5.1
+
+// Internal imports
+import { sanitizeInput } from '../utils/validation.util';
+
+/**
+ * DTO class for checklist item creation requests
+ */
+export class CreateChecklistItemDTO {
+  @IsString({ message: 'Title must be a string' })
+  @IsNotEmpty({ message: 'Title is required' })
+  @Length(1, 200, { message: 'Title must be between 1 and 200 characters' })
+  @Expose()
+  @Transform(({ value }) => sanitizeInput(value))
+  title: string;
+
+  @IsInt({ message: 'Position must be an integer' })
+  @Min(0, { message: 'Position must not be negative' })
+  @IsOptional()
+  @Type(() => Number)
+  @Expose()
+  position?: number;
+}
+
+/**
+ * DTO class for checklist item update requests; all fields are optional
+ */
+export class UpdateChecklistItemDTO {
+  @IsString({ message: 'Title must be a string' })
+  @IsOptional()
+  @Length(1, 200, { message: 'Title must be between 1 and 200 characters' })
+  @Expose()
+  @Transform(({ value }) => sanitizeInput(value))
+  title?: string;
+
+  @IsBoolean({ message: 'isCompleted must be a boolean' })
+  @IsOptional()
+  @Expose()
+  isCompleted?: boolean;
+
+  @IsInt({ message: 'Position must be an integer' })
+  @Min(0, { message: 'Position must not be negative' })
+  @IsOptional()
+  @Type(() => Number)
+  @Expose()
+  position?: number;
+}
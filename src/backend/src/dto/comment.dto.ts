@@ -0,0 +1,104 @@
+/**
+ * @fileoverview Data Transfer Object (DTO) classes for task comment operations
+ * @version 1.0.0
+ * @module dto/comment
+ */
+
+// External imports - versions specified for security compliance
+import {
+  IsString,
+  IsNotEmpty,
+  IsUUID,
+  IsOptional,
+  IsArray,
+  IsInt,
+  Length,
+  Min,
+  Max,
+  Matches,
+  ArrayMaxSize
+} from 'class-validator'; // ^0.14.0
+
+import {
+  Expose,
+  Type,
+  Transform
+} from 'class-transformer'; // ^0.5.1
+
+// Internal imports
+import { sanitizeInput } from '../utils/validation.util';
+
+/**
+ * DTO class for comment and reply creation requests
+ */
+export class CreateCommentDTO {
+  @IsString({ message: 'Content must be a string' })
+  @IsNotEmpty({ message: 'Content is required' })
+  @Length(1, 5000, { message: 'Content must be between 1 and 5000 characters' })
+  @Expose()
+  @Transform(({ value }) => sanitizeInput(value))
+  content: string;
+
+  @IsUUID('4', { message: 'Invalid parent comment ID format' })
+  @IsOptional()
+  @Expose()
+  parentId?: string;
+
+  @IsArray({ message: 'Mentions must be an array' })
+  @IsUUID('4', { each: true, message: 'Invalid mentioned user ID format' })
+  @ArrayMaxSize(50, { message: 'Too many mentions' })
+  @IsOptional()
+  @Expose()
+  mentions?: string[];
+}
+
+/**
+ * DTO class for comment update requests with optimistic locking
+ */
+export class UpdateCommentDTO {
+  @IsString({ message: 'Content must be a string' })
+  @IsNotEmpty({ message: 'Content is required' })
+  @Length(1, 5000, { message: 'Content must be between 1 and 5000 characters' })
+  @Expose()
+  @Transform(({ value }) => sanitizeInput(value))
+  content: string;
+
+  @IsArray({ message: 'Mentions must be an array' })
+  @IsUUID('4', { each: true, message: 'Invalid mentioned user ID format' })
+  @ArrayMaxSize(50, { message: 'Too many mentions' })
+  @IsOptional()
+  @Expose()
+  mentions?: string[];
+
+  @IsInt({ message: 'Version must be an integer' })
+  @Min(1, { message: 'Version must be greater than 0' })
+  @Type(() => Number)
+  @Expose()
+  version: number;
+}
+
+/**
+ * DTO class for comment list pagination parameters
+ */
+export class CommentQueryDTO {
+  @IsInt({ message: 'Page must be a number' })
+  @Min(1, { message: 'Page must be greater than 0' })
+  @IsOptional()
+  @Type(() => Number)
+  @Expose()
+  page?: number;
+
+  @IsInt({ message: 'Limit must be a number' })
+  @Min(1, { message: 'Limit must be greater than 0' })
+  @Max(100, { message: 'Limit must not exceed 100' })
+  @IsOptional()
+  @Type(() => Number)
+  @Expose()
+  limit?: number;
+
+  @IsString({ message: 'Sort order must be a string' })
+  @IsOptional()
+  @Matches(/^(ASC|DESC)$/i, { message: 'Sort order must be ASC or DESC' })
+  @Expose()
+  sortOrder?: string;
+}
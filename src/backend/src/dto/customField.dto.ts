@@ -0,0 +1,96 @@
+/**
+ * @fileoverview Data Transfer Object (DTO) classes for project custom field operations
+ * @version 1.0.0
+ * @module dto/customField
+ */
+
+// External imports - versions specified for security compliance
+import {
+  IsString,
+  IsEnum,
+  IsArray,
+  IsBoolean,
+  IsInt,
+  IsOptional,
+  Length,
+  Matches,
+  Min,
+  ArrayMaxSize
+} from 'class-validator'; // ^0.14.0
+import { Expose, Transform } from 'class-transformer'; // ^0.5.1
+
+// Internal imports
+import { CustomFieldType } from '../types/customField.types';
+import { sanitizeInput } from '../utils/validation.util';
+
+/**
+ * DTO class for defining a custom field; the key and type cannot change afterwards
+ */
+export class CreateCustomFieldDTO {
+  @IsString({ message: 'Key must be a string' })
+  @Matches(/^[a-z][a-z0-9_]{0,49}$/, {
+    message: 'Key must start with a lowercase letter and contain only lowercase letters, digits and underscores'
+  })
+  @Expose()
+  key: string;
+
+  @IsString({ message: 'Name must be a string' })
+  @Length(1, 100, { message: 'Name must be between 1 and 100 characters' })
+  @Transform(({ value }) => sanitizeInput(value))
+  @Expose()
+  name: string;
+
+  @IsEnum(CustomFieldType, { message: 'Invalid custom field type' })
+  @Expose()
+  type: CustomFieldType;
+
+  @IsArray({ message: 'Options must be a list' })
+  @ArrayMaxSize(100, { message: 'A field can have at most 100 options' })
+  @IsString({ each: true, message: 'Options must be strings' })
+  @Length(1, 100, { each: true, message: 'Options must be between 1 and 100 characters' })
+  @IsOptional()
+  @Expose()
+  options?: string[];
+
+  @IsBoolean({ message: 'required must be a boolean' })
+  @IsOptional()
+  @Expose()
+  required?: boolean;
+
+  @IsInt({ message: 'Position must be an integer' })
+  @Min(0, { message: 'Position must not be negative' })
+  @IsOptional()
+  @Expose()
+  position?: number;
+}
+
+/**
+ * DTO class for changing a custom field's name, options, required flag or position
+ */
+export class UpdateCustomFieldDTO {
+  @IsString({ message: 'Name must be a string' })
+  @Length(1, 100, { message: 'Name must be between 1 and 100 characters' })
+  @Transform(({ value }) => sanitizeInput(value))
+  @IsOptional()
+  @Expose()
+  name?: string;
+
+  @IsArray({ message: 'Options must be a list' })
+  @ArrayMaxSize(100, { message: 'A field can have at most 100 options' })
+  @IsString({ each: true, message: 'Options must be strings' })
+  @Length(1, 100, { each: true, message: 'Options must be between 1 and 100 characters' })
+  @IsOptional()
+  @Expose()
+  options?: string[];
+
+  @IsBoolean({ message: 'required must be a boolean' })
+  @IsOptional()
+  @Expose()
+  required?: boolean;
+
+  @IsInt({ message: 'Position must be an integer' })
+  @Min(0, { message: 'Position must not be negative' })
+  @IsOptional()
+  @Expose()
+  position?: number;
+}
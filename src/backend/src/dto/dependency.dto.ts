@@ -0,0 +1,25 @@
+/**
+ * @fileoverview Data Transfer Object (DTO) classes for task dependency operations
+ * @version 1.0.0
+ * @module dto/dependency
+ */
+
+// External imports - versions specified for security compliance
+import { IsUUID, IsOptional } from 'class-validator'; // ^0.14.0
+import { Expose } from 'class-transformer'; // ^0.5.1
+
+/**
+ * DTO class for dependency creation requests; exactly one of the two IDs is expected,
+ * the other side being the task in the route
+ */
+export class CreateDependencyDTO {
+  @IsUUID('4', { message: 'Invalid blocker task ID format' })
+  @IsOptional()
+  @Expose()
+  blockerId?: string;
+
+  @IsUUID('4', { message: 'Invalid blocked task ID format' })
+  @IsOptional()
+  @Expose()
+  blockedId?: string;
+}
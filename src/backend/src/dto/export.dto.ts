@@ -0,0 +1,140 @@
+/**
+ * @fileoverview Data Transfer Object (DTO) classes for task and project list exports
+ * @version 1.0.0
+ * @module dto/export
+ */
+
+// External imports - versions specified for security compliance
+import {
+  IsArray, IsDate, IsEnum, IsIn, IsOptional, IsString, IsUUID
+} from 'class-validator'; // ^0.14.0
+import { Expose, Transform, Type } from 'class-transformer'; // ^0.5.1
+import { ApiProperty } from '@nestjs/swagger'; // ^10.0.0
+
+// Internal imports
+import { TaskQueryDTO } from './task.dto';
+import { ExportFormat } from '../types/export.types';
+import { ProjectStatus, ProjectPriority } from '../types/project.types';
+
+// Project fields an export can be sorted by
+const PROJECT_EXPORT_SORT_FIELDS = [
+  'name', 'startDate', 'endDate', 'priority', 'status', 'createdAt', 'updatedAt'
+];
+
+/**
+ * Splits a comma-separated column list, e.g. `columns=id,title,status`
+ */
+const toColumnList = ({ value }: { value: unknown }): unknown =>
+  typeof value === 'string'
+    ? value.split(',').map(column => column.trim()).filter(Boolean)
+    : value;
+
+/**
+ * DTO class for exporting tasks; accepts every filter of the task listing, whose
+ * pagination is ignored
+ */
+export class TaskExportQueryDTO extends TaskQueryDTO {
+  @IsEnum(ExportFormat, { message: 'Format must be csv, xlsx or json' })
+  @IsOptional()
+  @Expose()
+  format?: ExportFormat = ExportFormat.CSV;
+
+  // Column keys in output order; the default columns when omitted
+  @IsArray({ message: 'Columns must be a comma-separated list' })
+  @IsString({ each: true, message: 'Columns must be strings' })
+  @IsOptional()
+  @Transform(toColumnList)
+  @Expose()
+  columns?: string[];
+}
+
+/**
+ * DTO class for exporting projects; accepts the filters of the project listing and
+ * also sorts by creation and update time, as the project list does
+ */
+export class ProjectExportQueryDTO {
+  @ApiProperty({
+    description: 'Filter by project status',
+    enum: ProjectStatus,
+    required: false
+  })
+  @IsOptional()
+  @IsEnum(ProjectStatus)
+  @Transform(({ value }) => (typeof value === 'string' ? value.toUpperCase() : value))
+  status?: ProjectStatus;
+
+  @ApiProperty({
+    description: 'Filter by project priority',
+    enum: ProjectPriority,
+    required: false
+  })
+  @IsOptional()
+  @IsEnum(ProjectPriority)
+  priority?: ProjectPriority;
+
+  @ApiProperty({
+    description: 'Filter by owner UUID',
+    required: false
+  })
+  @IsOptional()
+  @IsUUID('4')
+  ownerId?: string;
+
+  @ApiProperty({
+    description: 'Filter by start date',
+    type: Date,
+    required: false
+  })
+  @IsOptional()
+  @IsDate()
+  @Type(() => Date)
+  startDate?: Date;
+
+  @ApiProperty({
+    description: 'Filter by end date',
+    type: Date,
+    required: false
+  })
+  @IsOptional()
+  @IsDate()
+  @Type(() => Date)
+  endDate?: Date;
+
+  @ApiProperty({
+    description: 'Field to sort by',
+    enum: PROJECT_EXPORT_SORT_FIELDS,
+    default: 'createdAt'
+  })
+  @IsOptional()
+  @IsIn(PROJECT_EXPORT_SORT_FIELDS)
+  sortBy?: string;
+
+  @ApiProperty({
+    description: 'Sort order',
+    enum: ['asc', 'desc'],
+    default: 'desc'
+  })
+  @IsOptional()
+  @IsIn(['asc', 'desc'])
+  sortOrder?: 'asc' | 'desc';
+
+  @ApiProperty({
+    description: 'Export format',
+    enum: ExportFormat,
+    default: ExportFormat.CSV
+  })
+  @IsOptional()
+  @IsEnum(ExportFormat)
+  format?: ExportFormat = ExportFormat.CSV;
+
+  @ApiProperty({
+    description: 'Comma-separated column keys in output order',
+    type: String,
+    required: false
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  @Transform(toColumnList)
+  columns?: string[];
+}
@@ -0,0 +1,46 @@
+/**
+ * @fileoverview Data Transfer Object (DTO) classes for change history queries
+ * @version 1.0.0
+ * @module dto/history
+ */
+
+// External imports - versions specified for security compliance
+import {
+  IsString,
+  IsOptional,
+  IsInt,
+  Min,
+  Max,
+  Matches
+} from 'class-validator'; // ^0.14.0
+
+import {
+  Expose,
+  Type
+} from 'class-transformer'; // ^0.5.1
+
+/**
+ * DTO for change history query parameters
+ */
+export class HistoryQueryDTO {
+  @IsInt({ message: 'Page must be a number' })
+  @Min(1, { message: 'Page must be greater than 0' })
+  @IsOptional()
+  @Type(() => Number)
+  @Expose()
+  page?: number;
+
+  @IsInt({ message: 'Limit must be a number' })
+  @Min(1, { message: 'Limit must be greater than 0' })
+  @Max(100, { message: 'Limit must not exceed 100' })
+  @IsOptional()
+  @Type(() => Number)
+  @Expose()
+  limit?: number;
+
+  @IsString({ message: 'Field must be a string' })
+  @IsOptional()
+  @Matches(/^[a-zA-Z]{1,100}$/, { message: 'Field must be a field name' })
+  @Expose()
+  field?: string;
+}
@@ -0,0 +1,23 @@
+/**
+ * @fileoverview Data Transfer Object (DTO) classes for task import operations
+ * @version 1.0.0
+ * @module dto/import
+ */
+
+// External imports - versions specified for security compliance
+import { IsObject, IsNotEmpty } from 'class-validator'; // ^0.14.0
+import { Expose } from 'class-transformer'; // ^0.5.1
+
+// Internal imports
+import { TaskImportMapping } from '../interfaces/import.interface';
+
+/**
+ * DTO class for validating or committing an import; fields and columns of the mapping
+ * are checked against the uploaded file by the service
+ */
+export class MapTaskImportDTO {
+  @IsObject({ message: 'Mapping must be an object of columns by task field' })
+  @IsNotEmpty({ message: 'Mapping is required' })
+  @Expose()
+  mapping: TaskImportMapping;
+}
@@ -16,6 +16,72 @@ export {
   TokenResponseDto
 } from './auth.dto';
 
+// Calendar Feed DTOs
+export {
+  CalendarFeedQueryDTO
+} from './calendar.dto';
+
+// Checklist DTOs
+export {
+  CreateChecklistItemDTO,
+  UpdateChecklistItemDTO
+} from './checklist.dto';
+
+// Comment DTOs
+export {
+  CreateCommentDTO,
+  UpdateCommentDTO,
+  CommentQueryDTO
+} from './comment.dto';
+
+// Custom Field DTOs
+export {
+  CreateCustomFieldDTO,
+  UpdateCustomFieldDTO
+} from './customField.dto';
+
+// Task Dependency DTOs
+export {
+  CreateDependencyDTO
+} from './dependency.dto';
+
+// Change History DTOs
+export {
+  HistoryQueryDTO
+} from './history.dto';
+
+// List Export DTOs
+export {
+  TaskExportQueryDTO,
+  ProjectExportQueryDTO
+} from './export.dto';
+
+// Task Import DTOs
+export {
+  MapTaskImportDTO
+} from './import.dto';
+
+// Project Membership DTOs
+export {
+  AddProjectMemberDTO
+} from './membership.dto';
+
+// Project Milestone DTOs
+export {
+  CreateMilestoneDTO,
+  UpdateMilestoneDTO
+} from './milestone.dto';
+
+// Notification DTOs
+export {
+  NotificationQueryDTO
+} from './notification.dto';
+
+// Permission DTOs
+export {
+  UpdateRolePermissionsDTO
+} from './permission.dto';
+
 // Project Management DTOs
 export {
   CreateProjectDTO,
@@ -23,11 +89,32 @@ export {
   ProjectQueryDTO
 } from './project.dto';
 
+// Recurring Task DTOs
+export {
+  RecurrenceRuleDTO
+} from './recurrence.dto';
+
+// Saved Task View DTOs
+export {
+  CreateSavedViewDTO,
+  UpdateSavedViewDTO,
+  SavedViewFiltersDTO,
+  SavedViewQueryDTO
+} from './savedView.dto';
+
+// Full-Text Search DTOs
+export {
+  SearchQueryDTO
+} from './search.dto';
+
 // Task Management DTOs
 export {
   CreateTaskDTO,
   UpdateTaskDTO,
-  TaskQueryDTO
+  TaskQueryDTO,
+  BulkTaskRefDTO,
+  BulkTaskPatchDTO,
+  BulkUpdateTasksDTO
 } from './task.dto';
 
 // User Management DTOs
@@ -39,6 +126,36 @@ export {
   UserQueryDTO
 } from './user.dto';
 
+// Project Sprint DTOs
+export {
+  CreateSprintDTO,
+  UpdateSprintDTO,
+  CloseSprintDTO
+} from './sprint.dto';
+
+// Webhook DTOs
+export {
+  CreateWebhookDTO,
+  UpdateWebhookDTO,
+  WebhookQueryDTO,
+  WebhookDeliveryQueryDTO
+} from './webhook.dto';
+
+// Project Workflow DTOs
+export {
+  UpdateWorkflowDTO,
+  WorkflowStateDTO,
+  WorkflowTransitionDTO
+} from './workflow.dto';
+
+// Time Tracking DTOs
+export {
+  CreateWorklogDTO,
+  UpdateWorklogDTO,
+  StartTimerDTO,
+  TimesheetQueryDTO
+} from './worklog.dto';
+
 /**
  * @remarks
  * This file centralizes all DTO exports to provide a single import point for data validation
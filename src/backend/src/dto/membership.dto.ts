@@ -0,0 +1,25 @@
+/**
+ * @fileoverview Data Transfer Object (DTO) classes for project membership operations
+ * @version 1.0.0
+ * @module dto/membership
+ */
+
+// External imports - versions specified for security compliance
+import { IsUUID, IsEnum } from 'class-validator'; // ^0.14.0
+import { Expose } from 'class-transformer'; // ^0.5.1
+
+// Internal imports
+import { ProjectRole } from '../types/project.types';
+
+/**
+ * DTO class for adding a project member; adding an existing member changes their role
+ */
+export class AddProjectMemberDTO {
+  @IsUUID('4', { message: 'Invalid user ID format' })
+  @Expose()
+  userId: string;
+
+  @IsEnum(ProjectRole, { message: 'Invalid project role' })
+  @Expose()
+  role: ProjectRole;
+}
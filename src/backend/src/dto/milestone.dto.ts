@@ -0,0 +1,87 @@
+/**
+ * @fileoverview Data Transfer Object (DTO) classes for project milestone operations
+ * @version 1.0.0
+ * @module dto/milestone
+ */
+
+// External imports - versions specified for security compliance
+import {
+  IsString,
+  IsDate,
+  IsUUID,
+  IsArray,
+  IsOptional,
+  IsNotEmpty,
+  Length,
+  MaxLength,
+  ArrayMaxSize
+} from 'class-validator'; // ^0.14.0
+import { Expose, Transform, Type } from 'class-transformer'; // ^0.5.1
+
+// Internal imports
+import { sanitizeInput } from '../utils/validation.util';
+import { MAX_MILESTONE_TASKS } from '../utils/milestone.util';
+
+/**
+ * DTO class for creating a milestone; the milestone is due by the end of its date
+ */
+export class CreateMilestoneDTO {
+  @IsString({ message: 'Name must be a string' })
+  @Length(1, 100, { message: 'Name must be between 1 and 100 characters' })
+  @Transform(({ value }) => sanitizeInput(value))
+  @Expose()
+  name: string;
+
+  @IsString({ message: 'Description must be a string' })
+  @MaxLength(2000, { message: 'Description must not exceed 2000 characters' })
+  @Transform(({ value }) => sanitizeInput(value))
+  @IsOptional()
+  @Expose()
+  description?: string;
+
+  @IsDate({ message: 'Invalid due date format' })
+  @Type(() => Date)
+  @IsNotEmpty({ message: 'Due date is required' })
+  @Expose()
+  dueDate: Date;
+
+  @IsArray({ message: 'Task IDs must be an array' })
+  @IsUUID('4', { each: true, message: 'Invalid task ID format' })
+  @ArrayMaxSize(MAX_MILESTONE_TASKS, { message: 'Too many linked tasks' })
+  @IsOptional()
+  @Expose()
+  taskIds?: string[];
+}
+
+/**
+ * DTO class for changing a milestone; taskIds replaces the linked tasks
+ */
+export class UpdateMilestoneDTO {
+  @IsString({ message: 'Name must be a string' })
+  @Length(1, 100, { message: 'Name must be between 1 and 100 characters' })
+  @Transform(({ value }) => sanitizeInput(value))
+  @IsOptional()
+  @Expose()
+  name?: string;
+
+  // null clears the description
+  @IsString({ message: 'Description must be a string' })
+  @MaxLength(2000, { message: 'Description must not exceed 2000 characters' })
+  @Transform(({ value }) => value === null ? null : sanitizeInput(value))
+  @IsOptional()
+  @Expose()
+  description?: string | null;
+
+  @IsDate({ message: 'Invalid due date format' })
+  @Type(() => Date)
+  @IsOptional()
+  @Expose()
+  dueDate?: Date;
+
+  @IsArray({ message: 'Task IDs must be an array' })
+  @IsUUID('4', { each: true, message: 'Invalid task ID format' })
+  @ArrayMaxSize(MAX_MILESTONE_TASKS, { message: 'Too many linked tasks' })
+  @IsOptional()
+  @Expose()
+  taskIds?: string[];
+}
@@ -0,0 +1,41 @@
+/**
+ * @fileoverview Data Transfer Object (DTO) classes for in-app notifications
+ * @version 1.0.0
+ * @module dto/notification
+ */
+
+// External imports - versions specified for security compliance
+import {
+  IsBoolean,
+  IsOptional,
+  IsInt,
+  Min,
+  Max
+} from 'class-validator'; // ^0.14.0
+import { Expose, Transform, Type } from 'class-transformer'; // ^0.5.1
+
+/**
+ * DTO class for the notification list query parameters
+ */
+export class NotificationQueryDTO {
+  @IsBoolean({ message: 'unreadOnly must be a boolean' })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @Expose()
+  unreadOnly?: boolean;
+
+  @IsInt({ message: 'Page must be a number' })
+  @Min(1, { message: 'Page must be greater than 0' })
+  @IsOptional()
+  @Type(() => Number)
+  @Expose()
+  page?: number;
+
+  @IsInt({ message: 'Limit must be a number' })
+  @Min(1, { message: 'Limit must be greater than 0' })
+  @Max(100, { message: 'Limit must not exceed 100' })
+  @IsOptional()
+  @Type(() => Number)
+  @Expose()
+  limit?: number;
+}
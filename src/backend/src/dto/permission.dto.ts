@@ -0,0 +1,22 @@
+/**
+ * @fileoverview Data Transfer Object (DTO) classes for role permission operations
+ * @version 1.0.0
+ * @module dto/permission
+ */
+
+// External imports - versions specified for security compliance
+import { IsArray, IsEnum } from 'class-validator'; // ^0.14.0
+import { Expose } from 'class-transformer'; // ^0.5.1
+
+// Internal imports
+import { Permission } from '../types/permission.types';
+
+/**
+ * DTO class for replacing the permissions granted to a role
+ */
+export class UpdateRolePermissionsDTO {
+  @IsArray({ message: 'Permissions must be an array' })
+  @IsEnum(Permission, { each: true, message: 'Invalid permission' })
+  @Expose()
+  permissions: Permission[];
+}
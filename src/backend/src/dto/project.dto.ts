@@ -14,7 +14,7 @@ import { Expose, Type, Transform } from 'class-transformer'; // ^0.5.1
 import { ApiProperty } from '@nestjs/swagger'; // ^10.0.0
 
 // Internal imports
-import { ProjectStatus, ProjectPriority } from '../types/project.types';
+import { ProjectStatus, ProjectPriority, EstimationUnit } from '../types/project.types';
 import {
   validateProjectStatus,
   validatePriority,
@@ -92,6 +92,17 @@ export class CreateProjectDTO {
   @Transform(({ value }) => Array.from(new Set(value))) // Remove duplicates
   teamMembers: string[];
 
+  @ApiProperty({
+    description: 'Unit of task estimates',
+    enum: EstimationUnit,
+    default: EstimationUnit.HOURS,
+    required: false
+  })
+  @IsOptional()
+  @IsEnum(EstimationUnit)
+  @Transform(({ value }) => value.toUpperCase())
+  estimationUnit?: EstimationUnit;
+
   /**
    * Custom validator to ensure startDate is before endDate
    */
@@ -185,6 +196,16 @@ export class UpdateProjectDTO {
   @Transform(({ value }) => Array.from(new Set(value)))
   teamMembers?: string[];
 
+  @ApiProperty({
+    description: 'Unit of task estimates; existing estimates keep their numbers',
+    enum: EstimationUnit,
+    required: false
+  })
+  @IsOptional()
+  @IsEnum(EstimationUnit)
+  @Transform(({ value }) => value.toUpperCase())
+  estimationUnit?: EstimationUnit;
+
   /**
    * Custom validator for partial date updates
    */
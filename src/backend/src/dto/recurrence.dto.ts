@@ -0,0 +1,85 @@
+/**
+ * @fileoverview Data Transfer Object (DTO) classes for recurring task rules
+ * @version 1.0.0
+ * @module dto/recurrence
+ */
+
+// External imports - versions specified for security compliance
+import {
+  IsEnum,
+  IsInt,
+  IsBoolean,
+  IsDate,
+  IsOptional,
+  IsString,
+  ArrayMaxSize,
+  Length,
+  Min,
+  Max
+} from 'class-validator'; // ^0.14.0
+import { Expose, Type } from 'class-transformer'; // ^0.5.1
+
+// Internal imports
+import { RecurrenceFrequency, RecurrenceTrigger } from '../types/task.types';
+
+/**
+ * DTO class for recurrence rule requests; used standalone and nested in task DTOs
+ */
+export class RecurrenceRuleDTO {
+  @IsEnum(RecurrenceFrequency, { message: 'Invalid recurrence frequency' })
+  @Expose()
+  frequency: RecurrenceFrequency;
+
+  @IsInt({ message: 'Interval must be an integer' })
+  @Min(1, { message: 'Interval must be at least 1' })
+  @Max(365, { message: 'Interval must not exceed 365' })
+  @IsOptional()
+  @Type(() => Number)
+  @Expose()
+  interval?: number;
+
+  @IsInt({ each: true, message: 'Weekdays must be integers' })
+  @Min(0, { each: true, message: 'Weekdays range from 0 (Sunday) to 6 (Saturday)' })
+  @Max(6, { each: true, message: 'Weekdays range from 0 (Sunday) to 6 (Saturday)' })
+  @ArrayMaxSize(7, { message: 'At most 7 weekdays can be selected' })
+  @IsOptional()
+  @Expose()
+  byWeekday?: number[];
+
+  @IsInt({ message: 'Month day must be an integer' })
+  @Min(1, { message: 'Month day must be between 1 and 31' })
+  @Max(31, { message: 'Month day must be between 1 and 31' })
+  @IsOptional()
+  @Type(() => Number)
+  @Expose()
+  byMonthDay?: number;
+
+  @IsString({ message: 'RRULE must be a string' })
+  @Length(1, 500, { message: 'RRULE must be between 1 and 500 characters' })
+  @IsOptional()
+  @Expose()
+  rrule?: string;
+
+  @IsBoolean({ message: 'businessDaysOnly must be a boolean' })
+  @IsOptional()
+  @Expose()
+  businessDaysOnly?: boolean;
+
+  @IsEnum(RecurrenceTrigger, { message: 'Invalid recurrence trigger' })
+  @IsOptional()
+  @Expose()
+  generateOn?: RecurrenceTrigger;
+
+  @IsDate({ message: 'Invalid end date format' })
+  @Type(() => Date)
+  @IsOptional()
+  @Expose()
+  endDate?: Date;
+
+  @IsInt({ message: 'Count must be an integer' })
+  @Min(1, { message: 'Count must be at least 1' })
+  @IsOptional()
+  @Type(() => Number)
+  @Expose()
+  count?: number;
+}
@@ -0,0 +1,209 @@
+/**
+ * @fileoverview Data Transfer Object (DTO) classes for saved task view operations
+ * @version 1.0.0
+ * @module dto/savedView
+ */
+
+// External imports - versions specified for security compliance
+import {
+  IsString,
+  IsEnum,
+  IsUUID,
+  IsIn,
+  IsArray,
+  IsBoolean,
+  IsOptional,
+  Length,
+  Matches,
+  ArrayMaxSize,
+  ValidateNested
+} from 'class-validator'; // ^0.14.0
+import { Expose, Transform, Type } from 'class-transformer'; // ^0.5.1
+
+// Internal imports
+import { TaskPriority } from '../types/task.types';
+import { SavedViewVisibility, SavedViewLayout, SavedViewGrouping } from '../types/savedView.types';
+import { WORKFLOW_STATE_KEY_PATTERN } from '../utils/workflow.util';
+import { MAX_VIEW_COLUMNS, SAVED_VIEW_GROUPINGS } from '../utils/savedView.util';
+import { MAX_TASK_QUERY_LENGTH } from '../utils/taskQuery.util';
+import { sanitizeInput } from '../utils/validation.util';
+
+// Task attributes and custom field columns, e.g. dueDate or cf:points
+const COLUMN_PATTERN = /^(cf:[a-z][a-z0-9_]*|[a-zA-Z]+)$/;
+
+/**
+ * DTO class for the task filters of a view, validated as the task list query parameters
+ */
+export class SavedViewFiltersDTO {
+  @IsString({ message: 'Status must be a string' })
+  @Matches(WORKFLOW_STATE_KEY_PATTERN, { message: 'Invalid status value' })
+  @IsOptional()
+  @Expose()
+  status?: string;
+
+  @IsEnum(TaskPriority, { message: 'Invalid priority value' })
+  @IsOptional()
+  @Expose()
+  priority?: TaskPriority;
+
+  @IsUUID('4', { message: 'Invalid assignee ID format' })
+  @IsOptional()
+  @Expose()
+  assigneeId?: string;
+
+  @IsUUID('4', { message: 'Invalid sprint ID format' })
+  @IsOptional()
+  @Expose()
+  sprintId?: string;
+
+  @IsUUID('4', { message: 'Invalid parent task ID format' })
+  @IsOptional()
+  @Expose()
+  parentId?: string;
+
+  @IsBoolean({ message: 'topLevelOnly must be a boolean' })
+  @IsOptional()
+  @Expose()
+  topLevelOnly?: boolean;
+
+  @IsString({ message: 'Search query must be a string' })
+  @Length(0, 100, { message: 'Search query too long' })
+  @Transform(({ value }) => sanitizeInput(value))
+  @IsOptional()
+  @Expose()
+  search?: string;
+
+  @IsArray({ message: 'Custom field filters must be a list' })
+  @IsString({ each: true, message: 'Custom field filters must be strings' })
+  @Matches(/^[a-z][a-z0-9_]*:[a-z]+:.+$/, { each: true, message: 'Custom field filters must have the form key:operator:value' })
+  @ArrayMaxSize(20, { message: 'Too many custom field filters' })
+  @IsOptional()
+  @Expose()
+  customField?: string[];
+
+  @IsString({ message: 'Query must be a string' })
+  @Length(0, MAX_TASK_QUERY_LENGTH, { message: `Query must not exceed ${MAX_TASK_QUERY_LENGTH} characters` })
+  @IsOptional()
+  @Expose()
+  q?: string;
+}
+
+/**
+ * DTO class for saving a view; shared views must belong to a project
+ */
+export class CreateSavedViewDTO {
+  @IsString({ message: 'Name must be a string' })
+  @Length(1, 100, { message: 'Name must be between 1 and 100 characters' })
+  @Transform(({ value }) => sanitizeInput(value))
+  @Expose()
+  name: string;
+
+  @IsUUID('4', { message: 'Invalid project ID format' })
+  @IsOptional()
+  @Expose()
+  projectId?: string;
+
+  @IsEnum(SavedViewVisibility, { message: 'Invalid visibility' })
+  @IsOptional()
+  @Expose()
+  visibility?: SavedViewVisibility;
+
+  @IsEnum(SavedViewLayout, { message: 'Invalid layout' })
+  @IsOptional()
+  @Expose()
+  layout?: SavedViewLayout;
+
+  @ValidateNested()
+  @Type(() => SavedViewFiltersDTO)
+  @IsOptional()
+  @Expose()
+  filters?: SavedViewFiltersDTO;
+
+  @IsString({ message: 'Sort field must be a string' })
+  @Matches(/^[a-zA-Z_]+$/, { message: 'Invalid sort field' })
+  @IsOptional()
+  @Expose()
+  sortBy?: string;
+
+  @IsIn(['asc', 'desc'], { message: 'Sort order must be asc or desc' })
+  @Transform(({ value }) => typeof value === 'string' ? value.toLowerCase() : value)
+  @IsOptional()
+  @Expose()
+  sortOrder?: 'asc' | 'desc';
+
+  @IsIn(SAVED_VIEW_GROUPINGS, { message: 'Invalid grouping' })
+  @IsOptional()
+  @Expose()
+  groupBy?: SavedViewGrouping;
+
+  @IsArray({ message: 'Columns must be a list' })
+  @IsString({ each: true, message: 'Columns must be strings' })
+  @Matches(COLUMN_PATTERN, { each: true, message: 'Invalid column' })
+  @ArrayMaxSize(MAX_VIEW_COLUMNS, { message: 'Too many columns' })
+  @IsOptional()
+  @Expose()
+  columns?: string[];
+}
+
+/**
+ * DTO class for changing a view; filters and columns replace the stored ones
+ */
+export class UpdateSavedViewDTO {
+  @IsString({ message: 'Name must be a string' })
+  @Length(1, 100, { message: 'Name must be between 1 and 100 characters' })
+  @Transform(({ value }) => sanitizeInput(value))
+  @IsOptional()
+  @Expose()
+  name?: string;
+
+  @IsEnum(SavedViewVisibility, { message: 'Invalid visibility' })
+  @IsOptional()
+  @Expose()
+  visibility?: SavedViewVisibility;
+
+  @IsEnum(SavedViewLayout, { message: 'Invalid layout' })
+  @IsOptional()
+  @Expose()
+  layout?: SavedViewLayout;
+
+  @ValidateNested()
+  @Type(() => SavedViewFiltersDTO)
+  @IsOptional()
+  @Expose()
+  filters?: SavedViewFiltersDTO;
+
+  @IsString({ message: 'Sort field must be a string' })
+  @Matches(/^[a-zA-Z_]+$/, { message: 'Invalid sort field' })
+  @IsOptional()
+  @Expose()
+  sortBy?: string;
+
+  @IsIn(['asc', 'desc'], { message: 'Sort order must be asc or desc' })
+  @Transform(({ value }) => typeof value === 'string' ? value.toLowerCase() : value)
+  @IsOptional()
+  @Expose()
+  sortOrder?: 'asc' | 'desc';
+
+  @IsIn(SAVED_VIEW_GROUPINGS, { message: 'Invalid grouping' })
+  @IsOptional()
+  @Expose()
+  groupBy?: SavedViewGrouping;
+
+  @IsArray({ message: 'Columns must be a list' })
+  @IsString({ each: true, message: 'Columns must be strings' })
+  @Matches(COLUMN_PATTERN, { each: true, message: 'Invalid column' })
+  @ArrayMaxSize(MAX_VIEW_COLUMNS, { message: 'Too many columns' })
+  @IsOptional()
+  @Expose()
+  columns?: string[];
+}
+
+/**
+ * DTO class for listing views; the caller's own views when no project is given
+ */
+export class SavedViewQueryDTO {
+  @IsUUID('4', { message: 'Invalid project ID format' })
+  @IsOptional()
+  @Expose()
+  projectId?: string;
+}
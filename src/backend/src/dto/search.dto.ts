@@ -0,0 +1,55 @@
+/**
+ * @fileoverview Data Transfer Object (DTO) classes for full-text search
+ * @version 1.0.0
+ * @module dto/search
+ */
+
+// External imports - versions specified for security compliance
+import {
+  IsString,
+  IsEnum,
+  IsUUID,
+  IsNumber,
+  IsOptional,
+  IsNotEmpty,
+  MaxLength,
+  Min,
+  Max
+} from 'class-validator'; // ^0.14.0
+import { Expose, Transform, Type } from 'class-transformer'; // ^0.5.1
+
+// Internal imports
+import { SearchResultType } from '../types/search.types';
+import { MAX_SEARCH_QUERY_LENGTH, MAX_SEARCH_LIMIT } from '../utils/search.util';
+
+/**
+ * DTO class for search query parameters
+ */
+export class SearchQueryDTO {
+  // Web search syntax: quoted phrases, `or` and `-excluded` terms
+  @IsString({ message: 'Search query must be a string' })
+  @IsNotEmpty({ message: 'Search query is required' })
+  @MaxLength(MAX_SEARCH_QUERY_LENGTH, { message: `Search query must not exceed ${MAX_SEARCH_QUERY_LENGTH} characters` })
+  @Expose()
+  q: string;
+
+  // Comma-separated, e.g. types=TASK,COMMENT
+  @IsEnum(SearchResultType, { each: true, message: 'Invalid result type' })
+  @IsOptional()
+  @Transform(({ value }) => (typeof value === 'string' ? value.split(',').filter(Boolean) : value))
+  @Expose()
+  types?: SearchResultType[];
+
+  @IsUUID('4', { message: 'Invalid project ID format' })
+  @IsOptional()
+  @Expose()
+  projectId?: string;
+
+  @IsNumber({}, { message: 'Limit must be a number' })
+  @Min(1, { message: 'Limit must be greater than 0' })
+  @Max(MAX_SEARCH_LIMIT, { message: `Limit must not exceed ${MAX_SEARCH_LIMIT}` })
+  @IsOptional()
+  @Type(() => Number)
+  @Expose()
+  limit?: number;
+}
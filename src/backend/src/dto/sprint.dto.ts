@@ -0,0 +1,93 @@
+/**
+ * @fileoverview Data Transfer Object (DTO) classes for project sprint operations
+ * @version 1.0.0
+ * @module dto/sprint
+ */
+
+// External imports - versions specified for security compliance
+import {
+  IsString,
+  IsDate,
+  IsUUID,
+  IsOptional,
+  IsNotEmpty,
+  Length,
+  MaxLength
+} from 'class-validator'; // ^0.14.0
+import { Expose, Transform, Type } from 'class-transformer'; // ^0.5.1
+
+// Internal imports
+import { sanitizeInput } from '../utils/validation.util';
+
+/**
+ * DTO class for planning a sprint; the end date is the last day of the sprint
+ */
+export class CreateSprintDTO {
+  @IsString({ message: 'Name must be a string' })
+  @Length(1, 100, { message: 'Name must be between 1 and 100 characters' })
+  @Transform(({ value }) => sanitizeInput(value))
+  @Expose()
+  name: string;
+
+  @IsString({ message: 'Goal must be a string' })
+  @MaxLength(1000, { message: 'Goal must not exceed 1000 characters' })
+  @Transform(({ value }) => sanitizeInput(value))
+  @IsOptional()
+  @Expose()
+  goal?: string;
+
+  @IsDate({ message: 'Invalid start date format' })
+  @Type(() => Date)
+  @IsNotEmpty({ message: 'Start date is required' })
+  @Expose()
+  startDate: Date;
+
+  @IsDate({ message: 'Invalid end date format' })
+  @Type(() => Date)
+  @IsNotEmpty({ message: 'End date is required' })
+  @Expose()
+  endDate: Date;
+}
+
+/**
+ * DTO class for changing a planned or active sprint
+ */
+export class UpdateSprintDTO {
+  @IsString({ message: 'Name must be a string' })
+  @Length(1, 100, { message: 'Name must be between 1 and 100 characters' })
+  @Transform(({ value }) => sanitizeInput(value))
+  @IsOptional()
+  @Expose()
+  name?: string;
+
+  // null clears the goal
+  @IsString({ message: 'Goal must be a string' })
+  @MaxLength(1000, { message: 'Goal must not exceed 1000 characters' })
+  @Transform(({ value }) => value === null ? null : sanitizeInput(value))
+  @IsOptional()
+  @Expose()
+  goal?: string | null;
+
+  @IsDate({ message: 'Invalid start date format' })
+  @Type(() => Date)
+  @IsOptional()
+  @Expose()
+  startDate?: Date;
+
+  @IsDate({ message: 'Invalid end date format' })
+  @Type(() => Date)
+  @IsOptional()
+  @Expose()
+  endDate?: Date;
+}
+
+/**
+ * DTO class for closing the active sprint; without rollOverTo unfinished tasks move to
+ * the earliest planned sprint, and null sends them to the backlog
+ */
+export class CloseSprintDTO {
+  @IsUUID('4', { message: 'Invalid sprint ID format' })
+  @IsOptional()
+  @Expose()
+  rollOverTo?: string | null;
+}
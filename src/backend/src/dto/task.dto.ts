@@ -16,12 +16,19 @@ import {
   IsEnum,
   IsDate,
   IsOptional,
+  IsBoolean,
+  IsObject,
+  IsArray,
   Length,
   ValidateNested,
   IsNumber,
   Min,
   Max,
-  Matches
+  Matches,
+  IsInt,
+  IsDefined,
+  ArrayMinSize,
+  ArrayMaxSize
 } from 'class-validator'; // ^0.14.0
 
 import {
@@ -31,7 +38,12 @@ import {
 } from 'class-transformer'; // ^0.5.1
 
 // Internal imports
-import { TaskStatus, TaskPriority, Task } from '../types/task.types';
+import { TaskPriority, Task } from '../types/task.types';
+import { RecurrenceRuleDTO } from './recurrence.dto';
+import { WORKFLOW_STATE_KEY_PATTERN } from '../utils/workflow.util';
+import { MAX_ESTIMATE } from '../utils/effort.util';
+import { MAX_TASK_QUERY_LENGTH } from '../utils/taskQuery.util';
+import { MAX_BULK_TASKS } from '../utils/bulk.util';
 import {
   validateUUID,
   validateTaskStatus,
@@ -82,6 +94,45 @@ export class CreateTaskDTO {
   @IsNotEmpty({ message: 'Due date is required' })
   @Expose()
   dueDate: Date;
+
+  @IsUUID('4', { message: 'Invalid parent task ID format' })
+  @IsOptional()
+  @Expose()
+  parentId?: string;
+
+  // Must be a planned or active sprint of the task's project
+  @IsUUID('4', { message: 'Invalid sprint ID format' })
+  @IsOptional()
+  @Expose()
+  sprintId?: string;
+
+  // In the project's estimation unit
+  @IsNumber({ maxDecimalPlaces: 2 }, { message: 'Original estimate must be a number' })
+  @Min(0, { message: 'Original estimate must not be negative' })
+  @Max(MAX_ESTIMATE, { message: `Original estimate must not exceed ${MAX_ESTIMATE}` })
+  @IsOptional()
+  @Expose()
+  originalEstimate?: number;
+
+  // Defaults to the original estimate
+  @IsNumber({ maxDecimalPlaces: 2 }, { message: 'Remaining estimate must be a number' })
+  @Min(0, { message: 'Remaining estimate must not be negative' })
+  @Max(MAX_ESTIMATE, { message: `Remaining estimate must not exceed ${MAX_ESTIMATE}` })
+  @IsOptional()
+  @Expose()
+  remainingEstimate?: number;
+
+  @ValidateNested()
+  @Type(() => RecurrenceRuleDTO)
+  @IsOptional()
+  @Expose()
+  recurrence?: RecurrenceRuleDTO;
+
+  // Values are validated against the project's custom fields by the task service
+  @IsObject({ message: 'Custom fields must be an object keyed by field key' })
+  @IsOptional()
+  @Expose()
+  customFields?: Record<string, unknown>;
 }
 
 /**
@@ -106,10 +157,12 @@ export class UpdateTaskDTO {
   @Transform(({ value }) => sanitizeInput(value))
   description?: string;
 
-  @IsEnum(TaskStatus, { message: 'Invalid status value' })
+  // Allowed states depend on the project's workflow and are checked by the service
+  @IsString({ message: 'Status must be a string' })
+  @Matches(WORKFLOW_STATE_KEY_PATTERN, { message: 'Invalid status value' })
   @IsOptional()
   @Expose()
-  status?: TaskStatus;
+  status?: string;
 
   @IsEnum(TaskPriority, { message: 'Invalid priority value' })
   @IsOptional()
@@ -126,6 +179,107 @@ export class UpdateTaskDTO {
   @IsOptional()
   @Expose()
   dueDate?: Date;
+
+  @IsBoolean({ message: 'overrideBlockers must be a boolean' })
+  @IsOptional()
+  @Expose()
+  overrideBlockers?: boolean;
+
+  // null moves the task back to the backlog
+  @IsUUID('4', { message: 'Invalid sprint ID format' })
+  @IsOptional()
+  @Expose()
+  sprintId?: string | null;
+
+  // null clears the estimate
+  @IsNumber({ maxDecimalPlaces: 2 }, { message: 'Original estimate must be a number' })
+  @Min(0, { message: 'Original estimate must not be negative' })
+  @Max(MAX_ESTIMATE, { message: `Original estimate must not exceed ${MAX_ESTIMATE}` })
+  @IsOptional()
+  @Expose()
+  originalEstimate?: number | null;
+
+  @IsNumber({ maxDecimalPlaces: 2 }, { message: 'Remaining estimate must be a number' })
+  @Min(0, { message: 'Remaining estimate must not be negative' })
+  @Max(MAX_ESTIMATE, { message: `Remaining estimate must not exceed ${MAX_ESTIMATE}` })
+  @IsOptional()
+  @Expose()
+  remainingEstimate?: number | null;
+
+  // null stops the series the task belongs to
+  @ValidateNested()
+  @Type(() => RecurrenceRuleDTO)
+  @IsOptional()
+  @Expose()
+  recurrence?: RecurrenceRuleDTO | null;
+
+  // Merged into the task's values; null clears a field
+  @IsObject({ message: 'Custom fields must be an object keyed by field key' })
+  @IsOptional()
+  @Expose()
+  customFields?: Record<string, unknown>;
+}
+
+/**
+ * DTO class for a task of a bulk change with the version the caller last read
+ */
+export class BulkTaskRefDTO {
+  @IsUUID('4', { message: 'Invalid task ID format' })
+  @Expose()
+  id: string;
+
+  @IsInt({ message: 'Version must be an integer' })
+  @Min(1, { message: 'Version must be greater than 0' })
+  @Expose()
+  version: number;
+}
+
+/**
+ * DTO class for the change a bulk update applies to every task
+ */
+export class BulkTaskPatchDTO {
+  // Allowed states depend on each task's workflow and are checked per task
+  @IsString({ message: 'Status must be a string' })
+  @Matches(WORKFLOW_STATE_KEY_PATTERN, { message: 'Invalid status value' })
+  @IsOptional()
+  @Expose()
+  status?: string;
+
+  @IsEnum(TaskPriority, { message: 'Invalid priority value' })
+  @IsOptional()
+  @Expose()
+  priority?: TaskPriority;
+
+  @IsUUID('4', { message: 'Invalid assignee ID format' })
+  @IsOptional()
+  @Expose()
+  assigneeId?: string;
+
+  // null clears the due date
+  @IsDate({ message: 'Invalid date format' })
+  @Type(() => Date)
+  @IsOptional()
+  @Expose()
+  dueDate?: Date | null;
+}
+
+/**
+ * DTO class for changing many tasks at once
+ */
+export class BulkUpdateTasksDTO {
+  @IsArray({ message: 'Items must be a list' })
+  @ArrayMinSize(1, { message: 'At least one task is required' })
+  @ArrayMaxSize(MAX_BULK_TASKS, { message: `At most ${MAX_BULK_TASKS} tasks can be changed at once` })
+  @ValidateNested({ each: true })
+  @Type(() => BulkTaskRefDTO)
+  @Expose()
+  items: BulkTaskRefDTO[];
+
+  @IsDefined({ message: 'Patch is required' })
+  @ValidateNested()
+  @Type(() => BulkTaskPatchDTO)
+  @Expose()
+  patch: BulkTaskPatchDTO;
 }
 
 /**
@@ -135,10 +289,11 @@ export class UpdateTaskDTO {
 @ValidateNested()
 @Transform(({ value }) => sanitizeInput(value))
 export class TaskQueryDTO {
-  @IsEnum(TaskStatus, { message: 'Invalid status value' })
+  @IsString({ message: 'Status must be a string' })
+  @Matches(WORKFLOW_STATE_KEY_PATTERN, { message: 'Invalid status value' })
   @IsOptional()
   @Expose()
-  status?: TaskStatus;
+  status?: string;
 
   @IsEnum(TaskPriority, { message: 'Invalid priority value' })
   @IsOptional()
@@ -155,6 +310,22 @@ export class TaskQueryDTO {
   @Expose()
   projectId?: string;
 
+  @IsUUID('4', { message: 'Invalid parent task ID format' })
+  @IsOptional()
+  @Expose()
+  parentId?: string;
+
+  @IsBoolean({ message: 'topLevelOnly must be a boolean' })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @Expose()
+  topLevelOnly?: boolean;
+
+  @IsUUID('4', { message: 'Invalid sprint ID format' })
+  @IsOptional()
+  @Expose()
+  sprintId?: string;
+
   @IsNumber({}, { message: 'Page must be a number' })
   @Min(1, { message: 'Page must be greater than 0' })
   @IsOptional()
@@ -188,4 +359,20 @@ export class TaskQueryDTO {
   @Transform(({ value }) => sanitizeInput(value))
   @Expose()
   search?: string;
+
+  // Task query language, e.g. `assignee = me AND due < +7d ORDER BY due`; compiled, not sanitized
+  @IsString({ message: 'Query must be a string' })
+  @IsOptional()
+  @Length(0, MAX_TASK_QUERY_LENGTH, { message: `Query must not exceed ${MAX_TASK_QUERY_LENGTH} characters` })
+  @Expose()
+  q?: string;
+
+  // Repeatable `key:operator:value` conditions on custom fields, e.g. customField=points:gte:3
+  @IsArray({ message: 'Custom field filters must be a list' })
+  @IsString({ each: true, message: 'Custom field filters must be strings' })
+  @Matches(/^[a-z][a-z0-9_]*:[a-z]+:.+$/, { each: true, message: 'Custom field filters must have the form key:operator:value' })
+  @IsOptional()
+  @Transform(({ value }) => (Array.isArray(value) ? value : [value]))
+  @Expose()
+  customField?: string[];
 }
\ No newline at end of file
@@ -0,0 +1,131 @@
+/**
+ * @fileoverview Data Transfer Object (DTO) classes for webhooks and their deliveries
+ * @version 1.0.0
+ * @module dto/webhook
+ */
+
+// External imports - versions specified for security compliance
+import {
+  IsString,
+  IsEnum,
+  IsUUID,
+  IsUrl,
+  IsArray,
+  IsBoolean,
+  IsOptional,
+  IsInt,
+  Length,
+  Min,
+  Max,
+  ArrayNotEmpty
+} from 'class-validator'; // ^0.14.0
+import { Expose, Transform, Type } from 'class-transformer'; // ^0.5.1
+
+// Internal imports
+import { WebhookDeliveryStatus, WebhookEventType } from '../types/webhook.types';
+import { sanitizeInput } from '../utils/validation.util';
+
+// Receivers on internal hosts are allowed, e.g. services in the same network
+const URL_OPTIONS = { protocols: ['http', 'https'], require_protocol: true, require_tld: false };
+
+/**
+ * DTO class for creating a webhook; without a project it receives every project's events
+ */
+export class CreateWebhookDTO {
+  @IsString({ message: 'Name must be a string' })
+  @Length(1, 100, { message: 'Name must be between 1 and 100 characters' })
+  @Transform(({ value }) => sanitizeInput(value))
+  @Expose()
+  name: string;
+
+  @IsUrl(URL_OPTIONS, { message: 'URL must be an absolute http or https URL' })
+  @Length(1, 2048, { message: 'URL must not exceed 2048 characters' })
+  @Expose()
+  url: string;
+
+  @IsArray({ message: 'Events must be a list' })
+  @ArrayNotEmpty({ message: 'Subscribe to at least one event' })
+  @IsEnum(WebhookEventType, { each: true, message: 'Invalid event type' })
+  @Expose()
+  events: WebhookEventType[];
+
+  @IsUUID('4', { message: 'Invalid project ID format' })
+  @IsOptional()
+  @Expose()
+  projectId?: string;
+
+  @IsBoolean({ message: 'Active must be a boolean' })
+  @IsOptional()
+  @Expose()
+  active?: boolean;
+}
+
+/**
+ * DTO class for updating a webhook; its project cannot be changed
+ */
+export class UpdateWebhookDTO {
+  @IsString({ message: 'Name must be a string' })
+  @Length(1, 100, { message: 'Name must be between 1 and 100 characters' })
+  @Transform(({ value }) => sanitizeInput(value))
+  @IsOptional()
+  @Expose()
+  name?: string;
+
+  @IsUrl(URL_OPTIONS, { message: 'URL must be an absolute http or https URL' })
+  @Length(1, 2048, { message: 'URL must not exceed 2048 characters' })
+  @IsOptional()
+  @Expose()
+  url?: string;
+
+  @IsArray({ message: 'Events must be a list' })
+  @ArrayNotEmpty({ message: 'Subscribe to at least one event' })
+  @IsEnum(WebhookEventType, { each: true, message: 'Invalid event type' })
+  @IsOptional()
+  @Expose()
+  events?: WebhookEventType[];
+
+  @IsBoolean({ message: 'Active must be a boolean' })
+  @IsOptional()
+  @Expose()
+  active?: boolean;
+}
+
+/**
+ * DTO class for the webhook list query
+ */
+export class WebhookQueryDTO {
+  @IsUUID('4', { message: 'Invalid project ID format' })
+  @IsOptional()
+  @Expose()
+  projectId?: string;
+}
+
+/**
+ * DTO class for delivery log query parameters
+ */
+export class WebhookDeliveryQueryDTO {
+  @IsUUID('4', { message: 'Invalid webhook ID format' })
+  @IsOptional()
+  @Expose()
+  webhookId?: string;
+
+  @IsEnum(WebhookDeliveryStatus, { message: 'Invalid delivery status' })
+  @IsOptional()
+  @Expose()
+  status?: WebhookDeliveryStatus;
+
+  @IsInt({ message: 'Page must be a number' })
+  @Min(1, { message: 'Page must be greater than 0' })
+  @IsOptional()
+  @Type(() => Number)
+  @Expose()
+  page?: number;
+
+  @IsInt({ message: 'Limit must be a number' })
+  @Min(1, { message: 'Limit must be greater than 0' })
+  @Max(100, { message: 'Limit must not exceed 100' })
+  @IsOptional()
+  @Type(() => Number)
+  @Expose()
+  limit?: number;
+}
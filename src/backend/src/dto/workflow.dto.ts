@@ -0,0 +1,97 @@
+/**
+ * @fileoverview Data Transfer Object (DTO) classes for project workflow operations
+ * @version 1.0.0
+ * @module dto/workflow
+ */
+
+// External imports - versions specified for security compliance
+import {
+  IsString,
+  IsEnum,
+  IsArray,
+  IsInt,
+  IsOptional,
+  Min,
+  Max,
+  Length,
+  Matches,
+  ArrayMinSize,
+  ArrayMaxSize,
+  ValidateNested
+} from 'class-validator'; // ^0.14.0
+import { Expose, Transform, Type } from 'class-transformer'; // ^0.5.1
+
+// Internal imports
+import { WipLimitMode, WorkflowCategory } from '../types/workflow.types';
+import { WORKFLOW_STATE_KEY_PATTERN } from '../utils/workflow.util';
+import { sanitizeInput } from '../utils/validation.util';
+
+/**
+ * DTO class for a single workflow state
+ */
+export class WorkflowStateDTO {
+  @IsString({ message: 'Key must be a string' })
+  @Matches(WORKFLOW_STATE_KEY_PATTERN, {
+    message: 'Key must start with an uppercase letter and contain only uppercase letters, digits and underscores'
+  })
+  @Expose()
+  key: string;
+
+  @IsString({ message: 'Name must be a string' })
+  @Length(1, 100, { message: 'Name must be between 1 and 100 characters' })
+  @Transform(({ value }) => sanitizeInput(value))
+  @Expose()
+  name: string;
+
+  @IsEnum(WorkflowCategory, { message: 'Category must be TODO, DOING or DONE' })
+  @Expose()
+  category: WorkflowCategory;
+
+  @IsOptional()
+  @IsInt({ message: 'WIP limit must be a whole number' })
+  @Min(1, { message: 'WIP limit must be at least 1' })
+  @Max(1000, { message: 'WIP limit must not exceed 1000' })
+  @Expose()
+  wipLimit?: number | null;
+
+  @IsOptional()
+  @IsEnum(WipLimitMode, { message: 'WIP limit mode must be SOFT or HARD' })
+  @Expose()
+  wipLimitMode?: WipLimitMode;
+}
+
+/**
+ * DTO class for a single allowed transition between state keys
+ */
+export class WorkflowTransitionDTO {
+  @IsString({ message: 'Transition source must be a state key' })
+  @Matches(WORKFLOW_STATE_KEY_PATTERN, { message: 'Transition source must be a state key' })
+  @Expose()
+  from: string;
+
+  @IsString({ message: 'Transition target must be a state key' })
+  @Matches(WORKFLOW_STATE_KEY_PATTERN, { message: 'Transition target must be a state key' })
+  @Expose()
+  to: string;
+}
+
+/**
+ * DTO class for replacing a project workflow; states are positioned in the order given
+ * and the first one is where new tasks start
+ */
+export class UpdateWorkflowDTO {
+  @IsArray({ message: 'States must be a list' })
+  @ArrayMinSize(1, { message: 'Workflow must define at least one state' })
+  @ArrayMaxSize(20, { message: 'Workflow must not define more than 20 states' })
+  @ValidateNested({ each: true })
+  @Type(() => WorkflowStateDTO)
+  @Expose()
+  states: WorkflowStateDTO[];
+
+  @IsArray({ message: 'Transitions must be a list' })
+  @ArrayMaxSize(400, { message: 'Workflow must not define more than 400 transitions' })
+  @ValidateNested({ each: true })
+  @Type(() => WorkflowTransitionDTO)
+  @Expose()
+  transitions: WorkflowTransitionDTO[];
+}
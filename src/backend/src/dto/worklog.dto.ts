@@ -0,0 +1,109 @@
+/**
+ * @fileoverview Data Transfer Object (DTO) classes for worklog, timer and timesheet operations
+ * @version 1.0.0
+ * @module dto/worklog
+ */
+
+// External imports - versions specified for security compliance
+import {
+  IsString,
+  IsDate,
+  IsUUID,
+  IsInt,
+  IsOptional,
+  IsNotEmpty,
+  Min,
+  Max,
+  MaxLength
+} from 'class-validator'; // ^0.14.0
+import { Expose, Transform, Type } from 'class-transformer'; // ^0.5.1
+
+// Internal imports
+import { sanitizeInput } from '../utils/validation.util';
+import { MAX_WORKLOG_SECONDS } from '../utils/worklog.util';
+
+/**
+ * DTO class for logging time on a task
+ */
+export class CreateWorklogDTO {
+  @IsDate({ message: 'Invalid start time format' })
+  @Type(() => Date)
+  @IsNotEmpty({ message: 'Start time is required' })
+  @Expose()
+  startedAt: Date;
+
+  @IsInt({ message: 'Duration must be a whole number of seconds' })
+  @Min(1, { message: 'Duration must be at least one second' })
+  @Max(MAX_WORKLOG_SECONDS, { message: 'Duration must not exceed 24 hours' })
+  @Type(() => Number)
+  @Expose()
+  durationSeconds: number;
+
+  @IsString({ message: 'Note must be a string' })
+  @MaxLength(1000, { message: 'Note must not exceed 1000 characters' })
+  @Transform(({ value }) => sanitizeInput(value))
+  @IsOptional()
+  @Expose()
+  note?: string;
+}
+
+/**
+ * DTO class for changing a worklog entry
+ */
+export class UpdateWorklogDTO {
+  @IsDate({ message: 'Invalid start time format' })
+  @Type(() => Date)
+  @IsOptional()
+  @Expose()
+  startedAt?: Date;
+
+  @IsInt({ message: 'Duration must be a whole number of seconds' })
+  @Min(1, { message: 'Duration must be at least one second' })
+  @Max(MAX_WORKLOG_SECONDS, { message: 'Duration must not exceed 24 hours' })
+  @Type(() => Number)
+  @IsOptional()
+  @Expose()
+  durationSeconds?: number;
+
+  // null clears the note
+  @IsString({ message: 'Note must be a string' })
+  @MaxLength(1000, { message: 'Note must not exceed 1000 characters' })
+  @Transform(({ value }) => value === null ? null : sanitizeInput(value))
+  @IsOptional()
+  @Expose()
+  note?: string | null;
+}
+
+/**
+ * DTO class for starting a timer
+ */
+export class StartTimerDTO {
+  @IsUUID('4', { message: 'Invalid task ID format' })
+  @IsNotEmpty({ message: 'Task ID is required' })
+  @Expose()
+  taskId: string;
+
+  @IsString({ message: 'Note must be a string' })
+  @MaxLength(1000, { message: 'Note must not exceed 1000 characters' })
+  @Transform(({ value }) => sanitizeInput(value))
+  @IsOptional()
+  @Expose()
+  note?: string;
+}
+
+/**
+ * DTO for timesheet query parameters; both days are inclusive
+ */
+export class TimesheetQueryDTO {
+  @IsDate({ message: 'Invalid from date format' })
+  @Type(() => Date)
+  @IsOptional()
+  @Expose()
+  from?: Date;
+
+  @IsDate({ message: 'Invalid to date format' })
+  @Type(() => Date)
+  @IsOptional()
+  @Expose()
+  to?: Date;
+}
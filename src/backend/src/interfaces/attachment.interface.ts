@@ -0,0 +1,112 @@
+/**
+ * @fileoverview Interfaces for task file attachments
+ * @version 1.0.0
+ * @module interfaces/attachment
+ */
+
+// External imports
+import { UUID } from 'crypto'; // v20.0.0+
+import { Readable } from 'stream';
+
+// Internal imports
+import { ITaskContext, Result, TaskError } from './task.interface';
+
+/**
+ * Core interface defining the structure of an attachment entity
+ */
+export interface IAttachment {
+  readonly id: UUID;
+  fileName: string;
+  fileSize: number;
+  mimeType: string;
+  taskId: UUID;
+  projectId: UUID | null;
+  uploadedBy: UUID;
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+  version: number; // For optimistic locking
+}
+
+/**
+ * File received from a multipart upload
+ */
+export interface IUploadedFile {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+/**
+ * Per-file outcome of a bulk upload
+ */
+export interface IAttachmentUploadResult {
+  successful: IAttachment[];
+  failed: Array<{
+    fileName: string;
+    error: string;
+  }>;
+}
+
+/**
+ * Attachment metadata with a decrypted content stream
+ */
+export interface IAttachmentDownload {
+  attachment: IAttachment;
+  stream: Readable;
+}
+
+/**
+ * Interface defining attachment service operations contract
+ */
+export interface IAttachmentService {
+  /**
+   * Uploads one or more files to a task, reporting failures per file
+   * @param taskId Parent task identifier
+   * @param files Uploaded files
+   * @param context Operation context
+   * @returns Successful and failed uploads or error
+   */
+  uploadAttachments(
+    taskId: UUID,
+    files: IUploadedFile[],
+    context: ITaskContext
+  ): Promise<Result<IAttachmentUploadResult, TaskError>>;
+
+  /**
+   * Lists active attachments of a task
+   * @param taskId Parent task identifier
+   * @param context Operation context
+   * @returns Attachments or error
+   */
+  getAttachments(
+    taskId: UUID,
+    context: ITaskContext
+  ): Promise<Result<IAttachment[], TaskError>>;
+
+  /**
+   * Opens a download stream for an attachment
+   * @param taskId Parent task identifier
+   * @param attachmentId Attachment identifier
+   * @param context Operation context
+   * @returns Attachment with content stream or error
+   */
+  downloadAttachment(
+    taskId: UUID,
+    attachmentId: UUID,
+    context: ITaskContext
+  ): Promise<Result<IAttachmentDownload, TaskError>>;
+
+  /**
+   * Deletes an attachment
+   * @param taskId Parent task identifier
+   * @param attachmentId Attachment identifier
+   * @param context Operation context
+   * @returns Void result or error
+   */
+  deleteAttachment(
+    taskId: UUID,
+    attachmentId: UUID,
+    context: ITaskContext
+  ): Promise<Result<void, TaskError>>;
+}
@@ -0,0 +1,103 @@
+/**
+ * @fileoverview Interfaces for personal iCalendar feeds of due dates and milestones
+ * @version 1.0.0
+ * @module interfaces/calendar
+ */
+
+// External imports
+import { UUID } from 'crypto'; // v20.0.0+
+
+// Internal imports
+import { ITaskContext, Result, TaskError } from './task.interface';
+
+/**
+ * Core interface defining the calendar feed of a user; the token is never returned
+ * after it was generated
+ */
+export interface ICalendarFeed {
+  readonly id: UUID;
+  readonly userId: UUID;
+  lastReadAt: Date | null;  // Last time a calendar app fetched the feed
+  readonly createdAt: Date; // When the current token was generated
+}
+
+/**
+ * Feed with the token just generated for it
+ */
+export interface ICalendarFeedToken {
+  feed: ICalendarFeed;
+  token: string;
+}
+
+/**
+ * Options of a feed request, read from the query of the subscribed URL
+ */
+export interface ICalendarFeedOptions {
+  projectIds?: UUID[];  // Only these projects; all of the user's projects when omitted
+  timezone: string;     // IANA zone whose days the dates fall on
+}
+
+/**
+ * Task of a feed: a task assigned to the user with a due date
+ */
+export interface ICalendarTask {
+  id: UUID;
+  title: string;
+  status: string;
+  dueDate: Date;
+  updatedAt: Date;
+  project: { id: UUID; name: string };
+}
+
+/**
+ * Project of a feed, with its start and end dates
+ */
+export interface ICalendarProject {
+  id: UUID;
+  name: string;
+  startDate: Date;
+  endDate: Date | null;
+  updatedAt: Date;
+}
+
+/**
+ * Milestone of a feed; its due date is a calendar day without a time
+ */
+export interface ICalendarMilestone {
+  id: UUID;
+  name: string;
+  dueDate: Date;
+  updatedAt: Date;
+  project: { id: UUID; name: string };
+}
+
+/**
+ * Interface defining calendar feed service operations contract
+ */
+export interface ICalendarService {
+  /**
+   * Retrieves the caller's feed
+   * @param context Operation context
+   * @returns Feed, or null when none was generated
+   */
+  getFeed(context: ITaskContext): Promise<Result<ICalendarFeed | null, TaskError>>;
+
+  /**
+   * Generates a token for the caller's feed; a previous token stops working
+   * @param context Operation context
+   */
+  regenerateFeed(context: ITaskContext): Promise<Result<ICalendarFeedToken, TaskError>>;
+
+  /**
+   * Revokes the caller's feed
+   * @param context Operation context
+   */
+  revokeFeed(context: ITaskContext): Promise<Result<void, TaskError>>;
+
+  /**
+   * Renders the feed a token belongs to as an iCalendar document
+   * @param token Feed token
+   * @param options Projects and time zone
+   */
+  renderFeed(token: string, options: ICalendarFeedOptions): Promise<Result<string, TaskError>>;
+}
@@ -0,0 +1,101 @@
+/**
+ * @fileoverview Interfaces for checklist items inside a task
+ * @version 1.0.0
+ * @module interfaces/checklist
+ */
+
+// External imports
+import { UUID } from 'crypto'; // v20.0.0+
+
+// Internal imports
+import { ITaskContext, Result, TaskError } from './task.interface';
+
+/**
+ * Core interface defining the structure of a checklist item
+ */
+export interface IChecklistItem {
+  readonly id: UUID;
+  taskId: UUID;
+  title: string;
+  isCompleted: boolean;
+  position: number;
+  completedAt: Date | null;
+  completedBy: UUID | null;
+  readonly createdBy: UUID;
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+}
+
+/**
+ * Interface for checklist item creation data transfer object
+ */
+export interface ICreateChecklistItemDTO {
+  title: string;
+  position?: number; // Appended at the end when omitted
+}
+
+/**
+ * Interface for checklist item update data transfer object
+ */
+export interface IUpdateChecklistItemDTO {
+  title?: string;
+  isCompleted?: boolean;
+  position?: number;
+}
+
+/**
+ * Interface defining checklist service operations contract
+ */
+export interface IChecklistService {
+  /**
+   * Lists checklist items of a task in display order
+   * @param taskId Task identifier
+   * @param context Operation context
+   * @returns Checklist items or error
+   */
+  getChecklist(
+    taskId: UUID,
+    context: ITaskContext
+  ): Promise<Result<IChecklistItem[], TaskError>>;
+
+  /**
+   * Adds an item to a task's checklist
+   * @param taskId Task identifier
+   * @param data Item data
+   * @param context Operation context
+   * @returns Created item or error
+   */
+  addItem(
+    taskId: UUID,
+    data: ICreateChecklistItemDTO,
+    context: ITaskContext
+  ): Promise<Result<IChecklistItem, TaskError>>;
+
+  /**
+   * Renames, reorders or checks off an item
+   * @param taskId Task identifier
+   * @param itemId Item identifier
+   * @param data Update data
+   * @param context Operation context
+   * @returns Updated item or error
+   */
+  updateItem(
+    taskId: UUID,
+    itemId: UUID,
+    data: IUpdateChecklistItemDTO,
+    context: ITaskContext
+  ): Promise<Result<IChecklistItem, TaskError>>;
+
+  /**
+   * Removes an item from a task's checklist
+   * @param taskId Task identifier
+   * @param itemId Item identifier
+   * @param context Operation context
+   * @returns Void result or error
+   */
+  removeItem(
+    taskId: UUID,
+    itemId: UUID,
+    context: ITaskContext
+  ): Promise<Result<void, TaskError>>;
+}
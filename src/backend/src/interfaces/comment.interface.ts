@@ -0,0 +1,118 @@
+/**
+ * @fileoverview Interfaces for threaded task comments
+ * @version 1.0.0
+ * @module interfaces/comment
+ */
+
+// External imports
+import { UUID } from 'crypto'; // v20.0.0+
+
+// Internal imports
+import { ITaskContext, Result, TaskError } from './task.interface';
+import { CreateCommentDTO, UpdateCommentDTO } from '../dto/comment.dto';
+
+/**
+ * Minimal author projection returned alongside comments
+ */
+export interface ICommentAuthor {
+  id: UUID;
+  name: string;
+  email: string;
+}
+
+/**
+ * Core interface defining the structure of a comment entity
+ */
+export interface IComment {
+  readonly id: UUID;
+  content: string;
+  taskId: UUID;
+  authorId: UUID;
+  parentId: UUID | null; // Only top-level comments can have replies
+  isEdited: boolean;
+  author?: ICommentAuthor;
+  replies?: IComment[];
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+  version: number; // For optimistic locking
+}
+
+/**
+ * Interface for comment query parameters
+ */
+export interface ICommentQueryParams {
+  page: number;
+  limit: number;
+  sortOrder: 'asc' | 'desc';
+}
+
+/**
+ * Interface for paginated comment response
+ * Items are top-level comments with their replies embedded
+ */
+export interface ICommentPaginatedResponse {
+  items: IComment[];
+  total: number;
+  page: number;
+  limit: number;
+  hasMore: boolean;
+}
+
+/**
+ * Interface defining comment service operations contract
+ */
+export interface ICommentService {
+  /**
+   * Creates a comment or a reply on a task
+   * @param taskId Parent task identifier
+   * @param data Comment creation data
+   * @param context Operation context
+   * @returns Created comment or error
+   */
+  createComment(
+    taskId: UUID,
+    data: CreateCommentDTO,
+    context: ITaskContext
+  ): Promise<Result<IComment, TaskError>>;
+
+  /**
+   * Updates a comment, restricted to its author
+   * @param taskId Parent task identifier
+   * @param commentId Comment identifier
+   * @param data Update data with version
+   * @param context Operation context
+   * @returns Updated comment or error
+   */
+  updateComment(
+    taskId: UUID,
+    commentId: UUID,
+    data: UpdateCommentDTO,
+    context: ITaskContext
+  ): Promise<Result<IComment, TaskError>>;
+
+  /**
+   * Deletes a comment, restricted to its author
+   * @param taskId Parent task identifier
+   * @param commentId Comment identifier
+   * @param context Operation context
+   * @returns Void result or error
+   */
+  deleteComment(
+    taskId: UUID,
+    commentId: UUID,
+    context: ITaskContext
+  ): Promise<Result<void, TaskError>>;
+
+  /**
+   * Retrieves a page of top-level comments with their replies
+   * @param taskId Parent task identifier
+   * @param params Query parameters
+   * @param context Operation context
+   * @returns Paginated comments or error
+   */
+  getComments(
+    taskId: UUID,
+    params: ICommentQueryParams,
+    context: ITaskContext
+  ): Promise<Result<ICommentPaginatedResponse, TaskError>>;
+}
@@ -130,4 +130,23 @@ export interface EmailConfig {
   
   /** Number of retry attempts for failed email sending */
   retryAttempts: number;
+
+  /** Inbound email settings */
+  inbound: {
+    /** Domain of project and reply addresses */
+    domain: string;
+    /** Secret the mail server sends along with each message; inbound email is disabled without it */
+    secret?: string;
+    /** Largest raw message accepted, in bytes */
+    maxMessageBytes: number;
+  };
+}
+
+/**
+ * Webhook configuration interface
+ * Defines the key webhook signing secrets are encrypted with at rest
+ */
+export interface WebhookConfig {
+  /** AES-256 key for stored webhook secrets */
+  secretKey: Buffer;
 }
\ No newline at end of file
@@ -0,0 +1,105 @@
+/**
+ * @fileoverview Interfaces for project-level custom task fields
+ * @version 1.0.0
+ * @module interfaces/customField
+ */
+
+// External imports
+import { UUID } from 'crypto'; // v20.0.0+
+
+// Internal imports
+import { ITaskContext, Result, TaskError } from './task.interface';
+import { CustomFieldType } from '../types/customField.types';
+
+/**
+ * Core interface defining a custom field of a project
+ */
+export interface ICustomField {
+  readonly id: UUID;
+  projectId: UUID;
+  key: string;        // Stable identifier used in task values and filters
+  name: string;       // Display name
+  type: CustomFieldType;
+  options: string[];  // Allowed values of select fields, empty for other types
+  required: boolean;  // Must be set when a task is created
+  position: number;   // Column and form order
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+  readonly createdBy: UUID;
+}
+
+/**
+ * Interface for custom field creation data transfer object
+ */
+export interface ICreateCustomFieldDTO {
+  key: string;
+  name: string;
+  type: CustomFieldType;
+  options?: string[];
+  required?: boolean;
+  position?: number;
+}
+
+/**
+ * Interface for custom field update data transfer object; the key and type are fixed
+ * once tasks may hold values for the field
+ */
+export interface IUpdateCustomFieldDTO {
+  name?: string;
+  options?: string[];
+  required?: boolean;
+  position?: number;
+}
+
+/**
+ * Interface defining custom field service operations contract
+ */
+export interface ICustomFieldService {
+  /**
+   * Lists the custom fields of a project in display order
+   * @param projectId Project identifier
+   * @param context Operation context
+   */
+  listFields(
+    projectId: UUID,
+    context: ITaskContext
+  ): Promise<Result<ICustomField[], TaskError>>;
+
+  /**
+   * Defines a new custom field on a project
+   * @param projectId Project identifier
+   * @param data Field definition
+   * @param context Operation context
+   */
+  createField(
+    projectId: UUID,
+    data: ICreateCustomFieldDTO,
+    context: ITaskContext
+  ): Promise<Result<ICustomField, TaskError>>;
+
+  /**
+   * Updates the name, options, required flag or position of a custom field
+   * @param projectId Project identifier
+   * @param fieldId Field identifier
+   * @param data Changed attributes
+   * @param context Operation context
+   */
+  updateField(
+    projectId: UUID,
+    fieldId: UUID,
+    data: IUpdateCustomFieldDTO,
+    context: ITaskContext
+  ): Promise<Result<ICustomField, TaskError>>;
+
+  /**
+   * Removes a custom field; values already stored on tasks are left in place but ignored
+   * @param projectId Project identifier
+   * @param fieldId Field identifier
+   * @param context Operation context
+   */
+  deleteField(
+    projectId: UUID,
+    fieldId: UUID,
+    context: ITaskContext
+  ): Promise<Result<void, TaskError>>;
+}
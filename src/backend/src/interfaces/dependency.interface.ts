@@ -0,0 +1,104 @@
+/**
+ * @fileoverview Interfaces for blocks/blocked-by dependencies between tasks
+ * @version 1.0.0
+ * @module interfaces/dependency
+ */
+
+// External imports
+import { UUID } from 'crypto'; // v20.0.0+
+
+// Internal imports
+import { ITaskContext, Result, TaskError } from './task.interface';
+import { CreateDependencyDTO } from '../dto/dependency.dto';
+
+/**
+ * Core interface defining a dependency link; blockerId must complete before blockedId can start
+ */
+export interface ITaskDependency {
+  readonly id: UUID;
+  blockerId: UUID;
+  blockedId: UUID;
+  readonly createdBy: UUID;
+  readonly createdAt: Date;
+}
+
+/**
+ * Minimal projection of the task on the other side of a link
+ */
+export interface IDependencyTaskSummary {
+  id: UUID;
+  title: string;
+  status: string; // Workflow state key
+}
+
+/**
+ * Dependency link with the linked task embedded
+ */
+export interface ITaskDependencyLink extends ITaskDependency {
+  task: IDependencyTaskSummary;
+}
+
+/**
+ * Both directions of a task's dependencies
+ */
+export interface ITaskDependencies {
+  blockedBy: ITaskDependencyLink[]; // Tasks that must complete first
+  blocks: ITaskDependencyLink[];    // Tasks waiting on this one
+}
+
+/**
+ * Interface defining dependency service operations contract
+ */
+export interface ITaskDependencyService {
+  /**
+   * Links two tasks, rejecting self-links, duplicates and cycles
+   * @param taskId Route task identifier
+   * @param data The other side of the link
+   * @param context Operation context
+   * @returns Created link or error
+   */
+  addDependency(
+    taskId: UUID,
+    data: CreateDependencyDTO,
+    context: ITaskContext
+  ): Promise<Result<ITaskDependency, TaskError>>;
+
+  /**
+   * Removes a link touching the task
+   * @param taskId Route task identifier
+   * @param dependencyId Link identifier
+   * @param context Operation context
+   * @returns Void result or error
+   */
+  removeDependency(
+    taskId: UUID,
+    dependencyId: UUID,
+    context: ITaskContext
+  ): Promise<Result<void, TaskError>>;
+
+  /**
+   * Lists both directions of a task's dependencies
+   * @param taskId Task identifier
+   * @param context Operation context
+   * @returns Dependencies or error
+   */
+  getDependencies(
+    taskId: UUID,
+    context: ITaskContext
+  ): Promise<Result<ITaskDependencies, TaskError>>;
+
+  /**
+   * Lists blockers of a task that are not completed yet
+   * @param taskId Task identifier
+   * @returns Open blocking tasks
+   */
+  getOpenBlockers(taskId: UUID): Promise<IDependencyTaskSummary[]>;
+
+  /**
+   * Moves BLOCKED dependents of a completed task back to TODO once nothing blocks them
+   * @param blockerId Completed task identifier
+   * @param context Operation context
+   * @returns Identifiers of released tasks
+   */
+  releaseDependents(blockerId: UUID, context: ITaskContext): Promise<UUID[]>;
+}
@@ -0,0 +1,32 @@
+/**
+ * @fileoverview Interfaces for exporting task and project lists
+ * @version 1.0.0
+ * @module interfaces/export
+ */
+
+// Internal imports
+import { ITask } from './task.interface';
+import { IProject } from './project.interface';
+
+/**
+ * Name and email of a user referenced by an exported record
+ */
+export interface IExportUser {
+  name: string;
+  email: string;
+}
+
+/**
+ * Task as read for an export, with the names its IDs stand for
+ */
+export interface ITaskExportRow extends ITask {
+  assignee: IExportUser | null;
+  project: { name: string } | null;
+}
+
+/**
+ * Project as read for an export, with its owner
+ */
+export interface IProjectExportRow extends IProject {
+  owner: IExportUser | null;
+}
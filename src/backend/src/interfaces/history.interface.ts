@@ -0,0 +1,77 @@
+/**
+ * @fileoverview Interfaces for the field-level change history of tasks and projects
+ * @version 1.0.0
+ * @module interfaces/history
+ */
+
+// External imports
+import { UUID } from 'crypto'; // v20.0.0+
+
+// Internal imports
+import { ITaskContext, Result, TaskError } from './task.interface';
+import { HistoryEntityType } from '../types/history.types';
+
+/**
+ * Core interface defining one recorded field change
+ */
+export interface IChangeHistoryEntry {
+  readonly id: UUID;
+  entityType: HistoryEntityType;
+  entityId: UUID;
+  field: string;
+  oldValue: unknown;
+  newValue: unknown;
+  version: number;           // Version of the entity produced by the change
+  correlationId: string | null;
+  changedBy: UUID | null;
+  readonly changedAt: Date;
+}
+
+/**
+ * Interface for history query parameters; entries are returned newest first
+ */
+export interface IHistoryQueryParams {
+  page: number;
+  limit: number;
+  field?: string;
+}
+
+/**
+ * Interface for paginated history responses
+ */
+export interface IHistoryPaginatedResponse {
+  items: IChangeHistoryEntry[];
+  total: number;
+  page: number;
+  limit: number;
+  hasMore: boolean;
+}
+
+/**
+ * Interface defining history service operations contract
+ */
+export interface IHistoryService {
+  /**
+   * Retrieves the change history of a task
+   * @param taskId Task identifier
+   * @param params Query parameters
+   * @param context Operation context
+   */
+  getTaskHistory(
+    taskId: UUID,
+    params: IHistoryQueryParams,
+    context: ITaskContext
+  ): Promise<Result<IHistoryPaginatedResponse, TaskError>>;
+
+  /**
+   * Retrieves the change history of a project
+   * @param projectId Project identifier
+   * @param params Query parameters
+   * @param context Operation context
+   */
+  getProjectHistory(
+    projectId: UUID,
+    params: IHistoryQueryParams,
+    context: ITaskContext
+  ): Promise<Result<IHistoryPaginatedResponse, TaskError>>;
+}
@@ -0,0 +1,145 @@
+/**
+ * @fileoverview Interfaces for importing tasks into a project from CSV and JSON files
+ * @version 1.0.0
+ * @module interfaces/import
+ */
+
+// External imports
+import { UUID } from 'crypto'; // v20.0.0+
+
+// Internal imports
+import { ITaskContext, Result, TaskError } from './task.interface';
+import { TaskImportField, TaskImportFormat, TaskImportStatus } from '../types/import.types';
+
+/**
+ * Column of the file read into each task field; unmapped fields are left empty
+ */
+export type TaskImportMapping = Partial<Record<TaskImportField, string>>;
+
+/**
+ * Row of an import file, keyed by column
+ */
+export type TaskImportRow = Record<string, string>;
+
+/**
+ * Problems found in one row, keyed by task field
+ */
+export interface ITaskImportRowError {
+  row: number;                       // 1-based position among the data rows
+  errors: Record<string, string[]>;
+}
+
+/**
+ * Core interface defining an import of a file into a project
+ */
+export interface ITaskImport {
+  readonly id: UUID;
+  projectId: UUID;
+  fileName: string;
+  format: TaskImportFormat;
+  status: TaskImportStatus;
+  columns: string[];                  // In file order
+  mapping: TaskImportMapping | null;  // Mapping of the last validation or the commit
+  totalRows: number;
+  processedRows: number;
+  createdCount: number;
+  failedCount: number;
+  errors: ITaskImportRowError[];      // Rows the commit skipped
+  startedAt: Date | null;
+  completedAt: Date | null;
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+  readonly createdBy: UUID;
+}
+
+/**
+ * Uploaded file to import
+ */
+export interface ITaskImportFile {
+  fileName: string;
+  mimeType: string;
+  content: Buffer;
+}
+
+/**
+ * Result of an upload: the import with the detected columns, a suggested mapping and
+ * the first rows to preview it with
+ */
+export interface ITaskImportUpload {
+  import: ITaskImport;
+  suggestedMapping: TaskImportMapping;
+  sampleRows: TaskImportRow[];
+}
+
+/**
+ * Interface for the mapping sent to validate or commit an import
+ */
+export interface IMapTaskImportDTO {
+  mapping: TaskImportMapping;
+}
+
+/**
+ * Result of a dry run: how many rows would be imported, and why the others would not
+ */
+export interface ITaskImportValidation {
+  validCount: number;
+  invalidCount: number;
+  errors: ITaskImportRowError[];  // Capped; invalidCount holds the full count
+}
+
+/**
+ * Interface defining import service operations contract
+ */
+export interface ITaskImportService {
+  /**
+   * Reads an uploaded file and stores its rows until the import is committed
+   * @param projectId Project identifier
+   * @param file Uploaded file
+   * @param context Operation context
+   */
+  createImport(
+    projectId: UUID,
+    file: ITaskImportFile,
+    context: ITaskContext
+  ): Promise<Result<ITaskImportUpload, TaskError>>;
+
+  /**
+   * Retrieves an import with its progress
+   * @param projectId Project identifier
+   * @param importId Import identifier
+   * @param context Operation context
+   */
+  getImport(
+    projectId: UUID,
+    importId: UUID,
+    context: ITaskContext
+  ): Promise<Result<ITaskImport, TaskError>>;
+
+  /**
+   * Maps and validates every row without creating tasks
+   * @param projectId Project identifier
+   * @param importId Import identifier
+   * @param data Column mapping
+   * @param context Operation context
+   */
+  validateImport(
+    projectId: UUID,
+    importId: UUID,
+    data: IMapTaskImportDTO,
+    context: ITaskContext
+  ): Promise<Result<ITaskImportValidation, TaskError>>;
+
+  /**
+   * Starts creating the tasks of the valid rows in the background
+   * @param projectId Project identifier
+   * @param importId Import identifier
+   * @param data Column mapping
+   * @param context Operation context
+   */
+  commitImport(
+    projectId: UUID,
+    importId: UUID,
+    data: IMapTaskImportDTO,
+    context: ITaskContext
+  ): Promise<Result<ITaskImport, TaskError>>;
+}
@@ -0,0 +1,92 @@
+/**
+ * @fileoverview Interfaces for tasks and comments created from inbound email
+ * @version 1.0.0
+ * @module interfaces/inboundEmail
+ */
+
+// External imports
+import { UUID } from 'crypto'; // v20.0.0+
+
+// Internal imports
+import { Result, TaskError } from './task.interface';
+import { InboundEmailStatus, InboundEmailAction } from '../types/inboundEmail.types';
+
+/**
+ * File attached to a received message
+ */
+export interface IInboundEmailAttachment {
+  fileName: string;
+  mimeType: string;
+  size: number;
+  content: Buffer;
+}
+
+/**
+ * Received message reduced to what tasks and comments are created from
+ */
+export interface IInboundEmailMessage {
+  messageId: string | null;      // Without angle brackets
+  from: string | null;           // Lowercased sender address
+  recipients: string[];          // Lowercased To, Cc, Delivered-To and X-Original-To addresses
+  subject: string;
+  text: string;                  // Plain-text body, converted from HTML when there is none
+  inReplyTo: string | null;
+  references: string[];
+  headers: Record<string, string>; // Lowercased header names
+  attachments: IInboundEmailAttachment[];
+}
+
+/**
+ * What a message is addressed to
+ */
+export type InboundEmailTarget =
+  | { type: 'project'; projectId: UUID }
+  | { type: 'reply'; taskId: UUID };
+
+/**
+ * Core interface defining a logged message. Messages are identified by their
+ * Message-ID, so that a message posted twice by the mail server is processed once.
+ */
+export interface IInboundEmail {
+  readonly id: UUID;
+  messageKey: string;            // Message-ID, or a hash of the raw message when it has none
+  sender: string | null;
+  subject: string;
+  status: InboundEmailStatus;
+  action: InboundEmailAction | null;
+  projectId: UUID | null;
+  taskId: UUID | null;
+  commentId: UUID | null;
+  userId: UUID | null;           // Sender's user; null when the sender is unknown
+  error: string | null;          // Why the message was rejected
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+}
+
+/**
+ * Outcome of processing a message
+ */
+export interface IInboundEmailResult {
+  id: UUID;
+  action: InboundEmailAction;
+  taskId: UUID;
+  commentId: UUID | null;
+  attachments: {
+    uploaded: number;
+    failed: Array<{ fileName: string; error: string }>;
+  };
+  duplicate: boolean;            // The message had been processed before; nothing was created
+}
+
+/**
+ * Interface defining inbound email service operations contract
+ */
+export interface IInboundEmailService {
+  /**
+   * Creates a task from a message sent to a project address, or a comment from a reply
+   * to a notification email
+   * @param raw Raw RFC 822 message
+   * @param correlationId Request correlation identifier
+   */
+  receive(raw: Buffer, correlationId: string): Promise<Result<IInboundEmailResult, TaskError>>;
+}
@@ -13,15 +13,164 @@ export {
   ISessionService
 } from './auth.interface';
 
+// Attachment interfaces
+export {
+  IAttachment,
+  IAttachmentService,
+  IAttachmentDownload,
+  IAttachmentUploadResult,
+  IUploadedFile
+} from './attachment.interface';
+
+// Calendar interfaces
+export {
+  ICalendarFeed,
+  ICalendarFeedToken,
+  ICalendarFeedOptions,
+  ICalendarService
+} from './calendar.interface';
+
+// Checklist interfaces
+export {
+  IChecklistItem,
+  IChecklistService,
+  ICreateChecklistItemDTO,
+  IUpdateChecklistItemDTO
+} from './checklist.interface';
+
+// Comment interfaces
+export {
+  IComment,
+  ICommentService,
+  ICommentQueryParams,
+  ICommentPaginatedResponse
+} from './comment.interface';
+
+// Custom field interfaces
+export {
+  ICustomField,
+  ICreateCustomFieldDTO,
+  IUpdateCustomFieldDTO,
+  ICustomFieldService
+} from './customField.interface';
+
+// Task dependency interfaces
+export {
+  ITaskDependency,
+  ITaskDependencyLink,
+  ITaskDependencies,
+  ITaskDependencyService,
+  IDependencyTaskSummary
+} from './dependency.interface';
+
+// Export interfaces
+export {
+  IExportUser,
+  ITaskExportRow,
+  IProjectExportRow
+} from './export.interface';
+
+// Change history interfaces
+export {
+  IChangeHistoryEntry,
+  IHistoryQueryParams,
+  IHistoryPaginatedResponse,
+  IHistoryService
+} from './history.interface';
+
+// Task import interfaces
+export {
+  ITaskImport,
+  ITaskImportFile,
+  ITaskImportUpload,
+  ITaskImportRowError,
+  ITaskImportValidation,
+  IMapTaskImportDTO,
+  ITaskImportService,
+  TaskImportMapping,
+  TaskImportRow
+} from './import.interface';
+
+// Inbound email interfaces
+export {
+  IInboundEmail,
+  IInboundEmailAttachment,
+  IInboundEmailMessage,
+  IInboundEmailResult,
+  IInboundEmailService,
+  InboundEmailTarget
+} from './inboundEmail.interface';
+
+// Project membership interfaces
+export {
+  IProjectMember,
+  IAddProjectMemberDTO,
+  IMembershipService
+} from './membership.interface';
+
+// Project milestone interfaces
+export {
+  IMilestone,
+  ICreateMilestoneDTO,
+  IUpdateMilestoneDTO,
+  IMilestoneService
+} from './milestone.interface';
+
+// Notification interfaces
+export {
+  INotification,
+  ICreateNotificationDTO,
+  ITaskNotificationChange,
+  INotificationQueryParams,
+  INotificationPaginatedResponse,
+  INotificationService,
+  NotificationComment,
+  NotificationTask
+} from './notification.interface';
+
+// Permission interfaces
+export {
+  IRolePermissions,
+  IEffectivePermissions,
+  IUpdateRolePermissionsDTO,
+  IPermissionService
+} from './permission.interface';
+
 // Project management interfaces
 export {
   IProject,
   IProjectService,
   ICreateProjectDTO,
   IUpdateProjectDTO,
-  IProjectQueryParams
+  IProjectQueryParams,
+  IProjectCompletion,
+  IEffortTotals,
+  IProjectEffort
 } from './project.interface';
 
+// Recurring task interfaces
+export {
+  ITaskRecurrence,
+  IRecurrenceRuleDTO,
+  IRecurrenceService
+} from './recurrence.interface';
+
+// Saved task view interfaces
+export {
+  ISavedView,
+  ICreateSavedViewDTO,
+  IUpdateSavedViewDTO,
+  ISavedViewService
+} from './savedView.interface';
+
+// Full-text search interfaces
+export {
+  ISearchHit,
+  ISearchQueryDTO,
+  ISearchResult,
+  ISearchService
+} from './search.interface';
+
 // Task management interfaces
 export {
   ITask,
@@ -31,11 +180,27 @@ export {
   ITaskQueryParams,
   ITaskContext,
   ITaskPaginatedResponse,
+  IBulkTaskRef,
+  IBulkUpdateTasksDTO,
+  IBulkTaskResult,
+  IBulkUpdateResult,
+  ITaskProgress,
   ITaskTelemetry,
   Result,
   TaskError
 } from './task.interface';
 
+// Sprint interfaces
+export {
+  ISprint,
+  ICreateSprintDTO,
+  IUpdateSprintDTO,
+  ICloseSprintDTO,
+  ISprintCloseResult,
+  ISprintBurndown,
+  ISprintService
+} from './sprint.interface';
+
 // User management interfaces
 export {
   IUser,
@@ -43,6 +208,39 @@ export {
   IUserRepository
 } from './user.interface';
 
+// Webhook interfaces
+export {
+  IWebhook,
+  IWebhookSecret,
+  ICreateWebhookDTO,
+  IUpdateWebhookDTO,
+  IWebhookEvent,
+  IWebhookDelivery,
+  IWebhookDeliveryQueryParams,
+  IWebhookDeliveryPaginatedResponse,
+  IWebhookService
+} from './webhook.interface';
+
+// Workflow interfaces
+export {
+  IWorkflow,
+  IWorkflowState,
+  IUpdateWorkflowDTO,
+  IWorkflowService
+} from './workflow.interface';
+
+// Time tracking interfaces
+export {
+  IWorklog,
+  ITimer,
+  ICreateWorklogDTO,
+  IUpdateWorklogDTO,
+  IStartTimerDTO,
+  ITimesheetQuery,
+  ITimerStartResult,
+  IWorklogService
+} from './worklog.interface';
+
 // Configuration interfaces
 export {
   AuthConfig,
@@ -59,9 +257,30 @@ export {
  * 
  * The exported interfaces cover the following major areas:
  * - Authentication and Authorization (auth.interface.ts)
+ * - Task Attachments (attachment.interface.ts)
+ * - Calendar Feeds (calendar.interface.ts)
+ * - Task Checklists (checklist.interface.ts)
+ * - Task Comments (comment.interface.ts)
+ * - Custom Fields (customField.interface.ts)
+ * - Task Dependencies (dependency.interface.ts)
+ * - List Exports (export.interface.ts)
+ * - Change History (history.interface.ts)
+ * - Task Imports (import.interface.ts)
+ * - Inbound Email (inboundEmail.interface.ts)
+ * - Project Membership (membership.interface.ts)
+ * - Project Milestones (milestone.interface.ts)
+ * - In-App Notifications (notification.interface.ts)
+ * - Permissions (permission.interface.ts)
  * - Project Management (project.interface.ts)
+ * - Recurring Tasks (recurrence.interface.ts)
+ * - Saved Task Views (savedView.interface.ts)
+ * - Full-Text Search (search.interface.ts)
+ * - Sprints and Burndown (sprint.interface.ts)
  * - Task Management (task.interface.ts)
  * - User Management (user.interface.ts)
+ * - Outbound Webhooks (webhook.interface.ts)
+ * - Task Workflows (workflow.interface.ts)
+ * - Time Tracking (worklog.interface.ts)
  * - System Configuration (config.interface.ts)
  * 
  * Version compatibility:
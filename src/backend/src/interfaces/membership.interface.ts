@@ -0,0 +1,90 @@
+/**
+ * @fileoverview Interfaces for project membership and per-project roles
+ * @version 1.0.0
+ * @module interfaces/membership
+ */
+
+// External imports
+import { UUID } from 'crypto'; // v20.0.0+
+
+// Internal imports
+import { ITaskContext, Result, TaskError } from './task.interface';
+import { ProjectRole } from '../types/project.types';
+
+/**
+ * Core interface defining a user's membership in a project
+ */
+export interface IProjectMember {
+  readonly id: UUID;
+  projectId: UUID;
+  userId: UUID;
+  role: ProjectRole;
+  addedBy: UUID | null;
+  readonly joinedAt: Date;
+  user?: {
+    id: UUID;
+    name: string;
+    email: string;
+  };
+}
+
+/**
+ * Interface for adding a member, or changing the role of an existing one
+ */
+export interface IAddProjectMemberDTO {
+  userId: UUID;
+  role: ProjectRole;
+}
+
+/**
+ * Interface defining membership service operations contract
+ */
+export interface IMembershipService {
+  /**
+   * Lists the current members of a project
+   * @param projectId Project identifier
+   * @param context Operation context
+   */
+  listMembers(
+    projectId: UUID,
+    context: ITaskContext
+  ): Promise<Result<IProjectMember[], TaskError>>;
+
+  /**
+   * Adds a member to a project, or updates the role of an existing member
+   * @param projectId Project identifier
+   * @param data Member and role
+   * @param context Operation context
+   */
+  addMember(
+    projectId: UUID,
+    data: IAddProjectMemberDTO,
+    context: ITaskContext
+  ): Promise<Result<IProjectMember, TaskError>>;
+
+  /**
+   * Removes a member from a project
+   * @param projectId Project identifier
+   * @param userId Member to remove
+   * @param context Operation context
+   */
+  removeMember(
+    projectId: UUID,
+    userId: UUID,
+    context: ITaskContext
+  ): Promise<Result<void, TaskError>>;
+
+  /**
+   * Resolves the projects the caller may see; null when access is not limited by membership
+   * @param context Operation context
+   */
+  getAccessibleProjectIds(context: ITaskContext): Promise<UUID[] | null>;
+
+  /**
+   * Checks that the caller holds at least the given role in a project
+   * @param projectId Project identifier
+   * @param required Minimum project role
+   * @param context Operation context
+   */
+  hasAccess(projectId: UUID, required: ProjectRole, context: ITaskContext): Promise<boolean>;
+}
@@ -0,0 +1,123 @@
+/**
+ * @fileoverview Interfaces for project milestones and the tasks linked to them
+ * @version 1.0.0
+ * @module interfaces/milestone
+ */
+
+// External imports
+import { UUID } from 'crypto'; // v20.0.0+
+
+// Internal imports
+import { ITaskContext, Result, TaskError } from './task.interface';
+import { MilestoneStatus } from '../types/milestone.types';
+
+/**
+ * Core interface defining a milestone of a project
+ */
+export interface IMilestone {
+  readonly id: UUID;
+  projectId: UUID;
+  name: string;
+  description: string | null;
+  dueDate: Date;                 // Day the milestone is due, inclusive
+  status: MilestoneStatus;       // Derived from the date and linked tasks
+  statusChangedAt: Date | null;
+  taskIds: UUID[];               // Linked tasks
+  taskCount: number;             // Active linked tasks
+  completedCount: number;        // Of which in a DONE state
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+  readonly createdBy: UUID;
+}
+
+/**
+ * Interface for milestone creation data transfer object
+ */
+export interface ICreateMilestoneDTO {
+  name: string;
+  description?: string;
+  dueDate: Date;
+  taskIds?: UUID[];
+}
+
+/**
+ * Interface for milestone update data transfer object; taskIds replaces the linked tasks
+ */
+export interface IUpdateMilestoneDTO {
+  name?: string;
+  description?: string | null;
+  dueDate?: Date;
+  taskIds?: UUID[];
+}
+
+/**
+ * Interface defining milestone service operations contract
+ */
+export interface IMilestoneService {
+  /**
+   * Lists the milestones of a project by date
+   * @param projectId Project identifier
+   * @param context Operation context
+   */
+  listMilestones(
+    projectId: UUID,
+    context: ITaskContext
+  ): Promise<Result<IMilestone[], TaskError>>;
+
+  /**
+   * Retrieves a milestone of a project
+   * @param projectId Project identifier
+   * @param milestoneId Milestone identifier
+   * @param context Operation context
+   */
+  getMilestone(
+    projectId: UUID,
+    milestoneId: UUID,
+    context: ITaskContext
+  ): Promise<Result<IMilestone, TaskError>>;
+
+  /**
+   * Creates a milestone
+   * @param projectId Project identifier
+   * @param data Milestone attributes
+   * @param context Operation context
+   */
+  createMilestone(
+    projectId: UUID,
+    data: ICreateMilestoneDTO,
+    context: ITaskContext
+  ): Promise<Result<IMilestone, TaskError>>;
+
+  /**
+   * Changes a milestone or replaces its linked tasks
+   * @param projectId Project identifier
+   * @param milestoneId Milestone identifier
+   * @param data Changed attributes
+   * @param context Operation context
+   */
+  updateMilestone(
+    projectId: UUID,
+    milestoneId: UUID,
+    data: IUpdateMilestoneDTO,
+    context: ITaskContext
+  ): Promise<Result<IMilestone, TaskError>>;
+
+  /**
+   * Removes a milestone; linked tasks are kept
+   * @param projectId Project identifier
+   * @param milestoneId Milestone identifier
+   * @param context Operation context
+   */
+  deleteMilestone(
+    projectId: UUID,
+    milestoneId: UUID,
+    context: ITaskContext
+  ): Promise<Result<void, TaskError>>;
+
+  /**
+   * Recomputes the status of the milestones a task is linked to
+   * @param taskId Task identifier
+   * @param context Operation context
+   */
+  refreshTaskMilestones(taskId: UUID, context: ITaskContext): Promise<void>;
+}
@@ -0,0 +1,146 @@
+/**
+ * @fileoverview Interfaces for persisted in-app notifications and their read state
+ * @version 1.0.0
+ * @module interfaces/notification
+ */
+
+// External imports
+import { UUID } from 'crypto'; // v20.0.0+
+
+// Internal imports
+import { ITask, ITaskContext, Result, TaskError } from './task.interface';
+import { IComment } from './comment.interface';
+import { NotificationType } from '../types/notification.types';
+
+/**
+ * Core interface defining a notification kept for its recipient until it is read
+ */
+export interface INotification {
+  readonly id: UUID;
+  userId: UUID;                  // Recipient
+  type: NotificationType;
+  title: string;                 // Title of the task the notification is about
+  message: string;               // What happened, e.g. the new status or a comment excerpt
+  taskId: UUID | null;
+  projectId: UUID | null;
+  commentId: UUID | null;
+  actorId: UUID | null;          // User whose change caused the notification; null for reminders
+  readAt: Date | null;
+  readonly createdAt: Date;
+}
+
+/**
+ * Interface for notification creation data transfer object
+ */
+export interface ICreateNotificationDTO {
+  userId: UUID;
+  type: NotificationType;
+  title: string;
+  message: string;
+  taskId?: UUID;
+  projectId?: UUID;
+  commentId?: UUID;
+  actorId?: UUID;
+  dedupeKey?: string;            // A recipient gets one notification per key, e.g. per due date
+}
+
+/**
+ * Change of a task that its assignee and creator are told about
+ */
+export interface ITaskNotificationChange {
+  assigned: boolean;             // The task was given a new assignee
+  status?: {                     // Names of the workflow states of a status change
+    from: string;
+    to: string;
+  };
+}
+
+/**
+ * Task fields notifications are built from
+ */
+export type NotificationTask = Pick<ITask, 'id' | 'title' | 'projectId' | 'assigneeId' | 'createdBy'>;
+
+/**
+ * Comment fields notifications are built from
+ */
+export type NotificationComment = Pick<IComment, 'id' | 'taskId' | 'authorId' | 'content'>;
+
+/**
+ * Interface for notification list query parameters
+ */
+export interface INotificationQueryParams {
+  unreadOnly?: boolean;
+  page: number;
+  limit: number;
+}
+
+/**
+ * Interface for paginated notification list response
+ */
+export interface INotificationPaginatedResponse {
+  items: INotification[];
+  total: number;
+  page: number;
+  limit: number;
+  hasMore: boolean;
+  unreadCount: number;           // Across all of the caller's notifications, for the bell
+}
+
+/**
+ * Interface defining notification service operations contract
+ */
+export interface INotificationService {
+  /**
+   * Lists the caller's notifications, newest first
+   * @param params Filter and pagination parameters
+   * @param context Operation context
+   */
+  listNotifications(
+    params: INotificationQueryParams,
+    context: ITaskContext
+  ): Promise<Result<INotificationPaginatedResponse, TaskError>>;
+
+  /**
+   * Marks one of the caller's notifications as read
+   * @param notificationId Notification identifier
+   * @param context Operation context
+   */
+  markRead(notificationId: UUID, context: ITaskContext): Promise<Result<INotification, TaskError>>;
+
+  /**
+   * Marks all of the caller's notifications as read
+   * @param context Operation context
+   */
+  markAllRead(context: ITaskContext): Promise<Result<{ updated: number }, TaskError>>;
+
+  /**
+   * Stores notifications for the recipients that can see their project and pushes them
+   * over WebSocket; never fails the caller's operation
+   * @param notifications Notifications to create
+   */
+  notify(notifications: ICreateNotificationDTO[]): Promise<void>;
+
+  /**
+   * Tells the assignee and creator of a task about its assignment or status change
+   * @param task Task after the change
+   * @param change What changed
+   * @param actorId User who made the change
+   */
+  notifyTaskChange(task: NotificationTask, change: ITaskNotificationChange, actorId: UUID): Promise<void>;
+
+  /**
+   * Tells the users mentioned in a comment, and the author of the comment it replies to
+   * @param comment Created comment
+   * @param mentions Mentioned users
+   * @param parentAuthorId Author of the parent comment of a reply
+   */
+  notifyComment(comment: NotificationComment, mentions: UUID[], parentAuthorId: UUID | null): Promise<void>;
+
+  /**
+   * Reminds assignees of the open tasks that become due within the reminder window,
+   * once per due date
+   * @param now Current time
+   * @returns Number of reminders sent
+   */
+  notifyDueSoon(now?: Date): Promise<number>;
+}
@@ -0,0 +1,77 @@
+/**
+ * @fileoverview Interfaces for the permission registry and role to permission mapping
+ * @version 1.0.0
+ * @module interfaces/permission
+ */
+
+// External imports
+import { UUID } from 'crypto'; // v20.0.0+
+
+// Internal imports
+import { ITaskContext, Result, TaskError } from './task.interface';
+import { Permission, PermissionDefinition, RolePermissionMap } from '../types/permission.types';
+import { UserRole } from '../types/user.types';
+
+/**
+ * Interface describing the permissions granted to a single role
+ */
+export interface IRolePermissions {
+  role: UserRole;
+  permissions: Permission[];
+}
+
+/**
+ * Interface describing what the caller may do, used by clients to hide actions
+ */
+export interface IEffectivePermissions {
+  userId: UUID;
+  role: UserRole;
+  permissions: Permission[];
+}
+
+/**
+ * Interface for replacing the permissions of a role
+ */
+export interface IUpdateRolePermissionsDTO {
+  permissions: Permission[];
+}
+
+/**
+ * Interface defining permission service operations contract
+ */
+export interface IPermissionService {
+  /**
+   * Lists every registered permission
+   */
+  listDefinitions(): Result<readonly PermissionDefinition[], TaskError>;
+
+  /**
+   * Retrieves the permissions granted to every role
+   * @param context Operation context
+   */
+  getRolePermissions(context: ITaskContext): Promise<Result<RolePermissionMap, TaskError>>;
+
+  /**
+   * Replaces the permissions granted to a role
+   * @param role Role to update
+   * @param data New permission set
+   * @param context Operation context
+   */
+  setRolePermissions(
+    role: UserRole,
+    data: IUpdateRolePermissionsDTO,
+    context: ITaskContext
+  ): Promise<Result<IRolePermissions, TaskError>>;
+
+  /**
+   * Resolves the caller's effective permissions
+   * @param context Operation context
+   */
+  getEffectivePermissions(context: ITaskContext): Promise<Result<IEffectivePermissions, TaskError>>;
+
+  /**
+   * Resolves the permissions granted to a role; used by the route guards
+   * @param role Role to resolve
+   */
+  getPermissionsForRole(role: UserRole): Promise<Permission[]>;
+}
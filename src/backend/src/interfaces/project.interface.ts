@@ -8,7 +8,7 @@
 import { UUID } from 'crypto'; // v20.0.0+
 
 // Internal imports
-import { ProjectStatus, ProjectPriority } from '../types/project.types';
+import { ProjectStatus, ProjectPriority, EstimationUnit } from '../types/project.types';
 
 /**
  * Core interface defining the structure of a project entity with validation constraints
@@ -66,6 +66,12 @@ export interface IProject {
    * @maxItems 100
    */
   teamMembers: UUID[];
+
+  /**
+   * Unit of the estimates of its tasks
+   * @see EstimationUnit enum
+   */
+  estimationUnit: EstimationUnit;
   
   /**
    * Project creation timestamp
@@ -78,6 +84,120 @@ export interface IProject {
    * @readonly
    */
   updatedAt: Date;
+
+  /**
+   * Completion computed from task progress on read
+   * @optional
+   */
+  completion?: IProjectCompletion;
+
+  /**
+   * Address messages are sent to for creating tasks in the project; only present on
+   * single-project responses
+   * @optional
+   */
+  inboundEmailAddress?: string;
+}
+
+/**
+ * Project completion rolled up from its tasks
+ */
+export interface IProjectCompletion {
+  /**
+   * Average progress of top-level tasks, counting subtasks and checklist items
+   * @minimum 0
+   * @maximum 100
+   */
+  percentage: number;
+
+  /**
+   * Number of top-level tasks
+   */
+  totalTasks: number;
+
+  /**
+   * Number of top-level tasks in DONE
+   */
+  completedTasks: number;
+
+  /**
+   * Average progress of top-level tasks weighted by their original estimates;
+   * null when no top-level task is estimated
+   * @minimum 0
+   * @maximum 100
+   */
+  effortPercentage: number | null;
+}
+
+/**
+ * Effort totals of a group of tasks, in the project's estimation unit
+ */
+export interface IEffortTotals {
+  /**
+   * Number of tasks in the group
+   */
+  taskCount: number;
+
+  /**
+   * Number of tasks with an original estimate
+   */
+  estimatedCount: number;
+
+  /**
+   * Sum of original estimates
+   */
+  originalEstimate: number;
+
+  /**
+   * Sum of remaining estimates; done tasks have nothing left
+   */
+  remainingEstimate: number;
+
+  /**
+   * Time logged on the tasks, in hours
+   */
+  loggedHours: number;
+
+  /**
+   * Number of tasks in DONE
+   */
+  completedCount: number;
+
+  /**
+   * Sum of original estimates of done tasks
+   */
+  completedEstimate: number;
+
+  /**
+   * Time logged on done tasks, in hours; compared with completedEstimate
+   * for estimated vs actual
+   */
+  completedLoggedHours: number;
+}
+
+/**
+ * Effort rolled up across a project and per assignee and sprint
+ */
+export interface IProjectEffort {
+  /**
+   * Unit of the estimates
+   */
+  unit: EstimationUnit;
+
+  /**
+   * Totals of all tasks of the project
+   */
+  totals: IEffortTotals;
+
+  /**
+   * Totals per assignee, largest original estimate first
+   */
+  byAssignee: Array<IEffortTotals & { assigneeId: UUID | null }>;
+
+  /**
+   * Totals per sprint, with null for the backlog
+   */
+  bySprint: Array<IEffortTotals & { sprintId: UUID | null }>;
 }
 
 /**
@@ -91,6 +211,7 @@ export interface ICreateProjectDTO {
   startDate: Date;
   endDate: Date;
   teamMembers: UUID[];
+  estimationUnit?: EstimationUnit;
 }
 
 /**
@@ -105,6 +226,7 @@ export interface IUpdateProjectDTO {
   startDate?: Date;
   endDate?: Date;
   teamMembers?: UUID[];
+  estimationUnit?: EstimationUnit;
 }
 
 /**
@@ -135,6 +257,18 @@ export interface IProjectService {
    * @throws {UnauthorizedError} When user lacks permissions
    */
   getProjectById(id: UUID): Promise<IProject>;
+
+  /**
+   * Computes completion from task progress, counting subtasks and checklist items
+   * @throws {DatabaseError} When database operation fails
+   */
+  getProjectCompletion(id: UUID): Promise<IProjectCompletion>;
+
+  /**
+   * Rolls up task estimates and logged time per project, assignee and sprint
+   * @throws {DatabaseError} When database operation fails
+   */
+  getProjectEffort(id: UUID): Promise<IProjectEffort>;
   
   /**
    * Deletes a project by ID
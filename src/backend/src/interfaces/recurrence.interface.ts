@@ -0,0 +1,113 @@
+/**
+ * @fileoverview Interfaces for recurring tasks
+ * @version 1.0.0
+ * @module interfaces/recurrence
+ */
+
+// External imports
+import { UUID } from 'crypto'; // v20.0.0+
+
+// Internal imports
+import { ITaskContext, ITask, Result, TaskError } from './task.interface';
+import { RecurrenceFrequency, RecurrenceTrigger } from '../types/task.types';
+
+/**
+ * Core interface defining a recurrence rule; each occurrence is a regular task
+ * referencing the rule through `recurrenceId`
+ */
+export interface ITaskRecurrence {
+  readonly id: UUID;
+  frequency: RecurrenceFrequency;
+  interval: number;
+  byWeekday: number[];       // 0 = Sunday ... 6 = Saturday
+  byMonthDay: number | null;
+  rrule: string | null;      // Source of CUSTOM rules
+  businessDaysOnly: boolean;
+  generateOn: RecurrenceTrigger;
+  endDate: Date | null;
+  count: number | null;      // Total occurrences including the first
+  occurrenceCount: number;
+  nextOccurrenceAt: Date | null; // Due date of the next occurrence; null once ended
+  isActive: boolean;
+  lastTaskId: UUID;          // Most recent occurrence
+  readonly createdBy: UUID;
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+}
+
+/**
+ * Interface for recurrence rule input, used both standalone and embedded in task DTOs
+ */
+export interface IRecurrenceRuleDTO {
+  frequency: RecurrenceFrequency;
+  interval?: number;
+  byWeekday?: number[];
+  byMonthDay?: number;
+  rrule?: string;            // Required for CUSTOM; COUNT and UNTIL map to count and endDate
+  businessDaysOnly?: boolean;
+  generateOn?: RecurrenceTrigger;
+  endDate?: Date;
+  count?: number;
+}
+
+/**
+ * Interface defining recurrence service operations contract
+ */
+export interface IRecurrenceService {
+  /**
+   * Retrieves the rule a task belongs to
+   * @param taskId Task identifier
+   * @param context Operation context
+   * @returns Rule, null if the task does not repeat, or error
+   */
+  getRule(
+    taskId: UUID,
+    context: ITaskContext
+  ): Promise<Result<ITaskRecurrence | null, TaskError>>;
+
+  /**
+   * Makes a task repeat, or replaces the rule of the series it belongs to
+   * @param taskId Task identifier
+   * @param data Rule data
+   * @param context Operation context
+   * @returns Saved rule or error
+   */
+  setRule(
+    taskId: UUID,
+    data: IRecurrenceRuleDTO,
+    context: ITaskContext
+  ): Promise<Result<ITaskRecurrence, TaskError>>;
+
+  /**
+   * Stops a series; existing occurrences are kept
+   * @param taskId Task identifier
+   * @param context Operation context
+   * @returns Void result or error
+   */
+  removeRule(
+    taskId: UUID,
+    context: ITaskContext
+  ): Promise<Result<void, TaskError>>;
+
+  /**
+   * Checks a rule without saving it
+   * @param data Rule data
+   * @returns Validation error or null
+   */
+  validateRule(data: IRecurrenceRuleDTO): TaskError | null;
+
+  /**
+   * Creates the next occurrence after the latest occurrence of a COMPLETION series is done
+   * @param task Completed task
+   * @param context Operation context
+   * @returns Created occurrence, or null if none was due
+   */
+  handleTaskCompleted(task: ITask, context: ITaskContext): Promise<ITask | null>;
+
+  /**
+   * Creates the occurrences of SCHEDULE series that are about to become due
+   * @param now Reference time
+   * @returns Number of occurrences created
+   */
+  materializeScheduled(now?: Date): Promise<number>;
+}
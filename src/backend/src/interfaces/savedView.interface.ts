@@ -0,0 +1,136 @@
+/**
+ * @fileoverview Interfaces for saved task views and their pins
+ * @version 1.0.0
+ * @module interfaces/savedView
+ */
+
+// External imports
+import { UUID } from 'crypto'; // v20.0.0+
+
+// Internal imports
+import { ITaskContext, Result, TaskError } from './task.interface';
+import {
+  SavedViewVisibility,
+  SavedViewLayout,
+  SavedViewGrouping,
+  SavedViewFilters
+} from '../types/savedView.types';
+
+/**
+ * Core interface defining a named task list or board configuration
+ */
+export interface ISavedView {
+  readonly id: UUID;
+  ownerId: UUID;
+  projectId: UUID | null;        // Null for views spanning the owner's projects
+  name: string;
+  visibility: SavedViewVisibility;
+  layout: SavedViewLayout;
+  filters: SavedViewFilters;
+  sortBy: string;
+  sortOrder: 'asc' | 'desc';
+  groupBy: SavedViewGrouping;
+  columns: string[];             // Visible list columns, in order; empty for the defaults
+  pinned: boolean;               // Pinned by the caller
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+}
+
+/**
+ * Interface for saved view creation data transfer object
+ */
+export interface ICreateSavedViewDTO {
+  name: string;
+  projectId?: UUID;
+  visibility?: SavedViewVisibility;
+  layout?: SavedViewLayout;
+  filters?: SavedViewFilters;
+  sortBy?: string;
+  sortOrder?: 'asc' | 'desc';
+  groupBy?: SavedViewGrouping;
+  columns?: string[];
+}
+
+/**
+ * Interface for saved view update data transfer object; a view keeps its project
+ */
+export interface IUpdateSavedViewDTO {
+  name?: string;
+  visibility?: SavedViewVisibility;
+  layout?: SavedViewLayout;
+  filters?: SavedViewFilters;
+  sortBy?: string;
+  sortOrder?: 'asc' | 'desc';
+  groupBy?: SavedViewGrouping;
+  columns?: string[];
+}
+
+/**
+ * Interface defining saved view service operations contract
+ */
+export interface ISavedViewService {
+  /**
+   * Lists the views the caller can open: their own, plus the shared views of the
+   * project when one is given
+   * @param projectId Project whose views to list; the caller's own views when omitted
+   * @param context Operation context
+   */
+  listViews(
+    projectId: UUID | undefined,
+    context: ITaskContext
+  ): Promise<Result<ISavedView[], TaskError>>;
+
+  /**
+   * Lists the views the caller pinned, in pin order
+   * @param context Operation context
+   */
+  listPinnedViews(context: ITaskContext): Promise<Result<ISavedView[], TaskError>>;
+
+  /**
+   * Retrieves a view the caller can open
+   * @param viewId View identifier
+   * @param context Operation context
+   */
+  getView(viewId: UUID, context: ITaskContext): Promise<Result<ISavedView, TaskError>>;
+
+  /**
+   * Saves a view owned by the caller
+   * @param data View attributes
+   * @param context Operation context
+   */
+  createView(
+    data: ICreateSavedViewDTO,
+    context: ITaskContext
+  ): Promise<Result<ISavedView, TaskError>>;
+
+  /**
+   * Changes a view
+   * @param viewId View identifier
+   * @param data Changed attributes
+   * @param context Operation context
+   */
+  updateView(
+    viewId: UUID,
+    data: IUpdateSavedViewDTO,
+    context: ITaskContext
+  ): Promise<Result<ISavedView, TaskError>>;
+
+  /**
+   * Removes a view along with every user's pin of it
+   * @param viewId View identifier
+   * @param context Operation context
+   */
+  deleteView(viewId: UUID, context: ITaskContext): Promise<Result<void, TaskError>>;
+
+  /**
+   * Pins or unpins a view for the caller
+   * @param viewId View identifier
+   * @param pinned Whether the view should be pinned
+   * @param context Operation context
+   */
+  setPinned(
+    viewId: UUID,
+    pinned: boolean,
+    context: ITaskContext
+  ): Promise<Result<ISavedView, TaskError>>;
+}
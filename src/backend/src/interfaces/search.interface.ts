@@ -0,0 +1,57 @@
+/**
+ * @fileoverview Interfaces for full-text search across tasks, comments and projects
+ * @version 1.0.0
+ * @module interfaces/search
+ */
+
+// External imports
+import { UUID } from 'crypto'; // v20.0.0+
+
+// Internal imports
+import { ITaskContext, Result, TaskError } from './task.interface';
+import { SearchFacets, SearchResultType } from '../types/search.types';
+
+/**
+ * Core interface defining a search result
+ */
+export interface ISearchHit {
+  type: SearchResultType;
+  id: UUID;                      // Task, comment or project identifier
+  title: string;                 // Task title, title of the commented task, or project name
+  highlight: string;             // Matching text with matched terms in <mark> tags
+  rank: number;                  // Relevance, higher first
+  projectId: UUID;
+  projectName: string;
+  taskId: UUID | null;           // Commented task; null for tasks and projects
+}
+
+/**
+ * Interface for search query data transfer object
+ */
+export interface ISearchQueryDTO {
+  q: string;
+  types?: SearchResultType[];    // All types when omitted
+  projectId?: UUID;              // Restricts the search to one project
+  limit?: number;
+}
+
+/**
+ * Interface for the ranked results of a search
+ */
+export interface ISearchResult {
+  query: string;                 // Query as searched, after normalization
+  hits: ISearchHit[];
+  facets: SearchFacets;          // Matches per type, including those past the limit
+}
+
+/**
+ * Interface defining the search service contract
+ */
+export interface ISearchService {
+  /**
+   * Searches the tasks, comments and projects the caller can see
+   * @param query Search query
+   * @param context Operation context
+   */
+  search(query: ISearchQueryDTO, context: ITaskContext): Promise<Result<ISearchResult, TaskError>>;
+}
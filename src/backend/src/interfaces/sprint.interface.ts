@@ -0,0 +1,178 @@
+/**
+ * @fileoverview Interfaces for project sprints, backlog planning and burndown
+ * @version 1.0.0
+ * @module interfaces/sprint
+ */
+
+// External imports
+import { UUID } from 'crypto'; // v20.0.0+
+
+// Internal imports
+import { ITask, ITaskContext, Result, TaskError } from './task.interface';
+import { BurndownPoint, SprintState } from '../types/sprint.types';
+
+/**
+ * Core interface defining a sprint of a project
+ */
+export interface ISprint {
+  readonly id: UUID;
+  projectId: UUID;
+  name: string;
+  goal: string | null;
+  startDate: Date;
+  endDate: Date;          // Last day of the sprint, inclusive
+  state: SprintState;
+  startedAt: Date | null;
+  closedAt: Date | null;
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+  readonly createdBy: UUID;
+  taskCount?: number;      // Active tasks in the sprint, attached on list
+  completedCount?: number; // Of which in a DONE state
+}
+
+/**
+ * Interface for sprint creation data transfer object
+ */
+export interface ICreateSprintDTO {
+  name: string;
+  goal?: string;
+  startDate: Date;
+  endDate: Date;
+}
+
+/**
+ * Interface for sprint update data transfer object; closed sprints cannot be changed
+ */
+export interface IUpdateSprintDTO {
+  name?: string;
+  goal?: string | null;
+  startDate?: Date;
+  endDate?: Date;
+}
+
+/**
+ * Interface for sprint close data transfer object
+ */
+export interface ICloseSprintDTO {
+  rollOverTo?: UUID | null; // Planned sprint receiving unfinished tasks; null sends them to the backlog
+}
+
+/**
+ * Outcome of closing a sprint
+ */
+export interface ISprintCloseResult {
+  sprint: ISprint;
+  rolledOver: number;        // Unfinished tasks moved out of the sprint
+  rolledOverTo: UUID | null; // Sprint they moved to, or null for the backlog
+}
+
+/**
+ * Burndown of a sprint, one point per day
+ */
+export interface ISprintBurndown {
+  sprintId: UUID;
+  unit: 'tasks';
+  points: BurndownPoint[];
+}
+
+/**
+ * Interface defining sprint service operations contract
+ */
+export interface ISprintService {
+  /**
+   * Lists the sprints of a project, newest first
+   * @param projectId Project identifier
+   * @param context Operation context
+   */
+  listSprints(
+    projectId: UUID,
+    context: ITaskContext
+  ): Promise<Result<ISprint[], TaskError>>;
+
+  /**
+   * Plans a new sprint
+   * @param projectId Project identifier
+   * @param data Sprint attributes
+   * @param context Operation context
+   */
+  createSprint(
+    projectId: UUID,
+    data: ICreateSprintDTO,
+    context: ITaskContext
+  ): Promise<Result<ISprint, TaskError>>;
+
+  /**
+   * Changes the name, goal or dates of a sprint
+   * @param projectId Project identifier
+   * @param sprintId Sprint identifier
+   * @param data Changed attributes
+   * @param context Operation context
+   */
+  updateSprint(
+    projectId: UUID,
+    sprintId: UUID,
+    data: IUpdateSprintDTO,
+    context: ITaskContext
+  ): Promise<Result<ISprint, TaskError>>;
+
+  /**
+   * Removes a planned sprint; its tasks return to the backlog
+   * @param projectId Project identifier
+   * @param sprintId Sprint identifier
+   * @param context Operation context
+   */
+  deleteSprint(
+    projectId: UUID,
+    sprintId: UUID,
+    context: ITaskContext
+  ): Promise<Result<void, TaskError>>;
+
+  /**
+   * Starts a planned sprint
+   * @param projectId Project identifier
+   * @param sprintId Sprint identifier
+   * @param context Operation context
+   */
+  startSprint(
+    projectId: UUID,
+    sprintId: UUID,
+    context: ITaskContext
+  ): Promise<Result<ISprint, TaskError>>;
+
+  /**
+   * Closes the active sprint and rolls its unfinished tasks over
+   * @param projectId Project identifier
+   * @param sprintId Sprint identifier
+   * @param data Where unfinished tasks go
+   * @param context Operation context
+   */
+  closeSprint(
+    projectId: UUID,
+    sprintId: UUID,
+    data: ICloseSprintDTO,
+    context: ITaskContext
+  ): Promise<Result<ISprintCloseResult, TaskError>>;
+
+  /**
+   * Lists the unfinished tasks of a project that are not in a sprint
+   * @param projectId Project identifier
+   * @param context Operation context
+   */
+  getBacklog(
+    projectId: UUID,
+    context: ITaskContext
+  ): Promise<Result<ITask[], TaskError>>;
+
+  /**
+   * Computes the burndown of a sprint from the status history of its tasks
+   * @param projectId Project identifier
+   * @param sprintId Sprint identifier
+   * @param context Operation context
+   */
+  getBurndown(
+    projectId: UUID,
+    sprintId: UUID,
+    context: ITaskContext
+  ): Promise<Result<ISprintBurndown, TaskError>>;
+}
@@ -8,7 +8,13 @@
 import { UUID } from 'crypto'; // v20.0.0+
 
 // Internal imports
-import { TaskStatus, TaskPriority } from '../types/task.types';
+import { TaskPriority, BulkTaskOutcome } from '../types/task.types';
+import { UserRole } from '../types/user.types';
+import { Permission } from '../types/permission.types';
+import { CustomFieldFilter, CustomFieldValue, CustomFieldValues } from '../types/customField.types';
+import { WorkflowCategory } from '../types/workflow.types';
+import { ITaskRecurrence, IRecurrenceRuleDTO } from './recurrence.interface';
+import { ITaskExportRow } from './export.interface';
 
 /**
  * Result type for handling operation outcomes with proper error types
@@ -39,6 +45,15 @@ export interface ITaskTelemetry {
   tags: Record<string, string>;
 }
 
+/**
+ * Progress of a task rolled up from its subtasks and checklist items
+ */
+export interface ITaskProgress {
+  completed: number;  // Completed units; subtasks count fractionally by their own progress
+  total: number;      // Direct subtasks plus checklist items
+  percentage: number; // 0-100
+}
+
 /**
  * Enhanced core interface defining the structure of a task entity
  */
@@ -46,7 +61,8 @@ export interface ITask {
   readonly id: UUID;
   title: string;
   description: string;
-  status: TaskStatus;
+  status: string; // Key of a state in the project's workflow
+  statusCategory: WorkflowCategory; // Category of that state, kept in step by the repository
   priority: TaskPriority;
   assigneeId: UUID;
   projectId: UUID;
@@ -56,9 +72,18 @@ export interface ITask {
   readonly createdBy: UUID;
   readonly updatedBy: UUID;
   metadata: Record<string, unknown>;
+  customFields: CustomFieldValues; // Values of the project's custom fields, keyed by field key
   tags: string[];
   attachmentIds: UUID[];
   version: number; // For optimistic locking
+  parentId?: UUID | null; // Parent task for subtasks
+  depth?: number;         // Nesting level, 0 for top-level tasks
+  progress?: ITaskProgress; // Computed on read, never persisted
+  recurrenceId?: UUID | null; // Recurrence rule this task is an occurrence of
+  recurrence?: ITaskRecurrence | null; // Attached on single-task reads
+  sprintId?: UUID | null; // Sprint the task is planned into, null for the backlog
+  originalEstimate?: number | null;  // In the project's estimation unit
+  remainingEstimate?: number | null; // Work left, in the same unit
 }
 
 /**
@@ -73,7 +98,14 @@ export interface ICreateTaskDTO {
   dueDate?: Date;
   tags?: string[];
   metadata?: Record<string, unknown>;
+  customFields?: CustomFieldValues; // Validated against the project's custom field definitions
   attachmentIds?: UUID[];
+  parentId?: UUID; // Creates the task as a subtask of a task in the same project
+  sprintId?: UUID; // Plans the task into a planned or active sprint of the project
+  originalEstimate?: number;
+  remainingEstimate?: number; // Defaults to the original estimate
+  recurrence?: IRecurrenceRuleDTO; // Makes the task the first occurrence of a series
+  initialState?: { key: string; category: WorkflowCategory }; // Replaces the workflow's first state; set by imports, not by requests
 }
 
 /**
@@ -82,14 +114,20 @@ export interface ICreateTaskDTO {
 export interface IUpdateTaskDTO {
   title?: string;
   description?: string;
-  status?: TaskStatus;
+  status?: string; // Must be reachable from the current state in the project's workflow
   priority?: TaskPriority;
   assigneeId?: UUID;
-  dueDate?: Date;
+  dueDate?: Date | null; // null clears the due date
   tags?: string[];
   metadata?: Record<string, unknown>;
+  customFields?: Record<string, CustomFieldValue | null>; // Merged into current values; null clears a field
   attachmentIds?: UUID[];
   version: number; // Required for optimistic locking
+  overrideBlockers?: boolean; // Callers holding task:blockers:override may start a task whose blockers are still open
+  recurrence?: IRecurrenceRuleDTO | null; // Replaces the rule, or stops the series when null
+  sprintId?: UUID | null; // Moves the task to another sprint, or to the backlog when null
+  originalEstimate?: number | null;  // null clears the estimate
+  remainingEstimate?: number | null;
 }
 
 /**
@@ -97,6 +135,8 @@ export interface IUpdateTaskDTO {
  */
 export interface ITaskContext {
   userId: UUID;
+  userRole?: UserRole; // Global role of the caller, used for privileged overrides
+  permissions?: Permission[]; // Permissions granted to the caller's role
   correlationId: string;
   requestId: string;
   includeSoftDeleted: boolean;
@@ -107,10 +147,13 @@ export interface ITaskContext {
  * Enhanced interface for task query parameters
  */
 export interface ITaskQueryParams {
-  status?: TaskStatus[];
+  status?: string[]; // Workflow state keys
   priority?: TaskPriority[];
   assigneeIds?: UUID[];
   projectIds?: UUID[];
+  parentId?: UUID;       // Only subtasks of this task
+  topLevelOnly?: boolean; // Exclude subtasks
+  sprintId?: UUID;        // Only tasks planned into this sprint
   page: number;
   limit: number;
   sortBy: keyof ITask;
@@ -119,10 +162,46 @@ export interface ITaskQueryParams {
   dateRangeStart?: Date;
   dateRangeEnd?: Date;
   tags?: string[];
+  customFields?: CustomFieldFilter[]; // All conditions must match
+  query?: string;                     // Task query language, e.g. `assignee = me ORDER BY due`
   includeMetadata?: boolean;
   includeDeleted?: boolean;
 }
 
+/**
+ * Task of a bulk change with the version the caller last read
+ */
+export interface IBulkTaskRef {
+  id: UUID;
+  version: number;
+}
+
+/**
+ * Interface for changing many tasks at once; the patch is applied to every task
+ */
+export interface IBulkUpdateTasksDTO {
+  items: IBulkTaskRef[];
+  patch: Pick<IUpdateTaskDTO, 'status' | 'priority' | 'assigneeId' | 'dueDate'>;
+}
+
+/**
+ * Result of one task of a bulk change
+ */
+export interface IBulkTaskResult {
+  id: UUID;
+  outcome: BulkTaskOutcome;
+  task?: ITask;       // Changed task, on success
+  error?: TaskError;  // Reason, otherwise
+}
+
+/**
+ * Interface for the results of a bulk change, in the order of the request
+ */
+export interface IBulkUpdateResult {
+  results: IBulkTaskResult[];
+  summary: Record<BulkTaskOutcome, number>;
+}
+
 /**
  * Interface for paginated task response
  */
@@ -202,4 +281,28 @@ export interface ITaskService {
     params: ITaskQueryParams,
     context: ITaskContext
   ): Promise<Result<ITaskPaginatedResponse, TaskError>>;
+
+  /**
+   * Streams the tasks matching a listing query for export, ignoring pagination
+   * @param params Query parameters
+   * @param context Operation context
+   * @returns Tasks in listing order or error
+   */
+  exportTasks(
+    params: ITaskQueryParams,
+    context: ITaskContext
+  ): Promise<Result<AsyncIterable<ITaskExportRow>, TaskError>>;
+
+  /**
+   * Applies one change to many tasks, each under optimistic locking
+   * @param data Tasks with their versions and the change
+   * @param context Operation context
+   * @param options ownTasksOnly limits the change to tasks the caller created or is assigned to
+   * @returns Result per task or error
+   */
+  bulkUpdateTasks(
+    data: IBulkUpdateTasksDTO,
+    context: ITaskContext,
+    options?: { ownTasksOnly?: boolean }
+  ): Promise<Result<IBulkUpdateResult, TaskError>>;
 }
\ No newline at end of file
@@ -0,0 +1,195 @@
+/**
+ * @fileoverview Interfaces for outbound webhooks and their deliveries
+ * @version 1.0.0
+ * @module interfaces/webhook
+ */
+
+// External imports
+import { UUID } from 'crypto'; // v20.0.0+
+
+// Internal imports
+import { ITaskContext, Result, TaskError } from './task.interface';
+import { WebhookEventType, WebhookDeliveryStatus } from '../types/webhook.types';
+
+/**
+ * Core interface defining a webhook subscription; its signing secret is never returned
+ * after it was generated
+ */
+export interface IWebhook {
+  readonly id: UUID;
+  projectId: UUID | null;        // Null for organization-wide webhooks receiving every project's events
+  name: string;
+  url: string;
+  events: WebhookEventType[];
+  active: boolean;               // Inactive webhooks receive no new deliveries
+  readonly createdBy: UUID;
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+}
+
+/**
+ * Webhook with the signing secret just generated for it
+ */
+export interface IWebhookSecret {
+  webhook: IWebhook;
+  secret: string;
+}
+
+/**
+ * Interface for webhook creation data transfer object
+ */
+export interface ICreateWebhookDTO {
+  name: string;
+  url: string;
+  events: WebhookEventType[];
+  projectId?: UUID;
+  active?: boolean;
+}
+
+/**
+ * Interface for webhook update data transfer object; a webhook keeps its project
+ */
+export interface IUpdateWebhookDTO {
+  name?: string;
+  url?: string;
+  events?: WebhookEventType[];
+  active?: boolean;
+}
+
+/**
+ * Event as it is sent to receivers in the request body
+ */
+export interface IWebhookEvent {
+  id: UUID;                      // Identifies the event across its deliveries and redeliveries
+  type: WebhookEventType;
+  occurredAt: string;
+  projectId: UUID | null;
+  actorId: UUID | null;          // User whose change caused the event
+  data: Record<string, unknown>;
+}
+
+/**
+ * Interface defining a delivery of an event to a webhook
+ */
+export interface IWebhookDelivery {
+  readonly id: UUID;
+  webhookId: UUID;
+  eventId: UUID;
+  eventType: WebhookEventType;
+  payload: IWebhookEvent;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus: number | null; // Of the latest attempt; null when no response arrived
+  responseBody: string | null;   // Truncated
+  error: string | null;          // Why the latest attempt failed
+  durationMs: number | null;
+  nextAttemptAt: Date | null;
+  deliveredAt: Date | null;
+  redeliveryOfId: UUID | null;
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+}
+
+/**
+ * Message queued for each attempt of a delivery
+ */
+export interface IWebhookDeliveryMessage {
+  deliveryId: UUID;
+}
+
+/**
+ * Interface for delivery log query parameters
+ */
+export interface IWebhookDeliveryQueryParams {
+  webhookId?: UUID;
+  status?: WebhookDeliveryStatus;
+  page: number;
+  limit: number;
+}
+
+/**
+ * Interface for paginated delivery log response
+ */
+export interface IWebhookDeliveryPaginatedResponse {
+  items: IWebhookDelivery[];
+  total: number;
+  page: number;
+  limit: number;
+  hasMore: boolean;
+}
+
+/**
+ * Interface defining webhook service operations contract
+ */
+export interface IWebhookService {
+  /**
+   * Lists webhooks
+   * @param projectId Only the webhooks of this project when given
+   * @param context Operation context
+   */
+  listWebhooks(projectId: UUID | undefined, context: ITaskContext): Promise<Result<IWebhook[], TaskError>>;
+
+  /**
+   * Creates a webhook; its signing secret is only returned here
+   * @param data Webhook data
+   * @param context Operation context
+   */
+  createWebhook(data: ICreateWebhookDTO, context: ITaskContext): Promise<Result<IWebhookSecret, TaskError>>;
+
+  /**
+   * Updates a webhook
+   * @param webhookId Webhook identifier
+   * @param data Changed fields
+   * @param context Operation context
+   */
+  updateWebhook(
+    webhookId: UUID,
+    data: IUpdateWebhookDTO,
+    context: ITaskContext
+  ): Promise<Result<IWebhook, TaskError>>;
+
+  /**
+   * Deletes a webhook with its delivery log
+   * @param webhookId Webhook identifier
+   * @param context Operation context
+   */
+  deleteWebhook(webhookId: UUID, context: ITaskContext): Promise<Result<void, TaskError>>;
+
+  /**
+   * Replaces the signing secret of a webhook; the new secret is only returned here
+   * @param webhookId Webhook identifier
+   * @param context Operation context
+   */
+  rotateSecret(webhookId: UUID, context: ITaskContext): Promise<Result<IWebhookSecret, TaskError>>;
+
+  /**
+   * Lists deliveries, newest first
+   * @param params Filters and pagination
+   * @param context Operation context
+   */
+  listDeliveries(
+    params: IWebhookDeliveryQueryParams,
+    context: ITaskContext
+  ): Promise<Result<IWebhookDeliveryPaginatedResponse, TaskError>>;
+
+  /**
+   * Sends the event of a delivery again as a new delivery
+   * @param deliveryId Delivery identifier
+   * @param context Operation context
+   */
+  redeliver(deliveryId: UUID, context: ITaskContext): Promise<Result<IWebhookDelivery, TaskError>>;
+
+  /**
+   * Queues an event for the webhooks subscribed to it; never fails the caller's operation
+   * @param type Event type
+   * @param projectId Project the event belongs to
+   * @param data Event data
+   * @param actorId User whose change caused the event
+   */
+  dispatchEvent(
+    type: WebhookEventType,
+    projectId: UUID | null,
+    data: Record<string, unknown>,
+    actorId?: UUID
+  ): Promise<void>;
+}
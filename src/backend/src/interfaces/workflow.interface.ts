@@ -0,0 +1,68 @@
+/**
+ * @fileoverview Interfaces for per-project task workflows
+ * @version 1.0.0
+ * @module interfaces/workflow
+ */
+
+// External imports
+import { UUID } from 'crypto'; // v20.0.0+
+
+// Internal imports
+import { ITaskContext, Result, TaskError } from './task.interface';
+import {
+  WorkflowStateDefinition,
+  WorkflowTransitionDefinition
+} from '../types/workflow.types';
+
+/**
+ * State of a project workflow; the first state is where new tasks start
+ */
+export interface IWorkflowState extends WorkflowStateDefinition {
+  position: number; // Board column order
+}
+
+/**
+ * Core interface defining the workflow of a project
+ */
+export interface IWorkflow {
+  projectId: UUID;
+  states: IWorkflowState[];                    // Ordered by position
+  transitions: WorkflowTransitionDefinition[]; // Moves allowed between states
+  isDefault: boolean;                          // True until the project defines its own workflow
+}
+
+/**
+ * Interface for workflow replacement data transfer object; states are positioned in
+ * the order given
+ */
+export interface IUpdateWorkflowDTO {
+  states: WorkflowStateDefinition[];
+  transitions: WorkflowTransitionDefinition[];
+}
+
+/**
+ * Interface defining workflow service operations contract
+ */
+export interface IWorkflowService {
+  /**
+   * Retrieves the workflow of a project, falling back to the default workflow
+   * @param projectId Project identifier
+   * @param context Operation context
+   */
+  getWorkflow(
+    projectId: UUID,
+    context: ITaskContext
+  ): Promise<Result<IWorkflow, TaskError>>;
+
+  /**
+   * Replaces the states and transitions of a project workflow
+   * @param projectId Project identifier
+   * @param data New states and transitions
+   * @param context Operation context
+   */
+  updateWorkflow(
+    projectId: UUID,
+    data: IUpdateWorkflowDTO,
+    context: ITaskContext
+  ): Promise<Result<IWorkflow, TaskError>>;
+}
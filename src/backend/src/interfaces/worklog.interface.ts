@@ -0,0 +1,171 @@
+/**
+ * @fileoverview Interfaces for time tracking: worklog entries, timers and timesheets
+ * @version 1.0.0
+ * @module interfaces/worklog
+ */
+
+// External imports
+import { UUID } from 'crypto'; // v20.0.0+
+
+// Internal imports
+import { ITaskContext, Result, TaskError } from './task.interface';
+import { Timesheet } from '../types/worklog.types';
+
+/**
+ * Core interface defining time a user spent on a task
+ */
+export interface IWorklog {
+  readonly id: UUID;
+  taskId: UUID;
+  readonly userId: UUID;         // Author of the entry
+  startedAt: Date;
+  durationSeconds: number;
+  note: string | null;
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+}
+
+/**
+ * Interface defining the running timer of a user; a user runs at most one timer
+ */
+export interface ITimer {
+  readonly userId: UUID;
+  taskId: UUID;
+  startedAt: Date;
+  note: string | null;
+}
+
+/**
+ * Interface for worklog creation data transfer object
+ */
+export interface ICreateWorklogDTO {
+  startedAt: Date;
+  durationSeconds: number;
+  note?: string;
+}
+
+/**
+ * Interface for worklog update data transfer object
+ */
+export interface IUpdateWorklogDTO {
+  startedAt?: Date;
+  durationSeconds?: number;
+  note?: string | null;
+}
+
+/**
+ * Interface for timer start data transfer object
+ */
+export interface IStartTimerDTO {
+  taskId: UUID;
+  note?: string;
+}
+
+/**
+ * Interface for timesheet query parameters; the current week when omitted
+ */
+export interface ITimesheetQuery {
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Outcome of starting a timer; a timer that was still running is stopped and logged
+ */
+export interface ITimerStartResult {
+  timer: ITimer;
+  stopped: IWorklog | null;
+}
+
+/**
+ * Interface defining worklog service operations contract
+ */
+export interface IWorklogService {
+  /**
+   * Lists the worklog entries of a task, latest first
+   * @param taskId Task identifier
+   * @param context Operation context
+   */
+  listWorklogs(taskId: UUID, context: ITaskContext): Promise<Result<IWorklog[], TaskError>>;
+
+  /**
+   * Logs time on a task for the caller
+   * @param taskId Task identifier
+   * @param data Entry attributes
+   * @param context Operation context
+   */
+  createWorklog(
+    taskId: UUID,
+    data: ICreateWorklogDTO,
+    context: ITaskContext
+  ): Promise<Result<IWorklog, TaskError>>;
+
+  /**
+   * Changes a worklog entry; allowed to its author and project managers
+   * @param taskId Task identifier
+   * @param worklogId Worklog identifier
+   * @param data Changed attributes
+   * @param context Operation context
+   */
+  updateWorklog(
+    taskId: UUID,
+    worklogId: UUID,
+    data: IUpdateWorklogDTO,
+    context: ITaskContext
+  ): Promise<Result<IWorklog, TaskError>>;
+
+  /**
+   * Removes a worklog entry; allowed to its author and project managers
+   * @param taskId Task identifier
+   * @param worklogId Worklog identifier
+   * @param context Operation context
+   */
+  deleteWorklog(
+    taskId: UUID,
+    worklogId: UUID,
+    context: ITaskContext
+  ): Promise<Result<void, TaskError>>;
+
+  /**
+   * Retrieves the caller's running timer, if any
+   * @param context Operation context
+   */
+  getTimer(context: ITaskContext): Promise<Result<ITimer | null, TaskError>>;
+
+  /**
+   * Starts a timer on a task for the caller
+   * @param data Task to time
+   * @param context Operation context
+   */
+  startTimer(data: IStartTimerDTO, context: ITaskContext): Promise<Result<ITimerStartResult, TaskError>>;
+
+  /**
+   * Stops the caller's timer and logs the elapsed time
+   * @param context Operation context
+   */
+  stopTimer(context: ITaskContext): Promise<Result<IWorklog, TaskError>>;
+
+  /**
+   * Retrieves the time a user logged across projects
+   * @param userId User identifier
+   * @param query Days to cover
+   * @param context Operation context
+   */
+  getUserTimesheet(
+    userId: UUID,
+    query: ITimesheetQuery,
+    context: ITaskContext
+  ): Promise<Result<Timesheet, TaskError>>;
+
+  /**
+   * Retrieves the time logged on a project by every user
+   * @param projectId Project identifier
+   * @param query Days to cover
+   * @param context Operation context
+   */
+  getProjectTimesheet(
+    projectId: UUID,
+    query: ITimesheetQuery,
+    context: ITaskContext
+  ): Promise<Result<Timesheet, TaskError>>;
+}
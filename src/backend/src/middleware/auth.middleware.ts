@@ -9,6 +9,8 @@ import rateLimit from 'express-rate-limit'; // ^6.7.0
 import { AuthService } from '../services/auth.service';
 import { TokenPayload, AuthTokenType, AuthError } from '../types/auth.types';
 import { UserRole } from '../types/user.types';
+import { Permission } from '../types/permission.types';
+import { DEFAULT_ROLE_PERMISSIONS, hasPermission } from '../utils/permission.util';
 import { AppError, createError } from '../utils/error.util';
 import { enhancedLogger as logger } from '../utils/logger.util';
 import { StatusCode } from '../constants/status-codes';
@@ -19,6 +21,7 @@ declare global {
   namespace Express {
     interface Request {
       user?: TokenPayload;
+      permissions?: Permission[];
       correlationId?: string;
       securityContext?: {
         userId: string;
@@ -39,6 +42,34 @@ interface AuthorizationOptions {
   resourceOwnershipCheck?: (req: Request) => Promise<boolean>;
 }
 
+/**
+ * Interface for permission-based authorization options
+ */
+interface PermissionAuthorizationOptions {
+  requireMFA?: boolean;
+  /** Narrower permission granting the action on resources the caller owns */
+  ownPermission?: Permission;
+  /** Resolves whether the caller owns the target resource; consulted for ownPermission */
+  resourceOwnershipCheck?: (req: Request) => Promise<boolean>;
+}
+
+/**
+ * Resolves the permissions granted to a role; the built-in mapping applies until the
+ * application registers the runtime-editable one of the permission service at startup
+ */
+let resolveRolePermissions = async (role: UserRole): Promise<Permission[]> =>
+  DEFAULT_ROLE_PERMISSIONS[role] ?? [];
+
+/**
+ * Replaces the resolver used by authorizePermission
+ * @param resolver Function returning the permissions granted to a role
+ */
+export const registerPermissionResolver = (
+  resolver: (role: UserRole) => Promise<Permission[]>
+): void => {
+  resolveRolePermissions = resolver;
+};
+
 /**
  * Rate limiting configuration by user role
  */
@@ -229,6 +260,75 @@ export const authorize = (allowedRoles: UserRole[], options: AuthorizationOption
   };
 };
 
+/**
+ * Permission-based authorization middleware. Grants access when the caller's role holds
+ * the permission, or holds ownPermission and owns the target resource.
+ */
+export const authorizePermission = (
+  permission: Permission,
+  options: PermissionAuthorizationOptions = {}
+) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { user, securityContext } = req;
+
+      if (!user || !securityContext) {
+        throw createError(
+          'Unauthorized access',
+          StatusCode.UNAUTHORIZED,
+          ErrorCode.AUTHORIZATION_ERROR
+        );
+      }
+
+      const granted = await resolveRolePermissions(user.role);
+      req.permissions = granted;
+
+      // Fall back to the ownership-scoped permission when the broad one is missing
+      let allowed = hasPermission(granted, permission);
+      if (!allowed && options.ownPermission && options.resourceOwnershipCheck
+        && hasPermission(granted, options.ownPermission)) {
+        allowed = await options.resourceOwnershipCheck(req);
+      }
+
+      if (!allowed) {
+        throw createError(
+          'Insufficient permissions',
+          StatusCode.FORBIDDEN,
+          ErrorCode.INSUFFICIENT_PERMISSIONS
+        );
+      }
+
+      // Check MFA requirement
+      if (options.requireMFA && !user.mfaVerified) {
+        throw createError(
+          'MFA verification required',
+          StatusCode.FORBIDDEN,
+          ErrorCode.AUTHORIZATION_ERROR
+        );
+      }
+
+      logger.info('Authorization successful', {
+        correlationId: req.correlationId,
+        userId: user.userId,
+        role: user.role,
+        permission,
+        resource: req.path
+      });
+
+      next();
+    } catch (error) {
+      logger.error('Authorization failed', {
+        correlationId: req.correlationId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        permission,
+        path: req.path
+      });
+
+      next(error);
+    }
+  };
+};
+
 export { createRateLimit };
 ```
 
@@ -16,6 +16,7 @@ import rateLimiter from './rateLimiter.middleware';  // v1.0.0
 import { 
   authenticate, 
   authorize,
+  authorizePermission,
   createRateLimit 
 } from './auth.middleware';  // v1.0.0
 
@@ -84,7 +85,8 @@ export {
 
   // Authentication and authorization middleware
   authenticate,
-  authorize
+  authorize,
+  authorizePermission
 };
 
 // Export commonly used middleware compositions
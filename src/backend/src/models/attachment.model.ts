@@ -5,6 +5,7 @@
  */
 
 import { PrismaClient, Attachment } from '@prisma/client'; // v5.0+
+import { Readable } from 'stream';
 import { StorageService } from '../services/storage.service';
 import * as clamav from 'clamav.js'; // v1.0+
 import winston from 'winston'; // v3.0+
@@ -15,7 +16,7 @@ import { ErrorCode } from '../constants/error-codes';
 /**
  * Interface for attachment creation input
  */
-interface AttachmentCreateInput {
+export interface AttachmentCreateInput {
   fileName: string;
   fileSize: number;
   mimeType: string;
@@ -28,7 +29,7 @@ interface AttachmentCreateInput {
 /**
  * Interface for bulk upload result
  */
-interface BulkUploadResult {
+export interface BulkUploadResult {
   successful: Attachment[];
   failed: Array<{
     fileName: string;
@@ -36,6 +37,14 @@ interface BulkUploadResult {
   }>;
 }
 
+/**
+ * Interface for streamed attachment downloads
+ */
+export interface AttachmentDownload {
+  attachment: Attachment;
+  stream: Readable;
+}
+
 /**
  * Enhanced model class for secure file attachment handling
  */
@@ -240,6 +249,40 @@ export class AttachmentModel {
     }
   }
 
+  /**
+   * Lists active attachments of a task, newest first
+   */
+  public async findByTaskId(taskId: string): Promise<Attachment[]> {
+    try {
+      return await this.prisma.attachment.findMany({
+        where: { taskId, deletedAt: null },
+        orderBy: { createdAt: 'desc' }
+      });
+    } catch (error) {
+      this.logger.error('Task attachments retrieval failed', { error, taskId });
+      throw new AppError(
+        'Attachment retrieval failed',
+        StatusCode.INTERNAL_SERVER_ERROR,
+        ErrorCode.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  /**
+   * Opens a decrypted download stream for an attachment
+   */
+  public async download(id: string): Promise<AttachmentDownload> {
+    const attachment = await this.findById(id);
+    const { stream } = await this.storageService.downloadFileStream(attachment.fileKey);
+
+    this.logger.info('Attachment download started', {
+      attachmentId: id,
+      fileName: attachment.fileName
+    });
+
+    return { attachment, stream };
+  }
+
   /**
    * Securely deletes attachment with audit trail
    */
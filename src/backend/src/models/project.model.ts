@@ -11,8 +11,12 @@ import Redis from 'ioredis'; // v5.0+
 import { UUID } from 'crypto';
 
 // Internal imports
-import { ProjectStatus, ProjectPriority, Project } from '../types/project.types';
+import { ProjectStatus, ProjectPriority, ProjectRole, Project } from '../types/project.types';
 import { IProject, ICreateProjectDTO, IUpdateProjectDTO, IProjectQueryParams } from '../interfaces/project.interface';
+import { buildTeamMemberSync } from '../utils/membership.util';
+
+// Current members only; removed memberships are soft deleted
+const ACTIVE_MEMBERS = { where: { deletedAt: null } };
 
 // Custom error classes
 class ValidationError extends Error {
@@ -66,11 +70,11 @@ export class ProjectModel {
             startDate: data.startDate,
             endDate: data.endDate,
             teamMembers: {
-              connect: data.teamMembers.map(id => ({ id }))
+              create: data.teamMembers.map(userId => ({ userId, role: ProjectRole.CONTRIBUTOR }))
             }
           },
           include: {
-            teamMembers: true,
+            teamMembers: ACTIVE_MEMBERS,
             tasks: true
           }
         });
@@ -106,7 +110,7 @@ export class ProjectModel {
       const project = await this.prisma.$transaction(async (tx) => {
         const current = await tx.project.findUnique({
           where: { id },
-          include: { teamMembers: true }
+          include: { teamMembers: ACTIVE_MEMBERS }
         });
 
         if (!current) {
@@ -123,12 +127,12 @@ export class ProjectModel {
             ...data,
             version: { increment: 1 },
             updatedAt: new Date(),
-            teamMembers: data.teamMembers ? {
-              set: data.teamMembers.map(id => ({ id }))
-            } : undefined
+            teamMembers: data.teamMembers
+              ? buildTeamMemberSync(id, data.teamMembers)
+              : undefined
           },
           include: {
-            teamMembers: true,
+            teamMembers: ACTIVE_MEMBERS,
             tasks: true
           }
         });
@@ -190,7 +194,7 @@ export class ProjectModel {
       const project = await this.prisma.project.findUnique({
         where: { id },
         include: {
-          teamMembers: true,
+          teamMembers: ACTIVE_MEMBERS,
           tasks: {
             include: {
               assignee: true
@@ -233,7 +237,7 @@ export class ProjectModel {
         ...query,
         take: limit + 1,
         include: {
-          teamMembers: true,
+          teamMembers: ACTIVE_MEMBERS,
           tasks: {
             include: {
               assignee: true
@@ -308,7 +312,7 @@ export class ProjectModel {
 
     if (params.teamMemberId) {
       query.where.teamMembers = {
-        some: { id: params.teamMemberId }
+        some: { userId: params.teamMemberId, deletedAt: null }
       };
     }
 
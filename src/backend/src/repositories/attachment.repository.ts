@@ -6,9 +6,14 @@
 
 import { PrismaClient } from '@prisma/client'; // v5.0+
 import crypto from 'crypto'; // native
-import { AttachmentModel } from '../models/attachment.model';
+import {
+  AttachmentModel,
+  AttachmentCreateInput,
+  AttachmentDownload,
+  BulkUploadResult
+} from '../models/attachment.model';
 import { StorageService } from '../services/storage.service';
-import { createError } from '../utils/error.util';
+import { AppError, createError } from '../utils/error.util';
 import { Logger } from '../utils/logger.util';
 import { StatusCode } from '../constants/status-codes';
 import { ErrorCode } from '../constants/error-codes';
@@ -25,7 +30,7 @@ interface RetryConfiguration {
 /**
  * Interface for security context
  */
-interface SecurityContext {
+export interface SecurityContext {
   userId: string;
   action: string;
   resource: string;
@@ -114,6 +119,26 @@ export class AttachmentRepository {
     });
   }
 
+  /**
+   * Creates several attachments, collecting per-file failures instead of aborting
+   */
+  public async bulkCreateAttachments(
+    files: AttachmentCreateInput[],
+    securityContext: SecurityContext
+  ): Promise<BulkUploadResult> {
+    return Logger.withCorrelation(crypto.randomUUID(), async () => {
+      const result = await this.attachmentModel.bulkUpload(files);
+
+      this.logger.info('Bulk attachment upload processed', {
+        successful: result.successful.length,
+        failed: result.failed.length,
+        ...securityContext
+      });
+
+      return result;
+    });
+  }
+
   /**
    * Retrieves attachment by ID with security validation
    */
@@ -197,7 +222,7 @@ export class AttachmentRepository {
   public async downloadAttachment(
     id: string,
     securityContext: SecurityContext
-  ): Promise<Buffer> {
+  ): Promise<AttachmentDownload> {
     return Logger.withCorrelation(crypto.randomUUID(), async () => {
       try {
         const attachment = await this.retryOperation(() =>
@@ -228,7 +253,9 @@ export class AttachmentRepository {
     try {
       return await operation();
     } catch (error) {
-      if (retryCount >= this.retryConfig.maxAttempts) {
+      // Client errors such as a missing attachment are not transient
+      const isClientError = error instanceof AppError && error.statusCode < StatusCode.INTERNAL_SERVER_ERROR;
+      if (isClientError || retryCount >= this.retryConfig.maxAttempts) {
         throw error;
       }
 
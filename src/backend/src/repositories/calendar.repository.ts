@@ -0,0 +1,197 @@
+/**
+ * @fileoverview Repository for personal calendar feeds and the dates they publish
+ * @version 1.0.0
+ * @module repositories/calendar
+ */
+
+import { PrismaClient } from '@prisma/client'; // v5.0+
+import { UUID } from 'crypto';
+
+// Internal imports
+import {
+  ICalendarFeed,
+  ICalendarTask,
+  ICalendarProject,
+  ICalendarMilestone
+} from '../interfaces/calendar.interface';
+import { UserRole, UserStatus } from '../types/user.types';
+
+/**
+ * Feed attributes returned to callers; the token hash stays in the repository
+ */
+const FEED_SELECT = {
+  id: true,
+  userId: true,
+  lastReadAt: true,
+  createdAt: true
+} as const;
+
+/**
+ * Feed found by its token, with what decides whether its user may still read it
+ */
+export interface ICalendarFeedOwner {
+  feed: ICalendarFeed;
+  user: {
+    name: string;
+    role: UserRole;
+    status: UserStatus;
+    deletedAt: Date | null;
+  };
+}
+
+/**
+ * Repository implementing data access for calendar feeds. Tokens are looked up by
+ * their HMAC, so a leaked database does not expose working feed URLs.
+ */
+export class CalendarFeedRepository {
+  private readonly prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Retrieves the feed of a user
+   * @param userId User identifier
+   * @returns Feed or null if none was generated
+   */
+  async findByUser(userId: UUID): Promise<ICalendarFeed | null> {
+    return await this.prisma.calendarFeed.findUnique({
+      where: { userId },
+      select: FEED_SELECT
+    }) as ICalendarFeed | null;
+  }
+
+  /**
+   * Retrieves the feed a token belongs to, with its user
+   * @param tokenHash HMAC of the token
+   * @returns Feed and user, or null for an unknown token
+   */
+  async findByTokenHash(tokenHash: string): Promise<ICalendarFeedOwner | null> {
+    const record = await this.prisma.calendarFeed.findUnique({
+      where: { tokenHash },
+      select: {
+        ...FEED_SELECT,
+        user: { select: { name: true, role: true, status: true, deletedAt: true } }
+      }
+    });
+
+    if (!record) {
+      return null;
+    }
+
+    const { user, ...feed } = record;
+    return { feed: feed as ICalendarFeed, user: user as ICalendarFeedOwner['user'] };
+  }
+
+  /**
+   * Stores a new token for a user's feed, replacing the previous one
+   * @param userId User identifier
+   * @param tokenHash HMAC of the new token
+   * @returns Feed
+   */
+  async saveToken(userId: UUID, tokenHash: string): Promise<ICalendarFeed> {
+    return await this.prisma.calendarFeed.upsert({
+      where: { userId },
+      create: { userId, tokenHash },
+      // The creation time tells when the current token was generated
+      update: { tokenHash, createdAt: new Date(), lastReadAt: null },
+      select: FEED_SELECT
+    }) as ICalendarFeed;
+  }
+
+  /**
+   * Deletes a user's feed
+   * @param userId User identifier
+   * @returns Whether a feed existed
+   */
+  async delete(userId: UUID): Promise<boolean> {
+    const { count } = await this.prisma.calendarFeed.deleteMany({ where: { userId } });
+    return count > 0;
+  }
+
+  /**
+   * Records that a feed was read
+   * @param feedId Feed identifier
+   */
+  async markRead(feedId: UUID): Promise<void> {
+    await this.prisma.calendarFeed.update({
+      where: { id: feedId },
+      data: { lastReadAt: new Date() }
+    });
+  }
+
+  /**
+   * Retrieves the tasks assigned to a user that are due since a day
+   * @param userId Assignee identifier
+   * @param projectIds Projects to include; any project when null
+   * @param since Earliest due date
+   * @param limit Most tasks returned
+   * @returns Tasks by due date
+   */
+  async findDueTasks(
+    userId: UUID,
+    projectIds: UUID[] | null,
+    since: Date,
+    limit: number
+  ): Promise<ICalendarTask[]> {
+    return await this.prisma.task.findMany({
+      where: {
+        assigneeId: userId,
+        deletedAt: null,
+        dueDate: { gte: since },
+        ...(projectIds && { projectId: { in: projectIds } }),
+        project: { deletedAt: null }
+      },
+      select: {
+        id: true,
+        title: true,
+        status: true,
+        dueDate: true,
+        updatedAt: true,
+        project: { select: { id: true, name: true } }
+      },
+      orderBy: { dueDate: 'asc' },
+      take: limit
+    }) as unknown as ICalendarTask[];
+  }
+
+  /**
+   * Retrieves projects with their dates
+   * @param projectIds Project identifiers
+   * @returns Projects by start date
+   */
+  async findProjects(projectIds: UUID[]): Promise<ICalendarProject[]> {
+    return await this.prisma.project.findMany({
+      where: { id: { in: projectIds }, deletedAt: null },
+      select: { id: true, name: true, startDate: true, endDate: true, updatedAt: true },
+      orderBy: { startDate: 'asc' }
+    }) as unknown as ICalendarProject[];
+  }
+
+  /**
+   * Retrieves the milestones of projects that are due since a day
+   * @param projectIds Project identifiers
+   * @param since Earliest due date
+   * @param limit Most milestones returned
+   * @returns Milestones by due date
+   */
+  async findMilestones(projectIds: UUID[], since: Date, limit: number): Promise<ICalendarMilestone[]> {
+    return await this.prisma.milestone.findMany({
+      where: {
+        projectId: { in: projectIds },
+        dueDate: { gte: since },
+        project: { deletedAt: null }
+      },
+      select: {
+        id: true,
+        name: true,
+        dueDate: true,
+        updatedAt: true,
+        project: { select: { id: true, name: true } }
+      },
+      orderBy: { dueDate: 'asc' },
+      take: limit
+    }) as unknown as ICalendarMilestone[];
+  }
+}
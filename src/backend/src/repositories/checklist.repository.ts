@@ -0,0 +1,107 @@
+/**
+ * @fileoverview Repository for checklist items inside a task
+ * @version 1.0.0
+ * @module repositories/checklist
+ */
+
+import { PrismaClient } from '@prisma/client'; // v5.0+
+import { UUID } from 'crypto';
+
+// Internal imports
+import { IChecklistItem } from '../interfaces/checklist.interface';
+
+/**
+ * Repository implementing data access for checklist items
+ */
+export class ChecklistRepository {
+  private readonly prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Creates an item; without a position it is appended after the last item
+   * @param data Item data
+   * @returns Created item
+   */
+  async create(data: {
+    taskId: UUID;
+    title: string;
+    position?: number;
+    createdBy: UUID;
+  }): Promise<IChecklistItem> {
+    return await this.prisma.$transaction(async (tx) => {
+      let position = data.position;
+      if (position === undefined) {
+        const last = await tx.checklistItem.aggregate({
+          where: { taskId: data.taskId },
+          _max: { position: true }
+        });
+        position = (last._max.position ?? -1) + 1;
+      }
+
+      return await tx.checklistItem.create({
+        data: { ...data, position }
+      });
+    }) as unknown as IChecklistItem;
+  }
+
+  /**
+   * Retrieves an item by ID
+   * @param id Item identifier
+   * @returns Item or null
+   */
+  async findById(id: UUID): Promise<IChecklistItem | null> {
+    return await this.prisma.checklistItem.findUnique({
+      where: { id }
+    }) as unknown as IChecklistItem | null;
+  }
+
+  /**
+   * Retrieves items of a task in display order
+   * @param taskId Task identifier
+   * @returns Ordered items
+   */
+  async findByTaskId(taskId: UUID): Promise<IChecklistItem[]> {
+    return await this.prisma.checklistItem.findMany({
+      where: { taskId },
+      orderBy: [{ position: 'asc' }, { createdAt: 'asc' }]
+    }) as unknown as IChecklistItem[];
+  }
+
+  /**
+   * Counts items of a task
+   * @param taskId Task identifier
+   * @returns Number of items
+   */
+  async countByTaskId(taskId: UUID): Promise<number> {
+    return await this.prisma.checklistItem.count({ where: { taskId } });
+  }
+
+  /**
+   * Updates an item
+   * @param id Item identifier
+   * @param data Fields to change
+   * @returns Updated item
+   */
+  async update(
+    id: UUID,
+    data: Partial<Pick<IChecklistItem, 'title' | 'isCompleted' | 'position' | 'completedAt' | 'completedBy'>>
+  ): Promise<IChecklistItem> {
+    return await this.prisma.checklistItem.update({
+      where: { id },
+      data
+    }) as unknown as IChecklistItem;
+  }
+
+  /**
+   * Deletes an item
+   * @param id Item identifier
+   */
+  async delete(id: UUID): Promise<void> {
+    await this.prisma.checklistItem.delete({ where: { id } });
+  }
+}
+
+export default ChecklistRepository;
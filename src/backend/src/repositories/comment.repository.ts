@@ -23,6 +23,7 @@ interface CommentQueryOptions {
   sortBy?: keyof Comment;
   sortOrder?: 'asc' | 'desc';
   includeDeleted?: boolean;
+  topLevelOnly?: boolean; // Return only root comments with their replies embedded
 }
 
 /**
@@ -66,6 +67,7 @@ export class CommentRepository {
     content: string;
     taskId: UUID;
     authorId: UUID;
+    parentId?: UUID;
     mentions?: string[];
     attachments?: string[];
   }): Promise<Comment> {
@@ -86,6 +88,7 @@ export class CommentRepository {
             content: data.content,
             taskId: data.taskId,
             authorId: data.authorId,
+            parentId: data.parentId || null,
             mentions: data.mentions || [],
             attachments: data.attachments || [],
             version: 1,
@@ -172,12 +175,22 @@ export class CommentRepository {
         limit = 20,
         sortBy = 'createdAt',
         sortOrder = 'desc',
-        includeDeleted = false
+        includeDeleted = false,
+        topLevelOnly = false
       } = options;
 
       const where = {
         taskId,
-        isModerated: includeDeleted ? undefined : false
+        isModerated: includeDeleted ? undefined : false,
+        ...(topLevelOnly && { parentId: null })
+      };
+
+      const authorSelect = {
+        select: {
+          id: true,
+          name: true,
+          email: true
+        }
       };
 
       const [items, total] = await Promise.all([
@@ -187,13 +200,14 @@ export class CommentRepository {
           take: limit,
           orderBy: { [sortBy]: sortOrder },
           include: {
-            author: {
-              select: {
-                id: true,
-                name: true,
-                email: true
+            author: authorSelect,
+            ...(topLevelOnly && {
+              replies: {
+                where: { isModerated: includeDeleted ? undefined : false },
+                orderBy: { createdAt: 'asc' },
+                include: { author: authorSelect }
               }
-            }
+            })
           }
         }),
         this.prisma.comment.count({ where })
@@ -246,6 +260,7 @@ export class CommentRepository {
           where: { id },
           data: {
             ...data,
+            isEdited: data.content !== undefined ? true : currentComment.isEdited,
             version: {
               increment: 1
             },
@@ -0,0 +1,130 @@
+/**
+ * @fileoverview Repository for the custom fields defined on projects
+ * @version 1.0.0
+ * @module repositories/customField
+ */
+
+import { PrismaClient } from '@prisma/client'; // v5.0+
+import { UUID } from 'crypto';
+
+// Internal imports
+import {
+  ICustomField,
+  ICreateCustomFieldDTO,
+  IUpdateCustomFieldDTO
+} from '../interfaces/customField.interface';
+
+/**
+ * Repository implementing data access for custom field definitions. Deleted fields are
+ * soft deleted so their key cannot be reused with a different type.
+ */
+export class CustomFieldRepository {
+  private readonly prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Retrieves the current fields of a project in display order
+   * @param projectId Project identifier
+   * @returns Field definitions
+   */
+  async findByProject(projectId: UUID): Promise<ICustomField[]> {
+    return await this.prisma.customField.findMany({
+      where: { projectId, deletedAt: null },
+      orderBy: [{ position: 'asc' }, { createdAt: 'asc' }]
+    }) as unknown as ICustomField[];
+  }
+
+  /**
+   * Retrieves the current fields with the given keys, optionally limited to some projects
+   * @param keys Field keys
+   * @param projectIds Projects to search, or null for every project
+   * @returns Field definitions
+   */
+  async findByKeys(keys: string[], projectIds: UUID[] | null): Promise<ICustomField[]> {
+    return await this.prisma.customField.findMany({
+      where: {
+        key: { in: keys },
+        projectId: projectIds ? { in: projectIds } : undefined,
+        deletedAt: null
+      }
+    }) as unknown as ICustomField[];
+  }
+
+  /**
+   * Retrieves a current field of a project
+   * @param projectId Project identifier
+   * @param fieldId Field identifier
+   * @returns Field definition or null if not found
+   */
+  async findById(projectId: UUID, fieldId: UUID): Promise<ICustomField | null> {
+    return await this.prisma.customField.findFirst({
+      where: { id: fieldId, projectId, deletedAt: null }
+    }) as unknown as ICustomField | null;
+  }
+
+  /**
+   * Checks whether a key was ever used by a field of the project, including deleted ones
+   * @param projectId Project identifier
+   * @param key Field key
+   */
+  async keyExists(projectId: UUID, key: string): Promise<boolean> {
+    const count = await this.prisma.customField.count({
+      where: { projectId, key }
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Creates a field
+   * @param projectId Project identifier
+   * @param data Field definition
+   * @param createdBy User defining the field
+   * @returns Created field
+   */
+  async create(
+    projectId: UUID,
+    data: ICreateCustomFieldDTO,
+    createdBy: UUID
+  ): Promise<ICustomField> {
+    return await this.prisma.customField.create({
+      data: {
+        projectId,
+        key: data.key,
+        name: data.name,
+        type: data.type,
+        options: data.options || [],
+        required: data.required || false,
+        position: data.position ?? 0,
+        createdBy
+      }
+    }) as unknown as ICustomField;
+  }
+
+  /**
+   * Updates the mutable attributes of a field
+   * @param fieldId Field identifier
+   * @param data Changed attributes
+   * @returns Updated field
+   */
+  async update(fieldId: UUID, data: IUpdateCustomFieldDTO): Promise<ICustomField> {
+    return await this.prisma.customField.update({
+      where: { id: fieldId },
+      data
+    }) as unknown as ICustomField;
+  }
+
+  /**
+   * Soft deletes a field
+   * @param fieldId Field identifier
+   */
+  async delete(fieldId: UUID): Promise<void> {
+    await this.prisma.customField.update({
+      where: { id: fieldId },
+      data: { deletedAt: new Date() }
+    });
+  }
+}
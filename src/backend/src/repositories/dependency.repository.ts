@@ -0,0 +1,173 @@
+/**
+ * @fileoverview Repository for blocks/blocked-by links between tasks
+ * @version 1.0.0
+ * @module repositories/dependency
+ */
+
+import { PrismaClient } from '@prisma/client'; // v5.0+
+import { UUID } from 'crypto';
+
+// Internal imports
+import {
+  ITaskDependency,
+  ITaskDependencyLink,
+  IDependencyTaskSummary
+} from '../interfaces/dependency.interface';
+import { WorkflowCategory } from '../types/workflow.types';
+
+// Fields loaded for the task on the other side of a link
+const TASK_SUMMARY_SELECT = {
+  id: true,
+  title: true,
+  status: true
+};
+
+/**
+ * Dependent task with the fields needed to transition it
+ */
+export interface IDependentTask extends IDependencyTaskSummary {
+  version: number;
+  priority: string;
+  assigneeId: UUID;
+}
+
+/**
+ * Repository implementing data access for task dependency links
+ */
+export class TaskDependencyRepository {
+  private readonly prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Creates a link where blockerId blocks blockedId
+   * @param blockerId Task that must complete first
+   * @param blockedId Task that waits
+   * @param createdBy User creating the link
+   * @returns Created link
+   */
+  async create(blockerId: UUID, blockedId: UUID, createdBy: UUID): Promise<ITaskDependency> {
+    return await this.prisma.taskDependency.create({
+      data: { blockerId, blockedId, createdBy }
+    }) as unknown as ITaskDependency;
+  }
+
+  /**
+   * Retrieves a link by ID
+   * @param id Link identifier
+   * @returns Link or null
+   */
+  async findById(id: UUID): Promise<ITaskDependency | null> {
+    return await this.prisma.taskDependency.findUnique({
+      where: { id }
+    }) as unknown as ITaskDependency | null;
+  }
+
+  /**
+   * Retrieves the link between two tasks in the given direction
+   * @param blockerId Blocking task
+   * @param blockedId Blocked task
+   * @returns Link or null
+   */
+  async findLink(blockerId: UUID, blockedId: UUID): Promise<ITaskDependency | null> {
+    return await this.prisma.taskDependency.findUnique({
+      where: { blockerId_blockedId: { blockerId, blockedId } }
+    }) as unknown as ITaskDependency | null;
+  }
+
+  /**
+   * Deletes a link
+   * @param id Link identifier
+   */
+  async delete(id: UUID): Promise<void> {
+    await this.prisma.taskDependency.delete({ where: { id } });
+  }
+
+  /**
+   * Retrieves links of a task in both directions with the linked task embedded
+   * @param taskId Task identifier
+   * @returns Links where the task is blocked and links where it blocks
+   */
+  async findByTaskId(taskId: UUID): Promise<{
+    blockedBy: ITaskDependencyLink[];
+    blocks: ITaskDependencyLink[];
+  }> {
+    const [blockedBy, blocks] = await Promise.all([
+      this.prisma.taskDependency.findMany({
+        where: { blockedId: taskId, blocker: { deletedAt: null } },
+        include: { blocker: { select: TASK_SUMMARY_SELECT } },
+        orderBy: { createdAt: 'asc' }
+      }),
+      this.prisma.taskDependency.findMany({
+        where: { blockerId: taskId, blocked: { deletedAt: null } },
+        include: { blocked: { select: TASK_SUMMARY_SELECT } },
+        orderBy: { createdAt: 'asc' }
+      })
+    ]);
+
+    return {
+      blockedBy: blockedBy.map(({ blocker, ...link }) => ({ ...link, task: blocker })) as unknown as ITaskDependencyLink[],
+      blocks: blocks.map(({ blocked, ...link }) => ({ ...link, task: blocked })) as unknown as ITaskDependencyLink[]
+    };
+  }
+
+  /**
+   * Retrieves outgoing edges of a set of tasks, used to walk the dependency graph
+   * @param blockerIds Tasks whose blocked tasks are requested
+   * @returns Edges leaving the given tasks
+   */
+  async findEdgesFrom(blockerIds: UUID[]): Promise<Array<{ blockerId: UUID; blockedId: UUID }>> {
+    return await this.prisma.taskDependency.findMany({
+      where: { blockerId: { in: blockerIds } },
+      select: { blockerId: true, blockedId: true }
+    }) as unknown as Array<{ blockerId: UUID; blockedId: UUID }>;
+  }
+
+  /**
+   * Retrieves blockers of a task that are neither completed nor deleted
+   * @param taskId Blocked task identifier
+   * @returns Open blocking tasks
+   */
+  async findOpenBlockers(taskId: UUID): Promise<IDependencyTaskSummary[]> {
+    const links = await this.prisma.taskDependency.findMany({
+      where: {
+        blockedId: taskId,
+        blocker: {
+          deletedAt: null,
+          // Blockers in any DONE state of their workflow no longer hold up dependents
+          statusCategory: { not: WorkflowCategory.DONE }
+        }
+      },
+      include: { blocker: { select: TASK_SUMMARY_SELECT } }
+    });
+
+    return links.map(link => link.blocker) as unknown as IDependencyTaskSummary[];
+  }
+
+  /**
+   * Retrieves active tasks blocked by the given task
+   * @param blockerId Blocking task identifier
+   * @returns Dependent tasks
+   */
+  async findDependents(blockerId: UUID): Promise<IDependentTask[]> {
+    const links = await this.prisma.taskDependency.findMany({
+      where: { blockerId, blocked: { deletedAt: null } },
+      include: {
+        blocked: {
+          select: {
+            ...TASK_SUMMARY_SELECT,
+            version: true,
+            priority: true,
+            assigneeId: true
+          }
+        }
+      }
+    });
+
+    return links.map(link => link.blocked) as unknown as IDependentTask[];
+  }
+}
+
+export default TaskDependencyRepository;
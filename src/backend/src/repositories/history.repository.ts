@@ -0,0 +1,59 @@
+/**
+ * @fileoverview Repository for the change history of tasks and projects
+ * @version 1.0.0
+ * @module repositories/history
+ */
+
+import { PrismaClient } from '@prisma/client'; // v5.0+
+import { UUID } from 'crypto';
+
+// Internal imports
+import { IChangeHistoryEntry, IHistoryQueryParams } from '../interfaces/history.interface';
+import { HistoryEntityType } from '../types/history.types';
+
+/**
+ * Repository implementing read access to the change history. Entries are written by
+ * the task and project repositories inside their update transactions.
+ */
+export class HistoryRepository {
+  private readonly prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Retrieves a page of changes of an entity, newest first
+   * @param entityType Kind of entity
+   * @param entityId Entity identifier
+   * @param params Pagination and field filter
+   * @returns Page of entries and total count
+   */
+  async findByEntity(
+    entityType: HistoryEntityType,
+    entityId: UUID,
+    params: IHistoryQueryParams
+  ): Promise<{ items: IChangeHistoryEntry[]; total: number }> {
+    const where = {
+      entityType,
+      entityId,
+      field: params.field
+    };
+
+    const [items, total] = await Promise.all([
+      this.prisma.changeHistory.findMany({
+        where,
+        // Changes of one update share a timestamp, so fall back to field order
+        orderBy: [{ changedAt: 'desc' }, { field: 'asc' }],
+        skip: (params.page - 1) * params.limit,
+        take: params.limit
+      }),
+      this.prisma.changeHistory.count({ where })
+    ]);
+
+    return {
+      items: items as unknown as IChangeHistoryEntry[],
+      total
+    };
+  }
+}
@@ -0,0 +1,227 @@
+/**
+ * @fileoverview Repository for task imports and the rows they hold until committed
+ * @version 1.0.0
+ * @module repositories/import
+ */
+
+import { PrismaClient, Prisma } from '@prisma/client'; // v5.0+
+import { UUID } from 'crypto';
+
+// Internal imports
+import {
+  ITaskImport,
+  ITaskImportRowError,
+  TaskImportMapping,
+  TaskImportRow
+} from '../interfaces/import.interface';
+import { TaskImportFormat, TaskImportStatus } from '../types/import.types';
+import { ParsedImportFile } from '../utils/import.util';
+
+/**
+ * Import attributes returned to callers; the rows are loaded only to process them
+ */
+const IMPORT_SELECT = {
+  id: true,
+  projectId: true,
+  fileName: true,
+  format: true,
+  status: true,
+  columns: true,
+  mapping: true,
+  totalRows: true,
+  processedRows: true,
+  createdCount: true,
+  failedCount: true,
+  errors: true,
+  startedAt: true,
+  completedAt: true,
+  createdAt: true,
+  updatedAt: true,
+  createdBy: true
+} as const;
+
+/**
+ * Import row as loaded with IMPORT_SELECT
+ */
+type TaskImportRecord = Prisma.TaskImportGetPayload<{ select: typeof IMPORT_SELECT }>;
+
+/**
+ * Counts of a running import
+ */
+export interface ITaskImportProgress {
+  processedRows: number;
+  createdCount: number;
+  failedCount: number;
+  errors: ITaskImportRowError[];
+}
+
+/**
+ * Repository implementing data access for task imports. Rows are stored with the
+ * import when it is uploaded and dropped once it has been processed.
+ */
+export class TaskImportRepository {
+  private readonly prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Stores an uploaded file as a pending import
+   * @param projectId Project identifier
+   * @param fileName Name of the uploaded file
+   * @param file Parsed file
+   * @param createdBy User uploading the file
+   * @returns Created import
+   */
+  async create(
+    projectId: UUID,
+    fileName: string,
+    file: ParsedImportFile,
+    createdBy: UUID
+  ): Promise<ITaskImport> {
+    const record = await this.prisma.taskImport.create({
+      data: {
+        projectId,
+        fileName,
+        format: file.format,
+        columns: file.columns,
+        rows: file.rows,
+        totalRows: file.rows.length,
+        createdBy
+      },
+      select: IMPORT_SELECT
+    });
+
+    return this.toImport(record);
+  }
+
+  /**
+   * Retrieves an import of a project
+   * @param projectId Project identifier
+   * @param importId Import identifier
+   * @returns Import or null if not found
+   */
+  async findById(projectId: UUID, importId: UUID): Promise<ITaskImport | null> {
+    const record = await this.prisma.taskImport.findFirst({
+      where: { id: importId, projectId },
+      select: IMPORT_SELECT
+    });
+
+    return record ? this.toImport(record) : null;
+  }
+
+  /**
+   * Retrieves the rows of an import
+   * @param importId Import identifier
+   * @returns Rows in file order; empty once the import has been processed
+   */
+  async findRows(importId: UUID): Promise<TaskImportRow[]> {
+    const record = await this.prisma.taskImport.findUnique({
+      where: { id: importId },
+      select: { rows: true }
+    });
+
+    return (record?.rows ?? []) as TaskImportRow[];
+  }
+
+  /**
+   * Stores the mapping last validated
+   * @param importId Import identifier
+   * @param mapping Column per field
+   */
+  async updateMapping(importId: UUID, mapping: TaskImportMapping): Promise<void> {
+    await this.prisma.taskImport.update({
+      where: { id: importId },
+      data: { mapping }
+    });
+  }
+
+  /**
+   * Marks a pending import as running; of concurrent commits only one succeeds
+   * @param importId Import identifier
+   * @param mapping Column per field the rows are imported with
+   * @returns Started import, or null when it was no longer pending
+   */
+  async start(importId: UUID, mapping: TaskImportMapping): Promise<ITaskImport | null> {
+    const { count } = await this.prisma.taskImport.updateMany({
+      where: { id: importId, status: TaskImportStatus.PENDING },
+      data: { status: TaskImportStatus.RUNNING, mapping, startedAt: new Date() }
+    });
+
+    if (count === 0) {
+      return null;
+    }
+
+    const record = await this.prisma.taskImport.findUniqueOrThrow({
+      where: { id: importId },
+      select: IMPORT_SELECT
+    });
+
+    return this.toImport(record);
+  }
+
+  /**
+   * Records the progress of a running import
+   * @param importId Import identifier
+   * @param progress Counts so far
+   */
+  async updateProgress(importId: UUID, progress: ITaskImportProgress): Promise<void> {
+    await this.prisma.taskImport.update({
+      where: { id: importId },
+      data: { ...progress, errors: this.toErrorsJson(progress.errors) }
+    });
+  }
+
+  /**
+   * Records the end of an import and drops its rows
+   * @param importId Import identifier
+   * @param status COMPLETED, or FAILED when the job stopped early
+   * @param progress Final counts
+   * @returns Finished import
+   */
+  async finish(
+    importId: UUID,
+    status: TaskImportStatus,
+    progress: ITaskImportProgress
+  ): Promise<ITaskImport> {
+    const record = await this.prisma.taskImport.update({
+      where: { id: importId },
+      data: {
+        ...progress,
+        errors: this.toErrorsJson(progress.errors),
+        status,
+        rows: [],
+        completedAt: new Date()
+      },
+      select: IMPORT_SELECT
+    });
+
+    return this.toImport(record);
+  }
+
+  /**
+   * Maps an import row to the import interface
+   * @private
+   */
+  private toImport(record: TaskImportRecord): ITaskImport {
+    return {
+      ...record,
+      id: record.id as UUID,
+      projectId: record.projectId as UUID,
+      createdBy: record.createdBy as UUID,
+      format: record.format as TaskImportFormat,
+      status: record.status as TaskImportStatus,
+      mapping: record.mapping as TaskImportMapping | null,
+      errors: record.errors as unknown as ITaskImportRowError[]
+    };
+  }
+
+  /**
+   * Converts the row errors to the JSON stored with the import
+   * @private
+   */
+  private toErrorsJson(errors: ITaskImportRowError[]): Prisma.InputJsonValue {
+    return errors.map(({ row, errors: fieldErrors }) => ({ row, errors: fieldErrors }));
+  }
+}
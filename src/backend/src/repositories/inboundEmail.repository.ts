@@ -0,0 +1,115 @@
+/**
+ * @fileoverview Repository for the inbound email log and the lookups of its senders
+ * @version 1.0.0
+ * @module repositories/inboundEmail
+ */
+
+import { PrismaClient, InboundEmail } from '@prisma/client'; // v5.0+
+import { UUID } from 'crypto';
+
+// Internal imports
+import { IInboundEmail } from '../interfaces/inboundEmail.interface';
+import { InboundEmailAction, InboundEmailStatus } from '../types/inboundEmail.types';
+import { UserRole, UserStatus } from '../types/user.types';
+
+/**
+ * User a message was sent by
+ */
+export interface IInboundEmailSender {
+  id: UUID;
+  role: UserRole;
+}
+
+/**
+ * Logged data of a message
+ */
+export type InboundEmailRecord = Omit<IInboundEmail, 'id' | 'messageKey' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Repository implementing data access for inbound email
+ */
+export class InboundEmailRepository {
+  private readonly prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Retrieves a logged message
+   * @param messageKey Message-ID or hash of the message
+   * @returns Logged message or null if it was not received before
+   */
+  async findByMessageKey(messageKey: string): Promise<IInboundEmail | null> {
+    const record = await this.prisma.inboundEmail.findUnique({
+      where: { messageKey }
+    });
+
+    return record ? this.toInboundEmail(record) : null;
+  }
+
+  /**
+   * Retrieves the active user with an email address, ignoring case
+   * @param email Sender address
+   * @returns Sender or null if no active user has the address
+   */
+  async findSender(email: string): Promise<IInboundEmailSender | null> {
+    const user = await this.prisma.user.findFirst({
+      where: {
+        email: { equals: email, mode: 'insensitive' },
+        status: UserStatus.ACTIVE,
+        deletedAt: null
+      },
+      select: { id: true, role: true }
+    });
+
+    return user ? { id: user.id as UUID, role: user.role as UserRole } : null;
+  }
+
+  /**
+   * Retrieves the project of a task that is not deleted
+   * @param taskId Task identifier
+   * @returns Project identifier or null if the task does not exist
+   */
+  async findTaskProjectId(taskId: UUID): Promise<UUID | null> {
+    const task = await this.prisma.task.findFirst({
+      where: { id: taskId, deletedAt: null },
+      select: { projectId: true }
+    });
+
+    return (task?.projectId as UUID) ?? null;
+  }
+
+  /**
+   * Logs a message, replacing the entry of an earlier attempt to process it
+   * @param messageKey Message-ID or hash of the message
+   * @param data Outcome of processing the message
+   * @returns Logged message
+   */
+  async save(messageKey: string, data: InboundEmailRecord): Promise<IInboundEmail> {
+    const record = await this.prisma.inboundEmail.upsert({
+      where: { messageKey },
+      create: { messageKey, ...data },
+      update: data
+    });
+
+    return this.toInboundEmail(record);
+  }
+
+  /**
+   * Converts a logged message row to the inbound email interface
+   * @private
+   */
+  private toInboundEmail(record: InboundEmail): IInboundEmail {
+    return {
+      ...record,
+      id: record.id as UUID,
+      status: record.status as InboundEmailStatus,
+      action: record.action as InboundEmailAction | null,
+      projectId: record.projectId as UUID | null,
+      taskId: record.taskId as UUID | null,
+      commentId: record.commentId as UUID | null,
+      userId: record.userId as UUID | null
+    };
+  }
+}
@@ -7,10 +7,28 @@
 
 // Import repository implementations and interfaces
 import { AttachmentRepository } from './attachment.repository';
+import { CalendarFeedRepository } from './calendar.repository';
+import { ChecklistRepository } from './checklist.repository';
 import { CommentRepository } from './comment.repository';
+import { CustomFieldRepository } from './customField.repository';
+import { TaskDependencyRepository } from './dependency.repository';
+import { HistoryRepository } from './history.repository';
+import { TaskImportRepository } from './import.repository';
+import { InboundEmailRepository } from './inboundEmail.repository';
+import { MembershipRepository } from './membership.repository';
+import { MilestoneRepository } from './milestone.repository';
+import { NotificationRepository } from './notification.repository';
+import { PermissionRepository } from './permission.repository';
 import { ProjectRepository } from './project.repository';
+import { RecurrenceRepository } from './recurrence.repository';
+import { SavedViewRepository } from './savedView.repository';
+import { SearchRepository } from './search.repository';
+import { SprintRepository } from './sprint.repository';
 import { TaskRepository } from './task.repository';
 import { UserRepository } from './user.repository';
+import { WebhookRepository } from './webhook.repository';
+import { WorkflowRepository } from './workflow.repository';
+import { WorklogRepository } from './worklog.repository';
 
 /**
  * Base repository interface defining common data access methods
@@ -27,14 +45,67 @@ export interface IRepository<T, CreateDTO, UpdateDTO> {
 export type { IAttachmentRepository } from './attachment.repository';
 export { AttachmentRepository };
 
+// Export calendar feed repository and token lookup result
+export type { ICalendarFeedOwner } from './calendar.repository';
+export { CalendarFeedRepository };
+
+// Export checklist repository
+export { ChecklistRepository };
+
 // Export comment repository and interface
 export type { ICommentRepository } from './comment.repository';
 export { CommentRepository };
 
+// Export custom field repository
+export { CustomFieldRepository };
+
+// Export task dependency repository and dependent task projection
+export type { IDependentTask } from './dependency.repository';
+export { TaskDependencyRepository };
+
+// Export change history repository
+export { HistoryRepository };
+
+// Export task import repository and progress counts
+export type { ITaskImportProgress } from './import.repository';
+export { TaskImportRepository };
+
+// Export inbound email repository and sender lookup result
+export type { IInboundEmailSender, InboundEmailRecord } from './inboundEmail.repository';
+export { InboundEmailRepository };
+
+// Export project membership repository
+export { MembershipRepository };
+
+// Export notification repository and due task projection
+export type { DueTask } from './notification.repository';
+export { NotificationRepository };
+
+// Export role permission repository and stored grant shape
+export type { IRolePermissionRecord } from './permission.repository';
+export { PermissionRepository };
+
 // Export project repository and interface
 export type { IProjectRepository } from './project.repository';
 export { ProjectRepository };
 
+// Export recurrence rule repository
+export { RecurrenceRepository };
+
+// Export saved task view repository
+export { SavedViewRepository };
+
+// Export full-text search repository
+export type { ISearchPage } from './search.repository';
+export { SearchRepository };
+
+// Export project milestone repository
+export type { IMilestoneStatusInput } from './milestone.repository';
+export { MilestoneRepository };
+
+// Export project sprint repository
+export { SprintRepository };
+
 // Export task repository and interface
 export type { ITaskRepository } from './task.repository';
 export { TaskRepository };
@@ -43,13 +114,42 @@ export { TaskRepository };
 export type { IUserRepository } from './user.repository';
 export { UserRepository };
 
+// Export webhook repository and delivery attempt targets
+export type { IWebhookSigningTarget, IWebhookDeliveryTarget } from './webhook.repository';
+export { WebhookRepository };
+
+// Export project workflow repository
+export { WorkflowRepository };
+
+// Export worklog and timer repository
+export type { ITimesheetFilter } from './worklog.repository';
+export { WorklogRepository };
+
 /**
  * Default export of all repositories for convenient module imports
  */
 export default {
   AttachmentRepository,
+  CalendarFeedRepository,
+  ChecklistRepository,
   CommentRepository,
+  CustomFieldRepository,
+  HistoryRepository,
+  InboundEmailRepository,
+  MembershipRepository,
+  MilestoneRepository,
+  NotificationRepository,
+  PermissionRepository,
   ProjectRepository,
+  RecurrenceRepository,
+  SavedViewRepository,
+  SearchRepository,
+  SprintRepository,
+  TaskDependencyRepository,
+  TaskImportRepository,
   TaskRepository,
-  UserRepository
+  UserRepository,
+  WebhookRepository,
+  WorkflowRepository,
+  WorklogRepository
 };
\ No newline at end of file
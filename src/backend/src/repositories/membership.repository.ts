@@ -0,0 +1,114 @@
+/**
+ * @fileoverview Repository for project members and their per-project roles
+ * @version 1.0.0
+ * @module repositories/membership
+ */
+
+import { PrismaClient } from '@prisma/client'; // v5.0+
+import { UUID } from 'crypto';
+
+// Internal imports
+import { IProjectMember } from '../interfaces/membership.interface';
+import { ProjectRole } from '../types/project.types';
+
+// User fields returned with each member
+const MEMBER_USER_SELECT = {
+  id: true,
+  name: true,
+  email: true
+};
+
+/**
+ * Repository implementing data access for project membership. Removed members are
+ * soft deleted, and adding them again restores the same row.
+ */
+export class MembershipRepository {
+  private readonly prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Retrieves the current members of a project, owners first
+   * @param projectId Project identifier
+   * @returns Members with their user
+   */
+  async findByProject(projectId: UUID): Promise<IProjectMember[]> {
+    return await this.prisma.projectMember.findMany({
+      where: { projectId, deletedAt: null },
+      include: { user: { select: MEMBER_USER_SELECT } },
+      orderBy: [{ role: 'asc' }, { joinedAt: 'asc' }]
+    }) as unknown as IProjectMember[];
+  }
+
+  /**
+   * Retrieves the current membership of a user in a project
+   * @param projectId Project identifier
+   * @param userId User identifier
+   * @returns Membership or null when the user is not a member
+   */
+  async findMembership(projectId: UUID, userId: UUID): Promise<IProjectMember | null> {
+    return await this.prisma.projectMember.findFirst({
+      where: { projectId, userId, deletedAt: null }
+    }) as unknown as IProjectMember | null;
+  }
+
+  /**
+   * Retrieves the projects a user currently belongs to
+   * @param userId User identifier
+   * @returns Project identifiers
+   */
+  async findProjectIds(userId: UUID): Promise<UUID[]> {
+    const memberships = await this.prisma.projectMember.findMany({
+      where: { userId, deletedAt: null },
+      select: { projectId: true }
+    });
+
+    return memberships.map(membership => membership.projectId as UUID);
+  }
+
+  /**
+   * Adds a member, restoring a removed membership or changing the role of a current one
+   * @param projectId Project identifier
+   * @param userId User identifier
+   * @param role Project role
+   * @param addedBy User adding the member
+   * @returns Membership with its user
+   */
+  async upsert(
+    projectId: UUID,
+    userId: UUID,
+    role: ProjectRole,
+    addedBy: UUID
+  ): Promise<IProjectMember> {
+    return await this.prisma.projectMember.upsert({
+      where: { projectId_userId: { projectId, userId } },
+      create: { projectId, userId, role, addedBy },
+      update: { role, deletedAt: null },
+      include: { user: { select: MEMBER_USER_SELECT } }
+    }) as unknown as IProjectMember;
+  }
+
+  /**
+   * Soft deletes a membership
+   * @param projectId Project identifier
+   * @param userId User identifier
+   */
+  async remove(projectId: UUID, userId: UUID): Promise<void> {
+    await this.prisma.projectMember.updateMany({
+      where: { projectId, userId, deletedAt: null },
+      data: { deletedAt: new Date() }
+    });
+  }
+
+  /**
+   * Counts the current owners of a project
+   * @param projectId Project identifier
+   */
+  async countOwners(projectId: UUID): Promise<number> {
+    return await this.prisma.projectMember.count({
+      where: { projectId, role: ProjectRole.OWNER, deletedAt: null }
+    });
+  }
+}
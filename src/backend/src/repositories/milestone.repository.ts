@@ -0,0 +1,305 @@
+/**
+ * @fileoverview Repository for project milestones and their linked tasks
+ * @version 1.0.0
+ * @module repositories/milestone
+ */
+
+import { PrismaClient, Prisma } from '@prisma/client'; // v5.0+
+import { UUID } from 'crypto';
+
+// Internal imports
+import {
+  IMilestone,
+  ICreateMilestoneDTO,
+  IUpdateMilestoneDTO
+} from '../interfaces/milestone.interface';
+import { MilestoneStatus } from '../types/milestone.types';
+import { WorkflowCategory } from '../types/workflow.types';
+import { MilestoneTaskState } from '../utils/milestone.util';
+
+/**
+ * Linked task attributes loaded with every milestone
+ */
+const LINKED_TASK_SELECT = {
+  task: {
+    select: { id: true, statusCategory: true, dueDate: true, deletedAt: true }
+  }
+} as const;
+
+/**
+ * Relations loaded with every milestone
+ */
+const MILESTONE_INCLUDE = {
+  tasks: { select: LINKED_TASK_SELECT }
+} as const;
+
+/**
+ * Milestone row as loaded with MILESTONE_INCLUDE
+ */
+type MilestoneRow = Prisma.MilestoneGetPayload<{ include: typeof MILESTONE_INCLUDE }>;
+
+/**
+ * Linked task as loaded with LINKED_TASK_SELECT
+ */
+type LinkedTaskRow = MilestoneRow['tasks'][number]['task'];
+
+/**
+ * Milestone with the state of its linked tasks, as needed to derive its status
+ */
+export interface IMilestoneStatusInput {
+  id: UUID;
+  projectId: UUID;
+  name: string;
+  dueDate: Date;
+  status: MilestoneStatus;
+  tasks: MilestoneTaskState[];
+}
+
+/**
+ * Repository implementing data access for milestones. Each milestone stores the status
+ * it was last computed with, so that changes can be detected and announced.
+ */
+export class MilestoneRepository {
+  private readonly prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Retrieves the milestones of a project by date
+   * @param projectId Project identifier
+   * @returns Milestones
+   */
+  async findByProject(projectId: UUID): Promise<IMilestone[]> {
+    const milestones = await this.prisma.milestone.findMany({
+      where: { projectId },
+      include: MILESTONE_INCLUDE,
+      orderBy: [{ dueDate: 'asc' }, { createdAt: 'asc' }]
+    });
+
+    return milestones.map(milestone => this.toMilestone(milestone));
+  }
+
+  /**
+   * Retrieves a milestone of a project
+   * @param projectId Project identifier
+   * @param milestoneId Milestone identifier
+   * @returns Milestone or null if not found
+   */
+  async findById(projectId: UUID, milestoneId: UUID): Promise<IMilestone | null> {
+    const milestone = await this.prisma.milestone.findFirst({
+      where: { id: milestoneId, projectId },
+      include: MILESTONE_INCLUDE
+    });
+
+    return milestone ? this.toMilestone(milestone) : null;
+  }
+
+  /**
+   * Retrieves the state of active tasks of a project
+   * @param projectId Project identifier
+   * @param taskIds Task identifiers
+   * @returns State of the tasks that exist in the project
+   */
+  async findTaskStates(
+    projectId: UUID,
+    taskIds: UUID[]
+  ): Promise<Array<MilestoneTaskState & { id: UUID }>> {
+    if (taskIds.length === 0) {
+      return [];
+    }
+
+    const tasks = await this.prisma.task.findMany({
+      where: { id: { in: taskIds }, projectId, deletedAt: null },
+      select: LINKED_TASK_SELECT.task.select
+    });
+
+    return tasks.map(task => ({ id: task.id as UUID, ...this.toTaskState(task) }));
+  }
+
+  /**
+   * Creates a milestone linked to the given tasks
+   * @param projectId Project identifier
+   * @param data Milestone attributes
+   * @param status Status derived from the linked tasks
+   * @param createdBy User creating the milestone
+   * @returns Created milestone
+   */
+  async create(
+    projectId: UUID,
+    data: ICreateMilestoneDTO,
+    status: MilestoneStatus,
+    createdBy: UUID
+  ): Promise<IMilestone> {
+    const milestone = await this.prisma.milestone.create({
+      data: {
+        projectId,
+        name: data.name,
+        description: data.description ?? null,
+        dueDate: data.dueDate,
+        status,
+        createdBy,
+        tasks: {
+          create: [...new Set(data.taskIds ?? [])].map(taskId => ({ taskId }))
+        }
+      },
+      include: MILESTONE_INCLUDE
+    });
+
+    return this.toMilestone(milestone);
+  }
+
+  /**
+   * Updates a milestone; when taskIds is given it replaces the linked tasks
+   * @param milestoneId Milestone identifier
+   * @param data Changed attributes
+   * @param status Status derived from the resulting milestone
+   * @returns Updated milestone
+   */
+  async update(
+    milestoneId: UUID,
+    data: IUpdateMilestoneDTO,
+    status: MilestoneStatus
+  ): Promise<IMilestone> {
+    const { taskIds, ...attributes } = data;
+
+    return await this.prisma.$transaction(async (tx) => {
+      const current = await tx.milestone.findUniqueOrThrow({
+        where: { id: milestoneId },
+        select: { status: true }
+      });
+
+      if (taskIds) {
+        await tx.milestoneTask.deleteMany({ where: { milestoneId } });
+        await tx.milestoneTask.createMany({
+          data: [...new Set(taskIds)].map(taskId => ({ milestoneId, taskId }))
+        });
+      }
+
+      const milestone = await tx.milestone.update({
+        where: { id: milestoneId },
+        data: {
+          ...attributes,
+          status,
+          ...(current.status !== status && { statusChangedAt: new Date() })
+        },
+        include: MILESTONE_INCLUDE
+      });
+
+      return this.toMilestone(milestone);
+    });
+  }
+
+  /**
+   * Removes a milestone; the linked tasks are kept
+   * @param milestoneId Milestone identifier
+   */
+  async delete(milestoneId: UUID): Promise<void> {
+    await this.prisma.$transaction([
+      this.prisma.milestoneTask.deleteMany({ where: { milestoneId } }),
+      this.prisma.milestone.delete({ where: { id: milestoneId } })
+    ]);
+  }
+
+  /**
+   * Retrieves the milestones a task is linked to
+   * @param taskId Task identifier
+   * @returns Milestones with the state of their linked tasks
+   */
+  async findStatusInputsByTask(taskId: UUID): Promise<IMilestoneStatusInput[]> {
+    const milestones = await this.prisma.milestone.findMany({
+      where: { tasks: { some: { taskId } } },
+      include: MILESTONE_INCLUDE
+    });
+
+    return milestones.map(milestone => this.toStatusInput(milestone));
+  }
+
+  /**
+   * Retrieves a batch of milestones whose status can still worsen with time: those not
+   * yet missed that have unfinished linked tasks
+   * @param limit Batch size
+   * @param afterId Last milestone of the previous batch
+   * @returns Milestones with the state of their linked tasks, by ID
+   */
+  async findUnsettled(limit: number, afterId?: UUID): Promise<IMilestoneStatusInput[]> {
+    const milestones = await this.prisma.milestone.findMany({
+      where: {
+        status: { not: MilestoneStatus.MISSED },
+        tasks: {
+          some: { task: { deletedAt: null, statusCategory: { not: WorkflowCategory.DONE } } }
+        },
+        ...(afterId && { id: { gt: afterId } })
+      },
+      include: MILESTONE_INCLUDE,
+      orderBy: { id: 'asc' },
+      take: limit
+    });
+
+    return milestones.map(milestone => this.toStatusInput(milestone));
+  }
+
+  /**
+   * Stores a new status unless another process changed it first
+   * @param milestoneId Milestone identifier
+   * @param previous Status the change was computed from
+   * @param status New status
+   * @returns Whether the status was changed
+   */
+  async setStatus(milestoneId: UUID, previous: MilestoneStatus, status: MilestoneStatus): Promise<boolean> {
+    const { count } = await this.prisma.milestone.updateMany({
+      where: { id: milestoneId, status: previous },
+      data: { status, statusChangedAt: new Date() }
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Maps a milestone row with its links to the milestone interface
+   * @private
+   */
+  private toMilestone(row: MilestoneRow): IMilestone {
+    const { tasks, ...milestone } = row;
+    const active = tasks.map(link => link.task).filter(task => !task.deletedAt);
+
+    return {
+      ...milestone,
+      id: milestone.id as UUID,
+      projectId: milestone.projectId as UUID,
+      createdBy: milestone.createdBy as UUID,
+      status: milestone.status as MilestoneStatus,
+      taskIds: active.map(task => task.id as UUID),
+      taskCount: active.length,
+      completedCount: active.filter(task => task.statusCategory === WorkflowCategory.DONE).length
+    };
+  }
+
+  /**
+   * Maps a milestone row with its links to the status computation input
+   * @private
+   */
+  private toStatusInput(row: MilestoneRow): IMilestoneStatusInput {
+    return {
+      id: row.id as UUID,
+      projectId: row.projectId as UUID,
+      name: row.name,
+      dueDate: row.dueDate,
+      status: row.status as MilestoneStatus,
+      tasks: row.tasks.map(link => this.toTaskState(link.task))
+    };
+  }
+
+  /**
+   * Maps a linked task row to the state the milestone status is derived from
+   * @private
+   */
+  private toTaskState(task: LinkedTaskRow): MilestoneTaskState {
+    return {
+      statusCategory: task.statusCategory as WorkflowCategory,
+      dueDate: task.dueDate,
+      deletedAt: task.deletedAt
+    };
+  }
+}
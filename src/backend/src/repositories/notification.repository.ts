@@ -0,0 +1,243 @@
+/**
+ * @fileoverview Repository for in-app notifications and the tasks due-soon reminders are sent for
+ * @version 1.0.0
+ * @module repositories/notification
+ */
+
+import { PrismaClient, Notification } from '@prisma/client'; // v5.0+
+import { UUID } from 'crypto';
+
+// Internal imports
+import {
+  INotification,
+  ICreateNotificationDTO,
+  INotificationQueryParams,
+  NotificationTask
+} from '../interfaces/notification.interface';
+import { NotificationType } from '../types/notification.types';
+import { UserPreferences, UserStatus } from '../types/user.types';
+import { WorkflowCategory } from '../types/workflow.types';
+import { UNRESTRICTED_ROLES } from '../utils/membership.util';
+
+/**
+ * Open task with a due date, as read by the due-soon job
+ */
+export type DueTask = Pick<NotificationTask, 'id' | 'title' | 'projectId' | 'assigneeId'> & { dueDate: Date };
+
+/**
+ * Repository implementing data access for notifications
+ */
+export class NotificationRepository {
+  private readonly prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Stores a notification
+   * @param data Notification data
+   * @returns Created notification
+   */
+  async create(data: ICreateNotificationDTO): Promise<INotification> {
+    const record = await this.prisma.notification.create({
+      data
+    });
+
+    return this.toNotification(record);
+  }
+
+  /**
+   * Retrieves a notification of a user
+   * @param id Notification identifier
+   * @param userId Recipient
+   * @returns Notification or null if the user has no such notification
+   */
+  async findById(id: UUID, userId: UUID): Promise<INotification | null> {
+    const record = await this.prisma.notification.findFirst({
+      where: { id, userId }
+    });
+
+    return record ? this.toNotification(record) : null;
+  }
+
+  /**
+   * Lists the notifications of a user, newest first
+   * @param userId Recipient
+   * @param params Filter and pagination parameters
+   * @returns Page of notifications and the number matching the filter
+   */
+  async findByUser(
+    userId: UUID,
+    params: INotificationQueryParams
+  ): Promise<{ items: INotification[]; total: number }> {
+    const where = {
+      userId,
+      ...(params.unreadOnly && { readAt: null })
+    };
+
+    const [items, total] = await Promise.all([
+      this.prisma.notification.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (params.page - 1) * params.limit,
+        take: params.limit
+      }),
+      this.prisma.notification.count({ where })
+    ]);
+
+    return {
+      items: items.map(item => this.toNotification(item)),
+      total
+    };
+  }
+
+  /**
+   * Counts the unread notifications of a user
+   * @param userId Recipient
+   * @returns Number of unread notifications
+   */
+  async countUnread(userId: UUID): Promise<number> {
+    return await this.prisma.notification.count({
+      where: { userId, readAt: null }
+    });
+  }
+
+  /**
+   * Marks a notification as read, keeping the time it was first read
+   * @param id Notification identifier
+   * @param userId Recipient
+   * @returns Notification or null if the user has no such notification
+   */
+  async markRead(id: UUID, userId: UUID): Promise<INotification | null> {
+    await this.prisma.notification.updateMany({
+      where: { id, userId, readAt: null },
+      data: { readAt: new Date() }
+    });
+
+    return await this.findById(id, userId);
+  }
+
+  /**
+   * Marks all unread notifications of a user as read
+   * @param userId Recipient
+   * @returns Number of notifications marked
+   */
+  async markAllRead(userId: UUID): Promise<number> {
+    const { count } = await this.prisma.notification.updateMany({
+      where: { userId, readAt: null },
+      data: { readAt: new Date() }
+    });
+
+    return count;
+  }
+
+  /**
+   * Narrows users down to the active ones that can see a project, i.e. members of the
+   * project and users whose role is not limited by membership, and that did not turn
+   * in-app notifications off in their preferences
+   * @param userIds Candidate recipients
+   * @param projectId Project the notifications are about
+   * @returns Recipients allowed to be notified
+   */
+  async findRecipients(userIds: UUID[], projectId: UUID | undefined): Promise<UUID[]> {
+    const users = await this.prisma.user.findMany({
+      where: {
+        id: { in: userIds },
+        status: UserStatus.ACTIVE,
+        deletedAt: null,
+        ...(projectId && {
+          OR: [
+            { role: { in: [...UNRESTRICTED_ROLES] } },
+            { projectMemberships: { some: { projectId, deletedAt: null } } }
+          ]
+        })
+      },
+      select: { id: true, preferences: true }
+    });
+
+    return users
+      .filter(user => (user.preferences as UserPreferences | null)?.notifications?.inApp !== false)
+      .map(user => user.id as UUID);
+  }
+
+  /**
+   * Retrieves the title and project of a task that is not deleted
+   * @param taskId Task identifier
+   * @returns Task fields or null if the task does not exist
+   */
+  async findTaskSummary(taskId: UUID): Promise<Pick<NotificationTask, 'title' | 'projectId'> | null> {
+    const task = await this.prisma.task.findFirst({
+      where: { id: taskId, deletedAt: null },
+      select: { title: true, projectId: true }
+    });
+
+    return task ? { title: task.title, projectId: task.projectId as UUID } : null;
+  }
+
+  /**
+   * Lists open tasks due within a period, in identifier order
+   * @param from Start of the period, exclusive
+   * @param to End of the period, inclusive
+   * @param limit Batch size
+   * @param afterId Identifier of the last task of the previous batch
+   * @returns Batch of tasks
+   */
+  async findDueTasks(from: Date, to: Date, limit: number, afterId?: UUID): Promise<DueTask[]> {
+    const tasks = await this.prisma.task.findMany({
+      where: {
+        dueDate: { gt: from, lte: to },
+        statusCategory: { not: WorkflowCategory.DONE },
+        deletedAt: null,
+        ...(afterId && { id: { gt: afterId } })
+      },
+      select: { id: true, title: true, projectId: true, assigneeId: true, dueDate: true },
+      orderBy: { id: 'asc' },
+      take: limit
+    });
+
+    return tasks.map(task => ({
+      id: task.id as UUID,
+      title: task.title,
+      projectId: task.projectId as UUID,
+      assigneeId: task.assigneeId as UUID,
+      // The due date filter excludes tasks without one
+      dueDate: task.dueDate as Date
+    }));
+  }
+
+  /**
+   * Lists which of the given deduplication keys users already have notifications for
+   * @param dedupeKeys Deduplication keys
+   * @returns Recipient and key of each existing notification
+   */
+  async findByDedupeKeys(dedupeKeys: string[]): Promise<Array<{ userId: UUID; dedupeKey: string }>> {
+    const notifications = await this.prisma.notification.findMany({
+      where: { dedupeKey: { in: dedupeKeys } },
+      select: { userId: true, dedupeKey: true }
+    });
+
+    // The filter excludes notifications without a key
+    return notifications.map(notification => ({
+      userId: notification.userId as UUID,
+      dedupeKey: notification.dedupeKey as string
+    }));
+  }
+
+  /**
+   * Converts a notification row to the notification interface
+   * @private
+   */
+  private toNotification({ dedupeKey, ...record }: Notification): INotification {
+    return {
+      ...record,
+      id: record.id as UUID,
+      userId: record.userId as UUID,
+      type: record.type as NotificationType,
+      taskId: record.taskId as UUID | null,
+      projectId: record.projectId as UUID | null,
+      commentId: record.commentId as UUID | null,
+      actorId: record.actorId as UUID | null
+    };
+  }
+}
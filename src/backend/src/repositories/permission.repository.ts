@@ -0,0 +1,57 @@
+/**
+ * @fileoverview Repository for the permissions granted to each global role
+ * @version 1.0.0
+ * @module repositories/permission
+ */
+
+import { PrismaClient } from '@prisma/client'; // v5.0+
+import { UUID } from 'crypto';
+
+// Internal imports
+import { Permission } from '../types/permission.types';
+import { UserRole } from '../types/user.types';
+
+/**
+ * Stored grant of a permission to a role
+ */
+export interface IRolePermissionRecord {
+  role: UserRole;
+  permission: string;
+}
+
+/**
+ * Repository implementing data access for the role to permission mapping
+ */
+export class PermissionRepository {
+  private readonly prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Retrieves every stored grant
+   * @returns Role and permission pairs
+   */
+  async findAll(): Promise<IRolePermissionRecord[]> {
+    return await this.prisma.rolePermission.findMany({
+      select: { role: true, permission: true },
+      orderBy: [{ role: 'asc' }, { permission: 'asc' }]
+    }) as IRolePermissionRecord[];
+  }
+
+  /**
+   * Replaces the permissions of a role in a single transaction
+   * @param role Role to update
+   * @param permissions New permission set
+   * @param grantedBy User making the change
+   */
+  async replaceForRole(role: UserRole, permissions: Permission[], grantedBy: UUID): Promise<void> {
+    await this.prisma.$transaction([
+      this.prisma.rolePermission.deleteMany({ where: { role } }),
+      this.prisma.rolePermission.createMany({
+        data: permissions.map(permission => ({ role, permission, grantedBy }))
+      })
+    ]);
+  }
+}
@@ -18,9 +18,15 @@ import {
   UpdateProjectDTO,
   ProjectQueryParams,
   ProjectStatus,
-  ProjectPriority
+  ProjectPriority,
+  ProjectRole
 } from '../types/project.types';
 import { IProject, IProjectRepository } from '../interfaces/project.interface';
+import { HistoryEntityType } from '../types/history.types';
+import { buildHistoryEntries, diffFields, PROJECT_HISTORY_FIELDS } from '../utils/history.util';
+import { IProjectExportRow } from '../interfaces/export.interface';
+import { buildTeamMemberSync } from '../utils/membership.util';
+import { EXPORT_BATCH_SIZE } from '../utils/export.util';
 
 // Constants
 const CACHE_TTL = 3600; // 1 hour cache TTL
@@ -48,12 +54,13 @@ export class ProjectRepository implements IProjectRepository {
   }
 
   /**
-   * Creates a new project with validation and transaction support
+   * Creates a new project with validation and transaction support; the owner joins
+   * as OWNER and the listed team members as CONTRIBUTOR
    * @param data Project creation data
    * @returns Newly created project
    * @throws {PrismaError} Database operation failure
    */
-  async create(data: CreateProjectDTO): Promise<Project> {
+  async create(data: CreateProjectDTO & { ownerId: UUID }): Promise<Project> {
     this.logger.debug('Creating new project', { data });
 
     return await this.prisma.$transaction(async (tx) => {
@@ -66,14 +73,20 @@ export class ProjectRepository implements IProjectRepository {
           updatedAt: new Date(),
           version: 1,
           teamMembers: {
-            create: data.teamMembers.map(memberId => ({
-              userId: memberId,
-              joinedAt: new Date()
-            }))
+            create: [
+              { userId: data.ownerId, role: ProjectRole.OWNER },
+              ...data.teamMembers
+                .filter(memberId => memberId !== data.ownerId)
+                .map(memberId => ({
+                  userId: memberId,
+                  role: ProjectRole.CONTRIBUTOR,
+                  joinedAt: new Date()
+                }))
+            ]
           }
         },
         include: {
-          teamMembers: true,
+          teamMembers: { where: { deletedAt: null } },
           owner: true
         }
       });
@@ -87,22 +100,24 @@ export class ProjectRepository implements IProjectRepository {
   }
 
   /**
-   * Updates project with optimistic locking and validation
+   * Updates project with optimistic locking and validation, recording changed fields
+   * in the change history
    * @param id Project ID
    * @param data Update data
    * @param version Current version for optimistic locking
+   * @param changedBy User performing the update
    * @returns Updated project
    * @throws {PrismaError} Database operation failure
    * @throws {OptimisticLockError} Version mismatch
    */
-  async update(id: UUID, data: UpdateProjectDTO, version: number): Promise<Project> {
+  async update(id: UUID, data: UpdateProjectDTO, version: number, changedBy?: UUID): Promise<Project> {
     this.logger.debug('Updating project', { id, data, version });
 
     return await this.prisma.$transaction(async (tx) => {
       // Optimistic locking check
       const current = await tx.project.findUnique({
         where: { id },
-        select: { version: true }
+        include: { teamMembers: { where: { deletedAt: null } } }
       });
 
       if (!current || current.version !== version) {
@@ -116,20 +131,31 @@ export class ProjectRepository implements IProjectRepository {
           ...data,
           updatedAt: new Date(),
           version: { increment: 1 },
-          teamMembers: data.teamMembers ? {
-            deleteMany: {},
-            create: data.teamMembers.map(memberId => ({
-              userId: memberId,
-              joinedAt: new Date()
-            }))
-          } : undefined
+          teamMembers: data.teamMembers
+            ? buildTeamMemberSync(id, data.teamMembers)
+            : undefined
         },
         include: {
-          teamMembers: true,
+          teamMembers: { where: { deletedAt: null } },
           owner: true
         }
       });
 
+      // Record field-level changes so earlier values survive the version bump
+      const changes = diffFields(
+        this.toHistorySnapshot(current),
+        this.toHistorySnapshot(updated),
+        PROJECT_HISTORY_FIELDS
+      );
+      if (changes.length > 0) {
+        await tx.changeHistory.createMany({
+          data: buildHistoryEntries(HistoryEntityType.PROJECT, id, changes, {
+            version: updated.version,
+            changedBy
+          }) as Prisma.ChangeHistoryCreateManyInput[]
+        });
+      }
+
       // Invalidate cache
       await this.invalidateProjectCache(id);
 
@@ -148,7 +174,7 @@ export class ProjectRepository implements IProjectRepository {
 
     await this.prisma.$transaction(async (tx) => {
       // Soft delete associated records
-      await tx.projectTeamMember.updateMany({
+      await tx.projectMember.updateMany({
         where: { projectId: id },
         data: { deletedAt: new Date() }
       });
@@ -217,35 +243,13 @@ export class ProjectRepository implements IProjectRepository {
    */
   async findAll(params: ProjectQueryParams): Promise<{ data: Project[]; total: number }> {
     const {
-      status,
-      priority,
-      ownerId,
-      teamMemberId,
-      startDate,
-      endDate,
       page = 1,
       limit = DEFAULT_PAGE_SIZE,
       sortBy = 'createdAt',
       sortOrder = 'desc'
     } = params;
 
-    // Build where clause
-    const where: Prisma.ProjectWhereInput = {
-      deletedAt: null,
-      ...(status && { status }),
-      ...(priority && { priority }),
-      ...(ownerId && { ownerId }),
-      ...(teamMemberId && {
-        teamMembers: {
-          some: {
-            userId: teamMemberId,
-            deletedAt: null
-          }
-        }
-      }),
-      ...(startDate && { startDate: { gte: startDate } }),
-      ...(endDate && { endDate: { lte: endDate } })
-    };
+    const where = this.buildWhere(params);
 
     // Execute count query
     const total = await this.prisma.project.count({ where });
@@ -268,6 +272,81 @@ export class ProjectRepository implements IProjectRepository {
     return { data, total };
   }
 
+  /**
+   * Streams the projects of a listing in its order, with their owner. Projects are read
+   * in batches with a cursor, so exports of any size hold one batch in memory.
+   * @param params Query parameters; pagination is ignored
+   * @param batchSize Projects read per query
+   * @returns Projects as they are read
+   */
+  async *streamAll(
+    params: ProjectQueryParams,
+    batchSize: number = EXPORT_BATCH_SIZE
+  ): AsyncGenerator<IProjectExportRow> {
+    const where = this.buildWhere(params);
+    // The ID breaks ties so that the cursor never skips or repeats projects
+    const orderBy: Prisma.ProjectOrderByWithRelationInput[] = [
+      { [params.sortBy || 'createdAt']: params.sortOrder || 'desc' },
+      { id: 'asc' }
+    ];
+
+    let cursor: string | undefined;
+    while (true) {
+      const batch = await this.prisma.project.findMany({
+        where,
+        orderBy,
+        take: batchSize,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+        include: { owner: { select: { name: true, email: true } } }
+      });
+
+      for (const project of batch) {
+        yield project as unknown as IProjectExportRow;
+      }
+
+      if (batch.length < batchSize) {
+        return;
+      }
+      cursor = batch[batch.length - 1].id;
+    }
+  }
+
+  /**
+   * Builds the conditions of a project listing from its query parameters
+   * @private
+   */
+  private buildWhere(params: ProjectQueryParams): Prisma.ProjectWhereInput {
+    const { status, priority, ownerId, teamMemberId, startDate, endDate } = params;
+
+    return {
+      deletedAt: null,
+      ...(status && { status }),
+      ...(priority && { priority }),
+      ...(ownerId && { ownerId }),
+      ...(teamMemberId && {
+        teamMembers: {
+          some: {
+            userId: teamMemberId,
+            deletedAt: null
+          }
+        }
+      }),
+      ...(startDate && { startDate: { gte: startDate } }),
+      ...(endDate && { endDate: { lte: endDate } })
+    };
+  }
+
+  /**
+   * Flattens a project for history diffing, reducing team members to sorted user IDs
+   * @param project Project row with its team members
+   */
+  private toHistorySnapshot(project: Record<string, any>): Record<string, any> {
+    return {
+      ...project,
+      teamMembers: (project.teamMembers || []).map((member: { userId: string }) => member.userId).sort()
+    };
+  }
+
   /**
    * Invalidates project-related cache entries
    * @param projectId Project ID
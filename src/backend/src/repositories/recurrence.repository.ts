@@ -0,0 +1,145 @@
+/**
+ * @fileoverview Repository for recurrence rules of recurring tasks
+ * @version 1.0.0
+ * @module repositories/recurrence
+ */
+
+import { PrismaClient } from '@prisma/client'; // v5.0+
+import { UUID } from 'crypto';
+
+// Internal imports
+import { ITaskRecurrence } from '../interfaces/recurrence.interface';
+import { RecurrenceTrigger } from '../types/task.types';
+
+/**
+ * Persisted rule fields; bookkeeping fields are managed by the repository
+ */
+type RecurrenceRuleData = Omit<
+  ITaskRecurrence,
+  'id' | 'occurrenceCount' | 'isActive' | 'lastTaskId' | 'createdBy' | 'createdAt' | 'updatedAt'
+>;
+
+/**
+ * Repository implementing data access for recurrence rules
+ */
+export class RecurrenceRepository {
+  private readonly prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Creates a rule with the task as its first occurrence and links the task to it
+   * @param taskId First occurrence
+   * @param data Rule data
+   * @param createdBy Creating user
+   * @returns Created rule
+   */
+  async create(taskId: UUID, data: RecurrenceRuleData, createdBy: UUID): Promise<ITaskRecurrence> {
+    return await this.prisma.$transaction(async (tx) => {
+      const rule = await tx.taskRecurrence.create({
+        data: { ...data, lastTaskId: taskId, createdBy }
+      });
+
+      await tx.task.update({
+        where: { id: taskId },
+        data: { recurrenceId: rule.id }
+      });
+
+      return rule;
+    }) as unknown as ITaskRecurrence;
+  }
+
+  /**
+   * Retrieves a rule by ID
+   * @param id Rule identifier
+   * @returns Rule or null
+   */
+  async findById(id: UUID): Promise<ITaskRecurrence | null> {
+    return await this.prisma.taskRecurrence.findUnique({
+      where: { id }
+    }) as unknown as ITaskRecurrence | null;
+  }
+
+  /**
+   * Retrieves active SCHEDULE rules whose next occurrence is due by the given time
+   * @param dueBy Latest due date to include
+   * @param limit Maximum number of rules per batch
+   * @returns Due rules, earliest first
+   */
+  async findScheduledDue(dueBy: Date, limit: number): Promise<ITaskRecurrence[]> {
+    return await this.prisma.taskRecurrence.findMany({
+      where: {
+        isActive: true,
+        generateOn: RecurrenceTrigger.SCHEDULE,
+        nextOccurrenceAt: { lte: dueBy }
+      },
+      orderBy: { nextOccurrenceAt: 'asc' },
+      take: limit
+    }) as unknown as ITaskRecurrence[];
+  }
+
+  /**
+   * Replaces the rule fields, keeping the occurrence bookkeeping
+   * @param id Rule identifier
+   * @param data Rule data
+   * @returns Updated rule
+   */
+  async update(id: UUID, data: RecurrenceRuleData): Promise<ITaskRecurrence> {
+    return await this.prisma.taskRecurrence.update({
+      where: { id },
+      data: { ...data, isActive: data.nextOccurrenceAt !== null }
+    }) as unknown as ITaskRecurrence;
+  }
+
+  /**
+   * Reserves the next occurrence of a rule. The update only applies while the occurrence
+   * count is unchanged, so concurrent completions and scheduler runs create it once.
+   * @param id Rule identifier
+   * @param expectedCount Occurrence count the caller read
+   * @param nextOccurrenceAt Due date of the occurrence after the reserved one, null if none
+   * @returns Whether the caller won the reservation
+   */
+  async claimOccurrence(
+    id: UUID,
+    expectedCount: number,
+    nextOccurrenceAt: Date | null
+  ): Promise<boolean> {
+    const result = await this.prisma.taskRecurrence.updateMany({
+      where: { id, isActive: true, occurrenceCount: expectedCount },
+      data: {
+        occurrenceCount: { increment: 1 },
+        nextOccurrenceAt,
+        isActive: nextOccurrenceAt !== null
+      }
+    });
+
+    return result.count === 1;
+  }
+
+  /**
+   * Records the task created for a reserved occurrence as the latest one
+   * @param id Rule identifier
+   * @param taskId Created occurrence
+   */
+  async setLastTask(id: UUID, taskId: UUID): Promise<void> {
+    await this.prisma.taskRecurrence.update({
+      where: { id },
+      data: { lastTaskId: taskId }
+    });
+  }
+
+  /**
+   * Stops a rule from creating further occurrences
+   * @param id Rule identifier
+   */
+  async deactivate(id: UUID): Promise<void> {
+    await this.prisma.taskRecurrence.update({
+      where: { id },
+      data: { isActive: false, nextOccurrenceAt: null }
+    });
+  }
+}
+
+export default RecurrenceRepository;
@@ -0,0 +1,229 @@
+/**
+ * @fileoverview Repository for saved task views and the pins users put on them
+ * @version 1.0.0
+ * @module repositories/savedView
+ */
+
+import { PrismaClient } from '@prisma/client'; // v5.0+
+import { UUID } from 'crypto';
+
+// Internal imports
+import {
+  ISavedView,
+  ICreateSavedViewDTO,
+  IUpdateSavedViewDTO
+} from '../interfaces/savedView.interface';
+import { SavedViewVisibility, SavedViewLayout } from '../types/savedView.types';
+import { normalizeViewFilters } from '../utils/savedView.util';
+
+/**
+ * Pin of the given user, loaded with every view to tell whether they pinned it
+ */
+const pinsOf = (userId: UUID) => ({
+  pins: { where: { userId }, select: { position: true } }
+});
+
+/**
+ * Repository implementing data access for saved views. Every read is made on behalf
+ * of a user, whose pin state is returned with each view.
+ */
+export class SavedViewRepository {
+  private readonly prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Retrieves the views a user owns, by name
+   * @param userId Owner identifier
+   * @returns Views
+   */
+  async findByOwner(userId: UUID): Promise<ISavedView[]> {
+    const views = await this.prisma.savedView.findMany({
+      where: { ownerId: userId },
+      include: pinsOf(userId),
+      orderBy: { name: 'asc' }
+    });
+
+    return views.map(view => this.toSavedView(view));
+  }
+
+  /**
+   * Retrieves the views of a project a user can open: their own and the shared ones
+   * @param projectId Project identifier
+   * @param userId User identifier
+   * @returns Views by name
+   */
+  async findByProject(projectId: UUID, userId: UUID): Promise<ISavedView[]> {
+    const views = await this.prisma.savedView.findMany({
+      where: {
+        projectId,
+        OR: [{ ownerId: userId }, { visibility: SavedViewVisibility.PROJECT }]
+      },
+      include: pinsOf(userId),
+      orderBy: { name: 'asc' }
+    });
+
+    return views.map(view => this.toSavedView(view));
+  }
+
+  /**
+   * Retrieves the views a user pinned, in pin order
+   * @param userId User identifier
+   * @returns Views
+   */
+  async findPinned(userId: UUID): Promise<ISavedView[]> {
+    const pins = await this.prisma.savedViewPin.findMany({
+      where: { userId },
+      include: { view: { include: pinsOf(userId) } },
+      orderBy: { position: 'asc' }
+    });
+
+    return pins.map(pin => this.toSavedView(pin.view));
+  }
+
+  /**
+   * Retrieves a view
+   * @param viewId View identifier
+   * @param userId User whose pin state to include
+   * @returns View or null if not found
+   */
+  async findById(viewId: UUID, userId: UUID): Promise<ISavedView | null> {
+    const view = await this.prisma.savedView.findUnique({
+      where: { id: viewId },
+      include: pinsOf(userId)
+    });
+
+    return view ? this.toSavedView(view) : null;
+  }
+
+  /**
+   * Counts the views a user owns
+   * @param userId Owner identifier
+   */
+  async countByOwner(userId: UUID): Promise<number> {
+    return await this.prisma.savedView.count({ where: { ownerId: userId } });
+  }
+
+  /**
+   * Creates a view
+   * @param ownerId Owner identifier
+   * @param data View attributes
+   * @returns Created view
+   */
+  async create(ownerId: UUID, data: ICreateSavedViewDTO): Promise<ISavedView> {
+    const view = await this.prisma.savedView.create({
+      data: {
+        ownerId,
+        projectId: data.projectId ?? null,
+        name: data.name,
+        visibility: data.visibility ?? SavedViewVisibility.PRIVATE,
+        layout: data.layout ?? SavedViewLayout.LIST,
+        filters: normalizeViewFilters(data.filters) as object,
+        sortBy: data.sortBy ?? 'createdAt',
+        sortOrder: data.sortOrder ?? 'desc',
+        groupBy: data.groupBy ?? 'none',
+        columns: data.columns ?? []
+      },
+      include: pinsOf(ownerId)
+    });
+
+    return this.toSavedView(view);
+  }
+
+  /**
+   * Updates a view
+   * @param viewId View identifier
+   * @param data Changed attributes
+   * @param userId User whose pin state to include
+   * @returns Updated view
+   */
+  async update(viewId: UUID, data: IUpdateSavedViewDTO, userId: UUID): Promise<ISavedView> {
+    const { filters, ...attributes } = data;
+
+    const view = await this.prisma.savedView.update({
+      where: { id: viewId },
+      data: {
+        ...attributes,
+        ...(filters && { filters: normalizeViewFilters(filters) as object })
+      },
+      include: pinsOf(userId)
+    });
+
+    return this.toSavedView(view);
+  }
+
+  /**
+   * Removes a view along with every pin of it
+   * @param viewId View identifier
+   */
+  async delete(viewId: UUID): Promise<void> {
+    await this.prisma.$transaction([
+      this.prisma.savedViewPin.deleteMany({ where: { viewId } }),
+      this.prisma.savedView.delete({ where: { id: viewId } })
+    ]);
+  }
+
+  /**
+   * Removes the pins other users put on a view, as when it stops being shared
+   * @param viewId View identifier
+   * @param ownerId Owner, whose pin is kept
+   */
+  async deleteForeignPins(viewId: UUID, ownerId: UUID): Promise<void> {
+    await this.prisma.savedViewPin.deleteMany({
+      where: { viewId, userId: { not: ownerId } }
+    });
+  }
+
+  /**
+   * Counts the views a user pinned
+   * @param userId User identifier
+   */
+  async countPins(userId: UUID): Promise<number> {
+    return await this.prisma.savedViewPin.count({ where: { userId } });
+  }
+
+  /**
+   * Pins a view for a user, after the views they already pinned
+   * @param viewId View identifier
+   * @param userId User identifier
+   */
+  async pin(viewId: UUID, userId: UUID): Promise<void> {
+    await this.prisma.$transaction(async (tx) => {
+      const last = await tx.savedViewPin.aggregate({
+        where: { userId },
+        _max: { position: true }
+      });
+
+      await tx.savedViewPin.upsert({
+        where: { userId_viewId: { userId, viewId } },
+        create: { userId, viewId, position: (last._max.position ?? -1) + 1 },
+        update: {}
+      });
+    });
+  }
+
+  /**
+   * Unpins a view for a user
+   * @param viewId View identifier
+   * @param userId User identifier
+   */
+  async unpin(viewId: UUID, userId: UUID): Promise<void> {
+    await this.prisma.savedViewPin.deleteMany({ where: { viewId, userId } });
+  }
+
+  /**
+   * Maps a view row with the reading user's pins to the view interface
+   * @private
+   */
+  private toSavedView(row: any): ISavedView {
+    const { pins, ...view } = row;
+
+    return {
+      ...view,
+      filters: view.filters ?? {},
+      pinned: pins.length > 0
+    };
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * @fileoverview Repository running full-text searches over tasks, comments and projects
+ * @version 1.0.0
+ * @module repositories/search
+ */
+
+import { PrismaClient, Prisma } from '@prisma/client'; // v5.0+
+import { UUID } from 'crypto';
+
+// Internal imports
+import { ISearchHit } from '../interfaces/search.interface';
+import { SearchResultType } from '../types/search.types';
+import { SEARCH_LANGUAGE, HEADLINE_OPTIONS } from '../utils/search.util';
+
+/**
+ * Hits of one type with the number of matches before the limit
+ */
+export interface ISearchPage {
+  hits: ISearchHit[];
+  total: number;
+}
+
+/**
+ * Parts of the search statement that differ per result type
+ */
+interface SearchSource {
+  document: Prisma.Sql;    // Searched text; must equal the expression of the tsvector index
+  columns: Prisma.Sql;     // id, title, project_id, project_name and task_id
+  from: Prisma.Sql;        // Tables, joined to the project
+  live: Prisma.Sql;        // Excludes soft-deleted rows
+  projectId: Prisma.Sql;   // Project column the caller's access is checked on
+}
+
+/**
+ * Row returned by a search statement
+ */
+interface SearchRow {
+  id: UUID;
+  title: string;
+  project_id: UUID;
+  project_name: string;
+  task_id: UUID | null;
+  highlight: string;
+  rank: number;
+  total: bigint;
+}
+
+const LANGUAGE = Prisma.raw(`'${SEARCH_LANGUAGE}'`);
+
+/**
+ * Repository implementing full-text search with raw SQL, as Prisma cannot rank matches.
+ * Documents are built with the same expressions as the GIN indexes of the migrations,
+ * so that Postgres can answer the match from the index; highlights are only built for
+ * the returned rows, as ts_headline reads the whole document.
+ */
+export class SearchRepository {
+  private readonly prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Searches task titles and descriptions
+   * @param query Normalized search query
+   * @param projectIds Projects to search; all projects when null
+   * @param limit Most hits to return
+   * @returns Best hits and the number of matches
+   */
+  async searchTasks(query: string, projectIds: UUID[] | null, limit: number): Promise<ISearchPage> {
+    return await this.search(SearchResultType.TASK, query, projectIds, limit, {
+      document: Prisma.sql`t.title || ' ' || COALESCE(t.description, '')`,
+      columns: Prisma.sql`t.id, t.title, t.project_id, p.name AS project_name, NULL::uuid AS task_id`,
+      from: Prisma.sql`tasks t JOIN projects p ON p.id = t.project_id`,
+      live: Prisma.sql`t.deleted_at IS NULL AND p.deleted_at IS NULL`,
+      projectId: Prisma.sql`t.project_id`
+    });
+  }
+
+  /**
+   * Searches comment content; hits carry the title of the commented task
+   * @param query Normalized search query
+   * @param projectIds Projects to search; all projects when null
+   * @param limit Most hits to return
+   * @returns Best hits and the number of matches
+   */
+  async searchComments(query: string, projectIds: UUID[] | null, limit: number): Promise<ISearchPage> {
+    return await this.search(SearchResultType.COMMENT, query, projectIds, limit, {
+      document: Prisma.sql`c.content`,
+      columns: Prisma.sql`c.id, t.title, t.project_id, p.name AS project_name, t.id AS task_id`,
+      from: Prisma.sql`comments c JOIN tasks t ON t.id = c.task_id JOIN projects p ON p.id = t.project_id`,
+      live: Prisma.sql`c.deleted_at IS NULL AND t.deleted_at IS NULL AND p.deleted_at IS NULL`,
+      projectId: Prisma.sql`t.project_id`
+    });
+  }
+
+  /**
+   * Searches project names and descriptions
+   * @param query Normalized search query
+   * @param projectIds Projects to search; all projects when null
+   * @param limit Most hits to return
+   * @returns Best hits and the number of matches
+   */
+  async searchProjects(query: string, projectIds: UUID[] | null, limit: number): Promise<ISearchPage> {
+    return await this.search(SearchResultType.PROJECT, query, projectIds, limit, {
+      document: Prisma.sql`p.name || ' ' || COALESCE(p.description, '')`,
+      columns: Prisma.sql`p.id, p.name AS title, p.id AS project_id, p.name AS project_name, NULL::uuid AS task_id`,
+      from: Prisma.sql`projects p`,
+      live: Prisma.sql`p.deleted_at IS NULL`,
+      projectId: Prisma.sql`p.id`
+    });
+  }
+
+  /**
+   * Runs a ranked search over one source
+   * @private
+   */
+  private async search(
+    type: SearchResultType,
+    query: string,
+    projectIds: UUID[] | null,
+    limit: number,
+    source: SearchSource
+  ): Promise<ISearchPage> {
+    const access = projectIds === null
+      ? Prisma.empty
+      : Prisma.sql`AND ${source.projectId} = ANY(${projectIds}::uuid[])`;
+
+    const rows = await this.prisma.$queryRaw<SearchRow[]>`
+      SELECT m.id, m.title, m.project_id, m.project_name, m.task_id, m.rank, m.total,
+             ts_headline(${LANGUAGE}, m.document, m.query, ${HEADLINE_OPTIONS}) AS highlight
+      FROM (
+        SELECT ${source.columns},
+               ${source.document} AS document,
+               q.query,
+               ts_rank(to_tsvector(${LANGUAGE}, ${source.document}), q.query) AS rank,
+               COUNT(*) OVER () AS total
+        FROM ${source.from}
+        CROSS JOIN websearch_to_tsquery(${LANGUAGE}, ${query}) AS q(query)
+        WHERE to_tsvector(${LANGUAGE}, ${source.document}) @@ q.query
+          AND ${source.live}
+          ${access}
+        ORDER BY rank DESC
+        LIMIT ${limit}
+      ) m
+      ORDER BY m.rank DESC
+    `;
+
+    return {
+      hits: rows.map(row => ({
+        type,
+        id: row.id,
+        title: row.title,
+        highlight: row.highlight,
+        rank: Number(row.rank),
+        projectId: row.project_id,
+        projectName: row.project_name,
+        taskId: row.task_id
+      })),
+      total: rows.length > 0 ? Number(rows[0].total) : 0
+    };
+  }
+}
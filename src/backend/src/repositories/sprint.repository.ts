@@ -0,0 +1,266 @@
+/**
+ * @fileoverview Repository for project sprints and the tasks planned into them
+ * @version 1.0.0
+ * @module repositories/sprint
+ */
+
+import { PrismaClient, Prisma } from '@prisma/client'; // v5.0+
+import { UUID } from 'crypto';
+
+// Internal imports
+import {
+  ISprint,
+  ICreateSprintDTO,
+  IUpdateSprintDTO
+} from '../interfaces/sprint.interface';
+import { ITask } from '../interfaces/task.interface';
+import { SprintState } from '../types/sprint.types';
+import { HistoryEntityType } from '../types/history.types';
+import { WorkflowCategory } from '../types/workflow.types';
+import { buildHistoryEntries } from '../utils/history.util';
+import { BURNDOWN_FIELDS, BurndownChange, BurndownTask } from '../utils/sprint.util';
+
+/**
+ * Repository implementing data access for sprints. Moving tasks between sprints records
+ * the change in the task history, which the burndown is computed from.
+ */
+export class SprintRepository {
+  private readonly prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Retrieves the sprints of a project, newest first, with their task counts
+   * @param projectId Project identifier
+   * @returns Sprints
+   */
+  async findByProject(projectId: UUID): Promise<ISprint[]> {
+    const sprints = await this.prisma.sprint.findMany({
+      where: { projectId },
+      orderBy: { startDate: 'desc' }
+    });
+
+    const counts = await this.prisma.task.groupBy({
+      by: ['sprintId', 'statusCategory'],
+      where: { sprintId: { in: sprints.map(sprint => sprint.id) }, deletedAt: null },
+      _count: { _all: true }
+    });
+
+    return sprints.map(sprint => {
+      const rows = counts.filter(row => row.sprintId === sprint.id);
+      return {
+        ...sprint,
+        taskCount: rows.reduce((sum, row) => sum + row._count._all, 0),
+        completedCount: rows
+          .filter(row => row.statusCategory === WorkflowCategory.DONE)
+          .reduce((sum, row) => sum + row._count._all, 0)
+      };
+    }) as unknown as ISprint[];
+  }
+
+  /**
+   * Retrieves a sprint of a project
+   * @param projectId Project identifier
+   * @param sprintId Sprint identifier
+   * @returns Sprint or null if not found
+   */
+  async findById(projectId: UUID, sprintId: UUID): Promise<ISprint | null> {
+    return await this.prisma.sprint.findFirst({
+      where: { id: sprintId, projectId }
+    }) as unknown as ISprint | null;
+  }
+
+  /**
+   * Retrieves the active sprint of a project
+   * @param projectId Project identifier
+   * @returns Active sprint or null
+   */
+  async findActive(projectId: UUID): Promise<ISprint | null> {
+    return await this.prisma.sprint.findFirst({
+      where: { projectId, state: SprintState.ACTIVE }
+    }) as unknown as ISprint | null;
+  }
+
+  /**
+   * Retrieves the earliest planned sprint of a project, the default target for rolling
+   * over unfinished tasks
+   * @param projectId Project identifier
+   * @returns Planned sprint or null
+   */
+  async findNextPlanned(projectId: UUID): Promise<ISprint | null> {
+    return await this.prisma.sprint.findFirst({
+      where: { projectId, state: SprintState.PLANNED },
+      orderBy: { startDate: 'asc' }
+    }) as unknown as ISprint | null;
+  }
+
+  /**
+   * Creates a planned sprint
+   * @param projectId Project identifier
+   * @param data Sprint attributes
+   * @param createdBy User planning the sprint
+   * @returns Created sprint
+   */
+  async create(projectId: UUID, data: ICreateSprintDTO, createdBy: UUID): Promise<ISprint> {
+    return await this.prisma.sprint.create({
+      data: {
+        projectId,
+        name: data.name,
+        goal: data.goal ?? null,
+        startDate: data.startDate,
+        endDate: data.endDate,
+        state: SprintState.PLANNED,
+        createdBy
+      }
+    }) as unknown as ISprint;
+  }
+
+  /**
+   * Updates the name, goal or dates of a sprint
+   * @param sprintId Sprint identifier
+   * @param data Changed attributes
+   * @returns Updated sprint
+   */
+  async update(sprintId: UUID, data: IUpdateSprintDTO): Promise<ISprint> {
+    return await this.prisma.sprint.update({
+      where: { id: sprintId },
+      data
+    }) as unknown as ISprint;
+  }
+
+  /**
+   * Marks a sprint as active
+   * @param sprintId Sprint identifier
+   * @returns Started sprint
+   */
+  async start(sprintId: UUID): Promise<ISprint> {
+    return await this.prisma.sprint.update({
+      where: { id: sprintId },
+      data: { state: SprintState.ACTIVE, startedAt: new Date() }
+    }) as unknown as ISprint;
+  }
+
+  /**
+   * Removes a sprint and returns its tasks to the backlog
+   * @param sprintId Sprint identifier
+   */
+  async delete(sprintId: UUID): Promise<void> {
+    await this.prisma.$transaction([
+      this.prisma.task.updateMany({
+        where: { sprintId },
+        data: { sprintId: null }
+      }),
+      this.prisma.sprint.delete({ where: { id: sprintId } })
+    ]);
+  }
+
+  /**
+   * Closes a sprint and moves its unfinished tasks to another sprint or the backlog,
+   * recording each move in the task history
+   * @param sprintId Sprint identifier
+   * @param rollOverTo Receiving sprint, or null for the backlog
+   * @param meta User closing the sprint and request correlation ID
+   * @returns Closed sprint and the number of tasks moved
+   */
+  async close(
+    sprintId: UUID,
+    rollOverTo: UUID | null,
+    meta: { changedBy: UUID; correlationId: string | null }
+  ): Promise<{ sprint: ISprint; rolledOver: number }> {
+    return await this.prisma.$transaction(async (tx) => {
+      const closedAt = new Date();
+
+      const unfinished = await tx.task.findMany({
+        where: { sprintId, deletedAt: null, statusCategory: { not: WorkflowCategory.DONE } },
+        select: { id: true, version: true }
+      });
+
+      for (const task of unfinished) {
+        await tx.task.update({
+          where: { id: task.id },
+          data: { sprintId: rollOverTo, version: { increment: 1 } }
+        });
+      }
+
+      if (unfinished.length > 0) {
+        await tx.changeHistory.createMany({
+          data: unfinished.flatMap(task => buildHistoryEntries(
+            HistoryEntityType.TASK,
+            task.id as UUID,
+            [{ field: 'sprintId', oldValue: sprintId, newValue: rollOverTo }],
+            { version: task.version + 1, ...meta }
+          ).map(entry => ({ ...entry, changedAt: closedAt }))) as Prisma.ChangeHistoryCreateManyInput[]
+        });
+      }
+
+      const sprint = await tx.sprint.update({
+        where: { id: sprintId },
+        data: { state: SprintState.CLOSED, closedAt }
+      });
+
+      return { sprint: sprint as unknown as ISprint, rolledOver: unfinished.length };
+    });
+  }
+
+  /**
+   * Retrieves the unfinished tasks of a project that are not planned into a sprint,
+   * most urgent first
+   * @param projectId Project identifier
+   * @returns Backlog tasks
+   */
+  async findBacklog(projectId: UUID): Promise<ITask[]> {
+    return await this.prisma.task.findMany({
+      where: {
+        projectId,
+        sprintId: null,
+        deletedAt: null,
+        statusCategory: { not: WorkflowCategory.DONE }
+      },
+      orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }]
+    }) as unknown as ITask[];
+  }
+
+  /**
+   * Loads every task that is or was in a sprint, with the recorded status and sprint
+   * changes needed to replay the sprint day by day
+   * @param sprintId Sprint identifier
+   * @returns Tasks and their changes
+   */
+  async findBurndownData(sprintId: UUID): Promise<{ tasks: BurndownTask[]; changes: BurndownChange[] }> {
+    // Tasks that left the sprint are only known from their history
+    const moves = await this.prisma.changeHistory.findMany({
+      where: {
+        entityType: HistoryEntityType.TASK,
+        field: 'sprintId',
+        OR: [
+          { oldValue: { equals: sprintId } },
+          { newValue: { equals: sprintId } }
+        ]
+      },
+      select: { entityId: true }
+    });
+
+    const tasks = await this.prisma.task.findMany({
+      where: {
+        OR: [
+          { sprintId },
+          { id: { in: [...new Set(moves.map(move => move.entityId))] } }
+        ]
+      },
+      select: { id: true, status: true, sprintId: true, createdAt: true, deletedAt: true }
+    });
+
+    const changes = await this.prisma.changeHistory.findMany({
+      where: {
+        entityType: HistoryEntityType.TASK,
+        entityId: { in: tasks.map(task => task.id) },
+        field: { in: [...BURNDOWN_FIELDS] }
+      },
+      select: { entityId: true, field: true, oldValue: true, newValue: true, changedAt: true }
+    });
+
+    return { tasks, changes };
+  }
+}
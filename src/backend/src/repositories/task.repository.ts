@@ -20,6 +20,14 @@ import {
   ITaskPaginatedResponse
 } from '../interfaces/task.interface';
 import { TaskStatus, TaskPriority } from '../types/task.types';
+import { HistoryEntityType } from '../types/history.types';
+import { buildHistoryEntries, diffFields, TASK_HISTORY_FIELDS } from '../utils/history.util';
+import { WorkflowCategory } from '../types/workflow.types';
+import { getDefaultStateCategory } from '../utils/workflow.util';
+import { ProgressTaskNode, ProgressTree, ChecklistCounts } from '../utils/progress.util';
+import { EffortTask } from '../utils/effort.util';
+import { EXPORT_BATCH_SIZE } from '../utils/export.util';
+import { ITaskExportRow } from '../interfaces/export.interface';
 
 // Cache key patterns
 const CACHE_KEYS = {
@@ -61,7 +69,7 @@ export class TaskRepository {
    * @returns Created task instance wrapped in Result
    */
   async create(
-    data: ICreateTaskDTO,
+    data: ICreateTaskDTO & { depth?: number; recurrenceId?: UUID },
     context: ITaskContext
   ): Promise<Result<ITask, TaskError>> {
     try {
@@ -78,20 +86,34 @@ export class TaskRepository {
         };
       }
 
+      // New tasks start in the first state of the project's workflow, unless a state is given
+      const initialState = data.initialState ?? await this.prisma.workflowState.findFirst({
+        where: { projectId: data.projectId },
+        orderBy: { position: 'asc' }
+      });
+
       // Create task with audit trail
       const task = await this.prisma.task.create({
         data: {
           id: crypto.randomUUID(),
           title: data.title,
           description: data.description || '',
-          status: TaskStatus.TODO,
+          status: initialState?.key ?? TaskStatus.TODO,
+          statusCategory: initialState?.category ?? WorkflowCategory.TODO,
           priority: data.priority,
           projectId: data.projectId,
           assigneeId: data.assigneeId,
           dueDate: data.dueDate,
           metadata: data.metadata || {},
+          customFields: data.customFields || {},
           tags: data.tags || [],
           attachmentIds: data.attachmentIds || [],
+          parentId: data.parentId || null,
+          depth: data.depth || 0,
+          recurrenceId: data.recurrenceId || null,
+          sprintId: data.sprintId || null,
+          originalEstimate: data.originalEstimate ?? null,
+          remainingEstimate: data.remainingEstimate ?? data.originalEstimate ?? null,
           version: 1,
           createdBy: context.userId,
           updatedBy: context.userId
@@ -124,7 +146,7 @@ export class TaskRepository {
   }
 
   /**
-   * Updates task with optimistic locking and audit trail
+   * Updates task with optimistic locking, recording changed fields in the change history
    * @param id Task identifier
    * @param data Update data with version
    * @param context Operation context
@@ -160,15 +182,38 @@ export class TaskRepository {
         };
       }
 
-      // Update task with audit trail
-      const updatedTask = await this.prisma.task.update({
-        where: { id, version: data.version },
-        data: {
-          ...data,
-          version: { increment: 1 },
-          updatedBy: context.userId,
-          updatedAt: new Date()
+      // Keep the denormalized status category in step with the status
+      const statusCategory = data.status && data.status !== task.status
+        ? await this.resolveStatusCategory(task.projectId as UUID, data.status)
+        : undefined;
+
+      // Update task and record its field-level changes in one transaction
+      const updatedTask = await this.prisma.$transaction(async (tx) => {
+        const updated = await tx.task.update({
+          where: { id, version: data.version },
+          data: {
+            ...data,
+            statusCategory,
+            version: { increment: 1 },
+            updatedBy: context.userId,
+            updatedAt: new Date()
+          }
+        });
+
+        // Earlier values would otherwise be lost with the version bump; status and
+        // sprint changes also feed sprint burndowns
+        const changes = diffFields(task, updated, TASK_HISTORY_FIELDS);
+        if (changes.length > 0) {
+          await tx.changeHistory.createMany({
+            data: buildHistoryEntries(HistoryEntityType.TASK, id, changes, {
+              version: updated.version,
+              changedBy: context.userId,
+              correlationId: context.correlationId
+            }) as Prisma.ChangeHistoryCreateManyInput[]
+          });
         }
+
+        return updated;
       });
 
       // Invalidate caches
@@ -254,15 +299,18 @@ export class TaskRepository {
    * Retrieves tasks with enhanced filtering and pagination
    * @param params Query parameters
    * @param context Operation context
+   * @param extraWhere Conditions built by the service from params.customFields and params.query
    * @returns Paginated task results with metadata
    */
   async findAll(
     params: ITaskQueryParams,
-    context: ITaskContext
+    context: ITaskContext,
+    extraWhere: Prisma.TaskWhereInput[] = []
   ): Promise<Result<ITaskPaginatedResponse, TaskError>> {
     try {
       const startTime = Date.now();
-      const cacheKey = CACHE_KEYS.TASK_LIST(JSON.stringify(params));
+      // The conditions are part of the key, as queries resolve `me` and relative dates
+      const cacheKey = CACHE_KEYS.TASK_LIST(JSON.stringify({ params, where: extraWhere }));
 
       // Try cache first
       const cached = await this.redis.get(cacheKey);
@@ -271,19 +319,7 @@ export class TaskRepository {
         return { success: true, data: JSON.parse(cached) };
       }
 
-      // Build query
-      const where: Prisma.TaskWhereInput = {
-        deletedAt: context.includeSoftDeleted ? undefined : null,
-        status: params.status ? { in: params.status } : undefined,
-        priority: params.priority ? { in: params.priority } : undefined,
-        assigneeId: params.assigneeIds ? { in: params.assigneeIds } : undefined,
-        projectId: params.projectIds ? { in: params.projectIds } : undefined,
-        tags: params.tags ? { hasEvery: params.tags } : undefined,
-        OR: params.searchTerm ? [
-          { title: { contains: params.searchTerm, mode: 'insensitive' } },
-          { description: { contains: params.searchTerm, mode: 'insensitive' } }
-        ] : undefined
-      };
+      const where = this.buildListWhere(params, context, extraWhere);
 
       // Execute query with pagination
       const [items, total] = await Promise.all([
@@ -328,6 +364,53 @@ export class TaskRepository {
     }
   }
 
+  /**
+   * Streams the tasks of a listing in its order, with their assignee and project names.
+   * Tasks are read in batches with a cursor, so exports of any size hold one batch in
+   * memory; the cache is bypassed.
+   * @param params Query parameters; pagination is ignored
+   * @param context Operation context
+   * @param extraWhere Conditions built by the service from params.customFields and params.query
+   * @param batchSize Tasks read per query
+   * @returns Tasks as they are read
+   */
+  async *streamAll(
+    params: ITaskQueryParams,
+    context: ITaskContext,
+    extraWhere: Prisma.TaskWhereInput[] = [],
+    batchSize: number = EXPORT_BATCH_SIZE
+  ): AsyncGenerator<ITaskExportRow> {
+    const where = this.buildListWhere(params, context, extraWhere);
+    // The ID breaks ties so that the cursor never skips or repeats tasks
+    const orderBy: Prisma.TaskOrderByWithRelationInput[] = [
+      { [params.sortBy || 'createdAt']: params.sortOrder || 'desc' },
+      { id: 'asc' }
+    ];
+
+    let cursor: string | undefined;
+    while (true) {
+      const batch = await this.prisma.task.findMany({
+        where,
+        orderBy,
+        take: batchSize,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+        include: {
+          assignee: { select: { name: true, email: true } },
+          project: { select: { name: true } }
+        }
+      });
+
+      for (const task of batch) {
+        yield task as unknown as ITaskExportRow;
+      }
+
+      if (batch.length < batchSize) {
+        return;
+      }
+      cursor = batch[batch.length - 1].id;
+    }
+  }
+
   /**
    * Soft deletes a task by ID
    * @param id Task identifier
@@ -372,6 +455,145 @@ export class TaskRepository {
     }
   }
 
+  /**
+   * Loads the subtask tree below the given tasks with checklist counts of every node,
+   * walking one level per query
+   * @param rootIds Tasks whose descendants are requested
+   * @returns Descendants and checklist counts of roots and descendants
+   */
+  async findProgressTree(rootIds: UUID[]): Promise<ProgressTree> {
+    const tasks: ProgressTaskNode[] = [];
+    let frontier: string[] = rootIds;
+
+    while (frontier.length > 0) {
+      const level = await this.prisma.task.findMany({
+        where: { parentId: { in: frontier }, deletedAt: null },
+        select: { id: true, parentId: true, status: true, statusCategory: true }
+      });
+      tasks.push(...level);
+      frontier = level.map(task => task.id);
+    }
+
+    const counts = await this.prisma.checklistItem.groupBy({
+      by: ['taskId', 'isCompleted'],
+      where: { taskId: { in: [...rootIds, ...tasks.map(task => task.id)] } },
+      _count: { _all: true }
+    });
+
+    const checklists = new Map<string, ChecklistCounts>();
+    for (const row of counts) {
+      const entry = checklists.get(row.taskId) || { total: 0, completed: 0 };
+      entry.total += row._count._all;
+      if (row.isCompleted) {
+        entry.completed += row._count._all;
+      }
+      checklists.set(row.taskId, entry);
+    }
+
+    return { tasks, checklists };
+  }
+
+  /**
+   * Retrieves the top-level tasks of a project, used for completion percentages
+   * @param projectId Project identifier
+   * @returns Top-level task nodes with their original estimates
+   */
+  async findTopLevelByProject(
+    projectId: UUID
+  ): Promise<Array<ProgressTaskNode & { originalEstimate: number | null }>> {
+    return await this.prisma.task.findMany({
+      where: { projectId, parentId: null, deletedAt: null },
+      select: { id: true, parentId: true, status: true, statusCategory: true, originalEstimate: true }
+    });
+  }
+
+  /**
+   * Retrieves the estimates of all active tasks of a project with the time logged on them
+   * @param projectId Project identifier
+   * @returns Task effort, used for effort rollups
+   */
+  async findEffortByProject(projectId: UUID): Promise<EffortTask[]> {
+    const tasks = await this.prisma.task.findMany({
+      where: { projectId, deletedAt: null },
+      select: {
+        id: true,
+        assigneeId: true,
+        sprintId: true,
+        statusCategory: true,
+        originalEstimate: true,
+        remainingEstimate: true
+      }
+    });
+
+    const logged = await this.prisma.worklog.groupBy({
+      by: ['taskId'],
+      where: { taskId: { in: tasks.map(task => task.id) } },
+      _sum: { durationSeconds: true }
+    });
+    const seconds = new Map(logged.map(row => [row.taskId, row._sum.durationSeconds ?? 0]));
+
+    return tasks.map(({ id, ...task }) => ({ ...task, loggedSeconds: seconds.get(id) ?? 0 }));
+  }
+
+  /**
+   * Picks the tasks a user created or is assigned to
+   * @param ids Task identifiers
+   * @param userId User identifier
+   * @returns Identifiers of the active tasks among ids the user owns
+   */
+  async findOwnedIds(ids: UUID[], userId: UUID): Promise<UUID[]> {
+    const tasks = await this.prisma.task.findMany({
+      where: {
+        id: { in: ids },
+        deletedAt: null,
+        OR: [{ creatorId: userId }, { assigneeId: userId }]
+      },
+      select: { id: true }
+    });
+
+    return tasks.map(task => task.id as UUID);
+  }
+
+  /**
+   * Looks up the category of a state in the project's workflow; projects without a stored
+   * workflow use the default states
+   * @private
+   */
+  private async resolveStatusCategory(projectId: UUID, status: string): Promise<WorkflowCategory> {
+    const state = await this.prisma.workflowState.findUnique({
+      where: { projectId_key: { projectId, key: status } },
+      select: { category: true }
+    });
+
+    return (state?.category as WorkflowCategory) ?? getDefaultStateCategory(status);
+  }
+
+  /**
+   * Builds the conditions of a task listing from its query parameters
+   * @private
+   */
+  private buildListWhere(
+    params: ITaskQueryParams,
+    context: ITaskContext,
+    extraWhere: Prisma.TaskWhereInput[]
+  ): Prisma.TaskWhereInput {
+    return {
+      deletedAt: context.includeSoftDeleted ? undefined : null,
+      status: params.status ? { in: params.status } : undefined,
+      priority: params.priority ? { in: params.priority } : undefined,
+      assigneeId: params.assigneeIds ? { in: params.assigneeIds } : undefined,
+      projectId: params.projectIds ? { in: params.projectIds } : undefined,
+      parentId: params.parentId ? params.parentId : params.topLevelOnly ? null : undefined,
+      sprintId: params.sprintId,
+      tags: params.tags ? { hasEvery: params.tags } : undefined,
+      AND: extraWhere.length ? extraWhere : undefined,
+      OR: params.searchTerm ? [
+        { title: { contains: params.searchTerm, mode: 'insensitive' } },
+        { description: { contains: params.searchTerm, mode: 'insensitive' } }
+      ] : undefined
+    };
+  }
+
   /**
    * Invalidates all list-related caches
    * @private
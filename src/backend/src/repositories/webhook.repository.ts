@@ -0,0 +1,337 @@
+/**
+ * @fileoverview Repository for webhook subscriptions and their delivery log
+ * @version 1.0.0
+ * @module repositories/webhook
+ */
+
+import { PrismaClient, Prisma, WebhookDelivery } from '@prisma/client'; // v5.0+
+import { UUID } from 'crypto';
+
+// Internal imports
+import {
+  IWebhook,
+  ICreateWebhookDTO,
+  IUpdateWebhookDTO,
+  IWebhookDelivery,
+  IWebhookDeliveryQueryParams,
+  IWebhookEvent
+} from '../interfaces/webhook.interface';
+import { WebhookDeliveryStatus, WebhookEventType } from '../types/webhook.types';
+
+/**
+ * Webhook attributes returned to callers; the encrypted secret stays in the repository
+ */
+const WEBHOOK_SELECT = {
+  id: true,
+  projectId: true,
+  name: true,
+  url: true,
+  events: true,
+  active: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true
+} as const;
+
+/**
+ * Webhook row as loaded with WEBHOOK_SELECT
+ */
+type WebhookRecord = Prisma.WebhookGetPayload<{ select: typeof WEBHOOK_SELECT }>;
+
+/**
+ * Webhook with its encrypted signing secret
+ */
+export interface IWebhookSigningTarget extends IWebhook {
+  secretEncrypted: string;
+}
+
+/**
+ * Delivery loaded for an attempt, with the webhook it goes to
+ */
+export interface IWebhookDeliveryTarget {
+  delivery: IWebhookDelivery;
+  webhook: IWebhookSigningTarget;
+}
+
+/**
+ * Repository implementing data access for webhooks. Deliveries are deleted with their
+ * webhook.
+ */
+export class WebhookRepository {
+  private readonly prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Retrieves webhooks by name
+   * @param projectId Only the webhooks of this project when given
+   * @returns Webhooks
+   */
+  async findAll(projectId?: UUID): Promise<IWebhook[]> {
+    const records = await this.prisma.webhook.findMany({
+      where: projectId ? { projectId } : {},
+      select: WEBHOOK_SELECT,
+      orderBy: { name: 'asc' }
+    });
+
+    return records.map(record => this.toWebhook(record));
+  }
+
+  /**
+   * Retrieves a webhook
+   * @param id Webhook identifier
+   * @returns Webhook or null if not found
+   */
+  async findById(id: UUID): Promise<IWebhook | null> {
+    const record = await this.prisma.webhook.findUnique({
+      where: { id },
+      select: WEBHOOK_SELECT
+    });
+
+    return record ? this.toWebhook(record) : null;
+  }
+
+  /**
+   * Checks that a project exists and is not deleted
+   * @param projectId Project identifier
+   */
+  async projectExists(projectId: UUID): Promise<boolean> {
+    const count = await this.prisma.project.count({
+      where: { id: projectId, deletedAt: null }
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Creates a webhook
+   * @param data Webhook data
+   * @param secretEncrypted Encrypted signing secret
+   * @param createdBy Creating user
+   * @returns Created webhook
+   */
+  async create(data: ICreateWebhookDTO, secretEncrypted: string, createdBy: UUID): Promise<IWebhook> {
+    const record = await this.prisma.webhook.create({
+      data: {
+        name: data.name,
+        url: data.url,
+        events: data.events,
+        active: data.active ?? true,
+        projectId: data.projectId ?? null,
+        secretEncrypted,
+        createdBy
+      },
+      select: WEBHOOK_SELECT
+    });
+
+    return this.toWebhook(record);
+  }
+
+  /**
+   * Updates a webhook
+   * @param id Webhook identifier
+   * @param data Changed fields
+   * @returns Updated webhook
+   */
+  async update(id: UUID, data: IUpdateWebhookDTO): Promise<IWebhook> {
+    const record = await this.prisma.webhook.update({
+      where: { id },
+      data,
+      select: WEBHOOK_SELECT
+    });
+
+    return this.toWebhook(record);
+  }
+
+  /**
+   * Replaces the signing secret of a webhook
+   * @param id Webhook identifier
+   * @param secretEncrypted New encrypted secret
+   * @returns Updated webhook
+   */
+  async updateSecret(id: UUID, secretEncrypted: string): Promise<IWebhook> {
+    const record = await this.prisma.webhook.update({
+      where: { id },
+      data: { secretEncrypted },
+      select: WEBHOOK_SELECT
+    });
+
+    return this.toWebhook(record);
+  }
+
+  /**
+   * Deletes a webhook with its deliveries
+   * @param id Webhook identifier
+   * @returns Whether a webhook was deleted
+   */
+  async delete(id: UUID): Promise<boolean> {
+    const { count } = await this.prisma.webhook.deleteMany({ where: { id } });
+    return count > 0;
+  }
+
+  /**
+   * Retrieves the active webhooks subscribed to an event of a project: those of the
+   * project and the organization-wide ones
+   * @param eventType Event type
+   * @param projectId Project of the event
+   * @returns Webhooks
+   */
+  async findSubscribed(eventType: WebhookEventType, projectId: UUID | null): Promise<IWebhook[]> {
+    const records = await this.prisma.webhook.findMany({
+      where: {
+        active: true,
+        events: { has: eventType },
+        OR: projectId ? [{ projectId }, { projectId: null }] : [{ projectId: null }]
+      },
+      select: WEBHOOK_SELECT
+    });
+
+    return records.map(record => this.toWebhook(record));
+  }
+
+  /**
+   * Creates one pending delivery of an event per webhook
+   * @param webhookIds Receiving webhooks
+   * @param event Event to deliver
+   * @param redeliveryOfId Delivery the new one repeats
+   * @returns Created deliveries
+   */
+  async createDeliveries(
+    webhookIds: UUID[],
+    event: IWebhookEvent,
+    redeliveryOfId?: UUID
+  ): Promise<IWebhookDelivery[]> {
+    const records = await this.prisma.$transaction(
+      webhookIds.map(webhookId => this.prisma.webhookDelivery.create({
+        data: {
+          webhookId,
+          eventId: event.id,
+          eventType: event.type,
+          payload: { ...event, data: event.data as Prisma.InputJsonObject },
+          status: WebhookDeliveryStatus.PENDING,
+          redeliveryOfId: redeliveryOfId ?? null
+        }
+      }))
+    );
+
+    return records.map(record => this.toDelivery(record));
+  }
+
+  /**
+   * Retrieves a delivery for its next attempt
+   * @param id Delivery identifier
+   * @returns Delivery and webhook, or null if either was deleted
+   */
+  async findDeliveryTarget(id: UUID): Promise<IWebhookDeliveryTarget | null> {
+    const record = await this.prisma.webhookDelivery.findUnique({
+      where: { id },
+      include: { webhook: { select: { ...WEBHOOK_SELECT, secretEncrypted: true } } }
+    });
+
+    if (!record) {
+      return null;
+    }
+
+    const { webhook: { secretEncrypted, ...webhook }, ...delivery } = record;
+
+    return {
+      delivery: this.toDelivery(delivery),
+      webhook: { ...this.toWebhook(webhook), secretEncrypted }
+    };
+  }
+
+  /**
+   * Records the outcome of an attempt
+   * @param id Delivery identifier
+   * @param data Changed fields
+   * @returns Updated delivery
+   */
+  async updateDelivery(
+    id: UUID,
+    data: Partial<Pick<IWebhookDelivery,
+      'status' | 'attempts' | 'responseStatus' | 'responseBody' | 'error' | 'durationMs' | 'nextAttemptAt' | 'deliveredAt'
+    >>
+  ): Promise<IWebhookDelivery> {
+    const record = await this.prisma.webhookDelivery.update({
+      where: { id },
+      data
+    });
+
+    return this.toDelivery(record);
+  }
+
+  /**
+   * Retrieves a delivery
+   * @param id Delivery identifier
+   * @returns Delivery or null if not found
+   */
+  async findDeliveryById(id: UUID): Promise<IWebhookDelivery | null> {
+    const record = await this.prisma.webhookDelivery.findUnique({
+      where: { id }
+    });
+
+    return record ? this.toDelivery(record) : null;
+  }
+
+  /**
+   * Retrieves a page of deliveries, newest first
+   * @param params Filters and pagination
+   * @returns Deliveries and their total count
+   */
+  async findDeliveries(
+    params: IWebhookDeliveryQueryParams
+  ): Promise<{ items: IWebhookDelivery[]; total: number }> {
+    const where = {
+      ...(params.webhookId && { webhookId: params.webhookId }),
+      ...(params.status && { status: params.status })
+    };
+
+    const [items, total] = await Promise.all([
+      this.prisma.webhookDelivery.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (params.page - 1) * params.limit,
+        take: params.limit
+      }),
+      this.prisma.webhookDelivery.count({ where })
+    ]);
+
+    return {
+      items: items.map(item => this.toDelivery(item)),
+      total
+    };
+  }
+
+  /**
+   * Converts a webhook row to the webhook interface
+   * @private
+   */
+  private toWebhook(record: WebhookRecord): IWebhook {
+    return {
+      ...record,
+      id: record.id as UUID,
+      projectId: record.projectId as UUID | null,
+      createdBy: record.createdBy as UUID,
+      events: record.events as WebhookEventType[]
+    };
+  }
+
+  /**
+   * Converts a delivery row to the delivery interface
+   * @private
+   */
+  private toDelivery(record: WebhookDelivery): IWebhookDelivery {
+    return {
+      ...record,
+      id: record.id as UUID,
+      webhookId: record.webhookId as UUID,
+      eventId: record.eventId as UUID,
+      redeliveryOfId: record.redeliveryOfId as UUID | null,
+      eventType: record.eventType as WebhookEventType,
+      status: record.status as WebhookDeliveryStatus,
+      payload: record.payload as unknown as IWebhookEvent
+    };
+  }
+}
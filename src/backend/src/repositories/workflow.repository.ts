@@ -0,0 +1,121 @@
+/**
+ * @fileoverview Repository for the workflow states and transitions of projects
+ * @version 1.0.0
+ * @module repositories/workflow
+ */
+
+import { PrismaClient } from '@prisma/client'; // v5.0+
+import { UUID } from 'crypto';
+
+// Internal imports
+import { IUpdateWorkflowDTO, IWorkflow, IWorkflowState } from '../interfaces/workflow.interface';
+import { resolveWorkflow } from '../utils/workflow.util';
+import { WipLimitMode } from '../types/workflow.types';
+
+/**
+ * Repository implementing data access for project workflows. A project without stored
+ * states uses the default workflow.
+ */
+export class WorkflowRepository {
+  private readonly prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Retrieves the workflow of a project
+   * @param projectId Project identifier
+   * @returns Stored workflow, or the default workflow
+   */
+  async findByProject(projectId: UUID): Promise<IWorkflow> {
+    const [states, transitions] = await Promise.all([
+      this.prisma.workflowState.findMany({
+        where: { projectId },
+        select: { key: true, name: true, category: true, position: true, wipLimit: true, wipLimitMode: true },
+        orderBy: { position: 'asc' }
+      }),
+      this.prisma.workflowTransition.findMany({
+        where: { projectId },
+        select: { fromKey: true, toKey: true }
+      })
+    ]);
+
+    return resolveWorkflow(
+      projectId,
+      states as unknown as IWorkflowState[],
+      transitions.map(transition => ({ from: transition.fromKey, to: transition.toKey }))
+    );
+  }
+
+  /**
+   * Lists which of the given states still hold active tasks of the project
+   * @param projectId Project identifier
+   * @param keys State keys
+   * @returns Keys of states in use
+   */
+  async findStatesInUse(projectId: UUID, keys: string[]): Promise<string[]> {
+    if (keys.length === 0) {
+      return [];
+    }
+
+    const rows = await this.prisma.task.groupBy({
+      by: ['status'],
+      where: { projectId, status: { in: keys }, deletedAt: null }
+    });
+
+    return rows.map(row => row.status);
+  }
+
+  /**
+   * Counts the active tasks of a project in a state
+   * @param projectId Project identifier
+   * @param key State key
+   * @returns Number of tasks
+   */
+  async countTasksInState(projectId: UUID, key: string): Promise<number> {
+    return this.prisma.task.count({
+      where: { projectId, status: key, deletedAt: null }
+    });
+  }
+
+  /**
+   * Replaces the states and transitions of a project workflow and moves the status
+   * category of existing tasks along with their state
+   * @param projectId Project identifier
+   * @param data New states and transitions
+   * @param updatedBy User changing the workflow
+   * @returns Stored workflow
+   */
+  async replace(projectId: UUID, data: IUpdateWorkflowDTO, updatedBy: UUID): Promise<IWorkflow> {
+    await this.prisma.$transaction([
+      this.prisma.workflowTransition.deleteMany({ where: { projectId } }),
+      this.prisma.workflowState.deleteMany({ where: { projectId } }),
+      this.prisma.workflowState.createMany({
+        data: data.states.map((state, position) => ({
+          projectId,
+          key: state.key,
+          name: state.name,
+          category: state.category,
+          wipLimit: state.wipLimit ?? null,
+          wipLimitMode: state.wipLimitMode ?? WipLimitMode.SOFT,
+          position,
+          updatedBy
+        }))
+      }),
+      this.prisma.workflowTransition.createMany({
+        data: data.transitions.map(transition => ({
+          projectId,
+          fromKey: transition.from,
+          toKey: transition.to
+        }))
+      }),
+      ...data.states.map(state => this.prisma.task.updateMany({
+        where: { projectId, status: state.key, statusCategory: { not: state.category } },
+        data: { statusCategory: state.category }
+      }))
+    ]);
+
+    return this.findByProject(projectId);
+  }
+}
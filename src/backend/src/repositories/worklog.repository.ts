@@ -0,0 +1,208 @@
+/**
+ * @fileoverview Repository for worklog entries and running timers
+ * @version 1.0.0
+ * @module repositories/worklog
+ */
+
+import { PrismaClient, Prisma } from '@prisma/client'; // v5.0+
+import { UUID } from 'crypto';
+
+// Internal imports
+import {
+  IWorklog,
+  ITimer,
+  ICreateWorklogDTO,
+  IUpdateWorklogDTO,
+  ITimerStartResult
+} from '../interfaces/worklog.interface';
+import { TimesheetEntry, timerDuration } from '../utils/worklog.util';
+
+/**
+ * Filter selecting the entries of a timesheet
+ */
+export interface ITimesheetFilter {
+  userId?: UUID;
+  projectId?: UUID;
+  from: Date;  // Inclusive
+  until: Date; // Exclusive
+}
+
+/**
+ * Repository implementing data access for worklogs and timers. Stopping a timer turns it
+ * into a worklog in one transaction, guarded by its start time, so a timer stopped from
+ * two devices at once is only logged once.
+ */
+export class WorklogRepository {
+  private readonly prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Retrieves the worklog entries of a task
+   * @param taskId Task identifier
+   * @returns Entries, latest first
+   */
+  async findByTask(taskId: UUID): Promise<IWorklog[]> {
+    return await this.prisma.worklog.findMany({
+      where: { taskId },
+      orderBy: { startedAt: 'desc' }
+    }) as IWorklog[];
+  }
+
+  /**
+   * Retrieves a worklog entry
+   * @param worklogId Worklog identifier
+   * @returns Entry or null if not found
+   */
+  async findById(worklogId: UUID): Promise<IWorklog | null> {
+    return await this.prisma.worklog.findUnique({
+      where: { id: worklogId }
+    }) as IWorklog | null;
+  }
+
+  /**
+   * Creates a worklog entry
+   * @param taskId Task identifier
+   * @param userId Author of the entry
+   * @param data Entry attributes
+   * @returns Created entry
+   */
+  async create(taskId: UUID, userId: UUID, data: ICreateWorklogDTO): Promise<IWorklog> {
+    return await this.prisma.worklog.create({
+      data: {
+        taskId,
+        userId,
+        startedAt: data.startedAt,
+        durationSeconds: data.durationSeconds,
+        note: data.note ?? null
+      }
+    }) as IWorklog;
+  }
+
+  /**
+   * Updates a worklog entry
+   * @param worklogId Worklog identifier
+   * @param data Changed attributes
+   * @returns Updated entry
+   */
+  async update(worklogId: UUID, data: IUpdateWorklogDTO): Promise<IWorklog> {
+    return await this.prisma.worklog.update({
+      where: { id: worklogId },
+      data
+    }) as IWorklog;
+  }
+
+  /**
+   * Removes a worklog entry
+   * @param worklogId Worklog identifier
+   */
+  async delete(worklogId: UUID): Promise<void> {
+    await this.prisma.worklog.delete({ where: { id: worklogId } });
+  }
+
+  /**
+   * Retrieves the running timer of a user
+   * @param userId User identifier
+   * @returns Timer or null when none is running
+   */
+  async findTimer(userId: UUID): Promise<ITimer | null> {
+    return await this.prisma.worklogTimer.findUnique({
+      where: { userId },
+      select: { userId: true, taskId: true, startedAt: true, note: true }
+    }) as ITimer | null;
+  }
+
+  /**
+   * Starts a timer for a user, logging the timer that was still running
+   * @param userId User identifier
+   * @param taskId Task to time
+   * @param note Note for the resulting worklog
+   * @param now Start time
+   * @returns New timer and the entry logged for the previous one
+   */
+  async startTimer(userId: UUID, taskId: UUID, note: string | null, now: Date): Promise<ITimerStartResult> {
+    return await this.prisma.$transaction(async (tx) => {
+      const stopped = await this.logTimer(tx, userId, now);
+
+      const timer = await tx.worklogTimer.create({
+        data: { userId, taskId, startedAt: now, note },
+        select: { userId: true, taskId: true, startedAt: true, note: true }
+      });
+
+      return { timer: timer as ITimer, stopped };
+    });
+  }
+
+  /**
+   * Stops the timer of a user and logs the elapsed time
+   * @param userId User identifier
+   * @param now Stop time
+   * @returns Logged entry, or null when no timer was running
+   */
+  async stopTimer(userId: UUID, now: Date): Promise<IWorklog | null> {
+    return await this.prisma.$transaction(async (tx) => this.logTimer(tx, userId, now));
+  }
+
+  /**
+   * Retrieves the entries of a timesheet with their task
+   * @param filter Author or project, and time range
+   * @returns Entries started within the range
+   */
+  async findTimesheetEntries(filter: ITimesheetFilter): Promise<TimesheetEntry[]> {
+    const worklogs = await this.prisma.worklog.findMany({
+      where: {
+        startedAt: { gte: filter.from, lt: filter.until },
+        ...(filter.userId && { userId: filter.userId }),
+        ...(filter.projectId && { task: { projectId: filter.projectId } })
+      },
+      select: {
+        userId: true,
+        taskId: true,
+        startedAt: true,
+        durationSeconds: true,
+        task: { select: { title: true, projectId: true } }
+      }
+    });
+
+    return worklogs.map(({ task, ...worklog }) => ({
+      ...worklog,
+      taskTitle: task.title,
+      projectId: task.projectId
+    }));
+  }
+
+  /**
+   * Removes the running timer of a user and logs it; the removal is guarded by the
+   * timer's start time so a concurrent stop cannot log it twice
+   * @private
+   */
+  private async logTimer(
+    tx: Prisma.TransactionClient,
+    userId: UUID,
+    now: Date
+  ): Promise<IWorklog | null> {
+    const timer = await tx.worklogTimer.findUnique({ where: { userId } });
+    if (!timer) {
+      return null;
+    }
+
+    const { count } = await tx.worklogTimer.deleteMany({
+      where: { userId, startedAt: timer.startedAt }
+    });
+    if (count === 0) {
+      return null;
+    }
+
+    return await tx.worklog.create({
+      data: {
+        taskId: timer.taskId,
+        userId,
+        startedAt: timer.startedAt,
+        durationSeconds: timerDuration(timer.startedAt, now),
+        note: timer.note
+      }
+    }) as IWorklog;
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * @fileoverview Task attachment routes, mounted under /tasks/:taskId/attachments
+ * @version 1.0.0
+ */
+
+// External imports with versions
+import { Router, Request, Response, NextFunction } from 'express'; // v4.18.2
+import rateLimit from 'express-rate-limit'; // v7.1.0
+import multer from 'multer'; // v1.4.5-lts.1
+
+// Internal imports
+import { AttachmentController } from '../controllers/attachment.controller';
+import { authenticate, authorizePermission } from '../middleware/auth.middleware';
+import { validateRequestSchema } from '../middleware/validator.middleware';
+import { Permission } from '../types/permission.types';
+import { enhancedLogger as logger } from '../utils/logger.util';
+
+// Upload limits; the request cap bounds the whole multipart body, not each file
+const MAX_UPLOAD_REQUEST_SIZE = 25 * 1024 * 1024; // 25MB
+const MAX_FILES_PER_UPLOAD = 10;
+
+// Files are buffered in memory so they can be scanned and encrypted before storage,
+// which is why the request size is checked before multer reads the body
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_UPLOAD_REQUEST_SIZE,
+    files: MAX_FILES_PER_UPLOAD
+  }
+});
+
+/**
+ * Rejects uploads without a declared length or larger than the request cap
+ * so no more than MAX_UPLOAD_REQUEST_SIZE is ever buffered per request
+ */
+const limitUploadSize = (req: Request, res: Response, next: NextFunction): void => {
+  const contentLength = req.headers['content-length'];
+
+  if (!contentLength) {
+    res.status(411).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Content-Length header is required for uploads',
+        correlationId: req.correlationId
+      }
+    });
+    return;
+  }
+
+  if (parseInt(contentLength, 10) > MAX_UPLOAD_REQUEST_SIZE) {
+    res.status(413).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: `Uploads are limited to ${MAX_UPLOAD_REQUEST_SIZE / 1024 / 1024}MB per request`,
+        correlationId: req.correlationId
+      }
+    });
+    return;
+  }
+
+  next();
+};
+
+// Rate limiting configurations
+const readRateLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 100, // 100 requests per minute
+  message: 'Too many read requests, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => req.user?.id || req.ip
+});
+
+const uploadRateLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  max: 20, // 20 upload requests per minute
+  message: 'Too many upload requests, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => req.user?.id || req.ip
+});
+
+/**
+ * Configures and returns attachment routes; expects to be mounted with a :taskId param
+ * @returns Configured Express router instance
+ */
+const configureAttachmentRoutes = (): Router => {
+  const router = Router({ mergeParams: true });
+  const attachmentController = new AttachmentController();
+
+  // GET /tasks/:taskId/attachments - List attachments
+  router.get(
+    '/',
+    authenticate,
+    authorizePermission(Permission.TASK_READ),
+    readRateLimiter,
+    attachmentController.getAttachments
+  );
+
+  // POST /tasks/:taskId/attachments - Upload files (multipart field "files")
+  router.post(
+    '/',
+    authenticate,
+    authorizePermission(Permission.ATTACHMENT_WRITE),
+    uploadRateLimiter,
+    limitUploadSize,
+    upload.array('files', MAX_FILES_PER_UPLOAD),
+    attachmentController.uploadAttachments
+  );
+
+  // GET /tasks/:taskId/attachments/:attachmentId/download - Stream file content
+  router.get(
+    '/:attachmentId/download',
+    authenticate,
+    authorizePermission(Permission.TASK_READ),
+    readRateLimiter,
+    validateRequestSchema,
+    attachmentController.downloadAttachment
+  );
+
+  // DELETE /tasks/:taskId/attachments/:attachmentId - Delete attachment
+  router.delete(
+    '/:attachmentId',
+    authenticate,
+    authorizePermission(Permission.ATTACHMENT_WRITE),
+    uploadRateLimiter,
+    validateRequestSchema,
+    attachmentController.deleteAttachment
+  );
+
+  // Error handling middleware
+  router.use((err: any, req: any, res: any, next: any) => {
+    logger.error('Attachment route error:', {
+      error: err.message,
+      path: req.path,
+      method: req.method,
+      correlationId: req.correlationId
+    });
+
+    // Multer rejects oversized or excess files before the controller runs
+    if (err instanceof multer.MulterError) {
+      return res.status(err.code === 'LIMIT_FILE_SIZE' ? 413 : 400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: err.message,
+          correlationId: req.correlationId
+        }
+      });
+    }
+
+    res.status(err.statusCode || 500).json({
+      success: false,
+      error: {
+        code: err.errorCode || 'INTERNAL_SERVER_ERROR',
+        message: err.message || 'An unexpected error occurred',
+        correlationId: req.correlationId
+      }
+    });
+  });
+
+  return router;
+};
+
+// Export configured router
+export const attachmentRouter = configureAttachmentRoutes();
+
+export default attachmentRouter;
@@ -0,0 +1,103 @@
+/**
+ * @fileoverview Calendar feed routes, mounted under /calendar
+ * @version 1.0.0
+ */
+
+// External imports with versions
+import { Router } from 'express'; // v4.18.2
+import rateLimit from 'express-rate-limit'; // v7.1.0
+
+// Internal imports
+import { CalendarController } from '../controllers/calendar.controller';
+import { authenticate, authorizePermission } from '../middleware/auth.middleware';
+import { Permission } from '../types/permission.types';
+import { enhancedLogger as logger } from '../utils/logger.util';
+
+// Rate limiting configuration for managing the feed
+const calendarRateLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 30, // 30 requests per minute
+  message: 'Too many requests, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => req.user?.id || req.ip
+});
+
+// Feeds are fetched without a session, so they are limited per client address
+const feedRateLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 20, // 20 feed reads per minute
+  message: 'Too many feed requests, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => req.ip
+});
+
+/**
+ * Configures and returns calendar routes
+ * @returns Configured Express router instance
+ */
+const configureCalendarRoutes = (): Router => {
+  const router = Router();
+  const calendarController = new CalendarController();
+
+  // GET /calendar/feed - Get the caller's feed
+  router.get(
+    '/feed',
+    authenticate,
+    authorizePermission(Permission.TASK_READ),
+    calendarRateLimiter,
+    calendarController.getFeed
+  );
+
+  // POST /calendar/feed - Generate a feed token, replacing the previous one
+  router.post(
+    '/feed',
+    authenticate,
+    authorizePermission(Permission.TASK_READ),
+    calendarRateLimiter,
+    calendarController.regenerateFeed
+  );
+
+  // DELETE /calendar/feed - Revoke the caller's feed
+  router.delete(
+    '/feed',
+    authenticate,
+    authorizePermission(Permission.TASK_READ),
+    calendarRateLimiter,
+    calendarController.revokeFeed
+  );
+
+  // GET /calendar/:token.ics?projectId=&tz= - Read a feed; the token authenticates
+  router.get(
+    '/:token.ics',
+    feedRateLimiter,
+    calendarController.getCalendar
+  );
+
+  // Error handling middleware
+  router.use((err: any, req: any, res: any, next: any) => {
+    logger.error('Calendar route error:', {
+      error: err.message,
+      path: req.path,
+      method: req.method,
+      correlationId: req.correlationId
+    });
+
+    res.status(err.statusCode || 500).json({
+      success: false,
+      error: {
+        code: err.errorCode || 'INTERNAL_SERVER_ERROR',
+        message: err.message || 'An unexpected error occurred',
+        correlationId: req.correlationId
+      }
+    });
+  });
+
+  return router;
+};
+
+// Export configured router
+export const calendarRouter = configureCalendarRoutes();
+
+export default calendarRouter;
@@ -0,0 +1,115 @@
+/**
+ * @fileoverview Task checklist routes, mounted under /tasks/:taskId/checklist
+ * @version 1.0.0
+ */
+
+// External imports with versions
+import { Router } from 'express'; // v4.18.2
+import rateLimit from 'express-rate-limit'; // v7.1.0
+
+// Internal imports
+import { ChecklistController } from '../controllers/checklist.controller';
+import { authenticate, authorizePermission } from '../middleware/auth.middleware';
+import {
+  validationMiddleware,
+  sanitizeMiddleware,
+  validateRequestSchema
+} from '../middleware/validator.middleware';
+import { CreateChecklistItemDTO, UpdateChecklistItemDTO } from '../dto/checklist.dto';
+import { Permission } from '../types/permission.types';
+import { enhancedLogger as logger } from '../utils/logger.util';
+
+// Rate limiting configurations
+const readRateLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 100, // 100 requests per minute
+  message: 'Too many read requests, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => req.user?.id || req.ip
+});
+
+const writeRateLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  max: 100, // 100 item changes per minute
+  message: 'Too many write requests, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => req.user?.id || req.ip
+});
+
+/**
+ * Configures and returns checklist routes; expects to be mounted with a :taskId param
+ * @returns Configured Express router instance
+ */
+const configureChecklistRoutes = (): Router => {
+  const router = Router({ mergeParams: true });
+  const checklistController = new ChecklistController();
+
+  // GET /tasks/:taskId/checklist - List checklist items
+  router.get(
+    '/',
+    authenticate,
+    authorizePermission(Permission.TASK_READ),
+    readRateLimiter,
+    checklistController.getChecklist
+  );
+
+  // POST /tasks/:taskId/checklist - Add a checklist item
+  router.post(
+    '/',
+    authenticate,
+    authorizePermission(Permission.CHECKLIST_UPDATE),
+    writeRateLimiter,
+    sanitizeMiddleware,
+    validationMiddleware(CreateChecklistItemDTO),
+    checklistController.addItem
+  );
+
+  // PUT /tasks/:taskId/checklist/:itemId - Rename, reorder or check off an item
+  router.put(
+    '/:itemId',
+    authenticate,
+    authorizePermission(Permission.CHECKLIST_UPDATE),
+    writeRateLimiter,
+    sanitizeMiddleware,
+    validationMiddleware(UpdateChecklistItemDTO),
+    checklistController.updateItem
+  );
+
+  // DELETE /tasks/:taskId/checklist/:itemId - Remove an item
+  router.delete(
+    '/:itemId',
+    authenticate,
+    authorizePermission(Permission.CHECKLIST_UPDATE),
+    writeRateLimiter,
+    validateRequestSchema,
+    checklistController.removeItem
+  );
+
+  // Error handling middleware
+  router.use((err: any, req: any, res: any, next: any) => {
+    logger.error('Checklist route error:', {
+      error: err.message,
+      path: req.path,
+      method: req.method,
+      correlationId: req.correlationId
+    });
+
+    res.status(err.statusCode || 500).json({
+      success: false,
+      error: {
+        code: err.errorCode || 'INTERNAL_SERVER_ERROR',
+        message: err.message || 'An unexpected error occurred',
+        correlationId: req.correlationId
+      }
+    });
+  });
+
+  return router;
+};
+
+// Export configured router
+export const checklistRouter = configureChecklistRoutes();
+
+export default checklistRouter;
@@ -0,0 +1,121 @@
+/**
+ * @fileoverview Task comment routes with threaded replies, mounted under /tasks/:taskId/comments
+ * @version 1.0.0
+ */
+
+// External imports with versions
+import { Router } from 'express'; // v4.18.2
+import rateLimit from 'express-rate-limit'; // v7.1.0
+
+// Internal imports
+import { CommentController } from '../controllers/comment.controller';
+import { authenticate, authorizePermission } from '../middleware/auth.middleware';
+import {
+  validationMiddleware,
+  sanitizeMiddleware,
+  validateRequestSchema
+} from '../middleware/validator.middleware';
+import {
+  CreateCommentDTO,
+  UpdateCommentDTO,
+  CommentQueryDTO
+} from '../dto/comment.dto';
+import { Permission } from '../types/permission.types';
+import { enhancedLogger as logger } from '../utils/logger.util';
+
+// Rate limiting configurations
+const readRateLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 100, // 100 requests per minute
+  message: 'Too many read requests, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => req.user?.id || req.ip
+});
+
+const writeRateLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  max: 30, // 30 comment writes per minute
+  message: 'Too many write requests, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => req.user?.id || req.ip
+});
+
+/**
+ * Configures and returns comment routes; expects to be mounted with a :taskId param
+ * @returns Configured Express router instance
+ */
+const configureCommentRoutes = (): Router => {
+  const router = Router({ mergeParams: true });
+  const commentController = new CommentController();
+
+  // GET /tasks/:taskId/comments - List top-level comments with replies
+  router.get(
+    '/',
+    authenticate,
+    authorizePermission(Permission.TASK_READ),
+    readRateLimiter,
+    validationMiddleware(CommentQueryDTO),
+    commentController.getComments
+  );
+
+  // POST /tasks/:taskId/comments - Create comment or reply
+  router.post(
+    '/',
+    authenticate,
+    authorizePermission(Permission.COMMENT_WRITE),
+    writeRateLimiter,
+    sanitizeMiddleware,
+    validationMiddleware(CreateCommentDTO),
+    commentController.createComment
+  );
+
+  // PUT /tasks/:taskId/comments/:commentId - Edit own comment
+  router.put(
+    '/:commentId',
+    authenticate,
+    authorizePermission(Permission.COMMENT_WRITE),
+    writeRateLimiter,
+    sanitizeMiddleware,
+    validationMiddleware(UpdateCommentDTO),
+    validateRequestSchema,
+    commentController.updateComment
+  );
+
+  // DELETE /tasks/:taskId/comments/:commentId - Delete own comment (soft delete)
+  router.delete(
+    '/:commentId',
+    authenticate,
+    authorizePermission(Permission.COMMENT_WRITE),
+    writeRateLimiter,
+    validateRequestSchema,
+    commentController.deleteComment
+  );
+
+  // Error handling middleware
+  router.use((err: any, req: any, res: any, next: any) => {
+    logger.error('Comment route error:', {
+      error: err.message,
+      path: req.path,
+      method: req.method,
+      correlationId: req.correlationId
+    });
+
+    res.status(err.statusCode || 500).json({
+      success: false,
+      error: {
+        code: err.errorCode || 'INTERNAL_SERVER_ERROR',
+        message: err.message || 'An unexpected error occurred',
+        correlationId: req.correlationId
+      }
+    });
+  });
+
+  return router;
+};
+
+// Export configured router
+export const commentRouter = configureCommentRoutes();
+
+export default commentRouter;
@@ -0,0 +1,115 @@
+/**
+ * @fileoverview Project custom field routes, mounted under /projects/:projectId/custom-fields
+ * @version 1.0.0
+ */
+
+// External imports with versions
+import { Router } from 'express'; // v4.18.2
+import rateLimit from 'express-rate-limit'; // v7.1.0
+
+// Internal imports
+import { CustomFieldController } from '../controllers/customField.controller';
+import { authenticate, authorizePermission } from '../middleware/auth.middleware';
+import {
+  validationMiddleware,
+  sanitizeMiddleware,
+  validateRequestSchema
+} from '../middleware/validator.middleware';
+import { CreateCustomFieldDTO, UpdateCustomFieldDTO } from '../dto/customField.dto';
+import { Permission } from '../types/permission.types';
+import { enhancedLogger as logger } from '../utils/logger.util';
+
+// Rate limiting configurations
+const readRateLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 100, // 100 requests per minute
+  message: 'Too many read requests, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => req.user?.id || req.ip
+});
+
+const writeRateLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  max: 30, // 30 field changes per minute
+  message: 'Too many write requests, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => req.user?.id || req.ip
+});
+
+/**
+ * Configures and returns custom field routes; expects to be mounted with a :projectId param
+ * @returns Configured Express router instance
+ */
+const configureCustomFieldRoutes = (): Router => {
+  const router = Router({ mergeParams: true });
+  const customFieldController = new CustomFieldController();
+
+  // GET /projects/:projectId/custom-fields - List the project's fields
+  router.get(
+    '/',
+    authenticate,
+    authorizePermission(Permission.PROJECT_READ),
+    readRateLimiter,
+    customFieldController.getFields
+  );
+
+  // POST /projects/:projectId/custom-fields - Define a field
+  router.post(
+    '/',
+    authenticate,
+    authorizePermission(Permission.PROJECT_FIELDS_MANAGE),
+    writeRateLimiter,
+    sanitizeMiddleware,
+    validationMiddleware(CreateCustomFieldDTO),
+    customFieldController.createField
+  );
+
+  // PUT /projects/:projectId/custom-fields/:fieldId - Rename, reorder or change options
+  router.put(
+    '/:fieldId',
+    authenticate,
+    authorizePermission(Permission.PROJECT_FIELDS_MANAGE),
+    writeRateLimiter,
+    sanitizeMiddleware,
+    validationMiddleware(UpdateCustomFieldDTO),
+    customFieldController.updateField
+  );
+
+  // DELETE /projects/:projectId/custom-fields/:fieldId - Remove a field
+  router.delete(
+    '/:fieldId',
+    authenticate,
+    authorizePermission(Permission.PROJECT_FIELDS_MANAGE),
+    writeRateLimiter,
+    validateRequestSchema,
+    customFieldController.deleteField
+  );
+
+  // Error handling middleware
+  router.use((err: any, req: any, res: any, next: any) => {
+    logger.error('Custom field route error:', {
+      error: err.message,
+      path: req.path,
+      method: req.method,
+      correlationId: req.correlationId
+    });
+
+    res.status(err.statusCode || 500).json({
+      success: false,
+      error: {
+        code: err.errorCode || 'INTERNAL_SERVER_ERROR',
+        message: err.message || 'An unexpected error occurred',
+        correlationId: req.correlationId
+      }
+    });
+  });
+
+  return router;
+};
+
+// Export configured router
+export const customFieldRouter = configureCustomFieldRoutes();
+
+export default customFieldRouter;
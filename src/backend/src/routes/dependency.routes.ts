@@ -0,0 +1,104 @@
+/**
+ * @fileoverview Task dependency routes, mounted under /tasks/:taskId/dependencies
+ * @version 1.0.0
+ */
+
+// External imports with versions
+import { Router } from 'express'; // v4.18.2
+import rateLimit from 'express-rate-limit'; // v7.1.0
+
+// Internal imports
+import { DependencyController } from '../controllers/dependency.controller';
+import { authenticate, authorizePermission } from '../middleware/auth.middleware';
+import {
+  validationMiddleware,
+  sanitizeMiddleware,
+  validateRequestSchema
+} from '../middleware/validator.middleware';
+import { CreateDependencyDTO } from '../dto/dependency.dto';
+import { Permission } from '../types/permission.types';
+import { enhancedLogger as logger } from '../utils/logger.util';
+
+// Rate limiting configurations
+const readRateLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 100, // 100 requests per minute
+  message: 'Too many read requests, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => req.user?.id || req.ip
+});
+
+const writeRateLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  max: 50, // 50 link changes per minute
+  message: 'Too many write requests, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => req.user?.id || req.ip
+});
+
+/**
+ * Configures and returns dependency routes; expects to be mounted with a :taskId param
+ * @returns Configured Express router instance
+ */
+const configureDependencyRoutes = (): Router => {
+  const router = Router({ mergeParams: true });
+  const dependencyController = new DependencyController();
+
+  // GET /tasks/:taskId/dependencies - List blockers and blocked tasks
+  router.get(
+    '/',
+    authenticate,
+    authorizePermission(Permission.TASK_READ),
+    readRateLimiter,
+    dependencyController.getDependencies
+  );
+
+  // POST /tasks/:taskId/dependencies - Link a blocker or a blocked task
+  router.post(
+    '/',
+    authenticate,
+    authorizePermission(Permission.DEPENDENCY_UPDATE),
+    writeRateLimiter,
+    sanitizeMiddleware,
+    validationMiddleware(CreateDependencyDTO),
+    dependencyController.addDependency
+  );
+
+  // DELETE /tasks/:taskId/dependencies/:dependencyId - Remove a link
+  router.delete(
+    '/:dependencyId',
+    authenticate,
+    authorizePermission(Permission.DEPENDENCY_UPDATE),
+    writeRateLimiter,
+    validateRequestSchema,
+    dependencyController.removeDependency
+  );
+
+  // Error handling middleware
+  router.use((err: any, req: any, res: any, next: any) => {
+    logger.error('Dependency route error:', {
+      error: err.message,
+      path: req.path,
+      method: req.method,
+      correlationId: req.correlationId
+    });
+
+    res.status(err.statusCode || 500).json({
+      success: false,
+      error: {
+        code: err.errorCode || 'INTERNAL_SERVER_ERROR',
+        message: err.message || 'An unexpected error occurred',
+        correlationId: req.correlationId
+      }
+    });
+  });
+
+  return router;
+};
+
+// Export configured router
+export const dependencyRouter = configureDependencyRoutes();
+
+export default dependencyRouter;
@@ -0,0 +1,82 @@
+/**
+ * @fileoverview Task and project list export routes, mounted under /exports
+ * @version 1.0.0
+ */
+
+// External imports with versions
+import { Router } from 'express'; // v4.18.2
+import rateLimit from 'express-rate-limit'; // v7.1.0
+
+// Internal imports
+import { ExportController } from '../controllers/export.controller';
+import { authenticate, authorizePermission } from '../middleware/auth.middleware';
+import { Permission } from '../types/permission.types';
+import { enhancedLogger as logger } from '../utils/logger.util';
+
+// Rate limiting configuration; each export reads a whole list
+const exportRateLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 10, // 10 exports per minute
+  message: 'Too many exports, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => req.user?.id || req.ip
+});
+
+/**
+ * Configures and returns export routes
+ * @returns Configured Express router instance
+ */
+const configureExportRoutes = (): Router => {
+  const router = Router();
+  const exportController = new ExportController();
+
+  // GET /exports/tasks?format=&columns= - Export tasks with the filters of the task listing
+  router.get(
+    '/tasks',
+    authenticate,
+    authorizePermission(Permission.TASK_READ),
+    exportRateLimiter,
+    exportController.exportTasks
+  );
+
+  // GET /exports/projects?format=&columns= - Export projects with the filters of the project listing
+  router.get(
+    '/projects',
+    authenticate,
+    authorizePermission(Permission.PROJECT_READ),
+    exportRateLimiter,
+    exportController.exportProjects
+  );
+
+  // Error handling middleware
+  router.use((err: any, req: any, res: any, next: any) => {
+    logger.error('Export route error:', {
+      error: err.message,
+      path: req.path,
+      method: req.method,
+      correlationId: req.correlationId
+    });
+
+    // A partly written download can only be cut off
+    if (res.headersSent) {
+      return res.destroy();
+    }
+
+    res.status(err.statusCode || 500).json({
+      success: false,
+      error: {
+        code: err.errorCode || 'INTERNAL_SERVER_ERROR',
+        message: err.message || 'An unexpected error occurred',
+        correlationId: req.correlationId
+      }
+    });
+  });
+
+  return router;
+};
+
+// Export configured router
+export const exportRouter = configureExportRoutes();
+
+export default exportRouter;
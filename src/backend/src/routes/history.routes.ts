@@ -0,0 +1,81 @@
+/**
+ * @fileoverview Change history routes for tasks and projects, mounted under the API root
+ * @version 1.0.0
+ */
+
+// External imports with versions
+import { Router } from 'express'; // v4.18.2
+import rateLimit from 'express-rate-limit'; // v7.1.0
+
+// Internal imports
+import { HistoryController } from '../controllers/history.controller';
+import { authenticate, authorizePermission } from '../middleware/auth.middleware';
+import { validationMiddleware } from '../middleware/validator.middleware';
+import { HistoryQueryDTO } from '../dto/history.dto';
+import { Permission } from '../types/permission.types';
+import { enhancedLogger as logger } from '../utils/logger.util';
+
+// Rate limiting configuration
+const readRateLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 100, // 100 requests per minute
+  message: 'Too many read requests, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => req.user?.id || req.ip
+});
+
+/**
+ * Configures and returns change history routes
+ * @returns Configured Express router instance
+ */
+const configureHistoryRoutes = (): Router => {
+  const router = Router();
+  const historyController = new HistoryController();
+
+  // GET /tasks/:taskId/history - Retrieve field-level changes of a task
+  router.get(
+    '/tasks/:taskId/history',
+    authenticate,
+    authorizePermission(Permission.HISTORY_READ),
+    readRateLimiter,
+    validationMiddleware(HistoryQueryDTO),
+    historyController.getTaskHistory
+  );
+
+  // GET /projects/:projectId/history - Retrieve field-level changes of a project
+  router.get(
+    '/projects/:projectId/history',
+    authenticate,
+    authorizePermission(Permission.HISTORY_READ),
+    readRateLimiter,
+    validationMiddleware(HistoryQueryDTO),
+    historyController.getProjectHistory
+  );
+
+  // Error handling middleware
+  router.use((err: any, req: any, res: any, next: any) => {
+    logger.error('History route error:', {
+      error: err.message,
+      path: req.path,
+      method: req.method,
+      correlationId: req.correlationId
+    });
+
+    res.status(err.statusCode || 500).json({
+      success: false,
+      error: {
+        code: err.errorCode || 'INTERNAL_SERVER_ERROR',
+        message: err.message || 'An unexpected error occurred',
+        correlationId: req.correlationId
+      }
+    });
+  });
+
+  return router;
+};
+
+// Export configured router
+export const historyRouter = configureHistoryRoutes();
+
+export default historyRouter;
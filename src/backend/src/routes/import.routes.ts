@@ -0,0 +1,146 @@
+/**
+ * @fileoverview Task import routes, mounted under /projects/:projectId/imports
+ * @version 1.0.0
+ */
+
+// External imports with versions
+import { Router } from 'express'; // v4.18.2
+import rateLimit from 'express-rate-limit'; // v7.1.0
+import multer from 'multer'; // v1.4.5-lts.1
+
+// Internal imports
+import { TaskImportController } from '../controllers/import.controller';
+import { authenticate, authorizePermission } from '../middleware/auth.middleware';
+import {
+  validationMiddleware,
+  sanitizeMiddleware
+} from '../middleware/validator.middleware';
+import { MapTaskImportDTO } from '../dto/import.dto';
+import { Permission } from '../types/permission.types';
+import { MAX_IMPORT_FILE_SIZE } from '../utils/import.util';
+import { enhancedLogger as logger } from '../utils/logger.util';
+
+// Files are buffered in memory; their rows are parsed and stored with the import
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_IMPORT_FILE_SIZE,
+    files: 1
+  }
+});
+
+// Rate limiting configurations
+const readRateLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 100, // 100 requests per minute
+  message: 'Too many read requests, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => req.user?.id || req.ip
+});
+
+const writeRateLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  max: 30, // 30 uploads and dry runs per minute
+  message: 'Too many write requests, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => req.user?.id || req.ip
+});
+
+const commitRateLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  max: 10, // 10 commits per minute, each creating up to thousands of tasks
+  message: 'Too many import requests, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => req.user?.id || req.ip
+});
+
+/**
+ * Configures and returns task import routes; expects to be mounted with a :projectId param
+ * @returns Configured Express router instance
+ */
+const configureImportRoutes = (): Router => {
+  const router = Router({ mergeParams: true });
+  const importController = new TaskImportController();
+
+  // POST /projects/:projectId/imports - Upload a CSV or JSON file (multipart field "file")
+  router.post(
+    '/',
+    authenticate,
+    authorizePermission(Permission.TASK_CREATE),
+    writeRateLimiter,
+    upload.single('file'),
+    importController.createImport
+  );
+
+  // GET /projects/:projectId/imports/:importId - Get an import and its progress
+  router.get(
+    '/:importId',
+    authenticate,
+    authorizePermission(Permission.TASK_CREATE),
+    readRateLimiter,
+    importController.getImport
+  );
+
+  // POST /projects/:projectId/imports/:importId/validate - Dry-run a mapping
+  router.post(
+    '/:importId/validate',
+    authenticate,
+    authorizePermission(Permission.TASK_CREATE),
+    writeRateLimiter,
+    sanitizeMiddleware,
+    validationMiddleware(MapTaskImportDTO),
+    importController.validateImport
+  );
+
+  // POST /projects/:projectId/imports/:importId/commit - Create the tasks in the background
+  router.post(
+    '/:importId/commit',
+    authenticate,
+    authorizePermission(Permission.TASK_CREATE),
+    commitRateLimiter,
+    sanitizeMiddleware,
+    validationMiddleware(MapTaskImportDTO),
+    importController.commitImport
+  );
+
+  // Error handling middleware
+  router.use((err: any, req: any, res: any, next: any) => {
+    logger.error('Import route error:', {
+      error: err.message,
+      path: req.path,
+      method: req.method,
+      correlationId: req.correlationId
+    });
+
+    // Multer rejects oversized files before the controller runs
+    if (err instanceof multer.MulterError) {
+      return res.status(err.code === 'LIMIT_FILE_SIZE' ? 413 : 400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: err.message,
+          correlationId: req.correlationId
+        }
+      });
+    }
+
+    res.status(err.statusCode || 500).json({
+      success: false,
+      error: {
+        code: err.errorCode || 'INTERNAL_SERVER_ERROR',
+        message: err.message || 'An unexpected error occurred',
+        correlationId: req.correlationId
+      }
+    });
+  });
+
+  return router;
+};
+
+// Export configured router
+export const importRouter = configureImportRoutes();
+
+export default importRouter;
@@ -0,0 +1,72 @@
+/**
+ * @fileoverview Inbound email route, mounted under /inbound-email
+ * @version 1.0.0
+ */
+
+// External imports with versions
+import express, { Router } from 'express'; // v4.18.2
+import rateLimit from 'express-rate-limit'; // v7.1.0
+
+// Internal imports
+import { InboundEmailController } from '../controllers/inboundEmail.controller';
+import { emailConfig } from '../config/email.config';
+import { enhancedLogger as logger } from '../utils/logger.util';
+
+// Messages are posted by the mail server without a session, so they are limited per client address
+const inboundRateLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 60, // 60 messages per minute
+  message: 'Too many messages, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => req.ip
+});
+
+// Keeps the message as raw bytes for the MIME parser
+const rawMessageParser = express.raw({
+  type: ['message/rfc822', 'text/plain', 'application/octet-stream'],
+  limit: emailConfig.inbound.maxMessageBytes
+});
+
+/**
+ * Configures and returns inbound email routes
+ * @returns Configured Express router instance
+ */
+const configureInboundEmailRoutes = (): Router => {
+  const router = Router();
+  const inboundEmailController = new InboundEmailController();
+
+  // POST /inbound-email - Create a task or comment from a raw message; the shared secret authenticates
+  router.post(
+    '/',
+    inboundRateLimiter,
+    rawMessageParser,
+    inboundEmailController.receive
+  );
+
+  // Error handling middleware
+  router.use((err: any, req: any, res: any, next: any) => {
+    logger.error('Inbound email route error:', {
+      error: err.message,
+      path: req.path,
+      method: req.method,
+      correlationId: req.correlationId
+    });
+
+    res.status(err.statusCode || err.status || 500).json({
+      success: false,
+      error: {
+        code: err.errorCode || (err.type === 'entity.too.large' ? 'MESSAGE_TOO_LARGE' : 'INTERNAL_SERVER_ERROR'),
+        message: err.message || 'An unexpected error occurred',
+        correlationId: req.correlationId
+      }
+    });
+  });
+
+  return router;
+};
+
+// Export configured router
+export const inboundEmailRouter = configureInboundEmailRoutes();
+
+export default inboundEmailRouter;
@@ -11,10 +11,31 @@ import cors from 'cors'; // ^2.8.5
 import rateLimit from 'express-rate-limit'; // ^7.1.0
 
 // Route imports
+import attachmentRouter from './attachment.routes';
 import authRouter from './auth.routes';
+import calendarRouter from './calendar.routes';
+import checklistRouter from './checklist.routes';
+import commentRouter from './comment.routes';
+import customFieldRouter from './customField.routes';
+import dependencyRouter from './dependency.routes';
+import exportRouter from './export.routes';
+import historyRouter from './history.routes';
+import importRouter from './import.routes';
+import inboundEmailRouter from './inboundEmail.routes';
+import membershipRouter from './membership.routes';
+import milestoneRouter from './milestone.routes';
+import notificationRouter from './notification.routes';
+import permissionRouter from './permission.routes';
 import projectRouter from './project.routes';
+import recurrenceRouter from './recurrence.routes';
+import savedViewRouter from './savedView.routes';
+import searchRouter from './search.routes';
+import sprintRouter from './sprint.routes';
 import taskRouter from './task.routes';
 import userRouter from './user.routes';
+import webhookRouter from './webhook.routes';
+import workflowRouter from './workflow.routes';
+import worklogRouter from './worklog.routes';
 
 // Utility imports
 import { enhancedLogger as logger } from '../utils/logger.util';
@@ -104,9 +125,32 @@ const configureRoutes = (): Router => {
 
   // Mount route modules
   router.use(`${API_VERSION}/auth`, authRouter);
+  // Serves /tasks/:taskId/history and /projects/:projectId/history, so it precedes both routers
+  router.use(API_VERSION, historyRouter);
+  // Serves worklogs, the timer and timesheets under /tasks, /users and /projects
+  router.use(API_VERSION, worklogRouter);
+  router.use(`${API_VERSION}/calendar`, calendarRouter);
+  router.use(`${API_VERSION}/exports`, exportRouter);
+  router.use(`${API_VERSION}/inbound-email`, inboundEmailRouter);
+  router.use(`${API_VERSION}/notifications`, notificationRouter);
+  router.use(`${API_VERSION}/permissions`, permissionRouter);
+  router.use(`${API_VERSION}/projects/:projectId/custom-fields`, customFieldRouter);
+  router.use(`${API_VERSION}/projects/:projectId/imports`, importRouter);
+  router.use(`${API_VERSION}/projects/:projectId/members`, membershipRouter);
+  router.use(`${API_VERSION}/projects/:projectId/milestones`, milestoneRouter);
+  router.use(`${API_VERSION}/projects/:projectId/sprints`, sprintRouter);
+  router.use(`${API_VERSION}/projects/:projectId/workflow`, workflowRouter);
   router.use(`${API_VERSION}/projects`, projectRouter);
+  router.use(`${API_VERSION}/tasks/:taskId/attachments`, attachmentRouter);
+  router.use(`${API_VERSION}/tasks/:taskId/checklist`, checklistRouter);
+  router.use(`${API_VERSION}/tasks/:taskId/comments`, commentRouter);
+  router.use(`${API_VERSION}/tasks/:taskId/dependencies`, dependencyRouter);
+  router.use(`${API_VERSION}/search`, searchRouter);
+  router.use(`${API_VERSION}/tasks/:taskId/recurrence`, recurrenceRouter);
   router.use(`${API_VERSION}/tasks`, taskRouter);
   router.use(`${API_VERSION}/users`, userRouter);
+  router.use(`${API_VERSION}/views`, savedViewRouter);
+  router.use(`${API_VERSION}/webhooks`, webhookRouter);
 
   // Health check endpoint
   router.get('/health', (req, res) => {
@@ -0,0 +1,104 @@
+/**
+ * @fileoverview Project membership routes, mounted under /projects/:projectId/members
+ * @version 1.0.0
+ */
+
+// External imports with versions
+import { Router } from 'express'; // v4.18.2
+import rateLimit from 'express-rate-limit'; // v7.1.0
+
+// Internal imports
+import { MembershipController } from '../controllers/membership.controller';
+import { authenticate, authorizePermission } from '../middleware/auth.middleware';
+import {
+  validationMiddleware,
+  sanitizeMiddleware,
+  validateRequestSchema
+} from '../middleware/validator.middleware';
+import { AddProjectMemberDTO } from '../dto/membership.dto';
+import { Permission } from '../types/permission.types';
+import { enhancedLogger as logger } from '../utils/logger.util';
+
+// Rate limiting configurations
+const readRateLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 100, // 100 requests per minute
+  message: 'Too many read requests, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => req.user?.id || req.ip
+});
+
+const writeRateLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  max: 30, // 30 membership changes per minute
+  message: 'Too many write requests, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => req.user?.id || req.ip
+});
+
+/**
+ * Configures and returns membership routes; expects to be mounted with a :projectId param
+ * @returns Configured Express router instance
+ */
+const configureMembershipRoutes = (): Router => {
+  const router = Router({ mergeParams: true });
+  const membershipController = new MembershipController();
+
+  // GET /projects/:projectId/members - List members and their project roles
+  router.get(
+    '/',
+    authenticate,
+    authorizePermission(Permission.PROJECT_READ),
+    readRateLimiter,
+    membershipController.getMembers
+  );
+
+  // POST /projects/:projectId/members - Add a member or change their role
+  router.post(
+    '/',
+    authenticate,
+    authorizePermission(Permission.PROJECT_MEMBERS_MANAGE),
+    writeRateLimiter,
+    sanitizeMiddleware,
+    validationMiddleware(AddProjectMemberDTO),
+    membershipController.addMember
+  );
+
+  // DELETE /projects/:projectId/members/:userId - Remove a member
+  router.delete(
+    '/:userId',
+    authenticate,
+    authorizePermission(Permission.PROJECT_MEMBERS_MANAGE),
+    writeRateLimiter,
+    validateRequestSchema,
+    membershipController.removeMember
+  );
+
+  // Error handling middleware
+  router.use((err: any, req: any, res: any, next: any) => {
+    logger.error('Membership route error:', {
+      error: err.message,
+      path: req.path,
+      method: req.method,
+      correlationId: req.correlationId
+    });
+
+    res.status(err.statusCode || 500).json({
+      success: false,
+      error: {
+        code: err.errorCode || 'INTERNAL_SERVER_ERROR',
+        message: err.message || 'An unexpected error occurred',
+        correlationId: req.correlationId
+      }
+    });
+  });
+
+  return router;
+};
+
+// Export configured router
+export const membershipRouter = configureMembershipRoutes();
+
+export default membershipRouter;
@@ -0,0 +1,124 @@
+/**
+ * @fileoverview Project milestone routes, mounted under /projects/:projectId/milestones
+ * @version 1.0.0
+ */
+
+// External imports with versions
+import { Router } from 'express'; // v4.18.2
+import rateLimit from 'express-rate-limit'; // v7.1.0
+
+// Internal imports
+import { MilestoneController } from '../controllers/milestone.controller';
+import { authenticate, authorizePermission } from '../middleware/auth.middleware';
+import {
+  validationMiddleware,
+  sanitizeMiddleware,
+  validateRequestSchema
+} from '../middleware/validator.middleware';
+import { CreateMilestoneDTO, UpdateMilestoneDTO } from '../dto/milestone.dto';
+import { Permission } from '../types/permission.types';
+import { enhancedLogger as logger } from '../utils/logger.util';
+
+// Rate limiting configurations
+const readRateLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 100, // 100 requests per minute
+  message: 'Too many read requests, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => req.user?.id || req.ip
+});
+
+const writeRateLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  max: 30, // 30 milestone changes per minute
+  message: 'Too many write requests, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => req.user?.id || req.ip
+});
+
+/**
+ * Configures and returns milestone routes; expects to be mounted with a :projectId param
+ * @returns Configured Express router instance
+ */
+const configureMilestoneRoutes = (): Router => {
+  const router = Router({ mergeParams: true });
+  const milestoneController = new MilestoneController();
+
+  // GET /projects/:projectId/milestones - List the project's milestones
+  router.get(
+    '/',
+    authenticate,
+    authorizePermission(Permission.PROJECT_READ),
+    readRateLimiter,
+    milestoneController.getMilestones
+  );
+
+  // GET /projects/:projectId/milestones/:milestoneId - Get a milestone
+  router.get(
+    '/:milestoneId',
+    authenticate,
+    authorizePermission(Permission.PROJECT_READ),
+    readRateLimiter,
+    milestoneController.getMilestone
+  );
+
+  // POST /projects/:projectId/milestones - Create a milestone
+  router.post(
+    '/',
+    authenticate,
+    authorizePermission(Permission.PROJECT_MILESTONES_MANAGE),
+    writeRateLimiter,
+    sanitizeMiddleware,
+    validationMiddleware(CreateMilestoneDTO),
+    milestoneController.createMilestone
+  );
+
+  // PUT /projects/:projectId/milestones/:milestoneId - Change a milestone or its linked tasks
+  router.put(
+    '/:milestoneId',
+    authenticate,
+    authorizePermission(Permission.PROJECT_MILESTONES_MANAGE),
+    writeRateLimiter,
+    sanitizeMiddleware,
+    validationMiddleware(UpdateMilestoneDTO),
+    milestoneController.updateMilestone
+  );
+
+  // DELETE /projects/:projectId/milestones/:milestoneId - Remove a milestone
+  router.delete(
+    '/:milestoneId',
+    authenticate,
+    authorizePermission(Permission.PROJECT_MILESTONES_MANAGE),
+    writeRateLimiter,
+    validateRequestSchema,
+    milestoneController.deleteMilestone
+  );
+
+  // Error handling middleware
+  router.use((err: any, req: any, res: any, next: any) => {
+    logger.error('Milestone route error:', {
+      error: err.message,
+      path: req.path,
+      method: req.method,
+      correlationId: req.correlationId
+    });
+
+    res.status(err.statusCode || 500).json({
+      success: false,
+      error: {
+        code: err.errorCode || 'INTERNAL_SERVER_ERROR',
+        message: err.message || 'An unexpected error occurred',
+        correlationId: req.correlationId
+      }
+    });
+  });
+
+  return router;
+};
+
+// Export configured router
+export const milestoneRouter = configureMilestoneRoutes();
+
+export default milestoneRouter;
@@ -0,0 +1,95 @@
+/**
+ * @fileoverview In-app notification routes, mounted under /notifications
+ * @version 1.0.0
+ */
+
+// External imports with versions
+import { Router } from 'express'; // v4.18.2
+import rateLimit from 'express-rate-limit'; // v7.1.0
+
+// Internal imports
+import { NotificationController } from '../controllers/notification.controller';
+import { authenticate, authorizePermission } from '../middleware/auth.middleware';
+import { Permission } from '../types/permission.types';
+import { enhancedLogger as logger } from '../utils/logger.util';
+
+// Rate limiting configurations
+const readRateLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 100, // 100 requests per minute
+  message: 'Too many read requests, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => req.user?.id || req.ip
+});
+
+const writeRateLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  max: 30, // 30 read marks per minute
+  message: 'Too many write requests, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => req.user?.id || req.ip
+});
+
+/**
+ * Configures and returns notification routes
+ * @returns Configured Express router instance
+ */
+const configureNotificationRoutes = (): Router => {
+  const router = Router();
+  const notificationController = new NotificationController();
+
+  // GET /notifications - List the caller's notifications, only unread ones with ?unreadOnly=true
+  router.get(
+    '/',
+    authenticate,
+    authorizePermission(Permission.TASK_READ),
+    readRateLimiter,
+    notificationController.getNotifications
+  );
+
+  // POST /notifications/read-all - Mark all of the caller's notifications as read
+  router.post(
+    '/read-all',
+    authenticate,
+    authorizePermission(Permission.TASK_READ),
+    writeRateLimiter,
+    notificationController.markAllRead
+  );
+
+  // POST /notifications/:notificationId/read - Mark a notification as read
+  router.post(
+    '/:notificationId/read',
+    authenticate,
+    authorizePermission(Permission.TASK_READ),
+    writeRateLimiter,
+    notificationController.markRead
+  );
+
+  // Error handling middleware
+  router.use((err: any, req: any, res: any, next: any) => {
+    logger.error('Notification route error:', {
+      error: err.message,
+      path: req.path,
+      method: req.method,
+      correlationId: req.correlationId
+    });
+
+    res.status(err.statusCode || 500).json({
+      success: false,
+      error: {
+        code: err.errorCode || 'INTERNAL_SERVER_ERROR',
+        message: err.message || 'An unexpected error occurred',
+        correlationId: req.correlationId
+      }
+    });
+  });
+
+  return router;
+};
+
+// Export configured router
+export const notificationRouter = configureNotificationRoutes();
+
+export default notificationRouter;
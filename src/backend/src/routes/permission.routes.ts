@@ -0,0 +1,109 @@
+/**
+ * @fileoverview Permission registry routes, including the caller's effective permissions
+ * @version 1.0.0
+ */
+
+// External imports with versions
+import { Router } from 'express'; // v4.18.2
+import rateLimit from 'express-rate-limit'; // v7.1.0
+
+// Internal imports
+import { PermissionController } from '../controllers/permission.controller';
+import { authenticate, authorizePermission } from '../middleware/auth.middleware';
+import {
+  validationMiddleware,
+  sanitizeMiddleware
+} from '../middleware/validator.middleware';
+import { UpdateRolePermissionsDTO } from '../dto/permission.dto';
+import { Permission } from '../types/permission.types';
+import { enhancedLogger as logger } from '../utils/logger.util';
+
+// Rate limiting configurations
+const readRateLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 100, // 100 requests per minute
+  message: 'Too many read requests, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => req.user?.id || req.ip
+});
+
+const writeRateLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  max: 10, // 10 mapping changes per minute
+  message: 'Too many write requests, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => req.user?.id || req.ip
+});
+
+/**
+ * Configures and returns permission routes
+ * @returns Configured Express router instance
+ */
+const configurePermissionRoutes = (): Router => {
+  const router = Router();
+  const permissionController = new PermissionController();
+
+  // GET /permissions - List the permission registry
+  router.get(
+    '/',
+    authenticate,
+    readRateLimiter,
+    permissionController.getPermissions
+  );
+
+  // GET /permissions/me - Effective permissions of the caller
+  router.get(
+    '/me',
+    authenticate,
+    readRateLimiter,
+    permissionController.getEffectivePermissions
+  );
+
+  // GET /permissions/roles - Permissions granted to every role
+  router.get(
+    '/roles',
+    authenticate,
+    authorizePermission(Permission.PERMISSION_MANAGE),
+    readRateLimiter,
+    permissionController.getRolePermissions
+  );
+
+  // PUT /permissions/roles/:role - Replace the permissions of a role
+  router.put(
+    '/roles/:role',
+    authenticate,
+    authorizePermission(Permission.PERMISSION_MANAGE),
+    writeRateLimiter,
+    sanitizeMiddleware,
+    validationMiddleware(UpdateRolePermissionsDTO),
+    permissionController.updateRolePermissions
+  );
+
+  // Error handling middleware
+  router.use((err: any, req: any, res: any, next: any) => {
+    logger.error('Permission route error:', {
+      error: err.message,
+      path: req.path,
+      method: req.method,
+      correlationId: req.correlationId
+    });
+
+    res.status(err.statusCode || 500).json({
+      success: false,
+      error: {
+        code: err.errorCode || 'INTERNAL_SERVER_ERROR',
+        message: err.message || 'An unexpected error occurred',
+        correlationId: req.correlationId
+      }
+    });
+  });
+
+  return router;
+};
+
+// Export configured router
+export const permissionRouter = configurePermissionRoutes();
+
+export default permissionRouter;
@@ -11,8 +11,8 @@ import helmet from 'helmet';
 
 // Internal imports
 import { ProjectController } from '../controllers/project.controller';
-import { authenticate, authorize } from '../middleware/auth.middleware';
-import { UserRole } from '../types/user.types';
+import { authenticate, authorizePermission } from '../middleware/auth.middleware';
+import { Permission } from '../types/permission.types';
 import { enhancedLogger as logger } from '../utils/logger.util';
 import { createError } from '../utils/error.util';
 import { StatusCode } from '../constants/status-codes';
@@ -56,7 +56,7 @@ projectRouter.use(projectRateLimiter);
  */
 projectRouter.get('/',
   authenticate,
-  authorize([UserRole.ADMIN, UserRole.PROJECT_MANAGER, UserRole.TEAM_MEMBER]),
+  authorizePermission(Permission.PROJECT_READ),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       logger.debug('Retrieving projects list', {
@@ -94,7 +94,7 @@ projectRouter.get('/',
  */
 projectRouter.get('/:id',
   authenticate,
-  authorize([UserRole.ADMIN, UserRole.PROJECT_MANAGER, UserRole.TEAM_MEMBER]),
+  authorizePermission(Permission.PROJECT_READ),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       logger.debug('Retrieving project details', {
@@ -125,13 +125,34 @@ projectRouter.get('/:id',
   }
 );
 
+/**
+ * GET /api/v1/projects/:id/effort
+ * Retrieves effort rollups per project, assignee and sprint
+ */
+projectRouter.get('/:id/effort',
+  authenticate,
+  authorizePermission(Permission.PROJECT_READ),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      logger.debug('Retrieving project effort', {
+        correlationId: req.correlationId,
+        projectId: req.params.id
+      });
+
+      await projectController.getProjectEffort(req, res);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 /**
  * POST /api/v1/projects
  * Creates a new project
  */
 projectRouter.post('/',
   authenticate,
-  authorize([UserRole.ADMIN, UserRole.PROJECT_MANAGER]),
+  authorizePermission(Permission.PROJECT_CREATE),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       logger.debug('Creating new project', {
@@ -159,7 +180,7 @@ projectRouter.post('/',
  */
 projectRouter.put('/:id',
   authenticate,
-  authorize([UserRole.ADMIN, UserRole.PROJECT_MANAGER]),
+  authorizePermission(Permission.PROJECT_UPDATE),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       logger.debug('Updating project', {
@@ -191,7 +212,7 @@ projectRouter.put('/:id',
  */
 projectRouter.delete('/:id',
   authenticate,
-  authorize([UserRole.ADMIN, UserRole.PROJECT_MANAGER]),
+  authorizePermission(Permission.PROJECT_DELETE),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       logger.debug('Deleting project', {
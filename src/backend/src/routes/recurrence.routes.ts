@@ -0,0 +1,104 @@
+/**
+ * @fileoverview Task recurrence routes, mounted under /tasks/:taskId/recurrence
+ * @version 1.0.0
+ */
+
+// External imports with versions
+import { Router } from 'express'; // v4.18.2
+import rateLimit from 'express-rate-limit'; // v7.1.0
+
+// Internal imports
+import { RecurrenceController } from '../controllers/recurrence.controller';
+import { authenticate, authorizePermission } from '../middleware/auth.middleware';
+import {
+  validationMiddleware,
+  sanitizeMiddleware,
+  validateRequestSchema
+} from '../middleware/validator.middleware';
+import { RecurrenceRuleDTO } from '../dto/recurrence.dto';
+import { Permission } from '../types/permission.types';
+import { enhancedLogger as logger } from '../utils/logger.util';
+
+// Rate limiting configurations
+const readRateLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 100, // 100 requests per minute
+  message: 'Too many read requests, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => req.user?.id || req.ip
+});
+
+const writeRateLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  max: 30, // 30 rule changes per minute
+  message: 'Too many write requests, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => req.user?.id || req.ip
+});
+
+/**
+ * Configures and returns recurrence routes; expects to be mounted with a :taskId param
+ * @returns Configured Express router instance
+ */
+const configureRecurrenceRoutes = (): Router => {
+  const router = Router({ mergeParams: true });
+  const recurrenceController = new RecurrenceController();
+
+  // GET /tasks/:taskId/recurrence - Retrieve the recurrence rule
+  router.get(
+    '/',
+    authenticate,
+    authorizePermission(Permission.TASK_READ),
+    readRateLimiter,
+    recurrenceController.getRule
+  );
+
+  // PUT /tasks/:taskId/recurrence - Create or replace the recurrence rule
+  router.put(
+    '/',
+    authenticate,
+    authorizePermission(Permission.RECURRENCE_UPDATE),
+    writeRateLimiter,
+    sanitizeMiddleware,
+    validationMiddleware(RecurrenceRuleDTO),
+    recurrenceController.setRule
+  );
+
+  // DELETE /tasks/:taskId/recurrence - Stop the series
+  router.delete(
+    '/',
+    authenticate,
+    authorizePermission(Permission.RECURRENCE_UPDATE),
+    writeRateLimiter,
+    validateRequestSchema,
+    recurrenceController.removeRule
+  );
+
+  // Error handling middleware
+  router.use((err: any, req: any, res: any, next: any) => {
+    logger.error('Recurrence route error:', {
+      error: err.message,
+      path: req.path,
+      method: req.method,
+      correlationId: req.correlationId
+    });
+
+    res.status(err.statusCode || 500).json({
+      success: false,
+      error: {
+        code: err.errorCode || 'INTERNAL_SERVER_ERROR',
+        message: err.message || 'An unexpected error occurred',
+        correlationId: req.correlationId
+      }
+    });
+  });
+
+  return router;
+};
+
+// Export configured router
+export const recurrenceRouter = configureRecurrenceRoutes();
+
+export default recurrenceRouter;
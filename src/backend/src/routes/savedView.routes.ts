@@ -0,0 +1,151 @@
+/**
+ * @fileoverview Saved task view routes, mounted under /views
+ * @version 1.0.0
+ */
+
+// External imports with versions
+import { Router } from 'express'; // v4.18.2
+import rateLimit from 'express-rate-limit'; // v7.1.0
+
+// Internal imports
+import { SavedViewController } from '../controllers/savedView.controller';
+import { authenticate, authorizePermission } from '../middleware/auth.middleware';
+import {
+  validationMiddleware,
+  sanitizeMiddleware,
+  validateRequestSchema
+} from '../middleware/validator.middleware';
+import { CreateSavedViewDTO, UpdateSavedViewDTO } from '../dto/savedView.dto';
+import { Permission } from '../types/permission.types';
+import { enhancedLogger as logger } from '../utils/logger.util';
+
+// Rate limiting configurations
+const readRateLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 100, // 100 requests per minute
+  message: 'Too many read requests, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => req.user?.id || req.ip
+});
+
+const writeRateLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  max: 30, // 30 view changes per minute
+  message: 'Too many write requests, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => req.user?.id || req.ip
+});
+
+/**
+ * Configures and returns saved view routes
+ * @returns Configured Express router instance
+ */
+const configureSavedViewRoutes = (): Router => {
+  const router = Router();
+  const savedViewController = new SavedViewController();
+
+  // GET /views - List the caller's views, or a project's views with ?projectId
+  router.get(
+    '/',
+    authenticate,
+    authorizePermission(Permission.TASK_READ),
+    readRateLimiter,
+    savedViewController.getViews
+  );
+
+  // GET /views/pinned - List the views pinned to the caller's sidebar
+  router.get(
+    '/pinned',
+    authenticate,
+    authorizePermission(Permission.TASK_READ),
+    readRateLimiter,
+    savedViewController.getPinnedViews
+  );
+
+  // GET /views/:viewId - Get a view
+  router.get(
+    '/:viewId',
+    authenticate,
+    authorizePermission(Permission.TASK_READ),
+    readRateLimiter,
+    savedViewController.getView
+  );
+
+  // POST /views - Save a view
+  router.post(
+    '/',
+    authenticate,
+    authorizePermission(Permission.VIEW_WRITE),
+    writeRateLimiter,
+    sanitizeMiddleware,
+    validationMiddleware(CreateSavedViewDTO),
+    savedViewController.createView
+  );
+
+  // PUT /views/:viewId - Change a view
+  router.put(
+    '/:viewId',
+    authenticate,
+    authorizePermission(Permission.VIEW_WRITE),
+    writeRateLimiter,
+    sanitizeMiddleware,
+    validationMiddleware(UpdateSavedViewDTO),
+    savedViewController.updateView
+  );
+
+  // DELETE /views/:viewId - Remove a view
+  router.delete(
+    '/:viewId',
+    authenticate,
+    authorizePermission(Permission.VIEW_WRITE),
+    writeRateLimiter,
+    validateRequestSchema,
+    savedViewController.deleteView
+  );
+
+  // PUT /views/:viewId/pin - Pin a view to the caller's sidebar
+  router.put(
+    '/:viewId/pin',
+    authenticate,
+    authorizePermission(Permission.VIEW_WRITE),
+    writeRateLimiter,
+    savedViewController.pinView
+  );
+
+  // DELETE /views/:viewId/pin - Unpin a view
+  router.delete(
+    '/:viewId/pin',
+    authenticate,
+    authorizePermission(Permission.VIEW_WRITE),
+    writeRateLimiter,
+    savedViewController.unpinView
+  );
+
+  // Error handling middleware
+  router.use((err: any, req: any, res: any, next: any) => {
+    logger.error('Saved view route error:', {
+      error: err.message,
+      path: req.path,
+      method: req.method,
+      correlationId: req.correlationId
+    });
+
+    res.status(err.statusCode || 500).json({
+      success: false,
+      error: {
+        code: err.errorCode || 'INTERNAL_SERVER_ERROR',
+        message: err.message || 'An unexpected error occurred',
+        correlationId: req.correlationId
+      }
+    });
+  });
+
+  return router;
+};
+
+// Export configured router
+export const savedViewRouter = configureSavedViewRoutes();
+
+export default savedViewRouter;
@@ -0,0 +1,68 @@
+/**
+ * @fileoverview Full-text search routes, mounted under /search
+ * @version 1.0.0
+ */
+
+// External imports with versions
+import { Router } from 'express'; // v4.18.2
+import rateLimit from 'express-rate-limit'; // v7.1.0
+
+// Internal imports
+import { SearchController } from '../controllers/search.controller';
+import { authenticate, authorizePermission } from '../middleware/auth.middleware';
+import { Permission } from '../types/permission.types';
+import { enhancedLogger as logger } from '../utils/logger.util';
+
+// Rate limiting configuration; search-as-you-type issues a request per pause
+const searchRateLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 60, // 60 searches per minute
+  message: 'Too many searches, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => req.user?.id || req.ip
+});
+
+/**
+ * Configures and returns search routes
+ * @returns Configured Express router instance
+ */
+const configureSearchRoutes = (): Router => {
+  const router = Router();
+  const searchController = new SearchController();
+
+  // GET /search?q= - Search tasks, comments and projects
+  router.get(
+    '/',
+    authenticate,
+    authorizePermission(Permission.TASK_READ),
+    searchRateLimiter,
+    searchController.search
+  );
+
+  // Error handling middleware
+  router.use((err: any, req: any, res: any, next: any) => {
+    logger.error('Search route error:', {
+      error: err.message,
+      path: req.path,
+      method: req.method,
+      correlationId: req.correlationId
+    });
+
+    res.status(err.statusCode || 500).json({
+      success: false,
+      error: {
+        code: err.errorCode || 'INTERNAL_SERVER_ERROR',
+        message: err.message || 'An unexpected error occurred',
+        correlationId: req.correlationId
+      }
+    });
+  });
+
+  return router;
+};
+
+// Export configured router
+export const searchRouter = configureSearchRoutes();
+
+export default searchRouter;
@@ -0,0 +1,154 @@
+/**
+ * @fileoverview Project sprint routes, mounted under /projects/:projectId/sprints
+ * @version 1.0.0
+ */
+
+// External imports with versions
+import { Router } from 'express'; // v4.18.2
+import rateLimit from 'express-rate-limit'; // v7.1.0
+
+// Internal imports
+import { SprintController } from '../controllers/sprint.controller';
+import { authenticate, authorizePermission } from '../middleware/auth.middleware';
+import {
+  validationMiddleware,
+  sanitizeMiddleware,
+  validateRequestSchema
+} from '../middleware/validator.middleware';
+import { CreateSprintDTO, UpdateSprintDTO, CloseSprintDTO } from '../dto/sprint.dto';
+import { Permission } from '../types/permission.types';
+import { enhancedLogger as logger } from '../utils/logger.util';
+
+// Rate limiting configurations
+const readRateLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 100, // 100 requests per minute
+  message: 'Too many read requests, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => req.user?.id || req.ip
+});
+
+const writeRateLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  max: 30, // 30 sprint changes per minute
+  message: 'Too many write requests, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => req.user?.id || req.ip
+});
+
+/**
+ * Configures and returns sprint routes; expects to be mounted with a :projectId param
+ * @returns Configured Express router instance
+ */
+const configureSprintRoutes = (): Router => {
+  const router = Router({ mergeParams: true });
+  const sprintController = new SprintController();
+
+  // GET /projects/:projectId/sprints - List the project's sprints
+  router.get(
+    '/',
+    authenticate,
+    authorizePermission(Permission.PROJECT_READ),
+    readRateLimiter,
+    sprintController.getSprints
+  );
+
+  // GET /projects/:projectId/sprints/backlog - Unfinished tasks outside any sprint
+  router.get(
+    '/backlog',
+    authenticate,
+    authorizePermission(Permission.TASK_READ),
+    readRateLimiter,
+    sprintController.getBacklog
+  );
+
+  // POST /projects/:projectId/sprints - Plan a sprint
+  router.post(
+    '/',
+    authenticate,
+    authorizePermission(Permission.PROJECT_SPRINTS_MANAGE),
+    writeRateLimiter,
+    sanitizeMiddleware,
+    validationMiddleware(CreateSprintDTO),
+    sprintController.createSprint
+  );
+
+  // PUT /projects/:projectId/sprints/:sprintId - Rename, reschedule or change the goal
+  router.put(
+    '/:sprintId',
+    authenticate,
+    authorizePermission(Permission.PROJECT_SPRINTS_MANAGE),
+    writeRateLimiter,
+    sanitizeMiddleware,
+    validationMiddleware(UpdateSprintDTO),
+    sprintController.updateSprint
+  );
+
+  // DELETE /projects/:projectId/sprints/:sprintId - Remove a planned sprint
+  router.delete(
+    '/:sprintId',
+    authenticate,
+    authorizePermission(Permission.PROJECT_SPRINTS_MANAGE),
+    writeRateLimiter,
+    validateRequestSchema,
+    sprintController.deleteSprint
+  );
+
+  // POST /projects/:projectId/sprints/:sprintId/start - Start a planned sprint
+  router.post(
+    '/:sprintId/start',
+    authenticate,
+    authorizePermission(Permission.PROJECT_SPRINTS_MANAGE),
+    writeRateLimiter,
+    validateRequestSchema,
+    sprintController.startSprint
+  );
+
+  // POST /projects/:projectId/sprints/:sprintId/close - Close the sprint and roll unfinished tasks over
+  router.post(
+    '/:sprintId/close',
+    authenticate,
+    authorizePermission(Permission.PROJECT_SPRINTS_MANAGE),
+    writeRateLimiter,
+    sanitizeMiddleware,
+    validationMiddleware(CloseSprintDTO),
+    sprintController.closeSprint
+  );
+
+  // GET /projects/:projectId/sprints/:sprintId/burndown - Daily remaining tasks
+  router.get(
+    '/:sprintId/burndown',
+    authenticate,
+    authorizePermission(Permission.PROJECT_READ),
+    readRateLimiter,
+    sprintController.getBurndown
+  );
+
+  // Error handling middleware
+  router.use((err: any, req: any, res: any, next: any) => {
+    logger.error('Sprint route error:', {
+      error: err.message,
+      path: req.path,
+      method: req.method,
+      correlationId: req.correlationId
+    });
+
+    res.status(err.statusCode || 500).json({
+      success: false,
+      error: {
+        code: err.errorCode || 'INTERNAL_SERVER_ERROR',
+        message: err.message || 'An unexpected error occurred',
+        correlationId: req.correlationId
+      }
+    });
+  });
+
+  return router;
+};
+
+// Export configured router
+export const sprintRouter = configureSprintRoutes();
+
+export default sprintRouter;
@@ -5,7 +5,7 @@
  */
 
 // External imports with versions
-import { Router } from 'express'; // v4.18.2
+import { Router, Request } from 'express'; // v4.18.2
 import rateLimit from 'express-rate-limit'; // v7.1.0
 import cache from 'express-cache-middleware'; // v2.0.0
 import helmet from 'helmet'; // v7.0.0
@@ -14,7 +14,7 @@ import helmet from 'helmet'; // v7.0.0
 import { TaskController } from '../controllers/task.controller';
 import {
   authenticate,
-  authorize,
+  authorizePermission,
   roleGuard
 } from '../middleware/auth.middleware';
 import {
@@ -25,9 +25,11 @@ import {
 import {
   CreateTaskDTO,
   UpdateTaskDTO,
-  TaskQueryDTO
+  TaskQueryDTO,
+  BulkUpdateTasksDTO
 } from '../dto/task.dto';
-import { UserRole } from '../types/user.types';
+import { Permission } from '../types/permission.types';
+import { prisma } from '../config/database.config';
 import { enhancedLogger as logger } from '../utils/logger.util';
 
 // Rate limiting configurations
@@ -57,6 +59,26 @@ const cacheConfig = {
   cacheKey: (req: any) => `${req.path}-${req.user?.id}`
 };
 
+/**
+ * Resolves whether the caller created or is assigned to the task in the :id param;
+ * consulted for the task:*:own permissions
+ */
+const isTaskOwner = async (req: Request): Promise<boolean> => {
+  const userId = req.user?.userId;
+  if (!userId) return false;
+
+  const task = await prisma.task.findFirst({
+    where: {
+      id: req.params.id,
+      deletedAt: null,
+      OR: [{ creatorId: userId }, { assigneeId: userId }]
+    },
+    select: { id: true }
+  });
+
+  return !!task;
+};
+
 /**
  * Configures and returns task management routes with enterprise-grade security
  * @returns Configured Express router instance
@@ -75,7 +97,7 @@ const configureTaskRoutes = (): Router => {
   router.get(
     '/',
     authenticate,
-    authorize([UserRole.ADMIN, UserRole.PROJECT_MANAGER, UserRole.TEAM_MEMBER]),
+    authorizePermission(Permission.TASK_READ),
     readRateLimiter,
     validationMiddleware(TaskQueryDTO),
     cacheMiddleware,
@@ -86,7 +108,7 @@ const configureTaskRoutes = (): Router => {
   router.get(
     '/:id',
     authenticate,
-    authorize([UserRole.ADMIN, UserRole.PROJECT_MANAGER, UserRole.TEAM_MEMBER]),
+    authorizePermission(Permission.TASK_READ),
     readRateLimiter,
     validateRequestSchema,
     cacheMiddleware,
@@ -97,18 +119,36 @@ const configureTaskRoutes = (): Router => {
   router.post(
     '/',
     authenticate,
-    authorize([UserRole.ADMIN, UserRole.PROJECT_MANAGER, UserRole.TEAM_LEAD]),
+    authorizePermission(Permission.TASK_CREATE),
     writeRateLimiter,
     sanitizeMiddleware,
     validationMiddleware(CreateTaskDTO),
     taskController.createTask
   );
 
+  // POST /tasks/bulk - Apply one change to many tasks; with only the ownership-scoped
+  // permission the service limits the change to the caller's own tasks
+  router.post(
+    '/bulk',
+    authenticate,
+    authorizePermission(Permission.TASK_UPDATE, {
+      ownPermission: Permission.TASK_UPDATE_OWN,
+      resourceOwnershipCheck: async () => true
+    }),
+    writeRateLimiter,
+    sanitizeMiddleware,
+    validationMiddleware(BulkUpdateTasksDTO),
+    taskController.bulkUpdateTasks
+  );
+
   // PUT /tasks/:id - Update existing task
   router.put(
     '/:id',
     authenticate,
-    authorize([UserRole.ADMIN, UserRole.PROJECT_MANAGER, UserRole.TEAM_LEAD]),
+    authorizePermission(Permission.TASK_UPDATE, {
+      ownPermission: Permission.TASK_UPDATE_OWN,
+      resourceOwnershipCheck: isTaskOwner
+    }),
     writeRateLimiter,
     sanitizeMiddleware,
     validationMiddleware(UpdateTaskDTO),
@@ -120,7 +160,10 @@ const configureTaskRoutes = (): Router => {
   router.delete(
     '/:id',
     authenticate,
-    authorize([UserRole.ADMIN, UserRole.PROJECT_MANAGER]),
+    authorizePermission(Permission.TASK_DELETE, {
+      ownPermission: Permission.TASK_DELETE_OWN,
+      resourceOwnershipCheck: isTaskOwner
+    }),
     writeRateLimiter,
     validateRequestSchema,
     taskController.deleteTask
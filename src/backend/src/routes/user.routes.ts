@@ -4,14 +4,14 @@
  * @version 1.0.0
  */
 
-import { Router } from 'express'; // v4.18+
+import { Router, Request } from 'express'; // v4.18+
 import helmet from 'helmet'; // v7.0+
 
 // Import controllers and middleware
 import { UserController } from '../controllers/user.controller';
 import {
   authenticate,
-  authorize,
+  authorizePermission,
   createRateLimit
 } from '../middleware/auth.middleware';
 import {
@@ -26,6 +26,13 @@ import {
 } from '../dto/user.dto';
 import { enhancedLogger as logger } from '../utils/logger.util';
 import { UserRole } from '../types/user.types';
+import { Permission } from '../types/permission.types';
+
+/**
+ * Resolves whether the :id param is the caller; consulted for user:preferences:update:own
+ */
+const isSelf = async (req: Request): Promise<boolean> =>
+  !!req.user?.userId && req.params.id === req.user.userId;
 
 /**
  * Initializes and configures user management routes with security features
@@ -42,7 +49,7 @@ const initializeUserRoutes = (): Router => {
   // Get all users with filtering and pagination
   router.get('/',
     authenticate,
-    authorize([UserRole.ADMIN, UserRole.PROJECT_MANAGER]),
+    authorizePermission(Permission.USER_READ),
     createRateLimit({
       [UserRole.ADMIN]: 1000,
       [UserRole.PROJECT_MANAGER]: 500
@@ -57,7 +64,7 @@ const initializeUserRoutes = (): Router => {
   // Create new user
   router.post('/',
     authenticate,
-    authorize([UserRole.ADMIN]),
+    authorizePermission(Permission.USER_MANAGE),
     createRateLimit({ [UserRole.ADMIN]: 100 }),
     validationMiddleware(CreateUserDTO),
     validateRequestSchema,
@@ -69,7 +76,7 @@ const initializeUserRoutes = (): Router => {
   // Get user by ID
   router.get('/:id',
     authenticate,
-    authorize([UserRole.ADMIN, UserRole.PROJECT_MANAGER]),
+    authorizePermission(Permission.USER_READ),
     createRateLimit({
       [UserRole.ADMIN]: 1000,
       [UserRole.PROJECT_MANAGER]: 500
@@ -83,7 +90,7 @@ const initializeUserRoutes = (): Router => {
   // Get user by email
   router.get('/email/:email',
     authenticate,
-    authorize([UserRole.ADMIN, UserRole.PROJECT_MANAGER]),
+    authorizePermission(Permission.USER_READ),
     createRateLimit({
       [UserRole.ADMIN]: 1000,
       [UserRole.PROJECT_MANAGER]: 500
@@ -97,7 +104,7 @@ const initializeUserRoutes = (): Router => {
   // Update user
   router.put('/:id',
     authenticate,
-    authorize([UserRole.ADMIN]),
+    authorizePermission(Permission.USER_MANAGE),
     createRateLimit({ [UserRole.ADMIN]: 100 }),
     validationMiddleware(UpdateUserDTO),
     validateRequestSchema,
@@ -109,7 +116,7 @@ const initializeUserRoutes = (): Router => {
   // Delete user
   router.delete('/:id',
     authenticate,
-    authorize([UserRole.ADMIN]),
+    authorizePermission(Permission.USER_MANAGE),
     createRateLimit({ [UserRole.ADMIN]: 50 }),
     validateRequestSchema,
     sanitizeMiddleware,
@@ -120,7 +127,10 @@ const initializeUserRoutes = (): Router => {
   // Update user preferences
   router.put('/:id/preferences',
     authenticate,
-    authorize([UserRole.ADMIN, UserRole.PROJECT_MANAGER, UserRole.TEAM_MEMBER]),
+    authorizePermission(Permission.USER_PREFERENCES_UPDATE, {
+      ownPermission: Permission.USER_PREFERENCES_UPDATE_OWN,
+      resourceOwnershipCheck: isSelf
+    }),
     createRateLimit({
       [UserRole.ADMIN]: 200,
       [UserRole.PROJECT_MANAGER]: 100,
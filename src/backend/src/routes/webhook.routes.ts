@@ -0,0 +1,122 @@
+/**
+ * @fileoverview Webhook administration routes, mounted under /webhooks
+ * @version 1.0.0
+ */
+
+// External imports with versions
+import { Router } from 'express'; // v4.18.2
+import rateLimit from 'express-rate-limit'; // v7.1.0
+
+// Internal imports
+import { WebhookController } from '../controllers/webhook.controller';
+import { authenticate, authorizePermission } from '../middleware/auth.middleware';
+import { Permission } from '../types/permission.types';
+import { enhancedLogger as logger } from '../utils/logger.util';
+
+// Rate limiting configuration for webhook endpoints
+const webhookRateLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 60, // 60 requests per minute
+  message: 'Too many requests, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => req.user?.id || req.ip
+});
+
+/**
+ * Configures and returns webhook routes
+ * @returns Configured Express router instance
+ */
+const configureWebhookRoutes = (): Router => {
+  const router = Router();
+  const webhookController = new WebhookController();
+
+  // GET /webhooks?projectId= - List webhooks
+  router.get(
+    '/',
+    authenticate,
+    authorizePermission(Permission.WEBHOOK_MANAGE),
+    webhookRateLimiter,
+    webhookController.getWebhooks
+  );
+
+  // POST /webhooks - Create a webhook; returns its secret
+  router.post(
+    '/',
+    authenticate,
+    authorizePermission(Permission.WEBHOOK_MANAGE),
+    webhookRateLimiter,
+    webhookController.createWebhook
+  );
+
+  // GET /webhooks/deliveries?webhookId=&status=&page=&limit= - Delivery log, newest first
+  router.get(
+    '/deliveries',
+    authenticate,
+    authorizePermission(Permission.WEBHOOK_MANAGE),
+    webhookRateLimiter,
+    webhookController.getDeliveries
+  );
+
+  // POST /webhooks/deliveries/:deliveryId/redeliver - Send a delivery's event again
+  router.post(
+    '/deliveries/:deliveryId/redeliver',
+    authenticate,
+    authorizePermission(Permission.WEBHOOK_MANAGE),
+    webhookRateLimiter,
+    webhookController.redeliver
+  );
+
+  // PUT /webhooks/:webhookId - Update a webhook
+  router.put(
+    '/:webhookId',
+    authenticate,
+    authorizePermission(Permission.WEBHOOK_MANAGE),
+    webhookRateLimiter,
+    webhookController.updateWebhook
+  );
+
+  // DELETE /webhooks/:webhookId - Delete a webhook with its deliveries
+  router.delete(
+    '/:webhookId',
+    authenticate,
+    authorizePermission(Permission.WEBHOOK_MANAGE),
+    webhookRateLimiter,
+    webhookController.deleteWebhook
+  );
+
+  // POST /webhooks/:webhookId/rotate-secret - Replace the secret; returns the new one
+  router.post(
+    '/:webhookId/rotate-secret',
+    authenticate,
+    authorizePermission(Permission.WEBHOOK_MANAGE),
+    webhookRateLimiter,
+    webhookController.rotateSecret
+  );
+
+  // Error handling middleware
+  router.use((err: any, req: any, res: any, next: any) => {
+    logger.error('Webhook route error:', {
+      error: err.message,
+      path: req.path,
+      method: req.method,
+      correlationId: req.correlationId
+    });
+
+    res.status(err.statusCode || 500).json({
+      success: false,
+      error: {
+        code: err.errorCode || 'INTERNAL_SERVER_ERROR',
+        message: err.message || 'An unexpected error occurred',
+        correlationId: req.correlationId
+      }
+    });
+  });
+
+  return router;
+};
+
+// Export configured router
+export const webhookRouter = configureWebhookRoutes();
+
+export default webhookRouter;
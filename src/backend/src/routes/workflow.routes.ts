@@ -0,0 +1,90 @@
+/**
+ * @fileoverview Project workflow routes, mounted under /projects/:projectId/workflow
+ * @version 1.0.0
+ */
+
+// External imports with versions
+import { Router } from 'express'; // v4.18.2
+import rateLimit from 'express-rate-limit'; // v7.1.0
+
+// Internal imports
+import { WorkflowController } from '../controllers/workflow.controller';
+import { authenticate, authorizePermission } from '../middleware/auth.middleware';
+import { validationMiddleware, sanitizeMiddleware } from '../middleware/validator.middleware';
+import { UpdateWorkflowDTO } from '../dto/workflow.dto';
+import { Permission } from '../types/permission.types';
+import { enhancedLogger as logger } from '../utils/logger.util';
+
+// Rate limiting configurations
+const readRateLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 100, // 100 requests per minute
+  message: 'Too many read requests, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => req.user?.id || req.ip
+});
+
+const writeRateLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  max: 30, // 30 workflow changes per minute
+  message: 'Too many write requests, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => req.user?.id || req.ip
+});
+
+/**
+ * Configures and returns workflow routes; expects to be mounted with a :projectId param
+ * @returns Configured Express router instance
+ */
+const configureWorkflowRoutes = (): Router => {
+  const router = Router({ mergeParams: true });
+  const workflowController = new WorkflowController();
+
+  // GET /projects/:projectId/workflow - Read the project's states and transitions
+  router.get(
+    '/',
+    authenticate,
+    authorizePermission(Permission.PROJECT_READ),
+    readRateLimiter,
+    workflowController.getWorkflow
+  );
+
+  // PUT /projects/:projectId/workflow - Replace the project's states and transitions
+  router.put(
+    '/',
+    authenticate,
+    authorizePermission(Permission.PROJECT_WORKFLOW_MANAGE),
+    writeRateLimiter,
+    sanitizeMiddleware,
+    validationMiddleware(UpdateWorkflowDTO),
+    workflowController.updateWorkflow
+  );
+
+  // Error handling middleware
+  router.use((err: any, req: any, res: any, next: any) => {
+    logger.error('Workflow route error:', {
+      error: err.message,
+      path: req.path,
+      method: req.method,
+      correlationId: req.correlationId
+    });
+
+    res.status(err.statusCode || 500).json({
+      success: false,
+      error: {
+        code: err.errorCode || 'INTERNAL_SERVER_ERROR',
+        message: err.message || 'An unexpected error occurred',
+        correlationId: req.correlationId
+      }
+    });
+  });
+
+  return router;
+};
+
+// Export configured router
+export const workflowRouter = configureWorkflowRoutes();
+
+export default workflowRouter;
@@ -0,0 +1,170 @@
+/**
+ * @fileoverview Time tracking routes for worklogs, timers and timesheets, mounted under the API root
+ * @version 1.0.0
+ */
+
+// External imports with versions
+import { Router } from 'express'; // v4.18.2
+import rateLimit from 'express-rate-limit'; // v7.1.0
+
+// Internal imports
+import { WorklogController } from '../controllers/worklog.controller';
+import { authenticate, authorizePermission } from '../middleware/auth.middleware';
+import {
+  validationMiddleware,
+  sanitizeMiddleware,
+  validateRequestSchema
+} from '../middleware/validator.middleware';
+import {
+  CreateWorklogDTO,
+  UpdateWorklogDTO,
+  StartTimerDTO,
+  TimesheetQueryDTO
+} from '../dto/worklog.dto';
+import { Permission } from '../types/permission.types';
+import { enhancedLogger as logger } from '../utils/logger.util';
+
+// Rate limiting configurations
+const readRateLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 100, // 100 requests per minute
+  message: 'Too many read requests, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => req.user?.id || req.ip
+});
+
+const writeRateLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  max: 30, // 30 worklog or timer changes per minute
+  message: 'Too many write requests, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => req.user?.id || req.ip
+});
+
+/**
+ * Configures and returns time tracking routes
+ * @returns Configured Express router instance
+ */
+const configureWorklogRoutes = (): Router => {
+  const router = Router();
+  const worklogController = new WorklogController();
+
+  // GET /tasks/:taskId/worklogs - List the time logged on a task
+  router.get(
+    '/tasks/:taskId/worklogs',
+    authenticate,
+    authorizePermission(Permission.TASK_READ),
+    readRateLimiter,
+    worklogController.getWorklogs
+  );
+
+  // POST /tasks/:taskId/worklogs - Log time on a task
+  router.post(
+    '/tasks/:taskId/worklogs',
+    authenticate,
+    authorizePermission(Permission.WORKLOG_WRITE),
+    writeRateLimiter,
+    sanitizeMiddleware,
+    validationMiddleware(CreateWorklogDTO),
+    worklogController.createWorklog
+  );
+
+  // PUT /tasks/:taskId/worklogs/:worklogId - Change a worklog entry
+  router.put(
+    '/tasks/:taskId/worklogs/:worklogId',
+    authenticate,
+    authorizePermission(Permission.WORKLOG_WRITE),
+    writeRateLimiter,
+    sanitizeMiddleware,
+    validationMiddleware(UpdateWorklogDTO),
+    worklogController.updateWorklog
+  );
+
+  // DELETE /tasks/:taskId/worklogs/:worklogId - Remove a worklog entry
+  router.delete(
+    '/tasks/:taskId/worklogs/:worklogId',
+    authenticate,
+    authorizePermission(Permission.WORKLOG_WRITE),
+    writeRateLimiter,
+    validateRequestSchema,
+    worklogController.deleteWorklog
+  );
+
+  // GET /timer - Get the caller's running timer
+  router.get(
+    '/timer',
+    authenticate,
+    authorizePermission(Permission.TASK_READ),
+    readRateLimiter,
+    worklogController.getTimer
+  );
+
+  // POST /timer/start - Start a timer, logging the one still running
+  router.post(
+    '/timer/start',
+    authenticate,
+    authorizePermission(Permission.WORKLOG_WRITE),
+    writeRateLimiter,
+    sanitizeMiddleware,
+    validationMiddleware(StartTimerDTO),
+    worklogController.startTimer
+  );
+
+  // POST /timer/stop - Stop the caller's timer and log the elapsed time
+  router.post(
+    '/timer/stop',
+    authenticate,
+    authorizePermission(Permission.WORKLOG_WRITE),
+    writeRateLimiter,
+    validateRequestSchema,
+    worklogController.stopTimer
+  );
+
+  // GET /users/:userId/timesheet - Time a user logged across projects
+  router.get(
+    '/users/:userId/timesheet',
+    authenticate,
+    authorizePermission(Permission.TASK_READ),
+    readRateLimiter,
+    validationMiddleware(TimesheetQueryDTO),
+    worklogController.getUserTimesheet
+  );
+
+  // GET /projects/:projectId/timesheet - Time logged on a project by every user
+  router.get(
+    '/projects/:projectId/timesheet',
+    authenticate,
+    authorizePermission(Permission.PROJECT_READ),
+    readRateLimiter,
+    validationMiddleware(TimesheetQueryDTO),
+    worklogController.getProjectTimesheet
+  );
+
+  // Error handling middleware
+  router.use((err: any, req: any, res: any, next: any) => {
+    logger.error('Worklog route error:', {
+      error: err.message,
+      path: req.path,
+      method: req.method,
+      correlationId: req.correlationId
+    });
+
+    res.status(err.statusCode || 500).json({
+      success: false,
+      error: {
+        code: err.errorCode || 'INTERNAL_SERVER_ERROR',
+        message: err.message || 'An unexpected error occurred',
+        correlationId: req.correlationId
+      }
+    });
+  });
+
+  return router;
+};
+
+// Export configured router
+export const worklogRouter = configureWorklogRoutes();
+
+export default worklogRouter;
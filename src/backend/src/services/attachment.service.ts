@@ -0,0 +1,432 @@
+/**
+ * @fileoverview Task attachment service enforcing task visibility for uploads and downloads
+ * @version 1.0.0
+ * @module services/attachment
+ */
+
+// External imports with versions
+import { injectable, inject } from 'inversify'; // v6.0.1
+import { Counter, Histogram } from 'prom-client'; // v14.x
+import { Logger } from 'winston'; // v3.x
+import { UUID } from 'crypto';
+
+// Internal imports
+import {
+  IAttachment,
+  IAttachmentDownload,
+  IAttachmentService,
+  IAttachmentUploadResult,
+  IUploadedFile
+} from '../interfaces/attachment.interface';
+import { ITask, ITaskContext, TaskError, Result } from '../interfaces/task.interface';
+import { AttachmentRepository, SecurityContext } from '../repositories/attachment.repository';
+import { TaskRepository } from '../repositories/task.repository';
+import { MembershipService } from '../services/membership.service';
+import { ProjectRole } from '../types/project.types';
+import { AppError } from '../utils/error.util';
+import { StatusCode } from '../constants/status-codes';
+import { TYPES } from '../config/types';
+
+// Constants
+const MAX_FILES_PER_UPLOAD = 10;
+
+type Failure = { success: false; error: TaskError };
+
+/**
+ * Attachment service scoping every file operation to a task the caller can see
+ */
+@injectable()
+export class AttachmentService implements IAttachmentService {
+  // Metrics
+  private readonly attachmentOperationHistogram: Histogram;
+  private readonly attachmentErrorCounter: Counter;
+
+  constructor(
+    @inject(TYPES.AttachmentRepository) private readonly attachmentRepository: AttachmentRepository,
+    @inject(TYPES.TaskRepository) private readonly taskRepository: TaskRepository,
+    @inject(TYPES.MembershipService) private readonly membershipService: MembershipService,
+    @inject(TYPES.Logger) private readonly logger: Logger,
+    @inject(TYPES.MetricsClient) private readonly metricsClient: any
+  ) {
+    // Initialize metrics
+    this.attachmentOperationHistogram = new this.metricsClient.Histogram({
+      name: 'attachment_operation_duration_seconds',
+      help: 'Duration of attachment operations',
+      labelNames: ['operation']
+    });
+
+    this.attachmentErrorCounter = new this.metricsClient.Counter({
+      name: 'attachment_operation_errors_total',
+      help: 'Total number of attachment operation errors',
+      labelNames: ['operation', 'error_type']
+    });
+  }
+
+  /**
+   * Uploads files to a task; a failing file does not abort the others
+   * @param taskId Parent task identifier
+   * @param files Uploaded files
+   * @param context Operation context
+   * @returns Per-file upload results or error
+   */
+  async uploadAttachments(
+    taskId: UUID,
+    files: IUploadedFile[],
+    context: ITaskContext
+  ): Promise<Result<IAttachmentUploadResult, TaskError>> {
+    const timer = this.attachmentOperationHistogram.startTimer({ operation: 'upload' });
+
+    try {
+      if (!files || files.length === 0) {
+        timer({ success: 'false' });
+        return {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'At least one file is required'
+          }
+        };
+      }
+
+      if (files.length > MAX_FILES_PER_UPLOAD) {
+        timer({ success: 'false' });
+        return {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: `No more than ${MAX_FILES_PER_UPLOAD} files can be uploaded at once`
+          }
+        };
+      }
+
+      const access = await this.ensureTaskAccess(taskId, ProjectRole.CONTRIBUTOR, context);
+      if ('error' in access) {
+        timer({ success: 'false' });
+        return access;
+      }
+
+      const result = await this.attachmentRepository.bulkCreateAttachments(
+        files.map(file => ({
+          fileName: file.originalname,
+          fileSize: file.size,
+          mimeType: file.mimetype,
+          buffer: file.buffer,
+          taskId,
+          userId: context.userId,
+          projectId: access.task.projectId
+        })),
+        this.securityContext(context, 'upload', taskId)
+      );
+
+      this.logger.info('Attachments uploaded', {
+        correlationId: context.correlationId,
+        taskId,
+        successful: result.successful.length,
+        failed: result.failed.length
+      });
+
+      timer({ success: String(result.failed.length === 0) });
+      return {
+        success: true,
+        data: {
+          successful: result.successful.map(attachment => this.toAttachment(attachment)),
+          failed: result.failed
+        }
+      };
+
+    } catch (error) {
+      this.handleOperationError('upload', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Lists active attachments of a task, newest first
+   * @param taskId Parent task identifier
+   * @param context Operation context
+   * @returns Attachments or error
+   */
+  async getAttachments(
+    taskId: UUID,
+    context: ITaskContext
+  ): Promise<Result<IAttachment[], TaskError>> {
+    const timer = this.attachmentOperationHistogram.startTimer({ operation: 'list' });
+
+    try {
+      const access = await this.ensureTaskAccess(taskId, ProjectRole.VIEWER, context);
+      if ('error' in access) {
+        timer({ success: 'false' });
+        return access;
+      }
+
+      const attachments = await this.attachmentRepository.getAttachmentsByTaskId(
+        taskId,
+        this.securityContext(context, 'list', taskId)
+      );
+
+      timer({ success: 'true' });
+      return {
+        success: true,
+        data: attachments.map(attachment => this.toAttachment(attachment))
+      };
+
+    } catch (error) {
+      this.handleOperationError('list', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Opens a decrypted download stream for an attachment of the task
+   * @param taskId Parent task identifier
+   * @param attachmentId Attachment identifier
+   * @param context Operation context
+   * @returns Attachment with content stream or error
+   */
+  async downloadAttachment(
+    taskId: UUID,
+    attachmentId: UUID,
+    context: ITaskContext
+  ): Promise<Result<IAttachmentDownload, TaskError>> {
+    const timer = this.attachmentOperationHistogram.startTimer({ operation: 'download' });
+
+    try {
+      const access = await this.ensureTaskAccess(taskId, ProjectRole.VIEWER, context);
+      if ('error' in access) {
+        timer({ success: 'false' });
+        return access;
+      }
+
+      const found = await this.findTaskAttachment(taskId, attachmentId, context);
+      if ('error' in found) {
+        timer({ success: 'false' });
+        return found;
+      }
+
+      const download = await this.attachmentRepository.downloadAttachment(
+        attachmentId,
+        this.securityContext(context, 'download', attachmentId)
+      );
+
+      timer({ success: 'true' });
+      return {
+        success: true,
+        data: {
+          attachment: this.toAttachment(download.attachment),
+          stream: download.stream
+        }
+      };
+
+    } catch (error) {
+      this.handleOperationError('download', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes an attachment; allowed for its uploader, the project owner and managers
+   * @param taskId Parent task identifier
+   * @param attachmentId Attachment identifier
+   * @param context Operation context
+   * @returns Void result or error
+   */
+  async deleteAttachment(
+    taskId: UUID,
+    attachmentId: UUID,
+    context: ITaskContext
+  ): Promise<Result<void, TaskError>> {
+    const timer = this.attachmentOperationHistogram.startTimer({ operation: 'delete' });
+
+    try {
+      const access = await this.ensureTaskAccess(taskId, ProjectRole.CONTRIBUTOR, context);
+      if ('error' in access) {
+        timer({ success: 'false' });
+        return access;
+      }
+
+      const found = await this.findTaskAttachment(taskId, attachmentId, context);
+      if ('error' in found) {
+        timer({ success: 'false' });
+        return found;
+      }
+
+      const canDelete = found.attachment.uploadedBy === context.userId ||
+        await this.membershipService.hasAccess(access.task.projectId, ProjectRole.MANAGER, context);
+
+      if (!canDelete) {
+        this.logger.warn('Attachment deletion denied', {
+          correlationId: context.correlationId,
+          attachmentId,
+          userId: context.userId
+        });
+
+        timer({ success: 'false' });
+        return {
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: 'Only the uploader or a project manager can delete this attachment'
+          }
+        };
+      }
+
+      await this.attachmentRepository.deleteAttachment(
+        attachmentId,
+        this.securityContext(context, 'delete', attachmentId)
+      );
+
+      this.logger.info('Attachment deleted successfully', {
+        correlationId: context.correlationId,
+        taskId,
+        attachmentId
+      });
+
+      timer({ success: 'true' });
+      return { success: true };
+
+    } catch (error) {
+      this.handleOperationError('delete', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Ensures the task exists and the caller holds the required role in its project;
+   * tasks of projects the caller cannot see are reported as missing
+   * @private
+   */
+  private async ensureTaskAccess(
+    taskId: UUID,
+    required: ProjectRole,
+    context: ITaskContext
+  ): Promise<{ task: ITask } | Failure> {
+    const result = await this.taskRepository.findById(taskId, context);
+
+    if (!result.success) {
+      return { success: false, error: result.error as TaskError };
+    }
+
+    const task = result.data;
+    if (!task || !await this.membershipService.hasAccess(task.projectId, ProjectRole.VIEWER, context)) {
+      // Hidden tasks are reported as missing so their existence is not disclosed
+      return {
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Task not found'
+        }
+      };
+    }
+
+    if (required !== ProjectRole.VIEWER &&
+        !await this.membershipService.hasAccess(task.projectId, required, context)) {
+      this.logger.warn('Attachment change denied for task', {
+        correlationId: context.correlationId,
+        taskId,
+        userId: context.userId
+      });
+
+      return {
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: `Changing attachments requires the ${required} project role`
+        }
+      };
+    }
+
+    return { task };
+  }
+
+  /**
+   * Loads an attachment and ensures it belongs to the task
+   * @private
+   */
+  private async findTaskAttachment(
+    taskId: UUID,
+    attachmentId: UUID,
+    context: ITaskContext
+  ): Promise<{ attachment: IAttachment } | Failure> {
+    const notFound: Failure = {
+      success: false,
+      error: {
+        code: 'NOT_FOUND',
+        message: 'Attachment not found'
+      }
+    };
+
+    try {
+      const attachment = await this.attachmentRepository.getAttachmentById(
+        attachmentId,
+        this.securityContext(context, 'read', attachmentId)
+      );
+
+      if (!attachment || attachment.taskId !== taskId || attachment.deletedAt) {
+        return notFound;
+      }
+
+      return { attachment: this.toAttachment(attachment) };
+    } catch (error) {
+      if (error instanceof AppError && error.statusCode === StatusCode.NOT_FOUND) {
+        return notFound;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Builds the audit context passed to the repository
+   * @private
+   */
+  private securityContext(context: ITaskContext, action: string, resource: string): SecurityContext {
+    return {
+      userId: context.userId,
+      action,
+      resource
+    };
+  }
+
+  /**
+   * Maps a persisted attachment to its public shape, omitting the storage key
+   * @private
+   */
+  private toAttachment(attachment: any): IAttachment {
+    return {
+      id: attachment.id,
+      fileName: attachment.fileName,
+      fileSize: attachment.fileSize,
+      mimeType: attachment.mimeType,
+      taskId: attachment.taskId,
+      projectId: attachment.projectId ?? null,
+      uploadedBy: attachment.uploadedBy,
+      createdAt: attachment.createdAt,
+      updatedAt: attachment.updatedAt,
+      version: attachment.version
+    };
+  }
+
+  /**
+   * Handles and logs operation errors
+   * @private
+   */
+  private handleOperationError(
+    operation: string,
+    error: any,
+    context: ITaskContext
+  ): void {
+    this.attachmentErrorCounter.inc({
+      operation,
+      error_type: error.name || 'UnknownError'
+    });
+
+    this.logger.error(`Attachment operation error: ${operation}`, {
+      correlationId: context.correlationId,
+      error: error.message,
+      stack: error.stack
+    });
+  }
+}
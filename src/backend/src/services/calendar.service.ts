@@ -0,0 +1,236 @@
+/**
+ * @fileoverview Calendar feed service publishing a user's due dates as iCalendar
+ * @version 1.0.0
+ * @module services/calendar
+ */
+
+// External imports with versions
+import { injectable, inject } from 'inversify'; // v6.0.1
+import { Counter, Histogram } from 'prom-client'; // v14.x
+import { Logger } from 'winston'; // v3.x
+import { subDays } from 'date-fns'; // v2.30.0
+
+// Internal imports
+import {
+  ICalendarFeed,
+  ICalendarFeedToken,
+  ICalendarFeedOptions,
+  ICalendarService
+} from '../interfaces/calendar.interface';
+import { ITaskContext, TaskError, Result } from '../interfaces/task.interface';
+import { CalendarFeedRepository } from '../repositories/calendar.repository';
+import { MembershipRepository } from '../repositories/membership.repository';
+import { UserStatus } from '../types/user.types';
+import {
+  CALENDAR_FEED_PAST_DAYS,
+  MAX_CALENDAR_EVENTS,
+  buildCalendar,
+  buildMilestoneEvent,
+  buildProjectEvents,
+  buildTaskEvent
+} from '../utils/calendar.util';
+import { generateHmac, generateToken } from '../utils/crypto.util';
+import { isMembershipRestricted } from '../utils/membership.util';
+import { TYPES } from '../config/types';
+
+type Failure = { success: false; error: TaskError };
+
+// Length of generated feed tokens
+const FEED_TOKEN_LENGTH = 48;
+
+/**
+ * Calendar feed service. Each user has at most one feed, read by calendar apps without
+ * a session through the secret token in its URL. The feed holds the due dates of the
+ * user's assigned tasks and the dates and milestones of the projects they belong to;
+ * it stops working when the token is regenerated or revoked, or the user is deactivated.
+ */
+@injectable()
+export class CalendarService implements ICalendarService {
+  // Metrics
+  private readonly calendarOperationHistogram: Histogram;
+  private readonly calendarErrorCounter: Counter;
+
+  constructor(
+    @inject(TYPES.CalendarFeedRepository) private readonly calendarRepository: CalendarFeedRepository,
+    @inject(TYPES.MembershipRepository) private readonly membershipRepository: MembershipRepository,
+    @inject(TYPES.Logger) private readonly logger: Logger,
+    @inject(TYPES.MetricsClient) private readonly metricsClient: any
+  ) {
+    // Initialize metrics
+    this.calendarOperationHistogram = new this.metricsClient.Histogram({
+      name: 'calendar_feed_operation_duration_seconds',
+      help: 'Duration of calendar feed operations',
+      labelNames: ['operation']
+    });
+
+    this.calendarErrorCounter = new this.metricsClient.Counter({
+      name: 'calendar_feed_operation_errors_total',
+      help: 'Total number of calendar feed operation errors',
+      labelNames: ['operation', 'error_type']
+    });
+  }
+
+  /**
+   * Retrieves the caller's feed
+   * @param context Operation context
+   * @returns Feed, or null when none was generated
+   */
+  async getFeed(context: ITaskContext): Promise<Result<ICalendarFeed | null, TaskError>> {
+    const timer = this.calendarOperationHistogram.startTimer({ operation: 'get' });
+
+    try {
+      const feed = await this.calendarRepository.findByUser(context.userId);
+
+      timer({ success: 'true' });
+      return { success: true, data: feed };
+
+    } catch (error) {
+      this.handleOperationError('get', error, context.correlationId);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Generates a token for the caller's feed. The token is returned only here; calendars
+   * subscribed with a previous token stop receiving updates.
+   * @param context Operation context
+   * @returns Feed with its token
+   */
+  async regenerateFeed(context: ITaskContext): Promise<Result<ICalendarFeedToken, TaskError>> {
+    const timer = this.calendarOperationHistogram.startTimer({ operation: 'regenerate' });
+
+    try {
+      const token = await generateToken(FEED_TOKEN_LENGTH);
+      const feed = await this.calendarRepository.saveToken(context.userId, generateHmac(token));
+
+      this.logger.info('Calendar feed token generated', {
+        correlationId: context.correlationId,
+        userId: context.userId
+      });
+
+      timer({ success: 'true' });
+      return { success: true, data: { feed, token } };
+
+    } catch (error) {
+      this.handleOperationError('regenerate', error, context.correlationId);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Revokes the caller's feed
+   * @param context Operation context
+   * @returns Nothing or error
+   */
+  async revokeFeed(context: ITaskContext): Promise<Result<void, TaskError>> {
+    const timer = this.calendarOperationHistogram.startTimer({ operation: 'revoke' });
+
+    try {
+      if (!await this.calendarRepository.delete(context.userId)) {
+        timer({ success: 'false' });
+        return this.failure('NOT_FOUND', 'No calendar feed to revoke');
+      }
+
+      this.logger.info('Calendar feed revoked', {
+        correlationId: context.correlationId,
+        userId: context.userId
+      });
+
+      timer({ success: 'true' });
+      return { success: true };
+
+    } catch (error) {
+      this.handleOperationError('revoke', error, context.correlationId);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Renders the feed a token belongs to. Unknown tokens and feeds of inactive users are
+   * reported alike, so that a token cannot be probed.
+   * @param token Feed token
+   * @param options Projects and time zone
+   * @returns iCalendar document or error
+   */
+  async renderFeed(token: string, options: ICalendarFeedOptions): Promise<Result<string, TaskError>> {
+    const timer = this.calendarOperationHistogram.startTimer({ operation: 'render' });
+
+    try {
+      const owner = token ? await this.calendarRepository.findByTokenHash(generateHmac(token)) : null;
+      if (!owner || owner.user.status !== UserStatus.ACTIVE || owner.user.deletedAt) {
+        timer({ success: 'false' });
+        return this.failure('NOT_FOUND', 'Calendar feed not found');
+      }
+
+      const { feed, user } = owner;
+      const memberProjectIds = await this.membershipRepository.findProjectIds(feed.userId);
+      const projectIds = options.projectIds
+        ? memberProjectIds.filter(projectId => options.projectIds!.includes(projectId))
+        : memberProjectIds;
+
+      // Users seeing every project keep tasks assigned to them outside their own projects
+      const taskProjectIds = options.projectIds || isMembershipRestricted(user.role) ? projectIds : null;
+      const since = subDays(new Date(), CALENDAR_FEED_PAST_DAYS);
+
+      const [tasks, projects, milestones] = await Promise.all([
+        this.calendarRepository.findDueTasks(feed.userId, taskProjectIds, since, MAX_CALENDAR_EVENTS),
+        this.calendarRepository.findProjects(projectIds),
+        this.calendarRepository.findMilestones(projectIds, since, MAX_CALENDAR_EVENTS)
+      ]);
+
+      const events = [
+        ...tasks.map(task => buildTaskEvent(task, options.timezone)),
+        ...projects.flatMap(project => buildProjectEvents(project, options.timezone)),
+        ...milestones.map(buildMilestoneEvent)
+      ].slice(0, MAX_CALENDAR_EVENTS);
+
+      await this.calendarRepository.markRead(feed.id);
+
+      timer({ success: 'true' });
+      return {
+        success: true,
+        data: buildCalendar(`${user.name} – Tasks`, options.timezone, events)
+      };
+
+    } catch (error) {
+      this.handleOperationError('render', error);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Builds a failed result
+   * @private
+   */
+  private failure(code: string, message: string, details?: Record<string, unknown>): Failure {
+    return {
+      success: false,
+      error: { code, message, details }
+    };
+  }
+
+  /**
+   * Handles and logs operation errors
+   * @private
+   */
+  private handleOperationError(
+    operation: string,
+    error: any,
+    correlationId?: string
+  ): void {
+    this.calendarErrorCounter.inc({
+      operation,
+      error_type: error.name || 'UnknownError'
+    });
+
+    this.logger.error(`Calendar feed operation error: ${operation}`, {
+      correlationId,
+      error: error.message,
+      stack: error.stack
+    });
+  }
+}
@@ -0,0 +1,358 @@
+/**
+ * @fileoverview Checklist service managing lightweight to-do items inside a task
+ * @version 1.0.0
+ * @module services/checklist
+ */
+
+// External imports with versions
+import { injectable, inject } from 'inversify'; // v6.0.1
+import { Counter, Histogram } from 'prom-client'; // v14.x
+import { Logger } from 'winston'; // v3.x
+import { UUID } from 'crypto';
+
+// Internal imports
+import {
+  IChecklistItem,
+  IChecklistService,
+  ICreateChecklistItemDTO,
+  IUpdateChecklistItemDTO
+} from '../interfaces/checklist.interface';
+import { ITaskContext, TaskError, Result } from '../interfaces/task.interface';
+import { ChecklistRepository } from '../repositories/checklist.repository';
+import { TaskRepository } from '../repositories/task.repository';
+import { MembershipService } from '../services/membership.service';
+import { ProjectRole } from '../types/project.types';
+import { TYPES } from '../config/types';
+
+// Constants
+const MAX_ITEMS_PER_TASK = 100;
+const MAX_TITLE_LENGTH = 200;
+
+type Failure = { success: false; error: TaskError };
+
+/**
+ * Checklist service; items count towards the progress of their task
+ */
+@injectable()
+export class ChecklistService implements IChecklistService {
+  // Metrics
+  private readonly checklistOperationHistogram: Histogram;
+  private readonly checklistErrorCounter: Counter;
+
+  constructor(
+    @inject(TYPES.ChecklistRepository) private readonly checklistRepository: ChecklistRepository,
+    @inject(TYPES.TaskRepository) private readonly taskRepository: TaskRepository,
+    @inject(TYPES.MembershipService) private readonly membershipService: MembershipService,
+    @inject(TYPES.Logger) private readonly logger: Logger,
+    @inject(TYPES.MetricsClient) private readonly metricsClient: any
+  ) {
+    // Initialize metrics
+    this.checklistOperationHistogram = new this.metricsClient.Histogram({
+      name: 'checklist_operation_duration_seconds',
+      help: 'Duration of checklist operations',
+      labelNames: ['operation']
+    });
+
+    this.checklistErrorCounter = new this.metricsClient.Counter({
+      name: 'checklist_operation_errors_total',
+      help: 'Total number of checklist operation errors',
+      labelNames: ['operation', 'error_type']
+    });
+  }
+
+  /**
+   * Lists checklist items of a task in display order
+   * @param taskId Task identifier
+   * @param context Operation context
+   * @returns Checklist items or error
+   */
+  async getChecklist(
+    taskId: UUID,
+    context: ITaskContext
+  ): Promise<Result<IChecklistItem[], TaskError>> {
+    const timer = this.checklistOperationHistogram.startTimer({ operation: 'list' });
+
+    try {
+      const taskError = await this.ensureTaskAccess(taskId, ProjectRole.VIEWER, context);
+      if (taskError) {
+        timer({ success: 'false' });
+        return taskError;
+      }
+
+      const items = await this.checklistRepository.findByTaskId(taskId);
+
+      timer({ success: 'true' });
+      return { success: true, data: items };
+
+    } catch (error) {
+      this.handleOperationError('list', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Adds an item to a task's checklist
+   * @param taskId Task identifier
+   * @param data Item data
+   * @param context Operation context
+   * @returns Created item or error
+   */
+  async addItem(
+    taskId: UUID,
+    data: ICreateChecklistItemDTO,
+    context: ITaskContext
+  ): Promise<Result<IChecklistItem, TaskError>> {
+    const timer = this.checklistOperationHistogram.startTimer({ operation: 'add' });
+
+    try {
+      const validationError = this.validateTitle(data.title);
+      if (validationError) {
+        timer({ success: 'false' });
+        return validationError;
+      }
+
+      const taskError = await this.ensureTaskAccess(taskId, ProjectRole.CONTRIBUTOR, context);
+      if (taskError) {
+        timer({ success: 'false' });
+        return taskError;
+      }
+
+      if (await this.checklistRepository.countByTaskId(taskId) >= MAX_ITEMS_PER_TASK) {
+        timer({ success: 'false' });
+        return {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: `A checklist can hold at most ${MAX_ITEMS_PER_TASK} items`
+          }
+        };
+      }
+
+      const item = await this.checklistRepository.create({
+        taskId,
+        title: data.title.trim(),
+        position: data.position,
+        createdBy: context.userId
+      });
+
+      this.logger.info('Checklist item added', {
+        correlationId: context.correlationId,
+        taskId,
+        itemId: item.id
+      });
+
+      timer({ success: 'true' });
+      return { success: true, data: item };
+
+    } catch (error) {
+      this.handleOperationError('add', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Renames, reorders or checks off an item; completion records who and when
+   * @param taskId Task identifier
+   * @param itemId Item identifier
+   * @param data Update data
+   * @param context Operation context
+   * @returns Updated item or error
+   */
+  async updateItem(
+    taskId: UUID,
+    itemId: UUID,
+    data: IUpdateChecklistItemDTO,
+    context: ITaskContext
+  ): Promise<Result<IChecklistItem, TaskError>> {
+    const timer = this.checklistOperationHistogram.startTimer({ operation: 'update' });
+
+    try {
+      if (data.title !== undefined) {
+        const validationError = this.validateTitle(data.title);
+        if (validationError) {
+          timer({ success: 'false' });
+          return validationError;
+        }
+      }
+
+      const taskError = await this.ensureTaskAccess(taskId, ProjectRole.CONTRIBUTOR, context);
+      if (taskError) {
+        timer({ success: 'false' });
+        return taskError;
+      }
+
+      const item = await this.findItem(taskId, itemId);
+      if (!item) {
+        timer({ success: 'false' });
+        return {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Checklist item not found'
+          }
+        };
+      }
+
+      const changes: Parameters<ChecklistRepository['update']>[1] = {};
+      if (data.title !== undefined) changes.title = data.title.trim();
+      if (data.position !== undefined) changes.position = data.position;
+      if (data.isCompleted !== undefined && data.isCompleted !== item.isCompleted) {
+        changes.isCompleted = data.isCompleted;
+        changes.completedAt = data.isCompleted ? new Date() : null;
+        changes.completedBy = data.isCompleted ? context.userId : null;
+      }
+
+      const updated = await this.checklistRepository.update(itemId, changes);
+
+      timer({ success: 'true' });
+      return { success: true, data: updated };
+
+    } catch (error) {
+      this.handleOperationError('update', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Removes an item from a task's checklist
+   * @param taskId Task identifier
+   * @param itemId Item identifier
+   * @param context Operation context
+   * @returns Void result or error
+   */
+  async removeItem(
+    taskId: UUID,
+    itemId: UUID,
+    context: ITaskContext
+  ): Promise<Result<void, TaskError>> {
+    const timer = this.checklistOperationHistogram.startTimer({ operation: 'remove' });
+
+    try {
+      const taskError = await this.ensureTaskAccess(taskId, ProjectRole.CONTRIBUTOR, context);
+      if (taskError) {
+        timer({ success: 'false' });
+        return taskError;
+      }
+
+      const item = await this.findItem(taskId, itemId);
+      if (!item) {
+        timer({ success: 'false' });
+        return {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Checklist item not found'
+          }
+        };
+      }
+
+      await this.checklistRepository.delete(itemId);
+
+      this.logger.info('Checklist item removed', {
+        correlationId: context.correlationId,
+        taskId,
+        itemId
+      });
+
+      timer({ success: 'true' });
+      return { success: true };
+
+    } catch (error) {
+      this.handleOperationError('remove', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Loads an item only if it belongs to the task in the route
+   * @private
+   */
+  private async findItem(taskId: UUID, itemId: UUID): Promise<IChecklistItem | null> {
+    const item = await this.checklistRepository.findById(itemId);
+    return item && item.taskId === taskId ? item : null;
+  }
+
+  /**
+   * Validates an item title
+   * @private
+   */
+  private validateTitle(title: string | undefined): Failure | null {
+    if (!title?.trim() || title.trim().length > MAX_TITLE_LENGTH) {
+      return {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `Checklist item title must be between 1 and ${MAX_TITLE_LENGTH} characters`
+        }
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Ensures a task exists and the caller holds the required role in its project;
+   * tasks of projects the caller cannot see are reported as missing
+   * @private
+   */
+  private async ensureTaskAccess(
+    taskId: UUID,
+    required: ProjectRole,
+    context: ITaskContext
+  ): Promise<Failure | null> {
+    const task = await this.taskRepository.findById(taskId, context);
+
+    if (!task.success) {
+      return { success: false, error: task.error as TaskError };
+    }
+
+    if (!task.data ||
+        !await this.membershipService.hasAccess(task.data.projectId, ProjectRole.VIEWER, context)) {
+      return {
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: `Task ${taskId} not found`
+        }
+      };
+    }
+
+    if (required !== ProjectRole.VIEWER &&
+        !await this.membershipService.hasAccess(task.data.projectId, required, context)) {
+      return {
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: `Changing checklists requires the ${required} project role`
+        }
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Handles and logs operation errors
+   * @private
+   */
+  private handleOperationError(
+    operation: string,
+    error: any,
+    context: ITaskContext
+  ): void {
+    this.checklistErrorCounter.inc({
+      operation,
+      error_type: error.name || 'UnknownError'
+    });
+
+    this.logger.error(`Checklist operation error: ${operation}`, {
+      correlationId: context.correlationId,
+      error: error.message,
+      stack: error.stack
+    });
+  }
+}
@@ -0,0 +1,491 @@
+/**
+ * @fileoverview Task comment service with threaded replies and real-time updates
+ * @version 1.0.0
+ * @module services/comment
+ */
+
+// External imports with versions
+import { injectable, inject } from 'inversify'; // v6.0.1
+import CircuitBreaker from 'opossum'; // v6.x
+import { Counter, Histogram } from 'prom-client'; // v14.x
+import { Logger } from 'winston'; // v3.x
+import { UUID, randomUUID } from 'crypto';
+
+// Internal imports
+import {
+  IComment,
+  ICommentService,
+  ICommentQueryParams,
+  ICommentPaginatedResponse
+} from '../interfaces/comment.interface';
+import { CreateCommentDTO, UpdateCommentDTO } from '../dto/comment.dto';
+import { ITaskContext, TaskError, Result } from '../interfaces/task.interface';
+import { CommentRepository } from '../repositories/comment.repository';
+import { TaskRepository } from '../repositories/task.repository';
+import { MembershipService } from '../services/membership.service';
+import { WebSocketService } from '../services/websocket.service';
+import { NotificationService } from '../services/notification.service';
+import { WebSocketEventType, CommentPayload } from '../websocket/types';
+import { ProjectRole } from '../types/project.types';
+import { TYPES } from '../config/types';
+
+// Constants
+const CIRCUIT_BREAKER_OPTIONS = {
+  timeout: 3000, // 3 seconds
+  errorThresholdPercentage: 50,
+  resetTimeout: 30000 // 30 seconds
+};
+
+const MAX_CONTENT_LENGTH = 5000;
+const OPTIMISTIC_LOCK_MESSAGE = 'Comment has been modified by another operation';
+
+/**
+ * Comment service implementing task discussions with one level of replies,
+ * author-only edits, COMMENT_NEW broadcasts and mention and reply notifications
+ */
+@injectable()
+export class CommentService implements ICommentService {
+  // Metrics
+  private readonly commentOperationHistogram: Histogram;
+  private readonly commentErrorCounter: Counter;
+
+  // Circuit breaker for external service calls
+  private readonly notificationBreaker: CircuitBreaker;
+
+  constructor(
+    @inject(TYPES.CommentRepository) private readonly commentRepository: CommentRepository,
+    @inject(TYPES.TaskRepository) private readonly taskRepository: TaskRepository,
+    @inject(TYPES.MembershipService) private readonly membershipService: MembershipService,
+    @inject(TYPES.WebSocketService) private readonly webSocketService: WebSocketService,
+    @inject(TYPES.NotificationService) private readonly notificationService: NotificationService,
+    @inject(TYPES.Logger) private readonly logger: Logger,
+    @inject(TYPES.MetricsClient) private readonly metricsClient: any
+  ) {
+    // Initialize metrics
+    this.commentOperationHistogram = new this.metricsClient.Histogram({
+      name: 'comment_operation_duration_seconds',
+      help: 'Duration of comment operations',
+      labelNames: ['operation']
+    });
+
+    this.commentErrorCounter = new this.metricsClient.Counter({
+      name: 'comment_operation_errors_total',
+      help: 'Total number of comment operation errors',
+      labelNames: ['operation', 'error_type']
+    });
+
+    // Initialize circuit breaker
+    this.notificationBreaker = new CircuitBreaker(
+      this.sendNotification.bind(this),
+      CIRCUIT_BREAKER_OPTIONS
+    );
+  }
+
+  /**
+   * Creates a comment or a reply on a task and broadcasts it
+   * @param taskId Parent task identifier
+   * @param data Comment creation data
+   * @param context Operation context
+   * @returns Created comment or error
+   */
+  async createComment(
+    taskId: UUID,
+    data: CreateCommentDTO,
+    context: ITaskContext
+  ): Promise<Result<IComment, TaskError>> {
+    const timer = this.commentOperationHistogram.startTimer({ operation: 'create' });
+
+    try {
+      const validationError = this.validateContent(data.content);
+      if (validationError) {
+        return validationError;
+      }
+
+      const taskError = await this.ensureTaskAccess(taskId, ProjectRole.CONTRIBUTOR, context);
+      if (taskError) {
+        timer({ success: 'false' });
+        return taskError;
+      }
+
+      // Replies are limited to a single level under a root comment of the same task
+      let parentAuthorId: UUID | null = null;
+      if (data.parentId) {
+        const parent = await this.commentRepository.findById(data.parentId as UUID);
+
+        if (!parent || parent.taskId !== taskId) {
+          timer({ success: 'false' });
+          return {
+            success: false,
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: 'Parent comment does not belong to this task'
+            }
+          };
+        }
+
+        if (parent.isModerated) {
+          timer({ success: 'false' });
+          return {
+            success: false,
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: 'Cannot reply to a removed comment'
+            }
+          };
+        }
+
+        if (parent.parentId) {
+          timer({ success: 'false' });
+          return {
+            success: false,
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: 'Replies cannot be nested more than one level deep'
+            }
+          };
+        }
+
+        parentAuthorId = parent.authorId as UUID;
+      }
+
+      const comment = await this.commentRepository.create({
+        content: data.content,
+        taskId,
+        authorId: context.userId,
+        parentId: data.parentId as UUID | undefined,
+        mentions: data.mentions
+      }) as unknown as IComment;
+
+      const mentions = data.mentions as UUID[] | undefined;
+      await this.notificationBreaker.fire(this.toPayload(comment, mentions));
+      await this.notificationService.notifyComment(comment, mentions ?? [], parentAuthorId);
+
+      this.logger.info('Comment created successfully', {
+        correlationId: context.correlationId,
+        taskId,
+        commentId: comment.id
+      });
+
+      timer({ success: 'true' });
+      return { success: true, data: comment };
+
+    } catch (error) {
+      this.handleOperationError('create', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Updates a comment's content, restricted to its author
+   * @param taskId Parent task identifier
+   * @param commentId Comment identifier
+   * @param data Update data with version
+   * @param context Operation context
+   * @returns Updated comment or error
+   */
+  async updateComment(
+    taskId: UUID,
+    commentId: UUID,
+    data: UpdateCommentDTO,
+    context: ITaskContext
+  ): Promise<Result<IComment, TaskError>> {
+    const timer = this.commentOperationHistogram.startTimer({ operation: 'update' });
+
+    try {
+      const validationError = this.validateContent(data.content);
+      if (validationError) {
+        return validationError;
+      }
+
+      const taskError = await this.ensureTaskAccess(taskId, ProjectRole.CONTRIBUTOR, context);
+      if (taskError) {
+        timer({ success: 'false' });
+        return taskError;
+      }
+
+      const accessError = await this.ensureAuthor(taskId, commentId, context);
+      if (accessError) {
+        timer({ success: 'false' });
+        return accessError;
+      }
+
+      const comment = await this.commentRepository.update(commentId, {
+        content: data.content,
+        mentions: data.mentions,
+        version: data.version
+      }) as unknown as IComment;
+
+      this.logger.info('Comment updated successfully', {
+        correlationId: context.correlationId,
+        taskId,
+        commentId
+      });
+
+      timer({ success: 'true' });
+      return { success: true, data: comment };
+
+    } catch (error) {
+      if (error.message === OPTIMISTIC_LOCK_MESSAGE) {
+        timer({ success: 'false' });
+        return {
+          success: false,
+          error: {
+            code: 'CONFLICT',
+            message: OPTIMISTIC_LOCK_MESSAGE
+          }
+        };
+      }
+
+      this.handleOperationError('update', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Soft deletes a comment, restricted to its author
+   * @param taskId Parent task identifier
+   * @param commentId Comment identifier
+   * @param context Operation context
+   * @returns Void result or error
+   */
+  async deleteComment(
+    taskId: UUID,
+    commentId: UUID,
+    context: ITaskContext
+  ): Promise<Result<void, TaskError>> {
+    const timer = this.commentOperationHistogram.startTimer({ operation: 'delete' });
+
+    try {
+      const taskError = await this.ensureTaskAccess(taskId, ProjectRole.CONTRIBUTOR, context);
+      if (taskError) {
+        timer({ success: 'false' });
+        return taskError;
+      }
+
+      const accessError = await this.ensureAuthor(taskId, commentId, context);
+      if (accessError) {
+        timer({ success: 'false' });
+        return accessError;
+      }
+
+      await this.commentRepository.delete(commentId);
+
+      this.logger.info('Comment deleted successfully', {
+        correlationId: context.correlationId,
+        taskId,
+        commentId
+      });
+
+      timer({ success: 'true' });
+      return { success: true };
+
+    } catch (error) {
+      this.handleOperationError('delete', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves a page of top-level comments with their replies embedded
+   * @param taskId Parent task identifier
+   * @param params Query parameters
+   * @param context Operation context
+   * @returns Paginated comments or error
+   */
+  async getComments(
+    taskId: UUID,
+    params: ICommentQueryParams,
+    context: ITaskContext
+  ): Promise<Result<ICommentPaginatedResponse, TaskError>> {
+    const timer = this.commentOperationHistogram.startTimer({ operation: 'list' });
+
+    try {
+      const taskError = await this.ensureTaskAccess(taskId, ProjectRole.VIEWER, context);
+      if (taskError) {
+        timer({ success: 'false' });
+        return taskError;
+      }
+
+      const result = await this.commentRepository.findByTaskId(taskId, {
+        page: Math.max(1, params.page || 1),
+        limit: Math.min(100, Math.max(1, params.limit || 20)),
+        sortBy: 'createdAt',
+        sortOrder: params.sortOrder || 'desc',
+        topLevelOnly: true
+      });
+
+      timer({ success: 'true' });
+      return { success: true, data: result as unknown as ICommentPaginatedResponse };
+
+    } catch (error) {
+      this.handleOperationError('list', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Validates comment content
+   * @private
+   */
+  private validateContent(content: string): Result<IComment, TaskError> | null {
+    if (!content?.trim()) {
+      return {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Comment content is required'
+        }
+      };
+    }
+
+    if (content.length > MAX_CONTENT_LENGTH) {
+      return {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `Comment content must not exceed ${MAX_CONTENT_LENGTH} characters`
+        }
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Ensures the parent task exists and the caller holds the required role in its project;
+   * tasks of projects the caller cannot see are reported as missing
+   * @private
+   */
+  private async ensureTaskAccess(
+    taskId: UUID,
+    required: ProjectRole,
+    context: ITaskContext
+  ): Promise<{ success: false; error: TaskError } | null> {
+    const task = await this.taskRepository.findById(taskId, context);
+
+    if (!task.success) {
+      return { success: false, error: task.error as TaskError };
+    }
+
+    if (!task.data ||
+        !await this.membershipService.hasAccess(task.data.projectId, ProjectRole.VIEWER, context)) {
+      return {
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Task not found'
+        }
+      };
+    }
+
+    if (required !== ProjectRole.VIEWER &&
+        !await this.membershipService.hasAccess(task.data.projectId, required, context)) {
+      return {
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: `Commenting requires the ${required} project role`
+        }
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Ensures the comment exists on the task, was not removed and belongs to the caller;
+   * removed comments cannot be edited back into view
+   * @private
+   */
+  private async ensureAuthor(
+    taskId: UUID,
+    commentId: UUID,
+    context: ITaskContext
+  ): Promise<{ success: false; error: TaskError } | null> {
+    const comment = await this.commentRepository.findById(commentId);
+
+    if (!comment || comment.taskId !== taskId || comment.isModerated) {
+      return {
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Comment not found'
+        }
+      };
+    }
+
+    if (comment.authorId !== context.userId) {
+      this.logger.warn('Comment modification denied for non-author', {
+        correlationId: context.correlationId,
+        commentId,
+        userId: context.userId
+      });
+
+      return {
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: 'Only the comment author can modify this comment'
+        }
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Maps a comment entity to the COMMENT_NEW WebSocket payload
+   * @private
+   */
+  private toPayload(comment: IComment, mentions: UUID[] = []): CommentPayload {
+    return {
+      taskId: comment.taskId,
+      commentId: comment.id,
+      content: comment.content,
+      createdBy: comment.authorId,
+      createdAt: comment.createdAt,
+      mentions,
+      attachments: [],
+      isEdited: comment.isEdited,
+      parentId: comment.parentId
+    };
+  }
+
+  /**
+   * Sends notification through WebSocket service
+   * @private
+   */
+  private async sendNotification(payload: CommentPayload): Promise<void> {
+    await this.webSocketService.broadcast({
+      type: WebSocketEventType.COMMENT_NEW,
+      payload,
+      timestamp: new Date(),
+      messageId: randomUUID() as UUID
+    });
+  }
+
+  /**
+   * Handles and logs operation errors
+   * @private
+   */
+  private handleOperationError(
+    operation: string,
+    error: any,
+    context: ITaskContext
+  ): void {
+    this.commentErrorCounter.inc({
+      operation,
+      error_type: error.name || 'UnknownError'
+    });
+
+    this.logger.error(`Comment operation error: ${operation}`, {
+      correlationId: context.correlationId,
+      error: error.message,
+      stack: error.stack
+    });
+  }
+}
@@ -0,0 +1,360 @@
+/**
+ * @fileoverview Custom field service managing the typed task fields defined per project
+ * @version 1.0.0
+ * @module services/customField
+ */
+
+// External imports with versions
+import { injectable, inject } from 'inversify'; // v6.0.1
+import { Counter, Histogram } from 'prom-client'; // v14.x
+import { Logger } from 'winston'; // v3.x
+import { UUID } from 'crypto';
+
+// Internal imports
+import {
+  ICustomField,
+  ICustomFieldService,
+  ICreateCustomFieldDTO,
+  IUpdateCustomFieldDTO
+} from '../interfaces/customField.interface';
+import { ITaskContext, TaskError, Result } from '../interfaces/task.interface';
+import { CustomFieldRepository } from '../repositories/customField.repository';
+import { ProjectRepository } from '../repositories/project.repository';
+import { MembershipService } from '../services/membership.service';
+import { CustomFieldType } from '../types/customField.types';
+import { ProjectRole } from '../types/project.types';
+import { CUSTOM_FIELD_KEY_PATTERN } from '../utils/customField.util';
+import { TYPES } from '../config/types';
+
+// Field types whose values are picked from the field's options
+const SELECT_TYPES: CustomFieldType[] = [CustomFieldType.SINGLE_SELECT, CustomFieldType.MULTI_SELECT];
+
+type Failure = { success: false; error: TaskError };
+
+/**
+ * Custom field service; any member may read a project's fields, while defining and
+ * changing them requires the MANAGER project role
+ */
+@injectable()
+export class CustomFieldService implements ICustomFieldService {
+  // Metrics
+  private readonly customFieldOperationHistogram: Histogram;
+  private readonly customFieldErrorCounter: Counter;
+
+  constructor(
+    @inject(TYPES.CustomFieldRepository) private readonly customFieldRepository: CustomFieldRepository,
+    @inject(TYPES.ProjectRepository) private readonly projectRepository: ProjectRepository,
+    @inject(TYPES.MembershipService) private readonly membershipService: MembershipService,
+    @inject(TYPES.Logger) private readonly logger: Logger,
+    @inject(TYPES.MetricsClient) private readonly metricsClient: any
+  ) {
+    // Initialize metrics
+    this.customFieldOperationHistogram = new this.metricsClient.Histogram({
+      name: 'custom_field_operation_duration_seconds',
+      help: 'Duration of custom field operations',
+      labelNames: ['operation']
+    });
+
+    this.customFieldErrorCounter = new this.metricsClient.Counter({
+      name: 'custom_field_operation_errors_total',
+      help: 'Total number of custom field operation errors',
+      labelNames: ['operation', 'error_type']
+    });
+  }
+
+  /**
+   * Lists the custom fields of a project in display order
+   * @param projectId Project identifier
+   * @param context Operation context
+   * @returns Field definitions or error
+   */
+  async listFields(
+    projectId: UUID,
+    context: ITaskContext
+  ): Promise<Result<ICustomField[], TaskError>> {
+    const timer = this.customFieldOperationHistogram.startTimer({ operation: 'list' });
+
+    try {
+      const accessError = await this.checkAccess(projectId, ProjectRole.VIEWER, context);
+      if (accessError) {
+        timer({ success: 'false' });
+        return accessError;
+      }
+
+      const fields = await this.customFieldRepository.findByProject(projectId);
+
+      timer({ success: 'true' });
+      return { success: true, data: fields };
+
+    } catch (error) {
+      this.handleOperationError('list', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Defines a new custom field on a project
+   * @param projectId Project identifier
+   * @param data Field definition
+   * @param context Operation context
+   * @returns Created field or error
+   */
+  async createField(
+    projectId: UUID,
+    data: ICreateCustomFieldDTO,
+    context: ITaskContext
+  ): Promise<Result<ICustomField, TaskError>> {
+    const timer = this.customFieldOperationHistogram.startTimer({ operation: 'create' });
+
+    try {
+      const accessError = await this.checkAccess(projectId, ProjectRole.MANAGER, context);
+      if (accessError) {
+        timer({ success: 'false' });
+        return accessError;
+      }
+
+      if (!CUSTOM_FIELD_KEY_PATTERN.test(data.key)) {
+        timer({ success: 'false' });
+        return this.validationError(
+          'Field key must start with a lowercase letter and contain only lowercase letters, digits and underscores'
+        );
+      }
+
+      const optionsError = this.validateOptions(data.type, data.options);
+      if (optionsError) {
+        timer({ success: 'false' });
+        return optionsError;
+      }
+
+      // Keys of deleted fields stay reserved, since tasks may still hold their values
+      if (await this.customFieldRepository.keyExists(projectId, data.key)) {
+        timer({ success: 'false' });
+        return {
+          success: false,
+          error: {
+            code: 'CONFLICT',
+            message: `Field key ${data.key} is already used in this project`
+          }
+        };
+      }
+
+      const field = await this.customFieldRepository.create(projectId, data, context.userId);
+
+      this.logger.info('Custom field created', {
+        correlationId: context.correlationId,
+        projectId,
+        fieldId: field.id,
+        type: field.type
+      });
+
+      timer({ success: 'true' });
+      return { success: true, data: field };
+
+    } catch (error) {
+      this.handleOperationError('create', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Updates the name, options, required flag or position of a custom field; values
+   * stored with a removed option are kept until the task is next edited
+   * @param projectId Project identifier
+   * @param fieldId Field identifier
+   * @param data Changed attributes
+   * @param context Operation context
+   * @returns Updated field or error
+   */
+  async updateField(
+    projectId: UUID,
+    fieldId: UUID,
+    data: IUpdateCustomFieldDTO,
+    context: ITaskContext
+  ): Promise<Result<ICustomField, TaskError>> {
+    const timer = this.customFieldOperationHistogram.startTimer({ operation: 'update' });
+
+    try {
+      const accessError = await this.checkAccess(projectId, ProjectRole.MANAGER, context);
+      if (accessError) {
+        timer({ success: 'false' });
+        return accessError;
+      }
+
+      const field = await this.customFieldRepository.findById(projectId, fieldId);
+      if (!field) {
+        timer({ success: 'false' });
+        return this.notFound('Custom field', fieldId);
+      }
+
+      if (data.options !== undefined) {
+        const optionsError = this.validateOptions(field.type, data.options);
+        if (optionsError) {
+          timer({ success: 'false' });
+          return optionsError;
+        }
+      }
+
+      const updated = await this.customFieldRepository.update(fieldId, data);
+
+      this.logger.info('Custom field updated', {
+        correlationId: context.correlationId,
+        projectId,
+        fieldId
+      });
+
+      timer({ success: 'true' });
+      return { success: true, data: updated };
+
+    } catch (error) {
+      this.handleOperationError('update', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Removes a custom field; values already stored on tasks are left in place but ignored
+   * @param projectId Project identifier
+   * @param fieldId Field identifier
+   * @param context Operation context
+   * @returns Void result or error
+   */
+  async deleteField(
+    projectId: UUID,
+    fieldId: UUID,
+    context: ITaskContext
+  ): Promise<Result<void, TaskError>> {
+    const timer = this.customFieldOperationHistogram.startTimer({ operation: 'delete' });
+
+    try {
+      const accessError = await this.checkAccess(projectId, ProjectRole.MANAGER, context);
+      if (accessError) {
+        timer({ success: 'false' });
+        return accessError;
+      }
+
+      const field = await this.customFieldRepository.findById(projectId, fieldId);
+      if (!field) {
+        timer({ success: 'false' });
+        return this.notFound('Custom field', fieldId);
+      }
+
+      await this.customFieldRepository.delete(fieldId);
+
+      this.logger.info('Custom field deleted', {
+        correlationId: context.correlationId,
+        projectId,
+        fieldId
+      });
+
+      timer({ success: 'true' });
+      return { success: true };
+
+    } catch (error) {
+      this.handleOperationError('delete', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Checks that the project exists and the caller holds the required project role;
+   * projects the caller cannot see at all are reported as missing rather than forbidden
+   * @private
+   */
+  private async checkAccess(
+    projectId: UUID,
+    required: ProjectRole,
+    context: ITaskContext
+  ): Promise<Failure | null> {
+    const project = await this.projectRepository.findById(projectId);
+    if (!project || !await this.membershipService.hasAccess(projectId, ProjectRole.VIEWER, context)) {
+      return this.notFound('Project', projectId);
+    }
+
+    if (!await this.membershipService.hasAccess(projectId, required, context)) {
+      return {
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: `Managing custom fields requires the ${required} project role`
+        }
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Select fields need a non-empty list of distinct options; other types take none
+   * @private
+   */
+  private validateOptions(type: CustomFieldType, options: string[] = []): Failure | null {
+    if (!SELECT_TYPES.includes(type)) {
+      return options.length > 0
+        ? this.validationError(`Fields of type ${type} do not take options`)
+        : null;
+    }
+
+    if (options.length === 0) {
+      return this.validationError('Select fields need at least one option');
+    }
+
+    if (new Set(options).size !== options.length) {
+      return this.validationError('Select field options must be distinct');
+    }
+
+    return null;
+  }
+
+  /**
+   * Builds a VALIDATION_ERROR failure
+   * @private
+   */
+  private validationError(message: string): Failure {
+    return {
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message
+      }
+    };
+  }
+
+  /**
+   * Builds a NOT_FOUND failure
+   * @private
+   */
+  private notFound(entity: string, id: UUID): Failure {
+    return {
+      success: false,
+      error: {
+        code: 'NOT_FOUND',
+        message: `${entity} ${id} not found`
+      }
+    };
+  }
+
+  /**
+   * Handles and logs operation errors
+   * @private
+   */
+  private handleOperationError(
+    operation: string,
+    error: any,
+    context: ITaskContext
+  ): void {
+    this.customFieldErrorCounter.inc({
+      operation,
+      error_type: error.name || 'UnknownError'
+    });
+
+    this.logger.error(`Custom field operation error: ${operation}`, {
+      correlationId: context.correlationId,
+      error: error.message,
+      stack: error.stack
+    });
+  }
+}
@@ -0,0 +1,454 @@
+/**
+ * @fileoverview Task dependency service with cycle detection and automatic unblocking
+ * @version 1.0.0
+ * @module services/dependency
+ */
+
+// External imports with versions
+import { injectable, inject } from 'inversify'; // v6.0.1
+import CircuitBreaker from 'opossum'; // v6.x
+import { Counter, Histogram } from 'prom-client'; // v14.x
+import { Logger } from 'winston'; // v3.x
+import { UUID, randomUUID } from 'crypto';
+
+// Internal imports
+import {
+  ITaskDependency,
+  ITaskDependencies,
+  ITaskDependencyService,
+  IDependencyTaskSummary
+} from '../interfaces/dependency.interface';
+import { CreateDependencyDTO } from '../dto/dependency.dto';
+import { ITaskContext, TaskError, Result } from '../interfaces/task.interface';
+import { TaskDependencyRepository, IDependentTask } from '../repositories/dependency.repository';
+import { TaskRepository } from '../repositories/task.repository';
+import { MembershipService } from '../services/membership.service';
+import { WebSocketService } from '../services/websocket.service';
+import { WebSocketEventType, TaskUpdatePayload } from '../websocket/types';
+import { TaskStatus, TaskPriority } from '../types/task.types';
+import { ProjectRole } from '../types/project.types';
+import { TYPES } from '../config/types';
+
+// Constants
+const CIRCUIT_BREAKER_OPTIONS = {
+  timeout: 3000, // 3 seconds
+  errorThresholdPercentage: 50,
+  resetTimeout: 30000 // 30 seconds
+};
+
+type Failure = { success: false; error: TaskError };
+
+/**
+ * Task dependency service maintaining an acyclic blocks/blocked-by graph and
+ * releasing BLOCKED tasks once their last blocker completes
+ */
+@injectable()
+export class TaskDependencyService implements ITaskDependencyService {
+  // Metrics
+  private readonly dependencyOperationHistogram: Histogram;
+  private readonly dependencyErrorCounter: Counter;
+
+  // Circuit breaker for external service calls
+  private readonly notificationBreaker: CircuitBreaker;
+
+  constructor(
+    @inject(TYPES.TaskDependencyRepository) private readonly dependencyRepository: TaskDependencyRepository,
+    @inject(TYPES.TaskRepository) private readonly taskRepository: TaskRepository,
+    @inject(TYPES.MembershipService) private readonly membershipService: MembershipService,
+    @inject(TYPES.WebSocketService) private readonly webSocketService: WebSocketService,
+    @inject(TYPES.Logger) private readonly logger: Logger,
+    @inject(TYPES.MetricsClient) private readonly metricsClient: any
+  ) {
+    // Initialize metrics
+    this.dependencyOperationHistogram = new this.metricsClient.Histogram({
+      name: 'task_dependency_operation_duration_seconds',
+      help: 'Duration of task dependency operations',
+      labelNames: ['operation']
+    });
+
+    this.dependencyErrorCounter = new this.metricsClient.Counter({
+      name: 'task_dependency_operation_errors_total',
+      help: 'Total number of task dependency operation errors',
+      labelNames: ['operation', 'error_type']
+    });
+
+    // Initialize circuit breaker
+    this.notificationBreaker = new CircuitBreaker(
+      this.sendNotification.bind(this),
+      CIRCUIT_BREAKER_OPTIONS
+    );
+  }
+
+  /**
+   * Links the route task to another task in the requested direction
+   * @param taskId Route task identifier
+   * @param data Either blockerId (route task waits) or blockedId (route task blocks)
+   * @param context Operation context
+   * @returns Created link or error
+   */
+  async addDependency(
+    taskId: UUID,
+    data: CreateDependencyDTO,
+    context: ITaskContext
+  ): Promise<Result<ITaskDependency, TaskError>> {
+    const timer = this.dependencyOperationHistogram.startTimer({ operation: 'add' });
+
+    try {
+      if (Boolean(data.blockerId) === Boolean(data.blockedId)) {
+        timer({ success: 'false' });
+        return {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Exactly one of blockerId or blockedId is required'
+          }
+        };
+      }
+
+      const blockerId = (data.blockerId || taskId) as UUID;
+      const blockedId = (data.blockedId || taskId) as UUID;
+
+      if (blockerId === blockedId) {
+        timer({ success: 'false' });
+        return {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'A task cannot depend on itself'
+          }
+        };
+      }
+
+      for (const id of [blockerId, blockedId]) {
+        const taskError = await this.ensureTaskAccess(id, ProjectRole.CONTRIBUTOR, context);
+        if (taskError) {
+          timer({ success: 'false' });
+          return taskError;
+        }
+      }
+
+      if (await this.dependencyRepository.findLink(blockerId, blockedId)) {
+        timer({ success: 'false' });
+        return {
+          success: false,
+          error: {
+            code: 'CONFLICT',
+            message: 'These tasks are already linked'
+          }
+        };
+      }
+
+      // The new edge closes a cycle if the blocker is already reachable from the blocked task
+      const path = await this.findPath(blockedId, blockerId);
+      if (path) {
+        this.logger.warn('Task dependency rejected: cycle detected', {
+          correlationId: context.correlationId,
+          blockerId,
+          blockedId
+        });
+
+        timer({ success: 'false' });
+        return {
+          success: false,
+          error: {
+            code: 'DEPENDENCY_CYCLE',
+            message: 'This dependency would create a cycle',
+            details: { cycle: [blockerId, ...path] }
+          }
+        };
+      }
+
+      const dependency = await this.dependencyRepository.create(blockerId, blockedId, context.userId);
+
+      this.logger.info('Task dependency created', {
+        correlationId: context.correlationId,
+        dependencyId: dependency.id,
+        blockerId,
+        blockedId
+      });
+
+      timer({ success: 'true' });
+      return { success: true, data: dependency };
+
+    } catch (error) {
+      this.handleOperationError('add', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Removes a link touching the route task; the blocked side is released if nothing else blocks it
+   * @param taskId Route task identifier
+   * @param dependencyId Link identifier
+   * @param context Operation context
+   * @returns Void result or error
+   */
+  async removeDependency(
+    taskId: UUID,
+    dependencyId: UUID,
+    context: ITaskContext
+  ): Promise<Result<void, TaskError>> {
+    const timer = this.dependencyOperationHistogram.startTimer({ operation: 'remove' });
+
+    try {
+      const taskError = await this.ensureTaskAccess(taskId, ProjectRole.CONTRIBUTOR, context);
+      if (taskError) {
+        timer({ success: 'false' });
+        return taskError;
+      }
+
+      const dependency = await this.dependencyRepository.findById(dependencyId);
+
+      if (!dependency || (dependency.blockerId !== taskId && dependency.blockedId !== taskId)) {
+        timer({ success: 'false' });
+        return {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Dependency not found'
+          }
+        };
+      }
+
+      await this.dependencyRepository.delete(dependencyId);
+
+      this.logger.info('Task dependency removed', {
+        correlationId: context.correlationId,
+        dependencyId
+      });
+
+      const blocked = await this.taskRepository.findById(dependency.blockedId, context);
+      if (blocked.success && blocked.data?.status === TaskStatus.BLOCKED) {
+        await this.releaseIfUnblocked(blocked.data as unknown as IDependentTask, context);
+      }
+
+      timer({ success: 'true' });
+      return { success: true };
+
+    } catch (error) {
+      this.handleOperationError('remove', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Lists both directions of a task's dependencies
+   * @param taskId Task identifier
+   * @param context Operation context
+   * @returns Dependencies or error
+   */
+  async getDependencies(
+    taskId: UUID,
+    context: ITaskContext
+  ): Promise<Result<ITaskDependencies, TaskError>> {
+    const timer = this.dependencyOperationHistogram.startTimer({ operation: 'list' });
+
+    try {
+      const taskError = await this.ensureTaskAccess(taskId, ProjectRole.VIEWER, context);
+      if (taskError) {
+        timer({ success: 'false' });
+        return taskError;
+      }
+
+      const dependencies = await this.dependencyRepository.findByTaskId(taskId);
+
+      timer({ success: 'true' });
+      return { success: true, data: dependencies };
+
+    } catch (error) {
+      this.handleOperationError('list', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Lists blockers of a task that are not completed yet
+   * @param taskId Task identifier
+   * @returns Open blocking tasks
+   */
+  async getOpenBlockers(taskId: UUID): Promise<IDependencyTaskSummary[]> {
+    return this.dependencyRepository.findOpenBlockers(taskId);
+  }
+
+  /**
+   * Moves BLOCKED dependents of a completed task back to TODO once nothing blocks them
+   * @param blockerId Completed task identifier
+   * @param context Operation context
+   * @returns Identifiers of released tasks
+   */
+  async releaseDependents(blockerId: UUID, context: ITaskContext): Promise<UUID[]> {
+    const dependents = await this.dependencyRepository.findDependents(blockerId);
+    const released: UUID[] = [];
+
+    for (const dependent of dependents) {
+      if (dependent.status !== TaskStatus.BLOCKED) {
+        continue;
+      }
+
+      if (await this.releaseIfUnblocked(dependent, context)) {
+        released.push(dependent.id);
+      }
+    }
+
+    return released;
+  }
+
+  /**
+   * Moves a BLOCKED task to TODO when it has no open blockers and broadcasts the change
+   * @private
+   */
+  private async releaseIfUnblocked(task: IDependentTask, context: ITaskContext): Promise<boolean> {
+    const openBlockers = await this.dependencyRepository.findOpenBlockers(task.id);
+    if (openBlockers.length > 0) {
+      return false;
+    }
+
+    const result = await this.taskRepository.update(
+      task.id,
+      { status: TaskStatus.TODO, version: task.version },
+      context
+    );
+
+    if (!result.success || !result.data) {
+      // A concurrent edit wins; the task stays BLOCKED until someone moves it
+      this.logger.warn('Failed to release unblocked task', {
+        correlationId: context.correlationId,
+        taskId: task.id,
+        error: result.error?.code
+      });
+      return false;
+    }
+
+    this.logger.info('Task released from BLOCKED', {
+      correlationId: context.correlationId,
+      taskId: task.id
+    });
+
+    await this.notificationBreaker.fire({
+      taskId: task.id,
+      status: TaskStatus.TODO,
+      updatedBy: context.userId,
+      updatedAt: new Date(),
+      title: task.title,
+      priority: task.priority as TaskPriority,
+      tags: result.data.tags || [],
+      assignees: task.assigneeId ? [task.assigneeId] : []
+    });
+
+    return true;
+  }
+
+  /**
+   * Finds a path from one task to another along blocks edges, walking the graph
+   * breadth-first one level per query
+   * @private
+   */
+  private async findPath(from: UUID, to: UUID): Promise<UUID[] | null> {
+    const parents = new Map<UUID, UUID | null>([[from, null]]);
+    let frontier: UUID[] = [from];
+
+    while (frontier.length > 0) {
+      const edges = await this.dependencyRepository.findEdgesFrom(frontier);
+      const next: UUID[] = [];
+
+      for (const edge of edges) {
+        if (parents.has(edge.blockedId)) {
+          continue;
+        }
+        parents.set(edge.blockedId, edge.blockerId);
+
+        if (edge.blockedId === to) {
+          const path: UUID[] = [];
+          for (let node: UUID | null = to; node; node = parents.get(node) ?? null) {
+            path.unshift(node);
+          }
+          return path;
+        }
+
+        next.push(edge.blockedId);
+      }
+
+      frontier = next;
+    }
+
+    return null;
+  }
+
+  /**
+   * Ensures a task exists and the caller holds the required role in its project;
+   * tasks of projects the caller cannot see are reported as missing
+   * @private
+   */
+  private async ensureTaskAccess(
+    taskId: UUID,
+    required: ProjectRole,
+    context: ITaskContext
+  ): Promise<Failure | null> {
+    const task = await this.taskRepository.findById(taskId, context);
+
+    if (!task.success) {
+      return { success: false, error: task.error as TaskError };
+    }
+
+    if (!task.data ||
+        !await this.membershipService.hasAccess(task.data.projectId, ProjectRole.VIEWER, context)) {
+      return {
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: `Task ${taskId} not found`
+        }
+      };
+    }
+
+    if (required !== ProjectRole.VIEWER &&
+        !await this.membershipService.hasAccess(task.data.projectId, required, context)) {
+      return {
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: `Changing dependencies requires the ${required} project role`
+        }
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Sends a TASK_UPDATE notification through WebSocket service
+   * @private
+   */
+  private async sendNotification(payload: TaskUpdatePayload): Promise<void> {
+    await this.webSocketService.broadcast({
+      type: WebSocketEventType.TASK_UPDATE,
+      payload,
+      timestamp: new Date(),
+      messageId: randomUUID() as UUID
+    });
+  }
+
+  /**
+   * Handles and logs operation errors
+   * @private
+   */
+  private handleOperationError(
+    operation: string,
+    error: any,
+    context: ITaskContext
+  ): void {
+    this.dependencyErrorCounter.inc({
+      operation,
+      error_type: error.name || 'UnknownError'
+    });
+
+    this.logger.error(`Task dependency operation error: ${operation}`, {
+      correlationId: context.correlationId,
+      error: error.message,
+      stack: error.stack
+    });
+  }
+}
@@ -8,6 +8,7 @@ import sgMail from '@sendgrid/mail'; // v7.7.0
 import sanitizeHtml from 'sanitize-html'; // v2.11.0
 import { emailConfig } from '../config/email.config';
 import logger from '../utils/logger.util';
+import { buildReplyAddress, createReplyToken, REPLY_TOKEN_HEADER } from '../utils/inboundEmail.util';
 import { RateLimiter } from 'limiter'; // v2.0.0
 
 /**
@@ -25,6 +26,8 @@ interface EmailOptions {
     disposition: 'attachment' | 'inline';
   }>;
   priority?: 'high' | 'normal' | 'low';
+  replyTo?: string;
+  headers?: Record<string, string>;
 }
 
 /**
@@ -163,6 +166,8 @@ export class EmailService {
         html: sanitizedContent,
         templateId: options.templateId,
         attachments: options.attachments,
+        replyTo: options.replyTo,
+        headers: options.headers,
         priority: options.priority || 'normal',
         trackingSettings: {
           clickTracking: { enable: true },
@@ -226,14 +231,16 @@ export class EmailService {
         [key]: typeof value === 'string' ? this.sanitizeContent(value) : value
       }), {});
 
-      // Prepare email options
+      // Replies go to the task's reply address and become comments on the task
       const emailOptions: EmailOptions = {
         to: options.userId, // Assuming userId is the email address
         subject: `Task ${options.type} Notification`,
         content: '', // Content will be provided by template
         templateId,
         priority: options.priority,
-        attachments: []
+        attachments: [],
+        replyTo: buildReplyAddress(options.taskId, emailConfig.inbound.domain),
+        headers: { [REPLY_TOKEN_HEADER]: createReplyToken(options.taskId) }
       };
 
       // Send email with template
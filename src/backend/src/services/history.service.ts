@@ -0,0 +1,200 @@
+/**
+ * @fileoverview History service exposing the field-level change log of tasks and projects
+ * @version 1.0.0
+ * @module services/history
+ */
+
+// External imports with versions
+import { injectable, inject } from 'inversify'; // v6.0.1
+import { Counter, Histogram } from 'prom-client'; // v14.x
+import { Logger } from 'winston'; // v3.x
+import { UUID } from 'crypto';
+
+// Internal imports
+import {
+  IHistoryService,
+  IHistoryQueryParams,
+  IHistoryPaginatedResponse
+} from '../interfaces/history.interface';
+import { ITaskContext, TaskError, Result } from '../interfaces/task.interface';
+import { HistoryRepository } from '../repositories/history.repository';
+import { TaskRepository } from '../repositories/task.repository';
+import { ProjectRepository } from '../repositories/project.repository';
+import { MembershipService } from '../services/membership.service';
+import { HistoryEntityType } from '../types/history.types';
+import { ProjectRole } from '../types/project.types';
+import { TYPES } from '../config/types';
+
+// Constants
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+
+type Failure = { success: false; error: TaskError };
+
+/**
+ * History service; entries are written by the repositories in the transaction of each update,
+ * so this service only reads them
+ */
+@injectable()
+export class HistoryService implements IHistoryService {
+  // Metrics
+  private readonly historyOperationHistogram: Histogram;
+  private readonly historyErrorCounter: Counter;
+
+  constructor(
+    @inject(TYPES.HistoryRepository) private readonly historyRepository: HistoryRepository,
+    @inject(TYPES.TaskRepository) private readonly taskRepository: TaskRepository,
+    @inject(TYPES.ProjectRepository) private readonly projectRepository: ProjectRepository,
+    @inject(TYPES.MembershipService) private readonly membershipService: MembershipService,
+    @inject(TYPES.Logger) private readonly logger: Logger,
+    @inject(TYPES.MetricsClient) private readonly metricsClient: any
+  ) {
+    // Initialize metrics
+    this.historyOperationHistogram = new this.metricsClient.Histogram({
+      name: 'history_operation_duration_seconds',
+      help: 'Duration of change history operations',
+      labelNames: ['operation']
+    });
+
+    this.historyErrorCounter = new this.metricsClient.Counter({
+      name: 'history_operation_errors_total',
+      help: 'Total number of change history operation errors',
+      labelNames: ['operation', 'error_type']
+    });
+  }
+
+  /**
+   * Retrieves the change history of a task, newest first
+   * @param taskId Task identifier
+   * @param params Query parameters
+   * @param context Operation context
+   * @returns Paginated history entries or error
+   */
+  async getTaskHistory(
+    taskId: UUID,
+    params: IHistoryQueryParams,
+    context: ITaskContext
+  ): Promise<Result<IHistoryPaginatedResponse, TaskError>> {
+    const timer = this.historyOperationHistogram.startTimer({ operation: 'task' });
+
+    try {
+      const task = await this.taskRepository.findById(taskId, context);
+      if (!task.success) {
+        timer({ success: 'false' });
+        return { success: false, error: task.error as TaskError };
+      }
+
+      // History outlives soft deletes, but is only served for tasks the caller can still see
+      if (!task.data ||
+          !await this.membershipService.hasAccess(task.data.projectId, ProjectRole.VIEWER, context)) {
+        timer({ success: 'false' });
+        return this.notFound('Task', taskId);
+      }
+
+      const page = await this.findPage(HistoryEntityType.TASK, taskId, params);
+
+      timer({ success: 'true' });
+      return { success: true, data: page };
+
+    } catch (error) {
+      this.handleOperationError('task', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves the change history of a project, newest first
+   * @param projectId Project identifier
+   * @param params Query parameters
+   * @param context Operation context
+   * @returns Paginated history entries or error
+   */
+  async getProjectHistory(
+    projectId: UUID,
+    params: IHistoryQueryParams,
+    context: ITaskContext
+  ): Promise<Result<IHistoryPaginatedResponse, TaskError>> {
+    const timer = this.historyOperationHistogram.startTimer({ operation: 'project' });
+
+    try {
+      const project = await this.projectRepository.findById(projectId);
+      if (!project || !await this.membershipService.hasAccess(projectId, ProjectRole.VIEWER, context)) {
+        timer({ success: 'false' });
+        return this.notFound('Project', projectId);
+      }
+
+      const page = await this.findPage(HistoryEntityType.PROJECT, projectId, params);
+
+      timer({ success: 'true' });
+      return { success: true, data: page };
+
+    } catch (error) {
+      this.handleOperationError('project', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Loads one page of entries, clamping the page size
+   * @private
+   */
+  private async findPage(
+    entityType: HistoryEntityType,
+    entityId: UUID,
+    params: IHistoryQueryParams
+  ): Promise<IHistoryPaginatedResponse> {
+    const page = Math.max(params.page || 1, 1);
+    const limit = Math.min(Math.max(params.limit || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+    const { items, total } = await this.historyRepository.findByEntity(entityType, entityId, {
+      page,
+      limit,
+      field: params.field
+    });
+
+    return {
+      items,
+      total,
+      page,
+      limit,
+      hasMore: total > page * limit
+    };
+  }
+
+  /**
+   * Builds a NOT_FOUND failure
+   * @private
+   */
+  private notFound(entity: string, id: UUID): Failure {
+    return {
+      success: false,
+      error: {
+        code: 'NOT_FOUND',
+        message: `${entity} ${id} not found`
+      }
+    };
+  }
+
+  /**
+   * Handles and logs operation errors
+   * @private
+   */
+  private handleOperationError(
+    operation: string,
+    error: any,
+    context: ITaskContext
+  ): void {
+    this.historyErrorCounter.inc({
+      operation,
+      error_type: error.name || 'UnknownError'
+    });
+
+    this.logger.error(`History operation error: ${operation}`, {
+      correlationId: context.correlationId,
+      error: error.message,
+      stack: error.stack
+    });
+  }
+}
@@ -0,0 +1,608 @@
+/**
+ * @fileoverview Task import service reading CSV and JSON files into project tasks
+ * @version 1.0.0
+ * @module services/import
+ */
+
+// External imports with versions
+import { injectable, inject } from 'inversify'; // v6.0.1
+import { Counter, Histogram } from 'prom-client'; // v14.x
+import { Logger } from 'winston'; // v3.x
+import { UUID, randomUUID } from 'crypto';
+
+// Internal imports
+import {
+  ITaskImport,
+  ITaskImportFile,
+  ITaskImportRowError,
+  ITaskImportService,
+  ITaskImportUpload,
+  ITaskImportValidation,
+  IMapTaskImportDTO,
+  TaskImportMapping,
+  TaskImportRow
+} from '../interfaces/import.interface';
+import { ICreateTaskDTO, ITaskContext, TaskError, Result } from '../interfaces/task.interface';
+import { IWorkflowState } from '../interfaces/workflow.interface';
+import { TaskImportRepository, ITaskImportProgress } from '../repositories/import.repository';
+import { ProjectRepository } from '../repositories/project.repository';
+import { MembershipRepository } from '../repositories/membership.repository';
+import { WorkflowRepository } from '../repositories/workflow.repository';
+import { MembershipService } from '../services/membership.service';
+import { TaskService } from '../services/task.service';
+import { WebSocketService } from '../services/websocket.service';
+import { WebSocketEventType, ImportProgressPayload } from '../websocket/types';
+import { TaskImportField, TaskImportStatus } from '../types/import.types';
+import { ProjectRole } from '../types/project.types';
+import {
+  IMPORT_SAMPLE_ROWS,
+  ImportLookups,
+  TaskImportFileError,
+  checkImportMapping,
+  mapImportRow,
+  parseImportFile,
+  suggestImportMapping
+} from '../utils/import.util';
+import { validateTaskInput } from '../api/validators';
+import { TYPES } from '../config/types';
+
+// Constants
+const MAX_REPORTED_ERRORS = 200;
+const PROGRESS_INTERVAL_ROWS = 25;
+
+// Task attributes reported under the import field the user mapped instead
+const TASK_FIELD_TO_IMPORT_FIELD: Record<string, TaskImportField> = {
+  assigneeId: TaskImportField.ASSIGNEE_EMAIL
+};
+
+type Failure = { success: false; error: TaskError };
+
+/**
+ * A row ready to be created, or the reasons it cannot be
+ */
+type PreparedRow =
+  | { valid: true; task: ICreateTaskDTO }
+  | { valid: false; errors: Record<string, string[]> };
+
+/**
+ * Task import service; importing requires the CONTRIBUTOR project role. An upload is
+ * parsed and kept as a pending import whose mapping can be validated as often as
+ * needed; committing it creates the tasks of the valid rows in the background through
+ * the task service, announcing the progress with PROJECT_UPDATE messages.
+ */
+@injectable()
+export class TaskImportService implements ITaskImportService {
+  // Metrics
+  private readonly importOperationHistogram: Histogram;
+  private readonly importErrorCounter: Counter;
+  private readonly importedRowsCounter: Counter;
+
+  constructor(
+    @inject(TYPES.TaskImportRepository) private readonly importRepository: TaskImportRepository,
+    @inject(TYPES.ProjectRepository) private readonly projectRepository: ProjectRepository,
+    @inject(TYPES.MembershipRepository) private readonly membershipRepository: MembershipRepository,
+    @inject(TYPES.WorkflowRepository) private readonly workflowRepository: WorkflowRepository,
+    @inject(TYPES.MembershipService) private readonly membershipService: MembershipService,
+    @inject(TYPES.TaskService) private readonly taskService: TaskService,
+    @inject(TYPES.WebSocketService) private readonly webSocketService: WebSocketService,
+    @inject(TYPES.Logger) private readonly logger: Logger,
+    @inject(TYPES.MetricsClient) private readonly metricsClient: any
+  ) {
+    // Initialize metrics
+    this.importOperationHistogram = new this.metricsClient.Histogram({
+      name: 'task_import_operation_duration_seconds',
+      help: 'Duration of task import operations',
+      labelNames: ['operation']
+    });
+
+    this.importErrorCounter = new this.metricsClient.Counter({
+      name: 'task_import_operation_errors_total',
+      help: 'Total number of task import operation errors',
+      labelNames: ['operation', 'error_type']
+    });
+
+    this.importedRowsCounter = new this.metricsClient.Counter({
+      name: 'task_import_rows_total',
+      help: 'Total number of imported rows by outcome',
+      labelNames: ['outcome']
+    });
+  }
+
+  /**
+   * Reads an uploaded file and stores its rows until the import is committed
+   * @param projectId Project identifier
+   * @param file Uploaded file
+   * @param context Operation context
+   * @returns Import with a suggested mapping and sample rows, or error
+   */
+  async createImport(
+    projectId: UUID,
+    file: ITaskImportFile,
+    context: ITaskContext
+  ): Promise<Result<ITaskImportUpload, TaskError>> {
+    const timer = this.importOperationHistogram.startTimer({ operation: 'create' });
+
+    try {
+      const accessError = await this.checkAccess(projectId, context);
+      if (accessError) {
+        timer({ success: 'false' });
+        return accessError;
+      }
+
+      let parsed;
+      try {
+        parsed = parseImportFile(file);
+      } catch (error) {
+        if (error instanceof TaskImportFileError) {
+          timer({ success: 'false' });
+          return this.failure('VALIDATION_ERROR', error.message);
+        }
+        throw error;
+      }
+
+      const taskImport = await this.importRepository.create(projectId, file.fileName, parsed, context.userId);
+
+      this.logger.info('Task import uploaded', {
+        correlationId: context.correlationId,
+        projectId,
+        importId: taskImport.id,
+        format: parsed.format,
+        rows: parsed.rows.length
+      });
+
+      timer({ success: 'true' });
+      return {
+        success: true,
+        data: {
+          import: taskImport,
+          suggestedMapping: suggestImportMapping(parsed.columns),
+          sampleRows: parsed.rows.slice(0, IMPORT_SAMPLE_ROWS)
+        }
+      };
+
+    } catch (error) {
+      this.handleOperationError('create', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves an import with its progress
+   * @param projectId Project identifier
+   * @param importId Import identifier
+   * @param context Operation context
+   * @returns Import or error
+   */
+  async getImport(
+    projectId: UUID,
+    importId: UUID,
+    context: ITaskContext
+  ): Promise<Result<ITaskImport, TaskError>> {
+    const timer = this.importOperationHistogram.startTimer({ operation: 'get' });
+
+    try {
+      const taskImport = await this.findImport(projectId, importId, context);
+
+      timer({ success: taskImport.success ? 'true' : 'false' });
+      return taskImport;
+
+    } catch (error) {
+      this.handleOperationError('get', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Maps and validates every row without creating tasks, keeping the mapping for the commit
+   * @param projectId Project identifier
+   * @param importId Import identifier
+   * @param data Column mapping
+   * @param context Operation context
+   * @returns Counts of valid and invalid rows with the errors found, or error
+   */
+  async validateImport(
+    projectId: UUID,
+    importId: UUID,
+    data: IMapTaskImportDTO,
+    context: ITaskContext
+  ): Promise<Result<ITaskImportValidation, TaskError>> {
+    const timer = this.importOperationHistogram.startTimer({ operation: 'validate' });
+
+    try {
+      const taskImport = await this.findPendingImport(projectId, importId, data.mapping, context);
+      if (!taskImport.success) {
+        timer({ success: 'false' });
+        return taskImport;
+      }
+
+      const rows = await this.importRepository.findRows(importId);
+      const prepared = await this.prepareRows(projectId, rows, data.mapping);
+
+      const errors: ITaskImportRowError[] = [];
+      let validCount = 0;
+      prepared.forEach((row, index) => {
+        if (row.valid) {
+          validCount++;
+        } else if (errors.length < MAX_REPORTED_ERRORS) {
+          errors.push({ row: index + 1, errors: row.errors });
+        }
+      });
+
+      await this.importRepository.updateMapping(importId, data.mapping);
+
+      timer({ success: 'true' });
+      return {
+        success: true,
+        data: { validCount, invalidCount: prepared.length - validCount, errors }
+      };
+
+    } catch (error) {
+      this.handleOperationError('validate', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Starts creating the tasks of the valid rows in the background; invalid rows are
+   * skipped and listed among the errors of the import
+   * @param projectId Project identifier
+   * @param importId Import identifier
+   * @param data Column mapping
+   * @param context Operation context
+   * @returns Running import or error
+   */
+  async commitImport(
+    projectId: UUID,
+    importId: UUID,
+    data: IMapTaskImportDTO,
+    context: ITaskContext
+  ): Promise<Result<ITaskImport, TaskError>> {
+    const timer = this.importOperationHistogram.startTimer({ operation: 'commit' });
+
+    try {
+      const taskImport = await this.findPendingImport(projectId, importId, data.mapping, context);
+      if (!taskImport.success) {
+        timer({ success: 'false' });
+        return taskImport;
+      }
+
+      // Only one of concurrent commits gets to start the job
+      const started = await this.importRepository.start(importId, data.mapping);
+      if (!started) {
+        timer({ success: 'false' });
+        return this.failure('IMPORT_STARTED', `Import ${importId} has already been committed`);
+      }
+
+      this.logger.info('Task import started', {
+        correlationId: context.correlationId,
+        projectId,
+        importId,
+        rows: started.totalRows
+      });
+
+      void this.runImport(started, data.mapping, context.userId);
+
+      timer({ success: 'true' });
+      return { success: true, data: started };
+
+    } catch (error) {
+      this.handleOperationError('commit', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Creates the tasks of a started import row by row, recording and announcing progress
+   * as it goes; never throws, marking the import FAILED instead
+   * @private
+   */
+  private async runImport(taskImport: ITaskImport, mapping: TaskImportMapping, userId: UUID): Promise<void> {
+    const context = this.buildJobContext(taskImport, userId);
+    const progress: ITaskImportProgress = { processedRows: 0, createdCount: 0, failedCount: 0, errors: [] };
+
+    const recordFailure = (row: number, errors: Record<string, string[]>): void => {
+      progress.failedCount++;
+      if (progress.errors.length < MAX_REPORTED_ERRORS) {
+        progress.errors.push({ row, errors });
+      }
+    };
+
+    try {
+      const rows = await this.importRepository.findRows(taskImport.id);
+      const prepared = await this.prepareRows(taskImport.projectId, rows, mapping);
+
+      for (const [index, row] of prepared.entries()) {
+        if (row.valid) {
+          const created = await this.taskService.createTask(row.task, context);
+          if (created.success) {
+            progress.createdCount++;
+          } else {
+            recordFailure(index + 1, { [created.error?.code ?? 'ERROR']: [created.error?.message ?? 'Task not created'] });
+          }
+        } else {
+          recordFailure(index + 1, row.errors);
+        }
+
+        progress.processedRows++;
+        if (progress.processedRows % PROGRESS_INTERVAL_ROWS === 0 && progress.processedRows < prepared.length) {
+          await this.importRepository.updateProgress(taskImport.id, progress);
+          await this.broadcastProgress(taskImport, TaskImportStatus.RUNNING, progress, userId);
+        }
+      }
+
+      await this.finishImport(taskImport, TaskImportStatus.COMPLETED, progress, userId);
+
+    } catch (error) {
+      this.handleOperationError('run', error, context);
+
+      try {
+        await this.finishImport(taskImport, TaskImportStatus.FAILED, progress, userId);
+      } catch (finishError) {
+        this.logger.error('Failed to mark task import as failed', {
+          importId: taskImport.id,
+          error: (finishError as Error).message
+        });
+      }
+    }
+  }
+
+  /**
+   * Records the end of an import and announces it
+   * @private
+   */
+  private async finishImport(
+    taskImport: ITaskImport,
+    status: TaskImportStatus,
+    progress: ITaskImportProgress,
+    userId: UUID
+  ): Promise<void> {
+    await this.importRepository.finish(taskImport.id, status, progress);
+
+    this.importedRowsCounter.inc({ outcome: 'created' }, progress.createdCount);
+    this.importedRowsCounter.inc({ outcome: 'failed' }, progress.failedCount);
+
+    this.logger.info('Task import finished', {
+      importId: taskImport.id,
+      projectId: taskImport.projectId,
+      status,
+      created: progress.createdCount,
+      failed: progress.failedCount
+    });
+
+    await this.broadcastProgress(taskImport, status, progress, userId);
+  }
+
+  /**
+   * Maps every row and validates it with the rules of task creation requests
+   * @private
+   */
+  private async prepareRows(
+    projectId: UUID,
+    rows: TaskImportRow[],
+    mapping: TaskImportMapping
+  ): Promise<PreparedRow[]> {
+    const { lookups, states } = await this.loadLookups(projectId);
+
+    const prepared: PreparedRow[] = [];
+    for (const row of rows) {
+      const mapped = mapImportRow(row, mapping, lookups);
+      const errors = { ...mapped.errors };
+
+      // Values the mapping already rejected are not reported a second time
+      const fieldErrors = await validateTaskInput(mapped.task);
+      Object.entries(fieldErrors).forEach(([field, messages]) => {
+        const key = TASK_FIELD_TO_IMPORT_FIELD[field] ?? field;
+        if (!errors[key]) {
+          errors[key] = messages;
+        }
+      });
+
+      if (Object.keys(errors).length > 0) {
+        prepared.push({ valid: false, errors });
+        continue;
+      }
+
+      const state = mapped.status ? states.get(mapped.status) : undefined;
+      const { dueDate, ...task } = mapped.task;
+      prepared.push({
+        valid: true,
+        task: {
+          ...(task as unknown as ICreateTaskDTO),
+          ...(dueDate ? { dueDate: new Date(dueDate as string) } : {}),
+          ...(mapped.tags.length > 0 ? { tags: mapped.tags } : {}),
+          ...(state ? { initialState: { key: state.key, category: state.category } } : {})
+        }
+      });
+    }
+
+    return prepared;
+  }
+
+  /**
+   * Loads the workflow states and member emails rows are resolved against
+   * @private
+   */
+  private async loadLookups(
+    projectId: UUID
+  ): Promise<{ lookups: ImportLookups; states: Map<string, IWorkflowState> }> {
+    const [workflow, members] = await Promise.all([
+      this.workflowRepository.findByProject(projectId),
+      this.membershipRepository.findByProject(projectId)
+    ]);
+
+    const memberIds = new Map<string, UUID>();
+    members.forEach(member => {
+      if (member.user?.email) {
+        memberIds.set(member.user.email.toLowerCase(), member.userId);
+      }
+    });
+
+    return {
+      lookups: {
+        projectId,
+        states: workflow.states.map(state => ({ key: state.key, name: state.name })),
+        memberIds
+      },
+      states: new Map(workflow.states.map(state => [state.key, state]))
+    };
+  }
+
+  /**
+   * Announces the progress of an import with a PROJECT_UPDATE message
+   * @private
+   */
+  private async broadcastProgress(
+    taskImport: ITaskImport,
+    status: TaskImportStatus,
+    progress: ITaskImportProgress,
+    userId: UUID
+  ): Promise<void> {
+    const payload: ImportProgressPayload = {
+      projectId: taskImport.projectId,
+      importId: taskImport.id,
+      status,
+      totalRows: taskImport.totalRows,
+      processedRows: progress.processedRows,
+      createdCount: progress.createdCount,
+      failedCount: progress.failedCount,
+      startedBy: userId
+    };
+
+    try {
+      await this.webSocketService.broadcast({
+        type: WebSocketEventType.PROJECT_UPDATE,
+        payload,
+        timestamp: new Date(),
+        messageId: randomUUID() as UUID
+      });
+    } catch (error) {
+      this.logger.error('Failed to broadcast task import progress', {
+        importId: taskImport.id,
+        error: (error as Error).message
+      });
+    }
+  }
+
+  /**
+   * Loads an import that can still be validated or committed, and checks the mapping
+   * against its columns
+   * @private
+   */
+  private async findPendingImport(
+    projectId: UUID,
+    importId: UUID,
+    mapping: TaskImportMapping,
+    context: ITaskContext
+  ): Promise<{ success: true; data: ITaskImport } | Failure> {
+    const taskImport = await this.findImport(projectId, importId, context);
+    if (!taskImport.success) {
+      return taskImport;
+    }
+
+    if (taskImport.data.status !== TaskImportStatus.PENDING) {
+      return this.failure('IMPORT_STARTED', `Import ${importId} has already been committed`);
+    }
+
+    const mappingError = checkImportMapping(mapping, taskImport.data.columns);
+    if (mappingError) {
+      return this.failure('VALIDATION_ERROR', mappingError, { mapping });
+    }
+
+    return taskImport;
+  }
+
+  /**
+   * Checks access and loads an import of the project
+   * @private
+   */
+  private async findImport(
+    projectId: UUID,
+    importId: UUID,
+    context: ITaskContext
+  ): Promise<{ success: true; data: ITaskImport } | Failure> {
+    const accessError = await this.checkAccess(projectId, context);
+    if (accessError) {
+      return accessError;
+    }
+
+    const taskImport = await this.importRepository.findById(projectId, importId);
+    if (!taskImport) {
+      return this.failure('NOT_FOUND', `Import ${importId} not found`);
+    }
+
+    return { success: true, data: taskImport };
+  }
+
+  /**
+   * Checks that the project exists and the caller may create tasks in it; projects the
+   * caller cannot see at all are reported as missing rather than forbidden
+   * @private
+   */
+  private async checkAccess(projectId: UUID, context: ITaskContext): Promise<Failure | null> {
+    const project = await this.projectRepository.findById(projectId);
+    if (!project || !await this.membershipService.hasAccess(projectId, ProjectRole.VIEWER, context)) {
+      return this.failure('NOT_FOUND', `Project ${projectId} not found`);
+    }
+
+    if (!await this.membershipService.hasAccess(projectId, ProjectRole.CONTRIBUTOR, context)) {
+      return this.failure('FORBIDDEN', `Importing tasks requires the ${ProjectRole.CONTRIBUTOR} project role`);
+    }
+
+    return null;
+  }
+
+  /**
+   * Builds the context tasks are created with on behalf of the user who committed the import
+   * @private
+   */
+  private buildJobContext(taskImport: ITaskImport, userId: UUID): ITaskContext {
+    return {
+      userId,
+      correlationId: `import-${taskImport.id}`,
+      requestId: randomUUID(),
+      includeSoftDeleted: false,
+      telemetry: {
+        operationStart: new Date(),
+        operationName: 'runImport',
+        metrics: {},
+        tags: { importId: taskImport.id }
+      }
+    };
+  }
+
+  /**
+   * Builds a failure result
+   * @private
+   */
+  private failure(code: string, message: string, details?: Record<string, unknown>): Failure {
+    return {
+      success: false,
+      error: { code, message, details }
+    };
+  }
+
+  /**
+   * Handles and logs operation errors
+   * @private
+   */
+  private handleOperationError(
+    operation: string,
+    error: any,
+    context: ITaskContext
+  ): void {
+    this.importErrorCounter.inc({
+      operation,
+      error_type: error.name || 'UnknownError'
+    });
+
+    this.logger.error(`Task import operation error: ${operation}`, {
+      correlationId: context.correlationId,
+      error: error.message,
+      stack: error.stack
+    });
+  }
+}
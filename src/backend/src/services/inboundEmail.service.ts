@@ -0,0 +1,439 @@
+/**
+ * @fileoverview Inbound email service creating tasks and comments from received messages
+ * @version 1.0.0
+ * @module services/inboundEmail
+ */
+
+// External imports with versions
+import { injectable, inject } from 'inversify'; // v6.0.1
+import { Counter, Histogram } from 'prom-client'; // v14.x
+import { Logger } from 'winston'; // v3.x
+import { UUID, randomUUID } from 'crypto';
+
+// Internal imports
+import {
+  IInboundEmailMessage,
+  IInboundEmailResult,
+  IInboundEmailService
+} from '../interfaces/inboundEmail.interface';
+import { ITaskContext, TaskError, Result } from '../interfaces/task.interface';
+import { IUploadedFile } from '../interfaces/attachment.interface';
+import {
+  InboundEmailRepository,
+  IInboundEmailSender,
+  InboundEmailRecord
+} from '../repositories/inboundEmail.repository';
+import { TaskService } from './task.service';
+import { CommentService } from './comment.service';
+import { AttachmentService } from './attachment.service';
+import { MembershipService } from './membership.service';
+import { PermissionService } from './permission.service';
+import { InboundEmailStatus, InboundEmailAction } from '../types/inboundEmail.types';
+import { Permission } from '../types/permission.types';
+import { ProjectRole } from '../types/project.types';
+import { TaskPriority } from '../types/task.types';
+import {
+  MAX_INBOUND_ATTACHMENTS,
+  extractReplyText,
+  getMessageKey,
+  hasFailedSenderAuthentication,
+  parseInboundEmail,
+  resolveInboundTarget,
+  toTaskTitle
+} from '../utils/inboundEmail.util';
+import { emailConfig } from '../config/email.config';
+import { TYPES } from '../config/types';
+
+type Failure = { success: false; error: TaskError };
+
+// Longest rejection reason kept in the log
+const MAX_ERROR_LENGTH = 500;
+
+// Longest subject kept in the log, the longest header line RFC 5322 allows
+const MAX_SUBJECT_LENGTH = 998;
+
+/**
+ * Inbound email service. A message sent to a project address creates a task in the
+ * project, and a reply to a notification email becomes a comment on its task. Messages
+ * are processed on behalf of the user with the sender's address, through the task,
+ * comment and attachment services, so that the sender's permissions and project role
+ * apply as in the app; messages from unknown senders are rejected.
+ */
+@injectable()
+export class InboundEmailService implements IInboundEmailService {
+  // Metrics
+  private readonly inboundEmailHistogram: Histogram;
+  private readonly inboundEmailErrorCounter: Counter;
+  private readonly inboundEmailCounter: Counter;
+
+  constructor(
+    @inject(TYPES.InboundEmailRepository) private readonly inboundEmailRepository: InboundEmailRepository,
+    @inject(TYPES.TaskService) private readonly taskService: TaskService,
+    @inject(TYPES.CommentService) private readonly commentService: CommentService,
+    @inject(TYPES.AttachmentService) private readonly attachmentService: AttachmentService,
+    @inject(TYPES.MembershipService) private readonly membershipService: MembershipService,
+    @inject(TYPES.PermissionService) private readonly permissionService: PermissionService,
+    @inject(TYPES.Logger) private readonly logger: Logger,
+    @inject(TYPES.MetricsClient) private readonly metricsClient: any
+  ) {
+    // Initialize metrics
+    this.inboundEmailHistogram = new this.metricsClient.Histogram({
+      name: 'inbound_email_operation_duration_seconds',
+      help: 'Duration of inbound email operations',
+      labelNames: ['operation']
+    });
+
+    this.inboundEmailErrorCounter = new this.metricsClient.Counter({
+      name: 'inbound_email_operation_errors_total',
+      help: 'Total number of inbound email operation errors',
+      labelNames: ['operation', 'error_type']
+    });
+
+    this.inboundEmailCounter = new this.metricsClient.Counter({
+      name: 'inbound_emails_total',
+      help: 'Total number of received messages by outcome',
+      labelNames: ['status']
+    });
+  }
+
+  /**
+   * Creates a task from a message sent to a project address, or a comment from a reply
+   * to a notification email. A message that was processed before is not processed again,
+   * so the mail server may safely post it twice; rejected messages are logged and may be
+   * posted again.
+   * @param raw Raw RFC 822 message
+   * @param correlationId Request correlation identifier
+   * @returns What the message created or why it was rejected
+   */
+  async receive(raw: Buffer, correlationId: string): Promise<Result<IInboundEmailResult, TaskError>> {
+    const timer = this.inboundEmailHistogram.startTimer({ operation: 'receive' });
+
+    try {
+      let message: IInboundEmailMessage;
+      try {
+        message = await parseInboundEmail(raw);
+      } catch (error) {
+        timer({ success: 'false' });
+        return this.failure('VALIDATION_ERROR', 'Message is not a valid RFC 822 message', {
+          reason: (error as Error).message
+        });
+      }
+
+      const messageKey = getMessageKey(message, raw);
+      const logged = await this.inboundEmailRepository.findByMessageKey(messageKey);
+
+      if (logged?.status === InboundEmailStatus.PROCESSED && logged.action && logged.taskId) {
+        this.logger.info('Inbound email already processed', {
+          correlationId,
+          inboundEmailId: logged.id
+        });
+
+        timer({ success: 'true' });
+        return {
+          success: true,
+          data: {
+            id: logged.id,
+            action: logged.action,
+            taskId: logged.taskId,
+            commentId: logged.commentId,
+            attachments: { uploaded: 0, failed: [] },
+            duplicate: true
+          }
+        };
+      }
+
+      const result = await this.process(message, messageKey, correlationId);
+
+      this.inboundEmailCounter.inc({ status: result.success ? 'processed' : 'rejected' });
+      timer({ success: String(result.success) });
+      return result;
+
+    } catch (error) {
+      this.handleOperationError('receive', error, correlationId);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Resolves the target and sender of a message and creates its task or comment
+   * @private
+   */
+  private async process(
+    message: IInboundEmailMessage,
+    messageKey: string,
+    correlationId: string
+  ): Promise<Result<IInboundEmailResult, TaskError>> {
+    const record: InboundEmailRecord = {
+      sender: message.from,
+      subject: message.subject.slice(0, MAX_SUBJECT_LENGTH),
+      status: InboundEmailStatus.REJECTED,
+      action: null,
+      projectId: null,
+      taskId: null,
+      commentId: null,
+      userId: null,
+      error: null
+    };
+
+    const target = resolveInboundTarget(message, emailConfig.inbound.domain);
+    if (!target) {
+      return this.reject(messageKey, record, correlationId, this.failure(
+        'NOT_FOUND',
+        'No recipient is a project or reply address'
+      ));
+    }
+
+    if (target.type === 'project') {
+      record.projectId = target.projectId;
+    } else {
+      record.taskId = target.taskId;
+    }
+
+    const sender = message.from && !hasFailedSenderAuthentication(message.headers)
+      ? await this.inboundEmailRepository.findSender(message.from)
+      : null;
+
+    if (!sender) {
+      return this.reject(messageKey, record, correlationId, this.failure(
+        'UNKNOWN_SENDER',
+        'Sender is not a user of the system'
+      ));
+    }
+
+    record.userId = sender.id;
+    const context = this.buildSenderContext(sender, correlationId);
+    const permissions = await this.permissionService.getPermissionsForRole(sender.role);
+
+    if (target.type === 'project') {
+      if (!permissions.includes(Permission.TASK_CREATE)) {
+        return this.reject(messageKey, record, correlationId, this.failure(
+          'FORBIDDEN',
+          'Sender is not allowed to create tasks'
+        ));
+      }
+
+      const task = await this.taskService.createTask({
+        title: toTaskTitle(message.subject),
+        description: message.text.trim() || undefined,
+        priority: TaskPriority.MEDIUM,
+        projectId: target.projectId,
+        metadata: { source: 'email', messageKey }
+      }, context);
+
+      if (!task.success || !task.data) {
+        return this.reject(messageKey, record, correlationId, task as Failure);
+      }
+
+      record.action = InboundEmailAction.TASK_CREATED;
+      record.taskId = task.data.id;
+    } else {
+      if (!permissions.includes(Permission.COMMENT_WRITE)) {
+        return this.reject(messageKey, record, correlationId, this.failure(
+          'FORBIDDEN',
+          'Sender is not allowed to comment'
+        ));
+      }
+
+      // Reply tokens are not secret from forwarded mail, so the sender must see the task
+      const projectId = await this.inboundEmailRepository.findTaskProjectId(target.taskId);
+      if (!projectId || !await this.membershipService.hasAccess(projectId, ProjectRole.VIEWER, context)) {
+        return this.reject(messageKey, record, correlationId, this.failure(
+          'NOT_FOUND',
+          'Task not found'
+        ));
+      }
+
+      record.projectId = projectId;
+
+      const content = extractReplyText(message.text);
+      if (!content) {
+        return this.reject(messageKey, record, correlationId, this.failure(
+          'VALIDATION_ERROR',
+          'Reply contains no text above the quoted message'
+        ));
+      }
+
+      const comment = await this.commentService.createComment(target.taskId, { content }, context);
+      if (!comment.success || !comment.data) {
+        return this.reject(messageKey, record, correlationId, comment as Failure);
+      }
+
+      record.action = InboundEmailAction.COMMENT_CREATED;
+      record.commentId = comment.data.id;
+    }
+
+    const attachments = await this.uploadAttachments(message, record.taskId as UUID, permissions, context);
+
+    record.status = InboundEmailStatus.PROCESSED;
+    const saved = await this.inboundEmailRepository.save(messageKey, record);
+
+    this.logger.info('Inbound email processed', {
+      correlationId,
+      inboundEmailId: saved.id,
+      action: record.action,
+      taskId: record.taskId,
+      attachmentsFailed: attachments.failed.length
+    });
+
+    return {
+      success: true,
+      data: {
+        id: saved.id,
+        action: record.action as InboundEmailAction,
+        taskId: record.taskId as UUID,
+        commentId: record.commentId,
+        attachments,
+        duplicate: false
+      }
+    };
+  }
+
+  /**
+   * Uploads the attachments of a message to its task. Failed files do not reject the
+   * message, since its task or comment exists by now; they are reported instead.
+   * @private
+   */
+  private async uploadAttachments(
+    message: IInboundEmailMessage,
+    taskId: UUID,
+    permissions: Permission[],
+    context: ITaskContext
+  ): Promise<IInboundEmailResult['attachments']> {
+    if (message.attachments.length === 0) {
+      return { uploaded: 0, failed: [] };
+    }
+
+    if (!permissions.includes(Permission.ATTACHMENT_WRITE)) {
+      return {
+        uploaded: 0,
+        failed: message.attachments.map(attachment => ({
+          fileName: attachment.fileName,
+          error: 'Sender is not allowed to upload attachments'
+        }))
+      };
+    }
+
+    const accepted = message.attachments.slice(0, MAX_INBOUND_ATTACHMENTS);
+    const skipped = message.attachments.slice(MAX_INBOUND_ATTACHMENTS).map(attachment => ({
+      fileName: attachment.fileName,
+      error: `No more than ${MAX_INBOUND_ATTACHMENTS} attachments are taken from a message`
+    }));
+
+    const files: IUploadedFile[] = accepted.map(attachment => ({
+      originalname: attachment.fileName,
+      mimetype: attachment.mimeType,
+      size: attachment.size,
+      buffer: attachment.content
+    }));
+
+    try {
+      const result = await this.attachmentService.uploadAttachments(taskId, files, context);
+
+      if (!result.success || !result.data) {
+        return {
+          uploaded: 0,
+          failed: [
+            ...accepted.map(attachment => ({
+              fileName: attachment.fileName,
+              error: result.error?.message ?? 'Upload failed'
+            })),
+            ...skipped
+          ]
+        };
+      }
+
+      return {
+        uploaded: result.data.successful.length,
+        failed: [...result.data.failed, ...skipped]
+      };
+    } catch (error) {
+      this.handleOperationError('uploadAttachments', error, context.correlationId);
+      return {
+        uploaded: 0,
+        failed: [
+          ...accepted.map(attachment => ({ fileName: attachment.fileName, error: 'Upload failed' })),
+          ...skipped
+        ]
+      };
+    }
+  }
+
+  /**
+   * Logs a rejected message and returns the failure
+   * @private
+   */
+  private async reject(
+    messageKey: string,
+    record: InboundEmailRecord,
+    correlationId: string,
+    failure: Failure
+  ): Promise<Failure> {
+    await this.inboundEmailRepository.save(messageKey, {
+      ...record,
+      status: InboundEmailStatus.REJECTED,
+      error: failure.error.message.slice(0, MAX_ERROR_LENGTH)
+    });
+
+    this.logger.warn('Inbound email rejected', {
+      correlationId,
+      sender: record.sender,
+      code: failure.error.code,
+      reason: failure.error.message
+    });
+
+    return failure;
+  }
+
+  /**
+   * Builds the context messages are processed in on behalf of their sender
+   * @private
+   */
+  private buildSenderContext(sender: IInboundEmailSender, correlationId: string): ITaskContext {
+    return {
+      userId: sender.id,
+      userRole: sender.role,
+      correlationId,
+      requestId: randomUUID(),
+      includeSoftDeleted: false,
+      telemetry: {
+        operationStart: new Date(),
+        operationName: 'receiveInboundEmail',
+        metrics: {},
+        tags: { source: 'email' }
+      }
+    };
+  }
+
+  /**
+   * Builds a failure result
+   * @private
+   */
+  private failure(code: string, message: string, details?: Record<string, unknown>): Failure {
+    return {
+      success: false,
+      error: { code, message, details }
+    };
+  }
+
+  /**
+   * Handles and logs operation errors
+   * @private
+   */
+  private handleOperationError(
+    operation: string,
+    error: any,
+    correlationId?: string
+  ): void {
+    this.inboundEmailErrorCounter.inc({
+      operation,
+      error_type: error.name || 'UnknownError'
+    });
+
+    this.logger.error(`Inbound email operation error: ${operation}`, {
+      correlationId,
+      error: error.message,
+      stack: error.stack
+    });
+  }
+}
@@ -5,9 +5,29 @@
  */
 
 // Core service exports
+export { AttachmentService } from './attachment.service';
 export { AuthService } from './auth.service';
+export { CalendarService } from './calendar.service';
+export { ChecklistService } from './checklist.service';
+export { CommentService } from './comment.service';
+export { CustomFieldService } from './customField.service';
+export { TaskDependencyService } from './dependency.service';
+export { HistoryService } from './history.service';
+export { TaskImportService } from './import.service';
+export { InboundEmailService } from './inboundEmail.service';
+export { MembershipService } from './membership.service';
+export { MilestoneService } from './milestone.service';
+export { NotificationService } from './notification.service';
+export { PermissionService } from './permission.service';
 export { TaskService } from './task.service';
 export { ProjectService } from './project.service';
+export { RecurrenceService } from './recurrence.service';
+export { SavedViewService } from './savedView.service';
+export { SearchService } from './search.service';
+export { SprintService } from './sprint.service';
+export { WebhookService } from './webhook.service';
+export { WorkflowService } from './workflow.service';
+export { WorklogService } from './worklog.service';
 
 // Infrastructure service exports
 export { CacheService } from './cache.service';
@@ -69,12 +89,147 @@ export type {
   ICreateTaskDTO,
   IUpdateTaskDTO,
   ITaskQueryParams,
+  IBulkUpdateTasksDTO,
+  IBulkUpdateResult,
 } from '../interfaces/task.interface';
 
+export type {
+  IAttachmentService,
+  IAttachment,
+  IAttachmentUploadResult,
+  IUploadedFile,
+} from '../interfaces/attachment.interface';
+
+export type {
+  ICalendarService,
+  ICalendarFeed,
+  ICalendarFeedToken,
+  ICalendarFeedOptions,
+} from '../interfaces/calendar.interface';
+
+export type {
+  IChecklistService,
+  IChecklistItem,
+  ICreateChecklistItemDTO,
+  IUpdateChecklistItemDTO,
+} from '../interfaces/checklist.interface';
+
+export type {
+  ICommentService,
+  IComment,
+  ICommentQueryParams,
+} from '../interfaces/comment.interface';
+
+export type {
+  ICustomFieldService,
+  ICustomField,
+  ICreateCustomFieldDTO,
+  IUpdateCustomFieldDTO,
+} from '../interfaces/customField.interface';
+
+export type {
+  ITaskDependencyService,
+  ITaskDependency,
+  ITaskDependencies,
+} from '../interfaces/dependency.interface';
+
+export type {
+  IHistoryService,
+  IChangeHistoryEntry,
+  IHistoryQueryParams,
+} from '../interfaces/history.interface';
+
+export type {
+  IInboundEmailService,
+  IInboundEmail,
+  IInboundEmailResult,
+} from '../interfaces/inboundEmail.interface';
+
+export type {
+  IMembershipService,
+  IProjectMember,
+  IAddProjectMemberDTO,
+} from '../interfaces/membership.interface';
+
+export type {
+  IMilestoneService,
+  IMilestone,
+  ICreateMilestoneDTO,
+  IUpdateMilestoneDTO,
+} from '../interfaces/milestone.interface';
+
+export type {
+  INotificationService,
+  INotification,
+  INotificationQueryParams,
+  INotificationPaginatedResponse,
+} from '../interfaces/notification.interface';
+
+export type {
+  IPermissionService,
+  IRolePermissions,
+  IEffectivePermissions,
+  IUpdateRolePermissionsDTO,
+} from '../interfaces/permission.interface';
+
+export type {
+  IRecurrenceService,
+  ITaskRecurrence,
+  IRecurrenceRuleDTO,
+} from '../interfaces/recurrence.interface';
+
+export type {
+  ISavedViewService,
+  ISavedView,
+  ICreateSavedViewDTO,
+  IUpdateSavedViewDTO,
+} from '../interfaces/savedView.interface';
+
+export type {
+  ISearchService,
+  ISearchHit,
+  ISearchQueryDTO,
+  ISearchResult,
+} from '../interfaces/search.interface';
+
 export type {
   IProjectService,
   IProject,
   ICreateProjectDTO,
   IUpdateProjectDTO,
   IProjectQueryParams,
-} from '../interfaces/project.interface';
\ No newline at end of file
+} from '../interfaces/project.interface';
+
+export type {
+  ISprintService,
+  ISprint,
+  ISprintBurndown,
+  ISprintCloseResult,
+  ICreateSprintDTO,
+  IUpdateSprintDTO,
+  ICloseSprintDTO,
+} from '../interfaces/sprint.interface';
+
+export type {
+  IWebhookService,
+  IWebhook,
+  IWebhookDelivery,
+  ICreateWebhookDTO,
+  IUpdateWebhookDTO,
+} from '../interfaces/webhook.interface';
+
+export type {
+  IWorkflowService,
+  IWorkflow,
+  IWorkflowState,
+  IUpdateWorkflowDTO,
+} from '../interfaces/workflow.interface';
+
+export type {
+  IWorklogService,
+  IWorklog,
+  ITimer,
+  ICreateWorklogDTO,
+  IUpdateWorklogDTO,
+  IStartTimerDTO,
+} from '../interfaces/worklog.interface';
@@ -0,0 +1,335 @@
+/**
+ * @fileoverview Project membership service managing per-project roles and membership-based access
+ * @version 1.0.0
+ * @module services/membership
+ */
+
+// External imports with versions
+import { injectable, inject } from 'inversify'; // v6.0.1
+import Redis from 'ioredis'; // v5.x
+import { Counter, Histogram } from 'prom-client'; // v14.x
+import { Logger } from 'winston'; // v3.x
+import { UUID } from 'crypto';
+
+// Internal imports
+import {
+  IProjectMember,
+  IMembershipService,
+  IAddProjectMemberDTO
+} from '../interfaces/membership.interface';
+import { ITaskContext, TaskError, Result } from '../interfaces/task.interface';
+import { MembershipRepository } from '../repositories/membership.repository';
+import { ProjectRepository } from '../repositories/project.repository';
+import { UserRepository } from '../repositories/user.repository';
+import { ProjectRole } from '../types/project.types';
+import { hasProjectRole, isMembershipRestricted } from '../utils/membership.util';
+import { TYPES } from '../config/types';
+
+// Cache key of a project, which embeds its members
+const PROJECT_CACHE_KEY = (projectId: UUID) => `project:${projectId}`;
+
+type Failure = { success: false; error: TaskError };
+
+/**
+ * Membership service; OWNER and MANAGER members manage the member list, and only
+ * owners may grant or revoke ownership. A project always keeps at least one owner.
+ */
+@injectable()
+export class MembershipService implements IMembershipService {
+  // Metrics
+  private readonly membershipOperationHistogram: Histogram;
+  private readonly membershipErrorCounter: Counter;
+
+  constructor(
+    @inject(TYPES.MembershipRepository) private readonly membershipRepository: MembershipRepository,
+    @inject(TYPES.ProjectRepository) private readonly projectRepository: ProjectRepository,
+    @inject(TYPES.UserRepository) private readonly userRepository: UserRepository,
+    @inject(TYPES.RedisClient) private readonly redisClient: Redis,
+    @inject(TYPES.Logger) private readonly logger: Logger,
+    @inject(TYPES.MetricsClient) private readonly metricsClient: any
+  ) {
+    // Initialize metrics
+    this.membershipOperationHistogram = new this.metricsClient.Histogram({
+      name: 'project_membership_operation_duration_seconds',
+      help: 'Duration of project membership operations',
+      labelNames: ['operation']
+    });
+
+    this.membershipErrorCounter = new this.metricsClient.Counter({
+      name: 'project_membership_operation_errors_total',
+      help: 'Total number of project membership operation errors',
+      labelNames: ['operation', 'error_type']
+    });
+  }
+
+  /**
+   * Lists the current members of a project
+   * @param projectId Project identifier
+   * @param context Operation context
+   * @returns Members or error
+   */
+  async listMembers(
+    projectId: UUID,
+    context: ITaskContext
+  ): Promise<Result<IProjectMember[], TaskError>> {
+    const timer = this.membershipOperationHistogram.startTimer({ operation: 'list' });
+
+    try {
+      const projectError = await this.ensureVisibleProject(projectId, context);
+      if (projectError) {
+        timer({ success: 'false' });
+        return projectError;
+      }
+
+      const members = await this.membershipRepository.findByProject(projectId);
+
+      timer({ success: 'true' });
+      return { success: true, data: members };
+
+    } catch (error) {
+      this.handleOperationError('list', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Adds a member to a project, or updates the role of an existing member
+   * @param projectId Project identifier
+   * @param data Member and role
+   * @param context Operation context
+   * @returns Membership or error
+   */
+  async addMember(
+    projectId: UUID,
+    data: IAddProjectMemberDTO,
+    context: ITaskContext
+  ): Promise<Result<IProjectMember, TaskError>> {
+    const timer = this.membershipOperationHistogram.startTimer({ operation: 'add' });
+
+    try {
+      const projectError = await this.ensureVisibleProject(projectId, context);
+      if (projectError) {
+        timer({ success: 'false' });
+        return projectError;
+      }
+
+      const user = await this.userRepository.findById(data.userId);
+      if (!user) {
+        timer({ success: 'false' });
+        return this.notFound('User', data.userId);
+      }
+
+      const existing = await this.membershipRepository.findMembership(projectId, data.userId);
+
+      // Ownership is granted and taken away by owners only
+      const touchesOwnership = data.role === ProjectRole.OWNER || existing?.role === ProjectRole.OWNER;
+      const required = touchesOwnership ? ProjectRole.OWNER : ProjectRole.MANAGER;
+      if (!await this.hasAccess(projectId, required, context)) {
+        timer({ success: 'false' });
+        return this.forbidden(`Adding members with this role requires the ${required} project role`);
+      }
+
+      if (existing?.role === ProjectRole.OWNER && data.role !== ProjectRole.OWNER) {
+        const ownerError = await this.ensureAnotherOwner(projectId);
+        if (ownerError) {
+          timer({ success: 'false' });
+          return ownerError;
+        }
+      }
+
+      const member = await this.membershipRepository.upsert(
+        projectId,
+        data.userId,
+        data.role,
+        context.userId
+      );
+      await this.redisClient.del(PROJECT_CACHE_KEY(projectId));
+
+      this.logger.info('Project member saved', {
+        correlationId: context.correlationId,
+        projectId,
+        userId: data.userId,
+        role: data.role
+      });
+
+      timer({ success: 'true' });
+      return { success: true, data: member };
+
+    } catch (error) {
+      this.handleOperationError('add', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Removes a member from a project; members may always remove themselves
+   * @param projectId Project identifier
+   * @param userId Member to remove
+   * @param context Operation context
+   * @returns Void result or error
+   */
+  async removeMember(
+    projectId: UUID,
+    userId: UUID,
+    context: ITaskContext
+  ): Promise<Result<void, TaskError>> {
+    const timer = this.membershipOperationHistogram.startTimer({ operation: 'remove' });
+
+    try {
+      const projectError = await this.ensureVisibleProject(projectId, context);
+      if (projectError) {
+        timer({ success: 'false' });
+        return projectError;
+      }
+
+      const member = await this.membershipRepository.findMembership(projectId, userId);
+      if (!member) {
+        timer({ success: 'false' });
+        return this.notFound('Member', userId);
+      }
+
+      const required = member.role === ProjectRole.OWNER ? ProjectRole.OWNER : ProjectRole.MANAGER;
+      if (userId !== context.userId && !await this.hasAccess(projectId, required, context)) {
+        timer({ success: 'false' });
+        return this.forbidden(`Removing this member requires the ${required} project role`);
+      }
+
+      if (member.role === ProjectRole.OWNER) {
+        const ownerError = await this.ensureAnotherOwner(projectId);
+        if (ownerError) {
+          timer({ success: 'false' });
+          return ownerError;
+        }
+      }
+
+      await this.membershipRepository.remove(projectId, userId);
+      await this.redisClient.del(PROJECT_CACHE_KEY(projectId));
+
+      this.logger.info('Project member removed', {
+        correlationId: context.correlationId,
+        projectId,
+        userId
+      });
+
+      timer({ success: 'true' });
+      return { success: true };
+
+    } catch (error) {
+      this.handleOperationError('remove', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Resolves the projects the caller may see; null when access is not limited by membership
+   * @param context Operation context
+   * @returns Project identifiers or null
+   */
+  async getAccessibleProjectIds(context: ITaskContext): Promise<UUID[] | null> {
+    if (!isMembershipRestricted(context.userRole)) {
+      return null;
+    }
+
+    return await this.membershipRepository.findProjectIds(context.userId);
+  }
+
+  /**
+   * Checks that the caller holds at least the given role in a project
+   * @param projectId Project identifier
+   * @param required Minimum project role
+   * @param context Operation context
+   * @returns Whether access is granted
+   */
+  async hasAccess(projectId: UUID, required: ProjectRole, context: ITaskContext): Promise<boolean> {
+    if (!isMembershipRestricted(context.userRole)) {
+      return true;
+    }
+
+    const membership = await this.membershipRepository.findMembership(projectId, context.userId);
+    return hasProjectRole(membership?.role, required);
+  }
+
+  /**
+   * Checks that the project exists and the caller can see it; projects outside the
+   * caller's memberships are reported as missing rather than forbidden
+   * @private
+   */
+  private async ensureVisibleProject(projectId: UUID, context: ITaskContext): Promise<Failure | null> {
+    const project = await this.projectRepository.findById(projectId);
+    if (!project || !await this.hasAccess(projectId, ProjectRole.VIEWER, context)) {
+      return this.notFound('Project', projectId);
+    }
+
+    return null;
+  }
+
+  /**
+   * Rejects changes that would leave the project without an owner
+   * @private
+   */
+  private async ensureAnotherOwner(projectId: UUID): Promise<Failure | null> {
+    if (await this.membershipRepository.countOwners(projectId) <= 1) {
+      return {
+        success: false,
+        error: {
+          code: 'CONFLICT',
+          message: 'A project must keep at least one owner'
+        }
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Builds a NOT_FOUND failure
+   * @private
+   */
+  private notFound(entity: string, id: UUID): Failure {
+    return {
+      success: false,
+      error: {
+        code: 'NOT_FOUND',
+        message: `${entity} ${id} not found`
+      }
+    };
+  }
+
+  /**
+   * Builds a FORBIDDEN failure
+   * @private
+   */
+  private forbidden(message: string): Failure {
+    return {
+      success: false,
+      error: {
+        code: 'FORBIDDEN',
+        message
+      }
+    };
+  }
+
+  /**
+   * Handles and logs operation errors
+   * @private
+   */
+  private handleOperationError(
+    operation: string,
+    error: any,
+    context: ITaskContext
+  ): void {
+    this.membershipErrorCounter.inc({
+      operation,
+      error_type: error.name || 'UnknownError'
+    });
+
+    this.logger.error(`Membership operation error: ${operation}`, {
+      correlationId: context.correlationId,
+      error: error.message,
+      stack: error.stack
+    });
+  }
+}
@@ -0,0 +1,530 @@
+/**
+ * @fileoverview Milestone service managing project milestones and keeping their status current
+ * @version 1.0.0
+ * @module services/milestone
+ */
+
+// External imports with versions
+import { injectable, inject } from 'inversify'; // v6.0.1
+import { Counter, Histogram } from 'prom-client'; // v14.x
+import { Logger } from 'winston'; // v3.x
+import { UUID, randomUUID } from 'crypto';
+
+// Internal imports
+import {
+  IMilestone,
+  IMilestoneService,
+  ICreateMilestoneDTO,
+  IUpdateMilestoneDTO
+} from '../interfaces/milestone.interface';
+import { ITaskContext, TaskError, Result } from '../interfaces/task.interface';
+import { MilestoneRepository, IMilestoneStatusInput } from '../repositories/milestone.repository';
+import { ProjectRepository } from '../repositories/project.repository';
+import { MembershipService } from '../services/membership.service';
+import { WebSocketService } from '../services/websocket.service';
+import { WebSocketEventType, MilestoneStatusPayload } from '../websocket/types';
+import { MilestoneStatus } from '../types/milestone.types';
+import { ProjectRole } from '../types/project.types';
+import { MilestoneTaskState, MAX_MILESTONE_TASKS, computeMilestoneStatus } from '../utils/milestone.util';
+import { TYPES } from '../config/types';
+
+// Constants
+const SCHEDULER_INTERVAL_MS = 15 * 60 * 1000; // 15 minutes
+const SCHEDULER_BATCH_SIZE = 100;
+
+type Failure = { success: false; error: TaskError };
+
+/**
+ * Milestone service; any member may read milestones, while changing them requires the
+ * MANAGER project role. Status changes caused by task updates are applied right away,
+ * those caused by the passing of time by a periodic job; both announce the change with
+ * a PROJECT_UPDATE message.
+ */
+@injectable()
+export class MilestoneService implements IMilestoneService {
+  // Metrics
+  private readonly milestoneOperationHistogram: Histogram;
+  private readonly milestoneErrorCounter: Counter;
+  private readonly statusChangeCounter: Counter;
+
+  // Scheduler state
+  private schedulerInterval: NodeJS.Timeout | null = null;
+  private isRefreshing = false;
+
+  constructor(
+    @inject(TYPES.MilestoneRepository) private readonly milestoneRepository: MilestoneRepository,
+    @inject(TYPES.ProjectRepository) private readonly projectRepository: ProjectRepository,
+    @inject(TYPES.MembershipService) private readonly membershipService: MembershipService,
+    @inject(TYPES.WebSocketService) private readonly webSocketService: WebSocketService,
+    @inject(TYPES.Logger) private readonly logger: Logger,
+    @inject(TYPES.MetricsClient) private readonly metricsClient: any
+  ) {
+    // Initialize metrics
+    this.milestoneOperationHistogram = new this.metricsClient.Histogram({
+      name: 'milestone_operation_duration_seconds',
+      help: 'Duration of milestone operations',
+      labelNames: ['operation']
+    });
+
+    this.milestoneErrorCounter = new this.metricsClient.Counter({
+      name: 'milestone_operation_errors_total',
+      help: 'Total number of milestone operation errors',
+      labelNames: ['operation', 'error_type']
+    });
+
+    this.statusChangeCounter = new this.metricsClient.Counter({
+      name: 'milestone_status_changes_total',
+      help: 'Total number of milestone status changes',
+      labelNames: ['status']
+    });
+  }
+
+  /**
+   * Starts the periodic job catching milestones that became at risk or missed
+   * @param intervalMs Time between runs
+   */
+  start(intervalMs: number = SCHEDULER_INTERVAL_MS): void {
+    this.stop();
+
+    this.schedulerInterval = setInterval(async () => {
+      // Skip a tick rather than overlap with a run that is still going
+      if (this.isRefreshing) return;
+
+      this.isRefreshing = true;
+      try {
+        await this.refreshUnsettled();
+      } catch (error) {
+        this.logger.error('Milestone scheduler run failed', { error: (error as Error).message });
+      } finally {
+        this.isRefreshing = false;
+      }
+    }, intervalMs);
+
+    this.logger.info('Milestone scheduler started', { intervalMs });
+  }
+
+  /**
+   * Stops the periodic job
+   */
+  stop(): void {
+    if (this.schedulerInterval) {
+      clearInterval(this.schedulerInterval);
+      this.schedulerInterval = null;
+    }
+  }
+
+  /**
+   * Lists the milestones of a project by date
+   * @param projectId Project identifier
+   * @param context Operation context
+   * @returns Milestones or error
+   */
+  async listMilestones(
+    projectId: UUID,
+    context: ITaskContext
+  ): Promise<Result<IMilestone[], TaskError>> {
+    const timer = this.milestoneOperationHistogram.startTimer({ operation: 'list' });
+
+    try {
+      const accessError = await this.checkAccess(projectId, ProjectRole.VIEWER, context);
+      if (accessError) {
+        timer({ success: 'false' });
+        return accessError;
+      }
+
+      const milestones = await this.milestoneRepository.findByProject(projectId);
+
+      timer({ success: 'true' });
+      return { success: true, data: milestones };
+
+    } catch (error) {
+      this.handleOperationError('list', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves a milestone of a project
+   * @param projectId Project identifier
+   * @param milestoneId Milestone identifier
+   * @param context Operation context
+   * @returns Milestone or error
+   */
+  async getMilestone(
+    projectId: UUID,
+    milestoneId: UUID,
+    context: ITaskContext
+  ): Promise<Result<IMilestone, TaskError>> {
+    const timer = this.milestoneOperationHistogram.startTimer({ operation: 'get' });
+
+    try {
+      const milestone = await this.findMilestone(projectId, milestoneId, context, ProjectRole.VIEWER);
+
+      timer({ success: milestone.success ? 'true' : 'false' });
+      return milestone;
+
+    } catch (error) {
+      this.handleOperationError('get', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Creates a milestone
+   * @param projectId Project identifier
+   * @param data Milestone attributes
+   * @param context Operation context
+   * @returns Created milestone or error
+   */
+  async createMilestone(
+    projectId: UUID,
+    data: ICreateMilestoneDTO,
+    context: ITaskContext
+  ): Promise<Result<IMilestone, TaskError>> {
+    const timer = this.milestoneOperationHistogram.startTimer({ operation: 'create' });
+
+    try {
+      const accessError = await this.checkAccess(projectId, ProjectRole.MANAGER, context);
+      if (accessError) {
+        timer({ success: 'false' });
+        return accessError;
+      }
+
+      const tasks = await this.loadLinkedTasks(projectId, data.taskIds ?? []);
+      if (!tasks.success) {
+        timer({ success: 'false' });
+        return tasks;
+      }
+
+      const status = computeMilestoneStatus(new Date(data.dueDate), tasks.data);
+      const milestone = await this.milestoneRepository.create(projectId, data, status, context.userId);
+
+      this.logger.info('Milestone created', {
+        correlationId: context.correlationId,
+        projectId,
+        milestoneId: milestone.id,
+        status
+      });
+
+      timer({ success: 'true' });
+      return { success: true, data: milestone };
+
+    } catch (error) {
+      this.handleOperationError('create', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Changes a milestone or replaces its linked tasks, announcing a resulting status change
+   * @param projectId Project identifier
+   * @param milestoneId Milestone identifier
+   * @param data Changed attributes
+   * @param context Operation context
+   * @returns Updated milestone or error
+   */
+  async updateMilestone(
+    projectId: UUID,
+    milestoneId: UUID,
+    data: IUpdateMilestoneDTO,
+    context: ITaskContext
+  ): Promise<Result<IMilestone, TaskError>> {
+    const timer = this.milestoneOperationHistogram.startTimer({ operation: 'update' });
+
+    try {
+      const milestone = await this.findMilestone(projectId, milestoneId, context);
+      if (!milestone.success) {
+        timer({ success: 'false' });
+        return milestone;
+      }
+
+      const tasks = await this.loadLinkedTasks(projectId, data.taskIds ?? milestone.data.taskIds);
+      if (!tasks.success) {
+        timer({ success: 'false' });
+        return tasks;
+      }
+
+      const status = computeMilestoneStatus(new Date(data.dueDate ?? milestone.data.dueDate), tasks.data);
+      const updated = await this.milestoneRepository.update(milestoneId, data, status);
+
+      this.logger.info('Milestone updated', {
+        correlationId: context.correlationId,
+        projectId,
+        milestoneId
+      });
+
+      if (status !== milestone.data.status) {
+        await this.announceStatusChange(updated, milestone.data.status, context.correlationId);
+      }
+
+      timer({ success: 'true' });
+      return { success: true, data: updated };
+
+    } catch (error) {
+      this.handleOperationError('update', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Removes a milestone; linked tasks are kept
+   * @param projectId Project identifier
+   * @param milestoneId Milestone identifier
+   * @param context Operation context
+   * @returns Void result or error
+   */
+  async deleteMilestone(
+    projectId: UUID,
+    milestoneId: UUID,
+    context: ITaskContext
+  ): Promise<Result<void, TaskError>> {
+    const timer = this.milestoneOperationHistogram.startTimer({ operation: 'delete' });
+
+    try {
+      const milestone = await this.findMilestone(projectId, milestoneId, context);
+      if (!milestone.success) {
+        timer({ success: 'false' });
+        return milestone;
+      }
+
+      await this.milestoneRepository.delete(milestoneId);
+
+      this.logger.info('Milestone deleted', {
+        correlationId: context.correlationId,
+        projectId,
+        milestoneId
+      });
+
+      timer({ success: 'true' });
+      return { success: true };
+
+    } catch (error) {
+      this.handleOperationError('delete', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Recomputes the status of the milestones a task is linked to after the task changed.
+   * Failures are logged rather than thrown, so they never fail the task update itself.
+   * @param taskId Task identifier
+   * @param context Operation context
+   */
+  async refreshTaskMilestones(taskId: UUID, context: ITaskContext): Promise<void> {
+    try {
+      const milestones = await this.milestoneRepository.findStatusInputsByTask(taskId);
+      for (const milestone of milestones) {
+        await this.refreshStatus(milestone, context.correlationId);
+      }
+    } catch (error) {
+      this.handleOperationError('refresh', error, context);
+    }
+  }
+
+  /**
+   * Recomputes the status of every milestone that may have become at risk or missed
+   * since the last run
+   * @returns Number of milestones whose status changed
+   */
+  async refreshUnsettled(): Promise<number> {
+    let changed = 0;
+    let afterId: UUID | undefined;
+
+    for (;;) {
+      const batch = await this.milestoneRepository.findUnsettled(SCHEDULER_BATCH_SIZE, afterId);
+
+      for (const milestone of batch) {
+        try {
+          if (await this.refreshStatus(milestone, null)) {
+            changed++;
+          }
+        } catch (error) {
+          this.logger.error('Failed to refresh milestone status', {
+            milestoneId: milestone.id,
+            error: (error as Error).message
+          });
+        }
+      }
+
+      if (batch.length < SCHEDULER_BATCH_SIZE) break;
+      afterId = batch[batch.length - 1].id;
+    }
+
+    return changed;
+  }
+
+  /**
+   * Stores and announces the status of a milestone if it changed
+   * @private
+   */
+  private async refreshStatus(
+    milestone: IMilestoneStatusInput,
+    correlationId: string | null
+  ): Promise<boolean> {
+    const status = computeMilestoneStatus(new Date(milestone.dueDate), milestone.tasks);
+    if (status === milestone.status) {
+      return false;
+    }
+
+    // Another instance may have applied the same change already
+    if (!await this.milestoneRepository.setStatus(milestone.id, milestone.status, status)) {
+      return false;
+    }
+
+    await this.announceStatusChange({ ...milestone, status }, milestone.status, correlationId);
+    return true;
+  }
+
+  /**
+   * Broadcasts a PROJECT_UPDATE message for a milestone status change; delivery
+   * failures are logged, as the change itself is already stored
+   * @private
+   */
+  private async announceStatusChange(
+    milestone: Pick<IMilestone, 'id' | 'projectId' | 'name' | 'dueDate' | 'status'>,
+    previousStatus: MilestoneStatus,
+    correlationId: string | null
+  ): Promise<void> {
+    this.statusChangeCounter.inc({ status: milestone.status });
+
+    this.logger.info('Milestone status changed', {
+      correlationId,
+      projectId: milestone.projectId,
+      milestoneId: milestone.id,
+      previousStatus,
+      status: milestone.status
+    });
+
+    const payload: MilestoneStatusPayload = {
+      projectId: milestone.projectId,
+      milestoneId: milestone.id,
+      name: milestone.name,
+      dueDate: milestone.dueDate,
+      status: milestone.status,
+      previousStatus,
+      changedAt: new Date()
+    };
+
+    try {
+      await this.webSocketService.broadcast({
+        type: WebSocketEventType.PROJECT_UPDATE,
+        payload,
+        timestamp: new Date(),
+        messageId: randomUUID() as UUID
+      });
+    } catch (error) {
+      this.logger.error('Failed to broadcast milestone status change', {
+        correlationId,
+        milestoneId: milestone.id,
+        error: (error as Error).message
+      });
+    }
+  }
+
+  /**
+   * Loads the state of the tasks to link, all of which must be active tasks of the project
+   * @private
+   */
+  private async loadLinkedTasks(
+    projectId: UUID,
+    taskIds: UUID[]
+  ): Promise<{ success: true; data: MilestoneTaskState[] } | Failure> {
+    const unique = [...new Set(taskIds)];
+    if (unique.length > MAX_MILESTONE_TASKS) {
+      return this.failure('VALIDATION_ERROR', `A milestone can link at most ${MAX_MILESTONE_TASKS} tasks`);
+    }
+
+    const tasks = await this.milestoneRepository.findTaskStates(projectId, unique);
+    if (tasks.length !== unique.length) {
+      const found = new Set(tasks.map(task => task.id));
+      return this.failure('VALIDATION_ERROR', 'Linked tasks must be active tasks of the project', {
+        taskIds: unique.filter(taskId => !found.has(taskId))
+      });
+    }
+
+    return { success: true, data: tasks };
+  }
+
+  /**
+   * Checks access with the given project role, MANAGER by default, and loads a milestone
+   * of the project
+   * @private
+   */
+  private async findMilestone(
+    projectId: UUID,
+    milestoneId: UUID,
+    context: ITaskContext,
+    required: ProjectRole = ProjectRole.MANAGER
+  ): Promise<{ success: true; data: IMilestone } | Failure> {
+    const accessError = await this.checkAccess(projectId, required, context);
+    if (accessError) {
+      return accessError;
+    }
+
+    const milestone = await this.milestoneRepository.findById(projectId, milestoneId);
+    if (!milestone) {
+      return this.failure('NOT_FOUND', `Milestone ${milestoneId} not found`);
+    }
+
+    return { success: true, data: milestone };
+  }
+
+  /**
+   * Checks that the project exists and the caller holds the required project role;
+   * projects the caller cannot see at all are reported as missing rather than forbidden
+   * @private
+   */
+  private async checkAccess(
+    projectId: UUID,
+    required: ProjectRole,
+    context: ITaskContext
+  ): Promise<Failure | null> {
+    const project = await this.projectRepository.findById(projectId);
+    if (!project || !await this.membershipService.hasAccess(projectId, ProjectRole.VIEWER, context)) {
+      return this.failure('NOT_FOUND', `Project ${projectId} not found`);
+    }
+
+    if (!await this.membershipService.hasAccess(projectId, required, context)) {
+      return this.failure('FORBIDDEN', `Changing milestones requires the ${required} project role`);
+    }
+
+    return null;
+  }
+
+  /**
+   * Builds a failure result
+   * @private
+   */
+  private failure(code: string, message: string, details?: Record<string, unknown>): Failure {
+    return {
+      success: false,
+      error: { code, message, details }
+    };
+  }
+
+  /**
+   * Handles and logs operation errors
+   * @private
+   */
+  private handleOperationError(
+    operation: string,
+    error: any,
+    context: ITaskContext
+  ): void {
+    this.milestoneErrorCounter.inc({
+      operation,
+      error_type: error.name || 'UnknownError'
+    });
+
+    this.logger.error(`Milestone operation error: ${operation}`, {
+      correlationId: context.correlationId,
+      error: error.message,
+      stack: error.stack
+    });
+  }
+}
@@ -0,0 +1,404 @@
+/**
+ * @fileoverview Notification service keeping in-app notifications and pushing them to their recipients
+ * @version 1.0.0
+ * @module services/notification
+ */
+
+// External imports with versions
+import { injectable, inject } from 'inversify'; // v6.0.1
+import { Counter, Histogram } from 'prom-client'; // v14.x
+import { Logger } from 'winston'; // v3.x
+import { UUID, randomUUID } from 'crypto';
+
+// Internal imports
+import {
+  INotification,
+  INotificationService,
+  ICreateNotificationDTO,
+  ITaskNotificationChange,
+  INotificationQueryParams,
+  INotificationPaginatedResponse,
+  NotificationComment,
+  NotificationTask
+} from '../interfaces/notification.interface';
+import { ITaskContext, TaskError, Result } from '../interfaces/task.interface';
+import { NotificationRepository } from '../repositories/notification.repository';
+import { WebSocketService } from '../services/websocket.service';
+import { WebSocketEventType, NotificationPayload } from '../websocket/types';
+import {
+  DUE_SOON_WINDOW_MS,
+  buildCommentNotifications,
+  buildDueSoonNotification,
+  buildTaskNotifications
+} from '../utils/notification.util';
+import { TYPES } from '../config/types';
+
+// Constants
+const SCHEDULER_INTERVAL_MS = 15 * 60 * 1000; // 15 minutes
+const SCHEDULER_BATCH_SIZE = 100;
+
+type Failure = { success: false; error: TaskError };
+
+/**
+ * Notification service. Notifications are stored per recipient, so that what happened
+ * while a user was offline is waiting for them, and pushed to the recipient's open
+ * connections as NOTIFICATION_NEW messages. Users only receive notifications about
+ * projects they can see. Due-soon reminders are sent by a periodic job.
+ */
+@injectable()
+export class NotificationService implements INotificationService {
+  // Metrics
+  private readonly notificationOperationHistogram: Histogram;
+  private readonly notificationErrorCounter: Counter;
+  private readonly notificationSentCounter: Counter;
+
+  // Scheduler state
+  private schedulerInterval: NodeJS.Timeout | null = null;
+  private isRunning = false;
+
+  constructor(
+    @inject(TYPES.NotificationRepository) private readonly notificationRepository: NotificationRepository,
+    @inject(TYPES.WebSocketService) private readonly webSocketService: WebSocketService,
+    @inject(TYPES.Logger) private readonly logger: Logger,
+    @inject(TYPES.MetricsClient) private readonly metricsClient: any
+  ) {
+    // Initialize metrics
+    this.notificationOperationHistogram = new this.metricsClient.Histogram({
+      name: 'notification_operation_duration_seconds',
+      help: 'Duration of notification operations',
+      labelNames: ['operation']
+    });
+
+    this.notificationErrorCounter = new this.metricsClient.Counter({
+      name: 'notification_operation_errors_total',
+      help: 'Total number of notification operation errors',
+      labelNames: ['operation', 'error_type']
+    });
+
+    this.notificationSentCounter = new this.metricsClient.Counter({
+      name: 'notifications_sent_total',
+      help: 'Total number of notifications created by type',
+      labelNames: ['type']
+    });
+  }
+
+  /**
+   * Starts the periodic job sending due-soon reminders
+   * @param intervalMs Time between runs
+   */
+  start(intervalMs: number = SCHEDULER_INTERVAL_MS): void {
+    this.stop();
+
+    this.schedulerInterval = setInterval(async () => {
+      // Skip a tick rather than overlap with a run that is still going
+      if (this.isRunning) return;
+
+      this.isRunning = true;
+      try {
+        await this.notifyDueSoon();
+      } catch (error) {
+        this.logger.error('Notification scheduler run failed', { error: (error as Error).message });
+      } finally {
+        this.isRunning = false;
+      }
+    }, intervalMs);
+
+    this.logger.info('Notification scheduler started', { intervalMs });
+  }
+
+  /**
+   * Stops the periodic job
+   */
+  stop(): void {
+    if (this.schedulerInterval) {
+      clearInterval(this.schedulerInterval);
+      this.schedulerInterval = null;
+    }
+  }
+
+  /**
+   * Lists the caller's notifications, newest first, with their unread count
+   * @param params Filter and pagination parameters
+   * @param context Operation context
+   * @returns Page of notifications
+   */
+  async listNotifications(
+    params: INotificationQueryParams,
+    context: ITaskContext
+  ): Promise<Result<INotificationPaginatedResponse, TaskError>> {
+    const timer = this.notificationOperationHistogram.startTimer({ operation: 'list' });
+
+    try {
+      const [{ items, total }, unreadCount] = await Promise.all([
+        this.notificationRepository.findByUser(context.userId, params),
+        this.notificationRepository.countUnread(context.userId)
+      ]);
+
+      timer({ success: 'true' });
+      return {
+        success: true,
+        data: {
+          items,
+          total,
+          page: params.page,
+          limit: params.limit,
+          hasMore: params.page * params.limit < total,
+          unreadCount
+        }
+      };
+
+    } catch (error) {
+      this.handleOperationError('list', error, context.correlationId);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Marks one of the caller's notifications as read; marking it again keeps the first read time
+   * @param notificationId Notification identifier
+   * @param context Operation context
+   * @returns Notification or error
+   */
+  async markRead(notificationId: UUID, context: ITaskContext): Promise<Result<INotification, TaskError>> {
+    const timer = this.notificationOperationHistogram.startTimer({ operation: 'mark_read' });
+
+    try {
+      const notification = await this.notificationRepository.markRead(notificationId, context.userId);
+      if (!notification) {
+        timer({ success: 'false' });
+        return this.failure('NOT_FOUND', 'Notification not found');
+      }
+
+      timer({ success: 'true' });
+      return { success: true, data: notification };
+
+    } catch (error) {
+      this.handleOperationError('mark_read', error, context.correlationId);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Marks all of the caller's notifications as read
+   * @param context Operation context
+   * @returns Number of notifications marked
+   */
+  async markAllRead(context: ITaskContext): Promise<Result<{ updated: number }, TaskError>> {
+    const timer = this.notificationOperationHistogram.startTimer({ operation: 'mark_all_read' });
+
+    try {
+      const updated = await this.notificationRepository.markAllRead(context.userId);
+
+      this.logger.info('Notifications marked as read', {
+        correlationId: context.correlationId,
+        userId: context.userId,
+        updated
+      });
+
+      timer({ success: 'true' });
+      return { success: true, data: { updated } };
+
+    } catch (error) {
+      this.handleOperationError('mark_all_read', error, context.correlationId);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Stores notifications for the recipients that can see their project and pushes them
+   * over WebSocket; never fails the caller's operation
+   * @param notifications Notifications to create
+   */
+  async notify(notifications: ICreateNotificationDTO[]): Promise<void> {
+    if (notifications.length === 0) return;
+
+    const timer = this.notificationOperationHistogram.startTimer({ operation: 'notify' });
+
+    try {
+      await this.deliver(notifications);
+      timer({ success: 'true' });
+
+    } catch (error) {
+      this.handleOperationError('notify', error);
+      timer({ success: 'false' });
+    }
+  }
+
+  /**
+   * Tells the assignee and creator of a task about its assignment or status change
+   * @param task Task after the change
+   * @param change What changed
+   * @param actorId User who made the change
+   */
+  async notifyTaskChange(task: NotificationTask, change: ITaskNotificationChange, actorId: UUID): Promise<void> {
+    await this.notify(buildTaskNotifications(task, change, actorId));
+  }
+
+  /**
+   * Tells the users mentioned in a comment, and the author of the comment it replies to
+   * @param comment Created comment
+   * @param mentions Mentioned users
+   * @param parentAuthorId Author of the parent comment of a reply
+   */
+  async notifyComment(
+    comment: NotificationComment,
+    mentions: UUID[],
+    parentAuthorId: UUID | null
+  ): Promise<void> {
+    if (mentions.length === 0 && !parentAuthorId) return;
+
+    try {
+      const task = await this.notificationRepository.findTaskSummary(comment.taskId);
+      if (!task) return;
+
+      await this.notify(buildCommentNotifications(comment, task, mentions, parentAuthorId));
+
+    } catch (error) {
+      this.handleOperationError('notify_comment', error);
+    }
+  }
+
+  /**
+   * Reminds assignees of the open tasks that become due within the reminder window. A
+   * reminder is sent once per assignee and due date, so moving a task's due date or
+   * reassigning it reminds again.
+   * @param now Current time
+   * @returns Number of reminders sent
+   */
+  async notifyDueSoon(now: Date = new Date()): Promise<number> {
+    const until = new Date(now.getTime() + DUE_SOON_WINDOW_MS);
+    let sent = 0;
+    let afterId: UUID | undefined;
+
+    for (;;) {
+      const batch = await this.notificationRepository.findDueTasks(now, until, SCHEDULER_BATCH_SIZE, afterId);
+      if (batch.length === 0) break;
+
+      const reminders = batch.map(task => buildDueSoonNotification(task, task.dueDate));
+      const existing = await this.notificationRepository.findByDedupeKeys(
+        reminders.map(reminder => reminder.dedupeKey as string)
+      );
+      const sentKeys = new Set(existing.map(entry => `${entry.userId}|${entry.dedupeKey}`));
+
+      sent += await this.deliver(
+        reminders.filter(reminder => !sentKeys.has(`${reminder.userId}|${reminder.dedupeKey}`))
+      );
+
+      if (batch.length < SCHEDULER_BATCH_SIZE) break;
+      afterId = batch[batch.length - 1].id;
+    }
+
+    if (sent > 0) {
+      this.logger.info('Due-soon reminders sent', { sent });
+    }
+
+    return sent;
+  }
+
+  /**
+   * Stores and pushes the notifications whose recipients can see the project
+   * @private
+   */
+  private async deliver(notifications: ICreateNotificationDTO[]): Promise<number> {
+    const recipientsByProject = new Map<UUID | undefined, Set<UUID>>();
+
+    for (const projectId of new Set(notifications.map(notification => notification.projectId))) {
+      const userIds = [...new Set(
+        notifications.filter(n => n.projectId === projectId).map(n => n.userId)
+      )];
+      const recipients = await this.notificationRepository.findRecipients(userIds, projectId);
+      recipientsByProject.set(projectId, new Set(recipients));
+    }
+
+    let created = 0;
+    for (const data of notifications) {
+      if (!recipientsByProject.get(data.projectId)?.has(data.userId)) continue;
+
+      const notification = await this.notificationRepository.create(data);
+      this.notificationSentCounter.inc({ type: notification.type });
+      created++;
+
+      await this.push(notification);
+    }
+
+    return created;
+  }
+
+  /**
+   * Sends a stored notification to the recipient's open connections; a recipient without
+   * one sees it when they next load their notifications
+   * @private
+   */
+  private async push(notification: INotification): Promise<void> {
+    try {
+      const unreadCount = await this.notificationRepository.countUnread(notification.userId);
+
+      await this.webSocketService.sendToUser(notification.userId, {
+        type: WebSocketEventType.NOTIFICATION_NEW,
+        payload: this.toPayload(notification, unreadCount),
+        timestamp: new Date(),
+        messageId: randomUUID() as UUID
+      });
+    } catch (error) {
+      this.logger.error('Failed to push notification', {
+        notificationId: notification.id,
+        userId: notification.userId,
+        error: (error as Error).message
+      });
+    }
+  }
+
+  /**
+   * Maps a notification to the NOTIFICATION_NEW WebSocket payload
+   * @private
+   */
+  private toPayload(notification: INotification, unreadCount: number): NotificationPayload {
+    return {
+      notificationId: notification.id,
+      type: notification.type,
+      title: notification.title,
+      message: notification.message,
+      taskId: notification.taskId,
+      projectId: notification.projectId,
+      commentId: notification.commentId,
+      actorId: notification.actorId,
+      createdAt: notification.createdAt,
+      unreadCount
+    };
+  }
+
+  /**
+   * Builds a failed result
+   * @private
+   */
+  private failure(code: string, message: string, details?: Record<string, unknown>): Failure {
+    return {
+      success: false,
+      error: { code, message, details }
+    };
+  }
+
+  /**
+   * Handles and logs operation errors
+   * @private
+   */
+  private handleOperationError(
+    operation: string,
+    error: any,
+    correlationId?: string
+  ): void {
+    this.notificationErrorCounter.inc({
+      operation,
+      error_type: error.name || 'UnknownError'
+    });
+
+    this.logger.error(`Notification operation error: ${operation}`, {
+      correlationId,
+      error: error.message,
+      stack: error.stack
+    });
+  }
+}
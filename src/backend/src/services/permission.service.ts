@@ -0,0 +1,257 @@
+/**
+ * @fileoverview Permission service managing the runtime-editable role to permission mapping
+ * @version 1.0.0
+ * @module services/permission
+ */
+
+// External imports with versions
+import { injectable, inject } from 'inversify'; // v6.0.1
+import Redis from 'ioredis'; // v5.x
+import { Counter, Histogram } from 'prom-client'; // v14.x
+import { Logger } from 'winston'; // v3.x
+
+// Internal imports
+import {
+  IPermissionService,
+  IRolePermissions,
+  IEffectivePermissions,
+  IUpdateRolePermissionsDTO
+} from '../interfaces/permission.interface';
+import { ITaskContext, TaskError, Result } from '../interfaces/task.interface';
+import { PermissionRepository } from '../repositories/permission.repository';
+import { Permission, PermissionDefinition, RolePermissionMap } from '../types/permission.types';
+import { UserRole } from '../types/user.types';
+import {
+  PERMISSION_DEFINITIONS,
+  DEFAULT_ROLE_PERMISSIONS,
+  LOCKED_PERMISSIONS,
+  isPermission
+} from '../utils/permission.util';
+import { TYPES } from '../config/types';
+
+// Cache configuration
+const ROLE_PERMISSIONS_CACHE_KEY = 'permissions:roles';
+const CACHE_TTL = 300; // 5 minutes
+
+/**
+ * Permission service; the stored mapping is cached in Redis and every route guard
+ * resolves role permissions through it, so edits apply without a restart
+ */
+@injectable()
+export class PermissionService implements IPermissionService {
+  // Metrics
+  private readonly permissionOperationHistogram: Histogram;
+  private readonly permissionErrorCounter: Counter;
+
+  constructor(
+    @inject(TYPES.PermissionRepository) private readonly permissionRepository: PermissionRepository,
+    @inject(TYPES.RedisClient) private readonly redisClient: Redis,
+    @inject(TYPES.Logger) private readonly logger: Logger,
+    @inject(TYPES.MetricsClient) private readonly metricsClient: any
+  ) {
+    // Initialize metrics
+    this.permissionOperationHistogram = new this.metricsClient.Histogram({
+      name: 'permission_operation_duration_seconds',
+      help: 'Duration of permission operations',
+      labelNames: ['operation']
+    });
+
+    this.permissionErrorCounter = new this.metricsClient.Counter({
+      name: 'permission_operation_errors_total',
+      help: 'Total number of permission operation errors',
+      labelNames: ['operation', 'error_type']
+    });
+  }
+
+  /**
+   * Lists every registered permission
+   * @returns Permission registry
+   */
+  listDefinitions(): Result<readonly PermissionDefinition[], TaskError> {
+    return { success: true, data: PERMISSION_DEFINITIONS };
+  }
+
+  /**
+   * Retrieves the permissions granted to every role
+   * @param context Operation context
+   * @returns Role to permission mapping
+   */
+  async getRolePermissions(context: ITaskContext): Promise<Result<RolePermissionMap, TaskError>> {
+    const timer = this.permissionOperationHistogram.startTimer({ operation: 'list_roles' });
+
+    try {
+      const mapping = await this.loadMapping();
+
+      timer({ success: 'true' });
+      return { success: true, data: mapping };
+
+    } catch (error) {
+      this.handleOperationError('list_roles', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Replaces the permissions granted to a role
+   * @param role Role to update
+   * @param data New permission set
+   * @param context Operation context
+   * @returns Updated role permissions or error
+   */
+  async setRolePermissions(
+    role: UserRole,
+    data: IUpdateRolePermissionsDTO,
+    context: ITaskContext
+  ): Promise<Result<IRolePermissions, TaskError>> {
+    const timer = this.permissionOperationHistogram.startTimer({ operation: 'set_role' });
+
+    try {
+      const unknown = data.permissions.filter(permission => !isPermission(permission));
+      if (unknown.length > 0) {
+        timer({ success: 'false' });
+        return {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: `Unknown permissions: ${unknown.join(', ')}`
+          }
+        };
+      }
+
+      const missing = (LOCKED_PERMISSIONS[role] ?? [])
+        .filter(permission => !data.permissions.includes(permission));
+      if (missing.length > 0) {
+        timer({ success: 'false' });
+        return {
+          success: false,
+          error: {
+            code: 'CONFLICT',
+            message: `The ${role} role must keep: ${missing.join(', ')}`
+          }
+        };
+      }
+
+      const permissions = Array.from(new Set(data.permissions));
+      await this.permissionRepository.replaceForRole(role, permissions, context.userId);
+      await this.redisClient.del(ROLE_PERMISSIONS_CACHE_KEY);
+
+      this.logger.info('Role permissions updated', {
+        correlationId: context.correlationId,
+        role,
+        permissions,
+        updatedBy: context.userId
+      });
+
+      timer({ success: 'true' });
+      return { success: true, data: { role, permissions } };
+
+    } catch (error) {
+      this.handleOperationError('set_role', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Resolves the caller's effective permissions
+   * @param context Operation context
+   * @returns Role and permissions of the caller
+   */
+  async getEffectivePermissions(context: ITaskContext): Promise<Result<IEffectivePermissions, TaskError>> {
+    const timer = this.permissionOperationHistogram.startTimer({ operation: 'effective' });
+
+    try {
+      if (!context.userRole) {
+        timer({ success: 'false' });
+        return {
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: 'The caller has no role'
+          }
+        };
+      }
+
+      const permissions = await this.getPermissionsForRole(context.userRole);
+
+      timer({ success: 'true' });
+      return {
+        success: true,
+        data: {
+          userId: context.userId,
+          role: context.userRole,
+          permissions
+        }
+      };
+
+    } catch (error) {
+      this.handleOperationError('effective', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Resolves the permissions granted to a role
+   * @param role Role to resolve
+   * @returns Granted permissions
+   */
+  async getPermissionsForRole(role: UserRole): Promise<Permission[]> {
+    const mapping = await this.loadMapping();
+    return mapping[role] ?? [];
+  }
+
+  /**
+   * Loads the mapping from the cache, falling back to the database; an empty table
+   * means the seed has not run, in which case the built-in defaults apply
+   * @private
+   */
+  private async loadMapping(): Promise<RolePermissionMap> {
+    const cached = await this.redisClient.get(ROLE_PERMISSIONS_CACHE_KEY);
+    if (cached) {
+      return JSON.parse(cached) as RolePermissionMap;
+    }
+
+    const records = await this.permissionRepository.findAll();
+    if (records.length === 0) {
+      return { ...DEFAULT_ROLE_PERMISSIONS };
+    }
+
+    const mapping = Object.values(UserRole).reduce((acc, role) => {
+      acc[role] = [];
+      return acc;
+    }, {} as RolePermissionMap);
+
+    for (const record of records) {
+      // Grants of permissions removed from the registry are ignored
+      if (isPermission(record.permission)) {
+        mapping[record.role].push(record.permission);
+      }
+    }
+
+    await this.redisClient.setex(ROLE_PERMISSIONS_CACHE_KEY, CACHE_TTL, JSON.stringify(mapping));
+    return mapping;
+  }
+
+  /**
+   * Handles and logs operation errors
+   * @private
+   */
+  private handleOperationError(
+    operation: string,
+    error: any,
+    context: ITaskContext
+  ): void {
+    this.permissionErrorCounter.inc({
+      operation,
+      error_type: error.name || 'UnknownError'
+    });
+
+    this.logger.error(`Permission operation error: ${operation}`, {
+      correlationId: context.correlationId,
+      error: error.message,
+      stack: error.stack
+    });
+  }
+}
@@ -19,18 +19,33 @@ import {
   ICreateProjectDTO, 
   IUpdateProjectDTO, 
   IProjectQueryParams, 
-  IProjectHierarchy 
+  IProjectHierarchy,
+  IProjectCompletion,
+  IProjectEffort
 } from '../interfaces/project.interface';
+import { IProjectExportRow } from '../interfaces/export.interface';
 import { ProjectRepository } from '../repositories/project.repository';
+import { TaskRepository } from '../repositories/task.repository';
+import { MembershipRepository } from '../repositories/membership.repository';
 import { CacheService } from '../services/cache.service';
 import { WebSocketService } from '../services/websocket.service';
-import { ProjectStatus, ProjectPriority } from '../types/project.types';
+import { WebhookService } from '../services/webhook.service';
+import { ProjectStatus, ProjectPriority, ProjectRole, EstimationUnit } from '../types/project.types';
+import { WorkflowCategory } from '../types/workflow.types';
 import { UserRole } from '../types/user.types';
+import { WebhookEventType } from '../types/webhook.types';
 import { 
   ValidationError, 
   NotFoundError, 
   UnauthorizedError 
 } from '../utils/errors';
+import {
+  calculateTaskProgress,
+  calculateCompletion,
+  calculateWeightedCompletion
+} from '../utils/progress.util';
+import { sumEffort, groupEffort } from '../utils/effort.util';
+import { hasProjectRole, isMembershipRestricted } from '../utils/membership.util';
 
 // Constants
 const CACHE_PREFIX = 'project:';
@@ -52,7 +67,10 @@ export class ProjectService implements IProjectService {
     @inject('ProjectRepository') private projectRepository: ProjectRepository,
     @inject('CacheService') private cacheService: CacheService,
     @inject('WebSocketService') private wsService: WebSocketService,
-    @inject('Logger') private logger: Logger
+    @inject('Logger') private logger: Logger,
+    @inject('TaskRepository') private taskRepository: TaskRepository,
+    @inject('MembershipRepository') private membershipRepository: MembershipRepository,
+    @inject('WebhookService') private webhookService: WebhookService
   ) {}
 
   /**
@@ -90,6 +108,12 @@ export class ProjectService implements IProjectService {
 
       // Broadcast creation event with retry mechanism
       await this.broadcastProjectEvent(PROJECT_EVENTS.CREATED, project);
+      await this.webhookService.dispatchEvent(
+        WebhookEventType.PROJECT_CREATED,
+        project.id,
+        { project },
+        userId
+      );
 
       this.logger.info('Project created successfully', { projectId: project.id });
       return project;
@@ -105,11 +129,17 @@ export class ProjectService implements IProjectService {
    * @param id Project ID
    * @param data Update data
    * @param userId User performing the update
+   * @param userRole Global role of the user performing the update
    * @returns Updated project
    * @throws {NotFoundError} When project not found
    * @throws {UnauthorizedError} When user lacks permissions
    */
-  async updateProject(id: UUID, data: IUpdateProjectDTO, userId: UUID): Promise<IProject> {
+  async updateProject(
+    id: UUID,
+    data: IUpdateProjectDTO,
+    userId: UUID,
+    userRole?: UserRole
+  ): Promise<IProject> {
     this.logger.debug('Updating project', { id, data, userId });
 
     // Validate update data
@@ -124,7 +154,7 @@ export class ProjectService implements IProjectService {
       throw new NotFoundError('Project not found');
     }
 
-    if (!await this.hasProjectAccess(existing, userId)) {
+    if (!await this.hasProjectAccess(existing, userId, userRole)) {
       throw new UnauthorizedError('Insufficient permissions');
     }
 
@@ -133,7 +163,8 @@ export class ProjectService implements IProjectService {
       const updated = await this.projectRepository.update(
         id,
         data,
-        existing.version
+        existing.version,
+        userId
       );
 
       // Update cache
@@ -145,6 +176,12 @@ export class ProjectService implements IProjectService {
 
       // Broadcast update event
       await this.broadcastProjectEvent(PROJECT_EVENTS.UPDATED, updated);
+      await this.webhookService.dispatchEvent(
+        WebhookEventType.PROJECT_UPDATED,
+        id,
+        { project: updated },
+        userId
+      );
 
       this.logger.info('Project updated successfully', { projectId: id });
       return updated;
@@ -189,6 +226,72 @@ export class ProjectService implements IProjectService {
     }
   }
 
+  /**
+   * Lists projects; users whose global role is limited by membership only get the
+   * projects they belong to
+   * @param params Query parameters
+   * @param userId User listing the projects
+   * @param userRole Global role of the user
+   * @returns Paginated project list
+   */
+  async getProjects(
+    params: IProjectQueryParams,
+    userId?: UUID,
+    userRole?: UserRole
+  ): Promise<{ data: IProject[]; total: number }> {
+    this.logger.debug('Listing projects', { params, userId });
+
+    try {
+      const query = userId && isMembershipRestricted(userRole)
+        ? { ...params, teamMemberId: userId }
+        : params;
+
+      return await this.projectRepository.findAll(query);
+
+    } catch (error) {
+      this.logger.error('Failed to list projects', { error, params });
+      throw error;
+    }
+  }
+
+  /**
+   * Streams the projects of a listing for export, with the same visibility as
+   * getProjects; pagination is ignored
+   * @param params Query parameters
+   * @param userId User exporting the projects
+   * @param userRole Global role of the user
+   * @returns Projects in listing order, read in batches
+   */
+  exportProjects(
+    params: IProjectQueryParams,
+    userId?: UUID,
+    userRole?: UserRole
+  ): AsyncIterable<IProjectExportRow> {
+    this.logger.debug('Exporting projects', { params, userId });
+
+    const query = userId && isMembershipRestricted(userRole)
+      ? { ...params, teamMemberId: userId }
+      : params;
+
+    return this.projectRepository.streamAll(query);
+  }
+
+  /**
+   * Checks whether a user may see a project
+   * @param id Project ID
+   * @param userId User ID
+   * @param userRole Global role of the user
+   * @returns Boolean indicating access
+   */
+  async canViewProject(id: UUID, userId: UUID, userRole?: UserRole): Promise<boolean> {
+    if (!isMembershipRestricted(userRole)) {
+      return true;
+    }
+
+    const membership = await this.membershipRepository.findMembership(id, userId);
+    return hasProjectRole(membership?.role, ProjectRole.VIEWER);
+  }
+
   /**
    * Retrieves project by ID with caching
    * @param id Project ID
@@ -226,6 +329,71 @@ export class ProjectService implements IProjectService {
     }
   }
 
+  /**
+   * Computes project completion from its top-level tasks; each task counts with the
+   * progress rolled up from its subtasks and checklist items, once per task and once
+   * weighted by its original estimate
+   * @param id Project ID
+   * @returns Completion percentages and task counts
+   */
+  async getProjectCompletion(id: UUID): Promise<IProjectCompletion> {
+    this.logger.debug('Computing project completion', { id });
+
+    try {
+      const tasks = await this.taskRepository.findTopLevelByProject(id);
+      const tree = await this.taskRepository.findProgressTree(tasks.map(task => task.id as UUID));
+      const progress = calculateTaskProgress(tasks, tree);
+
+      return {
+        percentage: calculateCompletion([...progress.values()]),
+        totalTasks: tasks.length,
+        completedTasks: tasks.filter(task => task.statusCategory === WorkflowCategory.DONE).length,
+        effortPercentage: calculateWeightedCompletion(tasks.map(task => ({
+          percentage: progress.get(task.id)!.percentage,
+          weight: task.originalEstimate ?? 0
+        })))
+      };
+
+    } catch (error) {
+      this.logger.error('Failed to compute project completion', { error, id });
+      throw error;
+    }
+  }
+
+  /**
+   * Rolls up the estimates of a project's tasks and the time logged on them, across
+   * the project and per assignee and sprint
+   * @param id Project ID
+   * @returns Effort rollups in the project's estimation unit
+   * @throws {NotFoundError} When project not found
+   */
+  async getProjectEffort(id: UUID): Promise<IProjectEffort> {
+    this.logger.debug('Computing project effort', { id });
+
+    const project = await this.getProjectById(id);
+    if (!project) {
+      throw new NotFoundError('Project not found');
+    }
+
+    try {
+      const tasks = await this.taskRepository.findEffortByProject(id);
+
+      return {
+        unit: project.estimationUnit ?? EstimationUnit.HOURS,
+        totals: sumEffort(tasks),
+        byAssignee: [...groupEffort(tasks, task => task.assigneeId)]
+          .map(([assigneeId, totals]) => ({ assigneeId: assigneeId as UUID | null, ...totals }))
+          .sort((a, b) => b.originalEstimate - a.originalEstimate),
+        bySprint: [...groupEffort(tasks, task => task.sprintId)]
+          .map(([sprintId, totals]) => ({ sprintId: sprintId as UUID | null, ...totals }))
+      };
+
+    } catch (error) {
+      this.logger.error('Failed to compute project effort', { error, id });
+      throw error;
+    }
+  }
+
   /**
    * Broadcasts project events with retry mechanism
    * @param eventType Event type
@@ -249,14 +417,24 @@ export class ProjectService implements IProjectService {
   }
 
   /**
-   * Checks if user has access to project
+   * Checks if user may change the project: its owner, an OWNER or MANAGER member,
+   * or a user whose global role is not limited by membership
    * @param project Project instance
    * @param userId User ID
+   * @param userRole Global role of the user
    * @returns Boolean indicating access
    */
-  private async hasProjectAccess(project: IProject, userId: UUID): Promise<boolean> {
-    return project.ownerId === userId || 
-           project.teamMembers.includes(userId);
+  private async hasProjectAccess(
+    project: IProject,
+    userId: UUID,
+    userRole?: UserRole
+  ): Promise<boolean> {
+    if (project.ownerId === userId || (userRole && !isMembershipRestricted(userRole))) {
+      return true;
+    }
+
+    const membership = await this.membershipRepository.findMembership(project.id, userId);
+    return hasProjectRole(membership?.role, ProjectRole.MANAGER);
   }
 
   /**
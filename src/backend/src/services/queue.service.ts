@@ -16,6 +16,7 @@ import logger from '../utils/logger.util';
 interface EnhancedQueueOptions {
   durable?: boolean;
   deadLetterExchange?: string;
+  deadLetterRoutingKey?: string;
   messageTtl?: number;
   maxLength?: number;
   maxPriority?: number;
@@ -113,6 +114,7 @@ export class QueueService {
       const queueOptions: Options.AssertQueue = {
         durable: options.durable ?? true,
         deadLetterExchange: options.deadLetterExchange,
+        deadLetterRoutingKey: options.deadLetterRoutingKey,
         messageTtl: options.messageTtl,
         maxLength: options.maxLength,
         maxPriority: options.maxPriority,
@@ -0,0 +1,603 @@
+/**
+ * @fileoverview Recurrence service materializing the occurrences of recurring tasks
+ * @version 1.0.0
+ * @module services/recurrence
+ */
+
+// External imports with versions
+import { injectable, inject } from 'inversify'; // v6.0.1
+import Redis from 'ioredis'; // v5.x
+import { Counter, Histogram } from 'prom-client'; // v14.x
+import { Logger } from 'winston'; // v3.x
+import { isAfter } from 'date-fns'; // v2.30.0
+import { UUID, randomUUID } from 'crypto';
+
+// Internal imports
+import {
+  ITaskRecurrence,
+  IRecurrenceRuleDTO,
+  IRecurrenceService
+} from '../interfaces/recurrence.interface';
+import { ITask, ITaskContext, TaskError, Result } from '../interfaces/task.interface';
+import { RecurrenceRepository } from '../repositories/recurrence.repository';
+import { TaskRepository } from '../repositories/task.repository';
+import { MembershipService } from '../services/membership.service';
+import { RecurrenceFrequency, RecurrenceTrigger } from '../types/task.types';
+import { ProjectRole } from '../types/project.types';
+import {
+  RecurrencePattern,
+  parseRRule,
+  validatePattern,
+  computeNextOccurrence,
+  computeNextOccurrenceAfter
+} from '../utils/recurrence.util';
+import { TYPES } from '../config/types';
+
+// Constants
+const SCHEDULER_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+const SCHEDULE_LOOKAHEAD_MS = 24 * 60 * 60 * 1000; // Create occurrences a day before they are due
+const SCHEDULER_BATCH_SIZE = 100;
+
+type Failure = { success: false; error: TaskError };
+type RuleData = Parameters<RecurrenceRepository['create']>[1];
+
+/**
+ * Recurrence service; COMPLETION rules create the next occurrence when the latest one is
+ * done, SCHEDULE rules are materialized by a periodic job shortly before they are due
+ */
+@injectable()
+export class RecurrenceService implements IRecurrenceService {
+  // Metrics
+  private readonly recurrenceOperationHistogram: Histogram;
+  private readonly recurrenceErrorCounter: Counter;
+  private readonly occurrenceCounter: Counter;
+
+  // Scheduler state
+  private schedulerInterval: NodeJS.Timeout | null = null;
+  private isMaterializing = false;
+
+  constructor(
+    @inject(TYPES.RecurrenceRepository) private readonly recurrenceRepository: RecurrenceRepository,
+    @inject(TYPES.TaskRepository) private readonly taskRepository: TaskRepository,
+    @inject(TYPES.MembershipService) private readonly membershipService: MembershipService,
+    @inject(TYPES.RedisClient) private readonly redisClient: Redis,
+    @inject(TYPES.Logger) private readonly logger: Logger,
+    @inject(TYPES.MetricsClient) private readonly metricsClient: any
+  ) {
+    // Initialize metrics
+    this.recurrenceOperationHistogram = new this.metricsClient.Histogram({
+      name: 'recurrence_operation_duration_seconds',
+      help: 'Duration of recurrence operations',
+      labelNames: ['operation']
+    });
+
+    this.recurrenceErrorCounter = new this.metricsClient.Counter({
+      name: 'recurrence_operation_errors_total',
+      help: 'Total number of recurrence operation errors',
+      labelNames: ['operation', 'error_type']
+    });
+
+    this.occurrenceCounter = new this.metricsClient.Counter({
+      name: 'recurrence_occurrences_created_total',
+      help: 'Total number of task occurrences created from recurrence rules',
+      labelNames: ['trigger']
+    });
+  }
+
+  /**
+   * Starts the periodic job materializing SCHEDULE rules
+   * @param intervalMs Time between runs
+   */
+  start(intervalMs: number = SCHEDULER_INTERVAL_MS): void {
+    this.stop();
+
+    this.schedulerInterval = setInterval(async () => {
+      // Skip a tick rather than overlap with a run that is still going
+      if (this.isMaterializing) return;
+
+      this.isMaterializing = true;
+      try {
+        await this.materializeScheduled();
+      } catch (error) {
+        this.logger.error('Recurrence scheduler run failed', { error: (error as Error).message });
+      } finally {
+        this.isMaterializing = false;
+      }
+    }, intervalMs);
+
+    this.logger.info('Recurrence scheduler started', { intervalMs });
+  }
+
+  /**
+   * Stops the periodic job
+   */
+  stop(): void {
+    if (this.schedulerInterval) {
+      clearInterval(this.schedulerInterval);
+      this.schedulerInterval = null;
+    }
+  }
+
+  /**
+   * Retrieves the rule a task belongs to
+   * @param taskId Task identifier
+   * @param context Operation context
+   * @returns Rule, null if the task does not repeat, or error
+   */
+  async getRule(
+    taskId: UUID,
+    context: ITaskContext
+  ): Promise<Result<ITaskRecurrence | null, TaskError>> {
+    const timer = this.recurrenceOperationHistogram.startTimer({ operation: 'get' });
+
+    try {
+      const task = await this.loadTask(taskId, ProjectRole.VIEWER, context);
+      if (!task.success) {
+        timer({ success: 'false' });
+        return task;
+      }
+
+      const rule = task.data.recurrenceId
+        ? await this.recurrenceRepository.findById(task.data.recurrenceId)
+        : null;
+
+      timer({ success: 'true' });
+      return { success: true, data: rule };
+
+    } catch (error) {
+      this.handleOperationError('get', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Makes a task repeat, or replaces the rule of the series it belongs to. The next
+   * occurrence is derived from the due date of the latest occurrence.
+   * @param taskId Task identifier
+   * @param data Rule data
+   * @param context Operation context
+   * @returns Saved rule or error
+   */
+  async setRule(
+    taskId: UUID,
+    data: IRecurrenceRuleDTO,
+    context: ITaskContext
+  ): Promise<Result<ITaskRecurrence, TaskError>> {
+    const timer = this.recurrenceOperationHistogram.startTimer({ operation: 'set' });
+
+    try {
+      const task = await this.loadTask(taskId, ProjectRole.CONTRIBUTOR, context);
+      if (!task.success) {
+        timer({ success: 'false' });
+        return task;
+      }
+
+      const existing = task.data.recurrenceId
+        ? await this.recurrenceRepository.findById(task.data.recurrenceId)
+        : null;
+
+      let latest: ITask | null = task.data;
+      if (existing && existing.lastTaskId !== task.data.id) {
+        const found = await this.taskRepository.findById(existing.lastTaskId, context);
+        latest = found.data ?? null;
+      }
+
+      const anchor = latest?.dueDate ? new Date(latest.dueDate) : new Date();
+      const built = this.buildRule(data, anchor, existing?.occurrenceCount ?? 1);
+      if (!built.success) {
+        timer({ success: 'false' });
+        return built;
+      }
+
+      const rule = existing
+        ? await this.recurrenceRepository.update(existing.id, built.rule)
+        : await this.recurrenceRepository.create(taskId, built.rule, context.userId);
+
+      // The cached task does not know it now belongs to a series
+      await this.redisClient.del(`task:${taskId}`);
+
+      this.logger.info('Recurrence rule saved', {
+        correlationId: context.correlationId,
+        taskId,
+        recurrenceId: rule.id,
+        frequency: rule.frequency,
+        nextOccurrenceAt: rule.nextOccurrenceAt
+      });
+
+      timer({ success: 'true' });
+      return { success: true, data: rule };
+
+    } catch (error) {
+      this.handleOperationError('set', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Stops a series; existing occurrences are kept
+   * @param taskId Task identifier
+   * @param context Operation context
+   * @returns Void result or error
+   */
+  async removeRule(
+    taskId: UUID,
+    context: ITaskContext
+  ): Promise<Result<void, TaskError>> {
+    const timer = this.recurrenceOperationHistogram.startTimer({ operation: 'remove' });
+
+    try {
+      const task = await this.loadTask(taskId, ProjectRole.CONTRIBUTOR, context);
+      if (!task.success) {
+        timer({ success: 'false' });
+        return task;
+      }
+
+      if (!task.data.recurrenceId) {
+        timer({ success: 'false' });
+        return {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Task does not repeat'
+          }
+        };
+      }
+
+      await this.recurrenceRepository.deactivate(task.data.recurrenceId);
+
+      this.logger.info('Recurrence rule stopped', {
+        correlationId: context.correlationId,
+        taskId,
+        recurrenceId: task.data.recurrenceId
+      });
+
+      timer({ success: 'true' });
+      return { success: true };
+
+    } catch (error) {
+      this.handleOperationError('remove', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Checks a rule without saving it, so callers can reject a request before writing anything
+   * @param data Rule data
+   * @returns Validation error or null
+   */
+  validateRule(data: IRecurrenceRuleDTO): TaskError | null {
+    const built = this.buildRule(data, new Date(), 1);
+    return built.success ? null : built.error;
+  }
+
+  /**
+   * Creates the next occurrence after the latest occurrence of a COMPLETION series is done.
+   * Occurrences missed by completing late are skipped.
+   * @param task Completed task
+   * @param context Operation context
+   * @returns Created occurrence, or null if none was due
+   */
+  async handleTaskCompleted(task: ITask, context: ITaskContext): Promise<ITask | null> {
+    if (!task.recurrenceId) {
+      return null;
+    }
+
+    const rule = await this.recurrenceRepository.findById(task.recurrenceId);
+    if (!rule || !rule.isActive || rule.generateOn !== RecurrenceTrigger.COMPLETION ||
+        rule.lastTaskId !== task.id) {
+      return null;
+    }
+
+    const previous = task.dueDate ? new Date(task.dueDate) : new Date();
+    const dueDate = computeNextOccurrenceAfter(this.toPattern(rule), previous, new Date());
+
+    return await this.materialize(rule, task, dueDate, context);
+  }
+
+  /**
+   * Creates the occurrences of SCHEDULE series that become due within the lookahead window
+   * @param now Reference time
+   * @returns Number of occurrences created
+   */
+  async materializeScheduled(now: Date = new Date()): Promise<number> {
+    const timer = this.recurrenceOperationHistogram.startTimer({ operation: 'materialize' });
+    const rules = await this.recurrenceRepository.findScheduledDue(
+      new Date(now.getTime() + SCHEDULE_LOOKAHEAD_MS),
+      SCHEDULER_BATCH_SIZE
+    );
+
+    let created = 0;
+    for (const rule of rules) {
+      const context = this.buildSchedulerContext(rule);
+
+      // One broken rule must not hold up the rest of the batch
+      try {
+        const latest = await this.taskRepository.findById(rule.lastTaskId, context);
+        if (!latest.data) {
+          await this.recurrenceRepository.deactivate(rule.id);
+          continue;
+        }
+
+        const occurrence = await this.materialize(
+          rule,
+          latest.data,
+          new Date(rule.nextOccurrenceAt as Date),
+          context
+        );
+        if (occurrence) created++;
+      } catch (error) {
+        this.handleOperationError('materialize', error, context);
+      }
+    }
+
+    timer({ success: 'true' });
+    return created;
+  }
+
+  /**
+   * Reserves and creates one occurrence, copying the latest occurrence
+   * @private
+   */
+  private async materialize(
+    rule: ITaskRecurrence,
+    template: ITask,
+    dueDate: Date,
+    context: ITaskContext
+  ): Promise<ITask | null> {
+    if (this.hasEnded(rule, dueDate, rule.occurrenceCount)) {
+      await this.recurrenceRepository.deactivate(rule.id);
+      return null;
+    }
+
+    const following = computeNextOccurrence(this.toPattern(rule), dueDate);
+    const claimed = await this.recurrenceRepository.claimOccurrence(
+      rule.id,
+      rule.occurrenceCount,
+      this.hasEnded(rule, following, rule.occurrenceCount + 1) ? null : following
+    );
+    if (!claimed) {
+      return null;
+    }
+
+    const result = await this.taskRepository.create({
+      title: template.title,
+      description: template.description,
+      priority: template.priority,
+      projectId: template.projectId,
+      assigneeId: template.assigneeId,
+      dueDate,
+      tags: template.tags,
+      metadata: template.metadata,
+      parentId: template.parentId ?? undefined,
+      depth: template.depth,
+      recurrenceId: rule.id
+    }, context);
+
+    if (!result.success || !result.data) {
+      this.logger.error('Failed to create task occurrence', {
+        correlationId: context.correlationId,
+        recurrenceId: rule.id,
+        error: result.error
+      });
+      return null;
+    }
+
+    await this.recurrenceRepository.setLastTask(rule.id, result.data.id);
+    this.occurrenceCounter.inc({ trigger: rule.generateOn });
+
+    this.logger.info('Task occurrence created', {
+      correlationId: context.correlationId,
+      recurrenceId: rule.id,
+      previousTaskId: template.id,
+      taskId: result.data.id,
+      dueDate
+    });
+
+    return result.data;
+  }
+
+  /**
+   * Normalizes rule input into persisted fields and computes the next occurrence
+   * @private
+   */
+  private buildRule(
+    data: IRecurrenceRuleDTO,
+    anchor: Date,
+    occurrenceCount: number
+  ): { success: true; rule: RuleData } | Failure {
+    if (!Object.values(RecurrenceFrequency).includes(data.frequency)) {
+      return this.validationFailure('Recurrence frequency must be DAILY, WEEKLY, MONTHLY or CUSTOM');
+    }
+
+    try {
+      let pattern: RecurrencePattern;
+      let count = data.count ?? null;
+      let endDate = data.endDate ? new Date(data.endDate) : null;
+
+      if (data.frequency === RecurrenceFrequency.CUSTOM) {
+        if (!data.rrule?.trim()) {
+          return this.validationFailure('Custom recurrence rules require an RRULE');
+        }
+
+        const { count: ruleCount, until, ...parsed } = parseRRule(data.rrule);
+        pattern = { ...parsed, businessDaysOnly: !!data.businessDaysOnly };
+        count = count ?? ruleCount ?? null;
+        endDate = endDate ?? until ?? null;
+      } else {
+        pattern = {
+          frequency: data.frequency as RecurrencePattern['frequency'],
+          interval: data.interval ?? 1,
+          byWeekday: data.frequency === RecurrenceFrequency.WEEKLY ? data.byWeekday ?? [] : [],
+          // Pin monthly rules to a day so short months do not shift later occurrences
+          byMonthDay: data.frequency === RecurrenceFrequency.MONTHLY
+            ? data.byMonthDay ?? anchor.getUTCDate()
+            : null,
+          businessDaysOnly: !!data.businessDaysOnly
+        };
+        validatePattern(pattern);
+      }
+
+      if (count !== null && (!Number.isInteger(count) || count < 1)) {
+        return this.validationFailure('Recurrence count must be a positive integer');
+      }
+
+      if (endDate && (isNaN(endDate.getTime()) || !isAfter(endDate, anchor))) {
+        return this.validationFailure('Recurrence end date must be after the due date of the task');
+      }
+
+      const rule: RuleData = {
+        frequency: data.frequency,
+        interval: pattern.interval,
+        byWeekday: pattern.byWeekday,
+        byMonthDay: pattern.byMonthDay,
+        rrule: data.frequency === RecurrenceFrequency.CUSTOM ? data.rrule!.trim() : null,
+        businessDaysOnly: pattern.businessDaysOnly,
+        generateOn: data.generateOn ?? RecurrenceTrigger.COMPLETION,
+        endDate,
+        count,
+        nextOccurrenceAt: null
+      };
+
+      const next = computeNextOccurrence(pattern, anchor);
+      rule.nextOccurrenceAt = this.hasEnded(rule, next, occurrenceCount) ? null : next;
+
+      return { success: true, rule };
+    } catch (error) {
+      return this.validationFailure((error as Error).message);
+    }
+  }
+
+  /**
+   * Builds the repetition pattern of a saved rule
+   * @private
+   */
+  private toPattern(rule: Pick<ITaskRecurrence, 'frequency' | 'interval' | 'byWeekday' |
+    'byMonthDay' | 'rrule' | 'businessDaysOnly'>): RecurrencePattern {
+    if (rule.frequency === RecurrenceFrequency.CUSTOM) {
+      const { count, until, ...parsed } = parseRRule(rule.rrule as string);
+      return { ...parsed, businessDaysOnly: rule.businessDaysOnly };
+    }
+
+    return {
+      frequency: rule.frequency as RecurrencePattern['frequency'],
+      interval: rule.interval,
+      byWeekday: rule.byWeekday,
+      byMonthDay: rule.byMonthDay,
+      businessDaysOnly: rule.businessDaysOnly
+    };
+  }
+
+  /**
+   * Whether an occurrence on the given date would exceed the count or end date
+   * @private
+   */
+  private hasEnded(
+    rule: Pick<ITaskRecurrence, 'count' | 'endDate'>,
+    dueDate: Date,
+    occurrenceCount: number
+  ): boolean {
+    if (rule.count !== null && occurrenceCount >= rule.count) {
+      return true;
+    }
+
+    return !!rule.endDate && isAfter(dueDate, new Date(rule.endDate));
+  }
+
+  /**
+   * Loads a task the caller holds the required project role for; missing tasks and
+   * tasks of projects the caller cannot see map to NOT_FOUND
+   * @private
+   */
+  private async loadTask(
+    taskId: UUID,
+    required: ProjectRole,
+    context: ITaskContext
+  ): Promise<{ success: true; data: ITask } | Failure> {
+    const task = await this.taskRepository.findById(taskId, context);
+
+    if (!task.success) {
+      return { success: false, error: task.error as TaskError };
+    }
+
+    if (!task.data ||
+        !await this.membershipService.hasAccess(task.data.projectId, ProjectRole.VIEWER, context)) {
+      return {
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: `Task ${taskId} not found`
+        }
+      };
+    }
+
+    if (required !== ProjectRole.VIEWER &&
+        !await this.membershipService.hasAccess(task.data.projectId, required, context)) {
+      return {
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: `Changing recurrence requires the ${required} project role`
+        }
+      };
+    }
+
+    return { success: true, data: task.data };
+  }
+
+  /**
+   * Builds the context for occurrences created by the scheduler on behalf of the rule's author
+   * @private
+   */
+  private buildSchedulerContext(rule: ITaskRecurrence): ITaskContext {
+    return {
+      userId: rule.createdBy,
+      correlationId: `recurrence-${rule.id}`,
+      requestId: randomUUID(),
+      includeSoftDeleted: false,
+      telemetry: {
+        operationStart: new Date(),
+        operationName: 'materializeScheduled',
+        metrics: {},
+        tags: { recurrenceId: rule.id }
+      }
+    };
+  }
+
+  /**
+   * Builds a validation failure
+   * @private
+   */
+  private validationFailure(message: string): Failure {
+    return {
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message
+      }
+    };
+  }
+
+  /**
+   * Handles and logs operation errors
+   * @private
+   */
+  private handleOperationError(
+    operation: string,
+    error: any,
+    context: ITaskContext
+  ): void {
+    this.recurrenceErrorCounter.inc({
+      operation,
+      error_type: error.name || 'UnknownError'
+    });
+
+    this.logger.error(`Recurrence operation error: ${operation}`, {
+      correlationId: context.correlationId,
+      error: error.message,
+      stack: error.stack
+    });
+  }
+}
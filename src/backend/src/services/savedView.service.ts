@@ -0,0 +1,445 @@
+/**
+ * @fileoverview Saved view service managing named task list and board configurations
+ * @version 1.0.0
+ * @module services/savedView
+ */
+
+// External imports with versions
+import { injectable, inject } from 'inversify'; // v6.0.1
+import { Counter, Histogram } from 'prom-client'; // v14.x
+import { Logger } from 'winston'; // v3.x
+import { UUID } from 'crypto';
+
+// Internal imports
+import {
+  ISavedView,
+  ISavedViewService,
+  ICreateSavedViewDTO,
+  IUpdateSavedViewDTO
+} from '../interfaces/savedView.interface';
+import { ITaskContext, TaskError, Result } from '../interfaces/task.interface';
+import { SavedViewRepository } from '../repositories/savedView.repository';
+import { ProjectRepository } from '../repositories/project.repository';
+import { MembershipService } from '../services/membership.service';
+import { SavedViewVisibility } from '../types/savedView.types';
+import { ProjectRole } from '../types/project.types';
+import { MAX_SAVED_VIEWS, MAX_PINNED_VIEWS } from '../utils/savedView.util';
+import { TYPES } from '../config/types';
+
+type Failure = { success: false; error: TaskError };
+
+/**
+ * Saved view service. Private views are seen by their owner only; shared views by
+ * every member of their project. Sharing requires the CONTRIBUTOR project role, and
+ * project managers may edit or remove the views shared in their project. Views the
+ * caller cannot open are reported as missing rather than forbidden.
+ */
+@injectable()
+export class SavedViewService implements ISavedViewService {
+  // Metrics
+  private readonly viewOperationHistogram: Histogram;
+  private readonly viewErrorCounter: Counter;
+
+  constructor(
+    @inject(TYPES.SavedViewRepository) private readonly savedViewRepository: SavedViewRepository,
+    @inject(TYPES.ProjectRepository) private readonly projectRepository: ProjectRepository,
+    @inject(TYPES.MembershipService) private readonly membershipService: MembershipService,
+    @inject(TYPES.Logger) private readonly logger: Logger,
+    @inject(TYPES.MetricsClient) private readonly metricsClient: any
+  ) {
+    // Initialize metrics
+    this.viewOperationHistogram = new this.metricsClient.Histogram({
+      name: 'saved_view_operation_duration_seconds',
+      help: 'Duration of saved view operations',
+      labelNames: ['operation']
+    });
+
+    this.viewErrorCounter = new this.metricsClient.Counter({
+      name: 'saved_view_operation_errors_total',
+      help: 'Total number of saved view operation errors',
+      labelNames: ['operation', 'error_type']
+    });
+  }
+
+  /**
+   * Lists the views the caller can open: their own, plus the shared views of the
+   * project when one is given
+   * @param projectId Project whose views to list; the caller's own views when omitted
+   * @param context Operation context
+   * @returns Views by name or error
+   */
+  async listViews(
+    projectId: UUID | undefined,
+    context: ITaskContext
+  ): Promise<Result<ISavedView[], TaskError>> {
+    const timer = this.viewOperationHistogram.startTimer({ operation: 'list' });
+
+    try {
+      if (!projectId) {
+        const views = await this.savedViewRepository.findByOwner(context.userId);
+
+        timer({ success: 'true' });
+        return { success: true, data: views };
+      }
+
+      if (!await this.canSeeProject(projectId, context)) {
+        timer({ success: 'false' });
+        return this.failure('NOT_FOUND', `Project ${projectId} not found`);
+      }
+
+      const views = await this.savedViewRepository.findByProject(projectId, context.userId);
+
+      timer({ success: 'true' });
+      return { success: true, data: views };
+
+    } catch (error) {
+      this.handleOperationError('list', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Lists the views the caller pinned, in pin order; shared views of projects the
+   * caller no longer belongs to are left out
+   * @param context Operation context
+   * @returns Views or error
+   */
+  async listPinnedViews(context: ITaskContext): Promise<Result<ISavedView[], TaskError>> {
+    const timer = this.viewOperationHistogram.startTimer({ operation: 'listPinned' });
+
+    try {
+      const pinned = await this.savedViewRepository.findPinned(context.userId);
+
+      const views: ISavedView[] = [];
+      for (const view of pinned) {
+        if (await this.canOpen(view, context)) {
+          views.push(view);
+        }
+      }
+
+      timer({ success: 'true' });
+      return { success: true, data: views };
+
+    } catch (error) {
+      this.handleOperationError('listPinned', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves a view the caller can open
+   * @param viewId View identifier
+   * @param context Operation context
+   * @returns View or error
+   */
+  async getView(viewId: UUID, context: ITaskContext): Promise<Result<ISavedView, TaskError>> {
+    const timer = this.viewOperationHistogram.startTimer({ operation: 'get' });
+
+    try {
+      const view = await this.findView(viewId, context);
+
+      timer({ success: view.success ? 'true' : 'false' });
+      return view;
+
+    } catch (error) {
+      this.handleOperationError('get', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Saves a view owned by the caller
+   * @param data View attributes
+   * @param context Operation context
+   * @returns Created view or error
+   */
+  async createView(
+    data: ICreateSavedViewDTO,
+    context: ITaskContext
+  ): Promise<Result<ISavedView, TaskError>> {
+    const timer = this.viewOperationHistogram.startTimer({ operation: 'create' });
+
+    try {
+      if (data.projectId && !await this.canSeeProject(data.projectId, context)) {
+        timer({ success: 'false' });
+        return this.failure('NOT_FOUND', `Project ${data.projectId} not found`);
+      }
+
+      const visibility = data.visibility ?? SavedViewVisibility.PRIVATE;
+      const sharingError = await this.checkSharing(visibility, data.projectId ?? null, context);
+      if (sharingError) {
+        timer({ success: 'false' });
+        return sharingError;
+      }
+
+      if (await this.savedViewRepository.countByOwner(context.userId) >= MAX_SAVED_VIEWS) {
+        timer({ success: 'false' });
+        return this.failure('VALIDATION_ERROR', `A user can save at most ${MAX_SAVED_VIEWS} views`);
+      }
+
+      const view = await this.savedViewRepository.create(context.userId, data);
+
+      this.logger.info('Saved view created', {
+        correlationId: context.correlationId,
+        viewId: view.id,
+        projectId: view.projectId,
+        visibility: view.visibility
+      });
+
+      timer({ success: 'true' });
+      return { success: true, data: view };
+
+    } catch (error) {
+      this.handleOperationError('create', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Changes a view; making a shared view private removes the pins of other users
+   * @param viewId View identifier
+   * @param data Changed attributes
+   * @param context Operation context
+   * @returns Updated view or error
+   */
+  async updateView(
+    viewId: UUID,
+    data: IUpdateSavedViewDTO,
+    context: ITaskContext
+  ): Promise<Result<ISavedView, TaskError>> {
+    const timer = this.viewOperationHistogram.startTimer({ operation: 'update' });
+
+    try {
+      const view = await this.findEditableView(viewId, context);
+      if (!view.success) {
+        timer({ success: 'false' });
+        return view;
+      }
+
+      if (data.visibility && data.visibility !== view.data.visibility) {
+        const sharingError = await this.checkSharing(data.visibility, view.data.projectId, context);
+        if (sharingError) {
+          timer({ success: 'false' });
+          return sharingError;
+        }
+      }
+
+      const updated = await this.savedViewRepository.update(viewId, data, context.userId);
+
+      if (view.data.visibility === SavedViewVisibility.PROJECT &&
+          updated.visibility === SavedViewVisibility.PRIVATE) {
+        await this.savedViewRepository.deleteForeignPins(viewId, updated.ownerId);
+      }
+
+      this.logger.info('Saved view updated', {
+        correlationId: context.correlationId,
+        viewId
+      });
+
+      timer({ success: 'true' });
+      return { success: true, data: updated };
+
+    } catch (error) {
+      this.handleOperationError('update', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Removes a view along with every user's pin of it
+   * @param viewId View identifier
+   * @param context Operation context
+   * @returns Void result or error
+   */
+  async deleteView(viewId: UUID, context: ITaskContext): Promise<Result<void, TaskError>> {
+    const timer = this.viewOperationHistogram.startTimer({ operation: 'delete' });
+
+    try {
+      const view = await this.findEditableView(viewId, context);
+      if (!view.success) {
+        timer({ success: 'false' });
+        return view;
+      }
+
+      await this.savedViewRepository.delete(viewId);
+
+      this.logger.info('Saved view deleted', {
+        correlationId: context.correlationId,
+        viewId
+      });
+
+      timer({ success: 'true' });
+      return { success: true };
+
+    } catch (error) {
+      this.handleOperationError('delete', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Pins or unpins a view for the caller; pinning is idempotent
+   * @param viewId View identifier
+   * @param pinned Whether the view should be pinned
+   * @param context Operation context
+   * @returns View with its new pin state or error
+   */
+  async setPinned(
+    viewId: UUID,
+    pinned: boolean,
+    context: ITaskContext
+  ): Promise<Result<ISavedView, TaskError>> {
+    const timer = this.viewOperationHistogram.startTimer({ operation: pinned ? 'pin' : 'unpin' });
+
+    try {
+      const view = await this.findView(viewId, context);
+      if (!view.success) {
+        timer({ success: 'false' });
+        return view;
+      }
+
+      if (pinned && !view.data.pinned) {
+        if (await this.savedViewRepository.countPins(context.userId) >= MAX_PINNED_VIEWS) {
+          timer({ success: 'false' });
+          return this.failure('VALIDATION_ERROR', `A user can pin at most ${MAX_PINNED_VIEWS} views`);
+        }
+
+        await this.savedViewRepository.pin(viewId, context.userId);
+      } else if (!pinned && view.data.pinned) {
+        await this.savedViewRepository.unpin(viewId, context.userId);
+      }
+
+      timer({ success: 'true' });
+      return { success: true, data: { ...view.data, pinned } };
+
+    } catch (error) {
+      this.handleOperationError(pinned ? 'pin' : 'unpin', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Loads a view the caller can open
+   * @private
+   */
+  private async findView(
+    viewId: UUID,
+    context: ITaskContext
+  ): Promise<{ success: true; data: ISavedView } | Failure> {
+    const view = await this.savedViewRepository.findById(viewId, context.userId);
+    if (!view || !await this.canOpen(view, context)) {
+      return this.failure('NOT_FOUND', `View ${viewId} not found`);
+    }
+
+    return { success: true, data: view };
+  }
+
+  /**
+   * Loads a view the caller may change: their own, or a view shared in a project
+   * they manage
+   * @private
+   */
+  private async findEditableView(
+    viewId: UUID,
+    context: ITaskContext
+  ): Promise<{ success: true; data: ISavedView } | Failure> {
+    const view = await this.findView(viewId, context);
+    if (!view.success || view.data.ownerId === context.userId) {
+      return view;
+    }
+
+    if (!await this.membershipService.hasAccess(view.data.projectId as UUID, ProjectRole.MANAGER, context)) {
+      return this.failure('FORBIDDEN', 'Changing views shared by others requires the MANAGER project role');
+    }
+
+    return view;
+  }
+
+  /**
+   * Checks whether the caller can open a view: their own, or one shared in a project
+   * they can see
+   * @private
+   */
+  private async canOpen(view: ISavedView, context: ITaskContext): Promise<boolean> {
+    if (view.ownerId === context.userId) {
+      return true;
+    }
+
+    return view.visibility === SavedViewVisibility.PROJECT &&
+      !!view.projectId &&
+      await this.membershipService.hasAccess(view.projectId, ProjectRole.VIEWER, context);
+  }
+
+  /**
+   * Checks that a view may get the given visibility: shared views need a project in
+   * which the caller holds the CONTRIBUTOR role
+   * @private
+   */
+  private async checkSharing(
+    visibility: SavedViewVisibility,
+    projectId: UUID | null,
+    context: ITaskContext
+  ): Promise<Failure | null> {
+    if (visibility !== SavedViewVisibility.PROJECT) {
+      return null;
+    }
+
+    if (!projectId) {
+      return this.failure('VALIDATION_ERROR', 'Only views of a project can be shared');
+    }
+
+    if (!await this.membershipService.hasAccess(projectId, ProjectRole.CONTRIBUTOR, context)) {
+      return this.failure('FORBIDDEN', 'Sharing views requires the CONTRIBUTOR project role');
+    }
+
+    return null;
+  }
+
+  /**
+   * Checks that the project exists and the caller can see it
+   * @private
+   */
+  private async canSeeProject(projectId: UUID, context: ITaskContext): Promise<boolean> {
+    const project = await this.projectRepository.findById(projectId);
+    return !!project && await this.membershipService.hasAccess(projectId, ProjectRole.VIEWER, context);
+  }
+
+  /**
+   * Builds a failure result
+   * @private
+   */
+  private failure(code: string, message: string, details?: Record<string, unknown>): Failure {
+    return {
+      success: false,
+      error: { code, message, details }
+    };
+  }
+
+  /**
+   * Handles and logs operation errors
+   * @private
+   */
+  private handleOperationError(
+    operation: string,
+    error: any,
+    context: ITaskContext
+  ): void {
+    this.viewErrorCounter.inc({
+      operation,
+      error_type: error.name || 'UnknownError'
+    });
+
+    this.logger.error(`Saved view operation error: ${operation}`, {
+      correlationId: context.correlationId,
+      error: error.message,
+      stack: error.stack
+    });
+  }
+}
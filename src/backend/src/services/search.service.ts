@@ -0,0 +1,192 @@
+/**
+ * @fileoverview Search service providing ranked full-text search across tasks, comments
+ * and projects
+ * @version 1.0.0
+ * @module services/search
+ */
+
+// External imports with versions
+import { injectable, inject } from 'inversify'; // v6.0.1
+import { Counter, Histogram } from 'prom-client'; // v14.x
+import { Logger } from 'winston'; // v3.x
+import { UUID } from 'crypto';
+
+// Internal imports
+import {
+  ISearchService,
+  ISearchQueryDTO,
+  ISearchResult
+} from '../interfaces/search.interface';
+import { ITaskContext, TaskError, Result } from '../interfaces/task.interface';
+import { SearchRepository, ISearchPage } from '../repositories/search.repository';
+import { ProjectRepository } from '../repositories/project.repository';
+import { MembershipService } from '../services/membership.service';
+import { SearchResultType } from '../types/search.types';
+import { ProjectRole } from '../types/project.types';
+import {
+  DEFAULT_SEARCH_LIMIT,
+  MAX_SEARCH_LIMIT,
+  normalizeSearchQuery,
+  emptySearchFacets,
+  mergeSearchHits
+} from '../utils/search.util';
+import { TYPES } from '../config/types';
+
+type Failure = { success: false; error: TaskError };
+
+/**
+ * Search service. Only projects the caller can see are searched, and a project the
+ * caller cannot see is reported as missing. Each requested type is searched for the
+ * full limit, so that the merged ranking holds the best hits of every type.
+ */
+@injectable()
+export class SearchService implements ISearchService {
+  // Metrics
+  private readonly searchHistogram: Histogram;
+  private readonly searchErrorCounter: Counter;
+
+  constructor(
+    @inject(TYPES.SearchRepository) private readonly searchRepository: SearchRepository,
+    @inject(TYPES.ProjectRepository) private readonly projectRepository: ProjectRepository,
+    @inject(TYPES.MembershipService) private readonly membershipService: MembershipService,
+    @inject(TYPES.Logger) private readonly logger: Logger,
+    @inject(TYPES.MetricsClient) private readonly metricsClient: any
+  ) {
+    // Initialize metrics
+    this.searchHistogram = new this.metricsClient.Histogram({
+      name: 'search_operation_duration_seconds',
+      help: 'Duration of full-text searches',
+      labelNames: ['operation']
+    });
+
+    this.searchErrorCounter = new this.metricsClient.Counter({
+      name: 'search_operation_errors_total',
+      help: 'Total number of full-text search errors',
+      labelNames: ['operation', 'error_type']
+    });
+  }
+
+  /**
+   * Searches the tasks, comments and projects the caller can see
+   * @param query Search query
+   * @param context Operation context
+   * @returns Ranked hits with matches per type, or error
+   */
+  async search(
+    query: ISearchQueryDTO,
+    context: ITaskContext
+  ): Promise<Result<ISearchResult, TaskError>> {
+    const timer = this.searchHistogram.startTimer({ operation: 'search' });
+
+    try {
+      const q = normalizeSearchQuery(query.q);
+      if (!q) {
+        timer({ success: 'false' });
+        return this.failure('VALIDATION_ERROR', 'Search query is required');
+      }
+
+      let projectIds: UUID[] | null;
+      if (query.projectId) {
+        if (!await this.canSeeProject(query.projectId, context)) {
+          timer({ success: 'false' });
+          return this.failure('NOT_FOUND', `Project ${query.projectId} not found`);
+        }
+        projectIds = [query.projectId];
+      } else {
+        projectIds = await this.membershipService.getAccessibleProjectIds(context);
+      }
+
+      const facets = emptySearchFacets();
+      if (projectIds !== null && projectIds.length === 0) {
+        timer({ success: 'true' });
+        return { success: true, data: { query: q, hits: [], facets } };
+      }
+
+      const limit = Math.min(query.limit ?? DEFAULT_SEARCH_LIMIT, MAX_SEARCH_LIMIT);
+      const types = query.types?.length ? query.types : Object.values(SearchResultType);
+
+      const pages = await Promise.all(
+        types.map(type => this.searchType(type, q, projectIds, limit))
+      );
+      types.forEach((type, index) => {
+        facets[type] = pages[index].total;
+      });
+
+      timer({ success: 'true' });
+      return {
+        success: true,
+        data: {
+          query: q,
+          hits: mergeSearchHits(pages.map(page => page.hits), limit),
+          facets
+        }
+      };
+
+    } catch (error) {
+      this.handleOperationError('search', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Searches one type of record
+   * @private
+   */
+  private async searchType(
+    type: SearchResultType,
+    query: string,
+    projectIds: UUID[] | null,
+    limit: number
+  ): Promise<ISearchPage> {
+    switch (type) {
+      case SearchResultType.COMMENT:
+        return await this.searchRepository.searchComments(query, projectIds, limit);
+      case SearchResultType.PROJECT:
+        return await this.searchRepository.searchProjects(query, projectIds, limit);
+      default:
+        return await this.searchRepository.searchTasks(query, projectIds, limit);
+    }
+  }
+
+  /**
+   * Checks that a project exists and the caller can see it
+   * @private
+   */
+  private async canSeeProject(projectId: UUID, context: ITaskContext): Promise<boolean> {
+    const project = await this.projectRepository.findById(projectId);
+    return !!project && await this.membershipService.hasAccess(projectId, ProjectRole.VIEWER, context);
+  }
+
+  /**
+   * Builds a failure result
+   * @private
+   */
+  private failure(code: string, message: string, details?: Record<string, unknown>): Failure {
+    return {
+      success: false,
+      error: { code, message, details }
+    };
+  }
+
+  /**
+   * Handles and logs operation errors
+   * @private
+   */
+  private handleOperationError(
+    operation: string,
+    error: any,
+    context: ITaskContext
+  ): void {
+    this.searchErrorCounter.inc({
+      operation,
+      error_type: error.name || 'UnknownError'
+    });
+
+    this.logger.error(`Search operation error: ${operation}`, {
+      correlationId: context.correlationId,
+      error: error.message,
+      stack: error.stack
+    });
+  }
+}
@@ -0,0 +1,519 @@
+/**
+ * @fileoverview Sprint service managing the sprints of a project, backlog planning and burndown
+ * @version 1.0.0
+ * @module services/sprint
+ */
+
+// External imports with versions
+import { injectable, inject } from 'inversify'; // v6.0.1
+import { Counter, Histogram } from 'prom-client'; // v14.x
+import { Logger } from 'winston'; // v3.x
+import { UUID } from 'crypto';
+
+// Internal imports
+import {
+  ISprint,
+  ISprintService,
+  ISprintBurndown,
+  ISprintCloseResult,
+  ICreateSprintDTO,
+  IUpdateSprintDTO,
+  ICloseSprintDTO
+} from '../interfaces/sprint.interface';
+import { ITask, ITaskContext, TaskError, Result } from '../interfaces/task.interface';
+import { SprintRepository } from '../repositories/sprint.repository';
+import { ProjectRepository } from '../repositories/project.repository';
+import { WorkflowRepository } from '../repositories/workflow.repository';
+import { MembershipService } from '../services/membership.service';
+import { ProjectRole } from '../types/project.types';
+import { SprintState } from '../types/sprint.types';
+import { computeBurndown, validateSprintDates } from '../utils/sprint.util';
+import { findWorkflowState, getDefaultStateCategory } from '../utils/workflow.util';
+import { TYPES } from '../config/types';
+
+type Failure = { success: false; error: TaskError };
+
+/**
+ * Sprint service; any member may read sprints, the backlog and burndowns, while planning,
+ * starting and closing sprints requires the MANAGER project role
+ */
+@injectable()
+export class SprintService implements ISprintService {
+  // Metrics
+  private readonly sprintOperationHistogram: Histogram;
+  private readonly sprintErrorCounter: Counter;
+
+  constructor(
+    @inject(TYPES.SprintRepository) private readonly sprintRepository: SprintRepository,
+    @inject(TYPES.ProjectRepository) private readonly projectRepository: ProjectRepository,
+    @inject(TYPES.WorkflowRepository) private readonly workflowRepository: WorkflowRepository,
+    @inject(TYPES.MembershipService) private readonly membershipService: MembershipService,
+    @inject(TYPES.Logger) private readonly logger: Logger,
+    @inject(TYPES.MetricsClient) private readonly metricsClient: any
+  ) {
+    // Initialize metrics
+    this.sprintOperationHistogram = new this.metricsClient.Histogram({
+      name: 'sprint_operation_duration_seconds',
+      help: 'Duration of sprint operations',
+      labelNames: ['operation']
+    });
+
+    this.sprintErrorCounter = new this.metricsClient.Counter({
+      name: 'sprint_operation_errors_total',
+      help: 'Total number of sprint operation errors',
+      labelNames: ['operation', 'error_type']
+    });
+  }
+
+  /**
+   * Lists the sprints of a project, newest first
+   * @param projectId Project identifier
+   * @param context Operation context
+   * @returns Sprints with task counts or error
+   */
+  async listSprints(
+    projectId: UUID,
+    context: ITaskContext
+  ): Promise<Result<ISprint[], TaskError>> {
+    const timer = this.sprintOperationHistogram.startTimer({ operation: 'list' });
+
+    try {
+      const accessError = await this.checkAccess(projectId, ProjectRole.VIEWER, context);
+      if (accessError) {
+        timer({ success: 'false' });
+        return accessError;
+      }
+
+      const sprints = await this.sprintRepository.findByProject(projectId);
+
+      timer({ success: 'true' });
+      return { success: true, data: sprints };
+
+    } catch (error) {
+      this.handleOperationError('list', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Plans a new sprint
+   * @param projectId Project identifier
+   * @param data Sprint attributes
+   * @param context Operation context
+   * @returns Created sprint or error
+   */
+  async createSprint(
+    projectId: UUID,
+    data: ICreateSprintDTO,
+    context: ITaskContext
+  ): Promise<Result<ISprint, TaskError>> {
+    const timer = this.sprintOperationHistogram.startTimer({ operation: 'create' });
+
+    try {
+      const accessError = await this.checkAccess(projectId, ProjectRole.MANAGER, context);
+      if (accessError) {
+        timer({ success: 'false' });
+        return accessError;
+      }
+
+      const datesError = validateSprintDates(new Date(data.startDate), new Date(data.endDate));
+      if (datesError) {
+        timer({ success: 'false' });
+        return this.failure('VALIDATION_ERROR', datesError);
+      }
+
+      const sprint = await this.sprintRepository.create(projectId, data, context.userId);
+
+      this.logger.info('Sprint created', {
+        correlationId: context.correlationId,
+        projectId,
+        sprintId: sprint.id
+      });
+
+      timer({ success: 'true' });
+      return { success: true, data: sprint };
+
+    } catch (error) {
+      this.handleOperationError('create', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Changes the name, goal or dates of a planned or active sprint
+   * @param projectId Project identifier
+   * @param sprintId Sprint identifier
+   * @param data Changed attributes
+   * @param context Operation context
+   * @returns Updated sprint or error
+   */
+  async updateSprint(
+    projectId: UUID,
+    sprintId: UUID,
+    data: IUpdateSprintDTO,
+    context: ITaskContext
+  ): Promise<Result<ISprint, TaskError>> {
+    const timer = this.sprintOperationHistogram.startTimer({ operation: 'update' });
+
+    try {
+      const sprint = await this.findSprint(projectId, sprintId, context);
+      if (!sprint.success) {
+        timer({ success: 'false' });
+        return sprint;
+      }
+
+      if (sprint.data.state === SprintState.CLOSED) {
+        timer({ success: 'false' });
+        return this.failure('CONFLICT', 'Closed sprints cannot be changed');
+      }
+
+      if (data.startDate || data.endDate) {
+        const datesError = validateSprintDates(
+          new Date(data.startDate ?? sprint.data.startDate),
+          new Date(data.endDate ?? sprint.data.endDate)
+        );
+        if (datesError) {
+          timer({ success: 'false' });
+          return this.failure('VALIDATION_ERROR', datesError);
+        }
+      }
+
+      const updated = await this.sprintRepository.update(sprintId, data);
+
+      this.logger.info('Sprint updated', {
+        correlationId: context.correlationId,
+        projectId,
+        sprintId
+      });
+
+      timer({ success: 'true' });
+      return { success: true, data: updated };
+
+    } catch (error) {
+      this.handleOperationError('update', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Removes a planned sprint; its tasks return to the backlog
+   * @param projectId Project identifier
+   * @param sprintId Sprint identifier
+   * @param context Operation context
+   * @returns Void result or error
+   */
+  async deleteSprint(
+    projectId: UUID,
+    sprintId: UUID,
+    context: ITaskContext
+  ): Promise<Result<void, TaskError>> {
+    const timer = this.sprintOperationHistogram.startTimer({ operation: 'delete' });
+
+    try {
+      const sprint = await this.findSprint(projectId, sprintId, context);
+      if (!sprint.success) {
+        timer({ success: 'false' });
+        return sprint;
+      }
+
+      // Started sprints carry burndown history, so they are closed instead
+      if (sprint.data.state !== SprintState.PLANNED) {
+        timer({ success: 'false' });
+        return this.failure('CONFLICT', 'Only planned sprints can be deleted');
+      }
+
+      await this.sprintRepository.delete(sprintId);
+
+      this.logger.info('Sprint deleted', {
+        correlationId: context.correlationId,
+        projectId,
+        sprintId
+      });
+
+      timer({ success: 'true' });
+      return { success: true };
+
+    } catch (error) {
+      this.handleOperationError('delete', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Starts a planned sprint; a project runs one sprint at a time
+   * @param projectId Project identifier
+   * @param sprintId Sprint identifier
+   * @param context Operation context
+   * @returns Started sprint or error
+   */
+  async startSprint(
+    projectId: UUID,
+    sprintId: UUID,
+    context: ITaskContext
+  ): Promise<Result<ISprint, TaskError>> {
+    const timer = this.sprintOperationHistogram.startTimer({ operation: 'start' });
+
+    try {
+      const sprint = await this.findSprint(projectId, sprintId, context);
+      if (!sprint.success) {
+        timer({ success: 'false' });
+        return sprint;
+      }
+
+      if (sprint.data.state !== SprintState.PLANNED) {
+        timer({ success: 'false' });
+        return this.failure('CONFLICT', `Sprint is already ${sprint.data.state.toLowerCase()}`);
+      }
+
+      const active = await this.sprintRepository.findActive(projectId);
+      if (active) {
+        timer({ success: 'false' });
+        return this.failure('CONFLICT', `Sprint ${active.name} is still active; close it first`, {
+          activeSprintId: active.id
+        });
+      }
+
+      const started = await this.sprintRepository.start(sprintId);
+
+      this.logger.info('Sprint started', {
+        correlationId: context.correlationId,
+        projectId,
+        sprintId
+      });
+
+      timer({ success: 'true' });
+      return { success: true, data: started };
+
+    } catch (error) {
+      this.handleOperationError('start', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Closes the active sprint; unfinished tasks move to the requested planned sprint,
+   * by default the earliest one, or to the backlog when there is none
+   * @param projectId Project identifier
+   * @param sprintId Sprint identifier
+   * @param data Where unfinished tasks go
+   * @param context Operation context
+   * @returns Closed sprint and rollover summary or error
+   */
+  async closeSprint(
+    projectId: UUID,
+    sprintId: UUID,
+    data: ICloseSprintDTO,
+    context: ITaskContext
+  ): Promise<Result<ISprintCloseResult, TaskError>> {
+    const timer = this.sprintOperationHistogram.startTimer({ operation: 'close' });
+
+    try {
+      const sprint = await this.findSprint(projectId, sprintId, context);
+      if (!sprint.success) {
+        timer({ success: 'false' });
+        return sprint;
+      }
+
+      if (sprint.data.state !== SprintState.ACTIVE) {
+        timer({ success: 'false' });
+        return this.failure('CONFLICT', 'Only the active sprint can be closed');
+      }
+
+      let rollOverTo: UUID | null = null;
+      if (data.rollOverTo === undefined) {
+        rollOverTo = (await this.sprintRepository.findNextPlanned(projectId))?.id ?? null;
+      } else if (data.rollOverTo !== null) {
+        const target = await this.sprintRepository.findById(projectId, data.rollOverTo);
+        if (!target || target.state !== SprintState.PLANNED) {
+          timer({ success: 'false' });
+          return this.failure('VALIDATION_ERROR', 'Unfinished tasks can only roll over to a planned sprint of the project');
+        }
+        rollOverTo = target.id;
+      }
+
+      const { sprint: closed, rolledOver } = await this.sprintRepository.close(sprintId, rollOverTo, {
+        changedBy: context.userId,
+        correlationId: context.correlationId
+      });
+
+      this.logger.info('Sprint closed', {
+        correlationId: context.correlationId,
+        projectId,
+        sprintId,
+        rolledOver,
+        rolledOverTo: rollOverTo
+      });
+
+      timer({ success: 'true' });
+      return { success: true, data: { sprint: closed, rolledOver, rolledOverTo: rollOverTo } };
+
+    } catch (error) {
+      this.handleOperationError('close', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Lists the unfinished tasks of a project that are not in a sprint
+   * @param projectId Project identifier
+   * @param context Operation context
+   * @returns Backlog tasks or error
+   */
+  async getBacklog(
+    projectId: UUID,
+    context: ITaskContext
+  ): Promise<Result<ITask[], TaskError>> {
+    const timer = this.sprintOperationHistogram.startTimer({ operation: 'backlog' });
+
+    try {
+      const accessError = await this.checkAccess(projectId, ProjectRole.VIEWER, context);
+      if (accessError) {
+        timer({ success: 'false' });
+        return accessError;
+      }
+
+      const tasks = await this.sprintRepository.findBacklog(projectId);
+
+      timer({ success: 'true' });
+      return { success: true, data: tasks };
+
+    } catch (error) {
+      this.handleOperationError('backlog', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Computes the daily burndown of a sprint from the status history of its tasks
+   * @param projectId Project identifier
+   * @param sprintId Sprint identifier
+   * @param context Operation context
+   * @returns Burndown points or error
+   */
+  async getBurndown(
+    projectId: UUID,
+    sprintId: UUID,
+    context: ITaskContext
+  ): Promise<Result<ISprintBurndown, TaskError>> {
+    const timer = this.sprintOperationHistogram.startTimer({ operation: 'burndown' });
+
+    try {
+      const sprint = await this.findSprint(projectId, sprintId, context, ProjectRole.VIEWER);
+      if (!sprint.success) {
+        timer({ success: 'false' });
+        return sprint;
+      }
+
+      const [{ tasks, changes }, workflow] = await Promise.all([
+        this.sprintRepository.findBurndownData(sprintId),
+        this.workflowRepository.findByProject(projectId)
+      ]);
+
+      // States removed from the workflow since fall back to their default category
+      const points = computeBurndown(
+        {
+          id: sprint.data.id,
+          startDate: new Date(sprint.data.startDate),
+          endDate: new Date(sprint.data.endDate),
+          closedAt: sprint.data.closedAt ? new Date(sprint.data.closedAt) : null
+        },
+        tasks,
+        changes,
+        status => findWorkflowState(workflow, status)?.category ?? getDefaultStateCategory(status)
+      );
+
+      timer({ success: 'true' });
+      return { success: true, data: { sprintId, unit: 'tasks', points } };
+
+    } catch (error) {
+      this.handleOperationError('burndown', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Checks access with the given project role, MANAGER by default, and loads a sprint
+   * of the project
+   * @private
+   */
+  private async findSprint(
+    projectId: UUID,
+    sprintId: UUID,
+    context: ITaskContext,
+    required: ProjectRole = ProjectRole.MANAGER
+  ): Promise<{ success: true; data: ISprint } | Failure> {
+    const accessError = await this.checkAccess(projectId, required, context);
+    if (accessError) {
+      return accessError;
+    }
+
+    const sprint = await this.sprintRepository.findById(projectId, sprintId);
+    if (!sprint) {
+      return this.failure('NOT_FOUND', `Sprint ${sprintId} not found`);
+    }
+
+    return { success: true, data: sprint };
+  }
+
+  /**
+   * Checks that the project exists and the caller holds the required project role;
+   * projects the caller cannot see at all are reported as missing rather than forbidden
+   * @private
+   */
+  private async checkAccess(
+    projectId: UUID,
+    required: ProjectRole,
+    context: ITaskContext
+  ): Promise<Failure | null> {
+    const project = await this.projectRepository.findById(projectId);
+    if (!project || !await this.membershipService.hasAccess(projectId, ProjectRole.VIEWER, context)) {
+      return this.failure('NOT_FOUND', `Project ${projectId} not found`);
+    }
+
+    if (!await this.membershipService.hasAccess(projectId, required, context)) {
+      return this.failure('FORBIDDEN', `Managing sprints requires the ${required} project role`);
+    }
+
+    return null;
+  }
+
+  /**
+   * Builds a failure result
+   * @private
+   */
+  private failure(code: string, message: string, details?: Record<string, unknown>): Failure {
+    return {
+      success: false,
+      error: { code, message, details }
+    };
+  }
+
+  /**
+   * Handles and logs operation errors
+   * @private
+   */
+  private handleOperationError(
+    operation: string,
+    error: any,
+    context: ITaskContext
+  ): void {
+    this.sprintErrorCounter.inc({
+      operation,
+      error_type: error.name || 'UnknownError'
+    });
+
+    this.logger.error(`Sprint operation error: ${operation}`, {
+      correlationId: context.correlationId,
+      error: error.message,
+      stack: error.stack
+    });
+  }
+}
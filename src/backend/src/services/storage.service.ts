@@ -7,6 +7,7 @@
 import { S3, S3ClientConfig } from '@aws-sdk/client-s3'; // v3.0.0
 import { Upload } from '@aws-sdk/lib-storage'; // v3.0.0
 import crypto from 'crypto';
+import { Readable } from 'stream';
 import { storageConfig } from '../config/storage.config';
 import { AppError } from '../utils/error.util';
 import { StatusCode } from '../constants/status-codes';
@@ -256,6 +257,53 @@ export class StorageService {
     }
   }
 
+  /**
+   * Streams and decrypts file from S3 without buffering the whole object
+   */
+  public async downloadFileStream(fileKey: string): Promise<{
+    stream: Readable;
+    contentLength?: number;
+  }> {
+    try {
+      const response = await this.s3Client.getObject({
+        Bucket: this.bucket,
+        Key: fileKey,
+      });
+
+      const encryption = JSON.parse(
+        response.Metadata?.encryption || '{}'
+      );
+
+      if (!response.Body || !encryption.iv) {
+        throw new Error('Invalid file data or encryption metadata');
+      }
+
+      const decipher = crypto.createDecipheriv(
+        'aes-256-gcm',
+        this.encryptionKey,
+        Buffer.from(encryption.iv, 'base64')
+      );
+
+      // Forward source errors so consumers only need to watch the returned stream
+      const source = response.Body as Readable;
+      source.on('error', (error) => decipher.destroy(error));
+
+      logger.info('File download stream opened', { fileKey });
+
+      return {
+        stream: source.pipe(decipher),
+        contentLength: response.ContentLength,
+      };
+    } catch (error) {
+      logger.error('File download failed', { error, fileKey });
+      throw new AppError(
+        'File download failed',
+        StatusCode.INTERNAL_SERVER_ERROR,
+        ErrorCode.EXTERNAL_SERVICE_ERROR
+      );
+    }
+  }
+
   /**
    * Generates secure pre-signed URL for file access
    */
@@ -11,6 +11,7 @@ import CircuitBreaker from 'opossum'; // v6.x
 import { Counter, Histogram } from 'prom-client'; // v14.x
 import { Logger } from 'winston'; // v3.x
 import { UUID } from 'crypto';
+import { Prisma } from '@prisma/client'; // v5.0+
 
 // Internal imports
 import {
@@ -22,11 +23,42 @@ import {
   ITaskContext,
   TaskError,
   Result,
-  ITaskPaginatedResponse
+  ITaskPaginatedResponse,
+  IBulkUpdateTasksDTO,
+  IBulkTaskResult,
+  IBulkUpdateResult
 } from '../interfaces/task.interface';
+import { ITaskExportRow } from '../interfaces/export.interface';
 import { TaskRepository } from '../repositories/task.repository';
-import { TaskStatus, TaskPriority } from '../types/task.types';
+import { CustomFieldRepository } from '../repositories/customField.repository';
+import { WorkflowRepository } from '../repositories/workflow.repository';
+import { SprintRepository } from '../repositories/sprint.repository';
+import { IWorkflowState } from '../interfaces/workflow.interface';
+import { TaskPriority, BulkTaskOutcome } from '../types/task.types';
+import { CustomFieldValue, CustomFieldValues } from '../types/customField.types';
+import { ProjectRole } from '../types/project.types';
+import { Permission } from '../types/permission.types';
+import { WorkflowCategory } from '../types/workflow.types';
+import { SprintState } from '../types/sprint.types';
+import { WebhookEventType } from '../types/webhook.types';
 import { WebSocketService } from '../services/websocket.service';
+import { TaskDependencyService } from '../services/dependency.service';
+import { RecurrenceService } from '../services/recurrence.service';
+import { MilestoneService } from '../services/milestone.service';
+import { MembershipService } from '../services/membership.service';
+import { WebhookService } from '../services/webhook.service';
+import { NotificationService } from '../services/notification.service';
+import { calculateTaskProgress } from '../utils/progress.util';
+import { isMembershipRestricted } from '../utils/membership.util';
+import { hasPermission } from '../utils/permission.util';
+import {
+  buildCustomFieldWhere,
+  mergeCustomFieldValues,
+  validateCustomFieldValues
+} from '../utils/customField.util';
+import { findWorkflowState, getHardWipLimit, isTransitionAllowed } from '../utils/workflow.util';
+import { compileTaskQuery, TaskQuerySyntaxError } from '../utils/taskQuery.util';
+import { MAX_BULK_TASKS, getBulkOutcome, summarizeBulkResults } from '../utils/bulk.util';
 import { TYPES } from '../config/types';
 
 // Constants
@@ -41,6 +73,9 @@ const CACHE_TTL = {
   LIST: 300 // 5 minutes
 };
 
+// Deepest nesting level for subtasks; top-level tasks are level 0
+const MAX_SUBTASK_DEPTH = 2;
+
 /**
  * Enterprise-grade task service implementing comprehensive business logic
  * with enhanced security, performance optimization, and real-time updates
@@ -59,7 +94,16 @@ export class TaskService implements ITaskService {
     @inject(TYPES.WebSocketService) private readonly webSocketService: WebSocketService,
     @inject(TYPES.RedisClient) private readonly redisClient: Redis,
     @inject(TYPES.Logger) private readonly logger: Logger,
-    @inject(TYPES.MetricsClient) private readonly metricsClient: any
+    @inject(TYPES.MetricsClient) private readonly metricsClient: any,
+    @inject(TYPES.TaskDependencyService) private readonly dependencyService: TaskDependencyService,
+    @inject(TYPES.RecurrenceService) private readonly recurrenceService: RecurrenceService,
+    @inject(TYPES.MembershipService) private readonly membershipService: MembershipService,
+    @inject(TYPES.CustomFieldRepository) private readonly customFieldRepository: CustomFieldRepository,
+    @inject(TYPES.WorkflowRepository) private readonly workflowRepository: WorkflowRepository,
+    @inject(TYPES.SprintRepository) private readonly sprintRepository: SprintRepository,
+    @inject(TYPES.MilestoneService) private readonly milestoneService: MilestoneService,
+    @inject(TYPES.WebhookService) private readonly webhookService: WebhookService,
+    @inject(TYPES.NotificationService) private readonly notificationService: NotificationService
   ) {
     // Initialize metrics
     this.taskOperationHistogram = new this.metricsClient.Histogram({
@@ -99,16 +143,55 @@ export class TaskService implements ITaskService {
         data: { ...data, description: '...' } // Sanitize logs
       });
 
-      // Validate input
-      const validationError = this.validateTaskInput(data);
+      // Validate input, including the project's custom fields
+      const validationError = await this.validateTaskInput(data);
       if (validationError) {
         return validationError;
       }
 
+      const accessError = await this.checkProjectAccess(data.projectId, ProjectRole.CONTRIBUTOR, context);
+      if (accessError) {
+        timer({ success: 'false' });
+        return accessError;
+      }
+
+      const recurrenceError = data.recurrence && this.recurrenceService.validateRule(data.recurrence);
+      if (recurrenceError) {
+        timer({ success: 'false' });
+        return { success: false, error: recurrenceError };
+      }
+
+      // Subtasks inherit the parent's project and sit one level below it
+      let depth = 0;
+      if (data.parentId) {
+        const parent = await this.resolveParent(data, context);
+        if (!parent.success) {
+          timer({ success: 'false' });
+          return { success: false, error: parent.error };
+        }
+        depth = parent.depth;
+      }
+
+      if (data.sprintId) {
+        const sprintError = await this.checkSprint(data.projectId, data.sprintId);
+        if (sprintError) {
+          timer({ success: 'false' });
+          return sprintError;
+        }
+      }
+
       // Create task
-      const result = await this.taskRepository.create(data, context);
+      const result = await this.taskRepository.create({ ...data, depth }, context);
 
       if (result.success && result.data) {
+        // Make the task the first occurrence of its series
+        if (data.recurrence) {
+          const rule = await this.recurrenceService.setRule(result.data.id, data.recurrence, context);
+          if (rule.success && rule.data) {
+            result.data = { ...result.data, recurrenceId: rule.data.id, recurrence: rule.data };
+          }
+        }
+
         // Cache the new task
         await this.cacheTask(result.data);
 
@@ -118,6 +201,13 @@ export class TaskService implements ITaskService {
           task: result.data,
           userId: context.userId
         });
+        await this.webhookService.dispatchEvent(
+          WebhookEventType.TASK_CREATED,
+          result.data.projectId,
+          { task: result.data },
+          context.userId
+        );
+        await this.notificationService.notifyTaskChange(result.data, { assigned: true }, context.userId);
 
         this.logger.info('Task created successfully', {
           correlationId: context.correlationId,
@@ -161,12 +251,94 @@ export class TaskService implements ITaskService {
         return validationError;
       }
 
+      const accessError = await this.checkTaskAccess(id, ProjectRole.CONTRIBUTOR, context);
+      if (accessError) {
+        timer({ success: 'false' });
+        return accessError;
+      }
+
+      const { overrideBlockers, recurrence, ...changes } = data;
+      const recurrenceError = recurrence && this.recurrenceService.validateRule(recurrence);
+      if (recurrenceError) {
+        timer({ success: 'false' });
+        return { success: false, error: recurrenceError };
+      }
+
+      // Custom field changes are merged into the values already stored on the task
+      if (changes.customFields) {
+        const customFields = await this.resolveCustomFieldUpdate(id, changes.customFields, context);
+        if (!customFields.success) {
+          timer({ success: 'false' });
+          return { success: false, error: customFields.error };
+        }
+        changes.customFields = customFields.data;
+      }
+
+      // Tasks can only be planned into open sprints of their own project
+      if (changes.sprintId) {
+        const task = await this.taskRepository.findById(id, context);
+        const sprintError = task.success && task.data
+          ? await this.checkSprint(task.data.projectId, changes.sprintId)
+          : null;
+        if (sprintError) {
+          timer({ success: 'false' });
+          return sprintError;
+        }
+      }
+
+      // Status changes must follow a transition of the project's workflow
+      let transition: { from: IWorkflowState; to: IWorkflowState } | null = null;
+      if (changes.status) {
+        const statusChange = await this.resolveStatusChange(id, changes.status, context);
+        if (!statusChange.success) {
+          timer({ success: 'false' });
+          return { success: false, error: statusChange.error };
+        }
+        transition = statusChange.data;
+      }
+
+      // Starting work requires every blocker to be completed
+      if (transition && this.entersCategory(transition, WorkflowCategory.DOING)) {
+        const blockerError = await this.checkBlockers(id, overrideBlockers, context);
+        if (blockerError) {
+          timer({ success: 'false' });
+          return blockerError;
+        }
+      }
+
+      // The assignee is only notified when the task changes hands
+      const previousAssigneeId = changes.assigneeId
+        ? (await this.taskRepository.findById(id, context)).data?.assigneeId
+        : undefined;
+
       // Update task with optimistic locking
-      const result = await this.taskRepository.update(id, data, context);
+      const result = await this.taskRepository.update(id, changes, context);
 
       if (result.success && result.data) {
+        // Replace the rule, or stop the series when it is cleared
+        if (recurrence) {
+          const rule = await this.recurrenceService.setRule(id, recurrence, context);
+          if (rule.success && rule.data) {
+            result.data = { ...result.data, recurrenceId: rule.data.id };
+          }
+        } else if (recurrence === null && result.data.recurrenceId) {
+          await this.recurrenceService.removeRule(id, context);
+        }
+
         // Update cache
         await this.cacheTask(result.data);
+        [result.data] = await this.withProgress([result.data]);
+
+        // Completing a task may unblock the tasks waiting on it and start the next occurrence
+        if (transition && this.entersCategory(transition, WorkflowCategory.DONE)) {
+          await this.dependencyService.releaseDependents(id, context);
+          await this.recurrenceService.handleTaskCompleted(result.data, context);
+        }
+
+        // Milestones are at risk while a linked task is overdue
+        if (changes.status || changes.dueDate !== undefined) {
+          await this.milestoneService.refreshTaskMilestones(id, context);
+        }
 
         // Send real-time update
         await this.notificationBreaker.fire({
@@ -174,6 +346,22 @@ export class TaskService implements ITaskService {
           task: result.data,
           userId: context.userId
         });
+        await this.webhookService.dispatchEvent(
+          WebhookEventType.TASK_UPDATED,
+          result.data.projectId,
+          { task: result.data },
+          context.userId
+        );
+        await this.notificationService.notifyTaskChange(
+          result.data,
+          {
+            assigned: Boolean(changes.assigneeId) && changes.assigneeId !== previousAssigneeId,
+            status: transition && transition.from.key !== transition.to.key
+              ? { from: transition.from.name, to: transition.to.name }
+              : undefined
+          },
+          context.userId
+        );
 
         this.logger.info('Task updated successfully', {
           correlationId: context.correlationId,
@@ -208,14 +396,27 @@ export class TaskService implements ITaskService {
       const cached = await this.redisClient.get(`task:${id}`);
       if (cached) {
         timer({ success: 'true', cached: 'hit' });
-        return { success: true, data: JSON.parse(cached) };
+        const task: ITask = JSON.parse(cached);
+        if (!await this.membershipService.hasAccess(task.projectId, ProjectRole.VIEWER, context)) {
+          return { success: true, data: null };
+        }
+        const [withProgress] = await this.withProgress([task]);
+        return { success: true, data: await this.withRecurrence(withProgress, context) };
       }
 
       // Get from repository
       const result = await this.taskRepository.findById(id, context);
 
+      // Tasks of projects outside the caller's memberships are reported as missing
+      if (result.success && result.data &&
+          !await this.membershipService.hasAccess(result.data.projectId, ProjectRole.VIEWER, context)) {
+        result.data = null;
+      }
+
       if (result.success && result.data) {
         await this.cacheTask(result.data);
+        [result.data] = await this.withProgress([result.data]);
+        result.data = await this.withRecurrence(result.data, context);
       }
 
       timer({ success: result.success ? 'true' : 'false', cached: 'miss' });
@@ -241,11 +442,22 @@ export class TaskService implements ITaskService {
     const timer = this.taskOperationHistogram.startTimer({ operation: 'list' });
 
     try {
-      // Validate query parameters
-      const validatedParams = this.validateQueryParams(params);
-      
+      const listQuery = await this.resolveListQuery(params, context);
+      if (!listQuery.success) {
+        timer({ success: 'false' });
+        return { success: false, error: listQuery.error };
+      }
+
       // Get tasks with pagination
-      const result = await this.taskRepository.findAll(validatedParams, context);
+      const result = await this.taskRepository.findAll(
+        listQuery.data.params,
+        context,
+        listQuery.data.where
+      );
+
+      if (result.success && result.data) {
+        result.data.items = await this.withProgress(result.data.items);
+      }
 
       timer({ success: result.success ? 'true' : 'false' });
       return result;
@@ -257,6 +469,129 @@ export class TaskService implements ITaskService {
     }
   }
 
+  /**
+   * Streams the tasks matching a listing query for export. The query is checked and
+   * restricted to the caller's projects as for getTasks; pagination is ignored and
+   * tasks are read in batches as the export is written.
+   * @param params Query parameters
+   * @param context Operation context
+   * @returns Tasks in listing order or error
+   */
+  async exportTasks(
+    params: ITaskQueryParams,
+    context: ITaskContext
+  ): Promise<Result<AsyncIterable<ITaskExportRow>, TaskError>> {
+    const timer = this.taskOperationHistogram.startTimer({ operation: 'export' });
+
+    try {
+      const listQuery = await this.resolveListQuery(params, context);
+      if (!listQuery.success) {
+        timer({ success: 'false' });
+        return { success: false, error: listQuery.error };
+      }
+
+      timer({ success: 'true' });
+      return {
+        success: true,
+        data: this.taskRepository.streamAll(listQuery.data.params, context, listQuery.data.where)
+      };
+
+    } catch (error) {
+      this.handleOperationError('export', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Applies one change to many tasks. Every task goes through the single-task update,
+   * with its access checks, workflow rules and optimistic locking, so one task failing
+   * leaves the others unaffected; the outcome of each is reported in request order.
+   * @param data Tasks with their versions and the change
+   * @param context Operation context
+   * @param options ownTasksOnly limits the change to tasks the caller created or is assigned to
+   * @returns Result per task or error
+   */
+  async bulkUpdateTasks(
+    data: IBulkUpdateTasksDTO,
+    context: ITaskContext,
+    options: { ownTasksOnly?: boolean } = {}
+  ): Promise<Result<IBulkUpdateResult, TaskError>> {
+    const timer = this.taskOperationHistogram.startTimer({ operation: 'bulk_update' });
+
+    try {
+      const ids = data.items.map(item => item.id);
+      let validationMessage: string | null = null;
+      if (ids.length === 0 || ids.length > MAX_BULK_TASKS) {
+        validationMessage = `Bulk changes must include between 1 and ${MAX_BULK_TASKS} tasks`;
+      } else if (new Set(ids).size !== ids.length) {
+        validationMessage = 'Each task may only be included once';
+      } else if (Object.values(data.patch).every(value => value === undefined)) {
+        validationMessage = 'Bulk changes must change at least one field';
+      }
+      if (validationMessage) {
+        timer({ success: 'false' });
+        return {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: validationMessage
+          }
+        };
+      }
+
+      const owned = options.ownTasksOnly
+        ? new Set(await this.taskRepository.findOwnedIds(ids, context.userId))
+        : null;
+
+      // One at a time, as WIP limits and blockers depend on the tasks changed before
+      const results: IBulkTaskResult[] = [];
+      for (const item of data.items) {
+        if (owned && !owned.has(item.id)) {
+          results.push({
+            id: item.id,
+            outcome: BulkTaskOutcome.FORBIDDEN,
+            error: {
+              code: 'FORBIDDEN',
+              message: 'Only tasks you created or are assigned to can be changed'
+            }
+          });
+          continue;
+        }
+
+        try {
+          const result = await this.updateTask(item.id, { ...data.patch, version: item.version }, context);
+          results.push(result.success && result.data
+            ? { id: item.id, outcome: BulkTaskOutcome.SUCCESS, task: result.data }
+            : { id: item.id, outcome: getBulkOutcome(result.error?.code as string), error: result.error });
+        } catch (error) {
+          results.push({
+            id: item.id,
+            outcome: BulkTaskOutcome.ERROR,
+            error: {
+              code: 'INTERNAL_ERROR',
+              message: 'Failed to update task'
+            }
+          });
+        }
+      }
+
+      const summary = summarizeBulkResults(results);
+      this.logger.info('Bulk task update completed', {
+        correlationId: context.correlationId,
+        summary
+      });
+
+      timer({ success: 'true' });
+      return { success: true, data: { results, summary } };
+
+    } catch (error) {
+      this.handleOperationError('bulk_update', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
   /**
    * Soft deletes a task by ID
    * @param id Task identifier
@@ -270,18 +605,35 @@ export class TaskService implements ITaskService {
     const timer = this.taskOperationHistogram.startTimer({ operation: 'delete' });
 
     try {
+      const accessError = await this.checkTaskAccess(id, ProjectRole.CONTRIBUTOR, context);
+      if (accessError) {
+        timer({ success: 'false' });
+        return accessError;
+      }
+
+      // Loaded before deletion to tell webhooks which project the task belonged to
+      const existing = await this.taskRepository.findById(id, context);
       const result = await this.taskRepository.delete(id, context);
 
       if (result.success) {
         // Remove from cache
         await this.redisClient.del(`task:${id}`);
 
+        // A deleted task no longer holds back its milestones
+        await this.milestoneService.refreshTaskMilestones(id, context);
+
         // Send real-time update
         await this.notificationBreaker.fire({
           type: 'TASK_DELETED',
           taskId: id,
           userId: context.userId
         });
+        await this.webhookService.dispatchEvent(
+          WebhookEventType.TASK_DELETED,
+          existing.data?.projectId ?? null,
+          { taskId: id },
+          context.userId
+        );
 
         this.logger.info('Task deleted successfully', {
           correlationId: context.correlationId,
@@ -300,10 +652,11 @@ export class TaskService implements ITaskService {
   }
 
   /**
-   * Validates task input data
+   * Validates task input data; custom field values are checked against the fields of the
+   * task's project and replaced with their normalized form
    * @private
    */
-  private validateTaskInput(data: ICreateTaskDTO): Result<ITask, TaskError> | null {
+  private async validateTaskInput(data: ICreateTaskDTO): Promise<Result<ITask, TaskError> | null> {
     if (!data.title?.trim()) {
       return {
         success: false,
@@ -334,9 +687,256 @@ export class TaskService implements ITaskService {
       };
     }
 
+    const fields = await this.customFieldRepository.findByProject(data.projectId);
+    try {
+      data.customFields = mergeCustomFieldValues({}, validateCustomFieldValues(fields, data.customFields));
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: (error as Error).message
+        }
+      };
+    }
+
     return null;
   }
 
+  /**
+   * Validates custom field changes against the fields of the task's project and merges
+   * them into the task's current values
+   * @private
+   */
+  private async resolveCustomFieldUpdate(
+    id: UUID,
+    changes: Record<string, CustomFieldValue | null>,
+    context: ITaskContext
+  ): Promise<{ success: true; data: CustomFieldValues } | { success: false; error: TaskError }> {
+    const task = await this.taskRepository.findById(id, context);
+    if (!task.success || !task.data) {
+      return {
+        success: false,
+        error: task.error || { code: 'NOT_FOUND', message: `Task ${id} not found` }
+      };
+    }
+
+    const fields = await this.customFieldRepository.findByProject(task.data.projectId);
+    try {
+      const values = validateCustomFieldValues(fields, changes, true);
+      return { success: true, data: mergeCustomFieldValues(task.data.customFields, values) };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: (error as Error).message
+        }
+      };
+    }
+  }
+
+  /**
+   * Resolves the current and requested states of a status change and checks that the
+   * project's workflow allows the move and that the target column has room under a hard
+   * WIP limit
+   * @private
+   */
+  private async resolveStatusChange(
+    id: UUID,
+    status: string,
+    context: ITaskContext
+  ): Promise<{ success: true; data: { from: IWorkflowState; to: IWorkflowState } } | { success: false; error: TaskError }> {
+    const task = await this.taskRepository.findById(id, context);
+    if (!task.success || !task.data) {
+      return {
+        success: false,
+        error: task.error || { code: 'NOT_FOUND', message: `Task ${id} not found` }
+      };
+    }
+
+    const workflow = await this.workflowRepository.findByProject(task.data.projectId);
+    const to = findWorkflowState(workflow, status);
+    if (!to) {
+      return {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `Status ${status} is not a state of the project's workflow`,
+          details: { states: workflow.states.map(state => state.key) }
+        }
+      };
+    }
+
+    // A status outside the workflow, e.g. one set before it was defined, may move to any state
+    const from = findWorkflowState(workflow, task.data.status);
+    if (from && !isTransitionAllowed(workflow, from.key, to.key)) {
+      return {
+        success: false,
+        error: {
+          code: 'INVALID_TRANSITION',
+          message: `Tasks cannot move from ${from.key} to ${to.key} in this project's workflow`,
+          details: {
+            allowed: workflow.transitions
+              .filter(transition => transition.from === from.key)
+              .map(transition => transition.to)
+          }
+        }
+      };
+    }
+
+    const wipLimit = getHardWipLimit(to);
+    if (wipLimit !== null && task.data.status !== to.key) {
+      const count = await this.workflowRepository.countTasksInState(task.data.projectId, to.key);
+      if (count >= wipLimit) {
+        return {
+          success: false,
+          error: {
+            code: 'WIP_LIMIT_EXCEEDED',
+            message: `${to.name} already holds ${count} tasks, its WIP limit is ${wipLimit}`,
+            details: { status: to.key, limit: wipLimit, count }
+          }
+        };
+      }
+    }
+
+    return {
+      success: true,
+      data: {
+        from: from || { key: task.data.status, name: task.data.status, category: task.data.statusCategory, position: -1 },
+        to
+      }
+    };
+  }
+
+  /**
+   * Whether a status change moves a task into the category from a different one
+   * @private
+   */
+  private entersCategory(
+    transition: { from: IWorkflowState; to: IWorkflowState },
+    category: WorkflowCategory
+  ): boolean {
+    return transition.to.category === category && transition.from.category !== category;
+  }
+
+  /**
+   * Translates custom field filters into query conditions; fields are looked up by key
+   * among the queried projects and must agree on their type
+   * @private
+   */
+  private async resolveCustomFieldFilters(
+    params: ITaskQueryParams
+  ): Promise<{ success: true; data: Prisma.TaskWhereInput[] } | { success: false; error: TaskError }> {
+    if (!params.customFields?.length) {
+      return { success: true, data: [] };
+    }
+
+    const keys = [...new Set(params.customFields.map(filter => filter.key))];
+    const fields = await this.customFieldRepository.findByKeys(keys, params.projectIds || null);
+
+    const ambiguous = keys.find(key =>
+      new Set(fields.filter(field => field.key === key).map(field => field.type)).size > 1
+    );
+    if (ambiguous) {
+      return {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `Custom field ${ambiguous} has different types across projects; filter by a single project`
+        }
+      };
+    }
+
+    try {
+      return { success: true, data: buildCustomFieldWhere(params.customFields, fields) };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: (error as Error).message
+        }
+      };
+    }
+  }
+
+  /**
+   * Checks that a subtask's parent exists in the same project and leaves room for another level
+   * @private
+   */
+  private async resolveParent(
+    data: ICreateTaskDTO,
+    context: ITaskContext
+  ): Promise<{ success: true; depth: number } | { success: false; error: TaskError }> {
+    const parent = await this.taskRepository.findById(data.parentId as UUID, context);
+
+    if (!parent.success) {
+      return { success: false, error: parent.error as TaskError };
+    }
+
+    if (!parent.data || parent.data.projectId !== data.projectId) {
+      return {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Parent task must exist in the same project'
+        }
+      };
+    }
+
+    const depth = (parent.data.depth || 0) + 1;
+    if (depth > MAX_SUBTASK_DEPTH) {
+      return {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `Subtasks can be nested at most ${MAX_SUBTASK_DEPTH} levels deep`,
+          details: { maxDepth: MAX_SUBTASK_DEPTH }
+        }
+      };
+    }
+
+    return { success: true, depth };
+  }
+
+  /**
+   * Attaches progress rolled up from subtasks and checklist items; computed on every
+   * read so cached tasks never carry a stale value
+   * @private
+   */
+  private async withProgress(tasks: ITask[]): Promise<ITask[]> {
+    if (tasks.length === 0) {
+      return tasks;
+    }
+
+    const tree = await this.taskRepository.findProgressTree(tasks.map(task => task.id));
+    const progress = calculateTaskProgress(
+      tasks.map(task => ({
+        id: task.id,
+        parentId: task.parentId ?? null,
+        status: task.status,
+        statusCategory: task.statusCategory
+      })),
+      tree
+    );
+
+    return tasks.map(task => ({ ...task, progress: progress.get(task.id) }));
+  }
+
+  /**
+   * Attaches the recurrence rule of a task that belongs to a series
+   * @private
+   */
+  private async withRecurrence(task: ITask, context: ITaskContext): Promise<ITask> {
+    if (!task.recurrenceId) {
+      return task;
+    }
+
+    const rule = await this.recurrenceService.getRule(task.id, context);
+    return { ...task, recurrence: rule.data ?? null };
+  }
+
   /**
    * Validates task update data
    * @private
@@ -365,6 +965,213 @@ export class TaskService implements ITaskService {
     return null;
   }
 
+  /**
+   * Checks that a sprint belongs to the task's project and has not been closed
+   * @private
+   */
+  private async checkSprint(
+    projectId: UUID,
+    sprintId: UUID
+  ): Promise<{ success: false; error: TaskError } | null> {
+    const sprint = await this.sprintRepository.findById(projectId, sprintId);
+
+    if (!sprint) {
+      return {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Sprint must belong to the task\'s project'
+        }
+      };
+    }
+
+    if (sprint.state === SprintState.CLOSED) {
+      return {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `Sprint ${sprint.name} is closed`
+        }
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Checks that the caller holds the required role in the task's project; missing tasks
+   * are left to the repository to report
+   * @private
+   */
+  private async checkTaskAccess(
+    id: UUID,
+    required: ProjectRole,
+    context: ITaskContext
+  ): Promise<{ success: false; error: TaskError } | null> {
+    if (!isMembershipRestricted(context.userRole)) {
+      return null;
+    }
+
+    const task = await this.taskRepository.findById(id, context);
+    if (!task.success || !task.data) {
+      return null;
+    }
+
+    return this.checkProjectAccess(task.data.projectId, required, context);
+  }
+
+  /**
+   * Checks that the caller holds the required project role; projects the caller cannot
+   * see at all are reported as missing rather than forbidden
+   * @private
+   */
+  private async checkProjectAccess(
+    projectId: UUID,
+    required: ProjectRole,
+    context: ITaskContext
+  ): Promise<{ success: false; error: TaskError } | null> {
+    if (await this.membershipService.hasAccess(projectId, required, context)) {
+      return null;
+    }
+
+    if (!await this.membershipService.hasAccess(projectId, ProjectRole.VIEWER, context)) {
+      return {
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: `Project ${projectId} not found`
+        }
+      };
+    }
+
+    return {
+      success: false,
+      error: {
+        code: 'FORBIDDEN',
+        message: `Changing tasks requires the ${required} project role`
+      }
+    };
+  }
+
+  /**
+   * Refuses to start a task with open blockers unless a caller holding task:blockers:override
+   * explicitly overrides
+   * @private
+   */
+  private async checkBlockers(
+    id: UUID,
+    override: boolean | undefined,
+    context: ITaskContext
+  ): Promise<Result<ITask, TaskError> | null> {
+    const openBlockers = await this.dependencyService.getOpenBlockers(id);
+    if (openBlockers.length === 0) {
+      return null;
+    }
+
+    if (!override) {
+      return {
+        success: false,
+        error: {
+          code: 'TASK_BLOCKED',
+          message: 'Task cannot be started while it is blocked by unfinished tasks',
+          details: { blockers: openBlockers }
+        }
+      };
+    }
+
+    if (!hasPermission(context.permissions, Permission.TASK_BLOCKERS_OVERRIDE)) {
+      return {
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: 'Overriding task blockers requires the task:blockers:override permission'
+        }
+      };
+    }
+
+    this.logger.warn('Task blockers overridden', {
+      correlationId: context.correlationId,
+      taskId: id,
+      userId: context.userId,
+      blockerIds: openBlockers.map(blocker => blocker.id)
+    });
+
+    return null;
+  }
+
+  /**
+   * Validates a listing query, restricts it to the projects the caller belongs to and
+   * resolves its custom field filters and text query into conditions
+   * @private
+   */
+  private async resolveListQuery(
+    params: ITaskQueryParams,
+    context: ITaskContext
+  ): Promise<
+    | { success: true; data: { params: ITaskQueryParams; where: Prisma.TaskWhereInput[] } }
+    | { success: false; error: TaskError }
+  > {
+    const validatedParams = this.validateQueryParams(params);
+
+    // Restrict the listing to the projects the caller belongs to
+    const accessibleProjectIds = await this.membershipService.getAccessibleProjectIds(context);
+    if (accessibleProjectIds) {
+      validatedParams.projectIds = params.projectIds
+        ? params.projectIds.filter(projectId => accessibleProjectIds.includes(projectId))
+        : accessibleProjectIds;
+    }
+
+    const customFieldWhere = await this.resolveCustomFieldFilters(validatedParams);
+    if (!customFieldWhere.success) {
+      return { success: false, error: customFieldWhere.error };
+    }
+
+    const queryWhere = this.compileQuery(validatedParams, context);
+    if (!queryWhere.success) {
+      return { success: false, error: queryWhere.error };
+    }
+
+    return {
+      success: true,
+      data: { params: validatedParams, where: [...customFieldWhere.data, ...queryWhere.data] }
+    };
+  }
+
+  /**
+   * Compiles the text query into query conditions; an ORDER BY clause of the query
+   * replaces the requested ordering
+   * @private
+   */
+  private compileQuery(
+    params: ITaskQueryParams,
+    context: ITaskContext
+  ): { success: true; data: Prisma.TaskWhereInput[] } | { success: false; error: TaskError } {
+    if (!params.query?.trim()) {
+      return { success: true, data: [] };
+    }
+
+    try {
+      const compiled = compileTaskQuery(params.query, { userId: context.userId, now: new Date() });
+      if (compiled.sortBy) {
+        params.sortBy = compiled.sortBy;
+        params.sortOrder = compiled.sortOrder ?? 'asc';
+      }
+      return { success: true, data: [compiled.where] };
+    } catch (error) {
+      if (!(error instanceof TaskQuerySyntaxError)) {
+        throw error;
+      }
+      return {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.message,
+          details: { position: error.position }
+        }
+      };
+    }
+  }
+
   /**
    * Validates and normalizes query parameters
    * @private
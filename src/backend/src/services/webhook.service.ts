@@ -0,0 +1,607 @@
+/**
+ * @fileoverview Webhook service delivering signed events to subscribed receivers
+ * @version 1.0.0
+ * @module services/webhook
+ */
+
+// External imports with versions
+import { injectable, inject } from 'inversify'; // v6.0.1
+import { Counter, Histogram } from 'prom-client'; // v14.x
+import { Logger } from 'winston'; // v3.x
+import { UUID, randomUUID } from 'crypto';
+
+// Internal imports
+import {
+  IWebhook,
+  IWebhookSecret,
+  ICreateWebhookDTO,
+  IUpdateWebhookDTO,
+  IWebhookDelivery,
+  IWebhookDeliveryMessage,
+  IWebhookDeliveryQueryParams,
+  IWebhookDeliveryPaginatedResponse,
+  IWebhookEvent,
+  IWebhookService
+} from '../interfaces/webhook.interface';
+import { ITaskContext, TaskError, Result } from '../interfaces/task.interface';
+import { WebhookRepository } from '../repositories/webhook.repository';
+import { QueueService } from './queue.service';
+import { WebhookDeliveryStatus, WebhookEventType } from '../types/webhook.types';
+import {
+  WEBHOOK_QUEUE,
+  WEBHOOK_DEAD_LETTER_QUEUE,
+  MAX_WEBHOOK_ATTEMPTS,
+  WEBHOOK_TIMEOUT_MS,
+  buildWebhookHeaders,
+  decryptWebhookSecret,
+  encryptWebhookSecret,
+  generateWebhookSecret,
+  getWebhookRetryDelay,
+  getWebhookRetryQueue,
+  isSuccessfulStatus,
+  truncateResponseBody,
+  validateWebhookUrl
+} from '../utils/webhook.util';
+import { webhookConfig } from '../config/webhook.config';
+import { TYPES } from '../config/types';
+
+type Failure = { success: false; error: TaskError };
+
+// Deliveries attempted at the same time by one instance
+const DELIVERY_PREFETCH = 10;
+
+// Longest error message kept in the delivery log
+const MAX_ERROR_LENGTH = 500;
+
+/**
+ * Webhook service. Events are recorded as one delivery per subscribed webhook and
+ * attempted from the delivery queue; failed attempts wait in a retry queue for an
+ * exponentially growing delay, and deliveries failing every attempt are moved to the
+ * dead-letter queue. Each attempt is signed with the webhook's secret.
+ */
+@injectable()
+export class WebhookService implements IWebhookService {
+  // Metrics
+  private readonly webhookOperationHistogram: Histogram;
+  private readonly webhookErrorCounter: Counter;
+  private readonly deliveryAttemptCounter: Counter;
+
+  constructor(
+    @inject(TYPES.WebhookRepository) private readonly webhookRepository: WebhookRepository,
+    @inject(TYPES.QueueService) private readonly queueService: QueueService,
+    @inject(TYPES.Logger) private readonly logger: Logger,
+    @inject(TYPES.MetricsClient) private readonly metricsClient: any
+  ) {
+    // Initialize metrics
+    this.webhookOperationHistogram = new this.metricsClient.Histogram({
+      name: 'webhook_operation_duration_seconds',
+      help: 'Duration of webhook operations',
+      labelNames: ['operation']
+    });
+
+    this.webhookErrorCounter = new this.metricsClient.Counter({
+      name: 'webhook_operation_errors_total',
+      help: 'Total number of webhook operation errors',
+      labelNames: ['operation', 'error_type']
+    });
+
+    this.deliveryAttemptCounter = new this.metricsClient.Counter({
+      name: 'webhook_delivery_attempts_total',
+      help: 'Total number of webhook delivery attempts by outcome',
+      labelNames: ['status']
+    });
+  }
+
+  /**
+   * Declares the delivery, retry and dead-letter queues and starts attempting deliveries.
+   * Retry queues have no consumer: their messages expire after the retry delay and are
+   * routed back into the delivery queue.
+   */
+  async start(): Promise<void> {
+    await this.queueService.createQueue(WEBHOOK_QUEUE, { durable: true });
+    await this.queueService.createQueue(WEBHOOK_DEAD_LETTER_QUEUE, { durable: true });
+
+    for (let attempt = 1; attempt < MAX_WEBHOOK_ATTEMPTS; attempt++) {
+      await this.queueService.createQueue(getWebhookRetryQueue(attempt), {
+        durable: true,
+        messageTtl: getWebhookRetryDelay(attempt),
+        deadLetterExchange: '',
+        deadLetterRoutingKey: WEBHOOK_QUEUE
+      });
+    }
+
+    await this.queueService.consumeMessages(
+      WEBHOOK_QUEUE,
+      async (message: IWebhookDeliveryMessage) => {
+        await this.attemptDelivery(message.deliveryId);
+      },
+      { prefetchCount: DELIVERY_PREFETCH }
+    );
+
+    this.logger.info('Webhook delivery consumer started', { maxAttempts: MAX_WEBHOOK_ATTEMPTS });
+  }
+
+  /**
+   * Lists webhooks
+   * @param projectId Only the webhooks of this project when given
+   * @param context Operation context
+   * @returns Webhooks by name
+   */
+  async listWebhooks(
+    projectId: UUID | undefined,
+    context: ITaskContext
+  ): Promise<Result<IWebhook[], TaskError>> {
+    const timer = this.webhookOperationHistogram.startTimer({ operation: 'list' });
+
+    try {
+      const webhooks = await this.webhookRepository.findAll(projectId);
+
+      timer({ success: 'true' });
+      return { success: true, data: webhooks };
+
+    } catch (error) {
+      this.handleOperationError('list', error, context.correlationId);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Creates a webhook; its secret is returned only here
+   * @param data Webhook data
+   * @param context Operation context
+   * @returns Webhook with its secret or error
+   */
+  async createWebhook(
+    data: ICreateWebhookDTO,
+    context: ITaskContext
+  ): Promise<Result<IWebhookSecret, TaskError>> {
+    const timer = this.webhookOperationHistogram.startTimer({ operation: 'create' });
+
+    try {
+      const urlError = validateWebhookUrl(data.url);
+      if (urlError) {
+        timer({ success: 'false' });
+        return this.failure('VALIDATION_ERROR', urlError);
+      }
+
+      if (data.projectId && !await this.webhookRepository.projectExists(data.projectId)) {
+        timer({ success: 'false' });
+        return this.failure('NOT_FOUND', 'Project not found');
+      }
+
+      const secret = await generateWebhookSecret();
+      const webhook = await this.webhookRepository.create(
+        { ...data, events: this.uniqueEvents(data.events) },
+        await encryptWebhookSecret(secret, webhookConfig.secretKey),
+        context.userId
+      );
+
+      this.logger.info('Webhook created', {
+        correlationId: context.correlationId,
+        webhookId: webhook.id,
+        projectId: webhook.projectId
+      });
+
+      timer({ success: 'true' });
+      return { success: true, data: { webhook, secret } };
+
+    } catch (error) {
+      this.handleOperationError('create', error, context.correlationId);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Updates a webhook
+   * @param webhookId Webhook identifier
+   * @param data Changed fields
+   * @param context Operation context
+   * @returns Updated webhook or error
+   */
+  async updateWebhook(
+    webhookId: UUID,
+    data: IUpdateWebhookDTO,
+    context: ITaskContext
+  ): Promise<Result<IWebhook, TaskError>> {
+    const timer = this.webhookOperationHistogram.startTimer({ operation: 'update' });
+
+    try {
+      if (!await this.webhookRepository.findById(webhookId)) {
+        timer({ success: 'false' });
+        return this.failure('NOT_FOUND', 'Webhook not found');
+      }
+
+      const urlError = data.url !== undefined ? validateWebhookUrl(data.url) : null;
+      if (urlError) {
+        timer({ success: 'false' });
+        return this.failure('VALIDATION_ERROR', urlError);
+      }
+
+      const webhook = await this.webhookRepository.update(webhookId, {
+        ...data,
+        ...(data.events && { events: this.uniqueEvents(data.events) })
+      });
+
+      this.logger.info('Webhook updated', {
+        correlationId: context.correlationId,
+        webhookId
+      });
+
+      timer({ success: 'true' });
+      return { success: true, data: webhook };
+
+    } catch (error) {
+      this.handleOperationError('update', error, context.correlationId);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes a webhook with its delivery log; queued attempts are dropped when they run
+   * @param webhookId Webhook identifier
+   * @param context Operation context
+   * @returns Nothing or error
+   */
+  async deleteWebhook(webhookId: UUID, context: ITaskContext): Promise<Result<void, TaskError>> {
+    const timer = this.webhookOperationHistogram.startTimer({ operation: 'delete' });
+
+    try {
+      if (!await this.webhookRepository.delete(webhookId)) {
+        timer({ success: 'false' });
+        return this.failure('NOT_FOUND', 'Webhook not found');
+      }
+
+      this.logger.info('Webhook deleted', {
+        correlationId: context.correlationId,
+        webhookId
+      });
+
+      timer({ success: 'true' });
+      return { success: true };
+
+    } catch (error) {
+      this.handleOperationError('delete', error, context.correlationId);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Replaces the secret of a webhook. Attempts made from now on are signed with the new
+   * secret, including retries of earlier deliveries.
+   * @param webhookId Webhook identifier
+   * @param context Operation context
+   * @returns Webhook with its new secret or error
+   */
+  async rotateSecret(webhookId: UUID, context: ITaskContext): Promise<Result<IWebhookSecret, TaskError>> {
+    const timer = this.webhookOperationHistogram.startTimer({ operation: 'rotate_secret' });
+
+    try {
+      if (!await this.webhookRepository.findById(webhookId)) {
+        timer({ success: 'false' });
+        return this.failure('NOT_FOUND', 'Webhook not found');
+      }
+
+      const secret = await generateWebhookSecret();
+      const webhook = await this.webhookRepository.updateSecret(
+        webhookId,
+        await encryptWebhookSecret(secret, webhookConfig.secretKey)
+      );
+
+      this.logger.info('Webhook secret rotated', {
+        correlationId: context.correlationId,
+        webhookId
+      });
+
+      timer({ success: 'true' });
+      return { success: true, data: { webhook, secret } };
+
+    } catch (error) {
+      this.handleOperationError('rotate_secret', error, context.correlationId);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Lists deliveries, newest first
+   * @param params Filters and pagination
+   * @param context Operation context
+   * @returns Page of deliveries
+   */
+  async listDeliveries(
+    params: IWebhookDeliveryQueryParams,
+    context: ITaskContext
+  ): Promise<Result<IWebhookDeliveryPaginatedResponse, TaskError>> {
+    const timer = this.webhookOperationHistogram.startTimer({ operation: 'list_deliveries' });
+
+    try {
+      const { items, total } = await this.webhookRepository.findDeliveries(params);
+
+      timer({ success: 'true' });
+      return {
+        success: true,
+        data: {
+          items,
+          total,
+          page: params.page,
+          limit: params.limit,
+          hasMore: params.page * params.limit < total
+        }
+      };
+
+    } catch (error) {
+      this.handleOperationError('list_deliveries', error, context.correlationId);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Sends the event of a delivery again as a new delivery linked to the original one
+   * @param deliveryId Delivery identifier
+   * @param context Operation context
+   * @returns New delivery or error
+   */
+  async redeliver(deliveryId: UUID, context: ITaskContext): Promise<Result<IWebhookDelivery, TaskError>> {
+    const timer = this.webhookOperationHistogram.startTimer({ operation: 'redeliver' });
+
+    try {
+      const original = await this.webhookRepository.findDeliveryById(deliveryId);
+      if (!original) {
+        timer({ success: 'false' });
+        return this.failure('NOT_FOUND', 'Delivery not found');
+      }
+
+      const webhook = await this.webhookRepository.findById(original.webhookId);
+      if (!webhook) {
+        timer({ success: 'false' });
+        return this.failure('NOT_FOUND', 'Webhook not found');
+      }
+
+      if (!webhook.active) {
+        timer({ success: 'false' });
+        return this.failure('WEBHOOK_INACTIVE', 'Activate the webhook before redelivering');
+      }
+
+      const [delivery] = await this.webhookRepository.createDeliveries(
+        [webhook.id],
+        original.payload,
+        original.id
+      );
+      await this.enqueue(WEBHOOK_QUEUE, delivery.id);
+
+      this.logger.info('Webhook delivery redelivered', {
+        correlationId: context.correlationId,
+        deliveryId: delivery.id,
+        redeliveryOfId: original.id
+      });
+
+      timer({ success: 'true' });
+      return { success: true, data: delivery };
+
+    } catch (error) {
+      this.handleOperationError('redeliver', error, context.correlationId);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Records an event for the webhooks subscribed to it and queues its deliveries. Failures
+   * are logged, never thrown, so that webhooks cannot fail the change they report.
+   * @param type Event type
+   * @param projectId Project the event belongs to
+   * @param data Event data
+   * @param actorId User whose change caused the event
+   */
+  async dispatchEvent(
+    type: WebhookEventType,
+    projectId: UUID | null,
+    data: Record<string, unknown>,
+    actorId?: UUID
+  ): Promise<void> {
+    const timer = this.webhookOperationHistogram.startTimer({ operation: 'dispatch' });
+
+    try {
+      const webhooks = await this.webhookRepository.findSubscribed(type, projectId);
+      if (webhooks.length === 0) {
+        timer({ success: 'true' });
+        return;
+      }
+
+      const event: IWebhookEvent = {
+        id: randomUUID(),
+        type,
+        occurredAt: new Date().toISOString(),
+        projectId,
+        actorId: actorId ?? null,
+        data
+      };
+
+      const deliveries = await this.webhookRepository.createDeliveries(
+        webhooks.map(webhook => webhook.id),
+        event
+      );
+
+      for (const delivery of deliveries) {
+        await this.enqueue(WEBHOOK_QUEUE, delivery.id);
+      }
+
+      timer({ success: 'true' });
+
+    } catch (error) {
+      this.handleOperationError('dispatch', error);
+      timer({ success: 'false' });
+    }
+  }
+
+  /**
+   * Makes the next attempt of a delivery and records its outcome. Deliveries that were
+   * completed or whose webhook was deleted are skipped, so queued duplicates are harmless.
+   * @param deliveryId Delivery identifier
+   * @returns Updated delivery, or null when nothing was attempted
+   */
+  async attemptDelivery(deliveryId: UUID): Promise<IWebhookDelivery | null> {
+    const timer = this.webhookOperationHistogram.startTimer({ operation: 'attempt' });
+
+    try {
+      const target = await this.webhookRepository.findDeliveryTarget(deliveryId);
+
+      if (!target || target.delivery.status === WebhookDeliveryStatus.SUCCEEDED
+        || target.delivery.status === WebhookDeliveryStatus.FAILED) {
+        timer({ success: 'true' });
+        return null;
+      }
+
+      const { delivery, webhook } = target;
+
+      if (!webhook.active) {
+        timer({ success: 'true' });
+        return await this.webhookRepository.updateDelivery(delivery.id, {
+          status: WebhookDeliveryStatus.FAILED,
+          error: 'Webhook is inactive',
+          nextAttemptAt: null
+        });
+      }
+
+      const attempts = delivery.attempts + 1;
+      const body = JSON.stringify(delivery.payload);
+      const headers = buildWebhookHeaders({
+        webhookId: webhook.id,
+        deliveryId: delivery.id,
+        eventType: delivery.eventType,
+        secret: await decryptWebhookSecret(webhook.secretEncrypted, webhookConfig.secretKey),
+        timestamp: Math.floor(Date.now() / 1000),
+        body
+      });
+
+      const startedAt = Date.now();
+      let responseStatus: number | null = null;
+      let responseBody: string | null = null;
+      let error: string | null = null;
+
+      try {
+        const response = await fetch(webhook.url, {
+          method: 'POST',
+          headers,
+          body,
+          redirect: 'manual',
+          signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+        });
+
+        responseStatus = response.status;
+        responseBody = truncateResponseBody(await response.text());
+
+        if (!isSuccessfulStatus(response.status)) {
+          error = `Receiver responded with status ${response.status}`;
+        }
+      } catch (requestError) {
+        error = (requestError as Error).name === 'TimeoutError'
+          ? `No response within ${WEBHOOK_TIMEOUT_MS / 1000} seconds`
+          : `Request failed: ${(requestError as Error).message}`;
+      }
+
+      const outcome = {
+        attempts,
+        responseStatus,
+        responseBody,
+        error: error && error.slice(0, MAX_ERROR_LENGTH),
+        durationMs: Date.now() - startedAt
+      };
+
+      let updated: IWebhookDelivery;
+
+      if (!error) {
+        updated = await this.webhookRepository.updateDelivery(delivery.id, {
+          ...outcome,
+          status: WebhookDeliveryStatus.SUCCEEDED,
+          nextAttemptAt: null,
+          deliveredAt: new Date()
+        });
+      } else if (attempts >= MAX_WEBHOOK_ATTEMPTS) {
+        updated = await this.webhookRepository.updateDelivery(delivery.id, {
+          ...outcome,
+          status: WebhookDeliveryStatus.FAILED,
+          nextAttemptAt: null
+        });
+        await this.enqueue(WEBHOOK_DEAD_LETTER_QUEUE, delivery.id);
+
+        this.logger.warn('Webhook delivery failed every attempt', {
+          deliveryId: delivery.id,
+          webhookId: webhook.id,
+          attempts,
+          error
+        });
+      } else {
+        updated = await this.webhookRepository.updateDelivery(delivery.id, {
+          ...outcome,
+          status: WebhookDeliveryStatus.RETRYING,
+          nextAttemptAt: new Date(Date.now() + getWebhookRetryDelay(attempts))
+        });
+        await this.enqueue(getWebhookRetryQueue(attempts), delivery.id);
+      }
+
+      this.deliveryAttemptCounter.inc({ status: updated.status });
+      timer({ success: 'true' });
+      return updated;
+
+    } catch (error) {
+      this.handleOperationError('attempt', error);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Queues an attempt of a delivery
+   * @private
+   */
+  private async enqueue(queueName: string, deliveryId: UUID): Promise<void> {
+    const message: IWebhookDeliveryMessage = { deliveryId };
+    await this.queueService.publishMessage(queueName, message, { persistent: true });
+  }
+
+  /**
+   * Removes repeated event types, keeping their order
+   * @private
+   */
+  private uniqueEvents(events: WebhookEventType[]): WebhookEventType[] {
+    return Array.from(new Set(events));
+  }
+
+  /**
+   * Builds a failed result
+   * @private
+   */
+  private failure(code: string, message: string, details?: Record<string, unknown>): Failure {
+    return {
+      success: false,
+      error: { code, message, details }
+    };
+  }
+
+  /**
+   * Handles and logs operation errors
+   * @private
+   */
+  private handleOperationError(
+    operation: string,
+    error: any,
+    correlationId?: string
+  ): void {
+    this.webhookErrorCounter.inc({
+      operation,
+      error_type: error.name || 'UnknownError'
+    });
+
+    this.logger.error(`Webhook operation error: ${operation}`, {
+      correlationId,
+      error: error.message,
+      stack: error.stack
+    });
+  }
+}
@@ -37,6 +37,15 @@ interface ClientMetadata {
   messageCount: number;
 }
 
+/**
+ * Message published for the connections of one user, tagged with the instance that
+ * delivered it locally so that instance does not deliver it twice
+ */
+interface UserMessage extends WebSocketMessage {
+  recipientId: string;
+  origin: string;
+}
+
 /**
  * Options for broadcasting messages
  */
@@ -58,6 +67,7 @@ export class WebSocketService {
   private rooms: Map<string, Set<string>> = new Map();
   private messageQueue: Map<string, WebSocketMessage[]> = new Map();
   private readonly eventEmitter: EventEmitter;
+  private readonly instanceId: string = uuidv4();
   
   constructor(
     @inject('RedisClient') private redisClient: Redis,
@@ -184,6 +194,54 @@ export class WebSocketService {
     }
   }
 
+  /**
+   * Sends a message to every connection of one user, on this and the other instances
+   */
+  public async sendToUser(userId: string, message: WebSocketMessage): Promise<void> {
+    try {
+      const enrichedMessage: UserMessage = {
+        ...message,
+        messageId: uuidv4() as WebSocketMessage['messageId'],
+        timestamp: new Date(),
+        recipientId: userId,
+        origin: this.instanceId
+      };
+
+      await this.redisPubSub.publish(REDIS_CHANNEL, JSON.stringify(enrichedMessage));
+      this.deliverToUser(enrichedMessage);
+    } catch (error) {
+      this.logger.error(`Failed to send message to user ${userId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delivers a user's message to their connections on this instance
+   */
+  private deliverToUser(message: UserMessage): void {
+    const outgoing: WebSocketMessage = {
+      type: message.type,
+      payload: message.payload,
+      timestamp: message.timestamp,
+      messageId: message.messageId
+    };
+
+    for (const [clientId, metadata] of this.clientMetadata.entries()) {
+      if (metadata.userId !== message.recipientId) continue;
+
+      const ws = this.clients.get(clientId);
+      if (!ws || ws.readyState !== WebSocket.OPEN) continue;
+
+      try {
+        ws.send(JSON.stringify(outgoing));
+        this.updateClientMessageCount(clientId);
+      } catch (error) {
+        this.logger.error(`Failed to send message to client ${clientId}:`, error);
+        this.queueMessageForRetry(clientId, outgoing);
+      }
+    }
+  }
+
   /**
    * Handles incoming messages from clients
    */
@@ -303,6 +361,16 @@ export class WebSocketService {
   private async handleRedisMessage(message: WebSocketMessage): Promise<void> {
     try {
       this.validateMessage(message);
+
+      // Messages for one user are only delivered, and not by the instance that sent them
+      if ('recipientId' in message) {
+        const userMessage = message as UserMessage;
+        if (userMessage.origin !== this.instanceId) {
+          this.deliverToUser(userMessage);
+        }
+        return;
+      }
+
       await this.broadcast(message, { persist: false });
     } catch (error) {
       this.logger.error('Redis message handling error:', error);
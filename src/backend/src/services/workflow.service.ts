@@ -0,0 +1,216 @@
+/**
+ * @fileoverview Workflow service managing the task states and transitions defined per project
+ * @version 1.0.0
+ * @module services/workflow
+ */
+
+// External imports with versions
+import { injectable, inject } from 'inversify'; // v6.0.1
+import { Counter, Histogram } from 'prom-client'; // v14.x
+import { Logger } from 'winston'; // v3.x
+import { UUID } from 'crypto';
+
+// Internal imports
+import {
+  IWorkflow,
+  IWorkflowService,
+  IUpdateWorkflowDTO
+} from '../interfaces/workflow.interface';
+import { ITaskContext, TaskError, Result } from '../interfaces/task.interface';
+import { WorkflowRepository } from '../repositories/workflow.repository';
+import { ProjectRepository } from '../repositories/project.repository';
+import { MembershipService } from '../services/membership.service';
+import { ProjectRole } from '../types/project.types';
+import { validateWorkflowDefinition } from '../utils/workflow.util';
+import { TYPES } from '../config/types';
+
+type Failure = { success: false; error: TaskError };
+
+/**
+ * Workflow service; any member may read a project's workflow, while changing it
+ * requires the MANAGER project role
+ */
+@injectable()
+export class WorkflowService implements IWorkflowService {
+  // Metrics
+  private readonly workflowOperationHistogram: Histogram;
+  private readonly workflowErrorCounter: Counter;
+
+  constructor(
+    @inject(TYPES.WorkflowRepository) private readonly workflowRepository: WorkflowRepository,
+    @inject(TYPES.ProjectRepository) private readonly projectRepository: ProjectRepository,
+    @inject(TYPES.MembershipService) private readonly membershipService: MembershipService,
+    @inject(TYPES.Logger) private readonly logger: Logger,
+    @inject(TYPES.MetricsClient) private readonly metricsClient: any
+  ) {
+    // Initialize metrics
+    this.workflowOperationHistogram = new this.metricsClient.Histogram({
+      name: 'workflow_operation_duration_seconds',
+      help: 'Duration of workflow operations',
+      labelNames: ['operation']
+    });
+
+    this.workflowErrorCounter = new this.metricsClient.Counter({
+      name: 'workflow_operation_errors_total',
+      help: 'Total number of workflow operation errors',
+      labelNames: ['operation', 'error_type']
+    });
+  }
+
+  /**
+   * Retrieves the workflow of a project, falling back to the default workflow
+   * @param projectId Project identifier
+   * @param context Operation context
+   * @returns Workflow or error
+   */
+  async getWorkflow(
+    projectId: UUID,
+    context: ITaskContext
+  ): Promise<Result<IWorkflow, TaskError>> {
+    const timer = this.workflowOperationHistogram.startTimer({ operation: 'get' });
+
+    try {
+      const accessError = await this.checkAccess(projectId, ProjectRole.VIEWER, context);
+      if (accessError) {
+        timer({ success: 'false' });
+        return accessError;
+      }
+
+      const workflow = await this.workflowRepository.findByProject(projectId);
+
+      timer({ success: 'true' });
+      return { success: true, data: workflow };
+
+    } catch (error) {
+      this.handleOperationError('get', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Replaces the states and transitions of a project workflow; states that still hold
+   * tasks cannot be removed, and tasks follow their state into a changed category
+   * @param projectId Project identifier
+   * @param data New states and transitions
+   * @param context Operation context
+   * @returns Stored workflow or error
+   */
+  async updateWorkflow(
+    projectId: UUID,
+    data: IUpdateWorkflowDTO,
+    context: ITaskContext
+  ): Promise<Result<IWorkflow, TaskError>> {
+    const timer = this.workflowOperationHistogram.startTimer({ operation: 'update' });
+
+    try {
+      const accessError = await this.checkAccess(projectId, ProjectRole.MANAGER, context);
+      if (accessError) {
+        timer({ success: 'false' });
+        return accessError;
+      }
+
+      try {
+        validateWorkflowDefinition(data);
+      } catch (error) {
+        timer({ success: 'false' });
+        return {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: (error as Error).message
+          }
+        };
+      }
+
+      const current = await this.workflowRepository.findByProject(projectId);
+      const keys = new Set(data.states.map(state => state.key));
+      const removed = current.states.map(state => state.key).filter(key => !keys.has(key));
+
+      const inUse = await this.workflowRepository.findStatesInUse(projectId, removed);
+      if (inUse.length > 0) {
+        timer({ success: 'false' });
+        return {
+          success: false,
+          error: {
+            code: 'CONFLICT',
+            message: 'States that still hold tasks cannot be removed; move the tasks first',
+            details: { states: inUse }
+          }
+        };
+      }
+
+      const workflow = await this.workflowRepository.replace(projectId, data, context.userId);
+
+      this.logger.info('Project workflow updated', {
+        correlationId: context.correlationId,
+        projectId,
+        states: workflow.states.length,
+        transitions: workflow.transitions.length
+      });
+
+      timer({ success: 'true' });
+      return { success: true, data: workflow };
+
+    } catch (error) {
+      this.handleOperationError('update', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Checks that the project exists and the caller holds the required project role;
+   * projects the caller cannot see at all are reported as missing rather than forbidden
+   * @private
+   */
+  private async checkAccess(
+    projectId: UUID,
+    required: ProjectRole,
+    context: ITaskContext
+  ): Promise<Failure | null> {
+    const project = await this.projectRepository.findById(projectId);
+    if (!project || !await this.membershipService.hasAccess(projectId, ProjectRole.VIEWER, context)) {
+      return {
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: `Project ${projectId} not found`
+        }
+      };
+    }
+
+    if (!await this.membershipService.hasAccess(projectId, required, context)) {
+      return {
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: `Changing the workflow requires the ${required} project role`
+        }
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Handles and logs operation errors
+   * @private
+   */
+  private handleOperationError(
+    operation: string,
+    error: any,
+    context: ITaskContext
+  ): void {
+    this.workflowErrorCounter.inc({
+      operation,
+      error_type: error.name || 'UnknownError'
+    });
+
+    this.logger.error(`Workflow operation error: ${operation}`, {
+      correlationId: context.correlationId,
+      error: error.message,
+      stack: error.stack
+    });
+  }
+}
@@ -0,0 +1,513 @@
+/**
+ * @fileoverview Worklog service managing logged time, timers and timesheets
+ * @version 1.0.0
+ * @module services/worklog
+ */
+
+// External imports with versions
+import { injectable, inject } from 'inversify'; // v6.0.1
+import { Counter, Histogram } from 'prom-client'; // v14.x
+import { Logger } from 'winston'; // v3.x
+import { UUID } from 'crypto';
+
+// Internal imports
+import {
+  IWorklog,
+  ITimer,
+  IWorklogService,
+  ICreateWorklogDTO,
+  IUpdateWorklogDTO,
+  IStartTimerDTO,
+  ITimesheetQuery,
+  ITimerStartResult
+} from '../interfaces/worklog.interface';
+import { ITask, ITaskContext, TaskError, Result } from '../interfaces/task.interface';
+import { WorklogRepository, ITimesheetFilter } from '../repositories/worklog.repository';
+import { TaskRepository } from '../repositories/task.repository';
+import { ProjectRepository } from '../repositories/project.repository';
+import { MembershipService } from '../services/membership.service';
+import { ProjectRole } from '../types/project.types';
+import { Timesheet } from '../types/worklog.types';
+import { isMembershipRestricted } from '../utils/membership.util';
+import { buildTimesheet, resolveTimesheetRange } from '../utils/worklog.util';
+import { TYPES } from '../config/types';
+
+// Constants
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type Failure = { success: false; error: TaskError };
+
+/**
+ * Worklog service; members read the time logged on tasks they can see, contributors log
+ * their own time, and entries can be changed by their author or a project manager.
+ * Timers live on the server, so a timer started on one device can be stopped on another.
+ */
+@injectable()
+export class WorklogService implements IWorklogService {
+  // Metrics
+  private readonly worklogOperationHistogram: Histogram;
+  private readonly worklogErrorCounter: Counter;
+
+  constructor(
+    @inject(TYPES.WorklogRepository) private readonly worklogRepository: WorklogRepository,
+    @inject(TYPES.TaskRepository) private readonly taskRepository: TaskRepository,
+    @inject(TYPES.ProjectRepository) private readonly projectRepository: ProjectRepository,
+    @inject(TYPES.MembershipService) private readonly membershipService: MembershipService,
+    @inject(TYPES.Logger) private readonly logger: Logger,
+    @inject(TYPES.MetricsClient) private readonly metricsClient: any
+  ) {
+    // Initialize metrics
+    this.worklogOperationHistogram = new this.metricsClient.Histogram({
+      name: 'worklog_operation_duration_seconds',
+      help: 'Duration of worklog operations',
+      labelNames: ['operation']
+    });
+
+    this.worklogErrorCounter = new this.metricsClient.Counter({
+      name: 'worklog_operation_errors_total',
+      help: 'Total number of worklog operation errors',
+      labelNames: ['operation', 'error_type']
+    });
+  }
+
+  /**
+   * Lists the worklog entries of a task, latest first
+   * @param taskId Task identifier
+   * @param context Operation context
+   * @returns Entries or error
+   */
+  async listWorklogs(taskId: UUID, context: ITaskContext): Promise<Result<IWorklog[], TaskError>> {
+    const timer = this.worklogOperationHistogram.startTimer({ operation: 'list' });
+
+    try {
+      const task = await this.findTask(taskId, ProjectRole.VIEWER, context);
+      if (!task.success) {
+        timer({ success: 'false' });
+        return task;
+      }
+
+      const worklogs = await this.worklogRepository.findByTask(taskId);
+
+      timer({ success: 'true' });
+      return { success: true, data: worklogs };
+
+    } catch (error) {
+      this.handleOperationError('list', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Logs time on a task for the caller
+   * @param taskId Task identifier
+   * @param data Entry attributes
+   * @param context Operation context
+   * @returns Created entry or error
+   */
+  async createWorklog(
+    taskId: UUID,
+    data: ICreateWorklogDTO,
+    context: ITaskContext
+  ): Promise<Result<IWorklog, TaskError>> {
+    const timer = this.worklogOperationHistogram.startTimer({ operation: 'create' });
+
+    try {
+      const task = await this.findTask(taskId, ProjectRole.CONTRIBUTOR, context);
+      if (!task.success) {
+        timer({ success: 'false' });
+        return task;
+      }
+
+      if (new Date(data.startedAt).getTime() > Date.now()) {
+        timer({ success: 'false' });
+        return this.failure('VALIDATION_ERROR', 'Time cannot be logged in the future');
+      }
+
+      const worklog = await this.worklogRepository.create(taskId, context.userId, data);
+
+      this.logger.info('Worklog created', {
+        correlationId: context.correlationId,
+        taskId,
+        worklogId: worklog.id,
+        durationSeconds: worklog.durationSeconds
+      });
+
+      timer({ success: 'true' });
+      return { success: true, data: worklog };
+
+    } catch (error) {
+      this.handleOperationError('create', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Changes a worklog entry; allowed to its author and project managers
+   * @param taskId Task identifier
+   * @param worklogId Worklog identifier
+   * @param data Changed attributes
+   * @param context Operation context
+   * @returns Updated entry or error
+   */
+  async updateWorklog(
+    taskId: UUID,
+    worklogId: UUID,
+    data: IUpdateWorklogDTO,
+    context: ITaskContext
+  ): Promise<Result<IWorklog, TaskError>> {
+    const timer = this.worklogOperationHistogram.startTimer({ operation: 'update' });
+
+    try {
+      const worklog = await this.findEditableWorklog(taskId, worklogId, context);
+      if (!worklog.success) {
+        timer({ success: 'false' });
+        return worklog;
+      }
+
+      if (data.startedAt && new Date(data.startedAt).getTime() > Date.now()) {
+        timer({ success: 'false' });
+        return this.failure('VALIDATION_ERROR', 'Time cannot be logged in the future');
+      }
+
+      const updated = await this.worklogRepository.update(worklogId, data);
+
+      this.logger.info('Worklog updated', {
+        correlationId: context.correlationId,
+        taskId,
+        worklogId,
+        byAuthor: worklog.data.userId === context.userId
+      });
+
+      timer({ success: 'true' });
+      return { success: true, data: updated };
+
+    } catch (error) {
+      this.handleOperationError('update', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Removes a worklog entry; allowed to its author and project managers
+   * @param taskId Task identifier
+   * @param worklogId Worklog identifier
+   * @param context Operation context
+   * @returns Void result or error
+   */
+  async deleteWorklog(
+    taskId: UUID,
+    worklogId: UUID,
+    context: ITaskContext
+  ): Promise<Result<void, TaskError>> {
+    const timer = this.worklogOperationHistogram.startTimer({ operation: 'delete' });
+
+    try {
+      const worklog = await this.findEditableWorklog(taskId, worklogId, context);
+      if (!worklog.success) {
+        timer({ success: 'false' });
+        return worklog;
+      }
+
+      await this.worklogRepository.delete(worklogId);
+
+      this.logger.info('Worklog deleted', {
+        correlationId: context.correlationId,
+        taskId,
+        worklogId,
+        byAuthor: worklog.data.userId === context.userId
+      });
+
+      timer({ success: 'true' });
+      return { success: true };
+
+    } catch (error) {
+      this.handleOperationError('delete', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves the caller's running timer, if any
+   * @param context Operation context
+   * @returns Timer, null when none is running
+   */
+  async getTimer(context: ITaskContext): Promise<Result<ITimer | null, TaskError>> {
+    const timer = this.worklogOperationHistogram.startTimer({ operation: 'get_timer' });
+
+    try {
+      const running = await this.worklogRepository.findTimer(context.userId);
+
+      timer({ success: 'true' });
+      return { success: true, data: running };
+
+    } catch (error) {
+      this.handleOperationError('get_timer', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Starts a timer on a task for the caller; a timer that is still running is stopped
+   * and its time logged first
+   * @param data Task to time
+   * @param context Operation context
+   * @returns New timer and the entry logged for the previous one, or error
+   */
+  async startTimer(
+    data: IStartTimerDTO,
+    context: ITaskContext
+  ): Promise<Result<ITimerStartResult, TaskError>> {
+    const timer = this.worklogOperationHistogram.startTimer({ operation: 'start_timer' });
+
+    try {
+      const task = await this.findTask(data.taskId, ProjectRole.CONTRIBUTOR, context);
+      if (!task.success) {
+        timer({ success: 'false' });
+        return task;
+      }
+
+      const result = await this.worklogRepository.startTimer(
+        context.userId,
+        data.taskId,
+        data.note ?? null,
+        new Date()
+      );
+
+      this.logger.info('Timer started', {
+        correlationId: context.correlationId,
+        taskId: data.taskId,
+        stoppedWorklogId: result.stopped?.id
+      });
+
+      timer({ success: 'true' });
+      return { success: true, data: result };
+
+    } catch (error) {
+      this.handleOperationError('start_timer', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Stops the caller's timer and logs the elapsed time
+   * @param context Operation context
+   * @returns Logged entry or error
+   */
+  async stopTimer(context: ITaskContext): Promise<Result<IWorklog, TaskError>> {
+    const timer = this.worklogOperationHistogram.startTimer({ operation: 'stop_timer' });
+
+    try {
+      const worklog = await this.worklogRepository.stopTimer(context.userId, new Date());
+      if (!worklog) {
+        timer({ success: 'false' });
+        return this.failure('NOT_FOUND', 'No timer is running');
+      }
+
+      this.logger.info('Timer stopped', {
+        correlationId: context.correlationId,
+        taskId: worklog.taskId,
+        worklogId: worklog.id,
+        durationSeconds: worklog.durationSeconds
+      });
+
+      timer({ success: 'true' });
+      return { success: true, data: worklog };
+
+    } catch (error) {
+      this.handleOperationError('stop_timer', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves the time a user logged across projects; users see their own timesheet,
+   * while admins and project managers see everyone's
+   * @param userId User identifier
+   * @param query Days to cover
+   * @param context Operation context
+   * @returns Timesheet or error
+   */
+  async getUserTimesheet(
+    userId: UUID,
+    query: ITimesheetQuery,
+    context: ITaskContext
+  ): Promise<Result<Timesheet, TaskError>> {
+    const timer = this.worklogOperationHistogram.startTimer({ operation: 'user_timesheet' });
+
+    try {
+      if (userId !== context.userId && isMembershipRestricted(context.userRole)) {
+        timer({ success: 'false' });
+        return this.failure('FORBIDDEN', 'Only your own timesheet is available');
+      }
+
+      const timesheet = await this.findTimesheet({ userId }, query);
+
+      timer({ success: timesheet.success ? 'true' : 'false' });
+      return timesheet;
+
+    } catch (error) {
+      this.handleOperationError('user_timesheet', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves the time logged on a project by every user; requires the MANAGER project role
+   * @param projectId Project identifier
+   * @param query Days to cover
+   * @param context Operation context
+   * @returns Timesheet or error
+   */
+  async getProjectTimesheet(
+    projectId: UUID,
+    query: ITimesheetQuery,
+    context: ITaskContext
+  ): Promise<Result<Timesheet, TaskError>> {
+    const timer = this.worklogOperationHistogram.startTimer({ operation: 'project_timesheet' });
+
+    try {
+      const project = await this.projectRepository.findById(projectId);
+      if (!project || !await this.membershipService.hasAccess(projectId, ProjectRole.VIEWER, context)) {
+        timer({ success: 'false' });
+        return this.failure('NOT_FOUND', `Project ${projectId} not found`);
+      }
+
+      if (!await this.membershipService.hasAccess(projectId, ProjectRole.MANAGER, context)) {
+        timer({ success: 'false' });
+        return this.failure('FORBIDDEN', 'Project timesheets require the MANAGER project role');
+      }
+
+      const timesheet = await this.findTimesheet({ projectId }, query);
+
+      timer({ success: timesheet.success ? 'true' : 'false' });
+      return timesheet;
+
+    } catch (error) {
+      this.handleOperationError('project_timesheet', error, context);
+      timer({ success: 'false' });
+      throw error;
+    }
+  }
+
+  /**
+   * Resolves the range of a timesheet and totals the entries within it
+   * @private
+   */
+  private async findTimesheet(
+    filter: Omit<ITimesheetFilter, 'from' | 'until'>,
+    query: ITimesheetQuery
+  ): Promise<{ success: true; data: Timesheet } | Failure> {
+    const range = resolveTimesheetRange(query.from, query.to);
+    if (typeof range === 'string') {
+      return this.failure('VALIDATION_ERROR', range);
+    }
+
+    const entries = await this.worklogRepository.findTimesheetEntries({
+      ...filter,
+      from: range.from,
+      until: new Date(range.to.getTime() + DAY_MS)
+    });
+
+    return { success: true, data: buildTimesheet(entries, range.from, range.to) };
+  }
+
+  /**
+   * Loads a worklog entry of a task that the caller may change: their own entries on
+   * projects they contribute to, or any entry on projects they manage
+   * @private
+   */
+  private async findEditableWorklog(
+    taskId: UUID,
+    worklogId: UUID,
+    context: ITaskContext
+  ): Promise<{ success: true; data: IWorklog } | Failure> {
+    const task = await this.findTask(taskId, ProjectRole.VIEWER, context);
+    if (!task.success) {
+      return task;
+    }
+
+    const worklog = await this.worklogRepository.findById(worklogId);
+    if (!worklog || worklog.taskId !== taskId) {
+      return this.failure('NOT_FOUND', `Worklog ${worklogId} not found`);
+    }
+
+    const required = worklog.userId === context.userId ? ProjectRole.CONTRIBUTOR : ProjectRole.MANAGER;
+    if (!await this.membershipService.hasAccess(task.data.projectId, required, context)) {
+      this.logger.warn('Worklog modification denied', {
+        correlationId: context.correlationId,
+        worklogId,
+        userId: context.userId
+      });
+
+      return this.failure('FORBIDDEN', 'Only the author or a project manager can change this worklog');
+    }
+
+    return { success: true, data: worklog };
+  }
+
+  /**
+   * Loads a task the caller can see and checks the required project role; tasks of
+   * projects the caller cannot see are reported as missing rather than forbidden
+   * @private
+   */
+  private async findTask(
+    taskId: UUID,
+    required: ProjectRole,
+    context: ITaskContext
+  ): Promise<{ success: true; data: ITask } | Failure> {
+    const task = await this.taskRepository.findById(taskId, context);
+    if (!task.success) {
+      return { success: false, error: task.error as TaskError };
+    }
+
+    if (!task.data || !await this.membershipService.hasAccess(task.data.projectId, ProjectRole.VIEWER, context)) {
+      return this.failure('NOT_FOUND', `Task ${taskId} not found`);
+    }
+
+    if (!await this.membershipService.hasAccess(task.data.projectId, required, context)) {
+      return this.failure('FORBIDDEN', `Logging time requires the ${required} project role`);
+    }
+
+    return { success: true, data: task.data };
+  }
+
+  /**
+   * Builds a failure result
+   * @private
+   */
+  private failure(code: string, message: string, details?: Record<string, unknown>): Failure {
+    return {
+      success: false,
+      error: { code, message, details }
+    };
+  }
+
+  /**
+   * Handles and logs operation errors
+   * @private
+   */
+  private handleOperationError(
+    operation: string,
+    error: any,
+    context: ITaskContext
+  ): void {
+    this.worklogErrorCounter.inc({
+      operation,
+      error_type: error.name || 'UnknownError'
+    });
+
+    this.logger.error(`Worklog operation error: ${operation}`, {
+      correlationId: context.correlationId,
+      error: error.message,
+      stack: error.stack
+    });
+  }
+}
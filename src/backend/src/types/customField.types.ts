@@ -0,0 +1,50 @@
+/**
+ * @fileoverview TypeScript type definitions for project-level custom task fields
+ * @version 1.0.0
+ * @module types/customField
+ */
+
+/**
+ * Enum defining the value types a custom field can hold
+ */
+export enum CustomFieldType {
+  TEXT = 'TEXT',                   // Free text
+  NUMBER = 'NUMBER',               // Finite number
+  DATE = 'DATE',                   // ISO 8601 date or date-time
+  SINGLE_SELECT = 'SINGLE_SELECT', // One of the field's options
+  MULTI_SELECT = 'MULTI_SELECT',   // Any subset of the field's options
+  USER = 'USER'                    // User identifier
+}
+
+/**
+ * Operators available when filtering tasks by a custom field
+ */
+export enum CustomFieldFilterOperator {
+  EQ = 'eq',
+  NE = 'ne',
+  GT = 'gt',
+  GTE = 'gte',
+  LT = 'lt',
+  LTE = 'lte',
+  IN = 'in',
+  CONTAINS = 'contains'
+}
+
+/**
+ * Value stored for a single custom field on a task
+ */
+export type CustomFieldValue = string | number | string[];
+
+/**
+ * Custom field values of a task, keyed by field key
+ */
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
+/**
+ * Single custom field condition of a task query, parsed from `key:operator:value`
+ */
+export interface CustomFieldFilter {
+  key: string;
+  operator: CustomFieldFilterOperator;
+  value: string; // Raw value; `in` separates alternatives with `|`
+}
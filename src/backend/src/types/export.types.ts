@@ -0,0 +1,14 @@
+/**
+ * @fileoverview TypeScript type definitions for exports of task and project lists
+ * @version 1.0.0
+ * @module types/export
+ */
+
+/**
+ * Enum defining the formats lists can be exported in
+ */
+export enum ExportFormat {
+  CSV = 'csv',   // Header row followed by one row per record
+  XLSX = 'xlsx', // Single worksheet with a header row
+  JSON = 'json'  // Array of objects keyed by column
+}
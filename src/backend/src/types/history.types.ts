@@ -0,0 +1,22 @@
+/**
+ * @fileoverview TypeScript type definitions for the change history of tasks and projects
+ * @version 1.0.0
+ * @module types/history
+ */
+
+/**
+ * Enum defining the kinds of entity whose changes are recorded
+ */
+export enum HistoryEntityType {
+  TASK = 'TASK',
+  PROJECT = 'PROJECT'
+}
+
+/**
+ * Old and new value of a single changed field
+ */
+export interface FieldChange {
+  field: string;
+  oldValue: unknown;
+  newValue: unknown;
+}
@@ -0,0 +1,37 @@
+/**
+ * @fileoverview TypeScript type definitions for task imports from CSV and JSON files
+ * @version 1.0.0
+ * @module types/import
+ */
+
+/**
+ * Enum defining the file formats tasks can be imported from
+ */
+export enum TaskImportFormat {
+  CSV = 'CSV',   // Header row followed by one task per row
+  JSON = 'JSON'  // Array of task objects, or an object holding one under "tasks"
+}
+
+/**
+ * Enum defining the lifecycle of an import
+ */
+export enum TaskImportStatus {
+  PENDING = 'PENDING',     // Uploaded; the mapping can still be changed and validated
+  RUNNING = 'RUNNING',     // Tasks are being created in the background
+  COMPLETED = 'COMPLETED', // Every row was processed; failed rows are listed as errors
+  FAILED = 'FAILED'        // The job stopped before processing every row
+}
+
+/**
+ * Enum defining the task fields a column can be mapped to
+ */
+export enum TaskImportField {
+  TITLE = 'title',
+  DESCRIPTION = 'description',
+  STATUS = 'status',                 // Workflow state key or name
+  PRIORITY = 'priority',
+  ASSIGNEE_EMAIL = 'assigneeEmail',  // Email of a project member
+  DUE_DATE = 'dueDate',
+  TAGS = 'tags',                     // Separated by commas, semicolons or pipes
+  ORIGINAL_ESTIMATE = 'originalEstimate'
+}
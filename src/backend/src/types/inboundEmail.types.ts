@@ -0,0 +1,21 @@
+/**
+ * @fileoverview TypeScript type definitions for inbound email
+ * @version 1.0.0
+ * @module types/inboundEmail
+ */
+
+/**
+ * Enum defining the outcome of a received message
+ */
+export enum InboundEmailStatus {
+  PROCESSED = 'PROCESSED', // A task or comment was created; the message is not processed again
+  REJECTED = 'REJECTED'    // Nothing was created; the message may be posted again
+}
+
+/**
+ * Enum defining what a processed message created
+ */
+export enum InboundEmailAction {
+  TASK_CREATED = 'TASK_CREATED',       // Sent to a project address
+  COMMENT_CREATED = 'COMMENT_CREATED'  // Reply to a notification email
+}
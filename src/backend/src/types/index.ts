@@ -23,10 +23,34 @@ export {
   type SSOConfig
 } from './auth.types';
 
+// Change History Types
+export {
+  HistoryEntityType,
+  type FieldChange
+} from './history.types';
+
+// Custom Field Types
+export {
+  CustomFieldType,
+  CustomFieldFilterOperator,
+  type CustomFieldValue,
+  type CustomFieldValues,
+  type CustomFieldFilter
+} from './customField.types';
+
+// Permission Types
+export {
+  Permission,
+  type PermissionDefinition,
+  type RolePermissionMap
+} from './permission.types';
+
 // Project Management Types
 export {
   ProjectStatus,
   ProjectPriority,
+  ProjectRole,
+  EstimationUnit,
   type Project,
   type CreateProjectDTO,
   type UpdateProjectDTO,
@@ -37,6 +61,9 @@ export {
 export {
   TaskStatus,
   TaskPriority,
+  RecurrenceFrequency,
+  RecurrenceTrigger,
+  BulkTaskOutcome,
   type Task,
   type TaskAttachment,
   type CreateTaskDTO,
@@ -58,6 +85,80 @@ export {
   type UserQueryParams
 } from './user.types';
 
+// Export Types
+export {
+  ExportFormat
+} from './export.types';
+
+// Import Types
+export {
+  TaskImportFormat,
+  TaskImportStatus,
+  TaskImportField
+} from './import.types';
+
+// Inbound Email Types
+export {
+  InboundEmailStatus,
+  InboundEmailAction
+} from './inboundEmail.types';
+
+// Milestone Types
+export {
+  MilestoneStatus
+} from './milestone.types';
+
+// Notification Types
+export {
+  NotificationType
+} from './notification.types';
+
+// Saved View Types
+export {
+  SavedViewVisibility,
+  SavedViewLayout,
+  type SavedViewGrouping,
+  type SavedViewFilters
+} from './savedView.types';
+
+// Search Types
+export {
+  SearchResultType,
+  type SearchFacets
+} from './search.types';
+
+// Sprint Types
+export {
+  SprintState,
+  type BurndownPoint
+} from './sprint.types';
+
+// Task Query Types
+export {
+  TaskQueryFieldType,
+  TaskQueryOperator
+} from './taskQuery.types';
+
+// Webhook Types
+export {
+  WebhookEventType,
+  WebhookDeliveryStatus
+} from './webhook.types';
+
+// Workflow Types
+export {
+  WorkflowCategory,
+  WipLimitMode,
+  type WorkflowStateDefinition,
+  type WorkflowTransitionDefinition
+} from './workflow.types';
+
+// Time Tracking Types
+export {
+  type Timesheet,
+  type TimesheetRow
+} from './worklog.types';
+
 /**
  * Common type utilities and shared interfaces
  * These types are used across multiple modules
@@ -0,0 +1,14 @@
+/**
+ * @fileoverview TypeScript type definitions for project milestones
+ * @version 1.0.0
+ * @module types/milestone
+ */
+
+/**
+ * Enum defining the health of a milestone, derived from its date and linked tasks
+ */
+export enum MilestoneStatus {
+  ON_TRACK = 'ON_TRACK', // No linked task is late
+  AT_RISK = 'AT_RISK',   // A linked task is past its due date and unfinished
+  MISSED = 'MISSED'      // The milestone date passed with linked tasks unfinished
+}
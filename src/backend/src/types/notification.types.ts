@@ -0,0 +1,16 @@
+/**
+ * @fileoverview TypeScript type definitions for in-app notifications
+ * @version 1.0.0
+ * @module types/notification
+ */
+
+/**
+ * Enum defining what a notification tells its recipient about
+ */
+export enum NotificationType {
+  ASSIGNMENT = 'ASSIGNMENT',       // A task was assigned to the recipient
+  MENTION = 'MENTION',             // The recipient was mentioned in a comment
+  STATUS_CHANGE = 'STATUS_CHANGE', // A task assigned to or created by the recipient changed status
+  DUE_SOON = 'DUE_SOON',           // A task assigned to the recipient is due within a day
+  COMMENT_REPLY = 'COMMENT_REPLY'  // Someone replied to the recipient's comment
+}
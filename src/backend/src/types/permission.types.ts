@@ -0,0 +1,60 @@
+/**
+ * @fileoverview TypeScript type definitions for the permission registry
+ * @version 1.0.0
+ * @module types/permission
+ *
+ * Permissions are named `resource:action`; an `:own` suffix grants the action only on
+ * resources the caller owns (for tasks, the creator or assignee).
+ */
+
+// Internal imports
+import { UserRole } from './user.types';
+
+/**
+ * Enum defining every permission an endpoint can require
+ */
+export enum Permission {
+  TASK_READ = 'task:read',
+  TASK_CREATE = 'task:create',
+  TASK_UPDATE = 'task:update',
+  TASK_UPDATE_OWN = 'task:update:own',
+  TASK_DELETE = 'task:delete',
+  TASK_DELETE_OWN = 'task:delete:own',
+  TASK_BLOCKERS_OVERRIDE = 'task:blockers:override',
+  COMMENT_WRITE = 'comment:write',
+  ATTACHMENT_WRITE = 'attachment:write',
+  CHECKLIST_UPDATE = 'checklist:update',
+  DEPENDENCY_UPDATE = 'dependency:update',
+  RECURRENCE_UPDATE = 'recurrence:update',
+  WORKLOG_WRITE = 'worklog:write',
+  VIEW_WRITE = 'view:write',
+  PROJECT_READ = 'project:read',
+  PROJECT_CREATE = 'project:create',
+  PROJECT_UPDATE = 'project:update',
+  PROJECT_DELETE = 'project:delete',
+  PROJECT_MEMBERS_MANAGE = 'project:members:manage',
+  PROJECT_FIELDS_MANAGE = 'project:fields:manage',
+  PROJECT_WORKFLOW_MANAGE = 'project:workflow:manage',
+  PROJECT_SPRINTS_MANAGE = 'project:sprints:manage',
+  PROJECT_MILESTONES_MANAGE = 'project:milestones:manage',
+  HISTORY_READ = 'history:read',
+  USER_READ = 'user:read',
+  USER_MANAGE = 'user:manage',
+  USER_PREFERENCES_UPDATE = 'user:preferences:update',
+  USER_PREFERENCES_UPDATE_OWN = 'user:preferences:update:own',
+  PERMISSION_MANAGE = 'permission:manage',
+  WEBHOOK_MANAGE = 'webhook:manage'
+}
+
+/**
+ * Registry entry describing a permission
+ */
+export interface PermissionDefinition {
+  key: Permission;
+  description: string;
+}
+
+/**
+ * Permissions granted to each global role
+ */
+export type RolePermissionMap = Record<UserRole, Permission[]>;
@@ -33,6 +33,25 @@ export enum ProjectPriority {
   CRITICAL = 'CRITICAL'  // Highest priority level
 }
 
+/**
+ * Enum defining the unit task estimates of a project are given in
+ */
+export enum EstimationUnit {
+  HOURS = 'HOURS',   // Time, comparable with logged work
+  POINTS = 'POINTS'  // Relative story points
+}
+
+/**
+ * Enum defining a user's role within a single project
+ * Granted per project through membership, independent of the global UserRole
+ */
+export enum ProjectRole {
+  OWNER = 'OWNER',             // Full control including ownership changes
+  MANAGER = 'MANAGER',         // Manages members and project settings
+  CONTRIBUTOR = 'CONTRIBUTOR', // Creates and edits tasks
+  VIEWER = 'VIEWER'            // Read-only access
+}
+
 /**
  * Core interface defining the complete structure of a project entity
  * Maps to the project table schema in PostgreSQL
@@ -47,6 +66,7 @@ export interface Project {
   startDate: Date;          // Project start date
   endDate: Date;            // Project target completion date
   teamMembers: UUID[];      // Array of team member user IDs
+  estimationUnit: EstimationUnit; // Unit of task estimates
   createdAt: Date;          // Project creation timestamp
   updatedAt: Date;          // Last update timestamp
 }
@@ -62,6 +82,7 @@ export interface CreateProjectDTO {
   startDate: Date;          // Required start date
   endDate: Date;            // Required end date
   teamMembers: UUID[];      // Optional initial team members
+  estimationUnit?: EstimationUnit; // Defaults to HOURS
 }
 
 /**
@@ -76,6 +97,7 @@ export interface UpdateProjectDTO {
   startDate?: Date;          // Optional start date update
   endDate?: Date;            // Optional end date update
   teamMembers?: UUID[];      // Optional team members update
+  estimationUnit?: EstimationUnit; // Existing estimates are kept as numbers
 }
 
 /**
@@ -0,0 +1,41 @@
+/**
+ * @fileoverview TypeScript type definitions for saved task views
+ * @version 1.0.0
+ * @module types/savedView
+ */
+
+/**
+ * Enum defining who can open a saved view
+ */
+export enum SavedViewVisibility {
+  PRIVATE = 'PRIVATE', // Only the owner
+  PROJECT = 'PROJECT'  // Every member of the view's project
+}
+
+/**
+ * Enum defining how a saved view shows its tasks
+ */
+export enum SavedViewLayout {
+  LIST = 'LIST',
+  BOARD = 'BOARD'
+}
+
+/**
+ * Task attribute a saved view groups by; on the board these are the swimlanes
+ */
+export type SavedViewGrouping = 'none' | 'assignee' | 'priority' | 'project';
+
+/**
+ * Task filters stored with a view, named as the task list query parameters
+ */
+export interface SavedViewFilters {
+  status?: string;
+  priority?: string;
+  assigneeId?: string;
+  sprintId?: string;
+  parentId?: string;
+  topLevelOnly?: boolean;
+  search?: string;
+  customField?: string[];
+  q?: string; // Task query, resolved for whoever opens the view
+}
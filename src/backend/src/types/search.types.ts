@@ -0,0 +1,19 @@
+/**
+ * @fileoverview TypeScript type definitions for full-text search
+ * @version 1.0.0
+ * @module types/search
+ */
+
+/**
+ * Enum defining the kinds of records full-text search covers
+ */
+export enum SearchResultType {
+  TASK = 'TASK',       // Task title and description
+  COMMENT = 'COMMENT', // Comment content
+  PROJECT = 'PROJECT'  // Project name and description
+}
+
+/**
+ * Number of matches per result type, before the result limit applies
+ */
+export type SearchFacets = Record<SearchResultType, number>;
@@ -0,0 +1,24 @@
+/**
+ * @fileoverview TypeScript type definitions for project sprints
+ * @version 1.0.0
+ * @module types/sprint
+ */
+
+/**
+ * Enum defining the lifecycle of a sprint; a project has at most one active sprint
+ */
+export enum SprintState {
+  PLANNED = 'PLANNED', // Being planned, tasks may be added
+  ACTIVE = 'ACTIVE',   // Started, burndown is being tracked
+  CLOSED = 'CLOSED'    // Finished, unfinished tasks were rolled over
+}
+
+/**
+ * Point of a sprint burndown chart
+ */
+export interface BurndownPoint {
+  date: string;             // Calendar day, YYYY-MM-DD (UTC)
+  remaining: number | null; // Unfinished tasks at the end of the day, null for days still ahead
+  scope: number | null;     // Tasks in the sprint at the end of the day, null for days still ahead
+  ideal: number;            // Remaining tasks on a straight line from the starting scope to zero
+}
@@ -11,14 +11,15 @@ import { UUID } from 'crypto'; // v20.0.0+
 import { User } from './user.types';
 
 /**
- * Enum defining possible task statuses
- * Maps to Kanban board columns in the UI
+ * Enum defining the state keys of the default workflow
+ * Projects may replace them with their own workflow states
  */
 export enum TaskStatus {
   TODO = 'TODO',           // New or backlog tasks
   IN_PROGRESS = 'IN_PROGRESS', // Tasks currently being worked on
   REVIEW = 'REVIEW',      // Tasks pending review/approval
-  DONE = 'DONE'           // Completed tasks
+  DONE = 'DONE',          // Completed tasks
+  BLOCKED = 'BLOCKED'     // Waiting on another task
 }
 
 /**
@@ -31,6 +32,37 @@ export enum TaskPriority {
   LOW = 'LOW'         // Low priority/optional tasks
 }
 
+/**
+ * Enum defining the result of one task of a bulk change
+ */
+export enum BulkTaskOutcome {
+  SUCCESS = 'SUCCESS',     // Change applied
+  CONFLICT = 'CONFLICT',   // Task changed since it was read, or the change clashes with its state
+  FORBIDDEN = 'FORBIDDEN', // Caller may not change the task
+  NOT_FOUND = 'NOT_FOUND', // Task does not exist or is not visible to the caller
+  INVALID = 'INVALID',     // Change is not valid for the task
+  ERROR = 'ERROR'          // Unexpected failure; other tasks are still processed
+}
+
+/**
+ * Enum defining how often a recurring task repeats
+ * CUSTOM rules are described by an RRULE string
+ */
+export enum RecurrenceFrequency {
+  DAILY = 'DAILY',
+  WEEKLY = 'WEEKLY',
+  MONTHLY = 'MONTHLY',
+  CUSTOM = 'CUSTOM'
+}
+
+/**
+ * Enum defining when the next occurrence of a recurring task is created
+ */
+export enum RecurrenceTrigger {
+  COMPLETION = 'COMPLETION', // When the previous occurrence is marked done
+  SCHEDULE = 'SCHEDULE'      // Shortly before the next occurrence is due
+}
+
 /**
  * Interface for task attachments
  * Represents files or documents associated with a task
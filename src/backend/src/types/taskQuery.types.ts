@@ -0,0 +1,37 @@
+/**
+ * @fileoverview TypeScript type definitions for the task query language
+ * @version 1.0.0
+ * @module types/taskQuery
+ */
+
+/**
+ * Enum defining the value types of the fields a task query can filter on
+ */
+export enum TaskQueryFieldType {
+  TEXT = 'TEXT',         // Free text, matched with ~
+  KEYWORD = 'KEYWORD',   // Exact text, e.g. a workflow state key
+  PRIORITY = 'PRIORITY', // Task priority, ordered LOW < MEDIUM < HIGH
+  USER = 'USER',         // User ID or `me`
+  ID = 'ID',             // Record ID
+  DATE = 'DATE',         // YYYY-MM-DD, `today` or relative like +7d
+  NUMBER = 'NUMBER',     // Finite number
+  TAG = 'TAG'            // One of the task's tags
+}
+
+/**
+ * Comparison operators of the task query language
+ */
+export enum TaskQueryOperator {
+  EQ = '=',
+  NE = '!=',
+  LT = '<',
+  LTE = '<=',
+  GT = '>',
+  GTE = '>=',
+  CONTAINS = '~',
+  NOT_CONTAINS = '!~',
+  IN = 'in',
+  NOT_IN = 'not in',
+  EMPTY = 'is empty',
+  NOT_EMPTY = 'is not empty'
+}
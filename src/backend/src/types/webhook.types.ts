@@ -0,0 +1,26 @@
+/**
+ * @fileoverview TypeScript type definitions for outbound webhooks
+ * @version 1.0.0
+ * @module types/webhook
+ */
+
+/**
+ * Enum defining the events webhooks can subscribe to
+ */
+export enum WebhookEventType {
+  TASK_CREATED = 'task.created',
+  TASK_UPDATED = 'task.updated',
+  TASK_DELETED = 'task.deleted',
+  PROJECT_CREATED = 'project.created',
+  PROJECT_UPDATED = 'project.updated'
+}
+
+/**
+ * Enum defining the lifecycle of a delivery
+ */
+export enum WebhookDeliveryStatus {
+  PENDING = 'PENDING',     // Queued for its first attempt
+  RETRYING = 'RETRYING',   // An attempt failed; the next one waits in a retry queue
+  SUCCEEDED = 'SUCCEEDED', // The receiver answered with a 2xx status
+  FAILED = 'FAILED'        // Every attempt failed; the delivery was moved to the dead-letter queue
+}
@@ -0,0 +1,42 @@
+/**
+ * @fileoverview TypeScript type definitions for per-project task workflows
+ * @version 1.0.0
+ * @module types/workflow
+ */
+
+/**
+ * Enum defining the category every workflow state maps to; categories drive behaviour
+ * that must not depend on a project's state names, such as completion and blockers
+ */
+export enum WorkflowCategory {
+  TODO = 'TODO',   // Not started
+  DOING = 'DOING', // Work in progress
+  DONE = 'DONE'    // Finished; releases dependents and rolls up as complete
+}
+
+/**
+ * Enum defining how a work-in-progress limit is enforced
+ */
+export enum WipLimitMode {
+  SOFT = 'SOFT', // Board warns when the column is over its limit
+  HARD = 'HARD'  // Moves into a full column are rejected
+}
+
+/**
+ * Named state of a project workflow; each state is a board column
+ */
+export interface WorkflowStateDefinition {
+  key: string;                // Stored in the task's status, e.g. IN_PROGRESS
+  name: string;               // Display name, e.g. In Progress
+  category: WorkflowCategory;
+  wipLimit?: number | null;   // Most active tasks the column should hold; null for no limit
+  wipLimitMode?: WipLimitMode; // Defaults to SOFT
+}
+
+/**
+ * Allowed move of a task from one state to another, by state key
+ */
+export interface WorkflowTransitionDefinition {
+  from: string;
+  to: string;
+}
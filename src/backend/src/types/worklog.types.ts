@@ -0,0 +1,29 @@
+/**
+ * @fileoverview TypeScript type definitions for time tracking timesheets
+ * @version 1.0.0
+ * @module types/worklog
+ */
+
+/**
+ * Time logged by one user on one task over the days of a timesheet
+ */
+export interface TimesheetRow {
+  userId: string;
+  taskId: string;
+  taskTitle: string;
+  projectId: string;
+  seconds: number[];    // Per day, aligned with Timesheet.days
+  totalSeconds: number;
+}
+
+/**
+ * Logged time over a range of days; entries count towards the day they started
+ */
+export interface Timesheet {
+  from: string;          // First day, YYYY-MM-DD (UTC)
+  to: string;            // Last day, inclusive
+  days: string[];        // Every day of the range
+  rows: TimesheetRow[];  // By user, then task title
+  dailyTotals: number[]; // Seconds per day, aligned with days
+  totalSeconds: number;
+}
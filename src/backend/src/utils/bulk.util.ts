@@ -0,0 +1,48 @@
+/**
+ * @fileoverview Limits and result bookkeeping of bulk task changes
+ * @version 1.0.0
+ * @module utils/bulk
+ */
+
+// Internal imports
+import { BulkTaskOutcome } from '../types/task.types';
+import { IBulkTaskResult } from '../interfaces/task.interface';
+
+/**
+ * Most tasks one bulk change may touch
+ */
+export const MAX_BULK_TASKS = 100;
+
+// Error codes of a single task update that mean the task moved on or its state forbids the change
+const CONFLICT_CODES = ['VERSION_CONFLICT', 'TASK_BLOCKED', 'INVALID_TRANSITION', 'WIP_LIMIT_EXCEEDED'];
+
+/**
+ * Classifies the error of a single task update
+ *
+ * @param code - Error code returned by the update
+ * @returns Outcome reported for the task
+ */
+export const getBulkOutcome = (code: string): BulkTaskOutcome => {
+  if (CONFLICT_CODES.includes(code)) return BulkTaskOutcome.CONFLICT;
+  if (code === 'FORBIDDEN') return BulkTaskOutcome.FORBIDDEN;
+  if (code === 'NOT_FOUND') return BulkTaskOutcome.NOT_FOUND;
+  return BulkTaskOutcome.INVALID;
+};
+
+/**
+ * Counts the tasks of each outcome
+ *
+ * @param results - Results of a bulk change
+ * @returns Number of tasks per outcome, zero for outcomes that did not occur
+ */
+export const summarizeBulkResults = (results: IBulkTaskResult[]): Record<BulkTaskOutcome, number> => {
+  const summary = Object.fromEntries(
+    Object.values(BulkTaskOutcome).map(outcome => [outcome, 0])
+  ) as Record<BulkTaskOutcome, number>;
+
+  results.forEach(result => {
+    summary[result.outcome]++;
+  });
+
+  return summary;
+};
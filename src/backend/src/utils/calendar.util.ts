@@ -0,0 +1,217 @@
+/**
+ * @fileoverview iCalendar (RFC 5545) rendering of due dates, project dates and milestones
+ * @version 1.0.0
+ * @module utils/calendar
+ */
+
+// Internal imports
+import { formatDate } from './date.util';
+import {
+  ICalendarTask,
+  ICalendarProject,
+  ICalendarMilestone
+} from '../interfaces/calendar.interface';
+
+/**
+ * Days in the past whose dates are still included in a feed
+ */
+export const CALENDAR_FEED_PAST_DAYS = 90;
+
+/**
+ * Largest number of events of a feed
+ */
+export const MAX_CALENDAR_EVENTS = 2000;
+
+/**
+ * Content type of a feed
+ */
+export const CALENDAR_CONTENT_TYPE = 'text/calendar; charset=utf-8';
+
+const PRODUCT_ID = '-//Task Management System//Calendar Feed//EN';
+const UID_DOMAIN = 'task-management-system';
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * All-day event of a feed
+ */
+export interface CalendarEvent {
+  uid: string;          // Stable across renders, so that apps update events in place
+  summary: string;
+  description?: string;
+  day: string;          // Calendar day as YYYYMMDD
+  stamp: Date;          // Last change of the source record
+}
+
+/**
+ * Checks that a time zone is a known IANA identifier, e.g. `Europe/Berlin`
+ * @param timezone - Time zone identifier
+ * @returns Whether dates can be placed in the zone
+ */
+export const isValidTimeZone = (timezone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Day an instant falls on in a time zone
+ * @param date - Instant
+ * @param timezone - IANA time zone
+ * @returns Day as YYYYMMDD
+ */
+export const toCalendarDay = (date: Date, timezone: string): string =>
+  formatDate(date, 'yyyyMMdd', timezone);
+
+/**
+ * Day after a calendar day, used as the exclusive end of all-day events
+ * @param day - Day as YYYYMMDD
+ * @returns Next day as YYYYMMDD
+ */
+export const nextCalendarDay = (day: string): string => {
+  const next = new Date(Date.UTC(
+    Number(day.slice(0, 4)),
+    Number(day.slice(4, 6)) - 1,
+    Number(day.slice(6, 8)) + 1
+  ));
+  return next.toISOString().slice(0, 10).replace(/-/g, '');
+};
+
+/**
+ * Escapes text for a TEXT property value
+ * @param text - Raw text
+ * @returns Text with backslashes, separators and line breaks escaped
+ */
+export const escapeIcsText = (text: string): string =>
+  text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+/**
+ * Folds a content line into lines of at most 75 octets, continued by a leading space;
+ * multi-byte characters are never split
+ * @param line - Unfolded content line
+ * @returns Folded line joined with CRLF
+ */
+export const foldIcsLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char, 'utf8');
+    // Continuation lines start with a space, which counts towards their length
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+/**
+ * Formats an instant as a UTC DATE-TIME value
+ * @private
+ */
+const formatTimestamp = (date: Date): string =>
+  formatDate(date, "yyyyMMdd'T'HHmmss'Z'", 'UTC');
+
+/**
+ * Builds the due date event of a task
+ * @param task - Task assigned to the feed's user
+ * @param timezone - Time zone the due date is placed in
+ * @returns Event
+ */
+export const buildTaskEvent = (task: ICalendarTask, timezone: string): CalendarEvent => ({
+  uid: `task-${task.id}@${UID_DOMAIN}`,
+  summary: `Due: ${task.title}`,
+  description: `Project: ${task.project.name}\nStatus: ${task.status}`,
+  day: toCalendarDay(task.dueDate, timezone),
+  stamp: task.updatedAt
+});
+
+/**
+ * Builds the start and, when set, end events of a project
+ * @param project - Project of the feed's user
+ * @param timezone - Time zone the dates are placed in
+ * @returns Events
+ */
+export const buildProjectEvents = (project: ICalendarProject, timezone: string): CalendarEvent[] => {
+  const events: CalendarEvent[] = [{
+    uid: `project-${project.id}-start@${UID_DOMAIN}`,
+    summary: `${project.name} starts`,
+    day: toCalendarDay(project.startDate, timezone),
+    stamp: project.updatedAt
+  }];
+
+  if (project.endDate) {
+    events.push({
+      uid: `project-${project.id}-end@${UID_DOMAIN}`,
+      summary: `${project.name} ends`,
+      day: toCalendarDay(project.endDate, timezone),
+      stamp: project.updatedAt
+    });
+  }
+
+  return events;
+};
+
+/**
+ * Builds the event of a milestone. Milestones are due on a calendar day stored without
+ * a time, so the day is the same in every time zone.
+ * @param milestone - Milestone of a project of the feed's user
+ * @returns Event
+ */
+export const buildMilestoneEvent = (milestone: ICalendarMilestone): CalendarEvent => ({
+  uid: `milestone-${milestone.id}@${UID_DOMAIN}`,
+  summary: `Milestone: ${milestone.name}`,
+  description: `Project: ${milestone.project.name}`,
+  day: toCalendarDay(milestone.dueDate, 'UTC'),
+  stamp: milestone.updatedAt
+});
+
+/**
+ * Renders events as an iCalendar document of all-day events
+ * @param name - Calendar name shown by calendar apps
+ * @param timezone - Time zone the days were computed in
+ * @param events - Events in any order
+ * @returns Document with CRLF line endings
+ */
+export const buildCalendar = (name: string, timezone: string, events: CalendarEvent[]): string => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(name)}`,
+    `X-WR-TIMEZONE:${timezone}`
+  ];
+
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${formatTimestamp(event.stamp)}`,
+      `DTSTART;VALUE=DATE:${event.day}`,
+      `DTEND;VALUE=DATE:${nextCalendarDay(event.day)}`,
+      `SUMMARY:${escapeIcsText(event.summary)}`,
+      ...(event.description ? [`DESCRIPTION:${escapeIcsText(event.description)}`] : []),
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+};
@@ -112,10 +112,14 @@ export async function verifyPassword(password: string, hash: string): Promise<bo
 /**
  * Encrypts data using AES-256-GCM with enhanced security
  * @param data - Data to encrypt
+ * @param key - 256-bit encryption key; derived from the server secret when omitted
  * @returns Promise<{encrypted: string; iv: string; tag: string}> Encrypted data with parameters
  * @throws Error if encryption fails
  */
-export async function encrypt(data: string): Promise<{ encrypted: string; iv: string; tag: string }> {
+export async function encrypt(
+  data: string,
+  key?: Buffer
+): Promise<{ encrypted: string; iv: string; tag: string }> {
   validateInput(data);
 
   try {
@@ -124,10 +128,10 @@ export async function encrypt(data: string): Promise<{ encrypted: string; iv: st
     
     // Generate encryption key using scrypt for additional security
     const salt = randomBytes(SALT_LENGTH);
-    const key = await scryptAsync(authConfig.jwtSecret, salt, KEY_LENGTH);
+    const cipherKey = key ?? await scryptAsync(authConfig.jwtSecret, salt, KEY_LENGTH);
 
     // Create cipher with authenticated encryption
-    const cipher = createCipheriv(ENCRYPTION_ALGORITHM, key, iv);
+    const cipher = createCipheriv(ENCRYPTION_ALGORITHM, cipherKey, iv);
     
     // Encrypt data
     let encrypted = cipher.update(data, 'utf8', 'hex');
@@ -154,13 +158,15 @@ export async function encrypt(data: string): Promise<{ encrypted: string; iv: st
  * @param encryptedData - Data to decrypt
  * @param iv - Initialization vector
  * @param tag - Authentication tag
+ * @param key - 256-bit key the data was encrypted with; derived from the server secret when omitted
  * @returns Promise<string> Decrypted data
  * @throws Error if decryption or authentication fails
  */
 export async function decrypt(
   encryptedData: string,
   iv: string,
-  tag: string
+  tag: string,
+  key?: Buffer
 ): Promise<string> {
   validateInput(encryptedData);
   validateInput(iv);
@@ -173,10 +179,10 @@ export async function decrypt(
     
     // Regenerate key using same parameters
     const salt = randomBytes(SALT_LENGTH);
-    const key = await scryptAsync(authConfig.jwtSecret, salt, KEY_LENGTH);
+    const cipherKey = key ?? await scryptAsync(authConfig.jwtSecret, salt, KEY_LENGTH);
 
     // Create decipher
-    const decipher = createDecipheriv(ENCRYPTION_ALGORITHM, key, ivBuffer);
+    const decipher = createDecipheriv(ENCRYPTION_ALGORITHM, cipherKey, ivBuffer);
     decipher.setAuthTag(tagBuffer);
 
     // Decrypt data
@@ -211,18 +217,23 @@ export async function generateToken(length: number): Promise<string> {
 /**
  * Generates HMAC signature with timing attack protection
  * @param data - Data to sign
+ * @param key - Signing key; the server secret when omitted, e.g. a secret shared with a webhook receiver
  * @returns string HMAC signature
  * @throws Error if validation fails
  */
-export function generateHmac(data: string): string {
+export function generateHmac(data: string, key?: string): string {
   validateInput(data);
   
-  if (!authConfig.jwtSecret) {
+  if (key === undefined && !authConfig.jwtSecret) {
     throw new Error(ERROR_MESSAGES.INVALID_JWT_SECRET);
   }
 
+  if (key !== undefined) {
+    validateInput(key);
+  }
+
   try {
-    const hmac = createHmac(HASH_ALGORITHM, authConfig.jwtSecret);
+    const hmac = createHmac(HASH_ALGORITHM, key ?? authConfig.jwtSecret);
     hmac.update(data);
     return hmac.digest('hex');
   } catch (error) {
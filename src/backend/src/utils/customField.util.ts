@@ -0,0 +1,303 @@
+/**
+ * @fileoverview Validation of custom field values and translation of custom field filters
+ * @version 1.0.0
+ * @module utils/customField
+ *
+ * Task values live in the task's customFields JSON column keyed by field key. Dates are
+ * stored as ISO 8601 strings so they compare correctly in JSON path filters.
+ */
+
+// External imports
+import { Prisma } from '@prisma/client'; // v5.0+
+import { isValid, parseISO } from 'date-fns'; // v2.30.0
+import { isUUID } from 'validator'; // ^13.9.0
+
+// Internal imports
+import { ICustomField } from '../interfaces/customField.interface';
+import {
+  CustomFieldType,
+  CustomFieldFilter,
+  CustomFieldFilterOperator,
+  CustomFieldValue,
+  CustomFieldValues
+} from '../types/customField.types';
+
+/**
+ * Longest text value accepted for TEXT fields
+ */
+const MAX_TEXT_LENGTH = 1000;
+
+/**
+ * Error messages for custom field operations
+ */
+const CUSTOM_FIELD_ERRORS = {
+  UNKNOWN_FIELD: 'Unknown custom field',
+  REQUIRED: 'Custom field is required',
+  INVALID_TEXT: 'Custom field value must be text',
+  TEXT_TOO_LONG: `Custom field text must not exceed ${MAX_TEXT_LENGTH} characters`,
+  INVALID_NUMBER: 'Custom field value must be a number',
+  INVALID_DATE: 'Custom field value must be an ISO 8601 date',
+  INVALID_OPTION: 'Custom field value must be one of its options',
+  INVALID_OPTIONS: 'Custom field value must be a list of its options',
+  INVALID_USER: 'Custom field value must be a user ID',
+  INVALID_FILTER: 'Custom field filters must have the form key:operator:value',
+  UNSUPPORTED_OPERATOR: 'Operator is not supported for this custom field type'
+} as const;
+
+/**
+ * Separator between the alternatives of an `in` filter
+ */
+const IN_SEPARATOR = '|';
+
+/**
+ * Field keys: lowercase letter first, then lowercase letters, digits or underscores
+ */
+export const CUSTOM_FIELD_KEY_PATTERN = /^[a-z][a-z0-9_]{0,49}$/;
+
+/**
+ * Operators each field type can be filtered with
+ */
+export const CUSTOM_FIELD_OPERATORS: Readonly<Record<CustomFieldType, CustomFieldFilterOperator[]>> = {
+  [CustomFieldType.TEXT]: [
+    CustomFieldFilterOperator.EQ,
+    CustomFieldFilterOperator.NE,
+    CustomFieldFilterOperator.IN,
+    CustomFieldFilterOperator.CONTAINS
+  ],
+  [CustomFieldType.NUMBER]: [
+    CustomFieldFilterOperator.EQ,
+    CustomFieldFilterOperator.NE,
+    CustomFieldFilterOperator.GT,
+    CustomFieldFilterOperator.GTE,
+    CustomFieldFilterOperator.LT,
+    CustomFieldFilterOperator.LTE,
+    CustomFieldFilterOperator.IN
+  ],
+  [CustomFieldType.DATE]: [
+    CustomFieldFilterOperator.EQ,
+    CustomFieldFilterOperator.NE,
+    CustomFieldFilterOperator.GT,
+    CustomFieldFilterOperator.GTE,
+    CustomFieldFilterOperator.LT,
+    CustomFieldFilterOperator.LTE
+  ],
+  [CustomFieldType.SINGLE_SELECT]: [
+    CustomFieldFilterOperator.EQ,
+    CustomFieldFilterOperator.NE,
+    CustomFieldFilterOperator.IN
+  ],
+  [CustomFieldType.MULTI_SELECT]: [
+    CustomFieldFilterOperator.CONTAINS,
+    CustomFieldFilterOperator.IN
+  ],
+  [CustomFieldType.USER]: [
+    CustomFieldFilterOperator.EQ,
+    CustomFieldFilterOperator.NE,
+    CustomFieldFilterOperator.IN
+  ]
+};
+
+/**
+ * Field attributes needed to validate values and filters
+ */
+export type CustomFieldDefinition = Pick<ICustomField, 'key' | 'name' | 'type' | 'options' | 'required'>;
+
+/**
+ * Validates a single value against its field and returns it in stored form
+ *
+ * @param field - Field definition
+ * @param value - Submitted value
+ * @returns Normalized value
+ * @throws Error naming the field if the value does not match its type
+ */
+export const normalizeCustomFieldValue = (
+  field: CustomFieldDefinition,
+  value: unknown
+): CustomFieldValue => {
+  const fail = (message: string): never => {
+    throw new Error(`${message}: ${field.key}`);
+  };
+
+  switch (field.type) {
+    case CustomFieldType.TEXT:
+      if (typeof value !== 'string') fail(CUSTOM_FIELD_ERRORS.INVALID_TEXT);
+      if ((value as string).length > MAX_TEXT_LENGTH) fail(CUSTOM_FIELD_ERRORS.TEXT_TOO_LONG);
+      return value as string;
+
+    case CustomFieldType.NUMBER:
+      if (typeof value !== 'number' || !Number.isFinite(value)) fail(CUSTOM_FIELD_ERRORS.INVALID_NUMBER);
+      return value as number;
+
+    case CustomFieldType.DATE: {
+      const date = typeof value === 'string' ? parseISO(value) : null;
+      if (!date || !isValid(date)) fail(CUSTOM_FIELD_ERRORS.INVALID_DATE);
+      return (date as Date).toISOString();
+    }
+
+    case CustomFieldType.SINGLE_SELECT:
+      if (typeof value !== 'string' || !field.options.includes(value)) fail(CUSTOM_FIELD_ERRORS.INVALID_OPTION);
+      return value as string;
+
+    case CustomFieldType.MULTI_SELECT:
+      if (!Array.isArray(value) ||
+          !value.every(option => typeof option === 'string' && field.options.includes(option))) {
+        fail(CUSTOM_FIELD_ERRORS.INVALID_OPTIONS);
+      }
+      return [...new Set(value as string[])];
+
+    case CustomFieldType.USER:
+      if (typeof value !== 'string' || !isUUID(value)) fail(CUSTOM_FIELD_ERRORS.INVALID_USER);
+      return value as string;
+  }
+};
+
+/**
+ * Validates submitted custom field values against a project's fields
+ *
+ * On create every required field must be present. Partial updates only check the
+ * submitted fields, where null clears a value unless the field is required.
+ *
+ * @param fields - Field definitions of the task's project
+ * @param values - Submitted values keyed by field key
+ * @param partial - Whether the values update an existing task
+ * @returns Normalized values; cleared fields map to null
+ * @throws Error naming the offending field
+ */
+export const validateCustomFieldValues = (
+  fields: CustomFieldDefinition[],
+  values: Record<string, unknown> = {},
+  partial = false
+): Record<string, CustomFieldValue | null> => {
+  const byKey = new Map(fields.map(field => [field.key, field]));
+  const normalized: Record<string, CustomFieldValue | null> = {};
+
+  for (const [key, value] of Object.entries(values)) {
+    const field = byKey.get(key);
+    if (!field) {
+      throw new Error(`${CUSTOM_FIELD_ERRORS.UNKNOWN_FIELD}: ${key}`);
+    }
+
+    if (value === null || value === undefined || value === '') {
+      if (field.required) {
+        throw new Error(`${CUSTOM_FIELD_ERRORS.REQUIRED}: ${key}`);
+      }
+      normalized[key] = null;
+      continue;
+    }
+
+    normalized[key] = normalizeCustomFieldValue(field, value);
+  }
+
+  if (!partial) {
+    const missing = fields.find(field => field.required && normalized[field.key] == null);
+    if (missing) {
+      throw new Error(`${CUSTOM_FIELD_ERRORS.REQUIRED}: ${missing.key}`);
+    }
+  }
+
+  return normalized;
+};
+
+/**
+ * Applies validated changes to a task's current values, dropping cleared fields
+ *
+ * @param current - Values stored on the task
+ * @param changes - Output of validateCustomFieldValues
+ * @returns Values to store
+ */
+export const mergeCustomFieldValues = (
+  current: CustomFieldValues | null | undefined,
+  changes: Record<string, CustomFieldValue | null>
+): CustomFieldValues => {
+  const merged: CustomFieldValues = { ...(current || {}) };
+
+  for (const [key, value] of Object.entries(changes)) {
+    if (value === null) {
+      delete merged[key];
+    } else {
+      merged[key] = value;
+    }
+  }
+
+  return merged;
+};
+
+/**
+ * Parses a filter written as `key:operator:value`; the value may itself contain colons
+ *
+ * @param raw - Filter string, e.g. `story_points:gte:3` or `team:in:web|api`
+ * @returns Parsed filter
+ * @throws Error if the filter is malformed
+ */
+export const parseCustomFieldFilter = (raw: string): CustomFieldFilter => {
+  const [key, operator, ...rest] = raw.split(':');
+  const value = rest.join(':');
+
+  if (!CUSTOM_FIELD_KEY_PATTERN.test(key || '') || !value ||
+      !Object.values(CustomFieldFilterOperator).includes(operator as CustomFieldFilterOperator)) {
+    throw new Error(`${CUSTOM_FIELD_ERRORS.INVALID_FILTER}: ${raw}`);
+  }
+
+  return { key, operator: operator as CustomFieldFilterOperator, value };
+};
+
+/**
+ * Translates custom field filters into Prisma conditions on the task's JSON column
+ *
+ * Filter values are converted with the same rules as stored values, so `3` matches the
+ * number 3 on NUMBER fields and dates compare as ISO strings.
+ *
+ * @param filters - Parsed filters
+ * @param fields - Definitions of the filtered fields
+ * @returns Conditions to combine with AND
+ * @throws Error if a field is unknown or the operator does not fit its type
+ */
+export const buildCustomFieldWhere = (
+  filters: CustomFieldFilter[],
+  fields: CustomFieldDefinition[]
+): Prisma.TaskWhereInput[] => {
+  const byKey = new Map(fields.map(field => [field.key, field]));
+
+  return filters.map(({ key, operator, value }) => {
+    const field = byKey.get(key);
+    if (!field) {
+      throw new Error(`${CUSTOM_FIELD_ERRORS.UNKNOWN_FIELD}: ${key}`);
+    }
+    if (!CUSTOM_FIELD_OPERATORS[field.type].includes(operator)) {
+      throw new Error(`${CUSTOM_FIELD_ERRORS.UNSUPPORTED_OPERATOR}: ${key}:${operator}`);
+    }
+
+    const path = [key];
+    const toValue = (raw: string) => normalizeCustomFieldValue(
+      field.type === CustomFieldType.MULTI_SELECT ? { ...field, type: CustomFieldType.SINGLE_SELECT } : field,
+      field.type === CustomFieldType.NUMBER ? Number(raw) : raw
+    );
+
+    switch (operator) {
+      case CustomFieldFilterOperator.EQ:
+        return { customFields: { path, equals: toValue(value) } };
+      case CustomFieldFilterOperator.NE:
+        return { NOT: { customFields: { path, equals: toValue(value) } } };
+      case CustomFieldFilterOperator.GT:
+        return { customFields: { path, gt: toValue(value) } };
+      case CustomFieldFilterOperator.GTE:
+        return { customFields: { path, gte: toValue(value) } };
+      case CustomFieldFilterOperator.LT:
+        return { customFields: { path, lt: toValue(value) } };
+      case CustomFieldFilterOperator.LTE:
+        return { customFields: { path, lte: toValue(value) } };
+      case CustomFieldFilterOperator.CONTAINS:
+        return field.type === CustomFieldType.MULTI_SELECT
+          ? { customFields: { path, array_contains: [toValue(value)] } }
+          : { customFields: { path, string_contains: value } };
+      case CustomFieldFilterOperator.IN:
+        return {
+          OR: value.split(IN_SEPARATOR).map(alternative =>
+            field.type === CustomFieldType.MULTI_SELECT
+              ? { customFields: { path, array_contains: [toValue(alternative)] } }
+              : { customFields: { path, equals: toValue(alternative) } }
+          )
+        };
+    }
+  }) as Prisma.TaskWhereInput[];
+};
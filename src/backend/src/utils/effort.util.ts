@@ -0,0 +1,111 @@
+/**
+ * @fileoverview Effort rollups from task estimates and logged time
+ * @version 1.0.0
+ * @module utils/effort
+ *
+ * Estimates are in the project's estimation unit while logged time is always in hours,
+ * so estimated vs actual is only comparable for projects estimating in hours. Every task
+ * counts with its own estimate; a parent's estimate is not derived from its subtasks.
+ */
+
+// Internal imports
+import { WorkflowCategory } from '../types/workflow.types';
+import { IEffortTotals } from '../interfaces/project.interface';
+
+/**
+ * Largest estimate a task may carry
+ */
+export const MAX_ESTIMATE = 10000;
+
+/**
+ * Seconds in an hour
+ */
+const HOUR_SECONDS = 60 * 60;
+
+/**
+ * Task attributes effort rollups depend on
+ */
+export interface EffortTask {
+  assigneeId: string | null;
+  sprintId: string | null;
+  statusCategory: WorkflowCategory | string;
+  originalEstimate: number | null;
+  remainingEstimate: number | null;
+  loggedSeconds: number;
+}
+
+/**
+ * Rounds to two decimals, hiding floating point noise from summed estimates
+ * @private
+ */
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Sums the effort of a group of tasks. Done tasks have no remaining work; open tasks
+ * without a remaining estimate count with their original estimate.
+ *
+ * @param tasks - Tasks of the group
+ * @returns Effort totals
+ */
+export const sumEffort = (tasks: EffortTask[]): IEffortTotals => {
+  const totals: IEffortTotals = {
+    taskCount: tasks.length,
+    estimatedCount: 0,
+    originalEstimate: 0,
+    remainingEstimate: 0,
+    loggedHours: 0,
+    completedCount: 0,
+    completedEstimate: 0,
+    completedLoggedHours: 0
+  };
+
+  tasks.forEach(task => {
+    const done = task.statusCategory === WorkflowCategory.DONE;
+    const logged = task.loggedSeconds / HOUR_SECONDS;
+
+    if (task.originalEstimate !== null) {
+      totals.estimatedCount++;
+      totals.originalEstimate += task.originalEstimate;
+    }
+
+    totals.loggedHours += logged;
+
+    if (done) {
+      totals.completedCount++;
+      totals.completedEstimate += task.originalEstimate ?? 0;
+      totals.completedLoggedHours += logged;
+    } else {
+      totals.remainingEstimate += task.remainingEstimate ?? task.originalEstimate ?? 0;
+    }
+  });
+
+  return {
+    ...totals,
+    originalEstimate: round(totals.originalEstimate),
+    remainingEstimate: round(totals.remainingEstimate),
+    loggedHours: round(totals.loggedHours),
+    completedEstimate: round(totals.completedEstimate),
+    completedLoggedHours: round(totals.completedLoggedHours)
+  };
+};
+
+/**
+ * Sums the effort of tasks grouped by a key
+ *
+ * @param tasks - Tasks to group
+ * @param key - Grouping key of a task
+ * @returns Totals keyed by group, in order of first appearance
+ */
+export const groupEffort = <K>(
+  tasks: EffortTask[],
+  key: (task: EffortTask) => K
+): Map<K, IEffortTotals> => {
+  const groups = new Map<K, EffortTask[]>();
+  tasks.forEach(task => {
+    const group = groups.get(key(task)) || [];
+    group.push(task);
+    groups.set(key(task), group);
+  });
+
+  return new Map([...groups].map(([group, members]) => [group, sumEffort(members)]));
+};
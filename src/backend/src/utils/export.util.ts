@@ -0,0 +1,242 @@
+/**
+ * @fileoverview Column definitions and streaming CSV, XLSX and JSON writers for list exports
+ * @version 1.0.0
+ * @module utils/export
+ */
+
+// External imports
+import { Writable } from 'stream';
+import ExcelJS from 'exceljs'; // v4.4.0
+
+// Internal imports
+import { ExportFormat } from '../types/export.types';
+import { ITaskExportRow, IProjectExportRow } from '../interfaces/export.interface';
+
+/**
+ * Records read from the database per query while exporting
+ */
+export const EXPORT_BATCH_SIZE = 500;
+
+/**
+ * Content type of each format
+ */
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  [ExportFormat.CSV]: 'text/csv; charset=utf-8',
+  [ExportFormat.XLSX]: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  [ExportFormat.JSON]: 'application/json; charset=utf-8'
+};
+
+/**
+ * Value of an exported cell; dates are written as ISO strings except in XLSX
+ */
+export type ExportValue = string | number | boolean | Date | null;
+
+/**
+ * Column that can be selected for an export
+ */
+export interface ExportColumn<T> {
+  key: string;     // Name in the columns parameter and JSON output
+  header: string;  // Heading in CSV and XLSX output
+  value: (row: T) => ExportValue;
+}
+
+/**
+ * Error raised for a column selection naming unknown columns
+ */
+export class ExportColumnError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExportColumnError';
+  }
+}
+
+/**
+ * Columns of task exports, in their default order
+ */
+export const TASK_EXPORT_COLUMNS: ExportColumn<ITaskExportRow>[] = [
+  { key: 'id', header: 'ID', value: task => task.id },
+  { key: 'title', header: 'Title', value: task => task.title },
+  { key: 'description', header: 'Description', value: task => task.description },
+  { key: 'status', header: 'Status', value: task => task.status },
+  { key: 'priority', header: 'Priority', value: task => task.priority },
+  { key: 'project', header: 'Project', value: task => task.project?.name ?? null },
+  { key: 'assignee', header: 'Assignee', value: task => task.assignee?.name ?? null },
+  { key: 'assigneeEmail', header: 'Assignee email', value: task => task.assignee?.email ?? null },
+  { key: 'dueDate', header: 'Due date', value: task => task.dueDate },
+  { key: 'tags', header: 'Tags', value: task => task.tags.join(', ') },
+  { key: 'originalEstimate', header: 'Original estimate', value: task => task.originalEstimate ?? null },
+  { key: 'remainingEstimate', header: 'Remaining estimate', value: task => task.remainingEstimate ?? null },
+  { key: 'parentId', header: 'Parent ID', value: task => task.parentId ?? null },
+  { key: 'sprintId', header: 'Sprint ID', value: task => task.sprintId ?? null },
+  { key: 'createdAt', header: 'Created', value: task => task.createdAt },
+  { key: 'updatedAt', header: 'Updated', value: task => task.updatedAt }
+];
+
+/**
+ * Columns exported when none are selected
+ */
+export const DEFAULT_TASK_EXPORT_COLUMNS = [
+  'id', 'title', 'status', 'priority', 'project', 'assignee', 'dueDate', 'tags', 'createdAt'
+];
+
+/**
+ * Columns of project exports, in their default order
+ */
+export const PROJECT_EXPORT_COLUMNS: ExportColumn<IProjectExportRow>[] = [
+  { key: 'id', header: 'ID', value: project => project.id },
+  { key: 'name', header: 'Name', value: project => project.name },
+  { key: 'description', header: 'Description', value: project => project.description ?? null },
+  { key: 'status', header: 'Status', value: project => project.status },
+  { key: 'priority', header: 'Priority', value: project => project.priority },
+  { key: 'owner', header: 'Owner', value: project => project.owner?.name ?? null },
+  { key: 'ownerEmail', header: 'Owner email', value: project => project.owner?.email ?? null },
+  { key: 'startDate', header: 'Start date', value: project => project.startDate },
+  { key: 'endDate', header: 'End date', value: project => project.endDate ?? null },
+  { key: 'createdAt', header: 'Created', value: project => project.createdAt },
+  { key: 'updatedAt', header: 'Updated', value: project => project.updatedAt }
+];
+
+/**
+ * Columns exported when none are selected
+ */
+export const DEFAULT_PROJECT_EXPORT_COLUMNS = [
+  'id', 'name', 'status', 'priority', 'owner', 'startDate', 'endDate'
+];
+
+/**
+ * Picks the requested columns in the requested order
+ * @param columns - Columns that can be exported
+ * @param requested - Column keys asked for; the defaults when empty
+ * @param defaults - Column keys exported when none are asked for
+ * @returns Selected columns
+ * @throws {ExportColumnError} When a requested key names no column
+ */
+export const selectExportColumns = <T>(
+  columns: ExportColumn<T>[],
+  requested: string[] | undefined,
+  defaults: string[]
+): ExportColumn<T>[] => {
+  const keys = [...new Set(requested?.length ? requested : defaults)];
+  const byKey = new Map(columns.map(column => [column.key, column]));
+
+  const unknown = keys.filter(key => !byKey.has(key));
+  if (unknown.length > 0) {
+    throw new ExportColumnError(
+      `Unknown column(s) ${unknown.join(', ')}; expected any of ${columns.map(column => column.key).join(', ')}`
+    );
+  }
+
+  return keys.map(key => byKey.get(key)!);
+};
+
+/**
+ * Builds the download name of an export, e.g. `tasks-2024-03-01.csv`
+ * @param name - What is exported
+ * @param format - Export format
+ * @param now - Export time
+ * @returns File name
+ */
+export const buildExportFileName = (name: string, format: ExportFormat, now: Date = new Date()): string =>
+  `${name}-${now.toISOString().slice(0, 10)}.${format}`;
+
+/**
+ * Writes a value as a CSV field; text that spreadsheets would run as a formula is
+ * prefixed with an apostrophe
+ * @param value - Cell value
+ * @returns Field, quoted when it holds a delimiter, quote or line break
+ */
+export const formatCsvValue = (value: ExportValue): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Writes a chunk, waiting for the destination to drain when its buffer is full or for it
+ * to close when the client went away
+ * @private
+ */
+const writeChunk = (out: Writable, chunk: string): Promise<void> => {
+  if (out.destroyed || out.write(chunk)) {
+    return Promise.resolve();
+  }
+
+  return new Promise(resolve => {
+    const done = () => {
+      out.off('drain', done);
+      out.off('close', done);
+      resolve();
+    };
+    out.once('drain', done);
+    out.once('close', done);
+  });
+};
+
+/**
+ * Writes the rows to a stream as they are read, so that memory use does not grow with
+ * the size of the export; stops reading once the destination is closed
+ * @param format - Export format
+ * @param columns - Selected columns
+ * @param rows - Records in export order
+ * @param out - Destination, e.g. the response; it is not ended
+ * @param sheetName - Worksheet name of XLSX exports
+ * @returns Number of rows written
+ */
+export const writeExport = async <T>(
+  format: ExportFormat,
+  columns: ExportColumn<T>[],
+  rows: AsyncIterable<T>,
+  out: Writable,
+  sheetName = 'Export'
+): Promise<number> => {
+  let count = 0;
+
+  if (format === ExportFormat.XLSX) {
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+      stream: out,
+      useStyles: false,
+      useSharedStrings: false
+    });
+    const sheet = workbook.addWorksheet(sheetName);
+    sheet.columns = columns.map(column => ({ header: column.header, key: column.key }));
+
+    for await (const row of rows) {
+      if (out.destroyed) break;
+      sheet.addRow(columns.map(column => column.value(row))).commit();
+      count++;
+    }
+
+    sheet.commit();
+    await workbook.commit();
+    return count;
+  }
+
+  if (format === ExportFormat.CSV) {
+    await writeChunk(out, `${columns.map(column => formatCsvValue(column.header)).join(',')}\r\n`);
+
+    for await (const row of rows) {
+      if (out.destroyed) break;
+      await writeChunk(out, `${columns.map(column => formatCsvValue(column.value(row))).join(',')}\r\n`);
+      count++;
+    }
+
+    return count;
+  }
+
+  await writeChunk(out, '[');
+  for await (const row of rows) {
+    if (out.destroyed) break;
+    const record = Object.fromEntries(columns.map(column => [column.key, column.value(row)]));
+    await writeChunk(out, `${count > 0 ? ',' : ''}\n${JSON.stringify(record)}`);
+    count++;
+  }
+  await writeChunk(out, count > 0 ? '\n]\n' : ']\n');
+
+  return count;
+};
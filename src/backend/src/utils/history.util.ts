@@ -0,0 +1,126 @@
+/**
+ * @fileoverview Field-level diffing for the change history of tasks and projects
+ * @version 1.0.0
+ * @module utils/history
+ */
+
+// External imports
+import { UUID } from 'crypto'; // v20.0.0+
+
+// Internal imports
+import { FieldChange, HistoryEntityType } from '../types/history.types';
+
+/**
+ * Task fields whose changes are recorded; bookkeeping columns such as version and
+ * updatedAt are left out because every update touches them
+ */
+export const TASK_HISTORY_FIELDS = [
+  'title',
+  'description',
+  'status',
+  'priority',
+  'assigneeId',
+  'projectId',
+  'dueDate',
+  'tags',
+  'parentId',
+  'sprintId',
+  'originalEstimate',
+  'remainingEstimate',
+  'metadata',
+  'customFields'
+] as const;
+
+/**
+ * Project fields whose changes are recorded; team members are compared as sorted user IDs
+ */
+export const PROJECT_HISTORY_FIELDS = [
+  'name',
+  'description',
+  'status',
+  'priority',
+  'startDate',
+  'endDate',
+  'ownerId',
+  'teamMembers',
+  'metadata'
+] as const;
+
+/**
+ * Row of the change history table, ready to be written
+ */
+export interface HistoryEntryData {
+  entityType: HistoryEntityType;
+  entityId: UUID;
+  field: string;
+  oldValue?: unknown;
+  newValue?: unknown;
+  version: number;
+  changedBy: UUID | null;
+  correlationId: string | null;
+}
+
+/**
+ * Converts a field value into its JSON form so values loaded from the database
+ * and values from the update compare equal
+ * @private
+ */
+const normalizeValue = (value: unknown): unknown => {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(normalizeValue);
+  return value;
+};
+
+/**
+ * Lists the fields whose value differs between two versions of an entity
+ *
+ * @param previous - Entity before the update
+ * @param current - Entity after the update
+ * @param fields - Fields to compare
+ * @returns Changed fields with their normalized old and new values
+ */
+export const diffFields = (
+  previous: Record<string, any>,
+  current: Record<string, any>,
+  fields: readonly string[]
+): FieldChange[] => {
+  const changes: FieldChange[] = [];
+
+  for (const field of fields) {
+    const oldValue = normalizeValue(previous[field]);
+    const newValue = normalizeValue(current[field]);
+
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      changes.push({ field, oldValue, newValue });
+    }
+  }
+
+  return changes;
+};
+
+/**
+ * Builds the history rows for a set of changes made by one update
+ *
+ * @param entityType - Kind of entity that changed
+ * @param entityId - Entity identifier
+ * @param changes - Changed fields
+ * @param meta - Version produced by the update and who made it
+ * @returns Rows for the change history table
+ */
+export const buildHistoryEntries = (
+  entityType: HistoryEntityType,
+  entityId: UUID,
+  changes: FieldChange[],
+  meta: { version: number; changedBy?: UUID | null; correlationId?: string | null }
+): HistoryEntryData[] => changes.map(change => ({
+  entityType,
+  entityId,
+  field: change.field,
+  // Absent values are left unset so they are stored as SQL NULL rather than JSON null
+  oldValue: change.oldValue ?? undefined,
+  newValue: change.newValue ?? undefined,
+  version: meta.version,
+  changedBy: meta.changedBy ?? null,
+  correlationId: meta.correlationId ?? null
+}));
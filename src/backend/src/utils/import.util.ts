@@ -0,0 +1,436 @@
+/**
+ * @fileoverview Parsing, column detection and row mapping of task import files
+ * @version 1.0.0
+ * @module utils/import
+ */
+
+// External imports
+import { UUID } from 'crypto';
+
+// Internal imports
+import { TaskImportField, TaskImportFormat } from '../types/import.types';
+import { TaskPriority } from '../types/task.types';
+import { ITaskImportFile, TaskImportMapping, TaskImportRow } from '../interfaces/import.interface';
+
+/**
+ * Largest file that can be imported
+ */
+export const MAX_IMPORT_FILE_SIZE = 5 * 1024 * 1024; // 5MB
+
+/**
+ * Most rows one import may hold
+ */
+export const MAX_IMPORT_ROWS = 5000;
+
+/**
+ * Rows returned with an upload to preview the mapping with
+ */
+export const IMPORT_SAMPLE_ROWS = 5;
+
+/**
+ * Fields that must be mapped to a column
+ */
+export const REQUIRED_IMPORT_FIELDS: TaskImportField[] = [TaskImportField.TITLE];
+
+/**
+ * Error raised for files that cannot be read as an import
+ */
+export class TaskImportFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TaskImportFileError';
+  }
+}
+
+/**
+ * Rows of a parsed file with its columns in file order
+ */
+export interface ParsedImportFile {
+  format: TaskImportFormat;
+  columns: string[];
+  rows: TaskImportRow[];
+}
+
+/**
+ * Project data rows are resolved against
+ */
+export interface ImportLookups {
+  projectId: UUID;
+  states: Array<{ key: string; name: string }>;
+  memberIds: Map<string, UUID>; // Keyed by lowercased email
+}
+
+/**
+ * Row mapped to task attributes, with the values that could not be resolved
+ */
+export interface MappedImportRow {
+  task: Record<string, unknown>;      // Attributes as sent to POST /tasks
+  status?: string;                    // Workflow state key; the initial state when empty
+  tags: string[];
+  errors: Record<string, string[]>;   // Keyed by task import field
+}
+
+// Header names recognized for each field, compared without case and punctuation
+const FIELD_SYNONYMS: Record<TaskImportField, string[]> = {
+  [TaskImportField.TITLE]: ['title', 'name', 'summary', 'task', 'taskname', 'subject'],
+  [TaskImportField.DESCRIPTION]: ['description', 'details', 'notes', 'body'],
+  [TaskImportField.STATUS]: ['status', 'state', 'stage'],
+  [TaskImportField.PRIORITY]: ['priority', 'prio', 'importance'],
+  [TaskImportField.ASSIGNEE_EMAIL]: ['assignee', 'assigneeemail', 'assignedto', 'owner', 'email'],
+  [TaskImportField.DUE_DATE]: ['duedate', 'due', 'deadline', 'dueon'],
+  [TaskImportField.TAGS]: ['tags', 'tag', 'labels', 'label'],
+  [TaskImportField.ORIGINAL_ESTIMATE]: ['originalestimate', 'estimate', 'effort', 'hours', 'points', 'storypoints']
+};
+
+// Priority spellings of other tools
+const PRIORITY_VALUES: Record<string, TaskPriority> = {
+  low: TaskPriority.LOW,
+  medium: TaskPriority.MEDIUM,
+  normal: TaskPriority.MEDIUM,
+  high: TaskPriority.HIGH,
+  urgent: TaskPriority.HIGH,
+  critical: TaskPriority.HIGH
+};
+
+const CSV_DELIMITERS = [',', ';', '\t'];
+const TAG_SEPARATOR = /[,;|]/;
+
+/**
+ * Lowercases a header and drops everything but letters and digits
+ * @private
+ */
+const normalizeHeader = (header: string): string => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Names empty and repeated headers so that every column can be told apart
+ * @private
+ */
+const uniqueColumns = (headers: string[]): string[] => {
+  const seen = new Map<string, number>();
+  return headers.map((header, index) => {
+    const name = header.trim() || `Column ${index + 1}`;
+    const count = (seen.get(name) ?? 0) + 1;
+    seen.set(name, count);
+    return count > 1 ? `${name} (${count})` : name;
+  });
+};
+
+/**
+ * Picks the delimiter occurring most often in the header line
+ * @private
+ */
+const detectDelimiter = (text: string): string => {
+  const header = text.split(/\r?\n/, 1)[0];
+  return CSV_DELIMITERS.reduce((best, delimiter) =>
+    header.split(delimiter).length > header.split(best).length ? delimiter : best
+  );
+};
+
+/**
+ * Reads CSV as described by RFC 4180; values may be quoted and span lines, and the
+ * delimiter may be a comma, semicolon or tab
+ * @param text - File content
+ * @returns Columns from the header row and one row per following record
+ */
+export const parseCsv = (text: string): { columns: string[]; rows: TaskImportRow[] } => {
+  const delimiter = detectDelimiter(text);
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char !== '"') {
+        field += char;
+      } else if (text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else {
+        quoted = false;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new TaskImportFileError('The CSV file ends inside a quoted value');
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // Blank lines hold no task
+  const [header, ...data] = records.filter(values => values.some(value => value.trim() !== ''));
+  if (!header) {
+    throw new TaskImportFileError('The file holds no rows');
+  }
+
+  const columns = uniqueColumns(header);
+  return {
+    columns,
+    rows: data.map(values =>
+      Object.fromEntries(columns.map((column, index) => [column, (values[index] ?? '').trim()]))
+    )
+  };
+};
+
+/**
+ * Turns a JSON value into the text of a cell
+ * @private
+ */
+const toCellText = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.map(toCellText).join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value).trim();
+};
+
+/**
+ * Reads an array of task objects, or an object holding one under "tasks"; the keys
+ * of the objects become the columns
+ * @param text - File content
+ * @returns Columns in order of first appearance and one row per object
+ */
+export const parseJson = (text: string): { columns: string[]; rows: TaskImportRow[] } => {
+  let content: unknown;
+  try {
+    content = JSON.parse(text);
+  } catch {
+    throw new TaskImportFileError('The file is not valid JSON');
+  }
+
+  const items = Array.isArray(content) ? content : (content as { tasks?: unknown })?.tasks;
+  if (!Array.isArray(items)) {
+    throw new TaskImportFileError('The JSON file must hold an array of tasks');
+  }
+  if (items.some(item => typeof item !== 'object' || item === null || Array.isArray(item))) {
+    throw new TaskImportFileError('Every task in the JSON file must be an object');
+  }
+
+  const columns = Array.from(new Set(items.flatMap(item => Object.keys(item))));
+  return {
+    columns,
+    rows: items.map(item =>
+      Object.fromEntries(columns.map(column => [column, toCellText((item as Record<string, unknown>)[column])]))
+    )
+  };
+};
+
+/**
+ * Reads an uploaded file by its extension, or by its type when the name has none
+ * @param file - Uploaded file
+ * @returns Format, columns and rows
+ * @throws TaskImportFileError when the file is not a CSV or JSON list of tasks
+ */
+export const parseImportFile = (file: ITaskImportFile): ParsedImportFile => {
+  const extension = file.fileName.toLowerCase().match(/\.([a-z]+)$/)?.[1];
+  const format = extension === 'csv' || (!extension && file.mimeType === 'text/csv')
+    ? TaskImportFormat.CSV
+    : extension === 'json' || (!extension && file.mimeType === 'application/json')
+      ? TaskImportFormat.JSON
+      : null;
+
+  if (!format) {
+    throw new TaskImportFileError('Only CSV and JSON files can be imported');
+  }
+
+  // Spreadsheets often save a byte order mark in front of the header
+  const text = file.content.toString('utf8').replace(/^\uFEFF/, '');
+  const { columns, rows } = format === TaskImportFormat.CSV ? parseCsv(text) : parseJson(text);
+
+  if (rows.length === 0) {
+    throw new TaskImportFileError('The file holds no tasks');
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new TaskImportFileError(`An import may hold at most ${MAX_IMPORT_ROWS} tasks`);
+  }
+
+  return { format, columns, rows };
+};
+
+/**
+ * Suggests a column for each field whose header is a known name for it
+ * @param columns - Columns of the file
+ * @returns Mapping of the recognized fields; each column is used once
+ */
+export const suggestImportMapping = (columns: string[]): TaskImportMapping => {
+  const mapping: TaskImportMapping = {};
+  const used = new Set<string>();
+
+  (Object.keys(FIELD_SYNONYMS) as TaskImportField[]).forEach(field => {
+    const column = columns.find(candidate =>
+      !used.has(candidate) && FIELD_SYNONYMS[field].includes(normalizeHeader(candidate))
+    );
+    if (column) {
+      mapping[field] = column;
+      used.add(column);
+    }
+  });
+
+  return mapping;
+};
+
+/**
+ * Checks that a mapping names task fields and columns of the file, and maps every
+ * required field
+ * @param mapping - Column per field
+ * @param columns - Columns of the file
+ * @returns Problem found, or null when the mapping can be used
+ */
+export const checkImportMapping = (mapping: TaskImportMapping, columns: string[]): string | null => {
+  const fields = Object.values(TaskImportField) as string[];
+  const unknownFields = Object.keys(mapping).filter(field => !fields.includes(field));
+  if (unknownFields.length > 0) {
+    return `Unknown field ${unknownFields.join(', ')}`;
+  }
+
+  const missing = REQUIRED_IMPORT_FIELDS.filter(field => !mapping[field]);
+  if (missing.length > 0) {
+    return `Map a column to ${missing.join(', ')}`;
+  }
+
+  const unknownColumns = Object.values(mapping).filter(column => column && !columns.includes(column));
+  if (unknownColumns.length > 0) {
+    return `Unknown column ${unknownColumns.join(', ')}`;
+  }
+
+  return null;
+};
+
+/**
+ * Resolves a workflow state by its key or name, e.g. `In progress` to IN_PROGRESS
+ * @param value - Cell text
+ * @param states - States of the project's workflow
+ * @returns State key, or null when no state matches
+ */
+export const resolveImportStatus = (
+  value: string,
+  states: Array<{ key: string; name: string }>
+): string | null => {
+  const key = value.trim().toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+  const name = value.trim().toLowerCase();
+  return states.find(state => state.key === key || state.name.toLowerCase() === name)?.key ?? null;
+};
+
+/**
+ * Resolves a priority, accepting the spellings of other tools such as `urgent`
+ * @param value - Cell text
+ * @returns Priority, or null when the value is not one
+ */
+export const resolveImportPriority = (value: string): TaskPriority | null =>
+  PRIORITY_VALUES[value.trim().toLowerCase()] ?? null;
+
+/**
+ * Reads a date as the calendar day it names
+ * @param value - Cell text, ISO 8601 or any format Date understands
+ * @returns Day as YYYY-MM-DD, or null when the value is not a date
+ */
+export const parseImportDate = (value: string): string | null => {
+  const text = value.trim();
+  const iso = /^(\d{4})-(\d{2})-(\d{2})/.exec(text);
+  const date = iso
+    ? new Date(Date.UTC(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3])))
+    : new Date(text);
+
+  if (!text || isNaN(date.getTime())) {
+    return null;
+  }
+
+  // ISO days are kept as written; other formats are read in local time
+  const [year, month, day] = iso
+    ? [date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate()]
+    : [date.getFullYear(), date.getMonth() + 1, date.getDate()];
+
+  if (iso && (month !== Number(iso[2]) || day !== Number(iso[3]))) {
+    return null; // Rolled over, e.g. 2025-02-30
+  }
+
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+/**
+ * Splits a tag list on commas, semicolons or pipes
+ * @param value - Cell text
+ * @returns Distinct tags in order
+ */
+export const splitImportTags = (value: string): string[] =>
+  Array.from(new Set(value.split(TAG_SEPARATOR).map(tag => tag.trim()).filter(Boolean)));
+
+/**
+ * Maps a row to task attributes, resolving the assignee by email and the status and
+ * priority to their enum values. Attribute rules are left to task validation.
+ *
+ * @param row - Row of the file
+ * @param mapping - Column per field
+ * @param lookups - Project data values are resolved against
+ * @returns Task attributes and the values that could not be resolved
+ */
+export const mapImportRow = (
+  row: TaskImportRow,
+  mapping: TaskImportMapping,
+  lookups: ImportLookups
+): MappedImportRow => {
+  const cell = (field: TaskImportField): string => (mapping[field] ? row[mapping[field] as string] ?? '' : '');
+  const errors: Record<string, string[]> = {};
+  const task: Record<string, unknown> = {
+    projectId: lookups.projectId,
+    title: cell(TaskImportField.TITLE),
+    priority: TaskPriority.MEDIUM
+  };
+
+  const description = cell(TaskImportField.DESCRIPTION);
+  if (description) task.description = description;
+
+  const priority = cell(TaskImportField.PRIORITY);
+  if (priority) {
+    const resolved = resolveImportPriority(priority);
+    if (resolved) task.priority = resolved;
+    else errors[TaskImportField.PRIORITY] = [`Unknown priority "${priority}"`];
+  }
+
+  const email = cell(TaskImportField.ASSIGNEE_EMAIL);
+  if (email) {
+    const assigneeId = lookups.memberIds.get(email.toLowerCase());
+    if (assigneeId) task.assigneeId = assigneeId;
+    else errors[TaskImportField.ASSIGNEE_EMAIL] = [`${email} is not a member of the project`];
+  }
+
+  const dueDate = cell(TaskImportField.DUE_DATE);
+  if (dueDate) {
+    const day = parseImportDate(dueDate);
+    if (day) task.dueDate = day;
+    else errors[TaskImportField.DUE_DATE] = [`"${dueDate}" is not a date`];
+  }
+
+  const estimate = cell(TaskImportField.ORIGINAL_ESTIMATE);
+  if (estimate) {
+    const value = Number(estimate.replace(',', '.'));
+    if (!isNaN(value)) task.originalEstimate = value;
+    else errors[TaskImportField.ORIGINAL_ESTIMATE] = [`"${estimate}" is not a number`];
+  }
+
+  let status: string | undefined;
+  const statusText = cell(TaskImportField.STATUS);
+  if (statusText) {
+    status = resolveImportStatus(statusText, lookups.states) ?? undefined;
+    if (!status) errors[TaskImportField.STATUS] = [`"${statusText}" is not a state of the project's workflow`];
+  }
+
+  return { task, status, tags: splitImportTags(cell(TaskImportField.TAGS)), errors };
+};
@@ -0,0 +1,310 @@
+/**
+ * @fileoverview Parsing, addressing and reply tokens of inbound email
+ * @version 1.0.0
+ * @module utils/inboundEmail
+ */
+
+// External imports with versions
+import { simpleParser, AddressObject, HeaderValue } from 'mailparser'; // v3.6.5
+import { createHash, UUID } from 'crypto';
+
+// Internal imports
+import { generateHmac, secureCompare } from './crypto.util';
+import {
+  IInboundEmailAttachment,
+  IInboundEmailMessage,
+  InboundEmailTarget
+} from '../interfaces/inboundEmail.interface';
+
+/**
+ * Header carrying the secret shared with the mail server
+ */
+export const INBOUND_SECRET_HEADER = 'x-inbound-email-secret';
+
+/**
+ * Header of notification emails carrying the reply token of their task
+ */
+export const REPLY_TOKEN_HEADER = 'X-Reply-Token';
+
+/**
+ * Largest number of attachments taken from a message; the rest are reported as failed
+ */
+export const MAX_INBOUND_ATTACHMENTS = 10;
+
+/**
+ * Longest task title created from a subject
+ */
+export const MAX_INBOUND_TITLE_LENGTH = 200;
+
+const PROJECT_PREFIX = 'project+';
+const REPLY_PREFIX = 'reply+';
+const REPLY_SIGNATURE_LENGTH = 32;
+const DEFAULT_TITLE = '(no subject)';
+const DEFAULT_FILE_NAME = 'attachment';
+const MAX_FILE_NAME_LENGTH = 255;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+const ADDRESS_PATTERN = /[^\s<>()",;:]+@[^\s<>()",;:]+/g;
+const RECIPIENT_HEADERS = ['to', 'cc', 'delivered-to', 'x-original-to'];
+
+// Lines that introduce the quoted original in common mail clients
+const QUOTE_INTRODUCTIONS = [
+  /^On .+ wrote:$/,
+  /^-{2,}\s*Original Message\s*-{2,}$/i,
+  /^_{10,}$/,
+  /^From: .+$/
+];
+
+/**
+ * Address a project's tasks are created from
+ * @param projectId - Project identifier
+ * @param domain - Inbound email domain
+ */
+export const buildProjectAddress = (projectId: string, domain: string): string =>
+  `${PROJECT_PREFIX}${projectId}@${domain}`;
+
+/**
+ * Token identifying the task a reply belongs to. It is signed with the server key, so
+ * reply addresses cannot be made up for other tasks.
+ * @param taskId - Task identifier
+ * @returns Token of the form `<taskId>.<signature>`
+ */
+export const createReplyToken = (taskId: string): string =>
+  `${taskId}.${generateHmac(`inbound-reply:${taskId}`).slice(0, REPLY_SIGNATURE_LENGTH)}`;
+
+/**
+ * Checks a reply token
+ * @param token - Token from an address or header
+ * @returns Task identifier, or null when the token is malformed or its signature is wrong
+ */
+export const verifyReplyToken = (token: string): UUID | null => {
+  const [taskId, signature, ...rest] = token.trim().toLowerCase().split('.');
+
+  if (rest.length > 0 || !signature || !UUID_PATTERN.test(taskId)) {
+    return null;
+  }
+
+  return secureCompare(createReplyToken(taskId), `${taskId}.${signature}`) ? taskId as UUID : null;
+};
+
+/**
+ * Address replies to a task's notification emails are sent to
+ * @param taskId - Task identifier
+ * @param domain - Inbound email domain
+ */
+export const buildReplyAddress = (taskId: string, domain: string): string =>
+  `${REPLY_PREFIX}${createReplyToken(taskId)}@${domain}`;
+
+/**
+ * Finds what a message is addressed to. Reply tokens win over project addresses, so that
+ * a reply that also copies a project address becomes a comment; they are looked up in
+ * the recipients, the reply token header and the In-Reply-To and References headers.
+ * @param message - Parsed message
+ * @param domain - Inbound email domain
+ * @returns Target, or null when no recipient or header matches
+ */
+export const resolveInboundTarget = (
+  message: IInboundEmailMessage,
+  domain: string
+): InboundEmailTarget | null => {
+  const suffix = `@${domain.toLowerCase()}`;
+  const localParts = (addresses: string[]): string[] => addresses
+    .map(address => address.toLowerCase())
+    .filter(address => address.endsWith(suffix))
+    .map(address => address.slice(0, -suffix.length));
+
+  const replyCandidates = [
+    ...localParts(message.recipients),
+    ...localParts(extractAddresses([message.inReplyTo ?? '', ...message.references].join(' ')))
+  ]
+    .filter(local => local.startsWith(REPLY_PREFIX))
+    .map(local => local.slice(REPLY_PREFIX.length));
+
+  const headerToken = message.headers[REPLY_TOKEN_HEADER.toLowerCase()];
+  if (headerToken) {
+    replyCandidates.push(headerToken);
+  }
+
+  for (const token of replyCandidates) {
+    const taskId = verifyReplyToken(token);
+    if (taskId) {
+      return { type: 'reply', taskId };
+    }
+  }
+
+  for (const local of localParts(message.recipients)) {
+    const projectId = local.startsWith(PROJECT_PREFIX) ? local.slice(PROJECT_PREFIX.length) : '';
+    if (UUID_PATTERN.test(projectId)) {
+      return { type: 'project', projectId: projectId as UUID };
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Whether the receiving mail server reported that the sender's domain did not authorize
+ * the message, in which case its From address cannot be trusted
+ * @param headers - Message headers with lowercased names
+ */
+export const hasFailedSenderAuthentication = (headers: Record<string, string>): boolean =>
+  /\bdmarc=fail\b/i.test(headers['authentication-results'] ?? '');
+
+/**
+ * Text of a reply without the quoted original and the signature
+ * @param text - Plain-text body
+ * @returns New text of the reply
+ */
+export const extractReplyText = (text: string): string => {
+  const kept: string[] = [];
+
+  for (const line of text.replace(/\r\n/g, '\n').split('\n')) {
+    const trimmed = line.trim();
+
+    if (line === '-- ' || QUOTE_INTRODUCTIONS.some(pattern => pattern.test(trimmed))) {
+      break;
+    }
+
+    if (!trimmed.startsWith('>')) {
+      kept.push(line);
+    }
+  }
+
+  return kept.join('\n').trim();
+};
+
+/**
+ * Task title from a subject, without forwarding prefixes
+ * @param subject - Message subject
+ */
+export const toTaskTitle = (subject: string): string => {
+  const title = subject
+    .replace(/\s+/g, ' ')
+    .replace(/^((fwd?|fw):\s*)+/i, '')
+    .trim();
+
+  return (title || DEFAULT_TITLE).slice(0, MAX_INBOUND_TITLE_LENGTH);
+};
+
+/**
+ * Attachment file name limited to the characters attachments accept
+ * @param fileName - File name from the message
+ */
+export const sanitizeAttachmentFileName = (fileName: string | undefined): string => {
+  const sanitized = (fileName ?? '')
+    .replace(/[^\w\-. ]/g, '_')
+    .replace(/^[. ]+/, '')
+    .slice(-MAX_FILE_NAME_LENGTH);
+
+  return sanitized || DEFAULT_FILE_NAME;
+};
+
+/**
+ * Key a message is logged under: its Message-ID, or a hash of the raw message
+ * @param message - Parsed message
+ * @param raw - Raw message
+ */
+export const getMessageKey = (message: IInboundEmailMessage, raw: Buffer): string =>
+  message.messageId ?? `sha256:${createHash('sha256').update(raw).digest('hex')}`;
+
+/**
+ * Parses a raw RFC 822 message, decoding MIME parts and encoded headers
+ * @param raw - Raw message
+ * @returns Parsed message; parts embedded in an HTML body are not returned as attachments
+ */
+export const parseInboundEmail = async (raw: Buffer): Promise<IInboundEmailMessage> => {
+  const parsed = await simpleParser(raw);
+
+  const headers: Record<string, string> = {};
+  parsed.headers.forEach((value, name) => {
+    headers[name.toLowerCase()] = headerText(value);
+  });
+
+  const recipients = RECIPIENT_HEADERS.flatMap(name => addressesOf(parsed.headers.get(name)));
+  const from = addressesOf(parsed.from)[0] ?? null;
+  const references = Array.isArray(parsed.references)
+    ? parsed.references
+    : parsed.references ? [parsed.references] : [];
+
+  const attachments: IInboundEmailAttachment[] = parsed.attachments
+    .filter(attachment => !attachment.related)
+    .map(attachment => ({
+      fileName: sanitizeAttachmentFileName(attachment.filename),
+      mimeType: attachment.contentType,
+      size: attachment.size,
+      content: attachment.content
+    }));
+
+  return {
+    messageId: parsed.messageId ? stripAngleBrackets(parsed.messageId) : null,
+    from,
+    recipients: Array.from(new Set(recipients)),
+    subject: parsed.subject ?? '',
+    text: parsed.text ?? '',
+    inReplyTo: parsed.inReplyTo ? stripAngleBrackets(parsed.inReplyTo) : null,
+    references: references.map(stripAngleBrackets),
+    headers,
+    attachments
+  };
+};
+
+/**
+ * Lowercased addresses of a parsed or raw address header
+ * @private
+ */
+const addressesOf = (value: HeaderValue | AddressObject | AddressObject[] | undefined): string[] => {
+  if (!value) {
+    return [];
+  }
+
+  if (typeof value === 'string') {
+    return extractAddresses(value);
+  }
+
+  const objects = (Array.isArray(value) ? value : [value]) as AddressObject[];
+  return objects
+    .flatMap(object => object.value ?? [])
+    .flatMap(entry => [entry, ...(entry.group ?? [])])
+    .map(entry => entry.address?.toLowerCase())
+    .filter((address): address is string => Boolean(address));
+};
+
+/**
+ * Lowercased addresses found in free text
+ * @private
+ */
+const extractAddresses = (text: string): string[] =>
+  (text.match(ADDRESS_PATTERN) ?? []).map(address => address.toLowerCase());
+
+/**
+ * Header value as text
+ * @private
+ */
+const headerText = (value: HeaderValue): string => {
+  if (typeof value === 'string') {
+    return value;
+  }
+
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => headerText(item as HeaderValue)).join(', ');
+  }
+
+  if (value && typeof value === 'object' && 'text' in value) {
+    return String(value.text);
+  }
+
+  if (value && typeof value === 'object' && 'value' in value) {
+    return String(value.value);
+  }
+
+  return String(value ?? '');
+};
+
+/**
+ * Message-ID without its angle brackets
+ * @private
+ */
+const stripAngleBrackets = (messageId: string): string => messageId.trim().replace(/^<|>$/g, '');
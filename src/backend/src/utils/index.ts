@@ -6,11 +6,55 @@
  */
 
 // Import all utility functions from individual modules
+import * as bulkUtils from './bulk.util';
+import * as calendarUtils from './calendar.util';
 import * as cryptoUtils from './crypto.util';
+import * as customFieldUtils from './customField.util';
 import * as dateUtils from './date.util';
+import * as effortUtils from './effort.util';
 import * as errorUtils from './error.util';
+import * as exportUtils from './export.util';
+import * as historyUtils from './history.util';
+import * as importUtils from './import.util';
+import * as inboundEmailUtils from './inboundEmail.util';
 import { enhancedLogger } from './logger.util';
+import * as membershipUtils from './membership.util';
+import * as milestoneUtils from './milestone.util';
+import * as notificationUtils from './notification.util';
+import * as permissionUtils from './permission.util';
+import * as progressUtils from './progress.util';
+import * as recurrenceUtils from './recurrence.util';
+import * as savedViewUtils from './savedView.util';
+import * as searchUtils from './search.util';
+import * as sprintUtils from './sprint.util';
+import * as taskQueryUtils from './taskQuery.util';
 import * as validationUtils from './validation.util';
+import * as webhookUtils from './webhook.util';
+import * as workflowUtils from './workflow.util';
+import * as worklogUtils from './worklog.util';
+
+/**
+ * Re-export bulk task change limits and result bookkeeping
+ * @version 1.0.0
+ */
+export const bulk = {
+  getBulkOutcome: bulkUtils.getBulkOutcome,
+  summarizeBulkResults: bulkUtils.summarizeBulkResults,
+  MAX_BULK_TASKS: bulkUtils.MAX_BULK_TASKS
+} as const;
+
+/**
+ * Re-export iCalendar feed rendering
+ * @version 1.0.0
+ */
+export const calendar = {
+  isValidTimeZone: calendarUtils.isValidTimeZone,
+  toCalendarDay: calendarUtils.toCalendarDay,
+  escapeIcsText: calendarUtils.escapeIcsText,
+  foldIcsLine: calendarUtils.foldIcsLine,
+  buildCalendar: calendarUtils.buildCalendar,
+  CALENDAR_CONTENT_TYPE: calendarUtils.CALENDAR_CONTENT_TYPE
+} as const;
 
 /**
  * Re-export cryptographic utilities with security features
@@ -25,6 +69,20 @@ export const crypto = {
   generateHmac: cryptoUtils.generateHmac
 } as const;
 
+/**
+ * Re-export custom field value validation and filter utilities
+ * @version 1.0.0
+ */
+export const customField = {
+  validateCustomFieldValues: customFieldUtils.validateCustomFieldValues,
+  normalizeCustomFieldValue: customFieldUtils.normalizeCustomFieldValue,
+  mergeCustomFieldValues: customFieldUtils.mergeCustomFieldValues,
+  parseCustomFieldFilter: customFieldUtils.parseCustomFieldFilter,
+  buildCustomFieldWhere: customFieldUtils.buildCustomFieldWhere,
+  CUSTOM_FIELD_KEY_PATTERN: customFieldUtils.CUSTOM_FIELD_KEY_PATTERN,
+  CUSTOM_FIELD_OPERATORS: customFieldUtils.CUSTOM_FIELD_OPERATORS
+} as const;
+
 /**
  * Re-export date manipulation utilities with timezone support
  * @version 1.0.0
@@ -37,6 +95,16 @@ export const date = {
   addBusinessDays: dateUtils.addBusinessDays
 } as const;
 
+/**
+ * Re-export effort rollup utilities
+ * @version 1.0.0
+ */
+export const effort = {
+  sumEffort: effortUtils.sumEffort,
+  groupEffort: effortUtils.groupEffort,
+  MAX_ESTIMATE: effortUtils.MAX_ESTIMATE
+} as const;
+
 /**
  * Re-export error handling utilities with enhanced security tracking
  * @version 1.0.0
@@ -53,6 +121,162 @@ export const error = {
  */
 export const logger = enhancedLogger;
 
+/**
+ * Re-export list export columns and streaming writers
+ * @version 1.0.0
+ */
+export const listExport = {
+  selectExportColumns: exportUtils.selectExportColumns,
+  buildExportFileName: exportUtils.buildExportFileName,
+  formatCsvValue: exportUtils.formatCsvValue,
+  writeExport: exportUtils.writeExport,
+  TASK_EXPORT_COLUMNS: exportUtils.TASK_EXPORT_COLUMNS,
+  PROJECT_EXPORT_COLUMNS: exportUtils.PROJECT_EXPORT_COLUMNS,
+  EXPORT_CONTENT_TYPES: exportUtils.EXPORT_CONTENT_TYPES
+} as const;
+
+/**
+ * Re-export change history diffing utilities
+ * @version 1.0.0
+ */
+export const history = {
+  diffFields: historyUtils.diffFields,
+  buildHistoryEntries: historyUtils.buildHistoryEntries,
+  TASK_HISTORY_FIELDS: historyUtils.TASK_HISTORY_FIELDS,
+  PROJECT_HISTORY_FIELDS: historyUtils.PROJECT_HISTORY_FIELDS
+} as const;
+
+/**
+ * Re-export task import parsing and row mapping utilities
+ * @version 1.0.0
+ */
+export const taskImport = {
+  parseImportFile: importUtils.parseImportFile,
+  suggestImportMapping: importUtils.suggestImportMapping,
+  checkImportMapping: importUtils.checkImportMapping,
+  mapImportRow: importUtils.mapImportRow,
+  MAX_IMPORT_FILE_SIZE: importUtils.MAX_IMPORT_FILE_SIZE,
+  MAX_IMPORT_ROWS: importUtils.MAX_IMPORT_ROWS
+} as const;
+
+/**
+ * Re-export inbound email parsing, addresses and reply tokens
+ * @version 1.0.0
+ */
+export const inboundEmail = {
+  parseInboundEmail: inboundEmailUtils.parseInboundEmail,
+  buildProjectAddress: inboundEmailUtils.buildProjectAddress,
+  buildReplyAddress: inboundEmailUtils.buildReplyAddress,
+  createReplyToken: inboundEmailUtils.createReplyToken,
+  verifyReplyToken: inboundEmailUtils.verifyReplyToken,
+  resolveInboundTarget: inboundEmailUtils.resolveInboundTarget,
+  extractReplyText: inboundEmailUtils.extractReplyText
+} as const;
+
+/**
+ * Re-export project membership role checks
+ * @version 1.0.0
+ */
+export const membership = {
+  hasProjectRole: membershipUtils.hasProjectRole,
+  buildTeamMemberSync: membershipUtils.buildTeamMemberSync,
+  isMembershipRestricted: membershipUtils.isMembershipRestricted,
+  PROJECT_ROLE_RANK: membershipUtils.PROJECT_ROLE_RANK,
+  UNRESTRICTED_ROLES: membershipUtils.UNRESTRICTED_ROLES
+} as const;
+
+/**
+ * Re-export milestone status utilities
+ * @version 1.0.0
+ */
+export const milestone = {
+  computeMilestoneStatus: milestoneUtils.computeMilestoneStatus,
+  MAX_MILESTONE_TASKS: milestoneUtils.MAX_MILESTONE_TASKS
+} as const;
+
+/**
+ * Re-export notification recipients and texts
+ * @version 1.0.0
+ */
+export const notification = {
+  buildTaskNotifications: notificationUtils.buildTaskNotifications,
+  buildCommentNotifications: notificationUtils.buildCommentNotifications,
+  buildDueSoonNotification: notificationUtils.buildDueSoonNotification,
+  getDueSoonKey: notificationUtils.getDueSoonKey,
+  toExcerpt: notificationUtils.toExcerpt,
+  DUE_SOON_WINDOW_MS: notificationUtils.DUE_SOON_WINDOW_MS
+} as const;
+
+/**
+ * Re-export permission registry and role mapping
+ * @version 1.0.0
+ */
+export const permission = {
+  hasPermission: permissionUtils.hasPermission,
+  isPermission: permissionUtils.isPermission,
+  PERMISSION_DEFINITIONS: permissionUtils.PERMISSION_DEFINITIONS,
+  DEFAULT_ROLE_PERMISSIONS: permissionUtils.DEFAULT_ROLE_PERMISSIONS,
+  LOCKED_PERMISSIONS: permissionUtils.LOCKED_PERMISSIONS
+} as const;
+
+/**
+ * Re-export task progress rollup utilities
+ * @version 1.0.0
+ */
+export const progress = {
+  calculateTaskProgress: progressUtils.calculateTaskProgress,
+  calculateCompletion: progressUtils.calculateCompletion,
+  calculateWeightedCompletion: progressUtils.calculateWeightedCompletion
+} as const;
+
+/**
+ * Re-export recurring task rule utilities
+ * @version 1.0.0
+ */
+export const recurrence = {
+  parseRRule: recurrenceUtils.parseRRule,
+  validatePattern: recurrenceUtils.validatePattern,
+  computeNextOccurrence: recurrenceUtils.computeNextOccurrence,
+  computeNextOccurrenceAfter: recurrenceUtils.computeNextOccurrenceAfter
+} as const;
+
+/**
+ * Re-export saved view limits and filter normalization
+ * @version 1.0.0
+ */
+export const savedView = {
+  normalizeViewFilters: savedViewUtils.normalizeViewFilters,
+  MAX_SAVED_VIEWS: savedViewUtils.MAX_SAVED_VIEWS,
+  MAX_PINNED_VIEWS: savedViewUtils.MAX_PINNED_VIEWS,
+  MAX_VIEW_COLUMNS: savedViewUtils.MAX_VIEW_COLUMNS,
+  SAVED_VIEW_GROUPINGS: savedViewUtils.SAVED_VIEW_GROUPINGS
+} as const;
+
+/**
+ * Re-export full-text search limits and result merging
+ * @version 1.0.0
+ */
+export const search = {
+  normalizeSearchQuery: searchUtils.normalizeSearchQuery,
+  emptySearchFacets: searchUtils.emptySearchFacets,
+  mergeSearchHits: searchUtils.mergeSearchHits,
+  MAX_SEARCH_QUERY_LENGTH: searchUtils.MAX_SEARCH_QUERY_LENGTH,
+  MAX_SEARCH_LIMIT: searchUtils.MAX_SEARCH_LIMIT
+} as const;
+
+/**
+ * Re-export the task query language compiler
+ * @version 1.0.0
+ */
+export const taskQuery = {
+  compileTaskQuery: taskQueryUtils.compileTaskQuery,
+  parseTaskQueryDate: taskQueryUtils.parseTaskQueryDate,
+  TaskQuerySyntaxError: taskQueryUtils.TaskQuerySyntaxError,
+  TASK_QUERY_FIELDS: taskQueryUtils.TASK_QUERY_FIELDS,
+  TASK_QUERY_OPERATORS: taskQueryUtils.TASK_QUERY_OPERATORS,
+  MAX_TASK_QUERY_LENGTH: taskQueryUtils.MAX_TASK_QUERY_LENGTH
+} as const;
+
 /**
  * Re-export validation utilities with OWASP compliance
  * @version 1.0.0
@@ -68,17 +292,92 @@ export const validation = {
   sanitizeInput: validationUtils.sanitizeInput
 } as const;
 
+/**
+ * Re-export sprint date and burndown utilities
+ * @version 1.0.0
+ */
+export const sprint = {
+  computeBurndown: sprintUtils.computeBurndown,
+  listSprintDays: sprintUtils.listSprintDays,
+  validateSprintDates: sprintUtils.validateSprintDates,
+  MAX_SPRINT_DAYS: sprintUtils.MAX_SPRINT_DAYS
+} as const;
+
+/**
+ * Re-export workflow definition and transition utilities
+ * @version 1.0.0
+ */
+export const workflow = {
+  buildDefaultWorkflow: workflowUtils.buildDefaultWorkflow,
+  resolveWorkflow: workflowUtils.resolveWorkflow,
+  validateWorkflowDefinition: workflowUtils.validateWorkflowDefinition,
+  findWorkflowState: workflowUtils.findWorkflowState,
+  isTransitionAllowed: workflowUtils.isTransitionAllowed,
+  getHardWipLimit: workflowUtils.getHardWipLimit,
+  getDefaultStateCategory: workflowUtils.getDefaultStateCategory,
+  WORKFLOW_STATE_KEY_PATTERN: workflowUtils.WORKFLOW_STATE_KEY_PATTERN,
+  DEFAULT_WORKFLOW_STATES: workflowUtils.DEFAULT_WORKFLOW_STATES
+} as const;
+
+/**
+ * Re-export webhook signing and retry scheduling
+ * @version 1.0.0
+ */
+export const webhook = {
+  deriveWebhookSecret: webhookUtils.deriveWebhookSecret,
+  signWebhookPayload: webhookUtils.signWebhookPayload,
+  buildWebhookHeaders: webhookUtils.buildWebhookHeaders,
+  getWebhookRetryDelay: webhookUtils.getWebhookRetryDelay,
+  getWebhookRetryQueue: webhookUtils.getWebhookRetryQueue,
+  validateWebhookUrl: webhookUtils.validateWebhookUrl,
+  MAX_WEBHOOK_ATTEMPTS: webhookUtils.MAX_WEBHOOK_ATTEMPTS
+} as const;
+
+/**
+ * Re-export worklog duration and timesheet utilities
+ * @version 1.0.0
+ */
+export const worklog = {
+  buildTimesheet: worklogUtils.buildTimesheet,
+  resolveTimesheetRange: worklogUtils.resolveTimesheetRange,
+  startOfWeek: worklogUtils.startOfWeek,
+  timerDuration: worklogUtils.timerDuration,
+  MAX_WORKLOG_SECONDS: worklogUtils.MAX_WORKLOG_SECONDS,
+  MAX_TIMESHEET_DAYS: worklogUtils.MAX_TIMESHEET_DAYS
+} as const;
+
 /**
  * Default export of all utility functions organized by category
  * Provides a single import point for all utilities while maintaining
  * clear module boundaries and type safety
  */
 export default {
+  bulk,
+  calendar,
   crypto,
+  customField,
   date,
+  effort,
   error,
+  listExport,
+  history,
   logger,
-  validation
+  taskImport,
+  inboundEmail,
+  membership,
+  milestone,
+  notification,
+  permission,
+  progress,
+  recurrence,
+  savedView,
+  search,
+  sprint,
+  taskQuery,
+  validation,
+  webhook,
+  workflow,
+  worklog
 } as const;
 ```
 
@@ -0,0 +1,67 @@
+/**
+ * @fileoverview Project membership role checks
+ * @version 1.0.0
+ * @module utils/membership
+ *
+ * Project roles are ordered, so every check is expressed as "at least this role".
+ * Global roles listed in UNRESTRICTED_ROLES bypass membership altogether.
+ */
+
+// Internal imports
+import { ProjectRole } from '../types/project.types';
+import { UserRole } from '../types/user.types';
+
+/**
+ * Rank of each project role; a higher rank includes every permission of the lower ones
+ */
+export const PROJECT_ROLE_RANK: Readonly<Record<ProjectRole, number>> = {
+  [ProjectRole.VIEWER]: 1,
+  [ProjectRole.CONTRIBUTOR]: 2,
+  [ProjectRole.MANAGER]: 3,
+  [ProjectRole.OWNER]: 4
+};
+
+/**
+ * Global roles that see and manage every project without being a member
+ */
+export const UNRESTRICTED_ROLES: readonly UserRole[] = [UserRole.ADMIN, UserRole.PROJECT_MANAGER];
+
+/**
+ * Checks whether a project role grants at least the required role
+ * @param role Role of the member, or null when the user is not a member
+ * @param required Minimum role
+ */
+export const hasProjectRole = (
+  role: ProjectRole | null | undefined,
+  required: ProjectRole
+): boolean => !!role && PROJECT_ROLE_RANK[role] >= PROJECT_ROLE_RANK[required];
+
+/**
+ * Checks whether a user's project access is limited to the projects they belong to
+ * @param userRole Global role of the user
+ */
+export const isMembershipRestricted = (userRole?: UserRole): boolean =>
+  !userRole || !UNRESTRICTED_ROLES.includes(userRole);
+
+/**
+ * Builds the nested write replacing a project's member list with the given users.
+ * Listed users keep their current role and new ones join as CONTRIBUTOR; members left
+ * out are removed, except owners, who only leave through the membership endpoints.
+ * @param projectId Project identifier
+ * @param userIds Users that make up the team
+ */
+export const buildTeamMemberSync = (projectId: string, userIds: string[]) => ({
+  updateMany: {
+    where: {
+      userId: { notIn: userIds },
+      role: { not: ProjectRole.OWNER },
+      deletedAt: null
+    },
+    data: { deletedAt: new Date() }
+  },
+  upsert: userIds.map(userId => ({
+    where: { projectId_userId: { projectId, userId } },
+    create: { userId, role: ProjectRole.CONTRIBUTOR },
+    update: { deletedAt: null }
+  }))
+});
@@ -0,0 +1,56 @@
+/**
+ * @fileoverview Milestone status computation
+ * @version 1.0.0
+ * @module utils/milestone
+ */
+
+// Internal imports
+import { MilestoneStatus } from '../types/milestone.types';
+import { WorkflowCategory } from '../types/workflow.types';
+
+/**
+ * Most tasks a milestone may link
+ */
+export const MAX_MILESTONE_TASKS = 500;
+
+/**
+ * Attributes of a linked task the milestone status depends on
+ */
+export interface MilestoneTaskState {
+  statusCategory: WorkflowCategory;
+  dueDate: Date | null;
+  deletedAt?: Date | null;
+}
+
+/**
+ * Formats the UTC calendar day of a date as YYYY-MM-DD
+ * @private
+ */
+const toDay = (date: Date): string => date.toISOString().slice(0, 10);
+
+/**
+ * Derives the status of a milestone. A milestone is missed once its day has passed
+ * with linked tasks unfinished, and at risk while an unfinished linked task is overdue.
+ *
+ * @param dueDate - Milestone date; the milestone is due by the end of that day
+ * @param tasks - Linked tasks
+ * @param now - Current time
+ * @returns Milestone status
+ */
+export const computeMilestoneStatus = (
+  dueDate: Date,
+  tasks: MilestoneTaskState[],
+  now: Date = new Date()
+): MilestoneStatus => {
+  const open = tasks.filter(task => !task.deletedAt && task.statusCategory !== WorkflowCategory.DONE);
+
+  if (open.length > 0 && toDay(now) > toDay(dueDate)) {
+    return MilestoneStatus.MISSED;
+  }
+
+  if (open.some(task => task.dueDate && task.dueDate.getTime() < now.getTime())) {
+    return MilestoneStatus.AT_RISK;
+  }
+
+  return MilestoneStatus.ON_TRACK;
+};
@@ -0,0 +1,150 @@
+/**
+ * @fileoverview Recipients and texts of in-app notifications
+ * @version 1.0.0
+ * @module utils/notification
+ */
+
+// External imports
+import { UUID } from 'crypto';
+
+// Internal imports
+import {
+  ICreateNotificationDTO,
+  ITaskNotificationChange,
+  NotificationComment,
+  NotificationTask
+} from '../interfaces/notification.interface';
+import { NotificationType } from '../types/notification.types';
+
+/**
+ * How long before its due date the assignee of a task is reminded of it
+ */
+export const DUE_SOON_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Characters of a comment kept as the message of a notification
+ */
+export const MAX_NOTIFICATION_MESSAGE_LENGTH = 280;
+
+/**
+ * Key giving a task one due-soon reminder per due date, so moving the date reminds again
+ * @param taskId - Task identifier
+ * @param dueDate - Due date of the task
+ * @returns Deduplication key
+ */
+export const getDueSoonKey = (taskId: UUID, dueDate: Date): string =>
+  `due-soon:${taskId}:${new Date(dueDate).toISOString()}`;
+
+/**
+ * Shortens text to a single line of at most the given length
+ * @param text - Text to shorten
+ * @param maxLength - Longest result, including the ellipsis
+ * @returns Shortened text
+ */
+export const toExcerpt = (text: string, maxLength: number = MAX_NOTIFICATION_MESSAGE_LENGTH): string => {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > maxLength ? `${line.slice(0, maxLength - 1).trimEnd()}…` : line;
+};
+
+/**
+ * Builds the notifications of a task change. The new assignee is told about the
+ * assignment; the assignee and creator are told about a status change, unless the
+ * assignment already told them. Nobody is told about their own change.
+ * @param task - Task after the change
+ * @param change - What changed
+ * @param actorId - User who made the change
+ * @returns Notifications to create
+ */
+export const buildTaskNotifications = (
+  task: NotificationTask,
+  change: ITaskNotificationChange,
+  actorId: UUID
+): ICreateNotificationDTO[] => {
+  const notifications: ICreateNotificationDTO[] = [];
+  const base = { title: task.title, taskId: task.id, projectId: task.projectId, actorId };
+
+  if (change.assigned && task.assigneeId && task.assigneeId !== actorId) {
+    notifications.push({
+      ...base,
+      userId: task.assigneeId,
+      type: NotificationType.ASSIGNMENT,
+      message: 'Assigned to you'
+    });
+  }
+
+  if (change.status) {
+    const notified = new Set<UUID>([actorId, ...notifications.map(n => n.userId)]);
+
+    for (const userId of [task.assigneeId, task.createdBy]) {
+      if (!userId || notified.has(userId)) continue;
+      notified.add(userId);
+
+      notifications.push({
+        ...base,
+        userId,
+        type: NotificationType.STATUS_CHANGE,
+        message: `Moved from ${change.status.from} to ${change.status.to}`
+      });
+    }
+  }
+
+  return notifications;
+};
+
+/**
+ * Builds the notifications of a new comment: one for each mentioned user, and one for
+ * the author of the comment replied to when they were not mentioned. Authors are not
+ * told about their own comment.
+ * @param comment - Created comment
+ * @param task - Title and project of the comment's task
+ * @param mentions - Mentioned users
+ * @param parentAuthorId - Author of the parent comment of a reply
+ * @returns Notifications to create
+ */
+export const buildCommentNotifications = (
+  comment: NotificationComment,
+  task: Pick<NotificationTask, 'title' | 'projectId'>,
+  mentions: UUID[],
+  parentAuthorId: UUID | null
+): ICreateNotificationDTO[] => {
+  const base = {
+    title: task.title,
+    message: toExcerpt(comment.content),
+    taskId: comment.taskId,
+    projectId: task.projectId,
+    commentId: comment.id,
+    actorId: comment.authorId
+  };
+
+  const mentioned = new Set(mentions.filter(userId => userId !== comment.authorId));
+  const notifications: ICreateNotificationDTO[] = [...mentioned].map(userId => ({
+    ...base,
+    userId,
+    type: NotificationType.MENTION
+  }));
+
+  if (parentAuthorId && parentAuthorId !== comment.authorId && !mentioned.has(parentAuthorId)) {
+    notifications.push({ ...base, userId: parentAuthorId, type: NotificationType.COMMENT_REPLY });
+  }
+
+  return notifications;
+};
+
+/**
+ * Builds the due-soon reminder for the assignee of a task
+ * @param task - Task becoming due
+ * @param dueDate - Due date of the task
+ * @returns Notification to create
+ */
+export const buildDueSoonNotification = (
+  task: Pick<NotificationTask, 'id' | 'title' | 'projectId' | 'assigneeId'>,
+  dueDate: Date
+): ICreateNotificationDTO => ({
+  userId: task.assigneeId,
+  type: NotificationType.DUE_SOON,
+  title: task.title,
+  message: 'Due within the next 24 hours',
+  taskId: task.id,
+  projectId: task.projectId,
+  dedupeKey: getDueSoonKey(task.id, dueDate)
+});
@@ -0,0 +1,125 @@
+/**
+ * @fileoverview Permission registry and the default role to permission mapping
+ * @version 1.0.0
+ * @module utils/permission
+ *
+ * The mapping below seeds the role_permissions table and applies until the stored
+ * mapping has been loaded; admins change it at runtime through the permissions API.
+ */
+
+// Internal imports
+import { Permission, PermissionDefinition, RolePermissionMap } from '../types/permission.types';
+import { UserRole } from '../types/user.types';
+
+/**
+ * Every permission known to the system, with a description shown to admins
+ */
+export const PERMISSION_DEFINITIONS: readonly PermissionDefinition[] = [
+  { key: Permission.TASK_READ, description: 'View tasks and their details' },
+  { key: Permission.TASK_CREATE, description: 'Create tasks' },
+  { key: Permission.TASK_UPDATE, description: 'Edit any task' },
+  { key: Permission.TASK_UPDATE_OWN, description: 'Edit tasks the user created or is assigned to' },
+  { key: Permission.TASK_DELETE, description: 'Delete any task' },
+  { key: Permission.TASK_DELETE_OWN, description: 'Delete tasks the user created or is assigned to' },
+  { key: Permission.TASK_BLOCKERS_OVERRIDE, description: 'Start tasks whose blockers are still open' },
+  { key: Permission.COMMENT_WRITE, description: 'Post, edit and delete comments' },
+  { key: Permission.ATTACHMENT_WRITE, description: 'Upload and delete attachments' },
+  { key: Permission.CHECKLIST_UPDATE, description: 'Edit task checklists' },
+  { key: Permission.DEPENDENCY_UPDATE, description: 'Link and unlink task dependencies' },
+  { key: Permission.RECURRENCE_UPDATE, description: 'Set and remove recurrence rules' },
+  { key: Permission.WORKLOG_WRITE, description: 'Log time on tasks and run timers' },
+  { key: Permission.VIEW_WRITE, description: 'Save, share and pin task views' },
+  { key: Permission.PROJECT_READ, description: 'View projects' },
+  { key: Permission.PROJECT_CREATE, description: 'Create projects' },
+  { key: Permission.PROJECT_UPDATE, description: 'Edit projects' },
+  { key: Permission.PROJECT_DELETE, description: 'Delete projects' },
+  { key: Permission.PROJECT_MEMBERS_MANAGE, description: 'Change project members, subject to the project role' },
+  { key: Permission.PROJECT_FIELDS_MANAGE, description: 'Define project custom fields, subject to the project role' },
+  { key: Permission.PROJECT_WORKFLOW_MANAGE, description: 'Edit the project workflow, subject to the project role' },
+  { key: Permission.PROJECT_SPRINTS_MANAGE, description: 'Plan, start and close sprints, subject to the project role' },
+  { key: Permission.PROJECT_MILESTONES_MANAGE, description: 'Edit project milestones, subject to the project role' },
+  { key: Permission.HISTORY_READ, description: 'View change history' },
+  { key: Permission.USER_READ, description: 'View user accounts' },
+  { key: Permission.USER_MANAGE, description: 'Create, edit and delete user accounts' },
+  { key: Permission.USER_PREFERENCES_UPDATE, description: 'Edit the preferences of any user' },
+  { key: Permission.USER_PREFERENCES_UPDATE_OWN, description: 'Edit the user\'s own preferences' },
+  { key: Permission.PERMISSION_MANAGE, description: 'Edit the permissions granted to each role' },
+  { key: Permission.WEBHOOK_MANAGE, description: 'Manage webhooks and view and redeliver their deliveries' }
+];
+
+/**
+ * Permissions that always stay with a role, so admins cannot lock themselves out
+ */
+export const LOCKED_PERMISSIONS: Readonly<Partial<RolePermissionMap>> = {
+  [UserRole.ADMIN]: [Permission.PERMISSION_MANAGE]
+};
+
+// Permissions shared by every role that works on tasks
+const CONTRIBUTOR_PERMISSIONS: Permission[] = [
+  Permission.TASK_READ,
+  Permission.COMMENT_WRITE,
+  Permission.ATTACHMENT_WRITE,
+  Permission.CHECKLIST_UPDATE,
+  Permission.DEPENDENCY_UPDATE,
+  Permission.RECURRENCE_UPDATE,
+  Permission.WORKLOG_WRITE,
+  Permission.VIEW_WRITE,
+  Permission.PROJECT_READ,
+  Permission.PROJECT_MEMBERS_MANAGE,
+  Permission.PROJECT_FIELDS_MANAGE,
+  Permission.PROJECT_WORKFLOW_MANAGE,
+  Permission.PROJECT_SPRINTS_MANAGE,
+  Permission.PROJECT_MILESTONES_MANAGE,
+  Permission.HISTORY_READ,
+  Permission.USER_PREFERENCES_UPDATE_OWN
+];
+
+/**
+ * Built-in role to permission mapping
+ */
+export const DEFAULT_ROLE_PERMISSIONS: Readonly<RolePermissionMap> = {
+  [UserRole.ADMIN]: Object.values(Permission),
+  [UserRole.PROJECT_MANAGER]: [
+    ...CONTRIBUTOR_PERMISSIONS,
+    Permission.TASK_CREATE,
+    Permission.TASK_UPDATE,
+    Permission.TASK_DELETE,
+    Permission.TASK_BLOCKERS_OVERRIDE,
+    Permission.PROJECT_CREATE,
+    Permission.PROJECT_UPDATE,
+    Permission.PROJECT_DELETE,
+    Permission.USER_READ
+  ],
+  [UserRole.TEAM_LEAD]: [
+    ...CONTRIBUTOR_PERMISSIONS,
+    Permission.TASK_CREATE,
+    Permission.TASK_UPDATE,
+    Permission.TASK_DELETE_OWN
+  ],
+  [UserRole.TEAM_MEMBER]: [
+    ...CONTRIBUTOR_PERMISSIONS,
+    Permission.TASK_UPDATE_OWN
+  ],
+  [UserRole.GUEST]: [
+    Permission.TASK_READ,
+    Permission.PROJECT_READ,
+    Permission.HISTORY_READ
+  ]
+};
+
+/**
+ * Checks whether a permission is among the granted ones
+ * @param granted Permissions held by the caller
+ * @param required Permission to check
+ */
+export const hasPermission = (
+  granted: readonly Permission[] | null | undefined,
+  required: Permission
+): boolean => !!granted && granted.includes(required);
+
+/**
+ * Checks whether a string names a registered permission
+ * @param value Candidate permission key
+ */
+export const isPermission = (value: string): value is Permission =>
+  (Object.values(Permission) as string[]).includes(value);
@@ -0,0 +1,130 @@
+/**
+ * @fileoverview Task progress rollup from subtasks and checklist items
+ * @version 1.0.0
+ * @module utils/progress
+ *
+ * Progress is computed on read rather than stored, so a parent never carries a stale
+ * value after one of its subtasks or checklist items changes.
+ */
+
+// Internal imports
+import { WorkflowCategory } from '../types/workflow.types';
+import { ITaskProgress } from '../interfaces/task.interface';
+
+/**
+ * Task node of a subtask tree, as loaded for progress calculation
+ */
+export interface ProgressTaskNode {
+  id: string;
+  parentId: string | null;
+  status: string;
+  statusCategory: WorkflowCategory | string; // Category of the status in the project's workflow
+}
+
+/**
+ * Checklist item counts of a single task
+ */
+export interface ChecklistCounts {
+  total: number;
+  completed: number;
+}
+
+/**
+ * Subtask tree below a set of root tasks together with the checklist counts of every node
+ */
+export interface ProgressTree {
+  tasks: ProgressTaskNode[];
+  checklists: Map<string, ChecklistCounts>;
+}
+
+/**
+ * Computes the progress of the given root tasks. Each direct subtask and each checklist
+ * item is one unit; a subtask contributes the fraction of its own progress, so nested
+ * work rolls up level by level. A task without units is 0% or, once in a DONE state, 100%.
+ *
+ * @param roots - Root tasks whose progress is requested
+ * @param tree - Descendants of the roots and checklist counts of all nodes
+ * @returns Progress keyed by root task ID
+ */
+export const calculateTaskProgress = (
+  roots: ProgressTaskNode[],
+  tree: ProgressTree
+): Map<string, ITaskProgress> => {
+  const children = new Map<string, ProgressTaskNode[]>();
+  for (const task of tree.tasks) {
+    if (!task.parentId) continue;
+    const siblings = children.get(task.parentId) || [];
+    siblings.push(task);
+    children.set(task.parentId, siblings);
+  }
+
+  const fractions = new Map<string, number>();
+
+  // Completed/total units of a node; child fractions are memoized
+  const rollup = (task: ProgressTaskNode): ChecklistCounts => {
+    const checklist = tree.checklists.get(task.id) || { total: 0, completed: 0 };
+    let total = checklist.total;
+    let completed = checklist.completed;
+
+    for (const child of children.get(task.id) || []) {
+      total += 1;
+      completed += fraction(child);
+    }
+
+    return { total, completed };
+  };
+
+  const fraction = (task: ProgressTaskNode): number => {
+    const cached = fractions.get(task.id);
+    if (cached !== undefined) return cached;
+
+    const { total, completed } = rollup(task);
+    const value = task.statusCategory === WorkflowCategory.DONE ? 1 : total === 0 ? 0 : completed / total;
+    fractions.set(task.id, value);
+    return value;
+  };
+
+  const progress = new Map<string, ITaskProgress>();
+  for (const root of roots) {
+    const { total, completed } = rollup(root);
+    const percentage = root.statusCategory === WorkflowCategory.DONE
+      ? 100
+      : total === 0 ? 0 : Math.round((completed / total) * 100);
+
+    progress.set(root.id, {
+      completed: Math.round(completed * 100) / 100,
+      total,
+      percentage
+    });
+  }
+
+  return progress;
+};
+
+/**
+ * Averages task percentages into a completion percentage
+ *
+ * @param progress - Progress of the tasks to average
+ * @returns Completion percentage (0-100); 0 when there are no tasks
+ */
+export const calculateCompletion = (progress: ITaskProgress[]): number => {
+  if (progress.length === 0) return 0;
+  const sum = progress.reduce((acc, item) => acc + item.percentage, 0);
+  return Math.round(sum / progress.length);
+};
+
+/**
+ * Averages task percentages weighted by effort, so larger tasks count for more
+ *
+ * @param progress - Progress of the tasks with their weights, such as original estimates
+ * @returns Completion percentage (0-100); null when no task has a positive weight
+ */
+export const calculateWeightedCompletion = (
+  progress: Array<{ percentage: number; weight: number }>
+): number | null => {
+  const weighted = progress.filter(item => item.weight > 0);
+  const total = weighted.reduce((acc, item) => acc + item.weight, 0);
+  if (total === 0) return null;
+  const sum = weighted.reduce((acc, item) => acc + item.percentage * item.weight, 0);
+  return Math.round(sum / total);
+};
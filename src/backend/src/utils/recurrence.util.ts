@@ -0,0 +1,234 @@
+/**
+ * @fileoverview Recurrence rule parsing and next-occurrence calculation for recurring tasks
+ * @version 1.0.0
+ * @module utils/recurrence
+ *
+ * Supports the subset of RFC 5545 RRULE used by the task scheduler: FREQ (DAILY, WEEKLY,
+ * MONTHLY), INTERVAL, BYDAY, BYMONTHDAY, COUNT and UNTIL. Weeks start on Monday.
+ */
+
+// External imports - date-fns v2.30.0
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  differenceInCalendarWeeks,
+  getDaysInMonth,
+  getDay,
+  isAfter,
+  isValid,
+  parseISO,
+  setDate
+} from 'date-fns';
+
+// Internal imports
+import { addBusinessDays } from './date.util';
+
+/**
+ * Error messages for recurrence operations
+ */
+const RECURRENCE_ERRORS = {
+  INVALID_RULE: 'Invalid recurrence rule',
+  UNSUPPORTED_PART: 'Unsupported recurrence rule part',
+  INVALID_FREQUENCY: 'Recurrence frequency must be DAILY, WEEKLY or MONTHLY',
+  INVALID_INTERVAL: 'Recurrence interval must be an integer between 1 and 365',
+  INVALID_WEEKDAY: 'Invalid weekday in recurrence rule',
+  INVALID_MONTH_DAY: 'Recurrence month day must be between 1 and 31',
+  INVALID_COUNT: 'Recurrence count must be a positive integer',
+  INVALID_UNTIL: 'Invalid recurrence end date'
+} as const;
+
+/**
+ * Upper bound on steps when skipping past occurrences, so a malformed rule cannot spin forever
+ */
+const MAX_ADVANCE_STEPS = 1000;
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+/**
+ * Normalized repetition pattern shared by preset and RRULE-based rules
+ */
+export interface RecurrencePattern {
+  frequency: 'DAILY' | 'WEEKLY' | 'MONTHLY';
+  interval: number;
+  byWeekday: number[];       // 0 = Sunday ... 6 = Saturday; WEEKLY only
+  byMonthDay: number | null; // MONTHLY only; clamped to the length of shorter months
+  businessDaysOnly: boolean;
+}
+
+/**
+ * Parsed RRULE: the pattern plus its optional end conditions
+ */
+export interface ParsedRRule extends Omit<RecurrencePattern, 'businessDaysOnly'> {
+  count?: number;
+  until?: Date;
+}
+
+/**
+ * Parses an RRULE string such as `FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;COUNT=10`
+ *
+ * @param rrule - Rule string, optionally prefixed with `RRULE:`
+ * @returns Parsed pattern and end conditions
+ * @throws Error naming the offending part if the rule is invalid or unsupported
+ */
+export const parseRRule = (rrule: string): ParsedRRule => {
+  const source = rrule.trim().replace(/^RRULE:/i, '');
+  if (!source) {
+    throw new Error(RECURRENCE_ERRORS.INVALID_RULE);
+  }
+
+  const parts = new Map<string, string>();
+  for (const part of source.split(';').filter(Boolean)) {
+    const [key, value] = part.split('=');
+    if (!key || value === undefined || value === '') {
+      throw new Error(`${RECURRENCE_ERRORS.INVALID_RULE}: ${part}`);
+    }
+    parts.set(key.toUpperCase(), value.toUpperCase());
+  }
+
+  for (const key of parts.keys()) {
+    if (!['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY', 'COUNT', 'UNTIL'].includes(key)) {
+      throw new Error(`${RECURRENCE_ERRORS.UNSUPPORTED_PART}: ${key}`);
+    }
+  }
+
+  const frequency = parts.get('FREQ');
+  if (frequency !== 'DAILY' && frequency !== 'WEEKLY' && frequency !== 'MONTHLY') {
+    throw new Error(RECURRENCE_ERRORS.INVALID_FREQUENCY);
+  }
+
+  const interval = parts.has('INTERVAL') ? Number(parts.get('INTERVAL')) : 1;
+  const byWeekday = parts.has('BYDAY')
+    ? parts.get('BYDAY')!.split(',').map(code => {
+        const index = WEEKDAY_CODES.indexOf(code);
+        if (index === -1) {
+          throw new Error(`${RECURRENCE_ERRORS.INVALID_WEEKDAY}: ${code}`);
+        }
+        return index;
+      })
+    : [];
+  const byMonthDay = parts.has('BYMONTHDAY') ? Number(parts.get('BYMONTHDAY')) : null;
+
+  const parsed: ParsedRRule = { frequency, interval, byWeekday, byMonthDay };
+
+  if (parts.has('COUNT')) {
+    parsed.count = Number(parts.get('COUNT'));
+    if (!Number.isInteger(parsed.count) || parsed.count < 1) {
+      throw new Error(RECURRENCE_ERRORS.INVALID_COUNT);
+    }
+  }
+
+  if (parts.has('UNTIL')) {
+    // Accept both the RFC 5545 basic format (20261231T000000Z) and ISO 8601
+    const until = parts.get('UNTIL')!.replace(
+      /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/,
+      (_, y, m, d, hh = '23', mm = '59', ss = '59') => `${y}-${m}-${d}T${hh}:${mm}:${ss}Z`
+    );
+    parsed.until = parseISO(until);
+    if (!isValid(parsed.until)) {
+      throw new Error(RECURRENCE_ERRORS.INVALID_UNTIL);
+    }
+  }
+
+  validatePattern({ ...parsed, businessDaysOnly: false });
+  return parsed;
+};
+
+/**
+ * Validates the numeric parts of a pattern
+ *
+ * @param pattern - Pattern to validate
+ * @throws Error describing the first invalid part
+ */
+export const validatePattern = (pattern: RecurrencePattern): void => {
+  if (!Number.isInteger(pattern.interval) || pattern.interval < 1 || pattern.interval > 365) {
+    throw new Error(RECURRENCE_ERRORS.INVALID_INTERVAL);
+  }
+
+  if (pattern.byWeekday.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+    throw new Error(RECURRENCE_ERRORS.INVALID_WEEKDAY);
+  }
+
+  if (pattern.byMonthDay !== null &&
+      (!Number.isInteger(pattern.byMonthDay) || pattern.byMonthDay < 1 || pattern.byMonthDay > 31)) {
+    throw new Error(RECURRENCE_ERRORS.INVALID_MONTH_DAY);
+  }
+};
+
+/**
+ * Computes the occurrence directly following the given one
+ *
+ * @param pattern - Repetition pattern
+ * @param previous - Date of the previous occurrence
+ * @returns Date of the next occurrence
+ */
+export const computeNextOccurrence = (pattern: RecurrencePattern, previous: Date): Date => {
+  let next: Date;
+
+  switch (pattern.frequency) {
+    case 'DAILY':
+      // Business-day rules count only working days instead of rolling forward afterwards
+      return pattern.businessDaysOnly
+        ? addBusinessDays(previous, pattern.interval)
+        : addDays(previous, pattern.interval);
+
+    case 'WEEKLY':
+      next = pattern.byWeekday.length > 0
+        ? nextWeekdayMatch(pattern, previous)
+        : addWeeks(previous, pattern.interval);
+      break;
+
+    case 'MONTHLY':
+      next = addMonths(previous, pattern.interval);
+      if (pattern.byMonthDay !== null) {
+        next = setDate(next, Math.min(pattern.byMonthDay, getDaysInMonth(next)));
+      }
+      break;
+
+    default:
+      throw new Error(RECURRENCE_ERRORS.INVALID_FREQUENCY);
+  }
+
+  // Roll an occurrence landing on a weekend forward to the next working day
+  return pattern.businessDaysOnly ? addBusinessDays(addDays(next, -1), 1) : next;
+};
+
+/**
+ * Computes the first occurrence after `after`, stepping from `previous`; used when an
+ * occurrence is completed late and the missed dates should be skipped
+ *
+ * @param pattern - Repetition pattern
+ * @param previous - Date of the previous occurrence
+ * @param after - Earliest acceptable date (exclusive)
+ * @returns Date of the next occurrence after `after`
+ */
+export const computeNextOccurrenceAfter = (
+  pattern: RecurrencePattern,
+  previous: Date,
+  after: Date
+): Date => {
+  let next = computeNextOccurrence(pattern, previous);
+
+  for (let step = 0; !isAfter(next, after) && step < MAX_ADVANCE_STEPS; step++) {
+    next = computeNextOccurrence(pattern, next);
+  }
+
+  return next;
+};
+
+/**
+ * Finds the next matching weekday, jumping `interval` weeks between active weeks
+ * @private
+ */
+const nextWeekdayMatch = (pattern: RecurrencePattern, previous: Date): Date => {
+  for (let offset = 1; offset <= 7 * (pattern.interval + 1); offset++) {
+    const candidate = addDays(previous, offset);
+    const weeksApart = differenceInCalendarWeeks(candidate, previous, { weekStartsOn: 1 });
+
+    if (weeksApart % pattern.interval === 0 && pattern.byWeekday.includes(getDay(candidate))) {
+      return candidate;
+    }
+  }
+
+  return addWeeks(previous, pattern.interval);
+};
@@ -0,0 +1,45 @@
+/**
+ * @fileoverview Saved view limits and filter normalization
+ * @version 1.0.0
+ * @module utils/savedView
+ */
+
+// Internal imports
+import { SavedViewFilters, SavedViewGrouping } from '../types/savedView.types';
+
+/**
+ * Most views a user may own
+ */
+export const MAX_SAVED_VIEWS = 100;
+
+/**
+ * Most views a user may pin to the sidebar
+ */
+export const MAX_PINNED_VIEWS = 10;
+
+/**
+ * Most columns a list view may show
+ */
+export const MAX_VIEW_COLUMNS = 30;
+
+/**
+ * Groupings a view may use
+ */
+export const SAVED_VIEW_GROUPINGS: readonly SavedViewGrouping[] = ['none', 'assignee', 'priority', 'project'];
+
+/**
+ * Drops unset filters, so that views differing only in empty values are stored alike
+ * and the URL of an opened view only carries the filters that apply
+ *
+ * @param filters - Filters as submitted
+ * @returns Filters with a value
+ */
+export const normalizeViewFilters = (filters: SavedViewFilters = {}): SavedViewFilters =>
+  Object.fromEntries(
+    Object.entries(filters).filter(([, value]) => {
+      if (value === undefined || value === null || value === '' || value === false) {
+        return false;
+      }
+      return !Array.isArray(value) || value.length > 0;
+    })
+  ) as SavedViewFilters;
@@ -0,0 +1,82 @@
+/**
+ * @fileoverview Full-text search limits, query normalization and result merging
+ * @version 1.0.0
+ * @module utils/search
+ */
+
+// Internal imports
+import { ISearchHit } from '../interfaces/search.interface';
+import { SearchFacets, SearchResultType } from '../types/search.types';
+
+/**
+ * Text search configuration of the tsvector indexes; queries must use the same one
+ * for Postgres to pick the indexes
+ */
+export const SEARCH_LANGUAGE = 'english';
+
+/**
+ * Longest search query accepted, in characters
+ */
+export const MAX_SEARCH_QUERY_LENGTH = 200;
+
+/**
+ * Results returned when the request names no limit
+ */
+export const DEFAULT_SEARCH_LIMIT = 20;
+
+/**
+ * Most results a search may return
+ */
+export const MAX_SEARCH_LIMIT = 50;
+
+/**
+ * Markers wrapped around matched terms in highlights; the rest of a highlight is
+ * plain text and must be rendered as such
+ */
+export const HIGHLIGHT_START = '<mark>';
+export const HIGHLIGHT_STOP = '</mark>';
+
+/**
+ * ts_headline options producing one or two short fragments around the matches
+ */
+export const HEADLINE_OPTIONS =
+  `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, MinWords=10, MaxWords=30, ` +
+  'MaxFragments=2, FragmentDelimiter=" … "';
+
+/**
+ * Trims a search query and collapses its whitespace, cutting it to the longest
+ * accepted length
+ *
+ * @param query - Query as typed
+ * @returns Normalized query; empty when nothing is left to search for
+ */
+export const normalizeSearchQuery = (query: string = ''): string =>
+  query.replace(/\s+/g, ' ').trim().slice(0, MAX_SEARCH_QUERY_LENGTH).trim();
+
+/**
+ * Builds facets with no matches
+ *
+ * @returns Facets counting zero matches of every type
+ */
+export const emptySearchFacets = (): SearchFacets => ({
+  [SearchResultType.TASK]: 0,
+  [SearchResultType.COMMENT]: 0,
+  [SearchResultType.PROJECT]: 0
+});
+
+/**
+ * Merges the hits found per type into one ranking. Ranks of different types are
+ * comparable as they come from the same ranking function; ties keep the order of
+ * the groups.
+ *
+ * @param groups - Hits per type, each ranked
+ * @param limit - Most hits to keep
+ * @returns Best hits overall
+ */
+export const mergeSearchHits = (groups: ISearchHit[][], limit: number): ISearchHit[] =>
+  groups
+    .flat()
+    .map((hit, index) => ({ hit, index }))
+    .sort((a, b) => b.hit.rank - a.hit.rank || a.index - b.index)
+    .slice(0, limit)
+    .map(({ hit }) => hit);
@@ -0,0 +1,195 @@
+/**
+ * @fileoverview Sprint date validation and burndown computation
+ * @version 1.0.0
+ * @module utils/sprint
+ *
+ * The burndown replays the recorded status and sprint changes of a sprint's tasks
+ * backwards from their current values, so it reflects what the board showed at the end
+ * of each day rather than the sprint's final outcome.
+ */
+
+// Internal imports
+import { BurndownPoint } from '../types/sprint.types';
+import { WorkflowCategory } from '../types/workflow.types';
+
+/**
+ * Longest sprint, in days
+ */
+export const MAX_SPRINT_DAYS = 56;
+
+/**
+ * Milliseconds in a day
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Task fields the burndown replays
+ */
+export const BURNDOWN_FIELDS = ['status', 'sprintId'] as const;
+
+/**
+ * Current state of a task that is or was in the sprint
+ */
+export interface BurndownTask {
+  id: string;
+  status: string;
+  sprintId: string | null;
+  createdAt: Date;
+  deletedAt: Date | null;
+}
+
+/**
+ * Recorded change of a burndown field of a task
+ */
+export interface BurndownChange {
+  entityId: string;
+  field: string;
+  oldValue?: unknown;
+  newValue?: unknown;
+  changedAt: Date;
+}
+
+/**
+ * Sprint attributes the burndown depends on
+ */
+export interface BurndownSprint {
+  id: string;
+  startDate: Date;
+  endDate: Date;
+  closedAt: Date | null;
+}
+
+/**
+ * Formats the UTC calendar day of a date as YYYY-MM-DD
+ *
+ * @param date - Date to format
+ * @returns Calendar day
+ */
+export const toDay = (date: Date): string => date.toISOString().slice(0, 10);
+
+/**
+ * Lists the calendar days of a sprint, first and last day included
+ *
+ * @param startDate - First day
+ * @param endDate - Last day
+ * @returns Days as YYYY-MM-DD
+ */
+export const listSprintDays = (startDate: Date, endDate: Date): string[] => {
+  const days: string[] = [];
+  const first = Date.parse(toDay(startDate));
+  const last = Date.parse(toDay(endDate));
+
+  for (let day = first; day <= last; day += DAY_MS) {
+    days.push(toDay(new Date(day)));
+  }
+
+  return days;
+};
+
+/**
+ * Validates the dates of a sprint
+ *
+ * @param startDate - First day
+ * @param endDate - Last day
+ * @returns Error message, or null when the dates are valid
+ */
+export const validateSprintDates = (startDate: Date, endDate: Date): string | null => {
+  if (Number.isNaN(startDate.getTime()) || Number.isNaN(endDate.getTime())) {
+    return 'Sprint dates must be valid dates';
+  }
+
+  if (toDay(endDate) < toDay(startDate)) {
+    return 'Sprint must not end before it starts';
+  }
+
+  if (listSprintDays(startDate, endDate).length > MAX_SPRINT_DAYS) {
+    return `Sprints must not be longer than ${MAX_SPRINT_DAYS} days`;
+  }
+
+  return null;
+};
+
+/**
+ * Returns the value a task field held at a point in time by undoing the changes
+ * recorded after it
+ * @private
+ */
+const valueAt = (current: unknown, changes: BurndownChange[], at: number): unknown => {
+  let value = current;
+
+  for (let i = changes.length - 1; i >= 0 && changes[i].changedAt.getTime() > at; i--) {
+    value = changes[i].oldValue ?? null;
+  }
+
+  return value;
+};
+
+/**
+ * Computes the daily burndown of a sprint in tasks
+ *
+ * @param sprint - Sprint dates and close time
+ * @param tasks - Tasks that are or were in the sprint
+ * @param changes - Recorded status and sprint changes of those tasks
+ * @param categoryOf - Category of a workflow state key
+ * @param now - Current time; later days have no remaining value yet
+ * @returns One point per sprint day
+ */
+export const computeBurndown = (
+  sprint: BurndownSprint,
+  tasks: BurndownTask[],
+  changes: BurndownChange[],
+  categoryOf: (status: string) => WorkflowCategory,
+  now: Date = new Date()
+): BurndownPoint[] => {
+  // Changes per task and field, oldest first
+  const history = new Map<string, BurndownChange[]>();
+  [...changes]
+    .sort((a, b) => a.changedAt.getTime() - b.changedAt.getTime())
+    .forEach(change => {
+      const key = `${change.entityId}:${change.field}`;
+      history.set(key, [...(history.get(key) || []), change]);
+    });
+
+  // A closed sprint ends just before closing, which rolls its unfinished tasks over
+  const end = Math.min(now.getTime(), sprint.closedAt ? sprint.closedAt.getTime() - 1 : Infinity);
+
+  const snapshot = (at: number): { scope: number; remaining: number } => {
+    let scope = 0;
+    let remaining = 0;
+
+    for (const task of tasks) {
+      if (task.createdAt.getTime() > at || (task.deletedAt && task.deletedAt.getTime() <= at)) {
+        continue;
+      }
+      if (valueAt(task.sprintId, history.get(`${task.id}:sprintId`) || [], at) !== sprint.id) {
+        continue;
+      }
+
+      scope++;
+      const status = valueAt(task.status, history.get(`${task.id}:status`) || [], at) as string;
+      if (categoryOf(status) !== WorkflowCategory.DONE) {
+        remaining++;
+      }
+    }
+
+    return { scope, remaining };
+  };
+
+  const days = listSprintDays(sprint.startDate, sprint.endDate);
+  const endOfDay = (day: string) => Date.parse(day) + DAY_MS - 1;
+  const startingScope = snapshot(Math.min(endOfDay(days[0]), end)).scope;
+
+  return days.map((day, index) => {
+    const ideal = days.length > 1
+      ? Math.round(startingScope * (1 - index / (days.length - 1)) * 100) / 100
+      : startingScope;
+
+    // Days that have not begun yet have nothing to report
+    if (Date.parse(day) > end) {
+      return { date: day, remaining: null, scope: null, ideal };
+    }
+
+    const { scope, remaining } = snapshot(Math.min(endOfDay(day), end));
+    return { date: day, remaining, scope, ideal };
+  });
+};
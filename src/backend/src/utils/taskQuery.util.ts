@@ -0,0 +1,631 @@
+/**
+ * @fileoverview Parser and compiler of the task query language
+ * @version 1.0.0
+ * @module utils/taskQuery
+ *
+ * Queries combine conditions with AND, OR, NOT and parentheses, and may end with an
+ * ORDER BY clause, e.g.
+ *
+ *   assignee = me AND priority >= HIGH AND due < +7d AND tag in (backend, api) ORDER BY due
+ *
+ * AND binds tighter than OR; keywords and field names are case-insensitive. Dates are
+ * UTC calendar days, so `due < +7d` means before the day a week from today and a query
+ * compiles to the same conditions all day long.
+ */
+
+// External imports
+import { Prisma } from '@prisma/client'; // v5.0+
+import { isUUID } from 'validator'; // ^13.9.0
+import { UUID } from 'crypto';
+
+// Internal imports
+import { ITask } from '../interfaces/task.interface';
+import { TaskPriority } from '../types/task.types';
+import { TaskQueryFieldType, TaskQueryOperator } from '../types/taskQuery.types';
+import { WORKFLOW_STATE_KEY_PATTERN } from './workflow.util';
+
+/**
+ * Longest query accepted, in characters
+ */
+export const MAX_TASK_QUERY_LENGTH = 1000;
+
+/**
+ * Most conditions a query may hold
+ */
+export const MAX_TASK_QUERY_CONDITIONS = 50;
+
+/**
+ * Deepest nesting of parentheses and NOT accepted
+ */
+const MAX_NESTING = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Priorities from lowest to highest, for comparisons
+const PRIORITY_ORDER: readonly TaskPriority[] = [TaskPriority.LOW, TaskPriority.MEDIUM, TaskPriority.HIGH];
+
+/**
+ * Field a query can filter on
+ */
+export interface TaskQueryField {
+  type: TaskQueryFieldType;
+  columns: readonly string[];   // Task columns matched; any of them for text fields
+  nullable: boolean;            // Whether `is empty` applies
+  sortBy?: keyof ITask;         // Column ORDER BY sorts by, when sortable
+}
+
+/**
+ * Fields of the query language by name
+ */
+export const TASK_QUERY_FIELDS: Readonly<Record<string, TaskQueryField>> = {
+  status: { type: TaskQueryFieldType.KEYWORD, columns: ['status'], nullable: false, sortBy: 'status' },
+  priority: { type: TaskQueryFieldType.PRIORITY, columns: ['priority'], nullable: false, sortBy: 'priority' },
+  assignee: { type: TaskQueryFieldType.USER, columns: ['assigneeId'], nullable: false },
+  project: { type: TaskQueryFieldType.ID, columns: ['projectId'], nullable: false },
+  sprint: { type: TaskQueryFieldType.ID, columns: ['sprintId'], nullable: true },
+  parent: { type: TaskQueryFieldType.ID, columns: ['parentId'], nullable: true },
+  due: { type: TaskQueryFieldType.DATE, columns: ['dueDate'], nullable: true, sortBy: 'dueDate' },
+  created: { type: TaskQueryFieldType.DATE, columns: ['createdAt'], nullable: false, sortBy: 'createdAt' },
+  updated: { type: TaskQueryFieldType.DATE, columns: ['updatedAt'], nullable: false, sortBy: 'updatedAt' },
+  tag: { type: TaskQueryFieldType.TAG, columns: ['tags'], nullable: false },
+  title: { type: TaskQueryFieldType.TEXT, columns: ['title'], nullable: false, sortBy: 'title' },
+  text: { type: TaskQueryFieldType.TEXT, columns: ['title', 'description'], nullable: false },
+  estimate: { type: TaskQueryFieldType.NUMBER, columns: ['originalEstimate'], nullable: true, sortBy: 'originalEstimate' },
+  remaining: { type: TaskQueryFieldType.NUMBER, columns: ['remainingEstimate'], nullable: true, sortBy: 'remainingEstimate' }
+};
+
+/**
+ * Operators each field type can be filtered with; `is [not] empty` applies to nullable fields
+ */
+export const TASK_QUERY_OPERATORS: Readonly<Record<TaskQueryFieldType, TaskQueryOperator[]>> = {
+  [TaskQueryFieldType.TEXT]: [TaskQueryOperator.CONTAINS, TaskQueryOperator.NOT_CONTAINS, TaskQueryOperator.EQ, TaskQueryOperator.NE],
+  [TaskQueryFieldType.KEYWORD]: [TaskQueryOperator.EQ, TaskQueryOperator.NE, TaskQueryOperator.IN, TaskQueryOperator.NOT_IN],
+  [TaskQueryFieldType.PRIORITY]: [
+    TaskQueryOperator.EQ, TaskQueryOperator.NE, TaskQueryOperator.LT, TaskQueryOperator.LTE,
+    TaskQueryOperator.GT, TaskQueryOperator.GTE, TaskQueryOperator.IN, TaskQueryOperator.NOT_IN
+  ],
+  [TaskQueryFieldType.USER]: [TaskQueryOperator.EQ, TaskQueryOperator.NE, TaskQueryOperator.IN, TaskQueryOperator.NOT_IN],
+  [TaskQueryFieldType.ID]: [TaskQueryOperator.EQ, TaskQueryOperator.NE, TaskQueryOperator.IN, TaskQueryOperator.NOT_IN],
+  [TaskQueryFieldType.DATE]: [
+    TaskQueryOperator.EQ, TaskQueryOperator.NE, TaskQueryOperator.LT,
+    TaskQueryOperator.LTE, TaskQueryOperator.GT, TaskQueryOperator.GTE
+  ],
+  [TaskQueryFieldType.NUMBER]: [
+    TaskQueryOperator.EQ, TaskQueryOperator.NE, TaskQueryOperator.LT,
+    TaskQueryOperator.LTE, TaskQueryOperator.GT, TaskQueryOperator.GTE
+  ],
+  [TaskQueryFieldType.TAG]: [TaskQueryOperator.EQ, TaskQueryOperator.NE, TaskQueryOperator.IN, TaskQueryOperator.NOT_IN]
+};
+
+/**
+ * Error raised for malformed queries, carrying the offset of the offending input
+ */
+export class TaskQuerySyntaxError extends Error {
+  /**
+   * @param reason - What is wrong
+   * @param position - Zero-based offset in the query
+   */
+  constructor(reason: string, public readonly position: number) {
+    super(`${reason} at position ${position + 1}`);
+    this.name = 'TaskQuerySyntaxError';
+  }
+}
+
+/**
+ * Values a query is resolved against
+ */
+export interface TaskQueryContext {
+  userId: UUID; // Replaces `me`
+  now: Date;    // Anchors `today` and relative dates
+}
+
+/**
+ * Conditions and ordering a query compiles to
+ */
+export interface CompiledTaskQuery {
+  where: Prisma.TaskWhereInput;
+  sortBy?: keyof ITask;
+  sortOrder?: 'asc' | 'desc';
+}
+
+// Lexical tokens
+type TokenKind = 'word' | 'string' | 'operator' | '(' | ')' | ',' | 'end';
+
+interface Token {
+  kind: TokenKind;
+  value: string;
+  position: number;
+}
+
+// Syntax tree
+interface QueryValue {
+  text: string;
+  quoted: boolean;
+  position: number;
+}
+
+type QueryNode =
+  | { kind: 'and' | 'or'; nodes: QueryNode[] }
+  | { kind: 'not'; node: QueryNode }
+  | { kind: 'condition'; field: string; operator: TaskQueryOperator; values: QueryValue[]; position: number };
+
+const OPERATOR_PATTERN = /^(<=|>=|!=|!~|=|<|>|~)/;
+const WORD_PATTERN = /^[A-Za-z0-9_.:@+-]+/;
+const RELATIVE_DATE_PATTERN = /^([+-])(\d{1,4})([dwmy])$/i;
+const ABSOLUTE_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Splits a query into tokens; quoted strings may use single or double quotes and
+ * escape characters with a backslash
+ */
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < input.length) {
+    const char = input[index];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    if (char === '(' || char === ')' || char === ',') {
+      tokens.push({ kind: char, value: char, position: index });
+      index++;
+      continue;
+    }
+
+    if (char === '"' || char === '\'') {
+      let value = '';
+      let end = index + 1;
+      while (end < input.length && input[end] !== char) {
+        if (input[end] === '\\' && end + 1 < input.length) end++;
+        value += input[end];
+        end++;
+      }
+      if (end >= input.length) {
+        throw new TaskQuerySyntaxError('Unterminated string', index);
+      }
+      tokens.push({ kind: 'string', value, position: index });
+      index = end + 1;
+      continue;
+    }
+
+    const rest = input.slice(index);
+    const match = OPERATOR_PATTERN.exec(rest) || WORD_PATTERN.exec(rest);
+    if (!match) {
+      throw new TaskQuerySyntaxError(`Unexpected character "${char}"`, index);
+    }
+
+    tokens.push({
+      kind: OPERATOR_PATTERN.test(rest) ? 'operator' : 'word',
+      value: match[0],
+      position: index
+    });
+    index += match[0].length;
+  }
+
+  tokens.push({ kind: 'end', value: '', position: input.length });
+  return tokens;
+};
+
+/**
+ * Recursive descent parser over the tokens of a query
+ */
+class TaskQueryParser {
+  private index = 0;
+  private depth = 0;
+  private conditions = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  /**
+   * Parses a whole query: an optional filter, then an optional ORDER BY clause
+   */
+  parse(): { node: QueryNode | null; sortField?: string; sortOrder?: 'asc' | 'desc' } {
+    const node = this.atEnd() || this.isKeyword('order') ? null : this.parseOr();
+    let sortField: string | undefined;
+    let sortOrder: 'asc' | 'desc' | undefined;
+
+    if (this.isKeyword('order')) {
+      this.next();
+      this.expectKeyword('by');
+      const field = this.next();
+      if (field.kind !== 'word') {
+        throw new TaskQuerySyntaxError('Expected a field to order by', field.position);
+      }
+      const name = field.value.toLowerCase();
+      if (!TASK_QUERY_FIELDS[name]?.sortBy) {
+        throw new TaskQuerySyntaxError(`Cannot order by "${field.value}"`, field.position);
+      }
+      sortField = name;
+
+      if (this.isKeyword('asc') || this.isKeyword('desc')) {
+        sortOrder = this.next().value.toLowerCase() as 'asc' | 'desc';
+      }
+    }
+
+    const rest = this.peek();
+    if (rest.kind !== 'end') {
+      throw new TaskQuerySyntaxError(`Unexpected "${rest.value}"`, rest.position);
+    }
+
+    return { node, sortField, sortOrder };
+  }
+
+  private parseOr(): QueryNode {
+    const nodes = [this.parseAnd()];
+    while (this.isKeyword('or')) {
+      this.next();
+      nodes.push(this.parseAnd());
+    }
+    return nodes.length === 1 ? nodes[0] : { kind: 'or', nodes };
+  }
+
+  private parseAnd(): QueryNode {
+    const nodes = [this.parseUnary()];
+    while (this.isKeyword('and')) {
+      this.next();
+      nodes.push(this.parseUnary());
+    }
+    return nodes.length === 1 ? nodes[0] : { kind: 'and', nodes };
+  }
+
+  private parseUnary(): QueryNode {
+    const token = this.peek();
+    if (!this.isKeyword('not') && token.kind !== '(') {
+      return this.parseCondition();
+    }
+
+    if (++this.depth > MAX_NESTING) {
+      throw new TaskQuerySyntaxError(`Queries may nest at most ${MAX_NESTING} levels`, token.position);
+    }
+    this.next();
+
+    let node: QueryNode;
+    if (token.kind === '(') {
+      node = this.parseOr();
+      this.expect(')');
+    } else {
+      node = { kind: 'not', node: this.parseUnary() };
+    }
+
+    this.depth--;
+    return node;
+  }
+
+  private parseCondition(): QueryNode {
+    const fieldToken = this.next();
+    if (fieldToken.kind !== 'word') {
+      throw new TaskQuerySyntaxError('Expected a field name', fieldToken.position);
+    }
+
+    const name = fieldToken.value.toLowerCase();
+    const field = TASK_QUERY_FIELDS[name];
+    if (!field) {
+      throw new TaskQuerySyntaxError(
+        `Unknown field "${fieldToken.value}"; expected one of ${Object.keys(TASK_QUERY_FIELDS).join(', ')}`,
+        fieldToken.position
+      );
+    }
+
+    if (++this.conditions > MAX_TASK_QUERY_CONDITIONS) {
+      throw new TaskQuerySyntaxError(`Queries may hold at most ${MAX_TASK_QUERY_CONDITIONS} conditions`, fieldToken.position);
+    }
+
+    const operatorToken = this.peek();
+    let operator: TaskQueryOperator;
+    let values: QueryValue[] = [];
+
+    if (operatorToken.kind === 'operator') {
+      this.next();
+      operator = operatorToken.value as TaskQueryOperator;
+      values = [this.parseValue()];
+    } else if (this.isKeyword('in')) {
+      this.next();
+      operator = TaskQueryOperator.IN;
+      values = this.parseList();
+    } else if (this.isKeyword('not')) {
+      this.next();
+      this.expectKeyword('in');
+      operator = TaskQueryOperator.NOT_IN;
+      values = this.parseList();
+    } else if (this.isKeyword('is')) {
+      this.next();
+      const negated = this.isKeyword('not');
+      if (negated) this.next();
+      this.expectKeyword('empty');
+      operator = negated ? TaskQueryOperator.NOT_EMPTY : TaskQueryOperator.EMPTY;
+    } else {
+      throw new TaskQuerySyntaxError(`Expected an operator after "${fieldToken.value}"`, operatorToken.position);
+    }
+
+    const allowed = operator === TaskQueryOperator.EMPTY || operator === TaskQueryOperator.NOT_EMPTY
+      ? field.nullable
+      : TASK_QUERY_OPERATORS[field.type].includes(operator);
+    if (!allowed) {
+      throw new TaskQuerySyntaxError(`Operator "${operator}" is not supported for "${name}"`, operatorToken.position);
+    }
+
+    return { kind: 'condition', field: name, operator, values, position: fieldToken.position };
+  }
+
+  private parseList(): QueryValue[] {
+    this.expect('(');
+    const values = [this.parseValue()];
+    while (this.peek().kind === ',') {
+      this.next();
+      values.push(this.parseValue());
+    }
+    this.expect(')');
+    return values;
+  }
+
+  private parseValue(): QueryValue {
+    const token = this.next();
+    if (token.kind !== 'word' && token.kind !== 'string') {
+      throw new TaskQuerySyntaxError('Expected a value', token.position);
+    }
+    return { text: token.value, quoted: token.kind === 'string', position: token.position };
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.kind !== 'end') this.index++;
+    return token;
+  }
+
+  private atEnd(): boolean {
+    return this.peek().kind === 'end';
+  }
+
+  private isKeyword(keyword: string): boolean {
+    const token = this.peek();
+    return token.kind === 'word' && token.value.toLowerCase() === keyword;
+  }
+
+  private expect(kind: TokenKind): void {
+    const token = this.next();
+    if (token.kind !== kind) {
+      throw new TaskQuerySyntaxError(`Expected "${kind}"`, token.position);
+    }
+  }
+
+  private expectKeyword(keyword: string): void {
+    const token = this.next();
+    if (token.kind !== 'word' || token.value.toLowerCase() !== keyword) {
+      throw new TaskQuerySyntaxError(`Expected "${keyword.toUpperCase()}"`, token.position);
+    }
+  }
+}
+
+/**
+ * Resolves a date value to the start of its UTC day
+ *
+ * @param text - YYYY-MM-DD, `today`, or an offset from today such as +7d, -2w, +1m or -1y
+ * @param now - Current time
+ * @returns Start of the day, or null if the value is not a date
+ */
+export const parseTaskQueryDate = (text: string, now: Date): Date | null => {
+  const today = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  if (text.toLowerCase() === 'today') {
+    return today;
+  }
+
+  const relative = RELATIVE_DATE_PATTERN.exec(text);
+  if (relative) {
+    const amount = Number(relative[2]) * (relative[1] === '-' ? -1 : 1);
+    const date = new Date(today);
+    switch (relative[3].toLowerCase()) {
+      case 'd':
+        date.setUTCDate(date.getUTCDate() + amount);
+        break;
+      case 'w':
+        date.setUTCDate(date.getUTCDate() + amount * 7);
+        break;
+      case 'm':
+        date.setUTCMonth(date.getUTCMonth() + amount);
+        break;
+      default:
+        date.setUTCFullYear(date.getUTCFullYear() + amount);
+    }
+    return date;
+  }
+
+  const absolute = ABSOLUTE_DATE_PATTERN.exec(text);
+  if (absolute) {
+    const [year, month, day] = absolute.slice(1).map(Number);
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date : null;
+  }
+
+  return null;
+};
+
+/**
+ * Converts a value to the type of its field
+ */
+const toFieldValue = (
+  field: TaskQueryField,
+  value: QueryValue,
+  context: TaskQueryContext
+): string | number | Date => {
+  const fail = (expected: string): never => {
+    throw new TaskQuerySyntaxError(`Expected ${expected}, got "${value.text}"`, value.position);
+  };
+
+  switch (field.type) {
+    case TaskQueryFieldType.USER:
+      if (!value.quoted && value.text.toLowerCase() === 'me') return context.userId;
+      return isUUID(value.text) ? value.text : fail('a user ID or me');
+    case TaskQueryFieldType.ID:
+      return isUUID(value.text) ? value.text : fail('an ID');
+    case TaskQueryFieldType.PRIORITY: {
+      const priority = value.text.toUpperCase() as TaskPriority;
+      return PRIORITY_ORDER.includes(priority) ? priority : fail(`one of ${PRIORITY_ORDER.join(', ')}`);
+    }
+    case TaskQueryFieldType.KEYWORD: {
+      const key = value.text.toUpperCase();
+      return WORKFLOW_STATE_KEY_PATTERN.test(key) ? key : fail('a workflow state key');
+    }
+    case TaskQueryFieldType.DATE:
+      return parseTaskQueryDate(value.text, context.now) ?? fail('a date like 2026-01-31, today or +7d');
+    case TaskQueryFieldType.NUMBER: {
+      const number = Number(value.text);
+      return value.text !== '' && Number.isFinite(number) ? number : fail('a number');
+    }
+    default:
+      return value.text;
+  }
+};
+
+/**
+ * Compiles a condition to Prisma conditions on the task
+ */
+const compileCondition = (
+  node: Extract<QueryNode, { kind: 'condition' }>,
+  context: TaskQueryContext
+): Prisma.TaskWhereInput => {
+  const field = TASK_QUERY_FIELDS[node.field];
+  const [column] = field.columns;
+  const on = (condition: unknown): Prisma.TaskWhereInput => ({ [column]: condition });
+
+  if (node.operator === TaskQueryOperator.EMPTY) return on(null);
+  if (node.operator === TaskQueryOperator.NOT_EMPTY) return { NOT: on(null) };
+
+  const values = node.values.map(value => toFieldValue(field, value, context));
+  const [value] = values;
+
+  switch (field.type) {
+    case TaskQueryFieldType.TEXT: {
+      const filter = node.operator === TaskQueryOperator.EQ || node.operator === TaskQueryOperator.NE
+        ? { equals: value, mode: 'insensitive' }
+        : { contains: value, mode: 'insensitive' };
+      const match: Prisma.TaskWhereInput = field.columns.length === 1
+        ? on(filter)
+        : { OR: field.columns.map(name => ({ [name]: filter })) };
+      return node.operator === TaskQueryOperator.NE || node.operator === TaskQueryOperator.NOT_CONTAINS
+        ? { NOT: match }
+        : match;
+    }
+
+    case TaskQueryFieldType.DATE: {
+      // Days are ranges from their start up to the start of the next day
+      const start = value as Date;
+      const end = new Date(start.getTime() + DAY_MS);
+      switch (node.operator) {
+        case TaskQueryOperator.EQ:
+          return on({ gte: start, lt: end });
+        case TaskQueryOperator.NE:
+          return { NOT: on({ gte: start, lt: end }) };
+        case TaskQueryOperator.LT:
+          return on({ lt: start });
+        case TaskQueryOperator.LTE:
+          return on({ lt: end });
+        case TaskQueryOperator.GT:
+          return on({ gte: end });
+        default:
+          return on({ gte: start });
+      }
+    }
+
+    case TaskQueryFieldType.NUMBER: {
+      const filters: Partial<Record<TaskQueryOperator, string>> = {
+        [TaskQueryOperator.EQ]: 'equals',
+        [TaskQueryOperator.NE]: 'not',
+        [TaskQueryOperator.LT]: 'lt',
+        [TaskQueryOperator.LTE]: 'lte',
+        [TaskQueryOperator.GT]: 'gt',
+        [TaskQueryOperator.GTE]: 'gte'
+      };
+      return on({ [filters[node.operator] as string]: value });
+    }
+
+    case TaskQueryFieldType.PRIORITY: {
+      // Compared by rank, as the database orders the enum by declaration
+      const rank = PRIORITY_ORDER.indexOf(value as TaskPriority);
+      const matching = PRIORITY_ORDER.filter((priority, index) => {
+        switch (node.operator) {
+          case TaskQueryOperator.EQ: return index === rank;
+          case TaskQueryOperator.NE: return index !== rank;
+          case TaskQueryOperator.LT: return index < rank;
+          case TaskQueryOperator.LTE: return index <= rank;
+          case TaskQueryOperator.GT: return index > rank;
+          case TaskQueryOperator.GTE: return index >= rank;
+          case TaskQueryOperator.IN: return values.includes(priority);
+          default: return !values.includes(priority);
+        }
+      });
+      return on({ in: matching });
+    }
+
+    case TaskQueryFieldType.TAG:
+      switch (node.operator) {
+        case TaskQueryOperator.EQ:
+          return on({ has: value });
+        case TaskQueryOperator.NE:
+          return { NOT: on({ has: value }) };
+        case TaskQueryOperator.IN:
+          return on({ hasSome: values });
+        default:
+          return { NOT: on({ hasSome: values }) };
+      }
+
+    default:
+      switch (node.operator) {
+        case TaskQueryOperator.EQ:
+          return on(value);
+        case TaskQueryOperator.NE:
+          return on({ not: value });
+        case TaskQueryOperator.IN:
+          return on({ in: values });
+        default:
+          return on({ notIn: values });
+      }
+  }
+};
+
+/**
+ * Compiles a syntax tree to Prisma conditions
+ */
+const compileNode = (node: QueryNode, context: TaskQueryContext): Prisma.TaskWhereInput => {
+  switch (node.kind) {
+    case 'and':
+      return { AND: node.nodes.map(child => compileNode(child, context)) };
+    case 'or':
+      return { OR: node.nodes.map(child => compileNode(child, context)) };
+    case 'not':
+      return { NOT: compileNode(node.node, context) };
+    default:
+      return compileCondition(node, context);
+  }
+};
+
+/**
+ * Compiles a task query into Prisma conditions and an optional ordering
+ *
+ * @param query - Query text
+ * @param context - User and time the query is resolved against
+ * @returns Conditions to combine with the other task filters
+ * @throws TaskQuerySyntaxError naming the position of the first error
+ */
+export const compileTaskQuery = (query: string, context: TaskQueryContext): CompiledTaskQuery => {
+  if (query.length > MAX_TASK_QUERY_LENGTH) {
+    throw new TaskQuerySyntaxError(`Queries must not exceed ${MAX_TASK_QUERY_LENGTH} characters`, MAX_TASK_QUERY_LENGTH);
+  }
+
+  const { node, sortField, sortOrder } = new TaskQueryParser(tokenize(query)).parse();
+
+  return {
+    where: node ? compileNode(node, context) : {},
+    ...(sortField && {
+      sortBy: TASK_QUERY_FIELDS[sortField].sortBy,
+      sortOrder: sortOrder ?? 'asc'
+    })
+  };
+};
@@ -0,0 +1,164 @@
+/**
+ * @fileoverview Signing, retry scheduling and URL checks for outbound webhooks
+ * @version 1.0.0
+ * @module utils/webhook
+ */
+
+// Internal imports
+import { decrypt, encrypt, generateHmac, generateToken } from './crypto.util';
+import { WebhookEventType } from '../types/webhook.types';
+
+/**
+ * Queue holding the next attempt of each delivery
+ */
+export const WEBHOOK_QUEUE = 'webhook.deliveries';
+
+/**
+ * Queue collecting deliveries that failed every attempt
+ */
+export const WEBHOOK_DEAD_LETTER_QUEUE = 'webhook.deliveries.dead';
+
+/**
+ * Attempts of a delivery before it is given up and dead-lettered
+ */
+export const MAX_WEBHOOK_ATTEMPTS = 6;
+
+/**
+ * Delay before the first retry; each further retry waits four times as long
+ */
+export const WEBHOOK_RETRY_BASE_DELAY_MS = 30 * 1000;
+
+/**
+ * Time a receiver has to answer an attempt
+ */
+export const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Characters of a response body kept in the delivery log
+ */
+export const MAX_WEBHOOK_RESPONSE_LENGTH = 1000;
+
+const SECRET_PREFIX = 'whsec_';
+const SECRET_LENGTH = 48;
+const SIGNATURE_PREFIX = 'sha256=';
+const USER_AGENT = 'TaskManagementSystem-Webhooks/1.0';
+
+/**
+ * Delay before the attempt following a failed one: 30s, 2m, 8m, 32m, ~2h
+ * @param attempt - Number of the failed attempt, from 1
+ * @returns Delay in milliseconds
+ */
+export const getWebhookRetryDelay = (attempt: number): number =>
+  WEBHOOK_RETRY_BASE_DELAY_MS * Math.pow(4, Math.max(attempt, 1) - 1);
+
+/**
+ * Queue a delivery waits in after a failed attempt. Each retry queue holds messages for
+ * its delay and then dead-letters them back into {@link WEBHOOK_QUEUE}.
+ * @param attempt - Number of the failed attempt, from 1
+ * @returns Queue name
+ */
+export const getWebhookRetryQueue = (attempt: number): string =>
+  `${WEBHOOK_QUEUE}.retry.${Math.max(attempt, 1)}`;
+
+/**
+ * Generates the signing secret of a webhook. Secrets are shown once and stored only
+ * encrypted, see {@link encryptWebhookSecret}.
+ * @returns Secret shared with the receiver
+ */
+export const generateWebhookSecret = async (): Promise<string> =>
+  `${SECRET_PREFIX}${await generateToken(SECRET_LENGTH)}`;
+
+/**
+ * Encrypts a webhook secret for storage
+ * @param secret - Secret shared with the receiver
+ * @param key - 256-bit storage key
+ * @returns Stored form `<iv>:<tag>:<ciphertext>`
+ */
+export const encryptWebhookSecret = async (secret: string, key: Buffer): Promise<string> => {
+  const { encrypted, iv, tag } = await encrypt(secret, key);
+  return [iv, tag, encrypted].join(':');
+};
+
+/**
+ * Recovers a webhook secret from its stored form
+ * @param stored - Value written by {@link encryptWebhookSecret}
+ * @param key - 256-bit storage key
+ * @returns Secret shared with the receiver
+ * @throws Error if the value was not encrypted with the key
+ */
+export const decryptWebhookSecret = async (stored: string, key: Buffer): Promise<string> => {
+  const [iv, tag, encrypted] = stored.split(':');
+  return decrypt(encrypted, iv, tag, key);
+};
+
+/**
+ * Signs a request body. Receivers recompute the HMAC-SHA256 of `<timestamp>.<body>`
+ * with their secret and compare it to the signature header.
+ * @param secret - Webhook secret
+ * @param timestamp - Unix time of the attempt in seconds
+ * @param body - Request body
+ * @returns Signature header value
+ */
+export const signWebhookPayload = (secret: string, timestamp: number, body: string): string =>
+  `${SIGNATURE_PREFIX}${generateHmac(`${timestamp}.${body}`, secret)}`;
+
+/**
+ * Headers of an attempt
+ * @param params - Delivery, event and signing data
+ * @returns Request headers
+ */
+export const buildWebhookHeaders = (params: {
+  webhookId: string;
+  deliveryId: string;
+  eventType: WebhookEventType;
+  secret: string;
+  timestamp: number;
+  body: string;
+}): Record<string, string> => ({
+  'Content-Type': 'application/json',
+  'User-Agent': USER_AGENT,
+  'X-Webhook-Id': params.webhookId,
+  'X-Webhook-Delivery': params.deliveryId,
+  'X-Webhook-Event': params.eventType,
+  'X-Webhook-Timestamp': String(params.timestamp),
+  'X-Webhook-Signature': signWebhookPayload(params.secret, params.timestamp, params.body)
+});
+
+/**
+ * Whether a receiver accepted a delivery
+ * @param status - Response status
+ */
+export const isSuccessfulStatus = (status: number): boolean => status >= 200 && status < 300;
+
+/**
+ * Checks that a URL can receive webhooks: absolute http(s) without credentials
+ * @param url - Receiver URL
+ * @returns Error message, or null when the URL is valid
+ */
+export const validateWebhookUrl = (url: string): string | null => {
+  let parsed: URL;
+
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'URL must be absolute';
+  }
+
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    return 'URL must use http or https';
+  }
+
+  if (parsed.username || parsed.password) {
+    return 'URL must not contain credentials';
+  }
+
+  return null;
+};
+
+/**
+ * Shortens a response body for the delivery log
+ * @param body - Response body
+ * @returns Body of at most {@link MAX_WEBHOOK_RESPONSE_LENGTH} characters
+ */
+export const truncateResponseBody = (body: string): string =>
+  body.length > MAX_WEBHOOK_RESPONSE_LENGTH ? body.slice(0, MAX_WEBHOOK_RESPONSE_LENGTH) : body;
@@ -0,0 +1,211 @@
+/**
+ * @fileoverview Default workflow and validation of per-project workflow definitions
+ * @version 1.0.0
+ * @module utils/workflow
+ *
+ * A task's status holds the key of a state in its project's workflow. Projects that have
+ * not defined a workflow use the default one, which keeps the original fixed statuses and
+ * allows every move between them.
+ */
+
+// External imports
+import { UUID } from 'crypto';
+
+// Internal imports
+import { IUpdateWorkflowDTO, IWorkflow, IWorkflowState } from '../interfaces/workflow.interface';
+import { TaskStatus } from '../types/task.types';
+import {
+  WipLimitMode,
+  WorkflowCategory,
+  WorkflowStateDefinition,
+  WorkflowTransitionDefinition
+} from '../types/workflow.types';
+
+/**
+ * Most states a workflow may define
+ */
+const MAX_STATES = 20;
+
+/**
+ * Highest work-in-progress limit a state may set
+ */
+const MAX_WIP_LIMIT = 1000;
+
+/**
+ * Error messages for workflow definitions
+ */
+const WORKFLOW_ERRORS = {
+  NO_STATES: 'Workflow must define at least one state',
+  TOO_MANY_STATES: `Workflow must not define more than ${MAX_STATES} states`,
+  INVALID_KEY: 'State keys must start with an uppercase letter and contain only uppercase letters, digits and underscores',
+  DUPLICATE_STATE: 'State keys must be distinct',
+  MISSING_NAME: 'Every state needs a name',
+  INVALID_WIP_LIMIT: `WIP limits must be whole numbers between 1 and ${MAX_WIP_LIMIT}`,
+  INITIAL_NOT_TODO: 'The first state must belong to the TODO category',
+  NO_DONE_STATE: 'Workflow must define at least one DONE state',
+  UNKNOWN_STATE: 'Transition refers to an unknown state',
+  SELF_TRANSITION: 'Transitions must move between different states',
+  DUPLICATE_TRANSITION: 'Transitions must be distinct'
+} as const;
+
+/**
+ * State keys: uppercase letter first, then uppercase letters, digits or underscores
+ */
+export const WORKFLOW_STATE_KEY_PATTERN = /^[A-Z][A-Z0-9_]{0,49}$/;
+
+/**
+ * States of the default workflow, matching the original fixed statuses
+ */
+export const DEFAULT_WORKFLOW_STATES: readonly IWorkflowState[] = [
+  { key: TaskStatus.TODO, name: 'To Do', category: WorkflowCategory.TODO, position: 0 },
+  { key: TaskStatus.IN_PROGRESS, name: 'In Progress', category: WorkflowCategory.DOING, position: 1 },
+  { key: TaskStatus.REVIEW, name: 'Review', category: WorkflowCategory.DOING, position: 2 },
+  { key: TaskStatus.DONE, name: 'Done', category: WorkflowCategory.DONE, position: 3 },
+  { key: TaskStatus.BLOCKED, name: 'Blocked', category: WorkflowCategory.TODO, position: 4 }
+];
+
+/**
+ * Builds the default workflow of a project; every state can move to every other state
+ *
+ * @param projectId - Project identifier
+ * @returns Default workflow
+ */
+export const buildDefaultWorkflow = (projectId: UUID): IWorkflow => ({
+  projectId,
+  states: DEFAULT_WORKFLOW_STATES.map(state => ({ ...state })),
+  transitions: DEFAULT_WORKFLOW_STATES.flatMap(from =>
+    DEFAULT_WORKFLOW_STATES
+      .filter(to => to.key !== from.key)
+      .map(to => ({ from: from.key, to: to.key }))
+  ),
+  isDefault: true
+});
+
+/**
+ * Resolves the workflow of a project from its stored states and transitions
+ *
+ * @param projectId - Project identifier
+ * @param states - Stored states, empty when the project has not defined a workflow
+ * @param transitions - Stored transitions
+ * @returns Stored workflow, or the default workflow
+ */
+export const resolveWorkflow = (
+  projectId: UUID,
+  states: IWorkflowState[],
+  transitions: WorkflowTransitionDefinition[]
+): IWorkflow => {
+  if (states.length === 0) {
+    return buildDefaultWorkflow(projectId);
+  }
+
+  return {
+    projectId,
+    states: [...states].sort((a, b) => a.position - b.position),
+    transitions,
+    isDefault: false
+  };
+};
+
+/**
+ * Validates a workflow definition
+ *
+ * @param data - States and transitions to validate
+ * @throws Error describing the first problem found
+ */
+export const validateWorkflowDefinition = (data: IUpdateWorkflowDTO): void => {
+  const { states, transitions } = data;
+
+  if (states.length === 0) {
+    throw new Error(WORKFLOW_ERRORS.NO_STATES);
+  }
+
+  if (states.length > MAX_STATES) {
+    throw new Error(WORKFLOW_ERRORS.TOO_MANY_STATES);
+  }
+
+  const keys = new Set<string>();
+  for (const state of states) {
+    if (!WORKFLOW_STATE_KEY_PATTERN.test(state.key)) {
+      throw new Error(`${WORKFLOW_ERRORS.INVALID_KEY}: ${state.key}`);
+    }
+    if (keys.has(state.key)) {
+      throw new Error(`${WORKFLOW_ERRORS.DUPLICATE_STATE}: ${state.key}`);
+    }
+    if (!state.name?.trim()) {
+      throw new Error(`${WORKFLOW_ERRORS.MISSING_NAME}: ${state.key}`);
+    }
+    if (state.wipLimit != null &&
+        (!Number.isInteger(state.wipLimit) || state.wipLimit < 1 || state.wipLimit > MAX_WIP_LIMIT)) {
+      throw new Error(`${WORKFLOW_ERRORS.INVALID_WIP_LIMIT}: ${state.key}`);
+    }
+    keys.add(state.key);
+  }
+
+  // New tasks start in the first state, so it must not count as started or finished
+  if (states[0].category !== WorkflowCategory.TODO) {
+    throw new Error(WORKFLOW_ERRORS.INITIAL_NOT_TODO);
+  }
+
+  if (!states.some(state => state.category === WorkflowCategory.DONE)) {
+    throw new Error(WORKFLOW_ERRORS.NO_DONE_STATE);
+  }
+
+  const moves = new Set<string>();
+  for (const transition of transitions) {
+    for (const key of [transition.from, transition.to]) {
+      if (!keys.has(key)) {
+        throw new Error(`${WORKFLOW_ERRORS.UNKNOWN_STATE}: ${key}`);
+      }
+    }
+    if (transition.from === transition.to) {
+      throw new Error(`${WORKFLOW_ERRORS.SELF_TRANSITION}: ${transition.from}`);
+    }
+
+    const move = `${transition.from}->${transition.to}`;
+    if (moves.has(move)) {
+      throw new Error(`${WORKFLOW_ERRORS.DUPLICATE_TRANSITION}: ${move}`);
+    }
+    moves.add(move);
+  }
+};
+
+/**
+ * Finds a state of a workflow by key
+ *
+ * @param workflow - Project workflow
+ * @param key - State key
+ * @returns State, or undefined when the workflow has no such state
+ */
+export const findWorkflowState = (workflow: IWorkflow, key: string): IWorkflowState | undefined =>
+  workflow.states.find(state => state.key === key);
+
+/**
+ * Checks whether a task may move between two states; staying in a state is always allowed
+ *
+ * @param workflow - Project workflow
+ * @param from - Current state key
+ * @param to - Requested state key
+ * @returns Whether the move is allowed
+ */
+export const isTransitionAllowed = (workflow: IWorkflow, from: string, to: string): boolean =>
+  from === to || workflow.transitions.some(transition => transition.from === from && transition.to === to);
+
+/**
+ * Returns the limit a move into the state must respect, or null when moves are never
+ * rejected because the state has no limit or only a soft one
+ *
+ * @param state - Workflow state
+ * @returns Hard WIP limit of the state
+ */
+export const getHardWipLimit = (state: WorkflowStateDefinition): number | null =>
+  state.wipLimit != null && state.wipLimitMode === WipLimitMode.HARD ? state.wipLimit : null;
+
+/**
+ * Returns the category of a default workflow state, used for projects without a stored
+ * workflow; unknown keys count as not started
+ *
+ * @param key - State key
+ * @returns Category of the state
+ */
+export const getDefaultStateCategory = (key: string): WorkflowCategory =>
+  DEFAULT_WORKFLOW_STATES.find(state => state.key === key)?.category ?? WorkflowCategory.TODO;
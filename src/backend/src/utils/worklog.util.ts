@@ -0,0 +1,144 @@
+/**
+ * @fileoverview Worklog duration rules and timesheet aggregation
+ * @version 1.0.0
+ * @module utils/worklog
+ *
+ * Timesheets work on UTC calendar days and weeks starting on Monday; an entry counts
+ * towards the day it started, even when it runs past midnight.
+ */
+
+// Internal imports
+import { Timesheet, TimesheetRow } from '../types/worklog.types';
+
+/**
+ * Longest single worklog entry, in seconds
+ */
+export const MAX_WORKLOG_SECONDS = 24 * 60 * 60;
+
+/**
+ * Longest timesheet range, in days
+ */
+export const MAX_TIMESHEET_DAYS = 31;
+
+/**
+ * Milliseconds in a day
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Logged time as needed to build a timesheet
+ */
+export interface TimesheetEntry {
+  userId: string;
+  taskId: string;
+  taskTitle: string;
+  projectId: string;
+  startedAt: Date;
+  durationSeconds: number;
+}
+
+/**
+ * Formats the UTC calendar day of a date as YYYY-MM-DD
+ * @private
+ */
+const toDay = (date: Date): string => date.toISOString().slice(0, 10);
+
+/**
+ * Returns the Monday starting the UTC week of a date
+ * @param date - Any moment of the week
+ * @returns Midnight UTC of that Monday
+ */
+export const startOfWeek = (date: Date): Date => {
+  const day = new Date(`${toDay(date)}T00:00:00.000Z`);
+  const sinceMonday = (day.getUTCDay() + 6) % 7;
+  return new Date(day.getTime() - sinceMonday * DAY_MS);
+};
+
+/**
+ * Resolves the days a timesheet covers, defaulting to the current week
+ *
+ * @param from - First day, if given
+ * @param to - Last day, if given; defaults to six days after the first
+ * @param now - Current time
+ * @returns First and last day at midnight UTC, or a validation message
+ */
+export const resolveTimesheetRange = (
+  from: Date | undefined,
+  to: Date | undefined,
+  now: Date = new Date()
+): { from: Date; to: Date } | string => {
+  const first = new Date(`${toDay(from ?? startOfWeek(now))}T00:00:00.000Z`);
+  const last = new Date(`${toDay(to ?? new Date(first.getTime() + 6 * DAY_MS))}T00:00:00.000Z`);
+
+  if (last < first) {
+    return 'The timesheet must end on or after its first day';
+  }
+
+  if ((last.getTime() - first.getTime()) / DAY_MS + 1 > MAX_TIMESHEET_DAYS) {
+    return `A timesheet can cover at most ${MAX_TIMESHEET_DAYS} days`;
+  }
+
+  return { from: first, to: last };
+};
+
+/**
+ * Computes the duration to record for a timer, at least a second and at most
+ * MAX_WORKLOG_SECONDS for timers left running
+ *
+ * @param startedAt - When the timer started
+ * @param stoppedAt - When it stopped
+ * @returns Duration in seconds
+ */
+export const timerDuration = (startedAt: Date, stoppedAt: Date): number => {
+  const seconds = Math.round((stoppedAt.getTime() - startedAt.getTime()) / 1000);
+  return Math.min(Math.max(seconds, 1), MAX_WORKLOG_SECONDS);
+};
+
+/**
+ * Totals logged time per user, task and day
+ *
+ * @param entries - Entries started within the range
+ * @param from - First day at midnight UTC
+ * @param to - Last day at midnight UTC
+ * @returns Timesheet
+ */
+export const buildTimesheet = (entries: TimesheetEntry[], from: Date, to: Date): Timesheet => {
+  const days: string[] = [];
+  for (let time = from.getTime(); time <= to.getTime(); time += DAY_MS) {
+    days.push(toDay(new Date(time)));
+  }
+
+  const rows = new Map<string, TimesheetRow>();
+  const dailyTotals = days.map(() => 0);
+
+  entries.forEach(entry => {
+    const index = days.indexOf(toDay(entry.startedAt));
+    if (index === -1) return;
+
+    const key = `${entry.userId}:${entry.taskId}`;
+    const row = rows.get(key) ?? {
+      userId: entry.userId,
+      taskId: entry.taskId,
+      taskTitle: entry.taskTitle,
+      projectId: entry.projectId,
+      seconds: days.map(() => 0),
+      totalSeconds: 0
+    };
+
+    row.seconds[index] += entry.durationSeconds;
+    row.totalSeconds += entry.durationSeconds;
+    dailyTotals[index] += entry.durationSeconds;
+    rows.set(key, row);
+  });
+
+  return {
+    from: days[0],
+    to: days[days.length - 1],
+    days,
+    rows: [...rows.values()].sort((a, b) =>
+      a.userId.localeCompare(b.userId) || a.taskTitle.localeCompare(b.taskTitle)
+    ),
+    dailyTotals,
+    totalSeconds: dailyTotals.reduce((sum, seconds) => sum + seconds, 0)
+  };
+};
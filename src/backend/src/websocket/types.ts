@@ -11,6 +11,9 @@ import { UUID } from 'crypto';
 // Internal imports
 import { Task, TaskStatus, TaskPriority } from '../types/task.types';
 import { Project, ProjectStatus } from '../types/project.types';
+import { MilestoneStatus } from '../types/milestone.types';
+import { TaskImportStatus } from '../types/import.types';
+import { NotificationType } from '../types/notification.types';
 
 /**
  * Enum defining all possible WebSocket event types
@@ -20,6 +23,7 @@ export enum WebSocketEventType {
   TASK_UPDATE = 'TASK_UPDATE',
   PROJECT_UPDATE = 'PROJECT_UPDATE',
   COMMENT_NEW = 'COMMENT_NEW',
+  NOTIFICATION_NEW = 'NOTIFICATION_NEW',
   USER_STATUS = 'USER_STATUS',
   ERROR = 'ERROR'
 }
@@ -59,6 +63,33 @@ export interface ProjectUpdatePayload {
   completionPercentage: number;
 }
 
+/**
+ * Interface for milestone status changes, sent as PROJECT_UPDATE messages
+ */
+export interface MilestoneStatusPayload {
+  projectId: UUID;
+  milestoneId: UUID;
+  name: string;
+  dueDate: Date;
+  status: MilestoneStatus;
+  previousStatus: MilestoneStatus;
+  changedAt: Date;
+}
+
+/**
+ * Interface for the progress of a task import, sent as PROJECT_UPDATE messages
+ */
+export interface ImportProgressPayload {
+  projectId: UUID;
+  importId: UUID;
+  status: TaskImportStatus;
+  totalRows: number;
+  processedRows: number;
+  createdCount: number;
+  failedCount: number;
+  startedBy: UUID;
+}
+
 /**
  * Interface for new comment WebSocket messages
  * Supports @mentions and attachments
@@ -72,6 +103,23 @@ export interface CommentPayload {
   mentions: UUID[];
   attachments: string[];
   isEdited: boolean;
+  parentId?: UUID | null; // Set when the comment is a threaded reply
+}
+
+/**
+ * Interface for new notification WebSocket messages, sent only to the recipient
+ */
+export interface NotificationPayload {
+  notificationId: UUID;
+  type: NotificationType;
+  title: string;
+  message: string;
+  taskId: UUID | null;
+  projectId: UUID | null;
+  commentId: UUID | null;
+  actorId: UUID | null;
+  createdAt: Date;
+  unreadCount: number; // Recipient's unread notifications, including this one
 }
 
 /**
@@ -105,7 +153,10 @@ export interface WebSocketError {
 export type WebSocketPayload =
   | TaskUpdatePayload
   | ProjectUpdatePayload
+  | MilestoneStatusPayload
+  | ImportProgressPayload
   | CommentPayload
+  | NotificationPayload
   | UserStatusPayload
   | WebSocketError;
 
@@ -140,7 +191,22 @@ export function isTaskUpdatePayload(payload: WebSocketPayload): payload is TaskU
  * Type guard to check if a payload is a ProjectUpdatePayload
  */
 export function isProjectUpdatePayload(payload: WebSocketPayload): payload is ProjectUpdatePayload {
-  return 'projectId' in payload && 'status' in payload;
+  return 'projectId' in payload && 'status' in payload
+    && !('milestoneId' in payload) && !('importId' in payload);
+}
+
+/**
+ * Type guard to check if a payload is a MilestoneStatusPayload
+ */
+export function isMilestoneStatusPayload(payload: WebSocketPayload): payload is MilestoneStatusPayload {
+  return 'milestoneId' in payload && 'previousStatus' in payload;
+}
+
+/**
+ * Type guard to check if a payload is an ImportProgressPayload
+ */
+export function isImportProgressPayload(payload: WebSocketPayload): payload is ImportProgressPayload {
+  return 'importId' in payload && 'processedRows' in payload;
 }
 
 /**
@@ -150,6 +216,13 @@ export function isCommentPayload(payload: WebSocketPayload): payload is CommentP
   return 'commentId' in payload && 'content' in payload;
 }
 
+/**
+ * Type guard to check if a payload is a NotificationPayload
+ */
+export function isNotificationPayload(payload: WebSocketPayload): payload is NotificationPayload {
+  return 'notificationId' in payload && 'unreadCount' in payload;
+}
+
 /**
  * Type guard to check if a payload is a UserStatusPayload
  */
@@ -21,6 +21,9 @@ let mockProjectRepository: jest.Mocked<any>;
 let mockCacheService: jest.Mocked<any>;
 let mockWebSocketService: jest.Mocked<any>;
 let mockLogger: jest.Mocked<any>;
+let mockTaskRepository: jest.Mocked<any>;
+let mockMembershipRepository: jest.Mocked<any>;
+let mockWebhookService: jest.Mocked<any>;
 
 /**
  * Generates mock project data for testing
@@ -61,6 +64,22 @@ beforeEach(() => {
     broadcast: jest.fn()
   };
 
+  // Mock task repository used for completion rollups
+  mockTaskRepository = {
+    findTopLevelByProject: jest.fn().mockResolvedValue([]),
+    findProgressTree: jest.fn().mockResolvedValue({ tasks: [], checklists: new Map() })
+  };
+
+  // Mock membership repository used for project access checks
+  mockMembershipRepository = {
+    findMembership: jest.fn().mockResolvedValue(null)
+  };
+
+  // Mock webhook service receiving project events
+  mockWebhookService = {
+    dispatchEvent: jest.fn().mockResolvedValue(undefined)
+  };
+
   // Mock logger
   mockLogger = {
     debug: jest.fn(),
@@ -73,7 +92,10 @@ beforeEach(() => {
     mockProjectRepository,
     mockCacheService,
     mockWebSocketService,
-    mockLogger
+    mockLogger,
+    mockTaskRepository,
+    mockMembershipRepository,
+    mockWebhookService
   );
 });
 
@@ -0,0 +1,131 @@
+/**
+ * @fileoverview Unit tests for application startup, permission wiring and shutdown of background services
+ * @version 1.0.0
+ */
+
+// External imports - with versions
+import { describe, beforeEach, afterEach, it, expect, jest } from '@jest/globals'; // v29.x
+import https from 'https';
+import fs from 'fs';
+
+// Infrastructure the application reaches during startup
+const mockContainerGet = jest.fn();
+jest.mock('../../src/routes', () => ({
+  __esModule: true,
+  default: (req: any, res: any, next: any) => next()
+}));
+jest.mock('../../src/websocket', () => ({
+  WebSocketManager: jest.fn().mockImplementation(() => ({
+    initialize: jest.fn(async () => undefined),
+    shutdown: jest.fn(async () => undefined)
+  })),
+  container: { get: (identifier: symbol) => mockContainerGet(identifier) }
+}));
+jest.mock('../../src/config/types', () => ({
+  TYPES: {
+    MilestoneService: Symbol.for('MilestoneService'),
+    NotificationService: Symbol.for('NotificationService'),
+    PermissionService: Symbol.for('PermissionService'),
+    QueueService: Symbol.for('QueueService'),
+    RecurrenceService: Symbol.for('RecurrenceService'),
+    WebhookService: Symbol.for('WebhookService')
+  }
+}), { virtual: true });
+jest.mock('../../src/utils/logger.util', () => ({
+  enhancedLogger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+jest.mock('../../src/utils/error.util', () => ({ createError: jest.fn() }));
+jest.mock('../../src/middleware/auth.middleware', () => ({ registerPermissionResolver: jest.fn() }));
+
+// Internal imports
+import { App, BackgroundServices } from '../../src/app';
+import { registerPermissionResolver } from '../../src/middleware/auth.middleware';
+import { PermissionService } from '../../src/services/permission.service';
+import { Permission } from '../../src/types/permission.types';
+import { UserRole } from '../../src/types/user.types';
+
+describe('App', () => {
+  let backgroundServices: { [K in keyof BackgroundServices]: any };
+  let permissionService: PermissionService;
+  let mockServer: any;
+
+  beforeEach(() => {
+    backgroundServices = {
+      recurrenceService: { start: jest.fn(), stop: jest.fn() },
+      milestoneService: { start: jest.fn(), stop: jest.fn() },
+      notificationService: { start: jest.fn(), stop: jest.fn() },
+      queueService: { connect: jest.fn(async () => undefined), disconnect: jest.fn(async () => undefined) },
+      webhookService: { start: jest.fn(async () => undefined) }
+    };
+
+    permissionService = {
+      getPermissionsForRole: jest.fn(async () => [Permission.TASK_READ])
+    } as unknown as PermissionService;
+
+    mockServer = {
+      listen: jest.fn((port: number, callback: () => void) => callback()),
+      close: jest.fn((callback: () => void) => callback())
+    };
+
+    jest.spyOn(fs, 'readFileSync').mockReturnValue('certificate' as any);
+    jest.spyOn(https, 'createServer').mockReturnValue(mockServer);
+    jest.spyOn(process, 'on').mockReturnValue(process);
+    jest.spyOn(process, 'exit').mockImplementation((() => undefined) as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should resolve background services from the container by default', () => {
+    mockContainerGet.mockImplementation(() => ({ start: jest.fn(), stop: jest.fn() }));
+
+    new App();
+
+    expect(mockContainerGet).toHaveBeenCalledWith(Symbol.for('RecurrenceService'));
+    expect(mockContainerGet).toHaveBeenCalledWith(Symbol.for('MilestoneService'));
+    expect(mockContainerGet).toHaveBeenCalledWith(Symbol.for('QueueService'));
+    expect(mockContainerGet).toHaveBeenCalledWith(Symbol.for('WebhookService'));
+    expect(mockContainerGet).toHaveBeenCalledWith(Symbol.for('NotificationService'));
+    expect(mockContainerGet).toHaveBeenCalledWith(Symbol.for('PermissionService'));
+  });
+
+  it('should let route guards resolve role permissions through the permission service', async () => {
+    const app = new App(backgroundServices as BackgroundServices, permissionService);
+
+    await app.initialize();
+
+    expect(registerPermissionResolver).toHaveBeenCalledTimes(1);
+    const resolver = (registerPermissionResolver as jest.Mock).mock.calls[0][0] as
+      (role: UserRole) => Promise<Permission[]>;
+    await expect(resolver(UserRole.GUEST)).resolves.toEqual([Permission.TASK_READ]);
+    expect(permissionService.getPermissionsForRole).toHaveBeenCalledWith(UserRole.GUEST);
+  });
+
+  it('should start background services once the server is listening', async () => {
+    const app = new App(backgroundServices as BackgroundServices, permissionService);
+
+    await app.initialize();
+
+    expect(mockServer.listen).toHaveBeenCalled();
+    expect(backgroundServices.recurrenceService.start).toHaveBeenCalledTimes(1);
+    expect(backgroundServices.milestoneService.start).toHaveBeenCalledTimes(1);
+    expect(backgroundServices.notificationService.start).toHaveBeenCalledTimes(1);
+    expect(backgroundServices.queueService.connect).toHaveBeenCalledTimes(1);
+    expect(backgroundServices.webhookService.start).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop background services on shutdown', async () => {
+    const app = new App(backgroundServices as BackgroundServices, permissionService);
+    await app.initialize();
+
+    await app.shutdown();
+
+    expect(backgroundServices.recurrenceService.stop).toHaveBeenCalledTimes(1);
+    expect(backgroundServices.milestoneService.stop).toHaveBeenCalledTimes(1);
+    expect(backgroundServices.notificationService.stop).toHaveBeenCalledTimes(1);
+    expect(backgroundServices.queueService.disconnect).toHaveBeenCalledTimes(1);
+    expect(mockServer.close).toHaveBeenCalled();
+    expect(process.exit).toHaveBeenCalledWith(0);
+  });
+});
@@ -0,0 +1,340 @@
+/**
+ * @fileoverview Unit tests for AttachmentService
+ * @version 1.0.0
+ */
+
+// External imports - with versions
+import { describe, beforeEach, afterEach, it, expect, jest } from '@jest/globals'; // v29.x
+import { v4 as uuidv4 } from 'uuid'; // v9.x
+import { Readable } from 'stream';
+
+// Internal imports
+import { AttachmentService } from '../../../src/services/attachment.service';
+import { AttachmentRepository } from '../../../src/repositories/attachment.repository';
+import { TaskRepository } from '../../../src/repositories/task.repository';
+import { MembershipService } from '../../../src/services/membership.service';
+import { ITaskContext } from '../../../src/interfaces/task.interface';
+import { UserRole } from '../../../src/types/user.types';
+import { ProjectRole } from '../../../src/types/project.types';
+import { hasProjectRole } from '../../../src/utils/membership.util';
+import { AppError } from '../../../src/utils/error.util';
+import { StatusCode } from '../../../src/constants/status-codes';
+import { ErrorCode } from '../../../src/constants/error-codes';
+
+describe('AttachmentService', () => {
+  // Mock dependencies
+  let mockAttachmentRepository: jest.Mocked<AttachmentRepository>;
+  let mockTaskRepository: jest.Mocked<TaskRepository>;
+  let mockMembershipService: jest.Mocked<MembershipService>;
+  let memberRole: ProjectRole | null;
+  let mockLogger: any;
+  let mockMetricsClient: any;
+  let attachmentService: AttachmentService;
+
+  // Test data
+  const testUserId = uuidv4();
+  const otherUserId = uuidv4();
+  const testTaskId = uuidv4();
+  const testProjectId = uuidv4();
+  const testAttachmentId = uuidv4();
+
+  const buildContext = (overrides: Partial<ITaskContext> = {}): ITaskContext => ({
+    userId: testUserId,
+    userRole: UserRole.TEAM_MEMBER,
+    correlationId: 'test-correlation-id',
+    requestId: 'test-request-id',
+    includeSoftDeleted: false,
+    telemetry: {
+      operationStart: new Date(),
+      operationName: 'test',
+      metrics: {},
+      tags: {}
+    },
+    ...overrides
+  });
+
+  const buildAttachment = (overrides: Record<string, unknown> = {}) => ({
+    id: testAttachmentId,
+    fileName: 'report.pdf',
+    fileSize: 1024,
+    mimeType: 'application/pdf',
+    fileKey: 'secret/storage/key',
+    taskId: testTaskId,
+    projectId: testProjectId,
+    uploadedBy: testUserId,
+    deletedAt: null,
+    version: 1,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides
+  });
+
+  const buildFile = (name: string) => ({
+    originalname: name,
+    mimetype: 'application/pdf',
+    size: 1024,
+    buffer: Buffer.from('content')
+  });
+
+  beforeEach(() => {
+    mockAttachmentRepository = {
+      bulkCreateAttachments: jest.fn(),
+      getAttachmentById: jest.fn(),
+      getAttachmentsByTaskId: jest.fn(),
+      downloadAttachment: jest.fn(),
+      deleteAttachment: jest.fn()
+    } as unknown as jest.Mocked<AttachmentRepository>;
+
+    mockTaskRepository = {
+      findById: jest.fn().mockResolvedValue({
+        success: true,
+        data: {
+          id: testTaskId,
+          projectId: testProjectId,
+          assigneeId: testUserId,
+          createdBy: otherUserId
+        }
+      })
+    } as unknown as jest.Mocked<TaskRepository>;
+
+    // The caller's role in the task's project; null when not a member
+    memberRole = ProjectRole.CONTRIBUTOR;
+    mockMembershipService = {
+      hasAccess: jest.fn().mockImplementation(
+        async (projectId: any, required: any) => hasProjectRole(memberRole, required)
+      )
+    } as unknown as jest.Mocked<MembershipService>;
+
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn()
+    };
+
+    mockMetricsClient = {
+      Histogram: jest.fn().mockImplementation(() => ({
+        startTimer: jest.fn().mockReturnValue(jest.fn())
+      })),
+      Counter: jest.fn().mockImplementation(() => ({
+        inc: jest.fn()
+      }))
+    };
+
+    attachmentService = new AttachmentService(
+      mockAttachmentRepository,
+      mockTaskRepository,
+      mockMembershipService,
+      mockLogger,
+      mockMetricsClient
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('uploadAttachments', () => {
+    it('should report successful and failed files separately', async () => {
+      mockAttachmentRepository.bulkCreateAttachments.mockResolvedValue({
+        successful: [buildAttachment() as any],
+        failed: [{ fileName: 'virus.exe', error: 'File failed security scan' }]
+      });
+
+      const result = await attachmentService.uploadAttachments(
+        testTaskId,
+        [buildFile('report.pdf'), buildFile('virus.exe')],
+        buildContext()
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data?.successful).toHaveLength(1);
+      expect(result.data?.failed).toEqual([
+        { fileName: 'virus.exe', error: 'File failed security scan' }
+      ]);
+      expect(mockAttachmentRepository.bulkCreateAttachments).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({ fileName: 'report.pdf', taskId: testTaskId, projectId: testProjectId, userId: testUserId }),
+          expect.objectContaining({ fileName: 'virus.exe' })
+        ],
+        expect.objectContaining({ userId: testUserId, action: 'upload' })
+      );
+    });
+
+    it('should not expose storage keys', async () => {
+      mockAttachmentRepository.bulkCreateAttachments.mockResolvedValue({
+        successful: [buildAttachment() as any],
+        failed: []
+      });
+
+      const result = await attachmentService.uploadAttachments(
+        testTaskId,
+        [buildFile('report.pdf')],
+        buildContext()
+      );
+
+      expect(result.data?.successful[0]).not.toHaveProperty('fileKey');
+    });
+
+    it('should reject an empty upload', async () => {
+      const result = await attachmentService.uploadAttachments(testTaskId, [], buildContext());
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('VALIDATION_ERROR');
+    });
+
+    it('should hide tasks the caller cannot see', async () => {
+      memberRole = null;
+
+      const result = await attachmentService.uploadAttachments(
+        testTaskId,
+        [buildFile('report.pdf')],
+        buildContext()
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('NOT_FOUND');
+      expect(mockAttachmentRepository.bulkCreateAttachments).not.toHaveBeenCalled();
+    });
+
+    it('should return FORBIDDEN for project viewers', async () => {
+      memberRole = ProjectRole.VIEWER;
+
+      const result = await attachmentService.uploadAttachments(
+        testTaskId,
+        [buildFile('report.pdf')],
+        buildContext()
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('FORBIDDEN');
+      expect(mockAttachmentRepository.bulkCreateAttachments).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getAttachments', () => {
+    it('should allow project viewers', async () => {
+      memberRole = ProjectRole.VIEWER;
+      mockAttachmentRepository.getAttachmentsByTaskId.mockResolvedValue([buildAttachment()]);
+
+      const result = await attachmentService.getAttachments(testTaskId, buildContext());
+
+      expect(result.success).toBe(true);
+      expect(result.data).toHaveLength(1);
+      expect(mockMembershipService.hasAccess).toHaveBeenCalledWith(
+        testProjectId,
+        ProjectRole.VIEWER,
+        expect.objectContaining({ userId: testUserId })
+      );
+    });
+
+    it('should return NOT_FOUND when the task does not exist', async () => {
+      mockTaskRepository.findById.mockResolvedValue({ success: true, data: null });
+
+      const result = await attachmentService.getAttachments(testTaskId, buildContext());
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('NOT_FOUND');
+    });
+  });
+
+  describe('downloadAttachment', () => {
+    it('should return metadata and the content stream', async () => {
+      const stream = Readable.from(['content']);
+      mockAttachmentRepository.getAttachmentById.mockResolvedValue(buildAttachment());
+      mockAttachmentRepository.downloadAttachment.mockResolvedValue({
+        attachment: buildAttachment() as any,
+        stream
+      });
+
+      const result = await attachmentService.downloadAttachment(
+        testTaskId,
+        testAttachmentId,
+        buildContext()
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data?.attachment.mimeType).toBe('application/pdf');
+      expect(result.data?.stream).toBe(stream);
+    });
+
+    it('should return NOT_FOUND for an attachment of another task', async () => {
+      mockAttachmentRepository.getAttachmentById.mockResolvedValue(
+        buildAttachment({ taskId: uuidv4() })
+      );
+
+      const result = await attachmentService.downloadAttachment(
+        testTaskId,
+        testAttachmentId,
+        buildContext()
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('NOT_FOUND');
+      expect(mockAttachmentRepository.downloadAttachment).not.toHaveBeenCalled();
+    });
+
+    it('should map a missing attachment to NOT_FOUND', async () => {
+      mockAttachmentRepository.getAttachmentById.mockRejectedValue(
+        new AppError('Attachment not found', StatusCode.NOT_FOUND, ErrorCode.RESOURCE_NOT_FOUND)
+      );
+
+      const result = await attachmentService.downloadAttachment(
+        testTaskId,
+        testAttachmentId,
+        buildContext()
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('NOT_FOUND');
+    });
+  });
+
+  describe('deleteAttachment', () => {
+    it('should allow the uploader to delete', async () => {
+      mockAttachmentRepository.getAttachmentById.mockResolvedValue(buildAttachment());
+
+      const result = await attachmentService.deleteAttachment(
+        testTaskId,
+        testAttachmentId,
+        buildContext()
+      );
+
+      expect(result.success).toBe(true);
+      expect(mockAttachmentRepository.deleteAttachment).toHaveBeenCalledWith(
+        testAttachmentId,
+        expect.objectContaining({ action: 'delete' })
+      );
+    });
+
+    it('should return FORBIDDEN for other contributors', async () => {
+      mockAttachmentRepository.getAttachmentById.mockResolvedValue(
+        buildAttachment({ uploadedBy: otherUserId })
+      );
+
+      const result = await attachmentService.deleteAttachment(
+        testTaskId,
+        testAttachmentId,
+        buildContext()
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('FORBIDDEN');
+      expect(mockAttachmentRepository.deleteAttachment).not.toHaveBeenCalled();
+    });
+
+    it('should allow project managers to delete any attachment', async () => {
+      memberRole = ProjectRole.MANAGER;
+      mockAttachmentRepository.getAttachmentById.mockResolvedValue(
+        buildAttachment({ uploadedBy: otherUserId })
+      );
+
+      const result = await attachmentService.deleteAttachment(
+        testTaskId,
+        testAttachmentId,
+        buildContext()
+      );
+
+      expect(result.success).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * @fileoverview Unit tests for ChecklistService
+ * @version 1.0.0
+ */
+
+// External imports - with versions
+import { describe, beforeEach, afterEach, it, expect, jest } from '@jest/globals'; // v29.x
+import { v4 as uuidv4 } from 'uuid'; // v9.x
+
+// Internal imports
+import { ChecklistService } from '../../../src/services/checklist.service';
+import { ChecklistRepository } from '../../../src/repositories/checklist.repository';
+import { TaskRepository } from '../../../src/repositories/task.repository';
+import { MembershipService } from '../../../src/services/membership.service';
+import { ITaskContext } from '../../../src/interfaces/task.interface';
+import { ProjectRole } from '../../../src/types/project.types';
+
+describe('ChecklistService', () => {
+  // Mock dependencies
+  let mockChecklistRepository: jest.Mocked<ChecklistRepository>;
+  let mockTaskRepository: jest.Mocked<TaskRepository>;
+  let mockMembershipService: jest.Mocked<MembershipService>;
+  let mockLogger: any;
+  let mockMetricsClient: any;
+  let checklistService: ChecklistService;
+
+  // Test data
+  const testUserId = uuidv4();
+  const testTaskId = uuidv4();
+  const testProjectId = uuidv4();
+  const otherTaskId = uuidv4();
+  const testItemId = uuidv4();
+
+  const mockContext: ITaskContext = {
+    userId: testUserId,
+    correlationId: 'test-correlation-id',
+    requestId: 'test-request-id',
+    includeSoftDeleted: false,
+    telemetry: {
+      operationStart: new Date(),
+      operationName: 'test',
+      metrics: {},
+      tags: {}
+    }
+  };
+
+  const buildItem = (overrides: Record<string, unknown> = {}) => ({
+    id: testItemId,
+    taskId: testTaskId,
+    title: 'Write release notes',
+    isCompleted: false,
+    position: 0,
+    completedAt: null,
+    completedBy: null,
+    createdBy: testUserId,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides
+  });
+
+  beforeEach(() => {
+    mockChecklistRepository = {
+      create: jest.fn(),
+      findById: jest.fn(),
+      findByTaskId: jest.fn(),
+      countByTaskId: jest.fn().mockResolvedValue(0),
+      update: jest.fn(),
+      delete: jest.fn()
+    } as unknown as jest.Mocked<ChecklistRepository>;
+
+    mockTaskRepository = {
+      findById: jest.fn().mockResolvedValue({
+        success: true,
+        data: { id: testTaskId, projectId: testProjectId }
+      })
+    } as unknown as jest.Mocked<TaskRepository>;
+
+    mockMembershipService = {
+      hasAccess: jest.fn().mockResolvedValue(true)
+    } as unknown as jest.Mocked<MembershipService>;
+
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn()
+    };
+
+    mockMetricsClient = {
+      Histogram: jest.fn().mockImplementation(() => ({
+        startTimer: jest.fn().mockReturnValue(jest.fn())
+      })),
+      Counter: jest.fn().mockImplementation(() => ({
+        inc: jest.fn()
+      }))
+    };
+
+    checklistService = new ChecklistService(
+      mockChecklistRepository,
+      mockTaskRepository,
+      mockMembershipService,
+      mockLogger,
+      mockMetricsClient
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('addItem', () => {
+    it('should add a trimmed item to the task', async () => {
+      mockChecklistRepository.create.mockResolvedValue(buildItem() as any);
+
+      const result = await checklistService.addItem(
+        testTaskId as any,
+        { title: '  Write release notes  ' },
+        mockContext
+      );
+
+      expect(result.success).toBe(true);
+      expect(mockChecklistRepository.create).toHaveBeenCalledWith({
+        taskId: testTaskId,
+        title: 'Write release notes',
+        position: undefined,
+        createdBy: testUserId
+      });
+    });
+
+    it('should reject an empty title', async () => {
+      const result = await checklistService.addItem(testTaskId as any, { title: '   ' }, mockContext);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('VALIDATION_ERROR');
+      expect(mockChecklistRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject items beyond the per-task limit', async () => {
+      mockChecklistRepository.countByTaskId.mockResolvedValue(100);
+
+      const result = await checklistService.addItem(testTaskId as any, { title: 'One more' }, mockContext);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('VALIDATION_ERROR');
+    });
+
+    it('should return NOT_FOUND for a missing task', async () => {
+      mockTaskRepository.findById.mockResolvedValue({ success: true, data: null } as any);
+
+      const result = await checklistService.addItem(testTaskId as any, { title: 'Item' }, mockContext);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('NOT_FOUND');
+    });
+
+    it('should report tasks of projects the caller cannot see as missing', async () => {
+      mockMembershipService.hasAccess.mockResolvedValue(false);
+
+      const result = await checklistService.addItem(testTaskId as any, { title: 'Item' }, mockContext);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('NOT_FOUND');
+      expect(mockChecklistRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateItem', () => {
+    it('should record who completed an item and when', async () => {
+      mockChecklistRepository.findById.mockResolvedValue(buildItem() as any);
+      mockChecklistRepository.update.mockResolvedValue(buildItem({ isCompleted: true }) as any);
+
+      const result = await checklistService.updateItem(
+        testTaskId as any,
+        testItemId as any,
+        { isCompleted: true },
+        mockContext
+      );
+
+      expect(result.success).toBe(true);
+      expect(mockChecklistRepository.update).toHaveBeenCalledWith(testItemId, {
+        isCompleted: true,
+        completedAt: expect.any(Date),
+        completedBy: testUserId
+      });
+    });
+
+    it('should clear completion details when an item is unchecked', async () => {
+      mockChecklistRepository.findById.mockResolvedValue(
+        buildItem({ isCompleted: true, completedAt: new Date(), completedBy: testUserId }) as any
+      );
+      mockChecklistRepository.update.mockResolvedValue(buildItem() as any);
+
+      await checklistService.updateItem(
+        testTaskId as any,
+        testItemId as any,
+        { isCompleted: false },
+        mockContext
+      );
+
+      expect(mockChecklistRepository.update).toHaveBeenCalledWith(testItemId, {
+        isCompleted: false,
+        completedAt: null,
+        completedBy: null
+      });
+    });
+
+    it('should return NOT_FOUND for an item of another task', async () => {
+      mockChecklistRepository.findById.mockResolvedValue(buildItem({ taskId: otherTaskId }) as any);
+
+      const result = await checklistService.updateItem(
+        testTaskId as any,
+        testItemId as any,
+        { title: 'Renamed' },
+        mockContext
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('NOT_FOUND');
+      expect(mockChecklistRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('removeItem', () => {
+    it('should delete an item of the task', async () => {
+      mockChecklistRepository.findById.mockResolvedValue(buildItem() as any);
+
+      const result = await checklistService.removeItem(testTaskId as any, testItemId as any, mockContext);
+
+      expect(result.success).toBe(true);
+      expect(mockChecklistRepository.delete).toHaveBeenCalledWith(testItemId);
+    });
+
+    it('should return FORBIDDEN for project viewers', async () => {
+      mockMembershipService.hasAccess.mockImplementation(
+        async (projectId, required) => required === ProjectRole.VIEWER
+      );
+
+      const result = await checklistService.removeItem(testTaskId as any, testItemId as any, mockContext);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('FORBIDDEN');
+      expect(mockChecklistRepository.delete).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,398 @@
+/**
+ * @fileoverview Unit tests for CommentService
+ * @version 1.0.0
+ */
+
+// External imports - with versions
+import { describe, beforeEach, afterEach, it, expect, jest } from '@jest/globals'; // v29.x
+import { v4 as uuidv4 } from 'uuid'; // v9.x
+
+// Internal imports
+import { CommentService } from '../../../src/services/comment.service';
+import { CommentRepository } from '../../../src/repositories/comment.repository';
+import { TaskRepository } from '../../../src/repositories/task.repository';
+import { MembershipService } from '../../../src/services/membership.service';
+import { WebSocketService } from '../../../src/services/websocket.service';
+import { NotificationService } from '../../../src/services/notification.service';
+import { WebSocketEventType } from '../../../src/websocket/types';
+import { ITaskContext } from '../../../src/interfaces/task.interface';
+import { ProjectRole } from '../../../src/types/project.types';
+
+describe('CommentService', () => {
+  // Mock dependencies
+  let mockCommentRepository: jest.Mocked<CommentRepository>;
+  let mockTaskRepository: jest.Mocked<TaskRepository>;
+  let mockMembershipService: jest.Mocked<MembershipService>;
+  let mockWebSocketService: jest.Mocked<WebSocketService>;
+  let mockNotificationService: jest.Mocked<NotificationService>;
+  let mockLogger: any;
+  let mockMetricsClient: any;
+  let commentService: CommentService;
+
+  // Test data
+  const testUserId = uuidv4();
+  const otherUserId = uuidv4();
+  const testTaskId = uuidv4();
+  const testProjectId = uuidv4();
+  const testCommentId = uuidv4();
+
+  const mockContext: ITaskContext = {
+    userId: testUserId,
+    correlationId: 'test-correlation-id',
+    requestId: 'test-request-id',
+    includeSoftDeleted: false,
+    telemetry: {
+      operationStart: new Date(),
+      operationName: 'test',
+      metrics: {},
+      tags: {}
+    }
+  };
+
+  const buildComment = (overrides: Record<string, unknown> = {}) => ({
+    id: testCommentId,
+    content: 'Looks good to me',
+    taskId: testTaskId,
+    authorId: testUserId,
+    parentId: null,
+    isEdited: false,
+    isModerated: false,
+    version: 1,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides
+  });
+
+  beforeEach(() => {
+    mockCommentRepository = {
+      create: jest.fn(),
+      findById: jest.fn(),
+      findByTaskId: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn()
+    } as unknown as jest.Mocked<CommentRepository>;
+
+    mockTaskRepository = {
+      findById: jest.fn().mockResolvedValue({
+        success: true,
+        data: { id: testTaskId, projectId: testProjectId }
+      })
+    } as unknown as jest.Mocked<TaskRepository>;
+
+    mockMembershipService = {
+      hasAccess: jest.fn().mockResolvedValue(true)
+    } as unknown as jest.Mocked<MembershipService>;
+
+    mockWebSocketService = {
+      broadcast: jest.fn()
+    } as unknown as jest.Mocked<WebSocketService>;
+
+    mockNotificationService = {
+      notifyComment: jest.fn()
+    } as unknown as jest.Mocked<NotificationService>;
+
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn()
+    };
+
+    mockMetricsClient = {
+      Histogram: jest.fn().mockImplementation(() => ({
+        startTimer: jest.fn().mockReturnValue(jest.fn())
+      })),
+      Counter: jest.fn().mockImplementation(() => ({
+        inc: jest.fn()
+      }))
+    };
+
+    commentService = new CommentService(
+      mockCommentRepository,
+      mockTaskRepository,
+      mockMembershipService,
+      mockWebSocketService,
+      mockNotificationService,
+      mockLogger,
+      mockMetricsClient
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createComment', () => {
+    it('should create a comment and broadcast COMMENT_NEW', async () => {
+      const created = buildComment();
+      mockCommentRepository.create.mockResolvedValue(created as any);
+
+      const result = await commentService.createComment(
+        testTaskId,
+        { content: 'Looks good to me' },
+        mockContext
+      );
+
+      expect(result.success).toBe(true);
+      expect(mockCommentRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ taskId: testTaskId, authorId: testUserId })
+      );
+      expect(mockWebSocketService.broadcast).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: WebSocketEventType.COMMENT_NEW,
+          payload: expect.objectContaining({
+            taskId: testTaskId,
+            commentId: testCommentId,
+            createdBy: testUserId
+          })
+        })
+      );
+    });
+
+    it('should notify mentioned users and the author of the parent comment', async () => {
+      const mentionedUserId = uuidv4();
+      mockCommentRepository.findById.mockResolvedValue(
+        buildComment({ authorId: otherUserId }) as any
+      );
+      const created = buildComment({ id: uuidv4(), parentId: testCommentId });
+      mockCommentRepository.create.mockResolvedValue(created as any);
+
+      const result = await commentService.createComment(
+        testTaskId,
+        { content: 'Agreed', parentId: testCommentId, mentions: [mentionedUserId] as any },
+        mockContext
+      );
+
+      expect(result.success).toBe(true);
+      expect(mockNotificationService.notifyComment).toHaveBeenCalledWith(
+        created,
+        [mentionedUserId],
+        otherUserId
+      );
+    });
+
+    it('should return NOT_FOUND when the task does not exist', async () => {
+      mockTaskRepository.findById.mockResolvedValue({ success: true, data: null });
+
+      const result = await commentService.createComment(
+        testTaskId,
+        { content: 'Hello' },
+        mockContext
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('NOT_FOUND');
+      expect(mockCommentRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should report tasks of projects the caller cannot see as missing', async () => {
+      mockMembershipService.hasAccess.mockResolvedValue(false);
+
+      const result = await commentService.createComment(
+        testTaskId,
+        { content: 'Hello' },
+        mockContext
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('NOT_FOUND');
+      expect(mockMembershipService.hasAccess).toHaveBeenCalledWith(
+        testProjectId,
+        ProjectRole.VIEWER,
+        mockContext
+      );
+    });
+
+    it('should return FORBIDDEN for project viewers', async () => {
+      mockMembershipService.hasAccess.mockImplementation(
+        async (projectId, required) => required === ProjectRole.VIEWER
+      );
+
+      const result = await commentService.createComment(
+        testTaskId,
+        { content: 'Hello' },
+        mockContext
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('FORBIDDEN');
+      expect(mockCommentRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject replies nested more than one level deep', async () => {
+      mockCommentRepository.findById.mockResolvedValue(
+        buildComment({ parentId: uuidv4() }) as any
+      );
+
+      const result = await commentService.createComment(
+        testTaskId,
+        { content: 'Nested reply', parentId: testCommentId },
+        mockContext
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('VALIDATION_ERROR');
+      expect(mockCommentRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a parent comment from another task', async () => {
+      mockCommentRepository.findById.mockResolvedValue(
+        buildComment({ taskId: uuidv4() }) as any
+      );
+
+      const result = await commentService.createComment(
+        testTaskId,
+        { content: 'Reply', parentId: testCommentId },
+        mockContext
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('VALIDATION_ERROR');
+    });
+
+    it('should reject replies to a removed comment', async () => {
+      mockCommentRepository.findById.mockResolvedValue(
+        buildComment({ isModerated: true, content: '[Comment removed]' }) as any
+      );
+
+      const result = await commentService.createComment(
+        testTaskId,
+        { content: 'Reply', parentId: testCommentId },
+        mockContext
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('VALIDATION_ERROR');
+      expect(mockCommentRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject empty content', async () => {
+      const result = await commentService.createComment(
+        testTaskId,
+        { content: '   ' },
+        mockContext
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('VALIDATION_ERROR');
+    });
+  });
+
+  describe('updateComment', () => {
+    it('should allow the author to edit their comment', async () => {
+      mockCommentRepository.findById.mockResolvedValue(buildComment() as any);
+      mockCommentRepository.update.mockResolvedValue(
+        buildComment({ content: 'Edited', isEdited: true, version: 2 }) as any
+      );
+
+      const result = await commentService.updateComment(
+        testTaskId,
+        testCommentId,
+        { content: 'Edited', version: 1 },
+        mockContext
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data?.isEdited).toBe(true);
+    });
+
+    it('should return FORBIDDEN for non-authors', async () => {
+      mockCommentRepository.findById.mockResolvedValue(
+        buildComment({ authorId: otherUserId }) as any
+      );
+
+      const result = await commentService.updateComment(
+        testTaskId,
+        testCommentId,
+        { content: 'Edited', version: 1 },
+        mockContext
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('FORBIDDEN');
+      expect(mockCommentRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should not let the author restore a removed comment', async () => {
+      mockCommentRepository.findById.mockResolvedValue(
+        buildComment({ isModerated: true, content: '[Comment removed]' }) as any
+      );
+
+      const result = await commentService.updateComment(
+        testTaskId,
+        testCommentId,
+        { content: 'Original text', version: 2 },
+        mockContext
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('NOT_FOUND');
+      expect(mockCommentRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should return CONFLICT on version mismatch', async () => {
+      mockCommentRepository.findById.mockResolvedValue(buildComment() as any);
+      mockCommentRepository.update.mockRejectedValue(
+        new Error('Comment has been modified by another operation')
+      );
+
+      const result = await commentService.updateComment(
+        testTaskId,
+        testCommentId,
+        { content: 'Edited', version: 1 },
+        mockContext
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('CONFLICT');
+    });
+  });
+
+  describe('deleteComment', () => {
+    it('should return FORBIDDEN for non-authors', async () => {
+      mockCommentRepository.findById.mockResolvedValue(
+        buildComment({ authorId: otherUserId }) as any
+      );
+
+      const result = await commentService.deleteComment(testTaskId, testCommentId, mockContext);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('FORBIDDEN');
+      expect(mockCommentRepository.delete).not.toHaveBeenCalled();
+    });
+
+    it('should return NOT_FOUND for a comment on another task', async () => {
+      mockCommentRepository.findById.mockResolvedValue(
+        buildComment({ taskId: uuidv4() }) as any
+      );
+
+      const result = await commentService.deleteComment(testTaskId, testCommentId, mockContext);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('NOT_FOUND');
+    });
+  });
+
+  describe('getComments', () => {
+    it('should request top-level comments with normalized pagination', async () => {
+      mockCommentRepository.findByTaskId.mockResolvedValue({
+        items: [],
+        total: 0,
+        page: 1,
+        limit: 100,
+        hasMore: false
+      } as any);
+
+      const result = await commentService.getComments(
+        testTaskId,
+        { page: 0, limit: 500, sortOrder: 'asc' },
+        mockContext
+      );
+
+      expect(result.success).toBe(true);
+      expect(mockCommentRepository.findByTaskId).toHaveBeenCalledWith(
+        testTaskId,
+        expect.objectContaining({ page: 1, limit: 100, topLevelOnly: true })
+      );
+    });
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * @fileoverview Unit tests for CustomFieldService
+ * @version 1.0.0
+ */
+
+// External imports - with versions
+import { describe, beforeEach, afterEach, it, expect, jest } from '@jest/globals'; // v29.x
+import { v4 as uuidv4 } from 'uuid'; // v9.x
+
+// Internal imports
+import { CustomFieldService } from '../../../src/services/customField.service';
+import { CustomFieldRepository } from '../../../src/repositories/customField.repository';
+import { ProjectRepository } from '../../../src/repositories/project.repository';
+import { MembershipService } from '../../../src/services/membership.service';
+import { ITaskContext } from '../../../src/interfaces/task.interface';
+import { CustomFieldType } from '../../../src/types/customField.types';
+import { ProjectRole } from '../../../src/types/project.types';
+import { UserRole } from '../../../src/types/user.types';
+
+describe('CustomFieldService', () => {
+  // Mock dependencies
+  let mockCustomFieldRepository: jest.Mocked<CustomFieldRepository>;
+  let mockProjectRepository: jest.Mocked<ProjectRepository>;
+  let mockMembershipService: jest.Mocked<MembershipService>;
+  let mockLogger: any;
+  let mockMetricsClient: any;
+  let customFieldService: CustomFieldService;
+
+  // Test data
+  const testUserId = uuidv4();
+  const testProjectId = uuidv4();
+  const testFieldId = uuidv4();
+
+  const context: ITaskContext = {
+    userId: testUserId,
+    userRole: UserRole.TEAM_MEMBER,
+    correlationId: 'test-correlation-id',
+    requestId: 'test-request-id',
+    includeSoftDeleted: false,
+    telemetry: {
+      operationStart: new Date(),
+      operationName: 'test',
+      metrics: {},
+      tags: {}
+    }
+  };
+
+  const testField = {
+    id: testFieldId,
+    projectId: testProjectId,
+    key: 'team',
+    name: 'Team',
+    type: CustomFieldType.SINGLE_SELECT,
+    options: ['web', 'api'],
+    required: false,
+    position: 0
+  };
+
+  // Project role of the caller, consulted by hasAccess
+  let projectRole: ProjectRole | null;
+
+  beforeEach(() => {
+    projectRole = ProjectRole.MANAGER;
+
+    mockCustomFieldRepository = {
+      findByProject: jest.fn().mockResolvedValue([testField]),
+      findById: jest.fn().mockResolvedValue(testField),
+      keyExists: jest.fn().mockResolvedValue(false),
+      create: jest.fn().mockImplementation(async (projectId: string, data: any) => ({
+        id: uuidv4(),
+        projectId,
+        ...data
+      })),
+      update: jest.fn().mockImplementation(async (_fieldId: string, data: any) => ({ ...testField, ...data })),
+      delete: jest.fn().mockResolvedValue(undefined)
+    } as unknown as jest.Mocked<CustomFieldRepository>;
+
+    mockProjectRepository = {
+      findById: jest.fn().mockResolvedValue({ id: testProjectId })
+    } as unknown as jest.Mocked<ProjectRepository>;
+
+    mockMembershipService = {
+      hasAccess: jest.fn().mockImplementation(async (_projectId: string, required: ProjectRole) => {
+        const rank = [ProjectRole.VIEWER, ProjectRole.CONTRIBUTOR, ProjectRole.MANAGER, ProjectRole.OWNER];
+        return projectRole !== null && rank.indexOf(projectRole) >= rank.indexOf(required);
+      })
+    } as unknown as jest.Mocked<MembershipService>;
+
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn()
+    };
+
+    mockMetricsClient = {
+      Histogram: jest.fn().mockImplementation(() => ({
+        startTimer: jest.fn().mockReturnValue(jest.fn())
+      })),
+      Counter: jest.fn().mockImplementation(() => ({
+        inc: jest.fn()
+      }))
+    };
+
+    customFieldService = new CustomFieldService(
+      mockCustomFieldRepository,
+      mockProjectRepository,
+      mockMembershipService,
+      mockLogger,
+      mockMetricsClient
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('listFields', () => {
+    it('should let viewers list the fields', async () => {
+      projectRole = ProjectRole.VIEWER;
+
+      const result = await customFieldService.listFields(testProjectId as any, context);
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual([testField]);
+    });
+
+    it('should report projects the caller does not belong to as missing', async () => {
+      projectRole = null;
+
+      const result = await customFieldService.listFields(testProjectId as any, context);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('NOT_FOUND');
+    });
+  });
+
+  describe('createField', () => {
+    it('should let managers define a select field', async () => {
+      const result = await customFieldService.createField(
+        testProjectId as any,
+        { key: 'size', name: 'Size', type: CustomFieldType.SINGLE_SELECT, options: ['S', 'M', 'L'] },
+        context
+      );
+
+      expect(result.success).toBe(true);
+      expect(mockCustomFieldRepository.create).toHaveBeenCalledWith(
+        testProjectId,
+        expect.objectContaining({ key: 'size' }),
+        testUserId
+      );
+    });
+
+    it('should reject contributors', async () => {
+      projectRole = ProjectRole.CONTRIBUTOR;
+
+      const result = await customFieldService.createField(
+        testProjectId as any,
+        { key: 'points', name: 'Points', type: CustomFieldType.NUMBER },
+        context
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('FORBIDDEN');
+      expect(mockCustomFieldRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should require options on select fields only', async () => {
+      const withoutOptions = await customFieldService.createField(
+        testProjectId as any,
+        { key: 'size', name: 'Size', type: CustomFieldType.MULTI_SELECT },
+        context
+      );
+      const withOptions = await customFieldService.createField(
+        testProjectId as any,
+        { key: 'points', name: 'Points', type: CustomFieldType.NUMBER, options: ['1'] },
+        context
+      );
+
+      expect(withoutOptions.error?.code).toBe('VALIDATION_ERROR');
+      expect(withOptions.error?.code).toBe('VALIDATION_ERROR');
+    });
+
+    it('should refuse keys already used in the project', async () => {
+      mockCustomFieldRepository.keyExists.mockResolvedValue(true);
+
+      const result = await customFieldService.createField(
+        testProjectId as any,
+        { key: 'team', name: 'Team', type: CustomFieldType.TEXT },
+        context
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('CONFLICT');
+    });
+  });
+
+  describe('updateField', () => {
+    it('should reject duplicate options', async () => {
+      const result = await customFieldService.updateField(
+        testProjectId as any,
+        testFieldId as any,
+        { options: ['web', 'web'] },
+        context
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('VALIDATION_ERROR');
+      expect(mockCustomFieldRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteField', () => {
+    it('should report unknown fields as missing', async () => {
+      mockCustomFieldRepository.findById.mockResolvedValue(null);
+
+      const result = await customFieldService.deleteField(testProjectId as any, testFieldId as any, context);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('NOT_FOUND');
+      expect(mockCustomFieldRepository.delete).not.toHaveBeenCalled();
+    });
+  });
+});
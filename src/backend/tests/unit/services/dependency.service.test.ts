@@ -0,0 +1,318 @@
+/**
+ * @fileoverview Unit tests for TaskDependencyService
+ * @version 1.0.0
+ */
+
+// External imports - with versions
+import { describe, beforeEach, afterEach, it, expect, jest } from '@jest/globals'; // v29.x
+import { v4 as uuidv4 } from 'uuid'; // v9.x
+
+// Internal imports
+import { TaskDependencyService } from '../../../src/services/dependency.service';
+import { TaskDependencyRepository } from '../../../src/repositories/dependency.repository';
+import { TaskRepository } from '../../../src/repositories/task.repository';
+import { MembershipService } from '../../../src/services/membership.service';
+import { WebSocketService } from '../../../src/services/websocket.service';
+import { ITaskContext } from '../../../src/interfaces/task.interface';
+import { TaskStatus, TaskPriority } from '../../../src/types/task.types';
+import { ProjectRole } from '../../../src/types/project.types';
+import { WebSocketEventType } from '../../../src/websocket/types';
+
+describe('TaskDependencyService', () => {
+  // Mock dependencies
+  let mockDependencyRepository: jest.Mocked<TaskDependencyRepository>;
+  let mockTaskRepository: jest.Mocked<TaskRepository>;
+  let mockMembershipService: jest.Mocked<MembershipService>;
+  let mockWebSocketService: jest.Mocked<WebSocketService>;
+  let mockLogger: any;
+  let mockMetricsClient: any;
+  let dependencyService: TaskDependencyService;
+
+  // Test data
+  const testUserId = uuidv4();
+  const taskA = uuidv4();
+  const taskB = uuidv4();
+  const taskC = uuidv4();
+  const testDependencyId = uuidv4();
+
+  const mockContext: ITaskContext = {
+    userId: testUserId,
+    correlationId: 'test-correlation-id',
+    requestId: 'test-request-id',
+    includeSoftDeleted: false,
+    telemetry: {
+      operationStart: new Date(),
+      operationName: 'test',
+      metrics: {},
+      tags: {}
+    }
+  };
+
+  const buildDependent = (id: string, status: TaskStatus) => ({
+    id,
+    title: 'Dependent task',
+    status,
+    version: 3,
+    priority: TaskPriority.HIGH,
+    assigneeId: testUserId
+  });
+
+  beforeEach(() => {
+    mockDependencyRepository = {
+      create: jest.fn(),
+      findById: jest.fn(),
+      findLink: jest.fn().mockResolvedValue(null),
+      delete: jest.fn(),
+      findByTaskId: jest.fn(),
+      findEdgesFrom: jest.fn().mockResolvedValue([]),
+      findOpenBlockers: jest.fn().mockResolvedValue([]),
+      findDependents: jest.fn().mockResolvedValue([])
+    } as unknown as jest.Mocked<TaskDependencyRepository>;
+
+    mockTaskRepository = {
+      findById: jest.fn().mockImplementation(async (id: any) => ({
+        success: true,
+        data: { id, status: TaskStatus.TODO, version: 1 }
+      })),
+      update: jest.fn()
+    } as unknown as jest.Mocked<TaskRepository>;
+
+    mockMembershipService = {
+      hasAccess: jest.fn().mockResolvedValue(true)
+    } as unknown as jest.Mocked<MembershipService>;
+
+    mockWebSocketService = {
+      broadcast: jest.fn()
+    } as unknown as jest.Mocked<WebSocketService>;
+
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn()
+    };
+
+    mockMetricsClient = {
+      Histogram: jest.fn().mockImplementation(() => ({
+        startTimer: jest.fn().mockReturnValue(jest.fn())
+      })),
+      Counter: jest.fn().mockImplementation(() => ({
+        inc: jest.fn()
+      }))
+    };
+
+    dependencyService = new TaskDependencyService(
+      mockDependencyRepository,
+      mockTaskRepository,
+      mockMembershipService,
+      mockWebSocketService,
+      mockLogger,
+      mockMetricsClient
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('addDependency', () => {
+    it('should link the route task to its blocker', async () => {
+      const created = { id: testDependencyId, blockerId: taskB, blockedId: taskA };
+      mockDependencyRepository.create.mockResolvedValue(created as any);
+
+      const result = await dependencyService.addDependency(
+        taskA as any,
+        { blockerId: taskB as any },
+        mockContext
+      );
+
+      expect(result.success).toBe(true);
+      expect(mockDependencyRepository.create).toHaveBeenCalledWith(taskB, taskA, testUserId);
+    });
+
+    it('should reject a request naming both or neither side', async () => {
+      const result = await dependencyService.addDependency(taskA as any, {}, mockContext);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('VALIDATION_ERROR');
+      expect(mockDependencyRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a task depending on itself', async () => {
+      const result = await dependencyService.addDependency(
+        taskA as any,
+        { blockerId: taskA as any },
+        mockContext
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('VALIDATION_ERROR');
+    });
+
+    it('should reject a duplicate link', async () => {
+      mockDependencyRepository.findLink.mockResolvedValue({ id: testDependencyId } as any);
+
+      const result = await dependencyService.addDependency(
+        taskA as any,
+        { blockerId: taskB as any },
+        mockContext
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('CONFLICT');
+    });
+
+    it('should reject a link that closes a cycle and report the cycle', async () => {
+      // Existing graph: A blocks B, B blocks C. Adding C blocks A closes the loop.
+      mockDependencyRepository.findEdgesFrom.mockImplementation(async (ids: any[]) => [
+        ...(ids.includes(taskA) ? [{ blockerId: taskA, blockedId: taskB }] : []),
+        ...(ids.includes(taskB) ? [{ blockerId: taskB, blockedId: taskC }] : [])
+      ] as any);
+
+      const result = await dependencyService.addDependency(
+        taskA as any,
+        { blockerId: taskC as any },
+        mockContext
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('DEPENDENCY_CYCLE');
+      expect(result.error?.details).toEqual({ cycle: [taskC, taskA, taskB, taskC] });
+      expect(mockDependencyRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should return NOT_FOUND when the other task does not exist', async () => {
+      mockTaskRepository.findById.mockImplementation(async (id: any) => ({
+        success: true,
+        data: id === taskB ? null : { id }
+      }) as any);
+
+      const result = await dependencyService.addDependency(
+        taskA as any,
+        { blockerId: taskB as any },
+        mockContext
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('NOT_FOUND');
+    });
+
+    it('should return FORBIDDEN for project viewers', async () => {
+      mockMembershipService.hasAccess.mockImplementation(
+        async (projectId, required) => required === ProjectRole.VIEWER
+      );
+
+      const result = await dependencyService.addDependency(
+        taskA as any,
+        { blockerId: taskB as any },
+        mockContext
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('FORBIDDEN');
+      expect(mockDependencyRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('releaseDependents', () => {
+    it('should move a BLOCKED dependent to TODO once its last blocker is done', async () => {
+      mockDependencyRepository.findDependents.mockResolvedValue([
+        buildDependent(taskB, TaskStatus.BLOCKED)
+      ] as any);
+      mockTaskRepository.update.mockResolvedValue({
+        success: true,
+        data: { id: taskB, status: TaskStatus.TODO, tags: ['backend'] }
+      } as any);
+
+      const released = await dependencyService.releaseDependents(taskA as any, mockContext);
+
+      expect(released).toEqual([taskB]);
+      expect(mockTaskRepository.update).toHaveBeenCalledWith(
+        taskB,
+        { status: TaskStatus.TODO, version: 3 },
+        mockContext
+      );
+      expect(mockWebSocketService.broadcast).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: WebSocketEventType.TASK_UPDATE,
+          payload: expect.objectContaining({ taskId: taskB, status: TaskStatus.TODO })
+        })
+      );
+    });
+
+    it('should keep a dependent BLOCKED while other blockers are open', async () => {
+      mockDependencyRepository.findDependents.mockResolvedValue([
+        buildDependent(taskB, TaskStatus.BLOCKED)
+      ] as any);
+      mockDependencyRepository.findOpenBlockers.mockResolvedValue([
+        { id: taskC, title: 'Other blocker', status: TaskStatus.IN_PROGRESS }
+      ] as any);
+
+      const released = await dependencyService.releaseDependents(taskA as any, mockContext);
+
+      expect(released).toEqual([]);
+      expect(mockTaskRepository.update).not.toHaveBeenCalled();
+      expect(mockWebSocketService.broadcast).not.toHaveBeenCalled();
+    });
+
+    it('should leave dependents that are not BLOCKED untouched', async () => {
+      mockDependencyRepository.findDependents.mockResolvedValue([
+        buildDependent(taskB, TaskStatus.TODO)
+      ] as any);
+
+      const released = await dependencyService.releaseDependents(taskA as any, mockContext);
+
+      expect(released).toEqual([]);
+      expect(mockTaskRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('removeDependency', () => {
+    it('should release the blocked task when its last link is removed', async () => {
+      mockDependencyRepository.findById.mockResolvedValue({
+        id: testDependencyId,
+        blockerId: taskA,
+        blockedId: taskB
+      } as any);
+      mockTaskRepository.findById.mockResolvedValue({
+        success: true,
+        data: buildDependent(taskB, TaskStatus.BLOCKED)
+      } as any);
+      mockTaskRepository.update.mockResolvedValue({
+        success: true,
+        data: { id: taskB, status: TaskStatus.TODO, tags: [] }
+      } as any);
+
+      const result = await dependencyService.removeDependency(
+        taskA as any,
+        testDependencyId as any,
+        mockContext
+      );
+
+      expect(result.success).toBe(true);
+      expect(mockDependencyRepository.delete).toHaveBeenCalledWith(testDependencyId);
+      expect(mockTaskRepository.update).toHaveBeenCalledWith(
+        taskB,
+        { status: TaskStatus.TODO, version: 3 },
+        mockContext
+      );
+    });
+
+    it('should return NOT_FOUND for a link that does not touch the task', async () => {
+      mockDependencyRepository.findById.mockResolvedValue({
+        id: testDependencyId,
+        blockerId: taskB,
+        blockedId: taskC
+      } as any);
+
+      const result = await dependencyService.removeDependency(
+        taskA as any,
+        testDependencyId as any,
+        mockContext
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('NOT_FOUND');
+      expect(mockDependencyRepository.delete).not.toHaveBeenCalled();
+    });
+  });
+});
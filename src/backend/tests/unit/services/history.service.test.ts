@@ -0,0 +1,219 @@
+/**
+ * @fileoverview Unit tests for HistoryService
+ * @version 1.0.0
+ */
+
+// External imports - with versions
+import { describe, beforeEach, afterEach, it, expect, jest } from '@jest/globals'; // v29.x
+import { v4 as uuidv4 } from 'uuid'; // v9.x
+
+// Internal imports
+import { HistoryService } from '../../../src/services/history.service';
+import { HistoryRepository } from '../../../src/repositories/history.repository';
+import { TaskRepository } from '../../../src/repositories/task.repository';
+import { ProjectRepository } from '../../../src/repositories/project.repository';
+import { MembershipService } from '../../../src/services/membership.service';
+import { ITaskContext } from '../../../src/interfaces/task.interface';
+import { HistoryEntityType } from '../../../src/types/history.types';
+import { ProjectRole } from '../../../src/types/project.types';
+
+describe('HistoryService', () => {
+  // Mock dependencies
+  let mockHistoryRepository: jest.Mocked<HistoryRepository>;
+  let mockTaskRepository: jest.Mocked<TaskRepository>;
+  let mockProjectRepository: jest.Mocked<ProjectRepository>;
+  let mockMembershipService: jest.Mocked<MembershipService>;
+  let mockLogger: any;
+  let mockMetricsClient: any;
+  let historyService: HistoryService;
+
+  // Test data
+  const testUserId = uuidv4();
+  const testTaskId = uuidv4();
+  const testProjectId = uuidv4();
+
+  const mockContext: ITaskContext = {
+    userId: testUserId,
+    correlationId: 'test-correlation-id',
+    requestId: 'test-request-id',
+    includeSoftDeleted: false,
+    telemetry: {
+      operationStart: new Date(),
+      operationName: 'test',
+      metrics: {},
+      tags: {}
+    }
+  };
+
+  const buildEntry = (overrides: Record<string, unknown> = {}) => ({
+    id: uuidv4(),
+    entityType: HistoryEntityType.TASK,
+    entityId: testTaskId,
+    field: 'dueDate',
+    oldValue: '2026-10-19T09:00:00.000Z',
+    newValue: '2026-10-26T09:00:00.000Z',
+    version: 2,
+    correlationId: 'test-correlation-id',
+    changedBy: testUserId,
+    changedAt: new Date(),
+    ...overrides
+  });
+
+  beforeEach(() => {
+    mockHistoryRepository = {
+      findByEntity: jest.fn().mockResolvedValue({ items: [buildEntry()], total: 1 })
+    } as unknown as jest.Mocked<HistoryRepository>;
+
+    mockTaskRepository = {
+      findById: jest.fn().mockResolvedValue({
+        success: true,
+        data: { id: testTaskId, projectId: testProjectId }
+      })
+    } as unknown as jest.Mocked<TaskRepository>;
+
+    mockProjectRepository = {
+      findById: jest.fn().mockResolvedValue({ id: testProjectId })
+    } as unknown as jest.Mocked<ProjectRepository>;
+
+    mockMembershipService = {
+      hasAccess: jest.fn().mockResolvedValue(true)
+    } as unknown as jest.Mocked<MembershipService>;
+
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn()
+    };
+
+    mockMetricsClient = {
+      Histogram: jest.fn().mockImplementation(() => ({
+        startTimer: jest.fn().mockReturnValue(jest.fn())
+      })),
+      Counter: jest.fn().mockImplementation(() => ({
+        inc: jest.fn()
+      }))
+    };
+
+    historyService = new HistoryService(
+      mockHistoryRepository,
+      mockTaskRepository,
+      mockProjectRepository,
+      mockMembershipService,
+      mockLogger,
+      mockMetricsClient
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getTaskHistory', () => {
+    it('should return a page of task changes', async () => {
+      const result = await historyService.getTaskHistory(
+        testTaskId as any,
+        { page: 1, limit: 20, field: 'dueDate' },
+        mockContext
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data?.items).toHaveLength(1);
+      expect(result.data?.hasMore).toBe(false);
+      expect(mockHistoryRepository.findByEntity).toHaveBeenCalledWith(
+        HistoryEntityType.TASK,
+        testTaskId,
+        { page: 1, limit: 20, field: 'dueDate' }
+      );
+    });
+
+    it('should cap the page size', async () => {
+      mockHistoryRepository.findByEntity.mockResolvedValue({ items: [], total: 250 } as any);
+
+      const result = await historyService.getTaskHistory(
+        testTaskId as any,
+        { page: 2, limit: 500 },
+        mockContext
+      );
+
+      expect(result.data?.limit).toBe(100);
+      expect(result.data?.hasMore).toBe(true);
+    });
+
+    it('should return NOT_FOUND for a missing task', async () => {
+      mockTaskRepository.findById.mockResolvedValue({ success: true, data: null } as any);
+
+      const result = await historyService.getTaskHistory(
+        testTaskId as any,
+        { page: 1, limit: 20 },
+        mockContext
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('NOT_FOUND');
+      expect(mockHistoryRepository.findByEntity).not.toHaveBeenCalled();
+    });
+
+    it('should report tasks of projects the caller cannot see as missing', async () => {
+      mockMembershipService.hasAccess.mockResolvedValue(false);
+
+      const result = await historyService.getTaskHistory(
+        testTaskId as any,
+        { page: 1, limit: 20 },
+        mockContext
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('NOT_FOUND');
+      expect(mockMembershipService.hasAccess).toHaveBeenCalledWith(
+        testProjectId,
+        ProjectRole.VIEWER,
+        mockContext
+      );
+      expect(mockHistoryRepository.findByEntity).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getProjectHistory', () => {
+    it('should return a page of project changes', async () => {
+      const result = await historyService.getProjectHistory(
+        testProjectId as any,
+        { page: 1, limit: 50 },
+        mockContext
+      );
+
+      expect(result.success).toBe(true);
+      expect(mockHistoryRepository.findByEntity).toHaveBeenCalledWith(
+        HistoryEntityType.PROJECT,
+        testProjectId,
+        { page: 1, limit: 50, field: undefined }
+      );
+    });
+
+    it('should return NOT_FOUND for a missing project', async () => {
+      mockProjectRepository.findById.mockResolvedValue(null);
+
+      const result = await historyService.getProjectHistory(
+        testProjectId as any,
+        { page: 1, limit: 50 },
+        mockContext
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('NOT_FOUND');
+    });
+
+    it('should report projects the caller is not a member of as missing', async () => {
+      mockMembershipService.hasAccess.mockResolvedValue(false);
+
+      const result = await historyService.getProjectHistory(
+        testProjectId as any,
+        { page: 1, limit: 50 },
+        mockContext
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('NOT_FOUND');
+      expect(mockHistoryRepository.findByEntity).not.toHaveBeenCalled();
+    });
+  });
+});
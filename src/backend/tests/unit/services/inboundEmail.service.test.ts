@@ -0,0 +1,351 @@
+/**
+ * @fileoverview Unit tests for InboundEmailService, processing raw messages
+ * @version 1.0.0
+ */
+
+// External imports - with versions
+import { describe, beforeEach, afterEach, it, expect, jest } from '@jest/globals'; // v29.x
+import { v4 as uuidv4 } from 'uuid'; // v9.x
+
+// Internal imports
+import { InboundEmailService } from '../../../src/services/inboundEmail.service';
+import { InboundEmailRepository } from '../../../src/repositories/inboundEmail.repository';
+import { TaskService } from '../../../src/services/task.service';
+import { CommentService } from '../../../src/services/comment.service';
+import { AttachmentService } from '../../../src/services/attachment.service';
+import { MembershipService } from '../../../src/services/membership.service';
+import { PermissionService } from '../../../src/services/permission.service';
+import { InboundEmailAction, InboundEmailStatus } from '../../../src/types/inboundEmail.types';
+import { Permission } from '../../../src/types/permission.types';
+import { UserRole } from '../../../src/types/user.types';
+import { buildProjectAddress, buildReplyAddress } from '../../../src/utils/inboundEmail.util';
+
+// The email configuration validates SendGrid settings on load; only the inbound domain matters here
+jest.mock('../../../src/config/email.config', () => ({
+  emailConfig: { inbound: { domain: 'inbound.example.com', maxMessageBytes: 1024 * 1024 } }
+}));
+
+const DOMAIN = 'inbound.example.com';
+
+describe('InboundEmailService', () => {
+  // Mock dependencies
+  let mockInboundEmailRepository: jest.Mocked<InboundEmailRepository>;
+  let mockTaskService: jest.Mocked<TaskService>;
+  let mockCommentService: jest.Mocked<CommentService>;
+  let mockAttachmentService: jest.Mocked<AttachmentService>;
+  let mockMembershipService: jest.Mocked<MembershipService>;
+  let mockPermissionService: jest.Mocked<PermissionService>;
+  let mockLogger: any;
+  let mockMetricsClient: any;
+  let inboundEmailService: InboundEmailService;
+
+  // Test data
+  const testUserId = uuidv4();
+  const testProjectId = uuidv4();
+  const testTaskId = uuidv4();
+  const testCommentId = uuidv4();
+  const memberPermissions = [Permission.TASK_CREATE, Permission.COMMENT_WRITE, Permission.ATTACHMENT_WRITE];
+
+  const buildRaw = (headers: string[], body: string): Buffer =>
+    Buffer.from([
+      'From: Alice <alice@example.com>',
+      'Message-ID: <m-1@mail.example.com>',
+      ...headers,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      body,
+      ''
+    ].join('\r\n'));
+
+  const buildRawWithAttachment = (to: string): Buffer =>
+    Buffer.from([
+      'From: alice@example.com',
+      `To: ${to}`,
+      'Subject: Jammed printer',
+      'Message-ID: <m-2@mail.example.com>',
+      'MIME-Version: 1.0',
+      'Content-Type: multipart/mixed; boundary="b1"',
+      '',
+      '--b1',
+      'Content-Type: text/plain',
+      '',
+      'See the log.',
+      '--b1',
+      'Content-Type: text/plain; name="log.txt"',
+      'Content-Disposition: attachment; filename="log.txt"',
+      '',
+      'paper jam',
+      '--b1--',
+      ''
+    ].join('\r\n'));
+
+  const projectMessage = buildRaw(
+    [`To: ${buildProjectAddress(testProjectId, DOMAIN)}`, 'Subject: Fwd: Printer is broken'],
+    'The printer on floor 2 is jammed.'
+  );
+
+  const replyMessage = buildRaw(
+    [`To: ${buildReplyAddress(testTaskId, DOMAIN)}`, 'Subject: Re: Task update Notification'],
+    'Fixed it this morning.\r\n\r\nOn Mon, Tasks <noreply@example.com> wrote:\r\n> Task updated'
+  );
+
+  beforeEach(() => {
+    mockInboundEmailRepository = {
+      findByMessageKey: jest.fn().mockResolvedValue(null),
+      findSender: jest.fn().mockResolvedValue({ id: testUserId, role: UserRole.TEAM_MEMBER }),
+      findTaskProjectId: jest.fn().mockResolvedValue(testProjectId),
+      save: jest.fn().mockImplementation(async (messageKey: string, data: any) => ({
+        id: 'log-1',
+        messageKey,
+        ...data
+      }))
+    } as unknown as jest.Mocked<InboundEmailRepository>;
+
+    mockTaskService = {
+      createTask: jest.fn().mockImplementation(async (data: any) => ({
+        success: true,
+        data: { id: testTaskId, ...data }
+      }))
+    } as unknown as jest.Mocked<TaskService>;
+
+    mockCommentService = {
+      createComment: jest.fn().mockImplementation(async (taskId: string, data: any) => ({
+        success: true,
+        data: { id: testCommentId, taskId, ...data }
+      }))
+    } as unknown as jest.Mocked<CommentService>;
+
+    mockAttachmentService = {
+      uploadAttachments: jest.fn().mockImplementation(async (_taskId: string, files: any[]) => ({
+        success: true,
+        data: { successful: files.map(file => ({ fileName: file.originalname })), failed: [] }
+      }))
+    } as unknown as jest.Mocked<AttachmentService>;
+
+    mockMembershipService = {
+      hasAccess: jest.fn().mockResolvedValue(true)
+    } as unknown as jest.Mocked<MembershipService>;
+
+    mockPermissionService = {
+      getPermissionsForRole: jest.fn().mockResolvedValue(memberPermissions)
+    } as unknown as jest.Mocked<PermissionService>;
+
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn()
+    };
+
+    mockMetricsClient = {
+      Histogram: jest.fn().mockImplementation(() => ({
+        startTimer: jest.fn().mockReturnValue(jest.fn())
+      })),
+      Counter: jest.fn().mockImplementation(() => ({
+        inc: jest.fn()
+      }))
+    };
+
+    inboundEmailService = new InboundEmailService(
+      mockInboundEmailRepository,
+      mockTaskService,
+      mockCommentService,
+      mockAttachmentService,
+      mockMembershipService,
+      mockPermissionService,
+      mockLogger,
+      mockMetricsClient
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('project addresses', () => {
+    it('should create a task on behalf of the sender', async () => {
+      const result = await inboundEmailService.receive(projectMessage, 'corr-1');
+
+      expect(result.success).toBe(true);
+      expect(result.data).toMatchObject({
+        action: InboundEmailAction.TASK_CREATED,
+        taskId: testTaskId,
+        commentId: null,
+        duplicate: false
+      });
+      expect(mockInboundEmailRepository.findSender).toHaveBeenCalledWith('alice@example.com');
+      expect(mockTaskService.createTask).toHaveBeenCalledWith(
+        expect.objectContaining({
+          title: 'Printer is broken',
+          description: 'The printer on floor 2 is jammed.',
+          projectId: testProjectId
+        }),
+        expect.objectContaining({ userId: testUserId, userRole: UserRole.TEAM_MEMBER, correlationId: 'corr-1' })
+      );
+      expect(mockInboundEmailRepository.save).toHaveBeenCalledWith(
+        'm-1@mail.example.com',
+        expect.objectContaining({ status: InboundEmailStatus.PROCESSED, taskId: testTaskId, userId: testUserId })
+      );
+    });
+
+    it('should upload attachments to the created task', async () => {
+      const result = await inboundEmailService.receive(
+        buildRawWithAttachment(buildProjectAddress(testProjectId, DOMAIN)),
+        'corr-1'
+      );
+
+      expect(result.data?.attachments).toEqual({ uploaded: 1, failed: [] });
+      expect(mockAttachmentService.uploadAttachments).toHaveBeenCalledWith(
+        testTaskId,
+        [expect.objectContaining({ originalname: 'log.txt', mimetype: 'text/plain' })],
+        expect.objectContaining({ userId: testUserId })
+      );
+    });
+
+    it('should report attachments as failed when the sender may not upload', async () => {
+      mockPermissionService.getPermissionsForRole.mockResolvedValue([Permission.TASK_CREATE]);
+
+      const result = await inboundEmailService.receive(
+        buildRawWithAttachment(buildProjectAddress(testProjectId, DOMAIN)),
+        'corr-1'
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data?.attachments.failed).toEqual([
+        { fileName: 'log.txt', error: 'Sender is not allowed to upload attachments' }
+      ]);
+      expect(mockAttachmentService.uploadAttachments).not.toHaveBeenCalled();
+    });
+
+    it('should reject senders without the task creation permission', async () => {
+      mockPermissionService.getPermissionsForRole.mockResolvedValue([Permission.TASK_READ]);
+
+      const result = await inboundEmailService.receive(projectMessage, 'corr-1');
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('FORBIDDEN');
+      expect(mockTaskService.createTask).not.toHaveBeenCalled();
+    });
+
+    it('should log the task service failure as the rejection', async () => {
+      mockTaskService.createTask.mockResolvedValue({
+        success: false,
+        error: { code: 'NOT_FOUND', message: `Project ${testProjectId} not found` }
+      } as any);
+
+      const result = await inboundEmailService.receive(projectMessage, 'corr-1');
+
+      expect(result.error?.code).toBe('NOT_FOUND');
+      expect(mockInboundEmailRepository.save).toHaveBeenCalledWith(
+        'm-1@mail.example.com',
+        expect.objectContaining({ status: InboundEmailStatus.REJECTED, error: `Project ${testProjectId} not found` })
+      );
+    });
+  });
+
+  describe('replies', () => {
+    it('should add the reply text as a comment on the task', async () => {
+      const result = await inboundEmailService.receive(replyMessage, 'corr-1');
+
+      expect(result.data).toMatchObject({
+        action: InboundEmailAction.COMMENT_CREATED,
+        taskId: testTaskId,
+        commentId: testCommentId
+      });
+      expect(mockCommentService.createComment).toHaveBeenCalledWith(
+        testTaskId,
+        { content: 'Fixed it this morning.' },
+        expect.objectContaining({ userId: testUserId })
+      );
+      expect(mockTaskService.createTask).not.toHaveBeenCalled();
+    });
+
+    it('should report tasks outside the sender\'s projects as missing', async () => {
+      mockMembershipService.hasAccess.mockResolvedValue(false);
+
+      const result = await inboundEmailService.receive(replyMessage, 'corr-1');
+
+      expect(result.error?.code).toBe('NOT_FOUND');
+      expect(mockCommentService.createComment).not.toHaveBeenCalled();
+    });
+
+    it('should reject replies with only quoted text', async () => {
+      const result = await inboundEmailService.receive(
+        buildRaw([`To: ${buildReplyAddress(testTaskId, DOMAIN)}`], '> Task updated'),
+        'corr-1'
+      );
+
+      expect(result.error?.code).toBe('VALIDATION_ERROR');
+    });
+  });
+
+  describe('rejections', () => {
+    it('should reject unknown senders', async () => {
+      mockInboundEmailRepository.findSender.mockResolvedValue(null);
+
+      const result = await inboundEmailService.receive(projectMessage, 'corr-1');
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('UNKNOWN_SENDER');
+      expect(mockTaskService.createTask).not.toHaveBeenCalled();
+      expect(mockInboundEmailRepository.save).toHaveBeenCalledWith(
+        'm-1@mail.example.com',
+        expect.objectContaining({ status: InboundEmailStatus.REJECTED, userId: null })
+      );
+    });
+
+    it('should not trust senders whose domain failed DMARC', async () => {
+      const spoofed = buildRaw(
+        [
+          `To: ${buildProjectAddress(testProjectId, DOMAIN)}`,
+          'Authentication-Results: mx.example.com; dmarc=fail header.from=example.com'
+        ],
+        'Please wire the money.'
+      );
+
+      const result = await inboundEmailService.receive(spoofed, 'corr-1');
+
+      expect(result.error?.code).toBe('UNKNOWN_SENDER');
+      expect(mockInboundEmailRepository.findSender).not.toHaveBeenCalled();
+    });
+
+    it('should reject messages without a project or reply address', async () => {
+      const result = await inboundEmailService.receive(
+        buildRaw(['To: someone@example.com'], 'Hello'),
+        'corr-1'
+      );
+
+      expect(result.error?.code).toBe('NOT_FOUND');
+    });
+  });
+
+  describe('duplicates', () => {
+    it('should not process a message twice', async () => {
+      mockInboundEmailRepository.findByMessageKey.mockResolvedValue({
+        id: 'log-1',
+        messageKey: 'm-1@mail.example.com',
+        status: InboundEmailStatus.PROCESSED,
+        action: InboundEmailAction.TASK_CREATED,
+        taskId: testTaskId,
+        commentId: null
+      } as any);
+
+      const result = await inboundEmailService.receive(projectMessage, 'corr-1');
+
+      expect(result.data).toMatchObject({ id: 'log-1', taskId: testTaskId, duplicate: true });
+      expect(mockTaskService.createTask).not.toHaveBeenCalled();
+      expect(mockInboundEmailRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should process a message again after it was rejected', async () => {
+      mockInboundEmailRepository.findByMessageKey.mockResolvedValue({
+        id: 'log-1',
+        status: InboundEmailStatus.REJECTED
+      } as any);
+
+      const result = await inboundEmailService.receive(projectMessage, 'corr-1');
+
+      expect(result.data?.duplicate).toBe(false);
+      expect(mockTaskService.createTask).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * @fileoverview Unit tests for MembershipService
+ * @version 1.0.0
+ */
+
+// External imports - with versions
+import { describe, beforeEach, afterEach, it, expect, jest } from '@jest/globals'; // v29.x
+import { v4 as uuidv4 } from 'uuid'; // v9.x
+
+// Internal imports
+import { MembershipService } from '../../../src/services/membership.service';
+import { MembershipRepository } from '../../../src/repositories/membership.repository';
+import { ProjectRepository } from '../../../src/repositories/project.repository';
+import { UserRepository } from '../../../src/repositories/user.repository';
+import { ITaskContext } from '../../../src/interfaces/task.interface';
+import { ProjectRole } from '../../../src/types/project.types';
+import { UserRole } from '../../../src/types/user.types';
+
+describe('MembershipService', () => {
+  // Mock dependencies
+  let mockMembershipRepository: jest.Mocked<MembershipRepository>;
+  let mockProjectRepository: jest.Mocked<ProjectRepository>;
+  let mockUserRepository: jest.Mocked<UserRepository>;
+  let mockRedisClient: any;
+  let mockLogger: any;
+  let mockMetricsClient: any;
+  let membershipService: MembershipService;
+
+  // Test data
+  const testUserId = uuidv4();
+  const testMemberId = uuidv4();
+  const testProjectId = uuidv4();
+
+  const buildContext = (userRole: UserRole): ITaskContext => ({
+    userId: testUserId,
+    userRole,
+    correlationId: 'test-correlation-id',
+    requestId: 'test-request-id',
+    includeSoftDeleted: false,
+    telemetry: {
+      operationStart: new Date(),
+      operationName: 'test',
+      metrics: {},
+      tags: {}
+    }
+  });
+
+  const memberContext = buildContext(UserRole.TEAM_MEMBER);
+
+  const buildMember = (userId: string, role: ProjectRole) => ({
+    id: uuidv4(),
+    projectId: testProjectId,
+    userId,
+    role,
+    addedBy: null,
+    joinedAt: new Date()
+  });
+
+  // Memberships keyed by user, consulted by findMembership
+  let memberships: Record<string, ProjectRole>;
+
+  beforeEach(() => {
+    memberships = {
+      [testUserId]: ProjectRole.MANAGER,
+      [testMemberId]: ProjectRole.CONTRIBUTOR
+    };
+
+    mockMembershipRepository = {
+      findByProject: jest.fn().mockResolvedValue([]),
+      findMembership: jest.fn().mockImplementation(async (_projectId: string, userId: string) =>
+        memberships[userId] ? buildMember(userId, memberships[userId]) : null
+      ),
+      findProjectIds: jest.fn().mockResolvedValue([testProjectId]),
+      upsert: jest.fn().mockImplementation(async (_projectId: string, userId: string, role: ProjectRole) =>
+        buildMember(userId, role)
+      ),
+      remove: jest.fn().mockResolvedValue(undefined),
+      countOwners: jest.fn().mockResolvedValue(1)
+    } as unknown as jest.Mocked<MembershipRepository>;
+
+    mockProjectRepository = {
+      findById: jest.fn().mockResolvedValue({ id: testProjectId })
+    } as unknown as jest.Mocked<ProjectRepository>;
+
+    mockUserRepository = {
+      findById: jest.fn().mockResolvedValue({ id: testMemberId })
+    } as unknown as jest.Mocked<UserRepository>;
+
+    mockRedisClient = {
+      del: jest.fn()
+    };
+
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn()
+    };
+
+    mockMetricsClient = {
+      Histogram: jest.fn().mockImplementation(() => ({
+        startTimer: jest.fn().mockReturnValue(jest.fn())
+      })),
+      Counter: jest.fn().mockImplementation(() => ({
+        inc: jest.fn()
+      }))
+    };
+
+    membershipService = new MembershipService(
+      mockMembershipRepository,
+      mockProjectRepository,
+      mockUserRepository,
+      mockRedisClient,
+      mockLogger,
+      mockMetricsClient
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('listMembers', () => {
+    it('should report projects the caller does not belong to as missing', async () => {
+      delete memberships[testUserId];
+
+      const result = await membershipService.listMembers(testProjectId as any, memberContext);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('NOT_FOUND');
+      expect(mockMembershipRepository.findByProject).not.toHaveBeenCalled();
+    });
+
+    it('should list members for unrestricted roles without a membership', async () => {
+      delete memberships[testUserId];
+
+      const result = await membershipService.listMembers(
+        testProjectId as any,
+        buildContext(UserRole.ADMIN)
+      );
+
+      expect(result.success).toBe(true);
+      expect(mockMembershipRepository.findByProject).toHaveBeenCalledWith(testProjectId);
+    });
+  });
+
+  describe('addMember', () => {
+    it('should let a manager add a viewer', async () => {
+      const result = await membershipService.addMember(
+        testProjectId as any,
+        { userId: testMemberId as any, role: ProjectRole.VIEWER },
+        memberContext
+      );
+
+      expect(result.success).toBe(true);
+      expect(mockMembershipRepository.upsert).toHaveBeenCalledWith(
+        testProjectId,
+        testMemberId,
+        ProjectRole.VIEWER,
+        testUserId
+      );
+      expect(mockRedisClient.del).toHaveBeenCalledWith(`project:${testProjectId}`);
+    });
+
+    it('should reject a contributor adding members', async () => {
+      memberships[testUserId] = ProjectRole.CONTRIBUTOR;
+
+      const result = await membershipService.addMember(
+        testProjectId as any,
+        { userId: testMemberId as any, role: ProjectRole.VIEWER },
+        memberContext
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('FORBIDDEN');
+      expect(mockMembershipRepository.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should only let owners grant ownership', async () => {
+      const result = await membershipService.addMember(
+        testProjectId as any,
+        { userId: testMemberId as any, role: ProjectRole.OWNER },
+        memberContext
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('FORBIDDEN');
+    });
+
+    it('should refuse to demote the last owner', async () => {
+      memberships[testMemberId] = ProjectRole.OWNER;
+
+      const result = await membershipService.addMember(
+        testProjectId as any,
+        { userId: testMemberId as any, role: ProjectRole.MANAGER },
+        buildContext(UserRole.ADMIN)
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('CONFLICT');
+    });
+
+    it('should reject unknown users', async () => {
+      mockUserRepository.findById.mockResolvedValue(null);
+
+      const result = await membershipService.addMember(
+        testProjectId as any,
+        { userId: testMemberId as any, role: ProjectRole.VIEWER },
+        memberContext
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('NOT_FOUND');
+    });
+  });
+
+  describe('removeMember', () => {
+    it('should let members remove themselves', async () => {
+      memberships[testUserId] = ProjectRole.VIEWER;
+
+      const result = await membershipService.removeMember(
+        testProjectId as any,
+        testUserId as any,
+        memberContext
+      );
+
+      expect(result.success).toBe(true);
+      expect(mockMembershipRepository.remove).toHaveBeenCalledWith(testProjectId, testUserId);
+    });
+
+    it('should refuse to remove the last owner', async () => {
+      memberships[testUserId] = ProjectRole.OWNER;
+
+      const result = await membershipService.removeMember(
+        testProjectId as any,
+        testUserId as any,
+        memberContext
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('CONFLICT');
+      expect(mockMembershipRepository.remove).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('access checks', () => {
+    it('should compare project roles by rank', async () => {
+      await expect(membershipService.hasAccess(testProjectId as any, ProjectRole.CONTRIBUTOR, memberContext))
+        .resolves.toBe(true);
+      await expect(membershipService.hasAccess(testProjectId as any, ProjectRole.OWNER, memberContext))
+        .resolves.toBe(false);
+    });
+
+    it('should only limit restricted roles to their projects', async () => {
+      await expect(membershipService.getAccessibleProjectIds(memberContext))
+        .resolves.toEqual([testProjectId]);
+      await expect(membershipService.getAccessibleProjectIds(buildContext(UserRole.PROJECT_MANAGER)))
+        .resolves.toBeNull();
+    });
+  });
+});
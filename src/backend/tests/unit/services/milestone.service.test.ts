@@ -0,0 +1,266 @@
+/**
+ * @fileoverview Unit tests for MilestoneService
+ * @version 1.0.0
+ */
+
+// External imports - with versions
+import { describe, beforeEach, afterEach, it, expect, jest } from '@jest/globals'; // v29.x
+import { v4 as uuidv4 } from 'uuid'; // v9.x
+
+// Internal imports
+import { MilestoneService } from '../../../src/services/milestone.service';
+import { MilestoneRepository } from '../../../src/repositories/milestone.repository';
+import { ProjectRepository } from '../../../src/repositories/project.repository';
+import { MembershipService } from '../../../src/services/membership.service';
+import { WebSocketService } from '../../../src/services/websocket.service';
+import { ITaskContext } from '../../../src/interfaces/task.interface';
+import { IMilestone } from '../../../src/interfaces/milestone.interface';
+import { MilestoneStatus } from '../../../src/types/milestone.types';
+import { ProjectRole } from '../../../src/types/project.types';
+import { UserRole } from '../../../src/types/user.types';
+import { WorkflowCategory } from '../../../src/types/workflow.types';
+import { WebSocketEventType } from '../../../src/websocket/types';
+
+describe('MilestoneService', () => {
+  // Mock dependencies
+  let mockMilestoneRepository: jest.Mocked<MilestoneRepository>;
+  let mockProjectRepository: jest.Mocked<ProjectRepository>;
+  let mockMembershipService: jest.Mocked<MembershipService>;
+  let mockWebSocketService: jest.Mocked<WebSocketService>;
+  let mockLogger: any;
+  let mockMetricsClient: any;
+  let milestoneService: MilestoneService;
+
+  // Test data
+  const testUserId = uuidv4();
+  const testProjectId = uuidv4();
+  const testTaskId = uuidv4();
+
+  const context: ITaskContext = {
+    userId: testUserId,
+    userRole: UserRole.TEAM_MEMBER,
+    correlationId: 'test-correlation-id',
+    requestId: 'test-request-id',
+    includeSoftDeleted: false,
+    telemetry: {
+      operationStart: new Date(),
+      operationName: 'test',
+      metrics: {},
+      tags: {}
+    }
+  };
+
+  const buildMilestone = (overrides: Partial<IMilestone> = {}): IMilestone => ({
+    id: uuidv4() as any,
+    projectId: testProjectId as any,
+    name: 'Beta release',
+    description: null,
+    dueDate: new Date('2099-06-30'),
+    status: MilestoneStatus.ON_TRACK,
+    statusChangedAt: null,
+    taskIds: [testTaskId as any],
+    taskCount: 1,
+    completedCount: 0,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    createdBy: testUserId as any,
+    ...overrides
+  });
+
+  // Project role of the caller, consulted by hasAccess
+  let projectRole: ProjectRole | null;
+
+  beforeEach(() => {
+    projectRole = ProjectRole.MANAGER;
+
+    mockMilestoneRepository = {
+      findByProject: jest.fn().mockResolvedValue([]),
+      findById: jest.fn(),
+      findTaskStates: jest.fn().mockImplementation(async (_projectId: string, taskIds: string[]) =>
+        taskIds.map(id => ({ id, statusCategory: WorkflowCategory.DOING, dueDate: null, deletedAt: null }))
+      ),
+      create: jest.fn().mockImplementation(async (_projectId: string, data: any, status: MilestoneStatus) =>
+        buildMilestone({ ...data, status })
+      ),
+      update: jest.fn().mockImplementation(async (milestoneId: string, data: any, status: MilestoneStatus) =>
+        buildMilestone({ id: milestoneId as any, ...data, status })
+      ),
+      delete: jest.fn().mockResolvedValue(undefined),
+      findStatusInputsByTask: jest.fn().mockResolvedValue([]),
+      findUnsettled: jest.fn().mockResolvedValue([]),
+      setStatus: jest.fn().mockResolvedValue(true)
+    } as unknown as jest.Mocked<MilestoneRepository>;
+
+    mockProjectRepository = {
+      findById: jest.fn().mockResolvedValue({ id: testProjectId })
+    } as unknown as jest.Mocked<ProjectRepository>;
+
+    mockMembershipService = {
+      hasAccess: jest.fn().mockImplementation(async (_projectId: string, required: ProjectRole) => {
+        const rank = [ProjectRole.VIEWER, ProjectRole.CONTRIBUTOR, ProjectRole.MANAGER, ProjectRole.OWNER];
+        return projectRole !== null && rank.indexOf(projectRole) >= rank.indexOf(required);
+      })
+    } as unknown as jest.Mocked<MembershipService>;
+
+    mockWebSocketService = {
+      broadcast: jest.fn().mockResolvedValue(undefined)
+    } as unknown as jest.Mocked<WebSocketService>;
+
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn()
+    };
+
+    mockMetricsClient = {
+      Histogram: jest.fn().mockImplementation(() => ({
+        startTimer: jest.fn().mockReturnValue(jest.fn())
+      })),
+      Counter: jest.fn().mockImplementation(() => ({
+        inc: jest.fn()
+      }))
+    };
+
+    milestoneService = new MilestoneService(
+      mockMilestoneRepository,
+      mockProjectRepository,
+      mockMembershipService,
+      mockWebSocketService,
+      mockLogger,
+      mockMetricsClient
+    );
+  });
+
+  afterEach(() => {
+    milestoneService.stop();
+    jest.clearAllMocks();
+  });
+
+  describe('createMilestone', () => {
+    it('should create a milestone linked to tasks of the project', async () => {
+      const result = await milestoneService.createMilestone(testProjectId as any, {
+        name: 'Beta release',
+        dueDate: new Date('2099-06-30'),
+        taskIds: [testTaskId as any]
+      }, context);
+
+      expect(result.success).toBe(true);
+      expect(mockMilestoneRepository.create).toHaveBeenCalledWith(
+        testProjectId,
+        expect.objectContaining({ taskIds: [testTaskId] }),
+        MilestoneStatus.ON_TRACK,
+        testUserId
+      );
+    });
+
+    it('should reject contributors', async () => {
+      projectRole = ProjectRole.CONTRIBUTOR;
+
+      const result = await milestoneService.createMilestone(testProjectId as any, {
+        name: 'Beta release',
+        dueDate: new Date('2099-06-30')
+      }, context);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('FORBIDDEN');
+      expect(mockMilestoneRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject tasks that are not in the project', async () => {
+      const foreignTaskId = uuidv4();
+      mockMilestoneRepository.findTaskStates.mockResolvedValue([
+        { id: testTaskId as any, statusCategory: WorkflowCategory.TODO, dueDate: null, deletedAt: null }
+      ]);
+
+      const result = await milestoneService.createMilestone(testProjectId as any, {
+        name: 'Beta release',
+        dueDate: new Date('2099-06-30'),
+        taskIds: [testTaskId as any, foreignTaskId as any]
+      }, context);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('VALIDATION_ERROR');
+      expect(result.error?.details).toEqual({ taskIds: [foreignTaskId] });
+    });
+  });
+
+  describe('updateMilestone', () => {
+    it('should announce a status change caused by moving the date', async () => {
+      const milestone = buildMilestone();
+      mockMilestoneRepository.findById.mockResolvedValue(milestone);
+
+      const result = await milestoneService.updateMilestone(
+        testProjectId as any,
+        milestone.id,
+        { dueDate: new Date('2020-01-31') },
+        context
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data?.status).toBe(MilestoneStatus.MISSED);
+      expect(mockWebSocketService.broadcast).toHaveBeenCalledWith(expect.objectContaining({
+        type: WebSocketEventType.PROJECT_UPDATE,
+        payload: expect.objectContaining({
+          milestoneId: milestone.id,
+          status: MilestoneStatus.MISSED,
+          previousStatus: MilestoneStatus.ON_TRACK
+        })
+      }));
+    });
+
+    it('should stay quiet when the status is unchanged', async () => {
+      const milestone = buildMilestone();
+      mockMilestoneRepository.findById.mockResolvedValue(milestone);
+
+      await milestoneService.updateMilestone(testProjectId as any, milestone.id, { name: 'GA' }, context);
+
+      expect(mockWebSocketService.broadcast).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refreshTaskMilestones', () => {
+    it('should store and announce milestones whose status changed', async () => {
+      const milestone = buildMilestone();
+      mockMilestoneRepository.findStatusInputsByTask.mockResolvedValue([{
+        id: milestone.id,
+        projectId: milestone.projectId,
+        name: milestone.name,
+        dueDate: milestone.dueDate,
+        status: MilestoneStatus.ON_TRACK,
+        tasks: [{ statusCategory: WorkflowCategory.DOING, dueDate: new Date('2020-01-01'), deletedAt: null }]
+      }]);
+
+      await milestoneService.refreshTaskMilestones(testTaskId as any, context);
+
+      expect(mockMilestoneRepository.setStatus).toHaveBeenCalledWith(
+        milestone.id,
+        MilestoneStatus.ON_TRACK,
+        MilestoneStatus.AT_RISK
+      );
+      expect(mockWebSocketService.broadcast).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not announce a change another process already stored', async () => {
+      mockMilestoneRepository.setStatus.mockResolvedValue(false);
+      mockMilestoneRepository.findStatusInputsByTask.mockResolvedValue([{
+        id: uuidv4() as any,
+        projectId: testProjectId as any,
+        name: 'Beta release',
+        dueDate: new Date('2020-01-31'),
+        status: MilestoneStatus.AT_RISK,
+        tasks: [{ statusCategory: WorkflowCategory.TODO, dueDate: null, deletedAt: null }]
+      }]);
+
+      await milestoneService.refreshTaskMilestones(testTaskId as any, context);
+
+      expect(mockWebSocketService.broadcast).not.toHaveBeenCalled();
+    });
+
+    it('should log rather than throw on failure', async () => {
+      mockMilestoneRepository.findStatusInputsByTask.mockRejectedValue(new Error('connection lost'));
+
+      await expect(milestoneService.refreshTaskMilestones(testTaskId as any, context)).resolves.toBeUndefined();
+      expect(mockLogger.error).toHaveBeenCalled();
+    });
+  });
+});
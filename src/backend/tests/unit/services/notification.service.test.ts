@@ -0,0 +1,269 @@
+/**
+ * @fileoverview Unit tests for NotificationService
+ * @version 1.0.0
+ */
+
+// External imports - with versions
+import { describe, beforeEach, afterEach, it, expect, jest } from '@jest/globals'; // v29.x
+import { v4 as uuidv4 } from 'uuid'; // v9.x
+
+// Internal imports
+import { NotificationService } from '../../../src/services/notification.service';
+import { NotificationRepository } from '../../../src/repositories/notification.repository';
+import { WebSocketService } from '../../../src/services/websocket.service';
+import { ITaskContext } from '../../../src/interfaces/task.interface';
+import { INotification, ICreateNotificationDTO } from '../../../src/interfaces/notification.interface';
+import { NotificationType } from '../../../src/types/notification.types';
+import { WebSocketEventType } from '../../../src/websocket/types';
+import { getDueSoonKey } from '../../../src/utils/notification.util';
+
+describe('NotificationService', () => {
+  // Mock dependencies
+  let mockNotificationRepository: jest.Mocked<NotificationRepository>;
+  let mockWebSocketService: jest.Mocked<WebSocketService>;
+  let mockLogger: any;
+  let mockMetricsClient: any;
+  let notificationService: NotificationService;
+
+  // Test data
+  const testUserId = uuidv4() as any;
+  const otherUserId = uuidv4() as any;
+  const testTaskId = uuidv4() as any;
+  const testProjectId = uuidv4() as any;
+
+  const context: ITaskContext = {
+    userId: testUserId,
+    correlationId: 'test-correlation-id',
+    requestId: 'test-request-id',
+    includeSoftDeleted: false,
+    telemetry: {
+      operationStart: new Date(),
+      operationName: 'test',
+      metrics: {},
+      tags: {}
+    }
+  };
+
+  const buildNotification = (data: Partial<ICreateNotificationDTO> = {}): INotification => ({
+    id: uuidv4() as any,
+    userId: testUserId,
+    type: NotificationType.ASSIGNMENT,
+    title: 'Ship release',
+    message: 'Assigned to you',
+    taskId: testTaskId,
+    projectId: testProjectId,
+    commentId: null,
+    actorId: otherUserId,
+    readAt: null,
+    createdAt: new Date(),
+    ...data
+  } as INotification);
+
+  beforeEach(() => {
+    mockNotificationRepository = {
+      create: jest.fn().mockImplementation(async (data: any) => buildNotification(data)),
+      findById: jest.fn(),
+      findByUser: jest.fn(),
+      countUnread: jest.fn().mockResolvedValue(3),
+      markRead: jest.fn(),
+      markAllRead: jest.fn(),
+      findRecipients: jest.fn().mockImplementation(async (userIds: any) => userIds),
+      findTaskSummary: jest.fn().mockResolvedValue({ title: 'Ship release', projectId: testProjectId }),
+      findDueTasks: jest.fn().mockResolvedValue([]),
+      findByDedupeKeys: jest.fn().mockResolvedValue([])
+    } as unknown as jest.Mocked<NotificationRepository>;
+
+    mockWebSocketService = {
+      sendToUser: jest.fn()
+    } as unknown as jest.Mocked<WebSocketService>;
+
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn()
+    };
+
+    mockMetricsClient = {
+      Histogram: jest.fn().mockImplementation(() => ({
+        startTimer: jest.fn().mockReturnValue(jest.fn())
+      })),
+      Counter: jest.fn().mockImplementation(() => ({
+        inc: jest.fn()
+      }))
+    };
+
+    notificationService = new NotificationService(
+      mockNotificationRepository,
+      mockWebSocketService,
+      mockLogger,
+      mockMetricsClient
+    );
+  });
+
+  afterEach(() => {
+    notificationService.stop();
+    jest.clearAllMocks();
+  });
+
+  describe('listNotifications', () => {
+    it('should return a page of the caller\'s notifications with the unread count', async () => {
+      const items = [buildNotification()];
+      mockNotificationRepository.findByUser.mockResolvedValue({ items, total: 25 });
+
+      const result = await notificationService.listNotifications(
+        { unreadOnly: true, page: 1, limit: 20 },
+        context
+      );
+
+      expect(mockNotificationRepository.findByUser).toHaveBeenCalledWith(
+        testUserId,
+        { unreadOnly: true, page: 1, limit: 20 }
+      );
+      expect(result.data).toEqual({
+        items,
+        total: 25,
+        page: 1,
+        limit: 20,
+        hasMore: true,
+        unreadCount: 3
+      });
+    });
+  });
+
+  describe('markRead', () => {
+    it('should mark one of the caller\'s notifications as read', async () => {
+      const notification = buildNotification({ readAt: new Date() } as any);
+      mockNotificationRepository.markRead.mockResolvedValue(notification);
+
+      const result = await notificationService.markRead(notification.id, context);
+
+      expect(result).toEqual({ success: true, data: notification });
+      expect(mockNotificationRepository.markRead).toHaveBeenCalledWith(notification.id, testUserId);
+    });
+
+    it('should return NOT_FOUND for notifications of other users', async () => {
+      mockNotificationRepository.markRead.mockResolvedValue(null);
+
+      const result = await notificationService.markRead(uuidv4() as any, context);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('NOT_FOUND');
+    });
+  });
+
+  describe('markAllRead', () => {
+    it('should report how many notifications were marked', async () => {
+      mockNotificationRepository.markAllRead.mockResolvedValue(4);
+
+      const result = await notificationService.markAllRead(context);
+
+      expect(result).toEqual({ success: true, data: { updated: 4 } });
+      expect(mockNotificationRepository.markAllRead).toHaveBeenCalledWith(testUserId);
+    });
+  });
+
+  describe('notify', () => {
+    it('should store notifications and push them to their recipient', async () => {
+      await notificationService.notifyTaskChange(
+        {
+          id: testTaskId,
+          title: 'Ship release',
+          projectId: testProjectId,
+          assigneeId: testUserId,
+          createdBy: otherUserId
+        },
+        { assigned: true },
+        otherUserId
+      );
+
+      expect(mockNotificationRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+        userId: testUserId,
+        type: NotificationType.ASSIGNMENT,
+        taskId: testTaskId
+      }));
+      expect(mockWebSocketService.sendToUser).toHaveBeenCalledWith(
+        testUserId,
+        expect.objectContaining({
+          type: WebSocketEventType.NOTIFICATION_NEW,
+          payload: expect.objectContaining({
+            type: NotificationType.ASSIGNMENT,
+            taskId: testTaskId,
+            unreadCount: 3
+          })
+        })
+      );
+    });
+
+    it('should skip recipients that cannot see the project', async () => {
+      mockNotificationRepository.findRecipients.mockResolvedValue([]);
+
+      await notificationService.notifyComment(
+        { id: uuidv4() as any, taskId: testTaskId, authorId: otherUserId, content: 'Ping' },
+        [testUserId],
+        null
+      );
+
+      expect(mockNotificationRepository.findRecipients).toHaveBeenCalledWith([testUserId], testProjectId);
+      expect(mockNotificationRepository.create).not.toHaveBeenCalled();
+      expect(mockWebSocketService.sendToUser).not.toHaveBeenCalled();
+    });
+
+    it('should keep notifications when pushing them fails', async () => {
+      mockWebSocketService.sendToUser.mockRejectedValue(new Error('Redis unavailable'));
+
+      await notificationService.notify([{
+        userId: testUserId,
+        type: NotificationType.MENTION,
+        title: 'Ship release',
+        message: 'Ping',
+        projectId: testProjectId
+      }]);
+
+      expect(mockNotificationRepository.create).toHaveBeenCalledTimes(1);
+      expect(mockLogger.error).toHaveBeenCalledWith('Failed to push notification', expect.anything());
+    });
+
+    it('should never fail the caller', async () => {
+      mockNotificationRepository.findRecipients.mockRejectedValue(new Error('Database unavailable'));
+
+      await expect(notificationService.notify([{
+        userId: testUserId,
+        type: NotificationType.MENTION,
+        title: 'Ship release',
+        message: 'Ping'
+      }])).resolves.toBeUndefined();
+    });
+  });
+
+  describe('notifyDueSoon', () => {
+    const now = new Date('2025-06-01T09:00:00.000Z');
+    const dueDate = new Date('2025-06-01T17:00:00.000Z');
+    const otherTaskId = uuidv4() as any;
+
+    it('should remind assignees once per due date', async () => {
+      mockNotificationRepository.findDueTasks.mockResolvedValue([
+        { id: testTaskId, title: 'Ship release', projectId: testProjectId, assigneeId: testUserId, dueDate },
+        { id: otherTaskId, title: 'Write notes', projectId: testProjectId, assigneeId: testUserId, dueDate }
+      ]);
+      mockNotificationRepository.findByDedupeKeys.mockResolvedValue([
+        { userId: testUserId, dedupeKey: getDueSoonKey(testTaskId, dueDate) }
+      ]);
+
+      const sent = await notificationService.notifyDueSoon(now);
+
+      expect(sent).toBe(1);
+      expect(mockNotificationRepository.findDueTasks).toHaveBeenCalledWith(
+        now,
+        new Date('2025-06-02T09:00:00.000Z'),
+        100,
+        undefined
+      );
+      expect(mockNotificationRepository.create).toHaveBeenCalledTimes(1);
+      expect(mockNotificationRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+        type: NotificationType.DUE_SOON,
+        taskId: otherTaskId,
+        dedupeKey: getDueSoonKey(otherTaskId, dueDate)
+      }));
+    });
+  });
+});
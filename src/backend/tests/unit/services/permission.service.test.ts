@@ -0,0 +1,168 @@
+/**
+ * @fileoverview Unit tests for PermissionService
+ * @version 1.0.0
+ */
+
+// External imports - with versions
+import { describe, beforeEach, afterEach, it, expect, jest } from '@jest/globals'; // v29.x
+import { v4 as uuidv4 } from 'uuid'; // v9.x
+
+// Internal imports
+import { PermissionService } from '../../../src/services/permission.service';
+import { PermissionRepository } from '../../../src/repositories/permission.repository';
+import { ITaskContext } from '../../../src/interfaces/task.interface';
+import { Permission } from '../../../src/types/permission.types';
+import { UserRole } from '../../../src/types/user.types';
+import { DEFAULT_ROLE_PERMISSIONS } from '../../../src/utils/permission.util';
+
+describe('PermissionService', () => {
+  // Mock dependencies
+  let mockPermissionRepository: jest.Mocked<PermissionRepository>;
+  let mockRedisClient: any;
+  let mockLogger: any;
+  let mockMetricsClient: any;
+  let permissionService: PermissionService;
+
+  // Test data
+  const testUserId = uuidv4();
+
+  const buildContext = (userRole: UserRole): ITaskContext => ({
+    userId: testUserId,
+    userRole,
+    correlationId: 'test-correlation-id',
+    requestId: 'test-request-id',
+    includeSoftDeleted: false,
+    telemetry: {
+      operationStart: new Date(),
+      operationName: 'test',
+      metrics: {},
+      tags: {}
+    }
+  });
+
+  const adminContext = buildContext(UserRole.ADMIN);
+
+  beforeEach(() => {
+    mockPermissionRepository = {
+      findAll: jest.fn().mockResolvedValue([
+        { role: UserRole.TEAM_MEMBER, permission: Permission.TASK_READ },
+        { role: UserRole.TEAM_MEMBER, permission: Permission.TASK_UPDATE_OWN },
+        { role: UserRole.TEAM_MEMBER, permission: 'legacy:removed' }
+      ]),
+      replaceForRole: jest.fn().mockResolvedValue(undefined)
+    } as unknown as jest.Mocked<PermissionRepository>;
+
+    mockRedisClient = {
+      get: jest.fn().mockResolvedValue(null),
+      setex: jest.fn(),
+      del: jest.fn()
+    };
+
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn()
+    };
+
+    mockMetricsClient = {
+      Histogram: jest.fn().mockImplementation(() => ({
+        startTimer: jest.fn().mockReturnValue(jest.fn())
+      })),
+      Counter: jest.fn().mockImplementation(() => ({
+        inc: jest.fn()
+      }))
+    };
+
+    permissionService = new PermissionService(
+      mockPermissionRepository,
+      mockRedisClient,
+      mockLogger,
+      mockMetricsClient
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getPermissionsForRole', () => {
+    it('should resolve the stored mapping and cache it', async () => {
+      const permissions = await permissionService.getPermissionsForRole(UserRole.TEAM_MEMBER);
+
+      expect(permissions).toEqual([Permission.TASK_READ, Permission.TASK_UPDATE_OWN]);
+      expect(mockRedisClient.setex).toHaveBeenCalledWith('permissions:roles', 300, expect.any(String));
+    });
+
+    it('should fall back to the defaults when nothing is stored', async () => {
+      mockPermissionRepository.findAll.mockResolvedValue([]);
+
+      const permissions = await permissionService.getPermissionsForRole(UserRole.GUEST);
+
+      expect(permissions).toEqual(DEFAULT_ROLE_PERMISSIONS[UserRole.GUEST]);
+    });
+
+    it('should serve cached mappings without querying the database', async () => {
+      mockRedisClient.get.mockResolvedValue(JSON.stringify({ [UserRole.GUEST]: [Permission.TASK_READ] }));
+
+      const permissions = await permissionService.getPermissionsForRole(UserRole.GUEST);
+
+      expect(permissions).toEqual([Permission.TASK_READ]);
+      expect(mockPermissionRepository.findAll).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('setRolePermissions', () => {
+    it('should replace the permissions of a role and invalidate the cache', async () => {
+      const result = await permissionService.setRolePermissions(
+        UserRole.TEAM_LEAD,
+        { permissions: [Permission.TASK_READ, Permission.TASK_READ, Permission.TASK_CREATE] },
+        adminContext
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data?.permissions).toEqual([Permission.TASK_READ, Permission.TASK_CREATE]);
+      expect(mockPermissionRepository.replaceForRole).toHaveBeenCalledWith(
+        UserRole.TEAM_LEAD,
+        [Permission.TASK_READ, Permission.TASK_CREATE],
+        testUserId
+      );
+      expect(mockRedisClient.del).toHaveBeenCalledWith('permissions:roles');
+    });
+
+    it('should reject unknown permissions', async () => {
+      const result = await permissionService.setRolePermissions(
+        UserRole.TEAM_LEAD,
+        { permissions: ['task:archive' as Permission] },
+        adminContext
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('VALIDATION_ERROR');
+      expect(mockPermissionRepository.replaceForRole).not.toHaveBeenCalled();
+    });
+
+    it('should keep admins able to manage permissions', async () => {
+      const result = await permissionService.setRolePermissions(
+        UserRole.ADMIN,
+        { permissions: [Permission.TASK_READ] },
+        adminContext
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('CONFLICT');
+    });
+  });
+
+  describe('getEffectivePermissions', () => {
+    it('should return the permissions of the caller\'s role', async () => {
+      const result = await permissionService.getEffectivePermissions(buildContext(UserRole.TEAM_MEMBER));
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual({
+        userId: testUserId,
+        role: UserRole.TEAM_MEMBER,
+        permissions: [Permission.TASK_READ, Permission.TASK_UPDATE_OWN]
+      });
+    });
+  });
+});
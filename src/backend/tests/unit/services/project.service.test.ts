@@ -11,9 +11,15 @@ import { UUID } from 'crypto';
 // Internal imports with mocking
 import { ProjectService } from '../../src/services/project.service';
 import { ProjectRepository } from '../../src/repositories/project.repository';
+import { TaskRepository } from '../../src/repositories/task.repository';
+import { MembershipRepository } from '../../src/repositories/membership.repository';
 import { CacheService } from '../../src/services/cache.service';
 import { WebSocketService } from '../../src/services/websocket.service';
-import { ProjectStatus, ProjectPriority } from '../../src/types/project.types';
+import { WebhookService } from '../../src/services/webhook.service';
+import { ProjectStatus, ProjectPriority, ProjectRole } from '../../src/types/project.types';
+import { UserRole } from '../../src/types/user.types';
+import { TaskStatus } from '../../src/types/task.types';
+import { WorkflowCategory } from '../../src/types/workflow.types';
 import { ValidationError, NotFoundError, UnauthorizedError } from '../../src/utils/errors';
 
 // Mock all dependencies
@@ -30,6 +36,9 @@ describe('ProjectService', () => {
   let mockProjectRepository: jest.Mocked<ProjectRepository>;
   let mockCacheService: jest.Mocked<CacheService>;
   let mockWebSocketService: jest.Mocked<WebSocketService>;
+  let mockTaskRepository: jest.Mocked<TaskRepository>;
+  let mockMembershipRepository: jest.Mocked<MembershipRepository>;
+  let mockWebhookService: jest.Mocked<WebhookService>;
   let mockLogger: any;
 
   // Test data
@@ -58,6 +67,17 @@ describe('ProjectService', () => {
     mockProjectRepository = jest.mocked(ProjectRepository);
     mockCacheService = jest.mocked(CacheService);
     mockWebSocketService = jest.mocked(WebSocketService);
+    mockTaskRepository = {
+      findTopLevelByProject: jest.fn(),
+      findProgressTree: jest.fn(),
+      findEffortByProject: jest.fn()
+    } as unknown as jest.Mocked<TaskRepository>;
+    mockMembershipRepository = {
+      findMembership: jest.fn().mockResolvedValue(null)
+    } as unknown as jest.Mocked<MembershipRepository>;
+    mockWebhookService = {
+      dispatchEvent: jest.fn().mockResolvedValue(undefined)
+    } as unknown as jest.Mocked<WebhookService>;
     mockLogger = {
       debug: jest.fn(),
       info: jest.fn(),
@@ -69,7 +89,10 @@ describe('ProjectService', () => {
       mockProjectRepository,
       mockCacheService,
       mockWebSocketService,
-      mockLogger
+      mockLogger,
+      mockTaskRepository,
+      mockMembershipRepository,
+      mockWebhookService
     );
   });
 
@@ -108,6 +131,12 @@ describe('ProjectService', () => {
       });
       expect(mockCacheService.set).toHaveBeenCalled();
       expect(mockWebSocketService.broadcast).toHaveBeenCalled();
+      expect(mockWebhookService.dispatchEvent).toHaveBeenCalledWith(
+        'project.created',
+        testProjectId,
+        { project: testProject },
+        testUserId
+      );
       expect(duration).toBeLessThan(PERFORMANCE_THRESHOLD);
     }, TEST_TIMEOUT);
 
@@ -171,6 +200,23 @@ describe('ProjectService', () => {
         .toThrow('Version mismatch');
     });
 
+    it('should allow updates by project managers who do not own the project', async () => {
+      // Arrange
+      const managerId = 'manager-user' as UUID;
+      mockProjectRepository.findById.mockResolvedValue(testProject);
+      mockProjectRepository.update.mockResolvedValue(testProject);
+      mockMembershipRepository.findMembership.mockResolvedValue({
+        role: ProjectRole.MANAGER
+      } as any);
+
+      // Act
+      await projectService.updateProject(testProjectId, updateProjectDTO, managerId, UserRole.TEAM_MEMBER);
+
+      // Assert
+      expect(mockMembershipRepository.findMembership).toHaveBeenCalledWith(testProjectId, managerId);
+      expect(mockProjectRepository.update).toHaveBeenCalled();
+    });
+
     it('should handle unauthorized updates', async () => {
       // Arrange
       const unauthorizedUserId = 'unauthorized-user' as UUID;
@@ -227,6 +273,119 @@ describe('ProjectService', () => {
     });
   });
 
+  describe('getProjectCompletion', () => {
+    it('should count subtasks and checklist items towards completion', async () => {
+      // Arrange: A is done, B has 1 of 2 subtasks done, C has 3 of 4 checklist items checked
+      mockTaskRepository.findTopLevelByProject.mockResolvedValue([
+        { id: 'task-a', parentId: null, status: TaskStatus.DONE, statusCategory: WorkflowCategory.DONE },
+        { id: 'task-b', parentId: null, status: TaskStatus.IN_PROGRESS, statusCategory: WorkflowCategory.DOING },
+        { id: 'task-c', parentId: null, status: TaskStatus.TODO, statusCategory: WorkflowCategory.TODO }
+      ]);
+      mockTaskRepository.findProgressTree.mockResolvedValue({
+        tasks: [
+          { id: 'task-b1', parentId: 'task-b', status: TaskStatus.DONE, statusCategory: WorkflowCategory.DONE },
+          { id: 'task-b2', parentId: 'task-b', status: TaskStatus.TODO, statusCategory: WorkflowCategory.TODO }
+        ],
+        checklists: new Map([['task-c', { total: 4, completed: 3 }]])
+      });
+
+      // Act
+      const result = await projectService.getProjectCompletion(testProjectId);
+
+      // Assert: (100 + 50 + 75) / 3
+      expect(result).toEqual({ percentage: 75, totalTasks: 3, completedTasks: 1, effortPercentage: null });
+      expect(mockTaskRepository.findProgressTree).toHaveBeenCalledWith(['task-a', 'task-b', 'task-c']);
+    });
+
+    it('should roll nested subtask progress up through each level', async () => {
+      // Arrange: B1 is half done via its checklist, so B is a quarter done
+      mockTaskRepository.findTopLevelByProject.mockResolvedValue([
+        { id: 'task-b', parentId: null, status: TaskStatus.IN_PROGRESS, statusCategory: WorkflowCategory.DOING }
+      ]);
+      mockTaskRepository.findProgressTree.mockResolvedValue({
+        tasks: [
+          { id: 'task-b1', parentId: 'task-b', status: TaskStatus.IN_PROGRESS, statusCategory: WorkflowCategory.DOING },
+          { id: 'task-b2', parentId: 'task-b', status: TaskStatus.TODO, statusCategory: WorkflowCategory.TODO }
+        ],
+        checklists: new Map([['task-b1', { total: 2, completed: 1 }]])
+      });
+
+      // Act
+      const result = await projectService.getProjectCompletion(testProjectId);
+
+      // Assert
+      expect(result.percentage).toBe(25);
+    });
+
+    it('should report zero for a project without tasks', async () => {
+      mockTaskRepository.findTopLevelByProject.mockResolvedValue([]);
+      mockTaskRepository.findProgressTree.mockResolvedValue({ tasks: [], checklists: new Map() });
+
+      const result = await projectService.getProjectCompletion(testProjectId);
+
+      expect(result).toEqual({ percentage: 0, totalTasks: 0, completedTasks: 0, effortPercentage: null });
+    });
+
+    it('should weight progress by original estimates', async () => {
+      // Arrange: A (8h) is done, B (2h) has not started, C is not estimated
+      mockTaskRepository.findTopLevelByProject.mockResolvedValue([
+        { id: 'task-a', parentId: null, status: TaskStatus.DONE, statusCategory: WorkflowCategory.DONE, originalEstimate: 8 },
+        { id: 'task-b', parentId: null, status: TaskStatus.TODO, statusCategory: WorkflowCategory.TODO, originalEstimate: 2 },
+        { id: 'task-c', parentId: null, status: TaskStatus.TODO, statusCategory: WorkflowCategory.TODO, originalEstimate: null }
+      ]);
+      mockTaskRepository.findProgressTree.mockResolvedValue({ tasks: [], checklists: new Map() });
+
+      // Act
+      const result = await projectService.getProjectCompletion(testProjectId);
+
+      // Assert: one of three tasks, but 8 of 10 estimated hours
+      expect(result.percentage).toBe(33);
+      expect(result.effortPercentage).toBe(80);
+    });
+  });
+
+  describe('getProjectEffort', () => {
+    it('should roll effort up per assignee and sprint', async () => {
+      // Arrange
+      mockCacheService.get.mockResolvedValue(testProject);
+      mockTaskRepository.findEffortByProject.mockResolvedValue([
+        { assigneeId: 'user-a', sprintId: 'sprint-1', statusCategory: WorkflowCategory.DONE, originalEstimate: 5, remainingEstimate: 1, loggedSeconds: 6 * 3600 },
+        { assigneeId: 'user-a', sprintId: null, statusCategory: WorkflowCategory.DOING, originalEstimate: 3, remainingEstimate: 2, loggedSeconds: 3600 },
+        { assigneeId: 'user-b', sprintId: 'sprint-1', statusCategory: WorkflowCategory.TODO, originalEstimate: null, remainingEstimate: null, loggedSeconds: 0 }
+      ]);
+
+      // Act
+      const result = await projectService.getProjectEffort(testProjectId);
+
+      // Assert
+      expect(result.totals).toEqual(expect.objectContaining({
+        taskCount: 3,
+        estimatedCount: 2,
+        originalEstimate: 8,
+        remainingEstimate: 2,
+        loggedHours: 7,
+        completedEstimate: 5,
+        completedLoggedHours: 6
+      }));
+      expect(result.byAssignee.map(group => [group.assigneeId, group.originalEstimate])).toEqual([
+        ['user-a', 8],
+        ['user-b', 0]
+      ]);
+      expect(result.bySprint.map(group => [group.sprintId, group.taskCount])).toEqual([
+        ['sprint-1', 2],
+        [null, 1]
+      ]);
+    });
+
+    it('should handle non-existent projects', async () => {
+      mockCacheService.get.mockResolvedValue(null);
+      mockProjectRepository.findById.mockResolvedValue(null);
+
+      await expect(projectService.getProjectEffort(testProjectId)).rejects.toThrow(NotFoundError);
+      expect(mockTaskRepository.findEffortByProject).not.toHaveBeenCalled();
+    });
+  });
+
   describe('getProjects', () => {
     const queryParams = {
       page: 1,
@@ -268,6 +427,31 @@ describe('ProjectService', () => {
       expect(result.data).toHaveLength(1);
     });
 
+    it('should limit team members to the projects they belong to', async () => {
+      // Arrange
+      mockProjectRepository.findAll.mockResolvedValue({ data: [testProject], total: 1 });
+
+      // Act
+      await projectService.getProjects(queryParams, testUserId, UserRole.TEAM_MEMBER);
+
+      // Assert
+      expect(mockProjectRepository.findAll).toHaveBeenCalledWith({
+        ...queryParams,
+        teamMemberId: testUserId
+      });
+    });
+
+    it('should not limit admins to their memberships', async () => {
+      // Arrange
+      mockProjectRepository.findAll.mockResolvedValue({ data: [testProject], total: 1 });
+
+      // Act
+      await projectService.getProjects(queryParams, testUserId, UserRole.ADMIN);
+
+      // Assert
+      expect(mockProjectRepository.findAll).toHaveBeenCalledWith(queryParams);
+    });
+
     it('should handle empty result sets', async () => {
       // Arrange
       mockProjectRepository.findAll.mockResolvedValue({ data: [], total: 0 });
@@ -0,0 +1,349 @@
+/**
+ * @fileoverview Unit tests for RecurrenceService
+ * @version 1.0.0
+ */
+
+// External imports - with versions
+import { describe, beforeEach, afterEach, it, expect, jest } from '@jest/globals'; // v29.x
+import { v4 as uuidv4 } from 'uuid'; // v9.x
+
+// Internal imports
+import { RecurrenceService } from '../../../src/services/recurrence.service';
+import { RecurrenceRepository } from '../../../src/repositories/recurrence.repository';
+import { TaskRepository } from '../../../src/repositories/task.repository';
+import { MembershipService } from '../../../src/services/membership.service';
+import { ITaskContext } from '../../../src/interfaces/task.interface';
+import {
+  TaskStatus,
+  TaskPriority,
+  RecurrenceFrequency,
+  RecurrenceTrigger
+} from '../../../src/types/task.types';
+import { ProjectRole } from '../../../src/types/project.types';
+
+describe('RecurrenceService', () => {
+  // Mock dependencies
+  let mockRecurrenceRepository: jest.Mocked<RecurrenceRepository>;
+  let mockTaskRepository: jest.Mocked<TaskRepository>;
+  let mockMembershipService: jest.Mocked<MembershipService>;
+  let mockRedisClient: any;
+  let mockLogger: any;
+  let mockMetricsClient: any;
+  let recurrenceService: RecurrenceService;
+
+  // Test data
+  const testUserId = uuidv4();
+  const testTaskId = uuidv4();
+  const testProjectId = uuidv4();
+  const testRuleId = uuidv4();
+  const NOW = new Date('2026-10-18T12:00:00Z');
+
+  const mockContext: ITaskContext = {
+    userId: testUserId,
+    correlationId: 'test-correlation-id',
+    requestId: 'test-request-id',
+    includeSoftDeleted: false,
+    telemetry: {
+      operationStart: new Date(),
+      operationName: 'test',
+      metrics: {},
+      tags: {}
+    }
+  };
+
+  const buildTask = (overrides: Record<string, unknown> = {}) => ({
+    id: testTaskId,
+    title: 'Water the plants',
+    description: 'Every pot on the balcony',
+    status: TaskStatus.DONE,
+    priority: TaskPriority.LOW,
+    projectId: testProjectId,
+    assigneeId: testUserId,
+    dueDate: new Date('2026-10-19T09:00:00Z'),
+    tags: ['chores'],
+    metadata: {},
+    parentId: null,
+    depth: 0,
+    recurrenceId: testRuleId,
+    ...overrides
+  });
+
+  const buildRule = (overrides: Record<string, unknown> = {}) => ({
+    id: testRuleId,
+    frequency: RecurrenceFrequency.WEEKLY,
+    interval: 1,
+    byWeekday: [],
+    byMonthDay: null,
+    rrule: null,
+    businessDaysOnly: false,
+    generateOn: RecurrenceTrigger.COMPLETION,
+    endDate: null,
+    count: null,
+    occurrenceCount: 1,
+    nextOccurrenceAt: new Date('2026-10-26T09:00:00Z'),
+    isActive: true,
+    lastTaskId: testTaskId,
+    createdBy: testUserId,
+    ...overrides
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(NOW);
+
+    mockRecurrenceRepository = {
+      create: jest.fn(),
+      findById: jest.fn(),
+      findScheduledDue: jest.fn().mockResolvedValue([]),
+      update: jest.fn(),
+      claimOccurrence: jest.fn().mockResolvedValue(true),
+      setLastTask: jest.fn(),
+      deactivate: jest.fn()
+    } as unknown as jest.Mocked<RecurrenceRepository>;
+
+    mockTaskRepository = {
+      findById: jest.fn().mockResolvedValue({ success: true, data: buildTask({ recurrenceId: null }) }),
+      create: jest.fn().mockImplementation(async (data: any) => ({
+        success: true,
+        data: { ...data, id: uuidv4() }
+      }))
+    } as unknown as jest.Mocked<TaskRepository>;
+
+    mockMembershipService = {
+      hasAccess: jest.fn().mockResolvedValue(true)
+    } as unknown as jest.Mocked<MembershipService>;
+
+    mockRedisClient = {
+      del: jest.fn()
+    };
+
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn()
+    };
+
+    mockMetricsClient = {
+      Histogram: jest.fn().mockImplementation(() => ({
+        startTimer: jest.fn().mockReturnValue(jest.fn())
+      })),
+      Counter: jest.fn().mockImplementation(() => ({
+        inc: jest.fn()
+      }))
+    };
+
+    recurrenceService = new RecurrenceService(
+      mockRecurrenceRepository,
+      mockTaskRepository,
+      mockMembershipService,
+      mockRedisClient,
+      mockLogger,
+      mockMetricsClient
+    );
+  });
+
+  afterEach(() => {
+    recurrenceService.stop();
+    jest.useRealTimers();
+    jest.clearAllMocks();
+  });
+
+  describe('setRule', () => {
+    it('should start a series from the due date of the task', async () => {
+      mockRecurrenceRepository.create.mockImplementation(async (_taskId: any, data: any) =>
+        buildRule(data) as any);
+
+      const result = await recurrenceService.setRule(
+        testTaskId as any,
+        { frequency: RecurrenceFrequency.MONTHLY },
+        mockContext
+      );
+
+      expect(result.success).toBe(true);
+      expect(mockRecurrenceRepository.create).toHaveBeenCalledWith(
+        testTaskId,
+        expect.objectContaining({
+          frequency: RecurrenceFrequency.MONTHLY,
+          byMonthDay: 19,
+          nextOccurrenceAt: new Date('2026-11-19T09:00:00Z')
+        }),
+        testUserId
+      );
+      expect(mockRedisClient.del).toHaveBeenCalledWith(`task:${testTaskId}`);
+    });
+
+    it('should take the end conditions of a custom RRULE', async () => {
+      mockRecurrenceRepository.create.mockImplementation(async (_taskId: any, data: any) =>
+        buildRule(data) as any);
+
+      await recurrenceService.setRule(
+        testTaskId as any,
+        { frequency: RecurrenceFrequency.CUSTOM, rrule: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO;COUNT=4' },
+        mockContext
+      );
+
+      expect(mockRecurrenceRepository.create).toHaveBeenCalledWith(
+        testTaskId,
+        expect.objectContaining({
+          interval: 2,
+          byWeekday: [1],
+          count: 4,
+          rrule: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO;COUNT=4'
+        }),
+        testUserId
+      );
+    });
+
+    it('should reject an invalid RRULE with its reason', async () => {
+      const result = await recurrenceService.setRule(
+        testTaskId as any,
+        { frequency: RecurrenceFrequency.CUSTOM, rrule: 'FREQ=HOURLY' },
+        mockContext
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('VALIDATION_ERROR');
+      expect(result.error?.message).toContain('frequency');
+      expect(mockRecurrenceRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should return FORBIDDEN for project viewers', async () => {
+      mockMembershipService.hasAccess.mockImplementation(
+        async (projectId, required) => required === ProjectRole.VIEWER
+      );
+
+      const result = await recurrenceService.setRule(
+        testTaskId as any,
+        { frequency: RecurrenceFrequency.DAILY },
+        mockContext
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('FORBIDDEN');
+      expect(mockRecurrenceRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should replace the rule of an existing series', async () => {
+      mockTaskRepository.findById.mockResolvedValue({ success: true, data: buildTask() } as any);
+      mockRecurrenceRepository.findById.mockResolvedValue(buildRule({ occurrenceCount: 3 }) as any);
+      mockRecurrenceRepository.update.mockResolvedValue(buildRule() as any);
+
+      await recurrenceService.setRule(
+        testTaskId as any,
+        { frequency: RecurrenceFrequency.DAILY, count: 3 },
+        mockContext
+      );
+
+      // Three occurrences already exist, so the updated rule has nothing left to create
+      expect(mockRecurrenceRepository.update).toHaveBeenCalledWith(
+        testRuleId,
+        expect.objectContaining({ count: 3, nextOccurrenceAt: null })
+      );
+    });
+  });
+
+  describe('handleTaskCompleted', () => {
+    it('should create the next occurrence of a COMPLETION series', async () => {
+      mockRecurrenceRepository.findById.mockResolvedValue(buildRule() as any);
+
+      const occurrence = await recurrenceService.handleTaskCompleted(buildTask() as any, mockContext);
+
+      expect(mockRecurrenceRepository.claimOccurrence).toHaveBeenCalledWith(
+        testRuleId,
+        1,
+        new Date('2026-11-02T09:00:00Z')
+      );
+      expect(mockTaskRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          title: 'Water the plants',
+          projectId: testProjectId,
+          dueDate: new Date('2026-10-26T09:00:00Z'),
+          recurrenceId: testRuleId
+        }),
+        mockContext
+      );
+      expect(mockRecurrenceRepository.setLastTask).toHaveBeenCalledWith(testRuleId, occurrence?.id);
+    });
+
+    it('should skip dates missed by completing late', async () => {
+      mockRecurrenceRepository.findById.mockResolvedValue(buildRule() as any);
+
+      await recurrenceService.handleTaskCompleted(
+        buildTask({ dueDate: new Date('2026-09-29T09:00:00Z') }) as any,
+        mockContext
+      );
+
+      expect(mockTaskRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ dueDate: new Date('2026-10-20T09:00:00Z') }),
+        mockContext
+      );
+    });
+
+    it('should ignore completion of an older occurrence', async () => {
+      mockRecurrenceRepository.findById.mockResolvedValue(buildRule({ lastTaskId: uuidv4() }) as any);
+
+      const occurrence = await recurrenceService.handleTaskCompleted(buildTask() as any, mockContext);
+
+      expect(occurrence).toBeNull();
+      expect(mockTaskRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should not create an occurrence when another run claimed it first', async () => {
+      mockRecurrenceRepository.findById.mockResolvedValue(buildRule() as any);
+      mockRecurrenceRepository.claimOccurrence.mockResolvedValue(false);
+
+      const occurrence = await recurrenceService.handleTaskCompleted(buildTask() as any, mockContext);
+
+      expect(occurrence).toBeNull();
+      expect(mockTaskRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should end the series once the count is reached', async () => {
+      mockRecurrenceRepository.findById.mockResolvedValue(
+        buildRule({ count: 2, occurrenceCount: 2 }) as any
+      );
+
+      const occurrence = await recurrenceService.handleTaskCompleted(buildTask() as any, mockContext);
+
+      expect(occurrence).toBeNull();
+      expect(mockRecurrenceRepository.deactivate).toHaveBeenCalledWith(testRuleId);
+      expect(mockTaskRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('materializeScheduled', () => {
+    it('should create occurrences due within the lookahead window', async () => {
+      mockRecurrenceRepository.findScheduledDue.mockResolvedValue([
+        buildRule({
+          generateOn: RecurrenceTrigger.SCHEDULE,
+          nextOccurrenceAt: new Date('2026-10-19T09:00:00Z')
+        })
+      ] as any);
+      mockTaskRepository.findById.mockResolvedValue({ success: true, data: buildTask() } as any);
+
+      const created = await recurrenceService.materializeScheduled(NOW);
+
+      expect(created).toBe(1);
+      expect(mockRecurrenceRepository.findScheduledDue).toHaveBeenCalledWith(
+        new Date('2026-10-19T12:00:00Z'),
+        100
+      );
+      expect(mockTaskRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ dueDate: new Date('2026-10-19T09:00:00Z') }),
+        expect.objectContaining({ userId: testUserId })
+      );
+    });
+
+    it('should stop a series whose latest occurrence was deleted', async () => {
+      mockRecurrenceRepository.findScheduledDue.mockResolvedValue([
+        buildRule({ generateOn: RecurrenceTrigger.SCHEDULE })
+      ] as any);
+      mockTaskRepository.findById.mockResolvedValue({ success: true, data: null } as any);
+
+      const created = await recurrenceService.materializeScheduled(NOW);
+
+      expect(created).toBe(0);
+      expect(mockRecurrenceRepository.deactivate).toHaveBeenCalledWith(testRuleId);
+    });
+  });
+});
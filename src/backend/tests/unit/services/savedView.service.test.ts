@@ -0,0 +1,290 @@
+/**
+ * @fileoverview Unit tests for SavedViewService
+ * @version 1.0.0
+ */
+
+// External imports - with versions
+import { describe, beforeEach, afterEach, it, expect, jest } from '@jest/globals'; // v29.x
+import { v4 as uuidv4 } from 'uuid'; // v9.x
+
+// Internal imports
+import { SavedViewService } from '../../../src/services/savedView.service';
+import { SavedViewRepository } from '../../../src/repositories/savedView.repository';
+import { ProjectRepository } from '../../../src/repositories/project.repository';
+import { MembershipService } from '../../../src/services/membership.service';
+import { ITaskContext } from '../../../src/interfaces/task.interface';
+import { ISavedView } from '../../../src/interfaces/savedView.interface';
+import { SavedViewVisibility, SavedViewLayout } from '../../../src/types/savedView.types';
+import { ProjectRole } from '../../../src/types/project.types';
+import { UserRole } from '../../../src/types/user.types';
+import { MAX_PINNED_VIEWS } from '../../../src/utils/savedView.util';
+
+describe('SavedViewService', () => {
+  // Mock dependencies
+  let mockSavedViewRepository: jest.Mocked<SavedViewRepository>;
+  let mockProjectRepository: jest.Mocked<ProjectRepository>;
+  let mockMembershipService: jest.Mocked<MembershipService>;
+  let mockLogger: any;
+  let mockMetricsClient: any;
+  let savedViewService: SavedViewService;
+
+  // Test data
+  const testUserId = uuidv4();
+  const otherUserId = uuidv4();
+  const testProjectId = uuidv4();
+  const testViewId = uuidv4();
+
+  const context: ITaskContext = {
+    userId: testUserId,
+    userRole: UserRole.TEAM_MEMBER,
+    correlationId: 'test-correlation-id',
+    requestId: 'test-request-id',
+    includeSoftDeleted: false,
+    telemetry: {
+      operationStart: new Date(),
+      operationName: 'test',
+      metrics: {},
+      tags: {}
+    }
+  };
+
+  const buildView = (overrides: Partial<ISavedView> = {}): ISavedView => ({
+    id: testViewId as any,
+    ownerId: testUserId as any,
+    projectId: testProjectId as any,
+    name: 'My open bugs',
+    visibility: SavedViewVisibility.PRIVATE,
+    layout: SavedViewLayout.LIST,
+    filters: { priority: 'HIGH' },
+    sortBy: 'dueDate',
+    sortOrder: 'asc',
+    groupBy: 'none',
+    columns: [],
+    pinned: false,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides
+  });
+
+  // Project role of the caller, consulted by hasAccess
+  let projectRole: ProjectRole | null;
+
+  beforeEach(() => {
+    projectRole = ProjectRole.CONTRIBUTOR;
+
+    mockSavedViewRepository = {
+      findByOwner: jest.fn().mockResolvedValue([]),
+      findByProject: jest.fn().mockResolvedValue([]),
+      findPinned: jest.fn().mockResolvedValue([]),
+      findById: jest.fn().mockResolvedValue(buildView()),
+      countByOwner: jest.fn().mockResolvedValue(0),
+      create: jest.fn().mockImplementation(async (ownerId: string, data: any) =>
+        buildView({ ownerId: ownerId as any, ...data })
+      ),
+      update: jest.fn().mockImplementation(async (viewId: string, data: any) =>
+        buildView({ id: viewId as any, ...data })
+      ),
+      delete: jest.fn().mockResolvedValue(undefined),
+      deleteForeignPins: jest.fn().mockResolvedValue(undefined),
+      countPins: jest.fn().mockResolvedValue(0),
+      pin: jest.fn().mockResolvedValue(undefined),
+      unpin: jest.fn().mockResolvedValue(undefined)
+    } as unknown as jest.Mocked<SavedViewRepository>;
+
+    mockProjectRepository = {
+      findById: jest.fn().mockResolvedValue({ id: testProjectId })
+    } as unknown as jest.Mocked<ProjectRepository>;
+
+    mockMembershipService = {
+      hasAccess: jest.fn().mockImplementation(async (_projectId: string, required: ProjectRole) => {
+        const rank = [ProjectRole.VIEWER, ProjectRole.CONTRIBUTOR, ProjectRole.MANAGER, ProjectRole.OWNER];
+        return projectRole !== null && rank.indexOf(projectRole) >= rank.indexOf(required);
+      })
+    } as unknown as jest.Mocked<MembershipService>;
+
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn()
+    };
+
+    mockMetricsClient = {
+      Histogram: jest.fn().mockImplementation(() => ({
+        startTimer: jest.fn().mockReturnValue(jest.fn())
+      })),
+      Counter: jest.fn().mockImplementation(() => ({
+        inc: jest.fn()
+      }))
+    };
+
+    savedViewService = new SavedViewService(
+      mockSavedViewRepository,
+      mockProjectRepository,
+      mockMembershipService,
+      mockLogger,
+      mockMetricsClient
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('listViews', () => {
+    it('should list the caller\'s own views without a project', async () => {
+      const result = await savedViewService.listViews(undefined, context);
+
+      expect(result.success).toBe(true);
+      expect(mockSavedViewRepository.findByOwner).toHaveBeenCalledWith(testUserId);
+      expect(mockMembershipService.hasAccess).not.toHaveBeenCalled();
+    });
+
+    it('should report projects the caller cannot see as missing', async () => {
+      projectRole = null;
+
+      const result = await savedViewService.listViews(testProjectId as any, context);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('NOT_FOUND');
+      expect(mockSavedViewRepository.findByProject).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getView', () => {
+    it('should open views shared in the caller\'s projects', async () => {
+      projectRole = ProjectRole.VIEWER;
+      mockSavedViewRepository.findById.mockResolvedValue(
+        buildView({ ownerId: otherUserId as any, visibility: SavedViewVisibility.PROJECT })
+      );
+
+      const result = await savedViewService.getView(testViewId as any, context);
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should hide private views of other users', async () => {
+      mockSavedViewRepository.findById.mockResolvedValue(buildView({ ownerId: otherUserId as any }));
+
+      const result = await savedViewService.getView(testViewId as any, context);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('NOT_FOUND');
+    });
+  });
+
+  describe('createView', () => {
+    it('should save a private view for the caller', async () => {
+      const result = await savedViewService.createView({
+        name: 'My open bugs',
+        projectId: testProjectId as any,
+        filters: { priority: 'HIGH' }
+      }, context);
+
+      expect(result.success).toBe(true);
+      expect(mockSavedViewRepository.create).toHaveBeenCalledWith(
+        testUserId,
+        expect.objectContaining({ name: 'My open bugs' })
+      );
+    });
+
+    it('should only share views of a project', async () => {
+      const result = await savedViewService.createView({
+        name: 'Everything',
+        visibility: SavedViewVisibility.PROJECT
+      }, context);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('VALIDATION_ERROR');
+    });
+
+    it('should not let viewers share views', async () => {
+      projectRole = ProjectRole.VIEWER;
+
+      const result = await savedViewService.createView({
+        name: 'Team board',
+        projectId: testProjectId as any,
+        visibility: SavedViewVisibility.PROJECT
+      }, context);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('FORBIDDEN');
+      expect(mockSavedViewRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateView', () => {
+    it('should not let members change views shared by others', async () => {
+      mockSavedViewRepository.findById.mockResolvedValue(
+        buildView({ ownerId: otherUserId as any, visibility: SavedViewVisibility.PROJECT })
+      );
+
+      const result = await savedViewService.updateView(testViewId as any, { name: 'Mine now' }, context);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('FORBIDDEN');
+    });
+
+    it('should let project managers change views shared by others', async () => {
+      projectRole = ProjectRole.MANAGER;
+      mockSavedViewRepository.findById.mockResolvedValue(
+        buildView({ ownerId: otherUserId as any, visibility: SavedViewVisibility.PROJECT })
+      );
+
+      const result = await savedViewService.updateView(testViewId as any, { name: 'Sprint board' }, context);
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should drop the pins of other users when a view stops being shared', async () => {
+      mockSavedViewRepository.findById.mockResolvedValue(
+        buildView({ visibility: SavedViewVisibility.PROJECT })
+      );
+
+      const result = await savedViewService.updateView(testViewId as any, {
+        visibility: SavedViewVisibility.PRIVATE
+      }, context);
+
+      expect(result.success).toBe(true);
+      expect(mockSavedViewRepository.deleteForeignPins).toHaveBeenCalledWith(testViewId, testUserId);
+    });
+  });
+
+  describe('setPinned', () => {
+    it('should pin a view the caller can open', async () => {
+      const result = await savedViewService.setPinned(testViewId as any, true, context);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.pinned).toBe(true);
+      expect(mockSavedViewRepository.pin).toHaveBeenCalledWith(testViewId, testUserId);
+    });
+
+    it('should limit the number of pinned views', async () => {
+      mockSavedViewRepository.countPins.mockResolvedValue(MAX_PINNED_VIEWS);
+
+      const result = await savedViewService.setPinned(testViewId as any, true, context);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('VALIDATION_ERROR');
+      expect(mockSavedViewRepository.pin).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listPinnedViews', () => {
+    it('should leave out shared views of projects the caller left', async () => {
+      projectRole = null;
+      const own = buildView({ pinned: true });
+      const shared = buildView({
+        id: uuidv4() as any,
+        ownerId: otherUserId as any,
+        visibility: SavedViewVisibility.PROJECT,
+        pinned: true
+      });
+      mockSavedViewRepository.findPinned.mockResolvedValue([own, shared]);
+
+      const result = await savedViewService.listPinnedViews(context);
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual([own]);
+    });
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * @fileoverview Unit tests for SearchService
+ * @version 1.0.0
+ */
+
+// External imports - with versions
+import { describe, beforeEach, afterEach, it, expect, jest } from '@jest/globals'; // v29.x
+import { v4 as uuidv4 } from 'uuid'; // v9.x
+
+// Internal imports
+import { SearchService } from '../../../src/services/search.service';
+import { SearchRepository } from '../../../src/repositories/search.repository';
+import { ProjectRepository } from '../../../src/repositories/project.repository';
+import { MembershipService } from '../../../src/services/membership.service';
+import { ITaskContext } from '../../../src/interfaces/task.interface';
+import { ISearchHit } from '../../../src/interfaces/search.interface';
+import { SearchResultType } from '../../../src/types/search.types';
+import { UserRole } from '../../../src/types/user.types';
+import { MAX_SEARCH_LIMIT } from '../../../src/utils/search.util';
+
+describe('SearchService', () => {
+  // Mock dependencies
+  let mockSearchRepository: jest.Mocked<SearchRepository>;
+  let mockProjectRepository: jest.Mocked<ProjectRepository>;
+  let mockMembershipService: jest.Mocked<MembershipService>;
+  let mockLogger: any;
+  let mockMetricsClient: any;
+  let searchService: SearchService;
+
+  // Test data
+  const testUserId = uuidv4();
+  const testProjectId = uuidv4();
+
+  const context: ITaskContext = {
+    userId: testUserId,
+    userRole: UserRole.TEAM_MEMBER,
+    correlationId: 'test-correlation-id',
+    requestId: 'test-request-id',
+    includeSoftDeleted: false,
+    telemetry: {
+      operationStart: new Date(),
+      operationName: 'test',
+      metrics: {},
+      tags: {}
+    }
+  };
+
+  const buildHit = (type: SearchResultType, rank: number): ISearchHit => ({
+    type,
+    id: uuidv4() as any,
+    title: 'Login times out',
+    highlight: '<mark>Login</mark> times out',
+    rank,
+    projectId: testProjectId as any,
+    projectName: 'Apollo',
+    taskId: null
+  });
+
+  beforeEach(() => {
+    mockSearchRepository = {
+      searchTasks: jest.fn().mockResolvedValue({ hits: [buildHit(SearchResultType.TASK, 0.4)], total: 7 }),
+      searchComments: jest.fn().mockResolvedValue({ hits: [buildHit(SearchResultType.COMMENT, 0.8)], total: 2 }),
+      searchProjects: jest.fn().mockResolvedValue({ hits: [], total: 0 })
+    } as unknown as jest.Mocked<SearchRepository>;
+
+    mockProjectRepository = {
+      findById: jest.fn().mockResolvedValue({ id: testProjectId })
+    } as unknown as jest.Mocked<ProjectRepository>;
+
+    mockMembershipService = {
+      getAccessibleProjectIds: jest.fn().mockResolvedValue([testProjectId]),
+      hasAccess: jest.fn().mockResolvedValue(true)
+    } as unknown as jest.Mocked<MembershipService>;
+
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn()
+    };
+
+    mockMetricsClient = {
+      Histogram: jest.fn().mockImplementation(() => ({
+        startTimer: jest.fn().mockReturnValue(jest.fn())
+      })),
+      Counter: jest.fn().mockImplementation(() => ({
+        inc: jest.fn()
+      }))
+    };
+
+    searchService = new SearchService(
+      mockSearchRepository,
+      mockProjectRepository,
+      mockMembershipService,
+      mockLogger,
+      mockMetricsClient
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('search', () => {
+    it('should rank hits of all types and count matches per type', async () => {
+      const result = await searchService.search({ q: '  login  ' }, context);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.query).toBe('login');
+      expect(result.data?.hits.map(hit => hit.type)).toEqual([SearchResultType.COMMENT, SearchResultType.TASK]);
+      expect(result.data?.facets).toEqual({
+        [SearchResultType.TASK]: 7,
+        [SearchResultType.COMMENT]: 2,
+        [SearchResultType.PROJECT]: 0
+      });
+    });
+
+    it('should only search the projects the caller can see', async () => {
+      await searchService.search({ q: 'login' }, context);
+
+      expect(mockSearchRepository.searchTasks).toHaveBeenCalledWith('login', [testProjectId], 20);
+    });
+
+    it('should search every project when access is not limited by membership', async () => {
+      mockMembershipService.getAccessibleProjectIds.mockResolvedValue(null);
+
+      await searchService.search({ q: 'login', limit: 500 }, context);
+
+      expect(mockSearchRepository.searchTasks).toHaveBeenCalledWith('login', null, MAX_SEARCH_LIMIT);
+    });
+
+    it('should return no hits to callers without projects', async () => {
+      mockMembershipService.getAccessibleProjectIds.mockResolvedValue([]);
+
+      const result = await searchService.search({ q: 'login' }, context);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.hits).toEqual([]);
+      expect(mockSearchRepository.searchTasks).not.toHaveBeenCalled();
+    });
+
+    it('should only search the requested types', async () => {
+      const result = await searchService.search({ q: 'login', types: [SearchResultType.PROJECT] }, context);
+
+      expect(mockSearchRepository.searchProjects).toHaveBeenCalled();
+      expect(mockSearchRepository.searchTasks).not.toHaveBeenCalled();
+      expect(result.data?.facets[SearchResultType.TASK]).toBe(0);
+    });
+
+    it('should report projects the caller cannot see as missing', async () => {
+      mockMembershipService.hasAccess.mockResolvedValue(false);
+
+      const result = await searchService.search({ q: 'login', projectId: testProjectId as any }, context);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('NOT_FOUND');
+      expect(mockSearchRepository.searchTasks).not.toHaveBeenCalled();
+    });
+
+    it('should reject blank queries', async () => {
+      const result = await searchService.search({ q: '   ' }, context);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('VALIDATION_ERROR');
+    });
+  });
+});
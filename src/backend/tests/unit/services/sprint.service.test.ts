@@ -0,0 +1,266 @@
+/**
+ * @fileoverview Unit tests for SprintService
+ * @version 1.0.0
+ */
+
+// External imports - with versions
+import { describe, beforeEach, afterEach, it, expect, jest } from '@jest/globals'; // v29.x
+import { v4 as uuidv4 } from 'uuid'; // v9.x
+
+// Internal imports
+import { SprintService } from '../../../src/services/sprint.service';
+import { SprintRepository } from '../../../src/repositories/sprint.repository';
+import { ProjectRepository } from '../../../src/repositories/project.repository';
+import { WorkflowRepository } from '../../../src/repositories/workflow.repository';
+import { MembershipService } from '../../../src/services/membership.service';
+import { ITaskContext } from '../../../src/interfaces/task.interface';
+import { ISprint } from '../../../src/interfaces/sprint.interface';
+import { SprintState } from '../../../src/types/sprint.types';
+import { ProjectRole } from '../../../src/types/project.types';
+import { UserRole } from '../../../src/types/user.types';
+
+describe('SprintService', () => {
+  // Mock dependencies
+  let mockSprintRepository: jest.Mocked<SprintRepository>;
+  let mockProjectRepository: jest.Mocked<ProjectRepository>;
+  let mockWorkflowRepository: jest.Mocked<WorkflowRepository>;
+  let mockMembershipService: jest.Mocked<MembershipService>;
+  let mockLogger: any;
+  let mockMetricsClient: any;
+  let sprintService: SprintService;
+
+  // Test data
+  const testUserId = uuidv4();
+  const testProjectId = uuidv4();
+
+  const context: ITaskContext = {
+    userId: testUserId,
+    userRole: UserRole.TEAM_MEMBER,
+    correlationId: 'test-correlation-id',
+    requestId: 'test-request-id',
+    includeSoftDeleted: false,
+    telemetry: {
+      operationStart: new Date(),
+      operationName: 'test',
+      metrics: {},
+      tags: {}
+    }
+  };
+
+  const buildSprint = (overrides: Partial<ISprint> = {}): ISprint => ({
+    id: uuidv4() as any,
+    projectId: testProjectId as any,
+    name: 'Sprint 1',
+    goal: null,
+    startDate: new Date('2024-03-04'),
+    endDate: new Date('2024-03-15'),
+    state: SprintState.PLANNED,
+    startedAt: null,
+    closedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    createdBy: testUserId as any,
+    ...overrides
+  });
+
+  // Project role of the caller, consulted by hasAccess
+  let projectRole: ProjectRole | null;
+
+  beforeEach(() => {
+    projectRole = ProjectRole.MANAGER;
+
+    mockSprintRepository = {
+      findByProject: jest.fn().mockResolvedValue([]),
+      findById: jest.fn(),
+      findActive: jest.fn().mockResolvedValue(null),
+      findNextPlanned: jest.fn().mockResolvedValue(null),
+      create: jest.fn(),
+      update: jest.fn(),
+      start: jest.fn().mockImplementation(async (sprintId: string) =>
+        buildSprint({ id: sprintId as any, state: SprintState.ACTIVE, startedAt: new Date() })
+      ),
+      close: jest.fn().mockImplementation(async (sprintId: string) => ({
+        sprint: buildSprint({ id: sprintId as any, state: SprintState.CLOSED, closedAt: new Date() }),
+        rolledOver: 2
+      })),
+      delete: jest.fn().mockResolvedValue(undefined)
+    } as unknown as jest.Mocked<SprintRepository>;
+
+    mockProjectRepository = {
+      findById: jest.fn().mockResolvedValue({ id: testProjectId })
+    } as unknown as jest.Mocked<ProjectRepository>;
+
+    mockWorkflowRepository = {
+      findByProject: jest.fn()
+    } as unknown as jest.Mocked<WorkflowRepository>;
+
+    mockMembershipService = {
+      hasAccess: jest.fn().mockImplementation(async (_projectId: string, required: ProjectRole) => {
+        const rank = [ProjectRole.VIEWER, ProjectRole.CONTRIBUTOR, ProjectRole.MANAGER, ProjectRole.OWNER];
+        return projectRole !== null && rank.indexOf(projectRole) >= rank.indexOf(required);
+      })
+    } as unknown as jest.Mocked<MembershipService>;
+
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn()
+    };
+
+    mockMetricsClient = {
+      Histogram: jest.fn().mockImplementation(() => ({
+        startTimer: jest.fn().mockReturnValue(jest.fn())
+      })),
+      Counter: jest.fn().mockImplementation(() => ({
+        inc: jest.fn()
+      }))
+    };
+
+    sprintService = new SprintService(
+      mockSprintRepository,
+      mockProjectRepository,
+      mockWorkflowRepository,
+      mockMembershipService,
+      mockLogger,
+      mockMetricsClient
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createSprint', () => {
+    it('should reject contributors', async () => {
+      projectRole = ProjectRole.CONTRIBUTOR;
+
+      const result = await sprintService.createSprint(testProjectId as any, {
+        name: 'Sprint 1',
+        startDate: new Date('2024-03-04'),
+        endDate: new Date('2024-03-15')
+      }, context);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('FORBIDDEN');
+      expect(mockSprintRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject sprints that end before they start', async () => {
+      const result = await sprintService.createSprint(testProjectId as any, {
+        name: 'Sprint 1',
+        startDate: new Date('2024-03-15'),
+        endDate: new Date('2024-03-04')
+      }, context);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('VALIDATION_ERROR');
+    });
+  });
+
+  describe('startSprint', () => {
+    it('should start a planned sprint', async () => {
+      const sprint = buildSprint();
+      mockSprintRepository.findById.mockResolvedValue(sprint);
+
+      const result = await sprintService.startSprint(testProjectId as any, sprint.id, context);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.state).toBe(SprintState.ACTIVE);
+    });
+
+    it('should refuse to run two sprints at once', async () => {
+      const sprint = buildSprint();
+      const active = buildSprint({ name: 'Sprint 0', state: SprintState.ACTIVE });
+      mockSprintRepository.findById.mockResolvedValue(sprint);
+      mockSprintRepository.findActive.mockResolvedValue(active);
+
+      const result = await sprintService.startSprint(testProjectId as any, sprint.id, context);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('CONFLICT');
+      expect(result.error?.details).toEqual({ activeSprintId: active.id });
+      expect(mockSprintRepository.start).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('closeSprint', () => {
+    it('should roll unfinished tasks over to the next planned sprint by default', async () => {
+      const sprint = buildSprint({ state: SprintState.ACTIVE });
+      const next = buildSprint({ name: 'Sprint 2' });
+      mockSprintRepository.findById.mockResolvedValue(sprint);
+      mockSprintRepository.findNextPlanned.mockResolvedValue(next);
+
+      const result = await sprintService.closeSprint(testProjectId as any, sprint.id, {}, context);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.rolledOverTo).toBe(next.id);
+      expect(result.data?.rolledOver).toBe(2);
+      expect(mockSprintRepository.close).toHaveBeenCalledWith(sprint.id, next.id, {
+        changedBy: testUserId,
+        correlationId: 'test-correlation-id'
+      });
+    });
+
+    it('should send unfinished tasks to the backlog when asked', async () => {
+      const sprint = buildSprint({ state: SprintState.ACTIVE });
+      mockSprintRepository.findById.mockResolvedValue(sprint);
+
+      const result = await sprintService.closeSprint(testProjectId as any, sprint.id, { rollOverTo: null }, context);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.rolledOverTo).toBeNull();
+      expect(mockSprintRepository.findNextPlanned).not.toHaveBeenCalled();
+    });
+
+    it('should reject rolling over to a sprint that is not planned', async () => {
+      const sprint = buildSprint({ state: SprintState.ACTIVE });
+      const closed = buildSprint({ state: SprintState.CLOSED });
+      mockSprintRepository.findById.mockImplementation(async (_projectId: string, sprintId: string) =>
+        sprintId === sprint.id ? sprint : closed
+      );
+
+      const result = await sprintService.closeSprint(
+        testProjectId as any,
+        sprint.id,
+        { rollOverTo: closed.id },
+        context
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('VALIDATION_ERROR');
+      expect(mockSprintRepository.close).not.toHaveBeenCalled();
+    });
+
+    it('should only close the active sprint', async () => {
+      const sprint = buildSprint();
+      mockSprintRepository.findById.mockResolvedValue(sprint);
+
+      const result = await sprintService.closeSprint(testProjectId as any, sprint.id, {}, context);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('CONFLICT');
+    });
+  });
+
+  describe('deleteSprint', () => {
+    it('should refuse to delete started sprints', async () => {
+      const sprint = buildSprint({ state: SprintState.ACTIVE });
+      mockSprintRepository.findById.mockResolvedValue(sprint);
+
+      const result = await sprintService.deleteSprint(testProjectId as any, sprint.id, context);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('CONFLICT');
+      expect(mockSprintRepository.delete).not.toHaveBeenCalled();
+    });
+
+    it('should report sprints of other projects as missing', async () => {
+      mockSprintRepository.findById.mockResolvedValue(null);
+
+      const result = await sprintService.deleteSprint(testProjectId as any, uuidv4() as any, context);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('NOT_FOUND');
+    });
+  });
+});
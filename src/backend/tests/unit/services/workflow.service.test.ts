@@ -0,0 +1,179 @@
+/**
+ * @fileoverview Unit tests for WorkflowService
+ * @version 1.0.0
+ */
+
+// External imports - with versions
+import { describe, beforeEach, afterEach, it, expect, jest } from '@jest/globals'; // v29.x
+import { v4 as uuidv4 } from 'uuid'; // v9.x
+
+// Internal imports
+import { WorkflowService } from '../../../src/services/workflow.service';
+import { WorkflowRepository } from '../../../src/repositories/workflow.repository';
+import { ProjectRepository } from '../../../src/repositories/project.repository';
+import { MembershipService } from '../../../src/services/membership.service';
+import { ITaskContext } from '../../../src/interfaces/task.interface';
+import { IUpdateWorkflowDTO } from '../../../src/interfaces/workflow.interface';
+import { WorkflowCategory } from '../../../src/types/workflow.types';
+import { ProjectRole } from '../../../src/types/project.types';
+import { UserRole } from '../../../src/types/user.types';
+import { buildDefaultWorkflow } from '../../../src/utils/workflow.util';
+
+describe('WorkflowService', () => {
+  // Mock dependencies
+  let mockWorkflowRepository: jest.Mocked<WorkflowRepository>;
+  let mockProjectRepository: jest.Mocked<ProjectRepository>;
+  let mockMembershipService: jest.Mocked<MembershipService>;
+  let mockLogger: any;
+  let mockMetricsClient: any;
+  let workflowService: WorkflowService;
+
+  // Test data
+  const testUserId = uuidv4();
+  const testProjectId = uuidv4();
+
+  const context: ITaskContext = {
+    userId: testUserId,
+    userRole: UserRole.TEAM_MEMBER,
+    correlationId: 'test-correlation-id',
+    requestId: 'test-request-id',
+    includeSoftDeleted: false,
+    telemetry: {
+      operationStart: new Date(),
+      operationName: 'test',
+      metrics: {},
+      tags: {}
+    }
+  };
+
+  const kanban: IUpdateWorkflowDTO = {
+    states: [
+      { key: 'TODO', name: 'To Do', category: WorkflowCategory.TODO },
+      { key: 'IN_PROGRESS', name: 'In Progress', category: WorkflowCategory.DOING },
+      { key: 'DONE', name: 'Done', category: WorkflowCategory.DONE }
+    ],
+    transitions: [
+      { from: 'TODO', to: 'IN_PROGRESS' },
+      { from: 'IN_PROGRESS', to: 'DONE' }
+    ]
+  };
+
+  // Project role of the caller, consulted by hasAccess
+  let projectRole: ProjectRole | null;
+
+  beforeEach(() => {
+    projectRole = ProjectRole.MANAGER;
+
+    mockWorkflowRepository = {
+      findByProject: jest.fn().mockResolvedValue(buildDefaultWorkflow(testProjectId as any)),
+      findStatesInUse: jest.fn().mockResolvedValue([]),
+      replace: jest.fn().mockImplementation(async (projectId: string, data: any) => ({
+        projectId,
+        states: data.states.map((state: any, position: number) => ({ ...state, position })),
+        transitions: data.transitions,
+        isDefault: false
+      }))
+    } as unknown as jest.Mocked<WorkflowRepository>;
+
+    mockProjectRepository = {
+      findById: jest.fn().mockResolvedValue({ id: testProjectId })
+    } as unknown as jest.Mocked<ProjectRepository>;
+
+    mockMembershipService = {
+      hasAccess: jest.fn().mockImplementation(async (_projectId: string, required: ProjectRole) => {
+        const rank = [ProjectRole.VIEWER, ProjectRole.CONTRIBUTOR, ProjectRole.MANAGER, ProjectRole.OWNER];
+        return projectRole !== null && rank.indexOf(projectRole) >= rank.indexOf(required);
+      })
+    } as unknown as jest.Mocked<MembershipService>;
+
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn()
+    };
+
+    mockMetricsClient = {
+      Histogram: jest.fn().mockImplementation(() => ({
+        startTimer: jest.fn().mockReturnValue(jest.fn())
+      })),
+      Counter: jest.fn().mockImplementation(() => ({
+        inc: jest.fn()
+      }))
+    };
+
+    workflowService = new WorkflowService(
+      mockWorkflowRepository,
+      mockProjectRepository,
+      mockMembershipService,
+      mockLogger,
+      mockMetricsClient
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getWorkflow', () => {
+    it('should let viewers read the default workflow', async () => {
+      projectRole = ProjectRole.VIEWER;
+
+      const result = await workflowService.getWorkflow(testProjectId as any, context);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.isDefault).toBe(true);
+    });
+
+    it('should report projects the caller does not belong to as missing', async () => {
+      projectRole = null;
+
+      const result = await workflowService.getWorkflow(testProjectId as any, context);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('NOT_FOUND');
+    });
+  });
+
+  describe('updateWorkflow', () => {
+    it('should let managers replace the workflow', async () => {
+      const result = await workflowService.updateWorkflow(testProjectId as any, kanban, context);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.states.map(state => state.key)).toEqual(['TODO', 'IN_PROGRESS', 'DONE']);
+      expect(mockWorkflowRepository.replace).toHaveBeenCalledWith(testProjectId, kanban, testUserId);
+    });
+
+    it('should reject contributors', async () => {
+      projectRole = ProjectRole.CONTRIBUTOR;
+
+      const result = await workflowService.updateWorkflow(testProjectId as any, kanban, context);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('FORBIDDEN');
+      expect(mockWorkflowRepository.replace).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid definitions', async () => {
+      const result = await workflowService.updateWorkflow(
+        testProjectId as any,
+        { ...kanban, transitions: [{ from: 'TODO', to: 'SHIPPED' }] },
+        context
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('VALIDATION_ERROR');
+      expect(mockWorkflowRepository.replace).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to remove states that still hold tasks', async () => {
+      mockWorkflowRepository.findStatesInUse.mockResolvedValue(['REVIEW']);
+
+      const result = await workflowService.updateWorkflow(testProjectId as any, kanban, context);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('CONFLICT');
+      expect(result.error?.details).toEqual({ states: ['REVIEW'] });
+      expect(mockWorkflowRepository.findStatesInUse).toHaveBeenCalledWith(testProjectId, ['REVIEW', 'BLOCKED']);
+    });
+  });
+});
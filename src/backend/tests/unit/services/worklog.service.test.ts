@@ -0,0 +1,311 @@
+/**
+ * @fileoverview Unit tests for WorklogService
+ * @version 1.0.0
+ */
+
+// External imports - with versions
+import { describe, beforeEach, afterEach, it, expect, jest } from '@jest/globals'; // v29.x
+import { v4 as uuidv4 } from 'uuid'; // v9.x
+
+// Internal imports
+import { WorklogService } from '../../../src/services/worklog.service';
+import { WorklogRepository } from '../../../src/repositories/worklog.repository';
+import { TaskRepository } from '../../../src/repositories/task.repository';
+import { ProjectRepository } from '../../../src/repositories/project.repository';
+import { MembershipService } from '../../../src/services/membership.service';
+import { ITaskContext } from '../../../src/interfaces/task.interface';
+import { IWorklog } from '../../../src/interfaces/worklog.interface';
+import { ProjectRole } from '../../../src/types/project.types';
+import { UserRole } from '../../../src/types/user.types';
+
+describe('WorklogService', () => {
+  // Mock dependencies
+  let mockWorklogRepository: jest.Mocked<WorklogRepository>;
+  let mockTaskRepository: jest.Mocked<TaskRepository>;
+  let mockProjectRepository: jest.Mocked<ProjectRepository>;
+  let mockMembershipService: jest.Mocked<MembershipService>;
+  let mockLogger: any;
+  let mockMetricsClient: any;
+  let worklogService: WorklogService;
+
+  // Test data
+  const testUserId = uuidv4();
+  const testProjectId = uuidv4();
+  const testTaskId = uuidv4();
+
+  const context: ITaskContext = {
+    userId: testUserId,
+    userRole: UserRole.TEAM_MEMBER,
+    correlationId: 'test-correlation-id',
+    requestId: 'test-request-id',
+    includeSoftDeleted: false,
+    telemetry: {
+      operationStart: new Date(),
+      operationName: 'test',
+      metrics: {},
+      tags: {}
+    }
+  };
+
+  const buildWorklog = (overrides: Partial<IWorklog> = {}): IWorklog => ({
+    id: uuidv4() as any,
+    taskId: testTaskId as any,
+    userId: testUserId as any,
+    startedAt: new Date('2024-03-05T09:00:00Z'),
+    durationSeconds: 3600,
+    note: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides
+  });
+
+  // Project role of the caller, consulted by hasAccess
+  let projectRole: ProjectRole | null;
+
+  beforeEach(() => {
+    projectRole = ProjectRole.CONTRIBUTOR;
+
+    mockWorklogRepository = {
+      findByTask: jest.fn().mockResolvedValue([]),
+      findById: jest.fn(),
+      create: jest.fn().mockImplementation(async (taskId: string, userId: string, data: any) =>
+        buildWorklog({ taskId: taskId as any, userId: userId as any, ...data })
+      ),
+      update: jest.fn().mockImplementation(async (worklogId: string, data: any) =>
+        buildWorklog({ id: worklogId as any, ...data })
+      ),
+      delete: jest.fn().mockResolvedValue(undefined),
+      findTimer: jest.fn().mockResolvedValue(null),
+      startTimer: jest.fn().mockImplementation(async (userId: string, taskId: string, note: string | null, now: Date) => ({
+        timer: { userId, taskId, startedAt: now, note },
+        stopped: null
+      })),
+      stopTimer: jest.fn().mockResolvedValue(null),
+      findTimesheetEntries: jest.fn().mockResolvedValue([])
+    } as unknown as jest.Mocked<WorklogRepository>;
+
+    mockTaskRepository = {
+      findById: jest.fn().mockResolvedValue({
+        success: true,
+        data: { id: testTaskId, projectId: testProjectId }
+      })
+    } as unknown as jest.Mocked<TaskRepository>;
+
+    mockProjectRepository = {
+      findById: jest.fn().mockResolvedValue({ id: testProjectId })
+    } as unknown as jest.Mocked<ProjectRepository>;
+
+    mockMembershipService = {
+      hasAccess: jest.fn().mockImplementation(async (_projectId: string, required: ProjectRole) => {
+        const rank = [ProjectRole.VIEWER, ProjectRole.CONTRIBUTOR, ProjectRole.MANAGER, ProjectRole.OWNER];
+        return projectRole !== null && rank.indexOf(projectRole) >= rank.indexOf(required);
+      })
+    } as unknown as jest.Mocked<MembershipService>;
+
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn()
+    };
+
+    mockMetricsClient = {
+      Histogram: jest.fn().mockImplementation(() => ({
+        startTimer: jest.fn().mockReturnValue(jest.fn())
+      })),
+      Counter: jest.fn().mockImplementation(() => ({
+        inc: jest.fn()
+      }))
+    };
+
+    worklogService = new WorklogService(
+      mockWorklogRepository,
+      mockTaskRepository,
+      mockProjectRepository,
+      mockMembershipService,
+      mockLogger,
+      mockMetricsClient
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createWorklog', () => {
+    it('should log time for the caller', async () => {
+      const result = await worklogService.createWorklog(testTaskId as any, {
+        startedAt: new Date('2024-03-05T09:00:00Z'),
+        durationSeconds: 1800
+      }, context);
+
+      expect(result.success).toBe(true);
+      expect(mockWorklogRepository.create).toHaveBeenCalledWith(
+        testTaskId,
+        testUserId,
+        expect.objectContaining({ durationSeconds: 1800 })
+      );
+    });
+
+    it('should reject viewers', async () => {
+      projectRole = ProjectRole.VIEWER;
+
+      const result = await worklogService.createWorklog(testTaskId as any, {
+        startedAt: new Date('2024-03-05T09:00:00Z'),
+        durationSeconds: 1800
+      }, context);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('FORBIDDEN');
+    });
+
+    it('should reject time logged in the future', async () => {
+      const result = await worklogService.createWorklog(testTaskId as any, {
+        startedAt: new Date(Date.now() + 60 * 60 * 1000),
+        durationSeconds: 1800
+      }, context);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('VALIDATION_ERROR');
+    });
+
+    it('should report tasks of other projects as missing', async () => {
+      projectRole = null;
+
+      const result = await worklogService.createWorklog(testTaskId as any, {
+        startedAt: new Date('2024-03-05T09:00:00Z'),
+        durationSeconds: 1800
+      }, context);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('NOT_FOUND');
+    });
+  });
+
+  describe('updateWorklog', () => {
+    it('should let the author change their entry', async () => {
+      const worklog = buildWorklog();
+      mockWorklogRepository.findById.mockResolvedValue(worklog);
+
+      const result = await worklogService.updateWorklog(
+        testTaskId as any,
+        worklog.id,
+        { durationSeconds: 5400 },
+        context
+      );
+
+      expect(result.success).toBe(true);
+      expect(mockWorklogRepository.update).toHaveBeenCalledWith(worklog.id, { durationSeconds: 5400 });
+    });
+
+    it("should refuse changes to other users' entries", async () => {
+      const worklog = buildWorklog({ userId: uuidv4() as any });
+      mockWorklogRepository.findById.mockResolvedValue(worklog);
+
+      const result = await worklogService.updateWorklog(
+        testTaskId as any,
+        worklog.id,
+        { durationSeconds: 5400 },
+        context
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('FORBIDDEN');
+      expect(mockWorklogRepository.update).not.toHaveBeenCalled();
+    });
+
+    it("should let project managers remove other users' entries", async () => {
+      projectRole = ProjectRole.MANAGER;
+      const worklog = buildWorklog({ userId: uuidv4() as any });
+      mockWorklogRepository.findById.mockResolvedValue(worklog);
+
+      const result = await worklogService.deleteWorklog(testTaskId as any, worklog.id, context);
+
+      expect(result.success).toBe(true);
+      expect(mockWorklogRepository.delete).toHaveBeenCalledWith(worklog.id);
+    });
+
+    it('should report entries of other tasks as missing', async () => {
+      const worklog = buildWorklog({ taskId: uuidv4() as any });
+      mockWorklogRepository.findById.mockResolvedValue(worklog);
+
+      const result = await worklogService.updateWorklog(testTaskId as any, worklog.id, { note: null }, context);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('NOT_FOUND');
+    });
+  });
+
+  describe('timer', () => {
+    it('should start a timer on a task the caller contributes to', async () => {
+      const result = await worklogService.startTimer({ taskId: testTaskId as any }, context);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.timer.taskId).toBe(testTaskId);
+      expect(mockWorklogRepository.startTimer).toHaveBeenCalledWith(testUserId, testTaskId, null, expect.any(Date));
+    });
+
+    it('should report stopping without a running timer as missing', async () => {
+      const result = await worklogService.stopTimer(context);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('NOT_FOUND');
+    });
+
+    it('should return the entry logged when stopping', async () => {
+      const worklog = buildWorklog();
+      mockWorklogRepository.stopTimer.mockResolvedValue(worklog);
+
+      const result = await worklogService.stopTimer(context);
+
+      expect(result.success).toBe(true);
+      expect(result.data).toBe(worklog);
+    });
+  });
+
+  describe('timesheets', () => {
+    it("should refuse other users' timesheets to team members", async () => {
+      const result = await worklogService.getUserTimesheet(uuidv4() as any, {}, context);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('FORBIDDEN');
+    });
+
+    it("should let admins read other users' timesheets", async () => {
+      const otherUserId = uuidv4();
+
+      const result = await worklogService.getUserTimesheet(
+        otherUserId as any,
+        { from: new Date('2024-03-04'), to: new Date('2024-03-10') },
+        { ...context, userRole: UserRole.ADMIN }
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data?.days).toHaveLength(7);
+      expect(mockWorklogRepository.findTimesheetEntries).toHaveBeenCalledWith({
+        userId: otherUserId,
+        from: new Date('2024-03-04T00:00:00Z'),
+        until: new Date('2024-03-11T00:00:00Z')
+      });
+    });
+
+    it('should require the MANAGER project role for project timesheets', async () => {
+      const result = await worklogService.getProjectTimesheet(testProjectId as any, {}, context);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('FORBIDDEN');
+    });
+
+    it('should reject ranges longer than a month', async () => {
+      projectRole = ProjectRole.MANAGER;
+
+      const result = await worklogService.getProjectTimesheet(
+        testProjectId as any,
+        { from: new Date('2024-01-01'), to: new Date('2024-03-01') },
+        context
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('VALIDATION_ERROR');
+    });
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * @fileoverview Unit tests for bulk task change utility functions
+ * @version 1.0.0
+ */
+
+import { getBulkOutcome, summarizeBulkResults } from '../../../src/utils/bulk.util';
+import { BulkTaskOutcome } from '../../../src/types/task.types';
+import { describe, test, expect } from '@jest/globals';
+
+describe('Bulk Utility Functions', () => {
+  describe('getBulkOutcome', () => {
+    test('should report stale versions and workflow clashes as conflicts', () => {
+      expect(getBulkOutcome('VERSION_CONFLICT')).toBe(BulkTaskOutcome.CONFLICT);
+      expect(getBulkOutcome('INVALID_TRANSITION')).toBe(BulkTaskOutcome.CONFLICT);
+      expect(getBulkOutcome('WIP_LIMIT_EXCEEDED')).toBe(BulkTaskOutcome.CONFLICT);
+    });
+
+    test('should keep access errors apart', () => {
+      expect(getBulkOutcome('FORBIDDEN')).toBe(BulkTaskOutcome.FORBIDDEN);
+      expect(getBulkOutcome('NOT_FOUND')).toBe(BulkTaskOutcome.NOT_FOUND);
+    });
+
+    test('should report other errors as invalid changes', () => {
+      expect(getBulkOutcome('VALIDATION_ERROR')).toBe(BulkTaskOutcome.INVALID);
+    });
+  });
+
+  describe('summarizeBulkResults', () => {
+    test('should count every outcome', () => {
+      const summary = summarizeBulkResults([
+        { id: 'a' as any, outcome: BulkTaskOutcome.SUCCESS },
+        { id: 'b' as any, outcome: BulkTaskOutcome.SUCCESS },
+        { id: 'c' as any, outcome: BulkTaskOutcome.CONFLICT }
+      ]);
+
+      expect(summary).toEqual({
+        [BulkTaskOutcome.SUCCESS]: 2,
+        [BulkTaskOutcome.CONFLICT]: 1,
+        [BulkTaskOutcome.FORBIDDEN]: 0,
+        [BulkTaskOutcome.NOT_FOUND]: 0,
+        [BulkTaskOutcome.INVALID]: 0,
+        [BulkTaskOutcome.ERROR]: 0
+      });
+    });
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * @fileoverview Unit tests for iCalendar feed rendering
+ * @version 1.0.0
+ */
+
+import { UUID } from 'crypto';
+import {
+  isValidTimeZone,
+  toCalendarDay,
+  nextCalendarDay,
+  escapeIcsText,
+  foldIcsLine,
+  buildTaskEvent,
+  buildProjectEvents,
+  buildMilestoneEvent,
+  buildCalendar
+} from '../../../src/utils/calendar.util';
+import { describe, test, expect } from '@jest/globals';
+
+const project = { id: 'p-1' as UUID, name: 'Launch' };
+const updatedAt = new Date('2024-02-20T08:15:00Z');
+
+describe('isValidTimeZone', () => {
+  test('accepts IANA zones and rejects unknown ones', () => {
+    expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+    expect(isValidTimeZone('UTC')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus')).toBe(false);
+  });
+});
+
+describe('toCalendarDay', () => {
+  test('places an instant on the day of the time zone', () => {
+    const instant = new Date('2024-03-01T23:30:00Z');
+
+    expect(toCalendarDay(instant, 'UTC')).toBe('20240301');
+    expect(toCalendarDay(instant, 'Europe/Berlin')).toBe('20240302');
+    expect(toCalendarDay(new Date('2024-03-02T03:00:00Z'), 'America/New_York')).toBe('20240301');
+  });
+});
+
+describe('nextCalendarDay', () => {
+  test('rolls over months and leap days', () => {
+    expect(nextCalendarDay('20240301')).toBe('20240302');
+    expect(nextCalendarDay('20240228')).toBe('20240229');
+    expect(nextCalendarDay('20241231')).toBe('20250101');
+  });
+});
+
+describe('escapeIcsText', () => {
+  test('escapes backslashes, separators and line breaks', () => {
+    expect(escapeIcsText('a\\b; c, d\r\ne\nf')).toBe('a\\\\b\\; c\\, d\\ne\\nf');
+  });
+});
+
+describe('foldIcsLine', () => {
+  test('leaves short lines unchanged', () => {
+    expect(foldIcsLine('SUMMARY:Short')).toBe('SUMMARY:Short');
+  });
+
+  test('folds lines at 75 octets with continuation spaces', () => {
+    const folded = foldIcsLine(`SUMMARY:${'x'.repeat(200)}`);
+    const lines = folded.split('\r\n');
+
+    expect(lines.length).toBe(3);
+    lines.forEach(line => expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75));
+    lines.slice(1).forEach(line => expect(line.startsWith(' ')).toBe(true));
+    expect(lines.map((line, index) => (index ? line.slice(1) : line)).join('')).toBe(`SUMMARY:${'x'.repeat(200)}`);
+  });
+
+  test('never splits multi-byte characters', () => {
+    const line = `SUMMARY:${'ü'.repeat(60)}`;
+    const lines = foldIcsLine(line).split('\r\n');
+
+    lines.forEach(part => expect(Buffer.byteLength(part, 'utf8')).toBeLessThanOrEqual(75));
+    expect(lines.map((part, index) => (index ? part.slice(1) : part)).join('')).toBe(line);
+  });
+});
+
+describe('event builders', () => {
+  test('builds task due dates in the time zone', () => {
+    const event = buildTaskEvent({
+      id: 't-1' as UUID,
+      title: 'Ship release',
+      status: 'IN_PROGRESS',
+      dueDate: new Date('2024-03-01T23:30:00Z'),
+      updatedAt,
+      project
+    }, 'Europe/Berlin');
+
+    expect(event).toEqual({
+      uid: 'task-t-1@task-management-system',
+      summary: 'Due: Ship release',
+      description: 'Project: Launch\nStatus: IN_PROGRESS',
+      day: '20240302',
+      stamp: updatedAt
+    });
+  });
+
+  test('builds project start and end events', () => {
+    const base = { ...project, startDate: new Date('2024-01-10T00:00:00Z'), updatedAt };
+
+    expect(buildProjectEvents({ ...base, endDate: null }, 'UTC').map(event => event.summary))
+      .toEqual(['Launch starts']);
+    expect(buildProjectEvents({ ...base, endDate: new Date('2024-06-30T00:00:00Z') }, 'UTC').map(event => event.day))
+      .toEqual(['20240110', '20240630']);
+  });
+
+  test('keeps milestone days in every time zone', () => {
+    const event = buildMilestoneEvent({
+      id: 'm-1' as UUID,
+      name: 'Beta',
+      dueDate: new Date('2024-04-15T00:00:00Z'),
+      updatedAt,
+      project
+    });
+
+    expect(event.day).toBe('20240415');
+    expect(event.uid).toBe('milestone-m-1@task-management-system');
+  });
+});
+
+describe('buildCalendar', () => {
+  test('renders all-day events with CRLF line endings', () => {
+    const ics = buildCalendar('Jane Doe – Tasks', 'Europe/Berlin', [{
+      uid: 'task-t-1@task-management-system',
+      summary: 'Due: Plan, review; ship',
+      day: '20240302',
+      stamp: updatedAt
+    }]);
+    const lines = ics.split('\r\n');
+
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(lines).toContain('X-WR-CALNAME:Jane Doe – Tasks');
+    expect(lines).toContain('X-WR-TIMEZONE:Europe/Berlin');
+    expect(lines).toContain('DTSTAMP:20240220T081500Z');
+    expect(lines).toContain('DTSTART;VALUE=DATE:20240302');
+    expect(lines).toContain('DTEND;VALUE=DATE:20240303');
+    expect(lines).toContain('SUMMARY:Due: Plan\\, review\\; ship');
+    expect(lines.some(line => line.startsWith('DESCRIPTION:'))).toBe(false);
+  });
+
+  test('renders an empty calendar', () => {
+    const ics = buildCalendar('Tasks', 'UTC', []);
+
+    expect(ics).not.toContain('BEGIN:VEVENT');
+    expect(ics.split('\r\n').filter(Boolean).length).toBe(8);
+  });
+});
@@ -151,6 +151,20 @@ describe('Cryptographic Utilities', () => {
       const decrypted = await decrypt(encrypted, iv, tag);
       expect(decrypted).toBe(largeData);
     });
+
+    test('should round-trip data with a given key', async () => {
+      const key = Buffer.alloc(32, 7);
+      const { encrypted, iv, tag } = await encrypt(sensitiveData, key);
+
+      await expect(decrypt(encrypted, iv, tag, key)).resolves.toBe(sensitiveData);
+    });
+
+    test('should fail decryption with a different key', async () => {
+      const { encrypted, iv, tag } = await encrypt(sensitiveData, Buffer.alloc(32, 7));
+
+      await expect(decrypt(encrypted, iv, tag, Buffer.alloc(32, 8)))
+        .rejects.toThrow('Decryption failed');
+    });
   });
 
   describe('Token Generation', () => {
@@ -215,5 +229,16 @@ describe('Cryptographic Utilities', () => {
       const hmac = generateHmac(specialData);
       expect(hmac).toMatch(/^[a-f0-9]{64}$/);
     });
+
+    test('should sign with a given key instead of the server secret', () => {
+      const hmac = generateHmac(hmacData, 'shared-secret');
+      expect(hmac).toMatch(/^[a-f0-9]{64}$/);
+      expect(hmac).not.toBe(generateHmac(hmacData));
+      expect(hmac).not.toBe(generateHmac(hmacData, 'other-secret'));
+    });
+
+    test('should throw error for an empty key', () => {
+      expect(() => generateHmac(hmacData, '')).toThrow('Invalid data');
+    });
   });
 });
\ No newline at end of file
@@ -0,0 +1,117 @@
+/**
+ * @fileoverview Unit tests for custom field utility functions
+ * @version 1.0.0
+ */
+
+import {
+  validateCustomFieldValues,
+  mergeCustomFieldValues,
+  parseCustomFieldFilter,
+  buildCustomFieldWhere,
+  CustomFieldDefinition
+} from '../../../src/utils/customField.util';
+import { CustomFieldType, CustomFieldFilterOperator } from '../../../src/types/customField.types';
+import { describe, test, expect } from '@jest/globals';
+
+const field = (key: string, type: CustomFieldType, overrides: Partial<CustomFieldDefinition> = {}): CustomFieldDefinition => ({
+  key,
+  name: key,
+  type,
+  options: [],
+  required: false,
+  ...overrides
+});
+
+const fields: CustomFieldDefinition[] = [
+  field('points', CustomFieldType.NUMBER, { required: true }),
+  field('due_review', CustomFieldType.DATE),
+  field('team', CustomFieldType.SINGLE_SELECT, { options: ['web', 'api'] }),
+  field('labels', CustomFieldType.MULTI_SELECT, { options: ['ux', 'perf', 'docs'] }),
+  field('reviewer', CustomFieldType.USER),
+  field('notes', CustomFieldType.TEXT)
+];
+
+describe('Custom Field Utility Functions', () => {
+  describe('validateCustomFieldValues', () => {
+    test('should normalize values of every type', () => {
+      const values = validateCustomFieldValues(fields, {
+        points: 3,
+        due_review: '2026-03-01',
+        team: 'web',
+        labels: ['ux', 'ux', 'docs'],
+        reviewer: '6f1c2a3b-4d5e-4f60-8a71-92b3c4d5e6f7',
+        notes: 'Needs design sign-off'
+      });
+
+      expect(values.points).toBe(3);
+      expect(values.due_review).toBe(new Date(2026, 2, 1).toISOString());
+      expect(values.labels).toEqual(['ux', 'docs']);
+    });
+
+    test('should reject values that do not match the field type', () => {
+      expect(() => validateCustomFieldValues(fields, { points: '3' })).toThrow('must be a number: points');
+      expect(() => validateCustomFieldValues(fields, { points: 1, team: 'mobile' })).toThrow('one of its options: team');
+      expect(() => validateCustomFieldValues(fields, { points: 1, reviewer: 'someone' })).toThrow('user ID: reviewer');
+    });
+
+    test('should reject unknown fields', () => {
+      expect(() => validateCustomFieldValues(fields, { points: 1, size: 'L' })).toThrow('Unknown custom field: size');
+    });
+
+    test('should require required fields on create only', () => {
+      expect(() => validateCustomFieldValues(fields, {})).toThrow('Custom field is required: points');
+      expect(validateCustomFieldValues(fields, { notes: 'x' }, true)).toEqual({ notes: 'x' });
+    });
+
+    test('should clear optional fields with null and refuse to clear required ones', () => {
+      expect(validateCustomFieldValues(fields, { team: null }, true)).toEqual({ team: null });
+      expect(() => validateCustomFieldValues(fields, { points: null }, true)).toThrow('required: points');
+    });
+  });
+
+  describe('mergeCustomFieldValues', () => {
+    test('should apply changes and drop cleared fields', () => {
+      expect(mergeCustomFieldValues({ points: 3, team: 'web' }, { team: null, notes: 'x' }))
+        .toEqual({ points: 3, notes: 'x' });
+    });
+  });
+
+  describe('parseCustomFieldFilter', () => {
+    test('should keep colons inside the value', () => {
+      expect(parseCustomFieldFilter('due_review:lt:2026-03-01T12:00:00Z')).toEqual({
+        key: 'due_review',
+        operator: CustomFieldFilterOperator.LT,
+        value: '2026-03-01T12:00:00Z'
+      });
+    });
+
+    test('should reject malformed filters', () => {
+      expect(() => parseCustomFieldFilter('points:gte')).toThrow('key:operator:value');
+      expect(() => parseCustomFieldFilter('points:between:1')).toThrow('key:operator:value');
+    });
+  });
+
+  describe('buildCustomFieldWhere', () => {
+    test('should convert filter values with the field type', () => {
+      const where = buildCustomFieldWhere([parseCustomFieldFilter('points:gte:3')], fields);
+
+      expect(where).toEqual([{ customFields: { path: ['points'], gte: 3 } }]);
+    });
+
+    test('should match any alternative of an in filter', () => {
+      const where = buildCustomFieldWhere([parseCustomFieldFilter('labels:in:ux|perf')], fields);
+
+      expect(where).toEqual([{
+        OR: [
+          { customFields: { path: ['labels'], array_contains: ['ux'] } },
+          { customFields: { path: ['labels'], array_contains: ['perf'] } }
+        ]
+      }]);
+    });
+
+    test('should reject operators that do not fit the field type', () => {
+      expect(() => buildCustomFieldWhere([parseCustomFieldFilter('team:gt:web')], fields))
+        .toThrow('not supported');
+    });
+  });
+});
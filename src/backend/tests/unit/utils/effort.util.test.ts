@@ -0,0 +1,86 @@
+/**
+ * @fileoverview Unit tests for effort rollup utility functions
+ * @version 1.0.0
+ */
+
+import { sumEffort, groupEffort, EffortTask } from '../../../src/utils/effort.util';
+import { WorkflowCategory } from '../../../src/types/workflow.types';
+import { describe, test, expect } from '@jest/globals';
+
+const task = (overrides: Partial<EffortTask> = {}): EffortTask => ({
+  assigneeId: 'user-a',
+  sprintId: null,
+  statusCategory: WorkflowCategory.TODO,
+  originalEstimate: null,
+  remainingEstimate: null,
+  loggedSeconds: 0,
+  ...overrides
+});
+
+describe('Effort Utility Functions', () => {
+  describe('sumEffort', () => {
+    test('should report zeros for no tasks', () => {
+      expect(sumEffort([])).toEqual({
+        taskCount: 0,
+        estimatedCount: 0,
+        originalEstimate: 0,
+        remainingEstimate: 0,
+        loggedHours: 0,
+        completedCount: 0,
+        completedEstimate: 0,
+        completedLoggedHours: 0
+      });
+    });
+
+    test('should leave no remaining work on done tasks', () => {
+      const totals = sumEffort([
+        task({ statusCategory: WorkflowCategory.DONE, originalEstimate: 5, remainingEstimate: 2 }),
+        task({ statusCategory: WorkflowCategory.DOING, originalEstimate: 3, remainingEstimate: 1 })
+      ]);
+
+      expect(totals.originalEstimate).toBe(8);
+      expect(totals.remainingEstimate).toBe(1);
+    });
+
+    test('should fall back to the original estimate for remaining work', () => {
+      expect(sumEffort([task({ originalEstimate: 4 })]).remainingEstimate).toBe(4);
+    });
+
+    test('should compare estimates with time logged on done tasks', () => {
+      const totals = sumEffort([
+        task({ statusCategory: WorkflowCategory.DONE, originalEstimate: 4, loggedSeconds: 5.5 * 3600 }),
+        task({ statusCategory: WorkflowCategory.DOING, originalEstimate: 2, loggedSeconds: 3600 })
+      ]);
+
+      expect(totals.completedCount).toBe(1);
+      expect(totals.completedEstimate).toBe(4);
+      expect(totals.completedLoggedHours).toBe(5.5);
+      expect(totals.loggedHours).toBe(6.5);
+    });
+
+    test('should count only estimated tasks as estimated', () => {
+      const totals = sumEffort([task({ originalEstimate: 0 }), task()]);
+
+      expect(totals.taskCount).toBe(2);
+      expect(totals.estimatedCount).toBe(1);
+    });
+
+    test('should round away floating point noise', () => {
+      expect(sumEffort([task({ originalEstimate: 0.1 }), task({ originalEstimate: 0.2 })]).originalEstimate).toBe(0.3);
+    });
+  });
+
+  describe('groupEffort', () => {
+    test('should total each group separately', () => {
+      const groups = groupEffort([
+        task({ sprintId: 'sprint-1', originalEstimate: 2 }),
+        task({ sprintId: null, originalEstimate: 1 }),
+        task({ sprintId: 'sprint-1', originalEstimate: 3 })
+      ], item => item.sprintId);
+
+      expect([...groups.keys()]).toEqual(['sprint-1', null]);
+      expect(groups.get('sprint-1')?.originalEstimate).toBe(5);
+      expect(groups.get(null)?.originalEstimate).toBe(1);
+    });
+  });
+});
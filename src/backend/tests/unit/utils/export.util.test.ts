@@ -0,0 +1,135 @@
+/**
+ * @fileoverview Unit tests for list export columns and streaming writers
+ * @version 1.0.0
+ */
+
+import { PassThrough } from 'stream';
+import {
+  formatCsvValue,
+  selectExportColumns,
+  buildExportFileName,
+  writeExport,
+  ExportColumn,
+  ExportColumnError,
+  TASK_EXPORT_COLUMNS,
+  DEFAULT_TASK_EXPORT_COLUMNS
+} from '../../../src/utils/export.util';
+import { ExportFormat } from '../../../src/types/export.types';
+import { describe, test, expect } from '@jest/globals';
+
+interface Row {
+  name: string;
+  count: number;
+  due: Date | null;
+}
+
+const columns: ExportColumn<Row>[] = [
+  { key: 'name', header: 'Name', value: row => row.name },
+  { key: 'count', header: 'Count', value: row => row.count },
+  { key: 'due', header: 'Due date', value: row => row.due }
+];
+
+async function* toRows(rows: Row[]): AsyncGenerator<Row> {
+  for (const row of rows) {
+    yield row;
+  }
+}
+
+const collect = async (format: ExportFormat, rows: Row[]): Promise<{ text: string; count: number }> => {
+  const out = new PassThrough();
+  const chunks: Buffer[] = [];
+  out.on('data', chunk => chunks.push(Buffer.from(chunk)));
+
+  const count = await writeExport(format, columns, toRows(rows), out);
+  out.end();
+
+  return { text: Buffer.concat(chunks).toString('utf8'), count };
+};
+
+describe('Export Utility Functions', () => {
+  describe('formatCsvValue', () => {
+    test('should quote fields holding delimiters, quotes and line breaks', () => {
+      expect(formatCsvValue('Fix login, again')).toBe('"Fix login, again"');
+      expect(formatCsvValue('Say "hi"')).toBe('"Say ""hi"""');
+      expect(formatCsvValue('two\nlines')).toBe('"two\nlines"');
+    });
+
+    test('should neutralize text starting like a formula', () => {
+      expect(formatCsvValue('=SUM(A1:A2)')).toBe("'=SUM(A1:A2)");
+      expect(formatCsvValue('@cmd')).toBe("'@cmd");
+      expect(formatCsvValue('-1+1')).toBe("'-1+1");
+    });
+
+    test('should write numbers, dates and empty values', () => {
+      expect(formatCsvValue(-3)).toBe('-3');
+      expect(formatCsvValue(new Date('2024-03-01T10:00:00.000Z'))).toBe('2024-03-01T10:00:00.000Z');
+      expect(formatCsvValue(null)).toBe('');
+    });
+  });
+
+  describe('selectExportColumns', () => {
+    test('should use the defaults when no columns are requested', () => {
+      const selected = selectExportColumns(TASK_EXPORT_COLUMNS, undefined, DEFAULT_TASK_EXPORT_COLUMNS);
+      expect(selected.map(column => column.key)).toEqual(DEFAULT_TASK_EXPORT_COLUMNS);
+    });
+
+    test('should keep the requested order and drop repeats', () => {
+      const selected = selectExportColumns(columns, ['due', 'name', 'due'], ['name']);
+      expect(selected.map(column => column.key)).toEqual(['due', 'name']);
+    });
+
+    test('should reject unknown columns', () => {
+      expect(() => selectExportColumns(columns, ['name', 'secret'], ['name'])).toThrow(ExportColumnError);
+    });
+  });
+
+  describe('buildExportFileName', () => {
+    test('should name the file after the list, day and format', () => {
+      expect(buildExportFileName('tasks', ExportFormat.XLSX, new Date('2024-03-01T23:00:00.000Z')))
+        .toBe('tasks-2024-03-01.xlsx');
+    });
+  });
+
+  describe('writeExport', () => {
+    const rows: Row[] = [
+      { name: 'Alpha, beta', count: 2, due: new Date('2024-03-01T00:00:00.000Z') },
+      { name: 'Gamma', count: 0, due: null }
+    ];
+
+    test('should write a header row and one CSV line per row', async () => {
+      const { text, count } = await collect(ExportFormat.CSV, rows);
+
+      expect(count).toBe(2);
+      expect(text).toBe(
+        'Name,Count,Due date\r\n' +
+        '"Alpha, beta",2,2024-03-01T00:00:00.000Z\r\n' +
+        'Gamma,0,\r\n'
+      );
+    });
+
+    test('should write a JSON array keyed by column', async () => {
+      const { text, count } = await collect(ExportFormat.JSON, rows);
+
+      expect(count).toBe(2);
+      expect(JSON.parse(text)).toEqual([
+        { name: 'Alpha, beta', count: 2, due: '2024-03-01T00:00:00.000Z' },
+        { name: 'Gamma', count: 0, due: null }
+      ]);
+    });
+
+    test('should write an empty JSON array without rows', async () => {
+      const { text, count } = await collect(ExportFormat.JSON, []);
+
+      expect(count).toBe(0);
+      expect(JSON.parse(text)).toEqual([]);
+    });
+
+    test('should stop once the destination is closed', async () => {
+      const out = new PassThrough();
+      out.destroy();
+
+      const count = await writeExport(ExportFormat.CSV, columns, toRows(rows), out);
+      expect(count).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * @fileoverview Unit tests for change history utility functions
+ * @version 1.0.0
+ */
+
+import {
+  diffFields,
+  buildHistoryEntries,
+  TASK_HISTORY_FIELDS
+} from '../../../src/utils/history.util';
+import { HistoryEntityType } from '../../../src/types/history.types';
+import { describe, test, expect } from '@jest/globals';
+
+describe('History Utility Functions', () => {
+  describe('diffFields', () => {
+    test('should report changed fields with old and new values', () => {
+      const changes = diffFields(
+        { title: 'Draft', status: 'TODO', priority: 'LOW' },
+        { title: 'Final', status: 'DONE', priority: 'LOW' },
+        TASK_HISTORY_FIELDS
+      );
+
+      expect(changes).toEqual([
+        { field: 'title', oldValue: 'Draft', newValue: 'Final' },
+        { field: 'status', oldValue: 'TODO', newValue: 'DONE' }
+      ]);
+    });
+
+    test('should compare dates by instant and store them as ISO strings', () => {
+      const changes = diffFields(
+        { dueDate: new Date('2026-10-19T09:00:00Z'), tags: ['a'] },
+        { dueDate: new Date('2026-10-19T09:00:00Z'), tags: ['a'] },
+        TASK_HISTORY_FIELDS
+      );
+      expect(changes).toEqual([]);
+
+      const moved = diffFields(
+        { dueDate: new Date('2026-10-19T09:00:00Z') },
+        { dueDate: new Date('2026-10-26T09:00:00Z') },
+        ['dueDate']
+      );
+      expect(moved).toEqual([{
+        field: 'dueDate',
+        oldValue: '2026-10-19T09:00:00.000Z',
+        newValue: '2026-10-26T09:00:00.000Z'
+      }]);
+    });
+
+    test('should treat missing and null values alike', () => {
+      expect(diffFields({ parentId: null }, {}, ['parentId'])).toEqual([]);
+      expect(diffFields({}, { parentId: 'abc' }, ['parentId'])).toEqual([
+        { field: 'parentId', oldValue: null, newValue: 'abc' }
+      ]);
+    });
+
+    test('should ignore fields that are not tracked', () => {
+      expect(diffFields({ version: 1 }, { version: 2 }, TASK_HISTORY_FIELDS)).toEqual([]);
+    });
+  });
+
+  describe('buildHistoryEntries', () => {
+    test('should stamp every change with the version and author', () => {
+      const entries = buildHistoryEntries(
+        HistoryEntityType.TASK,
+        'a0e2f6b4-5b0e-4c43-9f55-3f2b4c6d7e81' as any,
+        [{ field: 'assigneeId', oldValue: null, newValue: 'user-2' }],
+        { version: 4, changedBy: 'user-1' as any, correlationId: 'corr-1' }
+      );
+
+      expect(entries).toEqual([{
+        entityType: HistoryEntityType.TASK,
+        entityId: 'a0e2f6b4-5b0e-4c43-9f55-3f2b4c6d7e81',
+        field: 'assigneeId',
+        oldValue: undefined,
+        newValue: 'user-2',
+        version: 4,
+        changedBy: 'user-1',
+        correlationId: 'corr-1'
+      }]);
+    });
+  });
+});
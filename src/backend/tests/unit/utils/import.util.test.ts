@@ -0,0 +1,175 @@
+/**
+ * @fileoverview Unit tests for task import parsing and row mapping
+ * @version 1.0.0
+ */
+
+import {
+  parseCsv,
+  parseJson,
+  parseImportFile,
+  suggestImportMapping,
+  checkImportMapping,
+  resolveImportStatus,
+  parseImportDate,
+  mapImportRow,
+  TaskImportFileError,
+  MAX_IMPORT_ROWS
+} from '../../../src/utils/import.util';
+import { TaskImportField, TaskImportFormat } from '../../../src/types/import.types';
+import { TaskPriority } from '../../../src/types/task.types';
+import { describe, test, expect } from '@jest/globals';
+
+const projectId = '6f1c1f4e-8a51-4c1f-9b8e-2f3f0c2f4a10' as any;
+const memberId = '0d6f3a2e-5b7c-4c9d-8e1f-2a3b4c5d6e7f' as any;
+
+const lookups = {
+  projectId,
+  states: [
+    { key: 'TODO', name: 'To do' },
+    { key: 'IN_PROGRESS', name: 'In progress' },
+    { key: 'DONE', name: 'Done' }
+  ],
+  memberIds: new Map([['ana@example.com', memberId]])
+};
+
+describe('Import Utility Functions', () => {
+  describe('parseCsv', () => {
+    test('should read quoted values with delimiters, quotes and line breaks', () => {
+      const { columns, rows } = parseCsv('Title,Notes\r\n"Fix login, again","Say ""hi""\nthen leave"\r\n');
+
+      expect(columns).toEqual(['Title', 'Notes']);
+      expect(rows).toEqual([{ Title: 'Fix login, again', Notes: 'Say "hi"\nthen leave' }]);
+    });
+
+    test('should detect semicolons and skip blank lines', () => {
+      const { rows } = parseCsv('Title;Priority\n\nA;high\n');
+      expect(rows).toEqual([{ Title: 'A', Priority: 'high' }]);
+    });
+
+    test('should name empty and repeated headers', () => {
+      expect(parseCsv('Title,,Title\na,b,c').columns).toEqual(['Title', 'Column 2', 'Title (2)']);
+    });
+
+    test('should reject an unterminated quote', () => {
+      expect(() => parseCsv('Title\n"open')).toThrow(TaskImportFileError);
+    });
+  });
+
+  describe('parseJson', () => {
+    test('should read objects under "tasks" and join arrays', () => {
+      const { columns, rows } = parseJson(JSON.stringify({
+        tasks: [{ title: 'A', tags: ['x', 'y'] }, { title: 'B', due: null }]
+      }));
+
+      expect(columns).toEqual(['title', 'tags', 'due']);
+      expect(rows[0]).toEqual({ title: 'A', tags: 'x, y', due: '' });
+    });
+
+    test('should reject anything but a list of objects', () => {
+      expect(() => parseJson('{"title": "A"}')).toThrow('array of tasks');
+      expect(() => parseJson('[1, 2]')).toThrow(TaskImportFileError);
+      expect(() => parseJson('not json')).toThrow('not valid JSON');
+    });
+  });
+
+  describe('parseImportFile', () => {
+    test('should pick the format by extension and drop a byte order mark', () => {
+      const parsed = parseImportFile({
+        fileName: 'tasks.CSV',
+        mimeType: 'application/octet-stream',
+        content: Buffer.from('\uFEFFTitle\nA')
+      });
+
+      expect(parsed.format).toBe(TaskImportFormat.CSV);
+      expect(parsed.columns).toEqual(['Title']);
+    });
+
+    test('should reject other formats and oversized files', () => {
+      expect(() => parseImportFile({ fileName: 'tasks.xlsx', mimeType: '', content: Buffer.from('') }))
+        .toThrow('Only CSV and JSON');
+
+      const content = Buffer.from(`Title\n${'A\n'.repeat(MAX_IMPORT_ROWS + 1)}`);
+      expect(() => parseImportFile({ fileName: 'tasks.csv', mimeType: 'text/csv', content }))
+        .toThrow(`at most ${MAX_IMPORT_ROWS}`);
+    });
+  });
+
+  describe('suggestImportMapping', () => {
+    test('should recognize common header names once each', () => {
+      expect(suggestImportMapping(['Summary', 'Assigned To', 'Due Date', 'Labels', 'Name'])).toEqual({
+        [TaskImportField.TITLE]: 'Summary',
+        [TaskImportField.ASSIGNEE_EMAIL]: 'Assigned To',
+        [TaskImportField.DUE_DATE]: 'Due Date',
+        [TaskImportField.TAGS]: 'Labels'
+      });
+    });
+  });
+
+  describe('checkImportMapping', () => {
+    test('should require a title column that exists', () => {
+      expect(checkImportMapping({}, ['Title'])).toContain('title');
+      expect(checkImportMapping({ title: 'Title', owner: 'Title' } as any, ['Title'])).toContain('Unknown field');
+      expect(checkImportMapping({ [TaskImportField.TITLE]: 'Name' }, ['Title'])).toContain('Unknown column');
+      expect(checkImportMapping({ [TaskImportField.TITLE]: 'Title' }, ['Title'])).toBeNull();
+    });
+  });
+
+  describe('resolveImportStatus', () => {
+    test('should match state keys and names', () => {
+      expect(resolveImportStatus('in progress', lookups.states)).toBe('IN_PROGRESS');
+      expect(resolveImportStatus('Done', lookups.states)).toBe('DONE');
+      expect(resolveImportStatus('Blocked', lookups.states)).toBeNull();
+    });
+  });
+
+  describe('parseImportDate', () => {
+    test('should keep ISO days and reject impossible ones', () => {
+      expect(parseImportDate('2030-02-28T10:00:00Z')).toBe('2030-02-28');
+      expect(parseImportDate('2030-02-30')).toBeNull();
+      expect(parseImportDate('soon')).toBeNull();
+    });
+  });
+
+  describe('mapImportRow', () => {
+    const mapping = {
+      [TaskImportField.TITLE]: 'Title',
+      [TaskImportField.STATUS]: 'State',
+      [TaskImportField.PRIORITY]: 'Priority',
+      [TaskImportField.ASSIGNEE_EMAIL]: 'Owner',
+      [TaskImportField.TAGS]: 'Tags'
+    };
+
+    test('should resolve the assignee by email and the enums', () => {
+      const mapped = mapImportRow(
+        { Title: 'Write docs', State: 'In progress', Priority: 'urgent', Owner: 'Ana@example.com', Tags: 'docs; api|docs' },
+        mapping,
+        lookups
+      );
+
+      expect(mapped.task).toEqual({
+        projectId,
+        title: 'Write docs',
+        priority: TaskPriority.HIGH,
+        assigneeId: memberId
+      });
+      expect(mapped.status).toBe('IN_PROGRESS');
+      expect(mapped.tags).toEqual(['docs', 'api']);
+      expect(mapped.errors).toEqual({});
+    });
+
+    test('should report values that cannot be resolved', () => {
+      const mapped = mapImportRow(
+        { Title: 'Write docs', State: 'Parked', Priority: 'someday', Owner: 'bob@example.com', Tags: '' },
+        mapping,
+        lookups
+      );
+
+      expect(Object.keys(mapped.errors)).toEqual([
+        TaskImportField.PRIORITY,
+        TaskImportField.ASSIGNEE_EMAIL,
+        TaskImportField.STATUS
+      ]);
+      expect(mapped.task.priority).toBe(TaskPriority.MEDIUM);
+    });
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * @fileoverview Unit tests for inbound email parsing, addresses and reply tokens
+ * @version 1.0.0
+ */
+
+import {
+  MAX_INBOUND_TITLE_LENGTH,
+  buildProjectAddress,
+  buildReplyAddress,
+  createReplyToken,
+  extractReplyText,
+  getMessageKey,
+  hasFailedSenderAuthentication,
+  parseInboundEmail,
+  resolveInboundTarget,
+  sanitizeAttachmentFileName,
+  toTaskTitle,
+  verifyReplyToken
+} from '../../../src/utils/inboundEmail.util';
+import { IInboundEmailMessage } from '../../../src/interfaces/inboundEmail.interface';
+import { describe, test, expect } from '@jest/globals';
+
+const DOMAIN = 'inbound.example.com';
+const TASK_ID = '6f1c2a3b-4d5e-4f60-8a7b-9c0d1e2f3a4b';
+const PROJECT_ID = '0a1b2c3d-4e5f-4a6b-8c7d-8e9f0a1b2c3d';
+
+const buildMessage = (overrides: Partial<IInboundEmailMessage> = {}): IInboundEmailMessage => ({
+  messageId: 'm-1@mail.example.com',
+  from: 'alice@example.com',
+  recipients: [],
+  subject: 'Printer is broken',
+  text: 'Please fix it',
+  inReplyTo: null,
+  references: [],
+  headers: {},
+  attachments: [],
+  ...overrides
+});
+
+describe('reply tokens', () => {
+  test('verify to the task they were created for', () => {
+    const token = createReplyToken(TASK_ID);
+
+    expect(token).toMatch(new RegExp(`^${TASK_ID}\\.[a-f0-9]{32}$`));
+    expect(verifyReplyToken(token)).toBe(TASK_ID);
+    expect(verifyReplyToken(token.toUpperCase())).toBe(TASK_ID);
+  });
+
+  test('reject tampered and malformed tokens', () => {
+    const [, signature] = createReplyToken(TASK_ID).split('.');
+    const otherTask = '7f1c2a3b-4d5e-4f60-8a7b-9c0d1e2f3a4b';
+
+    expect(verifyReplyToken(`${otherTask}.${signature}`)).toBeNull();
+    expect(verifyReplyToken(TASK_ID)).toBeNull();
+    expect(verifyReplyToken(`not-a-task.${signature}`)).toBeNull();
+    expect(verifyReplyToken(`${createReplyToken(TASK_ID)}.extra`)).toBeNull();
+  });
+
+  test('are carried by reply addresses', () => {
+    expect(buildReplyAddress(TASK_ID, DOMAIN)).toBe(`reply+${createReplyToken(TASK_ID)}@${DOMAIN}`);
+    expect(buildProjectAddress(PROJECT_ID, DOMAIN)).toBe(`project+${PROJECT_ID}@${DOMAIN}`);
+  });
+});
+
+describe('resolveInboundTarget', () => {
+  test('finds the project of a project address, ignoring case', () => {
+    const message = buildMessage({
+      recipients: ['someone@example.com', `PROJECT+${PROJECT_ID}@${DOMAIN.toUpperCase()}`]
+    });
+
+    expect(resolveInboundTarget(message, DOMAIN)).toEqual({ type: 'project', projectId: PROJECT_ID });
+  });
+
+  test('prefers a reply address over a copied project address', () => {
+    const message = buildMessage({
+      recipients: [buildProjectAddress(PROJECT_ID, DOMAIN), buildReplyAddress(TASK_ID, DOMAIN)]
+    });
+
+    expect(resolveInboundTarget(message, DOMAIN)).toEqual({ type: 'reply', taskId: TASK_ID });
+  });
+
+  test('finds reply tokens in the reply token header and In-Reply-To', () => {
+    expect(resolveInboundTarget(
+      buildMessage({ headers: { 'x-reply-token': createReplyToken(TASK_ID) } }),
+      DOMAIN
+    )).toEqual({ type: 'reply', taskId: TASK_ID });
+
+    expect(resolveInboundTarget(
+      buildMessage({ inReplyTo: buildReplyAddress(TASK_ID, DOMAIN) }),
+      DOMAIN
+    )).toEqual({ type: 'reply', taskId: TASK_ID });
+  });
+
+  test('ignores other domains, forged tokens and malformed project addresses', () => {
+    const forged = `reply+${TASK_ID}.${'0'.repeat(32)}@${DOMAIN}`;
+
+    expect(resolveInboundTarget(buildMessage({
+      recipients: [`project+${PROJECT_ID}@other.example.com`, forged, `project+abc@${DOMAIN}`]
+    }), DOMAIN)).toBeNull();
+  });
+});
+
+describe('hasFailedSenderAuthentication', () => {
+  test('detects failed DMARC checks only', () => {
+    expect(hasFailedSenderAuthentication({
+      'authentication-results': 'mx.example.com; spf=pass; dkim=fail; dmarc=fail header.from=example.com'
+    })).toBe(true);
+    expect(hasFailedSenderAuthentication({
+      'authentication-results': 'mx.example.com; spf=pass; dkim=pass; dmarc=pass'
+    })).toBe(false);
+    expect(hasFailedSenderAuthentication({})).toBe(false);
+  });
+});
+
+describe('extractReplyText', () => {
+  test('removes the quoted original and the signature', () => {
+    const text = [
+      'Done, see the attached log.',
+      '',
+      '-- ',
+      'Alice',
+      '',
+      'On Mon, 2 Jun 2025 at 10:00, Tasks <noreply@example.com> wrote:',
+      '> Task assigned to you'
+    ].join('\r\n');
+
+    expect(extractReplyText(text)).toBe('Done, see the attached log.');
+  });
+
+  test('drops quoted lines and stops at Outlook separators', () => {
+    expect(extractReplyText('> quoted\nNew text\n-----Original Message-----\nOld text')).toBe('New text');
+    expect(extractReplyText('> only quoted')).toBe('');
+  });
+});
+
+describe('toTaskTitle', () => {
+  test('drops forwarding prefixes and collapses whitespace', () => {
+    expect(toTaskTitle('Fwd: FW:  Printer\n is broken ')).toBe('Printer is broken');
+  });
+
+  test('falls back for empty subjects and shortens long ones', () => {
+    expect(toTaskTitle('  ')).toBe('(no subject)');
+    expect(toTaskTitle('x'.repeat(500))).toHaveLength(MAX_INBOUND_TITLE_LENGTH);
+  });
+});
+
+describe('sanitizeAttachmentFileName', () => {
+  test('keeps the characters attachments accept', () => {
+    expect(sanitizeAttachmentFileName('report (final).pdf')).toBe('report _final_.pdf');
+    expect(sanitizeAttachmentFileName('../../etc/passwd')).toBe('_.._etc_passwd');
+    expect(sanitizeAttachmentFileName(undefined)).toBe('attachment');
+  });
+});
+
+describe('parseInboundEmail', () => {
+  const raw = Buffer.from([
+    'From: "Alice" <Alice@Example.com>',
+    `To: project+${PROJECT_ID}@${DOMAIN}`,
+    'Cc: Bob <bob@example.com>',
+    'Subject: =?UTF-8?B?UHJpbnRlciBpc3N1ZQ==?=',
+    'Message-ID: <m-1@mail.example.com>',
+    'In-Reply-To: <m-0@mail.example.com>',
+    'MIME-Version: 1.0',
+    'Content-Type: multipart/mixed; boundary="b1"',
+    '',
+    '--b1',
+    'Content-Type: text/plain; charset=utf-8',
+    '',
+    'The printer on floor 2 is jammed.',
+    '--b1',
+    'Content-Type: text/plain; name="log.txt"',
+    'Content-Disposition: attachment; filename="log.txt"',
+    'Content-Transfer-Encoding: base64',
+    '',
+    Buffer.from('paper jam').toString('base64'),
+    '--b1--',
+    ''
+  ].join('\r\n'));
+
+  test('reduces a MIME message to addresses, text and attachments', async () => {
+    const message = await parseInboundEmail(raw);
+
+    expect(message).toMatchObject({
+      messageId: 'm-1@mail.example.com',
+      from: 'alice@example.com',
+      recipients: [`project+${PROJECT_ID}@${DOMAIN}`, 'bob@example.com'],
+      subject: 'Printer issue',
+      inReplyTo: 'm-0@mail.example.com'
+    });
+    expect(message.text.trim()).toBe('The printer on floor 2 is jammed.');
+    expect(message.attachments).toHaveLength(1);
+    expect(message.attachments[0]).toMatchObject({ fileName: 'log.txt', mimeType: 'text/plain', size: 9 });
+    expect(message.attachments[0].content.toString()).toBe('paper jam');
+  });
+
+  test('keys messages by Message-ID, or by a hash without one', async () => {
+    const message = await parseInboundEmail(raw);
+
+    expect(getMessageKey(message, raw)).toBe('m-1@mail.example.com');
+    expect(getMessageKey({ ...message, messageId: null }, raw)).toMatch(/^sha256:[a-f0-9]{64}$/);
+  });
+});
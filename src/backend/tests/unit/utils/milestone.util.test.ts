@@ -0,0 +1,63 @@
+/**
+ * @fileoverview Unit tests for milestone utility functions
+ * @version 1.0.0
+ */
+
+import { computeMilestoneStatus, MilestoneTaskState } from '../../../src/utils/milestone.util';
+import { MilestoneStatus } from '../../../src/types/milestone.types';
+import { WorkflowCategory } from '../../../src/types/workflow.types';
+import { describe, test, expect } from '@jest/globals';
+
+const dueDate = new Date('2024-03-15');
+
+const task = (overrides: Partial<MilestoneTaskState> = {}): MilestoneTaskState => ({
+  statusCategory: WorkflowCategory.DOING,
+  dueDate: null,
+  deletedAt: null,
+  ...overrides
+});
+
+describe('Milestone Utility Functions', () => {
+  describe('computeMilestoneStatus', () => {
+    test('should be on track before the date with no overdue tasks', () => {
+      const tasks = [task({ dueDate: new Date('2024-03-14T17:00:00Z') })];
+
+      expect(computeMilestoneStatus(dueDate, tasks, new Date('2024-03-10T12:00:00Z')))
+        .toBe(MilestoneStatus.ON_TRACK);
+    });
+
+    test('should be at risk while an unfinished task is overdue', () => {
+      const tasks = [task({ dueDate: new Date('2024-03-08T17:00:00Z') })];
+
+      expect(computeMilestoneStatus(dueDate, tasks, new Date('2024-03-10T12:00:00Z')))
+        .toBe(MilestoneStatus.AT_RISK);
+    });
+
+    test('should ignore overdue tasks that are done or deleted', () => {
+      const overdue = new Date('2024-03-08T17:00:00Z');
+      const tasks = [
+        task({ dueDate: overdue, statusCategory: WorkflowCategory.DONE }),
+        task({ dueDate: overdue, deletedAt: new Date('2024-03-09T08:00:00Z') })
+      ];
+
+      expect(computeMilestoneStatus(dueDate, tasks, new Date('2024-03-10T12:00:00Z')))
+        .toBe(MilestoneStatus.ON_TRACK);
+    });
+
+    test('should only be missed once the due day has passed', () => {
+      const tasks = [task()];
+
+      expect(computeMilestoneStatus(dueDate, tasks, new Date('2024-03-15T23:59:00Z')))
+        .toBe(MilestoneStatus.ON_TRACK);
+      expect(computeMilestoneStatus(dueDate, tasks, new Date('2024-03-16T00:00:00Z')))
+        .toBe(MilestoneStatus.MISSED);
+    });
+
+    test('should not be missed when every task was finished', () => {
+      const tasks = [task({ statusCategory: WorkflowCategory.DONE })];
+
+      expect(computeMilestoneStatus(dueDate, tasks, new Date('2024-04-01T00:00:00Z')))
+        .toBe(MilestoneStatus.ON_TRACK);
+    });
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * @fileoverview Unit tests for notification recipients and texts
+ * @version 1.0.0
+ */
+
+import {
+  MAX_NOTIFICATION_MESSAGE_LENGTH,
+  buildCommentNotifications,
+  buildDueSoonNotification,
+  buildTaskNotifications,
+  getDueSoonKey,
+  toExcerpt
+} from '../../../src/utils/notification.util';
+import { NotificationTask } from '../../../src/interfaces/notification.interface';
+import { NotificationType } from '../../../src/types/notification.types';
+import { describe, test, expect } from '@jest/globals';
+
+const ACTOR = '11111111-1111-4111-8111-111111111111' as any;
+const ASSIGNEE = '22222222-2222-4222-8222-222222222222' as any;
+const CREATOR = '33333333-3333-4333-8333-333333333333' as any;
+const TASK_ID = '44444444-4444-4444-8444-444444444444' as any;
+const PROJECT_ID = '55555555-5555-4555-8555-555555555555' as any;
+const COMMENT_ID = '66666666-6666-4666-8666-666666666666' as any;
+
+const task: NotificationTask = {
+  id: TASK_ID,
+  title: 'Ship release',
+  projectId: PROJECT_ID,
+  assigneeId: ASSIGNEE,
+  createdBy: CREATOR
+};
+
+const comment = {
+  id: COMMENT_ID,
+  taskId: TASK_ID,
+  authorId: ACTOR,
+  content: 'Can you take a look?'
+};
+
+describe('buildTaskNotifications', () => {
+  test('tells a new assignee about the assignment', () => {
+    expect(buildTaskNotifications(task, { assigned: true }, ACTOR)).toEqual([{
+      userId: ASSIGNEE,
+      type: NotificationType.ASSIGNMENT,
+      title: 'Ship release',
+      message: 'Assigned to you',
+      taskId: TASK_ID,
+      projectId: PROJECT_ID,
+      actorId: ACTOR
+    }]);
+  });
+
+  test('tells the assignee and creator about a status change', () => {
+    const notifications = buildTaskNotifications(
+      task,
+      { assigned: false, status: { from: 'To Do', to: 'In Progress' } },
+      ACTOR
+    );
+
+    expect(notifications.map(n => [n.userId, n.type])).toEqual([
+      [ASSIGNEE, NotificationType.STATUS_CHANGE],
+      [CREATOR, NotificationType.STATUS_CHANGE]
+    ]);
+    expect(notifications[0].message).toBe('Moved from To Do to In Progress');
+  });
+
+  test('does not tell a new assignee about the status change as well', () => {
+    const notifications = buildTaskNotifications(
+      task,
+      { assigned: true, status: { from: 'To Do', to: 'Done' } },
+      ACTOR
+    );
+
+    expect(notifications.map(n => [n.userId, n.type])).toEqual([
+      [ASSIGNEE, NotificationType.ASSIGNMENT],
+      [CREATOR, NotificationType.STATUS_CHANGE]
+    ]);
+  });
+
+  test('does not tell users about their own changes', () => {
+    expect(buildTaskNotifications(task, { assigned: true }, ASSIGNEE)).toEqual([]);
+    expect(buildTaskNotifications(
+      { ...task, createdBy: ASSIGNEE },
+      { assigned: false, status: { from: 'To Do', to: 'Done' } },
+      ASSIGNEE
+    )).toEqual([]);
+  });
+});
+
+describe('buildCommentNotifications', () => {
+  test('tells each mentioned user once, but not the author', () => {
+    const notifications = buildCommentNotifications(
+      comment,
+      task,
+      [ASSIGNEE, ASSIGNEE, ACTOR],
+      null
+    );
+
+    expect(notifications).toEqual([{
+      userId: ASSIGNEE,
+      type: NotificationType.MENTION,
+      title: 'Ship release',
+      message: 'Can you take a look?',
+      taskId: TASK_ID,
+      projectId: PROJECT_ID,
+      commentId: COMMENT_ID,
+      actorId: ACTOR
+    }]);
+  });
+
+  test('tells the author of the parent comment about a reply unless they were mentioned', () => {
+    expect(buildCommentNotifications(comment, task, [], CREATOR).map(n => [n.userId, n.type]))
+      .toEqual([[CREATOR, NotificationType.COMMENT_REPLY]]);
+    expect(buildCommentNotifications(comment, task, [CREATOR], CREATOR).map(n => [n.userId, n.type]))
+      .toEqual([[CREATOR, NotificationType.MENTION]]);
+    expect(buildCommentNotifications(comment, task, [], ACTOR)).toEqual([]);
+  });
+});
+
+describe('due-soon reminders', () => {
+  const dueDate = new Date('2025-06-02T09:00:00.000Z');
+
+  test('are keyed by task and due date', () => {
+    expect(getDueSoonKey(TASK_ID, dueDate)).toBe(`due-soon:${TASK_ID}:2025-06-02T09:00:00.000Z`);
+    expect(getDueSoonKey(TASK_ID, new Date('2025-06-03T09:00:00.000Z'))).not.toBe(getDueSoonKey(TASK_ID, dueDate));
+  });
+
+  test('go to the assignee', () => {
+    expect(buildDueSoonNotification(task, dueDate)).toMatchObject({
+      userId: ASSIGNEE,
+      type: NotificationType.DUE_SOON,
+      taskId: TASK_ID,
+      dedupeKey: getDueSoonKey(TASK_ID, dueDate)
+    });
+  });
+});
+
+describe('toExcerpt', () => {
+  test('collapses whitespace and shortens long text', () => {
+    expect(toExcerpt('  First line\n\nsecond   line ')).toBe('First line second line');
+
+    const excerpt = toExcerpt('word '.repeat(200));
+    expect(excerpt).toHaveLength(MAX_NOTIFICATION_MESSAGE_LENGTH);
+    expect(excerpt.endsWith('…')).toBe(true);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * @fileoverview Unit tests for recurrence utility functions
+ * @version 1.0.0
+ */
+
+import {
+  parseRRule,
+  computeNextOccurrence,
+  computeNextOccurrenceAfter,
+  RecurrencePattern
+} from '../../../src/utils/recurrence.util';
+import { describe, test, expect } from '@jest/globals';
+
+const pattern = (overrides: Partial<RecurrencePattern>): RecurrencePattern => ({
+  frequency: 'DAILY',
+  interval: 1,
+  byWeekday: [],
+  byMonthDay: null,
+  businessDaysOnly: false,
+  ...overrides
+});
+
+describe('Recurrence Utility Functions', () => {
+  describe('parseRRule', () => {
+    test('should parse frequency, interval, weekdays and count', () => {
+      const parsed = parseRRule('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;COUNT=10');
+
+      expect(parsed).toEqual({
+        frequency: 'WEEKLY',
+        interval: 2,
+        byWeekday: [1, 4],
+        byMonthDay: null,
+        count: 10
+      });
+    });
+
+    test('should parse an RFC 5545 UNTIL date', () => {
+      const parsed = parseRRule('FREQ=MONTHLY;BYMONTHDAY=15;UNTIL=20261231T000000Z');
+
+      expect(parsed.byMonthDay).toBe(15);
+      expect(parsed.until?.toISOString()).toBe('2026-12-31T00:00:00.000Z');
+    });
+
+    test('should reject unsupported parts', () => {
+      expect(() => parseRRule('FREQ=DAILY;BYHOUR=9')).toThrow('Unsupported recurrence rule part: BYHOUR');
+    });
+
+    test('should reject unknown weekdays and frequencies', () => {
+      expect(() => parseRRule('FREQ=WEEKLY;BYDAY=XX')).toThrow('Invalid weekday');
+      expect(() => parseRRule('FREQ=YEARLY')).toThrow('Recurrence frequency must be');
+    });
+  });
+
+  describe('computeNextOccurrence', () => {
+    test('should add the interval in days for daily rules', () => {
+      const next = computeNextOccurrence(pattern({ interval: 3 }), new Date('2026-10-14T09:00:00Z'));
+
+      expect(next.toISOString()).toBe('2026-10-17T09:00:00.000Z');
+    });
+
+    test('should count only working days for business-day daily rules', () => {
+      // Friday + 1 business day = Monday
+      const next = computeNextOccurrence(
+        pattern({ businessDaysOnly: true }),
+        new Date('2026-10-16T09:00:00Z')
+      );
+
+      expect(next.toISOString()).toBe('2026-10-19T09:00:00.000Z');
+    });
+
+    test('should move to the next selected weekday within the week', () => {
+      // Monday -> Thursday
+      const next = computeNextOccurrence(
+        pattern({ frequency: 'WEEKLY', byWeekday: [1, 4] }),
+        new Date('2026-10-12T09:00:00Z')
+      );
+
+      expect(next.toISOString()).toBe('2026-10-15T09:00:00.000Z');
+    });
+
+    test('should skip inactive weeks for fortnightly rules', () => {
+      // Thursday -> Monday two weeks later
+      const next = computeNextOccurrence(
+        pattern({ frequency: 'WEEKLY', interval: 2, byWeekday: [1, 4] }),
+        new Date('2026-10-15T09:00:00Z')
+      );
+
+      expect(next.toISOString()).toBe('2026-10-26T09:00:00.000Z');
+    });
+
+    test('should clamp the month day to shorter months', () => {
+      const next = computeNextOccurrence(
+        pattern({ frequency: 'MONTHLY', byMonthDay: 31 }),
+        new Date('2027-01-31T09:00:00Z')
+      );
+
+      expect(next.toISOString()).toBe('2027-02-28T09:00:00.000Z');
+    });
+
+    test('should roll a weekend occurrence forward for business-day rules', () => {
+      // 2026-11-14 is a Saturday
+      const next = computeNextOccurrence(
+        pattern({ frequency: 'MONTHLY', byMonthDay: 14, businessDaysOnly: true }),
+        new Date('2026-10-14T09:00:00Z')
+      );
+
+      expect(next.toISOString()).toBe('2026-11-16T09:00:00.000Z');
+    });
+  });
+
+  describe('computeNextOccurrenceAfter', () => {
+    test('should skip occurrences that are already in the past', () => {
+      const next = computeNextOccurrenceAfter(
+        pattern({ frequency: 'WEEKLY' }),
+        new Date('2026-09-01T09:00:00Z'),
+        new Date('2026-10-18T12:00:00Z')
+      );
+
+      expect(next.toISOString()).toBe('2026-10-20T09:00:00.000Z');
+    });
+  });
+});
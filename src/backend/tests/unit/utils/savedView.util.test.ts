@@ -0,0 +1,36 @@
+/**
+ * @fileoverview Unit tests for saved view utility functions
+ * @version 1.0.0
+ */
+
+import { normalizeViewFilters } from '../../../src/utils/savedView.util';
+import { describe, test, expect } from '@jest/globals';
+
+describe('Saved View Utility Functions', () => {
+  describe('normalizeViewFilters', () => {
+    test('should keep filters with a value', () => {
+      const filters = {
+        status: 'in_progress',
+        assigneeId: '8f14e45f-ceea-4e7a-a1d3-2c1a3f6f9b10',
+        topLevelOnly: true,
+        customField: ['points:gte:3']
+      };
+
+      expect(normalizeViewFilters(filters)).toEqual(filters);
+    });
+
+    test('should drop empty strings, empty lists and unset flags', () => {
+      expect(normalizeViewFilters({
+        status: '',
+        search: undefined,
+        topLevelOnly: false,
+        customField: [],
+        priority: 'HIGH'
+      })).toEqual({ priority: 'HIGH' });
+    });
+
+    test('should treat missing filters as none', () => {
+      expect(normalizeViewFilters()).toEqual({});
+    });
+  });
+});
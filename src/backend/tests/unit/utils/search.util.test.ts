@@ -0,0 +1,51 @@
+/**
+ * @fileoverview Unit tests for search utility functions
+ * @version 1.0.0
+ */
+
+import {
+  normalizeSearchQuery,
+  mergeSearchHits,
+  MAX_SEARCH_QUERY_LENGTH
+} from '../../../src/utils/search.util';
+import { ISearchHit } from '../../../src/interfaces/search.interface';
+import { SearchResultType } from '../../../src/types/search.types';
+import { describe, test, expect } from '@jest/globals';
+
+const hit = (type: SearchResultType, id: string, rank: number): ISearchHit => ({
+  type,
+  id: id as any,
+  title: id,
+  highlight: id,
+  rank,
+  projectId: '8f14e45f-ceea-4e7a-a1d3-2c1a3f6f9b10' as any,
+  projectName: 'Apollo',
+  taskId: null
+});
+
+describe('Search Utility Functions', () => {
+  describe('normalizeSearchQuery', () => {
+    test('should trim and collapse whitespace', () => {
+      expect(normalizeSearchQuery('  login \n  timeout\t')).toBe('login timeout');
+    });
+
+    test('should cut long queries', () => {
+      expect(normalizeSearchQuery('a'.repeat(MAX_SEARCH_QUERY_LENGTH + 10))).toHaveLength(MAX_SEARCH_QUERY_LENGTH);
+    });
+
+    test('should leave nothing of a blank query', () => {
+      expect(normalizeSearchQuery('   ')).toBe('');
+      expect(normalizeSearchQuery()).toBe('');
+    });
+  });
+
+  describe('mergeSearchHits', () => {
+    test('should rank hits of all types together', () => {
+      const tasks = [hit(SearchResultType.TASK, 't1', 0.9), hit(SearchResultType.TASK, 't2', 0.2)];
+      const comments = [hit(SearchResultType.COMMENT, 'c1', 0.5)];
+      const projects = [hit(SearchResultType.PROJECT, 'p1', 0.9)];
+
+      expect(mergeSearchHits([tasks, comments, projects], 3).map(h => h.id)).toEqual(['t1', 'p1', 'c1']);
+    });
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * @fileoverview Unit tests for sprint utility functions
+ * @version 1.0.0
+ */
+
+import {
+  listSprintDays,
+  validateSprintDates,
+  computeBurndown,
+  BurndownTask,
+  BurndownChange,
+  MAX_SPRINT_DAYS
+} from '../../../src/utils/sprint.util';
+import { WorkflowCategory } from '../../../src/types/workflow.types';
+import { describe, test, expect } from '@jest/globals';
+
+const sprintId = '0b7e3c1d-2f4a-4b5c-8d6e-7f8091a2b3c4';
+const otherSprintId = '9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d';
+
+const sprint = {
+  id: sprintId,
+  startDate: new Date('2024-03-04'),
+  endDate: new Date('2024-03-08'),
+  closedAt: null
+};
+
+const task = (id: string, overrides: Partial<BurndownTask> = {}): BurndownTask => ({
+  id,
+  status: 'TODO',
+  sprintId,
+  createdAt: new Date('2024-03-01T09:00:00Z'),
+  deletedAt: null,
+  ...overrides
+});
+
+const change = (
+  entityId: string,
+  field: string,
+  oldValue: unknown,
+  newValue: unknown,
+  changedAt: string
+): BurndownChange => ({ entityId, field, oldValue, newValue, changedAt: new Date(changedAt) });
+
+const categoryOf = (status: string): WorkflowCategory =>
+  status === 'DONE' ? WorkflowCategory.DONE : WorkflowCategory.TODO;
+
+describe('Sprint Utility Functions', () => {
+  describe('listSprintDays', () => {
+    test('should include the first and last day', () => {
+      expect(listSprintDays(new Date('2024-02-28'), new Date('2024-03-01'))).toEqual([
+        '2024-02-28',
+        '2024-02-29',
+        '2024-03-01'
+      ]);
+    });
+  });
+
+  describe('validateSprintDates', () => {
+    test('should accept one-day sprints', () => {
+      expect(validateSprintDates(new Date('2024-03-04'), new Date('2024-03-04'))).toBeNull();
+    });
+
+    test('should reject sprints that end before they start', () => {
+      expect(validateSprintDates(new Date('2024-03-08'), new Date('2024-03-04'))).toMatch(/before it starts/);
+    });
+
+    test('should reject sprints longer than the maximum', () => {
+      const start = new Date('2024-01-01');
+      const end = new Date(start.getTime() + MAX_SPRINT_DAYS * 24 * 60 * 60 * 1000);
+
+      expect(validateSprintDates(start, end)).toMatch(/longer than/);
+    });
+
+    test('should reject invalid dates', () => {
+      expect(validateSprintDates(new Date('not a date'), new Date('2024-03-04'))).not.toBeNull();
+    });
+  });
+
+  describe('computeBurndown', () => {
+    test('should replay status changes day by day', () => {
+      const points = computeBurndown(
+        sprint,
+        [task('a', { status: 'DONE' }), task('b', { status: 'DONE' }), task('c')],
+        [
+          change('a', 'status', 'TODO', 'DONE', '2024-03-05T10:00:00Z'),
+          change('b', 'status', 'TODO', 'DONE', '2024-03-07T16:00:00Z')
+        ],
+        categoryOf,
+        new Date('2024-03-20T00:00:00Z')
+      );
+
+      expect(points.map(point => point.remaining)).toEqual([3, 2, 2, 1, 1]);
+      expect(points.map(point => point.scope)).toEqual([3, 3, 3, 3, 3]);
+      expect(points.map(point => point.ideal)).toEqual([3, 2.25, 1.5, 0.75, 0]);
+    });
+
+    test('should count scope added and removed during the sprint', () => {
+      const points = computeBurndown(
+        sprint,
+        [
+          task('a'),
+          task('b', { createdAt: new Date('2024-03-06T12:00:00Z') }),
+          task('c', { sprintId: otherSprintId })
+        ],
+        [change('c', 'sprintId', sprintId, otherSprintId, '2024-03-05T12:00:00Z')],
+        categoryOf,
+        new Date('2024-03-20T00:00:00Z')
+      );
+
+      expect(points.map(point => point.scope)).toEqual([2, 1, 2, 2, 2]);
+    });
+
+    test('should leave days that have not begun empty', () => {
+      const points = computeBurndown(
+        sprint,
+        [task('a')],
+        [],
+        categoryOf,
+        new Date('2024-03-05T12:00:00Z')
+      );
+
+      expect(points.map(point => point.remaining)).toEqual([1, 1, null, null, null]);
+      expect(points[4].ideal).toBe(0);
+    });
+
+    test('should end a closed sprint before its unfinished tasks roll over', () => {
+      const closedAt = '2024-03-06T17:00:00Z';
+      const points = computeBurndown(
+        { ...sprint, closedAt: new Date(closedAt) },
+        [task('a', { sprintId: otherSprintId })],
+        [change('a', 'sprintId', sprintId, otherSprintId, closedAt)],
+        categoryOf,
+        new Date('2024-03-20T00:00:00Z')
+      );
+
+      expect(points.map(point => point.remaining)).toEqual([1, 1, 1, null, null]);
+    });
+  });
+});
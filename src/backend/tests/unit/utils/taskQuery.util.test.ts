@@ -0,0 +1,144 @@
+/**
+ * @fileoverview Unit tests for the task query language
+ * @version 1.0.0
+ */
+
+import {
+  compileTaskQuery,
+  parseTaskQueryDate,
+  TaskQuerySyntaxError,
+  MAX_TASK_QUERY_LENGTH
+} from '../../../src/utils/taskQuery.util';
+import { TaskPriority } from '../../../src/types/task.types';
+import { describe, test, expect } from '@jest/globals';
+
+const context = {
+  userId: '8f14e45f-ceea-4e7a-a1d3-2c1a3f6f9b10' as any,
+  now: new Date('2026-03-10T15:30:00Z')
+};
+
+const syntaxError = (query: string): TaskQuerySyntaxError => {
+  try {
+    compileTaskQuery(query, context);
+  } catch (error) {
+    return error as TaskQuerySyntaxError;
+  }
+  throw new Error(`"${query}" compiled`);
+};
+
+describe('Task Query Utility Functions', () => {
+  describe('compileTaskQuery', () => {
+    test('should compile combined conditions with an ordering', () => {
+      const compiled = compileTaskQuery(
+        'assignee = me AND priority >= HIGH AND due < +7d AND tag in (backend, api) ORDER BY due',
+        context
+      );
+
+      expect(compiled).toEqual({
+        where: {
+          AND: [
+            { assigneeId: context.userId },
+            { priority: { in: [TaskPriority.HIGH] } },
+            { dueDate: { lt: new Date('2026-03-17T00:00:00Z') } },
+            { tags: { hasSome: ['backend', 'api'] } }
+          ]
+        },
+        sortBy: 'dueDate',
+        sortOrder: 'asc'
+      });
+    });
+
+    test('should bind AND tighter than OR and honour parentheses', () => {
+      expect(compileTaskQuery('status = todo OR status = DONE and priority = low', context).where).toEqual({
+        OR: [
+          { status: 'TODO' },
+          { AND: [{ status: 'DONE' }, { priority: { in: [TaskPriority.LOW] } }] }
+        ]
+      });
+
+      expect(compileTaskQuery('NOT (status = TODO OR status = DONE)', context).where).toEqual({
+        NOT: { OR: [{ status: 'TODO' }, { status: 'DONE' }] }
+      });
+    });
+
+    test('should compare priorities by rank', () => {
+      expect(compileTaskQuery('priority < HIGH', context).where).toEqual({
+        priority: { in: [TaskPriority.LOW, TaskPriority.MEDIUM] }
+      });
+      expect(compileTaskQuery('priority not in (LOW)', context).where).toEqual({
+        priority: { in: [TaskPriority.MEDIUM, TaskPriority.HIGH] }
+      });
+    });
+
+    test('should match whole days for dates', () => {
+      expect(compileTaskQuery('due = 2026-03-01', context).where).toEqual({
+        dueDate: { gte: new Date('2026-03-01T00:00:00Z'), lt: new Date('2026-03-02T00:00:00Z') }
+      });
+      expect(compileTaskQuery('created <= today', context).where).toEqual({
+        createdAt: { lt: new Date('2026-03-11T00:00:00Z') }
+      });
+      expect(compileTaskQuery('due is empty', context).where).toEqual({ dueDate: null });
+    });
+
+    test('should match text case-insensitively across its columns', () => {
+      expect(compileTaskQuery('text ~ "login page"', context).where).toEqual({
+        OR: [
+          { title: { contains: 'login page', mode: 'insensitive' } },
+          { description: { contains: 'login page', mode: 'insensitive' } }
+        ]
+      });
+      expect(compileTaskQuery('title !~ draft', context).where).toEqual({
+        NOT: { title: { contains: 'draft', mode: 'insensitive' } }
+      });
+    });
+
+    test('should accept a query of only an ordering', () => {
+      expect(compileTaskQuery('order by priority DESC', context)).toEqual({
+        where: {},
+        sortBy: 'priority',
+        sortOrder: 'desc'
+      });
+      expect(compileTaskQuery('', context)).toEqual({ where: {} });
+    });
+
+    test('should report the position of syntax errors', () => {
+      const cases: Array<[string, number, string]> = [
+        ['owner = me', 0, 'Unknown field "owner"'],
+        ['status = ', 9, 'Expected a value'],
+        ['due < tomorrow', 6, 'Expected a date'],
+        ['(status = TODO', 14, 'Expected ")"'],
+        ['title ~ "open', 8, 'Unterminated string'],
+        ['tag > api', 4, 'Operator ">" is not supported for "tag"'],
+        ['assignee is empty', 9, 'Operator "is empty" is not supported'],
+        ['project = 42', 10, 'Expected an ID'],
+        ['status = TODO status = DONE', 14, 'Unexpected "status"'],
+        ['status = TODO ORDER BY tag', 23, 'Cannot order by "tag"'],
+        ['status = TODO & x', 14, 'Unexpected character "&"']
+      ];
+
+      cases.forEach(([query, position, reason]) => {
+        const error = syntaxError(query);
+        expect(error).toBeInstanceOf(TaskQuerySyntaxError);
+        expect(error.position).toBe(position);
+        expect(error.message).toContain(reason);
+        expect(error.message).toMatch(new RegExp(`at position ${position + 1}$`));
+      });
+    });
+
+    test('should reject overly long queries', () => {
+      expect(() => compileTaskQuery('x'.repeat(MAX_TASK_QUERY_LENGTH + 1), context)).toThrow(TaskQuerySyntaxError);
+    });
+  });
+
+  describe('parseTaskQueryDate', () => {
+    test('should resolve relative dates from the start of today', () => {
+      expect(parseTaskQueryDate('-2w', context.now)).toEqual(new Date('2026-02-24T00:00:00Z'));
+      expect(parseTaskQueryDate('+1m', context.now)).toEqual(new Date('2026-04-10T00:00:00Z'));
+    });
+
+    test('should reject impossible dates', () => {
+      expect(parseTaskQueryDate('2026-02-30', context.now)).toBeNull();
+      expect(parseTaskQueryDate('soon', context.now)).toBeNull();
+    });
+  });
+});
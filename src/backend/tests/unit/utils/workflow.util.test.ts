@@ -0,0 +1,139 @@
+/**
+ * @fileoverview Unit tests for workflow utility functions
+ * @version 1.0.0
+ */
+
+import {
+  buildDefaultWorkflow,
+  resolveWorkflow,
+  validateWorkflowDefinition,
+  isTransitionAllowed,
+  getHardWipLimit,
+  getDefaultStateCategory
+} from '../../../src/utils/workflow.util';
+import { IUpdateWorkflowDTO } from '../../../src/interfaces/workflow.interface';
+import { WipLimitMode, WorkflowCategory } from '../../../src/types/workflow.types';
+import { describe, test, expect } from '@jest/globals';
+
+const projectId = '6f1c2a3b-4d5e-4f60-8a71-92b3c4d5e6f7' as any;
+
+const definition = (overrides: Partial<IUpdateWorkflowDTO> = {}): IUpdateWorkflowDTO => ({
+  states: [
+    { key: 'BACKLOG', name: 'Backlog', category: WorkflowCategory.TODO },
+    { key: 'BUILDING', name: 'Building', category: WorkflowCategory.DOING },
+    { key: 'SHIPPED', name: 'Shipped', category: WorkflowCategory.DONE }
+  ],
+  transitions: [
+    { from: 'BACKLOG', to: 'BUILDING' },
+    { from: 'BUILDING', to: 'SHIPPED' }
+  ],
+  ...overrides
+});
+
+describe('Workflow Utility Functions', () => {
+  describe('buildDefaultWorkflow', () => {
+    test('should keep the original statuses and allow every move between them', () => {
+      const workflow = buildDefaultWorkflow(projectId);
+
+      expect(workflow.states.map(state => state.key)).toEqual(['TODO', 'IN_PROGRESS', 'REVIEW', 'DONE', 'BLOCKED']);
+      expect(workflow.transitions).toHaveLength(5 * 4);
+      expect(isTransitionAllowed(workflow, 'TODO', 'DONE')).toBe(true);
+      expect(workflow.isDefault).toBe(true);
+    });
+  });
+
+  describe('resolveWorkflow', () => {
+    test('should fall back to the default workflow without stored states', () => {
+      expect(resolveWorkflow(projectId, [], []).isDefault).toBe(true);
+    });
+
+    test('should order stored states by position', () => {
+      const workflow = resolveWorkflow(projectId, [
+        { key: 'SHIPPED', name: 'Shipped', category: WorkflowCategory.DONE, position: 1 },
+        { key: 'BACKLOG', name: 'Backlog', category: WorkflowCategory.TODO, position: 0 }
+      ], []);
+
+      expect(workflow.states.map(state => state.key)).toEqual(['BACKLOG', 'SHIPPED']);
+      expect(workflow.isDefault).toBe(false);
+    });
+  });
+
+  describe('isTransitionAllowed', () => {
+    test('should only allow defined moves and staying put', () => {
+      const workflow = resolveWorkflow(projectId, definition().states.map((state, position) => ({ ...state, position })), definition().transitions);
+
+      expect(isTransitionAllowed(workflow, 'BACKLOG', 'BUILDING')).toBe(true);
+      expect(isTransitionAllowed(workflow, 'BACKLOG', 'SHIPPED')).toBe(false);
+      expect(isTransitionAllowed(workflow, 'SHIPPED', 'SHIPPED')).toBe(true);
+    });
+  });
+
+  describe('validateWorkflowDefinition', () => {
+    test('should accept a well-formed workflow', () => {
+      expect(() => validateWorkflowDefinition(definition())).not.toThrow();
+    });
+
+    test('should reject malformed and duplicate state keys', () => {
+      expect(() => validateWorkflowDefinition(definition({
+        states: [{ key: 'in-review', name: 'In review', category: WorkflowCategory.TODO }]
+      }))).toThrow('uppercase');
+      expect(() => validateWorkflowDefinition(definition({
+        states: [
+          { key: 'OPEN', name: 'Open', category: WorkflowCategory.TODO },
+          { key: 'OPEN', name: 'Closed', category: WorkflowCategory.DONE }
+        ],
+        transitions: []
+      }))).toThrow('State keys must be distinct: OPEN');
+    });
+
+    test('should require a TODO initial state and a DONE state', () => {
+      expect(() => validateWorkflowDefinition(definition({
+        states: [...definition().states].reverse()
+      }))).toThrow('first state');
+      expect(() => validateWorkflowDefinition(definition({
+        states: definition().states.slice(0, 2),
+        transitions: []
+      }))).toThrow('DONE state');
+    });
+
+    test('should reject transitions to unknown states and onto the same state', () => {
+      expect(() => validateWorkflowDefinition(definition({
+        transitions: [{ from: 'BACKLOG', to: 'ARCHIVED' }]
+      }))).toThrow('unknown state: ARCHIVED');
+      expect(() => validateWorkflowDefinition(definition({
+        transitions: [{ from: 'BACKLOG', to: 'BACKLOG' }]
+      }))).toThrow('different states');
+    });
+
+    test('should reject WIP limits outside the allowed range', () => {
+      const withLimit = (wipLimit: number) => definition({
+        states: definition().states.map(state =>
+          state.key === 'BUILDING' ? { ...state, wipLimit } : state
+        )
+      });
+
+      expect(() => validateWorkflowDefinition(withLimit(3))).not.toThrow();
+      expect(() => validateWorkflowDefinition(withLimit(0))).toThrow('WIP limits must be whole numbers between 1 and 1000: BUILDING');
+      expect(() => validateWorkflowDefinition(withLimit(2.5))).toThrow('WIP limits must be whole numbers between 1 and 1000: BUILDING');
+    });
+  });
+
+  describe('getHardWipLimit', () => {
+    test('should only return limits that reject moves', () => {
+      const state = { key: 'BUILDING', name: 'Building', category: WorkflowCategory.DOING };
+
+      expect(getHardWipLimit({ ...state, wipLimit: 3, wipLimitMode: WipLimitMode.HARD })).toBe(3);
+      expect(getHardWipLimit({ ...state, wipLimit: 3, wipLimitMode: WipLimitMode.SOFT })).toBeNull();
+      expect(getHardWipLimit({ ...state, wipLimit: 3 })).toBeNull();
+      expect(getHardWipLimit({ ...state, wipLimitMode: WipLimitMode.HARD })).toBeNull();
+    });
+  });
+
+  describe('getDefaultStateCategory', () => {
+    test('should map default states and treat unknown keys as not started', () => {
+      expect(getDefaultStateCategory('REVIEW')).toBe(WorkflowCategory.DOING);
+      expect(getDefaultStateCategory('DONE')).toBe(WorkflowCategory.DONE);
+      expect(getDefaultStateCategory('ARCHIVED')).toBe(WorkflowCategory.TODO);
+    });
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * @fileoverview Unit tests for worklog utility functions
+ * @version 1.0.0
+ */
+
+import {
+  startOfWeek,
+  resolveTimesheetRange,
+  timerDuration,
+  buildTimesheet,
+  TimesheetEntry,
+  MAX_WORKLOG_SECONDS
+} from '../../../src/utils/worklog.util';
+import { describe, test, expect } from '@jest/globals';
+
+const userId = '0b7e3c1d-2f4a-4b5c-8d6e-7f8091a2b3c4';
+const otherUserId = '9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d';
+
+const entry = (overrides: Partial<TimesheetEntry> = {}): TimesheetEntry => ({
+  userId,
+  taskId: 'task-1',
+  taskTitle: 'Write report',
+  projectId: 'project-1',
+  startedAt: new Date('2024-03-05T09:00:00Z'),
+  durationSeconds: 3600,
+  ...overrides
+});
+
+describe('Worklog Utility Functions', () => {
+  describe('startOfWeek', () => {
+    test('should return the Monday of the week', () => {
+      expect(startOfWeek(new Date('2024-03-07T15:30:00Z'))).toEqual(new Date('2024-03-04T00:00:00Z'));
+    });
+
+    test('should treat Sunday as the end of the week', () => {
+      expect(startOfWeek(new Date('2024-03-10T23:00:00Z'))).toEqual(new Date('2024-03-04T00:00:00Z'));
+    });
+  });
+
+  describe('resolveTimesheetRange', () => {
+    test('should default to the current week', () => {
+      expect(resolveTimesheetRange(undefined, undefined, new Date('2024-03-07T15:30:00Z'))).toEqual({
+        from: new Date('2024-03-04T00:00:00Z'),
+        to: new Date('2024-03-10T00:00:00Z')
+      });
+    });
+
+    test('should reject ranges that end before they start', () => {
+      expect(resolveTimesheetRange(new Date('2024-03-10'), new Date('2024-03-04'))).toEqual(
+        expect.any(String)
+      );
+    });
+
+    test('should reject ranges longer than 31 days', () => {
+      expect(resolveTimesheetRange(new Date('2024-03-01'), new Date('2024-03-31'))).not.toEqual(expect.any(String));
+      expect(resolveTimesheetRange(new Date('2024-03-01'), new Date('2024-04-01'))).toEqual(expect.any(String));
+    });
+  });
+
+  describe('timerDuration', () => {
+    test('should round to whole seconds', () => {
+      expect(timerDuration(new Date('2024-03-05T09:00:00.000Z'), new Date('2024-03-05T09:25:00.600Z'))).toBe(1501);
+    });
+
+    test('should record at least a second', () => {
+      const now = new Date('2024-03-05T09:00:00Z');
+      expect(timerDuration(now, now)).toBe(1);
+    });
+
+    test('should cap timers left running', () => {
+      expect(timerDuration(new Date('2024-03-01T09:00:00Z'), new Date('2024-03-05T09:00:00Z'))).toBe(MAX_WORKLOG_SECONDS);
+    });
+  });
+
+  describe('buildTimesheet', () => {
+    const from = new Date('2024-03-04T00:00:00Z');
+    const to = new Date('2024-03-10T00:00:00Z');
+
+    test('should total entries per user, task and day', () => {
+      const timesheet = buildTimesheet([
+        entry(),
+        entry({ startedAt: new Date('2024-03-05T14:00:00Z'), durationSeconds: 1800 }),
+        entry({ startedAt: new Date('2024-03-07T09:00:00Z') }),
+        entry({ userId: otherUserId })
+      ], from, to);
+
+      expect(timesheet.days).toHaveLength(7);
+      expect(timesheet.rows).toHaveLength(2);
+      expect(timesheet.rows[0]).toEqual(expect.objectContaining({
+        userId,
+        seconds: [0, 5400, 0, 3600, 0, 0, 0],
+        totalSeconds: 9000
+      }));
+      expect(timesheet.dailyTotals).toEqual([0, 9000, 0, 3600, 0, 0, 0]);
+      expect(timesheet.totalSeconds).toBe(12600);
+    });
+
+    test('should count entries towards the day they started', () => {
+      const timesheet = buildTimesheet([
+        entry({ startedAt: new Date('2024-03-05T23:00:00Z'), durationSeconds: 7200 })
+      ], from, to);
+
+      expect(timesheet.dailyTotals[1]).toBe(7200);
+      expect(timesheet.dailyTotals[2]).toBe(0);
+    });
+
+    test('should ignore entries outside the range', () => {
+      const timesheet = buildTimesheet([entry({ startedAt: new Date('2024-03-11T09:00:00Z') })], from, to);
+
+      expect(timesheet.rows).toEqual([]);
+      expect(timesheet.totalSeconds).toBe(0);
+    });
+  });
+});
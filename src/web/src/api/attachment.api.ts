@@ -0,0 +1,142 @@
+/**
+ * @fileoverview Attachment API client for task file uploads and downloads
+ * @version 1.0.0
+ */
+
+import {
+  AttachmentListApiResponse,
+  AttachmentUploadResult
+} from '../types/attachment.types';
+import { ApiService } from '../services/api.service';
+import { API_ENDPOINTS } from '../constants/api.constants';
+import { ApiError } from '../types/api.types';
+
+/**
+ * AttachmentApi class implementing attachment listing, upload, download and deletion
+ * for a single task
+ */
+export class AttachmentApi {
+  private readonly apiService: ApiService;
+
+  /**
+   * Initializes AttachmentApi with required dependencies
+   * @param apiService Injected API service instance
+   */
+  constructor(apiService: ApiService) {
+    this.apiService = apiService;
+  }
+
+  /**
+   * Retrieves attachments of a task, newest first
+   * @param taskId Task identifier
+   * @returns Promise resolving to attachments
+   */
+  public async getAttachments(taskId: string): Promise<AttachmentListApiResponse> {
+    try {
+      return await this.apiService.get(this.endpoint(taskId), undefined, {
+        timeout: 5000
+      });
+    } catch (error) {
+      throw this.handleAttachmentError(error as ApiError);
+    }
+  }
+
+  /**
+   * Uploads files in a single multipart request. Partial failures are part of
+   * the result rather than an error, so callers can show which files failed.
+   * @param taskId Task identifier
+   * @param files Files to upload
+   * @param onProgress Optional upload progress callback (0-100)
+   * @param signal Optional abort signal
+   * @returns Promise resolving to per-file upload results
+   */
+  public async uploadAttachments(
+    taskId: string,
+    files: File[],
+    onProgress?: (percentage: number) => void,
+    signal?: AbortSignal
+  ): Promise<AttachmentUploadResult> {
+    const formData = new FormData();
+    files.forEach(file => formData.append('files', file, file.name));
+
+    try {
+      const response = await this.apiService.post<FormData, AttachmentUploadResult>(
+        this.endpoint(taskId),
+        formData,
+        {
+          headers: { 'Content-Type': 'multipart/form-data' },
+          signal,
+          onUploadProgress: (event) => {
+            if (event.total) {
+              onProgress?.(Math.round((event.loaded / event.total) * 100));
+            }
+          }
+        }
+      );
+      return response.data;
+    } catch (error) {
+      // When every file fails the server answers 400 with the same per-file body
+      const body = (error as ApiError).details?.data as { data?: AttachmentUploadResult } | undefined;
+      if (body?.data?.failed) {
+        return body.data;
+      }
+      throw this.handleAttachmentError(error as ApiError);
+    }
+  }
+
+  /**
+   * Downloads attachment content through the authenticated client
+   * @param taskId Task identifier
+   * @param attachmentId Attachment identifier
+   * @returns Promise resolving to the file content
+   */
+  public async downloadAttachment(taskId: string, attachmentId: string): Promise<Blob> {
+    try {
+      const content = await this.apiService.get(
+        `${this.endpoint(taskId)}/${attachmentId}/download`,
+        undefined,
+        { responseType: 'blob', timeout: 120000 }
+      );
+      return content as unknown as Blob;
+    } catch (error) {
+      throw this.handleAttachmentError(error as ApiError);
+    }
+  }
+
+  /**
+   * Deletes an attachment
+   * @param taskId Task identifier
+   * @param attachmentId Attachment identifier
+   * @returns Promise resolving to void
+   */
+  public async deleteAttachment(taskId: string, attachmentId: string): Promise<void> {
+    try {
+      await this.apiService.delete(`${this.endpoint(taskId)}/${attachmentId}`);
+    } catch (error) {
+      throw this.handleAttachmentError(error as ApiError);
+    }
+  }
+
+  /**
+   * Builds the attachments endpoint for a task
+   * @private
+   */
+  private endpoint(taskId: string): string {
+    return `${API_ENDPOINTS.TASKS}/${taskId}/attachments`;
+  }
+
+  /**
+   * Handles attachment-specific API errors
+   * @private
+   */
+  private handleAttachmentError(error: ApiError): Error {
+    const errorMessage = error.message || 'An error occurred while processing the attachment';
+    const enhancedError = new Error(errorMessage);
+    (enhancedError as any).code = error.code;
+    (enhancedError as any).details = error.details;
+    return enhancedError;
+  }
+}
+
+// Export singleton instance
+export const attachmentApi = new AttachmentApi(new ApiService());
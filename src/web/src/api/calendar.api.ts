@@ -0,0 +1,75 @@
+/**
+ * @fileoverview Calendar API client managing the personal calendar feed
+ * @version 1.0.0
+ */
+
+import { CalendarFeedApiResponse, CalendarFeedTokenApiResponse } from '../types/calendar.types';
+import { ApiService } from '../services/api.service';
+import { API_ENDPOINTS } from '../constants/api.constants';
+import { ApiError } from '../types/api.types';
+
+/**
+ * CalendarApi class implementing feed management; the feed itself is read by calendar apps
+ */
+export class CalendarApi {
+  private readonly apiService: ApiService;
+
+  /**
+   * Initializes CalendarApi with required dependencies
+   * @param apiService Injected API service instance
+   */
+  constructor(apiService: ApiService) {
+    this.apiService = apiService;
+  }
+
+  /**
+   * Retrieves the current user's feed
+   * @returns Promise resolving to the feed, or null data when none was generated
+   */
+  public async getFeed(): Promise<CalendarFeedApiResponse> {
+    try {
+      return await this.apiService.get(`${API_ENDPOINTS.CALENDAR}/feed`);
+    } catch (error) {
+      throw this.handleCalendarError(error as ApiError);
+    }
+  }
+
+  /**
+   * Generates a new feed token; calendars subscribed with the previous token stop updating
+   * @returns Promise resolving to the feed and its token, which is only returned here
+   */
+  public async regenerateFeed(): Promise<CalendarFeedTokenApiResponse> {
+    try {
+      return await this.apiService.post(`${API_ENDPOINTS.CALENDAR}/feed`, {});
+    } catch (error) {
+      throw this.handleCalendarError(error as ApiError);
+    }
+  }
+
+  /**
+   * Revokes the current user's feed
+   * @returns Promise resolving to void
+   */
+  public async revokeFeed(): Promise<void> {
+    try {
+      await this.apiService.delete(`${API_ENDPOINTS.CALENDAR}/feed`);
+    } catch (error) {
+      throw this.handleCalendarError(error as ApiError);
+    }
+  }
+
+  /**
+   * Handles calendar API errors, surfacing the server's error code
+   * @private
+   */
+  private handleCalendarError(error: ApiError): Error {
+    const body = error.details?.data as { error?: { code?: string; message?: string } } | undefined;
+    const errorMessage = body?.error?.message || error.message || 'An error occurred while managing the calendar feed';
+    const enhancedError = new Error(errorMessage);
+    (enhancedError as any).code = body?.error?.code || error.code;
+    return enhancedError;
+  }
+}
+
+// Export singleton instance
+export const calendarApi = new CalendarApi(new ApiService());
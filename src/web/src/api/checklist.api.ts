@@ -0,0 +1,119 @@
+/**
+ * @fileoverview Checklist API client for to-do items inside a task
+ * @version 1.0.0
+ */
+
+import {
+  ChecklistApiResponse,
+  ChecklistItemApiResponse,
+  CreateChecklistItemPayload,
+  UpdateChecklistItemPayload
+} from '../types/checklist.types';
+import { ApiService } from '../services/api.service';
+import { API_ENDPOINTS } from '../constants/api.constants';
+import { ApiError } from '../types/api.types';
+
+/**
+ * ChecklistApi class implementing checklist listing, adding, updating and removing
+ * for a single task
+ */
+export class ChecklistApi {
+  private readonly apiService: ApiService;
+
+  /**
+   * Initializes ChecklistApi with required dependencies
+   * @param apiService Injected API service instance
+   */
+  constructor(apiService: ApiService) {
+    this.apiService = apiService;
+  }
+
+  /**
+   * Retrieves the checklist items of a task in display order
+   * @param taskId Task identifier
+   * @returns Promise resolving to the checklist items
+   */
+  public async getChecklist(taskId: string): Promise<ChecklistApiResponse> {
+    try {
+      return await this.apiService.get(this.endpoint(taskId), undefined, {
+        timeout: 5000
+      });
+    } catch (error) {
+      throw this.handleChecklistError(error as ApiError);
+    }
+  }
+
+  /**
+   * Adds an item to a task's checklist
+   * @param taskId Task identifier
+   * @param payload Item data
+   * @returns Promise resolving to the created item
+   */
+  public async addItem(
+    taskId: string,
+    payload: CreateChecklistItemPayload
+  ): Promise<ChecklistItemApiResponse> {
+    try {
+      return await this.apiService.post(this.endpoint(taskId), payload);
+    } catch (error) {
+      throw this.handleChecklistError(error as ApiError);
+    }
+  }
+
+  /**
+   * Renames, reorders or checks off an item
+   * @param taskId Task identifier
+   * @param itemId Item identifier
+   * @param payload Fields to change
+   * @returns Promise resolving to the updated item
+   */
+  public async updateItem(
+    taskId: string,
+    itemId: string,
+    payload: UpdateChecklistItemPayload
+  ): Promise<ChecklistItemApiResponse> {
+    try {
+      return await this.apiService.put(`${this.endpoint(taskId)}/${itemId}`, payload);
+    } catch (error) {
+      throw this.handleChecklistError(error as ApiError);
+    }
+  }
+
+  /**
+   * Removes an item
+   * @param taskId Task identifier
+   * @param itemId Item identifier
+   * @returns Promise resolving to void
+   */
+  public async removeItem(taskId: string, itemId: string): Promise<void> {
+    try {
+      await this.apiService.delete(`${this.endpoint(taskId)}/${itemId}`);
+    } catch (error) {
+      throw this.handleChecklistError(error as ApiError);
+    }
+  }
+
+  /**
+   * Builds the checklist endpoint for a task
+   * @private
+   */
+  private endpoint(taskId: string): string {
+    return `${API_ENDPOINTS.TASKS}/${taskId}/checklist`;
+  }
+
+  /**
+   * Handles checklist-specific API errors, surfacing the server's error message
+   * @private
+   */
+  private handleChecklistError(error: ApiError): Error {
+    const body = error.details?.data as { error?: { code?: string; message?: string } } | undefined;
+    const errorMessage = body?.error?.message || error.message || 'An error occurred while processing the checklist';
+    const enhancedError = new Error(errorMessage);
+    (enhancedError as any).code = body?.error?.code || error.code;
+    (enhancedError as any).details = error.details;
+    return enhancedError;
+  }
+}
+
+// Export singleton instance
+export const checklistApi = new ChecklistApi(new ApiService());
@@ -0,0 +1,123 @@
+/**
+ * @fileoverview Comment API client for threaded task discussions
+ * @version 1.0.0
+ */
+
+import {
+  CreateCommentPayload,
+  UpdateCommentPayload,
+  CommentQueryParams,
+  CommentApiResponse,
+  CommentListApiResponse
+} from '../types/comment.types';
+import { ApiService } from '../services/api.service';
+import { API_ENDPOINTS } from '../constants/api.constants';
+import { ApiError } from '../types/api.types';
+
+/**
+ * CommentApi class implementing comment listing, posting, editing and deletion
+ * for a single task
+ */
+export class CommentApi {
+  private readonly apiService: ApiService;
+
+  /**
+   * Initializes CommentApi with required dependencies
+   * @param apiService Injected API service instance
+   */
+  constructor(apiService: ApiService) {
+    this.apiService = apiService;
+  }
+
+  /**
+   * Retrieves a page of top-level comments with their replies
+   * @param taskId Task identifier
+   * @param params Pagination parameters
+   * @returns Promise resolving to paginated comments
+   */
+  public async getComments(
+    taskId: string,
+    params?: CommentQueryParams
+  ): Promise<CommentListApiResponse> {
+    try {
+      return await this.apiService.get(this.endpoint(taskId), params as any, {
+        timeout: 5000
+      });
+    } catch (error) {
+      throw this.handleCommentError(error as ApiError);
+    }
+  }
+
+  /**
+   * Posts a comment, or a reply when parentId is supplied
+   * @param taskId Task identifier
+   * @param payload Comment creation data
+   * @returns Promise resolving to created comment
+   */
+  public async createComment(
+    taskId: string,
+    payload: CreateCommentPayload
+  ): Promise<CommentApiResponse> {
+    try {
+      return await this.apiService.post(this.endpoint(taskId), payload);
+    } catch (error) {
+      throw this.handleCommentError(error as ApiError);
+    }
+  }
+
+  /**
+   * Edits a comment owned by the current user
+   * @param taskId Task identifier
+   * @param commentId Comment identifier
+   * @param payload Comment update data with version
+   * @returns Promise resolving to updated comment
+   */
+  public async updateComment(
+    taskId: string,
+    commentId: string,
+    payload: UpdateCommentPayload
+  ): Promise<CommentApiResponse> {
+    try {
+      return await this.apiService.put(`${this.endpoint(taskId)}/${commentId}`, payload);
+    } catch (error) {
+      throw this.handleCommentError(error as ApiError);
+    }
+  }
+
+  /**
+   * Deletes a comment owned by the current user
+   * @param taskId Task identifier
+   * @param commentId Comment identifier
+   * @returns Promise resolving to void
+   */
+  public async deleteComment(taskId: string, commentId: string): Promise<void> {
+    try {
+      await this.apiService.delete(`${this.endpoint(taskId)}/${commentId}`);
+    } catch (error) {
+      throw this.handleCommentError(error as ApiError);
+    }
+  }
+
+  /**
+   * Builds the comments endpoint for a task
+   * @private
+   */
+  private endpoint(taskId: string): string {
+    return `${API_ENDPOINTS.TASKS}/${taskId}/comments`;
+  }
+
+  /**
+   * Handles comment-specific API errors
+   * @private
+   */
+  private handleCommentError(error: ApiError): Error {
+    const errorMessage = error.message || 'An error occurred while processing the comment';
+    const enhancedError = new Error(errorMessage);
+    (enhancedError as any).code = error.code;
+    (enhancedError as any).details = error.details;
+    return enhancedError;
+  }
+}
+
+// Export singleton instance
+export const commentApi = new CommentApi(new ApiService());
@@ -0,0 +1,120 @@
+/**
+ * @fileoverview Custom field API client for the typed task fields defined per project
+ * @version 1.0.0
+ */
+
+import {
+  CreateCustomFieldPayload,
+  UpdateCustomFieldPayload,
+  CustomFieldApiResponse,
+  CustomFieldListApiResponse
+} from '../types/customField.types';
+import { ApiService } from '../services/api.service';
+import { API_ENDPOINTS } from '../constants/api.constants';
+import { ApiError } from '../types/api.types';
+
+/**
+ * CustomFieldApi class implementing field listing and management
+ * for a single project
+ */
+export class CustomFieldApi {
+  private readonly apiService: ApiService;
+
+  /**
+   * Initializes CustomFieldApi with required dependencies
+   * @param apiService Injected API service instance
+   */
+  constructor(apiService: ApiService) {
+    this.apiService = apiService;
+  }
+
+  /**
+   * Retrieves the custom fields of a project
+   * @param projectId Project identifier
+   * @returns Promise resolving to the fields in display order
+   */
+  public async getFields(projectId: string): Promise<CustomFieldListApiResponse> {
+    try {
+      return await this.apiService.get(this.endpoint(projectId), undefined, {
+        timeout: 5000
+      });
+    } catch (error) {
+      throw this.handleCustomFieldError(error as ApiError);
+    }
+  }
+
+  /**
+   * Defines a custom field on a project
+   * @param projectId Project identifier
+   * @param payload Field definition
+   * @returns Promise resolving to the created field
+   */
+  public async createField(
+    projectId: string,
+    payload: CreateCustomFieldPayload
+  ): Promise<CustomFieldApiResponse> {
+    try {
+      return await this.apiService.post(this.endpoint(projectId), payload);
+    } catch (error) {
+      throw this.handleCustomFieldError(error as ApiError);
+    }
+  }
+
+  /**
+   * Changes the name, options, required flag or position of a custom field
+   * @param projectId Project identifier
+   * @param fieldId Field identifier
+   * @param payload Changed attributes
+   * @returns Promise resolving to the updated field
+   */
+  public async updateField(
+    projectId: string,
+    fieldId: string,
+    payload: UpdateCustomFieldPayload
+  ): Promise<CustomFieldApiResponse> {
+    try {
+      return await this.apiService.put(`${this.endpoint(projectId)}/${fieldId}`, payload);
+    } catch (error) {
+      throw this.handleCustomFieldError(error as ApiError);
+    }
+  }
+
+  /**
+   * Removes a custom field from a project
+   * @param projectId Project identifier
+   * @param fieldId Field identifier
+   * @returns Promise resolving to void
+   */
+  public async deleteField(projectId: string, fieldId: string): Promise<void> {
+    try {
+      await this.apiService.delete(`${this.endpoint(projectId)}/${fieldId}`);
+    } catch (error) {
+      throw this.handleCustomFieldError(error as ApiError);
+    }
+  }
+
+  /**
+   * Builds the custom fields endpoint for a project
+   * @private
+   */
+  private endpoint(projectId: string): string {
+    return `${API_ENDPOINTS.PROJECTS}/${projectId}/custom-fields`;
+  }
+
+  /**
+   * Handles custom field API errors, surfacing the server's error code
+   * (e.g. FORBIDDEN, CONFLICT) and details
+   * @private
+   */
+  private handleCustomFieldError(error: ApiError): Error {
+    const body = error.details?.data as { error?: { code?: string; message?: string; details?: unknown } } | undefined;
+    const errorMessage = body?.error?.message || error.message || 'An error occurred while updating custom fields';
+    const enhancedError = new Error(errorMessage);
+    (enhancedError as any).code = body?.error?.code || error.code;
+    (enhancedError as any).details = body?.error?.details || error.details;
+    return enhancedError;
+  }
+}
+
+// Export singleton instance
+export const customFieldApi = new CustomFieldApi(new ApiService());
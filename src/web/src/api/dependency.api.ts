@@ -0,0 +1,100 @@
+/**
+ * @fileoverview Dependency API client for blocks/blocked-by links between tasks
+ * @version 1.0.0
+ */
+
+import {
+  CreateDependencyPayload,
+  TaskDependenciesApiResponse,
+  TaskDependencyApiResponse
+} from '../types/dependency.types';
+import { ApiService } from '../services/api.service';
+import { API_ENDPOINTS } from '../constants/api.constants';
+import { ApiError } from '../types/api.types';
+
+/**
+ * DependencyApi class implementing dependency listing, linking and unlinking
+ * for a single task
+ */
+export class DependencyApi {
+  private readonly apiService: ApiService;
+
+  /**
+   * Initializes DependencyApi with required dependencies
+   * @param apiService Injected API service instance
+   */
+  constructor(apiService: ApiService) {
+    this.apiService = apiService;
+  }
+
+  /**
+   * Retrieves the tasks a task waits on and the tasks waiting on it
+   * @param taskId Task identifier
+   * @returns Promise resolving to both directions of links
+   */
+  public async getDependencies(taskId: string): Promise<TaskDependenciesApiResponse> {
+    try {
+      return await this.apiService.get(this.endpoint(taskId), undefined, {
+        timeout: 5000
+      });
+    } catch (error) {
+      throw this.handleDependencyError(error as ApiError);
+    }
+  }
+
+  /**
+   * Links a task to a blocker or to a task it blocks
+   * @param taskId Task identifier
+   * @param payload The other side of the link
+   * @returns Promise resolving to the created link
+   */
+  public async addDependency(
+    taskId: string,
+    payload: CreateDependencyPayload
+  ): Promise<TaskDependencyApiResponse> {
+    try {
+      return await this.apiService.post(this.endpoint(taskId), payload);
+    } catch (error) {
+      throw this.handleDependencyError(error as ApiError);
+    }
+  }
+
+  /**
+   * Removes a link
+   * @param taskId Task identifier
+   * @param dependencyId Link identifier
+   * @returns Promise resolving to void
+   */
+  public async removeDependency(taskId: string, dependencyId: string): Promise<void> {
+    try {
+      await this.apiService.delete(`${this.endpoint(taskId)}/${dependencyId}`);
+    } catch (error) {
+      throw this.handleDependencyError(error as ApiError);
+    }
+  }
+
+  /**
+   * Builds the dependencies endpoint for a task
+   * @private
+   */
+  private endpoint(taskId: string): string {
+    return `${API_ENDPOINTS.TASKS}/${taskId}/dependencies`;
+  }
+
+  /**
+   * Handles dependency-specific API errors, surfacing the server's error code
+   * (e.g. DEPENDENCY_CYCLE) and details
+   * @private
+   */
+  private handleDependencyError(error: ApiError): Error {
+    const body = error.details?.data as { error?: { code?: string; message?: string; details?: unknown } } | undefined;
+    const errorMessage = body?.error?.message || error.message || 'An error occurred while processing the dependency';
+    const enhancedError = new Error(errorMessage);
+    (enhancedError as any).code = body?.error?.code || error.code;
+    (enhancedError as any).details = body?.error?.details || error.details;
+    return enhancedError;
+  }
+}
+
+// Export singleton instance
+export const dependencyApi = new DependencyApi(new ApiService());
@@ -0,0 +1,77 @@
+/**
+ * @fileoverview Export API client downloading task and project lists as CSV, XLSX or JSON
+ * @version 1.0.0
+ */
+
+import { TaskExportParams, ProjectExportParams } from '../types/export.types';
+import { ApiService } from '../services/api.service';
+import { API_ENDPOINTS } from '../constants/api.constants';
+import { ApiError } from '../types/api.types';
+import { toExportQuery } from '../utils/export.utils';
+
+/**
+ * ExportApi class implementing list exports
+ */
+export class ExportApi {
+  private readonly apiService: ApiService;
+
+  /**
+   * Initializes ExportApi with required dependencies
+   * @param apiService Injected API service instance
+   */
+  constructor(apiService: ApiService) {
+    this.apiService = apiService;
+  }
+
+  /**
+   * Downloads the tasks matching the filters of the task list
+   * @param params Filters, format and columns; pagination is ignored
+   * @returns Promise resolving to the file content
+   */
+  public async exportTasks(params: TaskExportParams): Promise<Blob> {
+    const { format, columns, ...filters } = params;
+    return this.download(`${API_ENDPOINTS.EXPORTS}/tasks`, toExportQuery(filters, { format, columns }));
+  }
+
+  /**
+   * Downloads the projects matching the filters of the project list
+   * @param params Filters, format and columns; pagination is ignored
+   * @returns Promise resolving to the file content
+   */
+  public async exportProjects(params: ProjectExportParams): Promise<Blob> {
+    const { format, columns, ...filters } = params;
+    return this.download(`${API_ENDPOINTS.EXPORTS}/projects`, toExportQuery(filters, { format, columns }));
+  }
+
+  /**
+   * Downloads an export; large lists take a while to stream
+   * @private
+   */
+  private async download(endpoint: string, query: Record<string, unknown>): Promise<Blob> {
+    try {
+      const content = await this.apiService.get(endpoint, query, {
+        responseType: 'blob',
+        timeout: 300000
+      });
+      return content as unknown as Blob;
+    } catch (error) {
+      throw this.handleExportError(error as ApiError);
+    }
+  }
+
+  /**
+   * Handles export API errors; error bodies of blob requests arrive as blobs and are
+   * reported with the generic message
+   * @private
+   */
+  private handleExportError(error: ApiError): Error {
+    const body = error.details?.data as { error?: { code?: string; message?: string } } | undefined;
+    const errorMessage = body?.error?.message || error.message || 'An error occurred while exporting';
+    const enhancedError = new Error(errorMessage);
+    (enhancedError as any).code = body?.error?.code || error.code;
+    return enhancedError;
+  }
+}
+
+// Export singleton instance
+export const exportApi = new ExportApi(new ApiService());
@@ -0,0 +1,78 @@
+/**
+ * @fileoverview History API client for the field-level change log of tasks and projects
+ * @version 1.0.0
+ */
+
+import { HistoryApiResponse, HistoryQueryParams } from '../types/history.types';
+import { ApiService } from '../services/api.service';
+import { API_ENDPOINTS } from '../constants/api.constants';
+import { ApiError } from '../types/api.types';
+
+/**
+ * HistoryApi class implementing read access to the change history of tasks and projects
+ */
+export class HistoryApi {
+  private readonly apiService: ApiService;
+
+  /**
+   * Initializes HistoryApi with required dependencies
+   * @param apiService Injected API service instance
+   */
+  constructor(apiService: ApiService) {
+    this.apiService = apiService;
+  }
+
+  /**
+   * Retrieves the change history of a task, newest first
+   * @param taskId Task identifier
+   * @param params Pagination and field filter
+   * @returns Promise resolving to a page of history entries
+   */
+  public async getTaskHistory(
+    taskId: string,
+    params: HistoryQueryParams = {}
+  ): Promise<HistoryApiResponse> {
+    try {
+      return await this.apiService.get(`${API_ENDPOINTS.TASKS}/${taskId}/history`, params as any, {
+        timeout: 5000
+      });
+    } catch (error) {
+      throw this.handleHistoryError(error as ApiError);
+    }
+  }
+
+  /**
+   * Retrieves the change history of a project, newest first
+   * @param projectId Project identifier
+   * @param params Pagination and field filter
+   * @returns Promise resolving to a page of history entries
+   */
+  public async getProjectHistory(
+    projectId: string,
+    params: HistoryQueryParams = {}
+  ): Promise<HistoryApiResponse> {
+    try {
+      return await this.apiService.get(`${API_ENDPOINTS.PROJECTS}/${projectId}/history`, params as any, {
+        timeout: 5000
+      });
+    } catch (error) {
+      throw this.handleHistoryError(error as ApiError);
+    }
+  }
+
+  /**
+   * Handles history-specific API errors, surfacing the server's error message
+   * @private
+   */
+  private handleHistoryError(error: ApiError): Error {
+    const body = error.details?.data as { error?: { code?: string; message?: string } } | undefined;
+    const errorMessage = body?.error?.message || error.message || 'An error occurred while loading the history';
+    const enhancedError = new Error(errorMessage);
+    (enhancedError as any).code = body?.error?.code || error.code;
+    (enhancedError as any).details = error.details;
+    return enhancedError;
+  }
+}
+
+// Export singleton instance
+export const historyApi = new HistoryApi(new ApiService());
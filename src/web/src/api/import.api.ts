@@ -0,0 +1,133 @@
+/**
+ * @fileoverview Task import API client for uploading, validating and committing CSV and JSON files
+ * @version 1.0.0
+ */
+
+import {
+  TaskImportMapping,
+  TaskImportApiResponse,
+  TaskImportUploadApiResponse,
+  TaskImportValidationApiResponse
+} from '../types/import.types';
+import { ApiService } from '../services/api.service';
+import { API_ENDPOINTS } from '../constants/api.constants';
+import { ApiError } from '../types/api.types';
+
+/**
+ * TaskImportApi class implementing task imports for a single project
+ */
+export class TaskImportApi {
+  private readonly apiService: ApiService;
+
+  /**
+   * Initializes TaskImportApi with required dependencies
+   * @param apiService Injected API service instance
+   */
+  constructor(apiService: ApiService) {
+    this.apiService = apiService;
+  }
+
+  /**
+   * Uploads a CSV or JSON file; no tasks are created until the import is committed
+   * @param projectId Project identifier
+   * @param file File to import
+   * @returns Promise resolving to the import with its columns, a suggested mapping and sample rows
+   */
+  public async uploadImport(projectId: string, file: File): Promise<TaskImportUploadApiResponse> {
+    const formData = new FormData();
+    formData.append('file', file, file.name);
+
+    try {
+      return await this.apiService.post<FormData, TaskImportUploadApiResponse>(
+        this.endpoint(projectId),
+        formData,
+        {
+          headers: { 'Content-Type': 'multipart/form-data' },
+          timeout: 30000
+        }
+      );
+    } catch (error) {
+      throw this.handleImportError(error as ApiError);
+    }
+  }
+
+  /**
+   * Retrieves an import with its progress
+   * @param projectId Project identifier
+   * @param importId Import identifier
+   * @returns Promise resolving to the import
+   */
+  public async getImport(projectId: string, importId: string): Promise<TaskImportApiResponse> {
+    try {
+      return await this.apiService.get(`${this.endpoint(projectId)}/${importId}`, undefined, {
+        timeout: 5000
+      });
+    } catch (error) {
+      throw this.handleImportError(error as ApiError);
+    }
+  }
+
+  /**
+   * Validates every row with a mapping without creating tasks
+   * @param projectId Project identifier
+   * @param importId Import identifier
+   * @param mapping Column per task field
+   * @returns Promise resolving to the valid and invalid row counts with row errors
+   */
+  public async validateImport(
+    projectId: string,
+    importId: string,
+    mapping: TaskImportMapping
+  ): Promise<TaskImportValidationApiResponse> {
+    try {
+      return await this.apiService.post(`${this.endpoint(projectId)}/${importId}/validate`, { mapping }, {
+        timeout: 30000
+      });
+    } catch (error) {
+      throw this.handleImportError(error as ApiError);
+    }
+  }
+
+  /**
+   * Starts creating the tasks of the valid rows in the background
+   * @param projectId Project identifier
+   * @param importId Import identifier
+   * @param mapping Column per task field
+   * @returns Promise resolving to the running import
+   */
+  public async commitImport(
+    projectId: string,
+    importId: string,
+    mapping: TaskImportMapping
+  ): Promise<TaskImportApiResponse> {
+    try {
+      return await this.apiService.post(`${this.endpoint(projectId)}/${importId}/commit`, { mapping });
+    } catch (error) {
+      throw this.handleImportError(error as ApiError);
+    }
+  }
+
+  /**
+   * Builds the imports endpoint for a project
+   * @private
+   */
+  private endpoint(projectId: string): string {
+    return `${API_ENDPOINTS.PROJECTS}/${projectId}/imports`;
+  }
+
+  /**
+   * Handles import API errors, surfacing the server's error code and details
+   * @private
+   */
+  private handleImportError(error: ApiError): Error {
+    const body = error.details?.data as { error?: { code?: string; message?: string; details?: unknown } } | undefined;
+    const errorMessage = body?.error?.message || error.message || 'An error occurred while importing tasks';
+    const enhancedError = new Error(errorMessage);
+    (enhancedError as any).code = body?.error?.code || error.code;
+    (enhancedError as any).details = body?.error?.details || error.details;
+    return enhancedError;
+  }
+}
+
+// Export singleton instance
+export const taskImportApi = new TaskImportApi(new ApiService());
@@ -12,7 +12,27 @@ import rateLimit from 'axios-rate-limit'; // v1.3.0
 import circuitBreaker from 'opossum'; // v7.1.0
 
 // Internal imports
+import { AttachmentApi } from './attachment.api';
 import * as authApi from './auth.api';
+import { ChecklistApi } from './checklist.api';
+import { HistoryApi } from './history.api';
+import { MembershipApi } from './membership.api';
+import { PermissionApi } from './permission.api';
+import { CustomFieldApi } from './customField.api';
+import { WorkflowApi } from './workflow.api';
+import { SprintApi } from './sprint.api';
+import { MilestoneApi } from './milestone.api';
+import { NotificationApi } from './notification.api';
+import { TaskImportApi } from './import.api';
+import { ExportApi } from './export.api';
+import { CalendarApi } from './calendar.api';
+import { SavedViewApi } from './savedView.api';
+import { SearchApi } from './search.api';
+import { WebhookApi } from './webhook.api';
+import { WorklogApi } from './worklog.api';
+import { RecurrenceApi } from './recurrence.api';
+import { CommentApi } from './comment.api';
+import { DependencyApi } from './dependency.api';
 import { ProjectApi } from './project.api';
 import { TaskApi } from './task.api';
 import * as userApi from './user.api';
@@ -96,6 +116,26 @@ const { axios: enhancedAxios, breaker } = initializeApi();
 // Initialize API instances
 const projectApi = new ProjectApi(enhancedAxios);
 const taskApi = new TaskApi(enhancedAxios);
+const commentApi = new CommentApi(enhancedAxios);
+const attachmentApi = new AttachmentApi(enhancedAxios);
+const dependencyApi = new DependencyApi(enhancedAxios);
+const checklistApi = new ChecklistApi(enhancedAxios);
+const historyApi = new HistoryApi(enhancedAxios);
+const recurrenceApi = new RecurrenceApi(enhancedAxios);
+const membershipApi = new MembershipApi(enhancedAxios);
+const permissionApi = new PermissionApi(enhancedAxios);
+const customFieldApi = new CustomFieldApi(enhancedAxios);
+const workflowApi = new WorkflowApi(enhancedAxios);
+const sprintApi = new SprintApi(enhancedAxios);
+const milestoneApi = new MilestoneApi(enhancedAxios);
+const taskImportApi = new TaskImportApi(enhancedAxios);
+const exportApi = new ExportApi(enhancedAxios);
+const calendarApi = new CalendarApi(enhancedAxios);
+const worklogApi = new WorklogApi(enhancedAxios);
+const savedViewApi = new SavedViewApi(enhancedAxios);
+const searchApi = new SearchApi(enhancedAxios);
+const webhookApi = new WebhookApi(enhancedAxios);
+const notificationApi = new NotificationApi(enhancedAxios);
 
 /**
  * Export authenticated API namespace with enhanced security
@@ -115,7 +155,8 @@ export const project = {
   getProjectById: projectApi.getProjectById.bind(projectApi),
   createProject: projectApi.createProject.bind(projectApi),
   updateProject: projectApi.updateProject.bind(projectApi),
-  deleteProject: projectApi.deleteProject.bind(projectApi)
+  deleteProject: projectApi.deleteProject.bind(projectApi),
+  getProjectEffort: projectApi.getProjectEffort.bind(projectApi)
 };
 
 /**
@@ -126,7 +167,210 @@ export const task = {
   getTaskById: taskApi.getTaskById.bind(taskApi),
   createTask: taskApi.createTask.bind(taskApi),
   updateTask: taskApi.updateTask.bind(taskApi),
-  deleteTask: taskApi.deleteTask.bind(taskApi)
+  deleteTask: taskApi.deleteTask.bind(taskApi),
+  bulkUpdateTasks: taskApi.bulkUpdateTasks.bind(taskApi)
+};
+
+/**
+ * Export task comment API for threaded discussions
+ */
+export const comment = {
+  getComments: commentApi.getComments.bind(commentApi),
+  createComment: commentApi.createComment.bind(commentApi),
+  updateComment: commentApi.updateComment.bind(commentApi),
+  deleteComment: commentApi.deleteComment.bind(commentApi)
+};
+
+/**
+ * Export task attachment API for uploads and downloads
+ */
+export const attachment = {
+  getAttachments: attachmentApi.getAttachments.bind(attachmentApi),
+  uploadAttachments: attachmentApi.uploadAttachments.bind(attachmentApi),
+  downloadAttachment: attachmentApi.downloadAttachment.bind(attachmentApi),
+  deleteAttachment: attachmentApi.deleteAttachment.bind(attachmentApi)
+};
+
+/**
+ * Export task dependency API for blocks/blocked-by links
+ */
+export const dependency = {
+  getDependencies: dependencyApi.getDependencies.bind(dependencyApi),
+  addDependency: dependencyApi.addDependency.bind(dependencyApi),
+  removeDependency: dependencyApi.removeDependency.bind(dependencyApi)
+};
+
+/**
+ * Export task checklist API
+ */
+export const checklist = {
+  getChecklist: checklistApi.getChecklist.bind(checklistApi),
+  addItem: checklistApi.addItem.bind(checklistApi),
+  updateItem: checklistApi.updateItem.bind(checklistApi),
+  removeItem: checklistApi.removeItem.bind(checklistApi)
+};
+
+/**
+ * Export change history API for tasks and projects
+ */
+export const history = {
+  getTaskHistory: historyApi.getTaskHistory.bind(historyApi),
+  getProjectHistory: historyApi.getProjectHistory.bind(historyApi)
+};
+
+/**
+ * Export recurring task rule API
+ */
+export const recurrence = {
+  getRule: recurrenceApi.getRule.bind(recurrenceApi),
+  setRule: recurrenceApi.setRule.bind(recurrenceApi),
+  removeRule: recurrenceApi.removeRule.bind(recurrenceApi)
+};
+
+/**
+ * Export project membership API
+ */
+export const membership = {
+  getMembers: membershipApi.getMembers.bind(membershipApi),
+  addMember: membershipApi.addMember.bind(membershipApi),
+  removeMember: membershipApi.removeMember.bind(membershipApi)
+};
+
+/**
+ * Export permission API for effective permissions and role mapping
+ */
+export const permission = {
+  getMyPermissions: permissionApi.getMyPermissions.bind(permissionApi),
+  getPermissions: permissionApi.getPermissions.bind(permissionApi),
+  getRolePermissions: permissionApi.getRolePermissions.bind(permissionApi),
+  updateRolePermissions: permissionApi.updateRolePermissions.bind(permissionApi)
+};
+
+/**
+ * Export project custom field API
+ */
+export const customField = {
+  getFields: customFieldApi.getFields.bind(customFieldApi),
+  createField: customFieldApi.createField.bind(customFieldApi),
+  updateField: customFieldApi.updateField.bind(customFieldApi),
+  deleteField: customFieldApi.deleteField.bind(customFieldApi)
+};
+
+/**
+ * Export project workflow API
+ */
+export const workflow = {
+  getWorkflow: workflowApi.getWorkflow.bind(workflowApi),
+  updateWorkflow: workflowApi.updateWorkflow.bind(workflowApi)
+};
+
+/**
+ * Export project sprint API for backlog planning and burndown
+ */
+export const sprint = {
+  getSprints: sprintApi.getSprints.bind(sprintApi),
+  getBacklog: sprintApi.getBacklog.bind(sprintApi),
+  createSprint: sprintApi.createSprint.bind(sprintApi),
+  updateSprint: sprintApi.updateSprint.bind(sprintApi),
+  deleteSprint: sprintApi.deleteSprint.bind(sprintApi),
+  startSprint: sprintApi.startSprint.bind(sprintApi),
+  closeSprint: sprintApi.closeSprint.bind(sprintApi),
+  getBurndown: sprintApi.getBurndown.bind(sprintApi)
+};
+
+/**
+ * Export project milestone API
+ */
+export const milestone = {
+  getMilestones: milestoneApi.getMilestones.bind(milestoneApi),
+  getMilestone: milestoneApi.getMilestone.bind(milestoneApi),
+  createMilestone: milestoneApi.createMilestone.bind(milestoneApi),
+  updateMilestone: milestoneApi.updateMilestone.bind(milestoneApi),
+  deleteMilestone: milestoneApi.deleteMilestone.bind(milestoneApi)
+};
+
+/**
+ * Export task import API
+ */
+export const taskImport = {
+  uploadImport: taskImportApi.uploadImport.bind(taskImportApi),
+  getImport: taskImportApi.getImport.bind(taskImportApi),
+  validateImport: taskImportApi.validateImport.bind(taskImportApi),
+  commitImport: taskImportApi.commitImport.bind(taskImportApi)
+};
+
+/**
+ * Export task and project list export API
+ */
+export const listExport = {
+  exportTasks: exportApi.exportTasks.bind(exportApi),
+  exportProjects: exportApi.exportProjects.bind(exportApi)
+};
+
+/**
+ * Export personal calendar feed API
+ */
+export const calendar = {
+  getFeed: calendarApi.getFeed.bind(calendarApi),
+  regenerateFeed: calendarApi.regenerateFeed.bind(calendarApi),
+  revokeFeed: calendarApi.revokeFeed.bind(calendarApi)
+};
+
+/**
+ * Export webhook administration API
+ */
+export const webhook = {
+  getWebhooks: webhookApi.getWebhooks.bind(webhookApi),
+  createWebhook: webhookApi.createWebhook.bind(webhookApi),
+  updateWebhook: webhookApi.updateWebhook.bind(webhookApi),
+  deleteWebhook: webhookApi.deleteWebhook.bind(webhookApi),
+  rotateSecret: webhookApi.rotateSecret.bind(webhookApi),
+  getDeliveries: webhookApi.getDeliveries.bind(webhookApi),
+  redeliver: webhookApi.redeliver.bind(webhookApi)
+};
+
+/**
+ * Export in-app notification API
+ */
+export const notification = {
+  getNotifications: notificationApi.getNotifications.bind(notificationApi),
+  markRead: notificationApi.markRead.bind(notificationApi),
+  markAllRead: notificationApi.markAllRead.bind(notificationApi)
+};
+
+/**
+ * Export time tracking API
+ */
+export const worklog = {
+  getWorklogs: worklogApi.getWorklogs.bind(worklogApi),
+  createWorklog: worklogApi.createWorklog.bind(worklogApi),
+  updateWorklog: worklogApi.updateWorklog.bind(worklogApi),
+  deleteWorklog: worklogApi.deleteWorklog.bind(worklogApi),
+  getTimer: worklogApi.getTimer.bind(worklogApi),
+  startTimer: worklogApi.startTimer.bind(worklogApi),
+  stopTimer: worklogApi.stopTimer.bind(worklogApi),
+  getUserTimesheet: worklogApi.getUserTimesheet.bind(worklogApi),
+  getProjectTimesheet: worklogApi.getProjectTimesheet.bind(worklogApi)
+};
+
+/**
+ * Export saved task view API
+ */
+export const savedView = {
+  getViews: savedViewApi.getViews.bind(savedViewApi),
+  getPinnedViews: savedViewApi.getPinnedViews.bind(savedViewApi),
+  getView: savedViewApi.getView.bind(savedViewApi),
+  createView: savedViewApi.createView.bind(savedViewApi),
+  updateView: savedViewApi.updateView.bind(savedViewApi),
+  deleteView: savedViewApi.deleteView.bind(savedViewApi),
+  setPinned: savedViewApi.setPinned.bind(savedViewApi)
+};
+
+/**
+ * Export full-text search API
+ */
+export const search = {
+  search: searchApi.search.bind(searchApi)
 };
 
 /**
@@ -170,6 +414,26 @@ export default {
   auth,
   project,
   task,
+  comment,
+  attachment,
+  dependency,
+  checklist,
+  history,
+  recurrence,
+  membership,
+  permission,
+  customField,
+  workflow,
+  sprint,
+  milestone,
+  taskImport,
+  listExport,
+  calendar,
+  webhook,
+  notification,
+  worklog,
+  savedView,
+  search,
   user,
   websocket,
   endpoints,
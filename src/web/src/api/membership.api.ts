@@ -0,0 +1,100 @@
+/**
+ * @fileoverview Membership API client for project members and their per-project roles
+ * @version 1.0.0
+ */
+
+import {
+  AddProjectMemberPayload,
+  ProjectMemberApiResponse,
+  ProjectMemberListApiResponse
+} from '../types/membership.types';
+import { ApiService } from '../services/api.service';
+import { API_ENDPOINTS } from '../constants/api.constants';
+import { ApiError } from '../types/api.types';
+
+/**
+ * MembershipApi class implementing member listing, adding and removal
+ * for a single project
+ */
+export class MembershipApi {
+  private readonly apiService: ApiService;
+
+  /**
+   * Initializes MembershipApi with required dependencies
+   * @param apiService Injected API service instance
+   */
+  constructor(apiService: ApiService) {
+    this.apiService = apiService;
+  }
+
+  /**
+   * Retrieves the current members of a project
+   * @param projectId Project identifier
+   * @returns Promise resolving to the members, owners first
+   */
+  public async getMembers(projectId: string): Promise<ProjectMemberListApiResponse> {
+    try {
+      return await this.apiService.get(this.endpoint(projectId), undefined, {
+        timeout: 5000
+      });
+    } catch (error) {
+      throw this.handleMembershipError(error as ApiError);
+    }
+  }
+
+  /**
+   * Adds a member to a project, or changes the role of an existing member
+   * @param projectId Project identifier
+   * @param payload Member and role
+   * @returns Promise resolving to the saved membership
+   */
+  public async addMember(
+    projectId: string,
+    payload: AddProjectMemberPayload
+  ): Promise<ProjectMemberApiResponse> {
+    try {
+      return await this.apiService.post(this.endpoint(projectId), payload);
+    } catch (error) {
+      throw this.handleMembershipError(error as ApiError);
+    }
+  }
+
+  /**
+   * Removes a member from a project
+   * @param projectId Project identifier
+   * @param userId Member identifier
+   * @returns Promise resolving to void
+   */
+  public async removeMember(projectId: string, userId: string): Promise<void> {
+    try {
+      await this.apiService.delete(`${this.endpoint(projectId)}/${userId}`);
+    } catch (error) {
+      throw this.handleMembershipError(error as ApiError);
+    }
+  }
+
+  /**
+   * Builds the members endpoint for a project
+   * @private
+   */
+  private endpoint(projectId: string): string {
+    return `${API_ENDPOINTS.PROJECTS}/${projectId}/members`;
+  }
+
+  /**
+   * Handles membership-specific API errors, surfacing the server's error code
+   * (e.g. FORBIDDEN, CONFLICT) and details
+   * @private
+   */
+  private handleMembershipError(error: ApiError): Error {
+    const body = error.details?.data as { error?: { code?: string; message?: string; details?: unknown } } | undefined;
+    const errorMessage = body?.error?.message || error.message || 'An error occurred while updating project members';
+    const enhancedError = new Error(errorMessage);
+    (enhancedError as any).code = body?.error?.code || error.code;
+    (enhancedError as any).details = body?.error?.details || error.details;
+    return enhancedError;
+  }
+}
+
+// Export singleton instance
+export const membershipApi = new MembershipApi(new ApiService());
@@ -0,0 +1,135 @@
+/**
+ * @fileoverview Milestone API client for the dated milestones of a project
+ * @version 1.0.0
+ */
+
+import {
+  CreateMilestonePayload,
+  UpdateMilestonePayload,
+  MilestoneApiResponse,
+  MilestoneListApiResponse
+} from '../types/milestone.types';
+import { ApiService } from '../services/api.service';
+import { API_ENDPOINTS } from '../constants/api.constants';
+import { ApiError } from '../types/api.types';
+
+/**
+ * MilestoneApi class implementing milestone management for a single project
+ */
+export class MilestoneApi {
+  private readonly apiService: ApiService;
+
+  /**
+   * Initializes MilestoneApi with required dependencies
+   * @param apiService Injected API service instance
+   */
+  constructor(apiService: ApiService) {
+    this.apiService = apiService;
+  }
+
+  /**
+   * Retrieves the milestones of a project
+   * @param projectId Project identifier
+   * @returns Promise resolving to the milestones by date
+   */
+  public async getMilestones(projectId: string): Promise<MilestoneListApiResponse> {
+    try {
+      return await this.apiService.get(this.endpoint(projectId), undefined, {
+        timeout: 5000
+      });
+    } catch (error) {
+      throw this.handleMilestoneError(error as ApiError);
+    }
+  }
+
+  /**
+   * Retrieves a milestone
+   * @param projectId Project identifier
+   * @param milestoneId Milestone identifier
+   * @returns Promise resolving to the milestone
+   */
+  public async getMilestone(projectId: string, milestoneId: string): Promise<MilestoneApiResponse> {
+    try {
+      return await this.apiService.get(`${this.endpoint(projectId)}/${milestoneId}`, undefined, {
+        timeout: 5000
+      });
+    } catch (error) {
+      throw this.handleMilestoneError(error as ApiError);
+    }
+  }
+
+  /**
+   * Creates a milestone
+   * @param projectId Project identifier
+   * @param payload Milestone attributes
+   * @returns Promise resolving to the created milestone
+   */
+  public async createMilestone(
+    projectId: string,
+    payload: CreateMilestonePayload
+  ): Promise<MilestoneApiResponse> {
+    try {
+      return await this.apiService.post(this.endpoint(projectId), payload);
+    } catch (error) {
+      throw this.handleMilestoneError(error as ApiError);
+    }
+  }
+
+  /**
+   * Changes a milestone or replaces its linked tasks
+   * @param projectId Project identifier
+   * @param milestoneId Milestone identifier
+   * @param payload Changed attributes
+   * @returns Promise resolving to the updated milestone
+   */
+  public async updateMilestone(
+    projectId: string,
+    milestoneId: string,
+    payload: UpdateMilestonePayload
+  ): Promise<MilestoneApiResponse> {
+    try {
+      return await this.apiService.put(`${this.endpoint(projectId)}/${milestoneId}`, payload);
+    } catch (error) {
+      throw this.handleMilestoneError(error as ApiError);
+    }
+  }
+
+  /**
+   * Removes a milestone; its tasks are kept
+   * @param projectId Project identifier
+   * @param milestoneId Milestone identifier
+   * @returns Promise resolving to void
+   */
+  public async deleteMilestone(projectId: string, milestoneId: string): Promise<void> {
+    try {
+      await this.apiService.delete(`${this.endpoint(projectId)}/${milestoneId}`);
+    } catch (error) {
+      throw this.handleMilestoneError(error as ApiError);
+    }
+  }
+
+  /**
+   * Builds the milestones endpoint for a project
+   * @private
+   */
+  private endpoint(projectId: string): string {
+    return `${API_ENDPOINTS.PROJECTS}/${projectId}/milestones`;
+  }
+
+  /**
+   * Handles milestone API errors, surfacing the server's error code
+   * and details such as the task IDs that could not be linked
+   * @private
+   */
+  private handleMilestoneError(error: ApiError): Error {
+    const body = error.details?.data as { error?: { code?: string; message?: string; details?: unknown } } | undefined;
+    const errorMessage = body?.error?.message || error.message || 'An error occurred while updating milestones';
+    const enhancedError = new Error(errorMessage);
+    (enhancedError as any).code = body?.error?.code || error.code;
+    (enhancedError as any).details = body?.error?.details || error.details;
+    return enhancedError;
+  }
+}
+
+// Export singleton instance
+export const milestoneApi = new MilestoneApi(new ApiService());
@@ -0,0 +1,84 @@
+/**
+ * @fileoverview Notification API client for the current user's notifications and their read state
+ * @version 1.0.0
+ */
+
+import {
+  NotificationApiResponse,
+  NotificationPageApiResponse,
+  NotificationQueryParams,
+  NotificationReadAllApiResponse
+} from '../types/notification.types';
+import { ApiService } from '../services/api.service';
+import { API_ENDPOINTS } from '../constants/api.constants';
+import { ApiError } from '../types/api.types';
+
+/**
+ * NotificationApi class; every request works on the current user's own notifications
+ */
+export class NotificationApi {
+  private readonly apiService: ApiService;
+
+  /**
+   * Initializes NotificationApi with required dependencies
+   * @param apiService Injected API service instance
+   */
+  constructor(apiService: ApiService) {
+    this.apiService = apiService;
+  }
+
+  /**
+   * Retrieves notifications, newest first, with the unread count
+   * @param params Unread filter and pagination
+   * @returns Promise resolving to a page of notifications
+   */
+  public async getNotifications(params: NotificationQueryParams = {}): Promise<NotificationPageApiResponse> {
+    try {
+      return await this.apiService.get(API_ENDPOINTS.NOTIFICATIONS, params as any, {
+        timeout: 5000
+      });
+    } catch (error) {
+      throw this.handleNotificationError(error as ApiError);
+    }
+  }
+
+  /**
+   * Marks a notification as read
+   * @param notificationId Notification identifier
+   * @returns Promise resolving to the notification
+   */
+  public async markRead(notificationId: string): Promise<NotificationApiResponse> {
+    try {
+      return await this.apiService.post(`${API_ENDPOINTS.NOTIFICATIONS}/${notificationId}/read`, {});
+    } catch (error) {
+      throw this.handleNotificationError(error as ApiError);
+    }
+  }
+
+  /**
+   * Marks all notifications as read
+   * @returns Promise resolving to the number of notifications marked
+   */
+  public async markAllRead(): Promise<NotificationReadAllApiResponse> {
+    try {
+      return await this.apiService.post(`${API_ENDPOINTS.NOTIFICATIONS}/read-all`, {});
+    } catch (error) {
+      throw this.handleNotificationError(error as ApiError);
+    }
+  }
+
+  /**
+   * Handles notification API errors, surfacing the server's error code
+   * @private
+   */
+  private handleNotificationError(error: ApiError): Error {
+    const body = error.details?.data as { error?: { code?: string; message?: string } } | undefined;
+    const errorMessage = body?.error?.message || error.message || 'An error occurred while loading notifications';
+    const enhancedError = new Error(errorMessage);
+    (enhancedError as any).code = body?.error?.code || error.code;
+    return enhancedError;
+  }
+}
+
+// Export singleton instance
+export const notificationApi = new NotificationApi(new ApiService());
@@ -0,0 +1,104 @@
+/**
+ * @fileoverview Permission API client for the permission registry and role mapping
+ * @version 1.0.0
+ */
+
+import {
+  EffectivePermissionsApiResponse,
+  PermissionListApiResponse,
+  RolePermissionMapApiResponse,
+  RolePermissionsApiResponse,
+  UpdateRolePermissionsPayload
+} from '../types/permission.types';
+import { UserRole } from '../types/user.types';
+import { ApiService } from '../services/api.service';
+import { API_ENDPOINTS } from '../constants/api.constants';
+import { ApiError } from '../types/api.types';
+
+/**
+ * PermissionApi class implementing effective permission lookup and
+ * role mapping administration
+ */
+export class PermissionApi {
+  private readonly apiService: ApiService;
+
+  /**
+   * Initializes PermissionApi with required dependencies
+   * @param apiService Injected API service instance
+   */
+  constructor(apiService: ApiService) {
+    this.apiService = apiService;
+  }
+
+  /**
+   * Retrieves the signed-in user's effective permissions
+   * @returns Promise resolving to the user's role and permissions
+   */
+  public async getMyPermissions(): Promise<EffectivePermissionsApiResponse> {
+    try {
+      return await this.apiService.get(`${API_ENDPOINTS.PERMISSIONS}/me`, undefined, {
+        timeout: 5000
+      });
+    } catch (error) {
+      throw this.handlePermissionError(error as ApiError);
+    }
+  }
+
+  /**
+   * Retrieves the permission registry
+   * @returns Promise resolving to every permission with its description
+   */
+  public async getPermissions(): Promise<PermissionListApiResponse> {
+    try {
+      return await this.apiService.get(API_ENDPOINTS.PERMISSIONS);
+    } catch (error) {
+      throw this.handlePermissionError(error as ApiError);
+    }
+  }
+
+  /**
+   * Retrieves the permissions granted to every role
+   * @returns Promise resolving to the role mapping
+   */
+  public async getRolePermissions(): Promise<RolePermissionMapApiResponse> {
+    try {
+      return await this.apiService.get(`${API_ENDPOINTS.PERMISSIONS}/roles`);
+    } catch (error) {
+      throw this.handlePermissionError(error as ApiError);
+    }
+  }
+
+  /**
+   * Replaces the permissions granted to a role
+   * @param role Role to update
+   * @param payload New permission set
+   * @returns Promise resolving to the updated role permissions
+   */
+  public async updateRolePermissions(
+    role: UserRole,
+    payload: UpdateRolePermissionsPayload
+  ): Promise<RolePermissionsApiResponse> {
+    try {
+      return await this.apiService.put(`${API_ENDPOINTS.PERMISSIONS}/roles/${role}`, payload);
+    } catch (error) {
+      throw this.handlePermissionError(error as ApiError);
+    }
+  }
+
+  /**
+   * Handles permission-specific API errors, surfacing the server's error code
+   * (e.g. CONFLICT) and details
+   * @private
+   */
+  private handlePermissionError(error: ApiError): Error {
+    const body = error.details?.data as { error?: { code?: string; message?: string; details?: unknown } } | undefined;
+    const errorMessage = body?.error?.message || error.message || 'An error occurred while processing permissions';
+    const enhancedError = new Error(errorMessage);
+    (enhancedError as any).code = body?.error?.code || error.code;
+    (enhancedError as any).details = body?.error?.details || error.details;
+    return enhancedError;
+  }
+}
+
+// Export singleton instance
+export const permissionApi = new PermissionApi(new ApiService());
@@ -13,6 +13,7 @@ import {
   UpdateProjectPayload,
   ProjectTimeline,
   ProjectResource,
+  ProjectEffortResponse,
   isProjectStatus,
   isProjectPriority
 } from '../types/project.types';
@@ -256,6 +257,29 @@ export class ProjectApi {
     }
   }
 
+  /**
+   * Retrieves effort rollups of a project per assignee and sprint; not cached, since
+   * estimates and logged time change as work progresses
+   * @param projectId Project identifier
+   * @returns Promise resolving to project effort
+   */
+  public async getProjectEffort(projectId: string): Promise<ProjectEffortResponse> {
+    if (!projectId?.match(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i)) {
+      throw new Error('Invalid project ID format');
+    }
+
+    const config: EnhancedRequestConfig = {
+      retry: { maxRetries: this.maxRetries },
+      timeout: this.requestTimeout
+    };
+
+    return await this.apiService.get<ProjectEffortResponse>(
+      `${this.baseUrl}/${projectId}/effort`,
+      undefined,
+      config
+    );
+  }
+
   /**
    * Validates project data before API operations
    * @private
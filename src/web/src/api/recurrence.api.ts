@@ -0,0 +1,97 @@
+/**
+ * @fileoverview Recurrence API client for the repeat rules of tasks
+ * @version 1.0.0
+ */
+
+import {
+  RecurrenceRuleApiResponse,
+  RecurrenceRulePayload
+} from '../types/recurrence.types';
+import { ApiService } from '../services/api.service';
+import { API_ENDPOINTS } from '../constants/api.constants';
+import { ApiError } from '../types/api.types';
+
+/**
+ * RecurrenceApi class implementing reading, setting and stopping the recurrence rule
+ * of a task's series
+ */
+export class RecurrenceApi {
+  private readonly apiService: ApiService;
+
+  /**
+   * Initializes RecurrenceApi with required dependencies
+   * @param apiService Injected API service instance
+   */
+  constructor(apiService: ApiService) {
+    this.apiService = apiService;
+  }
+
+  /**
+   * Retrieves the rule of the series a task belongs to
+   * @param taskId Task identifier
+   * @returns Promise resolving to the rule, or null data if the task does not repeat
+   */
+  public async getRule(taskId: string): Promise<RecurrenceRuleApiResponse> {
+    try {
+      return await this.apiService.get(this.endpoint(taskId), undefined, {
+        timeout: 5000
+      });
+    } catch (error) {
+      throw this.handleRecurrenceError(error as ApiError);
+    }
+  }
+
+  /**
+   * Makes a task repeat, or replaces the rule of its series
+   * @param taskId Task identifier
+   * @param payload Rule data
+   * @returns Promise resolving to the saved rule
+   */
+  public async setRule(
+    taskId: string,
+    payload: RecurrenceRulePayload
+  ): Promise<RecurrenceRuleApiResponse> {
+    try {
+      return await this.apiService.put(this.endpoint(taskId), payload);
+    } catch (error) {
+      throw this.handleRecurrenceError(error as ApiError);
+    }
+  }
+
+  /**
+   * Stops a series; occurrences already created are kept
+   * @param taskId Task identifier
+   * @returns Promise resolving to void
+   */
+  public async removeRule(taskId: string): Promise<void> {
+    try {
+      await this.apiService.delete(this.endpoint(taskId));
+    } catch (error) {
+      throw this.handleRecurrenceError(error as ApiError);
+    }
+  }
+
+  /**
+   * Builds the recurrence endpoint for a task
+   * @private
+   */
+  private endpoint(taskId: string): string {
+    return `${API_ENDPOINTS.TASKS}/${taskId}/recurrence`;
+  }
+
+  /**
+   * Handles recurrence-specific API errors, surfacing the server's error message
+   * @private
+   */
+  private handleRecurrenceError(error: ApiError): Error {
+    const body = error.details?.data as { error?: { code?: string; message?: string } } | undefined;
+    const errorMessage = body?.error?.message || error.message || 'An error occurred while processing the recurrence rule';
+    const enhancedError = new Error(errorMessage);
+    (enhancedError as any).code = body?.error?.code || error.code;
+    (enhancedError as any).details = error.details;
+    return enhancedError;
+  }
+}
+
+// Export singleton instance
+export const recurrenceApi = new RecurrenceApi(new ApiService());
@@ -0,0 +1,146 @@
+/**
+ * @fileoverview Saved view API client for named task list and board configurations
+ * @version 1.0.0
+ */
+
+import {
+  CreateSavedViewPayload,
+  UpdateSavedViewPayload,
+  SavedViewApiResponse,
+  SavedViewListApiResponse
+} from '../types/savedView.types';
+import { ApiService } from '../services/api.service';
+import { API_ENDPOINTS } from '../constants/api.constants';
+import { ApiError } from '../types/api.types';
+
+/**
+ * SavedViewApi class implementing saved view management and sidebar pins
+ */
+export class SavedViewApi {
+  private readonly apiService: ApiService;
+
+  /**
+   * Initializes SavedViewApi with required dependencies
+   * @param apiService Injected API service instance
+   */
+  constructor(apiService: ApiService) {
+    this.apiService = apiService;
+  }
+
+  /**
+   * Retrieves the current user's views, or the views of a project including shared ones
+   * @param projectId Optional project identifier
+   * @returns Promise resolving to the views by name
+   */
+  public async getViews(projectId?: string): Promise<SavedViewListApiResponse> {
+    try {
+      return await this.apiService.get(API_ENDPOINTS.VIEWS, projectId ? { projectId } : undefined, {
+        timeout: 5000
+      });
+    } catch (error) {
+      throw this.handleViewError(error as ApiError);
+    }
+  }
+
+  /**
+   * Retrieves the views pinned to the current user's sidebar
+   * @returns Promise resolving to the views in pin order
+   */
+  public async getPinnedViews(): Promise<SavedViewListApiResponse> {
+    try {
+      return await this.apiService.get(`${API_ENDPOINTS.VIEWS}/pinned`, undefined, {
+        timeout: 5000
+      });
+    } catch (error) {
+      throw this.handleViewError(error as ApiError);
+    }
+  }
+
+  /**
+   * Retrieves a view
+   * @param viewId View identifier
+   * @returns Promise resolving to the view
+   */
+  public async getView(viewId: string): Promise<SavedViewApiResponse> {
+    try {
+      return await this.apiService.get(`${API_ENDPOINTS.VIEWS}/${viewId}`, undefined, {
+        timeout: 5000
+      });
+    } catch (error) {
+      throw this.handleViewError(error as ApiError);
+    }
+  }
+
+  /**
+   * Saves a view
+   * @param payload View attributes
+   * @returns Promise resolving to the created view
+   */
+  public async createView(payload: CreateSavedViewPayload): Promise<SavedViewApiResponse> {
+    try {
+      return await this.apiService.post(API_ENDPOINTS.VIEWS, payload);
+    } catch (error) {
+      throw this.handleViewError(error as ApiError);
+    }
+  }
+
+  /**
+   * Changes a view
+   * @param viewId View identifier
+   * @param payload Changed attributes
+   * @returns Promise resolving to the updated view
+   */
+  public async updateView(viewId: string, payload: UpdateSavedViewPayload): Promise<SavedViewApiResponse> {
+    try {
+      return await this.apiService.put(`${API_ENDPOINTS.VIEWS}/${viewId}`, payload);
+    } catch (error) {
+      throw this.handleViewError(error as ApiError);
+    }
+  }
+
+  /**
+   * Removes a view
+   * @param viewId View identifier
+   * @returns Promise resolving to void
+   */
+  public async deleteView(viewId: string): Promise<void> {
+    try {
+      await this.apiService.delete(`${API_ENDPOINTS.VIEWS}/${viewId}`);
+    } catch (error) {
+      throw this.handleViewError(error as ApiError);
+    }
+  }
+
+  /**
+   * Pins a view to the current user's sidebar, or unpins it
+   * @param viewId View identifier
+   * @param pinned Whether the view should be pinned
+   * @returns Promise resolving to the view with its new pin state
+   */
+  public async setPinned(viewId: string, pinned: boolean): Promise<SavedViewApiResponse> {
+    try {
+      const endpoint = `${API_ENDPOINTS.VIEWS}/${viewId}/pin`;
+      return pinned
+        ? await this.apiService.put(endpoint, {})
+        : await this.apiService.delete(endpoint);
+    } catch (error) {
+      throw this.handleViewError(error as ApiError);
+    }
+  }
+
+  /**
+   * Handles saved view API errors, surfacing the server's error code
+   * @private
+   */
+  private handleViewError(error: ApiError): Error {
+    const body = error.details?.data as { error?: { code?: string; message?: string; details?: unknown } } | undefined;
+    const errorMessage = body?.error?.message || error.message || 'An error occurred while updating views';
+    const enhancedError = new Error(errorMessage);
+    (enhancedError as any).code = body?.error?.code || error.code;
+    (enhancedError as any).details = body?.error?.details || error.details;
+    return enhancedError;
+  }
+}
+
+// Export singleton instance
+export const savedViewApi = new SavedViewApi(new ApiService());
@@ -0,0 +1,58 @@
+/**
+ * @fileoverview Search API client for full-text search across tasks, comments and projects
+ * @version 1.0.0
+ */
+
+import { SearchParams, SearchApiResponse } from '../types/search.types';
+import { ApiService } from '../services/api.service';
+import { API_ENDPOINTS } from '../constants/api.constants';
+import { ApiError } from '../types/api.types';
+
+/**
+ * SearchApi class implementing ranked full-text search
+ */
+export class SearchApi {
+  private readonly apiService: ApiService;
+
+  /**
+   * Initializes SearchApi with required dependencies
+   * @param apiService Injected API service instance
+   */
+  constructor(apiService: ApiService) {
+    this.apiService = apiService;
+  }
+
+  /**
+   * Searches the tasks, comments and projects the current user can see
+   * @param params Search terms, types, project and limit
+   * @returns Promise resolving to the ranked hits and matches per type
+   */
+  public async search(params: SearchParams): Promise<SearchApiResponse> {
+    try {
+      const { types, ...rest } = params;
+      return await this.apiService.get(
+        API_ENDPOINTS.SEARCH,
+        { ...rest, ...(types?.length && { types: types.join(',') }) },
+        { timeout: 5000 }
+      );
+    } catch (error) {
+      throw this.handleSearchError(error as ApiError);
+    }
+  }
+
+  /**
+   * Handles search API errors, surfacing the server's error code
+   * @private
+   */
+  private handleSearchError(error: ApiError): Error {
+    const body = error.details?.data as { error?: { code?: string; message?: string; details?: unknown } } | undefined;
+    const errorMessage = body?.error?.message || error.message || 'An error occurred while searching';
+    const enhancedError = new Error(errorMessage);
+    (enhancedError as any).code = body?.error?.code || error.code;
+    (enhancedError as any).details = body?.error?.details || error.details;
+    return enhancedError;
+  }
+}
+
+// Export singleton instance
+export const searchApi = new SearchApi(new ApiService());
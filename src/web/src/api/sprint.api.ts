@@ -0,0 +1,187 @@
+/**
+ * @fileoverview Sprint API client for sprint planning, the backlog and burndown of a project
+ * @version 1.0.0
+ */
+
+import {
+  CreateSprintPayload,
+  UpdateSprintPayload,
+  CloseSprintPayload,
+  SprintApiResponse,
+  SprintListApiResponse,
+  SprintCloseApiResponse,
+  BacklogApiResponse,
+  SprintBurndownApiResponse
+} from '../types/sprint.types';
+import { ApiService } from '../services/api.service';
+import { API_ENDPOINTS } from '../constants/api.constants';
+import { ApiError } from '../types/api.types';
+
+/**
+ * SprintApi class implementing sprint management for a single project
+ */
+export class SprintApi {
+  private readonly apiService: ApiService;
+
+  /**
+   * Initializes SprintApi with required dependencies
+   * @param apiService Injected API service instance
+   */
+  constructor(apiService: ApiService) {
+    this.apiService = apiService;
+  }
+
+  /**
+   * Retrieves the sprints of a project
+   * @param projectId Project identifier
+   * @returns Promise resolving to the sprints, newest first
+   */
+  public async getSprints(projectId: string): Promise<SprintListApiResponse> {
+    try {
+      return await this.apiService.get(this.endpoint(projectId), undefined, {
+        timeout: 5000
+      });
+    } catch (error) {
+      throw this.handleSprintError(error as ApiError);
+    }
+  }
+
+  /**
+   * Retrieves the unfinished tasks of a project that are not in a sprint
+   * @param projectId Project identifier
+   * @returns Promise resolving to the backlog tasks
+   */
+  public async getBacklog(projectId: string): Promise<BacklogApiResponse> {
+    try {
+      return await this.apiService.get(`${this.endpoint(projectId)}/backlog`, undefined, {
+        timeout: 5000
+      });
+    } catch (error) {
+      throw this.handleSprintError(error as ApiError);
+    }
+  }
+
+  /**
+   * Plans a sprint
+   * @param projectId Project identifier
+   * @param payload Sprint attributes
+   * @returns Promise resolving to the created sprint
+   */
+  public async createSprint(
+    projectId: string,
+    payload: CreateSprintPayload
+  ): Promise<SprintApiResponse> {
+    try {
+      return await this.apiService.post(this.endpoint(projectId), payload);
+    } catch (error) {
+      throw this.handleSprintError(error as ApiError);
+    }
+  }
+
+  /**
+   * Changes the name, goal or dates of a sprint
+   * @param projectId Project identifier
+   * @param sprintId Sprint identifier
+   * @param payload Changed attributes
+   * @returns Promise resolving to the updated sprint
+   */
+  public async updateSprint(
+    projectId: string,
+    sprintId: string,
+    payload: UpdateSprintPayload
+  ): Promise<SprintApiResponse> {
+    try {
+      return await this.apiService.put(`${this.endpoint(projectId)}/${sprintId}`, payload);
+    } catch (error) {
+      throw this.handleSprintError(error as ApiError);
+    }
+  }
+
+  /**
+   * Removes a planned sprint; its tasks return to the backlog
+   * @param projectId Project identifier
+   * @param sprintId Sprint identifier
+   * @returns Promise resolving to void
+   */
+  public async deleteSprint(projectId: string, sprintId: string): Promise<void> {
+    try {
+      await this.apiService.delete(`${this.endpoint(projectId)}/${sprintId}`);
+    } catch (error) {
+      throw this.handleSprintError(error as ApiError);
+    }
+  }
+
+  /**
+   * Starts a planned sprint
+   * @param projectId Project identifier
+   * @param sprintId Sprint identifier
+   * @returns Promise resolving to the started sprint
+   */
+  public async startSprint(projectId: string, sprintId: string): Promise<SprintApiResponse> {
+    try {
+      return await this.apiService.post(`${this.endpoint(projectId)}/${sprintId}/start`, {});
+    } catch (error) {
+      throw this.handleSprintError(error as ApiError);
+    }
+  }
+
+  /**
+   * Closes the active sprint and rolls its unfinished tasks over
+   * @param projectId Project identifier
+   * @param sprintId Sprint identifier
+   * @param payload Where unfinished tasks go
+   * @returns Promise resolving to the closed sprint and rollover summary
+   */
+  public async closeSprint(
+    projectId: string,
+    sprintId: string,
+    payload: CloseSprintPayload = {}
+  ): Promise<SprintCloseApiResponse> {
+    try {
+      return await this.apiService.post(`${this.endpoint(projectId)}/${sprintId}/close`, payload);
+    } catch (error) {
+      throw this.handleSprintError(error as ApiError);
+    }
+  }
+
+  /**
+   * Retrieves the daily burndown of a sprint
+   * @param projectId Project identifier
+   * @param sprintId Sprint identifier
+   * @returns Promise resolving to the burndown points
+   */
+  public async getBurndown(projectId: string, sprintId: string): Promise<SprintBurndownApiResponse> {
+    try {
+      return await this.apiService.get(`${this.endpoint(projectId)}/${sprintId}/burndown`, undefined, {
+        timeout: 5000
+      });
+    } catch (error) {
+      throw this.handleSprintError(error as ApiError);
+    }
+  }
+
+  /**
+   * Builds the sprints endpoint for a project
+   * @private
+   */
+  private endpoint(projectId: string): string {
+    return `${API_ENDPOINTS.PROJECTS}/${projectId}/sprints`;
+  }
+
+  /**
+   * Handles sprint API errors, surfacing the server's error code
+   * (e.g. CONFLICT when another sprint is still active) and details
+   * @private
+   */
+  private handleSprintError(error: ApiError): Error {
+    const body = error.details?.data as { error?: { code?: string; message?: string; details?: unknown } } | undefined;
+    const errorMessage = body?.error?.message || error.message || 'An error occurred while updating sprints';
+    const enhancedError = new Error(errorMessage);
+    (enhancedError as any).code = body?.error?.code || error.code;
+    (enhancedError as any).details = body?.error?.details || error.details;
+    return enhancedError;
+  }
+}
+
+// Export singleton instance
+export const sprintApi = new SprintApi(new ApiService());
@@ -12,7 +12,9 @@ import {
   PaginatedTaskResponse,
   TaskApiResponse,
   TaskStatsApiResponse,
-  TaskTimelineApiResponse
+  TaskTimelineApiResponse,
+  BulkUpdateTasksRequest,
+  BulkUpdateApiResponse
 } from '../types/task.types';
 import { ApiService } from '../services/api.service';
 import { API_ENDPOINTS, API_RATE_LIMITS } from '../constants/api.constants';
@@ -174,6 +176,26 @@ export class TaskApi {
     }
   }
 
+  /**
+   * Applies one change to many tasks; each task is checked against the version sent
+   * @param request Tasks with the versions the user saw, and the change
+   * @returns Promise resolving to the result per task
+   */
+  public async bulkUpdateTasks(request: BulkUpdateTasksRequest): Promise<BulkUpdateApiResponse> {
+    try {
+      const response = await this.apiService.post<BulkUpdateApiResponse>(
+        `${API_ENDPOINTS.TASKS}/bulk`,
+        request,
+        { timeout: 30000 }
+      );
+
+      this.invalidateTaskCache();
+      return response;
+    } catch (error) {
+      throw this.handleTaskError(error as ApiError);
+    }
+  }
+
   /**
    * Retrieves task statistics and metrics
    * @returns Promise resolving to task statistics
@@ -0,0 +1,144 @@
+/**
+ * @fileoverview Webhook API client managing subscriptions and the delivery log
+ * @version 1.0.0
+ */
+
+import {
+  CreateWebhookPayload,
+  UpdateWebhookPayload,
+  WebhookApiResponse,
+  WebhookDeliveryApiResponse,
+  WebhookDeliveryPageApiResponse,
+  WebhookDeliveryQueryParams,
+  WebhookListApiResponse,
+  WebhookSecretApiResponse
+} from '../types/webhook.types';
+import { ApiService } from '../services/api.service';
+import { API_ENDPOINTS } from '../constants/api.constants';
+import { ApiError } from '../types/api.types';
+
+/**
+ * WebhookApi class implementing webhook administration; requires the webhook:manage permission
+ */
+export class WebhookApi {
+  private readonly apiService: ApiService;
+
+  /**
+   * Initializes WebhookApi with required dependencies
+   * @param apiService Injected API service instance
+   */
+  constructor(apiService: ApiService) {
+    this.apiService = apiService;
+  }
+
+  /**
+   * Retrieves webhooks, optionally those of a project
+   * @param projectId Optional project identifier
+   * @returns Promise resolving to the webhooks by name
+   */
+  public async getWebhooks(projectId?: string): Promise<WebhookListApiResponse> {
+    try {
+      return await this.apiService.get(API_ENDPOINTS.WEBHOOKS, projectId ? { projectId } : undefined, {
+        timeout: 5000
+      });
+    } catch (error) {
+      throw this.handleWebhookError(error as ApiError);
+    }
+  }
+
+  /**
+   * Creates a webhook
+   * @param payload Webhook data
+   * @returns Promise resolving to the webhook and its secret, which is only returned here
+   */
+  public async createWebhook(payload: CreateWebhookPayload): Promise<WebhookSecretApiResponse> {
+    try {
+      return await this.apiService.post(API_ENDPOINTS.WEBHOOKS, payload);
+    } catch (error) {
+      throw this.handleWebhookError(error as ApiError);
+    }
+  }
+
+  /**
+   * Changes a webhook
+   * @param webhookId Webhook identifier
+   * @param payload Changed fields
+   * @returns Promise resolving to the updated webhook
+   */
+  public async updateWebhook(webhookId: string, payload: UpdateWebhookPayload): Promise<WebhookApiResponse> {
+    try {
+      return await this.apiService.put(`${API_ENDPOINTS.WEBHOOKS}/${webhookId}`, payload);
+    } catch (error) {
+      throw this.handleWebhookError(error as ApiError);
+    }
+  }
+
+  /**
+   * Deletes a webhook with its delivery log
+   * @param webhookId Webhook identifier
+   * @returns Promise resolving to void
+   */
+  public async deleteWebhook(webhookId: string): Promise<void> {
+    try {
+      await this.apiService.delete(`${API_ENDPOINTS.WEBHOOKS}/${webhookId}`);
+    } catch (error) {
+      throw this.handleWebhookError(error as ApiError);
+    }
+  }
+
+  /**
+   * Replaces the secret of a webhook
+   * @param webhookId Webhook identifier
+   * @returns Promise resolving to the webhook and its new secret, which is only returned here
+   */
+  public async rotateSecret(webhookId: string): Promise<WebhookSecretApiResponse> {
+    try {
+      return await this.apiService.post(`${API_ENDPOINTS.WEBHOOKS}/${webhookId}/rotate-secret`, {});
+    } catch (error) {
+      throw this.handleWebhookError(error as ApiError);
+    }
+  }
+
+  /**
+   * Retrieves the delivery log, newest first
+   * @param params Webhook and status filters and pagination
+   * @returns Promise resolving to a page of deliveries
+   */
+  public async getDeliveries(params: WebhookDeliveryQueryParams = {}): Promise<WebhookDeliveryPageApiResponse> {
+    try {
+      return await this.apiService.get(`${API_ENDPOINTS.WEBHOOKS}/deliveries`, params as any, {
+        timeout: 5000
+      });
+    } catch (error) {
+      throw this.handleWebhookError(error as ApiError);
+    }
+  }
+
+  /**
+   * Sends the event of a delivery again as a new delivery
+   * @param deliveryId Delivery identifier
+   * @returns Promise resolving to the queued delivery
+   */
+  public async redeliver(deliveryId: string): Promise<WebhookDeliveryApiResponse> {
+    try {
+      return await this.apiService.post(`${API_ENDPOINTS.WEBHOOKS}/deliveries/${deliveryId}/redeliver`, {});
+    } catch (error) {
+      throw this.handleWebhookError(error as ApiError);
+    }
+  }
+
+  /**
+   * Handles webhook API errors, surfacing the server's error code
+   * @private
+   */
+  private handleWebhookError(error: ApiError): Error {
+    const body = error.details?.data as { error?: { code?: string; message?: string } } | undefined;
+    const errorMessage = body?.error?.message || error.message || 'An error occurred while managing webhooks';
+    const enhancedError = new Error(errorMessage);
+    (enhancedError as any).code = body?.error?.code || error.code;
+    return enhancedError;
+  }
+}
+
+// Export singleton instance
+export const webhookApi = new WebhookApi(new ApiService());
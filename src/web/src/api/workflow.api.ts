@@ -0,0 +1,82 @@
+/**
+ * @fileoverview Workflow API client for the task states and transitions defined per project
+ * @version 1.0.0
+ */
+
+import { UpdateWorkflowPayload, WorkflowApiResponse } from '../types/workflow.types';
+import { ApiService } from '../services/api.service';
+import { API_ENDPOINTS } from '../constants/api.constants';
+import { ApiError } from '../types/api.types';
+
+/**
+ * WorkflowApi class implementing workflow retrieval and replacement
+ * for a single project
+ */
+export class WorkflowApi {
+  private readonly apiService: ApiService;
+
+  /**
+   * Initializes WorkflowApi with required dependencies
+   * @param apiService Injected API service instance
+   */
+  constructor(apiService: ApiService) {
+    this.apiService = apiService;
+  }
+
+  /**
+   * Retrieves the workflow of a project, or the default workflow if it has none
+   * @param projectId Project identifier
+   * @returns Promise resolving to the workflow
+   */
+  public async getWorkflow(projectId: string): Promise<WorkflowApiResponse> {
+    try {
+      return await this.apiService.get(this.endpoint(projectId), undefined, {
+        timeout: 5000
+      });
+    } catch (error) {
+      throw this.handleWorkflowError(error as ApiError);
+    }
+  }
+
+  /**
+   * Replaces the states and transitions of a project workflow
+   * @param projectId Project identifier
+   * @param payload New states and transitions
+   * @returns Promise resolving to the stored workflow
+   */
+  public async updateWorkflow(
+    projectId: string,
+    payload: UpdateWorkflowPayload
+  ): Promise<WorkflowApiResponse> {
+    try {
+      return await this.apiService.put(this.endpoint(projectId), payload);
+    } catch (error) {
+      throw this.handleWorkflowError(error as ApiError);
+    }
+  }
+
+  /**
+   * Builds the workflow endpoint for a project
+   * @private
+   */
+  private endpoint(projectId: string): string {
+    return `${API_ENDPOINTS.PROJECTS}/${projectId}/workflow`;
+  }
+
+  /**
+   * Handles workflow API errors, surfacing the server's error code
+   * (e.g. CONFLICT when a removed state still holds tasks) and details
+   * @private
+   */
+  private handleWorkflowError(error: ApiError): Error {
+    const body = error.details?.data as { error?: { code?: string; message?: string; details?: unknown } } | undefined;
+    const errorMessage = body?.error?.message || error.message || 'An error occurred while updating the workflow';
+    const enhancedError = new Error(errorMessage);
+    (enhancedError as any).code = body?.error?.code || error.code;
+    (enhancedError as any).details = body?.error?.details || error.details;
+    return enhancedError;
+  }
+}
+
+// Export singleton instance
+export const workflowApi = new WorkflowApi(new ApiService());
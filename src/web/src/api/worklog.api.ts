@@ -0,0 +1,197 @@
+/**
+ * @fileoverview Worklog API client for time logged on tasks, the running timer and timesheets
+ * @version 1.0.0
+ */
+
+import {
+  CreateWorklogPayload,
+  UpdateWorklogPayload,
+  StartTimerPayload,
+  TimesheetQueryParams,
+  WorklogApiResponse,
+  WorklogListApiResponse,
+  TimerApiResponse,
+  TimerStartApiResponse,
+  TimesheetApiResponse
+} from '../types/worklog.types';
+import { ApiService } from '../services/api.service';
+import { API_ENDPOINTS } from '../constants/api.constants';
+import { ApiError } from '../types/api.types';
+
+/**
+ * WorklogApi class implementing time tracking; the timer lives on the server so it
+ * survives reloads and follows the user across devices
+ */
+export class WorklogApi {
+  private readonly apiService: ApiService;
+
+  /**
+   * Initializes WorklogApi with required dependencies
+   * @param apiService Injected API service instance
+   */
+  constructor(apiService: ApiService) {
+    this.apiService = apiService;
+  }
+
+  /**
+   * Retrieves the time logged on a task
+   * @param taskId Task identifier
+   * @returns Promise resolving to the entries, newest first
+   */
+  public async getWorklogs(taskId: string): Promise<WorklogListApiResponse> {
+    try {
+      return await this.apiService.get(this.endpoint(taskId), undefined, {
+        timeout: 5000
+      });
+    } catch (error) {
+      throw this.handleWorklogError(error as ApiError);
+    }
+  }
+
+  /**
+   * Logs time on a task
+   * @param taskId Task identifier
+   * @param payload Entry attributes
+   * @returns Promise resolving to the created entry
+   */
+  public async createWorklog(taskId: string, payload: CreateWorklogPayload): Promise<WorklogApiResponse> {
+    try {
+      return await this.apiService.post(this.endpoint(taskId), payload);
+    } catch (error) {
+      throw this.handleWorklogError(error as ApiError);
+    }
+  }
+
+  /**
+   * Changes a worklog entry; allowed to its author and project managers
+   * @param taskId Task identifier
+   * @param worklogId Worklog identifier
+   * @param payload Changed attributes
+   * @returns Promise resolving to the updated entry
+   */
+  public async updateWorklog(
+    taskId: string,
+    worklogId: string,
+    payload: UpdateWorklogPayload
+  ): Promise<WorklogApiResponse> {
+    try {
+      return await this.apiService.put(`${this.endpoint(taskId)}/${worklogId}`, payload);
+    } catch (error) {
+      throw this.handleWorklogError(error as ApiError);
+    }
+  }
+
+  /**
+   * Removes a worklog entry; allowed to its author and project managers
+   * @param taskId Task identifier
+   * @param worklogId Worklog identifier
+   * @returns Promise resolving to void
+   */
+  public async deleteWorklog(taskId: string, worklogId: string): Promise<void> {
+    try {
+      await this.apiService.delete(`${this.endpoint(taskId)}/${worklogId}`);
+    } catch (error) {
+      throw this.handleWorklogError(error as ApiError);
+    }
+  }
+
+  /**
+   * Retrieves the running timer of the current user
+   * @returns Promise resolving to the timer, null when none is running
+   */
+  public async getTimer(): Promise<TimerApiResponse> {
+    try {
+      return await this.apiService.get(API_ENDPOINTS.TIMER, undefined, {
+        timeout: 5000
+      });
+    } catch (error) {
+      throw this.handleWorklogError(error as ApiError);
+    }
+  }
+
+  /**
+   * Starts timing a task, stopping and logging a timer that is still running
+   * @param payload Task to time
+   * @returns Promise resolving to the new timer and the entry logged for the previous one
+   */
+  public async startTimer(payload: StartTimerPayload): Promise<TimerStartApiResponse> {
+    try {
+      return await this.apiService.post(`${API_ENDPOINTS.TIMER}/start`, payload);
+    } catch (error) {
+      throw this.handleWorklogError(error as ApiError);
+    }
+  }
+
+  /**
+   * Stops the running timer and logs the elapsed time
+   * @returns Promise resolving to the logged entry
+   */
+  public async stopTimer(): Promise<WorklogApiResponse> {
+    try {
+      return await this.apiService.post(`${API_ENDPOINTS.TIMER}/stop`, {});
+    } catch (error) {
+      throw this.handleWorklogError(error as ApiError);
+    }
+  }
+
+  /**
+   * Retrieves the time a user logged across projects
+   * @param userId User identifier
+   * @param params Days to cover
+   * @returns Promise resolving to the timesheet
+   */
+  public async getUserTimesheet(
+    userId: string,
+    params: TimesheetQueryParams = {}
+  ): Promise<TimesheetApiResponse> {
+    try {
+      return await this.apiService.get(`${API_ENDPOINTS.USERS}/${userId}/timesheet`, params as any, {
+        timeout: 5000
+      });
+    } catch (error) {
+      throw this.handleWorklogError(error as ApiError);
+    }
+  }
+
+  /**
+   * Retrieves the time logged on a project by every user
+   * @param projectId Project identifier
+   * @param params Days to cover
+   * @returns Promise resolving to the timesheet
+   */
+  public async getProjectTimesheet(
+    projectId: string,
+    params: TimesheetQueryParams = {}
+  ): Promise<TimesheetApiResponse> {
+    try {
+      return await this.apiService.get(`${API_ENDPOINTS.PROJECTS}/${projectId}/timesheet`, params as any, {
+        timeout: 5000
+      });
+    } catch (error) {
+      throw this.handleWorklogError(error as ApiError);
+    }
+  }
+
+  /**
+   * Builds the worklogs endpoint for a task
+   * @private
+   */
+  private endpoint(taskId: string): string {
+    return `${API_ENDPOINTS.TASKS}/${taskId}/worklogs`;
+  }
+
+  /**
+   * Handles worklog API errors, surfacing the server's error code
+   * @private
+   */
+  private handleWorklogError(error: ApiError): Error {
+    const body = error.details?.data as { error?: { code?: string; message?: string } } | undefined;
+    const errorMessage = body?.error?.message || error.message || 'An error occurred while tracking time';
+    const enhancedError = new Error(errorMessage);
+    (enhancedError as any).code = body?.error?.code || error.code;
+    return enhancedError;
+  }
+}
+
+// Export singleton instance
+export const worklogApi = new WorklogApi(new ApiService());
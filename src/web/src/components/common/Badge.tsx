@@ -41,7 +41,8 @@ const taskStatusToBadgeVariant: Record<TaskStatus, BadgeProps['variant']> = {
   [TaskStatus.TODO]: 'secondary',
   [TaskStatus.IN_PROGRESS]: 'primary',
   [TaskStatus.REVIEW]: 'warning',
-  [TaskStatus.DONE]: 'success'
+  [TaskStatus.DONE]: 'success',
+  [TaskStatus.BLOCKED]: 'error'
 };
 
 /**
@@ -0,0 +1,70 @@
+/**
+ * @fileoverview Export button offering the list export formats
+ * @version 1.0.0
+ */
+
+import React, { useState } from 'react'; // v18.2.0
+import { Button, CircularProgress, Menu, MenuItem } from '@mui/material'; // v5.14.0
+import { FileDownload as FileDownloadIcon } from '@mui/icons-material'; // v5.14.0
+
+import { ExportFormat } from '../../types/export.types';
+import { EXPORT_FORMAT_LABELS } from '../../utils/export.utils';
+
+/**
+ * Props interface for ExportMenu component
+ */
+export interface ExportMenuProps {
+  /** Downloads the list in a format; the button is busy until it settles */
+  onExport: (format: ExportFormat) => Promise<void>;
+  /** Disables the button, e.g. while the list is loading */
+  disabled?: boolean;
+  /** Accessible name of the button */
+  ariaLabel?: string;
+}
+
+/**
+ * Button opening a menu of export formats
+ */
+export const ExportMenu: React.FC<ExportMenuProps> = ({
+  onExport,
+  disabled = false,
+  ariaLabel = 'Export'
+}) => {
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleSelect = async (format: ExportFormat) => {
+    setAnchorEl(null);
+    setIsExporting(true);
+    try {
+      await onExport(format);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        size="small"
+        variant="outlined"
+        onClick={event => setAnchorEl(event.currentTarget)}
+        disabled={disabled || isExporting}
+        startIcon={isExporting ? <CircularProgress size={16} color="inherit" /> : <FileDownloadIcon />}
+        aria-label={ariaLabel}
+        aria-haspopup="menu"
+      >
+        Export
+      </Button>
+      <Menu anchorEl={anchorEl} open={Boolean(anchorEl)} onClose={() => setAnchorEl(null)}>
+        {Object.values(ExportFormat).map(format => (
+          <MenuItem key={format} onClick={() => handleSelect(format)}>
+            {EXPORT_FORMAT_LABELS[format]}
+          </MenuItem>
+        ))}
+      </Menu>
+    </>
+  );
+};
+
+export default ExportMenu;
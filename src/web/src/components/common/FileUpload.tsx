@@ -28,6 +28,18 @@ interface UploadError {
   fileName?: string;
 }
 
+interface FailedFile {
+  fileName: string;
+  error: string;
+}
+
+/**
+ * Result of a custom multi-file upload; files not listed as failed are treated as uploaded
+ */
+export interface FileUploadResult {
+  failed: FailedFile[];
+}
+
 interface ValidationConfig {
   maxFileSize: number;
   maxTotalSize: number;
@@ -64,6 +76,15 @@ interface FileUploadProps {
   label?: string;
   /** Upload configuration */
   config?: Partial<ValidationConfig>;
+  /**
+   * Custom upload sending all files in one request instead of chunking.
+   * Failed files stay selected and are listed with their errors.
+   */
+  uploadFiles?: (
+    files: File[],
+    onProgress: (percentage: number) => void,
+    signal: AbortSignal
+  ) => Promise<FileUploadResult>;
 }
 
 // -----------------------------------------------------------------------------
@@ -97,7 +118,8 @@ export const FileUpload: React.FC<FileUploadProps> = React.memo(({
   className,
   disabled = false,
   label = 'Drop files here or click to upload',
-  config = {}
+  config = {},
+  uploadFiles
 }) => {
   // State
   const [files, setFiles] = useState<File[]>([]);
@@ -105,6 +127,7 @@ export const FileUpload: React.FC<FileUploadProps> = React.memo(({
   const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null);
   const [error, setError] = useState<UploadError | null>(null);
   const [isUploading, setIsUploading] = useState(false);
+  const [failedFiles, setFailedFiles] = useState<FailedFile[]>([]);
 
   // Refs
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -179,6 +202,7 @@ export const FileUpload: React.FC<FileUploadProps> = React.memo(({
 
     setFiles(multiple ? [...files, ...fileArray] : [fileArray[0]]);
     setError(null);
+    setFailedFiles([]);
 
     if (autoUpload) {
       handleUpload(fileArray);
@@ -193,9 +217,41 @@ export const FileUpload: React.FC<FileUploadProps> = React.memo(({
 
     setIsUploading(true);
     setError(null);
+    setFailedFiles([]);
     abortControllerRef.current = new AbortController();
 
     try {
+      if (uploadFiles) {
+        const totalSize = filesToUpload.reduce((sum, file) => sum + file.size, 0);
+        const { failed } = await uploadFiles(
+          filesToUpload,
+          (percentage) => {
+            const progress: UploadProgress = {
+              loaded: Math.round((totalSize * percentage) / 100),
+              total: totalSize,
+              percentage,
+              fileName: `${filesToUpload.length} file(s)`
+            };
+            setUploadProgress(progress);
+            onProgress?.(progress);
+          },
+          abortControllerRef.current.signal
+        );
+
+        const failedNames = new Set(failed.map(f => f.fileName));
+        const uploaded = filesToUpload.filter(file => !failedNames.has(file.name));
+
+        if (uploaded.length) {
+          onUpload?.(uploaded);
+        }
+        failed.forEach(f => onError?.({ message: f.error, code: 'UPLOAD_FAILED', fileName: f.fileName }));
+
+        setFailedFiles(failed);
+        setFiles(filesToUpload.filter(file => failedNames.has(file.name)));
+        setUploadProgress(null);
+        return;
+      }
+
       for (const file of filesToUpload) {
         const chunks = Math.ceil(file.size / chunkSize);
         let uploadedChunks = 0;
@@ -364,6 +420,16 @@ export const FileUpload: React.FC<FileUploadProps> = React.memo(({
           </div>
         )}
 
+        {failedFiles.length > 0 && (
+          <ul className="fileUpload__failed" role="alert" aria-label="Files that failed to upload">
+            {failedFiles.map(failure => (
+              <li key={failure.fileName} className="fileUpload__failed-file">
+                {failure.fileName}: {failure.error}
+              </li>
+            ))}
+          </ul>
+        )}
+
         {files.length > 0 && !autoUpload && (
           <div className="fileUpload__actions">
             <Button
@@ -1,8 +1,12 @@
 import React, { useState, useEffect, useCallback, useRef, memo } from 'react';
-import { useMediaQuery, Drawer, List, ListItem, ListItemIcon, ListItemText, Collapse } from '@mui/material';
+import { useMediaQuery, Drawer, List, ListItem, ListItemIcon, ListItemText, ListSubheader, Collapse } from '@mui/material';
+import { useLocation, useNavigate } from 'react-router-dom';
 import classNames from 'classnames';
 import { useAuth } from '../../hooks/useAuth';
 import useTheme from '../../hooks/useTheme';
+import { savedViewApi } from '../../api/savedView.api';
+import { SavedView } from '../../types/savedView.types';
+import { buildViewLink } from '../../utils/savedView.utils';
 
 // Material Icons for navigation items
 import DashboardIcon from '@mui/icons-material/Dashboard';
@@ -10,8 +14,10 @@ import TaskIcon from '@mui/icons-material/Assignment';
 import ProjectIcon from '@mui/icons-material/Folder';
 import TeamIcon from '@mui/icons-material/People';
 import ReportIcon from '@mui/icons-material/Assessment';
+import TimesheetIcon from '@mui/icons-material/Schedule';
 import ExpandLess from '@mui/icons-material/ExpandLess';
 import ExpandMore from '@mui/icons-material/ExpandMore';
+import PinnedViewIcon from '@mui/icons-material/PushPin';
 
 // Constants
 const SIDEBAR_WIDTH = 280;
@@ -100,6 +106,13 @@ const navigationItems: NavigationItem[] = [
     path: '/team',
     requiredRole: ['ADMIN', 'PROJECT_MANAGER', 'TEAM_LEAD']
   },
+  {
+    id: 'timesheet',
+    label: 'Timesheet',
+    icon: <TimesheetIcon />,
+    path: '/timesheet',
+    requiredRole: ['ADMIN', 'PROJECT_MANAGER', 'TEAM_LEAD', 'TEAM_MEMBER']
+  },
   {
     id: 'reports',
     label: 'Reports',
@@ -122,7 +135,19 @@ const Sidebar: React.FC<SidebarProps> = memo(({
   const { themeMode } = useTheme();
   const [expandedItems, setExpandedItems] = useState<Set<string>>(new Set());
   const [isMobile, setIsMobile] = useState(window.innerWidth < MOBILE_BREAKPOINT);
+  const [pinnedViews, setPinnedViews] = useState<SavedView[]>([]);
   const sidebarRef = useRef<HTMLDivElement>(null);
+  const location = useLocation();
+  const navigate = useNavigate();
+
+  // Reload pinned views on navigation, which follows saving or opening a view
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    savedViewApi.getPinnedViews()
+      .then(response => setPinnedViews(response.data))
+      .catch(() => setPinnedViews([]));
+  }, [isAuthenticated, location.key]);
 
   // Handle window resize with debouncing
   const handleResize = useCallback(() => {
@@ -257,6 +282,27 @@ const Sidebar: React.FC<SidebarProps> = memo(({
         <List component="nav" aria-label="Main navigation">
           {renderNavigationItems(navigationItems)}
         </List>
+        {pinnedViews.length > 0 && (
+          <List
+            component="nav"
+            aria-label="Pinned views"
+            subheader={<ListSubheader component="div">Pinned views</ListSubheader>}
+          >
+            {pinnedViews.map(view => (
+              <ListItem
+                button
+                key={view.id}
+                onClick={() => navigate(buildViewLink('/tasks', view))}
+                className="sidebar__item"
+              >
+                <ListItemIcon className="sidebar__item-icon">
+                  <PinnedViewIcon />
+                </ListItemIcon>
+                <ListItemText primary={view.name} className="sidebar__item-text" />
+              </ListItem>
+            ))}
+          </List>
+        )}
       </div>
     </Drawer>
   );
@@ -3,6 +3,7 @@ import classNames from 'classnames'; // v2.3.2
 import { useVirtual } from 'react-virtual'; // v2.10.4
 import { Pagination } from './Pagination';
 import { Loading } from './Loading';
+import { CustomField, CustomFieldType, CustomFieldValue } from '../../types/customField.types';
 import '../../styles/components.scss';
 
 // -----------------------------------------------------------------------------
@@ -59,6 +60,12 @@ export interface TableProps {
     itemSize: number;
     overscan: number;
   };
+  /** Project custom fields appended as columns, read from each row's customFields map */
+  customFields?: Array<CustomField>;
+  /** Selected row IDs, for a selection owned by the parent; kept internally when omitted */
+  selectedRowIds?: Array<string>;
+  /** Renders actions on the selected rows in a bar above the table, shown while rows are selected */
+  renderBulkActions?: (selectedRowIds: Array<string>, clearSelection: () => void) => React.ReactNode;
 }
 
 interface SortState {
@@ -80,6 +87,41 @@ const DEFAULT_ROW_HEIGHT = 48;
 const DEFAULT_OVERSCAN = 5;
 const DEFAULT_PAGE_SIZE = 10;
 const MIN_COLUMN_WIDTH = 100;
+const CUSTOM_FIELD_COLUMN_PREFIX = 'customField:';
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+/**
+ * Formats a custom field value for display in a cell
+ */
+const formatCustomFieldValue = (field: CustomField, value: CustomFieldValue | undefined): React.ReactNode => {
+  if (value === undefined || value === null) return '';
+
+  switch (field.type) {
+    case CustomFieldType.DATE:
+      return new Date(value as string).toLocaleDateString();
+    case CustomFieldType.MULTI_SELECT:
+      return (value as string[]).join(', ');
+    default:
+      return String(value);
+  }
+};
+
+/**
+ * Builds one column per custom field, in the fields' display order
+ */
+const buildCustomFieldColumns = (fields: Array<CustomField>): Array<TableColumn> =>
+  [...fields]
+    .sort((a, b) => a.position - b.position)
+    .map((field): TableColumn => ({
+      id: `${CUSTOM_FIELD_COLUMN_PREFIX}${field.key}`,
+      label: field.name,
+      accessor: (row: any) => row.customFields?.[field.key],
+      align: field.type === CustomFieldType.NUMBER ? 'right' : 'left',
+      render: (value: CustomFieldValue | undefined) => formatCustomFieldValue(field, value)
+    }));
 
 // -----------------------------------------------------------------------------
 // Component
@@ -112,11 +154,14 @@ export const Table = React.memo<TableProps>(({
   emptyMessage = 'No data available',
   loadingMessage = 'Loading data...',
   errorMessage,
-  virtualization = { itemSize: DEFAULT_ROW_HEIGHT, overscan: DEFAULT_OVERSCAN }
+  virtualization = { itemSize: DEFAULT_ROW_HEIGHT, overscan: DEFAULT_OVERSCAN },
+  customFields,
+  selectedRowIds,
+  renderBulkActions
 }) => {
   // State management
   const [sortState, setSortState] = useState<SortState[]>([]);
-  const [selectedRows, setSelectedRows] = useState<Set<string>>(new Set());
+  const [internalSelection, setInternalSelection] = useState<Set<string>>(new Set());
   const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set());
   const [columnWidths, setColumnWidths] = useState<Record<string, number>>({});
   const [resizingColumn, setResizingColumn] = useState<string | null>(null);
@@ -134,18 +179,48 @@ export const Table = React.memo<TableProps>(({
     overscan: virtualization.overscan
   });
 
+  // Selection owned by the parent when it passes the selected IDs
+  const selectedRows = useMemo(
+    () => selectedRowIds ? new Set(selectedRowIds) : internalSelection,
+    [selectedRowIds, internalSelection]
+  );
+  const rowIds = useMemo(() => data.map((row, index) => String(row.id ?? index)), [data]);
+  const allSelected = rowIds.length > 0 && rowIds.every(id => selectedRows.has(id));
+  const someSelected = rowIds.some(id => selectedRows.has(id));
+
+  const updateSelection = useCallback((next: Set<string>) => {
+    if (!selectedRowIds) setInternalSelection(next);
+    onSelect?.(Array.from(next));
+  }, [selectedRowIds, onSelect]);
+
+  // Drop selected rows that are no longer shown
+  useEffect(() => {
+    if (selectedRowIds || internalSelection.size === 0) return;
+    const shown = new Set(rowIds);
+    const kept = Array.from(internalSelection).filter(id => shown.has(id));
+    if (kept.length !== internalSelection.size) {
+      updateSelection(new Set(kept));
+    }
+  }, [rowIds]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Static columns followed by the custom field columns
+  const allColumns = useMemo(
+    () => customFields?.length ? [...columns, ...buildCustomFieldColumns(customFields)] : columns,
+    [columns, customFields]
+  );
+
   // Memoized responsive columns
   const visibleColumns = useMemo(() => {
-    if (!responsive) return columns;
+    if (!responsive) return allColumns;
     
     const viewportWidth = window.innerWidth;
-    return columns.filter(column => {
+    return allColumns.filter(column => {
       if (!column.priority) return true;
       if (viewportWidth >= 1024) return true;
       if (viewportWidth >= 768) return column.priority <= 2;
       return column.priority === 1;
     });
-  }, [columns, responsive]);
+  }, [allColumns, responsive]);
 
   // Handle sort
   const handleSort = useCallback((columnId: string) => {
@@ -177,22 +252,21 @@ export const Table = React.memo<TableProps>(({
   const handleRowSelect = useCallback((rowId: string) => {
     if (!selectable) return;
 
-    setSelectedRows(prevSelected => {
-      const newSelected = new Set(prevSelected);
-      if (selectMode === 'single') {
-        newSelected.clear();
-      }
-      
-      if (newSelected.has(rowId)) {
-        newSelected.delete(rowId);
-      } else {
-        newSelected.add(rowId);
-      }
+    const wasSelected = selectedRows.has(rowId);
+    const newSelected = new Set(selectMode === 'single' ? [] : selectedRows);
+    if (wasSelected) {
+      newSelected.delete(rowId);
+    } else {
+      newSelected.add(rowId);
+    }
 
-      onSelect?.(Array.from(newSelected));
-      return newSelected;
-    });
-  }, [selectable, selectMode, onSelect]);
+    updateSelection(newSelected);
+  }, [selectable, selectMode, selectedRows, updateSelection]);
+
+  // Selects every shown row, or clears the selection when all are selected
+  const handleSelectAll = useCallback(() => {
+    updateSelection(allSelected ? new Set() : new Set(rowIds));
+  }, [allSelected, rowIds, updateSelection]);
 
   // Handle column resize
   const handleResizeStart = useCallback((e: React.MouseEvent, columnId: string) => {
@@ -234,12 +308,17 @@ export const Table = React.memo<TableProps>(({
       <div className="table__row" role="row">
         {selectable && (
           <div className="table__cell table__cell--header table__cell--checkbox" role="columnheader">
-            <input
-              type="checkbox"
-              checked={selectedRows.size === data.length}
-              onChange={() => {/* Implement select all logic */}}
-              aria-label="Select all rows"
-            />
+            {selectMode === 'multiple' && (
+              <input
+                type="checkbox"
+                checked={allSelected}
+                ref={input => {
+                  if (input) input.indeterminate = someSelected && !allSelected;
+                }}
+                onChange={handleSelectAll}
+                aria-label="Select all rows"
+              />
+            )}
           </div>
         )}
         {visibleColumns.map((column, index) => (
@@ -282,7 +361,7 @@ export const Table = React.memo<TableProps>(({
         ))}
       </div>
     </div>
-  ), [visibleColumns, sortState, selectedRows, columnWidths, handleSort, handleResizeStart]);
+  ), [visibleColumns, sortState, allSelected, someSelected, columnWidths, handleSort, handleSelectAll, handleResizeStart]);
 
   // Render table body
   const renderBody = useCallback(() => {
@@ -311,9 +390,10 @@ export const Table = React.memo<TableProps>(({
         role="rowgroup"
         style={virtual ? { height: `${data.length * virtualization.itemSize}px` } : undefined}
       >
-        {rows.map((virtualRow: any) => {
+        {rows.map((virtualRow: any, position: number) => {
           const row = virtual ? data[virtualRow.index] : virtualRow;
-          const rowId = row.id || virtualRow.index;
+          const rowIndex = virtual ? virtualRow.index : position;
+          const rowId = rowIds[rowIndex];
 
           return (
             <div
@@ -330,6 +410,16 @@ export const Table = React.memo<TableProps>(({
                 transform: `translateY(${virtualRow.start}px)`
               } : undefined}
             >
+              {selectable && (
+                <div className="table__cell table__cell--checkbox" role="cell">
+                  <input
+                    type="checkbox"
+                    checked={selectedRows.has(rowId)}
+                    onChange={() => handleRowSelect(rowId)}
+                    aria-label={`Select row ${rowIndex + 1}`}
+                  />
+                </div>
+              )}
               {/* Row cells */}
               {visibleColumns.map((column, index) => (
                 <div
@@ -354,7 +444,7 @@ export const Table = React.memo<TableProps>(({
         })}
       </div>
     );
-  }, [data, loading, virtual, rowVirtualizer, visibleColumns, selectedRows, expandedRows]);
+  }, [data, rowIds, loading, virtual, rowVirtualizer, visibleColumns, selectable, selectedRows, expandedRows, handleRowSelect]);
 
   // Utility function to get sort direction
   const getSortDirection = (columnId: string): 'ascending' | 'descending' | 'none' => {
@@ -372,6 +462,13 @@ export const Table = React.memo<TableProps>(({
         'table-container--responsive': responsive
       })}
     >
+      {selectable && renderBulkActions && selectedRows.size > 0 && (
+        <div className="table__bulk-actions" role="toolbar" aria-label="Actions on selected rows">
+          <span className="table__bulk-count">{selectedRows.size} selected</span>
+          {renderBulkActions(Array.from(selectedRows), () => updateSelection(new Set()))}
+        </div>
+      )}
+
       <div
         ref={tableRef}
         className="table"
@@ -20,8 +20,12 @@ interface TabsProps {
 
 interface TabPanelProps {
   children: React.ReactNode;
-  isActive: boolean;
-  id: string;
+  /** Tab button content, read by Tabs */
+  label?: React.ReactNode;
+  /** Injected by Tabs */
+  isActive?: boolean;
+  /** Injected by Tabs */
+  id?: string;
   className?: string;
   lazyLoad?: boolean;
   animated?: boolean;
@@ -30,8 +34,8 @@ interface TabPanelProps {
 // TabPanel component with memoization for performance
 const TabPanel = memo<TabPanelProps>(({
   children,
-  isActive,
-  id,
+  isActive = false,
+  id = 'tab',
   className,
   lazyLoad = true,
   animated = true
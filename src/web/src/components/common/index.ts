@@ -15,6 +15,9 @@ export type { AvatarProps } from './Avatar';
 export { default as Button } from './Button';
 export type { ButtonProps } from './Button';
 
+export { default as ExportMenu } from './ExportMenu';
+export type { ExportMenuProps } from './ExportMenu';
+
 export { default as Input } from './Input';
 export type { InputProps } from './Input';
 
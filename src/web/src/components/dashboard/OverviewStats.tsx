@@ -3,11 +3,20 @@ import classNames from 'classnames';
 import Card from '../common/Card';
 import ProgressBar from '../common/ProgressBar';
 import { TaskStatus, TaskPriority, Task } from '../../types/task.types';
+import { WorkflowCategory } from '../../types/workflow.types';
+import { ProgressWeighting } from '../../types/project.types';
 
 // Constants for real-time updates and date calculations
 const DEFAULT_UPDATE_INTERVAL = 30000; // 30 seconds
 const DUE_SOON_THRESHOLD = 48 * 60 * 60 * 1000; // 48 hours in milliseconds
 
+/**
+ * Whether the task is in a done state of its workflow
+ */
+const isCompleted = (task: Task): boolean => (
+  task.statusCategory ? task.statusCategory === WorkflowCategory.DONE : task.status === TaskStatus.DONE
+);
+
 interface OverviewStatsProps {
   /** Array of tasks to analyze for statistics */
   tasks: Task[];
@@ -15,6 +24,11 @@ interface OverviewStatsProps {
   className?: string;
   /** Interval in milliseconds for real-time updates */
   updateInterval?: number;
+  /**
+   * Whether overall progress counts each task once or weights it by its original
+   * estimate; estimates of projects using different units are summed as they are
+   */
+  weighting?: ProgressWeighting;
 }
 
 interface TaskStats {
@@ -24,7 +38,11 @@ interface TaskStats {
   overdueTasks: number;
   highPriorityTasks: number;
   averageCompletionTime: number;
-  statusDistribution: Record<TaskStatus, number>;
+  statusDistribution: Record<string, number>;
+  /** Sum of original estimates */
+  totalEffort: number;
+  /** Estimated effort already done: all of it for done tasks, the burned part for open ones */
+  completedEffort: number;
 }
 
 /**
@@ -38,7 +56,8 @@ interface TaskStats {
 const OverviewStats: React.FC<OverviewStatsProps> = React.memo(({
   tasks,
   className,
-  updateInterval = DEFAULT_UPDATE_INTERVAL
+  updateInterval = DEFAULT_UPDATE_INTERVAL,
+  weighting = 'count'
 }) => {
   const [stats, setStats] = useState<TaskStats>({
     totalTasks: 0,
@@ -51,8 +70,11 @@ const OverviewStats: React.FC<OverviewStatsProps> = React.memo(({
       [TaskStatus.TODO]: 0,
       [TaskStatus.IN_PROGRESS]: 0,
       [TaskStatus.REVIEW]: 0,
-      [TaskStatus.DONE]: 0
-    }
+      [TaskStatus.DONE]: 0,
+      [TaskStatus.BLOCKED]: 0
+    },
+    totalEffort: 0,
+    completedEffort: 0
   });
 
   /**
@@ -71,25 +93,36 @@ const OverviewStats: React.FC<OverviewStatsProps> = React.memo(({
         [TaskStatus.TODO]: 0,
         [TaskStatus.IN_PROGRESS]: 0,
         [TaskStatus.REVIEW]: 0,
-        [TaskStatus.DONE]: 0
-      }
+        [TaskStatus.DONE]: 0,
+        [TaskStatus.BLOCKED]: 0
+      },
+      totalEffort: 0,
+      completedEffort: 0
     };
 
     let totalCompletionTime = 0;
     let completedTaskCount = 0;
 
     tasks.forEach(task => {
-      // Update status distribution
-      stats.statusDistribution[task.status]++;
+      // Update status distribution; custom workflow states get their own entry
+      stats.statusDistribution[task.status] = (stats.statusDistribution[task.status] ?? 0) + 1;
 
       // Count completed tasks
-      if (task.status === TaskStatus.DONE) {
+      if (isCompleted(task)) {
         stats.completedTasks++;
         const completionTime = new Date(task.updatedAt).getTime() - new Date(task.createdAt).getTime();
         totalCompletionTime += completionTime;
         completedTaskCount++;
       }
 
+      // Sum estimated effort; open tasks count the part no longer remaining
+      if (task.originalEstimate != null) {
+        stats.totalEffort += task.originalEstimate;
+        stats.completedEffort += isCompleted(task)
+          ? task.originalEstimate
+          : Math.max(task.originalEstimate - (task.remainingEstimate ?? task.originalEstimate), 0);
+      }
+
       // Count high priority tasks
       if (task.priority === TaskPriority.HIGH) {
         stats.highPriorityTasks++;
@@ -99,7 +132,7 @@ const OverviewStats: React.FC<OverviewStatsProps> = React.memo(({
       const dueDate = new Date(task.dueDate).getTime();
       const timeUntilDue = dueDate - now.getTime();
 
-      if (task.status !== TaskStatus.DONE) {
+      if (!isCompleted(task)) {
         if (timeUntilDue < 0) {
           stats.overdueTasks++;
         } else if (timeUntilDue <= DUE_SOON_THRESHOLD) {
@@ -116,13 +149,19 @@ const OverviewStats: React.FC<OverviewStatsProps> = React.memo(({
     return stats;
   }, []);
 
+  // Effort weighting falls back to the task count while no task is estimated
+  const weightedByEffort = weighting === 'effort' && stats.totalEffort > 0;
+
   /**
    * Calculate completion percentage
    */
   const completionPercentage = useMemo(() => {
+    if (weightedByEffort) {
+      return Math.round((stats.completedEffort / stats.totalEffort) * 100);
+    }
     if (stats.totalTasks === 0) return 0;
     return Math.round((stats.completedTasks / stats.totalTasks) * 100);
-  }, [stats.completedTasks, stats.totalTasks]);
+  }, [weightedByEffort, stats.completedEffort, stats.totalEffort, stats.completedTasks, stats.totalTasks]);
 
   // Update stats periodically
   useEffect(() => {
@@ -163,6 +202,11 @@ const OverviewStats: React.FC<OverviewStatsProps> = React.memo(({
           <span className="overview-stats__metric">
             {stats.completedTasks} of {stats.totalTasks} tasks completed
           </span>
+          {weightedByEffort && (
+            <span className="overview-stats__metric">
+              {Math.round(stats.completedEffort * 10) / 10} of {Math.round(stats.totalEffort * 10) / 10} estimated effort done
+            </span>
+          )}
         </div>
       </Card>
 
@@ -1,7 +1,7 @@
 import React, { useMemo, useEffect, useCallback } from 'react';
 import classNames from 'classnames'; // v2.3.0
 import ProgressBar from '../common/ProgressBar';
-import { Project, ProjectStatus } from '../../types/project.types';
+import { Project, ProjectStatus, ProgressWeighting } from '../../types/project.types';
 
 /**
  * Props interface for ProjectProgress component
@@ -17,14 +17,25 @@ interface ProjectProgressProps {
   isLoading?: boolean;
   /** Error handler callback */
   onError?: (error: Error) => void;
+  /** Whether task completion counts each task once or weights it by its original estimate */
+  weighting?: ProgressWeighting;
 }
 
 /**
- * Calculates overall progress percentage for a project with enhanced accuracy
+ * Calculates overall progress percentage for a project from task completion when the
+ * server provides it, falling back to the timeline otherwise
  * @param project Project object to calculate progress for
+ * @param weighting Task count or effort weighting; effort falls back to the task count
+ * for projects without estimates
  * @returns Progress percentage between 0-100
  */
-const calculateProjectProgress = (project: Project): number => {
+const calculateProjectProgress = (project: Project, weighting: ProgressWeighting = 'count'): number => {
+  if (project.completion) {
+    return weighting === 'effort' && project.completion.effortPercentage !== null
+      ? project.completion.effortPercentage
+      : project.completion.percentage;
+  }
+
   const now = new Date();
   const start = new Date(project.startDate);
   const end = new Date(project.endDate);
@@ -93,7 +104,8 @@ export const ProjectProgress: React.FC<ProjectProgressProps> = React.memo(({
   className,
   refreshInterval = 60000, // Default 1 minute refresh
   isLoading = false,
-  onError
+  onError,
+  weighting = 'count'
 }) => {
   // Memoize sorted projects by priority and status
   const sortedProjects = useMemo(() => {
@@ -119,9 +131,9 @@ export const ProjectProgress: React.FC<ProjectProgressProps> = React.memo(({
   const projectProgress = useMemo(() => {
     return sortedProjects.map(project => ({
       ...project,
-      progress: calculateProjectProgress(project)
+      progress: calculateProjectProgress(project, weighting)
     }));
-  }, [sortedProjects]);
+  }, [sortedProjects, weighting]);
 
   // Set up progress refresh interval
   useEffect(() => {
@@ -131,7 +143,7 @@ export const ProjectProgress: React.FC<ProjectProgressProps> = React.memo(({
       try {
         // Recalculate progress
         projectProgress.forEach(project => {
-          project.progress = calculateProjectProgress(project);
+          project.progress = calculateProjectProgress(project, weighting);
         });
       } catch (error) {
         onError?.(error as Error);
@@ -139,7 +151,7 @@ export const ProjectProgress: React.FC<ProjectProgressProps> = React.memo(({
     }, refreshInterval);
 
     return () => clearInterval(intervalId);
-  }, [refreshInterval, projectProgress, onError]);
+  }, [refreshInterval, projectProgress, onError, weighting]);
 
   // Format date for display
   const formatDate = useCallback((date: Date): string => {
@@ -3,7 +3,7 @@ import { format, formatInTimeZone } from 'date-fns-tz'; // v2.0.0
 import { useTranslation } from 'react-i18next'; // v13.0.0
 import debounce from 'lodash/debounce'; // v4.17.21
 
-import { Task, TaskStatus, TaskPriority } from '../../types/task.types';
+import { Task, TaskPriority } from '../../types/task.types';
 import TaskCard from '../task/TaskCard';
 import { taskApi } from '../../api/task.api';
 import useTheme from '../../hooks/useTheme';
@@ -109,7 +109,7 @@ const RecentTasks: React.FC<RecentTasksProps> = memo(({
   );
 
   // Handle task status changes with optimistic updates
-  const handleStatusChange = useCallback(async (taskId: string, status: TaskStatus) => {
+  const handleStatusChange = useCallback(async (taskId: string, status: string) => {
     try {
       const taskIndex = tasks.findIndex(task => task.id === taskId);
       if (taskIndex === -1) return;
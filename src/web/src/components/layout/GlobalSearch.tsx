@@ -0,0 +1,256 @@
+/**
+ * @fileoverview Global search box of the header: searches tasks, comments and projects
+ * as the user types and lists ranked, highlighted results with type facets.
+ * @version 1.0.0
+ */
+
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { useNavigate } from 'react-router-dom'; // v6.0.0
+import {
+  TextField,
+  InputAdornment,
+  Popper,
+  Paper,
+  List,
+  ListItemButton,
+  ListItemText,
+  Chip,
+  Box,
+  Typography,
+  CircularProgress,
+  ClickAwayListener
+} from '@mui/material'; // v5.14.0
+import { Search as SearchIcon } from '@mui/icons-material'; // v5.14.0
+
+import { searchApi } from '../../api/search.api';
+import { SearchFacets, SearchHit, SearchResult, SearchResultType } from '../../types/search.types';
+import { splitHighlight, getSearchHitLink } from '../../utils/search.utils';
+
+// Search-as-you-type settings
+const SEARCH_DELAY = 250;
+const MIN_QUERY_LENGTH = 2;
+const RESULT_LIMIT = 10;
+
+const TYPE_LABELS: Record<SearchResultType, string> = {
+  [SearchResultType.TASK]: 'Tasks',
+  [SearchResultType.COMMENT]: 'Comments',
+  [SearchResultType.PROJECT]: 'Projects'
+};
+
+/**
+ * Props interface for GlobalSearch component
+ */
+export interface GlobalSearchProps {
+  /** Optional additional CSS classes */
+  className?: string;
+}
+
+/**
+ * Renders a highlight with its matched terms marked
+ */
+const Highlight: React.FC<{ text: string }> = ({ text }) => (
+  <>
+    {splitHighlight(text).map((segment, index) =>
+      segment.match ? <mark key={index}>{segment.text}</mark> : <span key={index}>{segment.text}</span>
+    )}
+  </>
+);
+
+/**
+ * Global search box with a result list below it. Facet chips narrow the results to
+ * one type; arrow keys move through the results and Enter opens one.
+ */
+export const GlobalSearch: React.FC<GlobalSearchProps> = ({ className }) => {
+  const navigate = useNavigate();
+  const anchorRef = useRef<HTMLDivElement>(null);
+
+  const [query, setQuery] = useState('');
+  const [type, setType] = useState<SearchResultType | null>(null);
+  const [result, setResult] = useState<SearchResult | null>(null);
+  // Facets of the search over all types, kept while a type is selected
+  const [facets, setFacets] = useState<SearchFacets | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  // Search after the user pauses typing; stale responses are dropped
+  useEffect(() => {
+    const q = query.trim();
+    if (q.length < MIN_QUERY_LENGTH) {
+      setResult(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const response = await searchApi.search({
+          q,
+          ...(type && { types: [type] }),
+          limit: RESULT_LIMIT
+        });
+        if (!cancelled) {
+          setResult(response.data);
+          if (!type) setFacets(response.data.facets);
+          setActiveIndex(0);
+        }
+      } catch (err) {
+        if (!cancelled) setError(`Search failed: ${err.message}`);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    }, SEARCH_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, type]);
+
+  /**
+   * Opens a result and closes the list
+   */
+  const openHit = useCallback((hit: SearchHit) => {
+    setIsOpen(false);
+    setQuery('');
+    navigate(getSearchHitLink(hit));
+  }, [navigate]);
+
+  /**
+   * Handles keyboard navigation through the results
+   */
+  const handleKeyDown = useCallback((event: React.KeyboardEvent) => {
+    const hits = result?.hits || [];
+
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        setActiveIndex(index => Math.min(index + 1, hits.length - 1));
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        setActiveIndex(index => Math.max(index - 1, 0));
+        break;
+      case 'Enter':
+        if (hits[activeIndex]) openHit(hits[activeIndex]);
+        break;
+      case 'Escape':
+        setIsOpen(false);
+        break;
+    }
+  }, [result, activeIndex, openHit]);
+
+  const showResults = isOpen && query.trim().length >= MIN_QUERY_LENGTH;
+
+  return (
+    <ClickAwayListener onClickAway={() => setIsOpen(false)}>
+      <Box ref={anchorRef} className={className} sx={{ position: 'relative', minWidth: 240 }}>
+        <TextField
+          size="small"
+          fullWidth
+          placeholder="Search tasks, comments, projects"
+          value={query}
+          onChange={event => {
+            setQuery(event.target.value);
+            setIsOpen(true);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onKeyDown={handleKeyDown}
+          inputProps={{
+            'aria-label': 'Search',
+            'aria-expanded': showResults,
+            'aria-controls': 'global-search-results',
+            role: 'combobox'
+          }}
+          InputProps={{
+            startAdornment: (
+              <InputAdornment position="start">
+                <SearchIcon fontSize="small" />
+              </InputAdornment>
+            ),
+            endAdornment: isLoading && (
+              <InputAdornment position="end">
+                <CircularProgress size={16} />
+              </InputAdornment>
+            )
+          }}
+        />
+
+        <Popper
+          open={showResults}
+          anchorEl={anchorRef.current}
+          placement="bottom-start"
+          style={{ width: Math.max(anchorRef.current?.clientWidth ?? 0, 400), zIndex: 1300 }}
+        >
+          <Paper elevation={8} sx={{ mt: 1, maxHeight: 480, overflow: 'auto' }}>
+            {result && (
+              <Box sx={{ display: 'flex', gap: 1, p: 1, flexWrap: 'wrap' }}>
+                <Chip
+                  size="small"
+                  label="All"
+                  color={type === null ? 'primary' : 'default'}
+                  onClick={() => setType(null)}
+                />
+                {Object.values(SearchResultType).map(facet => (
+                  <Chip
+                    key={facet}
+                    size="small"
+                    label={`${TYPE_LABELS[facet]} (${(facets ?? result.facets)[facet]})`}
+                    color={type === facet ? 'primary' : 'default'}
+                    onClick={() => setType(type === facet ? null : facet)}
+                  />
+                ))}
+              </Box>
+            )}
+
+            {error && (
+              <Typography color="error" variant="body2" sx={{ p: 2 }}>
+                {error}
+              </Typography>
+            )}
+
+            {result && result.hits.length === 0 && !error && (
+              <Typography variant="body2" color="text.secondary" sx={{ p: 2 }}>
+                No results for "{result.query}"
+              </Typography>
+            )}
+
+            {result && result.hits.length > 0 && (
+              <List id="global-search-results" role="listbox" dense disablePadding>
+                {result.hits.map((hit, index) => (
+                  <ListItemButton
+                    key={`${hit.type}-${hit.id}`}
+                    role="option"
+                    selected={index === activeIndex}
+                    aria-selected={index === activeIndex}
+                    onClick={() => openHit(hit)}
+                    onMouseEnter={() => setActiveIndex(index)}
+                  >
+                    <ListItemText
+                      primary={hit.title}
+                      secondary={
+                        <>
+                          <Typography component="span" variant="caption" display="block">
+                            {hit.type === SearchResultType.PROJECT
+                              ? 'Project'
+                              : `${TYPE_LABELS[hit.type].slice(0, -1)} in ${hit.projectName}`}
+                          </Typography>
+                          <Highlight text={hit.highlight} />
+                        </>
+                      }
+                    />
+                  </ListItemButton>
+                ))}
+              </List>
+            )}
+          </Paper>
+        </Popper>
+      </Box>
+    </ClickAwayListener>
+  );
+};
+
+export default GlobalSearch;
@@ -11,21 +11,17 @@ import { motion, AnimatePresence } from 'framer-motion'; // v6.0.0
 import { ThemeProvider } from '@mui/material'; // v5.0.0
 import Avatar from '../common/Avatar';
 import Button from '../common/Button';
-import Notification from '../common/Notification';
+import GlobalSearch from './GlobalSearch';
+import NotificationBell from './NotificationBell';
 import { useAuth } from '../../hooks/useAuth';
 import styles from './Header.module.scss';
 
-// Animation variants for menu and notifications
+// Animation variants for the mobile menu
 const menuVariants = {
   open: { opacity: 1, x: 0, transition: { type: 'spring', stiffness: 300, damping: 30 } },
   closed: { opacity: 0, x: '-100%', transition: { duration: 0.2 } }
 };
 
-const notificationVariants = {
-  open: { opacity: 1, y: 0, transition: { type: 'spring', stiffness: 300, damping: 30 } },
-  closed: { opacity: 0, y: -20, transition: { duration: 0.2 } }
-};
-
 interface HeaderProps {
   /** Handler for mobile menu toggle */
   onMenuClick: () => void;
@@ -52,7 +48,6 @@ const Header: React.FC<HeaderProps> = ({
   // Hooks and state
   const { user, logout } = useAuth();
   const [isMenuOpen, setIsMenuOpen] = useState(false);
-  const [isNotificationsOpen, setIsNotificationsOpen] = useState(false);
   const isMobile = useMediaQuery('(max-width: 768px)');
   const isTablet = useMediaQuery('(max-width: 1024px)');
 
@@ -60,7 +55,6 @@ const Header: React.FC<HeaderProps> = ({
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
       if (event.key === 'Escape') {
-        setIsNotificationsOpen(false);
         setIsMenuOpen(false);
       }
     };
@@ -75,11 +69,6 @@ const Header: React.FC<HeaderProps> = ({
     onMenuClick();
   }, [onMenuClick]);
 
-  // Handle notifications toggle with animation
-  const handleNotificationsToggle = useCallback(() => {
-    setIsNotificationsOpen(prev => !prev);
-  }, []);
-
   // Handle theme toggle with persistence
   const handleThemeToggle = useCallback(() => {
     onThemeToggle();
@@ -129,6 +118,13 @@ const Header: React.FC<HeaderProps> = ({
           </nav>
         )}
 
+        {/* Global Search */}
+        {user && !isMobile && (
+          <div role="search" className={styles.header__search}>
+            <GlobalSearch />
+          </div>
+        )}
+
         {/* Action Buttons */}
         <div className={styles.header__actions}>
           <Button
@@ -141,15 +137,8 @@ const Header: React.FC<HeaderProps> = ({
             <span aria-hidden="true">🌓</span>
           </Button>
 
-          <Button
-            variant="text"
-            onClick={handleNotificationsToggle}
-            ariaLabel="Toggle notifications"
-            className={styles.header__notifications}
-          >
-            {/* Notification icon */}
-            <span aria-hidden="true">🔔</span>
-          </Button>
+          {/* Notifications */}
+          {user && <NotificationBell className={styles.header__notifications} />}
 
           {/* User Profile */}
           {user && (
@@ -201,6 +190,11 @@ const Header: React.FC<HeaderProps> = ({
               exit="closed"
               role="navigation"
             >
+              {user && (
+                <div role="search" className={styles.header__search}>
+                  <GlobalSearch />
+                </div>
+              )}
               <Button variant="text" href="/dashboard" fullWidth>Dashboard</Button>
               <Button variant="text" href="/projects" fullWidth>Projects</Button>
               <Button variant="text" href="/tasks" fullWidth>Tasks</Button>
@@ -208,31 +202,6 @@ const Header: React.FC<HeaderProps> = ({
             </motion.nav>
           )}
         </AnimatePresence>
-
-        {/* Notifications Panel */}
-        <AnimatePresence>
-          {isNotificationsOpen && (
-            <motion.div
-              className={styles.header__notificationsPanel}
-              variants={notificationVariants}
-              initial="closed"
-              animate="open"
-              exit="closed"
-              role="complementary"
-              aria-label="Notifications"
-            >
-              <Notification
-                id="notification-1"
-                message="Welcome to Task Master!"
-                type="info"
-                duration={0}
-                position="top-right"
-                dismissible={true}
-                stackIndex={0}
-              />
-            </motion.div>
-          )}
-        </AnimatePresence>
       </header>
     </ThemeProvider>
   );
@@ -0,0 +1,213 @@
+/**
+ * @fileoverview Notification bell of the header: shows the unread count and lists the
+ * current user's notifications, updated live over WebSocket.
+ * @version 1.0.0
+ */
+
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { useNavigate } from 'react-router-dom'; // v6.0.0
+import {
+  IconButton,
+  Badge,
+  Popper,
+  Paper,
+  List,
+  ListItemButton,
+  ListItemText,
+  Box,
+  Button,
+  Typography,
+  CircularProgress,
+  ClickAwayListener
+} from '@mui/material'; // v5.14.0
+import { Notifications as NotificationsIcon } from '@mui/icons-material'; // v5.14.0
+
+import { notificationApi } from '../../api/notification.api';
+import { Notification, NotificationPushPayload } from '../../types/notification.types';
+import { useAuth } from '../../hooks/useAuth';
+import { useWebSocket } from '../../hooks/useWebSocket';
+import { getRelativeDateLabel } from '../../utils/date.utils';
+import {
+  NOTIFICATION_TYPE_LABELS,
+  fromPushPayload,
+  getNotificationLink,
+  markNotificationsRead,
+  prependNotification
+} from '../../utils/notification.utils';
+
+// Notifications listed in the panel
+const NOTIFICATION_LIMIT = 20;
+
+// WebSocket message type of new notifications
+const NOTIFICATION_EVENT = 'NOTIFICATION_NEW';
+
+/**
+ * Props interface for NotificationBell component
+ */
+export interface NotificationBellProps {
+  /** Optional additional CSS classes */
+  className?: string;
+}
+
+/**
+ * Bell with the unread count that opens the latest notifications. Opening a
+ * notification marks it read and navigates to its task.
+ */
+export const NotificationBell: React.FC<NotificationBellProps> = ({ className }) => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { isConnected, subscribe, unsubscribe } = useWebSocket();
+  const anchorRef = useRef<HTMLButtonElement>(null);
+
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+
+  /**
+   * Loads the latest notifications and the unread count
+   */
+  const loadNotifications = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const response = await notificationApi.getNotifications({ limit: NOTIFICATION_LIMIT });
+      setNotifications(response.data.items);
+      setUnreadCount(response.data.unreadCount);
+    } catch (err) {
+      setError(`Failed to load notifications: ${err.message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Load what arrived while the user was away
+  useEffect(() => {
+    loadNotifications();
+  }, [loadNotifications]);
+
+  // Show notifications as they are pushed
+  useEffect(() => {
+    if (!isConnected || !user) return;
+
+    subscribe(NOTIFICATION_EVENT, (payload: NotificationPushPayload) => {
+      setNotifications(prev => prependNotification(prev, fromPushPayload(payload, user.id), NOTIFICATION_LIMIT));
+      setUnreadCount(payload.unreadCount);
+    });
+
+    return () => unsubscribe(NOTIFICATION_EVENT);
+  }, [isConnected, user, subscribe, unsubscribe]);
+
+  /**
+   * Marks a notification read and opens its task
+   */
+  const openNotification = useCallback(async (notification: Notification) => {
+    setIsOpen(false);
+
+    if (!notification.readAt) {
+      setNotifications(prev => markNotificationsRead(prev, new Date().toISOString(), notification.id));
+      setUnreadCount(count => Math.max(count - 1, 0));
+      try {
+        await notificationApi.markRead(notification.id);
+      } catch {
+        // The next load shows it unread again
+      }
+    }
+
+    const link = getNotificationLink(notification);
+    if (link) navigate(link);
+  }, [navigate]);
+
+  /**
+   * Marks all notifications read
+   */
+  const handleMarkAllRead = useCallback(async () => {
+    try {
+      await notificationApi.markAllRead();
+      setNotifications(prev => markNotificationsRead(prev, new Date().toISOString()));
+      setUnreadCount(0);
+    } catch (err) {
+      setError(`Failed to mark notifications as read: ${err.message}`);
+    }
+  }, []);
+
+  return (
+    <ClickAwayListener onClickAway={() => setIsOpen(false)}>
+      <Box className={className} sx={{ position: 'relative' }}>
+        <IconButton
+          ref={anchorRef}
+          onClick={() => setIsOpen(open => !open)}
+          aria-label={unreadCount > 0 ? `Notifications, ${unreadCount} unread` : 'Notifications'}
+          aria-expanded={isOpen}
+          aria-controls="notification-list"
+        >
+          <Badge badgeContent={unreadCount} color="error" max={99}>
+            <NotificationsIcon />
+          </Badge>
+        </IconButton>
+
+        <Popper
+          open={isOpen}
+          anchorEl={anchorRef.current}
+          placement="bottom-end"
+          style={{ width: 360, zIndex: 1300 }}
+        >
+          <Paper elevation={8} sx={{ mt: 1, maxHeight: 480, overflow: 'auto' }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', p: 1, pl: 2 }}>
+              <Typography variant="subtitle2">Notifications</Typography>
+              <Button size="small" onClick={handleMarkAllRead} disabled={unreadCount === 0}>
+                Mark all read
+              </Button>
+            </Box>
+
+            {isLoading && (
+              <Box sx={{ display: 'flex', justifyContent: 'center', p: 2 }}>
+                <CircularProgress size={20} />
+              </Box>
+            )}
+
+            {error && (
+              <Typography color="error" variant="body2" sx={{ p: 2 }}>
+                {error}
+              </Typography>
+            )}
+
+            {!isLoading && !error && notifications.length === 0 && (
+              <Typography variant="body2" color="text.secondary" sx={{ p: 2 }}>
+                You have no notifications
+              </Typography>
+            )}
+
+            {notifications.length > 0 && (
+              <List id="notification-list" dense disablePadding>
+                {notifications.map(notification => (
+                  <ListItemButton
+                    key={notification.id}
+                    selected={!notification.readAt}
+                    onClick={() => openNotification(notification)}
+                  >
+                    <ListItemText
+                      primary={notification.title}
+                      primaryTypographyProps={{ fontWeight: notification.readAt ? 'normal' : 'bold' }}
+                      secondary={
+                        <>
+                          <Typography component="span" variant="caption" display="block">
+                            {NOTIFICATION_TYPE_LABELS[notification.type]} · {getRelativeDateLabel(notification.createdAt)}
+                          </Typography>
+                          {notification.message}
+                        </>
+                      }
+                    />
+                  </ListItemButton>
+                ))}
+              </List>
+            )}
+          </Paper>
+        </Popper>
+      </Box>
+    </ClickAwayListener>
+  );
+};
+
+export default NotificationBell;
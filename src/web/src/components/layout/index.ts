@@ -11,6 +11,12 @@ import type { FooterProps } from './Footer';
 import { Header } from './Header';
 import type { HeaderProps } from './Header';
 
+import { GlobalSearch } from './GlobalSearch';
+import type { GlobalSearchProps } from './GlobalSearch';
+
+import { NotificationBell } from './NotificationBell';
+import type { NotificationBellProps } from './NotificationBell';
+
 import { Navigation } from './Navigation';
 import type { NavigationProps } from './Navigation';
 
@@ -20,7 +26,9 @@ import type { MainLayoutProps } from './MainLayout';
 // Export all layout components
 export {
   Footer,
+  GlobalSearch,
   Header,
+  NotificationBell,
   Navigation,
   MainLayout
 };
@@ -28,7 +36,9 @@ export {
 // Export component TypeScript interfaces
 export type {
   FooterProps,
+  GlobalSearchProps,
   HeaderProps,
+  NotificationBellProps,
   NavigationProps,
   MainLayoutProps
 };
@@ -0,0 +1,239 @@
+import React, { useState, useEffect, useCallback } from 'react'; // v18.2.0
+
+import { Sprint, SprintState, BurndownPoint } from '../../types/sprint.types';
+import { Task } from '../../types/task.types';
+import { sprintApi } from '../../api/sprint.api';
+import { taskApi } from '../../api/task.api';
+
+/**
+ * Props interface for ProjectBacklog component
+ */
+export interface ProjectBacklogProps {
+  projectId: string;
+  /** Whether the user may plan, start and close sprints */
+  canManage?: boolean;
+}
+
+/**
+ * ProjectBacklog Component - Shows the project backlog next to its open sprints,
+ * lets managers plan tasks into sprints, start and close them, and lists the
+ * burndown of the active sprint for charting.
+ */
+const ProjectBacklog: React.FC<ProjectBacklogProps> = ({
+  projectId,
+  canManage = false
+}) => {
+  const [sprints, setSprints] = useState<Sprint[]>([]);
+  const [backlog, setBacklog] = useState<Task[]>([]);
+  const [burndown, setBurndown] = useState<BurndownPoint[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+
+  const openSprints = sprints.filter(sprint => sprint.state !== SprintState.CLOSED);
+  const activeSprint = sprints.find(sprint => sprint.state === SprintState.ACTIVE);
+
+  /**
+   * Loads the sprints, the backlog and the burndown of the active sprint
+   */
+  const loadPlanning = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const [sprintResponse, backlogResponse] = await Promise.all([
+        sprintApi.getSprints(projectId),
+        sprintApi.getBacklog(projectId)
+      ]);
+      setSprints(sprintResponse.data);
+      setBacklog(backlogResponse.data);
+
+      const active = sprintResponse.data.find(sprint => sprint.state === SprintState.ACTIVE);
+      setBurndown(active ? (await sprintApi.getBurndown(projectId, active.id)).data.points : []);
+    } catch (err) {
+      setError(`Failed to load sprints: ${err.message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    loadPlanning();
+  }, [loadPlanning]);
+
+  /**
+   * Plans a new sprint
+   */
+  const createSprint = useCallback(async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!name.trim() || !startDate || !endDate) return;
+
+    try {
+      setError(null);
+      await sprintApi.createSprint(projectId, { name: name.trim(), startDate, endDate });
+      setName('');
+      setStartDate('');
+      setEndDate('');
+      await loadPlanning();
+    } catch (err) {
+      setError(`Failed to create sprint: ${err.message}`);
+    }
+  }, [projectId, name, startDate, endDate, loadPlanning]);
+
+  /**
+   * Moves a backlog task into a sprint
+   */
+  const planTask = useCallback(async (taskId: string, sprintId: string) => {
+    try {
+      setError(null);
+      await taskApi.updateTask(taskId, { sprintId: sprintId as any });
+      await loadPlanning();
+    } catch (err) {
+      setError(`Failed to plan task: ${err.message}`);
+    }
+  }, [loadPlanning]);
+
+  /**
+   * Starts a planned sprint
+   */
+  const startSprint = useCallback(async (sprintId: string) => {
+    try {
+      setError(null);
+      await sprintApi.startSprint(projectId, sprintId);
+      await loadPlanning();
+    } catch (err) {
+      setError(err.code === 'CONFLICT'
+        ? 'Close the active sprint before starting another'
+        : `Failed to start sprint: ${err.message}`);
+    }
+  }, [projectId, loadPlanning]);
+
+  /**
+   * Closes the active sprint; unfinished tasks roll over to the next planned sprint
+   */
+  const closeSprint = useCallback(async (sprintId: string) => {
+    try {
+      setError(null);
+      await sprintApi.closeSprint(projectId, sprintId);
+      await loadPlanning();
+    } catch (err) {
+      setError(`Failed to close sprint: ${err.message}`);
+    }
+  }, [projectId, loadPlanning]);
+
+  return (
+    <section className="project-backlog" aria-label="Backlog and Sprints">
+      <h2>Sprints</h2>
+
+      {error && (
+        <div role="alert" className="project-backlog-error">
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div aria-busy="true">Loading sprints...</div>
+      ) : (
+        <>
+          <ul className="sprint-list">
+            {openSprints.map(sprint => (
+              <li key={sprint.id} className="sprint">
+                <span className="sprint-name">{sprint.name}</span>
+                <span className="sprint-dates">{sprint.startDate} – {sprint.endDate}</span>
+                <span className="sprint-state">{sprint.state}</span>
+                <span className="sprint-progress">
+                  {sprint.completedCount ?? 0}/{sprint.taskCount ?? 0} done
+                </span>
+                {canManage && sprint.state === SprintState.PLANNED && (
+                  <button onClick={() => startSprint(sprint.id)} disabled={!!activeSprint}>
+                    Start
+                  </button>
+                )}
+                {canManage && sprint.state === SprintState.ACTIVE && (
+                  <button onClick={() => closeSprint(sprint.id)}>
+                    Close
+                  </button>
+                )}
+              </li>
+            ))}
+            {openSprints.length === 0 && <li className="sprint-empty">No open sprints</li>}
+          </ul>
+
+          {activeSprint && burndown.length > 0 && (
+            <table className="sprint-burndown" aria-label={`Burndown of ${activeSprint.name}`}>
+              <thead>
+                <tr>
+                  <th scope="col">Day</th>
+                  <th scope="col">Remaining</th>
+                  <th scope="col">Ideal</th>
+                </tr>
+              </thead>
+              <tbody>
+                {burndown.map(point => (
+                  <tr key={point.date}>
+                    <td>{point.date}</td>
+                    <td>{point.remaining ?? '–'}</td>
+                    <td>{point.ideal}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <h3>Backlog</h3>
+          <ul className="backlog-list">
+            {backlog.map(task => (
+              <li key={task.id} className="backlog-task">
+                <span className="backlog-task-title">{task.title}</span>
+                {canManage && openSprints.length > 0 && (
+                  <select
+                    value=""
+                    onChange={(e) => e.target.value && planTask(task.id, e.target.value)}
+                    aria-label={`Plan ${task.title} into a sprint`}
+                  >
+                    <option value="">Move to sprint…</option>
+                    {openSprints.map(sprint => (
+                      <option key={sprint.id} value={sprint.id}>{sprint.name}</option>
+                    ))}
+                  </select>
+                )}
+              </li>
+            ))}
+            {backlog.length === 0 && <li className="backlog-empty">The backlog is empty</li>}
+          </ul>
+        </>
+      )}
+
+      {canManage && (
+        <form className="sprint-form" onSubmit={createSprint}>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Sprint name"
+            aria-label="Sprint name"
+            maxLength={100}
+          />
+          <input
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            aria-label="Start date"
+          />
+          <input
+            type="date"
+            value={endDate}
+            onChange={(e) => setEndDate(e.target.value)}
+            aria-label="End date"
+          />
+          <button type="submit" disabled={!name.trim() || !startDate || !endDate}>
+            Plan sprint
+          </button>
+        </form>
+      )}
+    </section>
+  );
+};
+
+export default ProjectBacklog;
@@ -26,9 +26,12 @@ interface ProjectCardProps {
 }
 
 /**
- * Calculates project progress based on timeline and milestones
+ * Calculates project progress from task completion when the server provides it,
+ * falling back to the timeline otherwise
  */
 const calculateProgress = (project: Project): number => {
+  if (project.completion) return project.completion.percentage;
+
   const now = new Date();
   const start = new Date(project.startDate);
   const end = new Date(project.endDate);
@@ -0,0 +1,153 @@
+import React, { useState, useEffect, useCallback } from 'react'; // v18.2.0
+
+import { ProjectMember, ProjectRole } from '../../types/membership.types';
+import { membershipApi } from '../../api/membership.api';
+
+/**
+ * Props interface for ProjectMembers component
+ */
+export interface ProjectMembersProps {
+  projectId: string;
+  /** ID of the signed-in user, used to find their own project role */
+  currentUserId?: string;
+  /** Whether the user manages members regardless of their project role (e.g. admins) */
+  canManage?: boolean;
+}
+
+const MANAGING_ROLES: ProjectRole[] = [ProjectRole.OWNER, ProjectRole.MANAGER];
+
+/**
+ * ProjectMembers Component - Lists the members of a project with their roles,
+ * and lets owners and managers add, re-role or remove members.
+ */
+const ProjectMembers: React.FC<ProjectMembersProps> = ({
+  projectId,
+  currentUserId,
+  canManage = false
+}) => {
+  const [members, setMembers] = useState<ProjectMember[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [userId, setUserId] = useState('');
+  const [role, setRole] = useState<ProjectRole>(ProjectRole.CONTRIBUTOR);
+
+  const ownRole = members.find(member => member.userId === currentUserId)?.role;
+  const isManager = canManage || (!!ownRole && MANAGING_ROLES.includes(ownRole));
+
+  /**
+   * Loads the current members
+   */
+  const loadMembers = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const response = await membershipApi.getMembers(projectId);
+      setMembers(response.data);
+    } catch (err) {
+      setError(`Failed to load members: ${err.message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    loadMembers();
+  }, [loadMembers]);
+
+  /**
+   * Adds a member, or changes the role of an existing one
+   */
+  const addMember = useCallback(async (event: React.FormEvent) => {
+    event.preventDefault();
+    const id = userId.trim();
+    if (!id) return;
+
+    try {
+      setError(null);
+      await membershipApi.addMember(projectId, { userId: id as any, role });
+      setUserId('');
+      await loadMembers();
+    } catch (err) {
+      setError(err.code === 'CONFLICT'
+        ? 'A project must keep at least one owner'
+        : `Failed to add member: ${err.message}`);
+    }
+  }, [projectId, userId, role, loadMembers]);
+
+  /**
+   * Removes a member
+   */
+  const removeMember = useCallback(async (memberId: string) => {
+    try {
+      setError(null);
+      await membershipApi.removeMember(projectId, memberId);
+      await loadMembers();
+    } catch (err) {
+      setError(err.code === 'CONFLICT'
+        ? 'A project must keep at least one owner'
+        : `Failed to remove member: ${err.message}`);
+    }
+  }, [projectId, loadMembers]);
+
+  return (
+    <section className="project-members" aria-label="Project Members">
+      <h2>Members</h2>
+
+      {error && (
+        <div role="alert" className="project-members-error">
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div aria-busy="true">Loading members...</div>
+      ) : (
+        <ul className="member-list">
+          {members.map(member => (
+            <li key={member.id} className="member">
+              <span className="member-name">{member.user?.name || member.userId}</span>
+              <span className="member-role">{member.role}</span>
+              {(isManager || member.userId === currentUserId) && (
+                <button
+                  onClick={() => removeMember(member.userId)}
+                  aria-label={member.userId === currentUserId
+                    ? 'Leave project'
+                    : `Remove ${member.user?.name || member.userId}`}
+                >
+                  {member.userId === currentUserId ? 'Leave' : 'Remove'}
+                </button>
+              )}
+            </li>
+          ))}
+          {members.length === 0 && <li className="member-empty">No members</li>}
+        </ul>
+      )}
+
+      {isManager && (
+        <form className="member-form" onSubmit={addMember}>
+          <input
+            type="text"
+            value={userId}
+            onChange={(e) => setUserId(e.target.value)}
+            placeholder="User ID"
+            aria-label="Member user ID"
+          />
+          <select
+            value={role}
+            onChange={(e) => setRole(e.target.value as ProjectRole)}
+            aria-label="Project role"
+          >
+            {Object.values(ProjectRole).map(value => (
+              <option key={value} value={value}>{value}</option>
+            ))}
+          </select>
+          <button type="submit" disabled={!userId.trim()}>
+            Add
+          </button>
+        </form>
+      )}
+    </section>
+  );
+};
+
+export default ProjectMembers;
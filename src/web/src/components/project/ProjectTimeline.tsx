@@ -1,11 +1,13 @@
 import React, { useMemo, useCallback, useEffect, useRef } from 'react';
 import { format, differenceInDays, isWithinInterval } from 'date-fns'; // v2.30.0
 import { Project, ProjectStatus } from '../../types/project.types';
+import { Milestone, MilestoneStatus } from '../../types/milestone.types';
 import ProgressBar from '../common/ProgressBar';
 import styles from './ProjectTimeline.module.scss';
 
 interface ProjectTimelineProps {
   projects: Project[];
+  milestones?: Milestone[];
   viewStartDate?: Date;
   viewEndDate?: Date;
   onProjectClick?: (project: Project) => void;
@@ -19,16 +21,25 @@ interface TimelinePosition {
   scale: number;
 }
 
+// Marker style and spoken label per milestone status
+const MILESTONE_STATUS_STYLES: Record<MilestoneStatus, { className: string; label: string }> = {
+  [MilestoneStatus.ON_TRACK]: { className: styles.milestoneOnTrack, label: 'on track' },
+  [MilestoneStatus.AT_RISK]: { className: styles.milestoneAtRisk, label: 'at risk' },
+  [MilestoneStatus.MISSED]: { className: styles.milestoneMissed, label: 'missed' },
+};
+
 /**
  * ProjectTimeline Component
  * 
- * A responsive timeline visualization component that displays projects in a Gantt chart-like view.
+ * A responsive timeline visualization component that displays projects in a Gantt chart-like view,
+ * with each project's milestones as markers coloured by status.
  * Supports touch interactions, keyboard navigation, and screen reader accessibility.
  *
  * @component
  */
 const ProjectTimeline: React.FC<ProjectTimelineProps> = ({
   projects,
+  milestones = [],
   viewStartDate = new Date(),
   viewEndDate = new Date(Date.now() + 90 * 24 * 60 * 60 * 1000), // 90 days default view
   onProjectClick,
@@ -85,6 +96,24 @@ const ProjectTimeline: React.FC<ProjectTimelineProps> = ({
     return positions;
   }, [projects, viewStartDate, viewEndDate]);
 
+  // Position milestones within the view, grouped by project
+  const milestonePositions = useMemo(() => {
+    const positions = new Map<string, Array<{ milestone: Milestone; left: number }>>();
+    const timelineDuration = differenceInDays(viewEndDate, viewStartDate);
+
+    milestones.forEach(milestone => {
+      const dueDate = new Date(milestone.dueDate);
+      if (!isWithinInterval(dueDate, { start: viewStartDate, end: viewEndDate })) return;
+
+      const left = (differenceInDays(dueDate, viewStartDate) / timelineDuration) * 100;
+      const projectMilestones = positions.get(milestone.projectId) ?? [];
+      projectMilestones.push({ milestone, left });
+      positions.set(milestone.projectId, projectMilestones);
+    });
+
+    return positions;
+  }, [milestones, viewStartDate, viewEndDate]);
+
   // Calculate project progress
   const calculateProgress = useCallback((project: Project): number => {
     const cached = progressCache.current.get(project.id);
@@ -96,7 +125,9 @@ const ProjectTimeline: React.FC<ProjectTimelineProps> = ({
     
     let progress = 0;
     
-    if (project.status === ProjectStatus.COMPLETED) {
+    if (project.completion) {
+      progress = project.completion.percentage;
+    } else if (project.status === ProjectStatus.COMPLETED) {
       progress = 100;
     } else if (project.status === ProjectStatus.CANCELLED) {
       progress = 0;
@@ -164,34 +195,51 @@ const ProjectTimeline: React.FC<ProjectTimelineProps> = ({
           if (!position) return null;
 
           return (
-            <div
-              key={project.id}
-              className={styles.timelineProject}
-              style={{
-                left: `${position.left}%`,
-                width: `${position.width}%`,
-                top: `${position.overlap * 60}px`,
-              }}
-              onClick={() => onProjectClick?.(project)}
-              tabIndex={0}
-              role="gridcell"
-              aria-rowindex={index + 1}
-              aria-label={`${project.name} from ${format(new Date(project.startDate), 'MMM d, yyyy')} to ${format(new Date(project.endDate), 'MMM d, yyyy')}`}
-            >
-              <div className={styles.projectContent}>
-                <h3 className={styles.projectTitle}>{project.name}</h3>
-                <ProgressBar
-                  value={calculateProgress(project)}
-                  variant={project.status === ProjectStatus.COMPLETED ? 'success' : 'primary'}
-                  size="small"
-                  className={styles.projectProgress}
-                />
-                <div className={styles.projectDates}>
-                  <span>{format(new Date(project.startDate), 'MMM d')}</span>
-                  <span>{format(new Date(project.endDate), 'MMM d')}</span>
+            <React.Fragment key={project.id}>
+              <div
+                className={styles.timelineProject}
+                style={{
+                  left: `${position.left}%`,
+                  width: `${position.width}%`,
+                  top: `${position.overlap * 60}px`,
+                }}
+                onClick={() => onProjectClick?.(project)}
+                tabIndex={0}
+                role="gridcell"
+                aria-rowindex={index + 1}
+                aria-label={`${project.name} from ${format(new Date(project.startDate), 'MMM d, yyyy')} to ${format(new Date(project.endDate), 'MMM d, yyyy')}`}
+              >
+                <div className={styles.projectContent}>
+                  <h3 className={styles.projectTitle}>{project.name}</h3>
+                  <ProgressBar
+                    value={calculateProgress(project)}
+                    variant={project.status === ProjectStatus.COMPLETED ? 'success' : 'primary'}
+                    size="small"
+                    className={styles.projectProgress}
+                  />
+                  <div className={styles.projectDates}>
+                    <span>{format(new Date(project.startDate), 'MMM d')}</span>
+                    <span>{format(new Date(project.endDate), 'MMM d')}</span>
+                  </div>
                 </div>
               </div>
-            </div>
+              {milestonePositions.get(project.id)?.map(({ milestone, left }) => {
+                const statusStyle = MILESTONE_STATUS_STYLES[milestone.status];
+                return (
+                  <div
+                    key={milestone.id}
+                    className={`${styles.milestoneMarker} ${statusStyle.className}`}
+                    style={{
+                      left: `${left}%`,
+                      top: `${position.overlap * 60}px`,
+                    }}
+                    tabIndex={0}
+                    title={milestone.description ? `${milestone.name}: ${milestone.description}` : milestone.name}
+                    aria-label={`Milestone ${milestone.name} due ${format(new Date(milestone.dueDate), 'MMM d, yyyy')}, ${statusStyle.label}, ${milestone.completedCount} of ${milestone.taskCount} tasks done`}
+                  />
+                );
+              })}
+            </React.Fragment>
           );
         })}
       </div>
@@ -7,9 +7,11 @@
  */
 
 // Core project components with their TypeScript interfaces
+export { default as ProjectBacklog, type ProjectBacklogProps } from './ProjectBacklog';
 export { default as ProjectCard, type ProjectCardProps } from './ProjectCard';
 export { default as ProjectForm, type ProjectFormProps } from './ProjectForm';
 export { default as ProjectList, type ProjectListProps } from './ProjectList';
+export { default as ProjectMembers, type ProjectMembersProps } from './ProjectMembers';
 export { default as ProjectTimeline, type ProjectTimelineProps } from './ProjectTimeline';
 
 // Re-export project-related types for convenience
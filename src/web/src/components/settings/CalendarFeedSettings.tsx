@@ -0,0 +1,231 @@
+/**
+ * @fileoverview Settings section managing the personal calendar feed of due dates and milestones
+ * @version 1.0.0
+ */
+
+import React, { useState, useEffect, useMemo } from 'react'; // v18.2.0
+import { useDispatch, useSelector } from 'react-redux'; // v8.1.0
+import {
+  Box,
+  Button,
+  Chip,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  OutlinedInput,
+  Select,
+  Stack,
+  TextField,
+  Typography
+} from '@mui/material'; // v5.14.0
+import { toast } from 'react-toastify'; // v9.0.0
+// @ts-ignore - UUID type from crypto module
+import { UUID } from 'crypto'; // v20.0.0+
+
+import { calendarApi } from '../../api/calendar.api';
+import { apiConfig } from '../../config/api.config';
+import { fetchProjects, selectProjects } from '../../redux/project/projectSlice';
+import { CalendarFeed } from '../../types/calendar.types';
+import { buildCalendarFeedUrl, getBrowserTimeZone, toWebcalUrl } from '../../utils/calendar.utils';
+import { formatDate } from '../../utils/date.utils';
+
+// Projects offered in the filter
+const PROJECT_FILTER_LIMIT = 100;
+
+/**
+ * Props interface for CalendarFeedSettings component
+ */
+export interface CalendarFeedSettingsProps {
+  /** Time zone the due dates are placed in; the browser's time zone by default */
+  timezone?: string;
+}
+
+/**
+ * Section for subscribing calendar apps to the current user's due dates. The feed URL
+ * holds a secret token that is only shown right after it is generated.
+ */
+export const CalendarFeedSettings: React.FC<CalendarFeedSettingsProps> = ({
+  timezone = getBrowserTimeZone()
+}) => {
+  const dispatch = useDispatch();
+  const projects = useSelector(selectProjects);
+
+  const [feed, setFeed] = useState<CalendarFeed | null>(null);
+  const [token, setToken] = useState<string | null>(null);
+  const [projectIds, setProjectIds] = useState<UUID[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    calendarApi.getFeed()
+      .then(response => {
+        if (!cancelled) {
+          setFeed(response.data);
+        }
+      })
+      .catch(() => toast.error('Failed to load calendar feed'))
+      .finally(() => {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (projects.length === 0) {
+      dispatch(fetchProjects({ page: 1, limit: PROJECT_FILTER_LIMIT }) as any);
+    }
+  }, [dispatch, projects.length]);
+
+  const feedUrl = useMemo(
+    () => (token
+      ? buildCalendarFeedUrl(apiConfig.baseURL as string, token, { projectIds, timezone })
+      : null),
+    [token, projectIds, timezone]
+  );
+
+  const handleRegenerate = async () => {
+    if (feed && !window.confirm('Calendars subscribed with the current URL will stop updating. Continue?')) {
+      return;
+    }
+
+    setIsBusy(true);
+    try {
+      const response = await calendarApi.regenerateFeed();
+      setFeed(response.data.feed);
+      setToken(response.data.token);
+      toast.success('Calendar feed URL generated');
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to generate calendar feed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!window.confirm('Calendars subscribed to this feed will stop updating. Revoke it?')) {
+      return;
+    }
+
+    setIsBusy(true);
+    try {
+      await calendarApi.revokeFeed();
+      setFeed(null);
+      setToken(null);
+      toast.success('Calendar feed revoked');
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to revoke calendar feed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!feedUrl) {
+      return;
+    }
+
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      toast.success('Feed URL copied');
+    } catch {
+      toast.error('Failed to copy feed URL');
+    }
+  };
+
+  if (isLoading) {
+    return <div role="alert" aria-busy="true">Loading calendar feed...</div>;
+  }
+
+  return (
+    <Stack spacing={2}>
+      <Typography variant="body2" color="text.secondary">
+        Subscribe to the due dates of your tasks and the dates and milestones of your projects
+        from Google Calendar, Outlook or Apple Calendar. Dates are shown in {timezone}.
+      </Typography>
+
+      {feed && (
+        <Typography variant="body2">
+          URL generated on {formatDate(feed.createdAt)}
+          {feed.lastReadAt ? `, last read on ${formatDate(feed.lastReadAt)}` : ', not read yet'}.
+        </Typography>
+      )}
+
+      {feedUrl ? (
+        <>
+          <FormControl size="small" fullWidth>
+            <InputLabel id="calendar-feed-projects-label">Projects</InputLabel>
+            <Select
+              labelId="calendar-feed-projects-label"
+              multiple
+              value={projectIds}
+              onChange={event => setProjectIds(event.target.value as UUID[])}
+              input={<OutlinedInput label="Projects" />}
+              renderValue={selected => (
+                <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+                  {(selected as UUID[]).map(projectId => (
+                    <Chip
+                      key={projectId}
+                      size="small"
+                      label={projects.find(project => project.id === projectId)?.name || projectId}
+                    />
+                  ))}
+                </Box>
+              )}
+              displayEmpty
+            >
+              {projects.map(project => (
+                <MenuItem key={project.id} value={project.id}>
+                  {project.name}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <TextField
+            label="Feed URL"
+            value={feedUrl}
+            size="small"
+            fullWidth
+            InputProps={{ readOnly: true }}
+            helperText="Keep this URL private; anyone with it can read your due dates. It is shown only now."
+            onFocus={event => event.target.select()}
+          />
+
+          <Stack direction="row" spacing={1}>
+            <Button variant="contained" size="small" onClick={handleCopy}>
+              Copy URL
+            </Button>
+            <Button variant="outlined" size="small" href={toWebcalUrl(feedUrl)}>
+              Open in calendar app
+            </Button>
+          </Stack>
+        </>
+      ) : feed && (
+        <Typography variant="body2" color="text.secondary">
+          The feed URL is only shown when it is generated. Generate a new URL to subscribe
+          another calendar; the current URL then stops working.
+        </Typography>
+      )}
+
+      <Stack direction="row" spacing={1}>
+        <Button variant="outlined" size="small" onClick={handleRegenerate} disabled={isBusy}>
+          {feed ? 'Generate new URL' : 'Create feed URL'}
+        </Button>
+        {feed && (
+          <Button variant="outlined" color="error" size="small" onClick={handleRevoke} disabled={isBusy}>
+            Revoke
+          </Button>
+        )}
+      </Stack>
+    </Stack>
+  );
+};
+
+export default CalendarFeedSettings;
@@ -0,0 +1,21 @@
+/**
+ * @fileoverview Barrel file exporting the sections of the settings pages.
+ * @version 1.0.0
+ */
+
+// Import all settings components with their types
+import { CalendarFeedSettings, CalendarFeedSettingsProps } from './CalendarFeedSettings';
+
+// Export all components and their types
+export {
+  // Components
+  CalendarFeedSettings,
+
+  // Component Props Types
+  type CalendarFeedSettingsProps
+};
+
+// Default export for convenient importing
+export default {
+  CalendarFeedSettings
+};
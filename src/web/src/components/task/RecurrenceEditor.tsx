@@ -0,0 +1,245 @@
+import React, { useCallback } from 'react'; // v18.2.0
+
+import {
+  RecurrenceFrequency,
+  RecurrenceTrigger,
+  RecurrenceRule,
+  RecurrenceRulePayload
+} from '../../types/recurrence.types';
+
+// Weekday labels indexed like Date.getDay()
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const FREQUENCY_UNITS: Record<string, string> = {
+  [RecurrenceFrequency.DAILY]: 'day(s)',
+  [RecurrenceFrequency.WEEKLY]: 'week(s)',
+  [RecurrenceFrequency.MONTHLY]: 'month(s)'
+};
+
+/**
+ * Props interface for RecurrenceEditor component
+ */
+export interface RecurrenceEditorProps {
+  /** Current rule, null when the task does not repeat */
+  value: RecurrenceRulePayload | null;
+  /** Called with the edited rule, or null when repetition is turned off */
+  onChange: (value: RecurrenceRulePayload | null) => void;
+  /** Validation error reported for the rule */
+  error?: string;
+  disabled?: boolean;
+}
+
+/**
+ * Converts a saved rule into the payload edited by RecurrenceEditor
+ */
+export const toRecurrencePayload = (
+  rule?: RecurrenceRule | null
+): RecurrenceRulePayload | null => {
+  if (!rule || !rule.isActive) return null;
+
+  return {
+    frequency: rule.frequency,
+    interval: rule.interval,
+    byWeekday: rule.byWeekday,
+    byMonthDay: rule.byMonthDay ?? undefined,
+    rrule: rule.rrule ?? undefined,
+    businessDaysOnly: rule.businessDaysOnly,
+    generateOn: rule.generateOn,
+    endDate: rule.endDate ?? undefined,
+    count: rule.count ?? undefined
+  };
+};
+
+/**
+ * RecurrenceEditor Component - Edits how a task repeats: frequency, interval, weekdays,
+ * day of month, a custom RRULE, business-day handling and when the series ends.
+ */
+const RecurrenceEditor: React.FC<RecurrenceEditorProps> = ({
+  value,
+  onChange,
+  error,
+  disabled = false
+}) => {
+  /**
+   * Merges changed fields into the rule
+   */
+  const update = useCallback((changes: Partial<RecurrenceRulePayload>) => {
+    if (!value) return;
+    onChange({ ...value, ...changes });
+  }, [value, onChange]);
+
+  /**
+   * Switches frequency, starting a fresh rule when repetition is turned on
+   */
+  const changeFrequency = useCallback((frequency: string) => {
+    if (!frequency) {
+      onChange(null);
+      return;
+    }
+
+    onChange({
+      generateOn: RecurrenceTrigger.COMPLETION,
+      businessDaysOnly: false,
+      ...value,
+      frequency: frequency as RecurrenceFrequency,
+      interval: value?.interval ?? 1
+    });
+  }, [value, onChange]);
+
+  /**
+   * Adds or removes a weekday of a weekly rule
+   */
+  const toggleWeekday = useCallback((day: number) => {
+    const current = value?.byWeekday ?? [];
+    update({
+      byWeekday: current.includes(day)
+        ? current.filter(d => d !== day)
+        : [...current, day].sort((a, b) => a - b)
+    });
+  }, [value, update]);
+
+  /**
+   * Parses a numeric input, treating an empty field as unset
+   */
+  const toNumber = (input: string): number | undefined =>
+    input === '' ? undefined : Number(input);
+
+  const frequency = value?.frequency;
+  const isCustom = frequency === RecurrenceFrequency.CUSTOM;
+
+  return (
+    <fieldset className="recurrence-editor" disabled={disabled}>
+      <legend>Repeat</legend>
+
+      <label>
+        Frequency
+        <select
+          value={frequency ?? ''}
+          onChange={(e) => changeFrequency(e.target.value)}
+          data-testid="recurrence-frequency-select"
+        >
+          <option value="">Does not repeat</option>
+          <option value={RecurrenceFrequency.DAILY}>Daily</option>
+          <option value={RecurrenceFrequency.WEEKLY}>Weekly</option>
+          <option value={RecurrenceFrequency.MONTHLY}>Monthly</option>
+          <option value={RecurrenceFrequency.CUSTOM}>Custom (RRULE)</option>
+        </select>
+      </label>
+
+      {value && !isCustom && (
+        <label>
+          Every
+          <input
+            type="number"
+            min={1}
+            max={365}
+            value={value.interval ?? 1}
+            onChange={(e) => update({ interval: toNumber(e.target.value) })}
+            aria-label="Repeat interval"
+          />
+          {FREQUENCY_UNITS[value.frequency]}
+        </label>
+      )}
+
+      {frequency === RecurrenceFrequency.WEEKLY && (
+        <div className="recurrence-weekdays" role="group" aria-label="Repeat on">
+          {WEEKDAYS.map((label, day) => (
+            <label key={label}>
+              <input
+                type="checkbox"
+                checked={value?.byWeekday?.includes(day) ?? false}
+                onChange={() => toggleWeekday(day)}
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+      )}
+
+      {frequency === RecurrenceFrequency.MONTHLY && (
+        <label>
+          On day
+          <input
+            type="number"
+            min={1}
+            max={31}
+            value={value?.byMonthDay ?? ''}
+            onChange={(e) => update({ byMonthDay: toNumber(e.target.value) })}
+            placeholder="Same as due date"
+            aria-label="Day of month"
+          />
+        </label>
+      )}
+
+      {isCustom && (
+        <label>
+          RRULE
+          <input
+            type="text"
+            value={value?.rrule ?? ''}
+            onChange={(e) => update({ rrule: e.target.value })}
+            placeholder="FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH"
+            maxLength={500}
+            aria-label="Recurrence rule"
+          />
+        </label>
+      )}
+
+      {value && (
+        <>
+          <label>
+            <input
+              type="checkbox"
+              checked={!!value.businessDaysOnly}
+              onChange={(e) => update({ businessDaysOnly: e.target.checked })}
+            />
+            Business days only
+          </label>
+
+          <label>
+            Create next occurrence
+            <select
+              value={value.generateOn ?? RecurrenceTrigger.COMPLETION}
+              onChange={(e) => update({ generateOn: e.target.value as RecurrenceTrigger })}
+            >
+              <option value={RecurrenceTrigger.COMPLETION}>When this one is done</option>
+              <option value={RecurrenceTrigger.SCHEDULE}>On schedule</option>
+            </select>
+          </label>
+
+          <label>
+            Ends on
+            <input
+              type="date"
+              value={value.endDate ? new Date(value.endDate).toISOString().slice(0, 10) : ''}
+              onChange={(e) => update({
+                endDate: e.target.value ? new Date(e.target.value) : undefined
+              })}
+              aria-label="End date"
+            />
+          </label>
+
+          <label>
+            After
+            <input
+              type="number"
+              min={1}
+              value={value.count ?? ''}
+              onChange={(e) => update({ count: toNumber(e.target.value) })}
+              aria-label="Number of occurrences"
+            />
+            occurrence(s)
+          </label>
+        </>
+      )}
+
+      {error && (
+        <div role="alert" className="recurrence-editor-error">
+          {error}
+        </div>
+      )}
+    </fieldset>
+  );
+};
+
+export default RecurrenceEditor;
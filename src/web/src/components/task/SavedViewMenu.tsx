@@ -0,0 +1,262 @@
+/**
+ * @fileoverview Saved view menu of the task page: opens views, saves the current list or
+ * board configuration as a view, and pins views to the sidebar.
+ * @version 1.0.0
+ */
+
+import React, { useState, useEffect, useCallback } from 'react'; // v18.2.0
+import {
+  Button,
+  Menu,
+  MenuItem,
+  ListItemIcon,
+  ListItemText,
+  Divider,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  FormControlLabel,
+  Checkbox,
+  Alert
+} from '@mui/material'; // v5.14.0
+import {
+  Bookmarks as ViewsIcon,
+  PushPin as PinIcon,
+  PushPinOutlined as UnpinnedIcon,
+  Save as SaveIcon,
+  Delete as DeleteIcon
+} from '@mui/icons-material'; // v5.14.0
+
+import { savedViewApi } from '../../api/savedView.api';
+import { SavedView, SavedViewState, SavedViewVisibility } from '../../types/savedView.types';
+
+/**
+ * Props interface for SavedViewMenu component
+ */
+export interface SavedViewMenuProps {
+  /** Current list or board configuration */
+  state: SavedViewState;
+  /** View the current configuration was opened from, if any */
+  activeViewId: string | null;
+  /** ID of the current user, who may change their own views */
+  currentUserId: string;
+  /** Opens a view */
+  onOpen: (view: SavedView) => void;
+}
+
+/**
+ * Menu of the views of the current project, or of the user's own views when the page
+ * shows every project
+ */
+const SavedViewMenu: React.FC<SavedViewMenuProps> = ({
+  state,
+  activeViewId,
+  currentUserId,
+  onOpen
+}) => {
+  const [anchor, setAnchor] = useState<HTMLElement | null>(null);
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [shared, setShared] = useState(false);
+  const [pinned, setPinned] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const activeView = views.find(view => view.id === activeViewId) || null;
+  const canUpdate = !!activeView && activeView.ownerId === currentUserId;
+
+  /**
+   * Loads the views the menu lists
+   */
+  const loadViews = useCallback(async () => {
+    try {
+      const response = await savedViewApi.getViews(state.projectId ?? undefined);
+      setViews(response.data);
+    } catch (err) {
+      setError(`Failed to load views: ${err.message}`);
+    }
+  }, [state.projectId]);
+
+  useEffect(() => {
+    loadViews();
+  }, [loadViews]);
+
+  /**
+   * Saves the current configuration as a new view
+   */
+  const handleCreate = async () => {
+    try {
+      setError(null);
+      const { projectId, ...configuration } = state;
+      const response = await savedViewApi.createView({
+        ...configuration,
+        name: name.trim(),
+        ...(projectId && { projectId }),
+        visibility: shared ? SavedViewVisibility.PROJECT : SavedViewVisibility.PRIVATE
+      });
+      const view = pinned ? (await savedViewApi.setPinned(response.data.id, true)).data : response.data;
+
+      setDialogOpen(false);
+      setName('');
+      await loadViews();
+      onOpen(view);
+    } catch (err) {
+      setError(`Failed to save view: ${err.message}`);
+    }
+  };
+
+  /**
+   * Stores the current configuration in the view it was opened from
+   */
+  const handleUpdate = async () => {
+    if (!activeView) return;
+
+    try {
+      setError(null);
+      const { projectId, ...configuration } = state;
+      await savedViewApi.updateView(activeView.id, configuration);
+      setAnchor(null);
+      await loadViews();
+    } catch (err) {
+      setError(`Failed to update view: ${err.message}`);
+    }
+  };
+
+  /**
+   * Pins or unpins a view
+   */
+  const handleTogglePin = async (view: SavedView) => {
+    try {
+      setError(null);
+      await savedViewApi.setPinned(view.id, !view.pinned);
+      await loadViews();
+    } catch (err) {
+      setError(`Failed to pin view: ${err.message}`);
+    }
+  };
+
+  /**
+   * Removes the view the configuration was opened from
+   */
+  const handleDelete = async () => {
+    if (!activeView || !window.confirm(`Delete the view "${activeView.name}"?`)) return;
+
+    try {
+      setError(null);
+      await savedViewApi.deleteView(activeView.id);
+      setAnchor(null);
+      await loadViews();
+    } catch (err) {
+      setError(`Failed to delete view: ${err.message}`);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        startIcon={<ViewsIcon />}
+        onClick={event => setAnchor(event.currentTarget)}
+        aria-haspopup="menu"
+      >
+        {activeView?.name || 'Views'}
+      </Button>
+
+      <Menu anchorEl={anchor} open={!!anchor} onClose={() => setAnchor(null)}>
+        {views.length === 0 && (
+          <MenuItem disabled>No saved views</MenuItem>
+        )}
+        {views.map(view => (
+          <MenuItem
+            key={view.id}
+            selected={view.id === activeViewId}
+            onClick={() => {
+              setAnchor(null);
+              onOpen(view);
+            }}
+          >
+            <ListItemText
+              primary={view.name}
+              secondary={view.visibility === SavedViewVisibility.PROJECT ? 'Shared' : undefined}
+            />
+            <ListItemIcon
+              onClick={event => {
+                event.stopPropagation();
+                handleTogglePin(view);
+              }}
+              aria-label={view.pinned ? 'Unpin from sidebar' : 'Pin to sidebar'}
+            >
+              {view.pinned ? <PinIcon fontSize="small" /> : <UnpinnedIcon fontSize="small" />}
+            </ListItemIcon>
+          </MenuItem>
+        ))}
+        <Divider />
+        <MenuItem
+          onClick={() => {
+            setAnchor(null);
+            setDialogOpen(true);
+          }}
+        >
+          <ListItemIcon><SaveIcon fontSize="small" /></ListItemIcon>
+          <ListItemText primary="Save as new view" />
+        </MenuItem>
+        {canUpdate && (
+          <MenuItem onClick={handleUpdate}>
+            <ListItemIcon><SaveIcon fontSize="small" /></ListItemIcon>
+            <ListItemText primary={`Update "${activeView.name}"`} />
+          </MenuItem>
+        )}
+        {canUpdate && (
+          <MenuItem onClick={handleDelete}>
+            <ListItemIcon><DeleteIcon fontSize="small" /></ListItemIcon>
+            <ListItemText primary={`Delete "${activeView.name}"`} />
+          </MenuItem>
+        )}
+      </Menu>
+
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} fullWidth maxWidth="xs">
+        <DialogTitle>Save view</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            fullWidth
+            margin="dense"
+            label="Name"
+            value={name}
+            onChange={event => setName(event.target.value)}
+            inputProps={{ maxLength: 100 }}
+          />
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={shared}
+                onChange={event => setShared(event.target.checked)}
+                disabled={!state.projectId}
+              />
+            }
+            label="Share with the project"
+          />
+          <FormControlLabel
+            control={<Checkbox checked={pinned} onChange={event => setPinned(event.target.checked)} />}
+            label="Pin to the sidebar"
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)}>Cancel</Button>
+          <Button variant="contained" onClick={handleCreate} disabled={!name.trim()}>
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {error && (
+        <Alert severity="error" onClose={() => setError(null)} sx={{ ml: 1 }}>
+          {error}
+        </Alert>
+      )}
+    </>
+  );
+};
+
+export default SavedViewMenu;
@@ -0,0 +1,161 @@
+import React, { useState, useEffect, useCallback } from 'react'; // v18.2.0
+import { formatDistance } from 'date-fns'; // v2.30.0
+
+import { Attachment } from '../../types/attachment.types';
+import { attachmentApi } from '../../api/attachment.api';
+import { FileUpload } from '../common/FileUpload';
+
+// Mirrors the server-side upload limits; the size cap covers the whole request
+const MAX_UPLOAD_SIZE = 25 * 1024 * 1024; // 25MB
+const MAX_FILES = 10;
+
+/**
+ * Props interface for TaskAttachments component
+ */
+export interface TaskAttachmentsProps {
+  taskId: string;
+  currentUserId?: string;
+  /** Whether the current user may delete attachments uploaded by others */
+  canManage?: boolean;
+}
+
+/**
+ * Formats a byte count for display
+ */
+const formatSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+/**
+ * TaskAttachments Component - Lists task files with download links and
+ * uploads new files, reporting failures per file.
+ */
+const TaskAttachments: React.FC<TaskAttachmentsProps> = ({
+  taskId,
+  currentUserId,
+  canManage = false
+}) => {
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Loads the task's attachments
+   */
+  const loadAttachments = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const response = await attachmentApi.getAttachments(taskId);
+      setAttachments(response.data);
+    } catch (err) {
+      setError(`Failed to load attachments: ${err.message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [taskId]);
+
+  useEffect(() => {
+    loadAttachments();
+  }, [loadAttachments]);
+
+  /**
+   * Uploads files and merges the stored ones into the list
+   */
+  const uploadFiles = useCallback(async (
+    files: File[],
+    onProgress: (percentage: number) => void,
+    signal: AbortSignal
+  ) => {
+    const result = await attachmentApi.uploadAttachments(taskId, files, onProgress, signal);
+    if (result.successful.length) {
+      setAttachments(prev => [...result.successful, ...prev]);
+    }
+    return result;
+  }, [taskId]);
+
+  /**
+   * Downloads an attachment and hands it to the browser under its original name
+   */
+  const downloadAttachment = useCallback(async (attachment: Attachment) => {
+    try {
+      const content = await attachmentApi.downloadAttachment(taskId, attachment.id);
+      const url = URL.createObjectURL(content);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = attachment.fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(`Failed to download attachment: ${err.message}`);
+    }
+  }, [taskId]);
+
+  /**
+   * Deletes an attachment
+   */
+  const removeAttachment = useCallback(async (attachmentId: string) => {
+    try {
+      await attachmentApi.deleteAttachment(taskId, attachmentId);
+      setAttachments(prev => prev.filter(a => a.id !== attachmentId));
+    } catch (err) {
+      setError(`Failed to delete attachment: ${err.message}`);
+    }
+  }, [taskId]);
+
+  return (
+    <section className="task-attachments" aria-label="Task Attachments">
+      <h2>Attachments</h2>
+
+      {error && (
+        <div role="alert" className="task-attachments-error">
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div aria-busy="true">Loading attachments...</div>
+      ) : (
+        <ul className="attachment-list">
+          {attachments.map(attachment => (
+            <li key={attachment.id} className="attachment">
+              <button
+                className="attachment-name"
+                onClick={() => downloadAttachment(attachment)}
+                aria-label={`Download ${attachment.fileName}`}
+              >
+                {attachment.fileName}
+              </button>
+              <span className="attachment-meta">
+                {formatSize(attachment.fileSize)} ·{' '}
+                {formatDistance(new Date(attachment.createdAt), new Date(), { addSuffix: true })}
+              </span>
+              {(canManage || attachment.uploadedBy === currentUserId) && (
+                <button
+                  onClick={() => removeAttachment(attachment.id)}
+                  aria-label={`Delete ${attachment.fileName}`}
+                >
+                  Delete
+                </button>
+              )}
+            </li>
+          ))}
+          {attachments.length === 0 && <li className="attachment-empty">No attachments yet</li>}
+        </ul>
+      )}
+
+      <FileUpload
+        multiple
+        maxFileSize={MAX_UPLOAD_SIZE}
+        maxTotalSize={MAX_UPLOAD_SIZE}
+        config={{ maxFiles: MAX_FILES }}
+        uploadFiles={uploadFiles}
+        label="Drop files here or click to attach"
+      />
+    </section>
+  );
+};
+
+export default TaskAttachments;
@@ -7,16 +7,28 @@ import classNames from 'classnames'; // v2.3.2
 import TaskCard from './TaskCard';
 import { useWebSocket } from '../../hooks/useWebSocket';
 import { Task, TaskStatus } from '../../types/task.types';
+import { Workflow, WipLimitMode } from '../../types/workflow.types';
 import { useTheme } from '../../hooks/useTheme';
 
 import styles from './TaskBoard.module.css';
 
+/**
+ * Task attribute the board groups into horizontal swimlanes
+ */
+export type SwimlaneGrouping = 'none' | 'assignee' | 'priority' | 'project';
+
 /**
  * Interface for TaskBoard component props with enhanced features
  */
-interface TaskBoardProps {
+export interface TaskBoardProps {
   tasks: Task[];
-  onTaskUpdate: (taskId: string, status: TaskStatus, optimisticUpdate: boolean) => Promise<void>;
+  /** Project workflow; columns fall back to the default states when omitted */
+  workflow?: Workflow;
+  /** Swimlane grouping; a single lane when omitted */
+  swimlaneBy?: SwimlaneGrouping;
+  /** Display names of assignee and project lanes, keyed by ID */
+  laneLabels?: Record<string, string>;
+  onTaskUpdate: (taskId: string, status: string, optimisticUpdate: boolean) => Promise<void>;
   onError: (error: Error) => void;
   isLoading?: boolean;
   virtualizeThreshold?: number;
@@ -24,20 +36,87 @@ interface TaskBoardProps {
 }
 
 /**
- * Status column configuration with accessibility labels
+ * Board column with its work-in-progress limit
+ */
+interface BoardColumn {
+  id: string;
+  label: string;
+  wipLimit?: number | null;
+  wipLimitMode?: WipLimitMode;
+}
+
+/**
+ * Swimlane with the tasks it holds
+ */
+interface Swimlane {
+  key: string;
+  label: string;
+  tasks: Task[];
+}
+
+/**
+ * Default status column configuration with accessibility labels
  */
-const BOARD_COLUMNS: { id: TaskStatus; label: string }[] = [
+const BOARD_COLUMNS: BoardColumn[] = [
   { id: TaskStatus.TODO, label: 'To Do' },
+  { id: TaskStatus.BLOCKED, label: 'Blocked' },
   { id: TaskStatus.IN_PROGRESS, label: 'In Progress' },
   { id: TaskStatus.REVIEW, label: 'Review' },
   { id: TaskStatus.DONE, label: 'Done' }
 ];
 
 /**
- * Enhanced TaskBoard component with virtualization and real-time updates
+ * Key of the single lane shown without swimlanes
+ */
+const ALL_TASKS_LANE = 'all';
+
+/**
+ * Separates the lane key from the column ID in droppable IDs
+ */
+const DROPPABLE_SEPARATOR = '::';
+
+/**
+ * Returns the lane key of a task for the given grouping
+ */
+export const getLaneKey = (task: Task, swimlaneBy: SwimlaneGrouping): string => {
+  switch (swimlaneBy) {
+    case 'assignee':
+      return task.assigneeId || '';
+    case 'priority':
+      return task.priority;
+    case 'project':
+      return task.projectId;
+    default:
+      return ALL_TASKS_LANE;
+  }
+};
+
+/**
+ * Extracts the column (workflow state key) from a droppable ID
+ */
+const getColumnId = (droppableId: string): string =>
+  droppableId.split(DROPPABLE_SEPARATOR)[1];
+
+/**
+ * Whether a column holds more tasks than its limit allows
+ */
+const isOverLimit = (column: BoardColumn, count: number): boolean =>
+  column.wipLimit != null && count > column.wipLimit;
+
+/**
+ * Whether a column is at a hard limit and rejects further tasks
+ */
+const isAtHardLimit = (column: BoardColumn, count: number): boolean =>
+  column.wipLimit != null && column.wipLimitMode === WipLimitMode.HARD && count >= column.wipLimit;
+
+/**
+ * Enhanced TaskBoard component with virtualization, WIP limits, swimlanes and real-time updates
  */
 const TaskBoard: React.FC<TaskBoardProps> = ({
   tasks,
+  workflow,
+  swimlaneBy = 'none',
+  laneLabels = {},
   onTaskUpdate,
   onError,
   isLoading = false,
@@ -52,27 +131,34 @@ const TaskBoard: React.FC<TaskBoardProps> = ({
   const [optimisticTasks, setOptimisticTasks] = useState<Task[]>(tasks);
   const previousTasksRef = useRef<Task[]>(tasks);
 
+  /**
+   * One column per workflow state, in workflow order
+   */
+  const columns = useMemo<BoardColumn[]>(() => (
+    workflow
+      ? workflow.states.map(state => ({
+        id: state.key,
+        label: state.name,
+        wipLimit: state.wipLimit,
+        wipLimitMode: state.wipLimitMode
+      }))
+      : BOARD_COLUMNS
+  ), [workflow]);
+
   // Column refs for virtualization
-  const columnRefs = useRef<Record<TaskStatus, HTMLDivElement | null>>({
-    [TaskStatus.TODO]: null,
-    [TaskStatus.IN_PROGRESS]: null,
-    [TaskStatus.REVIEW]: null,
-    [TaskStatus.DONE]: null
-  });
+  const columnRefs = useRef<Record<string, HTMLDivElement | null>>({});
 
   /**
    * Memoized task grouping by status with optimistic updates
    */
   const groupedTasks = useMemo(() => {
-    const groups: Record<TaskStatus, Task[]> = {
-      [TaskStatus.TODO]: [],
-      [TaskStatus.IN_PROGRESS]: [],
-      [TaskStatus.REVIEW]: [],
-      [TaskStatus.DONE]: []
-    };
+    const groups: Record<string, Task[]> = Object.fromEntries(
+      columns.map(({ id }) => [id, [] as Task[]])
+    );
 
+    // Tasks in a state the board has no column for are left out
     optimisticTasks.forEach(task => {
-      groups[task.status].push(task);
+      groups[task.status]?.push(task);
     });
 
     // Sort tasks by priority and due date
@@ -86,24 +172,53 @@ const TaskBoard: React.FC<TaskBoardProps> = ({
     });
 
     return groups;
-  }, [optimisticTasks]);
+  }, [optimisticTasks, columns]);
 
   /**
-   * Virtual lists for each column when task count exceeds threshold
+   * Swimlanes in order of their labels; a single lane holds every task without grouping
+   */
+  const swimlanes = useMemo<Swimlane[]>(() => {
+    if (swimlaneBy === 'none') {
+      return [{ key: ALL_TASKS_LANE, label: '', tasks: optimisticTasks }];
+    }
+
+    const lanes = new Map<string, Swimlane>();
+    optimisticTasks.forEach(task => {
+      const key = getLaneKey(task, swimlaneBy);
+      if (!lanes.has(key)) {
+        lanes.set(key, {
+          key,
+          label: laneLabels[key] || key || 'Unassigned',
+          tasks: []
+        });
+      }
+      lanes.get(key)!.tasks.push(task);
+    });
+
+    return Array.from(lanes.values()).sort((a, b) => a.label.localeCompare(b.label));
+  }, [optimisticTasks, swimlaneBy, laneLabels]);
+
+  /**
+   * Virtual lists for each column when task count exceeds threshold; lanes split the
+   * columns into short lists, so only the single lane is virtualized
    */
   const virtualLists = useMemo(() => {
+    if (swimlaneBy !== 'none') {
+      return {} as Record<string, ReturnType<typeof useVirtual>>;
+    }
+
     return Object.entries(groupedTasks).reduce((acc, [status, tasks]) => {
       if (tasks.length > virtualizeThreshold) {
         acc[status] = useVirtual({
           size: tasks.length,
-          parentRef: { current: columnRefs.current[status as TaskStatus] },
+          parentRef: { current: columnRefs.current[status] },
           estimateSize: useCallback(() => 100, []), // Estimated task card height
           overscan: 5 // Number of items to render outside viewport
         });
       }
       return acc;
     }, {} as Record<string, ReturnType<typeof useVirtual>>);
-  }, [groupedTasks, virtualizeThreshold]);
+  }, [groupedTasks, swimlaneBy, virtualizeThreshold]);
 
   /**
    * Handle drag end with optimistic updates and error handling
@@ -111,16 +226,37 @@ const TaskBoard: React.FC<TaskBoardProps> = ({
   const handleDragEnd = useCallback(async (result: DropResult) => {
     const { destination, source, draggableId } = result;
 
-    if (!destination || destination.droppableId === source.droppableId) {
+    if (!destination) {
+      return;
+    }
+
+    // Moving a task between lanes does not change the attribute the lanes group by
+    const currentStatus = getColumnId(source.droppableId);
+    const newStatus = getColumnId(destination.droppableId);
+    if (newStatus === currentStatus) {
       return;
     }
 
-    const newStatus = destination.droppableId as TaskStatus;
     const taskId = draggableId;
 
+    // Only moves allowed by the workflow are accepted
+    if (workflow && !workflow.transitions.some(
+      transition => transition.from === currentStatus && transition.to === newStatus
+    )) {
+      onError(new Error(`Tasks cannot move from ${currentStatus} to ${newStatus}`));
+      return;
+    }
+
+    // The server rejects moves into a column at its hard limit
+    const column = columns.find(({ id }) => id === newStatus);
+    if (column && isAtHardLimit(column, groupedTasks[newStatus].length)) {
+      onError(new Error(`${column.label} is at its WIP limit of ${column.wipLimit}`));
+      return;
+    }
+
     // Apply optimistic update
-    setOptimisticTasks(prev => 
-      prev.map(task => 
+    setOptimisticTasks(prev =>
+      prev.map(task =>
         task.id === taskId ? { ...task, status: newStatus } : task
       )
     );
@@ -132,7 +268,7 @@ const TaskBoard: React.FC<TaskBoardProps> = ({
       setOptimisticTasks(previousTasksRef.current);
       onError(error as Error);
     }
-  }, [onTaskUpdate, onError]);
+  }, [workflow, columns, groupedTasks, onTaskUpdate, onError]);
 
   /**
    * Subscribe to real-time task updates
@@ -156,6 +292,74 @@ const TaskBoard: React.FC<TaskBoardProps> = ({
     previousTasksRef.current = tasks;
   }, [tasks]);
 
+  /**
+   * Renders a draggable task card
+   */
+  const renderTask = (task: Task, index: number, style?: React.CSSProperties) => (
+    <Draggable
+      key={task.id}
+      draggableId={task.id}
+      index={index}
+    >
+      {(dragProvided, dragSnapshot) => (
+        <div
+          ref={dragProvided.innerRef}
+          {...dragProvided.draggableProps}
+          {...dragProvided.dragHandleProps}
+          style={{ ...dragProvided.draggableProps.style, ...style }}
+        >
+          <TaskCard
+            task={task}
+            isDragging={dragSnapshot.isDragging}
+            isHighContrast={isHighContrast}
+          />
+        </div>
+      )}
+    </Draggable>
+  );
+
+  /**
+   * Renders the cell of a column within a lane
+   */
+  const renderColumn = (lane: Swimlane, { id, label }: BoardColumn) => {
+    const columnTasks = lane.key === ALL_TASKS_LANE
+      ? groupedTasks[id]
+      : groupedTasks[id].filter(task => getLaneKey(task, swimlaneBy) === lane.key);
+
+    return (
+      <Droppable key={id} droppableId={`${lane.key}${DROPPABLE_SEPARATOR}${id}`}>
+        {(provided, snapshot) => (
+          <div
+            ref={(el) => {
+              provided.innerRef(el);
+              if (lane.key === ALL_TASKS_LANE) {
+                columnRefs.current[id] = el;
+              }
+            }}
+            className={classNames(styles.column, {
+              [styles.isDraggingOver]: snapshot.isDraggingOver
+            })}
+            aria-label={lane.label ? `${label}, ${lane.label}` : label}
+          >
+            <div className={styles.taskList}>
+              {virtualLists[id] ? (
+                virtualLists[id].virtualItems.map(virtualRow =>
+                  renderTask(columnTasks[virtualRow.index], virtualRow.index, {
+                    top: virtualRow.start,
+                    height: virtualRow.size
+                  })
+                )
+              ) : (
+                columnTasks.map((task, index) => renderTask(task, index))
+              )}
+              {provided.placeholder}
+            </div>
+          </div>
+        )}
+      </Droppable>
+    );
+  };
+
   return (
     <ErrorBoundary
       fallback={<div className={styles.error}>Error loading task board</div>}
@@ -171,84 +375,48 @@ const TaskBoard: React.FC<TaskBoardProps> = ({
         aria-label="Task Board"
         aria-busy={isLoading}
       >
-        <DragDropContext onDragEnd={handleDragEnd}>
-          <div className={styles.columns}>
-            {BOARD_COLUMNS.map(({ id, label }) => (
-              <Droppable key={id} droppableId={id}>
-                {(provided, snapshot) => (
-                  <div
-                    ref={(el) => {
-                      provided.innerRef(el);
-                      columnRefs.current[id] = el;
-                    }}
-                    className={classNames(styles.column, {
-                      [styles.isDraggingOver]: snapshot.isDraggingOver
-                    })}
-                    aria-label={label}
-                  >
-                    <h2 className={styles.columnHeader}>{label}</h2>
-                    <div className={styles.taskList}>
-                      {virtualLists[id] ? (
-                        virtualLists[id].virtualItems.map(virtualRow => (
-                          <Draggable
-                            key={groupedTasks[id][virtualRow.index].id}
-                            draggableId={groupedTasks[id][virtualRow.index].id}
-                            index={virtualRow.index}
-                          >
-                            {(dragProvided, dragSnapshot) => (
-                              <div
-                                ref={dragProvided.innerRef}
-                                style={{
-                                  ...dragProvided.draggableProps.style,
-                                  top: virtualRow.start,
-                                  height: virtualRow.size
-                                }}
-                                {...dragProvided.draggableProps}
-                                {...dragProvided.dragHandleProps}
-                              >
-                                <TaskCard
-                                  task={groupedTasks[id][virtualRow.index]}
-                                  isDragging={dragSnapshot.isDragging}
-                                  isHighContrast={isHighContrast}
-                                />
-                              </div>
-                            )}
-                          </Draggable>
-                        ))
-                      ) : (
-                        groupedTasks[id].map((task, index) => (
-                          <Draggable
-                            key={task.id}
-                            draggableId={task.id}
-                            index={index}
-                          >
-                            {(dragProvided, dragSnapshot) => (
-                              <div
-                                ref={dragProvided.innerRef}
-                                {...dragProvided.draggableProps}
-                                {...dragProvided.dragHandleProps}
-                              >
-                                <TaskCard
-                                  task={task}
-                                  isDragging={dragSnapshot.isDragging}
-                                  isHighContrast={isHighContrast}
-                                />
-                              </div>
-                            )}
-                          </Draggable>
-                        ))
-                      )}
-                      {provided.placeholder}
-                    </div>
-                  </div>
+        <div className={styles.columnHeaders}>
+          {columns.map(column => {
+            const count = groupedTasks[column.id].length;
+            const overLimit = isOverLimit(column, count);
+
+            return (
+              <div
+                key={column.id}
+                className={classNames(styles.columnHeader, {
+                  [styles.overLimit]: overLimit
+                })}
+              >
+                <h2>{column.label}</h2>
+                <span className={styles.wipCount}>
+                  {column.wipLimit != null ? `${count} / ${column.wipLimit}` : count}
+                </span>
+                {overLimit && (
+                  <span className={styles.wipWarning} role="alert">
+                    Over WIP limit
+                  </span>
                 )}
-              </Droppable>
-            ))}
-          </div>
+              </div>
+            );
+          })}
+        </div>
+        <DragDropContext onDragEnd={handleDragEnd}>
+          {swimlanes.map(lane => (
+            <div key={lane.key} className={styles.swimlane}>
+              {lane.label && (
+                <h3 className={styles.swimlaneHeader}>
+                  {lane.label} ({lane.tasks.length})
+                </h3>
+              )}
+              <div className={styles.columns}>
+                {columns.map(column => renderColumn(lane, column))}
+              </div>
+            </div>
+          ))}
         </DragDropContext>
       </div>
     </ErrorBoundary>
   );
 };
 
-export default TaskBoard;
\ No newline at end of file
+export default TaskBoard;
@@ -0,0 +1,176 @@
+/**
+ * @fileoverview Bulk action bar of the task page: applies one change to the selected
+ * tasks and reports what happened to each of them.
+ * @version 1.0.0
+ */
+
+import React, { useState } from 'react'; // v18.2.0
+import {
+  Box,
+  Button,
+  FormControl,
+  FormControlLabel,
+  Checkbox,
+  InputLabel,
+  Select,
+  MenuItem,
+  TextField,
+  Typography,
+  CircularProgress
+} from '@mui/material'; // v5.14.0
+
+import { taskApi } from '../../api/task.api';
+import {
+  Task,
+  TaskStatus,
+  TaskPriority,
+  BulkTaskPatch,
+  BulkUpdateResult
+} from '../../types/task.types';
+
+/**
+ * Props interface for TaskBulkActions component
+ */
+export interface TaskBulkActionsProps {
+  /** Selected tasks, with the versions the user saw */
+  tasks: Task[];
+  /** Workflow state keys offered as status */
+  statuses?: string[];
+  /** Called with the result per task once the change was applied */
+  onApplied: (result: BulkUpdateResult) => void;
+  /** Clears the selection */
+  onClear: () => void;
+  /** Called when the change could not be sent at all */
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Toolbar with the fields a bulk change may set. Fields left empty stay unchanged;
+ * each task is checked against its version, so tasks changed meanwhile are reported
+ * as conflicts instead of being overwritten.
+ */
+export const TaskBulkActions: React.FC<TaskBulkActionsProps> = ({
+  tasks,
+  statuses = Object.values(TaskStatus),
+  onApplied,
+  onClear,
+  onError
+}) => {
+  const [status, setStatus] = useState('');
+  const [priority, setPriority] = useState<TaskPriority | ''>('');
+  const [assigneeId, setAssigneeId] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [clearDueDate, setClearDueDate] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const patch: BulkTaskPatch = {
+    ...(status && { status }),
+    ...(priority && { priority }),
+    ...(assigneeId.trim() && { assigneeId: assigneeId.trim() as Task['assigneeId'] }),
+    ...(clearDueDate ? { dueDate: null } : dueDate && { dueDate: new Date(dueDate).toISOString() })
+  };
+  const hasChanges = Object.keys(patch).length > 0;
+
+  /**
+   * Sends the change for all selected tasks
+   */
+  const handleApply = async () => {
+    setIsApplying(true);
+    try {
+      const response = await taskApi.bulkUpdateTasks({
+        items: tasks.map(task => ({ id: task.id, version: task.version ?? 1 })),
+        patch
+      });
+      onApplied(response.data);
+    } catch (error) {
+      onError?.(error as Error);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <Box
+      role="toolbar"
+      aria-label="Bulk actions"
+      sx={{
+        display: 'flex',
+        flexWrap: 'wrap',
+        alignItems: 'center',
+        gap: 2,
+        px: 2,
+        py: 1,
+        bgcolor: 'action.selected'
+      }}
+    >
+      <Typography variant="subtitle2">{tasks.length} selected</Typography>
+
+      <FormControl size="small" sx={{ minWidth: 130 }}>
+        <InputLabel>Set status</InputLabel>
+        <Select value={status} onChange={e => setStatus(e.target.value)} label="Set status">
+          <MenuItem value="">Unchanged</MenuItem>
+          {statuses.map(key => (
+            <MenuItem key={key} value={key}>
+              {key.replace('_', ' ')}
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+
+      <FormControl size="small" sx={{ minWidth: 130 }}>
+        <InputLabel>Set priority</InputLabel>
+        <Select
+          value={priority}
+          onChange={e => setPriority(e.target.value as TaskPriority | '')}
+          label="Set priority"
+        >
+          <MenuItem value="">Unchanged</MenuItem>
+          {Object.values(TaskPriority).map(key => (
+            <MenuItem key={key} value={key}>
+              {key}
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+
+      <TextField
+        size="small"
+        label="Assignee ID"
+        value={assigneeId}
+        onChange={e => setAssigneeId(e.target.value)}
+        sx={{ minWidth: 160 }}
+      />
+
+      <TextField
+        size="small"
+        type="date"
+        label="Due date"
+        value={dueDate}
+        onChange={e => setDueDate(e.target.value)}
+        disabled={clearDueDate}
+        InputLabelProps={{ shrink: true }}
+      />
+
+      <FormControlLabel
+        control={<Checkbox size="small" checked={clearDueDate} onChange={e => setClearDueDate(e.target.checked)} />}
+        label="Clear due date"
+      />
+
+      <Box sx={{ flexGrow: 1 }} />
+
+      <Button onClick={onClear} disabled={isApplying}>
+        Clear selection
+      </Button>
+      <Button
+        variant="contained"
+        onClick={handleApply}
+        disabled={!hasChanges || isApplying}
+        startIcon={isApplying ? <CircularProgress size={16} color="inherit" /> : undefined}
+      >
+        Apply to {tasks.length}
+      </Button>
+    </Box>
+  );
+};
+
+export default TaskBulkActions;
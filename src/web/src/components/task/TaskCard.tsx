@@ -4,7 +4,9 @@ import classNames from 'classnames'; // v2.3.2
 import { useDraggable } from '@dnd-kit/core'; // v6.0.0
 
 import { Task, TaskStatus, TaskPriority } from '../../types/task.types';
+import { WorkflowCategory } from '../../types/workflow.types';
 import { useTheme } from '../../hooks/useTheme';
+import { ProgressBar } from '../common/ProgressBar';
 
 import styles from './TaskCard.module.css';
 
@@ -13,7 +15,7 @@ import styles from './TaskCard.module.css';
  */
 interface TaskCardProps {
   task: Task;
-  onStatusChange: (taskId: string, status: TaskStatus) => Promise<void>;
+  onStatusChange: (taskId: string, status: string) => Promise<void>;
   onEdit: (taskId: string) => void;
   onDelete: (taskId: string) => Promise<void>;
   className?: string;
@@ -22,16 +24,27 @@ interface TaskCardProps {
 }
 
 /**
- * Maps task status to theme-aware badge variant
+ * Maps task status to theme-aware badge variant; custom workflow states
+ * use the variant of their category
  */
-const getStatusVariant = (status: TaskStatus, isHighContrast: boolean): string => {
-  const variants = {
+const getStatusVariant = (
+  status: string,
+  category: WorkflowCategory | undefined,
+  isHighContrast: boolean
+): string => {
+  const variants: Record<string, string> = {
     [TaskStatus.TODO]: isHighContrast ? 'neutral-high' : 'neutral',
     [TaskStatus.IN_PROGRESS]: isHighContrast ? 'primary-high' : 'primary',
     [TaskStatus.REVIEW]: isHighContrast ? 'warning-high' : 'warning',
-    [TaskStatus.DONE]: isHighContrast ? 'success-high' : 'success'
+    [TaskStatus.DONE]: isHighContrast ? 'success-high' : 'success',
+    [TaskStatus.BLOCKED]: isHighContrast ? 'error-high' : 'error'
+  };
+  const categoryVariants: Record<WorkflowCategory, string> = {
+    [WorkflowCategory.TODO]: variants[TaskStatus.TODO],
+    [WorkflowCategory.DOING]: variants[TaskStatus.IN_PROGRESS],
+    [WorkflowCategory.DONE]: variants[TaskStatus.DONE]
   };
-  return variants[status];
+  return variants[status] ?? categoryVariants[category ?? WorkflowCategory.TODO];
 };
 
 /**
@@ -81,12 +94,19 @@ const TaskCard: React.FC<TaskCardProps> = memo(({
   }, [task.id, onDelete]);
 
   const handleStatusChange = useCallback(async () => {
-    const nextStatus = {
+    const nextStatus = ({
       [TaskStatus.TODO]: TaskStatus.IN_PROGRESS,
       [TaskStatus.IN_PROGRESS]: TaskStatus.REVIEW,
       [TaskStatus.REVIEW]: TaskStatus.DONE,
-      [TaskStatus.DONE]: TaskStatus.TODO
-    }[task.status];
+      [TaskStatus.DONE]: TaskStatus.TODO,
+      // The server refuses this while a blocker is still open
+      [TaskStatus.BLOCKED]: TaskStatus.IN_PROGRESS
+    } as Record<string, string>)[task.status];
+
+    // Custom workflow states have no implied next state; they are moved on the board
+    if (!nextStatus) {
+      return;
+    }
 
     try {
       await onStatusChange(task.id, nextStatus);
@@ -120,7 +140,7 @@ const TaskCard: React.FC<TaskCardProps> = memo(({
         <span 
           className={classNames(
             styles.badge,
-            styles[getStatusVariant(task.status, isHighContrast)]
+            styles[getStatusVariant(task.status, task.statusCategory, isHighContrast)]
           )}
           role="status"
         >
@@ -144,6 +164,17 @@ const TaskCard: React.FC<TaskCardProps> = memo(({
         <p className={styles.description}>{task.description}</p>
       </div>
 
+      {/* Subtask and checklist progress */}
+      {task.progress && task.progress.total > 0 && (
+        <ProgressBar
+          value={task.progress.percentage}
+          size="small"
+          variant={task.progress.percentage === 100 ? 'success' : 'primary'}
+          ariaLabel={`Progress: ${task.progress.percentage}%`}
+          className={styles.progress}
+        />
+      )}
+
       {/* Task Metadata */}
       <div className={styles.metadata}>
         <time 
@@ -0,0 +1,165 @@
+import React, { useState, useEffect, useCallback } from 'react'; // v18.2.0
+
+import { ChecklistItem } from '../../types/checklist.types';
+import { checklistApi } from '../../api/checklist.api';
+
+/**
+ * Props interface for TaskChecklist component
+ */
+export interface TaskChecklistProps {
+  taskId: string;
+  /** Whether the current user may add, check off and remove items */
+  canEdit?: boolean;
+  /** Called after items change so the parent can refresh the task progress */
+  onChange?: () => void;
+}
+
+/**
+ * TaskChecklist Component - Lists the to-do items of a task and lets editors
+ * check them off, add new ones and remove them.
+ */
+const TaskChecklist: React.FC<TaskChecklistProps> = ({
+  taskId,
+  canEdit = false,
+  onChange
+}) => {
+  const [items, setItems] = useState<ChecklistItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [newTitle, setNewTitle] = useState('');
+
+  /**
+   * Loads the checklist items
+   */
+  const loadItems = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const response = await checklistApi.getChecklist(taskId);
+      setItems(response.data);
+    } catch (err) {
+      setError(`Failed to load checklist: ${err.message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [taskId]);
+
+  useEffect(() => {
+    loadItems();
+  }, [loadItems]);
+
+  /**
+   * Appends a new item to the checklist
+   */
+  const addItem = useCallback(async (event: React.FormEvent) => {
+    event.preventDefault();
+    const title = newTitle.trim();
+    if (!title) return;
+
+    try {
+      setError(null);
+      await checklistApi.addItem(taskId, { title });
+      setNewTitle('');
+      await loadItems();
+      onChange?.();
+    } catch (err) {
+      setError(`Failed to add item: ${err.message}`);
+    }
+  }, [taskId, newTitle, loadItems, onChange]);
+
+  /**
+   * Checks an item off or unchecks it
+   */
+  const toggleItem = useCallback(async (item: ChecklistItem) => {
+    try {
+      setError(null);
+      await checklistApi.updateItem(taskId, item.id, { isCompleted: !item.isCompleted });
+      await loadItems();
+      onChange?.();
+    } catch (err) {
+      setError(`Failed to update item: ${err.message}`);
+    }
+  }, [taskId, loadItems, onChange]);
+
+  /**
+   * Removes an item
+   */
+  const removeItem = useCallback(async (itemId: string) => {
+    try {
+      await checklistApi.removeItem(taskId, itemId);
+      await loadItems();
+      onChange?.();
+    } catch (err) {
+      setError(`Failed to remove item: ${err.message}`);
+    }
+  }, [taskId, loadItems, onChange]);
+
+  const completedCount = items.filter(item => item.isCompleted).length;
+
+  return (
+    <section className="task-checklist" aria-label="Task Checklist">
+      <h2>
+        Checklist
+        {items.length > 0 && (
+          <span className="checklist-count"> ({completedCount}/{items.length})</span>
+        )}
+      </h2>
+
+      {error && (
+        <div role="alert" className="task-checklist-error">
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div aria-busy="true">Loading checklist...</div>
+      ) : (
+        <ul className="checklist">
+          {items.map(item => (
+            <li
+              key={item.id}
+              className={`checklist-item ${item.isCompleted ? 'checklist-item-done' : ''}`}
+            >
+              <label>
+                <input
+                  type="checkbox"
+                  checked={item.isCompleted}
+                  disabled={!canEdit}
+                  onChange={() => toggleItem(item)}
+                />
+                {item.title}
+              </label>
+              {canEdit && (
+                <button
+                  onClick={() => removeItem(item.id)}
+                  aria-label={`Remove checklist item ${item.title}`}
+                >
+                  Remove
+                </button>
+              )}
+            </li>
+          ))}
+          {items.length === 0 && <li className="checklist-empty">No checklist items</li>}
+        </ul>
+      )}
+
+      {canEdit && (
+        <form className="checklist-form" onSubmit={addItem}>
+          <input
+            type="text"
+            value={newTitle}
+            onChange={(e) => setNewTitle(e.target.value)}
+            placeholder="Add an item"
+            maxLength={200}
+            aria-label="New checklist item"
+          />
+          <button type="submit" disabled={!newTitle.trim()}>
+            Add
+          </button>
+        </form>
+      )}
+    </section>
+  );
+};
+
+export default TaskChecklist;
@@ -0,0 +1,310 @@
+import React, { useState, useEffect, useCallback } from 'react'; // v18.2.0
+import { formatDistance } from 'date-fns'; // v2.30.0
+
+import { Comment } from '../../types/comment.types';
+import { commentApi } from '../../api/comment.api';
+
+// Constants for component
+const PAGE_SIZE = 20;
+
+/**
+ * Props interface for TaskComments component
+ */
+export interface TaskCommentsProps {
+  taskId: string;
+  currentUserId?: string;
+  /** Comment received over the WebSocket COMMENT_NEW event */
+  incomingComment?: Comment | null;
+}
+
+interface TaskCommentsState {
+  comments: Comment[];
+  page: number;
+  hasMore: boolean;
+  isLoading: boolean;
+  isPosting: boolean;
+  error: string | null;
+}
+
+/**
+ * Merges a comment into the thread list, placing replies under their parent
+ * and ignoring duplicates delivered by both the API response and the WebSocket
+ */
+const mergeComment = (comments: Comment[], comment: Comment): Comment[] => {
+  if (!comment.parentId) {
+    if (comments.some(c => c.id === comment.id)) return comments;
+    return [comment, ...comments];
+  }
+
+  return comments.map(parent => {
+    if (parent.id !== comment.parentId) return parent;
+    const replies = parent.replies || [];
+    if (replies.some(r => r.id === comment.id)) return parent;
+    return { ...parent, replies: [...replies, comment] };
+  });
+};
+
+/**
+ * Replaces or removes a comment anywhere in the thread list
+ */
+const replaceComment = (
+  comments: Comment[],
+  id: string,
+  next: Comment | null
+): Comment[] =>
+  comments
+    .filter(c => next !== null || c.id !== id)
+    .map(c => {
+      if (c.id === id && next) return { ...next, replies: c.replies };
+      if (!c.replies) return c;
+      return { ...c, replies: replaceComment(c.replies, id, next) };
+    });
+
+/**
+ * TaskComments Component - Threaded discussion for a task with one level of replies.
+ * Authors can edit and delete their own comments.
+ */
+const TaskComments: React.FC<TaskCommentsProps> = ({
+  taskId,
+  currentUserId,
+  incomingComment
+}) => {
+  const [state, setState] = useState<TaskCommentsState>({
+    comments: [],
+    page: 1,
+    hasMore: false,
+    isLoading: true,
+    isPosting: false,
+    error: null
+  });
+  const [draft, setDraft] = useState('');
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [replyDraft, setReplyDraft] = useState('');
+  const [editing, setEditing] = useState<{ id: string; content: string } | null>(null);
+
+  /**
+   * Loads a page of top-level comments
+   */
+  const loadComments = useCallback(async (page: number) => {
+    try {
+      setState(prev => ({ ...prev, isLoading: true, error: null }));
+      const response = await commentApi.getComments(taskId, { page, limit: PAGE_SIZE });
+      const { items, hasMore } = response.data;
+
+      setState(prev => ({
+        ...prev,
+        comments: page === 1 ? items : [...prev.comments, ...items],
+        page,
+        hasMore,
+        isLoading: false
+      }));
+    } catch (error) {
+      setState(prev => ({
+        ...prev,
+        isLoading: false,
+        error: `Failed to load comments: ${error.message}`
+      }));
+    }
+  }, [taskId]);
+
+  useEffect(() => {
+    loadComments(1);
+  }, [loadComments]);
+
+  // Merge comments pushed over the WebSocket
+  useEffect(() => {
+    if (incomingComment && incomingComment.taskId === taskId) {
+      setState(prev => ({ ...prev, comments: mergeComment(prev.comments, incomingComment) }));
+    }
+  }, [incomingComment, taskId]);
+
+  /**
+   * Posts a new comment or a reply
+   */
+  const postComment = useCallback(async (content: string, parentId?: string) => {
+    if (!content.trim()) return;
+
+    try {
+      setState(prev => ({ ...prev, isPosting: true, error: null }));
+      const response = await commentApi.createComment(taskId, {
+        content,
+        parentId: parentId as any
+      });
+
+      setState(prev => ({
+        ...prev,
+        isPosting: false,
+        comments: mergeComment(prev.comments, response.data)
+      }));
+
+      if (parentId) {
+        setReplyTo(null);
+        setReplyDraft('');
+      } else {
+        setDraft('');
+      }
+    } catch (error) {
+      setState(prev => ({
+        ...prev,
+        isPosting: false,
+        error: `Failed to post comment: ${error.message}`
+      }));
+    }
+  }, [taskId]);
+
+  /**
+   * Saves an edited comment
+   */
+  const saveEdit = useCallback(async (comment: Comment) => {
+    if (!editing || !editing.content.trim()) return;
+
+    try {
+      const response = await commentApi.updateComment(taskId, comment.id, {
+        content: editing.content,
+        version: comment.version
+      });
+      setState(prev => ({
+        ...prev,
+        comments: replaceComment(prev.comments, comment.id, response.data)
+      }));
+      setEditing(null);
+    } catch (error) {
+      setState(prev => ({ ...prev, error: `Failed to edit comment: ${error.message}` }));
+    }
+  }, [taskId, editing]);
+
+  /**
+   * Deletes a comment
+   */
+  const removeComment = useCallback(async (commentId: string) => {
+    try {
+      await commentApi.deleteComment(taskId, commentId);
+      setState(prev => ({
+        ...prev,
+        comments: replaceComment(prev.comments, commentId, null)
+      }));
+    } catch (error) {
+      setState(prev => ({ ...prev, error: `Failed to delete comment: ${error.message}` }));
+    }
+  }, [taskId]);
+
+  const renderComment = (comment: Comment, isReply: boolean) => {
+    const isOwn = currentUserId !== undefined && comment.authorId === currentUserId;
+    const isEditing = editing?.id === comment.id;
+
+    return (
+      <li key={comment.id} className={isReply ? 'comment-reply' : 'comment'}>
+        <div className="comment-meta">
+          <strong>{comment.author?.name || 'Unknown user'}</strong>
+          <span>
+            {formatDistance(new Date(comment.createdAt), new Date(), { addSuffix: true })}
+            {comment.isEdited && ' (edited)'}
+          </span>
+        </div>
+
+        {isEditing ? (
+          <div className="comment-edit">
+            <textarea
+              value={editing!.content}
+              onChange={(e) => setEditing({ id: comment.id, content: e.target.value })}
+              aria-label="Edit comment"
+            />
+            <button onClick={() => saveEdit(comment)}>Save</button>
+            <button className="secondary" onClick={() => setEditing(null)}>Cancel</button>
+          </div>
+        ) : (
+          <p className="comment-content">{comment.content}</p>
+        )}
+
+        <div className="comment-actions">
+          {!isReply && (
+            <button
+              onClick={() => setReplyTo(replyTo === comment.id ? null : comment.id)}
+              aria-expanded={replyTo === comment.id}
+            >
+              Reply
+            </button>
+          )}
+          {isOwn && !isEditing && (
+            <>
+              <button onClick={() => setEditing({ id: comment.id, content: comment.content })}>
+                Edit
+              </button>
+              <button
+                onClick={() => removeComment(comment.id)}
+                aria-label="Delete comment"
+              >
+                Delete
+              </button>
+            </>
+          )}
+        </div>
+
+        {!isReply && comment.replies && comment.replies.length > 0 && (
+          <ul className="comment-replies">
+            {comment.replies.map(reply => renderComment(reply, true))}
+          </ul>
+        )}
+
+        {!isReply && replyTo === comment.id && (
+          <div className="comment-reply-form">
+            <textarea
+              value={replyDraft}
+              onChange={(e) => setReplyDraft(e.target.value)}
+              aria-label="Write a reply"
+            />
+            <button
+              onClick={() => postComment(replyDraft, comment.id)}
+              disabled={state.isPosting || !replyDraft.trim()}
+            >
+              Post reply
+            </button>
+          </div>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <section className="task-comments" aria-label="Task Comments">
+      <h2>Comments</h2>
+
+      {state.error && (
+        <div role="alert" className="task-comments-error">
+          {state.error}
+        </div>
+      )}
+
+      <div className="comment-form">
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Add a comment..."
+          aria-label="Add a comment"
+        />
+        <button
+          onClick={() => postComment(draft)}
+          disabled={state.isPosting || !draft.trim()}
+        >
+          {state.isPosting ? 'Posting...' : 'Comment'}
+        </button>
+      </div>
+
+      <ul className="comment-list">
+        {state.comments.map(comment => renderComment(comment, false))}
+      </ul>
+
+      {state.isLoading && (
+        <div aria-busy="true">Loading comments...</div>
+      )}
+
+      {state.hasMore && !state.isLoading && (
+        <button onClick={() => loadComments(state.page + 1)}>
+          Load more comments
+        </button>
+      )}
+    </section>
+  );
+};
+
+export default TaskComments;
@@ -0,0 +1,161 @@
+import React, { useState, useEffect, useCallback } from 'react'; // v18.2.0
+
+import { TaskDependencies as TaskDependencyLists, TaskDependencyLink } from '../../types/dependency.types';
+import { TaskStatus } from '../../types/task.types';
+import { dependencyApi } from '../../api/dependency.api';
+
+/**
+ * Props interface for TaskDependencies component
+ */
+export interface TaskDependenciesProps {
+  taskId: string;
+  /** Whether the current user may add and remove links */
+  canEdit?: boolean;
+  /** Called after links change so the parent can refresh the task status */
+  onChange?: () => void;
+}
+
+type Direction = 'blockerId' | 'blockedId';
+
+const EMPTY_DEPENDENCIES: TaskDependencyLists = { blockedBy: [], blocks: [] };
+
+/**
+ * TaskDependencies Component - Lists the tasks this task waits on and the
+ * tasks waiting on it, and links or unlinks tasks by ID.
+ */
+const TaskDependencies: React.FC<TaskDependenciesProps> = ({
+  taskId,
+  canEdit = false,
+  onChange
+}) => {
+  const [dependencies, setDependencies] = useState<TaskDependencyLists>(EMPTY_DEPENDENCIES);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [otherTaskId, setOtherTaskId] = useState('');
+  const [direction, setDirection] = useState<Direction>('blockerId');
+
+  /**
+   * Loads both directions of links
+   */
+  const loadDependencies = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const response = await dependencyApi.getDependencies(taskId);
+      setDependencies(response.data);
+    } catch (err) {
+      setError(`Failed to load dependencies: ${err.message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [taskId]);
+
+  useEffect(() => {
+    loadDependencies();
+  }, [loadDependencies]);
+
+  /**
+   * Creates a link in the selected direction
+   */
+  const addDependency = useCallback(async (event: React.FormEvent) => {
+    event.preventDefault();
+    const id = otherTaskId.trim();
+    if (!id) return;
+
+    try {
+      setError(null);
+      await dependencyApi.addDependency(taskId, { [direction]: id });
+      setOtherTaskId('');
+      await loadDependencies();
+      onChange?.();
+    } catch (err) {
+      setError(err.code === 'DEPENDENCY_CYCLE'
+        ? 'This link would create a circular dependency'
+        : `Failed to add dependency: ${err.message}`);
+    }
+  }, [taskId, otherTaskId, direction, loadDependencies, onChange]);
+
+  /**
+   * Removes a link
+   */
+  const removeDependency = useCallback(async (dependencyId: string) => {
+    try {
+      await dependencyApi.removeDependency(taskId, dependencyId);
+      await loadDependencies();
+      onChange?.();
+    } catch (err) {
+      setError(`Failed to remove dependency: ${err.message}`);
+    }
+  }, [taskId, loadDependencies, onChange]);
+
+  const renderLinks = (links: TaskDependencyLink[], emptyText: string) => (
+    <ul className="dependency-list">
+      {links.map(link => (
+        <li
+          key={link.id}
+          className={`dependency ${link.task.status === TaskStatus.DONE ? 'dependency-done' : ''}`}
+        >
+          <a href={`/tasks/${link.task.id}`}>{link.task.title}</a>
+          <span className="dependency-status">{link.task.status}</span>
+          {canEdit && (
+            <button
+              onClick={() => removeDependency(link.id)}
+              aria-label={`Remove dependency on ${link.task.title}`}
+            >
+              Remove
+            </button>
+          )}
+        </li>
+      ))}
+      {links.length === 0 && <li className="dependency-empty">{emptyText}</li>}
+    </ul>
+  );
+
+  return (
+    <section className="task-dependencies" aria-label="Task Dependencies">
+      <h2>Dependencies</h2>
+
+      {error && (
+        <div role="alert" className="task-dependencies-error">
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div aria-busy="true">Loading dependencies...</div>
+      ) : (
+        <>
+          <h3>Blocked by</h3>
+          {renderLinks(dependencies.blockedBy, 'Not blocked by any task')}
+          <h3>Blocks</h3>
+          {renderLinks(dependencies.blocks, 'Does not block any task')}
+        </>
+      )}
+
+      {canEdit && (
+        <form className="dependency-form" onSubmit={addDependency}>
+          <select
+            value={direction}
+            onChange={(e) => setDirection(e.target.value as Direction)}
+            aria-label="Dependency direction"
+          >
+            <option value="blockerId">Blocked by</option>
+            <option value="blockedId">Blocks</option>
+          </select>
+          <input
+            type="text"
+            value={otherTaskId}
+            onChange={(e) => setOtherTaskId(e.target.value)}
+            placeholder="Task ID"
+            aria-label="Linked task ID"
+          />
+          <button type="submit" disabled={!otherTaskId.trim()}>
+            Add
+          </button>
+        </form>
+      )}
+    </section>
+  );
+};
+
+export default TaskDependencies;
@@ -5,7 +5,7 @@
  * @version 1.0.0
  */
 
-import React, { FC, useEffect, useCallback, useMemo, useRef } from 'react';
+import React, { FC, useEffect, useCallback, useMemo, useRef, useState } from 'react';
 import classNames from 'classnames';
 import debounce from 'lodash';
 
@@ -16,6 +16,10 @@ import {
   TaskStatus,
   TaskPriority
 } from '../../types/task.types';
+import { CustomField, CustomFieldType, CustomFieldValue } from '../../types/customField.types';
+import { ProjectMember } from '../../types/membership.types';
+import { customFieldApi } from '../../api/customField.api';
+import { membershipApi } from '../../api/membership.api';
 import { useForm } from '../../hooks/useForm';
 import { createTaskSchema, updateTaskSchema } from '../../validators/task.validator';
 import {
@@ -26,6 +30,7 @@ import {
   FileUpload,
   Button
 } from '../common';
+import RecurrenceEditor, { toRecurrencePayload } from './RecurrenceEditor';
 
 import styles from './TaskForm.module.scss';
 
@@ -85,7 +90,10 @@ export const TaskForm: FC<TaskFormProps> = ({
     setFieldValue,
     validateField
   } = useForm({
-    initialValues: initialData || {
+    initialValues: initialData ? {
+      ...initialData,
+      recurrence: toRecurrencePayload(initialData.recurrence)
+    } : {
       title: '',
       description: '',
       status: TaskStatus.TODO,
@@ -94,7 +102,11 @@ export const TaskForm: FC<TaskFormProps> = ({
       assigneeId: '',
       projectId: '',
       attachments: [],
-      tags: []
+      tags: [],
+      recurrence: null,
+      originalEstimate: null,
+      remainingEstimate: null,
+      customFields: {}
     },
     validationSchema: initialData ? updateTaskSchema : createTaskSchema,
     onSubmit,
@@ -103,6 +115,11 @@ export const TaskForm: FC<TaskFormProps> = ({
     enableRealTimeValidation: true
   });
 
+  // Custom fields of the selected project, plus its members for USER fields
+  const [customFields, setCustomFields] = useState<CustomField[]>([]);
+  const [projectMembers, setProjectMembers] = useState<ProjectMember[]>([]);
+  const [customFieldError, setCustomFieldError] = useState<string | null>(null);
+
   // Refs for file upload and autosave
   const fileInputRef = useRef<HTMLInputElement>(null);
   const autosaveTimeoutRef = useRef<NodeJS.Timeout>();
@@ -136,6 +153,113 @@ export const TaskForm: FC<TaskFormProps> = ({
     };
   }, [debouncedAutosave]);
 
+  // Load the custom fields whenever the task's project changes
+  useEffect(() => {
+    if (!values.projectId) {
+      setCustomFields([]);
+      return;
+    }
+
+    let cancelled = false;
+    const loadCustomFields = async () => {
+      try {
+        setCustomFieldError(null);
+        const response = await customFieldApi.getFields(values.projectId);
+        const fields = response.data || [];
+        const members = fields.some(field => field.type === CustomFieldType.USER)
+          ? (await membershipApi.getMembers(values.projectId)).data || []
+          : [];
+        if (!cancelled) {
+          setCustomFields(fields);
+          setProjectMembers(members);
+        }
+      } catch (error) {
+        if (!cancelled) {
+          setCustomFields([]);
+          setCustomFieldError(`Failed to load custom fields: ${(error as Error).message}`);
+        }
+      }
+    };
+
+    loadCustomFields();
+    return () => {
+      cancelled = true;
+    };
+  }, [values.projectId]);
+
+  // Set or clear a single custom field value; empty values are sent as null to clear them
+  const handleCustomFieldChange = useCallback((key: string, value: CustomFieldValue | null) => {
+    const isEmpty = value === null || value === '' || (Array.isArray(value) && value.length === 0);
+    setFieldValue('customFields', { ...values.customFields, [key]: isEmpty ? null : value });
+  }, [values.customFields, setFieldValue]);
+
+  // Render the input matching a custom field's type
+  const renderCustomField = (field: CustomField) => {
+    const id = `custom-field-${field.key}`;
+    const value = values.customFields?.[field.key] ?? null;
+    const error = touched.customFields && errors.customFields;
+    const common = {
+      id,
+      name: id,
+      label: field.name,
+      required: field.required,
+      error,
+      'data-testid': `task-custom-field-${field.key}`
+    };
+
+    switch (field.type) {
+      case CustomFieldType.NUMBER:
+        return (
+          <Input
+            {...common}
+            type="number"
+            value={value === null ? '' : String(value)}
+            onChange={next => handleCustomFieldChange(field.key, next === '' ? null : Number(next))}
+          />
+        );
+      case CustomFieldType.DATE:
+        return (
+          <DatePicker
+            {...common}
+            value={value ? new Date(value as string) : null}
+            onChange={date => handleCustomFieldChange(field.key, date ? date.toISOString() : null)}
+          />
+        );
+      case CustomFieldType.SINGLE_SELECT:
+      case CustomFieldType.MULTI_SELECT:
+        return (
+          <Select
+            {...common}
+            multiple={field.type === CustomFieldType.MULTI_SELECT}
+            value={(value as string | string[]) ?? (field.type === CustomFieldType.MULTI_SELECT ? [] : '')}
+            onChange={next => handleCustomFieldChange(field.key, next)}
+            options={field.options.map(option => ({ value: option, label: option }))}
+          />
+        );
+      case CustomFieldType.USER:
+        return (
+          <Select
+            {...common}
+            value={(value as string) ?? ''}
+            onChange={next => handleCustomFieldChange(field.key, next)}
+            options={projectMembers.map(member => ({
+              value: member.userId,
+              label: member.user?.name || member.userId
+            }))}
+          />
+        );
+      default:
+        return (
+          <Input
+            {...common}
+            value={(value as string) ?? ''}
+            onChange={next => handleCustomFieldChange(field.key, next)}
+            maxLength={1000}
+          />
+        );
+    }
+  };
+
   // Handle file uploads
   const handleFileUpload = useCallback(async (files: FileList) => {
     if (!files.length) return;
@@ -276,6 +400,59 @@ export const TaskForm: FC<TaskFormProps> = ({
         />
       </div>
 
+      {/* Estimates, in the project's estimation unit */}
+      <div className={styles.formRow}>
+        <div className={styles.formGroup}>
+          <Input
+            id="originalEstimate"
+            name="originalEstimate"
+            label="Original Estimate"
+            type="number"
+            value={values.originalEstimate ?? ''}
+            onChange={value => handleChange({ target: { name: 'originalEstimate', value: value === '' ? null : Number(value) }})}
+            onBlur={handleBlur}
+            error={touched.originalEstimate && errors.originalEstimate}
+            data-testid="task-original-estimate-input"
+          />
+        </div>
+
+        <div className={styles.formGroup}>
+          <Input
+            id="remainingEstimate"
+            name="remainingEstimate"
+            label="Remaining Estimate"
+            type="number"
+            value={values.remainingEstimate ?? ''}
+            onChange={value => handleChange({ target: { name: 'remainingEstimate', value: value === '' ? null : Number(value) }})}
+            onBlur={handleBlur}
+            error={touched.remainingEstimate && errors.remainingEstimate}
+            data-testid="task-remaining-estimate-input"
+          />
+        </div>
+      </div>
+
+      {/* Recurrence Rule */}
+      <div className={styles.formGroup}>
+        <RecurrenceEditor
+          value={values.recurrence}
+          onChange={value => setFieldValue('recurrence', value)}
+          error={touched.recurrence && errors.recurrence}
+          disabled={isSubmitting}
+        />
+      </div>
+
+      {/* Custom Fields */}
+      {customFieldError && (
+        <div className={styles.formGroup} role="alert">
+          {customFieldError}
+        </div>
+      )}
+      {customFields.map(field => (
+        <div key={field.id} className={styles.formGroup}>
+          {renderCustomField(field)}
+        </div>
+      ))}
+
       {/* File Attachments */}
       <div className={styles.formGroup}>
         <FileUpload
@@ -0,0 +1,156 @@
+import React, { useState, useEffect, useCallback } from 'react'; // v18.2.0
+import { format, formatDistance } from 'date-fns'; // v2.30.0
+
+import { ChangeHistoryEntry } from '../../types/history.types';
+import { historyApi } from '../../api/history.api';
+
+// Number of entries loaded per page
+const PAGE_SIZE = 50;
+
+// Display names of recorded task fields
+const FIELD_LABELS: Record<string, string> = {
+  title: 'title',
+  description: 'description',
+  status: 'status',
+  priority: 'priority',
+  assigneeId: 'assignee',
+  projectId: 'project',
+  dueDate: 'due date',
+  tags: 'tags',
+  parentId: 'parent task',
+  metadata: 'metadata'
+};
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T/;
+
+/**
+ * Props interface for TaskHistoryTimeline component
+ */
+export interface TaskHistoryTimelineProps {
+  taskId: string;
+  currentUserId?: string;
+  /** Changes whenever the task is saved, so the timeline reloads its first page */
+  refreshKey?: string | number;
+}
+
+/**
+ * Renders a recorded value for display
+ */
+const formatValue = (field: string, value: unknown): string => {
+  if (value === null || value === undefined || value === '') return 'none';
+  if (typeof value === 'string' && ISO_DATE_PATTERN.test(value)) {
+    return format(new Date(value), 'PPp');
+  }
+  if (Array.isArray(value)) return value.length ? value.join(', ') : 'none';
+  if (typeof value === 'object') return JSON.stringify(value);
+  // Long descriptions are summarized rather than repeated in full
+  const text = String(value);
+  if (field === 'description' && text.length > 80) return `"${text.slice(0, 80)}…"`;
+  return field === 'description' ? `"${text}"` : text;
+};
+
+/**
+ * Groups entries by the update that produced them; entries arrive newest first
+ */
+const groupByVersion = (entries: ChangeHistoryEntry[]): ChangeHistoryEntry[][] => {
+  const groups: ChangeHistoryEntry[][] = [];
+  for (const entry of entries) {
+    const last = groups[groups.length - 1];
+    if (last && last[0].version === entry.version) {
+      last.push(entry);
+    } else {
+      groups.push([entry]);
+    }
+  }
+  return groups;
+};
+
+/**
+ * TaskHistoryTimeline Component - Shows who changed which field of a task and when,
+ * one timeline item per update.
+ */
+const TaskHistoryTimeline: React.FC<TaskHistoryTimelineProps> = ({
+  taskId,
+  currentUserId,
+  refreshKey
+}) => {
+  const [entries, setEntries] = useState<ChangeHistoryEntry[]>([]);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Loads a page of history, replacing the list for the first page
+   */
+  const loadPage = useCallback(async (pageToLoad: number) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const response = await historyApi.getTaskHistory(taskId, { page: pageToLoad, limit: PAGE_SIZE });
+      setEntries(prev => pageToLoad === 1 ? response.data.items : [...prev, ...response.data.items]);
+      setHasMore(response.data.hasMore);
+      setPage(pageToLoad);
+    } catch (err) {
+      setError(`Failed to load history: ${err.message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [taskId]);
+
+  useEffect(() => {
+    loadPage(1);
+  }, [loadPage, refreshKey]);
+
+  const groups = groupByVersion(entries);
+
+  return (
+    <section className="task-history-timeline" aria-label="Change History">
+      {error && (
+        <div role="alert" className="task-history-error">
+          {error}
+        </div>
+      )}
+
+      <ol className="timeline">
+        {groups.map(group => (
+          <li key={group[0].id} className="timeline-item">
+            <div className="timeline-meta">
+              <strong>
+                {group[0].changedBy && group[0].changedBy === currentUserId
+                  ? 'You'
+                  : group[0].changedBy ? `User ${String(group[0].changedBy).slice(0, 8)}` : 'System'}
+              </strong>
+              <time dateTime={new Date(group[0].changedAt).toISOString()}>
+                {formatDistance(new Date(group[0].changedAt), new Date(), { addSuffix: true })}
+              </time>
+              <span className="timeline-version">v{group[0].version}</span>
+            </div>
+            <ul>
+              {group.map(entry => (
+                <li key={entry.id}>
+                  Changed {FIELD_LABELS[entry.field] || entry.field} from{' '}
+                  <span className="history-old-value">{formatValue(entry.field, entry.oldValue)}</span> to{' '}
+                  <span className="history-new-value">{formatValue(entry.field, entry.newValue)}</span>
+                </li>
+              ))}
+            </ul>
+          </li>
+        ))}
+        {!isLoading && groups.length === 0 && (
+          <li className="timeline-empty">No changes recorded yet</li>
+        )}
+      </ol>
+
+      {isLoading && <div aria-busy="true">Loading history...</div>}
+
+      {hasMore && !isLoading && (
+        <button className="secondary" onClick={() => loadPage(page + 1)}>
+          Load older changes
+        </button>
+      )}
+    </section>
+  );
+};
+
+export default TaskHistoryTimeline;
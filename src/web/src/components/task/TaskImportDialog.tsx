@@ -0,0 +1,310 @@
+/**
+ * @fileoverview Dialog importing tasks from a CSV or JSON file: upload, column mapping,
+ * dry run and commit with live progress.
+ * @version 1.0.0
+ */
+
+import React, { useEffect, useState } from 'react'; // v18.2.0
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  InputLabel,
+  LinearProgress,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
+  Select,
+  Step,
+  StepLabel,
+  Stepper,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography
+} from '@mui/material'; // v5.14.0
+
+import { taskImportApi } from '../../api/import.api';
+import {
+  TaskImport,
+  TaskImportField,
+  TaskImportMapping,
+  TaskImportProgressUpdate,
+  TaskImportRow,
+  TaskImportStatus,
+  TaskImportValidation
+} from '../../types/import.types';
+import {
+  IMPORT_FIELD_LABELS,
+  compactImportMapping,
+  formatImportRowError,
+  getImportPercentage
+} from '../../utils/import.utils';
+
+const STEPS = ['Upload', 'Map columns', 'Review', 'Import'];
+
+/**
+ * Props interface for TaskImportDialog component
+ */
+export interface TaskImportDialogProps {
+  /** Whether the dialog is shown */
+  open: boolean;
+  /** Project the tasks are imported into */
+  projectId: string;
+  /** Latest progress message received for the project, if any */
+  progress?: TaskImportProgressUpdate | null;
+  /** Closes the dialog */
+  onClose: () => void;
+  /** Called once a committed import completed, to reload the tasks */
+  onImported?: () => void;
+}
+
+/**
+ * Walks through an import. Nothing is created until the last step; the dry run of the
+ * review step applies the same rules as creating a task by hand, and rows it rejects
+ * are skipped by the commit.
+ */
+export const TaskImportDialog: React.FC<TaskImportDialogProps> = ({
+  open,
+  projectId,
+  progress,
+  onClose,
+  onImported
+}) => {
+  const [step, setStep] = useState(0);
+  const [taskImport, setTaskImport] = useState<TaskImport | null>(null);
+  const [sampleRows, setSampleRows] = useState<TaskImportRow[]>([]);
+  const [mapping, setMapping] = useState<TaskImportMapping>({});
+  const [validation, setValidation] = useState<TaskImportValidation | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Progress messages of other imports of the project are ignored
+  const current = progress && taskImport && progress.importId === taskImport.id ? progress : null;
+  const counts = current ?? taskImport;
+  const status = counts?.status;
+  const isFinished = status === TaskImportStatus.COMPLETED || status === TaskImportStatus.FAILED;
+
+  useEffect(() => {
+    if (current?.status === TaskImportStatus.COMPLETED) {
+      onImported?.();
+    }
+  }, [current?.status]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  /**
+   * Resets the dialog for the next import
+   */
+  const handleClose = () => {
+    setStep(0);
+    setTaskImport(null);
+    setSampleRows([]);
+    setMapping({});
+    setValidation(null);
+    setError(null);
+    onClose();
+  };
+
+  /**
+   * Runs a request, keeping its error message for display
+   */
+  const run = async (request: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await request();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    run(async () => {
+      const response = await taskImportApi.uploadImport(projectId, file);
+      setTaskImport(response.data.import);
+      setSampleRows(response.data.sampleRows);
+      setMapping(response.data.suggestedMapping);
+      setStep(1);
+    });
+  };
+
+  const handleValidate = () => run(async () => {
+    const response = await taskImportApi.validateImport(projectId, taskImport!.id, compactImportMapping(mapping));
+    setValidation(response.data);
+    setStep(2);
+  });
+
+  const handleCommit = () => run(async () => {
+    const response = await taskImportApi.commitImport(projectId, taskImport!.id, compactImportMapping(mapping));
+    setTaskImport(response.data);
+    setStep(3);
+  });
+
+  const columns = taskImport?.columns ?? [];
+
+  return (
+    <Dialog open={open} onClose={isBusy ? undefined : handleClose} fullWidth maxWidth="md">
+      <DialogTitle>Import tasks</DialogTitle>
+      <DialogContent>
+        <Stepper activeStep={step} sx={{ mb: 3 }}>
+          {STEPS.map(label => (
+            <Step key={label}>
+              <StepLabel>{label}</StepLabel>
+            </Step>
+          ))}
+        </Stepper>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {step === 0 && (
+          <Box sx={{ textAlign: 'center', py: 4 }}>
+            <Typography variant="body2" color="text.secondary" gutterBottom>
+              A CSV file with a header row, or a JSON array of objects; up to 5MB.
+            </Typography>
+            <Button variant="contained" component="label" disabled={isBusy}>
+              Choose file
+              <input hidden type="file" accept=".csv,.json,text/csv,application/json" onChange={handleFile} />
+            </Button>
+          </Box>
+        )}
+
+        {step === 1 && taskImport && (
+          <>
+            <Typography variant="body2" gutterBottom>
+              {taskImport.fileName}: {taskImport.totalRows} rows. Assignees are matched by the
+              email of a project member, statuses by the name of a workflow state.
+            </Typography>
+
+            <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)', gap: 2, my: 2 }}>
+              {Object.values(TaskImportField).map(field => (
+                <FormControl key={field} size="small" required={field === TaskImportField.TITLE}>
+                  <InputLabel>{IMPORT_FIELD_LABELS[field]}</InputLabel>
+                  <Select
+                    value={mapping[field] ?? ''}
+                    label={IMPORT_FIELD_LABELS[field]}
+                    onChange={e => setMapping(prev => ({ ...prev, [field]: e.target.value }))}
+                  >
+                    <MenuItem value="">Not imported</MenuItem>
+                    {columns.map(column => (
+                      <MenuItem key={column} value={column}>
+                        {column}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              ))}
+            </Box>
+
+            <Table size="small" aria-label="Sample rows">
+              <TableHead>
+                <TableRow>
+                  {columns.map(column => (
+                    <TableCell key={column}>{column}</TableCell>
+                  ))}
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {sampleRows.map((row, index) => (
+                  <TableRow key={index}>
+                    {columns.map(column => (
+                      <TableCell key={column}>{row[column]}</TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+
+        {step === 2 && validation && (
+          <>
+            <Alert severity={validation.invalidCount === 0 ? 'success' : 'warning'} sx={{ mb: 2 }}>
+              {validation.validCount} rows will be imported
+              {validation.invalidCount > 0 && `, ${validation.invalidCount} will be skipped`}.
+            </Alert>
+            {validation.errors.length > 0 && (
+              <List dense sx={{ maxHeight: 300, overflow: 'auto' }}>
+                {validation.errors.map(rowError => (
+                  <ListItem key={rowError.row}>
+                    <ListItemText primary={formatImportRowError(rowError)} />
+                  </ListItem>
+                ))}
+              </List>
+            )}
+          </>
+        )}
+
+        {step === 3 && counts && (
+          <Box sx={{ py: 2 }}>
+            <LinearProgress
+              variant="determinate"
+              value={getImportPercentage(counts)}
+              aria-label="Import progress"
+            />
+            <Typography variant="body2" sx={{ mt: 1 }}>
+              {counts.processedRows} of {counts.totalRows} rows processed, {counts.createdCount} tasks created
+              {counts.failedCount > 0 && `, ${counts.failedCount} rows skipped`}
+            </Typography>
+            {status === TaskImportStatus.FAILED && (
+              <Alert severity="error" sx={{ mt: 2 }}>
+                The import stopped before all rows were processed.
+              </Alert>
+            )}
+          </Box>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={handleClose} disabled={isBusy}>
+          {step === 3 ? 'Close' : 'Cancel'}
+        </Button>
+        {step === 2 && (
+          <Button onClick={() => setStep(1)} disabled={isBusy}>
+            Back
+          </Button>
+        )}
+        {step === 1 && (
+          <Button
+            variant="contained"
+            onClick={handleValidate}
+            disabled={isBusy || !mapping[TaskImportField.TITLE]}
+            startIcon={isBusy ? <CircularProgress size={16} color="inherit" /> : undefined}
+          >
+            Check rows
+          </Button>
+        )}
+        {step === 2 && (
+          <Button
+            variant="contained"
+            onClick={handleCommit}
+            disabled={isBusy || !validation?.validCount}
+            startIcon={isBusy ? <CircularProgress size={16} color="inherit" /> : undefined}
+          >
+            Import {validation?.validCount ?? 0} tasks
+          </Button>
+        )}
+        {step === 3 && !isFinished && <CircularProgress size={24} sx={{ mx: 2 }} />}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default TaskImportDialog;
@@ -0,0 +1,144 @@
+/**
+ * @fileoverview Query input of the task page with autocompletion of field names,
+ * operators and values of the task query language.
+ * @version 1.0.0
+ */
+
+import React, { useState, useEffect, useMemo, useRef } from 'react'; // v18.2.0
+import { Autocomplete, TextField, Typography, Box } from '@mui/material'; // v5.14.0
+
+import {
+  TaskQuerySuggestion,
+  TaskQueryValueHints,
+  getTaskQueryCompletion,
+  applyTaskQuerySuggestion
+} from '../../utils/taskQuery.utils';
+
+/**
+ * Props interface for TaskQueryInput component
+ */
+export interface TaskQueryInputProps {
+  /** Query currently applied */
+  value: string;
+
+  /** Called with the typed query when the user presses Enter or clears the input */
+  onSubmit: (query: string) => void;
+
+  /** Values offered for the fields they belong to */
+  hints?: TaskQueryValueHints;
+
+  /** Error of the applied query, e.g. a syntax error reported by the server */
+  error?: string | null;
+}
+
+/**
+ * Query input suggesting what may be typed at the cursor. Picking a suggestion replaces
+ * the word being typed; Enter without a highlighted suggestion applies the query.
+ */
+export const TaskQueryInput: React.FC<TaskQueryInputProps> = ({ value, onSubmit, hints, error }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [input, setInput] = useState(value);
+  const [cursor, setCursor] = useState(value.length);
+  const [isOpen, setIsOpen] = useState(false);
+  // Cursor to restore after a suggestion was inserted
+  const pendingCursor = useRef<number | null>(null);
+
+  // Follow the applied query, e.g. when a saved view is opened
+  useEffect(() => {
+    setInput(value);
+    setCursor(value.length);
+  }, [value]);
+
+  useEffect(() => {
+    if (pendingCursor.current !== null && inputRef.current) {
+      inputRef.current.setSelectionRange(pendingCursor.current, pendingCursor.current);
+      pendingCursor.current = null;
+    }
+  }, [input]);
+
+  const completion = useMemo(
+    () => getTaskQueryCompletion(input, cursor, hints),
+    [input, cursor, hints]
+  );
+
+  /**
+   * Tracks the cursor, as suggestions depend on the word it is in
+   */
+  const syncCursor = (event: React.SyntheticEvent<HTMLInputElement>) => {
+    setCursor(event.currentTarget.selectionStart ?? input.length);
+  };
+
+  /**
+   * Inserts a picked suggestion and keeps the list open for the next word
+   */
+  const handlePick = (suggestion: TaskQuerySuggestion) => {
+    const next = applyTaskQuerySuggestion(input, completion, suggestion);
+    pendingCursor.current = next.cursor;
+    setInput(next.query);
+    setCursor(next.cursor);
+    setIsOpen(true);
+  };
+
+  return (
+    <Autocomplete<TaskQuerySuggestion, false, false, true>
+      freeSolo
+      options={completion.suggestions}
+      filterOptions={options => options}
+      getOptionLabel={option => (typeof option === 'string' ? option : option.label)}
+      value={null}
+      inputValue={input}
+      open={isOpen && completion.suggestions.length > 0}
+      onOpen={() => setIsOpen(true)}
+      onClose={(_, reason) => reason !== 'selectOption' && setIsOpen(false)}
+      onInputChange={(event, text, reason) => {
+        if (reason === 'input') {
+          setInput(text);
+          setCursor((event?.target as HTMLInputElement | undefined)?.selectionStart ?? text.length);
+        } else if (reason === 'clear') {
+          setInput('');
+          onSubmit('');
+        }
+      }}
+      onChange={(_, option) => {
+        if (typeof option === 'string') {
+          onSubmit(input.trim());
+          setIsOpen(false);
+        } else if (option) {
+          handlePick(option);
+        }
+      }}
+      renderOption={(props, option) => (
+        <Box component="li" {...props} key={`${option.label}-${option.insert}`}>
+          <Typography variant="body2" sx={{ fontFamily: 'monospace' }}>
+            {option.label}
+          </Typography>
+          {option.detail && (
+            <Typography variant="caption" color="text.secondary" sx={{ ml: 1 }}>
+              {option.detail}
+            </Typography>
+          )}
+        </Box>
+      )}
+      renderInput={params => (
+        <TextField
+          {...params}
+          inputRef={inputRef}
+          size="small"
+          placeholder="Query, e.g. assignee = me AND due < +7d"
+          error={!!error}
+          helperText={error || undefined}
+          inputProps={{
+            ...params.inputProps,
+            'aria-label': 'Task query',
+            spellCheck: false,
+            onKeyUp: syncCursor,
+            onClick: syncCursor
+          }}
+        />
+      )}
+      sx={{ flexGrow: 1, minWidth: 320 }}
+    />
+  );
+};
+
+export default TaskQueryInput;
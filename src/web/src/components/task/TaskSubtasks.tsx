@@ -0,0 +1,141 @@
+import React, { useState, useEffect, useCallback } from 'react'; // v18.2.0
+
+import { Task, TaskStatus } from '../../types/task.types';
+import { taskApi } from '../../api/task.api';
+import { ProgressBar } from '../common/ProgressBar';
+
+// Mirrors the server's nesting limit; a task at this depth cannot have subtasks
+const MAX_SUBTASK_DEPTH = 2;
+
+/**
+ * Props interface for TaskSubtasks component
+ */
+export interface TaskSubtasksProps {
+  /** Parent task; new subtasks inherit its project, assignee, priority and due date */
+  task: Task;
+  /** Whether the current user may create subtasks */
+  canEdit?: boolean;
+  /** Called after a subtask is created so the parent can refresh its progress */
+  onChange?: () => void;
+}
+
+/**
+ * TaskSubtasks Component - Lists the direct subtasks of a task with their progress
+ * and creates new ones.
+ */
+const TaskSubtasks: React.FC<TaskSubtasksProps> = ({
+  task,
+  canEdit = false,
+  onChange
+}) => {
+  const [subtasks, setSubtasks] = useState<Task[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [newTitle, setNewTitle] = useState('');
+
+  const canNest = (task.depth ?? 0) < MAX_SUBTASK_DEPTH;
+
+  /**
+   * Loads the direct subtasks
+   */
+  const loadSubtasks = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const response = await taskApi.getTasks({ parentId: task.id, page: 1, limit: 100 } as any);
+      setSubtasks(response.items);
+    } catch (err) {
+      setError(`Failed to load subtasks: ${err.message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [task.id]);
+
+  useEffect(() => {
+    loadSubtasks();
+  }, [loadSubtasks]);
+
+  /**
+   * Creates a subtask below the current task
+   */
+  const addSubtask = useCallback(async (event: React.FormEvent) => {
+    event.preventDefault();
+    const title = newTitle.trim();
+    if (!title) return;
+
+    try {
+      setError(null);
+      await taskApi.createTask({
+        title,
+        description: '',
+        status: TaskStatus.TODO,
+        priority: task.priority,
+        assigneeId: task.assigneeId,
+        projectId: task.projectId,
+        dueDate: task.dueDate,
+        attachments: [],
+        tags: [],
+        metadata: {},
+        parentId: task.id
+      });
+      setNewTitle('');
+      await loadSubtasks();
+      onChange?.();
+    } catch (err) {
+      setError(`Failed to add subtask: ${err.message}`);
+    }
+  }, [task, newTitle, loadSubtasks, onChange]);
+
+  return (
+    <section className="task-subtasks" aria-label="Subtasks">
+      <h2>Subtasks</h2>
+
+      {error && (
+        <div role="alert" className="task-subtasks-error">
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div aria-busy="true">Loading subtasks...</div>
+      ) : (
+        <ul className="subtask-list">
+          {subtasks.map(subtask => (
+            <li
+              key={subtask.id}
+              className={`subtask ${subtask.status === TaskStatus.DONE ? 'subtask-done' : ''}`}
+            >
+              <a href={`/tasks/${subtask.id}`}>{subtask.title}</a>
+              <span className="subtask-status">{subtask.status}</span>
+              {subtask.progress && subtask.progress.total > 0 && (
+                <ProgressBar
+                  value={subtask.progress.percentage}
+                  size="small"
+                  ariaLabel={`${subtask.title} progress`}
+                />
+              )}
+            </li>
+          ))}
+          {subtasks.length === 0 && <li className="subtask-empty">No subtasks</li>}
+        </ul>
+      )}
+
+      {canEdit && canNest && (
+        <form className="subtask-form" onSubmit={addSubtask}>
+          <input
+            type="text"
+            value={newTitle}
+            onChange={(e) => setNewTitle(e.target.value)}
+            placeholder="New subtask title"
+            aria-label="New subtask title"
+          />
+          <button type="submit" disabled={!newTitle.trim()}>
+            Add
+          </button>
+        </form>
+      )}
+    </section>
+  );
+};
+
+export default TaskSubtasks;
@@ -19,7 +19,37 @@ export { default as TaskList } from './TaskList';
 export type { TaskListProps } from './TaskList';
 
 export { default as TaskBoard } from './TaskBoard';
-export type { TaskBoardProps } from './TaskBoard';
+export type { TaskBoardProps, SwimlaneGrouping } from './TaskBoard';
+
+export { default as TaskComments } from './TaskComments';
+export type { TaskCommentsProps } from './TaskComments';
+
+export { default as TaskAttachments } from './TaskAttachments';
+export type { TaskAttachmentsProps } from './TaskAttachments';
+
+export { default as TaskDependencies } from './TaskDependencies';
+export type { TaskDependenciesProps } from './TaskDependencies';
+
+export { default as TaskSubtasks } from './TaskSubtasks';
+export type { TaskSubtasksProps } from './TaskSubtasks';
+
+export { default as TaskChecklist } from './TaskChecklist';
+export type { TaskChecklistProps } from './TaskChecklist';
+
+export { default as TaskHistoryTimeline } from './TaskHistoryTimeline';
+export type { TaskHistoryTimelineProps } from './TaskHistoryTimeline';
+
+export { default as TaskImportDialog } from './TaskImportDialog';
+export type { TaskImportDialogProps } from './TaskImportDialog';
+
+export { default as RecurrenceEditor } from './RecurrenceEditor';
+export type { RecurrenceEditorProps } from './RecurrenceEditor';
+
+export { default as TaskQueryInput } from './TaskQueryInput';
+export type { TaskQueryInputProps } from './TaskQueryInput';
+
+export { default as TaskBulkActions } from './TaskBulkActions';
+export type { TaskBulkActionsProps } from './TaskBulkActions';
 
 // -----------------------------------------------------------------------------
 // Component Documentation
@@ -22,12 +22,36 @@ export const API_ENDPOINTS = {
   /** User management service endpoint */
   USERS: `/api/${API_VERSION}/users` as const,
   
+  /** Personal calendar feed */
+  CALENDAR: `/api/${API_VERSION}/calendar` as const,
+  
+  /** Task and project list exports */
+  EXPORTS: `/api/${API_VERSION}/exports` as const,
+  
+  /** In-app notifications of the current user */
+  NOTIFICATIONS: `/api/${API_VERSION}/notifications` as const,
+
+  /** Permission registry and effective permissions endpoint */
+  PERMISSIONS: `/api/${API_VERSION}/permissions` as const,
+  
   /** Project management service endpoint */
   PROJECTS: `/api/${API_VERSION}/projects` as const,
   
+  /** Full-text search across tasks, comments and projects */
+  SEARCH: `/api/${API_VERSION}/search` as const,
+  
   /** Task management service endpoint */
   TASKS: `/api/${API_VERSION}/tasks` as const,
   
+  /** Running timer of the current user */
+  TIMER: `/api/${API_VERSION}/timer` as const,
+  
+  /** Saved task views and sidebar pins */
+  VIEWS: `/api/${API_VERSION}/views` as const,
+  
+  /** Outbound webhooks and their delivery log */
+  WEBHOOKS: `/api/${API_VERSION}/webhooks` as const,
+  
   /** File management service endpoint */
   FILES: `/api/${API_VERSION}/files` as const,
 } as const;
@@ -66,6 +66,9 @@ export enum PRIVATE_ROUTES {
   TEAM_MEMBER = `/team/${ROUTE_PARAMS.USER_ID}`,
   TEAM_WORKLOAD = '/team/workload',
 
+  // Time tracking
+  TIMESHEET = '/timesheet',
+
   // Reports
   REPORTS = '/reports',
   REPORT_TASK_ANALYTICS = '/reports/task-analytics',
@@ -9,6 +9,10 @@
 export { useAuth } from './useAuth';
 export type { UseAuth } from './useAuth';
 
+// Effective permissions hook for hiding unavailable actions
+export { usePermissions } from './usePermissions';
+export type { UsePermissions } from './usePermissions';
+
 // Local storage hook for persistent data management
 export { default as useLocalStorage } from './useLocalStorage';
 
@@ -0,0 +1,61 @@
+import { useState, useEffect, useCallback } from 'react'; // v18.2.0
+
+import { Permission } from '../types/permission.types';
+import { permissionApi } from '../api/permission.api';
+import { useAuth } from './useAuth';
+
+/**
+ * Custom hook exposing the signed-in user's effective permissions so components can
+ * hide actions the user cannot perform. The server still enforces every permission.
+ *
+ * @returns Loaded permissions and a `can` check; `can` also accepts an ownership-scoped
+ * permission, which applies when `isOwner` is true
+ *
+ * @example
+ * const { can } = usePermissions();
+ * const canEdit = can(Permission.TASK_UPDATE, Permission.TASK_UPDATE_OWN, task.assigneeId === user?.id);
+ */
+export const usePermissions = () => {
+  const { isAuthenticated, user } = useAuth();
+  const [permissions, setPermissions] = useState<Permission[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Reload whenever the user or their role changes
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setPermissions([]);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    permissionApi.getMyPermissions()
+      .then(response => {
+        if (!cancelled) setPermissions(response.data.permissions);
+      })
+      .catch(() => {
+        // Without permissions every guarded action stays hidden
+        if (!cancelled) setPermissions([]);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isAuthenticated, user?.id, user?.role]);
+
+  const can = useCallback((
+    permission: Permission,
+    ownPermission?: Permission,
+    isOwner = false
+  ): boolean =>
+    permissions.includes(permission)
+      || (!!ownPermission && isOwner && permissions.includes(ownPermission)),
+  [permissions]);
+
+  return { permissions, isLoading, can };
+};
+
+export type UsePermissions = ReturnType<typeof usePermissions>;
@@ -6,19 +6,28 @@ import { ErrorBoundary } from '@sentry/react';
 // Internal Components
 import TaskList from '../../components/task/TaskList';
 import ProjectTimeline from '../../components/project/ProjectTimeline';
+import ProjectMembers from '../../components/project/ProjectMembers';
+import TaskImportDialog from '../../components/task/TaskImportDialog';
 
 // Hooks
 import useWebSocket from '../../hooks/useWebSocket';
 import { useTheme } from '../../hooks/useTheme';
+import { useAuth } from '../../hooks/useAuth';
 
 // Types
 import { Project, ProjectStatus, ProjectQueryParams } from '../../types/project.types';
 import { Task, TaskQueryParams } from '../../types/task.types';
+import { Milestone, MilestoneStatusUpdate } from '../../types/milestone.types';
+import { TaskImportProgressUpdate } from '../../types/import.types';
 import { ApiError } from '../../types/api.types';
+import { UserRole } from '../../types/user.types';
 
 // Constants
 import { API_ENDPOINTS } from '../../constants/api.constants';
 
+// API
+import { milestoneApi } from '../../api/milestone.api';
+
 // Styles
 import styles from './ProjectDetail.module.scss';
 
@@ -28,11 +37,14 @@ import styles from './ProjectDetail.module.scss';
 interface ProjectDetailState {
   project: Project | null;
   tasks: Task[];
+  milestones: Milestone[];
   loading: boolean;
   error: ApiError | null;
   taskQuery: TaskQueryParams;
   totalTasks: number;
   wsStatus: 'connected' | 'disconnected' | 'error';
+  importOpen: boolean;
+  importProgress: TaskImportProgressUpdate | null;
 }
 
 /**
@@ -46,6 +58,7 @@ const ProjectDetail: React.FC = () => {
   const navigate = useNavigate();
   const dispatch = useDispatch();
   const { themeMode, isHighContrast } = useTheme();
+  const { user } = useAuth();
 
   // WebSocket connection for real-time updates
   const { 
@@ -58,6 +71,7 @@ const ProjectDetail: React.FC = () => {
   const [state, setState] = useState<ProjectDetailState>({
     project: null,
     tasks: [],
+    milestones: [],
     loading: true,
     error: null,
     taskQuery: {
@@ -68,7 +82,9 @@ const ProjectDetail: React.FC = () => {
       sortOrder: 'asc'
     },
     totalTasks: 0,
-    wsStatus: 'disconnected'
+    wsStatus: 'disconnected',
+    importOpen: false,
+    importProgress: null
   });
 
   /**
@@ -100,9 +116,39 @@ const ProjectDetail: React.FC = () => {
   }, [projectId]);
 
   /**
-   * Handles real-time project updates
+   * Fetches project milestones; the timeline is still shown without them
+   */
+  const fetchMilestones = useCallback(async () => {
+    try {
+      const response = await milestoneApi.getMilestones(projectId!);
+      setState(prev => ({ ...prev, milestones: response.data }));
+    } catch (error) {
+      console.error('Failed to fetch milestones:', error);
+    }
+  }, [projectId]);
+
+  /**
+   * Handles real-time project updates, including milestone status changes and import progress
    */
   const handleProjectUpdate = useCallback((update: any) => {
+    if (update?.importId) {
+      setState(prev => ({ ...prev, importProgress: update as TaskImportProgressUpdate }));
+      return;
+    }
+
+    if (update?.milestoneId) {
+      const change = update as MilestoneStatusUpdate;
+      setState(prev => ({
+        ...prev,
+        milestones: prev.milestones.map(milestone =>
+          milestone.id === change.milestoneId
+            ? { ...milestone, status: change.status, statusChangedAt: new Date(change.changedAt) }
+            : milestone
+        )
+      }));
+      return;
+    }
+
     setState(prev => ({
       ...prev,
       project: {
@@ -185,7 +231,8 @@ const ProjectDetail: React.FC = () => {
   // Initial data fetch
   useEffect(() => {
     fetchProjectDetails();
-  }, [fetchProjectDetails]);
+    fetchMilestones();
+  }, [fetchProjectDetails, fetchMilestones]);
 
   // Memoized project timeline data
   const timelineData = useMemo(() => ({
@@ -250,8 +297,30 @@ const ProjectDetail: React.FC = () => {
             </span>
           )}
         </div>
+        {state.project?.inboundEmailAddress && (
+          <p className={styles.inboundAddress}>
+            Email tasks to{' '}
+            <a href={`mailto:${state.project.inboundEmailAddress}`}>
+              {state.project.inboundEmailAddress}
+            </a>
+          </p>
+        )}
+        <button
+          onClick={() => setState(prev => ({ ...prev, importOpen: true }))}
+          className={styles.importButton}
+        >
+          Import tasks
+        </button>
       </header>
 
+      <TaskImportDialog
+        open={state.importOpen}
+        projectId={projectId!}
+        progress={state.importProgress}
+        onClose={() => setState(prev => ({ ...prev, importOpen: false, importProgress: null }))}
+        onImported={fetchProjectDetails}
+      />
+
       {/* Project Timeline */}
       <section 
         className={styles.timeline}
@@ -259,6 +328,7 @@ const ProjectDetail: React.FC = () => {
       >
         <ProjectTimeline
           projects={[state.project!]}
+          milestones={state.milestones}
           viewStartDate={timelineData.startDate}
           viewEndDate={timelineData.endDate}
           onProjectClick={() => {}}
@@ -266,6 +336,13 @@ const ProjectDetail: React.FC = () => {
         />
       </section>
 
+      {/* Project Members */}
+      <ProjectMembers
+        projectId={projectId!}
+        currentUserId={user?.id}
+        canManage={user?.role === UserRole.ADMIN || user?.role === UserRole.PROJECT_MANAGER}
+      />
+
       {/* Task Management */}
       <section 
         className={styles.tasks}
@@ -19,7 +19,11 @@ import {
   clearFilters
 } from '../../redux/project/projectSlice';
 import ProjectList from '../../components/project/ProjectList';
+import ExportMenu from '../../components/common/ExportMenu';
+import { exportApi } from '../../api/export.api';
 import { Project, ProjectStatus, ProjectPriority } from '../../types/project.types';
+import { ExportFormat } from '../../types/export.types';
+import { getExportFileName, saveExportFile } from '../../utils/export.utils';
 import debounce from 'lodash/debounce';
 
 // Constants
@@ -51,6 +55,7 @@ const ProjectListPage: React.FC = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedStatus, setSelectedStatus] = useState<ProjectStatus | null>(null);
   const [selectedPriority, setSelectedPriority] = useState<ProjectPriority | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
 
   /**
    * Initialize filters from URL query parameters
@@ -142,6 +147,19 @@ const ProjectListPage: React.FC = () => {
     dispatch(setFilters({ ...filters, sortBy: field, sortOrder: direction, page: 1 }));
   }, [dispatch, filters]);
 
+  /**
+   * Downloads every project matching the filters
+   */
+  const handleExport = useCallback(async (format: ExportFormat) => {
+    setExportError(null);
+    try {
+      const content = await exportApi.exportProjects({ ...filters, format });
+      saveExportFile(content, getExportFileName('projects', format));
+    } catch (err) {
+      setExportError(`Export failed: ${(err as Error).message}`);
+    }
+  }, [filters]);
+
   return (
     <div 
       className="project-list-page"
@@ -159,6 +177,11 @@ const ProjectListPage: React.FC = () => {
           >
             Create Project
           </button>
+          <ExportMenu
+            onExport={handleExport}
+            disabled={projects.length === 0}
+            ariaLabel="Export projects"
+          />
         </div>
       </header>
 
@@ -236,6 +259,16 @@ const ProjectListPage: React.FC = () => {
         </div>
       )}
 
+      {exportError && (
+        <div 
+          className="project-list-page__error" 
+          role="alert"
+          aria-live="polite"
+        >
+          {exportError}
+        </div>
+      )}
+
       {/* Project List */}
       <ProjectList
         projects={projects}
@@ -11,6 +11,7 @@ import { toast } from 'react-toastify'; // v9.0.0
 import debounce from 'lodash/debounce'; // v4.17.21
 
 import { Input } from '../../components/common/Input';
+import { CalendarFeedSettings } from '../../components/settings';
 import { User, UserPreferences, NotificationPreferences } from '../../types/user.types';
 import { authService } from '../../services/auth.service';
 import { validateEmail } from '../../utils/validation.utils';
@@ -282,6 +283,11 @@ const Profile: React.FC = () => {
           )}
         </div>
       </form>
+
+      <section className="form-section" aria-labelledby="calendar-feed-title">
+        <h2 id="calendar-feed-title">Calendar Feed</h2>
+        <CalendarFeedSettings />
+      </section>
     </div>
   );
 };
@@ -0,0 +1,456 @@
+/**
+ * @fileoverview Webhook administration page listing subscriptions and recent deliveries,
+ * with redelivery of individual deliveries.
+ * @version 1.0.0
+ */
+
+import React, { useState, useEffect, useCallback } from 'react'; // v18.2.0
+import { useDispatch, useSelector } from 'react-redux'; // v8.1.0
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  FormControl,
+  FormControlLabel,
+  FormGroup,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Stack,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography
+} from '@mui/material'; // v5.14.0
+import { toast } from 'react-toastify'; // v9.0.0
+
+import { webhookApi } from '../../api/webhook.api';
+import { usePermissions } from '../../hooks/usePermissions';
+import { fetchProjects, selectProjects } from '../../redux/project/projectSlice';
+import { Permission } from '../../types/permission.types';
+import {
+  Webhook,
+  WebhookDelivery,
+  WebhookDeliveryPage,
+  WebhookDeliveryStatus,
+  WebhookEventType
+} from '../../types/webhook.types';
+import {
+  WEBHOOK_EVENT_LABELS,
+  canRedeliver,
+  describeDeliveryOutcome,
+  getDeliveryStatusColor
+} from '../../utils/webhook.utils';
+import { formatDate } from '../../utils/date.utils';
+
+// Deliveries per page of the log
+const DELIVERY_PAGE_SIZE = 20;
+
+// Projects offered for project webhooks
+const PROJECT_LIMIT = 100;
+
+const EMPTY_FORM = {
+  name: '',
+  url: '',
+  events: [WebhookEventType.TASK_CREATED] as WebhookEventType[],
+  projectId: ''
+};
+
+/**
+ * Webhooks page - Administrators subscribe URLs to task and project events and follow
+ * their deliveries. Secrets are shown once, right after a webhook is created or its
+ * secret rotated.
+ */
+const Webhooks: React.FC = () => {
+  const dispatch = useDispatch();
+  const projects = useSelector(selectProjects);
+  const { can, isLoading: isLoadingPermissions } = usePermissions();
+
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDeliveryPage | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [secret, setSecret] = useState<{ webhookName: string; value: string } | null>(null);
+  const [webhookFilter, setWebhookFilter] = useState('');
+  const [statusFilter, setStatusFilter] = useState<WebhookDeliveryStatus | ''>('');
+  const [page, setPage] = useState(1);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Loads the webhooks
+   */
+  const loadWebhooks = useCallback(async () => {
+    try {
+      const response = await webhookApi.getWebhooks();
+      setWebhooks(response.data);
+    } catch (err) {
+      setError(`Failed to load webhooks: ${(err as Error).message}`);
+    }
+  }, []);
+
+  /**
+   * Loads the selected page of the delivery log
+   */
+  const loadDeliveries = useCallback(async () => {
+    try {
+      const response = await webhookApi.getDeliveries({
+        webhookId: (webhookFilter || undefined) as any,
+        status: statusFilter || undefined,
+        page,
+        limit: DELIVERY_PAGE_SIZE
+      });
+      setDeliveries(response.data);
+    } catch (err) {
+      setError(`Failed to load deliveries: ${(err as Error).message}`);
+    }
+  }, [webhookFilter, statusFilter, page]);
+
+  useEffect(() => {
+    loadWebhooks();
+  }, [loadWebhooks]);
+
+  useEffect(() => {
+    loadDeliveries();
+  }, [loadDeliveries]);
+
+  useEffect(() => {
+    if (projects.length === 0) {
+      dispatch(fetchProjects({ page: 1, limit: PROJECT_LIMIT }) as any);
+    }
+  }, [dispatch, projects.length]);
+
+  const toggleEvent = (event: WebhookEventType) => {
+    setForm(current => ({
+      ...current,
+      events: current.events.includes(event)
+        ? current.events.filter(selected => selected !== event)
+        : [...current.events, event]
+    }));
+  };
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    setIsBusy(true);
+    try {
+      const response = await webhookApi.createWebhook({
+        name: form.name.trim(),
+        url: form.url.trim(),
+        events: form.events,
+        projectId: (form.projectId || undefined) as any
+      });
+      setSecret({ webhookName: response.data.webhook.name, value: response.data.secret });
+      setForm(EMPTY_FORM);
+      await loadWebhooks();
+      toast.success('Webhook created');
+    } catch (err) {
+      toast.error((err as Error).message || 'Failed to create webhook');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleToggleActive = async (webhook: Webhook) => {
+    try {
+      const response = await webhookApi.updateWebhook(webhook.id, { active: !webhook.active });
+      setWebhooks(current => current.map(item => (item.id === webhook.id ? response.data : item)));
+    } catch (err) {
+      toast.error((err as Error).message || 'Failed to update webhook');
+    }
+  };
+
+  const handleRotateSecret = async (webhook: Webhook) => {
+    if (!window.confirm(`Deliveries to ${webhook.name} will be signed with a new secret. Continue?`)) {
+      return;
+    }
+
+    try {
+      const response = await webhookApi.rotateSecret(webhook.id);
+      setSecret({ webhookName: webhook.name, value: response.data.secret });
+      toast.success('Secret rotated');
+    } catch (err) {
+      toast.error((err as Error).message || 'Failed to rotate secret');
+    }
+  };
+
+  const handleDelete = async (webhook: Webhook) => {
+    if (!window.confirm(`Delete ${webhook.name} and its delivery log?`)) {
+      return;
+    }
+
+    try {
+      await webhookApi.deleteWebhook(webhook.id);
+      setWebhooks(current => current.filter(item => item.id !== webhook.id));
+      if (webhookFilter === webhook.id) {
+        setWebhookFilter('');
+      }
+      await loadDeliveries();
+      toast.success('Webhook deleted');
+    } catch (err) {
+      toast.error((err as Error).message || 'Failed to delete webhook');
+    }
+  };
+
+  const handleRedeliver = async (delivery: WebhookDelivery) => {
+    try {
+      await webhookApi.redeliver(delivery.id);
+      await loadDeliveries();
+      toast.success('Delivery queued');
+    } catch (err) {
+      toast.error((err as Error).message || 'Failed to redeliver');
+    }
+  };
+
+  const webhookName = (webhookId: string): string =>
+    webhooks.find(webhook => webhook.id === webhookId)?.name || webhookId;
+
+  const projectName = (projectId: string | null): string =>
+    projectId
+      ? projects.find(project => project.id === projectId)?.name || projectId
+      : 'All projects';
+
+  if (isLoadingPermissions) {
+    return <div role="alert" aria-busy="true">Loading webhooks...</div>;
+  }
+
+  if (!can(Permission.WEBHOOK_MANAGE)) {
+    return <Alert severity="warning">You do not have permission to manage webhooks.</Alert>;
+  }
+
+  return (
+    <Stack spacing={3} sx={{ p: 3 }}>
+      <Typography variant="h4" component="h1">Webhooks</Typography>
+
+      {error && (
+        <Alert severity="error" onClose={() => setError(null)}>{error}</Alert>
+      )}
+
+      {secret && (
+        <Alert severity="info" onClose={() => setSecret(null)}>
+          <Typography variant="body2" gutterBottom>
+            Secret of {secret.webhookName}. Copy it now; it is not shown again. Receivers verify the
+            X-Webhook-Signature header, the HMAC-SHA256 of the timestamp and body keyed with it.
+          </Typography>
+          <TextField
+            value={secret.value}
+            size="small"
+            fullWidth
+            InputProps={{ readOnly: true }}
+            onFocus={event => event.target.select()}
+          />
+        </Alert>
+      )}
+
+      <Paper component="form" onSubmit={handleCreate} sx={{ p: 2 }}>
+        <Stack spacing={2}>
+          <Typography variant="h6" component="h2">New webhook</Typography>
+          <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+            <TextField
+              label="Name"
+              size="small"
+              required
+              value={form.name}
+              inputProps={{ maxLength: 100 }}
+              onChange={event => setForm({ ...form, name: event.target.value })}
+            />
+            <TextField
+              label="URL"
+              type="url"
+              size="small"
+              required
+              fullWidth
+              value={form.url}
+              placeholder="https://hooks.example.com/tasks"
+              onChange={event => setForm({ ...form, url: event.target.value })}
+            />
+            <FormControl size="small" sx={{ minWidth: 200 }}>
+              <InputLabel id="webhook-project-label">Project</InputLabel>
+              <Select
+                labelId="webhook-project-label"
+                label="Project"
+                value={form.projectId}
+                onChange={event => setForm({ ...form, projectId: event.target.value as string })}
+              >
+                <MenuItem value="">All projects</MenuItem>
+                {projects.map(project => (
+                  <MenuItem key={project.id} value={project.id}>{project.name}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Stack>
+          <FormGroup row>
+            {Object.values(WebhookEventType).map(event => (
+              <FormControlLabel
+                key={event}
+                control={<Checkbox checked={form.events.includes(event)} onChange={() => toggleEvent(event)} />}
+                label={WEBHOOK_EVENT_LABELS[event]}
+              />
+            ))}
+          </FormGroup>
+          <Box>
+            <Button type="submit" variant="contained" disabled={isBusy || form.events.length === 0}>
+              Create webhook
+            </Button>
+          </Box>
+        </Stack>
+      </Paper>
+
+      <Paper sx={{ p: 2 }}>
+        <Typography variant="h6" component="h2" gutterBottom>Subscriptions</Typography>
+        {webhooks.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">No webhooks yet.</Typography>
+        ) : (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Name</TableCell>
+                <TableCell>URL</TableCell>
+                <TableCell>Project</TableCell>
+                <TableCell>Events</TableCell>
+                <TableCell>Active</TableCell>
+                <TableCell align="right">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {webhooks.map(webhook => (
+                <TableRow key={webhook.id}>
+                  <TableCell>{webhook.name}</TableCell>
+                  <TableCell sx={{ wordBreak: 'break-all' }}>{webhook.url}</TableCell>
+                  <TableCell>{projectName(webhook.projectId)}</TableCell>
+                  <TableCell>
+                    <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+                      {webhook.events.map(event => (
+                        <Chip key={event} size="small" label={WEBHOOK_EVENT_LABELS[event]} />
+                      ))}
+                    </Box>
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={webhook.active}
+                      onChange={() => handleToggleActive(webhook)}
+                      inputProps={{ 'aria-label': `Toggle ${webhook.name}` }}
+                    />
+                  </TableCell>
+                  <TableCell align="right">
+                    <Stack direction="row" spacing={1} justifyContent="flex-end">
+                      <Button size="small" onClick={() => handleRotateSecret(webhook)}>Rotate secret</Button>
+                      <Button size="small" color="error" onClick={() => handleDelete(webhook)}>Delete</Button>
+                    </Stack>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </Paper>
+
+      <Paper sx={{ p: 2 }}>
+        <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2} alignItems={{ sm: 'center' }} sx={{ mb: 2 }}>
+          <Typography variant="h6" component="h2" sx={{ flexGrow: 1 }}>Recent deliveries</Typography>
+          <FormControl size="small" sx={{ minWidth: 180 }}>
+            <InputLabel id="delivery-webhook-label">Webhook</InputLabel>
+            <Select
+              labelId="delivery-webhook-label"
+              label="Webhook"
+              value={webhookFilter}
+              onChange={event => {
+                setWebhookFilter(event.target.value as string);
+                setPage(1);
+              }}
+            >
+              <MenuItem value="">All webhooks</MenuItem>
+              {webhooks.map(webhook => (
+                <MenuItem key={webhook.id} value={webhook.id}>{webhook.name}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <FormControl size="small" sx={{ minWidth: 160 }}>
+            <InputLabel id="delivery-status-label">Status</InputLabel>
+            <Select
+              labelId="delivery-status-label"
+              label="Status"
+              value={statusFilter}
+              onChange={event => {
+                setStatusFilter(event.target.value as WebhookDeliveryStatus | '');
+                setPage(1);
+              }}
+            >
+              <MenuItem value="">All statuses</MenuItem>
+              {Object.values(WebhookDeliveryStatus).map(status => (
+                <MenuItem key={status} value={status}>{status}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <Button size="small" onClick={loadDeliveries}>Refresh</Button>
+        </Stack>
+
+        {!deliveries || deliveries.items.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">No deliveries.</Typography>
+        ) : (
+          <>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Created</TableCell>
+                  <TableCell>Webhook</TableCell>
+                  <TableCell>Event</TableCell>
+                  <TableCell>Status</TableCell>
+                  <TableCell>Outcome</TableCell>
+                  <TableCell align="right">Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {deliveries.items.map(delivery => (
+                  <TableRow key={delivery.id}>
+                    <TableCell>{formatDate(delivery.createdAt)}</TableCell>
+                    <TableCell>{webhookName(delivery.webhookId)}</TableCell>
+                    <TableCell>
+                      {WEBHOOK_EVENT_LABELS[delivery.eventType]}
+                      {delivery.redeliveryOfId && (
+                        <Chip size="small" variant="outlined" label="Redelivery" sx={{ ml: 1 }} />
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Chip size="small" color={getDeliveryStatusColor(delivery.status)} label={delivery.status} />
+                    </TableCell>
+                    <TableCell title={delivery.responseBody || delivery.error || undefined}>
+                      {describeDeliveryOutcome(delivery)}
+                      {delivery.nextAttemptAt && (
+                        <Typography variant="caption" display="block" color="text.secondary">
+                          Next attempt {formatDate(delivery.nextAttemptAt)}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell align="right">
+                      <Button
+                        size="small"
+                        disabled={!canRedeliver(delivery)}
+                        onClick={() => handleRedeliver(delivery)}
+                      >
+                        Redeliver
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <Stack direction="row" spacing={1} justifyContent="flex-end" sx={{ mt: 2 }}>
+              <Button size="small" disabled={page === 1} onClick={() => setPage(page - 1)}>Newer</Button>
+              <Button size="small" disabled={!deliveries.hasMore} onClick={() => setPage(page + 1)}>Older</Button>
+            </Stack>
+          </>
+        )}
+      </Paper>
+    </Stack>
+  );
+};
+
+export default Webhooks;
@@ -2,7 +2,20 @@ import React, { useState, useEffect, useCallback, useRef } from 'react'; // v18.
 import { useParams, useNavigate } from 'react-router-dom'; // v6.0.0
 import { format, formatDistance } from 'date-fns'; // v2.30.0
 import { Task, TaskStatus, TaskPriority, UpdateTaskDTO, TaskHistory } from '../../types/task.types';
+import { Comment } from '../../types/comment.types';
 import { useTheme } from '../../hooks/useTheme';
+import { useAuth } from '../../hooks/useAuth';
+import { usePermissions } from '../../hooks/usePermissions';
+import TaskComments from '../../components/task/TaskComments';
+import TaskAttachments from '../../components/task/TaskAttachments';
+import TaskDependencies from '../../components/task/TaskDependencies';
+import TaskSubtasks from '../../components/task/TaskSubtasks';
+import TaskChecklist from '../../components/task/TaskChecklist';
+import TaskHistoryTimeline from '../../components/task/TaskHistoryTimeline';
+import { ProgressBar } from '../../components/common/ProgressBar';
+import { Tabs, TabPanel } from '../../components/common/Tabs';
+import { UserRole } from '../../types/user.types';
+import { Permission } from '../../types/permission.types';
 
 // Constants for component
 const POLLING_INTERVAL = 30000; // 30 seconds
@@ -17,6 +30,7 @@ interface TaskDetailState {
   taskHistory: TaskHistory[];
   isRealTimeEnabled: boolean;
   retryCount: number;
+  latestComment: Comment | null;
 }
 
 /**
@@ -27,6 +41,8 @@ const TaskDetail: React.FC = () => {
   const { taskId } = useParams<{ taskId: string }>();
   const navigate = useNavigate();
   const { themeMode, isHighContrast } = useTheme();
+  const { user } = useAuth();
+  const { can } = usePermissions();
   
   // Component state
   const [state, setState] = useState<TaskDetailState>({
@@ -36,7 +52,8 @@ const TaskDetail: React.FC = () => {
     isSaving: false,
     taskHistory: [],
     isRealTimeEnabled: true,
-    retryCount: 0
+    retryCount: 0,
+    latestComment: null
   });
 
   // Refs for autosave and WebSocket
@@ -113,7 +130,9 @@ const TaskDetail: React.FC = () => {
       });
 
       if (!response.ok) {
-        throw new Error('Failed to update task');
+        // Surface server reasons such as TASK_BLOCKED instead of a generic failure
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error?.message || 'Failed to update task');
       }
 
       const updatedTask = await response.json();
@@ -144,6 +163,27 @@ const TaskDetail: React.FC = () => {
     
     ws.onmessage = (event) => {
       const update = JSON.parse(event.data);
+
+      // New comments are rendered by the comments thread, not merged into the task
+      if (update.type === 'COMMENT_NEW') {
+        const { payload } = update;
+        setState(prev => ({
+          ...prev,
+          latestComment: {
+            id: payload.commentId,
+            taskId: payload.taskId,
+            content: payload.content,
+            authorId: payload.createdBy,
+            parentId: payload.parentId ?? null,
+            isEdited: payload.isEdited,
+            version: 1,
+            createdAt: payload.createdAt,
+            updatedAt: payload.createdAt
+          }
+        }));
+        return;
+      }
+
       setState(prev => ({
         ...prev,
         task: { ...prev.task!, ...update },
@@ -260,6 +300,17 @@ const TaskDetail: React.FC = () => {
           </select>
         </div>
 
+        {state.task.progress && state.task.progress.total > 0 && (
+          <div className="task-progress">
+            <ProgressBar
+              value={state.task.progress.percentage}
+              variant={state.task.progress.percentage === 100 ? 'success' : 'primary'}
+              label={`${state.task.progress.percentage}% complete`}
+              ariaLabel="Task progress"
+            />
+          </div>
+        )}
+
         <div className="task-description">
           <label htmlFor="task-description">Description:</label>
           <textarea
@@ -287,19 +338,71 @@ const TaskDetail: React.FC = () => {
             aria-label="Task due date"
           />
         </div>
+
+        {state.task.recurrence?.isActive && (
+          <div className="task-recurrence">
+            <span>
+              Repeats {state.task.recurrence.rrule || state.task.recurrence.frequency.toLowerCase()}
+              {state.task.recurrence.nextOccurrenceAt && (
+                <> · next {format(new Date(state.task.recurrence.nextOccurrenceAt), 'PP')}</>
+              )}
+            </span>
+          </div>
+        )}
       </section>
 
       <section className="task-history" aria-label="Task History">
         <h2>History</h2>
-        <ul>
-          {state.taskHistory.map((history, index) => (
-            <li key={index} className="history-item">
-              {format(new Date(history.timestamp), 'PPpp')} - {history.description}
-            </li>
-          ))}
-        </ul>
+        <Tabs id="task-history-tabs" variant="pills" size="small">
+          <TabPanel label="Timeline">
+            <TaskHistoryTimeline
+              taskId={taskId!}
+              currentUserId={user?.id}
+              refreshKey={String(state.task.updatedAt)}
+            />
+          </TabPanel>
+          <TabPanel label="Live updates">
+            <ul>
+              {state.taskHistory.map((history, index) => (
+                <li key={index} className="history-item">
+                  {format(new Date(history.timestamp), 'PPpp')} - {history.description}
+                </li>
+              ))}
+            </ul>
+          </TabPanel>
+        </Tabs>
       </section>
 
+      <TaskSubtasks
+        task={state.task}
+        canEdit={can(Permission.TASK_CREATE)}
+        onChange={fetchTaskDetails}
+      />
+
+      <TaskChecklist
+        taskId={taskId!}
+        canEdit={can(Permission.CHECKLIST_UPDATE)}
+        onChange={fetchTaskDetails}
+      />
+
+      <TaskDependencies
+        taskId={taskId!}
+        canEdit={can(Permission.DEPENDENCY_UPDATE)}
+        onChange={fetchTaskDetails}
+      />
+
+      <TaskAttachments
+        taskId={taskId!}
+        currentUserId={user?.id}
+        canManage={user?.role === UserRole.ADMIN || user?.role === UserRole.PROJECT_MANAGER}
+      />
+
+      <TaskComments
+        taskId={taskId!}
+        currentUserId={user?.id}
+        incomingComment={state.latestComment}
+      />
+
       <div className="task-actions">
         <button
           onClick={() => navigate(-1)}
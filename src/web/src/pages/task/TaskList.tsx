@@ -1,16 +1,20 @@
 /**
  * @fileoverview Enhanced task list page component with virtualization, accessibility,
  * and comprehensive filtering capabilities. Implements Material Design 3 principles.
+ * The page state lives in the URL so that every configuration can be bookmarked, and
+ * named configurations can be saved as views.
  * @version 1.0.0
  */
 
 import React, { useEffect, useState, useCallback, useMemo, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom'; // v6.0.0
+import { useDispatch } from 'react-redux'; // v8.1.0
 import { useVirtualizer } from '@tanstack/react-virtual'; // v3.0.0
-import { 
-  Box, 
-  Paper, 
-  Typography, 
-  TextField, 
+import {
+  Box,
+  Paper,
+  Typography,
+  TextField,
   IconButton,
   Chip,
   FormControl,
@@ -19,98 +23,230 @@ import {
   MenuItem,
   Toolbar,
   Tooltip,
-  CircularProgress,
-  Alert
+  ToggleButton,
+  ToggleButtonGroup,
+  LinearProgress,
+  Alert,
+  Checkbox
 } from '@mui/material'; // v5.14.0
 import {
-  FilterList as FilterIcon,
   Search as SearchIcon,
   Clear as ClearIcon,
-  Sort as SortIcon,
   ViewList as ViewListIcon,
-  ViewModule as ViewModuleIcon
+  ViewModule as ViewModuleIcon,
+  ViewKanban as ViewBoardIcon
 } from '@mui/icons-material'; // v5.14.0
 
-import { 
-  Task, 
-  TaskStatus, 
-  TaskPriority, 
-  TaskQueryParams 
+import {
+  Task,
+  TaskStatus,
+  TaskPriority,
+  BulkUpdateResult
 } from '../../types/task.types';
+import { SavedView, SavedViewGrouping, SavedViewLayout, SavedViewState } from '../../types/savedView.types';
+import { ExportFormat } from '../../types/export.types';
 import { useTaskQuery } from '../../hooks/useTaskQuery';
 import { useDebounce } from '../../hooks/useDebounce';
 import { useLocalStorage } from '../../hooks/useLocalStorage';
+import { useAuth } from '../../hooks/useAuth';
+import { savedViewApi } from '../../api/savedView.api';
+import { exportApi } from '../../api/export.api';
+import { applyViewState, updateTask } from '../../redux/task/taskSlice';
+import {
+  VIEW_PARAM,
+  searchParamsToViewState,
+  viewStateToSearchParams,
+  toViewState,
+  toTaskQueryParams
+} from '../../utils/savedView.utils';
+import { formatBulkSummary, getFailedBulkIds } from '../../utils/bulk.utils';
+import { getExportFileName, saveExportFile, toTaskExportColumns } from '../../utils/export.utils';
 import { TaskCard } from '../../components/task/TaskCard';
+import TaskBoard, { getLaneKey } from '../../components/task/TaskBoard';
+import SavedViewMenu from '../../components/task/SavedViewMenu';
+import TaskQueryInput from '../../components/task/TaskQueryInput';
+import TaskBulkActions from '../../components/task/TaskBulkActions';
 import { TaskListSkeleton } from '../../components/task/TaskListSkeleton';
+import ExportMenu from '../../components/common/ExportMenu';
 import { ErrorBoundary } from '../../components/common/ErrorBoundary';
 import { withSuspense } from '../../hoc/withSuspense';
 
 // Constants for virtualization and filtering
 const ITEM_SIZE = 60;
+const HEADER_SIZE = 40;
 const OVERSCAN_COUNT = 5;
 const DEBOUNCE_DELAY = 300;
 const DEFAULT_PAGE_SIZE = 20;
 
-interface TaskViewState {
-  view: 'list' | 'grid';
-  sortBy: keyof Task;
-  sortOrder: 'asc' | 'desc';
-}
+/**
+ * List columns the column chooser offers; custom fields are added as `cf:<key>`
+ */
+const TASK_COLUMNS: { id: string; label: string }[] = [
+  { id: 'title', label: 'Title' },
+  { id: 'status', label: 'Status' },
+  { id: 'priority', label: 'Priority' },
+  { id: 'assigneeId', label: 'Assignee' },
+  { id: 'projectId', label: 'Project' },
+  { id: 'dueDate', label: 'Due date' },
+  { id: 'tags', label: 'Tags' }
+];
+
+const GROUPING_LABELS: Record<SavedViewGrouping, string> = {
+  none: 'No grouping',
+  assignee: 'Assignee',
+  priority: 'Priority',
+  project: 'Project'
+};
+
+/**
+ * Row of the virtualized list: a group header or a task
+ */
+type ListRow =
+  | { type: 'group'; key: string; label: string; count: number }
+  | { type: 'task'; task: Task };
+
+/**
+ * Formats a task attribute for a list column
+ */
+const formatColumnValue = (task: Task, column: string): string => {
+  const value = column.startsWith('cf:')
+    ? task.customFields?.[column.slice(3)]
+    : (task as unknown as Record<string, unknown>)[column];
+
+  if (value === undefined || value === null || value === '') return '—';
+  if (Array.isArray(value)) return value.join(', ');
+  if (column === 'dueDate') return new Date(value as string).toLocaleDateString();
+  return String(value);
+};
 
 /**
  * Enhanced task list page component with virtualization and accessibility features.
  * Implements comprehensive filtering, sorting, and view options.
  */
 const TaskListPage: React.FC = () => {
+  const dispatch = useDispatch();
+  const { user } = useAuth();
+
   // Refs for virtualization and accessibility
   const containerRef = useRef<HTMLDivElement>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
 
+  // Page state is read from the URL
+  const [searchParams, setSearchParams] = useSearchParams();
+  const viewState = useMemo(() => searchParamsToViewState(searchParams), [searchParams]);
+  const viewId = searchParams.get(VIEW_PARAM);
+
   // Local state management
-  const [searchTerm, setSearchTerm] = useState('');
+  const [searchTerm, setSearchTerm] = useState(viewState.filters.search || '');
   const [selectedTask, setSelectedTask] = useState<string | null>(null);
-  const [viewState, setViewState] = useLocalStorage<TaskViewState>('taskViewState', {
-    view: 'list',
-    sortBy: 'createdAt',
-    sortOrder: 'desc'
-  });
-
-  // Filter state management
-  const [filters, setFilters] = useState<TaskQueryParams>({
-    page: 1,
-    limit: DEFAULT_PAGE_SIZE,
-    status: undefined,
-    priority: undefined,
-    sortBy: viewState.sortBy,
-    sortOrder: viewState.sortOrder,
-    search: ''
-  });
+  const [viewError, setViewError] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [bulkSummary, setBulkSummary] = useState<{ severity: 'success' | 'warning'; message: string } | null>(null);
+  const [cardView, setCardView] = useLocalStorage<'list' | 'grid'>('taskCardView', 'list');
 
   // Debounced search handler
   const debouncedSearch = useDebounce(searchTerm, DEBOUNCE_DELAY);
 
   // Task query hook with pagination and filtering
-  const { 
-    data: taskData, 
-    isLoading, 
-    isError, 
+  const {
+    data: taskData,
+    isLoading,
+    isError,
     error,
     isFetching,
-    refetch 
-  } = useTaskQuery(filters);
+    refetch
+  } = useTaskQuery(toTaskQueryParams(viewState, 1, DEFAULT_PAGE_SIZE));
+
+  /**
+   * List rows with a header in front of every group
+   */
+  const rows = useMemo<ListRow[]>(() => {
+    const tasks = taskData?.items || [];
+    if (viewState.groupBy === 'none') {
+      return tasks.map(task => ({ type: 'task' as const, task }));
+    }
+
+    const groups = new Map<string, Task[]>();
+    tasks.forEach(task => {
+      const key = getLaneKey(task, viewState.groupBy);
+      groups.set(key, [...(groups.get(key) || []), task]);
+    });
+
+    return Array.from(groups.entries()).flatMap(([key, groupTasks]) => [
+      { type: 'group' as const, key, label: key || 'Unassigned', count: groupTasks.length },
+      ...groupTasks.map(task => ({ type: 'task' as const, task }))
+    ]);
+  }, [taskData, viewState.groupBy]);
 
   // Virtualization setup
   const virtualizer = useVirtualizer({
-    count: taskData?.total || 0,
+    count: rows.length,
     getScrollElement: () => scrollRef.current,
-    estimateSize: () => ITEM_SIZE,
+    estimateSize: index => (rows[index].type === 'group' ? HEADER_SIZE : ITEM_SIZE),
     overscan: OVERSCAN_COUNT
   });
 
+  /**
+   * Values the query input offers: workflow states and the tags of the loaded tasks
+   */
+  const queryHints = useMemo(() => ({
+    statuses: Object.values(TaskStatus),
+    tags: Array.from(new Set((taskData?.items || []).flatMap(task => task.tags || []))).sort()
+  }), [taskData]);
+
+  /**
+   * Selected tasks among the loaded ones, in list order
+   */
+  const selectedTasks = useMemo(
+    () => (taskData?.items || []).filter(task => selectedIds.includes(task.id)),
+    [taskData, selectedIds]
+  );
+  const loadedCount = taskData?.items.length || 0;
+
+  /**
+   * Starts over with an empty selection whenever another set of tasks is shown
+   */
+  useEffect(() => {
+    setSelectedIds([]);
+  }, [searchParams]);
+
   // Memoized active filters count
   const activeFiltersCount = useMemo(() => {
-    return Object.values(filters).filter(value => value !== undefined).length - 2; // Exclude page and limit
-  }, [filters]);
+    return Object.values(viewState.filters).filter(value => value !== undefined).length;
+  }, [viewState.filters]);
+
+  /**
+   * Writes a changed page state to the URL, keeping the view it was opened from
+   */
+  const updateViewState = useCallback((changes: Partial<SavedViewState>) => {
+    setSearchParams(viewStateToSearchParams({ ...viewState, ...changes }, viewId));
+  }, [setSearchParams, viewState, viewId]);
+
+  /**
+   * Opens a saved view by writing its state to the URL
+   */
+  const handleOpenView = useCallback((view: SavedView) => {
+    setSearchTerm(view.filters.search || '');
+    setSearchParams(viewStateToSearchParams(toViewState(view), view.id));
+  }, [setSearchParams]);
+
+  /**
+   * Loads a view whose link carries only its ID, e.g. one shared before it was changed
+   */
+  useEffect(() => {
+    if (!viewId || Array.from(searchParams.keys()).some(key => key !== VIEW_PARAM)) return;
+
+    savedViewApi.getView(viewId)
+      .then(response => handleOpenView(response.data))
+      .catch(err => setViewError(`Failed to open view: ${err.message}`));
+  }, [viewId, searchParams, handleOpenView]);
+
+  /**
+   * Mirrors the page state into the store for the rest of the app
+   */
+  useEffect(() => {
+    dispatch(applyViewState({ viewId, view: viewState }));
+  }, [dispatch, viewId, viewState]);
 
   /**
    * Handles search input changes with debouncing
@@ -123,62 +259,111 @@ const TaskListPage: React.FC = () => {
    * Updates filters when search term changes
    */
   useEffect(() => {
-    setFilters(prev => ({
-      ...prev,
-      search: debouncedSearch,
-      page: 1 // Reset to first page on search
-    }));
-  }, [debouncedSearch]);
+    if ((viewState.filters.search || '') === debouncedSearch) return;
+    updateViewState({ filters: { ...viewState.filters, search: debouncedSearch || undefined } });
+  }, [debouncedSearch]); // eslint-disable-line react-hooks/exhaustive-deps
 
   /**
    * Handles filter changes with type safety
    */
-  const handleFilterChange = useCallback(<K extends keyof TaskQueryParams>(
+  const handleFilterChange = useCallback(<K extends keyof SavedViewState['filters']>(
     key: K,
-    value: TaskQueryParams[K]
+    value: SavedViewState['filters'][K]
   ) => {
-    setFilters(prev => ({
-      ...prev,
-      [key]: value,
-      page: 1 // Reset to first page on filter change
-    }));
-  }, []);
+    updateViewState({ filters: { ...viewState.filters, [key]: value || undefined } });
+  }, [updateViewState, viewState.filters]);
 
   /**
-   * Handles view mode toggle between list and grid
+   * Handles card mode toggle between list and grid
    */
-  const handleViewChange = useCallback((newView: 'list' | 'grid') => {
-    setViewState(prev => ({
-      ...prev,
-      view: newView
-    }));
-  }, [setViewState]);
+  const handleCardViewChange = useCallback((newView: 'list' | 'grid') => {
+    setCardView(newView);
+  }, [setCardView]);
 
   /**
    * Resets all filters to default values
    */
   const handleResetFilters = useCallback(() => {
-    setFilters({
-      page: 1,
-      limit: DEFAULT_PAGE_SIZE,
-      sortBy: 'createdAt',
-      sortOrder: 'desc'
-    });
+    updateViewState({ filters: {} });
     setSearchTerm('');
+  }, [updateViewState]);
+
+  /**
+   * Moves a task on the board to another column
+   */
+  const handleBoardUpdate = useCallback(async (taskId: string, status: string) => {
+    await (dispatch as any)(updateTask({ id: taskId, updates: { status } })).unwrap();
+    refetch();
+  }, [dispatch, refetch]);
+
+  /**
+   * Adds a task to the selection or removes it
+   */
+  const handleToggleSelect = useCallback((taskId: string) => {
+    setSelectedIds(current => current.includes(taskId)
+      ? current.filter(id => id !== taskId)
+      : [...current, taskId]);
   }, []);
 
+  /**
+   * Selects all loaded tasks, or none when all are selected
+   */
+  const handleToggleSelectAll = useCallback(() => {
+    setSelectedIds(selectedTasks.length === loadedCount
+      ? []
+      : (taskData?.items || []).map(task => task.id));
+  }, [selectedTasks.length, loadedCount, taskData]);
+
+  /**
+   * Reports a bulk change and keeps the tasks that were not updated selected for a retry
+   */
+  const handleBulkApplied = useCallback((result: BulkUpdateResult) => {
+    const failedIds = getFailedBulkIds(result);
+    setBulkSummary({
+      severity: failedIds.length ? 'warning' : 'success',
+      message: formatBulkSummary(result)
+    });
+    setSelectedIds(failedIds);
+    refetch();
+  }, [refetch]);
+
+  /**
+   * Downloads every task matching the filters, with the chosen list columns
+   */
+  const handleExport = useCallback(async (format: ExportFormat) => {
+    try {
+      const content = await exportApi.exportTasks({
+        ...toTaskQueryParams(viewState, 1, DEFAULT_PAGE_SIZE),
+        format,
+        columns: toTaskExportColumns(viewState.columns)
+      });
+      saveExportFile(content, getExportFileName('tasks', format));
+    } catch (err) {
+      setViewError(`Export failed: ${(err as Error).message}`);
+    }
+  }, [viewState]);
+
   /**
    * Renders the filter toolbar with all filter controls
    */
   const renderFilterToolbar = () => (
     <Toolbar
-      sx={{ 
-        gap: 2, 
+      sx={{
+        gap: 2,
         flexWrap: 'wrap',
         minHeight: { xs: 'auto', sm: 64 },
         py: 1
       }}
     >
+      {user && (
+        <SavedViewMenu
+          state={viewState}
+          activeViewId={viewId}
+          currentUserId={user.id}
+          onOpen={handleOpenView}
+        />
+      )}
+
       <TextField
         size="small"
         placeholder="Search tasks..."
@@ -195,10 +380,17 @@ const TaskListPage: React.FC = () => {
         sx={{ flexGrow: { xs: 1, sm: 0 }, minWidth: 200 }}
       />
 
+      <TaskQueryInput
+        value={viewState.filters.q || ''}
+        onSubmit={query => handleFilterChange('q', query)}
+        hints={queryHints}
+        error={viewState.filters.q && isError ? error?.message : null}
+      />
+
       <FormControl size="small" sx={{ minWidth: 120 }}>
         <InputLabel>Status</InputLabel>
         <Select
-          value={filters.status || ''}
+          value={viewState.filters.status || ''}
           onChange={e => handleFilterChange('status', e.target.value as TaskStatus)}
           label="Status"
         >
@@ -214,7 +406,7 @@ const TaskListPage: React.FC = () => {
       <FormControl size="small" sx={{ minWidth: 120 }}>
         <InputLabel>Priority</InputLabel>
         <Select
-          value={filters.priority || ''}
+          value={viewState.filters.priority || ''}
           onChange={e => handleFilterChange('priority', e.target.value as TaskPriority)}
           label="Priority"
         >
@@ -227,16 +419,80 @@ const TaskListPage: React.FC = () => {
         </Select>
       </FormControl>
 
+      <FormControl size="small" sx={{ minWidth: 140 }}>
+        <InputLabel>Group by</InputLabel>
+        <Select
+          value={viewState.groupBy}
+          onChange={e => updateViewState({ groupBy: e.target.value as SavedViewGrouping })}
+          label="Group by"
+        >
+          {Object.entries(GROUPING_LABELS).map(([grouping, label]) => (
+            <MenuItem key={grouping} value={grouping}>
+              {label}
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+
+      {viewState.layout === SavedViewLayout.LIST && (
+        <FormControl size="small" sx={{ minWidth: 160 }}>
+          <InputLabel>Columns</InputLabel>
+          <Select
+            multiple
+            value={viewState.columns}
+            onChange={e => updateViewState({ columns: e.target.value as string[] })}
+            label="Columns"
+            renderValue={selected => (selected.length ? `${selected.length} columns` : 'Default')}
+          >
+            {TASK_COLUMNS.map(column => (
+              <MenuItem key={column.id} value={column.id}>
+                {column.label}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      )}
+
       <Box sx={{ flexGrow: 1 }} />
 
-      <Tooltip title="Toggle view">
-        <IconButton
-          onClick={() => handleViewChange(viewState.view === 'list' ? 'grid' : 'list')}
-          color="inherit"
-        >
-          {viewState.view === 'list' ? <ViewModuleIcon /> : <ViewListIcon />}
-        </IconButton>
-      </Tooltip>
+      <ExportMenu onExport={handleExport} disabled={loadedCount === 0} ariaLabel="Export tasks" />
+
+      {viewState.layout === SavedViewLayout.LIST && loadedCount > 0 && (
+        <Tooltip title="Select all">
+          <Checkbox
+            checked={selectedTasks.length === loadedCount}
+            indeterminate={selectedTasks.length > 0 && selectedTasks.length < loadedCount}
+            onChange={handleToggleSelectAll}
+            inputProps={{ 'aria-label': 'Select all tasks' }}
+          />
+        </Tooltip>
+      )}
+
+      <ToggleButtonGroup
+        size="small"
+        exclusive
+        value={viewState.layout}
+        onChange={(_, layout) => layout && updateViewState({ layout })}
+        aria-label="Layout"
+      >
+        <ToggleButton value={SavedViewLayout.LIST} aria-label="List">
+          <ViewListIcon />
+        </ToggleButton>
+        <ToggleButton value={SavedViewLayout.BOARD} aria-label="Board">
+          <ViewBoardIcon />
+        </ToggleButton>
+      </ToggleButtonGroup>
+
+      {viewState.layout === SavedViewLayout.LIST && viewState.columns.length === 0 && (
+        <Tooltip title="Toggle view">
+          <IconButton
+            onClick={() => handleCardViewChange(cardView === 'list' ? 'grid' : 'list')}
+            color="inherit"
+          >
+            {cardView === 'list' ? <ViewModuleIcon /> : <ViewListIcon />}
+          </IconButton>
+        </Tooltip>
+      )}
 
       {activeFiltersCount > 0 && (
         <Tooltip title="Reset filters">
@@ -250,6 +506,61 @@ const TaskListPage: React.FC = () => {
     </Toolbar>
   );
 
+  /**
+   * Renders a task with its selection checkbox
+   */
+  const renderSelectableTask = (task: Task) => (
+    <Box sx={{ display: 'flex', alignItems: 'center' }}>
+      <Checkbox
+        checked={selectedIds.includes(task.id)}
+        onChange={() => handleToggleSelect(task.id)}
+        inputProps={{ 'aria-label': `Select ${task.title}` }}
+      />
+      <Box sx={{ flex: 1, minWidth: 0 }}>{renderTask(task)}</Box>
+    </Box>
+  );
+
+  /**
+   * Renders a task as a card, or as a row of the chosen columns
+   */
+  const renderTask = (task: Task) => {
+    if (viewState.columns.length === 0) {
+      return (
+        <TaskCard
+          task={task}
+          selected={selectedTask === task.id}
+          onSelect={setSelectedTask}
+          view={cardView}
+        />
+      );
+    }
+
+    return (
+      <Box
+        role="row"
+        onClick={() => setSelectedTask(task.id)}
+        aria-selected={selectedTask === task.id}
+        sx={{
+          display: 'grid',
+          gridTemplateColumns: `repeat(${viewState.columns.length}, minmax(0, 1fr))`,
+          gap: 2,
+          px: 2,
+          height: ITEM_SIZE,
+          alignItems: 'center',
+          borderBottom: 1,
+          borderColor: 'divider',
+          cursor: 'pointer'
+        }}
+      >
+        {viewState.columns.map(column => (
+          <Typography key={column} role="cell" variant="body2" noWrap>
+            {formatColumnValue(task, column)}
+          </Typography>
+        ))}
+      </Box>
+    );
+  };
+
   /**
    * Renders the main task list content with virtualization
    */
@@ -270,6 +581,19 @@ const TaskListPage: React.FC = () => {
       );
     }
 
+    if (viewState.layout === SavedViewLayout.BOARD) {
+      return (
+        <Box sx={{ flex: 1, overflow: 'auto' }}>
+          <TaskBoard
+            tasks={taskData.items}
+            swimlaneBy={viewState.groupBy}
+            onTaskUpdate={handleBoardUpdate}
+            onError={err => setViewError(err.message)}
+          />
+        </Box>
+      );
+    }
+
     return (
       <Box
         ref={scrollRef}
@@ -279,6 +603,31 @@ const TaskListPage: React.FC = () => {
           position: 'relative'
         }}
       >
+        {viewState.columns.length > 0 && (
+          <Box
+            role="row"
+            sx={{
+              display: 'grid',
+              gridTemplateColumns: `repeat(${viewState.columns.length}, minmax(0, 1fr))`,
+              gap: 2,
+              pl: 7,
+              pr: 2,
+              py: 1,
+              position: 'sticky',
+              top: 0,
+              zIndex: 1,
+              bgcolor: 'background.paper',
+              borderBottom: 1,
+              borderColor: 'divider'
+            }}
+          >
+            {viewState.columns.map(column => (
+              <Typography key={column} role="columnheader" variant="subtitle2" noWrap>
+                {TASK_COLUMNS.find(option => option.id === column)?.label || column.replace(/^cf:/, '')}
+              </Typography>
+            ))}
+          </Box>
+        )}
         <Box
           sx={{
             height: `${virtualizer.getTotalSize()}px`,
@@ -286,27 +635,31 @@ const TaskListPage: React.FC = () => {
             position: 'relative'
           }}
         >
-          {virtualizer.getVirtualItems().map(virtualRow => (
-            <Box
-              key={virtualRow.index}
-              data-index={virtualRow.index}
-              ref={virtualizer.measureElement}
-              sx={{
-                position: 'absolute',
-                top: 0,
-                left: 0,
-                width: '100%',
-                transform: `translateY(${virtualRow.start}px)`
-              }}
-            >
-              <TaskCard
-                task={taskData.items[virtualRow.index]}
-                selected={selectedTask === taskData.items[virtualRow.index].id}
-                onSelect={setSelectedTask}
-                view={viewState.view}
-              />
-            </Box>
-          ))}
+          {virtualizer.getVirtualItems().map(virtualRow => {
+            const row = rows[virtualRow.index];
+            return (
+              <Box
+                key={virtualRow.index}
+                data-index={virtualRow.index}
+                ref={virtualizer.measureElement}
+                sx={{
+                  position: 'absolute',
+                  top: 0,
+                  left: 0,
+                  width: '100%',
+                  transform: `translateY(${virtualRow.start}px)`
+                }}
+              >
+                {row.type === 'group' ? (
+                  <Typography variant="subtitle2" sx={{ px: 2, py: 1 }}>
+                    {row.label} ({row.count})
+                  </Typography>
+                ) : (
+                  renderSelectableTask(row.task)
+                )}
+              </Box>
+            );
+          })}
         </Box>
       </Box>
     );
@@ -323,7 +676,29 @@ const TaskListPage: React.FC = () => {
       }}
     >
       {renderFilterToolbar()}
-      
+
+      {viewError && (
+        <Alert severity="error" onClose={() => setViewError(null)} sx={{ mx: 2 }}>
+          {viewError}
+        </Alert>
+      )}
+
+      {bulkSummary && (
+        <Alert severity={bulkSummary.severity} onClose={() => setBulkSummary(null)} sx={{ mx: 2 }}>
+          {bulkSummary.message}
+        </Alert>
+      )}
+
+      {viewState.layout === SavedViewLayout.LIST && selectedTasks.length > 0 && (
+        <TaskBulkActions
+          tasks={selectedTasks}
+          statuses={queryHints.statuses}
+          onApplied={handleBulkApplied}
+          onClear={() => setSelectedIds([])}
+          onError={err => setViewError(`Bulk change failed: ${err.message}`)}
+        />
+      )}
+
       {isFetching && !isLoading && (
         <LinearProgress sx={{ position: 'absolute', top: 0, left: 0, right: 0 }} />
       )}
@@ -337,4 +712,4 @@ const TaskListPage: React.FC = () => {
 export default withSuspense(
   ErrorBoundary.wrap(TaskListPage),
   <TaskListSkeleton />
-);
\ No newline at end of file
+);
@@ -0,0 +1,194 @@
+/**
+ * @fileoverview Weekly timesheet page showing the time the current user logged per task
+ * and day, with the running timer.
+ * @version 1.0.0
+ */
+
+import React, { useState, useEffect, useCallback } from 'react'; // v18.2.0
+
+import { useAuth } from '../../hooks/useAuth';
+import { worklogApi } from '../../api/worklog.api';
+import { Timer, Timesheet as TimesheetData } from '../../types/worklog.types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Returns the Monday starting the UTC week of a date, as YYYY-MM-DD
+ */
+const startOfWeek = (date: Date): string => {
+  const sinceMonday = (date.getUTCDay() + 6) % 7;
+  return new Date(date.getTime() - sinceMonday * DAY_MS).toISOString().slice(0, 10);
+};
+
+/**
+ * Shifts a YYYY-MM-DD day by a number of days
+ */
+const addDays = (day: string, days: number): string =>
+  new Date(new Date(`${day}T00:00:00.000Z`).getTime() + days * DAY_MS).toISOString().slice(0, 10);
+
+/**
+ * Formats seconds as hours and minutes, e.g. 1:05
+ */
+const formatDuration = (seconds: number): string => {
+  const minutes = Math.round(seconds / 60);
+  return `${Math.floor(minutes / 60)}:${String(minutes % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Formats a day as a short weekday and date, e.g. Mon 4 Mar
+ */
+const formatDay = (day: string): string =>
+  new Date(`${day}T00:00:00.000Z`).toLocaleDateString(undefined, {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    timeZone: 'UTC'
+  });
+
+/**
+ * Timesheet page - Shows one week of logged time with navigation between weeks.
+ * The timer runs on the server, so a timer started on another device shows here too.
+ */
+const Timesheet: React.FC = () => {
+  const { user } = useAuth();
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date()));
+  const [timesheet, setTimesheet] = useState<TimesheetData | null>(null);
+  const [timer, setTimer] = useState<Timer | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Loads the timesheet of the selected week and the running timer
+   */
+  const loadTimesheet = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      const [timesheetResponse, timerResponse] = await Promise.all([
+        worklogApi.getUserTimesheet(user.id, { from: weekStart, to: addDays(weekStart, 6) }),
+        worklogApi.getTimer()
+      ]);
+      setTimesheet(timesheetResponse.data);
+      setTimer(timerResponse.data);
+    } catch (err) {
+      setError(`Failed to load timesheet: ${err.message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, weekStart]);
+
+  useEffect(() => {
+    loadTimesheet();
+  }, [loadTimesheet]);
+
+  // Tick the elapsed time of the running timer
+  useEffect(() => {
+    if (!timer) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [timer]);
+
+  /**
+   * Stops the running timer and refreshes the week with the logged entry
+   */
+  const stopTimer = useCallback(async () => {
+    try {
+      setError(null);
+      await worklogApi.stopTimer();
+      await loadTimesheet();
+    } catch (err) {
+      // Stopped from another device in the meantime
+      if (err.code === 'NOT_FOUND') {
+        await loadTimesheet();
+        return;
+      }
+      setError(`Failed to stop timer: ${err.message}`);
+    }
+  }, [loadTimesheet]);
+
+  const elapsed = timer ? Math.max(0, Math.floor((now - new Date(timer.startedAt).getTime()) / 1000)) : 0;
+
+  return (
+    <main className="timesheet-page" aria-label="Timesheet">
+      <h1>Timesheet</h1>
+
+      {timer && (
+        <div className="timesheet-timer" role="status">
+          <span className="timesheet-timer-elapsed">{formatDuration(elapsed)}</span>
+          {timer.note && <span className="timesheet-timer-note">{timer.note}</span>}
+          <button onClick={stopTimer}>Stop timer</button>
+        </div>
+      )}
+
+      <nav className="timesheet-week" aria-label="Week">
+        <button onClick={() => setWeekStart(addDays(weekStart, -7))} aria-label="Previous week">
+          ‹
+        </button>
+        <span>{formatDay(weekStart)} – {formatDay(addDays(weekStart, 6))}</span>
+        <button onClick={() => setWeekStart(addDays(weekStart, 7))} aria-label="Next week">
+          ›
+        </button>
+        <button
+          onClick={() => setWeekStart(startOfWeek(new Date()))}
+          disabled={weekStart === startOfWeek(new Date())}
+        >
+          This week
+        </button>
+      </nav>
+
+      {error && (
+        <div role="alert" className="timesheet-error">
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div aria-busy="true">Loading timesheet...</div>
+      ) : timesheet && (
+        <table className="timesheet-grid">
+          <thead>
+            <tr>
+              <th scope="col">Task</th>
+              {timesheet.days.map(day => (
+                <th key={day} scope="col">{formatDay(day)}</th>
+              ))}
+              <th scope="col">Total</th>
+            </tr>
+          </thead>
+          <tbody>
+            {timesheet.rows.map(row => (
+              <tr key={row.taskId}>
+                <th scope="row">{row.taskTitle}</th>
+                {row.seconds.map((seconds, index) => (
+                  <td key={timesheet.days[index]}>{seconds > 0 ? formatDuration(seconds) : ''}</td>
+                ))}
+                <td>{formatDuration(row.totalSeconds)}</td>
+              </tr>
+            ))}
+            {timesheet.rows.length === 0 && (
+              <tr>
+                <td colSpan={timesheet.days.length + 2} className="timesheet-empty">
+                  No time logged this week
+                </td>
+              </tr>
+            )}
+          </tbody>
+          <tfoot>
+            <tr>
+              <th scope="row">Total</th>
+              {timesheet.dailyTotals.map((seconds, index) => (
+                <td key={timesheet.days[index]}>{formatDuration(seconds)}</td>
+              ))}
+              <td>{formatDuration(timesheet.totalSeconds)}</td>
+            </tr>
+          </tfoot>
+        </table>
+      )}
+    </main>
+  );
+};
+
+export default Timesheet;
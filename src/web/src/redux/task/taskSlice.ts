@@ -19,6 +19,7 @@ import {
   TaskPriority, 
   TaskError 
 } from '../../types/task.types';
+import { SavedViewState } from '../../types/savedView.types';
 import { TaskApi } from '../../api/task.api';
 
 // Initialize TaskApi instance
@@ -50,6 +51,8 @@ interface TaskState extends ReturnType<typeof taskAdapter.getInitialState> {
     sortBy: keyof Task;
     sortOrder: 'asc' | 'desc';
   };
+  // Saved view the filters were restored from; cleared once they are changed by hand
+  activeViewId: string | null;
   totalTasks: number;
   currentPage: number;
   pageSize: number;
@@ -72,6 +75,7 @@ const initialState: TaskState = taskAdapter.getInitialState({
     sortBy: 'createdAt',
     sortOrder: 'desc'
   },
+  activeViewId: null,
   totalTasks: 0,
   currentPage: 1,
   pageSize: 10,
@@ -167,6 +171,23 @@ const taskSlice = createSlice({
     updateFilters: (state, action: PayloadAction<Partial<TaskState['filters']>>) => {
       state.filters = { ...state.filters, ...action.payload };
       state.currentPage = 1; // Reset pagination when filters change
+      state.activeViewId = null;
+    },
+    applyViewState: (state, action: PayloadAction<{ viewId: string | null; view: SavedViewState }>) => {
+      const { filters, projectId, sortBy, sortOrder } = action.payload.view;
+      state.filters = {
+        status: filters.status as TaskStatus | undefined,
+        priority: filters.priority,
+        assigneeId: filters.assigneeId,
+        projectId: projectId ?? undefined,
+        search: filters.search,
+        page: 1,
+        limit: state.filters.limit,
+        sortBy: sortBy as keyof Task,
+        sortOrder
+      };
+      state.currentPage = 1;
+      state.activeViewId = action.payload.viewId;
     },
     addOptimisticUpdate: (state, action: PayloadAction<{ id: string; task: Task }>) => {
       state.optimisticUpdates[action.payload.id] = action.payload.task;
@@ -233,6 +254,7 @@ const taskSlice = createSlice({
 export const {
   setSelectedTask,
   updateFilters,
+  applyViewState,
   addOptimisticUpdate,
   removeOptimisticUpdate,
   setOfflineStatus,
@@ -248,6 +270,7 @@ export const {
 
 // Custom selectors
 export const selectTaskFilters = (state: { tasks: TaskState }) => state.tasks.filters;
+export const selectActiveViewId = (state: { tasks: TaskState }) => state.tasks.activeViewId;
 export const selectTaskLoadingStates = (state: { tasks: TaskState }) => state.tasks.loadingStates;
 export const selectTaskErrors = (state: { tasks: TaskState }) => state.tasks.errors;
 export const selectIsOffline = (state: { tasks: TaskState }) => state.tasks.offline;
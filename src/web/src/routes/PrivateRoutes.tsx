@@ -30,6 +30,8 @@ const retryLoadComponent = (componentImport: () => Promise<any>, retries = 3, ti
 const Dashboard = lazy(() => retryLoadComponent(() => import('../pages/dashboard/Dashboard')));
 const ProjectRoutes = lazy(() => retryLoadComponent(() => import('../pages/project/ProjectRoutes')));
 const TaskRoutes = lazy(() => retryLoadComponent(() => import('../pages/task/TaskRoutes')));
+const Timesheet = lazy(() => retryLoadComponent(() => import('../pages/timesheet/Timesheet')));
+const Webhooks = lazy(() => retryLoadComponent(() => import('../pages/settings/Webhooks')));
 const SettingsRoutes = lazy(() => retryLoadComponent(() => import('../pages/settings/SettingsRoutes')));
 
 // Loading fallback component
@@ -138,6 +140,29 @@ const PrivateRoutes: React.FC = () => {
             }
           />
 
+          {/* Timesheet Route */}
+          <Route
+            path="/timesheet"
+            element={
+              <RequireAuth
+                allowedRoles={['admin', 'project_manager', 'team_lead', 'team_member']}
+                requiresVerification={true}
+              >
+                <Timesheet />
+              </RequireAuth>
+            }
+          />
+
+          {/* Webhook Administration - Admin Only */}
+          <Route
+            path="/settings/webhooks"
+            element={
+              <RequireAuth allowedRoles={['admin']} requiresVerification={true}>
+                <Webhooks />
+              </RequireAuth>
+            }
+          />
+
           {/* Settings Routes - Admin Only */}
           <Route
             path="/settings/*"
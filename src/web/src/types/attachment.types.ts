@@ -0,0 +1,75 @@
+/**
+ * @fileoverview TypeScript type definitions for task file attachments.
+ * @version 1.0.0
+ */
+
+import { ApiResponse } from './api.types';
+// @ts-ignore - UUID type from crypto module
+import { UUID } from 'crypto'; // v20.0.0+
+
+/**
+ * Interface defining the structure of a task attachment.
+ */
+export interface Attachment {
+  /** Unique identifier for the attachment */
+  readonly id: UUID;
+
+  /** Original file name */
+  fileName: string;
+
+  /** File size in bytes */
+  fileSize: number;
+
+  /** MIME type of the file */
+  mimeType: string;
+
+  /** ID of the task the attachment belongs to */
+  taskId: UUID;
+
+  /** ID of the task's project */
+  projectId: UUID | null;
+
+  /** ID of the user who uploaded the file */
+  uploadedBy: UUID;
+
+  /** Version number for optimistic locking */
+  version: number;
+
+  /** Upload timestamp */
+  readonly createdAt: Date;
+
+  /** Last update timestamp */
+  readonly updatedAt: Date;
+}
+
+/**
+ * A file rejected during upload, with the reason.
+ */
+export interface FailedUpload {
+  /** Name of the rejected file */
+  fileName: string;
+
+  /** Reason the file was rejected */
+  error: string;
+}
+
+/**
+ * Per-file outcome of a multi-file upload.
+ */
+export interface AttachmentUploadResult {
+  /** Attachments that were stored */
+  successful: Attachment[];
+
+  /** Files that were rejected */
+  failed: FailedUpload[];
+}
+
+/**
+ * Type alias for attachment list API responses.
+ */
+export type AttachmentListApiResponse = ApiResponse<Attachment[]>;
+
+/**
+ * Type alias for upload API responses.
+ */
+export type AttachmentUploadApiResponse = ApiResponse<AttachmentUploadResult>;
@@ -0,0 +1,57 @@
+/**
+ * @fileoverview TypeScript type definitions for personal calendar feeds.
+ * @version 1.0.0
+ */
+
+import { ApiResponse } from './api.types';
+// @ts-ignore - UUID type from crypto module
+import { UUID } from 'crypto'; // v20.0.0+
+
+/**
+ * Interface defining the calendar feed of the current user.
+ */
+export interface CalendarFeed {
+  /** Feed identifier */
+  id: UUID;
+
+  /** Owner of the feed */
+  userId: UUID;
+
+  /** Last time a calendar app read the feed; null when never read */
+  lastReadAt: string | null;
+
+  /** When the current token was generated */
+  createdAt: string;
+}
+
+/**
+ * Feed with its newly generated token; the token is not retrievable afterwards.
+ */
+export interface CalendarFeedToken {
+  /** Feed */
+  feed: CalendarFeed;
+
+  /** Secret token of the feed URL */
+  token: string;
+}
+
+/**
+ * Options of a subscribed feed URL.
+ */
+export interface CalendarFeedUrlOptions {
+  /** Only these projects; all of the user's projects when empty */
+  projectIds?: UUID[];
+
+  /** IANA time zone the due dates are placed in */
+  timezone?: string;
+}
+
+/**
+ * API response wrapper for the current feed; data is null when none was generated.
+ */
+export type CalendarFeedApiResponse = ApiResponse<CalendarFeed | null>;
+
+/**
+ * API response wrapper for a generated feed token.
+ */
+export type CalendarFeedTokenApiResponse = ApiResponse<CalendarFeedToken>;
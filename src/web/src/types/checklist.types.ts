@@ -0,0 +1,78 @@
+/**
+ * @fileoverview TypeScript type definitions for checklist items inside a task.
+ * @version 1.0.0
+ */
+
+import { ApiResponse } from './api.types';
+// @ts-ignore - UUID type from crypto module
+import { UUID } from 'crypto'; // v20.0.0+
+
+/**
+ * Interface defining a checklist item; items count towards the progress of their task.
+ */
+export interface ChecklistItem {
+  /** Unique identifier for the item */
+  readonly id: UUID;
+
+  /** ID of the task the item belongs to */
+  readonly taskId: UUID;
+
+  /** Item text */
+  title: string;
+
+  /** Whether the item has been checked off */
+  isCompleted: boolean;
+
+  /** Display order within the checklist */
+  position: number;
+
+  /** When the item was checked off */
+  completedAt?: Date | null;
+
+  /** ID of the user who checked the item off */
+  completedBy?: UUID | null;
+
+  /** ID of the user who created the item */
+  readonly createdBy: UUID;
+
+  /** Creation timestamp */
+  readonly createdAt: Date;
+
+  /** Last update timestamp */
+  readonly updatedAt: Date;
+}
+
+/**
+ * Payload for adding an item; appended to the end unless a position is given.
+ */
+export interface CreateChecklistItemPayload {
+  /** Item text */
+  title: string;
+
+  /** Optional display position */
+  position?: number;
+}
+
+/**
+ * Payload for renaming, reordering or checking off an item.
+ */
+export interface UpdateChecklistItemPayload {
+  /** New item text */
+  title?: string;
+
+  /** New display position */
+  position?: number;
+
+  /** New completion state */
+  isCompleted?: boolean;
+}
+
+/**
+ * Type alias for checklist API responses.
+ */
+export type ChecklistApiResponse = ApiResponse<ChecklistItem[]>;
+
+/**
+ * Type alias for single checklist item API responses.
+ */
+export type ChecklistItemApiResponse = ApiResponse<ChecklistItem>;
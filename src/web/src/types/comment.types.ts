@@ -0,0 +1,133 @@
+/**
+ * @fileoverview TypeScript type definitions for task comments and threaded replies.
+ * @version 1.0.0
+ */
+
+import { ApiResponse } from './api.types';
+// @ts-ignore - UUID type from crypto module
+import { UUID } from 'crypto'; // v20.0.0+
+
+/**
+ * Minimal author information embedded in comments.
+ */
+export interface CommentAuthor {
+  /** Author user identifier */
+  id: UUID;
+
+  /** Author display name */
+  name: string;
+
+  /** Author email address */
+  email: string;
+}
+
+/**
+ * Interface defining the structure of a task comment.
+ * Top-level comments embed their replies; replies never nest further.
+ */
+export interface Comment {
+  /** Unique identifier for the comment */
+  readonly id: UUID;
+
+  /** Comment body text */
+  content: string;
+
+  /** ID of the task the comment belongs to */
+  taskId: UUID;
+
+  /** ID of the comment author */
+  authorId: UUID;
+
+  /** ID of the top-level comment this reply belongs to */
+  parentId: UUID | null;
+
+  /** Whether the comment was edited after creation */
+  isEdited: boolean;
+
+  /** Embedded author details */
+  author?: CommentAuthor;
+
+  /** Replies to a top-level comment */
+  replies?: Comment[];
+
+  /** Version number for optimistic locking */
+  version: number;
+
+  /** Creation timestamp */
+  readonly createdAt: Date;
+
+  /** Last update timestamp */
+  readonly updatedAt: Date;
+}
+
+/**
+ * Payload for creating a comment or a reply.
+ */
+export interface CreateCommentPayload {
+  /** Comment body text */
+  content: string;
+
+  /** Top-level comment to reply to */
+  parentId?: UUID;
+
+  /** Mentioned user IDs */
+  mentions?: UUID[];
+}
+
+/**
+ * Payload for editing an existing comment.
+ */
+export interface UpdateCommentPayload {
+  /** Updated comment body text */
+  content: string;
+
+  /** Mentioned user IDs */
+  mentions?: UUID[];
+
+  /** Version the edit was based on */
+  version: number;
+}
+
+/**
+ * Pagination parameters for comment lists.
+ */
+export interface CommentQueryParams {
+  /** Page number (1-based) */
+  page?: number;
+
+  /** Number of top-level comments per page */
+  limit?: number;
+
+  /** Sort direction by creation date */
+  sortOrder?: 'asc' | 'desc';
+}
+
+/**
+ * Paginated comment list as returned by the comments endpoint.
+ */
+export interface PaginatedCommentResponse {
+  /** Top-level comments with replies embedded */
+  items: Comment[];
+
+  /** Total number of top-level comments */
+  total: number;
+
+  /** Current page number */
+  page: number;
+
+  /** Page size */
+  limit: number;
+
+  /** Whether more pages are available */
+  hasMore: boolean;
+}
+
+/**
+ * Type alias for single comment API responses.
+ */
+export type CommentApiResponse = ApiResponse<Comment>;
+
+/**
+ * Type alias for paginated comment API responses.
+ */
+export type CommentListApiResponse = ApiResponse<PaginatedCommentResponse>;
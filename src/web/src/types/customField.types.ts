@@ -0,0 +1,92 @@
+/**
+ * @fileoverview TypeScript type definitions for the typed custom fields defined per project.
+ * @version 1.0.0
+ */
+
+import { ApiResponse } from './api.types';
+// @ts-ignore - UUID type from crypto module
+import { UUID } from 'crypto'; // v20.0.0+
+
+/**
+ * Value types a custom field can hold.
+ */
+export enum CustomFieldType {
+  TEXT = 'TEXT',
+  NUMBER = 'NUMBER',
+  DATE = 'DATE',
+  SINGLE_SELECT = 'SINGLE_SELECT',
+  MULTI_SELECT = 'MULTI_SELECT',
+  USER = 'USER'
+}
+
+/**
+ * Value of a single custom field on a task; dates are ISO 8601 strings.
+ */
+export type CustomFieldValue = string | number | string[];
+
+/**
+ * Interface defining a custom field of a project.
+ */
+export interface CustomField {
+  /** Unique identifier for the field */
+  readonly id: UUID;
+
+  /** ID of the project defining the field */
+  projectId: UUID;
+
+  /** Stable key used in task values and filters */
+  key: string;
+
+  /** Display name */
+  name: string;
+
+  /** Value type */
+  type: CustomFieldType;
+
+  /** Allowed values of select fields */
+  options: string[];
+
+  /** Whether tasks must set the field when created */
+  required: boolean;
+
+  /** Column and form order */
+  position: number;
+}
+
+/**
+ * Payload for defining a custom field.
+ */
+export interface CreateCustomFieldPayload {
+  /** Field key; lowercase letters, digits and underscores */
+  key: string;
+
+  /** Display name */
+  name: string;
+
+  /** Value type; fixed once created */
+  type: CustomFieldType;
+
+  /** Allowed values of select fields */
+  options?: string[];
+
+  /** Whether tasks must set the field when created */
+  required?: boolean;
+
+  /** Column and form order */
+  position?: number;
+}
+
+/**
+ * Payload for changing a custom field; the key and type cannot change.
+ */
+export type UpdateCustomFieldPayload = Partial<Omit<CreateCustomFieldPayload, 'key' | 'type'>>;
+
+/**
+ * Type alias for single custom field API responses.
+ */
+export type CustomFieldApiResponse = ApiResponse<CustomField>;
+
+/**
+ * Type alias for custom field list API responses.
+ */
+export type CustomFieldListApiResponse = ApiResponse<CustomField[]>;
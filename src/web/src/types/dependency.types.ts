@@ -0,0 +1,82 @@
+/**
+ * @fileoverview TypeScript type definitions for blocks/blocked-by task dependencies.
+ * @version 1.0.0
+ */
+
+import { ApiResponse } from './api.types';
+// @ts-ignore - UUID type from crypto module
+import { UUID } from 'crypto'; // v20.0.0+
+
+/**
+ * Interface defining a dependency link; the blocker must complete before the blocked task can start.
+ */
+export interface TaskDependency {
+  /** Unique identifier for the link */
+  readonly id: UUID;
+
+  /** ID of the task that must complete first */
+  blockerId: UUID;
+
+  /** ID of the task that waits */
+  blockedId: UUID;
+
+  /** ID of the user who created the link */
+  readonly createdBy: UUID;
+
+  /** Creation timestamp */
+  readonly createdAt: Date;
+}
+
+/**
+ * Minimal projection of the task on the other side of a link.
+ */
+export interface DependencyTaskSummary {
+  /** Task identifier */
+  id: UUID;
+
+  /** Task title */
+  title: string;
+
+  /** Key of the task's workflow state */
+  status: string;
+}
+
+/**
+ * Dependency link with the linked task embedded.
+ */
+export interface TaskDependencyLink extends TaskDependency {
+  /** The task on the other side of the link */
+  task: DependencyTaskSummary;
+}
+
+/**
+ * Both directions of a task's dependencies.
+ */
+export interface TaskDependencies {
+  /** Tasks that must complete before this one can start */
+  blockedBy: TaskDependencyLink[];
+
+  /** Tasks waiting on this one */
+  blocks: TaskDependencyLink[];
+}
+
+/**
+ * Payload for creating a link; exactly one side is set, the other is the current task.
+ */
+export interface CreateDependencyPayload {
+  /** Task the current task waits on */
+  blockerId?: UUID;
+
+  /** Task the current task blocks */
+  blockedId?: UUID;
+}
+
+/**
+ * Type alias for dependency list API responses.
+ */
+export type TaskDependenciesApiResponse = ApiResponse<TaskDependencies>;
+
+/**
+ * Type alias for single dependency API responses.
+ */
+export type TaskDependencyApiResponse = ApiResponse<TaskDependency>;
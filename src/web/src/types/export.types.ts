@@ -0,0 +1,37 @@
+/**
+ * @fileoverview TypeScript type definitions for exporting task and project lists.
+ * @version 1.0.0
+ */
+
+import { TaskQueryParams } from './task.types';
+import { ProjectQueryParams } from './project.types';
+
+/**
+ * File formats lists can be exported to.
+ */
+export enum ExportFormat {
+  CSV = 'csv',
+  XLSX = 'xlsx',
+  JSON = 'json'
+}
+
+/**
+ * Options shared by every export.
+ */
+export interface ExportOptions {
+  /** File format */
+  format: ExportFormat;
+
+  /** Column keys in output order; the server's default columns when empty */
+  columns?: string[];
+}
+
+/**
+ * Task export request: the filters of the task list, whose pagination is ignored.
+ */
+export type TaskExportParams = Omit<TaskQueryParams, 'page' | 'limit'> & ExportOptions;
+
+/**
+ * Project export request: the filters of the project list, whose pagination is ignored.
+ */
+export type ProjectExportParams = Omit<ProjectQueryParams, 'page' | 'limit'> & ExportOptions;
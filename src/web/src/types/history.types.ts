@@ -0,0 +1,87 @@
+/**
+ * @fileoverview TypeScript type definitions for the field-level change history of tasks and projects.
+ * @version 1.0.0
+ */
+
+import { ApiResponse } from './api.types';
+// @ts-ignore - UUID type from crypto module
+import { UUID } from 'crypto'; // v20.0.0+
+
+/**
+ * Kinds of entity whose changes are recorded.
+ */
+export enum HistoryEntityType {
+  TASK = 'TASK',
+  PROJECT = 'PROJECT'
+}
+
+/**
+ * Interface defining one recorded field change.
+ */
+export interface ChangeHistoryEntry {
+  /** Unique identifier for the entry */
+  readonly id: UUID;
+
+  /** Kind of entity that changed */
+  entityType: HistoryEntityType;
+
+  /** ID of the task or project that changed */
+  entityId: UUID;
+
+  /** Name of the changed field */
+  field: string;
+
+  /** Previous value; dates are ISO 8601 strings */
+  oldValue: unknown;
+
+  /** New value; dates are ISO 8601 strings */
+  newValue: unknown;
+
+  /** Version of the entity produced by the change; changes of one update share it */
+  version: number;
+
+  /** ID of the user who made the change */
+  changedBy: UUID | null;
+
+  /** When the change was made */
+  readonly changedAt: Date;
+}
+
+/**
+ * Query parameters for history requests.
+ */
+export interface HistoryQueryParams {
+  /** Page number (1-based) */
+  page?: number;
+
+  /** Page size, at most 100 */
+  limit?: number;
+
+  /** Only return changes of this field */
+  field?: string;
+}
+
+/**
+ * Paginated history as returned by the history endpoints, newest first.
+ */
+export interface PaginatedHistoryResponse {
+  /** History entries */
+  items: ChangeHistoryEntry[];
+
+  /** Total number of entries */
+  total: number;
+
+  /** Current page number */
+  page: number;
+
+  /** Page size */
+  limit: number;
+
+  /** Whether more pages are available */
+  hasMore: boolean;
+}
+
+/**
+ * Type alias for history API responses.
+ */
+export type HistoryApiResponse = ApiResponse<PaginatedHistoryResponse>;
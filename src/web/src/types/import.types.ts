@@ -0,0 +1,189 @@
+/**
+ * @fileoverview TypeScript type definitions for importing tasks from CSV and JSON files.
+ * @version 1.0.0
+ */
+
+import { ApiResponse } from './api.types';
+// @ts-ignore - UUID type from crypto module
+import { UUID } from 'crypto'; // v20.0.0+
+
+/**
+ * File formats tasks can be imported from.
+ */
+export enum TaskImportFormat {
+  CSV = 'CSV',
+  JSON = 'JSON'
+}
+
+/**
+ * Lifecycle of an import.
+ */
+export enum TaskImportStatus {
+  PENDING = 'PENDING',     // Uploaded; the mapping can still be changed and validated
+  RUNNING = 'RUNNING',     // Tasks are being created in the background
+  COMPLETED = 'COMPLETED', // Every row was processed
+  FAILED = 'FAILED'        // The job stopped before processing every row
+}
+
+/**
+ * Task fields a column can be mapped to.
+ */
+export enum TaskImportField {
+  TITLE = 'title',
+  DESCRIPTION = 'description',
+  STATUS = 'status',
+  PRIORITY = 'priority',
+  ASSIGNEE_EMAIL = 'assigneeEmail',
+  DUE_DATE = 'dueDate',
+  TAGS = 'tags',
+  ORIGINAL_ESTIMATE = 'originalEstimate'
+}
+
+/**
+ * Column of the file read into each task field.
+ */
+export type TaskImportMapping = Partial<Record<TaskImportField, string>>;
+
+/**
+ * Row of an import file, keyed by column.
+ */
+export type TaskImportRow = Record<string, string>;
+
+/**
+ * Problems found in one row.
+ */
+export interface TaskImportRowError {
+  /** 1-based position among the data rows */
+  row: number;
+
+  /** Messages per task field */
+  errors: Record<string, string[]>;
+}
+
+/**
+ * Interface defining an import of a file into a project.
+ */
+export interface TaskImport {
+  /** Unique identifier for the import */
+  readonly id: UUID;
+
+  /** ID of the project the tasks are imported into */
+  projectId: UUID;
+
+  /** Name of the uploaded file */
+  fileName: string;
+
+  /** Format the file was read as */
+  format: TaskImportFormat;
+
+  /** Current status */
+  status: TaskImportStatus;
+
+  /** Columns detected in the file, in file order */
+  columns: string[];
+
+  /** Mapping of the last validation or the commit */
+  mapping: TaskImportMapping | null;
+
+  /** Number of data rows */
+  totalRows: number;
+
+  /** Rows processed by the commit so far */
+  processedRows: number;
+
+  /** Tasks created so far */
+  createdCount: number;
+
+  /** Rows skipped so far */
+  failedCount: number;
+
+  /** Rows the commit skipped, at most 200 */
+  errors: TaskImportRowError[];
+
+  /** When the commit started */
+  startedAt: string | null;
+
+  /** When the commit finished */
+  completedAt: string | null;
+
+  /** ID of the user who uploaded the file */
+  readonly createdBy: UUID;
+
+  /** Upload timestamp */
+  readonly createdAt: string;
+
+  /** Last update timestamp */
+  readonly updatedAt: string;
+}
+
+/**
+ * Result of an upload.
+ */
+export interface TaskImportUpload {
+  /** The created import */
+  import: TaskImport;
+
+  /** Columns recognized by their header */
+  suggestedMapping: TaskImportMapping;
+
+  /** First rows of the file */
+  sampleRows: TaskImportRow[];
+}
+
+/**
+ * Result of a dry run.
+ */
+export interface TaskImportValidation {
+  /** Rows that would be imported */
+  validCount: number;
+
+  /** Rows that would be skipped */
+  invalidCount: number;
+
+  /** Errors of the first 200 invalid rows */
+  errors: TaskImportRowError[];
+}
+
+/**
+ * Real-time progress of an import, delivered as a PROJECT_UPDATE message.
+ */
+export interface TaskImportProgressUpdate {
+  /** ID of the project the tasks are imported into */
+  projectId: UUID;
+
+  /** ID of the import */
+  importId: UUID;
+
+  /** Current status */
+  status: TaskImportStatus;
+
+  /** Number of data rows */
+  totalRows: number;
+
+  /** Rows processed so far */
+  processedRows: number;
+
+  /** Tasks created so far */
+  createdCount: number;
+
+  /** Rows skipped so far */
+  failedCount: number;
+
+  /** ID of the user who committed the import */
+  startedBy: UUID;
+}
+
+/**
+ * Type alias for import upload API responses.
+ */
+export type TaskImportUploadApiResponse = ApiResponse<TaskImportUpload>;
+
+/**
+ * Type alias for import API responses.
+ */
+export type TaskImportApiResponse = ApiResponse<TaskImport>;
+
+/**
+ * Type alias for import validation API responses.
+ */
+export type TaskImportValidationApiResponse = ApiResponse<TaskImportValidation>;
@@ -37,16 +37,258 @@ export {
   isAuthProvider
 } from './auth.types';
 
+// Attachment Types
+export {
+  Attachment,
+  FailedUpload,
+  AttachmentUploadResult,
+  AttachmentListApiResponse,
+  AttachmentUploadApiResponse
+} from './attachment.types';
+
+// Comment Types
+export {
+  Comment,
+  CommentAuthor,
+  CreateCommentPayload,
+  UpdateCommentPayload,
+  CommentQueryParams,
+  PaginatedCommentResponse,
+  CommentApiResponse,
+  CommentListApiResponse
+} from './comment.types';
+
+// Dependency Types
+export {
+  TaskDependency,
+  DependencyTaskSummary,
+  TaskDependencyLink,
+  TaskDependencies,
+  CreateDependencyPayload,
+  TaskDependenciesApiResponse,
+  TaskDependencyApiResponse
+} from './dependency.types';
+
+// Checklist Types
+export {
+  ChecklistItem,
+  CreateChecklistItemPayload,
+  UpdateChecklistItemPayload,
+  ChecklistApiResponse,
+  ChecklistItemApiResponse
+} from './checklist.types';
+
+// Change History Types
+export {
+  HistoryEntityType,
+  ChangeHistoryEntry,
+  HistoryQueryParams,
+  PaginatedHistoryResponse,
+  HistoryApiResponse
+} from './history.types';
+
+// Recurrence Types
+export {
+  RecurrenceFrequency,
+  RecurrenceTrigger,
+  RecurrenceRule,
+  RecurrenceRulePayload,
+  RecurrenceRuleApiResponse
+} from './recurrence.types';
+
+// Permission Types
+export {
+  Permission,
+  PermissionDefinition,
+  EffectivePermissions,
+  RolePermissionMap,
+  UpdateRolePermissionsPayload,
+  PermissionListApiResponse,
+  EffectivePermissionsApiResponse,
+  RolePermissionMapApiResponse,
+  RolePermissionsApiResponse
+} from './permission.types';
+
+// Custom Field Types
+export {
+  CustomFieldType,
+  CustomFieldValue,
+  CustomField,
+  CreateCustomFieldPayload,
+  UpdateCustomFieldPayload,
+  CustomFieldApiResponse,
+  CustomFieldListApiResponse
+} from './customField.types';
+
+// Workflow Types
+export {
+  WorkflowCategory,
+  WorkflowState,
+  WorkflowTransition,
+  Workflow,
+  UpdateWorkflowPayload,
+  WorkflowApiResponse
+} from './workflow.types';
+
+// Calendar Feed Types
+export {
+  CalendarFeed,
+  CalendarFeedToken,
+  CalendarFeedUrlOptions,
+  CalendarFeedApiResponse,
+  CalendarFeedTokenApiResponse
+} from './calendar.types';
+
+// Webhook Types
+export {
+  WebhookEventType,
+  WebhookDeliveryStatus,
+  Webhook,
+  WebhookSecret,
+  CreateWebhookPayload,
+  UpdateWebhookPayload,
+  WebhookDelivery,
+  WebhookDeliveryQueryParams,
+  WebhookDeliveryPage,
+  WebhookApiResponse,
+  WebhookListApiResponse,
+  WebhookSecretApiResponse,
+  WebhookDeliveryApiResponse,
+  WebhookDeliveryPageApiResponse
+} from './webhook.types';
+
+// Notification Types
+export {
+  NotificationType,
+  Notification,
+  NotificationQueryParams,
+  NotificationPage,
+  NotificationPushPayload,
+  NotificationApiResponse,
+  NotificationPageApiResponse,
+  NotificationReadAllApiResponse
+} from './notification.types';
+
+// List Export Types
+export {
+  ExportFormat,
+  ExportOptions,
+  TaskExportParams,
+  ProjectExportParams
+} from './export.types';
+
+// Task Import Types
+export {
+  TaskImportFormat,
+  TaskImportStatus,
+  TaskImportField,
+  TaskImportMapping,
+  TaskImportRow,
+  TaskImportRowError,
+  TaskImport,
+  TaskImportUpload,
+  TaskImportValidation,
+  TaskImportProgressUpdate,
+  TaskImportUploadApiResponse,
+  TaskImportApiResponse,
+  TaskImportValidationApiResponse
+} from './import.types';
+
+// Milestone Types
+export {
+  MilestoneStatus,
+  Milestone,
+  CreateMilestonePayload,
+  UpdateMilestonePayload,
+  MilestoneStatusUpdate,
+  MilestoneApiResponse,
+  MilestoneListApiResponse
+} from './milestone.types';
+
+// Sprint Types
+export {
+  SprintState,
+  Sprint,
+  CreateSprintPayload,
+  UpdateSprintPayload,
+  CloseSprintPayload,
+  SprintCloseResult,
+  BurndownPoint,
+  SprintBurndown,
+  SprintApiResponse,
+  SprintListApiResponse,
+  SprintCloseApiResponse,
+  BacklogApiResponse,
+  SprintBurndownApiResponse
+} from './sprint.types';
+
+// Time Tracking Types
+export {
+  Worklog,
+  Timer,
+  CreateWorklogPayload,
+  UpdateWorklogPayload,
+  StartTimerPayload,
+  TimerStartResult,
+  TimesheetQueryParams,
+  TimesheetRow,
+  Timesheet,
+  WorklogApiResponse,
+  WorklogListApiResponse,
+  TimerApiResponse,
+  TimerStartApiResponse,
+  TimesheetApiResponse
+} from './worklog.types';
+
+// Saved View Types
+export {
+  SavedViewVisibility,
+  SavedViewLayout,
+  SavedViewGrouping,
+  SavedViewFilters,
+  SavedViewState,
+  SavedView,
+  CreateSavedViewPayload,
+  UpdateSavedViewPayload,
+  SavedViewApiResponse,
+  SavedViewListApiResponse
+} from './savedView.types';
+
+// Search Types
+export {
+  SearchResultType,
+  SearchFacets,
+  SearchHit,
+  SearchResult,
+  SearchParams,
+  SearchApiResponse
+} from './search.types';
+
+// Project Membership Types
+export {
+  ProjectRole,
+  ProjectMember,
+  AddProjectMemberPayload,
+  ProjectMemberApiResponse,
+  ProjectMemberListApiResponse
+} from './membership.types';
+
 // Project Types
 export {
   ProjectStatus,
   ProjectPriority,
+  EstimationUnit,
+  ProgressWeighting,
   Project,
+  ProjectCompletion,
+  EffortTotals,
+  ProjectEffort,
   ProjectQueryParams,
   CreateProjectPayload,
   UpdateProjectPayload,
   ProjectResponse,
   PaginatedProjectResponse,
+  ProjectEffortResponse,
   ProjectTimeline,
   ProjectResource,
   isProjectStatus,
@@ -58,13 +300,20 @@ export {
   TaskStatus,
   TaskPriority,
   Task,
+  TaskProgress,
   TaskStats,
   TaskTimeline,
   TaskQueryParams,
   PaginatedTaskResponse,
   TaskApiResponse,
   TaskStatsApiResponse,
-  TaskTimelineApiResponse
+  TaskTimelineApiResponse,
+  BulkTaskOutcome,
+  BulkTaskPatch,
+  BulkUpdateTasksRequest,
+  BulkTaskResult,
+  BulkUpdateResult,
+  BulkUpdateApiResponse
 } from './task.types';
 
 // User Types
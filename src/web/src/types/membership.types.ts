@@ -0,0 +1,69 @@
+/**
+ * @fileoverview TypeScript type definitions for project membership and per-project roles.
+ * @version 1.0.0
+ */
+
+import { ApiResponse } from './api.types';
+// @ts-ignore - UUID type from crypto module
+import { UUID } from 'crypto'; // v20.0.0+
+
+/**
+ * Role of a user within a single project, from most to least privileged.
+ */
+export enum ProjectRole {
+  OWNER = 'OWNER',
+  MANAGER = 'MANAGER',
+  CONTRIBUTOR = 'CONTRIBUTOR',
+  VIEWER = 'VIEWER'
+}
+
+/**
+ * Interface defining a user's membership in a project.
+ */
+export interface ProjectMember {
+  /** Unique identifier for the membership */
+  readonly id: UUID;
+
+  /** ID of the project */
+  projectId: UUID;
+
+  /** ID of the member */
+  userId: UUID;
+
+  /** Role of the member within the project */
+  role: ProjectRole;
+
+  /** ID of the user who added the member, if any */
+  addedBy: UUID | null;
+
+  /** Timestamp the member joined the project */
+  readonly joinedAt: Date;
+
+  /** Basic profile of the member */
+  user?: {
+    id: UUID;
+    name: string;
+    email: string;
+  };
+}
+
+/**
+ * Payload for adding a member, or changing the role of an existing one.
+ */
+export interface AddProjectMemberPayload {
+  /** User to add */
+  userId: UUID;
+
+  /** Role to grant */
+  role: ProjectRole;
+}
+
+/**
+ * Type alias for single member API responses.
+ */
+export type ProjectMemberApiResponse = ApiResponse<ProjectMember>;
+
+/**
+ * Type alias for member list API responses.
+ */
+export type ProjectMemberListApiResponse = ApiResponse<ProjectMember[]>;
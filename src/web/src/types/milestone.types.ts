@@ -0,0 +1,121 @@
+/**
+ * @fileoverview TypeScript type definitions for project milestones and their status.
+ * @version 1.0.0
+ */
+
+import { ApiResponse } from './api.types';
+// @ts-ignore - UUID type from crypto module
+import { UUID } from 'crypto'; // v20.0.0+
+
+/**
+ * Status of a milestone, derived from its date and linked tasks.
+ */
+export enum MilestoneStatus {
+  ON_TRACK = 'ON_TRACK',
+  AT_RISK = 'AT_RISK',   // An unfinished linked task is overdue
+  MISSED = 'MISSED'      // The date passed with linked tasks unfinished
+}
+
+/**
+ * Interface defining a milestone of a project.
+ */
+export interface Milestone {
+  /** Unique identifier for the milestone */
+  readonly id: UUID;
+
+  /** ID of the project owning the milestone */
+  projectId: UUID;
+
+  /** Milestone name */
+  name: string;
+
+  /** What the milestone stands for */
+  description: string | null;
+
+  /** Day the milestone is due, inclusive */
+  dueDate: string;
+
+  /** Current status */
+  status: MilestoneStatus;
+
+  /** When the status last changed */
+  statusChangedAt: Date | null;
+
+  /** IDs of the linked tasks */
+  taskIds: UUID[];
+
+  /** Active linked tasks */
+  taskCount: number;
+
+  /** Linked tasks in a DONE state */
+  completedCount: number;
+
+  /** ID of the user who created the milestone */
+  readonly createdBy: UUID;
+
+  /** Milestone creation timestamp */
+  readonly createdAt: Date;
+
+  /** Last update timestamp */
+  readonly updatedAt: Date;
+}
+
+/**
+ * Payload for creating a milestone.
+ */
+export interface CreateMilestonePayload {
+  /** Milestone name */
+  name: string;
+
+  /** What the milestone stands for */
+  description?: string;
+
+  /** Due day as YYYY-MM-DD */
+  dueDate: string;
+
+  /** IDs of tasks of the project to link */
+  taskIds?: UUID[];
+}
+
+/**
+ * Payload for changing a milestone; null clears the description and taskIds replaces the linked tasks.
+ */
+export type UpdateMilestonePayload = Partial<Omit<CreateMilestonePayload, 'description'>> & {
+  description?: string | null;
+};
+
+/**
+ * Real-time notice of a milestone status change, delivered as a PROJECT_UPDATE message.
+ */
+export interface MilestoneStatusUpdate {
+  /** ID of the project owning the milestone */
+  projectId: UUID;
+
+  /** ID of the milestone */
+  milestoneId: UUID;
+
+  /** Milestone name */
+  name: string;
+
+  /** Day the milestone is due */
+  dueDate: string;
+
+  /** New status */
+  status: MilestoneStatus;
+
+  /** Status before the change */
+  previousStatus: MilestoneStatus;
+
+  /** When the status changed */
+  changedAt: string;
+}
+
+/**
+ * Type alias for milestone API responses.
+ */
+export type MilestoneApiResponse = ApiResponse<Milestone>;
+
+/**
+ * Type alias for milestone list API responses.
+ */
+export type MilestoneListApiResponse = ApiResponse<Milestone[]>;
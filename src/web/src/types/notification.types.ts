@@ -0,0 +1,111 @@
+/**
+ * @fileoverview TypeScript type definitions for in-app notifications.
+ * @version 1.0.0
+ */
+
+import { ApiResponse } from './api.types';
+// @ts-ignore - UUID type from crypto module
+import { UUID } from 'crypto'; // v20.0.0+
+
+/**
+ * What a notification is about.
+ */
+export enum NotificationType {
+  ASSIGNMENT = 'ASSIGNMENT',
+  MENTION = 'MENTION',
+  STATUS_CHANGE = 'STATUS_CHANGE',
+  DUE_SOON = 'DUE_SOON',
+  COMMENT_REPLY = 'COMMENT_REPLY'
+}
+
+/**
+ * Interface defining a notification of the current user.
+ */
+export interface Notification {
+  /** Notification identifier */
+  id: UUID;
+
+  /** Recipient */
+  userId: UUID;
+
+  /** Notification type */
+  type: NotificationType;
+
+  /** Title of the task the notification is about */
+  title: string;
+
+  /** Short description of what happened */
+  message: string;
+
+  /** Task the notification links to */
+  taskId: UUID | null;
+
+  /** Project of the task */
+  projectId: UUID | null;
+
+  /** Comment of a mention or reply */
+  commentId: UUID | null;
+
+  /** User who caused the notification; null for reminders */
+  actorId: UUID | null;
+
+  /** When the notification was read; null while unread */
+  readAt: string | null;
+
+  /** Creation timestamp */
+  createdAt: string;
+}
+
+/**
+ * Query parameters of the notification list.
+ */
+export interface NotificationQueryParams {
+  unreadOnly?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Page of notifications, newest first, with the number of unread notifications.
+ */
+export interface NotificationPage {
+  items: Notification[];
+  total: number;
+  page: number;
+  limit: number;
+  hasMore: boolean;
+  unreadCount: number;
+}
+
+/**
+ * Payload of NOTIFICATION_NEW WebSocket messages.
+ */
+export interface NotificationPushPayload {
+  notificationId: UUID;
+  type: NotificationType;
+  title: string;
+  message: string;
+  taskId: UUID | null;
+  projectId: UUID | null;
+  commentId: UUID | null;
+  actorId: UUID | null;
+  createdAt: string;
+
+  /** Unread notifications of the recipient, including this one */
+  unreadCount: number;
+}
+
+/**
+ * API response wrapper for a single notification.
+ */
+export type NotificationApiResponse = ApiResponse<Notification>;
+
+/**
+ * API response wrapper for a page of notifications.
+ */
+export type NotificationPageApiResponse = ApiResponse<NotificationPage>;
+
+/**
+ * API response wrapper for marking all notifications as read.
+ */
+export type NotificationReadAllApiResponse = ApiResponse<{ updated: number }>;
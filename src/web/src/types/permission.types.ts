@@ -0,0 +1,104 @@
+/**
+ * @fileoverview TypeScript type definitions for the permission registry and effective permissions.
+ * @version 1.0.0
+ */
+
+import { ApiResponse } from './api.types';
+import { UserRole } from './user.types';
+// @ts-ignore - UUID type from crypto module
+import { UUID } from 'crypto'; // v20.0.0+
+
+/**
+ * Permission keys in resource:action form; an :own suffix limits the action to
+ * resources the user created or is assigned to.
+ */
+export enum Permission {
+  TASK_READ = 'task:read',
+  TASK_CREATE = 'task:create',
+  TASK_UPDATE = 'task:update',
+  TASK_UPDATE_OWN = 'task:update:own',
+  TASK_DELETE = 'task:delete',
+  TASK_DELETE_OWN = 'task:delete:own',
+  TASK_BLOCKERS_OVERRIDE = 'task:blockers:override',
+  COMMENT_WRITE = 'comment:write',
+  ATTACHMENT_WRITE = 'attachment:write',
+  CHECKLIST_UPDATE = 'checklist:update',
+  DEPENDENCY_UPDATE = 'dependency:update',
+  RECURRENCE_UPDATE = 'recurrence:update',
+  WORKLOG_WRITE = 'worklog:write',
+  VIEW_WRITE = 'view:write',
+  PROJECT_READ = 'project:read',
+  PROJECT_CREATE = 'project:create',
+  PROJECT_UPDATE = 'project:update',
+  PROJECT_DELETE = 'project:delete',
+  PROJECT_MEMBERS_MANAGE = 'project:members:manage',
+  PROJECT_FIELDS_MANAGE = 'project:fields:manage',
+  PROJECT_WORKFLOW_MANAGE = 'project:workflow:manage',
+  PROJECT_SPRINTS_MANAGE = 'project:sprints:manage',
+  PROJECT_MILESTONES_MANAGE = 'project:milestones:manage',
+  HISTORY_READ = 'history:read',
+  USER_READ = 'user:read',
+  USER_MANAGE = 'user:manage',
+  USER_PREFERENCES_UPDATE = 'user:preferences:update',
+  USER_PREFERENCES_UPDATE_OWN = 'user:preferences:update:own',
+  PERMISSION_MANAGE = 'permission:manage',
+  WEBHOOK_MANAGE = 'webhook:manage'
+}
+
+/**
+ * Registry entry describing a permission.
+ */
+export interface PermissionDefinition {
+  /** Permission key */
+  key: Permission;
+
+  /** Human-readable description */
+  description: string;
+}
+
+/**
+ * Permissions of the signed-in user.
+ */
+export interface EffectivePermissions {
+  /** ID of the user */
+  userId: UUID;
+
+  /** Global role of the user */
+  role: UserRole;
+
+  /** Permissions granted to the role */
+  permissions: Permission[];
+}
+
+/**
+ * Permissions granted to each role.
+ */
+export type RolePermissionMap = Record<UserRole, Permission[]>;
+
+/**
+ * Payload for replacing the permissions of a role.
+ */
+export interface UpdateRolePermissionsPayload {
+  /** New permission set */
+  permissions: Permission[];
+}
+
+/**
+ * Type alias for permission registry API responses.
+ */
+export type PermissionListApiResponse = ApiResponse<PermissionDefinition[]>;
+
+/**
+ * Type alias for effective permission API responses.
+ */
+export type EffectivePermissionsApiResponse = ApiResponse<EffectivePermissions>;
+
+/**
+ * Type alias for role mapping API responses.
+ */
+export type RolePermissionMapApiResponse = ApiResponse<RolePermissionMap>;
+
+/**
+ * Type alias for single role API responses.
+ */
+export type RolePermissionsApiResponse = ApiResponse<{ role: UserRole; permissions: Permission[] }>;
@@ -34,6 +34,19 @@ export enum ProjectPriority {
   CRITICAL = 'CRITICAL'
 }
 
+/**
+ * Enum defining the unit task estimates of a project are given in
+ */
+export enum EstimationUnit {
+  HOURS = 'HOURS',
+  POINTS = 'POINTS'
+}
+
+/**
+ * How progress is aggregated: one unit per task, or weighted by original estimates
+ */
+export type ProgressWeighting = 'count' | 'effort';
+
 /**
  * Comprehensive interface defining the complete structure of a project entity
  * Includes all required fields and relationships for project management
@@ -66,6 +79,15 @@ export interface Project {
   /** Array of team member user IDs assigned to the project */
   teamMembers: UUID[];
   
+  /** Unit of the estimates of its tasks */
+  estimationUnit: EstimationUnit;
+  
+  /** Task-based completion; only present on single-project responses */
+  completion?: ProjectCompletion;
+
+  /** Address that creates tasks from emails; only present on single-project responses */
+  inboundEmailAddress?: string;
+  
   /** Project creation timestamp */
   createdAt: Date;
   
@@ -73,6 +95,70 @@ export interface Project {
   updatedAt: Date;
 }
 
+/**
+ * Completion of a project derived from its top-level tasks, where each task
+ * contributes its subtask and checklist progress
+ */
+export interface ProjectCompletion {
+  /** Completion percentage (0-100) */
+  percentage: number;
+  
+  /** Number of top-level tasks */
+  totalTasks: number;
+  
+  /** Number of top-level tasks marked done */
+  completedTasks: number;
+  
+  /** Completion percentage weighted by original estimates; null when no top-level task is estimated */
+  effortPercentage: number | null;
+}
+
+/**
+ * Effort totals of a group of tasks, in the project's estimation unit
+ */
+export interface EffortTotals {
+  /** Number of tasks in the group */
+  taskCount: number;
+  
+  /** Number of tasks with an original estimate */
+  estimatedCount: number;
+  
+  /** Sum of original estimates */
+  originalEstimate: number;
+  
+  /** Sum of remaining estimates of open tasks */
+  remainingEstimate: number;
+  
+  /** Time logged on the tasks, in hours */
+  loggedHours: number;
+  
+  /** Number of done tasks */
+  completedCount: number;
+  
+  /** Sum of original estimates of done tasks */
+  completedEstimate: number;
+  
+  /** Time logged on done tasks, in hours */
+  completedLoggedHours: number;
+}
+
+/**
+ * Effort of a project rolled up across the project and per assignee and sprint
+ */
+export interface ProjectEffort {
+  /** Unit of the estimates */
+  unit: EstimationUnit;
+  
+  /** Totals of all tasks */
+  totals: EffortTotals;
+  
+  /** Totals per assignee, largest original estimate first */
+  byAssignee: Array<EffortTotals & { assigneeId: UUID | null }>;
+  
+  /** Totals per sprint, with null for the backlog */
+  bySprint: Array<EffortTotals & { sprintId: UUID | null }>;
+}
+
 /**
  * Extended query parameters interface for advanced project filtering
  * Extends base QueryParams with project-specific filtering options
@@ -112,18 +198,25 @@ export interface ProjectQueryParams extends QueryParams {
 /**
  * Type for project creation request payload
  */
-export type CreateProjectPayload = Omit<Project, 'id' | 'createdAt' | 'updatedAt'>;
+export type CreateProjectPayload = Omit<Project, 'id' | 'createdAt' | 'updatedAt' | 'completion' | 'inboundEmailAddress' | 'estimationUnit'> & {
+  estimationUnit?: EstimationUnit;
+};
 
 /**
  * Type for project update request payload
  */
-export type UpdateProjectPayload = Partial<Omit<Project, 'id' | 'createdAt' | 'updatedAt'>>;
+export type UpdateProjectPayload = Partial<Omit<Project, 'id' | 'createdAt' | 'updatedAt' | 'completion' | 'inboundEmailAddress'>>;
 
 /**
  * Type for project API response
  */
 export type ProjectResponse = ApiResponse<Project>;
 
+/**
+ * Type for project effort response
+ */
+export type ProjectEffortResponse = ApiResponse<ProjectEffort>;
+
 /**
  * Type for paginated project list response
  */
@@ -0,0 +1,122 @@
+/**
+ * @fileoverview TypeScript type definitions for recurring task rules.
+ * @version 1.0.0
+ */
+
+import { ApiResponse } from './api.types';
+// @ts-ignore - UUID type from crypto module
+import { UUID } from 'crypto'; // v20.0.0+
+
+/**
+ * How often a recurring task repeats; CUSTOM rules are described by an RRULE string.
+ */
+export enum RecurrenceFrequency {
+  DAILY = 'DAILY',
+  WEEKLY = 'WEEKLY',
+  MONTHLY = 'MONTHLY',
+  CUSTOM = 'CUSTOM'
+}
+
+/**
+ * When the next occurrence of a recurring task is created.
+ */
+export enum RecurrenceTrigger {
+  /** When the latest occurrence is marked done */
+  COMPLETION = 'COMPLETION',
+
+  /** Ahead of its due date, whether or not the latest occurrence is done */
+  SCHEDULE = 'SCHEDULE'
+}
+
+/**
+ * Interface defining the recurrence rule shared by all occurrences of a series.
+ */
+export interface RecurrenceRule {
+  /** Unique identifier for the rule */
+  readonly id: UUID;
+
+  /** Repetition frequency */
+  frequency: RecurrenceFrequency;
+
+  /** Number of days, weeks or months between occurrences */
+  interval: number;
+
+  /** Weekdays of weekly rules (0 = Sunday) */
+  byWeekday: number[];
+
+  /** Day of month of monthly rules; clamped to the last day in shorter months */
+  byMonthDay?: number | null;
+
+  /** RFC 5545 rule of custom rules */
+  rrule?: string | null;
+
+  /** Whether occurrences skip weekends */
+  businessDaysOnly: boolean;
+
+  /** When the next occurrence is created */
+  generateOn: RecurrenceTrigger;
+
+  /** Date after which no occurrences are created */
+  endDate?: Date | null;
+
+  /** Maximum number of occurrences */
+  count?: number | null;
+
+  /** Number of occurrences created so far, including the first task */
+  occurrenceCount: number;
+
+  /** Due date of the next occurrence, null once the series has ended */
+  nextOccurrenceAt?: Date | null;
+
+  /** Whether the series still creates occurrences */
+  isActive: boolean;
+
+  /** ID of the latest occurrence */
+  readonly lastTaskId: UUID;
+
+  /** ID of the user who created the rule */
+  readonly createdBy: UUID;
+
+  /** Creation timestamp */
+  readonly createdAt: Date;
+
+  /** Last update timestamp */
+  readonly updatedAt: Date;
+}
+
+/**
+ * Payload for making a task repeat or changing the rule of its series.
+ */
+export interface RecurrenceRulePayload {
+  /** Repetition frequency */
+  frequency: RecurrenceFrequency;
+
+  /** Number of days, weeks or months between occurrences */
+  interval?: number;
+
+  /** Weekdays of weekly rules (0 = Sunday) */
+  byWeekday?: number[];
+
+  /** Day of month of monthly rules */
+  byMonthDay?: number;
+
+  /** RFC 5545 rule, required for custom rules */
+  rrule?: string;
+
+  /** Whether occurrences skip weekends */
+  businessDaysOnly?: boolean;
+
+  /** When the next occurrence is created */
+  generateOn?: RecurrenceTrigger;
+
+  /** Date after which no occurrences are created */
+  endDate?: Date;
+
+  /** Maximum number of occurrences */
+  count?: number;
+}
+
+/**
+ * Type alias for recurrence rule API responses; data is null when the task does not repeat.
+ */
+export type RecurrenceRuleApiResponse = ApiResponse<RecurrenceRule | null>;
@@ -0,0 +1,143 @@
+/**
+ * @fileoverview TypeScript type definitions for saved task views.
+ * @version 1.0.0
+ */
+
+import { ApiResponse } from './api.types';
+import { TaskPriority } from './task.types';
+// @ts-ignore - UUID type from crypto module
+import { UUID } from 'crypto'; // v20.0.0+
+
+/**
+ * Who can open a saved view.
+ */
+export enum SavedViewVisibility {
+  PRIVATE = 'PRIVATE', // Only the owner
+  PROJECT = 'PROJECT'  // Every member of the view's project
+}
+
+/**
+ * How a saved view shows its tasks.
+ */
+export enum SavedViewLayout {
+  LIST = 'LIST',
+  BOARD = 'BOARD'
+}
+
+/**
+ * Task attribute a view groups by; on the board these are the swimlanes.
+ */
+export type SavedViewGrouping = 'none' | 'assignee' | 'priority' | 'project';
+
+/**
+ * Task filters of a view, named as the task list query parameters.
+ */
+export interface SavedViewFilters {
+  /** Workflow state key */
+  status?: string;
+
+  /** Priority level */
+  priority?: TaskPriority;
+
+  /** Assigned user */
+  assigneeId?: UUID;
+
+  /** Sprint the tasks are planned in */
+  sprintId?: UUID;
+
+  /** Parent of the listed subtasks */
+  parentId?: UUID;
+
+  /** Whether subtasks are left out */
+  topLevelOnly?: boolean;
+
+  /** Free text search */
+  search?: string;
+
+  /** Custom field conditions as key:operator:value */
+  customField?: string[];
+
+  /** Task query, resolved for whoever opens the view */
+  q?: string;
+}
+
+/**
+ * Everything a view restores on the task list or board.
+ */
+export interface SavedViewState {
+  /** Project the tasks belong to; all of the user's projects when null */
+  projectId: UUID | null;
+
+  /** List or board */
+  layout: SavedViewLayout;
+
+  /** Task filters */
+  filters: SavedViewFilters;
+
+  /** Sort field */
+  sortBy: string;
+
+  /** Sort direction */
+  sortOrder: 'asc' | 'desc';
+
+  /** List grouping or board swimlanes */
+  groupBy: SavedViewGrouping;
+
+  /** Visible list columns in order; empty for the defaults */
+  columns: string[];
+}
+
+/**
+ * Interface defining a saved view.
+ */
+export interface SavedView extends SavedViewState {
+  /** Unique identifier for the view */
+  readonly id: UUID;
+
+  /** ID of the user who saved the view */
+  readonly ownerId: UUID;
+
+  /** View name */
+  name: string;
+
+  /** Who can open the view */
+  visibility: SavedViewVisibility;
+
+  /** Whether the current user pinned the view to the sidebar */
+  pinned: boolean;
+
+  /** View creation timestamp */
+  readonly createdAt: Date;
+
+  /** Last update timestamp */
+  readonly updatedAt: Date;
+}
+
+/**
+ * Payload for saving a view.
+ */
+export interface CreateSavedViewPayload extends Partial<Omit<SavedViewState, 'projectId'>> {
+  /** View name */
+  name: string;
+
+  /** Project of the view; required for shared views */
+  projectId?: UUID;
+
+  /** Who can open the view, PRIVATE by default */
+  visibility?: SavedViewVisibility;
+}
+
+/**
+ * Payload for changing a view; a view keeps its project.
+ */
+export type UpdateSavedViewPayload = Partial<Omit<CreateSavedViewPayload, 'projectId'>>;
+
+/**
+ * Type alias for saved view API responses.
+ */
+export type SavedViewApiResponse = ApiResponse<SavedView>;
+
+/**
+ * Type alias for saved view list API responses.
+ */
+export type SavedViewListApiResponse = ApiResponse<SavedView[]>;
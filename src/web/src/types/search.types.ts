@@ -0,0 +1,87 @@
+/**
+ * @fileoverview TypeScript type definitions for full-text search.
+ * @version 1.0.0
+ */
+
+import { ApiResponse } from './api.types';
+// @ts-ignore - UUID type from crypto module
+import { UUID } from 'crypto'; // v20.0.0+
+
+/**
+ * Kinds of records full-text search covers.
+ */
+export enum SearchResultType {
+  TASK = 'TASK',       // Task title and description
+  COMMENT = 'COMMENT', // Comment content
+  PROJECT = 'PROJECT'  // Project name and description
+}
+
+/**
+ * Number of matches per result type, before the result limit applies.
+ */
+export type SearchFacets = Record<SearchResultType, number>;
+
+/**
+ * Interface defining a search result.
+ */
+export interface SearchHit {
+  /** Kind of record */
+  type: SearchResultType;
+
+  /** Task, comment or project identifier */
+  id: UUID;
+
+  /** Task title, title of the commented task, or project name */
+  title: string;
+
+  /** Matching text with matched terms in <mark> tags; plain text otherwise */
+  highlight: string;
+
+  /** Relevance, higher first */
+  rank: number;
+
+  /** Project the record belongs to */
+  projectId: UUID;
+
+  /** Name of that project */
+  projectName: string;
+
+  /** Commented task; null for tasks and projects */
+  taskId: UUID | null;
+}
+
+/**
+ * Interface defining the ranked results of a search.
+ */
+export interface SearchResult {
+  /** Query as searched, after normalization */
+  query: string;
+
+  /** Hits by relevance */
+  hits: SearchHit[];
+
+  /** Matches per type, including those past the limit */
+  facets: SearchFacets;
+}
+
+/**
+ * Parameters of a search.
+ */
+export interface SearchParams {
+  /** Search terms; supports quoted phrases, "or" and -excluded terms */
+  q: string;
+
+  /** Types to search; all types when omitted */
+  types?: SearchResultType[];
+
+  /** Restricts the search to one project */
+  projectId?: UUID;
+
+  /** Most hits to return */
+  limit?: number;
+}
+
+/**
+ * Type alias for search API responses.
+ */
+export type SearchApiResponse = ApiResponse<SearchResult>;
@@ -0,0 +1,167 @@
+/**
+ * @fileoverview TypeScript type definitions for project sprints, backlog planning and burndown.
+ * @version 1.0.0
+ */
+
+import { ApiResponse } from './api.types';
+import { Task } from './task.types';
+// @ts-ignore - UUID type from crypto module
+import { UUID } from 'crypto'; // v20.0.0+
+
+/**
+ * Lifecycle state of a sprint.
+ */
+export enum SprintState {
+  PLANNED = 'PLANNED',
+  ACTIVE = 'ACTIVE',
+  CLOSED = 'CLOSED'
+}
+
+/**
+ * Interface defining a sprint of a project.
+ */
+export interface Sprint {
+  /** Unique identifier for the sprint */
+  readonly id: UUID;
+
+  /** ID of the project owning the sprint */
+  projectId: UUID;
+
+  /** Sprint name */
+  name: string;
+
+  /** What the sprint should achieve */
+  goal: string | null;
+
+  /** First day of the sprint */
+  startDate: string;
+
+  /** Last day of the sprint, inclusive */
+  endDate: string;
+
+  /** Lifecycle state */
+  state: SprintState;
+
+  /** When the sprint was started */
+  startedAt: Date | null;
+
+  /** When the sprint was closed */
+  closedAt: Date | null;
+
+  /** Active tasks in the sprint */
+  taskCount?: number;
+
+  /** Tasks of the sprint in a DONE state */
+  completedCount?: number;
+
+  /** ID of the user who planned the sprint */
+  readonly createdBy: UUID;
+
+  /** Sprint creation timestamp */
+  readonly createdAt: Date;
+
+  /** Last update timestamp */
+  readonly updatedAt: Date;
+}
+
+/**
+ * Payload for planning a sprint.
+ */
+export interface CreateSprintPayload {
+  /** Sprint name */
+  name: string;
+
+  /** What the sprint should achieve */
+  goal?: string;
+
+  /** First day as YYYY-MM-DD */
+  startDate: string;
+
+  /** Last day as YYYY-MM-DD */
+  endDate: string;
+}
+
+/**
+ * Payload for changing a planned or active sprint; null clears the goal.
+ */
+export type UpdateSprintPayload = Partial<Omit<CreateSprintPayload, 'goal'>> & {
+  goal?: string | null;
+};
+
+/**
+ * Payload for closing the active sprint.
+ */
+export interface CloseSprintPayload {
+  /** Planned sprint receiving unfinished tasks; null sends them to the backlog, omitted picks the next planned sprint */
+  rollOverTo?: UUID | null;
+}
+
+/**
+ * Outcome of closing a sprint.
+ */
+export interface SprintCloseResult {
+  /** The closed sprint */
+  sprint: Sprint;
+
+  /** Unfinished tasks moved out of the sprint */
+  rolledOver: number;
+
+  /** Sprint they moved to, or null for the backlog */
+  rolledOverTo: UUID | null;
+}
+
+/**
+ * Burndown value at the end of a sprint day.
+ */
+export interface BurndownPoint {
+  /** Day as YYYY-MM-DD */
+  date: string;
+
+  /** Unfinished tasks; null for days that have not begun */
+  remaining: number | null;
+
+  /** Tasks in the sprint; null for days that have not begun */
+  scope: number | null;
+
+  /** Ideal remaining tasks, burning the starting scope down linearly */
+  ideal: number;
+}
+
+/**
+ * Interface defining the burndown of a sprint.
+ */
+export interface SprintBurndown {
+  /** ID of the sprint */
+  sprintId: UUID;
+
+  /** What the values count */
+  unit: 'tasks';
+
+  /** One point per sprint day */
+  points: BurndownPoint[];
+}
+
+/**
+ * Type alias for sprint API responses.
+ */
+export type SprintApiResponse = ApiResponse<Sprint>;
+
+/**
+ * Type alias for sprint list API responses.
+ */
+export type SprintListApiResponse = ApiResponse<Sprint[]>;
+
+/**
+ * Type alias for sprint close API responses.
+ */
+export type SprintCloseApiResponse = ApiResponse<SprintCloseResult>;
+
+/**
+ * Type alias for backlog API responses.
+ */
+export type BacklogApiResponse = ApiResponse<Task[]>;
+
+/**
+ * Type alias for burndown API responses.
+ */
+export type SprintBurndownApiResponse = ApiResponse<SprintBurndown>;
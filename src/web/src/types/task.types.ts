@@ -6,18 +6,22 @@
  */
 
 import { ApiResponse, PaginatedResponse, QueryParams } from './api.types';
+import { RecurrenceRule } from './recurrence.types';
+import { CustomFieldValue } from './customField.types';
+import { WorkflowCategory } from './workflow.types';
 // @ts-ignore - UUID type from crypto module
 import { UUID } from 'crypto'; // v20.0.0+
 
 /**
- * Enumeration of possible task statuses.
- * Ensures type safety and standardization across the application.
+ * Enumeration of the state keys of the default workflow.
+ * Projects may define their own states; see Workflow.
  */
 export enum TaskStatus {
   TODO = 'TODO',
   IN_PROGRESS = 'IN_PROGRESS',
   REVIEW = 'REVIEW',
-  DONE = 'DONE'
+  DONE = 'DONE',
+  BLOCKED = 'BLOCKED'
 }
 
 /**
@@ -44,8 +48,11 @@ export interface Task {
   /** Detailed task description */
   description: string;
   
-  /** Current task status */
-  status: TaskStatus;
+  /** Key of the task's state in the project workflow */
+  status: string;
+  
+  /** Category of the task's state */
+  statusCategory?: WorkflowCategory;
   
   /** Task priority level */
   priority: TaskPriority;
@@ -68,6 +75,36 @@ export interface Task {
   /** Additional metadata for extensibility */
   metadata: Record<string, unknown>;
   
+  /** Values of the project's custom fields, keyed by field key */
+  customFields?: Record<string, CustomFieldValue>;
+  
+  /** ID of the parent task when this is a subtask */
+  parentId?: UUID | null;
+  
+  /** Nesting level below the top-level task (0 for top-level tasks) */
+  depth?: number;
+  
+  /** Progress rolled up from subtasks and checklist items */
+  progress?: TaskProgress;
+  
+  /** ID of the recurring series the task is an occurrence of */
+  recurrenceId?: UUID | null;
+  
+  /** Rule of the recurring series, included when fetching a single task */
+  recurrence?: RecurrenceRule | null;
+  
+  /** ID of the sprint the task is planned in; null while it is in the backlog */
+  sprintId?: UUID | null;
+  
+  /** Effort estimated before work started, in the project's estimation unit */
+  originalEstimate?: number | null;
+  
+  /** Effort still left, in the project's estimation unit */
+  remainingEstimate?: number | null;
+  
+  /** Version for optimistic locking; sent back with changes */
+  version?: number;
+  
   /** Task creation timestamp */
   readonly createdAt: Date;
   
@@ -75,6 +112,20 @@ export interface Task {
   readonly updatedAt: Date;
 }
 
+/**
+ * Progress of a task computed by the server from its subtasks and checklist items.
+ */
+export interface TaskProgress {
+  /** Completed units; a partially done subtask counts fractionally */
+  completed: number;
+  
+  /** Total units (direct subtasks plus checklist items) */
+  total: number;
+  
+  /** Completion percentage (0-100) */
+  percentage: number;
+}
+
 /**
  * Interface for task-related statistics and metrics.
  * Supports analytics and reporting features.
@@ -90,7 +141,7 @@ export interface TaskStats {
   averageCompletionTime: number;
   
   /** Distribution of tasks across different statuses */
-  statusDistribution: Record<TaskStatus, number>;
+  statusDistribution: Record<string, number>;
 }
 
 /**
@@ -103,7 +154,7 @@ export interface TaskTimeline {
   
   /** History of status changes with timestamps */
   statusChanges: Array<{
-    status: TaskStatus;
+    status: string;
     timestamp: Date;
   }>;
   
@@ -119,8 +170,8 @@ export interface TaskTimeline {
  * Extends base QueryParams with task-specific filters.
  */
 export interface TaskQueryParams extends QueryParams {
-  /** Filter by task status */
-  status?: TaskStatus;
+  /** Filter by workflow state key */
+  status?: string;
   
   /** Filter by priority level */
   priority?: TaskPriority;
@@ -134,6 +185,21 @@ export interface TaskQueryParams extends QueryParams {
   /** Filter by due date */
   dueDate?: Date;
   
+  /** Only return subtasks of this task */
+  parentId?: UUID;
+  
+  /** Only return tasks without a parent */
+  topLevelOnly?: boolean;
+  
+  /** Only return tasks planned in this sprint */
+  sprintId?: UUID;
+  
+  /** Custom field conditions as key:operator:value, e.g. points:gte:3 */
+  customField?: string[];
+  
+  /** Task query, e.g. `assignee = me AND due < +7d ORDER BY due` */
+  q?: string;
+  
   /** Sort field */
   sortBy?: keyof Task;
   
@@ -141,6 +207,74 @@ export interface TaskQueryParams extends QueryParams {
   sortOrder?: 'asc' | 'desc';
 }
 
+/**
+ * Enumeration of the outcomes of a task in a bulk change.
+ */
+export enum BulkTaskOutcome {
+  SUCCESS = 'SUCCESS',
+  CONFLICT = 'CONFLICT',
+  FORBIDDEN = 'FORBIDDEN',
+  NOT_FOUND = 'NOT_FOUND',
+  INVALID = 'INVALID',
+  ERROR = 'ERROR'
+}
+
+/**
+ * Change applied to every task of a bulk change.
+ */
+export interface BulkTaskPatch {
+  /** Workflow state key to move the tasks to */
+  status?: string;
+  
+  /** New priority */
+  priority?: TaskPriority;
+  
+  /** ID of the user to assign */
+  assigneeId?: UUID;
+  
+  /** New due date as ISO string; null clears it */
+  dueDate?: string | null;
+}
+
+/**
+ * Request of a bulk change: the tasks with the versions the user saw, and the change.
+ */
+export interface BulkUpdateTasksRequest {
+  /** Tasks to change */
+  items: Array<{ id: UUID; version: number }>;
+  
+  /** Change to apply */
+  patch: BulkTaskPatch;
+}
+
+/**
+ * Result of a single task of a bulk change.
+ */
+export interface BulkTaskResult {
+  /** Task ID */
+  id: UUID;
+  
+  /** What happened to the task */
+  outcome: BulkTaskOutcome;
+  
+  /** Updated task on success */
+  task?: Task;
+  
+  /** Reason the task was not changed */
+  error?: { code: string; message: string };
+}
+
+/**
+ * Results of a bulk change.
+ */
+export interface BulkUpdateResult {
+  /** Result per task, in request order */
+  results: BulkTaskResult[];
+  
+  /** Number of tasks per outcome */
+  summary: Record<BulkTaskOutcome, number>;
+}
+
 /**
  * Type alias for paginated task response
  */
@@ -159,4 +293,9 @@ export type TaskStatsApiResponse = ApiResponse<TaskStats>;
 /**
  * Type alias for task timeline API response
  */
-export type TaskTimelineApiResponse = ApiResponse<TaskTimeline>;
\ No newline at end of file
+export type TaskTimelineApiResponse = ApiResponse<TaskTimeline>;
+
+/**
+ * Type alias for bulk task change API response
+ */
+export type BulkUpdateApiResponse = ApiResponse<BulkUpdateResult>;
@@ -0,0 +1,184 @@
+/**
+ * @fileoverview TypeScript type definitions for outbound webhooks and their deliveries.
+ * @version 1.0.0
+ */
+
+import { ApiResponse } from './api.types';
+// @ts-ignore - UUID type from crypto module
+import { UUID } from 'crypto'; // v20.0.0+
+
+/**
+ * Events webhooks can subscribe to.
+ */
+export enum WebhookEventType {
+  TASK_CREATED = 'task.created',
+  TASK_UPDATED = 'task.updated',
+  TASK_DELETED = 'task.deleted',
+  PROJECT_CREATED = 'project.created',
+  PROJECT_UPDATED = 'project.updated'
+}
+
+/**
+ * Lifecycle of a delivery.
+ */
+export enum WebhookDeliveryStatus {
+  PENDING = 'PENDING',
+  RETRYING = 'RETRYING',
+  SUCCEEDED = 'SUCCEEDED',
+  FAILED = 'FAILED'
+}
+
+/**
+ * Interface defining a webhook subscription.
+ */
+export interface Webhook {
+  /** Webhook identifier */
+  id: UUID;
+
+  /** Project whose events are sent; null for every project */
+  projectId: UUID | null;
+
+  /** Display name */
+  name: string;
+
+  /** Receiver URL */
+  url: string;
+
+  /** Subscribed events */
+  events: WebhookEventType[];
+
+  /** Inactive webhooks receive no deliveries */
+  active: boolean;
+
+  /** Creating user */
+  createdBy: UUID;
+
+  /** Creation timestamp */
+  createdAt: string;
+
+  /** Last update timestamp */
+  updatedAt: string;
+}
+
+/**
+ * Webhook with its newly generated secret; the secret is not retrievable afterwards.
+ */
+export interface WebhookSecret {
+  /** Webhook */
+  webhook: Webhook;
+
+  /** Secret deliveries are signed with */
+  secret: string;
+}
+
+/**
+ * Payload for creating a webhook.
+ */
+export interface CreateWebhookPayload {
+  name: string;
+  url: string;
+  events: WebhookEventType[];
+  projectId?: UUID;
+  active?: boolean;
+}
+
+/**
+ * Payload for updating a webhook; its project cannot be changed.
+ */
+export type UpdateWebhookPayload = Partial<Omit<CreateWebhookPayload, 'projectId'>>;
+
+/**
+ * Interface defining a delivery of an event to a webhook.
+ */
+export interface WebhookDelivery {
+  /** Delivery identifier */
+  id: UUID;
+
+  /** Receiving webhook */
+  webhookId: UUID;
+
+  /** Event identifier, shared by redeliveries */
+  eventId: UUID;
+
+  /** Event type */
+  eventType: WebhookEventType;
+
+  /** Request body sent to the receiver */
+  payload: Record<string, unknown>;
+
+  /** Delivery status */
+  status: WebhookDeliveryStatus;
+
+  /** Attempts made so far */
+  attempts: number;
+
+  /** Response status of the latest attempt */
+  responseStatus: number | null;
+
+  /** Truncated response body of the latest attempt */
+  responseBody: string | null;
+
+  /** Why the latest attempt failed */
+  error: string | null;
+
+  /** Duration of the latest attempt */
+  durationMs: number | null;
+
+  /** When the next attempt is made */
+  nextAttemptAt: string | null;
+
+  /** When the receiver accepted the delivery */
+  deliveredAt: string | null;
+
+  /** Delivery this one repeats */
+  redeliveryOfId: UUID | null;
+
+  /** Creation timestamp */
+  createdAt: string;
+}
+
+/**
+ * Query parameters of the delivery log.
+ */
+export interface WebhookDeliveryQueryParams {
+  webhookId?: UUID;
+  status?: WebhookDeliveryStatus;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Page of the delivery log, newest first.
+ */
+export interface WebhookDeliveryPage {
+  items: WebhookDelivery[];
+  total: number;
+  page: number;
+  limit: number;
+  hasMore: boolean;
+}
+
+/**
+ * API response wrapper for a single webhook.
+ */
+export type WebhookApiResponse = ApiResponse<Webhook>;
+
+/**
+ * API response wrapper for a list of webhooks.
+ */
+export type WebhookListApiResponse = ApiResponse<Webhook[]>;
+
+/**
+ * API response wrapper for a webhook with its secret.
+ */
+export type WebhookSecretApiResponse = ApiResponse<WebhookSecret>;
+
+/**
+ * API response wrapper for a single delivery.
+ */
+export type WebhookDeliveryApiResponse = ApiResponse<WebhookDelivery>;
+
+/**
+ * API response wrapper for a page of deliveries.
+ */
+export type WebhookDeliveryPageApiResponse = ApiResponse<WebhookDeliveryPage>;
@@ -0,0 +1,95 @@
+/**
+ * @fileoverview TypeScript type definitions for the task workflows defined per project.
+ * @version 1.0.0
+ */
+
+import { ApiResponse } from './api.types';
+// @ts-ignore - UUID type from crypto module
+import { UUID } from 'crypto'; // v20.0.0+
+
+/**
+ * Category every workflow state maps to.
+ */
+export enum WorkflowCategory {
+  TODO = 'TODO',
+  DOING = 'DOING',
+  DONE = 'DONE'
+}
+
+/**
+ * How a work-in-progress limit is enforced.
+ */
+export enum WipLimitMode {
+  /** The board warns when the column is over its limit */
+  SOFT = 'SOFT',
+
+  /** The server rejects moves into a full column */
+  HARD = 'HARD'
+}
+
+/**
+ * Interface defining a state of a project workflow; each state is a board column.
+ */
+export interface WorkflowState {
+  /** State key stored as the task status */
+  key: string;
+
+  /** Display name, used as the board column label */
+  name: string;
+
+  /** Category of the state */
+  category: WorkflowCategory;
+
+  /** Most active tasks the column should hold; null for no limit */
+  wipLimit?: number | null;
+
+  /** How the WIP limit is enforced */
+  wipLimitMode?: WipLimitMode;
+
+  /** Board column order; the first state is where new tasks start */
+  position: number;
+}
+
+/**
+ * Interface defining an allowed move between two states.
+ */
+export interface WorkflowTransition {
+  /** Key of the state the task leaves */
+  from: string;
+
+  /** Key of the state the task enters */
+  to: string;
+}
+
+/**
+ * Interface defining the workflow of a project.
+ */
+export interface Workflow {
+  /** ID of the project owning the workflow */
+  projectId: UUID;
+
+  /** States ordered by position */
+  states: WorkflowState[];
+
+  /** Moves allowed between states */
+  transitions: WorkflowTransition[];
+
+  /** Whether the project still uses the default workflow */
+  isDefault: boolean;
+}
+
+/**
+ * Payload for replacing a project workflow; states are positioned in the order given.
+ */
+export interface UpdateWorkflowPayload {
+  /** New states */
+  states: Omit<WorkflowState, 'position'>[];
+
+  /** New transitions */
+  transitions: WorkflowTransition[];
+}
+
+/**
+ * Type alias for workflow API responses.
+ */
+export type WorkflowApiResponse = ApiResponse<Workflow>;
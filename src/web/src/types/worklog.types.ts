@@ -0,0 +1,179 @@
+/**
+ * @fileoverview TypeScript type definitions for time tracking: worklogs, timers and timesheets.
+ * @version 1.0.0
+ */
+
+import { ApiResponse } from './api.types';
+// @ts-ignore - UUID type from crypto module
+import { UUID } from 'crypto'; // v20.0.0+
+
+/**
+ * Interface defining time a user spent on a task.
+ */
+export interface Worklog {
+  /** Unique identifier for the entry */
+  readonly id: UUID;
+
+  /** ID of the task the time was spent on */
+  taskId: UUID;
+
+  /** ID of the user who logged the time */
+  readonly userId: UUID;
+
+  /** When the work started */
+  startedAt: string;
+
+  /** Time spent, in seconds */
+  durationSeconds: number;
+
+  /** What was done */
+  note: string | null;
+
+  /** Entry creation timestamp */
+  readonly createdAt: Date;
+
+  /** Last update timestamp */
+  readonly updatedAt: Date;
+}
+
+/**
+ * Interface defining the running timer of the current user.
+ */
+export interface Timer {
+  /** ID of the user running the timer */
+  readonly userId: UUID;
+
+  /** ID of the task being timed */
+  taskId: UUID;
+
+  /** When the timer started */
+  startedAt: string;
+
+  /** Note recorded with the entry when the timer stops */
+  note: string | null;
+}
+
+/**
+ * Payload for logging time on a task.
+ */
+export interface CreateWorklogPayload {
+  /** When the work started, as an ISO timestamp */
+  startedAt: string;
+
+  /** Time spent, in seconds; at most a day */
+  durationSeconds: number;
+
+  /** What was done */
+  note?: string;
+}
+
+/**
+ * Payload for changing a worklog entry; null clears the note.
+ */
+export type UpdateWorklogPayload = Partial<Omit<CreateWorklogPayload, 'note'>> & {
+  note?: string | null;
+};
+
+/**
+ * Payload for starting a timer; a running timer is stopped and logged first.
+ */
+export interface StartTimerPayload {
+  /** ID of the task to time */
+  taskId: UUID;
+
+  /** Note to record with the entry */
+  note?: string;
+}
+
+/**
+ * Outcome of starting a timer.
+ */
+export interface TimerStartResult {
+  /** The new timer */
+  timer: Timer;
+
+  /** Entry logged for the timer that was still running, if any */
+  stopped: Worklog | null;
+}
+
+/**
+ * Days a timesheet covers, as YYYY-MM-DD; the current week when omitted.
+ */
+export interface TimesheetQueryParams {
+  /** First day */
+  from?: string;
+
+  /** Last day */
+  to?: string;
+}
+
+/**
+ * Time one user logged on one task, per day of a timesheet.
+ */
+export interface TimesheetRow {
+  /** ID of the user who logged the time */
+  userId: UUID;
+
+  /** ID of the task */
+  taskId: UUID;
+
+  /** Task title */
+  taskTitle: string;
+
+  /** ID of the project owning the task */
+  projectId: UUID;
+
+  /** Seconds logged on each day, aligned with the timesheet days */
+  seconds: number[];
+
+  /** Seconds logged over the whole range */
+  totalSeconds: number;
+}
+
+/**
+ * Interface defining logged time per user, task and day.
+ */
+export interface Timesheet {
+  /** First day */
+  from: string;
+
+  /** Last day */
+  to: string;
+
+  /** Days covered, as YYYY-MM-DD */
+  days: string[];
+
+  /** Rows by user, then task title */
+  rows: TimesheetRow[];
+
+  /** Seconds logged on each day */
+  dailyTotals: number[];
+
+  /** Seconds logged over the whole range */
+  totalSeconds: number;
+}
+
+/**
+ * Type alias for worklog API responses.
+ */
+export type WorklogApiResponse = ApiResponse<Worklog>;
+
+/**
+ * Type alias for worklog list API responses.
+ */
+export type WorklogListApiResponse = ApiResponse<Worklog[]>;
+
+/**
+ * Type alias for timer API responses; null when no timer is running.
+ */
+export type TimerApiResponse = ApiResponse<Timer | null>;
+
+/**
+ * Type alias for timer start API responses.
+ */
+export type TimerStartApiResponse = ApiResponse<TimerStartResult>;
+
+/**
+ * Type alias for timesheet API responses.
+ */
+export type TimesheetApiResponse = ApiResponse<Timesheet>;
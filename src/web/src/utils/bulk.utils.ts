@@ -0,0 +1,40 @@
+/**
+ * @fileoverview Helpers for reporting the results of bulk task changes
+ * @version 1.0.0
+ */
+
+import { BulkTaskOutcome, BulkUpdateResult } from '../types/task.types';
+
+// How each outcome reads in a summary, singular and plural
+const OUTCOME_LABELS: Record<BulkTaskOutcome, [string, string]> = {
+  [BulkTaskOutcome.SUCCESS]: ['updated', 'updated'],
+  [BulkTaskOutcome.CONFLICT]: ['conflict', 'conflicts'],
+  [BulkTaskOutcome.FORBIDDEN]: ['not permitted', 'not permitted'],
+  [BulkTaskOutcome.NOT_FOUND]: ['not found', 'not found'],
+  [BulkTaskOutcome.INVALID]: ['invalid', 'invalid'],
+  [BulkTaskOutcome.ERROR]: ['failed', 'failed']
+};
+
+/**
+ * Summarizes a bulk change, e.g. `5 updated, 2 conflicts`
+ * @param result - Result of the bulk change
+ * @returns Counts of the outcomes that occurred, in a fixed order
+ */
+export const formatBulkSummary = (result: BulkUpdateResult): string =>
+  Object.values(BulkTaskOutcome)
+    .filter(outcome => result.summary[outcome] > 0)
+    .map(outcome => {
+      const count = result.summary[outcome];
+      return `${count} ${OUTCOME_LABELS[outcome][count === 1 ? 0 : 1]}`;
+    })
+    .join(', ');
+
+/**
+ * Lists the tasks a bulk change did not update, so that they can stay selected for a retry
+ * @param result - Result of the bulk change
+ * @returns IDs of the tasks with any outcome but success
+ */
+export const getFailedBulkIds = (result: BulkUpdateResult): string[] =>
+  result.results
+    .filter(item => item.outcome !== BulkTaskOutcome.SUCCESS)
+    .map(item => item.id);
@@ -0,0 +1,50 @@
+/**
+ * @fileoverview Helpers for subscribing to the personal calendar feed
+ * @version 1.0.0
+ */
+
+import { CalendarFeedUrlOptions } from '../types/calendar.types';
+import { API_ENDPOINTS } from '../constants/api.constants';
+
+/**
+ * Time zone of the browser, used for feeds subscribed from it
+ * @returns IANA time zone; UTC when the browser does not report one
+ */
+export const getBrowserTimeZone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+};
+
+/**
+ * Builds the URL calendar apps subscribe to
+ * @param baseUrl - Origin of the API, e.g. https://tasks.example.com
+ * @param token - Secret feed token
+ * @param options - Projects and time zone
+ * @returns Absolute feed URL
+ */
+export const buildCalendarFeedUrl = (
+  baseUrl: string,
+  token: string,
+  { projectIds, timezone }: CalendarFeedUrlOptions = {}
+): string => {
+  const url = new URL(`${API_ENDPOINTS.CALENDAR}/${encodeURIComponent(token)}.ics`, baseUrl);
+
+  projectIds?.forEach(projectId => url.searchParams.append('projectId', projectId));
+  if (timezone && timezone !== 'UTC') {
+    url.searchParams.set('tz', timezone);
+  }
+
+  return url.toString();
+};
+
+/**
+ * Converts a feed URL to the webcal scheme, which opens the subscription dialog of
+ * calendar apps
+ * @param feedUrl - Absolute http(s) feed URL
+ * @returns webcal URL
+ */
+export const toWebcalUrl = (feedUrl: string): string =>
+  feedUrl.replace(/^https?:\/\//, 'webcal://');
@@ -0,0 +1,57 @@
+/**
+ * @fileoverview Helpers for the task import dialog: field labels, progress and row errors
+ * @version 1.0.0
+ */
+
+import {
+  TaskImportField,
+  TaskImportMapping,
+  TaskImportProgressUpdate,
+  TaskImportRowError,
+  TaskImportStatus
+} from '../types/import.types';
+
+// How each field is offered in the mapping step, in display order
+export const IMPORT_FIELD_LABELS: Record<TaskImportField, string> = {
+  [TaskImportField.TITLE]: 'Title',
+  [TaskImportField.DESCRIPTION]: 'Description',
+  [TaskImportField.STATUS]: 'Status',
+  [TaskImportField.PRIORITY]: 'Priority',
+  [TaskImportField.ASSIGNEE_EMAIL]: 'Assignee email',
+  [TaskImportField.DUE_DATE]: 'Due date',
+  [TaskImportField.TAGS]: 'Tags',
+  [TaskImportField.ORIGINAL_ESTIMATE]: 'Original estimate (hours)'
+};
+
+/**
+ * Drops fields mapped to no column, so that the mapping can be sent as is
+ * @param mapping - Mapping as edited in the dialog
+ * @returns Mapping of the fields with a column
+ */
+export const compactImportMapping = (mapping: TaskImportMapping): TaskImportMapping =>
+  Object.fromEntries(
+    Object.entries(mapping).filter(([, column]) => Boolean(column))
+  ) as TaskImportMapping;
+
+/**
+ * Share of the rows an import has processed
+ * @param progress - Latest progress of the import
+ * @returns Percentage from 0 to 100; 100 once the import completed
+ */
+export const getImportPercentage = (
+  progress: Pick<TaskImportProgressUpdate, 'status' | 'totalRows' | 'processedRows'>
+): number => {
+  if (progress.status === TaskImportStatus.COMPLETED) return 100;
+  if (progress.totalRows === 0) return 0;
+  return Math.min(100, Math.round((progress.processedRows / progress.totalRows) * 100));
+};
+
+/**
+ * Renders the errors of a row on one line, e.g. `Row 3: assigneeEmail: bob@x.io is not a member`
+ * @param error - Errors of the row
+ * @returns Line listing each field with its messages
+ */
+export const formatImportRowError = (error: TaskImportRowError): string =>
+  `Row ${error.row}: ${Object.entries(error.errors)
+    .map(([field, messages]) => `${field}: ${messages.join('; ')}`)
+    .join(', ')}`;
@@ -12,6 +12,53 @@ export {
   handlePaginatedResponse
 } from './api.utils';
 
+// Bulk Change Utilities
+export {
+  formatBulkSummary,
+  getFailedBulkIds
+} from './bulk.utils';
+
+// Calendar Feed Utilities
+export {
+  getBrowserTimeZone,
+  buildCalendarFeedUrl,
+  toWebcalUrl
+} from './calendar.utils';
+
+// Webhook Utilities
+export {
+  WEBHOOK_EVENT_LABELS,
+  getDeliveryStatusColor,
+  describeDeliveryOutcome,
+  canRedeliver
+} from './webhook.utils';
+
+// Notification Utilities
+export {
+  NOTIFICATION_TYPE_LABELS,
+  getNotificationLink,
+  fromPushPayload,
+  prependNotification,
+  markNotificationsRead
+} from './notification.utils';
+
+// List Export Utilities
+export {
+  EXPORT_FORMAT_LABELS,
+  toTaskExportColumns,
+  toExportQuery,
+  getExportFileName,
+  saveExportFile
+} from './export.utils';
+
+// Task Import Utilities
+export {
+  IMPORT_FIELD_LABELS,
+  compactImportMapping,
+  getImportPercentage,
+  formatImportRowError
+} from './import.utils';
+
 // Date Utilities
 export {
   formatDate,
@@ -22,6 +69,35 @@ export {
   getRelativeDateLabel
 } from './date.utils';
 
+// Saved View Utilities
+export {
+  VIEW_PARAM,
+  DEFAULT_VIEW_STATE,
+  viewStateToSearchParams,
+  searchParamsToViewState,
+  toViewState,
+  buildViewLink,
+  toTaskQueryParams
+} from './savedView.utils';
+
+// Search Utilities
+export {
+  splitHighlight,
+  getSearchHitLink,
+  type HighlightSegment
+} from './search.utils';
+
+// Task Query Utilities
+export {
+  TASK_QUERY_FIELDS,
+  getTaskQueryCompletion,
+  applyTaskQuerySuggestion,
+  type TaskQueryField,
+  type TaskQuerySuggestion,
+  type TaskQueryCompletion,
+  type TaskQueryValueHints
+} from './taskQuery.utils';
+
 // Storage Utilities
 export {
   setItem,
@@ -0,0 +1,88 @@
+/**
+ * @fileoverview Display and state helpers for the notification center
+ * @version 1.0.0
+ */
+
+import { Notification, NotificationPushPayload, NotificationType } from '../types/notification.types';
+import { PRIVATE_ROUTES, buildRoute } from '../constants/routes.constants';
+
+/**
+ * Labels of the notification types
+ */
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+  [NotificationType.ASSIGNMENT]: 'Assigned',
+  [NotificationType.MENTION]: 'Mentioned',
+  [NotificationType.STATUS_CHANGE]: 'Status changed',
+  [NotificationType.DUE_SOON]: 'Due soon',
+  [NotificationType.COMMENT_REPLY]: 'Reply'
+};
+
+/**
+ * Builds the link opening what a notification is about; mentions and replies open
+ * their task at the comment
+ * @param notification - Notification
+ * @returns Route path, or null when the notification is not about a task
+ */
+export const getNotificationLink = (notification: Notification): string | null => {
+  if (!notification.taskId) return null;
+
+  const taskLink = buildRoute(PRIVATE_ROUTES.TASK_DETAIL, { id: notification.taskId });
+  return notification.commentId ? `${taskLink}#comment-${notification.commentId}` : taskLink;
+};
+
+/**
+ * Converts a NOTIFICATION_NEW payload to an unread notification
+ * @param payload - WebSocket payload
+ * @param userId - Current user, who the notification was pushed to
+ * @returns Notification
+ */
+export const fromPushPayload = (payload: NotificationPushPayload, userId: string): Notification => ({
+  id: payload.notificationId,
+  userId: userId as Notification['userId'],
+  type: payload.type,
+  title: payload.title,
+  message: payload.message,
+  taskId: payload.taskId,
+  projectId: payload.projectId,
+  commentId: payload.commentId,
+  actorId: payload.actorId,
+  readAt: null,
+  createdAt: payload.createdAt
+});
+
+/**
+ * Adds a pushed notification to the top of a list, ignoring one that is already listed
+ * @param notifications - Listed notifications, newest first
+ * @param notification - New notification
+ * @param limit - Maximum number of notifications to keep
+ * @returns New list
+ */
+export const prependNotification = (
+  notifications: Notification[],
+  notification: Notification,
+  limit: number
+): Notification[] => {
+  if (notifications.some(existing => existing.id === notification.id)) {
+    return notifications;
+  }
+
+  return [notification, ...notifications].slice(0, limit);
+};
+
+/**
+ * Marks listed notifications as read, keeping the time ones already read were read
+ * @param notifications - Listed notifications
+ * @param readAt - Read time
+ * @param notificationId - Notification to mark; all of them when omitted
+ * @returns New list
+ */
+export const markNotificationsRead = (
+  notifications: Notification[],
+  readAt: string,
+  notificationId?: string
+): Notification[] =>
+  notifications.map(notification =>
+    notification.readAt || (notificationId && notification.id !== notificationId)
+      ? notification
+      : { ...notification, readAt }
+  );
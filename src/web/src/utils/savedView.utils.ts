@@ -0,0 +1,143 @@
+/**
+ * @fileoverview Conversion between saved view state and the task page URL, so that
+ * every list and board configuration can be bookmarked and shared as a link
+ * @version 1.0.0
+ */
+
+import {
+  SavedView,
+  SavedViewFilters,
+  SavedViewGrouping,
+  SavedViewLayout,
+  SavedViewState
+} from '../types/savedView.types';
+import { TaskPriority, TaskQueryParams } from '../types/task.types';
+
+/**
+ * Query parameter naming the saved view the URL was opened from
+ */
+export const VIEW_PARAM = 'view';
+
+/**
+ * State of the task page when the URL carries none
+ */
+export const DEFAULT_VIEW_STATE: SavedViewState = {
+  projectId: null,
+  layout: SavedViewLayout.LIST,
+  filters: {},
+  sortBy: 'createdAt',
+  sortOrder: 'desc',
+  groupBy: 'none',
+  columns: []
+};
+
+// Filters carried as single query parameters
+const STRING_FILTERS = ['status', 'assigneeId', 'sprintId', 'parentId', 'search', 'q'] as const;
+
+const GROUPINGS: readonly SavedViewGrouping[] = ['none', 'assignee', 'priority', 'project'];
+
+/**
+ * Writes a view state to URL query parameters, leaving out defaults to keep links short
+ * @param state - View state to encode
+ * @param viewId - Saved view the state was opened from, if any
+ * @returns Query parameters
+ */
+export const viewStateToSearchParams = (state: SavedViewState, viewId?: string | null): URLSearchParams => {
+  const params = new URLSearchParams();
+  const { filters } = state;
+
+  if (viewId) params.set(VIEW_PARAM, viewId);
+  if (state.projectId) params.set('projectId', state.projectId);
+  if (state.layout !== DEFAULT_VIEW_STATE.layout) params.set('layout', state.layout);
+
+  STRING_FILTERS.forEach(key => {
+    if (filters[key]) params.set(key, filters[key] as string);
+  });
+  if (filters.priority) params.set('priority', filters.priority);
+  if (filters.topLevelOnly) params.set('topLevelOnly', 'true');
+  filters.customField?.forEach(condition => params.append('customField', condition));
+
+  if (state.sortBy !== DEFAULT_VIEW_STATE.sortBy) params.set('sortBy', state.sortBy);
+  if (state.sortOrder !== DEFAULT_VIEW_STATE.sortOrder) params.set('sortOrder', state.sortOrder);
+  if (state.groupBy !== DEFAULT_VIEW_STATE.groupBy) params.set('groupBy', state.groupBy);
+  if (state.columns.length > 0) params.set('columns', state.columns.join(','));
+
+  return params;
+};
+
+/**
+ * Reads a view state from URL query parameters; unknown values fall back to the defaults
+ * @param params - Query parameters of the task page
+ * @returns View state
+ */
+export const searchParamsToViewState = (params: URLSearchParams): SavedViewState => {
+  const filters: SavedViewFilters = {};
+
+  STRING_FILTERS.forEach(key => {
+    const value = params.get(key);
+    if (value) (filters as Record<string, string>)[key] = value;
+  });
+
+  const priority = params.get('priority');
+  if (priority && Object.values(TaskPriority).includes(priority as TaskPriority)) {
+    filters.priority = priority as TaskPriority;
+  }
+  if (params.get('topLevelOnly') === 'true') filters.topLevelOnly = true;
+
+  const customField = params.getAll('customField').filter(Boolean);
+  if (customField.length > 0) filters.customField = customField;
+
+  const layout = params.get('layout') as SavedViewLayout | null;
+  const sortOrder = params.get('sortOrder');
+  const groupBy = params.get('groupBy') as SavedViewGrouping | null;
+
+  return {
+    projectId: (params.get('projectId') as SavedViewState['projectId']) || null,
+    layout: layout && Object.values(SavedViewLayout).includes(layout) ? layout : DEFAULT_VIEW_STATE.layout,
+    filters,
+    sortBy: params.get('sortBy') || DEFAULT_VIEW_STATE.sortBy,
+    sortOrder: sortOrder === 'asc' || sortOrder === 'desc' ? sortOrder : DEFAULT_VIEW_STATE.sortOrder,
+    groupBy: groupBy && GROUPINGS.includes(groupBy) ? groupBy : DEFAULT_VIEW_STATE.groupBy,
+    columns: params.get('columns')?.split(',').filter(Boolean) ?? []
+  };
+};
+
+/**
+ * Picks the state a saved view restores
+ * @param view - Saved view
+ * @returns View state
+ */
+export const toViewState = (view: SavedView): SavedViewState => ({
+  projectId: view.projectId,
+  layout: view.layout,
+  filters: view.filters,
+  sortBy: view.sortBy,
+  sortOrder: view.sortOrder,
+  groupBy: view.groupBy,
+  columns: view.columns
+});
+
+/**
+ * Builds the task page link opening a saved view
+ * @param basePath - Path of the task page
+ * @param view - Saved view
+ * @returns Link with the view's state in the query string
+ */
+export const buildViewLink = (basePath: string, view: SavedView): string =>
+  `${basePath}?${viewStateToSearchParams(toViewState(view), view.id).toString()}`;
+
+/**
+ * Builds the task list query for a view state
+ * @param state - View state
+ * @param page - Page to load
+ * @param limit - Page size
+ * @returns Task query parameters
+ */
+export const toTaskQueryParams = (state: SavedViewState, page: number, limit: number): TaskQueryParams => ({
+  ...state.filters,
+  ...(state.projectId && { projectId: state.projectId }),
+  page,
+  limit,
+  sortBy: state.sortBy as TaskQueryParams['sortBy'],
+  sortOrder: state.sortOrder
+});
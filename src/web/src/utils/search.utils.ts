@@ -0,0 +1,55 @@
+/**
+ * @fileoverview Rendering helpers for full-text search results
+ * @version 1.0.0
+ */
+
+import { SearchHit, SearchResultType } from '../types/search.types';
+import { PRIVATE_ROUTES, buildRoute } from '../constants/routes.constants';
+
+/**
+ * Part of a highlight, matched or not
+ */
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+// Markers the server wraps around matched terms
+const HIGHLIGHT_PATTERN = /<mark>(.*?)<\/mark>/g;
+
+/**
+ * Splits a highlight into matched and unmatched text, so that it can be rendered
+ * without interpreting the rest of it as HTML
+ * @param highlight - Highlight as returned by the search endpoint
+ * @returns Segments in order, empty ones left out
+ */
+export const splitHighlight = (highlight: string): HighlightSegment[] => {
+  const segments: HighlightSegment[] = [];
+  let last = 0;
+
+  for (const match of highlight.matchAll(HIGHLIGHT_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > last) segments.push({ text: highlight.slice(last, index), match: false });
+    if (match[1]) segments.push({ text: match[1], match: true });
+    last = index + match[0].length;
+  }
+
+  if (last < highlight.length) segments.push({ text: highlight.slice(last), match: false });
+  return segments;
+};
+
+/**
+ * Builds the link opening a search result; comments open their task at the comment
+ * @param hit - Search result
+ * @returns Route path
+ */
+export const getSearchHitLink = (hit: SearchHit): string => {
+  switch (hit.type) {
+    case SearchResultType.PROJECT:
+      return buildRoute(PRIVATE_ROUTES.PROJECT_DETAIL, { id: hit.id });
+    case SearchResultType.COMMENT:
+      return `${buildRoute(PRIVATE_ROUTES.TASK_DETAIL, { id: hit.taskId as string })}#comment-${hit.id}`;
+    default:
+      return buildRoute(PRIVATE_ROUTES.TASK_DETAIL, { id: hit.id });
+  }
+};
@@ -0,0 +1,306 @@
+/**
+ * @fileoverview Autocompletion for the task query language, e.g.
+ * `assignee = me AND priority >= HIGH AND due < +7d ORDER BY due`
+ * @version 1.0.0
+ */
+
+import { TaskPriority } from '../types/task.types';
+
+/**
+ * Value type of a query field, deciding its operators and suggested values
+ */
+export type TaskQueryFieldType = 'text' | 'keyword' | 'priority' | 'user' | 'id' | 'date' | 'number' | 'tag';
+
+/**
+ * Field a query can filter on
+ */
+export interface TaskQueryField {
+  /** Name typed in the query */
+  name: string;
+
+  /** Value type */
+  type: TaskQueryFieldType;
+
+  /** Short explanation shown next to the suggestion */
+  description: string;
+
+  /** Whether `is empty` applies */
+  nullable?: boolean;
+
+  /** Whether ORDER BY accepts the field */
+  sortable?: boolean;
+}
+
+/**
+ * Completion offered at the cursor
+ */
+export interface TaskQuerySuggestion {
+  /** Text shown in the list */
+  label: string;
+
+  /** Text inserted in place of the word being typed */
+  insert: string;
+
+  /** Short explanation */
+  detail?: string;
+}
+
+/**
+ * Suggestions for the cursor position, with the range of the word they replace
+ */
+export interface TaskQueryCompletion {
+  suggestions: TaskQuerySuggestion[];
+  from: number;
+  to: number;
+}
+
+/**
+ * Values known to the page, offered for the fields they belong to
+ */
+export interface TaskQueryValueHints {
+  /** Workflow state keys */
+  statuses?: string[];
+
+  /** Tags in use */
+  tags?: string[];
+}
+
+/**
+ * Fields of the query language, as the server understands them
+ */
+export const TASK_QUERY_FIELDS: TaskQueryField[] = [
+  { name: 'status', type: 'keyword', description: 'Workflow state key', sortable: true },
+  { name: 'priority', type: 'priority', description: 'LOW < MEDIUM < HIGH', sortable: true },
+  { name: 'assignee', type: 'user', description: 'User ID or me' },
+  { name: 'project', type: 'id', description: 'Project ID' },
+  { name: 'sprint', type: 'id', description: 'Sprint ID', nullable: true },
+  { name: 'parent', type: 'id', description: 'Parent task ID', nullable: true },
+  { name: 'due', type: 'date', description: 'Due date', nullable: true, sortable: true },
+  { name: 'created', type: 'date', description: 'Creation date', sortable: true },
+  { name: 'updated', type: 'date', description: 'Last change', sortable: true },
+  { name: 'tag', type: 'tag', description: 'Task tag' },
+  { name: 'title', type: 'text', description: 'Task title', sortable: true },
+  { name: 'text', type: 'text', description: 'Title or description' },
+  { name: 'estimate', type: 'number', description: 'Original estimate', nullable: true, sortable: true },
+  { name: 'remaining', type: 'number', description: 'Remaining estimate', nullable: true, sortable: true }
+];
+
+const COMPARISONS = ['=', '!=', '<', '<=', '>', '>='];
+const MEMBERSHIP = ['in (', 'not in ('];
+
+const OPERATORS: Record<TaskQueryFieldType, string[]> = {
+  text: ['~', '!~', '=', '!='],
+  keyword: ['=', '!=', ...MEMBERSHIP],
+  priority: [...COMPARISONS, ...MEMBERSHIP],
+  user: ['=', '!=', ...MEMBERSHIP],
+  id: ['=', '!=', ...MEMBERSHIP],
+  date: COMPARISONS,
+  number: COMPARISONS,
+  tag: ['=', '!=', ...MEMBERSHIP]
+};
+
+const DATE_VALUES: TaskQuerySuggestion[] = [
+  { label: 'today', insert: 'today', detail: 'Start of today' },
+  { label: '+7d', insert: '+7d', detail: 'In a week' },
+  { label: '-7d', insert: '-7d', detail: 'A week ago' },
+  { label: '+1m', insert: '+1m', detail: 'In a month' },
+  { label: '-1m', insert: '-1m', detail: 'A month ago' }
+];
+
+const DEFAULT_STATUSES = ['TODO', 'IN_PROGRESS', 'REVIEW', 'DONE', 'BLOCKED'];
+
+const TOKEN_PATTERN = /\s*("(?:\\.|[^"\\])*"?|'(?:\\.|[^'\\])*'?|<=|>=|!=|!~|[=<>~(),]|[A-Za-z0-9_.:@+-]+)/y;
+const PARTIAL_PATTERN = /[A-Za-z0-9_.:@+-]*$/;
+
+// What the parser expects next while walking the tokens before the cursor
+type Expectation =
+  | 'field' | 'operator' | 'value' | 'listOpen' | 'listValue' | 'listNext'
+  | 'notIn' | 'empty' | 'connective' | 'by' | 'sortField' | 'sortOrder' | 'done';
+
+/**
+ * Finds a query field by name, ignoring case
+ */
+const findField = (name: string): TaskQueryField | undefined =>
+  TASK_QUERY_FIELDS.find(field => field.name === name.toLowerCase());
+
+/**
+ * Walks the complete tokens before the cursor and tells what may follow them
+ */
+const analyze = (tokens: string[]): { expect: Expectation; field?: TaskQueryField } => {
+  let expect: Expectation = 'field';
+  let field: TaskQueryField | undefined;
+
+  tokens.forEach(token => {
+    const word = token.toLowerCase();
+
+    switch (expect) {
+      case 'field':
+        if (word === 'order') expect = 'by';
+        else if (word !== 'not' && word !== '(') {
+          field = findField(word);
+          expect = 'operator';
+        }
+        break;
+      case 'operator':
+        if (word === 'in') expect = 'listOpen';
+        else if (word === 'not') expect = 'notIn';
+        else if (word === 'is') expect = 'empty';
+        else expect = 'value';
+        break;
+      case 'notIn':
+        expect = 'listOpen';
+        break;
+      case 'listOpen':
+        expect = 'listValue';
+        break;
+      case 'listValue':
+        expect = 'listNext';
+        break;
+      case 'listNext':
+        expect = word === ',' ? 'listValue' : 'connective';
+        break;
+      case 'empty':
+        if (word !== 'not') expect = 'connective';
+        break;
+      case 'value':
+        expect = 'connective';
+        break;
+      case 'connective':
+        if (word === 'and' || word === 'or') expect = 'field';
+        else if (word === 'order') expect = 'by';
+        break;
+      case 'by':
+        expect = 'sortField';
+        break;
+      case 'sortField':
+        expect = 'sortOrder';
+        break;
+      default:
+        expect = 'done';
+    }
+  });
+
+  return { expect, field };
+};
+
+/**
+ * Suggests values of a field
+ */
+const valueSuggestions = (field: TaskQueryField | undefined, hints: TaskQueryValueHints): TaskQuerySuggestion[] => {
+  switch (field?.type) {
+    case 'priority':
+      return Object.values(TaskPriority).map(priority => ({ label: priority, insert: priority }));
+    case 'user':
+      return [{ label: 'me', insert: 'me', detail: 'You' }];
+    case 'date':
+      return DATE_VALUES;
+    case 'keyword':
+      return (hints.statuses?.length ? hints.statuses : DEFAULT_STATUSES)
+        .map(status => ({ label: status, insert: status }));
+    case 'tag':
+      return (hints.tags || []).map(tag => ({
+        label: tag,
+        insert: /^[A-Za-z0-9_.:@+-]+$/.test(tag) ? tag : JSON.stringify(tag)
+      }));
+    default:
+      return [];
+  }
+};
+
+/**
+ * Suggests what may be typed at the cursor: field names, operators, values of the
+ * field being compared, connectives and the ORDER BY clause
+ * @param query - Query typed so far
+ * @param cursor - Cursor offset in the query
+ * @param hints - Values known to the page
+ * @returns Suggestions matching the word at the cursor and the range it spans
+ */
+export const getTaskQueryCompletion = (
+  query: string,
+  cursor: number = query.length,
+  hints: TaskQueryValueHints = {}
+): TaskQueryCompletion => {
+  const before = query.slice(0, cursor);
+  const partial = PARTIAL_PATTERN.exec(before)?.[0] ?? '';
+  const from = cursor - partial.length;
+
+  // Tokens before the word being typed; an unknown character ends the walk
+  const head = before.slice(0, from);
+  const tokens: string[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while (TOKEN_PATTERN.lastIndex < head.length && (match = TOKEN_PATTERN.exec(head))) {
+    tokens.push(match[1]);
+  }
+
+  const { expect, field } = analyze(tokens);
+  let suggestions: TaskQuerySuggestion[];
+
+  switch (expect) {
+    case 'field':
+      suggestions = TASK_QUERY_FIELDS.map(({ name, description }) => ({ label: name, insert: name, detail: description }));
+      break;
+    case 'operator':
+      suggestions = field
+        ? [
+            ...OPERATORS[field.type],
+            ...(field.nullable ? ['is empty', 'is not empty'] : [])
+          ].map(operator => ({ label: operator.replace(' (', ' (…)'), insert: operator }))
+        : [];
+      break;
+    case 'value':
+    case 'listValue':
+      suggestions = valueSuggestions(field, hints);
+      break;
+    case 'connective':
+      suggestions = [
+        { label: 'AND', insert: 'AND' },
+        { label: 'OR', insert: 'OR' },
+        { label: 'ORDER BY', insert: 'ORDER BY' }
+      ];
+      break;
+    case 'by':
+      suggestions = [{ label: 'BY', insert: 'BY' }];
+      break;
+    case 'sortField':
+      suggestions = TASK_QUERY_FIELDS
+        .filter(({ sortable }) => sortable)
+        .map(({ name, description }) => ({ label: name, insert: name, detail: description }));
+      break;
+    case 'sortOrder':
+      suggestions = [{ label: 'ASC', insert: 'ASC' }, { label: 'DESC', insert: 'DESC' }];
+      break;
+    default:
+      suggestions = [];
+  }
+
+  const prefix = partial.toLowerCase();
+  return {
+    suggestions: suggestions.filter(suggestion =>
+      suggestion.insert.toLowerCase().startsWith(prefix) && suggestion.insert.toLowerCase() !== prefix
+    ),
+    from,
+    to: cursor
+  };
+};
+
+/**
+ * Inserts a suggestion in place of the word it completes
+ * @param query - Query typed so far
+ * @param completion - Completion the suggestion was picked from
+ * @param suggestion - Picked suggestion
+ * @returns New query and the cursor offset after the inserted text
+ */
+export const applyTaskQuerySuggestion = (
+  query: string,
+  completion: TaskQueryCompletion,
+  suggestion: TaskQuerySuggestion
+): { query: string; cursor: number } => {
+  // Lists stay open for their first value; everything else is followed by a space
+  const insert = suggestion.insert.endsWith('(') ? suggestion.insert : `${suggestion.insert} `;
+  const rest = query.slice(completion.to).replace(/^\s+/, '');
+  return {
+    query: `${query.slice(0, completion.from)}${insert}${rest}`,
+    cursor: completion.from + insert.length
+  };
+};
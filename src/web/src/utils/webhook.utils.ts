@@ -0,0 +1,62 @@
+/**
+ * @fileoverview Display helpers for webhooks and their delivery log
+ * @version 1.0.0
+ */
+
+import { WebhookDelivery, WebhookDeliveryStatus, WebhookEventType } from '../types/webhook.types';
+
+/**
+ * Labels of the events webhooks can subscribe to, in display order
+ */
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEventType, string> = {
+  [WebhookEventType.TASK_CREATED]: 'Task created',
+  [WebhookEventType.TASK_UPDATED]: 'Task updated',
+  [WebhookEventType.TASK_DELETED]: 'Task deleted',
+  [WebhookEventType.PROJECT_CREATED]: 'Project created',
+  [WebhookEventType.PROJECT_UPDATED]: 'Project updated'
+};
+
+/**
+ * Chip color of a delivery status
+ * @param status - Delivery status
+ * @returns MUI palette color
+ */
+export const getDeliveryStatusColor = (
+  status: WebhookDeliveryStatus
+): 'default' | 'info' | 'warning' | 'success' | 'error' => {
+  switch (status) {
+    case WebhookDeliveryStatus.SUCCEEDED:
+      return 'success';
+    case WebhookDeliveryStatus.RETRYING:
+      return 'warning';
+    case WebhookDeliveryStatus.FAILED:
+      return 'error';
+    default:
+      return 'info';
+  }
+};
+
+/**
+ * Summarizes the latest attempt of a delivery, e.g. "503 after 2 attempts"
+ * @param delivery - Delivery
+ * @returns Short outcome description
+ */
+export const describeDeliveryOutcome = (delivery: WebhookDelivery): string => {
+  if (delivery.attempts === 0) {
+    return 'Not attempted yet';
+  }
+
+  const attempts = `${delivery.attempts} attempt${delivery.attempts === 1 ? '' : 's'}`;
+  const outcome = delivery.responseStatus !== null
+    ? `HTTP ${delivery.responseStatus}`
+    : delivery.error || 'No response';
+
+  return `${outcome} after ${attempts}`;
+};
+
+/**
+ * Whether a delivery can be sent again; deliveries still being attempted cannot
+ * @param delivery - Delivery
+ */
+export const canRedeliver = (delivery: WebhookDelivery): boolean =>
+  delivery.status === WebhookDeliveryStatus.SUCCEEDED || delivery.status === WebhookDeliveryStatus.FAILED;
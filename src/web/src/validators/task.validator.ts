@@ -8,12 +8,17 @@
 import Joi from 'joi'; // v17.x
 import { TASK_VALIDATION } from '../constants/validation.constants';
 import {
-  TaskStatus,
   TaskPriority,
   CreateTaskDTO,
   UpdateTaskDTO,
   TaskQueryParams,
 } from '../types/task.types';
+import { RecurrenceFrequency, RecurrenceTrigger } from '../types/recurrence.types';
+
+/**
+ * Format of workflow state keys; the states themselves are defined per project
+ */
+const WORKFLOW_STATE_KEY_PATTERN = /^[A-Z][A-Z0-9_]{0,49}$/;
 
 /**
  * Custom Joi extension for enhanced security validation
@@ -35,6 +40,45 @@ const JoiSecure = Joi.extend((joi) => ({
   },
 }));
 
+/**
+ * Validation schema for recurrence rules; the RRULE itself is parsed by the server
+ */
+export const recurrenceRuleSchema = Joi.object({
+  frequency: Joi.string()
+    .valid(...Object.values(RecurrenceFrequency))
+    .required()
+    .messages({
+      'any.only': 'Invalid recurrence frequency',
+    }),
+  interval: Joi.number().integer().min(1).max(365).optional()
+    .messages({
+      'number.min': 'Repeat interval must be at least 1',
+      'number.max': 'Repeat interval cannot exceed 365',
+    }),
+  byWeekday: Joi.array().items(Joi.number().integer().min(0).max(6)).unique().optional(),
+  byMonthDay: Joi.number().integer().min(1).max(31).optional()
+    .messages({
+      'number.min': 'Day of month must be between 1 and 31',
+      'number.max': 'Day of month must be between 1 and 31',
+    }),
+  rrule: Joi.string().trim().max(500)
+    .when('frequency', {
+      is: RecurrenceFrequency.CUSTOM,
+      then: Joi.required(),
+      otherwise: Joi.optional(),
+    })
+    .messages({
+      'any.required': 'Custom recurrence rules require an RRULE',
+    }),
+  businessDaysOnly: Joi.boolean().optional(),
+  generateOn: Joi.string().valid(...Object.values(RecurrenceTrigger)).optional(),
+  endDate: Joi.date().optional(),
+  count: Joi.number().integer().min(1).optional()
+    .messages({
+      'number.min': 'Number of occurrences must be at least 1',
+    }),
+});
+
 /**
  * Validation schema for task creation
  * Implements strict validation rules with security considerations
@@ -122,6 +166,34 @@ export const createTaskSchema = Joi.object<CreateTaskDTO>({
       'array.max': 'Maximum 10 tags allowed',
       'string.pattern.base': 'Tags can only contain letters, numbers, hyphens, and underscores',
     }),
+
+  recurrence: recurrenceRuleSchema.allow(null).optional(),
+
+  // In the project's estimation unit, hours or points
+  originalEstimate: Joi.number()
+    .min(0)
+    .max(10000)
+    .precision(2)
+    .allow(null)
+    .optional()
+    .messages({
+      'number.min': 'Estimate must not be negative',
+      'number.max': 'Estimate must not exceed 10000',
+    }),
+
+  remainingEstimate: Joi.number()
+    .min(0)
+    .max(10000)
+    .precision(2)
+    .allow(null)
+    .optional()
+    .messages({
+      'number.min': 'Estimate must not be negative',
+      'number.max': 'Estimate must not exceed 10000',
+    }),
+
+  // Typed per project; the server validates values against the field definitions
+  customFields: Joi.object().pattern(/^[a-z][a-z0-9_]*$/, Joi.any()).optional(),
 }).options({ abortEarly: false, stripUnknown: true });
 
 /**
@@ -132,15 +204,19 @@ export const updateTaskSchema = Joi.object<UpdateTaskDTO>({
   title: createTaskSchema.extract('title').optional(),
   description: createTaskSchema.extract('description').optional(),
   status: Joi.string()
-    .valid(...Object.values(TaskStatus))
+    .pattern(WORKFLOW_STATE_KEY_PATTERN)
     .messages({
-      'any.only': 'Invalid task status',
+      'string.pattern.base': 'Invalid task status',
     }),
   priority: createTaskSchema.extract('priority').optional(),
   assigneeId: createTaskSchema.extract('assigneeId').optional(),
   dueDate: createTaskSchema.extract('dueDate').optional(),
   attachments: createTaskSchema.extract('attachments').optional(),
   tags: createTaskSchema.extract('tags').optional(),
+  recurrence: recurrenceRuleSchema.allow(null).optional(),
+  originalEstimate: createTaskSchema.extract('originalEstimate'),
+  remainingEstimate: createTaskSchema.extract('remainingEstimate'),
+  customFields: createTaskSchema.extract('customFields'),
 }).min(1).options({ abortEarly: false, stripUnknown: true });
 
 /**
@@ -149,7 +225,7 @@ export const updateTaskSchema = Joi.object<UpdateTaskDTO>({
  */
 export const taskQuerySchema = Joi.object<TaskQueryParams>({
   status: Joi.string()
-    .valid(...Object.values(TaskStatus))
+    .pattern(WORKFLOW_STATE_KEY_PATTERN)
     .optional(),
   
   priority: Joi.string()
@@ -0,0 +1,40 @@
+/**
+ * @fileoverview Test suite for bulk task change reporting
+ * @version 1.0.0
+ */
+
+import { describe, it, expect } from '@jest/globals'; // v29.0.0
+import { formatBulkSummary, getFailedBulkIds } from '../../src/utils/bulk.utils';
+import { BulkTaskOutcome, BulkUpdateResult } from '../../src/types/task.types';
+
+const result: BulkUpdateResult = {
+  results: [
+    { id: 'a' as any, outcome: BulkTaskOutcome.SUCCESS },
+    { id: 'b' as any, outcome: BulkTaskOutcome.CONFLICT, error: { code: 'VERSION_CONFLICT', message: 'Task was modified' } },
+    { id: 'c' as any, outcome: BulkTaskOutcome.FORBIDDEN, error: { code: 'FORBIDDEN', message: 'Access denied' } },
+    { id: 'd' as any, outcome: BulkTaskOutcome.SUCCESS }
+  ],
+  summary: {
+    [BulkTaskOutcome.SUCCESS]: 2,
+    [BulkTaskOutcome.CONFLICT]: 1,
+    [BulkTaskOutcome.FORBIDDEN]: 1,
+    [BulkTaskOutcome.NOT_FOUND]: 0,
+    [BulkTaskOutcome.INVALID]: 0,
+    [BulkTaskOutcome.ERROR]: 0
+  }
+};
+
+describe('Bulk Utility Tests', () => {
+  it('should summarize the outcomes that occurred', () => {
+    expect(formatBulkSummary(result)).toBe('2 updated, 1 conflict, 1 not permitted');
+  });
+
+  it('should use plurals for several tasks', () => {
+    const conflicts = { ...result, summary: { ...result.summary, [BulkTaskOutcome.CONFLICT]: 3 } };
+    expect(formatBulkSummary(conflicts)).toContain('3 conflicts');
+  });
+
+  it('should list the tasks that were not updated', () => {
+    expect(getFailedBulkIds(result)).toEqual(['b', 'c']);
+  });
+});
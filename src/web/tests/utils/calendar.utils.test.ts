@@ -0,0 +1,36 @@
+/**
+ * @fileoverview Test suite for calendar feed subscription utilities
+ * @version 1.0.0
+ */
+
+import { describe, it, expect } from '@jest/globals'; // v29.0.0
+import { buildCalendarFeedUrl, toWebcalUrl } from '../../src/utils/calendar.utils';
+
+describe('Calendar Utility Tests', () => {
+  it('should build the feed URL from the token', () => {
+    expect(buildCalendarFeedUrl('https://tasks.example.com', 'abc_123-XYZ'))
+      .toBe('https://tasks.example.com/api/v1/calendar/abc_123-XYZ.ics');
+  });
+
+  it('should add the projects and time zone to the query', () => {
+    const url = new URL(buildCalendarFeedUrl('https://tasks.example.com', 'token', {
+      projectIds: ['project-1', 'project-2'] as any,
+      timezone: 'Europe/Berlin'
+    }));
+
+    expect(url.searchParams.getAll('projectId')).toEqual(['project-1', 'project-2']);
+    expect(url.searchParams.get('tz')).toBe('Europe/Berlin');
+  });
+
+  it('should leave out the default time zone', () => {
+    expect(buildCalendarFeedUrl('https://tasks.example.com', 'token', { timezone: 'UTC' }))
+      .not.toContain('tz=');
+  });
+
+  it('should convert feed URLs to webcal URLs', () => {
+    expect(toWebcalUrl('https://tasks.example.com/api/v1/calendar/token.ics?tz=UTC'))
+      .toBe('webcal://tasks.example.com/api/v1/calendar/token.ics?tz=UTC');
+    expect(toWebcalUrl('http://localhost:3000/api/v1/calendar/token.ics'))
+      .toBe('webcal://localhost:3000/api/v1/calendar/token.ics');
+  });
+});
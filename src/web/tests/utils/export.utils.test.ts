@@ -0,0 +1,44 @@
+/**
+ * @fileoverview Test suite for list export helpers
+ * @version 1.0.0
+ */
+
+import { describe, it, expect } from '@jest/globals'; // v29.0.0
+import {
+  toTaskExportColumns,
+  toExportQuery,
+  getExportFileName
+} from '../../src/utils/export.utils';
+import { ExportFormat } from '../../src/types/export.types';
+
+describe('Export Utility Tests', () => {
+  it('should map list columns to export columns and skip custom fields', () => {
+    expect(toTaskExportColumns(['title', 'assigneeId', 'cf:points', 'projectId'])).toEqual([
+      'title',
+      'assignee',
+      'project'
+    ]);
+    expect(toTaskExportColumns([])).toEqual([]);
+  });
+
+  it('should drop pagination and unset filters from the query', () => {
+    expect(toExportQuery(
+      { page: 2, limit: 20, status: 'TODO', priority: undefined, q: '', sortBy: 'dueDate' },
+      { format: ExportFormat.XLSX, columns: ['title', 'status'] }
+    )).toEqual({
+      status: 'TODO',
+      sortBy: 'dueDate',
+      format: ExportFormat.XLSX,
+      columns: 'title,status'
+    });
+  });
+
+  it('should leave the columns to the server when none are chosen', () => {
+    expect(toExportQuery({}, { format: ExportFormat.CSV, columns: [] })).toEqual({ format: ExportFormat.CSV });
+  });
+
+  it('should name downloads after the list, day and format', () => {
+    expect(getExportFileName('projects', ExportFormat.JSON, new Date('2024-03-01T12:00:00.000Z')))
+      .toBe('projects-2024-03-01.json');
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * @fileoverview Test suite for task import dialog helpers
+ * @version 1.0.0
+ */
+
+import { describe, it, expect } from '@jest/globals'; // v29.0.0
+import {
+  compactImportMapping,
+  getImportPercentage,
+  formatImportRowError
+} from '../../src/utils/import.utils';
+import { TaskImportField, TaskImportStatus } from '../../src/types/import.types';
+
+describe('Import Utility Tests', () => {
+  it('should drop fields mapped to no column', () => {
+    expect(compactImportMapping({
+      [TaskImportField.TITLE]: 'Name',
+      [TaskImportField.TAGS]: ''
+    })).toEqual({ [TaskImportField.TITLE]: 'Name' });
+  });
+
+  it('should report the share of processed rows', () => {
+    expect(getImportPercentage({ status: TaskImportStatus.RUNNING, totalRows: 8, processedRows: 3 })).toBe(38);
+    expect(getImportPercentage({ status: TaskImportStatus.COMPLETED, totalRows: 8, processedRows: 8 })).toBe(100);
+    expect(getImportPercentage({ status: TaskImportStatus.PENDING, totalRows: 0, processedRows: 0 })).toBe(0);
+  });
+
+  it('should list the errors of a row on one line', () => {
+    expect(formatImportRowError({
+      row: 3,
+      errors: { assigneeEmail: ['bob@example.com is not a member of the project'], dueDate: ['Invalid due date'] }
+    })).toBe('Row 3: assigneeEmail: bob@example.com is not a member of the project, dueDate: Invalid due date');
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * @fileoverview Test suite for notification center helpers
+ * @version 1.0.0
+ */
+
+import { describe, it, expect } from '@jest/globals'; // v29.0.0
+import {
+  NOTIFICATION_TYPE_LABELS,
+  fromPushPayload,
+  getNotificationLink,
+  markNotificationsRead,
+  prependNotification
+} from '../../src/utils/notification.utils';
+import { Notification, NotificationType } from '../../src/types/notification.types';
+
+const buildNotification = (overrides: Partial<Notification> = {}): Notification => ({
+  id: 'notification-1' as any,
+  userId: 'user-1' as any,
+  type: NotificationType.ASSIGNMENT,
+  title: 'Ship release',
+  message: 'Assigned to you',
+  taskId: 'task-1' as any,
+  projectId: 'project-1' as any,
+  commentId: null,
+  actorId: 'user-2' as any,
+  readAt: null,
+  createdAt: '2024-03-01T10:00:00.000Z',
+  ...overrides
+});
+
+describe('Notification Utility Tests', () => {
+  it('should label every notification type', () => {
+    Object.values(NotificationType).forEach(type => {
+      expect(NOTIFICATION_TYPE_LABELS[type]).toBeTruthy();
+    });
+  });
+
+  it('should link to the task, at the comment for mentions and replies', () => {
+    expect(getNotificationLink(buildNotification())).toBe('/tasks/task-1');
+    expect(getNotificationLink(buildNotification({
+      type: NotificationType.MENTION,
+      commentId: 'comment-1' as any
+    }))).toBe('/tasks/task-1#comment-comment-1');
+    expect(getNotificationLink(buildNotification({ taskId: null }))).toBeNull();
+  });
+
+  it('should convert a pushed notification to an unread notification', () => {
+    const notification = fromPushPayload({
+      notificationId: 'notification-1' as any,
+      type: NotificationType.ASSIGNMENT,
+      title: 'Ship release',
+      message: 'Assigned to you',
+      taskId: 'task-1' as any,
+      projectId: 'project-1' as any,
+      commentId: null,
+      actorId: 'user-2' as any,
+      createdAt: '2024-03-01T10:00:00.000Z',
+      unreadCount: 4
+    }, 'user-1');
+
+    expect(notification).toEqual(buildNotification());
+  });
+
+  it('should prepend new notifications once and keep the list bounded', () => {
+    const older = buildNotification({ id: 'notification-0' as any });
+    const newer = buildNotification();
+
+    expect(prependNotification([older], newer, 10)).toEqual([newer, older]);
+    expect(prependNotification([newer, older], newer, 10)).toEqual([newer, older]);
+    expect(prependNotification([older], newer, 1)).toEqual([newer]);
+  });
+
+  it('should mark one or all notifications as read, keeping earlier read times', () => {
+    const earlier = '2024-03-01T11:00:00.000Z';
+    const now = '2024-03-02T09:00:00.000Z';
+    const notifications = [
+      buildNotification(),
+      buildNotification({ id: 'notification-2' as any }),
+      buildNotification({ id: 'notification-3' as any, readAt: earlier })
+    ];
+
+    expect(markNotificationsRead(notifications, now, 'notification-2').map(n => n.readAt))
+      .toEqual([null, now, earlier]);
+    expect(markNotificationsRead(notifications, now).map(n => n.readAt))
+      .toEqual([now, now, earlier]);
+  });
+});
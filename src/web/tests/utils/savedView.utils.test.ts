@@ -0,0 +1,47 @@
+/**
+ * @fileoverview Test suite for saved view URL utilities
+ * @version 1.0.0
+ */
+
+import { describe, it, expect } from '@jest/globals'; // v29.0.0
+import {
+  DEFAULT_VIEW_STATE,
+  viewStateToSearchParams,
+  searchParamsToViewState
+} from '../../src/utils/savedView.utils';
+import { SavedViewLayout, SavedViewState } from '../../src/types/savedView.types';
+import { TaskPriority } from '../../src/types/task.types';
+
+describe('Saved View URL Tests', () => {
+  it('should restore a view state from its URL', () => {
+    const state: SavedViewState = {
+      projectId: '1b4e28ba-2fa1-4d3b-a3f5-ef19b5a7633b' as any,
+      layout: SavedViewLayout.BOARD,
+      filters: {
+        status: 'IN_PROGRESS',
+        priority: TaskPriority.HIGH,
+        topLevelOnly: true,
+        customField: ['points:gte:3', 'team:eq:core']
+      },
+      sortBy: 'dueDate',
+      sortOrder: 'asc',
+      groupBy: 'assignee',
+      columns: ['title', 'dueDate', 'cf:points']
+    };
+
+    const params = viewStateToSearchParams(state, 'view-1');
+
+    expect(params.get('view')).toBe('view-1');
+    expect(searchParamsToViewState(params)).toEqual(state);
+  });
+
+  it('should leave defaults out of the URL', () => {
+    expect(viewStateToSearchParams(DEFAULT_VIEW_STATE).toString()).toBe('');
+  });
+
+  it('should fall back to defaults for unknown values', () => {
+    const params = new URLSearchParams('layout=TABLE&sortOrder=up&groupBy=colour&priority=SOON');
+
+    expect(searchParamsToViewState(params)).toEqual(DEFAULT_VIEW_STATE);
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * @fileoverview Test suite for search result rendering utilities
+ * @version 1.0.0
+ */
+
+import { describe, it, expect } from '@jest/globals'; // v29.0.0
+import { splitHighlight, getSearchHitLink } from '../../src/utils/search.utils';
+import { SearchHit, SearchResultType } from '../../src/types/search.types';
+
+describe('Search Utility Tests', () => {
+  it('should split a highlight into matched and plain text', () => {
+    expect(splitHighlight('Users see a <mark>timeout</mark> after <mark>login</mark>')).toEqual([
+      { text: 'Users see a ', match: false },
+      { text: 'timeout', match: true },
+      { text: ' after ', match: false },
+      { text: 'login', match: true }
+    ]);
+  });
+
+  it('should keep other markup as plain text', () => {
+    expect(splitHighlight('<b>bold</b> <mark>login</mark>')).toEqual([
+      { text: '<b>bold</b> ', match: false },
+      { text: 'login', match: true }
+    ]);
+  });
+
+  it('should open comments on their task', () => {
+    const hit: SearchHit = {
+      type: SearchResultType.COMMENT,
+      id: 'comment-1' as any,
+      title: 'Login times out',
+      highlight: '',
+      rank: 0.5,
+      projectId: 'project-1' as any,
+      projectName: 'Apollo',
+      taskId: 'task-1' as any
+    };
+
+    expect(getSearchHitLink(hit)).toBe('/tasks/task-1#comment-comment-1');
+  });
+});
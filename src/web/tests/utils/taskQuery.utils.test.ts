@@ -0,0 +1,56 @@
+/**
+ * @fileoverview Test suite for task query autocompletion
+ * @version 1.0.0
+ */
+
+import { describe, it, expect } from '@jest/globals'; // v29.0.0
+import { getTaskQueryCompletion, applyTaskQuerySuggestion } from '../../src/utils/taskQuery.utils';
+
+const labels = (query: string, hints = {}) =>
+  getTaskQueryCompletion(query, query.length, hints).suggestions.map(suggestion => suggestion.label);
+
+describe('Task Query Utility Tests', () => {
+  it('should suggest fields matching the word being typed', () => {
+    expect(labels('as')).toEqual(['assignee']);
+    expect(labels('status = TODO AND pr')).toEqual(['priority']);
+    expect(labels('NOT (du')).toEqual(['due']);
+  });
+
+  it('should suggest the operators of the field', () => {
+    expect(labels('due ')).toEqual(['=', '!=', '<', '<=', '>', '>=', 'is empty', 'is not empty']);
+    expect(labels('tag ')).toContain('in (…)');
+  });
+
+  it('should suggest values of the compared field', () => {
+    expect(labels('assignee = ')).toEqual(['me']);
+    expect(labels('priority >= H')).toEqual(['HIGH']);
+    expect(labels('due < +')).toEqual(['+7d', '+1m']);
+    expect(labels('tag in (backend, ', { tags: ['backend', 'api', 'needs review'] }))
+      .toEqual(['backend', 'api', 'needs review']);
+  });
+
+  it('should suggest connectives and the ordering after a condition', () => {
+    expect(labels('assignee = me ')).toEqual(['AND', 'OR', 'ORDER BY']);
+    expect(labels('tag in (api) o')).toEqual(['OR', 'ORDER BY']);
+    expect(labels('due is empty ORDER BY ')).toContain('due');
+    expect(labels('ORDER BY due ')).toEqual(['ASC', 'DESC']);
+  });
+
+  it('should replace the word being typed with the picked suggestion', () => {
+    const query = 'assignee = me AND pri';
+    const completion = getTaskQueryCompletion(query);
+
+    expect(applyTaskQuerySuggestion(query, completion, completion.suggestions[0])).toEqual({
+      query: 'assignee = me AND priority ',
+      cursor: 27
+    });
+  });
+
+  it('should keep lists open for their first value', () => {
+    const query = 'tag ';
+    const completion = getTaskQueryCompletion(query);
+    const list = completion.suggestions.find(suggestion => suggestion.insert === 'in (')!;
+
+    expect(applyTaskQuerySuggestion(query, completion, list).query).toBe('tag in (');
+  });
+});
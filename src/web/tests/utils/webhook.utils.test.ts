@@ -0,0 +1,62 @@
+/**
+ * @fileoverview Test suite for webhook delivery log display helpers
+ * @version 1.0.0
+ */
+
+import { describe, it, expect } from '@jest/globals'; // v29.0.0
+import {
+  WEBHOOK_EVENT_LABELS,
+  canRedeliver,
+  describeDeliveryOutcome,
+  getDeliveryStatusColor
+} from '../../src/utils/webhook.utils';
+import { WebhookDelivery, WebhookDeliveryStatus, WebhookEventType } from '../../src/types/webhook.types';
+
+const buildDelivery = (overrides: Partial<WebhookDelivery> = {}): WebhookDelivery => ({
+  id: 'delivery-1' as any,
+  webhookId: 'webhook-1' as any,
+  eventId: 'event-1' as any,
+  eventType: WebhookEventType.TASK_CREATED,
+  payload: {},
+  status: WebhookDeliveryStatus.PENDING,
+  attempts: 0,
+  responseStatus: null,
+  responseBody: null,
+  error: null,
+  durationMs: null,
+  nextAttemptAt: null,
+  deliveredAt: null,
+  redeliveryOfId: null,
+  createdAt: '2024-03-01T10:00:00.000Z',
+  ...overrides
+});
+
+describe('Webhook Utility Tests', () => {
+  it('should label every event type', () => {
+    Object.values(WebhookEventType).forEach(event => {
+      expect(WEBHOOK_EVENT_LABELS[event]).toBeTruthy();
+    });
+  });
+
+  it('should color deliveries by status', () => {
+    expect(getDeliveryStatusColor(WebhookDeliveryStatus.PENDING)).toBe('info');
+    expect(getDeliveryStatusColor(WebhookDeliveryStatus.RETRYING)).toBe('warning');
+    expect(getDeliveryStatusColor(WebhookDeliveryStatus.SUCCEEDED)).toBe('success');
+    expect(getDeliveryStatusColor(WebhookDeliveryStatus.FAILED)).toBe('error');
+  });
+
+  it('should describe the latest attempt', () => {
+    expect(describeDeliveryOutcome(buildDelivery())).toBe('Not attempted yet');
+    expect(describeDeliveryOutcome(buildDelivery({ attempts: 1, responseStatus: 200 })))
+      .toBe('HTTP 200 after 1 attempt');
+    expect(describeDeliveryOutcome(buildDelivery({ attempts: 3, error: 'No response within 10 seconds' })))
+      .toBe('No response within 10 seconds after 3 attempts');
+  });
+
+  it('should only redeliver completed deliveries', () => {
+    expect(canRedeliver(buildDelivery({ status: WebhookDeliveryStatus.FAILED }))).toBe(true);
+    expect(canRedeliver(buildDelivery({ status: WebhookDeliveryStatus.SUCCEEDED }))).toBe(true);
+    expect(canRedeliver(buildDelivery({ status: WebhookDeliveryStatus.RETRYING }))).toBe(false);
+    expect(canRedeliver(buildDelivery({ status: WebhookDeliveryStatus.PENDING }))).toBe(false);
+  });
+});